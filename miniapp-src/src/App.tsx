@@ -1,4 +1,4 @@
-import { Fragment, useEffect, useRef, useState, useMemo, type CSSProperties } from 'react';
+import { Fragment, useEffect, useRef, useState, useMemo, type CSSProperties, type ReactNode } from 'react';
 import {
   Archive,
   BarChart3,
@@ -10,15 +10,20 @@ import {
   Clipboard,
   Clock3,
   Copy,
+  Download,
+  Eye,
   Gift,
   Link2,
   MoreHorizontal,
+  Pencil,
   Pill,
   Play,
   Plus,
   RotateCcw,
   Search,
   ShoppingCart,
+  Tags,
+  Upload,
 } from 'lucide-react';
 import {
   Accordion,
@@ -44,9 +49,18 @@ import {
 } from './components/ui';
 import { cn } from './lib/utils';
 import { buildMessageLink, getMessageLink } from './linkUtils';
+import {
+  buildFormattedNodes,
+  getCardFormattedText,
+  getEntityHref,
+  getFaceEntities,
+  type FormattedNode,
+  type MessageEntity,
+} from './messageEntities';
 
 type CardStatus = 'pending' | 'learning' | 'awaiting_grade' | 'archived';
-type ViewName = 'create' | 'queue' | 'courses' | 'cards' | 'calendar' | 'stats' | 'balance' | 'card-detail' | 'notification-detail';
+type ViewName = 'create' | 'queue' | 'courses' | 'cards' | 'calendar' | 'stats' | 'balance' | 'leeches' | 'card-detail' | 'notification-detail';
+type LeechAction = 'suspend' | 'resume' | 'archive' | 'clear';
 type SortMode = 'nextReviewAsc' | 'nextReviewDesc' | 'updatedDesc' | 'repetitionDesc';
 type NotificationReason = 'scheduled' | 'manual_now' | 'manual_override' | 'one_time';
 
@@ -58,12 +72,17 @@ type CardRecord = {
   contentType: string;
   contentPreview: string | null;
   contentFileId?: string | null;
+  contentPayload?: string | null;
+  tags?: string[];
   reminderMode?: string;
   scheduleRule?: string | null;
   status: CardStatus;
   repetition: number;
   nextReviewAt: string | null;
   lastReviewedAt: string | null;
+  lapses?: number;
+  leechAt?: string | null;
+  suspendedAt?: string | null;
   pendingChannelId: string | null;
   pendingChannelMessageId: number | null;
   baseChannelMessageId: number | null;
@@ -75,6 +94,50 @@ type CardRecord = {
   updatedAt: string;
 };
 
+type CardFaces = {
+  kind: 'front_back' | 'cloze';
+  front: string;
+  back: string;
+};
+
+type QueueGrade = 'again' | 'hard' | 'good' | 'easy';
+
+type DeckRecord = {
+  tag: string;
+  cardCount: number;
+  dailyLimit: number | null;
+  deliveredToday: number;
+};
+
+type ReviewLogGrade = 'again' | 'hard' | 'good' | 'easy' | 'preset' | 'schedule_change';
+
+type ReviewLogRecord = {
+  id: string;
+  cardId: string;
+  jobId: string | null;
+  grade: ReviewLogGrade;
+  reminderMode: string;
+  repetition: number;
+  previousIntervalDays: number | null;
+  nextIntervalDays: number;
+  elapsedDays: number | null;
+  latencyMs: number | null;
+  reviewedAt: string;
+  nextReviewAt: string;
+};
+
+type CardRevisionSource = 'reply' | 'source_edit' | 'miniapp';
+
+type CardRevisionRecord = {
+  id: string;
+  cardId: string;
+  source: CardRevisionSource;
+  editedBy: string | null;
+  contentType: string;
+  contentPreview: string | null;
+  createdAt: string;
+};
+
 type Stats = {
   total: number;
   dueToday: number;
@@ -84,11 +147,55 @@ type Stats = {
   archived: number;
 };
 
+type LearningAnalytics = {
+  generatedAt: string;
+  timezone: string;
+  historyDays: number;
+  reviewCount: number;
+  streak: { current: number; longest: number; reviewedToday: boolean; activeDays: number };
+  grades: Array<{ grade: QueueGrade; count: number; share: number; retention: number | null }>;
+  trueRetention: Array<{ label: string; minDays: number; maxDays: number | null; reviews: number; passed: number; retention: number | null }>;
+  latency: { averageMs: number | null; medianMs: number | null; samples: number };
+  forecast: Array<{ date: string; due: number }>;
+};
+
+type DefaultReminderMode = 'sm2' | 'fsrs';
+
+type ActiveHoursWindow = { start: number; end: number };
+
 type ReminderSettings = {
   timezone: string;
   activeHoursStart: number;
   activeHoursEnd: number;
   minGapMinutes: number;
+  defaultReminderMode?: DefaultReminderMode;
+  /** Seven entries from Sunday; `null` — no reminders that day. */
+  weekdayHours?: Array<ActiveHoursWindow | null> | null;
+  dailyReviewLimit?: number | null;
+  dailyNewCardLimit?: number | null;
+  /** 0 = Sunday; `null` — no weekly report. */
+  weeklyReportWeekday?: number | null;
+  /** «Снова» answers after which a card counts as a leech. */
+  leechThreshold?: number;
+};
+
+type DeliveryPause = {
+  doNotDisturbUntil: string | null;
+  vacationSince: string | null;
+  vacationUntil: string | null;
+  vacationSpreadDays: number;
+};
+
+/** `null` — every review comes as its own message. */
+type ReminderDigest = {
+  sendAtMinutes: number;
+  nextDigestAt: string;
+} | null;
+
+type VacationInput = {
+  enabled: boolean;
+  until?: string | null;
+  spreadDays?: number;
 };
 
 type MiniAppProfile = {
@@ -130,6 +237,8 @@ type RebalancePreview = {
     slots: string[];
     before: number[][];
     after: number[][];
+    limitHitBefore?: boolean[];
+    limitHitAfter?: boolean[];
   };
   changes: RebalanceChange[];
 };
@@ -180,6 +289,15 @@ type CreatedHouseholdReminder = {
   plan: HouseholdReminderPlan;
 };
 
+type DeckImportResult = {
+  format: 'apkg' | 'csv';
+  imported: number;
+  skipped: number;
+  scheduled: number;
+};
+
+type CollectionExportFormat = 'json' | 'csv' | 'anki';
+
 type CourseStepKind = 'material' | 'practice' | 'question';
 
 type CourseSummary = {
@@ -253,6 +371,27 @@ const notificationReasonLabel: Record<NotificationReason, string> = {
   one_time: 'одноразовое',
 };
 
+const QUEUE_GRADES: QueueGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// Tags never contain `*`, so it is safe as the "all decks" select value.
+const ALL_TAGS = '*';
+const SEARCH_MIN_LENGTH = 2;
+
+const revisionSourceLabel: Record<CardRevisionSource, string> = {
+  reply: 'ответ на напоминание',
+  source_edit: 'правка сообщения',
+  miniapp: 'Mini App',
+};
+
+const reviewGradeLabel: Record<ReviewLogGrade, string> = {
+  again: 'Снова',
+  hard: 'Сложно',
+  good: 'Хорошо',
+  easy: 'Легко',
+  preset: 'Интервал вручную',
+  schedule_change: 'Смена расписания',
+};
+
 const demoCards: CardRecord[] = [
   {
     id: 'bd2a193e-ee12-49b0-8845-3d4aa27dfab9',
@@ -280,10 +419,13 @@ const demoCards: CardRecord[] = [
     sourceMessageId: 1710,
     contentType: 'text',
     contentPreview: 'Короткая текстовая заметка без ссылки, чтобы проверить вертикальные интервалы и плотность карточек.',
+    tags: ['заметки'],
     status: 'learning',
     repetition: 1,
     nextReviewAt: '2026-04-30T09:10:00.000Z',
     lastReviewedAt: null,
+    lapses: 9,
+    leechAt: '2026-04-29T08:40:00.000Z',
     pendingChannelId: null,
     pendingChannelMessageId: null,
     baseChannelMessageId: null,
@@ -300,6 +442,13 @@ const demoCards: CardRecord[] = [
     sourceMessageId: 1731,
     contentType: 'text',
     contentPreview: 'Разобрать заметки по проекту и вынести повторяемые правила в короткий список.',
+    contentPayload: JSON.stringify({
+      entities: [
+        { type: 'bold', offset: 0, length: 17 },
+        { type: 'italic', offset: 61, length: 15 },
+      ],
+    }),
+    tags: ['работа', 'заметки'],
     status: 'pending',
     repetition: 0,
     nextReviewAt: null,
@@ -314,15 +463,70 @@ const demoCards: CardRecord[] = [
     createdAt: '2026-04-28T11:00:00.000Z',
     updatedAt: '2026-04-28T11:00:00.000Z',
   },
+  {
+    id: '5b7c1e0a-3f2d-4c8e-9a41-6d0f2b8e7c55',
+    sourceChatId: '359367655',
+    sourceMessageId: 1742,
+    contentType: 'text',
+    contentPreview: 'Столица Грузии — {{c1::Тбилиси}}, крупнейший порт — {{c2::Батуми::город на море}}.',
+    contentPayload: JSON.stringify({
+      faces: {
+        kind: 'cloze',
+        front: 'Столица Грузии — […], крупнейший порт — [город на море].',
+        back: 'Столица Грузии — [Тбилиси], крупнейший порт — [Батуми].',
+      },
+    }),
+    tags: ['география'],
+    status: 'learning',
+    repetition: 2,
+    nextReviewAt: '2026-04-29T18:00:00.000Z',
+    lastReviewedAt: '2026-04-27T18:00:00.000Z',
+    pendingChannelId: null,
+    pendingChannelMessageId: null,
+    baseChannelMessageId: null,
+    awaitingGradeSince: null,
+    lastNotificationAt: null,
+    lastNotificationReason: null,
+    lastNotificationMessageId: null,
+    createdAt: '2026-04-27T08:00:00.000Z',
+    updatedAt: '2026-04-27T18:00:00.000Z',
+  },
 ];
 
+const demoDeckLimits: Record<string, number | null> = { география: 5 };
+const demoRevisions: Record<string, CardRevisionRecord[]> = {};
+
 const demoReminderSettings: ReminderSettings = {
   timezone: 'Asia/Tbilisi',
   activeHoursStart: 10 * 60,
   activeHoursEnd: 22 * 60,
   minGapMinutes: 30,
+  defaultReminderMode: 'sm2',
+  weekdayHours: null,
+  dailyReviewLimit: null,
+  dailyNewCardLimit: 10,
+  weeklyReportWeekday: 0,
+  leechThreshold: 8,
+};
+
+const demoDeliveryPause: DeliveryPause = {
+  doNotDisturbUntil: null,
+  vacationSince: null,
+  vacationUntil: null,
+  vacationSpreadDays: 3,
 };
 
+// Monday-first rows over `weekdayHours`, which is indexed from Sunday.
+const WEEKDAY_ROWS = [
+  { index: 1, label: 'Пн' },
+  { index: 2, label: 'Вт' },
+  { index: 3, label: 'Ср' },
+  { index: 4, label: 'Чт' },
+  { index: 5, label: 'Пт' },
+  { index: 6, label: 'Сб' },
+  { index: 0, label: 'Вс' },
+];
+
 const demoCourses: CourseSummary[] = [
   {
     id: 'demo-course-sql',
@@ -376,6 +580,21 @@ const formatDateShort = (iso?: string | null) => {
   return date.toLocaleString('ru', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
 };
 
+const formatIntervalDays = (days: number | null) => {
+  if (days === null) return '—';
+  if (days < 1) return `${Math.max(1, Math.round(days * 24))} ч`;
+  return `${Math.round(days)} д`;
+};
+
+const formatLatency = (ms: number | null) => {
+  if (ms === null) return null;
+  if (ms < 60_000) return `${Math.max(1, Math.round(ms / 1000))} с`;
+  if (ms < 60 * 60_000) return `${Math.round(ms / 60_000)} мин`;
+  return `${Math.round(ms / (60 * 60_000))} ч`;
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
 const formatTimeOnly = (iso?: string | null) => {
   if (!iso) return '—';
   const date = new Date(iso);
@@ -418,6 +637,22 @@ const toDateKey = (value: string | Date) => {
   return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 };
 
+const getCardFaces = (card: CardRecord): CardFaces | null => {
+  if (card.contentType !== 'text' || !card.contentPayload) return null;
+  try {
+    const faces = JSON.parse(card.contentPayload)?.faces as CardFaces | undefined;
+    return faces?.front && faces.back ? faces : null;
+  } catch {
+    return null;
+  }
+};
+
+const collectTags = (cards: CardRecord[]) =>
+  Array.from(new Set(cards.flatMap((card) => card.tags ?? []))).sort((a, b) => a.localeCompare(b, 'ru'));
+
+const parseTagsDraft = (value: string) =>
+  value.split(/[\s,]+/).map((tag) => tag.replace(/^#+/, '').trim()).filter(Boolean);
+
 const safeDate = (iso?: string | null, fallback = Number.POSITIVE_INFINITY) => {
   const ms = iso ? new Date(iso).getTime() : Number.NaN;
   return Number.isFinite(ms) ? ms : fallback;
@@ -453,14 +688,30 @@ export function App() {
   const [profile, setProfile] = useState<MiniAppProfile | null>(null);
   const [stats, setStats] = useState<Stats | null>(null);
   const [statsError, setStatsError] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<LearningAnalytics | null>(null);
+  const [analyticsError, setAnalyticsError] = useState<string | null>(null);
+  const [leeches, setLeeches] = useState<CardRecord[] | null>(null);
+  const [leechesError, setLeechesError] = useState<string | null>(null);
   const [reminderSettings, setReminderSettings] = useState<ReminderSettings | null>(null);
   const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [deliveryPause, setDeliveryPause] = useState<DeliveryPause | null>(null);
+  const [reminderDigest, setReminderDigest] = useState<ReminderDigest>(null);
   const [rebalancePreview, setRebalancePreview] = useState<RebalancePreview | null>(null);
   const [rebalanceError, setRebalanceError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<CardStatus | 'all'>('all');
+  const [tagFilter, setTagFilter] = useState<string>(ALL_TAGS);
+  const [queueTag, setQueueTag] = useState<string | null>(null);
+  const [decks, setDecks] = useState<DeckRecord[] | null>(null);
+  const [decksError, setDecksError] = useState<string | null>(null);
   const [sortMode, setSortMode] = useState<SortMode>('nextReviewAsc');
   const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<CardRecord[] | null>(null);
+  const [searchLoading, setSearchLoading] = useState(false);
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+  const [cardHistory, setCardHistory] = useState<ReviewLogRecord[] | null>(null);
+  const [cardHistoryError, setCardHistoryError] = useState<string | null>(null);
+  const [cardRevisions, setCardRevisions] = useState<CardRevisionRecord[] | null>(null);
+  const [cardRevisionsError, setCardRevisionsError] = useState<string | null>(null);
   const [calendarMonth, setCalendarMonth] = useState(() => new Date());
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -476,6 +727,8 @@ export function App() {
         ? 'Уведомление'
         : view === 'balance'
           ? 'Распределение'
+        : view === 'leeches'
+          ? 'Трудные карточки'
         : view === 'courses'
           ? 'Курсы'
         : view === 'calendar'
@@ -500,6 +753,8 @@ export function App() {
         ? 'Короткая сводка по прогрессу.'
         : view === 'balance'
           ? 'Визуальная проверка расписания до применения.'
+        : view === 'leeches'
+          ? 'Карточки, на которые слишком часто отвечали «Снова».'
         : view === 'card-detail'
           ? 'Содержимое, расписание и действия.'
           : view === 'notification-detail'
@@ -541,12 +796,13 @@ export function App() {
     }
   };
 
-  const loadQueue = async () => {
+  const loadQueue = async (tag: string | null = queueTag) => {
     if (!ownerToolsAvailable) return;
     setQueueLoading(true);
     setQueueError(null);
     try {
-      const result = await apiCall<{ data: { items: ReminderQueueItem[] } }>('/api/miniapp/queue?limit=20');
+      const tagParam = tag ? `&tag=${encodeURIComponent(tag)}` : '';
+      const result = await apiCall<{ data: { items: ReminderQueueItem[] } }>(`/api/miniapp/queue?limit=20${tagParam}`);
       setQueueItems(result.data.items || []);
     } catch (err) {
       setQueueError(err instanceof Error ? err.message : String(err));
@@ -596,6 +852,30 @@ export function App() {
     }
   };
 
+  const loadAnalytics = async () => {
+    setAnalyticsError(null);
+    if (demo) {
+      setAnalytics(buildDemoAnalytics());
+      return;
+    }
+    try {
+      const result = await apiCall<{ data: LearningAnalytics }>('/api/miniapp/stats/analytics');
+      setAnalytics(result.data);
+    } catch (err) {
+      setAnalyticsError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadLeeches = async () => {
+    setLeechesError(null);
+    try {
+      const result = await apiCall<{ data: CardRecord[] }>('/api/miniapp/cards?leech=1');
+      setLeeches(result.data || []);
+    } catch (err) {
+      setLeechesError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   const loadReminderSettings = async () => {
     setSettingsError(null);
     if (demo) {
@@ -610,11 +890,73 @@ export function App() {
     }
   };
 
+  const loadDeliveryPause = async () => {
+    if (demo) {
+      setDeliveryPause((current) => current ?? demoDeliveryPause);
+      return;
+    }
+    try {
+      const result = await apiCall<{ data: DeliveryPause }>('/api/miniapp/settings/pause');
+      setDeliveryPause(result.data);
+    } catch (err) {
+      setSettingsError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadReminderDigest = async () => {
+    if (demo) return;
+    try {
+      const result = await apiCall<{ data: ReminderDigest }>('/api/miniapp/settings/digest');
+      setReminderDigest(result.data);
+    } catch (err) {
+      setSettingsError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadDecks = async () => {
+    setDecksError(null);
+    try {
+      const result = await apiCall<{ data: DeckRecord[] }>('/api/miniapp/decks');
+      setDecks(result.data || []);
+    } catch (err) {
+      setDecksError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadCardHistory = async (cardId: string) => {
+    setCardHistory(null);
+    setCardHistoryError(null);
+    try {
+      const result = await apiCall<{ data: ReviewLogRecord[] }>(`/api/miniapp/cards/${cardId}/history`);
+      setCardHistory(result.data || []);
+    } catch (err) {
+      setCardHistoryError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadCardRevisions = async (cardId: string) => {
+    setCardRevisions(null);
+    setCardRevisionsError(null);
+    try {
+      const result = await apiCall<{ data: CardRevisionRecord[] }>(`/api/miniapp/cards/${cardId}/revisions`);
+      setCardRevisions(result.data || []);
+    } catch (err) {
+      setCardRevisionsError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   useEffect(() => {
     void loadProfile();
     void loadCards('all');
   }, []);
 
+  useEffect(() => {
+    if (view === 'card-detail' && selectedCardId) {
+      void loadCardHistory(selectedCardId);
+      void loadCardRevisions(selectedCardId);
+    }
+  }, [view, selectedCardId]);
+
   useEffect(() => {
     const deepLink = parseStartParam();
     if (!deepLink || loading || !cards.length) return;
@@ -626,7 +968,7 @@ export function App() {
       setSelectedCardId(deepLink.cardId);
       setView('notification-detail');
     }
-    if (deepLink.type === 'view' && ['create', 'queue', 'courses', 'cards', 'calendar', 'stats', 'balance'].includes(deepLink.view)) {
+    if (deepLink.type === 'view' && ['create', 'queue', 'courses', 'cards', 'calendar', 'stats', 'balance', 'leeches'].includes(deepLink.view)) {
       setView(deepLink.view);
     }
   }, [loading, cards.length]);
@@ -634,10 +976,18 @@ export function App() {
   useEffect(() => {
     if (view === 'stats') {
       void loadStats();
+      void loadAnalytics();
       void loadReminderSettings();
+      void loadDeliveryPause();
+      void loadReminderDigest();
+      void loadDecks();
     }
   }, [view]);
 
+  useEffect(() => {
+    if (view === 'leeches') void loadLeeches();
+  }, [view]);
+
   useEffect(() => {
     if ((view === 'balance' || view === 'queue' || view === 'courses') && profile && !profile.ownerTools) {
       setView('cards');
@@ -656,20 +1006,56 @@ export function App() {
     }
   }, [view, profile?.ownerTools]);
 
+  useEffect(() => {
+    const search = query.trim();
+    if (search.length < SEARCH_MIN_LENGTH) {
+      setSearchResults(null);
+      setSearchLoading(false);
+      return;
+    }
+    setSearchLoading(true);
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      apiCall<{ data: CardRecord[] }>(`/api/miniapp/cards/search?q=${encodeURIComponent(search)}`)
+        .then((result) => {
+          if (!cancelled) setSearchResults(result.data || []);
+        })
+        .catch(() => {
+          // Queries without searchable words (only punctuation, an ID fragment) fall back to the local filter.
+          if (!cancelled) setSearchResults(null);
+        })
+        .finally(() => {
+          if (!cancelled) setSearchLoading(false);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query]);
+
   const visibleCards = useMemo(() => {
     const normalized = query.trim().toLowerCase();
-    const filtered = cards.filter((card) => {
+    // Server results keep their relevance order; local state wins so archive/tag edits show up immediately.
+    const source = searchResults
+      ? searchResults.map((result) => cards.find((card) => card.id === result.id) ?? result)
+      : cards;
+    const filtered = source.filter((card) => {
       if (statusFilter !== 'all' && card.status !== statusFilter) return false;
-      if (!normalized) return true;
+      if (tagFilter !== ALL_TAGS && !card.tags?.includes(tagFilter)) return false;
+      if (searchResults || !normalized) return true;
       return (card.contentPreview || '').toLowerCase().includes(normalized) || card.id.toLowerCase().includes(normalized);
     });
+    if (searchResults) return filtered;
     return [...filtered].sort((a, b) => {
       if (sortMode === 'nextReviewDesc') return safeDate(b.nextReviewAt, -1) - safeDate(a.nextReviewAt, -1);
       if (sortMode === 'updatedDesc') return safeDate(b.updatedAt, -1) - safeDate(a.updatedAt, -1);
       if (sortMode === 'repetitionDesc') return Number(b.repetition || 0) - Number(a.repetition || 0);
       return safeDate(a.nextReviewAt) - safeDate(b.nextReviewAt);
     });
-  }, [cards, query, sortMode, statusFilter]);
+  }, [cards, query, searchResults, sortMode, statusFilter, tagFilter]);
+
+  const tagOptions = useMemo(() => collectTags(cards), [cards]);
 
   const selectedCard = useMemo(() => cards.find((card) => card.id === selectedCardId) || null, [cards, selectedCardId]);
   const scheduledCards = useMemo(() => cards.filter((card) => card.status === 'learning' && card.nextReviewAt), [cards]);
@@ -692,6 +1078,83 @@ export function App() {
     }
   };
 
+  const saveCardTags = async (card: CardRecord, tags: string[]) => {
+    setBusyKey(`tags:${card.id}`);
+    try {
+      const result = await apiCall<{ data: CardRecord }>(`/api/miniapp/cards/${card.id}/tags`, {
+        method: 'PUT',
+        body: JSON.stringify({ tags }),
+      });
+      setCards((items) => items.map((item) => (item.id === card.id ? { ...item, ...result.data } : item)));
+      tg.HapticFeedback?.notificationOccurred?.('success');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const saveCardContent = async (card: CardRecord, text: string) => {
+    setBusyKey(`content:${card.id}`);
+    try {
+      const result = await apiCall<{ data: CardRecord }>(`/api/miniapp/cards/${card.id}/content`, {
+        method: 'PUT',
+        body: JSON.stringify({ text }),
+      });
+      setCards((items) => items.map((item) => (item.id === card.id ? { ...item, ...result.data } : item)));
+      tg.HapticFeedback?.notificationOccurred?.('success');
+      await loadCardRevisions(card.id);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const saveCardSchedule = async (card: CardRecord, text: string) => {
+    setBusyKey(`schedule:${card.id}`);
+    try {
+      const result = await apiCall<{ data: CardRecord }>(`/api/miniapp/cards/${card.id}/schedule`, {
+        method: 'POST',
+        body: JSON.stringify({ text }),
+      });
+      setCards((items) => items.map((item) => (item.id === card.id ? { ...item, ...result.data } : item)));
+      tg.HapticFeedback?.notificationOccurred?.('success');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const saveDeckLimit = async (tag: string, dailyLimit: number | null) => {
+    setBusyKey(`deck:${tag}`);
+    try {
+      await apiCall(`/api/miniapp/decks/${encodeURIComponent(tag)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ dailyLimit }),
+      });
+      tg.HapticFeedback?.notificationOccurred?.('success');
+      await loadDecks();
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const runLeechAction = async (card: CardRecord, action: LeechAction) => {
+    setBusyKey(`leech:${card.id}`);
+    try {
+      const result = await apiCall<{ data: CardRecord }>(`/api/miniapp/cards/${card.id}/leech`, {
+        method: 'POST',
+        body: JSON.stringify({ action }),
+      });
+      const updated = result.data;
+      setCards((items) => items.map((item) => (item.id === updated.id ? updated : item)));
+      setLeeches((items) =>
+        (items ?? []).flatMap((item) => (item.id !== updated.id ? [item] : updated.leechAt ? [updated] : [])),
+      );
+      tg.HapticFeedback?.notificationOccurred?.('success');
+    } catch (err) {
+      showAlert(err instanceof Error ? err.message : 'Не удалось обновить карточку');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
   const requestArchive = (card: CardRecord) => {
     const archived = card.status === 'archived';
     setConfirm({
@@ -764,6 +1227,125 @@ export function App() {
     }
   };
 
+  const saveDoNotDisturb = async (until: string | null) => {
+    setBusyKey('settings:pause');
+    try {
+      if (!demo) {
+        const result = await apiCall<{ data: DeliveryPause; rescheduled: number }>('/api/miniapp/settings/do-not-disturb', {
+          method: 'POST',
+          body: JSON.stringify({ until }),
+        });
+        setDeliveryPause(result.data);
+      } else {
+        setDeliveryPause((current) => ({ ...(current ?? demoDeliveryPause), doNotDisturbUntil: until }));
+      }
+      tg.HapticFeedback?.notificationOccurred?.('success');
+      showAlert(until ? `Не беспокоить до ${formatDateShort(until)}` : 'Режим «Не беспокоить» выключен');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const saveReminderDigest = async (sendAtMinutes: number | null) => {
+    setBusyKey('settings:digest');
+    try {
+      if (!demo) {
+        const result = await apiCall<{ data: ReminderDigest }>('/api/miniapp/settings/digest', {
+          method: 'POST',
+          body: JSON.stringify({ sendAtMinutes }),
+        });
+        setReminderDigest(result.data);
+      } else {
+        setReminderDigest(sendAtMinutes === null ? null : { sendAtMinutes, nextDigestAt: new Date().toISOString() });
+      }
+      tg.HapticFeedback?.notificationOccurred?.('success');
+      showAlert(
+        sendAtMinutes === null
+          ? 'Повторения снова приходят по одному'
+          : `Сводка будет приходить в ${minutesToTimeValue(sendAtMinutes)}`,
+      );
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const saveVacation = async (input: VacationInput) => {
+    setBusyKey('settings:pause');
+    try {
+      let rescheduled = 0;
+      if (!demo) {
+        const result = await apiCall<{ data: DeliveryPause; rescheduled: number }>('/api/miniapp/settings/vacation', {
+          method: 'POST',
+          body: JSON.stringify(input),
+        });
+        setDeliveryPause(result.data);
+        rescheduled = result.rescheduled;
+      } else {
+        setDeliveryPause((current) => ({
+          ...(current ?? demoDeliveryPause),
+          vacationSince: input.enabled ? new Date().toISOString() : null,
+          vacationUntil: input.enabled ? input.until ?? null : null,
+          vacationSpreadDays: input.spreadDays ?? current?.vacationSpreadDays ?? demoDeliveryPause.vacationSpreadDays,
+        }));
+      }
+      tg.HapticFeedback?.notificationOccurred?.('success');
+      showAlert(
+        input.enabled
+          ? 'Отпуск включён: напоминания приостановлены'
+          : rescheduled
+            ? `С возвращением! Накопившиеся повторения (${rescheduled}) распределены на несколько дней`
+            : 'С возвращением! Напоминания снова включены',
+      );
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const importDeck = async (file: File) => {
+    setBusyKey('deck:import');
+    try {
+      const result = await apiCall<{ data: DeckImportResult }>('/api/miniapp/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+      });
+      tg.HapticFeedback?.notificationOccurred?.('success');
+      const scheduled = result.data.scheduled ? `, с расписанием: ${result.data.scheduled}` : '';
+      showAlert(`Импортировано карточек: ${result.data.imported}${scheduled}`);
+      await loadCards('all');
+      await loadStats();
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const downloadExport = async (format: CollectionExportFormat) => {
+    setBusyKey(`export:${format}`);
+    try {
+      let blob: Blob;
+      let filename = `interval-learn-export.${format === 'csv' ? 'zip' : format === 'anki' ? 'txt' : 'json'}`;
+      if (demo) {
+        blob = new Blob([JSON.stringify({ cards }, null, 2)], { type: 'application/json' });
+      } else {
+        if (!tg.initData) throw new Error('Telegram initData не доступен. Откройте приложение через бота.');
+        const response = await fetch(`${window.location.origin}/api/miniapp/export?format=${format}`, {
+          headers: { 'X-Telegram-Init-Data': tg.initData },
+        });
+        if (!response.ok) throw new Error(await response.text());
+        filename = /filename="([^"]+)"/.exec(response.headers.get('content-disposition') ?? '')?.[1] ?? filename;
+        blob = await response.blob();
+      }
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
   const buildRebalancePreview = async (options: { horizonDays: number; bucketMinutes: number }) => {
     setBusyKey('rebalance:preview');
     setRebalanceError(null);
@@ -932,6 +1514,12 @@ export function App() {
             loading={queueLoading}
             error={queueError}
             busyKey={busyKey}
+            tags={tagOptions}
+            tag={queueTag}
+            onTagChange={(tag) => {
+              setQueueTag(tag);
+              void loadQueue(tag);
+            }}
             onReload={loadQueue}
             onAction={runQueueAction}
             onOpen={(card) => {
@@ -959,15 +1547,20 @@ export function App() {
             allCards={cards}
             loading={loading}
             error={error}
+            searching={searchLoading}
             query={query}
             setQuery={setQuery}
             statusFilter={statusFilter}
             setStatusFilter={setStatusFilter}
+            tagOptions={tagOptions}
+            tagFilter={tagFilter}
+            setTagFilter={setTagFilter}
             sortMode={sortMode}
             setSortMode={setSortMode}
             reload={() => loadCards(statusFilter)}
             reset={() => {
               setStatusFilter('all');
+              setTagFilter(ALL_TAGS);
               setSortMode('nextReviewAsc');
               setQuery('');
               void loadCards('all');
@@ -982,9 +1575,16 @@ export function App() {
         {view === 'card-detail' && selectedCard ? (
           <CardDetail
             card={selectedCard}
+            history={cardHistory}
+            historyError={cardHistoryError}
+            revisions={cardRevisions}
+            revisionsError={cardRevisionsError}
             onBack={() => setView('cards')}
             onReminder={requestReminder}
             onOneTimeReminder={requestOneTimeReminder}
+            onSaveTags={saveCardTags}
+            onSaveContent={saveCardContent}
+            onSaveSchedule={saveCardSchedule}
             onArchive={requestArchive}
             busyKey={busyKey}
           />
@@ -1001,10 +1601,39 @@ export function App() {
             stats={stats || buildStats(cards)}
             loading={!stats && !statsError}
             error={statsError}
+            analytics={analytics}
+            analyticsError={analyticsError}
             reminderSettings={reminderSettings}
             settingsError={settingsError}
             settingsSaving={busyKey === 'settings:reminders'}
             onSaveReminderSettings={saveReminderSettings}
+            deliveryPause={deliveryPause}
+            pauseSaving={busyKey === 'settings:pause'}
+            onDoNotDisturb={saveDoNotDisturb}
+            onVacation={saveVacation}
+            reminderDigest={reminderDigest}
+            digestSaving={busyKey === 'settings:digest'}
+            onSaveDigest={saveReminderDigest}
+            decks={decks}
+            decksError={decksError}
+            busyKey={busyKey}
+            onSaveDeckLimit={saveDeckLimit}
+            importing={busyKey === 'deck:import'}
+            onImportDeck={importDeck}
+            exportingFormat={busyKey?.startsWith('export:') ? (busyKey.slice('export:'.length) as CollectionExportFormat) : null}
+            onExport={downloadExport}
+            onOpenLeeches={() => setView('leeches')}
+          />
+        ) : null}
+
+        {view === 'leeches' ? (
+          <LeechesScreen
+            cards={leeches}
+            error={leechesError}
+            busyKey={busyKey}
+            onBack={() => setView('stats')}
+            onOpen={openCard}
+            onAction={runLeechAction}
           />
         ) : null}
 
@@ -1262,6 +1891,9 @@ function QueueScreen({
   loading,
   error,
   busyKey,
+  tags,
+  tag,
+  onTagChange,
   onReload,
   onAction,
   onOpen,
@@ -1270,6 +1902,9 @@ function QueueScreen({
   loading: boolean;
   error: string | null;
   busyKey: string | null;
+  tags: string[];
+  tag: string | null;
+  onTagChange: (tag: string | null) => void;
   onReload: () => Promise<void>;
   onAction: (item: ReminderQueueItem, action: QueueAction, payload?: Record<string, unknown>) => Promise<void>;
   onOpen: (card: CardRecord) => void;
@@ -1277,6 +1912,7 @@ function QueueScreen({
   const [progress, setProgress] = useState(0);
   const [menuOpen, setMenuOpen] = useState(false);
   const [viewedItem, setViewedItem] = useState<ReminderQueueItem | null>(null);
+  const [answerRevealed, setAnswerRevealed] = useState(false);
   const [settling, setSettling] = useState(false);
   const stageRef = useRef<HTMLDivElement | null>(null);
   const dragRef = useRef<null | {
@@ -1300,10 +1936,15 @@ function QueueScreen({
   const completePull = async (item: ReminderQueueItem) => {
     setMenuOpen(false);
     settleTo(1);
+    const gradedOnCard = item.kind !== 'one_time';
     window.setTimeout(() => {
       setViewedItem(item);
+      setAnswerRevealed(false);
       setProgress(0);
     }, 180);
+    // Review cards are graded from the card: question/answer cards once the answer is revealed,
+    // plain cards right away.
+    if (gradedOnCard) return;
     try {
       await onAction(item, 'viewed');
     } catch (err) {
@@ -1384,6 +2025,21 @@ function QueueScreen({
     }
   };
 
+  const gradeViewed = async (grade: QueueGrade) => {
+    if (!viewedItem) return;
+    try {
+      if (grade === 'again') {
+        await onAction(viewedItem, 'again');
+      } else {
+        await onAction(viewedItem, 'viewed', { grade });
+      }
+      setViewedItem(null);
+      setMenuOpen(false);
+    } catch (err) {
+      showAlert(err instanceof Error ? err.message : 'Не удалось сохранить оценку');
+    }
+  };
+
   if (error) {
     return <StateBlock title="Не удалось загрузить очередь" body={error} />;
   }
@@ -1392,6 +2048,15 @@ function QueueScreen({
     <div className="queue-screen">
       <div className="queue-topline">
         <Badge tone="muted">{loading ? 'Обновление' : `${items.length}${viewedItem ? '+1' : ''}`}</Badge>
+        {tags.length ? (
+          <Select value={tag ?? ALL_TAGS} onValueChange={(value) => onTagChange(value === ALL_TAGS ? null : value)}>
+            <SelectTrigger className="queue-deck-select"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TAGS}>Все колоды</SelectItem>
+              {tags.map((item) => <SelectItem key={item} value={item}>#{item}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        ) : null}
         <Button variant="ghost" size="icon" aria-label="Обновить очередь" disabled={loading} onClick={() => void onReload()}>
           <RotateCcw size={16} />
         </Button>
@@ -1423,6 +2088,10 @@ function QueueScreen({
               viewed
               menuOpen={menuOpen}
               onMenu={() => setMenuOpen((value) => !value)}
+              revealed={answerRevealed}
+              onReveal={() => setAnswerRevealed(true)}
+              onGrade={(grade) => void gradeViewed(grade)}
+              busy={queueBusy}
             />
           </div>
         ) : null}
@@ -1500,13 +2169,77 @@ function QueueProgressSpring({ progress }: { progress: number }) {
   );
 }
 
-function QueueReminderCard({
-  item,
-  viewed = false,
-  ghost = false,
-  menuOpen = false,
+/** Telegram-formatted text; block entities are spans so the text can sit inside a paragraph. */
+function FormattedText({ text, entities }: { text: string; entities?: MessageEntity[] | null }) {
+  return <span className="formatted-text">{renderFormattedNodes(text, buildFormattedNodes(text, entities))}</span>;
+}
+
+function Spoiler({ children }: { children: ReactNode }) {
+  const [shown, setShown] = useState(false);
+  return (
+    <span
+      className={cn('tg-spoiler', shown && 'is-shown')}
+      onClick={(event) => {
+        if (shown) return;
+        event.stopPropagation();
+        setShown(true);
+      }}
+    >
+      {children}
+    </span>
+  );
+}
+
+function renderFormattedNodes(text: string, nodes: FormattedNode[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    if (typeof node === 'string') return <Fragment key={index}>{node}</Fragment>;
+    const { entity } = node;
+    const children = renderFormattedNodes(text, node.children);
+    switch (entity.type) {
+      case 'bold':
+        return <strong key={index}>{children}</strong>;
+      case 'italic':
+        return <em key={index}>{children}</em>;
+      case 'underline':
+        return <u key={index}>{children}</u>;
+      case 'strikethrough':
+        return <s key={index}>{children}</s>;
+      case 'spoiler':
+        return <Spoiler key={index}>{children}</Spoiler>;
+      case 'code':
+        return <code key={index} className="tg-code">{children}</code>;
+      case 'pre':
+        return <code key={index} className="tg-pre" data-language={entity.language}>{children}</code>;
+      case 'blockquote':
+      case 'expandable_blockquote':
+        return <span key={index} className="tg-quote">{children}</span>;
+      case 'custom_emoji':
+        return <span key={index} className="tg-custom-emoji" data-emoji-id={entity.custom_emoji_id}>{children}</span>;
+      default: {
+        const href = getEntityHref(entity, text.slice(entity.offset, entity.offset + entity.length));
+        return href ? (
+          <a key={index} href={href} target="_blank" rel="noreferrer" onClick={(event) => event.stopPropagation()}>
+            {children}
+          </a>
+        ) : (
+          <Fragment key={index}>{children}</Fragment>
+        );
+      }
+    }
+  });
+}
+
+function QueueReminderCard({
+  item,
+  viewed = false,
+  ghost = false,
+  menuOpen = false,
   contentOpacity = 1,
   onMenu,
+  revealed = false,
+  onReveal,
+  onGrade,
+  busy = false,
 }: {
   item: ReminderQueueItem;
   viewed?: boolean;
@@ -1514,7 +2247,14 @@ function QueueReminderCard({
   menuOpen?: boolean;
   contentOpacity?: number;
   onMenu?: () => void;
+  revealed?: boolean;
+  onReveal?: () => void;
+  onGrade?: (grade: QueueGrade) => void;
+  busy?: boolean;
 }) {
+  const faces = item.kind === 'one_time' ? null : getCardFaces(item.card);
+  const faceEntities = faces ? getFaceEntities(item.card, faces) : null;
+  const formatted = getCardFormattedText(item.card);
   const label =
     item.kind === 'one_time'
       ? 'Одноразовое'
@@ -1545,7 +2285,36 @@ function QueueReminderCard({
           </button>
         ) : null}
       </div>
-      <p>{item.card.contentPreview || 'Без текста'}</p>
+      {faces ? (
+        <>
+          <p>
+            {faces.kind === 'cloze' && revealed ? faces.back : <FormattedText text={faces.front} entities={faceEntities?.front} />}
+          </p>
+          {revealed && faces.kind === 'front_back' ? (
+            <p className="queue-card-answer"><FormattedText text={faces.back} entities={faceEntities?.back} /></p>
+          ) : null}
+        </>
+      ) : (
+        <p>{formatted.text.trim() ? <FormattedText {...formatted} /> : 'Без текста'}</p>
+      )}
+      {viewed && item.kind !== 'one_time' ? (
+        <div className="queue-card-actions" onPointerDown={(event) => event.stopPropagation()}>
+          {revealed || !faces ? (
+            <div className="queue-grade-grid">
+              {QUEUE_GRADES.map((grade) => (
+                <Button key={grade} variant="outline" disabled={busy} onClick={() => onGrade?.(grade)}>
+                  {reviewGradeLabel[grade]}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <Button onClick={() => onReveal?.()}>
+              <Eye size={16} />
+              Показать ответ
+            </Button>
+          )}
+        </div>
+      ) : null}
       <div className="queue-card-footer">
         <span>{item.card.contentType}</span>
         <span>Повторы {item.card.repetition || 0}</span>
@@ -1559,10 +2328,14 @@ function CardsScreen(props: {
   allCards: CardRecord[];
   loading: boolean;
   error: string | null;
+  searching: boolean;
   query: string;
   setQuery: (value: string) => void;
   statusFilter: CardStatus | 'all';
   setStatusFilter: (value: CardStatus | 'all') => void;
+  tagOptions: string[];
+  tagFilter: string;
+  setTagFilter: (value: string) => void;
   sortMode: SortMode;
   setSortMode: (value: SortMode) => void;
   reload: () => void;
@@ -1596,10 +2369,19 @@ function CardsScreen(props: {
               <SelectItem value="repetitionDesc">Больше повторов</SelectItem>
             </SelectContent>
           </Select>
+          {props.tagOptions.length ? (
+            <Select value={props.tagFilter} onValueChange={props.setTagFilter}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TAGS}>Все колоды</SelectItem>
+                {props.tagOptions.map((tag) => <SelectItem key={tag} value={tag}>#{tag}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          ) : null}
         </div>
         <div className="search-row">
           <Search size={16} />
-          <Input value={props.query} onChange={(event) => props.setQuery(event.target.value)} placeholder="Поиск по карточкам" />
+          <Input type="search" value={props.query} onChange={(event) => props.setQuery(event.target.value)} placeholder="Поиск: текст, подписи, расшифровки" />
         </div>
         <div className="toolbar-actions">
           <Button variant="outline" size="sm" onClick={props.reload}>Обновить</Button>
@@ -1610,6 +2392,7 @@ function CardsScreen(props: {
           <Badge tone="muted">Сегодня {summary.today}</Badge>
           <Badge tone="muted">Просрочены {summary.overdue}</Badge>
           <Badge tone="muted">Оценка {summary.awaiting}</Badge>
+          {props.searching ? <Badge tone="muted">Поиск…</Badge> : null}
         </div>
       </Card>
 
@@ -1635,6 +2418,11 @@ function CardListItem({ card, onOpen, onArchive, onReminder, busyKey }: { card:
         <span className="meta-text">{formatDateShort(card.nextReviewAt)}</span>
       </div>
       <p className="card-row-text">{card.contentPreview || 'Без текста'}</p>
+      {card.tags?.length ? (
+        <div className="card-row-tags">
+          {card.tags.map((tag) => <Badge key={tag} tone="muted">#{tag}</Badge>)}
+        </div>
+      ) : null}
       <div className="card-row-bottom">
         <span className="meta-text">Повторы: {card.repetition || 0}</span>
         <div className="row-actions" onClick={(event) => event.stopPropagation()}>
@@ -1648,23 +2436,66 @@ function CardListItem({ card, onOpen, onArchive, onReminder, busyKey }: { card:
 
 function CardDetail({
   card,
+  history,
+  historyError,
+  revisions,
+  revisionsError,
   onBack,
   onReminder,
   onOneTimeReminder,
+  onSaveTags,
+  onSaveContent,
+  onSaveSchedule,
   onArchive,
   busyKey,
 }: {
   card: CardRecord;
+  history: ReviewLogRecord[] | null;
+  historyError: string | null;
+  revisions: CardRevisionRecord[] | null;
+  revisionsError: string | null;
   onBack: () => void;
   onReminder: (card: CardRecord) => void;
   onOneTimeReminder: (card: CardRecord, remindAt: string) => Promise<void>;
+  onSaveTags: (card: CardRecord, tags: string[]) => Promise<void>;
+  onSaveContent: (card: CardRecord, text: string) => Promise<void>;
+  onSaveSchedule: (card: CardRecord, text: string) => Promise<void>;
   onArchive: (card: CardRecord) => void;
   busyKey: string | null;
 }) {
   const messageLink = getMessageLink(card);
+  const formatted = getCardFormattedText(card);
   const canRemind = card.status !== 'archived' && card.status !== 'pending';
   const [oneTimeValue, setOneTimeValue] = useState(() => toDatetimeLocalValue(new Date(Date.now() + 60 * 60_000)));
   const [showOneTimePanel, setShowOneTimePanel] = useState(false);
+  const [tagsDraft, setTagsDraft] = useState(() => (card.tags ?? []).map((tag) => `#${tag}`).join(' '));
+  useEffect(() => {
+    setTagsDraft((card.tags ?? []).map((tag) => `#${tag}`).join(' '));
+  }, [card.tags]);
+  const submitTags = () => {
+    void onSaveTags(card, parseTagsDraft(tagsDraft)).catch((error) =>
+      showAlert(error instanceof Error ? error.message : 'Не удалось сохранить теги'),
+    );
+  };
+  const [contentDraft, setContentDraft] = useState(card.contentPreview ?? '');
+  const [scheduleDraft, setScheduleDraft] = useState('');
+  useEffect(() => {
+    setContentDraft(card.contentPreview ?? '');
+  }, [card.contentPreview]);
+  const submitContent = () => {
+    if (!contentDraft.trim()) {
+      showAlert('Текст карточки не может быть пустым');
+      return;
+    }
+    void onSaveContent(card, contentDraft).catch((error) =>
+      showAlert(error instanceof Error ? error.message : 'Не удалось сохранить текст'),
+    );
+  };
+  const submitSchedule = () => {
+    void onSaveSchedule(card, scheduleDraft)
+      .then(() => setScheduleDraft(''))
+      .catch((error) => showAlert(error instanceof Error ? error.message : 'Не удалось сохранить расписание'));
+  };
   const setOneTimePreset = (mode: 'hour' | 'evening' | 'morning') => {
     const date = new Date();
     if (mode === 'hour') {
@@ -1708,9 +2539,48 @@ function CardDetail({
       </Card>
       <Card className="preview-panel">
         <div className="preview-icon"><Link2 size={18} /></div>
-        <p>{card.contentPreview || 'Без текста'}</p>
+        <p>{formatted.text.trim() ? <FormattedText {...formatted} /> : 'Без текста'}</p>
         {card.contentType !== 'text' ? <span className="meta-text">Медиа будет загружено в Telegram.</span> : null}
       </Card>
+      <Card className="tags-panel">
+        <span className="label-text">Колоды</span>
+        <div className="tags-editor">
+          <Input value={tagsDraft} onChange={(event) => setTagsDraft(event.target.value)} placeholder="#испанский #работа" />
+          <Button variant="outline" size="sm" disabled={busyKey === `tags:${card.id}`} onClick={submitTags}>
+            <Tags size={16} />Сохранить
+          </Button>
+        </div>
+      </Card>
+      <Card className="edit-panel">
+        <span className="label-text">Текст</span>
+        {card.contentType === 'text' ? (
+          <>
+            <textarea className="ui-textarea" value={contentDraft} onChange={(event) => setContentDraft(event.target.value)} />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busyKey === `content:${card.id}` || contentDraft.trim() === (card.contentPreview ?? '').trim()}
+              onClick={submitContent}
+            >
+              <Pencil size={16} />Сохранить текст
+            </Button>
+          </>
+        ) : (
+          <p className="meta-text">Чтобы заменить медиа или подпись, ответьте на напоминание в боте новым сообщением.</p>
+        )}
+        <span className="label-text">Расписание</span>
+        <div className="tags-editor">
+          <Input
+            value={scheduleDraft}
+            onChange={(event) => setScheduleDraft(event.target.value)}
+            placeholder="каждые 3 дня, пн, ср, пт в 9:00"
+            disabled={!canRemind}
+          />
+          <Button variant="outline" size="sm" disabled={!canRemind || !scheduleDraft.trim() || busyKey === `schedule:${card.id}`} onClick={submitSchedule}>
+            <CalendarDays size={16} />Задать
+          </Button>
+        </div>
+      </Card>
       <div className="detail-actions">
         <Button disabled={!canRemind || busyKey === `reminder:${card.id}`} onClick={() => onReminder(card)}><Bell size={16} />Напомнить сейчас</Button>
         <Button variant="outline" disabled={!canRemind} onClick={() => setShowOneTimePanel((value) => !value)}><CalendarDays size={16} />Напомнить один раз</Button>
@@ -1737,7 +2607,11 @@ function CardDetail({
       <Accordion type="multiple" className="detail-accordion">
         <AccordionItem value="history">
           <AccordionTrigger><Clock3 size={16} />История</AccordionTrigger>
-          <AccordionContent><History card={card} /></AccordionContent>
+          <AccordionContent><History card={card} logs={history} error={historyError} /></AccordionContent>
+        </AccordionItem>
+        <AccordionItem value="revisions">
+          <AccordionTrigger><Pencil size={16} />Прежние версии</AccordionTrigger>
+          <AccordionContent><Revisions revisions={revisions} error={revisionsError} /></AccordionContent>
         </AccordionItem>
         <AccordionItem value="meta">
           <AccordionTrigger><Clipboard size={16} />Дополнительно</AccordionTrigger>
@@ -1835,18 +2709,54 @@ function StatsScreen({
   stats,
   loading,
   error,
+  analytics,
+  analyticsError,
   reminderSettings,
   settingsError,
   settingsSaving,
   onSaveReminderSettings,
+  deliveryPause,
+  pauseSaving,
+  onDoNotDisturb,
+  onVacation,
+  reminderDigest,
+  digestSaving,
+  onSaveDigest,
+  decks,
+  decksError,
+  busyKey,
+  onSaveDeckLimit,
+  importing,
+  onImportDeck,
+  exportingFormat,
+  onExport,
+  onOpenLeeches,
 }: {
   stats: Stats;
   loading: boolean;
   error: string | null;
+  analytics: LearningAnalytics | null;
+  analyticsError: string | null;
   reminderSettings: ReminderSettings | null;
   settingsError: string | null;
   settingsSaving: boolean;
   onSaveReminderSettings: (settings: ReminderSettings) => Promise<void>;
+  deliveryPause: DeliveryPause | null;
+  pauseSaving: boolean;
+  onDoNotDisturb: (until: string | null) => Promise<void>;
+  onVacation: (input: VacationInput) => Promise<void>;
+  reminderDigest: ReminderDigest;
+  digestSaving: boolean;
+  onSaveDigest: (sendAtMinutes: number | null) => Promise<void>;
+  decks: DeckRecord[] | null;
+  decksError: string | null;
+  busyKey: string | null;
+  onSaveDeckLimit: (tag: string, dailyLimit: number | null) => Promise<void>;
+  importing: boolean;
+  onImportDeck: (file: File) => Promise<void>;
+  exportingFormat: CollectionExportFormat | null;
+  onExport: (format: CollectionExportFormat) => Promise<void>;
+  onOpenLeeches: () => void;
 }) {
   if (error) return <StateBlock title="Не удалось загрузить статистику" body={error} />;
   if (loading) return <StateBlock title="Загрузка статистики" body="Считаем текущий прогресс." />;
@@ -1860,38 +2770,319 @@ function StatsScreen({
         <Card className="stat-card"><span>Ждут оценки</span><strong>{stats.awaitingGrade}</strong></Card>
         <Card className="stat-card"><span>Архив</span><strong>{stats.archived}</strong></Card>
       </div>
+      <AnalyticsPanel analytics={analytics} error={analyticsError} />
+      <Button variant="outline" onClick={onOpenLeeches}><RotateCcw size={16} />Трудные карточки</Button>
       <ReminderSettingsPanel
         settings={reminderSettings}
         error={settingsError}
         saving={settingsSaving}
         onSave={onSaveReminderSettings}
+        pause={deliveryPause}
+        pauseSaving={pauseSaving}
+        onDoNotDisturb={onDoNotDisturb}
+        onVacation={onVacation}
+        digest={reminderDigest}
+        digestSaving={digestSaving}
+        onSaveDigest={onSaveDigest}
       />
+      <DeckLimitsPanel decks={decks} error={decksError} busyKey={busyKey} onSave={onSaveDeckLimit} />
+      <DeckImportPanel importing={importing} onImport={onImportDeck} />
+      <CollectionExportPanel exportingFormat={exportingFormat} onExport={onExport} />
     </>
   );
 }
 
+function LeechesScreen({
+  cards,
+  error,
+  busyKey,
+  onBack,
+  onOpen,
+  onAction,
+}: {
+  cards: CardRecord[] | null;
+  error: string | null;
+  busyKey: string | null;
+  onBack: () => void;
+  onOpen: (card: CardRecord) => void;
+  onAction: (card: CardRecord, action: LeechAction) => Promise<void>;
+}) {
+  const back = <Button variant="outline" size="sm" className="back-button" onClick={onBack}><ChevronLeft size={16} />Назад</Button>;
+  if (error) return <div className="detail-stack">{back}<StateBlock title="Не удалось загрузить трудные карточки" body={error} /></div>;
+  if (!cards) return <StateBlock title="Загрузка" body="Ищем карточки, которые не запоминаются." />;
+  return (
+    <div className="detail-stack">
+      {back}
+      {!cards.length ? (
+        <StateBlock title="Трудных карточек нет" body="Карточка попадёт сюда, если на неё слишком часто отвечать «Снова». Порог — в настройках напоминаний." />
+      ) : null}
+      {cards.map((card) => {
+        const busy = busyKey === `leech:${card.id}`;
+        const archived = card.status === 'archived';
+        return (
+          <Card key={card.id} className="settings-panel leech-card">
+            <button className="leech-preview" onClick={() => onOpen(card)}>
+              <p>{card.contentPreview || 'Без текста'}</p>
+              <span className="meta-text">
+                «Снова»: {card.lapses ?? 0} · трудная с {formatDateShort(card.leechAt)}
+                {card.suspendedAt ? ' · приостановлена' : archived ? ' · в архиве' : ''}
+              </span>
+            </button>
+            <div className="settings-action-grid">
+              {card.suspendedAt ? (
+                <Button size="sm" variant="outline" disabled={busy || archived} onClick={() => void onAction(card, 'resume')}>Вернуть</Button>
+              ) : (
+                <Button size="sm" variant="outline" disabled={busy || archived} onClick={() => void onAction(card, 'suspend')}>Пауза</Button>
+              )}
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => void onAction(card, 'clear')}>Сбросить</Button>
+              <Button size="sm" variant="outline" disabled={busy || archived} onClick={() => void onAction(card, 'archive')}><Archive size={16} />Архив</Button>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+function AnalyticsPanel({ analytics, error }: { analytics: LearningAnalytics | null; error: string | null }) {
+  if (error) return <Card className="settings-panel"><p className="settings-error">{error}</p></Card>;
+  if (!analytics) return null;
+  const maxDue = Math.max(1, ...analytics.forecast.map((day) => day.due));
+  return (
+    <Card className="settings-panel analytics-panel">
+      <div className="settings-heading">
+        <div>
+          <h2>Прогресс</h2>
+          <p>Ответы за последние {analytics.historyDays} дней: {analytics.reviewCount}.</p>
+        </div>
+        <BarChart3 size={20} />
+      </div>
+      <div className="analytics-summary">
+        <div><span>Серия</span><strong>{analytics.streak.current}</strong><p>{analytics.streak.reviewedToday ? 'сегодня есть' : 'повторите сегодня'}</p></div>
+        <div><span>Рекорд</span><strong>{analytics.streak.longest}</strong><p>дней подряд</p></div>
+        <div><span>Ответ</span><strong>{formatLatency(analytics.latency.medianMs) ?? '—'}</strong><p>медиана, среднее {formatLatency(analytics.latency.averageMs) ?? '—'}</p></div>
+      </div>
+      <div className="settings-subsection">
+        <div className="settings-heading">
+          <div>
+            <h2>Оценки</h2>
+            <p>Доля оценки и сколько следующих повторений после неё прошли без «Снова».</p>
+          </div>
+        </div>
+        <div className="analytics-bars">
+          {analytics.grades.map((entry) => (
+            <Fragment key={entry.grade}>
+              <span>{reviewGradeLabel[entry.grade]}</span>
+              <i><b style={{ width: `${Math.round(entry.share * 100)}%` }} /></i>
+              <em>{formatPercent(entry.share)} · {formatPercent(entry.retention)}</em>
+            </Fragment>
+          ))}
+        </div>
+      </div>
+      <div className="settings-subsection">
+        <div className="settings-heading">
+          <div>
+            <h2>Удержание по интервалу</h2>
+            <p>Доля вспомненных карточек в зависимости от времени с прошлого повторения.</p>
+          </div>
+        </div>
+        <div className="analytics-bars">
+          {analytics.trueRetention.map((bucket) => (
+            <Fragment key={bucket.label}>
+              <span>{bucket.label}</span>
+              <i><b style={{ width: `${Math.round((bucket.retention ?? 0) * 100)}%` }} /></i>
+              <em>{formatPercent(bucket.retention)} · {bucket.reviews}</em>
+            </Fragment>
+          ))}
+        </div>
+      </div>
+      <div className="settings-subsection">
+        <div className="settings-heading">
+          <div>
+            <h2>Прогноз на {analytics.forecast.length} дней</h2>
+            <p>Сегодня с просроченными: {analytics.forecast[0]?.due ?? 0}, максимум в день: {maxDue}.</p>
+          </div>
+        </div>
+        <div className="analytics-forecast" role="img" aria-label="Повторения по дням">
+          {analytics.forecast.map((day) => (
+            <i key={day.date} title={`${day.date}: ${day.due}`} style={{ height: `${Math.round((day.due / maxDue) * 100)}%` }} />
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+function DeckLimitsPanel({
+  decks,
+  error,
+  busyKey,
+  onSave,
+}: {
+  decks: DeckRecord[] | null;
+  error: string | null;
+  busyKey: string | null;
+  onSave: (tag: string, dailyLimit: number | null) => Promise<void>;
+}) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries((decks ?? []).map((deck) => [deck.tag, deck.dailyLimit ? String(deck.dailyLimit) : ''])));
+  }, [decks]);
+
+  const submit = (tag: string) => {
+    const raw = (drafts[tag] ?? '').trim();
+    const dailyLimit = raw ? Number(raw) : null;
+    if (dailyLimit !== null && (!Number.isInteger(dailyLimit) || dailyLimit < 1 || dailyLimit > 1000)) {
+      showAlert('Лимит — число от 1 до 1000 или пустое поле');
+      return;
+    }
+    void onSave(tag, dailyLimit).catch((err) => {
+      showAlert(err instanceof Error ? err.message : 'Не удалось сохранить лимит');
+    });
+  };
+
+  return (
+    <Card className="settings-panel">
+      <div className="settings-heading">
+        <div>
+          <h2>Колоды</h2>
+          <p>Лимит повторений в день: лишние карточки колоды переносятся на следующий день.</p>
+        </div>
+        <Tags size={20} />
+      </div>
+      {error ? <p className="settings-error">{error}</p> : null}
+      {decks && !decks.length ? <p className="meta-text">Добавьте #тег в сообщение боту или в карточке, чтобы появилась колода.</p> : null}
+      {(decks ?? []).map((deck) => (
+        <div key={deck.tag} className="deck-row">
+          <div className="deck-row-info">
+            <strong>#{deck.tag}</strong>
+            <span className="meta-text">
+              Карточек: {deck.cardCount} · сегодня {deck.deliveredToday}{deck.dailyLimit ? `/${deck.dailyLimit}` : ''}
+            </span>
+          </div>
+          <Input
+            type="number"
+            min={1}
+            max={1000}
+            placeholder="∞"
+            value={drafts[deck.tag] ?? ''}
+            onChange={(event) => setDrafts((items) => ({ ...items, [deck.tag]: event.target.value }))}
+          />
+          <Button size="sm" variant="outline" disabled={busyKey === `deck:${deck.tag}`} onClick={() => submit(deck.tag)}>
+            Сохранить
+          </Button>
+        </div>
+      ))}
+    </Card>
+  );
+}
+
+function DeckImportPanel({
+  importing,
+  onImport,
+}: {
+  importing: boolean;
+  onImport: (file: File) => Promise<void>;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    void onImport(file)
+      .catch((err) => {
+        showAlert(err instanceof Error ? err.message : 'Не удалось импортировать колоду');
+      })
+      .finally(() => {
+        if (inputRef.current) inputRef.current.value = '';
+      });
+  };
+
+  return (
+    <Card className="settings-panel">
+      <div className="settings-heading">
+        <div>
+          <h2>Импорт колоды</h2>
+          <p>Anki .apkg или CSV/TSV: лицевая сторона, оборот, дата и интервал. Расписание Anki сохраняется.</p>
+        </div>
+        <Upload size={20} />
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".apkg,.csv,.tsv,.txt"
+        hidden
+        onChange={(event) => handleFile(event.target.files?.[0])}
+      />
+      <Button disabled={importing} onClick={() => inputRef.current?.click()}>
+        {importing ? 'Импортируем…' : 'Выбрать файл'}
+      </Button>
+    </Card>
+  );
+}
+
+type WeekdayDraft = { enabled: boolean; start: string; end: string };
+
+const formatReportDay = (weekday: number | null | undefined) =>
+  weekday === null ? 'off' : String(weekday ?? 0);
+
+const buildWeekdayDrafts = (settings: ReminderSettings): WeekdayDraft[] | null =>
+  settings.weekdayHours?.length === 7
+    ? settings.weekdayHours.map((window) => ({
+        enabled: Boolean(window),
+        start: minutesToTimeValue(window?.start ?? settings.activeHoursStart),
+        end: minutesToTimeValue(window?.end ?? settings.activeHoursEnd),
+      }))
+    : null;
+
 function ReminderSettingsPanel({
   settings,
   error,
   saving,
   onSave,
+  pause,
+  pauseSaving,
+  onDoNotDisturb,
+  onVacation,
+  digest,
+  digestSaving,
+  onSaveDigest,
 }: {
   settings: ReminderSettings | null;
   error: string | null;
   saving: boolean;
   onSave: (settings: ReminderSettings) => Promise<void>;
+  pause: DeliveryPause | null;
+  pauseSaving: boolean;
+  onDoNotDisturb: (until: string | null) => Promise<void>;
+  onVacation: (input: VacationInput) => Promise<void>;
+  digest: ReminderDigest;
+  digestSaving: boolean;
+  onSaveDigest: (sendAtMinutes: number | null) => Promise<void>;
 }) {
   const [timezone, setTimezone] = useState(settings?.timezone ?? demoReminderSettings.timezone);
   const [start, setStart] = useState(minutesToTimeValue(settings?.activeHoursStart ?? demoReminderSettings.activeHoursStart));
   const [end, setEnd] = useState(minutesToTimeValue(settings?.activeHoursEnd ?? demoReminderSettings.activeHoursEnd));
   const [gap, setGap] = useState(String(settings?.minGapMinutes ?? demoReminderSettings.minGapMinutes));
+  const [mode, setMode] = useState<DefaultReminderMode>(settings?.defaultReminderMode ?? 'sm2');
+  const [reviewLimit, setReviewLimit] = useState(settings?.dailyReviewLimit ? String(settings.dailyReviewLimit) : '');
+  const [newCardLimit, setNewCardLimit] = useState(settings?.dailyNewCardLimit ? String(settings.dailyNewCardLimit) : '');
+  const [weekdays, setWeekdays] = useState<WeekdayDraft[] | null>(settings ? buildWeekdayDrafts(settings) : null);
+  const [reportDay, setReportDay] = useState(formatReportDay(settings?.weeklyReportWeekday));
+  const [leechThreshold, setLeechThreshold] = useState(String(settings?.leechThreshold ?? demoReminderSettings.leechThreshold));
 
   useEffect(() => {
     if (!settings) return;
+    setWeekdays(buildWeekdayDrafts(settings));
+    setReviewLimit(settings.dailyReviewLimit ? String(settings.dailyReviewLimit) : '');
+    setNewCardLimit(settings.dailyNewCardLimit ? String(settings.dailyNewCardLimit) : '');
+    setReportDay(formatReportDay(settings.weeklyReportWeekday));
+    setLeechThreshold(String(settings.leechThreshold ?? demoReminderSettings.leechThreshold));
     setTimezone(settings.timezone);
     setStart(minutesToTimeValue(settings.activeHoursStart));
     setEnd(minutesToTimeValue(settings.activeHoursEnd));
     setGap(String(settings.minGapMinutes));
+    setMode(settings.defaultReminderMode ?? 'sm2');
   }, [settings]);
 
   const submit = () => {
@@ -1910,16 +3101,56 @@ function ReminderSettingsPanel({
       showAlert('Проверьте часы активности и интервал между напоминаниями');
       return;
     }
+    const weekdayHours = weekdays
+      ? weekdays.map((day) => {
+          if (!day.enabled) return null;
+          const dayStart = timeValueToMinutes(day.start);
+          const dayEnd = timeValueToMinutes(day.end);
+          return dayStart !== null && dayEnd !== null && dayStart < dayEnd ? { start: dayStart, end: dayEnd } : undefined;
+        })
+      : null;
+    const dailyReviewLimit = reviewLimit.trim() ? Number(reviewLimit) : null;
+    const dailyNewCardLimit = newCardLimit.trim() ? Number(newCardLimit) : null;
+    const invalidLimit = [dailyReviewLimit, dailyNewCardLimit].some(
+      (limit) => limit !== null && (!Number.isInteger(limit) || limit < 1 || limit > 1000),
+    );
+    if (invalidLimit) {
+      showAlert('Лимит в день — число от 1 до 1000 или пустое поле');
+      return;
+    }
+    const lapsesForLeech = Number(leechThreshold);
+    if (!Number.isInteger(lapsesForLeech) || lapsesForLeech < 2 || lapsesForLeech > 100) {
+      showAlert('Порог трудной карточки — число от 2 до 100');
+      return;
+    }
+    if (weekdayHours && (weekdayHours.includes(undefined) || !weekdayHours.some(Boolean))) {
+      showAlert('Проверьте часы по дням недели: хотя бы один день должен быть включён');
+      return;
+    }
     void onSave({
       timezone: timezone.trim(),
       activeHoursStart,
       activeHoursEnd,
       minGapMinutes,
+      defaultReminderMode: mode,
+      weekdayHours: weekdayHours as Array<ActiveHoursWindow | null> | null,
+      dailyReviewLimit,
+      dailyNewCardLimit,
+      weeklyReportWeekday: reportDay === 'off' ? null : Number(reportDay),
+      leechThreshold: lapsesForLeech,
     }).catch((err) => {
       showAlert(err instanceof Error ? err.message : 'Не удалось сохранить настройки');
     });
   };
 
+  const updateWeekday = (index: number, patch: Partial<WeekdayDraft>) => {
+    setWeekdays((current) => current?.map((day, dayIndex) => (dayIndex === index ? { ...day, ...patch } : day)) ?? null);
+  };
+
+  const toggleWeekdays = () => {
+    setWeekdays((current) => (current ? null : Array.from({ length: 7 }, () => ({ enabled: true, start, end }))));
+  };
+
   return (
     <Card className="settings-panel">
       <div className="settings-heading">
@@ -1944,11 +3175,262 @@ function ReminderSettingsPanel({
           <Input type="time" value={end} onChange={(event) => setEnd(event.target.value)} />
         </label>
       </div>
+      <Button variant="outline" onClick={toggleWeekdays}>
+        {weekdays ? 'Одинаковые часы каждый день' : 'Разные часы по дням недели'}
+      </Button>
+      {weekdays
+        ? WEEKDAY_ROWS.map(({ index, label }) => {
+            const day = weekdays[index];
+            if (!day) return null;
+            return (
+              <div key={index} className="weekday-row">
+                <label className="weekday-toggle">
+                  <input type="checkbox" checked={day.enabled} onChange={(event) => updateWeekday(index, { enabled: event.target.checked })} />
+                  <span>{label}</span>
+                </label>
+                <Input type="time" disabled={!day.enabled} value={day.start} onChange={(event) => updateWeekday(index, { start: event.target.value })} />
+                <Input type="time" disabled={!day.enabled} value={day.end} onChange={(event) => updateWeekday(index, { end: event.target.value })} />
+              </div>
+            );
+          })
+        : null}
       <label className="settings-field">
         <span>Минимум между напоминаниями, мин</span>
         <Input type="number" min={1} max={360} value={gap} onChange={(event) => setGap(event.target.value)} />
       </label>
+      <div className="settings-time-grid">
+        <label className="settings-field">
+          <span>Повторений в день</span>
+          <Input type="number" min={1} max={1000} value={reviewLimit} placeholder="без лимита" onChange={(event) => setReviewLimit(event.target.value)} />
+        </label>
+        <label className="settings-field">
+          <span>Новых карточек в день</span>
+          <Input type="number" min={1} max={1000} value={newCardLimit} placeholder="без лимита" onChange={(event) => setNewCardLimit(event.target.value)} />
+        </label>
+      </div>
+      <label className="settings-field">
+        <span>Алгоритм для новых карточек</span>
+        <Select value={mode} onValueChange={(value) => setMode(value as DefaultReminderMode)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sm2">SM-2 интервалы</SelectItem>
+            <SelectItem value="fsrs">FSRS — интервал по сложности карточки</SelectItem>
+          </SelectContent>
+        </Select>
+      </label>
+      <label className="settings-field">
+        <span>Отчёт за неделю</span>
+        <Select value={reportDay} onValueChange={setReportDay}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {WEEKDAY_ROWS.map(({ index, label }) => (
+              <SelectItem key={index} value={String(index)}>{label} — в начале активных часов</SelectItem>
+            ))}
+            <SelectItem value="off">Не присылать</SelectItem>
+          </SelectContent>
+        </Select>
+      </label>
+      <label className="settings-field">
+        <span>Трудная карточка после «Снова», раз</span>
+        <Input type="number" min={2} max={100} value={leechThreshold} onChange={(event) => setLeechThreshold(event.target.value)} />
+      </label>
       <Button disabled={saving} onClick={submit}>Сохранить настройки</Button>
+      <DeliveryPauseSection pause={pause} saving={pauseSaving} onDoNotDisturb={onDoNotDisturb} onVacation={onVacation} />
+      <DigestSection digest={digest} saving={digestSaving} onSave={onSaveDigest} />
+    </Card>
+  );
+}
+
+function DeliveryPauseSection({
+  pause,
+  saving,
+  onDoNotDisturb,
+  onVacation,
+}: {
+  pause: DeliveryPause | null;
+  saving: boolean;
+  onDoNotDisturb: (until: string | null) => Promise<void>;
+  onVacation: (input: VacationInput) => Promise<void>;
+}) {
+  const [vacationDays, setVacationDays] = useState('');
+  const [spreadDays, setSpreadDays] = useState(String(pause?.vacationSpreadDays ?? demoDeliveryPause.vacationSpreadDays));
+
+  useEffect(() => {
+    if (pause) setSpreadDays(String(pause.vacationSpreadDays));
+  }, [pause]);
+
+  const dndActive = Boolean(pause?.doNotDisturbUntil && Date.parse(pause.doNotDisturbUntil) > Date.now());
+  const onVacationNow = Boolean(pause?.vacationSince);
+  const fail = (err: unknown) => showAlert(err instanceof Error ? err.message : 'Не удалось обновить паузу');
+
+  const doNotDisturbFor = (hours: number) => {
+    void onDoNotDisturb(new Date(Date.now() + hours * 60 * 60_000).toISOString()).catch(fail);
+  };
+
+  const submitVacation = () => {
+    const spread = Number(spreadDays);
+    if (!Number.isInteger(spread) || spread < 1 || spread > 14) {
+      showAlert('Распределить можно на 1–14 дней');
+      return;
+    }
+    if (onVacationNow) {
+      void onVacation({ enabled: false, spreadDays: spread }).catch(fail);
+      return;
+    }
+    const days = vacationDays.trim() ? Number(vacationDays) : null;
+    if (days !== null && (!Number.isInteger(days) || days < 1 || days > 365)) {
+      showAlert('Отпуск — от 1 до 365 дней или пустое поле, чтобы вернуться вручную');
+      return;
+    }
+    let until: string | null = null;
+    if (days) {
+      const end = new Date();
+      end.setHours(0, 0, 0, 0);
+      end.setDate(end.getDate() + days);
+      until = end.toISOString();
+    }
+    void onVacation({ enabled: true, until, spreadDays: spread }).catch(fail);
+  };
+
+  const status = onVacationNow
+    ? pause?.vacationUntil
+      ? `Отпуск до ${formatDateShort(pause.vacationUntil)}`
+      : 'Отпуск, пока вы не вернётесь'
+    : dndActive
+      ? `Не беспокоить до ${formatDateShort(pause?.doNotDisturbUntil)}`
+      : 'Напоминания приходят как обычно.';
+
+  return (
+    <div className="settings-subsection">
+      <div className="settings-heading">
+        <div>
+          <h2>Пауза</h2>
+          <p>{status}</p>
+        </div>
+        {onVacationNow || dndActive ? <Badge tone="muted">на паузе</Badge> : null}
+      </div>
+      <span className="settings-label">Не беспокоить</span>
+      <div className="settings-action-grid">
+        {[1, 3, 12].map((hours) => (
+          <Button key={hours} variant="outline" disabled={saving} onClick={() => doNotDisturbFor(hours)}>
+            {hours} ч
+          </Button>
+        ))}
+      </div>
+      {dndActive ? (
+        <Button variant="ghost" disabled={saving} onClick={() => void onDoNotDisturb(null).catch(fail)}>
+          Выключить «Не беспокоить»
+        </Button>
+      ) : null}
+      <div className="settings-time-grid">
+        {onVacationNow ? null : (
+          <label className="settings-field">
+            <span>Отпуск, дней</span>
+            <Input type="number" min={1} max={365} value={vacationDays} placeholder="без даты" onChange={(event) => setVacationDays(event.target.value)} />
+          </label>
+        )}
+        <label className="settings-field">
+          <span>Распределить накопившееся на, дней</span>
+          <Input type="number" min={1} max={14} value={spreadDays} onChange={(event) => setSpreadDays(event.target.value)} />
+        </label>
+      </div>
+      <Button variant={onVacationNow ? 'default' : 'outline'} disabled={saving} onClick={submitVacation}>
+        {onVacationNow ? 'Вернуться из отпуска' : 'Уйти в отпуск'}
+      </Button>
+    </div>
+  );
+}
+
+function DigestSection({
+  digest,
+  saving,
+  onSave,
+}: {
+  digest: ReminderDigest;
+  saving: boolean;
+  onSave: (sendAtMinutes: number | null) => Promise<void>;
+}) {
+  const [time, setTime] = useState(minutesToTimeValue(digest?.sendAtMinutes ?? 9 * 60));
+
+  useEffect(() => {
+    if (digest) setTime(minutesToTimeValue(digest.sendAtMinutes));
+  }, [digest]);
+
+  const fail = (err: unknown) => showAlert(err instanceof Error ? err.message : 'Не удалось сохранить сводку');
+  const submit = () => {
+    const sendAtMinutes = timeValueToMinutes(time);
+    if (sendAtMinutes === null) {
+      showAlert('Укажите время сводки');
+      return;
+    }
+    void onSave(sendAtMinutes).catch(fail);
+  };
+
+  return (
+    <div className="settings-subsection">
+      <div className="settings-heading">
+        <div>
+          <h2>Сводка</h2>
+          <p>
+            {digest
+              ? `Все повторения дня приходят одним сообщением в ${minutesToTimeValue(digest.sendAtMinutes)}.`
+              : 'Каждое повторение приходит отдельным сообщением.'}
+          </p>
+        </div>
+        {digest ? <Badge tone="muted">сводка</Badge> : null}
+      </div>
+      <label className="settings-field">
+        <span>Время сводки</span>
+        <Input type="time" value={time} onChange={(event) => setTime(event.target.value)} />
+      </label>
+      <div className="settings-action-grid">
+        <Button variant={digest ? 'outline' : 'default'} disabled={saving} onClick={submit}>
+          {digest ? 'Изменить время' : 'Присылать сводкой'}
+        </Button>
+        {digest ? (
+          <Button variant="ghost" disabled={saving} onClick={() => void onSave(null).catch(fail)}>
+            По одному сообщению
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function CollectionExportPanel({
+  exportingFormat,
+  onExport,
+}: {
+  exportingFormat: CollectionExportFormat | null;
+  onExport: (format: CollectionExportFormat) => Promise<void>;
+}) {
+  const formats: Array<{ value: CollectionExportFormat; label: string }> = [
+    { value: 'json', label: 'JSON' },
+    { value: 'csv', label: 'CSV' },
+    { value: 'anki', label: 'Anki' },
+  ];
+  const run = (format: CollectionExportFormat) => {
+    void onExport(format).catch((err) => {
+      showAlert(err instanceof Error ? err.message : 'Не удалось выгрузить данные');
+    });
+  };
+
+  return (
+    <Card className="settings-panel">
+      <div className="settings-heading">
+        <div>
+          <h2>Экспорт</h2>
+          <p>Карточки, история напоминаний, бэклог и ваши курсы. Медиа доступны по ссылкам 7 дней.</p>
+        </div>
+        <Download size={20} />
+      </div>
+      <div className="settings-action-grid">
+        {formats.map((format) => (
+          <Button key={format.value} variant="outline" disabled={exportingFormat !== null} onClick={() => run(format.value)}>
+            {exportingFormat === format.value ? '…' : format.label}
+          </Button>
+        ))}
+      </div>
     </Card>
   );
 }
@@ -2081,8 +3563,8 @@ function HeatmapComparison({ preview }: { preview: RebalancePreview }) {
   const maxCount = Math.max(preview.metrics.maxBucketBefore, preview.metrics.maxBucketAfter, 1);
   return (
     <div className="heatmap-comparison">
-      <Heatmap title="До" heatmap={preview.heatmap} matrix={preview.heatmap.before} maxCount={maxCount} />
-      <Heatmap title="После" heatmap={preview.heatmap} matrix={preview.heatmap.after} maxCount={maxCount} />
+      <Heatmap title="До" heatmap={preview.heatmap} matrix={preview.heatmap.before} limitHit={preview.heatmap.limitHitBefore} maxCount={maxCount} />
+      <Heatmap title="После" heatmap={preview.heatmap} matrix={preview.heatmap.after} limitHit={preview.heatmap.limitHitAfter} maxCount={maxCount} />
     </div>
   );
 }
@@ -2091,11 +3573,13 @@ function Heatmap({
   title,
   heatmap,
   matrix,
+  limitHit,
   maxCount,
 }: {
   title: string;
   heatmap: RebalancePreview['heatmap'];
   matrix: number[][];
+  limitHit?: boolean[];
   maxCount: number;
 }) {
   return (
@@ -2111,7 +3595,13 @@ function Heatmap({
         }}
       >
         <span />
-        {heatmap.dayLabels.map((label) => <b key={label}>{label}</b>)}
+        {heatmap.dayLabels.map((label, dayIndex) =>
+          limitHit?.[dayIndex] ? (
+            <b key={label} className="limit-hit" title="Дневной лимит исчерпан">{label}</b>
+          ) : (
+            <b key={label}>{label}</b>
+          ),
+        )}
         {heatmap.slots.map((slot, rowIndex) => (
           <Fragment key={slot}>
             <span key={`${slot}-label`}>{slot}</span>
@@ -2162,14 +3652,43 @@ function StateBlock({ title, body }: { title: string; body: string }) {
   return <Card className="state-block"><h2>{title}</h2><p>{body}</p></Card>;
 }
 
-function History({ card }: { card: CardRecord }) {
-  const rows: Array<[string, string | number]> = [
-    ['Создана', formatDateTime(card.createdAt)],
-    ['Напоминание', formatDateTime(card.lastNotificationAt)],
-    ['Ожидание оценки', formatDateTime(card.awaitingGradeSince)],
-    ['Последний повтор', formatDateTime(card.lastReviewedAt)],
-  ];
-  return <KeyValueRows rows={rows.filter(([, value]) => value !== '—')} />;
+function History({ card, logs, error }: { card: CardRecord; logs: ReviewLogRecord[] | null; error: string | null }) {
+  if (error) return <p className="meta-text">Не удалось загрузить историю.</p>;
+  if (!logs) return <p className="meta-text">Загружаем историю...</p>;
+  return (
+    <div className="kv-list">
+      {logs.map((log) => {
+        const latency = formatLatency(log.latencyMs);
+        const interval = `${formatIntervalDays(log.previousIntervalDays)} → ${formatIntervalDays(log.nextIntervalDays)}`;
+        return (
+          <div key={log.id}>
+            <span>{formatDateShort(log.reviewedAt)}</span>
+            <b>{reviewGradeLabel[log.grade] ?? log.grade} · {interval}{latency ? ` · ответ за ${latency}` : ''}</b>
+          </div>
+        );
+      })}
+      <div>
+        <span>{formatDateShort(card.createdAt)}</span>
+        <b>Карточка создана</b>
+      </div>
+    </div>
+  );
+}
+
+function Revisions({ revisions, error }: { revisions: CardRevisionRecord[] | null; error: string | null }) {
+  if (error) return <p className="meta-text">Не удалось загрузить версии.</p>;
+  if (!revisions) return <p className="meta-text">Загружаем версии...</p>;
+  if (!revisions.length) return <p className="meta-text">Карточку ещё не редактировали.</p>;
+  return (
+    <div className="kv-list">
+      {revisions.map((revision) => (
+        <div key={revision.id}>
+          <span>{formatDateShort(revision.createdAt)} · {revisionSourceLabel[revision.source] ?? revision.source}</span>
+          <b>{revision.contentPreview || `[${revision.contentType}]`}</b>
+        </div>
+      ))}
+    </div>
+  );
 }
 
 function DetailsGrid({ card }: { card: CardRecord }) {
@@ -2238,6 +3757,9 @@ async function demoResponse<T>(
 ) {
   const source = cards.length ? cards : demoCards;
   if (endpoint.includes('/me')) return { data: { userId: 'demo', ownerTools: true } } as T;
+  if (endpoint.endsWith('/api/miniapp/import') && options.method === 'POST') {
+    return { ok: true, data: { format: 'csv', imported: 0, skipped: 0, scheduled: 0 } } as T;
+  }
   if (endpoint.endsWith('/api/miniapp/reminders') && options.method === 'POST') {
     const input = typeof options.body === 'string' ? JSON.parse(options.body) : {};
     const rawText = String(input.text ?? 'Напоминание');
@@ -2309,9 +3831,66 @@ async function demoResponse<T>(
     if (!courses.length) setCourses(data);
     return { data } as T;
   }
+  if (endpoint.includes('/cards/search')) {
+    const search = new URLSearchParams(endpoint.split('?')[1] ?? '').get('q') ?? '';
+    const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+    const data = source.filter((card) => terms.every((term) => (card.contentPreview || '').toLowerCase().includes(term)));
+    return { data } as T;
+  }
+  if (endpoint.endsWith('/tags') && options.method === 'PUT') {
+    const cardId = endpoint.match(/\/cards\/([^/]+)\/tags/)?.[1] ?? '';
+    const input = typeof options.body === 'string' ? JSON.parse(options.body) : {};
+    const tags: string[] = Array.isArray(input.tags) ? input.tags.map((tag: unknown) => String(tag).toLowerCase()) : [];
+    const card = source.find((item) => item.id === cardId);
+    const updated = card ? { ...card, tags, updatedAt: new Date().toISOString() } : null;
+    if (updated) setCards(source.map((item) => (item.id === cardId ? updated : item)));
+    return { ok: true, data: updated } as T;
+  }
+  if (endpoint.includes('/decks/') && options.method === 'PUT') {
+    const tag = decodeURIComponent(endpoint.split('/decks/')[1] ?? '');
+    const input = typeof options.body === 'string' ? JSON.parse(options.body) : {};
+    demoDeckLimits[tag] = typeof input.dailyLimit === 'number' ? input.dailyLimit : null;
+    return { ok: true, data: { tag, dailyLimit: demoDeckLimits[tag] } } as T;
+  }
+  if (endpoint.endsWith('/decks')) {
+    const data: DeckRecord[] = collectTags(source).map((tag) => ({
+      tag,
+      cardCount: source.filter((card) => card.tags?.includes(tag)).length,
+      dailyLimit: demoDeckLimits[tag] ?? null,
+      deliveredToday: 0,
+    }));
+    return { data } as T;
+  }
+  if (endpoint.endsWith('/content') && options.method === 'PUT') {
+    const cardId = endpoint.match(/\/cards\/([^/]+)\/content/)?.[1] ?? '';
+    const input = typeof options.body === 'string' ? JSON.parse(options.body) : {};
+    const card = source.find((item) => item.id === cardId);
+    const updated = card ? { ...card, contentPreview: String(input.text ?? '').trim(), updatedAt: new Date().toISOString() } : null;
+    if (card && updated) {
+      demoRevisions[cardId] = [
+        { id: `demo-revision-${Date.now()}`, cardId, source: 'miniapp', editedBy: null, contentType: card.contentType, contentPreview: card.contentPreview, createdAt: updated.updatedAt },
+        ...(demoRevisions[cardId] ?? []),
+      ];
+      setCards(source.map((item) => (item.id === cardId ? updated : item)));
+    }
+    return { ok: true, data: updated } as T;
+  }
+  if (endpoint.endsWith('/revisions')) {
+    const cardId = endpoint.match(/\/cards\/([^/]+)\/revisions/)?.[1] ?? '';
+    return { data: demoRevisions[cardId] ?? [] } as T;
+  }
+  if (endpoint.endsWith('/schedule') && options.method === 'POST') {
+    const cardId = endpoint.match(/\/cards\/([^/]+)\/schedule/)?.[1] ?? '';
+    const card = source.find((item) => item.id === cardId);
+    const updated = card ? { ...card, reminderMode: 'schedule', updatedAt: new Date().toISOString() } : null;
+    if (updated) setCards(source.map((item) => (item.id === cardId ? updated : item)));
+    return { ok: true, data: updated } as T;
+  }
   if (endpoint.includes('/queue/cards/')) return { ok: true } as T;
+  if (endpoint.endsWith('/history')) return { data: [] } as T;
   if (endpoint.includes('/queue')) {
-    const items = buildDemoQueueItems(source);
+    const tag = new URLSearchParams(endpoint.split('?')[1] ?? '').get('tag');
+    const items = buildDemoQueueItems(tag ? source.filter((card) => card.tags?.includes(tag)) : source);
     return { data: { items, count: items.length, next: items[0] ?? null } } as T;
   }
   if (endpoint.includes('/stats')) return { data: buildStats(source) } as T;
@@ -2326,6 +3905,25 @@ async function demoResponse<T>(
     return { data: buildDemoRebalancePreview(input.horizonDays ?? 7, input.bucketMinutes ?? 30) } as T;
   }
   if (endpoint.includes('/reminders/rebalance/apply')) return { data: { updated: 3 } } as T;
+  if (endpoint.endsWith('/leech') && options.method === 'POST') {
+    const cardId = endpoint.match(/\/cards\/([^/]+)\/leech/)?.[1] ?? '';
+    const input = typeof options.body === 'string' ? JSON.parse(options.body) : {};
+    const card = source.find((item) => item.id === cardId);
+    if (!card) return { data: null } as T;
+    const now = new Date().toISOString();
+    const updated: CardRecord =
+      input.action === 'suspend'
+        ? { ...card, suspendedAt: now, nextReviewAt: null }
+        : input.action === 'resume'
+          ? { ...card, suspendedAt: null, nextReviewAt: now }
+          : input.action === 'clear'
+            ? { ...card, lapses: 0, leechAt: null }
+            : { ...card, status: 'archived' };
+    return { data: { ...updated, updatedAt: now } } as T;
+  }
+  if (endpoint.includes('leech=1')) {
+    return { data: source.filter((card) => card.leechAt).sort((a, b) => (b.lapses ?? 0) - (a.lapses ?? 0)) } as T;
+  }
   if (endpoint.includes('/status')) return { ok: true } as T;
   if (endpoint.includes('/send-reminder')) return { ok: true } as T;
   if (endpoint.includes('/one-time-reminder')) return { ok: true } as T;
@@ -2361,6 +3959,37 @@ function buildDemoQueueItems(cards: CardRecord[]): ReminderQueueItem[] {
     }));
 }
 
+function buildDemoAnalytics(): LearningAnalytics {
+  const today = new Date();
+  return {
+    generatedAt: today.toISOString(),
+    timezone: demoReminderSettings.timezone,
+    historyDays: 365,
+    reviewCount: 128,
+    streak: { current: 6, longest: 14, reviewedToday: true, activeDays: 41 },
+    grades: [
+      { grade: 'again', count: 14, share: 0.11, retention: 0.64 },
+      { grade: 'hard', count: 22, share: 0.17, retention: 0.77 },
+      { grade: 'good', count: 71, share: 0.55, retention: 0.9 },
+      { grade: 'easy', count: 21, share: 0.16, retention: 0.95 },
+    ],
+    trueRetention: [
+      { label: '< 1 дня', minDays: 0, maxDays: 1, reviews: 30, passed: 26, retention: 0.87 },
+      { label: '1–3 дня', minDays: 1, maxDays: 3, reviews: 41, passed: 36, retention: 0.88 },
+      { label: '3–7 дней', minDays: 3, maxDays: 7, reviews: 28, passed: 24, retention: 0.86 },
+      { label: '1–3 недели', minDays: 7, maxDays: 21, reviews: 19, passed: 15, retention: 0.79 },
+      { label: '3 недели – 2 месяца', minDays: 21, maxDays: 60, reviews: 10, passed: 7, retention: 0.7 },
+      { label: '2+ месяца', minDays: 60, maxDays: null, reviews: 0, passed: 0, retention: null },
+    ],
+    latency: { averageMs: 9_400, medianMs: 6_200, samples: 96 },
+    forecast: Array.from({ length: 30 }, (_value, index) => {
+      const date = new Date(today);
+      date.setDate(date.getDate() + index);
+      return { date: toDateKey(date), due: index === 0 ? 7 : (index * 7) % 5 };
+    }),
+  };
+}
+
 function buildDemoRebalancePreview(horizonDays: number, bucketMinutes: number): RebalancePreview {
   const days = Array.from({ length: Number(horizonDays) || 7 }, (_value, index) => {
     const date = new Date();
@@ -2389,7 +4018,15 @@ function buildDemoRebalancePreview(horizonDays: number, bucketMinutes: number):
       averageDeltaMinutes: 90,
       maxDeltaMinutes: 180,
     },
-    heatmap: { days, dayLabels, slots, before, after },
+    heatmap: {
+      days,
+      dayLabels,
+      slots,
+      before,
+      after,
+      limitHitBefore: days.map((_day, index) => index === 0),
+      limitHitAfter: days.map(() => false),
+    },
     changes: [
       {
         id: 'demo-1',
@@ -0,0 +1,138 @@
+export type MessageEntity = {
+  type: string;
+  offset: number;
+  length: number;
+  url?: string;
+  language?: string;
+  user?: { id: number | string; username?: string };
+  custom_emoji_id?: string;
+};
+
+/** Text split by its entities: nested entities become children of the one that contains them. */
+export type FormattedNode = string | { entity: MessageEntity; children: FormattedNode[] };
+
+type CardFormattingSource = {
+  contentType: string;
+  contentPreview: string | null;
+  contentPayload?: string | null;
+};
+
+type CardFacesLike = {
+  kind: 'front_back' | 'cloze';
+  front: string;
+  back: string;
+};
+
+const SAFE_LINK_PATTERN = /^(https?:|tg:|mailto:|tel:)/i;
+
+function readPayload(raw?: string | null): { caption?: string; entities?: MessageEntity[] } | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Entities of the fragment `[start, start + length)`, cut to it and moved to its offsets. */
+export function sliceEntities(entities: MessageEntity[] | undefined, start: number, length: number) {
+  return (entities ?? []).flatMap((entity) => {
+    const from = Math.max(entity.offset, start);
+    const to = Math.min(entity.offset + entity.length, start + length);
+    return to > from ? [{ ...entity, offset: from - start, length: to - from }] : [];
+  });
+}
+
+const byPosition = (a: MessageEntity, b: MessageEntity) => a.offset - b.offset || b.length - a.length;
+
+/** Part of `entity` inside `[from, to)` with absolute offsets, or null when nothing is left. */
+function clipEntity(entity: MessageEntity, from: number, to: number): MessageEntity | null {
+  const offset = Math.max(entity.offset, from);
+  const entityEnd = Math.min(entity.offset + entity.length, to);
+  return entityEnd > offset ? { ...entity, offset, length: entityEnd - offset } : null;
+}
+
+function buildNodes(text: string, entities: MessageEntity[], start: number, end: number): FormattedNode[] {
+  const nodes: FormattedNode[] = [];
+  let cursor = start;
+  let pending = [...entities].sort(byPosition);
+  while (pending.length) {
+    const [first, ...rest] = pending as [MessageEntity, ...MessageEntity[]];
+    // Telegram entities nest; one that still overlaps its left sibling keeps only the part after it.
+    const entity = clipEntity(first, cursor, end);
+    if (!entity) {
+      pending = rest;
+      continue;
+    }
+    const entityEnd = entity.offset + entity.length;
+    if (entity.offset > cursor) nodes.push(text.slice(cursor, entity.offset));
+    const inner: MessageEntity[] = [];
+    const after: MessageEntity[] = [];
+    for (const other of rest) {
+      const inside = clipEntity(other, entity.offset, entityEnd);
+      if (inside) inner.push(inside);
+      const outside = clipEntity(other, entityEnd, end);
+      if (outside) after.push(outside);
+    }
+    nodes.push({ entity, children: buildNodes(text, inner, entity.offset, entityEnd) });
+    cursor = entityEnd;
+    pending = after.sort(byPosition);
+  }
+  if (cursor < end) nodes.push(text.slice(cursor, end));
+  return nodes;
+}
+
+/** Offsets are UTF-16 code units, the same units JavaScript strings are indexed in. */
+export function buildFormattedNodes(text: string, entities?: MessageEntity[] | null): FormattedNode[] {
+  const valid = sliceEntities(entities ?? [], 0, text.length);
+  return valid.length ? buildNodes(text, valid, 0, text.length) : text ? [text] : [];
+}
+
+/** Link target of a linking entity; anything that is not a web, Telegram, mail or phone link is dropped. */
+export function getEntityHref(entity: MessageEntity, text: string): string | null {
+  switch (entity.type) {
+    case 'text_link':
+      return entity.url && SAFE_LINK_PATTERN.test(entity.url) ? entity.url : null;
+    case 'url':
+      return /^https?:\/\//i.test(text) ? text : `https://${text}`;
+    case 'email':
+      return `mailto:${text}`;
+    case 'phone_number':
+      return `tel:${text.replace(/[^\d+]/g, '')}`;
+    case 'mention':
+      return `https://t.me/${text.replace(/^@/, '')}`;
+    case 'text_mention':
+      return entity.user?.username ? `https://t.me/${entity.user.username}` : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Card preview with the entities that belong to it. Media entities point into the caption, so
+ * they apply only while the preview shows that caption rather than a transcript or placeholder.
+ */
+export function getCardFormattedText(card: CardFormattingSource): { text: string; entities: MessageEntity[] } {
+  const payload = readPayload(card.contentPayload);
+  const preview = card.contentPreview ?? '';
+  if (card.contentType === 'text') {
+    return { text: preview, entities: payload?.entities ?? [] };
+  }
+  const caption = payload?.caption;
+  return caption && caption.trim() === preview.trim()
+    ? { text: caption, entities: payload?.entities ?? [] }
+    : { text: preview, entities: [] };
+}
+
+/** Entities of the question and the answer of a front/back card; cloze faces are shown plain. */
+export function getFaceEntities(card: CardFormattingSource, faces: CardFacesLike) {
+  const { text, entities } = getCardFormattedText(card);
+  const frontStart = text.indexOf(faces.front);
+  const backStart = frontStart < 0 ? -1 : text.indexOf(faces.back, frontStart + faces.front.length);
+  if (faces.kind !== 'front_back' || backStart < 0) return { front: [], back: [] };
+  return {
+    front: sliceEntities(entities, frontStart, faces.front.length),
+    back: sliceEntities(entities, backStart, faces.back.length),
+  };
+}
@@ -1,17 +1,17 @@
-var e=Object.create,t=Object.defineProperty,n=Object.getOwnPropertyDescriptor,r=Object.getOwnPropertyNames,i=Object.getPrototypeOf,a=Object.prototype.hasOwnProperty,o=(e,t)=>()=>(t||(e((t={exports:{}}).exports,t),e=null),t.exports),s=(e,i,o,s)=>{if(i&&typeof i==`object`||typeof i==`function`)for(var c=r(i),l=0,u=c.length,d;l<u;l++)d=c[l],!a.call(e,d)&&d!==o&&t(e,d,{get:(e=>i[e]).bind(null,d),enumerable:!(s=n(i,d))||s.enumerable});return e},c=(n,r,a)=>(a=n==null?{}:e(i(n)),s(r||!n||!n.__esModule?t(a,`default`,{value:n,enumerable:!0}):a,n));(function(){let e=document.createElement(`link`).relList;if(e&&e.supports&&e.supports(`modulepreload`))return;for(let e of document.querySelectorAll(`link[rel="modulepreload"]`))n(e);new MutationObserver(e=>{for(let t of e)if(t.type===`childList`)for(let e of t.addedNodes)e.tagName===`LINK`&&e.rel===`modulepreload`&&n(e)}).observe(document,{childList:!0,subtree:!0});function t(e){let t={};return e.integrity&&(t.integrity=e.integrity),e.referrerPolicy&&(t.referrerPolicy=e.referrerPolicy),e.crossOrigin===`use-credentials`?t.credentials=`include`:e.crossOrigin===`anonymous`?t.credentials=`omit`:t.credentials=`same-origin`,t}function n(e){if(e.ep)return;e.ep=!0;let n=t(e);fetch(e.href,n)}})();var l=o((e=>{var t=Symbol.for(`react.transitional.element`),n=Symbol.for(`react.portal`),r=Symbol.for(`react.fragment`),i=Symbol.for(`react.strict_mode`),a=Symbol.for(`react.profiler`),o=Symbol.for(`react.consumer`),s=Symbol.for(`react.context`),c=Symbol.for(`react.forward_ref`),l=Symbol.for(`react.suspense`),u=Symbol.for(`react.memo`),d=Symbol.for(`react.lazy`),f=Symbol.for(`react.activity`),p=Symbol.iterator;function m(e){return typeof e!=`object`||!e?null:(e=p&&e[p]||e[`@@iterator`],typeof e==`function`?e:null)}var h={isMounted:function(){return!1},enqueueForceUpdate:function(){},enqueueReplaceState:function(){},enqueueSetState:function(){}},g=Object.assign,_={};function v(e,t,n){this.props=e,this.context=t,this.refs=_,this.updater=n||h}v.prototype.isReactComponent={},v.prototype.setState=function(e,t){if(typeof e!=`object`&&typeof e!=`function`&&e!=null)throw Error(`takes an object of state variables to update or a function which returns an object of state variables.`);this.updater.enqueueSetState(this,e,t,`setState`)},v.prototype.forceUpdate=function(e){this.updater.enqueueForceUpdate(this,e,`forceUpdate`)};function y(){}y.prototype=v.prototype;function b(e,t,n){this.props=e,this.context=t,this.refs=_,this.updater=n||h}var x=b.prototype=new y;x.constructor=b,g(x,v.prototype),x.isPureReactComponent=!0;var S=Array.isArray;function C(){}var w={H:null,A:null,T:null,S:null},T=Object.prototype.hasOwnProperty;function E(e,n,r){var i=r.ref;return{$$typeof:t,type:e,key:n,ref:i===void 0?null:i,props:r}}function D(e,t){return E(e.type,t,e.props)}function O(e){return typeof e==`object`&&!!e&&e.$$typeof===t}function ee(e){var t={"=":`=0`,":":`=2`};return`$`+e.replace(/[=:]/g,function(e){return t[e]})}var k=/\/+/g;function A(e,t){return typeof e==`object`&&e&&e.key!=null?ee(``+e.key):t.toString(36)}function j(e){switch(e.status){case`fulfilled`:return e.value;case`rejected`:throw e.reason;default:switch(typeof e.status==`string`?e.then(C,C):(e.status=`pending`,e.then(function(t){e.status===`pending`&&(e.status=`fulfilled`,e.value=t)},function(t){e.status===`pending`&&(e.status=`rejected`,e.reason=t)})),e.status){case`fulfilled`:return e.value;case`rejected`:throw e.reason}}throw e}function M(e,r,i,a,o){var s=typeof e;(s===`undefined`||s===`boolean`)&&(e=null);var c=!1;if(e===null)c=!0;else switch(s){case`bigint`:case`string`:case`number`:c=!0;break;case`object`:switch(e.$$typeof){case t:case n:c=!0;break;case d:return c=e._init,M(c(e._payload),r,i,a,o)}}if(c)return o=o(e),c=a===``?`.`+A(e,0):a,S(o)?(i=``,c!=null&&(i=c.replace(k,`$&/`)+`/`),M(o,r,i,``,function(e){return e})):o!=null&&(O(o)&&(o=D(o,i+(o.key==null||e&&e.key===o.key?``:(``+o.key).replace(k,`$&/`)+`/`)+c)),r.push(o)),1;c=0;var l=a===``?`.`:a+`:`;if(S(e))for(var u=0;u<e.length;u++)a=e[u],s=l+A(a,u),c+=M(a,r,i,s,o);else if(u=m(e),typeof u==`function`)for(e=u.call(e),u=0;!(a=e.next()).done;)a=a.value,s=l+A(a,u++),c+=M(a,r,i,s,o);else if(s===`object`){if(typeof e.then==`function`)return M(j(e),r,i,a,o);throw r=String(e),Error(`Objects are not valid as a React child (found: `+(r===`[object Object]`?`object with keys {`+Object.keys(e).join(`, `)+`}`:r)+`). If you meant to render a collection of children, use an array instead.`)}return c}function te(e,t,n){if(e==null)return e;var r=[],i=0;return M(e,r,``,``,function(e){return t.call(n,e,i++)}),r}function ne(e){if(e._status===-1){var t=e._result;t=t(),t.then(function(t){(e._status===0||e._status===-1)&&(e._status=1,e._result=t)},function(t){(e._status===0||e._status===-1)&&(e._status=2,e._result=t)}),e._status===-1&&(e._status=0,e._result=t)}if(e._status===1)return e._result.default;throw e._result}var N=typeof reportError==`function`?reportError:function(e){if(typeof window==`object`&&typeof window.ErrorEvent==`function`){var t=new window.ErrorEvent(`error`,{bubbles:!0,cancelable:!0,message:typeof e==`object`&&e&&typeof e.message==`string`?String(e.message):String(e),error:e});if(!window.dispatchEvent(t))return}else if(typeof process==`object`&&typeof process.emit==`function`){process.emit(`uncaughtException`,e);return}console.error(e)},P={map:te,forEach:function(e,t,n){te(e,function(){t.apply(this,arguments)},n)},count:function(e){var t=0;return te(e,function(){t++}),t},toArray:function(e){return te(e,function(e){return e})||[]},only:function(e){if(!O(e))throw Error(`React.Children.only expected to receive a single React element child.`);return e}};e.Activity=f,e.Children=P,e.Component=v,e.Fragment=r,e.Profiler=a,e.PureComponent=b,e.StrictMode=i,e.Suspense=l,e.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE=w,e.__COMPILER_RUNTIME={__proto__:null,c:function(e){return w.H.useMemoCache(e)}},e.cache=function(e){return function(){return e.apply(null,arguments)}},e.cacheSignal=function(){return null},e.cloneElement=function(e,t,n){if(e==null)throw Error(`The argument must be a React element, but you passed `+e+`.`);var r=g({},e.props),i=e.key;if(t!=null)for(a in t.key!==void 0&&(i=``+t.key),t)!T.call(t,a)||a===`key`||a===`__self`||a===`__source`||a===`ref`&&t.ref===void 0||(r[a]=t[a]);var a=arguments.length-2;if(a===1)r.children=n;else if(1<a){for(var o=Array(a),s=0;s<a;s++)o[s]=arguments[s+2];r.children=o}return E(e.type,i,r)},e.createContext=function(e){return e={$$typeof:s,_currentValue:e,_currentValue2:e,_threadCount:0,Provider:null,Consumer:null},e.Provider=e,e.Consumer={$$typeof:o,_context:e},e},e.createElement=function(e,t,n){var r,i={},a=null;if(t!=null)for(r in t.key!==void 0&&(a=``+t.key),t)T.call(t,r)&&r!==`key`&&r!==`__self`&&r!==`__source`&&(i[r]=t[r]);var o=arguments.length-2;if(o===1)i.children=n;else if(1<o){for(var s=Array(o),c=0;c<o;c++)s[c]=arguments[c+2];i.children=s}if(e&&e.defaultProps)for(r in o=e.defaultProps,o)i[r]===void 0&&(i[r]=o[r]);return E(e,a,i)},e.createRef=function(){return{current:null}},e.forwardRef=function(e){return{$$typeof:c,render:e}},e.isValidElement=O,e.lazy=function(e){return{$$typeof:d,_payload:{_status:-1,_result:e},_init:ne}},e.memo=function(e,t){return{$$typeof:u,type:e,compare:t===void 0?null:t}},e.startTransition=function(e){var t=w.T,n={};w.T=n;try{var r=e(),i=w.S;i!==null&&i(n,r),typeof r==`object`&&r&&typeof r.then==`function`&&r.then(C,N)}catch(e){N(e)}finally{t!==null&&n.types!==null&&(t.types=n.types),w.T=t}},e.unstable_useCacheRefresh=function(){return w.H.useCacheRefresh()},e.use=function(e){return w.H.use(e)},e.useActionState=function(e,t,n){return w.H.useActionState(e,t,n)},e.useCallback=function(e,t){return w.H.useCallback(e,t)},e.useContext=function(e){return w.H.useContext(e)},e.useDebugValue=function(){},e.useDeferredValue=function(e,t){return w.H.useDeferredValue(e,t)},e.useEffect=function(e,t){return w.H.useEffect(e,t)},e.useEffectEvent=function(e){return w.H.useEffectEvent(e)},e.useId=function(){return w.H.useId()},e.useImperativeHandle=function(e,t,n){return w.H.useImperativeHandle(e,t,n)},e.useInsertionEffect=function(e,t){return w.H.useInsertionEffect(e,t)},e.useLayoutEffect=function(e,t){return w.H.useLayoutEffect(e,t)},e.useMemo=function(e,t){return w.H.useMemo(e,t)},e.useOptimistic=function(e,t){return w.H.useOptimistic(e,t)},e.useReducer=function(e,t,n){return w.H.useReducer(e,t,n)},e.useRef=function(e){return w.H.useRef(e)},e.useState=function(e){return w.H.useState(e)},e.useSyncExternalStore=function(e,t,n){return w.H.useSyncExternalStore(e,t,n)},e.useTransition=function(){return w.H.useTransition()},e.version=`19.2.5`})),u=o(((e,t)=>{t.exports=l()})),d=o((e=>{function t(e,t){var n=e.length;e.push(t);a:for(;0<n;){var r=n-1>>>1,a=e[r];if(0<i(a,t))e[r]=t,e[n]=a,n=r;else break a}}function n(e){return e.length===0?null:e[0]}function r(e){if(e.length===0)return null;var t=e[0],n=e.pop();if(n!==t){e[0]=n;a:for(var r=0,a=e.length,o=a>>>1;r<o;){var s=2*(r+1)-1,c=e[s],l=s+1,u=e[l];if(0>i(c,n))l<a&&0>i(u,c)?(e[r]=u,e[l]=n,r=l):(e[r]=c,e[s]=n,r=s);else if(l<a&&0>i(u,n))e[r]=u,e[l]=n,r=l;else break a}}return t}function i(e,t){var n=e.sortIndex-t.sortIndex;return n===0?e.id-t.id:n}if(e.unstable_now=void 0,typeof performance==`object`&&typeof performance.now==`function`){var a=performance;e.unstable_now=function(){return a.now()}}else{var o=Date,s=o.now();e.unstable_now=function(){return o.now()-s}}var c=[],l=[],u=1,d=null,f=3,p=!1,m=!1,h=!1,g=!1,_=typeof setTimeout==`function`?setTimeout:null,v=typeof clearTimeout==`function`?clearTimeout:null,y=typeof setImmediate<`u`?setImmediate:null;function b(e){for(var i=n(l);i!==null;){if(i.callback===null)r(l);else if(i.startTime<=e)r(l),i.sortIndex=i.expirationTime,t(c,i);else break;i=n(l)}}function x(e){if(h=!1,b(e),!m)if(n(c)!==null)m=!0,S||(S=!0,O());else{var t=n(l);t!==null&&A(x,t.startTime-e)}}var S=!1,C=-1,w=5,T=-1;function E(){return g?!0:!(e.unstable_now()-T<w)}function D(){if(g=!1,S){var t=e.unstable_now();T=t;var i=!0;try{a:{m=!1,h&&(h=!1,v(C),C=-1),p=!0;var a=f;try{b:{for(b(t),d=n(c);d!==null&&!(d.expirationTime>t&&E());){var o=d.callback;if(typeof o==`function`){d.callback=null,f=d.priorityLevel;var s=o(d.expirationTime<=t);if(t=e.unstable_now(),typeof s==`function`){d.callback=s,b(t),i=!0;break b}d===n(c)&&r(c),b(t)}else r(c);d=n(c)}if(d!==null)i=!0;else{var u=n(l);u!==null&&A(x,u.startTime-t),i=!1}}break a}finally{d=null,f=a,p=!1}i=void 0}}finally{i?O():S=!1}}}var O;if(typeof y==`function`)O=function(){y(D)};else if(typeof MessageChannel<`u`){var ee=new MessageChannel,k=ee.port2;ee.port1.onmessage=D,O=function(){k.postMessage(null)}}else O=function(){_(D,0)};function A(t,n){C=_(function(){t(e.unstable_now())},n)}e.unstable_IdlePriority=5,e.unstable_ImmediatePriority=1,e.unstable_LowPriority=4,e.unstable_NormalPriority=3,e.unstable_Profiling=null,e.unstable_UserBlockingPriority=2,e.unstable_cancelCallback=function(e){e.callback=null},e.unstable_forceFrameRate=function(e){0>e||125<e?console.error(`forceFrameRate takes a positive int between 0 and 125, forcing frame rates higher than 125 fps is not supported`):w=0<e?Math.floor(1e3/e):5},e.unstable_getCurrentPriorityLevel=function(){return f},e.unstable_next=function(e){switch(f){case 1:case 2:case 3:var t=3;break;default:t=f}var n=f;f=t;try{return e()}finally{f=n}},e.unstable_requestPaint=function(){g=!0},e.unstable_runWithPriority=function(e,t){switch(e){case 1:case 2:case 3:case 4:case 5:break;default:e=3}var n=f;f=e;try{return t()}finally{f=n}},e.unstable_scheduleCallback=function(r,i,a){var o=e.unstable_now();switch(typeof a==`object`&&a?(a=a.delay,a=typeof a==`number`&&0<a?o+a:o):a=o,r){case 1:var s=-1;break;case 2:s=250;break;case 5:s=1073741823;break;case 4:s=1e4;break;default:s=5e3}return s=a+s,r={id:u++,callback:i,priorityLevel:r,startTime:a,expirationTime:s,sortIndex:-1},a>o?(r.sortIndex=a,t(l,r),n(c)===null&&r===n(l)&&(h?(v(C),C=-1):h=!0,A(x,a-o))):(r.sortIndex=s,t(c,r),m||p||(m=!0,S||(S=!0,O()))),r},e.unstable_shouldYield=E,e.unstable_wrapCallback=function(e){var t=f;return function(){var n=f;f=t;try{return e.apply(this,arguments)}finally{f=n}}}})),f=o(((e,t)=>{t.exports=d()})),p=o((e=>{var t=u();function n(e){var t=`https://react.dev/errors/`+e;if(1<arguments.length){t+=`?args[]=`+encodeURIComponent(arguments[1]);for(var n=2;n<arguments.length;n++)t+=`&args[]=`+encodeURIComponent(arguments[n])}return`Minified React error #`+e+`; visit `+t+` for the full message or use the non-minified dev environment for full errors and additional helpful warnings.`}function r(){}var i={d:{f:r,r:function(){throw Error(n(522))},D:r,C:r,L:r,m:r,X:r,S:r,M:r},p:0,findDOMNode:null},a=Symbol.for(`react.portal`);function o(e,t,n){var r=3<arguments.length&&arguments[3]!==void 0?arguments[3]:null;return{$$typeof:a,key:r==null?null:``+r,children:e,containerInfo:t,implementation:n}}var s=t.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE;function c(e,t){if(e===`font`)return``;if(typeof t==`string`)return t===`use-credentials`?t:``}e.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE=i,e.createPortal=function(e,t){var r=2<arguments.length&&arguments[2]!==void 0?arguments[2]:null;if(!t||t.nodeType!==1&&t.nodeType!==9&&t.nodeType!==11)throw Error(n(299));return o(e,t,null,r)},e.flushSync=function(e){var t=s.T,n=i.p;try{if(s.T=null,i.p=2,e)return e()}finally{s.T=t,i.p=n,i.d.f()}},e.preconnect=function(e,t){typeof e==`string`&&(t?(t=t.crossOrigin,t=typeof t==`string`?t===`use-credentials`?t:``:void 0):t=null,i.d.C(e,t))},e.prefetchDNS=function(e){typeof e==`string`&&i.d.D(e)},e.preinit=function(e,t){if(typeof e==`string`&&t&&typeof t.as==`string`){var n=t.as,r=c(n,t.crossOrigin),a=typeof t.integrity==`string`?t.integrity:void 0,o=typeof t.fetchPriority==`string`?t.fetchPriority:void 0;n===`style`?i.d.S(e,typeof t.precedence==`string`?t.precedence:void 0,{crossOrigin:r,integrity:a,fetchPriority:o}):n===`script`&&i.d.X(e,{crossOrigin:r,integrity:a,fetchPriority:o,nonce:typeof t.nonce==`string`?t.nonce:void 0})}},e.preinitModule=function(e,t){if(typeof e==`string`)if(typeof t==`object`&&t){if(t.as==null||t.as===`script`){var n=c(t.as,t.crossOrigin);i.d.M(e,{crossOrigin:n,integrity:typeof t.integrity==`string`?t.integrity:void 0,nonce:typeof t.nonce==`string`?t.nonce:void 0})}}else t??i.d.M(e)},e.preload=function(e,t){if(typeof e==`string`&&typeof t==`object`&&t&&typeof t.as==`string`){var n=t.as,r=c(n,t.crossOrigin);i.d.L(e,n,{crossOrigin:r,integrity:typeof t.integrity==`string`?t.integrity:void 0,nonce:typeof t.nonce==`string`?t.nonce:void 0,type:typeof t.type==`string`?t.type:void 0,fetchPriority:typeof t.fetchPriority==`string`?t.fetchPriority:void 0,referrerPolicy:typeof t.referrerPolicy==`string`?t.referrerPolicy:void 0,imageSrcSet:typeof t.imageSrcSet==`string`?t.imageSrcSet:void 0,imageSizes:typeof t.imageSizes==`string`?t.imageSizes:void 0,media:typeof t.media==`string`?t.media:void 0})}},e.preloadModule=function(e,t){if(typeof e==`string`)if(t){var n=c(t.as,t.crossOrigin);i.d.m(e,{as:typeof t.as==`string`&&t.as!==`script`?t.as:void 0,crossOrigin:n,integrity:typeof t.integrity==`string`?t.integrity:void 0})}else i.d.m(e)},e.requestFormReset=function(e){i.d.r(e)},e.unstable_batchedUpdates=function(e,t){return e(t)},e.useFormState=function(e,t,n){return s.H.useFormState(e,t,n)},e.useFormStatus=function(){return s.H.useHostTransitionStatus()},e.version=`19.2.5`})),m=o(((e,t)=>{function n(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>`u`||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!=`function`))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(n)}catch(e){console.error(e)}}n(),t.exports=p()})),h=o((e=>{var t=f(),n=u(),r=m();function i(e){var t=`https://react.dev/errors/`+e;if(1<arguments.length){t+=`?args[]=`+encodeURIComponent(arguments[1]);for(var n=2;n<arguments.length;n++)t+=`&args[]=`+encodeURIComponent(arguments[n])}return`Minified React error #`+e+`; visit `+t+` for the full message or use the non-minified dev environment for full errors and additional helpful warnings.`}function a(e){return!(!e||e.nodeType!==1&&e.nodeType!==9&&e.nodeType!==11)}function o(e){var t=e,n=e;if(e.alternate)for(;t.return;)t=t.return;else{e=t;do t=e,t.flags&4098&&(n=t.return),e=t.return;while(e)}return t.tag===3?n:null}function s(e){if(e.tag===13){var t=e.memoizedState;if(t===null&&(e=e.alternate,e!==null&&(t=e.memoizedState)),t!==null)return t.dehydrated}return null}function c(e){if(e.tag===31){var t=e.memoizedState;if(t===null&&(e=e.alternate,e!==null&&(t=e.memoizedState)),t!==null)return t.dehydrated}return null}function l(e){if(o(e)!==e)throw Error(i(188))}function d(e){var t=e.alternate;if(!t){if(t=o(e),t===null)throw Error(i(188));return t===e?e:null}for(var n=e,r=t;;){var a=n.return;if(a===null)break;var s=a.alternate;if(s===null){if(r=a.return,r!==null){n=r;continue}break}if(a.child===s.child){for(s=a.child;s;){if(s===n)return l(a),e;if(s===r)return l(a),t;s=s.sibling}throw Error(i(188))}if(n.return!==r.return)n=a,r=s;else{for(var c=!1,u=a.child;u;){if(u===n){c=!0,n=a,r=s;break}if(u===r){c=!0,r=a,n=s;break}u=u.sibling}if(!c){for(u=s.child;u;){if(u===n){c=!0,n=s,r=a;break}if(u===r){c=!0,r=s,n=a;break}u=u.sibling}if(!c)throw Error(i(189))}}if(n.alternate!==r)throw Error(i(190))}if(n.tag!==3)throw Error(i(188));return n.stateNode.current===n?e:t}function p(e){var t=e.tag;if(t===5||t===26||t===27||t===6)return e;for(e=e.child;e!==null;){if(t=p(e),t!==null)return t;e=e.sibling}return null}var h=Object.assign,g=Symbol.for(`react.element`),_=Symbol.for(`react.transitional.element`),v=Symbol.for(`react.portal`),y=Symbol.for(`react.fragment`),b=Symbol.for(`react.strict_mode`),x=Symbol.for(`react.profiler`),S=Symbol.for(`react.consumer`),C=Symbol.for(`react.context`),w=Symbol.for(`react.forward_ref`),T=Symbol.for(`react.suspense`),E=Symbol.for(`react.suspense_list`),D=Symbol.for(`react.memo`),O=Symbol.for(`react.lazy`),ee=Symbol.for(`react.activity`),k=Symbol.for(`react.memo_cache_sentinel`),A=Symbol.iterator;function j(e){return typeof e!=`object`||!e?null:(e=A&&e[A]||e[`@@iterator`],typeof e==`function`?e:null)}var M=Symbol.for(`react.client.reference`);function te(e){if(e==null)return null;if(typeof e==`function`)return e.$$typeof===M?null:e.displayName||e.name||null;if(typeof e==`string`)return e;switch(e){case y:return`Fragment`;case x:return`Profiler`;case b:return`StrictMode`;case T:return`Suspense`;case E:return`SuspenseList`;case ee:return`Activity`}if(typeof e==`object`)switch(e.$$typeof){case v:return`Portal`;case C:return e.displayName||`Context`;case S:return(e._context.displayName||`Context`)+`.Consumer`;case w:var t=e.render;return e=e.displayName,e||=(e=t.displayName||t.name||``,e===``?`ForwardRef`:`ForwardRef(`+e+`)`),e;case D:return t=e.displayName||null,t===null?te(e.type)||`Memo`:t;case O:t=e._payload,e=e._init;try{return te(e(t))}catch{}}return null}var ne=Array.isArray,N=n.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE,P=r.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE,re={pending:!1,data:null,method:null,action:null},ie=[],ae=-1;function oe(e){return{current:e}}function F(e){0>ae||(e.current=ie[ae],ie[ae]=null,ae--)}function I(e,t){ae++,ie[ae]=e.current,e.current=t}var se=oe(null),ce=oe(null),le=oe(null),ue=oe(null);function de(e,t){switch(I(le,t),I(ce,e),I(se,null),t.nodeType){case 9:case 11:e=(e=t.documentElement)&&(e=e.namespaceURI)?Vd(e):0;break;default:if(e=t.tagName,t=t.namespaceURI)t=Vd(t),e=Hd(t,e);else switch(e){case`svg`:e=1;break;case`math`:e=2;break;default:e=0}}F(se),I(se,e)}function fe(){F(se),F(ce),F(le)}function pe(e){e.memoizedState!==null&&I(ue,e);var t=se.current,n=Hd(t,e.type);t!==n&&(I(ce,e),I(se,n))}function me(e){ce.current===e&&(F(se),F(ce)),ue.current===e&&(F(ue),Qf._currentValue=re)}var he,ge;function _e(e){if(he===void 0)try{throw Error()}catch(e){var t=e.stack.trim().match(/\n( *(at )?)/);he=t&&t[1]||``,ge=-1<e.stack.indexOf(`
+var e=Object.create,t=Object.defineProperty,n=Object.getOwnPropertyDescriptor,r=Object.getOwnPropertyNames,i=Object.getPrototypeOf,a=Object.prototype.hasOwnProperty,o=(e,t)=>()=>(t||(e((t={exports:{}}).exports,t),e=null),t.exports),s=(e,i,o,s)=>{if(i&&typeof i==`object`||typeof i==`function`)for(var c=r(i),l=0,u=c.length,d;l<u;l++)d=c[l],!a.call(e,d)&&d!==o&&t(e,d,{get:(e=>i[e]).bind(null,d),enumerable:!(s=n(i,d))||s.enumerable});return e},c=(n,r,a)=>(a=n==null?{}:e(i(n)),s(r||!n||!n.__esModule?t(a,`default`,{value:n,enumerable:!0}):a,n));(function(){let e=document.createElement(`link`).relList;if(e&&e.supports&&e.supports(`modulepreload`))return;for(let e of document.querySelectorAll(`link[rel="modulepreload"]`))n(e);new MutationObserver(e=>{for(let t of e)if(t.type===`childList`)for(let e of t.addedNodes)e.tagName===`LINK`&&e.rel===`modulepreload`&&n(e)}).observe(document,{childList:!0,subtree:!0});function t(e){let t={};return e.integrity&&(t.integrity=e.integrity),e.referrerPolicy&&(t.referrerPolicy=e.referrerPolicy),e.crossOrigin===`use-credentials`?t.credentials=`include`:e.crossOrigin===`anonymous`?t.credentials=`omit`:t.credentials=`same-origin`,t}function n(e){if(e.ep)return;e.ep=!0;let n=t(e);fetch(e.href,n)}})();var l=o((e=>{var t=Symbol.for(`react.transitional.element`),n=Symbol.for(`react.portal`),r=Symbol.for(`react.fragment`),i=Symbol.for(`react.strict_mode`),a=Symbol.for(`react.profiler`),o=Symbol.for(`react.consumer`),s=Symbol.for(`react.context`),c=Symbol.for(`react.forward_ref`),l=Symbol.for(`react.suspense`),u=Symbol.for(`react.memo`),d=Symbol.for(`react.lazy`),f=Symbol.for(`react.activity`),p=Symbol.iterator;function m(e){return typeof e!=`object`||!e?null:(e=p&&e[p]||e[`@@iterator`],typeof e==`function`?e:null)}var h={isMounted:function(){return!1},enqueueForceUpdate:function(){},enqueueReplaceState:function(){},enqueueSetState:function(){}},g=Object.assign,_={};function v(e,t,n){this.props=e,this.context=t,this.refs=_,this.updater=n||h}v.prototype.isReactComponent={},v.prototype.setState=function(e,t){if(typeof e!=`object`&&typeof e!=`function`&&e!=null)throw Error(`takes an object of state variables to update or a function which returns an object of state variables.`);this.updater.enqueueSetState(this,e,t,`setState`)},v.prototype.forceUpdate=function(e){this.updater.enqueueForceUpdate(this,e,`forceUpdate`)};function y(){}y.prototype=v.prototype;function b(e,t,n){this.props=e,this.context=t,this.refs=_,this.updater=n||h}var x=b.prototype=new y;x.constructor=b,g(x,v.prototype),x.isPureReactComponent=!0;var S=Array.isArray;function C(){}var w={H:null,A:null,T:null,S:null},T=Object.prototype.hasOwnProperty;function E(e,n,r){var i=r.ref;return{$$typeof:t,type:e,key:n,ref:i===void 0?null:i,props:r}}function D(e,t){return E(e.type,t,e.props)}function O(e){return typeof e==`object`&&!!e&&e.$$typeof===t}function ee(e){var t={"=":`=0`,":":`=2`};return`$`+e.replace(/[=:]/g,function(e){return t[e]})}var k=/\/+/g;function A(e,t){return typeof e==`object`&&e&&e.key!=null?ee(``+e.key):t.toString(36)}function j(e){switch(e.status){case`fulfilled`:return e.value;case`rejected`:throw e.reason;default:switch(typeof e.status==`string`?e.then(C,C):(e.status=`pending`,e.then(function(t){e.status===`pending`&&(e.status=`fulfilled`,e.value=t)},function(t){e.status===`pending`&&(e.status=`rejected`,e.reason=t)})),e.status){case`fulfilled`:return e.value;case`rejected`:throw e.reason}}throw e}function M(e,r,i,a,o){var s=typeof e;(s===`undefined`||s===`boolean`)&&(e=null);var c=!1;if(e===null)c=!0;else switch(s){case`bigint`:case`string`:case`number`:c=!0;break;case`object`:switch(e.$$typeof){case t:case n:c=!0;break;case d:return c=e._init,M(c(e._payload),r,i,a,o)}}if(c)return o=o(e),c=a===``?`.`+A(e,0):a,S(o)?(i=``,c!=null&&(i=c.replace(k,`$&/`)+`/`),M(o,r,i,``,function(e){return e})):o!=null&&(O(o)&&(o=D(o,i+(o.key==null||e&&e.key===o.key?``:(``+o.key).replace(k,`$&/`)+`/`)+c)),r.push(o)),1;c=0;var l=a===``?`.`:a+`:`;if(S(e))for(var u=0;u<e.length;u++)a=e[u],s=l+A(a,u),c+=M(a,r,i,s,o);else if(u=m(e),typeof u==`function`)for(e=u.call(e),u=0;!(a=e.next()).done;)a=a.value,s=l+A(a,u++),c+=M(a,r,i,s,o);else if(s===`object`){if(typeof e.then==`function`)return M(j(e),r,i,a,o);throw r=String(e),Error(`Objects are not valid as a React child (found: `+(r===`[object Object]`?`object with keys {`+Object.keys(e).join(`, `)+`}`:r)+`). If you meant to render a collection of children, use an array instead.`)}return c}function te(e,t,n){if(e==null)return e;var r=[],i=0;return M(e,r,``,``,function(e){return t.call(n,e,i++)}),r}function ne(e){if(e._status===-1){var t=e._result;t=t(),t.then(function(t){(e._status===0||e._status===-1)&&(e._status=1,e._result=t)},function(t){(e._status===0||e._status===-1)&&(e._status=2,e._result=t)}),e._status===-1&&(e._status=0,e._result=t)}if(e._status===1)return e._result.default;throw e._result}var N=typeof reportError==`function`?reportError:function(e){if(typeof window==`object`&&typeof window.ErrorEvent==`function`){var t=new window.ErrorEvent(`error`,{bubbles:!0,cancelable:!0,message:typeof e==`object`&&e&&typeof e.message==`string`?String(e.message):String(e),error:e});if(!window.dispatchEvent(t))return}else if(typeof process==`object`&&typeof process.emit==`function`){process.emit(`uncaughtException`,e);return}console.error(e)},P={map:te,forEach:function(e,t,n){te(e,function(){t.apply(this,arguments)},n)},count:function(e){var t=0;return te(e,function(){t++}),t},toArray:function(e){return te(e,function(e){return e})||[]},only:function(e){if(!O(e))throw Error(`React.Children.only expected to receive a single React element child.`);return e}};e.Activity=f,e.Children=P,e.Component=v,e.Fragment=r,e.Profiler=a,e.PureComponent=b,e.StrictMode=i,e.Suspense=l,e.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE=w,e.__COMPILER_RUNTIME={__proto__:null,c:function(e){return w.H.useMemoCache(e)}},e.cache=function(e){return function(){return e.apply(null,arguments)}},e.cacheSignal=function(){return null},e.cloneElement=function(e,t,n){if(e==null)throw Error(`The argument must be a React element, but you passed `+e+`.`);var r=g({},e.props),i=e.key;if(t!=null)for(a in t.key!==void 0&&(i=``+t.key),t)!T.call(t,a)||a===`key`||a===`__self`||a===`__source`||a===`ref`&&t.ref===void 0||(r[a]=t[a]);var a=arguments.length-2;if(a===1)r.children=n;else if(1<a){for(var o=Array(a),s=0;s<a;s++)o[s]=arguments[s+2];r.children=o}return E(e.type,i,r)},e.createContext=function(e){return e={$$typeof:s,_currentValue:e,_currentValue2:e,_threadCount:0,Provider:null,Consumer:null},e.Provider=e,e.Consumer={$$typeof:o,_context:e},e},e.createElement=function(e,t,n){var r,i={},a=null;if(t!=null)for(r in t.key!==void 0&&(a=``+t.key),t)T.call(t,r)&&r!==`key`&&r!==`__self`&&r!==`__source`&&(i[r]=t[r]);var o=arguments.length-2;if(o===1)i.children=n;else if(1<o){for(var s=Array(o),c=0;c<o;c++)s[c]=arguments[c+2];i.children=s}if(e&&e.defaultProps)for(r in o=e.defaultProps,o)i[r]===void 0&&(i[r]=o[r]);return E(e,a,i)},e.createRef=function(){return{current:null}},e.forwardRef=function(e){return{$$typeof:c,render:e}},e.isValidElement=O,e.lazy=function(e){return{$$typeof:d,_payload:{_status:-1,_result:e},_init:ne}},e.memo=function(e,t){return{$$typeof:u,type:e,compare:t===void 0?null:t}},e.startTransition=function(e){var t=w.T,n={};w.T=n;try{var r=e(),i=w.S;i!==null&&i(n,r),typeof r==`object`&&r&&typeof r.then==`function`&&r.then(C,N)}catch(e){N(e)}finally{t!==null&&n.types!==null&&(t.types=n.types),w.T=t}},e.unstable_useCacheRefresh=function(){return w.H.useCacheRefresh()},e.use=function(e){return w.H.use(e)},e.useActionState=function(e,t,n){return w.H.useActionState(e,t,n)},e.useCallback=function(e,t){return w.H.useCallback(e,t)},e.useContext=function(e){return w.H.useContext(e)},e.useDebugValue=function(){},e.useDeferredValue=function(e,t){return w.H.useDeferredValue(e,t)},e.useEffect=function(e,t){return w.H.useEffect(e,t)},e.useEffectEvent=function(e){return w.H.useEffectEvent(e)},e.useId=function(){return w.H.useId()},e.useImperativeHandle=function(e,t,n){return w.H.useImperativeHandle(e,t,n)},e.useInsertionEffect=function(e,t){return w.H.useInsertionEffect(e,t)},e.useLayoutEffect=function(e,t){return w.H.useLayoutEffect(e,t)},e.useMemo=function(e,t){return w.H.useMemo(e,t)},e.useOptimistic=function(e,t){return w.H.useOptimistic(e,t)},e.useReducer=function(e,t,n){return w.H.useReducer(e,t,n)},e.useRef=function(e){return w.H.useRef(e)},e.useState=function(e){return w.H.useState(e)},e.useSyncExternalStore=function(e,t,n){return w.H.useSyncExternalStore(e,t,n)},e.useTransition=function(){return w.H.useTransition()},e.version=`19.2.5`})),u=o(((e,t)=>{t.exports=l()})),d=o((e=>{function t(e,t){var n=e.length;e.push(t);a:for(;0<n;){var r=n-1>>>1,a=e[r];if(0<i(a,t))e[r]=t,e[n]=a,n=r;else break a}}function n(e){return e.length===0?null:e[0]}function r(e){if(e.length===0)return null;var t=e[0],n=e.pop();if(n!==t){e[0]=n;a:for(var r=0,a=e.length,o=a>>>1;r<o;){var s=2*(r+1)-1,c=e[s],l=s+1,u=e[l];if(0>i(c,n))l<a&&0>i(u,c)?(e[r]=u,e[l]=n,r=l):(e[r]=c,e[s]=n,r=s);else if(l<a&&0>i(u,n))e[r]=u,e[l]=n,r=l;else break a}}return t}function i(e,t){var n=e.sortIndex-t.sortIndex;return n===0?e.id-t.id:n}if(e.unstable_now=void 0,typeof performance==`object`&&typeof performance.now==`function`){var a=performance;e.unstable_now=function(){return a.now()}}else{var o=Date,s=o.now();e.unstable_now=function(){return o.now()-s}}var c=[],l=[],u=1,d=null,f=3,p=!1,m=!1,h=!1,g=!1,_=typeof setTimeout==`function`?setTimeout:null,v=typeof clearTimeout==`function`?clearTimeout:null,y=typeof setImmediate<`u`?setImmediate:null;function b(e){for(var i=n(l);i!==null;){if(i.callback===null)r(l);else if(i.startTime<=e)r(l),i.sortIndex=i.expirationTime,t(c,i);else break;i=n(l)}}function x(e){if(h=!1,b(e),!m)if(n(c)!==null)m=!0,S||(S=!0,O());else{var t=n(l);t!==null&&A(x,t.startTime-e)}}var S=!1,C=-1,w=5,T=-1;function E(){return g?!0:!(e.unstable_now()-T<w)}function D(){if(g=!1,S){var t=e.unstable_now();T=t;var i=!0;try{a:{m=!1,h&&(h=!1,v(C),C=-1),p=!0;var a=f;try{b:{for(b(t),d=n(c);d!==null&&!(d.expirationTime>t&&E());){var o=d.callback;if(typeof o==`function`){d.callback=null,f=d.priorityLevel;var s=o(d.expirationTime<=t);if(t=e.unstable_now(),typeof s==`function`){d.callback=s,b(t),i=!0;break b}d===n(c)&&r(c),b(t)}else r(c);d=n(c)}if(d!==null)i=!0;else{var u=n(l);u!==null&&A(x,u.startTime-t),i=!1}}break a}finally{d=null,f=a,p=!1}i=void 0}}finally{i?O():S=!1}}}var O;if(typeof y==`function`)O=function(){y(D)};else if(typeof MessageChannel<`u`){var ee=new MessageChannel,k=ee.port2;ee.port1.onmessage=D,O=function(){k.postMessage(null)}}else O=function(){_(D,0)};function A(t,n){C=_(function(){t(e.unstable_now())},n)}e.unstable_IdlePriority=5,e.unstable_ImmediatePriority=1,e.unstable_LowPriority=4,e.unstable_NormalPriority=3,e.unstable_Profiling=null,e.unstable_UserBlockingPriority=2,e.unstable_cancelCallback=function(e){e.callback=null},e.unstable_forceFrameRate=function(e){0>e||125<e?console.error(`forceFrameRate takes a positive int between 0 and 125, forcing frame rates higher than 125 fps is not supported`):w=0<e?Math.floor(1e3/e):5},e.unstable_getCurrentPriorityLevel=function(){return f},e.unstable_next=function(e){switch(f){case 1:case 2:case 3:var t=3;break;default:t=f}var n=f;f=t;try{return e()}finally{f=n}},e.unstable_requestPaint=function(){g=!0},e.unstable_runWithPriority=function(e,t){switch(e){case 1:case 2:case 3:case 4:case 5:break;default:e=3}var n=f;f=e;try{return t()}finally{f=n}},e.unstable_scheduleCallback=function(r,i,a){var o=e.unstable_now();switch(typeof a==`object`&&a?(a=a.delay,a=typeof a==`number`&&0<a?o+a:o):a=o,r){case 1:var s=-1;break;case 2:s=250;break;case 5:s=1073741823;break;case 4:s=1e4;break;default:s=5e3}return s=a+s,r={id:u++,callback:i,priorityLevel:r,startTime:a,expirationTime:s,sortIndex:-1},a>o?(r.sortIndex=a,t(l,r),n(c)===null&&r===n(l)&&(h?(v(C),C=-1):h=!0,A(x,a-o))):(r.sortIndex=s,t(c,r),m||p||(m=!0,S||(S=!0,O()))),r},e.unstable_shouldYield=E,e.unstable_wrapCallback=function(e){var t=f;return function(){var n=f;f=t;try{return e.apply(this,arguments)}finally{f=n}}}})),f=o(((e,t)=>{t.exports=d()})),p=o((e=>{var t=u();function n(e){var t=`https://react.dev/errors/`+e;if(1<arguments.length){t+=`?args[]=`+encodeURIComponent(arguments[1]);for(var n=2;n<arguments.length;n++)t+=`&args[]=`+encodeURIComponent(arguments[n])}return`Minified React error #`+e+`; visit `+t+` for the full message or use the non-minified dev environment for full errors and additional helpful warnings.`}function r(){}var i={d:{f:r,r:function(){throw Error(n(522))},D:r,C:r,L:r,m:r,X:r,S:r,M:r},p:0,findDOMNode:null},a=Symbol.for(`react.portal`);function o(e,t,n){var r=3<arguments.length&&arguments[3]!==void 0?arguments[3]:null;return{$$typeof:a,key:r==null?null:``+r,children:e,containerInfo:t,implementation:n}}var s=t.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE;function c(e,t){if(e===`font`)return``;if(typeof t==`string`)return t===`use-credentials`?t:``}e.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE=i,e.createPortal=function(e,t){var r=2<arguments.length&&arguments[2]!==void 0?arguments[2]:null;if(!t||t.nodeType!==1&&t.nodeType!==9&&t.nodeType!==11)throw Error(n(299));return o(e,t,null,r)},e.flushSync=function(e){var t=s.T,n=i.p;try{if(s.T=null,i.p=2,e)return e()}finally{s.T=t,i.p=n,i.d.f()}},e.preconnect=function(e,t){typeof e==`string`&&(t?(t=t.crossOrigin,t=typeof t==`string`?t===`use-credentials`?t:``:void 0):t=null,i.d.C(e,t))},e.prefetchDNS=function(e){typeof e==`string`&&i.d.D(e)},e.preinit=function(e,t){if(typeof e==`string`&&t&&typeof t.as==`string`){var n=t.as,r=c(n,t.crossOrigin),a=typeof t.integrity==`string`?t.integrity:void 0,o=typeof t.fetchPriority==`string`?t.fetchPriority:void 0;n===`style`?i.d.S(e,typeof t.precedence==`string`?t.precedence:void 0,{crossOrigin:r,integrity:a,fetchPriority:o}):n===`script`&&i.d.X(e,{crossOrigin:r,integrity:a,fetchPriority:o,nonce:typeof t.nonce==`string`?t.nonce:void 0})}},e.preinitModule=function(e,t){if(typeof e==`string`)if(typeof t==`object`&&t){if(t.as==null||t.as===`script`){var n=c(t.as,t.crossOrigin);i.d.M(e,{crossOrigin:n,integrity:typeof t.integrity==`string`?t.integrity:void 0,nonce:typeof t.nonce==`string`?t.nonce:void 0})}}else t??i.d.M(e)},e.preload=function(e,t){if(typeof e==`string`&&typeof t==`object`&&t&&typeof t.as==`string`){var n=t.as,r=c(n,t.crossOrigin);i.d.L(e,n,{crossOrigin:r,integrity:typeof t.integrity==`string`?t.integrity:void 0,nonce:typeof t.nonce==`string`?t.nonce:void 0,type:typeof t.type==`string`?t.type:void 0,fetchPriority:typeof t.fetchPriority==`string`?t.fetchPriority:void 0,referrerPolicy:typeof t.referrerPolicy==`string`?t.referrerPolicy:void 0,imageSrcSet:typeof t.imageSrcSet==`string`?t.imageSrcSet:void 0,imageSizes:typeof t.imageSizes==`string`?t.imageSizes:void 0,media:typeof t.media==`string`?t.media:void 0})}},e.preloadModule=function(e,t){if(typeof e==`string`)if(t){var n=c(t.as,t.crossOrigin);i.d.m(e,{as:typeof t.as==`string`&&t.as!==`script`?t.as:void 0,crossOrigin:n,integrity:typeof t.integrity==`string`?t.integrity:void 0})}else i.d.m(e)},e.requestFormReset=function(e){i.d.r(e)},e.unstable_batchedUpdates=function(e,t){return e(t)},e.useFormState=function(e,t,n){return s.H.useFormState(e,t,n)},e.useFormStatus=function(){return s.H.useHostTransitionStatus()},e.version=`19.2.5`})),m=o(((e,t)=>{function n(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>`u`||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!=`function`))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(n)}catch(e){console.error(e)}}n(),t.exports=p()})),h=o((e=>{var t=f(),n=u(),r=m();function i(e){var t=`https://react.dev/errors/`+e;if(1<arguments.length){t+=`?args[]=`+encodeURIComponent(arguments[1]);for(var n=2;n<arguments.length;n++)t+=`&args[]=`+encodeURIComponent(arguments[n])}return`Minified React error #`+e+`; visit `+t+` for the full message or use the non-minified dev environment for full errors and additional helpful warnings.`}function a(e){return!(!e||e.nodeType!==1&&e.nodeType!==9&&e.nodeType!==11)}function o(e){var t=e,n=e;if(e.alternate)for(;t.return;)t=t.return;else{e=t;do t=e,t.flags&4098&&(n=t.return),e=t.return;while(e)}return t.tag===3?n:null}function s(e){if(e.tag===13){var t=e.memoizedState;if(t===null&&(e=e.alternate,e!==null&&(t=e.memoizedState)),t!==null)return t.dehydrated}return null}function c(e){if(e.tag===31){var t=e.memoizedState;if(t===null&&(e=e.alternate,e!==null&&(t=e.memoizedState)),t!==null)return t.dehydrated}return null}function l(e){if(o(e)!==e)throw Error(i(188))}function d(e){var t=e.alternate;if(!t){if(t=o(e),t===null)throw Error(i(188));return t===e?e:null}for(var n=e,r=t;;){var a=n.return;if(a===null)break;var s=a.alternate;if(s===null){if(r=a.return,r!==null){n=r;continue}break}if(a.child===s.child){for(s=a.child;s;){if(s===n)return l(a),e;if(s===r)return l(a),t;s=s.sibling}throw Error(i(188))}if(n.return!==r.return)n=a,r=s;else{for(var c=!1,u=a.child;u;){if(u===n){c=!0,n=a,r=s;break}if(u===r){c=!0,r=a,n=s;break}u=u.sibling}if(!c){for(u=s.child;u;){if(u===n){c=!0,n=s,r=a;break}if(u===r){c=!0,r=s,n=a;break}u=u.sibling}if(!c)throw Error(i(189))}}if(n.alternate!==r)throw Error(i(190))}if(n.tag!==3)throw Error(i(188));return n.stateNode.current===n?e:t}function p(e){var t=e.tag;if(t===5||t===26||t===27||t===6)return e;for(e=e.child;e!==null;){if(t=p(e),t!==null)return t;e=e.sibling}return null}var h=Object.assign,g=Symbol.for(`react.element`),_=Symbol.for(`react.transitional.element`),v=Symbol.for(`react.portal`),y=Symbol.for(`react.fragment`),b=Symbol.for(`react.strict_mode`),x=Symbol.for(`react.profiler`),S=Symbol.for(`react.consumer`),C=Symbol.for(`react.context`),w=Symbol.for(`react.forward_ref`),T=Symbol.for(`react.suspense`),E=Symbol.for(`react.suspense_list`),D=Symbol.for(`react.memo`),O=Symbol.for(`react.lazy`),ee=Symbol.for(`react.activity`),k=Symbol.for(`react.memo_cache_sentinel`),A=Symbol.iterator;function j(e){return typeof e!=`object`||!e?null:(e=A&&e[A]||e[`@@iterator`],typeof e==`function`?e:null)}var M=Symbol.for(`react.client.reference`);function te(e){if(e==null)return null;if(typeof e==`function`)return e.$$typeof===M?null:e.displayName||e.name||null;if(typeof e==`string`)return e;switch(e){case y:return`Fragment`;case x:return`Profiler`;case b:return`StrictMode`;case T:return`Suspense`;case E:return`SuspenseList`;case ee:return`Activity`}if(typeof e==`object`)switch(e.$$typeof){case v:return`Portal`;case C:return e.displayName||`Context`;case S:return(e._context.displayName||`Context`)+`.Consumer`;case w:var t=e.render;return e=e.displayName,e||=(e=t.displayName||t.name||``,e===``?`ForwardRef`:`ForwardRef(`+e+`)`),e;case D:return t=e.displayName||null,t===null?te(e.type)||`Memo`:t;case O:t=e._payload,e=e._init;try{return te(e(t))}catch{}}return null}var ne=Array.isArray,N=n.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE,P=r.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE,re={pending:!1,data:null,method:null,action:null},ie=[],ae=-1;function oe(e){return{current:e}}function F(e){0>ae||(e.current=ie[ae],ie[ae]=null,ae--)}function I(e,t){ae++,ie[ae]=e.current,e.current=t}var se=oe(null),ce=oe(null),le=oe(null),ue=oe(null);function de(e,t){switch(I(le,t),I(ce,e),I(se,null),t.nodeType){case 9:case 11:e=(e=t.documentElement)&&(e=e.namespaceURI)?Hd(e):0;break;default:if(e=t.tagName,t=t.namespaceURI)t=Hd(t),e=Ud(t,e);else switch(e){case`svg`:e=1;break;case`math`:e=2;break;default:e=0}}F(se),I(se,e)}function fe(){F(se),F(ce),F(le)}function pe(e){e.memoizedState!==null&&I(ue,e);var t=se.current,n=Ud(t,e.type);t!==n&&(I(ce,e),I(se,n))}function me(e){ce.current===e&&(F(se),F(ce)),ue.current===e&&(F(ue),Qf._currentValue=re)}var he,ge;function _e(e){if(he===void 0)try{throw Error()}catch(e){var t=e.stack.trim().match(/\n( *(at )?)/);he=t&&t[1]||``,ge=-1<e.stack.indexOf(`
     at`)?` (<anonymous>)`:-1<e.stack.indexOf(`@`)?`@unknown:0:0`:``}return`
-`+he+e+ge}var L=!1;function ve(e,t){if(!e||L)return``;L=!0;var n=Error.prepareStackTrace;Error.prepareStackTrace=void 0;try{var r={DetermineComponentFrameRoot:function(){try{if(t){var n=function(){throw Error()};if(Object.defineProperty(n.prototype,`props`,{set:function(){throw Error()}}),typeof Reflect==`object`&&Reflect.construct){try{Reflect.construct(n,[])}catch(e){var r=e}Reflect.construct(e,[],n)}else{try{n.call()}catch(e){r=e}e.call(n.prototype)}}else{try{throw Error()}catch(e){r=e}(n=e())&&typeof n.catch==`function`&&n.catch(function(){})}}catch(e){if(e&&r&&typeof e.stack==`string`)return[e.stack,r.stack]}return[null,null]}};r.DetermineComponentFrameRoot.displayName=`DetermineComponentFrameRoot`;var i=Object.getOwnPropertyDescriptor(r.DetermineComponentFrameRoot,`name`);i&&i.configurable&&Object.defineProperty(r.DetermineComponentFrameRoot,`name`,{value:`DetermineComponentFrameRoot`});var a=r.DetermineComponentFrameRoot(),o=a[0],s=a[1];if(o&&s){var c=o.split(`
+`+he+e+ge}var ve=!1;function ye(e,t){if(!e||ve)return``;ve=!0;var n=Error.prepareStackTrace;Error.prepareStackTrace=void 0;try{var r={DetermineComponentFrameRoot:function(){try{if(t){var n=function(){throw Error()};if(Object.defineProperty(n.prototype,`props`,{set:function(){throw Error()}}),typeof Reflect==`object`&&Reflect.construct){try{Reflect.construct(n,[])}catch(e){var r=e}Reflect.construct(e,[],n)}else{try{n.call()}catch(e){r=e}e.call(n.prototype)}}else{try{throw Error()}catch(e){r=e}(n=e())&&typeof n.catch==`function`&&n.catch(function(){})}}catch(e){if(e&&r&&typeof e.stack==`string`)return[e.stack,r.stack]}return[null,null]}};r.DetermineComponentFrameRoot.displayName=`DetermineComponentFrameRoot`;var i=Object.getOwnPropertyDescriptor(r.DetermineComponentFrameRoot,`name`);i&&i.configurable&&Object.defineProperty(r.DetermineComponentFrameRoot,`name`,{value:`DetermineComponentFrameRoot`});var a=r.DetermineComponentFrameRoot(),o=a[0],s=a[1];if(o&&s){var c=o.split(`
 `),l=s.split(`
 `);for(i=r=0;r<c.length&&!c[r].includes(`DetermineComponentFrameRoot`);)r++;for(;i<l.length&&!l[i].includes(`DetermineComponentFrameRoot`);)i++;if(r===c.length||i===l.length)for(r=c.length-1,i=l.length-1;1<=r&&0<=i&&c[r]!==l[i];)i--;for(;1<=r&&0<=i;r--,i--)if(c[r]!==l[i]){if(r!==1||i!==1)do if(r--,i--,0>i||c[r]!==l[i]){var u=`
-`+c[r].replace(` at new `,` at `);return e.displayName&&u.includes(`<anonymous>`)&&(u=u.replace(`<anonymous>`,e.displayName)),u}while(1<=r&&0<=i);break}}}finally{L=!1,Error.prepareStackTrace=n}return(n=e?e.displayName||e.name:``)?_e(n):``}function ye(e,t){switch(e.tag){case 26:case 27:case 5:return _e(e.type);case 16:return _e(`Lazy`);case 13:return e.child!==t&&t!==null?_e(`Suspense Fallback`):_e(`Suspense`);case 19:return _e(`SuspenseList`);case 0:case 15:return ve(e.type,!1);case 11:return ve(e.type.render,!1);case 1:return ve(e.type,!0);case 31:return _e(`Activity`);default:return``}}function be(e){try{var t=``,n=null;do t+=ye(e,n),n=e,e=e.return;while(e);return t}catch(e){return`
+`+c[r].replace(` at new `,` at `);return e.displayName&&u.includes(`<anonymous>`)&&(u=u.replace(`<anonymous>`,e.displayName)),u}while(1<=r&&0<=i);break}}}finally{ve=!1,Error.prepareStackTrace=n}return(n=e?e.displayName||e.name:``)?_e(n):``}function be(e,t){switch(e.tag){case 26:case 27:case 5:return _e(e.type);case 16:return _e(`Lazy`);case 13:return e.child!==t&&t!==null?_e(`Suspense Fallback`):_e(`Suspense`);case 19:return _e(`SuspenseList`);case 0:case 15:return ye(e.type,!1);case 11:return ye(e.type.render,!1);case 1:return ye(e.type,!0);case 31:return _e(`Activity`);default:return``}}function xe(e){try{var t=``,n=null;do t+=be(e,n),n=e,e=e.return;while(e);return t}catch(e){return`
 Error generating stack: `+e.message+`
-`+e.stack}}var xe=Object.prototype.hasOwnProperty,Se=t.unstable_scheduleCallback,Ce=t.unstable_cancelCallback,we=t.unstable_shouldYield,Te=t.unstable_requestPaint,Ee=t.unstable_now,De=t.unstable_getCurrentPriorityLevel,Oe=t.unstable_ImmediatePriority,R=t.unstable_UserBlockingPriority,ke=t.unstable_NormalPriority,Ae=t.unstable_LowPriority,je=t.unstable_IdlePriority,Me=t.log,Ne=t.unstable_setDisableYieldValue,Pe=null,Fe=null;function Ie(e){if(typeof Me==`function`&&Ne(e),Fe&&typeof Fe.setStrictMode==`function`)try{Fe.setStrictMode(Pe,e)}catch{}}var Le=Math.clz32?Math.clz32:Be,Re=Math.log,ze=Math.LN2;function Be(e){return e>>>=0,e===0?32:31-(Re(e)/ze|0)|0}var Ve=256,He=262144,Ue=4194304;function We(e){var t=e&42;if(t!==0)return t;switch(e&-e){case 1:return 1;case 2:return 2;case 4:return 4;case 8:return 8;case 16:return 16;case 32:return 32;case 64:return 64;case 128:return 128;case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:return e&261888;case 262144:case 524288:case 1048576:case 2097152:return e&3932160;case 4194304:case 8388608:case 16777216:case 33554432:return e&62914560;case 67108864:return 67108864;case 134217728:return 134217728;case 268435456:return 268435456;case 536870912:return 536870912;case 1073741824:return 0;default:return e}}function Ge(e,t,n){var r=e.pendingLanes;if(r===0)return 0;var i=0,a=e.suspendedLanes,o=e.pingedLanes;e=e.warmLanes;var s=r&134217727;return s===0?(s=r&~a,s===0?o===0?n||(n=r&~e,n!==0&&(i=We(n))):i=We(o):i=We(s)):(r=s&~a,r===0?(o&=s,o===0?n||(n=s&~e,n!==0&&(i=We(n))):i=We(o)):i=We(r)),i===0?0:t!==0&&t!==i&&(t&a)===0&&(a=i&-i,n=t&-t,a>=n||a===32&&n&4194048)?t:i}function Ke(e,t){return(e.pendingLanes&~(e.suspendedLanes&~e.pingedLanes)&t)===0}function z(e,t){switch(e){case 1:case 2:case 4:case 8:case 64:return t+250;case 16:case 32:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:return t+5e3;case 4194304:case 8388608:case 16777216:case 33554432:return-1;case 67108864:case 134217728:case 268435456:case 536870912:case 1073741824:return-1;default:return-1}}function qe(){var e=Ue;return Ue<<=1,!(Ue&62914560)&&(Ue=4194304),e}function Je(e){for(var t=[],n=0;31>n;n++)t.push(e);return t}function Ye(e,t){e.pendingLanes|=t,t!==268435456&&(e.suspendedLanes=0,e.pingedLanes=0,e.warmLanes=0)}function Xe(e,t,n,r,i,a){var o=e.pendingLanes;e.pendingLanes=n,e.suspendedLanes=0,e.pingedLanes=0,e.warmLanes=0,e.expiredLanes&=n,e.entangledLanes&=n,e.errorRecoveryDisabledLanes&=n,e.shellSuspendCounter=0;var s=e.entanglements,c=e.expirationTimes,l=e.hiddenUpdates;for(n=o&~n;0<n;){var u=31-Le(n),d=1<<u;s[u]=0,c[u]=-1;var f=l[u];if(f!==null)for(l[u]=null,u=0;u<f.length;u++){var p=f[u];p!==null&&(p.lane&=-536870913)}n&=~d}r!==0&&Ze(e,r,0),a!==0&&i===0&&e.tag!==0&&(e.suspendedLanes|=a&~(o&~t))}function Ze(e,t,n){e.pendingLanes|=t,e.suspendedLanes&=~t;var r=31-Le(t);e.entangledLanes|=t,e.entanglements[r]=e.entanglements[r]|1073741824|n&261930}function Qe(e,t){var n=e.entangledLanes|=t;for(e=e.entanglements;n;){var r=31-Le(n),i=1<<r;i&t|e[r]&t&&(e[r]|=t),n&=~i}}function $e(e,t){var n=t&-t;return n=n&42?1:et(n),(n&(e.suspendedLanes|t))===0?n:0}function et(e){switch(e){case 2:e=1;break;case 8:e=4;break;case 32:e=16;break;case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:case 4194304:case 8388608:case 16777216:case 33554432:e=128;break;case 268435456:e=134217728;break;default:e=0}return e}function tt(e){return e&=-e,2<e?8<e?e&134217727?32:268435456:8:2}function nt(){var e=P.p;return e===0?(e=window.event,e===void 0?32:mp(e.type)):e}function rt(e,t){var n=P.p;try{return P.p=e,t()}finally{P.p=n}}var it=Math.random().toString(36).slice(2),at=`__reactFiber$`+it,ot=`__reactProps$`+it,st=`__reactContainer$`+it,ct=`__reactEvents$`+it,lt=`__reactListeners$`+it,ut=`__reactHandles$`+it,dt=`__reactResources$`+it,ft=`__reactMarker$`+it;function pt(e){delete e[at],delete e[ot],delete e[ct],delete e[lt],delete e[ut]}function mt(e){var t=e[at];if(t)return t;for(var n=e.parentNode;n;){if(t=n[st]||n[at]){if(n=t.alternate,t.child!==null||n!==null&&n.child!==null)for(e=df(e);e!==null;){if(n=e[at])return n;e=df(e)}return t}e=n,n=e.parentNode}return null}function ht(e){if(e=e[at]||e[st]){var t=e.tag;if(t===5||t===6||t===13||t===31||t===26||t===27||t===3)return e}return null}function gt(e){var t=e.tag;if(t===5||t===26||t===27||t===6)return e.stateNode;throw Error(i(33))}function _t(e){var t=e[dt];return t||=e[dt]={hoistableStyles:new Map,hoistableScripts:new Map},t}function vt(e){e[ft]=!0}var yt=new Set,bt={};function xt(e,t){St(e,t),St(e+`Capture`,t)}function St(e,t){for(bt[e]=t,e=0;e<t.length;e++)yt.add(t[e])}var Ct=RegExp(`^[:A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD][:A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040]*$`),wt={},Tt={};function Et(e){return xe.call(Tt,e)?!0:xe.call(wt,e)?!1:Ct.test(e)?Tt[e]=!0:(wt[e]=!0,!1)}function Dt(e,t,n){if(Et(t))if(n===null)e.removeAttribute(t);else{switch(typeof n){case`undefined`:case`function`:case`symbol`:e.removeAttribute(t);return;case`boolean`:var r=t.toLowerCase().slice(0,5);if(r!==`data-`&&r!==`aria-`){e.removeAttribute(t);return}}e.setAttribute(t,``+n)}}function Ot(e,t,n){if(n===null)e.removeAttribute(t);else{switch(typeof n){case`undefined`:case`function`:case`symbol`:case`boolean`:e.removeAttribute(t);return}e.setAttribute(t,``+n)}}function kt(e,t,n,r){if(r===null)e.removeAttribute(n);else{switch(typeof r){case`undefined`:case`function`:case`symbol`:case`boolean`:e.removeAttribute(n);return}e.setAttributeNS(t,n,``+r)}}function At(e){switch(typeof e){case`bigint`:case`boolean`:case`number`:case`string`:case`undefined`:return e;case`object`:return e;default:return``}}function jt(e){var t=e.type;return(e=e.nodeName)&&e.toLowerCase()===`input`&&(t===`checkbox`||t===`radio`)}function Mt(e,t,n){var r=Object.getOwnPropertyDescriptor(e.constructor.prototype,t);if(!e.hasOwnProperty(t)&&r!==void 0&&typeof r.get==`function`&&typeof r.set==`function`){var i=r.get,a=r.set;return Object.defineProperty(e,t,{configurable:!0,get:function(){return i.call(this)},set:function(e){n=``+e,a.call(this,e)}}),Object.defineProperty(e,t,{enumerable:r.enumerable}),{getValue:function(){return n},setValue:function(e){n=``+e},stopTracking:function(){e._valueTracker=null,delete e[t]}}}}function Nt(e){if(!e._valueTracker){var t=jt(e)?`checked`:`value`;e._valueTracker=Mt(e,t,``+e[t])}}function Pt(e){if(!e)return!1;var t=e._valueTracker;if(!t)return!0;var n=t.getValue(),r=``;return e&&(r=jt(e)?e.checked?`true`:`false`:e.value),e=r,e===n?!1:(t.setValue(e),!0)}function Ft(e){if(e||=typeof document<`u`?document:void 0,e===void 0)return null;try{return e.activeElement||e.body}catch{return e.body}}var It=/[\n"\\]/g;function Lt(e){return e.replace(It,function(e){return`\\`+e.charCodeAt(0).toString(16)+` `})}function Rt(e,t,n,r,i,a,o,s){e.name=``,o!=null&&typeof o!=`function`&&typeof o!=`symbol`&&typeof o!=`boolean`?e.type=o:e.removeAttribute(`type`),t==null?o!==`submit`&&o!==`reset`||e.removeAttribute(`value`):o===`number`?(t===0&&e.value===``||e.value!=t)&&(e.value=``+At(t)):e.value!==``+At(t)&&(e.value=``+At(t)),t==null?n==null?r!=null&&e.removeAttribute(`value`):Bt(e,o,At(n)):Bt(e,o,At(t)),i==null&&a!=null&&(e.defaultChecked=!!a),i!=null&&(e.checked=i&&typeof i!=`function`&&typeof i!=`symbol`),s!=null&&typeof s!=`function`&&typeof s!=`symbol`&&typeof s!=`boolean`?e.name=``+At(s):e.removeAttribute(`name`)}function zt(e,t,n,r,i,a,o,s){if(a!=null&&typeof a!=`function`&&typeof a!=`symbol`&&typeof a!=`boolean`&&(e.type=a),t!=null||n!=null){if(!(a!==`submit`&&a!==`reset`||t!=null)){Nt(e);return}n=n==null?``:``+At(n),t=t==null?n:``+At(t),s||t===e.value||(e.value=t),e.defaultValue=t}r??=i,r=typeof r!=`function`&&typeof r!=`symbol`&&!!r,e.checked=s?e.checked:!!r,e.defaultChecked=!!r,o!=null&&typeof o!=`function`&&typeof o!=`symbol`&&typeof o!=`boolean`&&(e.name=o),Nt(e)}function Bt(e,t,n){t===`number`&&Ft(e.ownerDocument)===e||e.defaultValue===``+n||(e.defaultValue=``+n)}function Vt(e,t,n,r){if(e=e.options,t){t={};for(var i=0;i<n.length;i++)t[`$`+n[i]]=!0;for(n=0;n<e.length;n++)i=t.hasOwnProperty(`$`+e[n].value),e[n].selected!==i&&(e[n].selected=i),i&&r&&(e[n].defaultSelected=!0)}else{for(n=``+At(n),t=null,i=0;i<e.length;i++){if(e[i].value===n){e[i].selected=!0,r&&(e[i].defaultSelected=!0);return}t!==null||e[i].disabled||(t=e[i])}t!==null&&(t.selected=!0)}}function Ht(e,t,n){if(t!=null&&(t=``+At(t),t!==e.value&&(e.value=t),n==null)){e.defaultValue!==t&&(e.defaultValue=t);return}e.defaultValue=n==null?``:``+At(n)}function Ut(e,t,n,r){if(t==null){if(r!=null){if(n!=null)throw Error(i(92));if(ne(r)){if(1<r.length)throw Error(i(93));r=r[0]}n=r}n??=``,t=n}n=At(t),e.defaultValue=n,r=e.textContent,r===n&&r!==``&&r!==null&&(e.value=r),Nt(e)}function Wt(e,t){if(t){var n=e.firstChild;if(n&&n===e.lastChild&&n.nodeType===3){n.nodeValue=t;return}}e.textContent=t}var Gt=new Set(`animationIterationCount aspectRatio borderImageOutset borderImageSlice borderImageWidth boxFlex boxFlexGroup boxOrdinalGroup columnCount columns flex flexGrow flexPositive flexShrink flexNegative flexOrder gridArea gridRow gridRowEnd gridRowSpan gridRowStart gridColumn gridColumnEnd gridColumnSpan gridColumnStart fontWeight lineClamp lineHeight opacity order orphans scale tabSize widows zIndex zoom fillOpacity floodOpacity stopOpacity strokeDasharray strokeDashoffset strokeMiterlimit strokeOpacity strokeWidth MozAnimationIterationCount MozBoxFlex MozBoxFlexGroup MozLineClamp msAnimationIterationCount msFlex msZoom msFlexGrow msFlexNegative msFlexOrder msFlexPositive msFlexShrink msGridColumn msGridColumnSpan msGridRow msGridRowSpan WebkitAnimationIterationCount WebkitBoxFlex WebKitBoxFlexGroup WebkitBoxOrdinalGroup WebkitColumnCount WebkitColumns WebkitFlex WebkitFlexGrow WebkitFlexPositive WebkitFlexShrink WebkitLineClamp`.split(` `));function Kt(e,t,n){var r=t.indexOf(`--`)===0;n==null||typeof n==`boolean`||n===``?r?e.setProperty(t,``):t===`float`?e.cssFloat=``:e[t]=``:r?e.setProperty(t,n):typeof n!=`number`||n===0||Gt.has(t)?t===`float`?e.cssFloat=n:e[t]=(``+n).trim():e[t]=n+`px`}function qt(e,t,n){if(t!=null&&typeof t!=`object`)throw Error(i(62));if(e=e.style,n!=null){for(var r in n)!n.hasOwnProperty(r)||t!=null&&t.hasOwnProperty(r)||(r.indexOf(`--`)===0?e.setProperty(r,``):r===`float`?e.cssFloat=``:e[r]=``);for(var a in t)r=t[a],t.hasOwnProperty(a)&&n[a]!==r&&Kt(e,a,r)}else for(var o in t)t.hasOwnProperty(o)&&Kt(e,o,t[o])}function Jt(e){if(e.indexOf(`-`)===-1)return!1;switch(e){case`annotation-xml`:case`color-profile`:case`font-face`:case`font-face-src`:case`font-face-uri`:case`font-face-format`:case`font-face-name`:case`missing-glyph`:return!1;default:return!0}}var Yt=new Map([[`acceptCharset`,`accept-charset`],[`htmlFor`,`for`],[`httpEquiv`,`http-equiv`],[`crossOrigin`,`crossorigin`],[`accentHeight`,`accent-height`],[`alignmentBaseline`,`alignment-baseline`],[`arabicForm`,`arabic-form`],[`baselineShift`,`baseline-shift`],[`capHeight`,`cap-height`],[`clipPath`,`clip-path`],[`clipRule`,`clip-rule`],[`colorInterpolation`,`color-interpolation`],[`colorInterpolationFilters`,`color-interpolation-filters`],[`colorProfile`,`color-profile`],[`colorRendering`,`color-rendering`],[`dominantBaseline`,`dominant-baseline`],[`enableBackground`,`enable-background`],[`fillOpacity`,`fill-opacity`],[`fillRule`,`fill-rule`],[`floodColor`,`flood-color`],[`floodOpacity`,`flood-opacity`],[`fontFamily`,`font-family`],[`fontSize`,`font-size`],[`fontSizeAdjust`,`font-size-adjust`],[`fontStretch`,`font-stretch`],[`fontStyle`,`font-style`],[`fontVariant`,`font-variant`],[`fontWeight`,`font-weight`],[`glyphName`,`glyph-name`],[`glyphOrientationHorizontal`,`glyph-orientation-horizontal`],[`glyphOrientationVertical`,`glyph-orientation-vertical`],[`horizAdvX`,`horiz-adv-x`],[`horizOriginX`,`horiz-origin-x`],[`imageRendering`,`image-rendering`],[`letterSpacing`,`letter-spacing`],[`lightingColor`,`lighting-color`],[`markerEnd`,`marker-end`],[`markerMid`,`marker-mid`],[`markerStart`,`marker-start`],[`overlinePosition`,`overline-position`],[`overlineThickness`,`overline-thickness`],[`paintOrder`,`paint-order`],[`panose-1`,`panose-1`],[`pointerEvents`,`pointer-events`],[`renderingIntent`,`rendering-intent`],[`shapeRendering`,`shape-rendering`],[`stopColor`,`stop-color`],[`stopOpacity`,`stop-opacity`],[`strikethroughPosition`,`strikethrough-position`],[`strikethroughThickness`,`strikethrough-thickness`],[`strokeDasharray`,`stroke-dasharray`],[`strokeDashoffset`,`stroke-dashoffset`],[`strokeLinecap`,`stroke-linecap`],[`strokeLinejoin`,`stroke-linejoin`],[`strokeMiterlimit`,`stroke-miterlimit`],[`strokeOpacity`,`stroke-opacity`],[`strokeWidth`,`stroke-width`],[`textAnchor`,`text-anchor`],[`textDecoration`,`text-decoration`],[`textRendering`,`text-rendering`],[`transformOrigin`,`transform-origin`],[`underlinePosition`,`underline-position`],[`underlineThickness`,`underline-thickness`],[`unicodeBidi`,`unicode-bidi`],[`unicodeRange`,`unicode-range`],[`unitsPerEm`,`units-per-em`],[`vAlphabetic`,`v-alphabetic`],[`vHanging`,`v-hanging`],[`vIdeographic`,`v-ideographic`],[`vMathematical`,`v-mathematical`],[`vectorEffect`,`vector-effect`],[`vertAdvY`,`vert-adv-y`],[`vertOriginX`,`vert-origin-x`],[`vertOriginY`,`vert-origin-y`],[`wordSpacing`,`word-spacing`],[`writingMode`,`writing-mode`],[`xmlnsXlink`,`xmlns:xlink`],[`xHeight`,`x-height`]]),Xt=/^[\u0000-\u001F ]*j[\r\n\t]*a[\r\n\t]*v[\r\n\t]*a[\r\n\t]*s[\r\n\t]*c[\r\n\t]*r[\r\n\t]*i[\r\n\t]*p[\r\n\t]*t[\r\n\t]*:/i;function Zt(e){return Xt.test(``+e)?`javascript:throw new Error('React has blocked a javascript: URL as a security precaution.')`:e}function Qt(){}var $t=null;function en(e){return e=e.target||e.srcElement||window,e.correspondingUseElement&&(e=e.correspondingUseElement),e.nodeType===3?e.parentNode:e}var tn=null,nn=null;function rn(e){var t=ht(e);if(t&&(e=t.stateNode)){var n=e[ot]||null;a:switch(e=t.stateNode,t.type){case`input`:if(Rt(e,n.value,n.defaultValue,n.defaultValue,n.checked,n.defaultChecked,n.type,n.name),t=n.name,n.type===`radio`&&t!=null){for(n=e;n.parentNode;)n=n.parentNode;for(n=n.querySelectorAll(`input[name="`+Lt(``+t)+`"][type="radio"]`),t=0;t<n.length;t++){var r=n[t];if(r!==e&&r.form===e.form){var a=r[ot]||null;if(!a)throw Error(i(90));Rt(r,a.value,a.defaultValue,a.defaultValue,a.checked,a.defaultChecked,a.type,a.name)}}for(t=0;t<n.length;t++)r=n[t],r.form===e.form&&Pt(r)}break a;case`textarea`:Ht(e,n.value,n.defaultValue);break a;case`select`:t=n.value,t!=null&&Vt(e,!!n.multiple,t,!1)}}}var an=!1;function on(e,t,n){if(an)return e(t,n);an=!0;try{return e(t)}finally{if(an=!1,(tn!==null||nn!==null)&&(Tu(),tn&&(t=tn,e=nn,nn=tn=null,rn(t),e)))for(t=0;t<e.length;t++)rn(e[t])}}function sn(e,t){var n=e.stateNode;if(n===null)return null;var r=n[ot]||null;if(r===null)return null;n=r[t];a:switch(t){case`onClick`:case`onClickCapture`:case`onDoubleClick`:case`onDoubleClickCapture`:case`onMouseDown`:case`onMouseDownCapture`:case`onMouseMove`:case`onMouseMoveCapture`:case`onMouseUp`:case`onMouseUpCapture`:case`onMouseEnter`:(r=!r.disabled)||(e=e.type,r=!(e===`button`||e===`input`||e===`select`||e===`textarea`)),e=!r;break a;default:e=!1}if(e)return null;if(n&&typeof n!=`function`)throw Error(i(231,t,typeof n));return n}var cn=!(typeof window>`u`||window.document===void 0||window.document.createElement===void 0),ln=!1;if(cn)try{var un={};Object.defineProperty(un,`passive`,{get:function(){ln=!0}}),window.addEventListener(`test`,un,un),window.removeEventListener(`test`,un,un)}catch{ln=!1}var dn=null,fn=null,pn=null;function mn(){if(pn)return pn;var e,t=fn,n=t.length,r,i=`value`in dn?dn.value:dn.textContent,a=i.length;for(e=0;e<n&&t[e]===i[e];e++);var o=n-e;for(r=1;r<=o&&t[n-r]===i[a-r];r++);return pn=i.slice(e,1<r?1-r:void 0)}function hn(e){var t=e.keyCode;return`charCode`in e?(e=e.charCode,e===0&&t===13&&(e=13)):e=t,e===10&&(e=13),32<=e||e===13?e:0}function gn(){return!0}function _n(){return!1}function vn(e){function t(t,n,r,i,a){for(var o in this._reactName=t,this._targetInst=r,this.type=n,this.nativeEvent=i,this.target=a,this.currentTarget=null,e)e.hasOwnProperty(o)&&(t=e[o],this[o]=t?t(i):i[o]);return this.isDefaultPrevented=(i.defaultPrevented==null?!1===i.returnValue:i.defaultPrevented)?gn:_n,this.isPropagationStopped=_n,this}return h(t.prototype,{preventDefault:function(){this.defaultPrevented=!0;var e=this.nativeEvent;e&&(e.preventDefault?e.preventDefault():typeof e.returnValue!=`unknown`&&(e.returnValue=!1),this.isDefaultPrevented=gn)},stopPropagation:function(){var e=this.nativeEvent;e&&(e.stopPropagation?e.stopPropagation():typeof e.cancelBubble!=`unknown`&&(e.cancelBubble=!0),this.isPropagationStopped=gn)},persist:function(){},isPersistent:gn}),t}var yn={eventPhase:0,bubbles:0,cancelable:0,timeStamp:function(e){return e.timeStamp||Date.now()},defaultPrevented:0,isTrusted:0},bn=vn(yn),xn=h({},yn,{view:0,detail:0}),Sn=vn(xn),Cn,wn,Tn,En=h({},xn,{screenX:0,screenY:0,clientX:0,clientY:0,pageX:0,pageY:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,getModifierState:Ln,button:0,buttons:0,relatedTarget:function(e){return e.relatedTarget===void 0?e.fromElement===e.srcElement?e.toElement:e.fromElement:e.relatedTarget},movementX:function(e){return`movementX`in e?e.movementX:(e!==Tn&&(Tn&&e.type===`mousemove`?(Cn=e.screenX-Tn.screenX,wn=e.screenY-Tn.screenY):wn=Cn=0,Tn=e),Cn)},movementY:function(e){return`movementY`in e?e.movementY:wn}}),Dn=vn(En),On=vn(h({},En,{dataTransfer:0})),kn=vn(h({},xn,{relatedTarget:0})),An=vn(h({},yn,{animationName:0,elapsedTime:0,pseudoElement:0})),jn=vn(h({},yn,{clipboardData:function(e){return`clipboardData`in e?e.clipboardData:window.clipboardData}})),Mn=vn(h({},yn,{data:0})),Nn={Esc:`Escape`,Spacebar:` `,Left:`ArrowLeft`,Up:`ArrowUp`,Right:`ArrowRight`,Down:`ArrowDown`,Del:`Delete`,Win:`OS`,Menu:`ContextMenu`,Apps:`ContextMenu`,Scroll:`ScrollLock`,MozPrintableKey:`Unidentified`},Pn={8:`Backspace`,9:`Tab`,12:`Clear`,13:`Enter`,16:`Shift`,17:`Control`,18:`Alt`,19:`Pause`,20:`CapsLock`,27:`Escape`,32:` `,33:`PageUp`,34:`PageDown`,35:`End`,36:`Home`,37:`ArrowLeft`,38:`ArrowUp`,39:`ArrowRight`,40:`ArrowDown`,45:`Insert`,46:`Delete`,112:`F1`,113:`F2`,114:`F3`,115:`F4`,116:`F5`,117:`F6`,118:`F7`,119:`F8`,120:`F9`,121:`F10`,122:`F11`,123:`F12`,144:`NumLock`,145:`ScrollLock`,224:`Meta`},Fn={Alt:`altKey`,Control:`ctrlKey`,Meta:`metaKey`,Shift:`shiftKey`};function In(e){var t=this.nativeEvent;return t.getModifierState?t.getModifierState(e):(e=Fn[e])?!!t[e]:!1}function Ln(){return In}var Rn=vn(h({},xn,{key:function(e){if(e.key){var t=Nn[e.key]||e.key;if(t!==`Unidentified`)return t}return e.type===`keypress`?(e=hn(e),e===13?`Enter`:String.fromCharCode(e)):e.type===`keydown`||e.type===`keyup`?Pn[e.keyCode]||`Unidentified`:``},code:0,location:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,repeat:0,locale:0,getModifierState:Ln,charCode:function(e){return e.type===`keypress`?hn(e):0},keyCode:function(e){return e.type===`keydown`||e.type===`keyup`?e.keyCode:0},which:function(e){return e.type===`keypress`?hn(e):e.type===`keydown`||e.type===`keyup`?e.keyCode:0}})),zn=vn(h({},En,{pointerId:0,width:0,height:0,pressure:0,tangentialPressure:0,tiltX:0,tiltY:0,twist:0,pointerType:0,isPrimary:0})),Bn=vn(h({},xn,{touches:0,targetTouches:0,changedTouches:0,altKey:0,metaKey:0,ctrlKey:0,shiftKey:0,getModifierState:Ln})),Vn=vn(h({},yn,{propertyName:0,elapsedTime:0,pseudoElement:0})),Hn=vn(h({},En,{deltaX:function(e){return`deltaX`in e?e.deltaX:`wheelDeltaX`in e?-e.wheelDeltaX:0},deltaY:function(e){return`deltaY`in e?e.deltaY:`wheelDeltaY`in e?-e.wheelDeltaY:`wheelDelta`in e?-e.wheelDelta:0},deltaZ:0,deltaMode:0})),Un=vn(h({},yn,{newState:0,oldState:0})),Wn=[9,13,27,32],Gn=cn&&`CompositionEvent`in window,Kn=null;cn&&`documentMode`in document&&(Kn=document.documentMode);var qn=cn&&`TextEvent`in window&&!Kn,Jn=cn&&(!Gn||Kn&&8<Kn&&11>=Kn),Yn=` `,Xn=!1;function Zn(e,t){switch(e){case`keyup`:return Wn.indexOf(t.keyCode)!==-1;case`keydown`:return t.keyCode!==229;case`keypress`:case`mousedown`:case`focusout`:return!0;default:return!1}}function Qn(e){return e=e.detail,typeof e==`object`&&`data`in e?e.data:null}var $n=!1;function er(e,t){switch(e){case`compositionend`:return Qn(t);case`keypress`:return t.which===32?(Xn=!0,Yn):null;case`textInput`:return e=t.data,e===Yn&&Xn?null:e;default:return null}}function tr(e,t){if($n)return e===`compositionend`||!Gn&&Zn(e,t)?(e=mn(),pn=fn=dn=null,$n=!1,e):null;switch(e){case`paste`:return null;case`keypress`:if(!(t.ctrlKey||t.altKey||t.metaKey)||t.ctrlKey&&t.altKey){if(t.char&&1<t.char.length)return t.char;if(t.which)return String.fromCharCode(t.which)}return null;case`compositionend`:return Jn&&t.locale!==`ko`?null:t.data;default:return null}}var nr={color:!0,date:!0,datetime:!0,"datetime-local":!0,email:!0,month:!0,number:!0,password:!0,range:!0,search:!0,tel:!0,text:!0,time:!0,url:!0,week:!0};function rr(e){var t=e&&e.nodeName&&e.nodeName.toLowerCase();return t===`input`?!!nr[e.type]:t===`textarea`}function ir(e,t,n,r){tn?nn?nn.push(r):nn=[r]:tn=r,t=Ed(t,`onChange`),0<t.length&&(n=new bn(`onChange`,`change`,null,n,r),e.push({event:n,listeners:t}))}var ar=null,or=null;function sr(e){xd(e,0)}function cr(e){if(Pt(gt(e)))return e}function lr(e,t){if(e===`change`)return t}var ur=!1;if(cn){var dr;if(cn){var fr=`oninput`in document;if(!fr){var pr=document.createElement(`div`);pr.setAttribute(`oninput`,`return;`),fr=typeof pr.oninput==`function`}dr=fr}else dr=!1;ur=dr&&(!document.documentMode||9<document.documentMode)}function mr(){ar&&(ar.detachEvent(`onpropertychange`,hr),or=ar=null)}function hr(e){if(e.propertyName===`value`&&cr(or)){var t=[];ir(t,or,e,en(e)),on(sr,t)}}function gr(e,t,n){e===`focusin`?(mr(),ar=t,or=n,ar.attachEvent(`onpropertychange`,hr)):e===`focusout`&&mr()}function _r(e){if(e===`selectionchange`||e===`keyup`||e===`keydown`)return cr(or)}function vr(e,t){if(e===`click`)return cr(t)}function yr(e,t){if(e===`input`||e===`change`)return cr(t)}function br(e,t){return e===t&&(e!==0||1/e==1/t)||e!==e&&t!==t}var xr=typeof Object.is==`function`?Object.is:br;function Sr(e,t){if(xr(e,t))return!0;if(typeof e!=`object`||!e||typeof t!=`object`||!t)return!1;var n=Object.keys(e),r=Object.keys(t);if(n.length!==r.length)return!1;for(r=0;r<n.length;r++){var i=n[r];if(!xe.call(t,i)||!xr(e[i],t[i]))return!1}return!0}function Cr(e){for(;e&&e.firstChild;)e=e.firstChild;return e}function wr(e,t){var n=Cr(e);e=0;for(var r;n;){if(n.nodeType===3){if(r=e+n.textContent.length,e<=t&&r>=t)return{node:n,offset:t-e};e=r}a:{for(;n;){if(n.nextSibling){n=n.nextSibling;break a}n=n.parentNode}n=void 0}n=Cr(n)}}function Tr(e,t){return e&&t?e===t?!0:e&&e.nodeType===3?!1:t&&t.nodeType===3?Tr(e,t.parentNode):`contains`in e?e.contains(t):e.compareDocumentPosition?!!(e.compareDocumentPosition(t)&16):!1:!1}function Er(e){e=e!=null&&e.ownerDocument!=null&&e.ownerDocument.defaultView!=null?e.ownerDocument.defaultView:window;for(var t=Ft(e.document);t instanceof e.HTMLIFrameElement;){try{var n=typeof t.contentWindow.location.href==`string`}catch{n=!1}if(n)e=t.contentWindow;else break;t=Ft(e.document)}return t}function Dr(e){var t=e&&e.nodeName&&e.nodeName.toLowerCase();return t&&(t===`input`&&(e.type===`text`||e.type===`search`||e.type===`tel`||e.type===`url`||e.type===`password`)||t===`textarea`||e.contentEditable===`true`)}var Or=cn&&`documentMode`in document&&11>=document.documentMode,kr=null,Ar=null,jr=null,Mr=!1;function Nr(e,t,n){var r=n.window===n?n.document:n.nodeType===9?n:n.ownerDocument;Mr||kr==null||kr!==Ft(r)||(r=kr,`selectionStart`in r&&Dr(r)?r={start:r.selectionStart,end:r.selectionEnd}:(r=(r.ownerDocument&&r.ownerDocument.defaultView||window).getSelection(),r={anchorNode:r.anchorNode,anchorOffset:r.anchorOffset,focusNode:r.focusNode,focusOffset:r.focusOffset}),jr&&Sr(jr,r)||(jr=r,r=Ed(Ar,`onSelect`),0<r.length&&(t=new bn(`onSelect`,`select`,null,t,n),e.push({event:t,listeners:r}),t.target=kr)))}function Pr(e,t){var n={};return n[e.toLowerCase()]=t.toLowerCase(),n[`Webkit`+e]=`webkit`+t,n[`Moz`+e]=`moz`+t,n}var Fr={animationend:Pr(`Animation`,`AnimationEnd`),animationiteration:Pr(`Animation`,`AnimationIteration`),animationstart:Pr(`Animation`,`AnimationStart`),transitionrun:Pr(`Transition`,`TransitionRun`),transitionstart:Pr(`Transition`,`TransitionStart`),transitioncancel:Pr(`Transition`,`TransitionCancel`),transitionend:Pr(`Transition`,`TransitionEnd`)},Ir={},Lr={};cn&&(Lr=document.createElement(`div`).style,`AnimationEvent`in window||(delete Fr.animationend.animation,delete Fr.animationiteration.animation,delete Fr.animationstart.animation),`TransitionEvent`in window||delete Fr.transitionend.transition);function Rr(e){if(Ir[e])return Ir[e];if(!Fr[e])return e;var t=Fr[e],n;for(n in t)if(t.hasOwnProperty(n)&&n in Lr)return Ir[e]=t[n];return e}var zr=Rr(`animationend`),Br=Rr(`animationiteration`),Vr=Rr(`animationstart`),Hr=Rr(`transitionrun`),Ur=Rr(`transitionstart`),Wr=Rr(`transitioncancel`),Gr=Rr(`transitionend`),Kr=new Map,qr=`abort auxClick beforeToggle cancel canPlay canPlayThrough click close contextMenu copy cut drag dragEnd dragEnter dragExit dragLeave dragOver dragStart drop durationChange emptied encrypted ended error gotPointerCapture input invalid keyDown keyPress keyUp load loadedData loadedMetadata loadStart lostPointerCapture mouseDown mouseMove mouseOut mouseOver mouseUp paste pause play playing pointerCancel pointerDown pointerMove pointerOut pointerOver pointerUp progress rateChange reset resize seeked seeking stalled submit suspend timeUpdate touchCancel touchEnd touchStart volumeChange scroll toggle touchMove waiting wheel`.split(` `);qr.push(`scrollEnd`);function Jr(e,t){Kr.set(e,t),xt(t,[e])}var Yr=typeof reportError==`function`?reportError:function(e){if(typeof window==`object`&&typeof window.ErrorEvent==`function`){var t=new window.ErrorEvent(`error`,{bubbles:!0,cancelable:!0,message:typeof e==`object`&&e&&typeof e.message==`string`?String(e.message):String(e),error:e});if(!window.dispatchEvent(t))return}else if(typeof process==`object`&&typeof process.emit==`function`){process.emit(`uncaughtException`,e);return}console.error(e)},Xr=[],Zr=0,Qr=0;function $r(){for(var e=Zr,t=Qr=Zr=0;t<e;){var n=Xr[t];Xr[t++]=null;var r=Xr[t];Xr[t++]=null;var i=Xr[t];Xr[t++]=null;var a=Xr[t];if(Xr[t++]=null,r!==null&&i!==null){var o=r.pending;o===null?i.next=i:(i.next=o.next,o.next=i),r.pending=i}a!==0&&ri(n,i,a)}}function ei(e,t,n,r){Xr[Zr++]=e,Xr[Zr++]=t,Xr[Zr++]=n,Xr[Zr++]=r,Qr|=r,e.lanes|=r,e=e.alternate,e!==null&&(e.lanes|=r)}function ti(e,t,n,r){return ei(e,t,n,r),ii(e)}function ni(e,t){return ei(e,null,null,t),ii(e)}function ri(e,t,n){e.lanes|=n;var r=e.alternate;r!==null&&(r.lanes|=n);for(var i=!1,a=e.return;a!==null;)a.childLanes|=n,r=a.alternate,r!==null&&(r.childLanes|=n),a.tag===22&&(e=a.stateNode,e===null||e._visibility&1||(i=!0)),e=a,a=a.return;return e.tag===3?(a=e.stateNode,i&&t!==null&&(i=31-Le(n),e=a.hiddenUpdates,r=e[i],r===null?e[i]=[t]:r.push(t),t.lane=n|536870912),a):null}function ii(e){if(50<gu)throw gu=0,_u=null,Error(i(185));for(var t=e.return;t!==null;)e=t,t=e.return;return e.tag===3?e.stateNode:null}var ai={};function oi(e,t,n,r){this.tag=e,this.key=n,this.sibling=this.child=this.return=this.stateNode=this.type=this.elementType=null,this.index=0,this.refCleanup=this.ref=null,this.pendingProps=t,this.dependencies=this.memoizedState=this.updateQueue=this.memoizedProps=null,this.mode=r,this.subtreeFlags=this.flags=0,this.deletions=null,this.childLanes=this.lanes=0,this.alternate=null}function si(e,t,n,r){return new oi(e,t,n,r)}function ci(e){return e=e.prototype,!(!e||!e.isReactComponent)}function li(e,t){var n=e.alternate;return n===null?(n=si(e.tag,t,e.key,e.mode),n.elementType=e.elementType,n.type=e.type,n.stateNode=e.stateNode,n.alternate=e,e.alternate=n):(n.pendingProps=t,n.type=e.type,n.flags=0,n.subtreeFlags=0,n.deletions=null),n.flags=e.flags&65011712,n.childLanes=e.childLanes,n.lanes=e.lanes,n.child=e.child,n.memoizedProps=e.memoizedProps,n.memoizedState=e.memoizedState,n.updateQueue=e.updateQueue,t=e.dependencies,n.dependencies=t===null?null:{lanes:t.lanes,firstContext:t.firstContext},n.sibling=e.sibling,n.index=e.index,n.ref=e.ref,n.refCleanup=e.refCleanup,n}function ui(e,t){e.flags&=65011714;var n=e.alternate;return n===null?(e.childLanes=0,e.lanes=t,e.child=null,e.subtreeFlags=0,e.memoizedProps=null,e.memoizedState=null,e.updateQueue=null,e.dependencies=null,e.stateNode=null):(e.childLanes=n.childLanes,e.lanes=n.lanes,e.child=n.child,e.subtreeFlags=0,e.deletions=null,e.memoizedProps=n.memoizedProps,e.memoizedState=n.memoizedState,e.updateQueue=n.updateQueue,e.type=n.type,t=n.dependencies,e.dependencies=t===null?null:{lanes:t.lanes,firstContext:t.firstContext}),e}function di(e,t,n,r,a,o){var s=0;if(r=e,typeof e==`function`)ci(e)&&(s=1);else if(typeof e==`string`)s=Uf(e,n,se.current)?26:e===`html`||e===`head`||e===`body`?27:5;else a:switch(e){case ee:return e=si(31,n,t,a),e.elementType=ee,e.lanes=o,e;case y:return fi(n.children,a,o,t);case b:s=8,a|=24;break;case x:return e=si(12,n,t,a|2),e.elementType=x,e.lanes=o,e;case T:return e=si(13,n,t,a),e.elementType=T,e.lanes=o,e;case E:return e=si(19,n,t,a),e.elementType=E,e.lanes=o,e;default:if(typeof e==`object`&&e)switch(e.$$typeof){case C:s=10;break a;case S:s=9;break a;case w:s=11;break a;case D:s=14;break a;case O:s=16,r=null;break a}s=29,n=Error(i(130,e===null?`null`:typeof e,``)),r=null}return t=si(s,n,t,a),t.elementType=e,t.type=r,t.lanes=o,t}function fi(e,t,n,r){return e=si(7,e,r,t),e.lanes=n,e}function pi(e,t,n){return e=si(6,e,null,t),e.lanes=n,e}function mi(e){var t=si(18,null,null,0);return t.stateNode=e,t}function hi(e,t,n){return t=si(4,e.children===null?[]:e.children,e.key,t),t.lanes=n,t.stateNode={containerInfo:e.containerInfo,pendingChildren:null,implementation:e.implementation},t}var gi=new WeakMap;function _i(e,t){if(typeof e==`object`&&e){var n=gi.get(e);return n===void 0?(t={value:e,source:t,stack:be(t)},gi.set(e,t),t):n}return{value:e,source:t,stack:be(t)}}var vi=[],yi=0,bi=null,xi=0,Si=[],Ci=0,wi=null,Ti=1,Ei=``;function Di(e,t){vi[yi++]=xi,vi[yi++]=bi,bi=e,xi=t}function Oi(e,t,n){Si[Ci++]=Ti,Si[Ci++]=Ei,Si[Ci++]=wi,wi=e;var r=Ti;e=Ei;var i=32-Le(r)-1;r&=~(1<<i),n+=1;var a=32-Le(t)+i;if(30<a){var o=i-i%5;a=(r&(1<<o)-1).toString(32),r>>=o,i-=o,Ti=1<<32-Le(t)+i|n<<i|r,Ei=a+e}else Ti=1<<a|n<<i|r,Ei=e}function ki(e){e.return!==null&&(Di(e,1),Oi(e,1,0))}function Ai(e){for(;e===bi;)bi=vi[--yi],vi[yi]=null,xi=vi[--yi],vi[yi]=null;for(;e===wi;)wi=Si[--Ci],Si[Ci]=null,Ei=Si[--Ci],Si[Ci]=null,Ti=Si[--Ci],Si[Ci]=null}function ji(e,t){Si[Ci++]=Ti,Si[Ci++]=Ei,Si[Ci++]=wi,Ti=t.id,Ei=t.overflow,wi=e}var Mi=null,Ni=null,B=!1,Pi=null,Fi=!1,Ii=Error(i(519));function Li(e){throw Ui(_i(Error(i(418,1<arguments.length&&arguments[1]!==void 0&&arguments[1]?`text`:`HTML`,``)),e)),Ii}function Ri(e){var t=e.stateNode,n=e.type,r=e.memoizedProps;switch(t[at]=e,t[ot]=r,n){case`dialog`:X(`cancel`,t),X(`close`,t);break;case`iframe`:case`object`:case`embed`:X(`load`,t);break;case`video`:case`audio`:for(n=0;n<yd.length;n++)X(yd[n],t);break;case`source`:X(`error`,t);break;case`img`:case`image`:case`link`:X(`error`,t),X(`load`,t);break;case`details`:X(`toggle`,t);break;case`input`:X(`invalid`,t),zt(t,r.value,r.defaultValue,r.checked,r.defaultChecked,r.type,r.name,!0);break;case`select`:X(`invalid`,t);break;case`textarea`:X(`invalid`,t),Ut(t,r.value,r.defaultValue,r.children)}n=r.children,typeof n!=`string`&&typeof n!=`number`&&typeof n!=`bigint`||t.textContent===``+n||!0===r.suppressHydrationWarning||Md(t.textContent,n)?(r.popover!=null&&(X(`beforetoggle`,t),X(`toggle`,t)),r.onScroll!=null&&X(`scroll`,t),r.onScrollEnd!=null&&X(`scrollend`,t),r.onClick!=null&&(t.onclick=Qt),t=!0):t=!1,t||Li(e,!0)}function zi(e){for(Mi=e.return;Mi;)switch(Mi.tag){case 5:case 31:case 13:Fi=!1;return;case 27:case 3:Fi=!0;return;default:Mi=Mi.return}}function Bi(e){if(e!==Mi)return!1;if(!B)return zi(e),B=!0,!1;var t=e.tag,n;if((n=t!==3&&t!==27)&&((n=t===5)&&(n=e.type,n=!(n!==`form`&&n!==`button`)||Ud(e.type,e.memoizedProps)),n=!n),n&&Ni&&Li(e),zi(e),t===13){if(e=e.memoizedState,e=e===null?null:e.dehydrated,!e)throw Error(i(317));Ni=uf(e)}else if(t===31){if(e=e.memoizedState,e=e===null?null:e.dehydrated,!e)throw Error(i(317));Ni=uf(e)}else t===27?(t=Ni,Zd(e.type)?(e=lf,lf=null,Ni=e):Ni=t):Ni=Mi?cf(e.stateNode.nextSibling):null;return!0}function Vi(){Ni=Mi=null,B=!1}function Hi(){var e=Pi;return e!==null&&(nu===null?nu=e:nu.push.apply(nu,e),Pi=null),e}function Ui(e){Pi===null?Pi=[e]:Pi.push(e)}var Wi=oe(null),Gi=null,Ki=null;function qi(e,t,n){I(Wi,t._currentValue),t._currentValue=n}function Ji(e){e._currentValue=Wi.current,F(Wi)}function Yi(e,t,n){for(;e!==null;){var r=e.alternate;if((e.childLanes&t)===t?r!==null&&(r.childLanes&t)!==t&&(r.childLanes|=t):(e.childLanes|=t,r!==null&&(r.childLanes|=t)),e===n)break;e=e.return}}function Xi(e,t,n,r){var a=e.child;for(a!==null&&(a.return=e);a!==null;){var o=a.dependencies;if(o!==null){var s=a.child;o=o.firstContext;a:for(;o!==null;){var c=o;o=a;for(var l=0;l<t.length;l++)if(c.context===t[l]){o.lanes|=n,c=o.alternate,c!==null&&(c.lanes|=n),Yi(o.return,n,e),r||(s=null);break a}o=c.next}}else if(a.tag===18){if(s=a.return,s===null)throw Error(i(341));s.lanes|=n,o=s.alternate,o!==null&&(o.lanes|=n),Yi(s,n,e),s=null}else s=a.child;if(s!==null)s.return=a;else for(s=a;s!==null;){if(s===e){s=null;break}if(a=s.sibling,a!==null){a.return=s.return,s=a;break}s=s.return}a=s}}function Zi(e,t,n,r){e=null;for(var a=t,o=!1;a!==null;){if(!o){if(a.flags&524288)o=!0;else if(a.flags&262144)break}if(a.tag===10){var s=a.alternate;if(s===null)throw Error(i(387));if(s=s.memoizedProps,s!==null){var c=a.type;xr(a.pendingProps.value,s.value)||(e===null?e=[c]:e.push(c))}}else if(a===ue.current){if(s=a.alternate,s===null)throw Error(i(387));s.memoizedState.memoizedState!==a.memoizedState.memoizedState&&(e===null?e=[Qf]:e.push(Qf))}a=a.return}e!==null&&Xi(t,e,n,r),t.flags|=262144}function Qi(e){for(e=e.firstContext;e!==null;){if(!xr(e.context._currentValue,e.memoizedValue))return!0;e=e.next}return!1}function $i(e){Gi=e,Ki=null,e=e.dependencies,e!==null&&(e.firstContext=null)}function ea(e){return na(Gi,e)}function ta(e,t){return Gi===null&&$i(e),na(e,t)}function na(e,t){var n=t._currentValue;if(t={context:t,memoizedValue:n,next:null},Ki===null){if(e===null)throw Error(i(308));Ki=t,e.dependencies={lanes:0,firstContext:t},e.flags|=524288}else Ki=Ki.next=t;return n}var ra=typeof AbortController<`u`?AbortController:function(){var e=[],t=this.signal={aborted:!1,addEventListener:function(t,n){e.push(n)}};this.abort=function(){t.aborted=!0,e.forEach(function(e){return e()})}},ia=t.unstable_scheduleCallback,aa=t.unstable_NormalPriority,oa={$$typeof:C,Consumer:null,Provider:null,_currentValue:null,_currentValue2:null,_threadCount:0};function sa(){return{controller:new ra,data:new Map,refCount:0}}function ca(e){e.refCount--,e.refCount===0&&ia(aa,function(){e.controller.abort()})}var la=null,ua=0,da=0,fa=null;function pa(e,t){if(la===null){var n=la=[];ua=0,da=pd(),fa={status:`pending`,value:void 0,then:function(e){n.push(e)}}}return ua++,t.then(ma,ma),t}function ma(){if(--ua===0&&la!==null){fa!==null&&(fa.status=`fulfilled`);var e=la;la=null,da=0,fa=null;for(var t=0;t<e.length;t++)(0,e[t])()}}function ha(e,t){var n=[],r={status:`pending`,value:null,reason:null,then:function(e){n.push(e)}};return e.then(function(){r.status=`fulfilled`,r.value=t;for(var e=0;e<n.length;e++)(0,n[e])(t)},function(e){for(r.status=`rejected`,r.reason=e,e=0;e<n.length;e++)(0,n[e])(void 0)}),r}var ga=N.S;N.S=function(e,t){au=Ee(),typeof t==`object`&&t&&typeof t.then==`function`&&pa(e,t),ga!==null&&ga(e,t)};var _a=oe(null);function va(){var e=_a.current;return e===null?Ul.pooledCache:e}function ya(e,t){t===null?I(_a,_a.current):I(_a,t.pool)}function ba(){var e=va();return e===null?null:{parent:oa._currentValue,pool:e}}var xa=Error(i(460)),Sa=Error(i(474)),Ca=Error(i(542)),wa={then:function(){}};function Ta(e){return e=e.status,e===`fulfilled`||e===`rejected`}function Ea(e,t,n){switch(n=e[n],n===void 0?e.push(t):n!==t&&(t.then(Qt,Qt),t=n),t.status){case`fulfilled`:return t.value;case`rejected`:throw e=t.reason,Aa(e),e;default:if(typeof t.status==`string`)t.then(Qt,Qt);else{if(e=Ul,e!==null&&100<e.shellSuspendCounter)throw Error(i(482));e=t,e.status=`pending`,e.then(function(e){if(t.status===`pending`){var n=t;n.status=`fulfilled`,n.value=e}},function(e){if(t.status===`pending`){var n=t;n.status=`rejected`,n.reason=e}})}switch(t.status){case`fulfilled`:return t.value;case`rejected`:throw e=t.reason,Aa(e),e}throw Oa=t,xa}}function Da(e){try{var t=e._init;return t(e._payload)}catch(e){throw typeof e==`object`&&e&&typeof e.then==`function`?(Oa=e,xa):e}}var Oa=null;function ka(){if(Oa===null)throw Error(i(459));var e=Oa;return Oa=null,e}function Aa(e){if(e===xa||e===Ca)throw Error(i(483))}var ja=null,Ma=0;function Na(e){var t=Ma;return Ma+=1,ja===null&&(ja=[]),Ea(ja,e,t)}function Pa(e,t){t=t.props.ref,e.ref=t===void 0?null:t}function Fa(e,t){throw t.$$typeof===g?Error(i(525)):(e=Object.prototype.toString.call(t),Error(i(31,e===`[object Object]`?`object with keys {`+Object.keys(t).join(`, `)+`}`:e)))}function Ia(e){function t(t,n){if(e){var r=t.deletions;r===null?(t.deletions=[n],t.flags|=16):r.push(n)}}function n(n,r){if(!e)return null;for(;r!==null;)t(n,r),r=r.sibling;return null}function r(e){for(var t=new Map;e!==null;)e.key===null?t.set(e.index,e):t.set(e.key,e),e=e.sibling;return t}function a(e,t){return e=li(e,t),e.index=0,e.sibling=null,e}function o(t,n,r){return t.index=r,e?(r=t.alternate,r===null?(t.flags|=67108866,n):(r=r.index,r<n?(t.flags|=67108866,n):r)):(t.flags|=1048576,n)}function s(t){return e&&t.alternate===null&&(t.flags|=67108866),t}function c(e,t,n,r){return t===null||t.tag!==6?(t=pi(n,e.mode,r),t.return=e,t):(t=a(t,n),t.return=e,t)}function l(e,t,n,r){var i=n.type;return i===y?d(e,t,n.props.children,r,n.key):t!==null&&(t.elementType===i||typeof i==`object`&&i&&i.$$typeof===O&&Da(i)===t.type)?(t=a(t,n.props),Pa(t,n),t.return=e,t):(t=di(n.type,n.key,n.props,null,e.mode,r),Pa(t,n),t.return=e,t)}function u(e,t,n,r){return t===null||t.tag!==4||t.stateNode.containerInfo!==n.containerInfo||t.stateNode.implementation!==n.implementation?(t=hi(n,e.mode,r),t.return=e,t):(t=a(t,n.children||[]),t.return=e,t)}function d(e,t,n,r,i){return t===null||t.tag!==7?(t=fi(n,e.mode,r,i),t.return=e,t):(t=a(t,n),t.return=e,t)}function f(e,t,n){if(typeof t==`string`&&t!==``||typeof t==`number`||typeof t==`bigint`)return t=pi(``+t,e.mode,n),t.return=e,t;if(typeof t==`object`&&t){switch(t.$$typeof){case _:return n=di(t.type,t.key,t.props,null,e.mode,n),Pa(n,t),n.return=e,n;case v:return t=hi(t,e.mode,n),t.return=e,t;case O:return t=Da(t),f(e,t,n)}if(ne(t)||j(t))return t=fi(t,e.mode,n,null),t.return=e,t;if(typeof t.then==`function`)return f(e,Na(t),n);if(t.$$typeof===C)return f(e,ta(e,t),n);Fa(e,t)}return null}function p(e,t,n,r){var i=t===null?null:t.key;if(typeof n==`string`&&n!==``||typeof n==`number`||typeof n==`bigint`)return i===null?c(e,t,``+n,r):null;if(typeof n==`object`&&n){switch(n.$$typeof){case _:return n.key===i?l(e,t,n,r):null;case v:return n.key===i?u(e,t,n,r):null;case O:return n=Da(n),p(e,t,n,r)}if(ne(n)||j(n))return i===null?d(e,t,n,r,null):null;if(typeof n.then==`function`)return p(e,t,Na(n),r);if(n.$$typeof===C)return p(e,t,ta(e,n),r);Fa(e,n)}return null}function m(e,t,n,r,i){if(typeof r==`string`&&r!==``||typeof r==`number`||typeof r==`bigint`)return e=e.get(n)||null,c(t,e,``+r,i);if(typeof r==`object`&&r){switch(r.$$typeof){case _:return e=e.get(r.key===null?n:r.key)||null,l(t,e,r,i);case v:return e=e.get(r.key===null?n:r.key)||null,u(t,e,r,i);case O:return r=Da(r),m(e,t,n,r,i)}if(ne(r)||j(r))return e=e.get(n)||null,d(t,e,r,i,null);if(typeof r.then==`function`)return m(e,t,n,Na(r),i);if(r.$$typeof===C)return m(e,t,n,ta(t,r),i);Fa(t,r)}return null}function h(i,a,s,c){for(var l=null,u=null,d=a,h=a=0,g=null;d!==null&&h<s.length;h++){d.index>h?(g=d,d=null):g=d.sibling;var _=p(i,d,s[h],c);if(_===null){d===null&&(d=g);break}e&&d&&_.alternate===null&&t(i,d),a=o(_,a,h),u===null?l=_:u.sibling=_,u=_,d=g}if(h===s.length)return n(i,d),B&&Di(i,h),l;if(d===null){for(;h<s.length;h++)d=f(i,s[h],c),d!==null&&(a=o(d,a,h),u===null?l=d:u.sibling=d,u=d);return B&&Di(i,h),l}for(d=r(d);h<s.length;h++)g=m(d,i,h,s[h],c),g!==null&&(e&&g.alternate!==null&&d.delete(g.key===null?h:g.key),a=o(g,a,h),u===null?l=g:u.sibling=g,u=g);return e&&d.forEach(function(e){return t(i,e)}),B&&Di(i,h),l}function g(a,s,c,l){if(c==null)throw Error(i(151));for(var u=null,d=null,h=s,g=s=0,_=null,v=c.next();h!==null&&!v.done;g++,v=c.next()){h.index>g?(_=h,h=null):_=h.sibling;var y=p(a,h,v.value,l);if(y===null){h===null&&(h=_);break}e&&h&&y.alternate===null&&t(a,h),s=o(y,s,g),d===null?u=y:d.sibling=y,d=y,h=_}if(v.done)return n(a,h),B&&Di(a,g),u;if(h===null){for(;!v.done;g++,v=c.next())v=f(a,v.value,l),v!==null&&(s=o(v,s,g),d===null?u=v:d.sibling=v,d=v);return B&&Di(a,g),u}for(h=r(h);!v.done;g++,v=c.next())v=m(h,a,g,v.value,l),v!==null&&(e&&v.alternate!==null&&h.delete(v.key===null?g:v.key),s=o(v,s,g),d===null?u=v:d.sibling=v,d=v);return e&&h.forEach(function(e){return t(a,e)}),B&&Di(a,g),u}function b(e,r,o,c){if(typeof o==`object`&&o&&o.type===y&&o.key===null&&(o=o.props.children),typeof o==`object`&&o){switch(o.$$typeof){case _:a:{for(var l=o.key;r!==null;){if(r.key===l){if(l=o.type,l===y){if(r.tag===7){n(e,r.sibling),c=a(r,o.props.children),c.return=e,e=c;break a}}else if(r.elementType===l||typeof l==`object`&&l&&l.$$typeof===O&&Da(l)===r.type){n(e,r.sibling),c=a(r,o.props),Pa(c,o),c.return=e,e=c;break a}n(e,r);break}else t(e,r);r=r.sibling}o.type===y?(c=fi(o.props.children,e.mode,c,o.key),c.return=e,e=c):(c=di(o.type,o.key,o.props,null,e.mode,c),Pa(c,o),c.return=e,e=c)}return s(e);case v:a:{for(l=o.key;r!==null;){if(r.key===l)if(r.tag===4&&r.stateNode.containerInfo===o.containerInfo&&r.stateNode.implementation===o.implementation){n(e,r.sibling),c=a(r,o.children||[]),c.return=e,e=c;break a}else{n(e,r);break}else t(e,r);r=r.sibling}c=hi(o,e.mode,c),c.return=e,e=c}return s(e);case O:return o=Da(o),b(e,r,o,c)}if(ne(o))return h(e,r,o,c);if(j(o)){if(l=j(o),typeof l!=`function`)throw Error(i(150));return o=l.call(o),g(e,r,o,c)}if(typeof o.then==`function`)return b(e,r,Na(o),c);if(o.$$typeof===C)return b(e,r,ta(e,o),c);Fa(e,o)}return typeof o==`string`&&o!==``||typeof o==`number`||typeof o==`bigint`?(o=``+o,r!==null&&r.tag===6?(n(e,r.sibling),c=a(r,o),c.return=e,e=c):(n(e,r),c=pi(o,e.mode,c),c.return=e,e=c),s(e)):n(e,r)}return function(e,t,n,r){try{Ma=0;var i=b(e,t,n,r);return ja=null,i}catch(t){if(t===xa||t===Ca)throw t;var a=si(29,t,null,e.mode);return a.lanes=r,a.return=e,a}}}var La=Ia(!0),Ra=Ia(!1),za=!1;function Ba(e){e.updateQueue={baseState:e.memoizedState,firstBaseUpdate:null,lastBaseUpdate:null,shared:{pending:null,lanes:0,hiddenCallbacks:null},callbacks:null}}function Va(e,t){e=e.updateQueue,t.updateQueue===e&&(t.updateQueue={baseState:e.baseState,firstBaseUpdate:e.firstBaseUpdate,lastBaseUpdate:e.lastBaseUpdate,shared:e.shared,callbacks:null})}function Ha(e){return{lane:e,tag:0,payload:null,callback:null,next:null}}function Ua(e,t,n){var r=e.updateQueue;if(r===null)return null;if(r=r.shared,H&2){var i=r.pending;return i===null?t.next=t:(t.next=i.next,i.next=t),r.pending=t,t=ii(e),ri(e,null,n),t}return ei(e,r,t,n),ii(e)}function Wa(e,t,n){if(t=t.updateQueue,t!==null&&(t=t.shared,n&4194048)){var r=t.lanes;r&=e.pendingLanes,n|=r,t.lanes=n,Qe(e,n)}}function Ga(e,t){var n=e.updateQueue,r=e.alternate;if(r!==null&&(r=r.updateQueue,n===r)){var i=null,a=null;if(n=n.firstBaseUpdate,n!==null){do{var o={lane:n.lane,tag:n.tag,payload:n.payload,callback:null,next:null};a===null?i=a=o:a=a.next=o,n=n.next}while(n!==null);a===null?i=a=t:a=a.next=t}else i=a=t;n={baseState:r.baseState,firstBaseUpdate:i,lastBaseUpdate:a,shared:r.shared,callbacks:r.callbacks},e.updateQueue=n;return}e=n.lastBaseUpdate,e===null?n.firstBaseUpdate=t:e.next=t,n.lastBaseUpdate=t}var Ka=!1;function qa(){if(Ka){var e=fa;if(e!==null)throw e}}function Ja(e,t,n,r){Ka=!1;var i=e.updateQueue;za=!1;var a=i.firstBaseUpdate,o=i.lastBaseUpdate,s=i.shared.pending;if(s!==null){i.shared.pending=null;var c=s,l=c.next;c.next=null,o===null?a=l:o.next=l,o=c;var u=e.alternate;u!==null&&(u=u.updateQueue,s=u.lastBaseUpdate,s!==o&&(s===null?u.firstBaseUpdate=l:s.next=l,u.lastBaseUpdate=c))}if(a!==null){var d=i.baseState;o=0,u=l=c=null,s=a;do{var f=s.lane&-536870913,p=f!==s.lane;if(p?(W&f)===f:(r&f)===f){f!==0&&f===da&&(Ka=!0),u!==null&&(u=u.next={lane:0,tag:s.tag,payload:s.payload,callback:null,next:null});a:{var m=e,g=s;f=t;var _=n;switch(g.tag){case 1:if(m=g.payload,typeof m==`function`){d=m.call(_,d,f);break a}d=m;break a;case 3:m.flags=m.flags&-65537|128;case 0:if(m=g.payload,f=typeof m==`function`?m.call(_,d,f):m,f==null)break a;d=h({},d,f);break a;case 2:za=!0}}f=s.callback,f!==null&&(e.flags|=64,p&&(e.flags|=8192),p=i.callbacks,p===null?i.callbacks=[f]:p.push(f))}else p={lane:f,tag:s.tag,payload:s.payload,callback:s.callback,next:null},u===null?(l=u=p,c=d):u=u.next=p,o|=f;if(s=s.next,s===null){if(s=i.shared.pending,s===null)break;p=s,s=p.next,p.next=null,i.lastBaseUpdate=p,i.shared.pending=null}}while(1);u===null&&(c=d),i.baseState=c,i.firstBaseUpdate=l,i.lastBaseUpdate=u,a===null&&(i.shared.lanes=0),Xl|=o,e.lanes=o,e.memoizedState=d}}function Ya(e,t){if(typeof e!=`function`)throw Error(i(191,e));e.call(t)}function Xa(e,t){var n=e.callbacks;if(n!==null)for(e.callbacks=null,e=0;e<n.length;e++)Ya(n[e],t)}var Za=oe(null),Qa=oe(0);function $a(e,t){e=Jl,I(Qa,e),I(Za,t),Jl=e|t.baseLanes}function eo(){I(Qa,Jl),I(Za,Za.current)}function to(){Jl=Qa.current,F(Za),F(Qa)}var no=oe(null),ro=null;function io(e){var t=e.alternate;I(lo,lo.current&1),I(no,e),ro===null&&(t===null||Za.current!==null||t.memoizedState!==null)&&(ro=e)}function ao(e){I(lo,lo.current),I(no,e),ro===null&&(ro=e)}function oo(e){e.tag===22?(I(lo,lo.current),I(no,e),ro===null&&(ro=e)):so(e)}function so(){I(lo,lo.current),I(no,no.current)}function co(e){F(no),ro===e&&(ro=null),F(lo)}var lo=oe(0);function uo(e){for(var t=e;t!==null;){if(t.tag===13){var n=t.memoizedState;if(n!==null&&(n=n.dehydrated,n===null||af(n)||of(n)))return t}else if(t.tag===19&&(t.memoizedProps.revealOrder===`forwards`||t.memoizedProps.revealOrder===`backwards`||t.memoizedProps.revealOrder===`unstable_legacy-backwards`||t.memoizedProps.revealOrder===`together`)){if(t.flags&128)return t}else if(t.child!==null){t.child.return=t,t=t.child;continue}if(t===e)break;for(;t.sibling===null;){if(t.return===null||t.return===e)return null;t=t.return}t.sibling.return=t.return,t=t.sibling}return null}var fo=0,V=null,po=null,mo=null,ho=!1,go=!1,_o=!1,vo=0,yo=0,bo=null,xo=0;function So(){throw Error(i(321))}function Co(e,t){if(t===null)return!1;for(var n=0;n<t.length&&n<e.length;n++)if(!xr(e[n],t[n]))return!1;return!0}function wo(e,t,n,r,i,a){return fo=a,V=t,t.memoizedState=null,t.updateQueue=null,t.lanes=0,N.H=e===null||e.memoizedState===null?Vs:Hs,_o=!1,a=n(r,i),_o=!1,go&&(a=Eo(t,n,r,i)),To(e),a}function To(e){N.H=Bs;var t=po!==null&&po.next!==null;if(fo=0,mo=po=V=null,ho=!1,yo=0,bo=null,t)throw Error(i(300));e===null||ac||(e=e.dependencies,e!==null&&Qi(e)&&(ac=!0))}function Eo(e,t,n,r){V=e;var a=0;do{if(go&&(bo=null),yo=0,go=!1,25<=a)throw Error(i(301));if(a+=1,mo=po=null,e.updateQueue!=null){var o=e.updateQueue;o.lastEffect=null,o.events=null,o.stores=null,o.memoCache!=null&&(o.memoCache.index=0)}N.H=Us,o=t(n,r)}while(go);return o}function Do(){var e=N.H,t=e.useState()[0];return t=typeof t.then==`function`?Po(t):t,e=e.useState()[0],(po===null?null:po.memoizedState)!==e&&(V.flags|=1024),t}function Oo(){var e=vo!==0;return vo=0,e}function ko(e,t,n){t.updateQueue=e.updateQueue,t.flags&=-2053,e.lanes&=~n}function Ao(e){if(ho){for(e=e.memoizedState;e!==null;){var t=e.queue;t!==null&&(t.pending=null),e=e.next}ho=!1}fo=0,mo=po=V=null,go=!1,yo=vo=0,bo=null}function jo(){var e={memoizedState:null,baseState:null,baseQueue:null,queue:null,next:null};return mo===null?V.memoizedState=mo=e:mo=mo.next=e,mo}function Mo(){if(po===null){var e=V.alternate;e=e===null?null:e.memoizedState}else e=po.next;var t=mo===null?V.memoizedState:mo.next;if(t!==null)mo=t,po=e;else{if(e===null)throw V.alternate===null?Error(i(467)):Error(i(310));po=e,e={memoizedState:po.memoizedState,baseState:po.baseState,baseQueue:po.baseQueue,queue:po.queue,next:null},mo===null?V.memoizedState=mo=e:mo=mo.next=e}return mo}function No(){return{lastEffect:null,events:null,stores:null,memoCache:null}}function Po(e){var t=yo;return yo+=1,bo===null&&(bo=[]),e=Ea(bo,e,t),t=V,(mo===null?t.memoizedState:mo.next)===null&&(t=t.alternate,N.H=t===null||t.memoizedState===null?Vs:Hs),e}function Fo(e){if(typeof e==`object`&&e){if(typeof e.then==`function`)return Po(e);if(e.$$typeof===C)return ea(e)}throw Error(i(438,String(e)))}function Io(e){var t=null,n=V.updateQueue;if(n!==null&&(t=n.memoCache),t==null){var r=V.alternate;r!==null&&(r=r.updateQueue,r!==null&&(r=r.memoCache,r!=null&&(t={data:r.data.map(function(e){return e.slice()}),index:0})))}if(t??={data:[],index:0},n===null&&(n=No(),V.updateQueue=n),n.memoCache=t,n=t.data[t.index],n===void 0)for(n=t.data[t.index]=Array(e),r=0;r<e;r++)n[r]=k;return t.index++,n}function Lo(e,t){return typeof t==`function`?t(e):t}function Ro(e){return zo(Mo(),po,e)}function zo(e,t,n){var r=e.queue;if(r===null)throw Error(i(311));r.lastRenderedReducer=n;var a=e.baseQueue,o=r.pending;if(o!==null){if(a!==null){var s=a.next;a.next=o.next,o.next=s}t.baseQueue=a=o,r.pending=null}if(o=e.baseState,a===null)e.memoizedState=o;else{t=a.next;var c=s=null,l=null,u=t,d=!1;do{var f=u.lane&-536870913;if(f===u.lane?(fo&f)===f:(W&f)===f){var p=u.revertLane;if(p===0)l!==null&&(l=l.next={lane:0,revertLane:0,gesture:null,action:u.action,hasEagerState:u.hasEagerState,eagerState:u.eagerState,next:null}),f===da&&(d=!0);else if((fo&p)===p){u=u.next,p===da&&(d=!0);continue}else f={lane:0,revertLane:u.revertLane,gesture:null,action:u.action,hasEagerState:u.hasEagerState,eagerState:u.eagerState,next:null},l===null?(c=l=f,s=o):l=l.next=f,V.lanes|=p,Xl|=p;f=u.action,_o&&n(o,f),o=u.hasEagerState?u.eagerState:n(o,f)}else p={lane:f,revertLane:u.revertLane,gesture:u.gesture,action:u.action,hasEagerState:u.hasEagerState,eagerState:u.eagerState,next:null},l===null?(c=l=p,s=o):l=l.next=p,V.lanes|=f,Xl|=f;u=u.next}while(u!==null&&u!==t);if(l===null?s=o:l.next=c,!xr(o,e.memoizedState)&&(ac=!0,d&&(n=fa,n!==null)))throw n;e.memoizedState=o,e.baseState=s,e.baseQueue=l,r.lastRenderedState=o}return a===null&&(r.lanes=0),[e.memoizedState,r.dispatch]}function Bo(e){var t=Mo(),n=t.queue;if(n===null)throw Error(i(311));n.lastRenderedReducer=e;var r=n.dispatch,a=n.pending,o=t.memoizedState;if(a!==null){n.pending=null;var s=a=a.next;do o=e(o,s.action),s=s.next;while(s!==a);xr(o,t.memoizedState)||(ac=!0),t.memoizedState=o,t.baseQueue===null&&(t.baseState=o),n.lastRenderedState=o}return[o,r]}function Vo(e,t,n){var r=V,a=Mo(),o=B;if(o){if(n===void 0)throw Error(i(407));n=n()}else n=t();var s=!xr((po||a).memoizedState,n);if(s&&(a.memoizedState=n,ac=!0),a=a.queue,fs(Wo.bind(null,r,a,e),[e]),a.getSnapshot!==t||s||mo!==null&&mo.memoizedState.tag&1){if(r.flags|=2048,ss(9,{destroy:void 0},Uo.bind(null,r,a,n,t),null),Ul===null)throw Error(i(349));o||fo&127||Ho(r,t,n)}return n}function Ho(e,t,n){e.flags|=16384,e={getSnapshot:t,value:n},t=V.updateQueue,t===null?(t=No(),V.updateQueue=t,t.stores=[e]):(n=t.stores,n===null?t.stores=[e]:n.push(e))}function Uo(e,t,n,r){t.value=n,t.getSnapshot=r,Go(t)&&Ko(e)}function Wo(e,t,n){return n(function(){Go(t)&&Ko(e)})}function Go(e){var t=e.getSnapshot;e=e.value;try{var n=t();return!xr(e,n)}catch{return!0}}function Ko(e){var t=ni(e,2);t!==null&&bu(t,e,2)}function qo(e){var t=jo();if(typeof e==`function`){var n=e;if(e=n(),_o){Ie(!0);try{n()}finally{Ie(!1)}}}return t.memoizedState=t.baseState=e,t.queue={pending:null,lanes:0,dispatch:null,lastRenderedReducer:Lo,lastRenderedState:e},t}function Jo(e,t,n,r){return e.baseState=n,zo(e,po,typeof r==`function`?r:Lo)}function Yo(e,t,n,r,a){if(Ls(e))throw Error(i(485));if(e=t.action,e!==null){var o={payload:a,action:e,next:null,isTransition:!0,status:`pending`,value:null,reason:null,listeners:[],then:function(e){o.listeners.push(e)}};N.T===null?o.isTransition=!1:n(!0),r(o),n=t.pending,n===null?(o.next=t.pending=o,Xo(t,o)):(o.next=n.next,t.pending=n.next=o)}}function Xo(e,t){var n=t.action,r=t.payload,i=e.state;if(t.isTransition){var a=N.T,o={};N.T=o;try{var s=n(i,r),c=N.S;c!==null&&c(o,s),Zo(e,t,s)}catch(n){$o(e,t,n)}finally{a!==null&&o.types!==null&&(a.types=o.types),N.T=a}}else try{a=n(i,r),Zo(e,t,a)}catch(n){$o(e,t,n)}}function Zo(e,t,n){typeof n==`object`&&n&&typeof n.then==`function`?n.then(function(n){Qo(e,t,n)},function(n){return $o(e,t,n)}):Qo(e,t,n)}function Qo(e,t,n){t.status=`fulfilled`,t.value=n,es(t),e.state=n,t=e.pending,t!==null&&(n=t.next,n===t?e.pending=null:(n=n.next,t.next=n,Xo(e,n)))}function $o(e,t,n){var r=e.pending;if(e.pending=null,r!==null){r=r.next;do t.status=`rejected`,t.reason=n,es(t),t=t.next;while(t!==r)}e.action=null}function es(e){e=e.listeners;for(var t=0;t<e.length;t++)(0,e[t])()}function ts(e,t){return t}function ns(e,t){if(B){var n=Ul.formState;if(n!==null){a:{var r=V;if(B){if(Ni){b:{for(var i=Ni,a=Fi;i.nodeType!==8;){if(!a){i=null;break b}if(i=cf(i.nextSibling),i===null){i=null;break b}}a=i.data,i=a===`F!`||a===`F`?i:null}if(i){Ni=cf(i.nextSibling),r=i.data===`F!`;break a}}Li(r)}r=!1}r&&(t=n[0])}}return n=jo(),n.memoizedState=n.baseState=t,r={pending:null,lanes:0,dispatch:null,lastRenderedReducer:ts,lastRenderedState:t},n.queue=r,n=Ps.bind(null,V,r),r.dispatch=n,r=qo(!1),a=Is.bind(null,V,!1,r.queue),r=jo(),i={state:t,dispatch:null,action:e,pending:null},r.queue=i,n=Yo.bind(null,V,i,a,n),i.dispatch=n,r.memoizedState=e,[t,n,!1]}function rs(e){return is(Mo(),po,e)}function is(e,t,n){if(t=zo(e,t,ts)[0],e=Ro(Lo)[0],typeof t==`object`&&t&&typeof t.then==`function`)try{var r=Po(t)}catch(e){throw e===xa?Ca:e}else r=t;t=Mo();var i=t.queue,a=i.dispatch;return n!==t.memoizedState&&(V.flags|=2048,ss(9,{destroy:void 0},as.bind(null,i,n),null)),[r,a,e]}function as(e,t){e.action=t}function os(e){var t=Mo(),n=po;if(n!==null)return is(t,n,e);Mo(),t=t.memoizedState,n=Mo();var r=n.queue.dispatch;return n.memoizedState=e,[t,r,!1]}function ss(e,t,n,r){return e={tag:e,create:n,deps:r,inst:t,next:null},t=V.updateQueue,t===null&&(t=No(),V.updateQueue=t),n=t.lastEffect,n===null?t.lastEffect=e.next=e:(r=n.next,n.next=e,e.next=r,t.lastEffect=e),e}function cs(){return Mo().memoizedState}function ls(e,t,n,r){var i=jo();V.flags|=e,i.memoizedState=ss(1|t,{destroy:void 0},n,r===void 0?null:r)}function us(e,t,n,r){var i=Mo();r=r===void 0?null:r;var a=i.memoizedState.inst;po!==null&&r!==null&&Co(r,po.memoizedState.deps)?i.memoizedState=ss(t,a,n,r):(V.flags|=e,i.memoizedState=ss(1|t,a,n,r))}function ds(e,t){ls(8390656,8,e,t)}function fs(e,t){us(2048,8,e,t)}function ps(e){V.flags|=4;var t=V.updateQueue;if(t===null)t=No(),V.updateQueue=t,t.events=[e];else{var n=t.events;n===null?t.events=[e]:n.push(e)}}function ms(e){var t=Mo().memoizedState;return ps({ref:t,nextImpl:e}),function(){if(H&2)throw Error(i(440));return t.impl.apply(void 0,arguments)}}function hs(e,t){return us(4,2,e,t)}function gs(e,t){return us(4,4,e,t)}function _s(e,t){if(typeof t==`function`){e=e();var n=t(e);return function(){typeof n==`function`?n():t(null)}}if(t!=null)return e=e(),t.current=e,function(){t.current=null}}function vs(e,t,n){n=n==null?null:n.concat([e]),us(4,4,_s.bind(null,t,e),n)}function ys(){}function bs(e,t){var n=Mo();t=t===void 0?null:t;var r=n.memoizedState;return t!==null&&Co(t,r[1])?r[0]:(n.memoizedState=[e,t],e)}function xs(e,t){var n=Mo();t=t===void 0?null:t;var r=n.memoizedState;if(t!==null&&Co(t,r[1]))return r[0];if(r=e(),_o){Ie(!0);try{e()}finally{Ie(!1)}}return n.memoizedState=[r,t],r}function Ss(e,t,n){return n===void 0||fo&1073741824&&!(W&261930)?e.memoizedState=t:(e.memoizedState=n,e=yu(),V.lanes|=e,Xl|=e,n)}function Cs(e,t,n,r){return xr(n,t)?n:Za.current===null?!(fo&42)||fo&1073741824&&!(W&261930)?(ac=!0,e.memoizedState=n):(e=yu(),V.lanes|=e,Xl|=e,t):(e=Ss(e,n,r),xr(e,t)||(ac=!0),e)}function ws(e,t,n,r,i){var a=P.p;P.p=a!==0&&8>a?a:8;var o=N.T,s={};N.T=s,Is(e,!1,t,n);try{var c=i(),l=N.S;l!==null&&l(s,c),typeof c==`object`&&c&&typeof c.then==`function`?Fs(e,t,ha(c,r),vu(e)):Fs(e,t,r,vu(e))}catch(n){Fs(e,t,{then:function(){},status:`rejected`,reason:n},vu())}finally{P.p=a,o!==null&&s.types!==null&&(o.types=s.types),N.T=o}}function Ts(){}function Es(e,t,n,r){if(e.tag!==5)throw Error(i(476));var a=Ds(e).queue;ws(e,a,t,re,n===null?Ts:function(){return Os(e),n(r)})}function Ds(e){var t=e.memoizedState;if(t!==null)return t;t={memoizedState:re,baseState:re,baseQueue:null,queue:{pending:null,lanes:0,dispatch:null,lastRenderedReducer:Lo,lastRenderedState:re},next:null};var n={};return t.next={memoizedState:n,baseState:n,baseQueue:null,queue:{pending:null,lanes:0,dispatch:null,lastRenderedReducer:Lo,lastRenderedState:n},next:null},e.memoizedState=t,e=e.alternate,e!==null&&(e.memoizedState=t),t}function Os(e){var t=Ds(e);t.next===null&&(t=e.alternate.memoizedState),Fs(e,t.next.queue,{},vu())}function ks(){return ea(Qf)}function As(){return Mo().memoizedState}function js(){return Mo().memoizedState}function Ms(e){for(var t=e.return;t!==null;){switch(t.tag){case 24:case 3:var n=vu();e=Ha(n);var r=Ua(t,e,n);r!==null&&(bu(r,t,n),Wa(r,t,n)),t={cache:sa()},e.payload=t;return}t=t.return}}function Ns(e,t,n){var r=vu();n={lane:r,revertLane:0,gesture:null,action:n,hasEagerState:!1,eagerState:null,next:null},Ls(e)?Rs(t,n):(n=ti(e,t,n,r),n!==null&&(bu(n,e,r),zs(n,t,r)))}function Ps(e,t,n){Fs(e,t,n,vu())}function Fs(e,t,n,r){var i={lane:r,revertLane:0,gesture:null,action:n,hasEagerState:!1,eagerState:null,next:null};if(Ls(e))Rs(t,i);else{var a=e.alternate;if(e.lanes===0&&(a===null||a.lanes===0)&&(a=t.lastRenderedReducer,a!==null))try{var o=t.lastRenderedState,s=a(o,n);if(i.hasEagerState=!0,i.eagerState=s,xr(s,o))return ei(e,t,i,0),Ul===null&&$r(),!1}catch{}if(n=ti(e,t,i,r),n!==null)return bu(n,e,r),zs(n,t,r),!0}return!1}function Is(e,t,n,r){if(r={lane:2,revertLane:pd(),gesture:null,action:r,hasEagerState:!1,eagerState:null,next:null},Ls(e)){if(t)throw Error(i(479))}else t=ti(e,n,r,2),t!==null&&bu(t,e,2)}function Ls(e){var t=e.alternate;return e===V||t!==null&&t===V}function Rs(e,t){go=ho=!0;var n=e.pending;n===null?t.next=t:(t.next=n.next,n.next=t),e.pending=t}function zs(e,t,n){if(n&4194048){var r=t.lanes;r&=e.pendingLanes,n|=r,t.lanes=n,Qe(e,n)}}var Bs={readContext:ea,use:Fo,useCallback:So,useContext:So,useEffect:So,useImperativeHandle:So,useLayoutEffect:So,useInsertionEffect:So,useMemo:So,useReducer:So,useRef:So,useState:So,useDebugValue:So,useDeferredValue:So,useTransition:So,useSyncExternalStore:So,useId:So,useHostTransitionStatus:So,useFormState:So,useActionState:So,useOptimistic:So,useMemoCache:So,useCacheRefresh:So};Bs.useEffectEvent=So;var Vs={readContext:ea,use:Fo,useCallback:function(e,t){return jo().memoizedState=[e,t===void 0?null:t],e},useContext:ea,useEffect:ds,useImperativeHandle:function(e,t,n){n=n==null?null:n.concat([e]),ls(4194308,4,_s.bind(null,t,e),n)},useLayoutEffect:function(e,t){return ls(4194308,4,e,t)},useInsertionEffect:function(e,t){ls(4,2,e,t)},useMemo:function(e,t){var n=jo();t=t===void 0?null:t;var r=e();if(_o){Ie(!0);try{e()}finally{Ie(!1)}}return n.memoizedState=[r,t],r},useReducer:function(e,t,n){var r=jo();if(n!==void 0){var i=n(t);if(_o){Ie(!0);try{n(t)}finally{Ie(!1)}}}else i=t;return r.memoizedState=r.baseState=i,e={pending:null,lanes:0,dispatch:null,lastRenderedReducer:e,lastRenderedState:i},r.queue=e,e=e.dispatch=Ns.bind(null,V,e),[r.memoizedState,e]},useRef:function(e){var t=jo();return e={current:e},t.memoizedState=e},useState:function(e){e=qo(e);var t=e.queue,n=Ps.bind(null,V,t);return t.dispatch=n,[e.memoizedState,n]},useDebugValue:ys,useDeferredValue:function(e,t){return Ss(jo(),e,t)},useTransition:function(){var e=qo(!1);return e=ws.bind(null,V,e.queue,!0,!1),jo().memoizedState=e,[!1,e]},useSyncExternalStore:function(e,t,n){var r=V,a=jo();if(B){if(n===void 0)throw Error(i(407));n=n()}else{if(n=t(),Ul===null)throw Error(i(349));W&127||Ho(r,t,n)}a.memoizedState=n;var o={value:n,getSnapshot:t};return a.queue=o,ds(Wo.bind(null,r,o,e),[e]),r.flags|=2048,ss(9,{destroy:void 0},Uo.bind(null,r,o,n,t),null),n},useId:function(){var e=jo(),t=Ul.identifierPrefix;if(B){var n=Ei,r=Ti;n=(r&~(1<<32-Le(r)-1)).toString(32)+n,t=`_`+t+`R_`+n,n=vo++,0<n&&(t+=`H`+n.toString(32)),t+=`_`}else n=xo++,t=`_`+t+`r_`+n.toString(32)+`_`;return e.memoizedState=t},useHostTransitionStatus:ks,useFormState:ns,useActionState:ns,useOptimistic:function(e){var t=jo();t.memoizedState=t.baseState=e;var n={pending:null,lanes:0,dispatch:null,lastRenderedReducer:null,lastRenderedState:null};return t.queue=n,t=Is.bind(null,V,!0,n),n.dispatch=t,[e,t]},useMemoCache:Io,useCacheRefresh:function(){return jo().memoizedState=Ms.bind(null,V)},useEffectEvent:function(e){var t=jo(),n={impl:e};return t.memoizedState=n,function(){if(H&2)throw Error(i(440));return n.impl.apply(void 0,arguments)}}},Hs={readContext:ea,use:Fo,useCallback:bs,useContext:ea,useEffect:fs,useImperativeHandle:vs,useInsertionEffect:hs,useLayoutEffect:gs,useMemo:xs,useReducer:Ro,useRef:cs,useState:function(){return Ro(Lo)},useDebugValue:ys,useDeferredValue:function(e,t){return Cs(Mo(),po.memoizedState,e,t)},useTransition:function(){var e=Ro(Lo)[0],t=Mo().memoizedState;return[typeof e==`boolean`?e:Po(e),t]},useSyncExternalStore:Vo,useId:As,useHostTransitionStatus:ks,useFormState:rs,useActionState:rs,useOptimistic:function(e,t){return Jo(Mo(),po,e,t)},useMemoCache:Io,useCacheRefresh:js};Hs.useEffectEvent=ms;var Us={readContext:ea,use:Fo,useCallback:bs,useContext:ea,useEffect:fs,useImperativeHandle:vs,useInsertionEffect:hs,useLayoutEffect:gs,useMemo:xs,useReducer:Bo,useRef:cs,useState:function(){return Bo(Lo)},useDebugValue:ys,useDeferredValue:function(e,t){var n=Mo();return po===null?Ss(n,e,t):Cs(n,po.memoizedState,e,t)},useTransition:function(){var e=Bo(Lo)[0],t=Mo().memoizedState;return[typeof e==`boolean`?e:Po(e),t]},useSyncExternalStore:Vo,useId:As,useHostTransitionStatus:ks,useFormState:os,useActionState:os,useOptimistic:function(e,t){var n=Mo();return po===null?(n.baseState=e,[e,n.queue.dispatch]):Jo(n,po,e,t)},useMemoCache:Io,useCacheRefresh:js};Us.useEffectEvent=ms;function Ws(e,t,n,r){t=e.memoizedState,n=n(r,t),n=n==null?t:h({},t,n),e.memoizedState=n,e.lanes===0&&(e.updateQueue.baseState=n)}var Gs={enqueueSetState:function(e,t,n){e=e._reactInternals;var r=vu(),i=Ha(r);i.payload=t,n!=null&&(i.callback=n),t=Ua(e,i,r),t!==null&&(bu(t,e,r),Wa(t,e,r))},enqueueReplaceState:function(e,t,n){e=e._reactInternals;var r=vu(),i=Ha(r);i.tag=1,i.payload=t,n!=null&&(i.callback=n),t=Ua(e,i,r),t!==null&&(bu(t,e,r),Wa(t,e,r))},enqueueForceUpdate:function(e,t){e=e._reactInternals;var n=vu(),r=Ha(n);r.tag=2,t!=null&&(r.callback=t),t=Ua(e,r,n),t!==null&&(bu(t,e,n),Wa(t,e,n))}};function Ks(e,t,n,r,i,a,o){return e=e.stateNode,typeof e.shouldComponentUpdate==`function`?e.shouldComponentUpdate(r,a,o):t.prototype&&t.prototype.isPureReactComponent?!Sr(n,r)||!Sr(i,a):!0}function qs(e,t,n,r){e=t.state,typeof t.componentWillReceiveProps==`function`&&t.componentWillReceiveProps(n,r),typeof t.UNSAFE_componentWillReceiveProps==`function`&&t.UNSAFE_componentWillReceiveProps(n,r),t.state!==e&&Gs.enqueueReplaceState(t,t.state,null)}function Js(e,t){var n=t;if(`ref`in t)for(var r in n={},t)r!==`ref`&&(n[r]=t[r]);if(e=e.defaultProps)for(var i in n===t&&(n=h({},n)),e)n[i]===void 0&&(n[i]=e[i]);return n}function Ys(e){Yr(e)}function Xs(e){console.error(e)}function Zs(e){Yr(e)}function Qs(e,t){try{var n=e.onUncaughtError;n(t.value,{componentStack:t.stack})}catch(e){setTimeout(function(){throw e})}}function $s(e,t,n){try{var r=e.onCaughtError;r(n.value,{componentStack:n.stack,errorBoundary:t.tag===1?t.stateNode:null})}catch(e){setTimeout(function(){throw e})}}function ec(e,t,n){return n=Ha(n),n.tag=3,n.payload={element:null},n.callback=function(){Qs(e,t)},n}function tc(e){return e=Ha(e),e.tag=3,e}function nc(e,t,n,r){var i=n.type.getDerivedStateFromError;if(typeof i==`function`){var a=r.value;e.payload=function(){return i(a)},e.callback=function(){$s(t,n,r)}}var o=n.stateNode;o!==null&&typeof o.componentDidCatch==`function`&&(e.callback=function(){$s(t,n,r),typeof i!=`function`&&(cu===null?cu=new Set([this]):cu.add(this));var e=r.stack;this.componentDidCatch(r.value,{componentStack:e===null?``:e})})}function rc(e,t,n,r,a){if(n.flags|=32768,typeof r==`object`&&r&&typeof r.then==`function`){if(t=n.alternate,t!==null&&Zi(t,n,a,!0),n=no.current,n!==null){switch(n.tag){case 31:case 13:return ro===null?Mu():n.alternate===null&&Yl===0&&(Yl=3),n.flags&=-257,n.flags|=65536,n.lanes=a,r===wa?n.flags|=16384:(t=n.updateQueue,t===null?n.updateQueue=new Set([r]):t.add(r),Yu(e,r,a)),!1;case 22:return n.flags|=65536,r===wa?n.flags|=16384:(t=n.updateQueue,t===null?(t={transitions:null,markerInstances:null,retryQueue:new Set([r])},n.updateQueue=t):(n=t.retryQueue,n===null?t.retryQueue=new Set([r]):n.add(r)),Yu(e,r,a)),!1}throw Error(i(435,n.tag))}return Yu(e,r,a),Mu(),!1}if(B)return t=no.current,t===null?(r!==Ii&&(t=Error(i(423),{cause:r}),Ui(_i(t,n))),e=e.current.alternate,e.flags|=65536,a&=-a,e.lanes|=a,r=_i(r,n),a=ec(e.stateNode,r,a),Ga(e,a),Yl!==4&&(Yl=2)):(!(t.flags&65536)&&(t.flags|=256),t.flags|=65536,t.lanes=a,r!==Ii&&(e=Error(i(422),{cause:r}),Ui(_i(e,n)))),!1;var o=Error(i(520),{cause:r});if(o=_i(o,n),tu===null?tu=[o]:tu.push(o),Yl!==4&&(Yl=2),t===null)return!0;r=_i(r,n),n=t;do{switch(n.tag){case 3:return n.flags|=65536,e=a&-a,n.lanes|=e,e=ec(n.stateNode,r,e),Ga(n,e),!1;case 1:if(t=n.type,o=n.stateNode,!(n.flags&128)&&(typeof t.getDerivedStateFromError==`function`||o!==null&&typeof o.componentDidCatch==`function`&&(cu===null||!cu.has(o))))return n.flags|=65536,a&=-a,n.lanes|=a,a=tc(a),nc(a,e,n,r),Ga(n,a),!1}n=n.return}while(n!==null);return!1}var ic=Error(i(461)),ac=!1;function oc(e,t,n,r){t.child=e===null?Ra(t,null,n,r):La(t,e.child,n,r)}function sc(e,t,n,r,i){n=n.render;var a=t.ref;if(`ref`in r){var o={};for(var s in r)s!==`ref`&&(o[s]=r[s])}else o=r;return $i(t),r=wo(e,t,n,o,a,i),s=Oo(),e!==null&&!ac?(ko(e,t,i),jc(e,t,i)):(B&&s&&ki(t),t.flags|=1,oc(e,t,r,i),t.child)}function cc(e,t,n,r,i){if(e===null){var a=n.type;return typeof a==`function`&&!ci(a)&&a.defaultProps===void 0&&n.compare===null?(t.tag=15,t.type=a,lc(e,t,a,r,i)):(e=di(n.type,null,r,t,t.mode,i),e.ref=t.ref,e.return=t,t.child=e)}if(a=e.child,!Mc(e,i)){var o=a.memoizedProps;if(n=n.compare,n=n===null?Sr:n,n(o,r)&&e.ref===t.ref)return jc(e,t,i)}return t.flags|=1,e=li(a,r),e.ref=t.ref,e.return=t,t.child=e}function lc(e,t,n,r,i){if(e!==null){var a=e.memoizedProps;if(Sr(a,r)&&e.ref===t.ref)if(ac=!1,t.pendingProps=r=a,Mc(e,i))e.flags&131072&&(ac=!0);else return t.lanes=e.lanes,jc(e,t,i)}return _c(e,t,n,r,i)}function uc(e,t,n,r){var i=r.children,a=e===null?null:e.memoizedState;if(e===null&&t.stateNode===null&&(t.stateNode={_visibility:1,_pendingMarkers:null,_retryCache:null,_transitions:null}),r.mode===`hidden`){if(t.flags&128){if(a=a===null?n:a.baseLanes|n,e!==null){for(r=t.child=e.child,i=0;r!==null;)i=i|r.lanes|r.childLanes,r=r.sibling;r=i&~a}else r=0,t.child=null;return fc(e,t,a,n,r)}if(n&536870912)t.memoizedState={baseLanes:0,cachePool:null},e!==null&&ya(t,a===null?null:a.cachePool),a===null?eo():$a(t,a),oo(t);else return r=t.lanes=536870912,fc(e,t,a===null?n:a.baseLanes|n,n,r)}else a===null?(e!==null&&ya(t,null),eo(),so(t)):(ya(t,a.cachePool),$a(t,a),so(t),t.memoizedState=null);return oc(e,t,i,n),t.child}function dc(e,t){return e!==null&&e.tag===22||t.stateNode!==null||(t.stateNode={_visibility:1,_pendingMarkers:null,_retryCache:null,_transitions:null}),t.sibling}function fc(e,t,n,r,i){var a=va();return a=a===null?null:{parent:oa._currentValue,pool:a},t.memoizedState={baseLanes:n,cachePool:a},e!==null&&ya(t,null),eo(),oo(t),e!==null&&Zi(e,t,r,!0),t.childLanes=i,null}function pc(e,t){return t=Ec({mode:t.mode,children:t.children},e.mode),t.ref=e.ref,e.child=t,t.return=e,t}function mc(e,t,n){return La(t,e.child,null,n),e=pc(t,t.pendingProps),e.flags|=2,co(t),t.memoizedState=null,e}function hc(e,t,n){var r=t.pendingProps,a=(t.flags&128)!=0;if(t.flags&=-129,e===null){if(B){if(r.mode===`hidden`)return e=pc(t,r),t.lanes=536870912,dc(null,e);if(ao(t),(e=Ni)?(e=rf(e,Fi),e=e!==null&&e.data===`&`?e:null,e!==null&&(t.memoizedState={dehydrated:e,treeContext:wi===null?null:{id:Ti,overflow:Ei},retryLane:536870912,hydrationErrors:null},n=mi(e),n.return=t,t.child=n,Mi=t,Ni=null)):e=null,e===null)throw Li(t);return t.lanes=536870912,null}return pc(t,r)}var o=e.memoizedState;if(o!==null){var s=o.dehydrated;if(ao(t),a)if(t.flags&256)t.flags&=-257,t=mc(e,t,n);else if(t.memoizedState!==null)t.child=e.child,t.flags|=128,t=null;else throw Error(i(558));else if(ac||Zi(e,t,n,!1),a=(n&e.childLanes)!==0,ac||a){if(r=Ul,r!==null&&(s=$e(r,n),s!==0&&s!==o.retryLane))throw o.retryLane=s,ni(e,s),bu(r,e,s),ic;Mu(),t=mc(e,t,n)}else e=o.treeContext,Ni=cf(s.nextSibling),Mi=t,B=!0,Pi=null,Fi=!1,e!==null&&ji(t,e),t=pc(t,r),t.flags|=4096;return t}return e=li(e.child,{mode:r.mode,children:r.children}),e.ref=t.ref,t.child=e,e.return=t,e}function gc(e,t){var n=t.ref;if(n===null)e!==null&&e.ref!==null&&(t.flags|=4194816);else{if(typeof n!=`function`&&typeof n!=`object`)throw Error(i(284));(e===null||e.ref!==n)&&(t.flags|=4194816)}}function _c(e,t,n,r,i){return $i(t),n=wo(e,t,n,r,void 0,i),r=Oo(),e!==null&&!ac?(ko(e,t,i),jc(e,t,i)):(B&&r&&ki(t),t.flags|=1,oc(e,t,n,i),t.child)}function vc(e,t,n,r,i,a){return $i(t),t.updateQueue=null,n=Eo(t,r,n,i),To(e),r=Oo(),e!==null&&!ac?(ko(e,t,a),jc(e,t,a)):(B&&r&&ki(t),t.flags|=1,oc(e,t,n,a),t.child)}function yc(e,t,n,r,i){if($i(t),t.stateNode===null){var a=ai,o=n.contextType;typeof o==`object`&&o&&(a=ea(o)),a=new n(r,a),t.memoizedState=a.state!==null&&a.state!==void 0?a.state:null,a.updater=Gs,t.stateNode=a,a._reactInternals=t,a=t.stateNode,a.props=r,a.state=t.memoizedState,a.refs={},Ba(t),o=n.contextType,a.context=typeof o==`object`&&o?ea(o):ai,a.state=t.memoizedState,o=n.getDerivedStateFromProps,typeof o==`function`&&(Ws(t,n,o,r),a.state=t.memoizedState),typeof n.getDerivedStateFromProps==`function`||typeof a.getSnapshotBeforeUpdate==`function`||typeof a.UNSAFE_componentWillMount!=`function`&&typeof a.componentWillMount!=`function`||(o=a.state,typeof a.componentWillMount==`function`&&a.componentWillMount(),typeof a.UNSAFE_componentWillMount==`function`&&a.UNSAFE_componentWillMount(),o!==a.state&&Gs.enqueueReplaceState(a,a.state,null),Ja(t,r,a,i),qa(),a.state=t.memoizedState),typeof a.componentDidMount==`function`&&(t.flags|=4194308),r=!0}else if(e===null){a=t.stateNode;var s=t.memoizedProps,c=Js(n,s);a.props=c;var l=a.context,u=n.contextType;o=ai,typeof u==`object`&&u&&(o=ea(u));var d=n.getDerivedStateFromProps;u=typeof d==`function`||typeof a.getSnapshotBeforeUpdate==`function`,s=t.pendingProps!==s,u||typeof a.UNSAFE_componentWillReceiveProps!=`function`&&typeof a.componentWillReceiveProps!=`function`||(s||l!==o)&&qs(t,a,r,o),za=!1;var f=t.memoizedState;a.state=f,Ja(t,r,a,i),qa(),l=t.memoizedState,s||f!==l||za?(typeof d==`function`&&(Ws(t,n,d,r),l=t.memoizedState),(c=za||Ks(t,n,c,r,f,l,o))?(u||typeof a.UNSAFE_componentWillMount!=`function`&&typeof a.componentWillMount!=`function`||(typeof a.componentWillMount==`function`&&a.componentWillMount(),typeof a.UNSAFE_componentWillMount==`function`&&a.UNSAFE_componentWillMount()),typeof a.componentDidMount==`function`&&(t.flags|=4194308)):(typeof a.componentDidMount==`function`&&(t.flags|=4194308),t.memoizedProps=r,t.memoizedState=l),a.props=r,a.state=l,a.context=o,r=c):(typeof a.componentDidMount==`function`&&(t.flags|=4194308),r=!1)}else{a=t.stateNode,Va(e,t),o=t.memoizedProps,u=Js(n,o),a.props=u,d=t.pendingProps,f=a.context,l=n.contextType,c=ai,typeof l==`object`&&l&&(c=ea(l)),s=n.getDerivedStateFromProps,(l=typeof s==`function`||typeof a.getSnapshotBeforeUpdate==`function`)||typeof a.UNSAFE_componentWillReceiveProps!=`function`&&typeof a.componentWillReceiveProps!=`function`||(o!==d||f!==c)&&qs(t,a,r,c),za=!1,f=t.memoizedState,a.state=f,Ja(t,r,a,i),qa();var p=t.memoizedState;o!==d||f!==p||za||e!==null&&e.dependencies!==null&&Qi(e.dependencies)?(typeof s==`function`&&(Ws(t,n,s,r),p=t.memoizedState),(u=za||Ks(t,n,u,r,f,p,c)||e!==null&&e.dependencies!==null&&Qi(e.dependencies))?(l||typeof a.UNSAFE_componentWillUpdate!=`function`&&typeof a.componentWillUpdate!=`function`||(typeof a.componentWillUpdate==`function`&&a.componentWillUpdate(r,p,c),typeof a.UNSAFE_componentWillUpdate==`function`&&a.UNSAFE_componentWillUpdate(r,p,c)),typeof a.componentDidUpdate==`function`&&(t.flags|=4),typeof a.getSnapshotBeforeUpdate==`function`&&(t.flags|=1024)):(typeof a.componentDidUpdate!=`function`||o===e.memoizedProps&&f===e.memoizedState||(t.flags|=4),typeof a.getSnapshotBeforeUpdate!=`function`||o===e.memoizedProps&&f===e.memoizedState||(t.flags|=1024),t.memoizedProps=r,t.memoizedState=p),a.props=r,a.state=p,a.context=c,r=u):(typeof a.componentDidUpdate!=`function`||o===e.memoizedProps&&f===e.memoizedState||(t.flags|=4),typeof a.getSnapshotBeforeUpdate!=`function`||o===e.memoizedProps&&f===e.memoizedState||(t.flags|=1024),r=!1)}return a=r,gc(e,t),r=(t.flags&128)!=0,a||r?(a=t.stateNode,n=r&&typeof n.getDerivedStateFromError!=`function`?null:a.render(),t.flags|=1,e!==null&&r?(t.child=La(t,e.child,null,i),t.child=La(t,null,n,i)):oc(e,t,n,i),t.memoizedState=a.state,e=t.child):e=jc(e,t,i),e}function bc(e,t,n,r){return Vi(),t.flags|=256,oc(e,t,n,r),t.child}var xc={dehydrated:null,treeContext:null,retryLane:0,hydrationErrors:null};function Sc(e){return{baseLanes:e,cachePool:ba()}}function Cc(e,t,n){return e=e===null?0:e.childLanes&~n,t&&(e|=$l),e}function wc(e,t,n){var r=t.pendingProps,a=!1,o=(t.flags&128)!=0,s;if((s=o)||(s=e!==null&&e.memoizedState===null?!1:(lo.current&2)!=0),s&&(a=!0,t.flags&=-129),s=(t.flags&32)!=0,t.flags&=-33,e===null){if(B){if(a?io(t):so(t),(e=Ni)?(e=rf(e,Fi),e=e!==null&&e.data!==`&`?e:null,e!==null&&(t.memoizedState={dehydrated:e,treeContext:wi===null?null:{id:Ti,overflow:Ei},retryLane:536870912,hydrationErrors:null},n=mi(e),n.return=t,t.child=n,Mi=t,Ni=null)):e=null,e===null)throw Li(t);return of(e)?t.lanes=32:t.lanes=536870912,null}var c=r.children;return r=r.fallback,a?(so(t),a=t.mode,c=Ec({mode:`hidden`,children:c},a),r=fi(r,a,n,null),c.return=t,r.return=t,c.sibling=r,t.child=c,r=t.child,r.memoizedState=Sc(n),r.childLanes=Cc(e,s,n),t.memoizedState=xc,dc(null,r)):(io(t),Tc(t,c))}var l=e.memoizedState;if(l!==null&&(c=l.dehydrated,c!==null)){if(o)t.flags&256?(io(t),t.flags&=-257,t=Dc(e,t,n)):t.memoizedState===null?(so(t),c=r.fallback,a=t.mode,r=Ec({mode:`visible`,children:r.children},a),c=fi(c,a,n,null),c.flags|=2,r.return=t,c.return=t,r.sibling=c,t.child=r,La(t,e.child,null,n),r=t.child,r.memoizedState=Sc(n),r.childLanes=Cc(e,s,n),t.memoizedState=xc,t=dc(null,r)):(so(t),t.child=e.child,t.flags|=128,t=null);else if(io(t),of(c)){if(s=c.nextSibling&&c.nextSibling.dataset,s)var u=s.dgst;s=u,r=Error(i(419)),r.stack=``,r.digest=s,Ui({value:r,source:null,stack:null}),t=Dc(e,t,n)}else if(ac||Zi(e,t,n,!1),s=(n&e.childLanes)!==0,ac||s){if(s=Ul,s!==null&&(r=$e(s,n),r!==0&&r!==l.retryLane))throw l.retryLane=r,ni(e,r),bu(s,e,r),ic;af(c)||Mu(),t=Dc(e,t,n)}else af(c)?(t.flags|=192,t.child=e.child,t=null):(e=l.treeContext,Ni=cf(c.nextSibling),Mi=t,B=!0,Pi=null,Fi=!1,e!==null&&ji(t,e),t=Tc(t,r.children),t.flags|=4096);return t}return a?(so(t),c=r.fallback,a=t.mode,l=e.child,u=l.sibling,r=li(l,{mode:`hidden`,children:r.children}),r.subtreeFlags=l.subtreeFlags&65011712,u===null?(c=fi(c,a,n,null),c.flags|=2):c=li(u,c),c.return=t,r.return=t,r.sibling=c,t.child=r,dc(null,r),r=t.child,c=e.child.memoizedState,c===null?c=Sc(n):(a=c.cachePool,a===null?a=ba():(l=oa._currentValue,a=a.parent===l?a:{parent:l,pool:l}),c={baseLanes:c.baseLanes|n,cachePool:a}),r.memoizedState=c,r.childLanes=Cc(e,s,n),t.memoizedState=xc,dc(e.child,r)):(io(t),n=e.child,e=n.sibling,n=li(n,{mode:`visible`,children:r.children}),n.return=t,n.sibling=null,e!==null&&(s=t.deletions,s===null?(t.deletions=[e],t.flags|=16):s.push(e)),t.child=n,t.memoizedState=null,n)}function Tc(e,t){return t=Ec({mode:`visible`,children:t},e.mode),t.return=e,e.child=t}function Ec(e,t){return e=si(22,e,null,t),e.lanes=0,e}function Dc(e,t,n){return La(t,e.child,null,n),e=Tc(t,t.pendingProps.children),e.flags|=2,t.memoizedState=null,e}function Oc(e,t,n){e.lanes|=t;var r=e.alternate;r!==null&&(r.lanes|=t),Yi(e.return,t,n)}function kc(e,t,n,r,i,a){var o=e.memoizedState;o===null?e.memoizedState={isBackwards:t,rendering:null,renderingStartTime:0,last:r,tail:n,tailMode:i,treeForkCount:a}:(o.isBackwards=t,o.rendering=null,o.renderingStartTime=0,o.last=r,o.tail=n,o.tailMode=i,o.treeForkCount=a)}function Ac(e,t,n){var r=t.pendingProps,i=r.revealOrder,a=r.tail;r=r.children;var o=lo.current,s=(o&2)!=0;if(s?(o=o&1|2,t.flags|=128):o&=1,I(lo,o),oc(e,t,r,n),r=B?xi:0,!s&&e!==null&&e.flags&128)a:for(e=t.child;e!==null;){if(e.tag===13)e.memoizedState!==null&&Oc(e,n,t);else if(e.tag===19)Oc(e,n,t);else if(e.child!==null){e.child.return=e,e=e.child;continue}if(e===t)break a;for(;e.sibling===null;){if(e.return===null||e.return===t)break a;e=e.return}e.sibling.return=e.return,e=e.sibling}switch(i){case`forwards`:for(n=t.child,i=null;n!==null;)e=n.alternate,e!==null&&uo(e)===null&&(i=n),n=n.sibling;n=i,n===null?(i=t.child,t.child=null):(i=n.sibling,n.sibling=null),kc(t,!1,i,n,a,r);break;case`backwards`:case`unstable_legacy-backwards`:for(n=null,i=t.child,t.child=null;i!==null;){if(e=i.alternate,e!==null&&uo(e)===null){t.child=i;break}e=i.sibling,i.sibling=n,n=i,i=e}kc(t,!0,n,null,a,r);break;case`together`:kc(t,!1,null,null,void 0,r);break;default:t.memoizedState=null}return t.child}function jc(e,t,n){if(e!==null&&(t.dependencies=e.dependencies),Xl|=t.lanes,(n&t.childLanes)===0)if(e!==null){if(Zi(e,t,n,!1),(n&t.childLanes)===0)return null}else return null;if(e!==null&&t.child!==e.child)throw Error(i(153));if(t.child!==null){for(e=t.child,n=li(e,e.pendingProps),t.child=n,n.return=t;e.sibling!==null;)e=e.sibling,n=n.sibling=li(e,e.pendingProps),n.return=t;n.sibling=null}return t.child}function Mc(e,t){return(e.lanes&t)===0?(e=e.dependencies,!!(e!==null&&Qi(e))):!0}function Nc(e,t,n){switch(t.tag){case 3:de(t,t.stateNode.containerInfo),qi(t,oa,e.memoizedState.cache),Vi();break;case 27:case 5:pe(t);break;case 4:de(t,t.stateNode.containerInfo);break;case 10:qi(t,t.type,t.memoizedProps.value);break;case 31:if(t.memoizedState!==null)return t.flags|=128,ao(t),null;break;case 13:var r=t.memoizedState;if(r!==null)return r.dehydrated===null?(n&t.child.childLanes)===0?(io(t),e=jc(e,t,n),e===null?null:e.sibling):wc(e,t,n):(io(t),t.flags|=128,null);io(t);break;case 19:var i=(e.flags&128)!=0;if(r=(n&t.childLanes)!==0,r||=(Zi(e,t,n,!1),(n&t.childLanes)!==0),i){if(r)return Ac(e,t,n);t.flags|=128}if(i=t.memoizedState,i!==null&&(i.rendering=null,i.tail=null,i.lastEffect=null),I(lo,lo.current),r)break;return null;case 22:return t.lanes=0,uc(e,t,n,t.pendingProps);case 24:qi(t,oa,e.memoizedState.cache)}return jc(e,t,n)}function Pc(e,t,n){if(e!==null)if(e.memoizedProps!==t.pendingProps)ac=!0;else{if(!Mc(e,n)&&!(t.flags&128))return ac=!1,Nc(e,t,n);ac=!!(e.flags&131072)}else ac=!1,B&&t.flags&1048576&&Oi(t,xi,t.index);switch(t.lanes=0,t.tag){case 16:a:{var r=t.pendingProps;if(e=Da(t.elementType),t.type=e,typeof e==`function`)ci(e)?(r=Js(e,r),t.tag=1,t=yc(null,t,e,r,n)):(t.tag=0,t=_c(null,t,e,r,n));else{if(e!=null){var a=e.$$typeof;if(a===w){t.tag=11,t=sc(null,t,e,r,n);break a}else if(a===D){t.tag=14,t=cc(null,t,e,r,n);break a}}throw t=te(e)||e,Error(i(306,t,``))}}return t;case 0:return _c(e,t,t.type,t.pendingProps,n);case 1:return r=t.type,a=Js(r,t.pendingProps),yc(e,t,r,a,n);case 3:a:{if(de(t,t.stateNode.containerInfo),e===null)throw Error(i(387));r=t.pendingProps;var o=t.memoizedState;a=o.element,Va(e,t),Ja(t,r,null,n);var s=t.memoizedState;if(r=s.cache,qi(t,oa,r),r!==o.cache&&Xi(t,[oa],n,!0),qa(),r=s.element,o.isDehydrated)if(o={element:r,isDehydrated:!1,cache:s.cache},t.updateQueue.baseState=o,t.memoizedState=o,t.flags&256){t=bc(e,t,r,n);break a}else if(r!==a){a=_i(Error(i(424)),t),Ui(a),t=bc(e,t,r,n);break a}else{switch(e=t.stateNode.containerInfo,e.nodeType){case 9:e=e.body;break;default:e=e.nodeName===`HTML`?e.ownerDocument.body:e}for(Ni=cf(e.firstChild),Mi=t,B=!0,Pi=null,Fi=!0,n=Ra(t,null,r,n),t.child=n;n;)n.flags=n.flags&-3|4096,n=n.sibling}else{if(Vi(),r===a){t=jc(e,t,n);break a}oc(e,t,r,n)}t=t.child}return t;case 26:return gc(e,t),e===null?(n=kf(t.type,null,t.pendingProps,null))?t.memoizedState=n:B||(n=t.type,e=t.pendingProps,r=Bd(le.current).createElement(n),r[at]=t,r[ot]=e,Pd(r,n,e),vt(r),t.stateNode=r):t.memoizedState=kf(t.type,e.memoizedProps,t.pendingProps,e.memoizedState),null;case 27:return pe(t),e===null&&B&&(r=t.stateNode=ff(t.type,t.pendingProps,le.current),Mi=t,Fi=!0,a=Ni,Zd(t.type)?(lf=a,Ni=cf(r.firstChild)):Ni=a),oc(e,t,t.pendingProps.children,n),gc(e,t),e===null&&(t.flags|=4194304),t.child;case 5:return e===null&&B&&((a=r=Ni)&&(r=tf(r,t.type,t.pendingProps,Fi),r===null?a=!1:(t.stateNode=r,Mi=t,Ni=cf(r.firstChild),Fi=!1,a=!0)),a||Li(t)),pe(t),a=t.type,o=t.pendingProps,s=e===null?null:e.memoizedProps,r=o.children,Ud(a,o)?r=null:s!==null&&Ud(a,s)&&(t.flags|=32),t.memoizedState!==null&&(a=wo(e,t,Do,null,null,n),Qf._currentValue=a),gc(e,t),oc(e,t,r,n),t.child;case 6:return e===null&&B&&((e=n=Ni)&&(n=nf(n,t.pendingProps,Fi),n===null?e=!1:(t.stateNode=n,Mi=t,Ni=null,e=!0)),e||Li(t)),null;case 13:return wc(e,t,n);case 4:return de(t,t.stateNode.containerInfo),r=t.pendingProps,e===null?t.child=La(t,null,r,n):oc(e,t,r,n),t.child;case 11:return sc(e,t,t.type,t.pendingProps,n);case 7:return oc(e,t,t.pendingProps,n),t.child;case 8:return oc(e,t,t.pendingProps.children,n),t.child;case 12:return oc(e,t,t.pendingProps.children,n),t.child;case 10:return r=t.pendingProps,qi(t,t.type,r.value),oc(e,t,r.children,n),t.child;case 9:return a=t.type._context,r=t.pendingProps.children,$i(t),a=ea(a),r=r(a),t.flags|=1,oc(e,t,r,n),t.child;case 14:return cc(e,t,t.type,t.pendingProps,n);case 15:return lc(e,t,t.type,t.pendingProps,n);case 19:return Ac(e,t,n);case 31:return hc(e,t,n);case 22:return uc(e,t,n,t.pendingProps);case 24:return $i(t),r=ea(oa),e===null?(a=va(),a===null&&(a=Ul,o=sa(),a.pooledCache=o,o.refCount++,o!==null&&(a.pooledCacheLanes|=n),a=o),t.memoizedState={parent:r,cache:a},Ba(t),qi(t,oa,a)):((e.lanes&n)!==0&&(Va(e,t),Ja(t,null,null,n),qa()),a=e.memoizedState,o=t.memoizedState,a.parent===r?(r=o.cache,qi(t,oa,r),r!==a.cache&&Xi(t,[oa],n,!0)):(a={parent:r,cache:r},t.memoizedState=a,t.lanes===0&&(t.memoizedState=t.updateQueue.baseState=a),qi(t,oa,r))),oc(e,t,t.pendingProps.children,n),t.child;case 29:throw t.pendingProps}throw Error(i(156,t.tag))}function Fc(e){e.flags|=4}function Ic(e,t,n,r,i){if((t=(e.mode&32)!=0)&&(t=!1),t){if(e.flags|=16777216,(i&335544128)===i)if(e.stateNode.complete)e.flags|=8192;else if(ku())e.flags|=8192;else throw Oa=wa,Sa}else e.flags&=-16777217}function Lc(e,t){if(t.type!==`stylesheet`||t.state.loading&4)e.flags&=-16777217;else if(e.flags|=16777216,!Wf(t))if(ku())e.flags|=8192;else throw Oa=wa,Sa}function Rc(e,t){t!==null&&(e.flags|=4),e.flags&16384&&(t=e.tag===22?536870912:qe(),e.lanes|=t,eu|=t)}function zc(e,t){if(!B)switch(e.tailMode){case`hidden`:t=e.tail;for(var n=null;t!==null;)t.alternate!==null&&(n=t),t=t.sibling;n===null?e.tail=null:n.sibling=null;break;case`collapsed`:n=e.tail;for(var r=null;n!==null;)n.alternate!==null&&(r=n),n=n.sibling;r===null?t||e.tail===null?e.tail=null:e.tail.sibling=null:r.sibling=null}}function Bc(e){var t=e.alternate!==null&&e.alternate.child===e.child,n=0,r=0;if(t)for(var i=e.child;i!==null;)n|=i.lanes|i.childLanes,r|=i.subtreeFlags&65011712,r|=i.flags&65011712,i.return=e,i=i.sibling;else for(i=e.child;i!==null;)n|=i.lanes|i.childLanes,r|=i.subtreeFlags,r|=i.flags,i.return=e,i=i.sibling;return e.subtreeFlags|=r,e.childLanes=n,t}function Vc(e,t,n){var r=t.pendingProps;switch(Ai(t),t.tag){case 16:case 15:case 0:case 11:case 7:case 8:case 12:case 9:case 14:return Bc(t),null;case 1:return Bc(t),null;case 3:return n=t.stateNode,r=null,e!==null&&(r=e.memoizedState.cache),t.memoizedState.cache!==r&&(t.flags|=2048),Ji(oa),fe(),n.pendingContext&&(n.context=n.pendingContext,n.pendingContext=null),(e===null||e.child===null)&&(Bi(t)?Fc(t):e===null||e.memoizedState.isDehydrated&&!(t.flags&256)||(t.flags|=1024,Hi())),Bc(t),null;case 26:var a=t.type,o=t.memoizedState;return e===null?(Fc(t),o===null?(Bc(t),Ic(t,a,null,r,n)):(Bc(t),Lc(t,o))):o?o===e.memoizedState?(Bc(t),t.flags&=-16777217):(Fc(t),Bc(t),Lc(t,o)):(e=e.memoizedProps,e!==r&&Fc(t),Bc(t),Ic(t,a,e,r,n)),null;case 27:if(me(t),n=le.current,a=t.type,e!==null&&t.stateNode!=null)e.memoizedProps!==r&&Fc(t);else{if(!r){if(t.stateNode===null)throw Error(i(166));return Bc(t),null}e=se.current,Bi(t)?Ri(t,e):(e=ff(a,r,n),t.stateNode=e,Fc(t))}return Bc(t),null;case 5:if(me(t),a=t.type,e!==null&&t.stateNode!=null)e.memoizedProps!==r&&Fc(t);else{if(!r){if(t.stateNode===null)throw Error(i(166));return Bc(t),null}if(o=se.current,Bi(t))Ri(t,o);else{var s=Bd(le.current);switch(o){case 1:o=s.createElementNS(`http://www.w3.org/2000/svg`,a);break;case 2:o=s.createElementNS(`http://www.w3.org/1998/Math/MathML`,a);break;default:switch(a){case`svg`:o=s.createElementNS(`http://www.w3.org/2000/svg`,a);break;case`math`:o=s.createElementNS(`http://www.w3.org/1998/Math/MathML`,a);break;case`script`:o=s.createElement(`div`),o.innerHTML=`<script><\/script>`,o=o.removeChild(o.firstChild);break;case`select`:o=typeof r.is==`string`?s.createElement(`select`,{is:r.is}):s.createElement(`select`),r.multiple?o.multiple=!0:r.size&&(o.size=r.size);break;default:o=typeof r.is==`string`?s.createElement(a,{is:r.is}):s.createElement(a)}}o[at]=t,o[ot]=r;a:for(s=t.child;s!==null;){if(s.tag===5||s.tag===6)o.appendChild(s.stateNode);else if(s.tag!==4&&s.tag!==27&&s.child!==null){s.child.return=s,s=s.child;continue}if(s===t)break a;for(;s.sibling===null;){if(s.return===null||s.return===t)break a;s=s.return}s.sibling.return=s.return,s=s.sibling}t.stateNode=o;a:switch(Pd(o,a,r),a){case`button`:case`input`:case`select`:case`textarea`:r=!!r.autoFocus;break a;case`img`:r=!0;break a;default:r=!1}r&&Fc(t)}}return Bc(t),Ic(t,t.type,e===null?null:e.memoizedProps,t.pendingProps,n),null;case 6:if(e&&t.stateNode!=null)e.memoizedProps!==r&&Fc(t);else{if(typeof r!=`string`&&t.stateNode===null)throw Error(i(166));if(e=le.current,Bi(t)){if(e=t.stateNode,n=t.memoizedProps,r=null,a=Mi,a!==null)switch(a.tag){case 27:case 5:r=a.memoizedProps}e[at]=t,e=!!(e.nodeValue===n||r!==null&&!0===r.suppressHydrationWarning||Md(e.nodeValue,n)),e||Li(t,!0)}else e=Bd(e).createTextNode(r),e[at]=t,t.stateNode=e}return Bc(t),null;case 31:if(n=t.memoizedState,e===null||e.memoizedState!==null){if(r=Bi(t),n!==null){if(e===null){if(!r)throw Error(i(318));if(e=t.memoizedState,e=e===null?null:e.dehydrated,!e)throw Error(i(557));e[at]=t}else Vi(),!(t.flags&128)&&(t.memoizedState=null),t.flags|=4;Bc(t),e=!1}else n=Hi(),e!==null&&e.memoizedState!==null&&(e.memoizedState.hydrationErrors=n),e=!0;if(!e)return t.flags&256?(co(t),t):(co(t),null);if(t.flags&128)throw Error(i(558))}return Bc(t),null;case 13:if(r=t.memoizedState,e===null||e.memoizedState!==null&&e.memoizedState.dehydrated!==null){if(a=Bi(t),r!==null&&r.dehydrated!==null){if(e===null){if(!a)throw Error(i(318));if(a=t.memoizedState,a=a===null?null:a.dehydrated,!a)throw Error(i(317));a[at]=t}else Vi(),!(t.flags&128)&&(t.memoizedState=null),t.flags|=4;Bc(t),a=!1}else a=Hi(),e!==null&&e.memoizedState!==null&&(e.memoizedState.hydrationErrors=a),a=!0;if(!a)return t.flags&256?(co(t),t):(co(t),null)}return co(t),t.flags&128?(t.lanes=n,t):(n=r!==null,e=e!==null&&e.memoizedState!==null,n&&(r=t.child,a=null,r.alternate!==null&&r.alternate.memoizedState!==null&&r.alternate.memoizedState.cachePool!==null&&(a=r.alternate.memoizedState.cachePool.pool),o=null,r.memoizedState!==null&&r.memoizedState.cachePool!==null&&(o=r.memoizedState.cachePool.pool),o!==a&&(r.flags|=2048)),n!==e&&n&&(t.child.flags|=8192),Rc(t,t.updateQueue),Bc(t),null);case 4:return fe(),e===null&&Cd(t.stateNode.containerInfo),Bc(t),null;case 10:return Ji(t.type),Bc(t),null;case 19:if(F(lo),r=t.memoizedState,r===null)return Bc(t),null;if(a=(t.flags&128)!=0,o=r.rendering,o===null)if(a)zc(r,!1);else{if(Yl!==0||e!==null&&e.flags&128)for(e=t.child;e!==null;){if(o=uo(e),o!==null){for(t.flags|=128,zc(r,!1),e=o.updateQueue,t.updateQueue=e,Rc(t,e),t.subtreeFlags=0,e=n,n=t.child;n!==null;)ui(n,e),n=n.sibling;return I(lo,lo.current&1|2),B&&Di(t,r.treeForkCount),t.child}e=e.sibling}r.tail!==null&&Ee()>ou&&(t.flags|=128,a=!0,zc(r,!1),t.lanes=4194304)}else{if(!a)if(e=uo(o),e!==null){if(t.flags|=128,a=!0,e=e.updateQueue,t.updateQueue=e,Rc(t,e),zc(r,!0),r.tail===null&&r.tailMode===`hidden`&&!o.alternate&&!B)return Bc(t),null}else 2*Ee()-r.renderingStartTime>ou&&n!==536870912&&(t.flags|=128,a=!0,zc(r,!1),t.lanes=4194304);r.isBackwards?(o.sibling=t.child,t.child=o):(e=r.last,e===null?t.child=o:e.sibling=o,r.last=o)}return r.tail===null?(Bc(t),null):(e=r.tail,r.rendering=e,r.tail=e.sibling,r.renderingStartTime=Ee(),e.sibling=null,n=lo.current,I(lo,a?n&1|2:n&1),B&&Di(t,r.treeForkCount),e);case 22:case 23:return co(t),to(),r=t.memoizedState!==null,e===null?r&&(t.flags|=8192):e.memoizedState!==null!==r&&(t.flags|=8192),r?n&536870912&&!(t.flags&128)&&(Bc(t),t.subtreeFlags&6&&(t.flags|=8192)):Bc(t),n=t.updateQueue,n!==null&&Rc(t,n.retryQueue),n=null,e!==null&&e.memoizedState!==null&&e.memoizedState.cachePool!==null&&(n=e.memoizedState.cachePool.pool),r=null,t.memoizedState!==null&&t.memoizedState.cachePool!==null&&(r=t.memoizedState.cachePool.pool),r!==n&&(t.flags|=2048),e!==null&&F(_a),null;case 24:return n=null,e!==null&&(n=e.memoizedState.cache),t.memoizedState.cache!==n&&(t.flags|=2048),Ji(oa),Bc(t),null;case 25:return null;case 30:return null}throw Error(i(156,t.tag))}function Hc(e,t){switch(Ai(t),t.tag){case 1:return e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 3:return Ji(oa),fe(),e=t.flags,e&65536&&!(e&128)?(t.flags=e&-65537|128,t):null;case 26:case 27:case 5:return me(t),null;case 31:if(t.memoizedState!==null){if(co(t),t.alternate===null)throw Error(i(340));Vi()}return e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 13:if(co(t),e=t.memoizedState,e!==null&&e.dehydrated!==null){if(t.alternate===null)throw Error(i(340));Vi()}return e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 19:return F(lo),null;case 4:return fe(),null;case 10:return Ji(t.type),null;case 22:case 23:return co(t),to(),e!==null&&F(_a),e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 24:return Ji(oa),null;case 25:return null;default:return null}}function Uc(e,t){switch(Ai(t),t.tag){case 3:Ji(oa),fe();break;case 26:case 27:case 5:me(t);break;case 4:fe();break;case 31:t.memoizedState!==null&&co(t);break;case 13:co(t);break;case 19:F(lo);break;case 10:Ji(t.type);break;case 22:case 23:co(t),to(),e!==null&&F(_a);break;case 24:Ji(oa)}}function Wc(e,t){try{var n=t.updateQueue,r=n===null?null:n.lastEffect;if(r!==null){var i=r.next;n=i;do{if((n.tag&e)===e){r=void 0;var a=n.create,o=n.inst;r=a(),o.destroy=r}n=n.next}while(n!==i)}}catch(e){q(t,t.return,e)}}function Gc(e,t,n){try{var r=t.updateQueue,i=r===null?null:r.lastEffect;if(i!==null){var a=i.next;r=a;do{if((r.tag&e)===e){var o=r.inst,s=o.destroy;if(s!==void 0){o.destroy=void 0,i=t;var c=n,l=s;try{l()}catch(e){q(i,c,e)}}}r=r.next}while(r!==a)}}catch(e){q(t,t.return,e)}}function Kc(e){var t=e.updateQueue;if(t!==null){var n=e.stateNode;try{Xa(t,n)}catch(t){q(e,e.return,t)}}}function qc(e,t,n){n.props=Js(e.type,e.memoizedProps),n.state=e.memoizedState;try{n.componentWillUnmount()}catch(n){q(e,t,n)}}function Jc(e,t){try{var n=e.ref;if(n!==null){switch(e.tag){case 26:case 27:case 5:var r=e.stateNode;break;case 30:r=e.stateNode;break;default:r=e.stateNode}typeof n==`function`?e.refCleanup=n(r):n.current=r}}catch(n){q(e,t,n)}}function Yc(e,t){var n=e.ref,r=e.refCleanup;if(n!==null)if(typeof r==`function`)try{r()}catch(n){q(e,t,n)}finally{e.refCleanup=null,e=e.alternate,e!=null&&(e.refCleanup=null)}else if(typeof n==`function`)try{n(null)}catch(n){q(e,t,n)}else n.current=null}function Xc(e){var t=e.type,n=e.memoizedProps,r=e.stateNode;try{a:switch(t){case`button`:case`input`:case`select`:case`textarea`:n.autoFocus&&r.focus();break a;case`img`:n.src?r.src=n.src:n.srcSet&&(r.srcset=n.srcSet)}}catch(t){q(e,e.return,t)}}function Zc(e,t,n){try{var r=e.stateNode;Fd(r,e.type,n,t),r[ot]=t}catch(t){q(e,e.return,t)}}function Qc(e){return e.tag===5||e.tag===3||e.tag===26||e.tag===27&&Zd(e.type)||e.tag===4}function $c(e){a:for(;;){for(;e.sibling===null;){if(e.return===null||Qc(e.return))return null;e=e.return}for(e.sibling.return=e.return,e=e.sibling;e.tag!==5&&e.tag!==6&&e.tag!==18;){if(e.tag===27&&Zd(e.type)||e.flags&2||e.child===null||e.tag===4)continue a;e.child.return=e,e=e.child}if(!(e.flags&2))return e.stateNode}}function el(e,t,n){var r=e.tag;if(r===5||r===6)e=e.stateNode,t?(n.nodeType===9?n.body:n.nodeName===`HTML`?n.ownerDocument.body:n).insertBefore(e,t):(t=n.nodeType===9?n.body:n.nodeName===`HTML`?n.ownerDocument.body:n,t.appendChild(e),n=n._reactRootContainer,n!=null||t.onclick!==null||(t.onclick=Qt));else if(r!==4&&(r===27&&Zd(e.type)&&(n=e.stateNode,t=null),e=e.child,e!==null))for(el(e,t,n),e=e.sibling;e!==null;)el(e,t,n),e=e.sibling}function tl(e,t,n){var r=e.tag;if(r===5||r===6)e=e.stateNode,t?n.insertBefore(e,t):n.appendChild(e);else if(r!==4&&(r===27&&Zd(e.type)&&(n=e.stateNode),e=e.child,e!==null))for(tl(e,t,n),e=e.sibling;e!==null;)tl(e,t,n),e=e.sibling}function nl(e){var t=e.stateNode,n=e.memoizedProps;try{for(var r=e.type,i=t.attributes;i.length;)t.removeAttributeNode(i[0]);Pd(t,r,n),t[at]=e,t[ot]=n}catch(t){q(e,e.return,t)}}var rl=!1,il=!1,al=!1,ol=typeof WeakSet==`function`?WeakSet:Set,sl=null;function cl(e,t){if(e=e.containerInfo,Rd=sp,e=Er(e),Dr(e)){if(`selectionStart`in e)var n={start:e.selectionStart,end:e.selectionEnd};else a:{n=(n=e.ownerDocument)&&n.defaultView||window;var r=n.getSelection&&n.getSelection();if(r&&r.rangeCount!==0){n=r.anchorNode;var a=r.anchorOffset,o=r.focusNode;r=r.focusOffset;try{n.nodeType,o.nodeType}catch{n=null;break a}var s=0,c=-1,l=-1,u=0,d=0,f=e,p=null;b:for(;;){for(var m;f!==n||a!==0&&f.nodeType!==3||(c=s+a),f!==o||r!==0&&f.nodeType!==3||(l=s+r),f.nodeType===3&&(s+=f.nodeValue.length),(m=f.firstChild)!==null;)p=f,f=m;for(;;){if(f===e)break b;if(p===n&&++u===a&&(c=s),p===o&&++d===r&&(l=s),(m=f.nextSibling)!==null)break;f=p,p=f.parentNode}f=m}n=c===-1||l===-1?null:{start:c,end:l}}else n=null}n||={start:0,end:0}}else n=null;for(zd={focusedElem:e,selectionRange:n},sp=!1,sl=t;sl!==null;)if(t=sl,e=t.child,t.subtreeFlags&1028&&e!==null)e.return=t,sl=e;else for(;sl!==null;){switch(t=sl,o=t.alternate,e=t.flags,t.tag){case 0:if(e&4&&(e=t.updateQueue,e=e===null?null:e.events,e!==null))for(n=0;n<e.length;n++)a=e[n],a.ref.impl=a.nextImpl;break;case 11:case 15:break;case 1:if(e&1024&&o!==null){e=void 0,n=t,a=o.memoizedProps,o=o.memoizedState,r=n.stateNode;try{var h=Js(n.type,a);e=r.getSnapshotBeforeUpdate(h,o),r.__reactInternalSnapshotBeforeUpdate=e}catch(e){q(n,n.return,e)}}break;case 3:if(e&1024){if(e=t.stateNode.containerInfo,n=e.nodeType,n===9)ef(e);else if(n===1)switch(e.nodeName){case`HEAD`:case`HTML`:case`BODY`:ef(e);break;default:e.textContent=``}}break;case 5:case 26:case 27:case 6:case 4:case 17:break;default:if(e&1024)throw Error(i(163))}if(e=t.sibling,e!==null){e.return=t.return,sl=e;break}sl=t.return}}function ll(e,t,n){var r=n.flags;switch(n.tag){case 0:case 11:case 15:wl(e,n),r&4&&Wc(5,n);break;case 1:if(wl(e,n),r&4)if(e=n.stateNode,t===null)try{e.componentDidMount()}catch(e){q(n,n.return,e)}else{var i=Js(n.type,t.memoizedProps);t=t.memoizedState;try{e.componentDidUpdate(i,t,e.__reactInternalSnapshotBeforeUpdate)}catch(e){q(n,n.return,e)}}r&64&&Kc(n),r&512&&Jc(n,n.return);break;case 3:if(wl(e,n),r&64&&(e=n.updateQueue,e!==null)){if(t=null,n.child!==null)switch(n.child.tag){case 27:case 5:t=n.child.stateNode;break;case 1:t=n.child.stateNode}try{Xa(e,t)}catch(e){q(n,n.return,e)}}break;case 27:t===null&&r&4&&nl(n);case 26:case 5:wl(e,n),t===null&&r&4&&Xc(n),r&512&&Jc(n,n.return);break;case 12:wl(e,n);break;case 31:wl(e,n),r&4&&hl(e,n);break;case 13:wl(e,n),r&4&&gl(e,n),r&64&&(e=n.memoizedState,e!==null&&(e=e.dehydrated,e!==null&&(n=Zu.bind(null,n),sf(e,n))));break;case 22:if(r=n.memoizedState!==null||rl,!r){t=t!==null&&t.memoizedState!==null||il,i=rl;var a=il;rl=r,(il=t)&&!a?El(e,n,(n.subtreeFlags&8772)!=0):wl(e,n),rl=i,il=a}break;case 30:break;default:wl(e,n)}}function ul(e){var t=e.alternate;t!==null&&(e.alternate=null,ul(t)),e.child=null,e.deletions=null,e.sibling=null,e.tag===5&&(t=e.stateNode,t!==null&&pt(t)),e.stateNode=null,e.return=null,e.dependencies=null,e.memoizedProps=null,e.memoizedState=null,e.pendingProps=null,e.stateNode=null,e.updateQueue=null}var dl=null,fl=!1;function pl(e,t,n){for(n=n.child;n!==null;)ml(e,t,n),n=n.sibling}function ml(e,t,n){if(Fe&&typeof Fe.onCommitFiberUnmount==`function`)try{Fe.onCommitFiberUnmount(Pe,n)}catch{}switch(n.tag){case 26:il||Yc(n,t),pl(e,t,n),n.memoizedState?n.memoizedState.count--:n.stateNode&&(n=n.stateNode,n.parentNode.removeChild(n));break;case 27:il||Yc(n,t);var r=dl,i=fl;Zd(n.type)&&(dl=n.stateNode,fl=!1),pl(e,t,n),pf(n.stateNode),dl=r,fl=i;break;case 5:il||Yc(n,t);case 6:if(r=dl,i=fl,dl=null,pl(e,t,n),dl=r,fl=i,dl!==null)if(fl)try{(dl.nodeType===9?dl.body:dl.nodeName===`HTML`?dl.ownerDocument.body:dl).removeChild(n.stateNode)}catch(e){q(n,t,e)}else try{dl.removeChild(n.stateNode)}catch(e){q(n,t,e)}break;case 18:dl!==null&&(fl?(e=dl,Qd(e.nodeType===9?e.body:e.nodeName===`HTML`?e.ownerDocument.body:e,n.stateNode),Np(e)):Qd(dl,n.stateNode));break;case 4:r=dl,i=fl,dl=n.stateNode.containerInfo,fl=!0,pl(e,t,n),dl=r,fl=i;break;case 0:case 11:case 14:case 15:Gc(2,n,t),il||Gc(4,n,t),pl(e,t,n);break;case 1:il||(Yc(n,t),r=n.stateNode,typeof r.componentWillUnmount==`function`&&qc(n,t,r)),pl(e,t,n);break;case 21:pl(e,t,n);break;case 22:il=(r=il)||n.memoizedState!==null,pl(e,t,n),il=r;break;default:pl(e,t,n)}}function hl(e,t){if(t.memoizedState===null&&(e=t.alternate,e!==null&&(e=e.memoizedState,e!==null))){e=e.dehydrated;try{Np(e)}catch(e){q(t,t.return,e)}}}function gl(e,t){if(t.memoizedState===null&&(e=t.alternate,e!==null&&(e=e.memoizedState,e!==null&&(e=e.dehydrated,e!==null))))try{Np(e)}catch(e){q(t,t.return,e)}}function _l(e){switch(e.tag){case 31:case 13:case 19:var t=e.stateNode;return t===null&&(t=e.stateNode=new ol),t;case 22:return e=e.stateNode,t=e._retryCache,t===null&&(t=e._retryCache=new ol),t;default:throw Error(i(435,e.tag))}}function vl(e,t){var n=_l(e);t.forEach(function(t){if(!n.has(t)){n.add(t);var r=Qu.bind(null,e,t);t.then(r,r)}})}function yl(e,t){var n=t.deletions;if(n!==null)for(var r=0;r<n.length;r++){var a=n[r],o=e,s=t,c=s;a:for(;c!==null;){switch(c.tag){case 27:if(Zd(c.type)){dl=c.stateNode,fl=!1;break a}break;case 5:dl=c.stateNode,fl=!1;break a;case 3:case 4:dl=c.stateNode.containerInfo,fl=!0;break a}c=c.return}if(dl===null)throw Error(i(160));ml(o,s,a),dl=null,fl=!1,o=a.alternate,o!==null&&(o.return=null),a.return=null}if(t.subtreeFlags&13886)for(t=t.child;t!==null;)xl(t,e),t=t.sibling}var bl=null;function xl(e,t){var n=e.alternate,r=e.flags;switch(e.tag){case 0:case 11:case 14:case 15:yl(t,e),Sl(e),r&4&&(Gc(3,e,e.return),Wc(3,e),Gc(5,e,e.return));break;case 1:yl(t,e),Sl(e),r&512&&(il||n===null||Yc(n,n.return)),r&64&&rl&&(e=e.updateQueue,e!==null&&(r=e.callbacks,r!==null&&(n=e.shared.hiddenCallbacks,e.shared.hiddenCallbacks=n===null?r:n.concat(r))));break;case 26:var a=bl;if(yl(t,e),Sl(e),r&512&&(il||n===null||Yc(n,n.return)),r&4){var o=n===null?null:n.memoizedState;if(r=e.memoizedState,n===null)if(r===null)if(e.stateNode===null){a:{r=e.type,n=e.memoizedProps,a=a.ownerDocument||a;b:switch(r){case`title`:o=a.getElementsByTagName(`title`)[0],(!o||o[ft]||o[at]||o.namespaceURI===`http://www.w3.org/2000/svg`||o.hasAttribute(`itemprop`))&&(o=a.createElement(r),a.head.insertBefore(o,a.querySelector(`head > title`))),Pd(o,r,n),o[at]=e,vt(o),r=o;break a;case`link`:var s=Vf(`link`,`href`,a).get(r+(n.href||``));if(s){for(var c=0;c<s.length;c++)if(o=s[c],o.getAttribute(`href`)===(n.href==null||n.href===``?null:n.href)&&o.getAttribute(`rel`)===(n.rel==null?null:n.rel)&&o.getAttribute(`title`)===(n.title==null?null:n.title)&&o.getAttribute(`crossorigin`)===(n.crossOrigin==null?null:n.crossOrigin)){s.splice(c,1);break b}}o=a.createElement(r),Pd(o,r,n),a.head.appendChild(o);break;case`meta`:if(s=Vf(`meta`,`content`,a).get(r+(n.content||``))){for(c=0;c<s.length;c++)if(o=s[c],o.getAttribute(`content`)===(n.content==null?null:``+n.content)&&o.getAttribute(`name`)===(n.name==null?null:n.name)&&o.getAttribute(`property`)===(n.property==null?null:n.property)&&o.getAttribute(`http-equiv`)===(n.httpEquiv==null?null:n.httpEquiv)&&o.getAttribute(`charset`)===(n.charSet==null?null:n.charSet)){s.splice(c,1);break b}}o=a.createElement(r),Pd(o,r,n),a.head.appendChild(o);break;default:throw Error(i(468,r))}o[at]=e,vt(o),r=o}e.stateNode=r}else Hf(a,e.type,e.stateNode);else e.stateNode=If(a,r,e.memoizedProps);else o===r?r===null&&e.stateNode!==null&&Zc(e,e.memoizedProps,n.memoizedProps):(o===null?n.stateNode!==null&&(n=n.stateNode,n.parentNode.removeChild(n)):o.count--,r===null?Hf(a,e.type,e.stateNode):If(a,r,e.memoizedProps))}break;case 27:yl(t,e),Sl(e),r&512&&(il||n===null||Yc(n,n.return)),n!==null&&r&4&&Zc(e,e.memoizedProps,n.memoizedProps);break;case 5:if(yl(t,e),Sl(e),r&512&&(il||n===null||Yc(n,n.return)),e.flags&32){a=e.stateNode;try{Wt(a,``)}catch(t){q(e,e.return,t)}}r&4&&e.stateNode!=null&&(a=e.memoizedProps,Zc(e,a,n===null?a:n.memoizedProps)),r&1024&&(al=!0);break;case 6:if(yl(t,e),Sl(e),r&4){if(e.stateNode===null)throw Error(i(162));r=e.memoizedProps,n=e.stateNode;try{n.nodeValue=r}catch(t){q(e,e.return,t)}}break;case 3:if(Bf=null,a=bl,bl=gf(t.containerInfo),yl(t,e),bl=a,Sl(e),r&4&&n!==null&&n.memoizedState.isDehydrated)try{Np(t.containerInfo)}catch(t){q(e,e.return,t)}al&&(al=!1,Cl(e));break;case 4:r=bl,bl=gf(e.stateNode.containerInfo),yl(t,e),Sl(e),bl=r;break;case 12:yl(t,e),Sl(e);break;case 31:yl(t,e),Sl(e),r&4&&(r=e.updateQueue,r!==null&&(e.updateQueue=null,vl(e,r)));break;case 13:yl(t,e),Sl(e),e.child.flags&8192&&e.memoizedState!==null!=(n!==null&&n.memoizedState!==null)&&(iu=Ee()),r&4&&(r=e.updateQueue,r!==null&&(e.updateQueue=null,vl(e,r)));break;case 22:a=e.memoizedState!==null;var l=n!==null&&n.memoizedState!==null,u=rl,d=il;if(rl=u||a,il=d||l,yl(t,e),il=d,rl=u,Sl(e),r&8192)a:for(t=e.stateNode,t._visibility=a?t._visibility&-2:t._visibility|1,a&&(n===null||l||rl||il||Tl(e)),n=null,t=e;;){if(t.tag===5||t.tag===26){if(n===null){l=n=t;try{if(o=l.stateNode,a)s=o.style,typeof s.setProperty==`function`?s.setProperty(`display`,`none`,`important`):s.display=`none`;else{c=l.stateNode;var f=l.memoizedProps.style,p=f!=null&&f.hasOwnProperty(`display`)?f.display:null;c.style.display=p==null||typeof p==`boolean`?``:(``+p).trim()}}catch(e){q(l,l.return,e)}}}else if(t.tag===6){if(n===null){l=t;try{l.stateNode.nodeValue=a?``:l.memoizedProps}catch(e){q(l,l.return,e)}}}else if(t.tag===18){if(n===null){l=t;try{var m=l.stateNode;a?$d(m,!0):$d(l.stateNode,!1)}catch(e){q(l,l.return,e)}}}else if((t.tag!==22&&t.tag!==23||t.memoizedState===null||t===e)&&t.child!==null){t.child.return=t,t=t.child;continue}if(t===e)break a;for(;t.sibling===null;){if(t.return===null||t.return===e)break a;n===t&&(n=null),t=t.return}n===t&&(n=null),t.sibling.return=t.return,t=t.sibling}r&4&&(r=e.updateQueue,r!==null&&(n=r.retryQueue,n!==null&&(r.retryQueue=null,vl(e,n))));break;case 19:yl(t,e),Sl(e),r&4&&(r=e.updateQueue,r!==null&&(e.updateQueue=null,vl(e,r)));break;case 30:break;case 21:break;default:yl(t,e),Sl(e)}}function Sl(e){var t=e.flags;if(t&2){try{for(var n,r=e.return;r!==null;){if(Qc(r)){n=r;break}r=r.return}if(n==null)throw Error(i(160));switch(n.tag){case 27:var a=n.stateNode;tl(e,$c(e),a);break;case 5:var o=n.stateNode;n.flags&32&&(Wt(o,``),n.flags&=-33),tl(e,$c(e),o);break;case 3:case 4:var s=n.stateNode.containerInfo;el(e,$c(e),s);break;default:throw Error(i(161))}}catch(t){q(e,e.return,t)}e.flags&=-3}t&4096&&(e.flags&=-4097)}function Cl(e){if(e.subtreeFlags&1024)for(e=e.child;e!==null;){var t=e;Cl(t),t.tag===5&&t.flags&1024&&t.stateNode.reset(),e=e.sibling}}function wl(e,t){if(t.subtreeFlags&8772)for(t=t.child;t!==null;)ll(e,t.alternate,t),t=t.sibling}function Tl(e){for(e=e.child;e!==null;){var t=e;switch(t.tag){case 0:case 11:case 14:case 15:Gc(4,t,t.return),Tl(t);break;case 1:Yc(t,t.return);var n=t.stateNode;typeof n.componentWillUnmount==`function`&&qc(t,t.return,n),Tl(t);break;case 27:pf(t.stateNode);case 26:case 5:Yc(t,t.return),Tl(t);break;case 22:t.memoizedState===null&&Tl(t);break;case 30:Tl(t);break;default:Tl(t)}e=e.sibling}}function El(e,t,n){for(n&&=(t.subtreeFlags&8772)!=0,t=t.child;t!==null;){var r=t.alternate,i=e,a=t,o=a.flags;switch(a.tag){case 0:case 11:case 15:El(i,a,n),Wc(4,a);break;case 1:if(El(i,a,n),r=a,i=r.stateNode,typeof i.componentDidMount==`function`)try{i.componentDidMount()}catch(e){q(r,r.return,e)}if(r=a,i=r.updateQueue,i!==null){var s=r.stateNode;try{var c=i.shared.hiddenCallbacks;if(c!==null)for(i.shared.hiddenCallbacks=null,i=0;i<c.length;i++)Ya(c[i],s)}catch(e){q(r,r.return,e)}}n&&o&64&&Kc(a),Jc(a,a.return);break;case 27:nl(a);case 26:case 5:El(i,a,n),n&&r===null&&o&4&&Xc(a),Jc(a,a.return);break;case 12:El(i,a,n);break;case 31:El(i,a,n),n&&o&4&&hl(i,a);break;case 13:El(i,a,n),n&&o&4&&gl(i,a);break;case 22:a.memoizedState===null&&El(i,a,n),Jc(a,a.return);break;case 30:break;default:El(i,a,n)}t=t.sibling}}function Dl(e,t){var n=null;e!==null&&e.memoizedState!==null&&e.memoizedState.cachePool!==null&&(n=e.memoizedState.cachePool.pool),e=null,t.memoizedState!==null&&t.memoizedState.cachePool!==null&&(e=t.memoizedState.cachePool.pool),e!==n&&(e!=null&&e.refCount++,n!=null&&ca(n))}function Ol(e,t){e=null,t.alternate!==null&&(e=t.alternate.memoizedState.cache),t=t.memoizedState.cache,t!==e&&(t.refCount++,e!=null&&ca(e))}function kl(e,t,n,r){if(t.subtreeFlags&10256)for(t=t.child;t!==null;)Al(e,t,n,r),t=t.sibling}function Al(e,t,n,r){var i=t.flags;switch(t.tag){case 0:case 11:case 15:kl(e,t,n,r),i&2048&&Wc(9,t);break;case 1:kl(e,t,n,r);break;case 3:kl(e,t,n,r),i&2048&&(e=null,t.alternate!==null&&(e=t.alternate.memoizedState.cache),t=t.memoizedState.cache,t!==e&&(t.refCount++,e!=null&&ca(e)));break;case 12:if(i&2048){kl(e,t,n,r),e=t.stateNode;try{var a=t.memoizedProps,o=a.id,s=a.onPostCommit;typeof s==`function`&&s(o,t.alternate===null?`mount`:`update`,e.passiveEffectDuration,-0)}catch(e){q(t,t.return,e)}}else kl(e,t,n,r);break;case 31:kl(e,t,n,r);break;case 13:kl(e,t,n,r);break;case 23:break;case 22:a=t.stateNode,o=t.alternate,t.memoizedState===null?a._visibility&2?kl(e,t,n,r):(a._visibility|=2,jl(e,t,n,r,(t.subtreeFlags&10256)!=0||!1)):a._visibility&2?kl(e,t,n,r):Ml(e,t),i&2048&&Dl(o,t);break;case 24:kl(e,t,n,r),i&2048&&Ol(t.alternate,t);break;default:kl(e,t,n,r)}}function jl(e,t,n,r,i){for(i&&=(t.subtreeFlags&10256)!=0||!1,t=t.child;t!==null;){var a=e,o=t,s=n,c=r,l=o.flags;switch(o.tag){case 0:case 11:case 15:jl(a,o,s,c,i),Wc(8,o);break;case 23:break;case 22:var u=o.stateNode;o.memoizedState===null?(u._visibility|=2,jl(a,o,s,c,i)):u._visibility&2?jl(a,o,s,c,i):Ml(a,o),i&&l&2048&&Dl(o.alternate,o);break;case 24:jl(a,o,s,c,i),i&&l&2048&&Ol(o.alternate,o);break;default:jl(a,o,s,c,i)}t=t.sibling}}function Ml(e,t){if(t.subtreeFlags&10256)for(t=t.child;t!==null;){var n=e,r=t,i=r.flags;switch(r.tag){case 22:Ml(n,r),i&2048&&Dl(r.alternate,r);break;case 24:Ml(n,r),i&2048&&Ol(r.alternate,r);break;default:Ml(n,r)}t=t.sibling}}var Nl=8192;function Pl(e,t,n){if(e.subtreeFlags&Nl)for(e=e.child;e!==null;)Fl(e,t,n),e=e.sibling}function Fl(e,t,n){switch(e.tag){case 26:Pl(e,t,n),e.flags&Nl&&e.memoizedState!==null&&Gf(n,bl,e.memoizedState,e.memoizedProps);break;case 5:Pl(e,t,n);break;case 3:case 4:var r=bl;bl=gf(e.stateNode.containerInfo),Pl(e,t,n),bl=r;break;case 22:e.memoizedState===null&&(r=e.alternate,r!==null&&r.memoizedState!==null?(r=Nl,Nl=16777216,Pl(e,t,n),Nl=r):Pl(e,t,n));break;default:Pl(e,t,n)}}function Il(e){var t=e.alternate;if(t!==null&&(e=t.child,e!==null)){t.child=null;do t=e.sibling,e.sibling=null,e=t;while(e!==null)}}function Ll(e){var t=e.deletions;if(e.flags&16){if(t!==null)for(var n=0;n<t.length;n++){var r=t[n];sl=r,Bl(r,e)}Il(e)}if(e.subtreeFlags&10256)for(e=e.child;e!==null;)Rl(e),e=e.sibling}function Rl(e){switch(e.tag){case 0:case 11:case 15:Ll(e),e.flags&2048&&Gc(9,e,e.return);break;case 3:Ll(e);break;case 12:Ll(e);break;case 22:var t=e.stateNode;e.memoizedState!==null&&t._visibility&2&&(e.return===null||e.return.tag!==13)?(t._visibility&=-3,zl(e)):Ll(e);break;default:Ll(e)}}function zl(e){var t=e.deletions;if(e.flags&16){if(t!==null)for(var n=0;n<t.length;n++){var r=t[n];sl=r,Bl(r,e)}Il(e)}for(e=e.child;e!==null;){switch(t=e,t.tag){case 0:case 11:case 15:Gc(8,t,t.return),zl(t);break;case 22:n=t.stateNode,n._visibility&2&&(n._visibility&=-3,zl(t));break;default:zl(t)}e=e.sibling}}function Bl(e,t){for(;sl!==null;){var n=sl;switch(n.tag){case 0:case 11:case 15:Gc(8,n,t);break;case 23:case 22:if(n.memoizedState!==null&&n.memoizedState.cachePool!==null){var r=n.memoizedState.cachePool.pool;r!=null&&r.refCount++}break;case 24:ca(n.memoizedState.cache)}if(r=n.child,r!==null)r.return=n,sl=r;else a:for(n=e;sl!==null;){r=sl;var i=r.sibling,a=r.return;if(ul(r),r===n){sl=null;break a}if(i!==null){i.return=a,sl=i;break a}sl=a}}}var Vl={getCacheForType:function(e){var t=ea(oa),n=t.data.get(e);return n===void 0&&(n=e(),t.data.set(e,n)),n},cacheSignal:function(){return ea(oa).controller.signal}},Hl=typeof WeakMap==`function`?WeakMap:Map,H=0,Ul=null,U=null,W=0,G=0,Wl=null,Gl=!1,Kl=!1,ql=!1,Jl=0,Yl=0,Xl=0,Zl=0,Ql=0,$l=0,eu=0,tu=null,nu=null,ru=!1,iu=0,au=0,ou=1/0,su=null,cu=null,lu=0,uu=null,du=null,fu=0,pu=0,mu=null,hu=null,gu=0,_u=null;function vu(){return H&2&&W!==0?W&-W:N.T===null?nt():pd()}function yu(){if($l===0)if(!(W&536870912)||B){var e=He;He<<=1,!(He&3932160)&&(He=262144),$l=e}else $l=536870912;return e=no.current,e!==null&&(e.flags|=32),$l}function bu(e,t,n){(e===Ul&&(G===2||G===9)||e.cancelPendingCommit!==null)&&(Du(e,0),wu(e,W,$l,!1)),Ye(e,n),(!(H&2)||e!==Ul)&&(e===Ul&&(!(H&2)&&(Zl|=n),Yl===4&&wu(e,W,$l,!1)),ad(e))}function xu(e,t,n){if(H&6)throw Error(i(327));var r=!n&&(t&127)==0&&(t&e.expiredLanes)===0||Ke(e,t),a=r?Fu(e,t):Nu(e,t,!0),o=r;do{if(a===0){Kl&&!r&&wu(e,t,0,!1);break}else{if(n=e.current.alternate,o&&!Cu(n)){a=Nu(e,t,!1),o=!1;continue}if(a===2){if(o=t,e.errorRecoveryDisabledLanes&o)var s=0;else s=e.pendingLanes&-536870913,s=s===0?s&536870912?536870912:0:s;if(s!==0){t=s;a:{var c=e;a=tu;var l=c.current.memoizedState.isDehydrated;if(l&&(Du(c,s).flags|=256),s=Nu(c,s,!1),s!==2){if(ql&&!l){c.errorRecoveryDisabledLanes|=o,Zl|=o,a=4;break a}o=nu,nu=a,o!==null&&(nu===null?nu=o:nu.push.apply(nu,o))}a=s}if(o=!1,a!==2)continue}}if(a===1){Du(e,0),wu(e,t,0,!0);break}a:{switch(r=e,o=a,o){case 0:case 1:throw Error(i(345));case 4:if((t&4194048)!==t)break;case 6:wu(r,t,$l,!Gl);break a;case 2:nu=null;break;case 3:case 5:break;default:throw Error(i(329))}if((t&62914560)===t&&(a=iu+300-Ee(),10<a)){if(wu(r,t,$l,!Gl),Ge(r,0,!0)!==0)break a;fu=t,r.timeoutHandle=Kd(Su.bind(null,r,n,nu,su,ru,t,$l,Zl,eu,Gl,o,`Throttled`,-0,0),a);break a}Su(r,n,nu,su,ru,t,$l,Zl,eu,Gl,o,null,-0,0)}}break}while(1);ad(e)}function Su(e,t,n,r,i,a,o,s,c,l,u,d,f,p){if(e.timeoutHandle=-1,d=t.subtreeFlags,d&8192||(d&16785408)==16785408){d={stylesheets:null,count:0,imgCount:0,imgBytes:0,suspenseyImages:[],waitingForImages:!0,waitingForViewTransition:!1,unsuspend:Qt},Fl(t,a,d);var m=(a&62914560)===a?iu-Ee():(a&4194048)===a?au-Ee():0;if(m=qf(d,m),m!==null){fu=a,e.cancelPendingCommit=m(K.bind(null,e,t,a,n,r,i,o,s,c,u,d,null,f,p)),wu(e,a,o,!l);return}}K(e,t,a,n,r,i,o,s,c)}function Cu(e){for(var t=e;;){var n=t.tag;if((n===0||n===11||n===15)&&t.flags&16384&&(n=t.updateQueue,n!==null&&(n=n.stores,n!==null)))for(var r=0;r<n.length;r++){var i=n[r],a=i.getSnapshot;i=i.value;try{if(!xr(a(),i))return!1}catch{return!1}}if(n=t.child,t.subtreeFlags&16384&&n!==null)n.return=t,t=n;else{if(t===e)break;for(;t.sibling===null;){if(t.return===null||t.return===e)return!0;t=t.return}t.sibling.return=t.return,t=t.sibling}}return!0}function wu(e,t,n,r){t&=~Ql,t&=~Zl,e.suspendedLanes|=t,e.pingedLanes&=~t,r&&(e.warmLanes|=t),r=e.expirationTimes;for(var i=t;0<i;){var a=31-Le(i),o=1<<a;r[a]=-1,i&=~o}n!==0&&Ze(e,n,t)}function Tu(){return H&6?!0:(od(0,!1),!1)}function Eu(){if(U!==null){if(G===0)var e=U.return;else e=U,Ki=Gi=null,Ao(e),ja=null,Ma=0,e=U;for(;e!==null;)Uc(e.alternate,e),e=e.return;U=null}}function Du(e,t){var n=e.timeoutHandle;n!==-1&&(e.timeoutHandle=-1,qd(n)),n=e.cancelPendingCommit,n!==null&&(e.cancelPendingCommit=null,n()),fu=0,Eu(),Ul=e,U=n=li(e.current,null),W=t,G=0,Wl=null,Gl=!1,Kl=Ke(e,t),ql=!1,eu=$l=Ql=Zl=Xl=Yl=0,nu=tu=null,ru=!1,t&8&&(t|=t&32);var r=e.entangledLanes;if(r!==0)for(e=e.entanglements,r&=t;0<r;){var i=31-Le(r),a=1<<i;t|=e[i],r&=~a}return Jl=t,$r(),n}function Ou(e,t){V=null,N.H=Bs,t===xa||t===Ca?(t=ka(),G=3):t===Sa?(t=ka(),G=4):G=t===ic?8:typeof t==`object`&&t&&typeof t.then==`function`?6:1,Wl=t,U===null&&(Yl=1,Qs(e,_i(t,e.current)))}function ku(){var e=no.current;return e===null?!0:(W&4194048)===W?ro===null:(W&62914560)===W||W&536870912?e===ro:!1}function Au(){var e=N.H;return N.H=Bs,e===null?Bs:e}function ju(){var e=N.A;return N.A=Vl,e}function Mu(){Yl=4,Gl||(W&4194048)!==W&&no.current!==null||(Kl=!0),!(Xl&134217727)&&!(Zl&134217727)||Ul===null||wu(Ul,W,$l,!1)}function Nu(e,t,n){var r=H;H|=2;var i=Au(),a=ju();(Ul!==e||W!==t)&&(su=null,Du(e,t)),t=!1;var o=Yl;a:do try{if(G!==0&&U!==null){var s=U,c=Wl;switch(G){case 8:Eu(),o=6;break a;case 3:case 2:case 9:case 6:no.current===null&&(t=!0);var l=G;if(G=0,Wl=null,zu(e,s,c,l),n&&Kl){o=0;break a}break;default:l=G,G=0,Wl=null,zu(e,s,c,l)}}Pu(),o=Yl;break}catch(t){Ou(e,t)}while(1);return t&&e.shellSuspendCounter++,Ki=Gi=null,H=r,N.H=i,N.A=a,U===null&&(Ul=null,W=0,$r()),o}function Pu(){for(;U!==null;)Lu(U)}function Fu(e,t){var n=H;H|=2;var r=Au(),a=ju();Ul!==e||W!==t?(su=null,ou=Ee()+500,Du(e,t)):Kl=Ke(e,t);a:do try{if(G!==0&&U!==null){t=U;var o=Wl;b:switch(G){case 1:G=0,Wl=null,zu(e,t,o,1);break;case 2:case 9:if(Ta(o)){G=0,Wl=null,Ru(t);break}t=function(){G!==2&&G!==9||Ul!==e||(G=7),ad(e)},o.then(t,t);break a;case 3:G=7;break a;case 4:G=5;break a;case 7:Ta(o)?(G=0,Wl=null,Ru(t)):(G=0,Wl=null,zu(e,t,o,7));break;case 5:var s=null;switch(U.tag){case 26:s=U.memoizedState;case 5:case 27:var c=U;if(s?Wf(s):c.stateNode.complete){G=0,Wl=null;var l=c.sibling;if(l!==null)U=l;else{var u=c.return;u===null?U=null:(U=u,Bu(u))}break b}}G=0,Wl=null,zu(e,t,o,5);break;case 6:G=0,Wl=null,zu(e,t,o,6);break;case 8:Eu(),Yl=6;break a;default:throw Error(i(462))}}Iu();break}catch(t){Ou(e,t)}while(1);return Ki=Gi=null,N.H=r,N.A=a,H=n,U===null?(Ul=null,W=0,$r(),Yl):0}function Iu(){for(;U!==null&&!we();)Lu(U)}function Lu(e){var t=Pc(e.alternate,e,Jl);e.memoizedProps=e.pendingProps,t===null?Bu(e):U=t}function Ru(e){var t=e,n=t.alternate;switch(t.tag){case 15:case 0:t=vc(n,t,t.pendingProps,t.type,void 0,W);break;case 11:t=vc(n,t,t.pendingProps,t.type.render,t.ref,W);break;case 5:Ao(t);default:Uc(n,t),t=U=ui(t,Jl),t=Pc(n,t,Jl)}e.memoizedProps=e.pendingProps,t===null?Bu(e):U=t}function zu(e,t,n,r){Ki=Gi=null,Ao(t),ja=null,Ma=0;var i=t.return;try{if(rc(e,i,t,n,W)){Yl=1,Qs(e,_i(n,e.current)),U=null;return}}catch(t){if(i!==null)throw U=i,t;Yl=1,Qs(e,_i(n,e.current)),U=null;return}t.flags&32768?(B||r===1?e=!0:Kl||W&536870912?e=!1:(Gl=e=!0,(r===2||r===9||r===3||r===6)&&(r=no.current,r!==null&&r.tag===13&&(r.flags|=16384))),Vu(t,e)):Bu(t)}function Bu(e){var t=e;do{if(t.flags&32768){Vu(t,Gl);return}e=t.return;var n=Vc(t.alternate,t,Jl);if(n!==null){U=n;return}if(t=t.sibling,t!==null){U=t;return}U=t=e}while(t!==null);Yl===0&&(Yl=5)}function Vu(e,t){do{var n=Hc(e.alternate,e);if(n!==null){n.flags&=32767,U=n;return}if(n=e.return,n!==null&&(n.flags|=32768,n.subtreeFlags=0,n.deletions=null),!t&&(e=e.sibling,e!==null)){U=e;return}U=e=n}while(e!==null);Yl=6,U=null}function K(e,t,n,r,a,o,s,c,l){e.cancelPendingCommit=null;do Ku();while(lu!==0);if(H&6)throw Error(i(327));if(t!==null){if(t===e.current)throw Error(i(177));if(o=t.lanes|t.childLanes,o|=Qr,Xe(e,n,o,s,c,l),e===Ul&&(U=Ul=null,W=0),du=t,uu=e,fu=n,pu=o,mu=a,hu=r,t.subtreeFlags&10256||t.flags&10256?(e.callbackNode=null,e.callbackPriority=0,$u(ke,function(){return qu(),null})):(e.callbackNode=null,e.callbackPriority=0),r=(t.flags&13878)!=0,t.subtreeFlags&13878||r){r=N.T,N.T=null,a=P.p,P.p=2,s=H,H|=4;try{cl(e,t,n)}finally{H=s,P.p=a,N.T=r}}lu=1,Hu(),Uu(),Wu()}}function Hu(){if(lu===1){lu=0;var e=uu,t=du,n=(t.flags&13878)!=0;if(t.subtreeFlags&13878||n){n=N.T,N.T=null;var r=P.p;P.p=2;var i=H;H|=4;try{xl(t,e);var a=zd,o=Er(e.containerInfo),s=a.focusedElem,c=a.selectionRange;if(o!==s&&s&&s.ownerDocument&&Tr(s.ownerDocument.documentElement,s)){if(c!==null&&Dr(s)){var l=c.start,u=c.end;if(u===void 0&&(u=l),`selectionStart`in s)s.selectionStart=l,s.selectionEnd=Math.min(u,s.value.length);else{var d=s.ownerDocument||document,f=d&&d.defaultView||window;if(f.getSelection){var p=f.getSelection(),m=s.textContent.length,h=Math.min(c.start,m),g=c.end===void 0?h:Math.min(c.end,m);!p.extend&&h>g&&(o=g,g=h,h=o);var _=wr(s,h),v=wr(s,g);if(_&&v&&(p.rangeCount!==1||p.anchorNode!==_.node||p.anchorOffset!==_.offset||p.focusNode!==v.node||p.focusOffset!==v.offset)){var y=d.createRange();y.setStart(_.node,_.offset),p.removeAllRanges(),h>g?(p.addRange(y),p.extend(v.node,v.offset)):(y.setEnd(v.node,v.offset),p.addRange(y))}}}}for(d=[],p=s;p=p.parentNode;)p.nodeType===1&&d.push({element:p,left:p.scrollLeft,top:p.scrollTop});for(typeof s.focus==`function`&&s.focus(),s=0;s<d.length;s++){var b=d[s];b.element.scrollLeft=b.left,b.element.scrollTop=b.top}}sp=!!Rd,zd=Rd=null}finally{H=i,P.p=r,N.T=n}}e.current=t,lu=2}}function Uu(){if(lu===2){lu=0;var e=uu,t=du,n=(t.flags&8772)!=0;if(t.subtreeFlags&8772||n){n=N.T,N.T=null;var r=P.p;P.p=2;var i=H;H|=4;try{ll(e,t.alternate,t)}finally{H=i,P.p=r,N.T=n}}lu=3}}function Wu(){if(lu===4||lu===3){lu=0,Te();var e=uu,t=du,n=fu,r=hu;t.subtreeFlags&10256||t.flags&10256?lu=5:(lu=0,du=uu=null,Gu(e,e.pendingLanes));var i=e.pendingLanes;if(i===0&&(cu=null),tt(n),t=t.stateNode,Fe&&typeof Fe.onCommitFiberRoot==`function`)try{Fe.onCommitFiberRoot(Pe,t,void 0,(t.current.flags&128)==128)}catch{}if(r!==null){t=N.T,i=P.p,P.p=2,N.T=null;try{for(var a=e.onRecoverableError,o=0;o<r.length;o++){var s=r[o];a(s.value,{componentStack:s.stack})}}finally{N.T=t,P.p=i}}fu&3&&Ku(),ad(e),i=e.pendingLanes,n&261930&&i&42?e===_u?gu++:(gu=0,_u=e):gu=0,od(0,!1)}}function Gu(e,t){(e.pooledCacheLanes&=t)===0&&(t=e.pooledCache,t!=null&&(e.pooledCache=null,ca(t)))}function Ku(){return Hu(),Uu(),Wu(),qu()}function qu(){if(lu!==5)return!1;var e=uu,t=pu;pu=0;var n=tt(fu),r=N.T,a=P.p;try{P.p=32>n?32:n,N.T=null,n=mu,mu=null;var o=uu,s=fu;if(lu=0,du=uu=null,fu=0,H&6)throw Error(i(331));var c=H;if(H|=4,Rl(o.current),Al(o,o.current,s,n),H=c,od(0,!1),Fe&&typeof Fe.onPostCommitFiberRoot==`function`)try{Fe.onPostCommitFiberRoot(Pe,o)}catch{}return!0}finally{P.p=a,N.T=r,Gu(e,t)}}function Ju(e,t,n){t=_i(n,t),t=ec(e.stateNode,t,2),e=Ua(e,t,2),e!==null&&(Ye(e,2),ad(e))}function q(e,t,n){if(e.tag===3)Ju(e,e,n);else for(;t!==null;){if(t.tag===3){Ju(t,e,n);break}else if(t.tag===1){var r=t.stateNode;if(typeof t.type.getDerivedStateFromError==`function`||typeof r.componentDidCatch==`function`&&(cu===null||!cu.has(r))){e=_i(n,e),n=tc(2),r=Ua(t,n,2),r!==null&&(nc(n,r,t,e),Ye(r,2),ad(r));break}}t=t.return}}function Yu(e,t,n){var r=e.pingCache;if(r===null){r=e.pingCache=new Hl;var i=new Set;r.set(t,i)}else i=r.get(t),i===void 0&&(i=new Set,r.set(t,i));i.has(n)||(ql=!0,i.add(n),e=Xu.bind(null,e,t,n),t.then(e,e))}function Xu(e,t,n){var r=e.pingCache;r!==null&&r.delete(t),e.pingedLanes|=e.suspendedLanes&n,e.warmLanes&=~n,Ul===e&&(W&n)===n&&(Yl===4||Yl===3&&(W&62914560)===W&&300>Ee()-iu?!(H&2)&&Du(e,0):Ql|=n,eu===W&&(eu=0)),ad(e)}function J(e,t){t===0&&(t=qe()),e=ni(e,t),e!==null&&(Ye(e,t),ad(e))}function Zu(e){var t=e.memoizedState,n=0;t!==null&&(n=t.retryLane),J(e,n)}function Qu(e,t){var n=0;switch(e.tag){case 31:case 13:var r=e.stateNode,a=e.memoizedState;a!==null&&(n=a.retryLane);break;case 19:r=e.stateNode;break;case 22:r=e.stateNode._retryCache;break;default:throw Error(i(314))}r!==null&&r.delete(t),J(e,n)}function $u(e,t){return Se(e,t)}var ed=null,td=null,nd=!1,rd=!1,Y=!1,id=0;function ad(e){e!==td&&e.next===null&&(td===null?ed=td=e:td=td.next=e),rd=!0,nd||(nd=!0,fd())}function od(e,t){if(!Y&&rd){Y=!0;do for(var n=!1,r=ed;r!==null;){if(!t)if(e!==0){var i=r.pendingLanes;if(i===0)var a=0;else{var o=r.suspendedLanes,s=r.pingedLanes;a=(1<<31-Le(42|e)+1)-1,a&=i&~(o&~s),a=a&201326741?a&201326741|1:a?a|2:0}a!==0&&(n=!0,dd(r,a))}else a=W,a=Ge(r,r===Ul?a:0,r.cancelPendingCommit!==null||r.timeoutHandle!==-1),!(a&3)||Ke(r,a)||(n=!0,dd(r,a));r=r.next}while(n);Y=!1}}function sd(){cd()}function cd(){rd=nd=!1;var e=0;id!==0&&Gd()&&(e=id);for(var t=Ee(),n=null,r=ed;r!==null;){var i=r.next,a=ld(r,t);a===0?(r.next=null,n===null?ed=i:n.next=i,i===null&&(td=n)):(n=r,(e!==0||a&3)&&(rd=!0)),r=i}lu!==0&&lu!==5||od(e,!1),id!==0&&(id=0)}function ld(e,t){for(var n=e.suspendedLanes,r=e.pingedLanes,i=e.expirationTimes,a=e.pendingLanes&-62914561;0<a;){var o=31-Le(a),s=1<<o,c=i[o];c===-1?((s&n)===0||(s&r)!==0)&&(i[o]=z(s,t)):c<=t&&(e.expiredLanes|=s),a&=~s}if(t=Ul,n=W,n=Ge(e,e===t?n:0,e.cancelPendingCommit!==null||e.timeoutHandle!==-1),r=e.callbackNode,n===0||e===t&&(G===2||G===9)||e.cancelPendingCommit!==null)return r!==null&&r!==null&&Ce(r),e.callbackNode=null,e.callbackPriority=0;if(!(n&3)||Ke(e,n)){if(t=n&-n,t===e.callbackPriority)return t;switch(r!==null&&Ce(r),tt(n)){case 2:case 8:n=R;break;case 32:n=ke;break;case 268435456:n=je;break;default:n=ke}return r=ud.bind(null,e),n=Se(n,r),e.callbackPriority=t,e.callbackNode=n,t}return r!==null&&r!==null&&Ce(r),e.callbackPriority=2,e.callbackNode=null,2}function ud(e,t){if(lu!==0&&lu!==5)return e.callbackNode=null,e.callbackPriority=0,null;var n=e.callbackNode;if(Ku()&&e.callbackNode!==n)return null;var r=W;return r=Ge(e,e===Ul?r:0,e.cancelPendingCommit!==null||e.timeoutHandle!==-1),r===0?null:(xu(e,r,t),ld(e,Ee()),e.callbackNode!=null&&e.callbackNode===n?ud.bind(null,e):null)}function dd(e,t){if(Ku())return null;xu(e,t,!0)}function fd(){Yd(function(){H&6?Se(Oe,sd):cd()})}function pd(){if(id===0){var e=da;e===0&&(e=Ve,Ve<<=1,!(Ve&261888)&&(Ve=256)),id=e}return id}function md(e){return e==null||typeof e==`symbol`||typeof e==`boolean`?null:typeof e==`function`?e:Zt(``+e)}function hd(e,t){var n=t.ownerDocument.createElement(`input`);return n.name=t.name,n.value=t.value,e.id&&n.setAttribute(`form`,e.id),t.parentNode.insertBefore(n,t),e=new FormData(e),n.parentNode.removeChild(n),e}function gd(e,t,n,r,i){if(t===`submit`&&n&&n.stateNode===i){var a=md((i[ot]||null).action),o=r.submitter;o&&(t=(t=o[ot]||null)?md(t.formAction):o.getAttribute(`formAction`),t!==null&&(a=t,o=null));var s=new bn(`action`,`action`,null,r,i);e.push({event:s,listeners:[{instance:null,listener:function(){if(r.defaultPrevented){if(id!==0){var e=o?hd(i,o):new FormData(i);Es(n,{pending:!0,data:e,method:i.method,action:a},null,e)}}else typeof a==`function`&&(s.preventDefault(),e=o?hd(i,o):new FormData(i),Es(n,{pending:!0,data:e,method:i.method,action:a},a,e))},currentTarget:i}]})}}for(var _d=0;_d<qr.length;_d++){var vd=qr[_d];Jr(vd.toLowerCase(),`on`+(vd[0].toUpperCase()+vd.slice(1)))}Jr(zr,`onAnimationEnd`),Jr(Br,`onAnimationIteration`),Jr(Vr,`onAnimationStart`),Jr(`dblclick`,`onDoubleClick`),Jr(`focusin`,`onFocus`),Jr(`focusout`,`onBlur`),Jr(Hr,`onTransitionRun`),Jr(Ur,`onTransitionStart`),Jr(Wr,`onTransitionCancel`),Jr(Gr,`onTransitionEnd`),St(`onMouseEnter`,[`mouseout`,`mouseover`]),St(`onMouseLeave`,[`mouseout`,`mouseover`]),St(`onPointerEnter`,[`pointerout`,`pointerover`]),St(`onPointerLeave`,[`pointerout`,`pointerover`]),xt(`onChange`,`change click focusin focusout input keydown keyup selectionchange`.split(` `)),xt(`onSelect`,`focusout contextmenu dragend focusin keydown keyup mousedown mouseup selectionchange`.split(` `)),xt(`onBeforeInput`,[`compositionend`,`keypress`,`textInput`,`paste`]),xt(`onCompositionEnd`,`compositionend focusout keydown keypress keyup mousedown`.split(` `)),xt(`onCompositionStart`,`compositionstart focusout keydown keypress keyup mousedown`.split(` `)),xt(`onCompositionUpdate`,`compositionupdate focusout keydown keypress keyup mousedown`.split(` `));var yd=`abort canplay canplaythrough durationchange emptied encrypted ended error loadeddata loadedmetadata loadstart pause play playing progress ratechange resize seeked seeking stalled suspend timeupdate volumechange waiting`.split(` `),bd=new Set(`beforetoggle cancel close invalid load scroll scrollend toggle`.split(` `).concat(yd));function xd(e,t){t=(t&4)!=0;for(var n=0;n<e.length;n++){var r=e[n],i=r.event;r=r.listeners;a:{var a=void 0;if(t)for(var o=r.length-1;0<=o;o--){var s=r[o],c=s.instance,l=s.currentTarget;if(s=s.listener,c!==a&&i.isPropagationStopped())break a;a=s,i.currentTarget=l;try{a(i)}catch(e){Yr(e)}i.currentTarget=null,a=c}else for(o=0;o<r.length;o++){if(s=r[o],c=s.instance,l=s.currentTarget,s=s.listener,c!==a&&i.isPropagationStopped())break a;a=s,i.currentTarget=l;try{a(i)}catch(e){Yr(e)}i.currentTarget=null,a=c}}}}function X(e,t){var n=t[ct];n===void 0&&(n=t[ct]=new Set);var r=e+`__bubble`;n.has(r)||(Q(t,e,2,!1),n.add(r))}function Sd(e,t,n){var r=0;t&&(r|=4),Q(n,e,r,t)}var Z=`_reactListening`+Math.random().toString(36).slice(2);function Cd(e){if(!e[Z]){e[Z]=!0,yt.forEach(function(t){t!==`selectionchange`&&(bd.has(t)||Sd(t,!1,e),Sd(t,!0,e))});var t=e.nodeType===9?e:e.ownerDocument;t===null||t[Z]||(t[Z]=!0,Sd(`selectionchange`,!1,t))}}function Q(e,t,n,r){switch(mp(t)){case 2:var i=cp;break;case 8:i=lp;break;default:i=up}n=i.bind(null,t,n,e),i=void 0,!ln||t!==`touchstart`&&t!==`touchmove`&&t!==`wheel`||(i=!0),r?i===void 0?e.addEventListener(t,n,!0):e.addEventListener(t,n,{capture:!0,passive:i}):i===void 0?e.addEventListener(t,n,!1):e.addEventListener(t,n,{passive:i})}function wd(e,t,n,r,i){var a=r;if(!(t&1)&&!(t&2)&&r!==null)a:for(;;){if(r===null)return;var s=r.tag;if(s===3||s===4){var c=r.stateNode.containerInfo;if(c===i)break;if(s===4)for(s=r.return;s!==null;){var l=s.tag;if((l===3||l===4)&&s.stateNode.containerInfo===i)return;s=s.return}for(;c!==null;){if(s=mt(c),s===null)return;if(l=s.tag,l===5||l===6||l===26||l===27){r=a=s;continue a}c=c.parentNode}}r=r.return}on(function(){var r=a,i=en(n),s=[];a:{var c=Kr.get(e);if(c!==void 0){var l=bn,u=e;switch(e){case`keypress`:if(hn(n)===0)break a;case`keydown`:case`keyup`:l=Rn;break;case`focusin`:u=`focus`,l=kn;break;case`focusout`:u=`blur`,l=kn;break;case`beforeblur`:case`afterblur`:l=kn;break;case`click`:if(n.button===2)break a;case`auxclick`:case`dblclick`:case`mousedown`:case`mousemove`:case`mouseup`:case`mouseout`:case`mouseover`:case`contextmenu`:l=Dn;break;case`drag`:case`dragend`:case`dragenter`:case`dragexit`:case`dragleave`:case`dragover`:case`dragstart`:case`drop`:l=On;break;case`touchcancel`:case`touchend`:case`touchmove`:case`touchstart`:l=Bn;break;case zr:case Br:case Vr:l=An;break;case Gr:l=Vn;break;case`scroll`:case`scrollend`:l=Sn;break;case`wheel`:l=Hn;break;case`copy`:case`cut`:case`paste`:l=jn;break;case`gotpointercapture`:case`lostpointercapture`:case`pointercancel`:case`pointerdown`:case`pointermove`:case`pointerout`:case`pointerover`:case`pointerup`:l=zn;break;case`toggle`:case`beforetoggle`:l=Un}var d=(t&4)!=0,f=!d&&(e===`scroll`||e===`scrollend`),p=d?c===null?null:c+`Capture`:c;d=[];for(var m=r,h;m!==null;){var g=m;if(h=g.stateNode,g=g.tag,g!==5&&g!==26&&g!==27||h===null||p===null||(g=sn(m,p),g!=null&&d.push(Td(m,g,h))),f)break;m=m.return}0<d.length&&(c=new l(c,u,null,n,i),s.push({event:c,listeners:d}))}}if(!(t&7)){a:{if(c=e===`mouseover`||e===`pointerover`,l=e===`mouseout`||e===`pointerout`,c&&n!==$t&&(u=n.relatedTarget||n.fromElement)&&(mt(u)||u[st]))break a;if((l||c)&&(c=i.window===i?i:(c=i.ownerDocument)?c.defaultView||c.parentWindow:window,l?(u=n.relatedTarget||n.toElement,l=r,u=u?mt(u):null,u!==null&&(f=o(u),d=u.tag,u!==f||d!==5&&d!==27&&d!==6)&&(u=null)):(l=null,u=r),l!==u)){if(d=Dn,g=`onMouseLeave`,p=`onMouseEnter`,m=`mouse`,(e===`pointerout`||e===`pointerover`)&&(d=zn,g=`onPointerLeave`,p=`onPointerEnter`,m=`pointer`),f=l==null?c:gt(l),h=u==null?c:gt(u),c=new d(g,m+`leave`,l,n,i),c.target=f,c.relatedTarget=h,g=null,mt(i)===r&&(d=new d(p,m+`enter`,u,n,i),d.target=h,d.relatedTarget=f,g=d),f=g,l&&u)b:{for(d=Dd,p=l,m=u,h=0,g=p;g;g=d(g))h++;g=0;for(var _=m;_;_=d(_))g++;for(;0<h-g;)p=d(p),h--;for(;0<g-h;)m=d(m),g--;for(;h--;){if(p===m||m!==null&&p===m.alternate){d=p;break b}p=d(p),m=d(m)}d=null}else d=null;l!==null&&Od(s,c,l,d,!1),u!==null&&f!==null&&Od(s,f,u,d,!0)}}a:{if(c=r?gt(r):window,l=c.nodeName&&c.nodeName.toLowerCase(),l===`select`||l===`input`&&c.type===`file`)var v=lr;else if(rr(c))if(ur)v=yr;else{v=_r;var y=gr}else l=c.nodeName,!l||l.toLowerCase()!==`input`||c.type!==`checkbox`&&c.type!==`radio`?r&&Jt(r.elementType)&&(v=lr):v=vr;if(v&&=v(e,r)){ir(s,v,n,i);break a}y&&y(e,c,r),e===`focusout`&&r&&c.type===`number`&&r.memoizedProps.value!=null&&Bt(c,`number`,c.value)}switch(y=r?gt(r):window,e){case`focusin`:(rr(y)||y.contentEditable===`true`)&&(kr=y,Ar=r,jr=null);break;case`focusout`:jr=Ar=kr=null;break;case`mousedown`:Mr=!0;break;case`contextmenu`:case`mouseup`:case`dragend`:Mr=!1,Nr(s,n,i);break;case`selectionchange`:if(Or)break;case`keydown`:case`keyup`:Nr(s,n,i)}var b;if(Gn)b:{switch(e){case`compositionstart`:var x=`onCompositionStart`;break b;case`compositionend`:x=`onCompositionEnd`;break b;case`compositionupdate`:x=`onCompositionUpdate`;break b}x=void 0}else $n?Zn(e,n)&&(x=`onCompositionEnd`):e===`keydown`&&n.keyCode===229&&(x=`onCompositionStart`);x&&(Jn&&n.locale!==`ko`&&($n||x!==`onCompositionStart`?x===`onCompositionEnd`&&$n&&(b=mn()):(dn=i,fn=`value`in dn?dn.value:dn.textContent,$n=!0)),y=Ed(r,x),0<y.length&&(x=new Mn(x,e,null,n,i),s.push({event:x,listeners:y}),b?x.data=b:(b=Qn(n),b!==null&&(x.data=b)))),(b=qn?er(e,n):tr(e,n))&&(x=Ed(r,`onBeforeInput`),0<x.length&&(y=new Mn(`onBeforeInput`,`beforeinput`,null,n,i),s.push({event:y,listeners:x}),y.data=b)),gd(s,e,r,n,i)}xd(s,t)})}function Td(e,t,n){return{instance:e,listener:t,currentTarget:n}}function Ed(e,t){for(var n=t+`Capture`,r=[];e!==null;){var i=e,a=i.stateNode;if(i=i.tag,i!==5&&i!==26&&i!==27||a===null||(i=sn(e,n),i!=null&&r.unshift(Td(e,i,a)),i=sn(e,t),i!=null&&r.push(Td(e,i,a))),e.tag===3)return r;e=e.return}return[]}function Dd(e){if(e===null)return null;do e=e.return;while(e&&e.tag!==5&&e.tag!==27);return e||null}function Od(e,t,n,r,i){for(var a=t._reactName,o=[];n!==null&&n!==r;){var s=n,c=s.alternate,l=s.stateNode;if(s=s.tag,c!==null&&c===r)break;s!==5&&s!==26&&s!==27||l===null||(c=l,i?(l=sn(n,a),l!=null&&o.unshift(Td(n,l,c))):i||(l=sn(n,a),l!=null&&o.push(Td(n,l,c)))),n=n.return}o.length!==0&&e.push({event:t,listeners:o})}var kd=/\r\n?/g,Ad=/\u0000|\uFFFD/g;function jd(e){return(typeof e==`string`?e:``+e).replace(kd,`
-`).replace(Ad,``)}function Md(e,t){return t=jd(t),jd(e)===t}function $(e,t,n,r,a,o){switch(n){case`children`:typeof r==`string`?t===`body`||t===`textarea`&&r===``||Wt(e,r):(typeof r==`number`||typeof r==`bigint`)&&t!==`body`&&Wt(e,``+r);break;case`className`:Ot(e,`class`,r);break;case`tabIndex`:Ot(e,`tabindex`,r);break;case`dir`:case`role`:case`viewBox`:case`width`:case`height`:Ot(e,n,r);break;case`style`:qt(e,r,o);break;case`data`:if(t!==`object`){Ot(e,`data`,r);break}case`src`:case`href`:if(r===``&&(t!==`a`||n!==`href`)){e.removeAttribute(n);break}if(r==null||typeof r==`function`||typeof r==`symbol`||typeof r==`boolean`){e.removeAttribute(n);break}r=Zt(``+r),e.setAttribute(n,r);break;case`action`:case`formAction`:if(typeof r==`function`){e.setAttribute(n,`javascript:throw new Error('A React form was unexpectedly submitted. If you called form.submit() manually, consider using form.requestSubmit() instead. If you\\'re trying to use event.stopPropagation() in a submit event handler, consider also calling event.preventDefault().')`);break}else typeof o==`function`&&(n===`formAction`?(t!==`input`&&$(e,t,`name`,a.name,a,null),$(e,t,`formEncType`,a.formEncType,a,null),$(e,t,`formMethod`,a.formMethod,a,null),$(e,t,`formTarget`,a.formTarget,a,null)):($(e,t,`encType`,a.encType,a,null),$(e,t,`method`,a.method,a,null),$(e,t,`target`,a.target,a,null)));if(r==null||typeof r==`symbol`||typeof r==`boolean`){e.removeAttribute(n);break}r=Zt(``+r),e.setAttribute(n,r);break;case`onClick`:r!=null&&(e.onclick=Qt);break;case`onScroll`:r!=null&&X(`scroll`,e);break;case`onScrollEnd`:r!=null&&X(`scrollend`,e);break;case`dangerouslySetInnerHTML`:if(r!=null){if(typeof r!=`object`||!(`__html`in r))throw Error(i(61));if(n=r.__html,n!=null){if(a.children!=null)throw Error(i(60));e.innerHTML=n}}break;case`multiple`:e.multiple=r&&typeof r!=`function`&&typeof r!=`symbol`;break;case`muted`:e.muted=r&&typeof r!=`function`&&typeof r!=`symbol`;break;case`suppressContentEditableWarning`:case`suppressHydrationWarning`:case`defaultValue`:case`defaultChecked`:case`innerHTML`:case`ref`:break;case`autoFocus`:break;case`xlinkHref`:if(r==null||typeof r==`function`||typeof r==`boolean`||typeof r==`symbol`){e.removeAttribute(`xlink:href`);break}n=Zt(``+r),e.setAttributeNS(`http://www.w3.org/1999/xlink`,`xlink:href`,n);break;case`contentEditable`:case`spellCheck`:case`draggable`:case`value`:case`autoReverse`:case`externalResourcesRequired`:case`focusable`:case`preserveAlpha`:r!=null&&typeof r!=`function`&&typeof r!=`symbol`?e.setAttribute(n,``+r):e.removeAttribute(n);break;case`inert`:case`allowFullScreen`:case`async`:case`autoPlay`:case`controls`:case`default`:case`defer`:case`disabled`:case`disablePictureInPicture`:case`disableRemotePlayback`:case`formNoValidate`:case`hidden`:case`loop`:case`noModule`:case`noValidate`:case`open`:case`playsInline`:case`readOnly`:case`required`:case`reversed`:case`scoped`:case`seamless`:case`itemScope`:r&&typeof r!=`function`&&typeof r!=`symbol`?e.setAttribute(n,``):e.removeAttribute(n);break;case`capture`:case`download`:!0===r?e.setAttribute(n,``):!1!==r&&r!=null&&typeof r!=`function`&&typeof r!=`symbol`?e.setAttribute(n,r):e.removeAttribute(n);break;case`cols`:case`rows`:case`size`:case`span`:r!=null&&typeof r!=`function`&&typeof r!=`symbol`&&!isNaN(r)&&1<=r?e.setAttribute(n,r):e.removeAttribute(n);break;case`rowSpan`:case`start`:r==null||typeof r==`function`||typeof r==`symbol`||isNaN(r)?e.removeAttribute(n):e.setAttribute(n,r);break;case`popover`:X(`beforetoggle`,e),X(`toggle`,e),Dt(e,`popover`,r);break;case`xlinkActuate`:kt(e,`http://www.w3.org/1999/xlink`,`xlink:actuate`,r);break;case`xlinkArcrole`:kt(e,`http://www.w3.org/1999/xlink`,`xlink:arcrole`,r);break;case`xlinkRole`:kt(e,`http://www.w3.org/1999/xlink`,`xlink:role`,r);break;case`xlinkShow`:kt(e,`http://www.w3.org/1999/xlink`,`xlink:show`,r);break;case`xlinkTitle`:kt(e,`http://www.w3.org/1999/xlink`,`xlink:title`,r);break;case`xlinkType`:kt(e,`http://www.w3.org/1999/xlink`,`xlink:type`,r);break;case`xmlBase`:kt(e,`http://www.w3.org/XML/1998/namespace`,`xml:base`,r);break;case`xmlLang`:kt(e,`http://www.w3.org/XML/1998/namespace`,`xml:lang`,r);break;case`xmlSpace`:kt(e,`http://www.w3.org/XML/1998/namespace`,`xml:space`,r);break;case`is`:Dt(e,`is`,r);break;case`innerText`:case`textContent`:break;default:(!(2<n.length)||n[0]!==`o`&&n[0]!==`O`||n[1]!==`n`&&n[1]!==`N`)&&(n=Yt.get(n)||n,Dt(e,n,r))}}function Nd(e,t,n,r,a,o){switch(n){case`style`:qt(e,r,o);break;case`dangerouslySetInnerHTML`:if(r!=null){if(typeof r!=`object`||!(`__html`in r))throw Error(i(61));if(n=r.__html,n!=null){if(a.children!=null)throw Error(i(60));e.innerHTML=n}}break;case`children`:typeof r==`string`?Wt(e,r):(typeof r==`number`||typeof r==`bigint`)&&Wt(e,``+r);break;case`onScroll`:r!=null&&X(`scroll`,e);break;case`onScrollEnd`:r!=null&&X(`scrollend`,e);break;case`onClick`:r!=null&&(e.onclick=Qt);break;case`suppressContentEditableWarning`:case`suppressHydrationWarning`:case`innerHTML`:case`ref`:break;case`innerText`:case`textContent`:break;default:if(!bt.hasOwnProperty(n))a:{if(n[0]===`o`&&n[1]===`n`&&(a=n.endsWith(`Capture`),t=n.slice(2,a?n.length-7:void 0),o=e[ot]||null,o=o==null?null:o[n],typeof o==`function`&&e.removeEventListener(t,o,a),typeof r==`function`)){typeof o!=`function`&&o!==null&&(n in e?e[n]=null:e.hasAttribute(n)&&e.removeAttribute(n)),e.addEventListener(t,r,a);break a}n in e?e[n]=r:!0===r?e.setAttribute(n,``):Dt(e,n,r)}}}function Pd(e,t,n){switch(t){case`div`:case`span`:case`svg`:case`path`:case`a`:case`g`:case`p`:case`li`:break;case`img`:X(`error`,e),X(`load`,e);var r=!1,a=!1,o;for(o in n)if(n.hasOwnProperty(o)){var s=n[o];if(s!=null)switch(o){case`src`:r=!0;break;case`srcSet`:a=!0;break;case`children`:case`dangerouslySetInnerHTML`:throw Error(i(137,t));default:$(e,t,o,s,n,null)}}a&&$(e,t,`srcSet`,n.srcSet,n,null),r&&$(e,t,`src`,n.src,n,null);return;case`input`:X(`invalid`,e);var c=o=s=a=null,l=null,u=null;for(r in n)if(n.hasOwnProperty(r)){var d=n[r];if(d!=null)switch(r){case`name`:a=d;break;case`type`:s=d;break;case`checked`:l=d;break;case`defaultChecked`:u=d;break;case`value`:o=d;break;case`defaultValue`:c=d;break;case`children`:case`dangerouslySetInnerHTML`:if(d!=null)throw Error(i(137,t));break;default:$(e,t,r,d,n,null)}}zt(e,o,c,l,u,s,a,!1);return;case`select`:for(a in X(`invalid`,e),r=s=o=null,n)if(n.hasOwnProperty(a)&&(c=n[a],c!=null))switch(a){case`value`:o=c;break;case`defaultValue`:s=c;break;case`multiple`:r=c;default:$(e,t,a,c,n,null)}t=o,n=s,e.multiple=!!r,t==null?n!=null&&Vt(e,!!r,n,!0):Vt(e,!!r,t,!1);return;case`textarea`:for(s in X(`invalid`,e),o=a=r=null,n)if(n.hasOwnProperty(s)&&(c=n[s],c!=null))switch(s){case`value`:r=c;break;case`defaultValue`:a=c;break;case`children`:o=c;break;case`dangerouslySetInnerHTML`:if(c!=null)throw Error(i(91));break;default:$(e,t,s,c,n,null)}Ut(e,r,a,o);return;case`option`:for(l in n)if(n.hasOwnProperty(l)&&(r=n[l],r!=null))switch(l){case`selected`:e.selected=r&&typeof r!=`function`&&typeof r!=`symbol`;break;default:$(e,t,l,r,n,null)}return;case`dialog`:X(`beforetoggle`,e),X(`toggle`,e),X(`cancel`,e),X(`close`,e);break;case`iframe`:case`object`:X(`load`,e);break;case`video`:case`audio`:for(r=0;r<yd.length;r++)X(yd[r],e);break;case`image`:X(`error`,e),X(`load`,e);break;case`details`:X(`toggle`,e);break;case`embed`:case`source`:case`link`:X(`error`,e),X(`load`,e);case`area`:case`base`:case`br`:case`col`:case`hr`:case`keygen`:case`meta`:case`param`:case`track`:case`wbr`:case`menuitem`:for(u in n)if(n.hasOwnProperty(u)&&(r=n[u],r!=null))switch(u){case`children`:case`dangerouslySetInnerHTML`:throw Error(i(137,t));default:$(e,t,u,r,n,null)}return;default:if(Jt(t)){for(d in n)n.hasOwnProperty(d)&&(r=n[d],r!==void 0&&Nd(e,t,d,r,n,void 0));return}}for(c in n)n.hasOwnProperty(c)&&(r=n[c],r!=null&&$(e,t,c,r,n,null))}function Fd(e,t,n,r){switch(t){case`div`:case`span`:case`svg`:case`path`:case`a`:case`g`:case`p`:case`li`:break;case`input`:var a=null,o=null,s=null,c=null,l=null,u=null,d=null;for(m in n){var f=n[m];if(n.hasOwnProperty(m)&&f!=null)switch(m){case`checked`:break;case`value`:break;case`defaultValue`:l=f;default:r.hasOwnProperty(m)||$(e,t,m,null,r,f)}}for(var p in r){var m=r[p];if(f=n[p],r.hasOwnProperty(p)&&(m!=null||f!=null))switch(p){case`type`:o=m;break;case`name`:a=m;break;case`checked`:u=m;break;case`defaultChecked`:d=m;break;case`value`:s=m;break;case`defaultValue`:c=m;break;case`children`:case`dangerouslySetInnerHTML`:if(m!=null)throw Error(i(137,t));break;default:m!==f&&$(e,t,p,m,r,f)}}Rt(e,s,c,l,u,d,o,a);return;case`select`:for(o in m=s=c=p=null,n)if(l=n[o],n.hasOwnProperty(o)&&l!=null)switch(o){case`value`:break;case`multiple`:m=l;default:r.hasOwnProperty(o)||$(e,t,o,null,r,l)}for(a in r)if(o=r[a],l=n[a],r.hasOwnProperty(a)&&(o!=null||l!=null))switch(a){case`value`:p=o;break;case`defaultValue`:c=o;break;case`multiple`:s=o;default:o!==l&&$(e,t,a,o,r,l)}t=c,n=s,r=m,p==null?!!r!=!!n&&(t==null?Vt(e,!!n,n?[]:``,!1):Vt(e,!!n,t,!0)):Vt(e,!!n,p,!1);return;case`textarea`:for(c in m=p=null,n)if(a=n[c],n.hasOwnProperty(c)&&a!=null&&!r.hasOwnProperty(c))switch(c){case`value`:break;case`children`:break;default:$(e,t,c,null,r,a)}for(s in r)if(a=r[s],o=n[s],r.hasOwnProperty(s)&&(a!=null||o!=null))switch(s){case`value`:p=a;break;case`defaultValue`:m=a;break;case`children`:break;case`dangerouslySetInnerHTML`:if(a!=null)throw Error(i(91));break;default:a!==o&&$(e,t,s,a,r,o)}Ht(e,p,m);return;case`option`:for(var h in n)if(p=n[h],n.hasOwnProperty(h)&&p!=null&&!r.hasOwnProperty(h))switch(h){case`selected`:e.selected=!1;break;default:$(e,t,h,null,r,p)}for(l in r)if(p=r[l],m=n[l],r.hasOwnProperty(l)&&p!==m&&(p!=null||m!=null))switch(l){case`selected`:e.selected=p&&typeof p!=`function`&&typeof p!=`symbol`;break;default:$(e,t,l,p,r,m)}return;case`img`:case`link`:case`area`:case`base`:case`br`:case`col`:case`embed`:case`hr`:case`keygen`:case`meta`:case`param`:case`source`:case`track`:case`wbr`:case`menuitem`:for(var g in n)p=n[g],n.hasOwnProperty(g)&&p!=null&&!r.hasOwnProperty(g)&&$(e,t,g,null,r,p);for(u in r)if(p=r[u],m=n[u],r.hasOwnProperty(u)&&p!==m&&(p!=null||m!=null))switch(u){case`children`:case`dangerouslySetInnerHTML`:if(p!=null)throw Error(i(137,t));break;default:$(e,t,u,p,r,m)}return;default:if(Jt(t)){for(var _ in n)p=n[_],n.hasOwnProperty(_)&&p!==void 0&&!r.hasOwnProperty(_)&&Nd(e,t,_,void 0,r,p);for(d in r)p=r[d],m=n[d],!r.hasOwnProperty(d)||p===m||p===void 0&&m===void 0||Nd(e,t,d,p,r,m);return}}for(var v in n)p=n[v],n.hasOwnProperty(v)&&p!=null&&!r.hasOwnProperty(v)&&$(e,t,v,null,r,p);for(f in r)p=r[f],m=n[f],!r.hasOwnProperty(f)||p===m||p==null&&m==null||$(e,t,f,p,r,m)}function Id(e){switch(e){case`css`:case`script`:case`font`:case`img`:case`image`:case`input`:case`link`:return!0;default:return!1}}function Ld(){if(typeof performance.getEntriesByType==`function`){for(var e=0,t=0,n=performance.getEntriesByType(`resource`),r=0;r<n.length;r++){var i=n[r],a=i.transferSize,o=i.initiatorType,s=i.duration;if(a&&s&&Id(o)){for(o=0,s=i.responseEnd,r+=1;r<n.length;r++){var c=n[r],l=c.startTime;if(l>s)break;var u=c.transferSize,d=c.initiatorType;u&&Id(d)&&(c=c.responseEnd,o+=u*(c<s?1:(s-l)/(c-l)))}if(--r,t+=8*(a+o)/(i.duration/1e3),e++,10<e)break}}if(0<e)return t/e/1e6}return navigator.connection&&(e=navigator.connection.downlink,typeof e==`number`)?e:5}var Rd=null,zd=null;function Bd(e){return e.nodeType===9?e:e.ownerDocument}function Vd(e){switch(e){case`http://www.w3.org/2000/svg`:return 1;case`http://www.w3.org/1998/Math/MathML`:return 2;default:return 0}}function Hd(e,t){if(e===0)switch(t){case`svg`:return 1;case`math`:return 2;default:return 0}return e===1&&t===`foreignObject`?0:e}function Ud(e,t){return e===`textarea`||e===`noscript`||typeof t.children==`string`||typeof t.children==`number`||typeof t.children==`bigint`||typeof t.dangerouslySetInnerHTML==`object`&&t.dangerouslySetInnerHTML!==null&&t.dangerouslySetInnerHTML.__html!=null}var Wd=null;function Gd(){var e=window.event;return e&&e.type===`popstate`?e===Wd?!1:(Wd=e,!0):(Wd=null,!1)}var Kd=typeof setTimeout==`function`?setTimeout:void 0,qd=typeof clearTimeout==`function`?clearTimeout:void 0,Jd=typeof Promise==`function`?Promise:void 0,Yd=typeof queueMicrotask==`function`?queueMicrotask:Jd===void 0?Kd:function(e){return Jd.resolve(null).then(e).catch(Xd)};function Xd(e){setTimeout(function(){throw e})}function Zd(e){return e===`head`}function Qd(e,t){var n=t,r=0;do{var i=n.nextSibling;if(e.removeChild(n),i&&i.nodeType===8)if(n=i.data,n===`/$`||n===`/&`){if(r===0){e.removeChild(i),Np(t);return}r--}else if(n===`$`||n===`$?`||n===`$~`||n===`$!`||n===`&`)r++;else if(n===`html`)pf(e.ownerDocument.documentElement);else if(n===`head`){n=e.ownerDocument.head,pf(n);for(var a=n.firstChild;a;){var o=a.nextSibling,s=a.nodeName;a[ft]||s===`SCRIPT`||s===`STYLE`||s===`LINK`&&a.rel.toLowerCase()===`stylesheet`||n.removeChild(a),a=o}}else n===`body`&&pf(e.ownerDocument.body);n=i}while(n);Np(t)}function $d(e,t){var n=e;e=0;do{var r=n.nextSibling;if(n.nodeType===1?t?(n._stashedDisplay=n.style.display,n.style.display=`none`):(n.style.display=n._stashedDisplay||``,n.getAttribute(`style`)===``&&n.removeAttribute(`style`)):n.nodeType===3&&(t?(n._stashedText=n.nodeValue,n.nodeValue=``):n.nodeValue=n._stashedText||``),r&&r.nodeType===8)if(n=r.data,n===`/$`){if(e===0)break;e--}else n!==`$`&&n!==`$?`&&n!==`$~`&&n!==`$!`||e++;n=r}while(n)}function ef(e){var t=e.firstChild;for(t&&t.nodeType===10&&(t=t.nextSibling);t;){var n=t;switch(t=t.nextSibling,n.nodeName){case`HTML`:case`HEAD`:case`BODY`:ef(n),pt(n);continue;case`SCRIPT`:case`STYLE`:continue;case`LINK`:if(n.rel.toLowerCase()===`stylesheet`)continue}e.removeChild(n)}}function tf(e,t,n,r){for(;e.nodeType===1;){var i=n;if(e.nodeName.toLowerCase()!==t.toLowerCase()){if(!r&&(e.nodeName!==`INPUT`||e.type!==`hidden`))break}else if(!r)if(t===`input`&&e.type===`hidden`){var a=i.name==null?null:``+i.name;if(i.type===`hidden`&&e.getAttribute(`name`)===a)return e}else return e;else if(!e[ft])switch(t){case`meta`:if(!e.hasAttribute(`itemprop`))break;return e;case`link`:if(a=e.getAttribute(`rel`),a===`stylesheet`&&e.hasAttribute(`data-precedence`)||a!==i.rel||e.getAttribute(`href`)!==(i.href==null||i.href===``?null:i.href)||e.getAttribute(`crossorigin`)!==(i.crossOrigin==null?null:i.crossOrigin)||e.getAttribute(`title`)!==(i.title==null?null:i.title))break;return e;case`style`:if(e.hasAttribute(`data-precedence`))break;return e;case`script`:if(a=e.getAttribute(`src`),(a!==(i.src==null?null:i.src)||e.getAttribute(`type`)!==(i.type==null?null:i.type)||e.getAttribute(`crossorigin`)!==(i.crossOrigin==null?null:i.crossOrigin))&&a&&e.hasAttribute(`async`)&&!e.hasAttribute(`itemprop`))break;return e;default:return e}if(e=cf(e.nextSibling),e===null)break}return null}function nf(e,t,n){if(t===``)return null;for(;e.nodeType!==3;)if((e.nodeType!==1||e.nodeName!==`INPUT`||e.type!==`hidden`)&&!n||(e=cf(e.nextSibling),e===null))return null;return e}function rf(e,t){for(;e.nodeType!==8;)if((e.nodeType!==1||e.nodeName!==`INPUT`||e.type!==`hidden`)&&!t||(e=cf(e.nextSibling),e===null))return null;return e}function af(e){return e.data===`$?`||e.data===`$~`}function of(e){return e.data===`$!`||e.data===`$?`&&e.ownerDocument.readyState!==`loading`}function sf(e,t){var n=e.ownerDocument;if(e.data===`$~`)e._reactRetry=t;else if(e.data!==`$?`||n.readyState!==`loading`)t();else{var r=function(){t(),n.removeEventListener(`DOMContentLoaded`,r)};n.addEventListener(`DOMContentLoaded`,r),e._reactRetry=r}}function cf(e){for(;e!=null;e=e.nextSibling){var t=e.nodeType;if(t===1||t===3)break;if(t===8){if(t=e.data,t===`$`||t===`$!`||t===`$?`||t===`$~`||t===`&`||t===`F!`||t===`F`)break;if(t===`/$`||t===`/&`)return null}}return e}var lf=null;function uf(e){e=e.nextSibling;for(var t=0;e;){if(e.nodeType===8){var n=e.data;if(n===`/$`||n===`/&`){if(t===0)return cf(e.nextSibling);t--}else n!==`$`&&n!==`$!`&&n!==`$?`&&n!==`$~`&&n!==`&`||t++}e=e.nextSibling}return null}function df(e){e=e.previousSibling;for(var t=0;e;){if(e.nodeType===8){var n=e.data;if(n===`$`||n===`$!`||n===`$?`||n===`$~`||n===`&`){if(t===0)return e;t--}else n!==`/$`&&n!==`/&`||t++}e=e.previousSibling}return null}function ff(e,t,n){switch(t=Bd(n),e){case`html`:if(e=t.documentElement,!e)throw Error(i(452));return e;case`head`:if(e=t.head,!e)throw Error(i(453));return e;case`body`:if(e=t.body,!e)throw Error(i(454));return e;default:throw Error(i(451))}}function pf(e){for(var t=e.attributes;t.length;)e.removeAttributeNode(t[0]);pt(e)}var mf=new Map,hf=new Set;function gf(e){return typeof e.getRootNode==`function`?e.getRootNode():e.nodeType===9?e:e.ownerDocument}var _f=P.d;P.d={f:vf,r:yf,D:Sf,C:Cf,L:wf,m:Tf,X:Df,S:Ef,M:Of};function vf(){var e=_f.f(),t=Tu();return e||t}function yf(e){var t=ht(e);t!==null&&t.tag===5&&t.type===`form`?Os(t):_f.r(e)}var bf=typeof document>`u`?null:document;function xf(e,t,n){var r=bf;if(r&&typeof t==`string`&&t){var i=Lt(t);i=`link[rel="`+e+`"][href="`+i+`"]`,typeof n==`string`&&(i+=`[crossorigin="`+n+`"]`),hf.has(i)||(hf.add(i),e={rel:e,crossOrigin:n,href:t},r.querySelector(i)===null&&(t=r.createElement(`link`),Pd(t,`link`,e),vt(t),r.head.appendChild(t)))}}function Sf(e){_f.D(e),xf(`dns-prefetch`,e,null)}function Cf(e,t){_f.C(e,t),xf(`preconnect`,e,t)}function wf(e,t,n){_f.L(e,t,n);var r=bf;if(r&&e&&t){var i=`link[rel="preload"][as="`+Lt(t)+`"]`;t===`image`&&n&&n.imageSrcSet?(i+=`[imagesrcset="`+Lt(n.imageSrcSet)+`"]`,typeof n.imageSizes==`string`&&(i+=`[imagesizes="`+Lt(n.imageSizes)+`"]`)):i+=`[href="`+Lt(e)+`"]`;var a=i;switch(t){case`style`:a=Af(e);break;case`script`:a=Pf(e)}mf.has(a)||(e=h({rel:`preload`,href:t===`image`&&n&&n.imageSrcSet?void 0:e,as:t},n),mf.set(a,e),r.querySelector(i)!==null||t===`style`&&r.querySelector(jf(a))||t===`script`&&r.querySelector(Ff(a))||(t=r.createElement(`link`),Pd(t,`link`,e),vt(t),r.head.appendChild(t)))}}function Tf(e,t){_f.m(e,t);var n=bf;if(n&&e){var r=t&&typeof t.as==`string`?t.as:`script`,i=`link[rel="modulepreload"][as="`+Lt(r)+`"][href="`+Lt(e)+`"]`,a=i;switch(r){case`audioworklet`:case`paintworklet`:case`serviceworker`:case`sharedworker`:case`worker`:case`script`:a=Pf(e)}if(!mf.has(a)&&(e=h({rel:`modulepreload`,href:e},t),mf.set(a,e),n.querySelector(i)===null)){switch(r){case`audioworklet`:case`paintworklet`:case`serviceworker`:case`sharedworker`:case`worker`:case`script`:if(n.querySelector(Ff(a)))return}r=n.createElement(`link`),Pd(r,`link`,e),vt(r),n.head.appendChild(r)}}}function Ef(e,t,n){_f.S(e,t,n);var r=bf;if(r&&e){var i=_t(r).hoistableStyles,a=Af(e);t||=`default`;var o=i.get(a);if(!o){var s={loading:0,preload:null};if(o=r.querySelector(jf(a)))s.loading=5;else{e=h({rel:`stylesheet`,href:e,"data-precedence":t},n),(n=mf.get(a))&&Rf(e,n);var c=o=r.createElement(`link`);vt(c),Pd(c,`link`,e),c._p=new Promise(function(e,t){c.onload=e,c.onerror=t}),c.addEventListener(`load`,function(){s.loading|=1}),c.addEventListener(`error`,function(){s.loading|=2}),s.loading|=4,Lf(o,t,r)}o={type:`stylesheet`,instance:o,count:1,state:s},i.set(a,o)}}}function Df(e,t){_f.X(e,t);var n=bf;if(n&&e){var r=_t(n).hoistableScripts,i=Pf(e),a=r.get(i);a||(a=n.querySelector(Ff(i)),a||(e=h({src:e,async:!0},t),(t=mf.get(i))&&zf(e,t),a=n.createElement(`script`),vt(a),Pd(a,`link`,e),n.head.appendChild(a)),a={type:`script`,instance:a,count:1,state:null},r.set(i,a))}}function Of(e,t){_f.M(e,t);var n=bf;if(n&&e){var r=_t(n).hoistableScripts,i=Pf(e),a=r.get(i);a||(a=n.querySelector(Ff(i)),a||(e=h({src:e,async:!0,type:`module`},t),(t=mf.get(i))&&zf(e,t),a=n.createElement(`script`),vt(a),Pd(a,`link`,e),n.head.appendChild(a)),a={type:`script`,instance:a,count:1,state:null},r.set(i,a))}}function kf(e,t,n,r){var a=(a=le.current)?gf(a):null;if(!a)throw Error(i(446));switch(e){case`meta`:case`title`:return null;case`style`:return typeof n.precedence==`string`&&typeof n.href==`string`?(t=Af(n.href),n=_t(a).hoistableStyles,r=n.get(t),r||(r={type:`style`,instance:null,count:0,state:null},n.set(t,r)),r):{type:`void`,instance:null,count:0,state:null};case`link`:if(n.rel===`stylesheet`&&typeof n.href==`string`&&typeof n.precedence==`string`){e=Af(n.href);var o=_t(a).hoistableStyles,s=o.get(e);if(s||(a=a.ownerDocument||a,s={type:`stylesheet`,instance:null,count:0,state:{loading:0,preload:null}},o.set(e,s),(o=a.querySelector(jf(e)))&&!o._p&&(s.instance=o,s.state.loading=5),mf.has(e)||(n={rel:`preload`,as:`style`,href:n.href,crossOrigin:n.crossOrigin,integrity:n.integrity,media:n.media,hrefLang:n.hrefLang,referrerPolicy:n.referrerPolicy},mf.set(e,n),o||Nf(a,e,n,s.state))),t&&r===null)throw Error(i(528,``));return s}if(t&&r!==null)throw Error(i(529,``));return null;case`script`:return t=n.async,n=n.src,typeof n==`string`&&t&&typeof t!=`function`&&typeof t!=`symbol`?(t=Pf(n),n=_t(a).hoistableScripts,r=n.get(t),r||(r={type:`script`,instance:null,count:0,state:null},n.set(t,r)),r):{type:`void`,instance:null,count:0,state:null};default:throw Error(i(444,e))}}function Af(e){return`href="`+Lt(e)+`"`}function jf(e){return`link[rel="stylesheet"][`+e+`]`}function Mf(e){return h({},e,{"data-precedence":e.precedence,precedence:null})}function Nf(e,t,n,r){e.querySelector(`link[rel="preload"][as="style"][`+t+`]`)?r.loading=1:(t=e.createElement(`link`),r.preload=t,t.addEventListener(`load`,function(){return r.loading|=1}),t.addEventListener(`error`,function(){return r.loading|=2}),Pd(t,`link`,n),vt(t),e.head.appendChild(t))}function Pf(e){return`[src="`+Lt(e)+`"]`}function Ff(e){return`script[async]`+e}function If(e,t,n){if(t.count++,t.instance===null)switch(t.type){case`style`:var r=e.querySelector(`style[data-href~="`+Lt(n.href)+`"]`);if(r)return t.instance=r,vt(r),r;var a=h({},n,{"data-href":n.href,"data-precedence":n.precedence,href:null,precedence:null});return r=(e.ownerDocument||e).createElement(`style`),vt(r),Pd(r,`style`,a),Lf(r,n.precedence,e),t.instance=r;case`stylesheet`:a=Af(n.href);var o=e.querySelector(jf(a));if(o)return t.state.loading|=4,t.instance=o,vt(o),o;r=Mf(n),(a=mf.get(a))&&Rf(r,a),o=(e.ownerDocument||e).createElement(`link`),vt(o);var s=o;return s._p=new Promise(function(e,t){s.onload=e,s.onerror=t}),Pd(o,`link`,r),t.state.loading|=4,Lf(o,n.precedence,e),t.instance=o;case`script`:return o=Pf(n.src),(a=e.querySelector(Ff(o)))?(t.instance=a,vt(a),a):(r=n,(a=mf.get(o))&&(r=h({},n),zf(r,a)),e=e.ownerDocument||e,a=e.createElement(`script`),vt(a),Pd(a,`link`,r),e.head.appendChild(a),t.instance=a);case`void`:return null;default:throw Error(i(443,t.type))}else t.type===`stylesheet`&&!(t.state.loading&4)&&(r=t.instance,t.state.loading|=4,Lf(r,n.precedence,e));return t.instance}function Lf(e,t,n){for(var r=n.querySelectorAll(`link[rel="stylesheet"][data-precedence],style[data-precedence]`),i=r.length?r[r.length-1]:null,a=i,o=0;o<r.length;o++){var s=r[o];if(s.dataset.precedence===t)a=s;else if(a!==i)break}a?a.parentNode.insertBefore(e,a.nextSibling):(t=n.nodeType===9?n.head:n,t.insertBefore(e,t.firstChild))}function Rf(e,t){e.crossOrigin??=t.crossOrigin,e.referrerPolicy??=t.referrerPolicy,e.title??=t.title}function zf(e,t){e.crossOrigin??=t.crossOrigin,e.referrerPolicy??=t.referrerPolicy,e.integrity??=t.integrity}var Bf=null;function Vf(e,t,n){if(Bf===null){var r=new Map,i=Bf=new Map;i.set(n,r)}else i=Bf,r=i.get(n),r||(r=new Map,i.set(n,r));if(r.has(e))return r;for(r.set(e,null),n=n.getElementsByTagName(e),i=0;i<n.length;i++){var a=n[i];if(!(a[ft]||a[at]||e===`link`&&a.getAttribute(`rel`)===`stylesheet`)&&a.namespaceURI!==`http://www.w3.org/2000/svg`){var o=a.getAttribute(t)||``;o=e+o;var s=r.get(o);s?s.push(a):r.set(o,[a])}}return r}function Hf(e,t,n){e=e.ownerDocument||e,e.head.insertBefore(n,t===`title`?e.querySelector(`head > title`):null)}function Uf(e,t,n){if(n===1||t.itemProp!=null)return!1;switch(e){case`meta`:case`title`:return!0;case`style`:if(typeof t.precedence!=`string`||typeof t.href!=`string`||t.href===``)break;return!0;case`link`:if(typeof t.rel!=`string`||typeof t.href!=`string`||t.href===``||t.onLoad||t.onError)break;switch(t.rel){case`stylesheet`:return e=t.disabled,typeof t.precedence==`string`&&e==null;default:return!0}case`script`:if(t.async&&typeof t.async!=`function`&&typeof t.async!=`symbol`&&!t.onLoad&&!t.onError&&t.src&&typeof t.src==`string`)return!0}return!1}function Wf(e){return!(e.type===`stylesheet`&&!(e.state.loading&3))}function Gf(e,t,n,r){if(n.type===`stylesheet`&&(typeof r.media!=`string`||!1!==matchMedia(r.media).matches)&&!(n.state.loading&4)){if(n.instance===null){var i=Af(r.href),a=t.querySelector(jf(i));if(a){t=a._p,typeof t==`object`&&t&&typeof t.then==`function`&&(e.count++,e=Jf.bind(e),t.then(e,e)),n.state.loading|=4,n.instance=a,vt(a);return}a=t.ownerDocument||t,r=Mf(r),(i=mf.get(i))&&Rf(r,i),a=a.createElement(`link`),vt(a);var o=a;o._p=new Promise(function(e,t){o.onload=e,o.onerror=t}),Pd(a,`link`,r),n.instance=a}e.stylesheets===null&&(e.stylesheets=new Map),e.stylesheets.set(n,t),(t=n.state.preload)&&!(n.state.loading&3)&&(e.count++,n=Jf.bind(e),t.addEventListener(`load`,n),t.addEventListener(`error`,n))}}var Kf=0;function qf(e,t){return e.stylesheets&&e.count===0&&Xf(e,e.stylesheets),0<e.count||0<e.imgCount?function(n){var r=setTimeout(function(){if(e.stylesheets&&Xf(e,e.stylesheets),e.unsuspend){var t=e.unsuspend;e.unsuspend=null,t()}},6e4+t);0<e.imgBytes&&Kf===0&&(Kf=62500*Ld());var i=setTimeout(function(){if(e.waitingForImages=!1,e.count===0&&(e.stylesheets&&Xf(e,e.stylesheets),e.unsuspend)){var t=e.unsuspend;e.unsuspend=null,t()}},(e.imgBytes>Kf?50:800)+t);return e.unsuspend=n,function(){e.unsuspend=null,clearTimeout(r),clearTimeout(i)}}:null}function Jf(){if(this.count--,this.count===0&&(this.imgCount===0||!this.waitingForImages)){if(this.stylesheets)Xf(this,this.stylesheets);else if(this.unsuspend){var e=this.unsuspend;this.unsuspend=null,e()}}}var Yf=null;function Xf(e,t){e.stylesheets=null,e.unsuspend!==null&&(e.count++,Yf=new Map,t.forEach(Zf,e),Yf=null,Jf.call(e))}function Zf(e,t){if(!(t.state.loading&4)){var n=Yf.get(e);if(n)var r=n.get(null);else{n=new Map,Yf.set(e,n);for(var i=e.querySelectorAll(`link[data-precedence],style[data-precedence]`),a=0;a<i.length;a++){var o=i[a];(o.nodeName===`LINK`||o.getAttribute(`media`)!==`not all`)&&(n.set(o.dataset.precedence,o),r=o)}r&&n.set(null,r)}i=t.instance,o=i.getAttribute(`data-precedence`),a=n.get(o)||r,a===r&&n.set(null,i),n.set(o,i),this.count++,r=Jf.bind(this),i.addEventListener(`load`,r),i.addEventListener(`error`,r),a?a.parentNode.insertBefore(i,a.nextSibling):(e=e.nodeType===9?e.head:e,e.insertBefore(i,e.firstChild)),t.state.loading|=4}}var Qf={$$typeof:C,Provider:null,Consumer:null,_currentValue:re,_currentValue2:re,_threadCount:0};function $f(e,t,n,r,i,a,o,s,c){this.tag=1,this.containerInfo=e,this.pingCache=this.current=this.pendingChildren=null,this.timeoutHandle=-1,this.callbackNode=this.next=this.pendingContext=this.context=this.cancelPendingCommit=null,this.callbackPriority=0,this.expirationTimes=Je(-1),this.entangledLanes=this.shellSuspendCounter=this.errorRecoveryDisabledLanes=this.expiredLanes=this.warmLanes=this.pingedLanes=this.suspendedLanes=this.pendingLanes=0,this.entanglements=Je(0),this.hiddenUpdates=Je(null),this.identifierPrefix=r,this.onUncaughtError=i,this.onCaughtError=a,this.onRecoverableError=o,this.pooledCache=null,this.pooledCacheLanes=0,this.formState=c,this.incompleteTransitions=new Map}function ep(e,t,n,r,i,a,o,s,c,l,u,d){return e=new $f(e,t,n,o,c,l,u,d,s),t=1,!0===a&&(t|=24),a=si(3,null,null,t),e.current=a,a.stateNode=e,t=sa(),t.refCount++,e.pooledCache=t,t.refCount++,a.memoizedState={element:r,isDehydrated:n,cache:t},Ba(a),e}function tp(e){return e?(e=ai,e):ai}function np(e,t,n,r,i,a){i=tp(i),r.context===null?r.context=i:r.pendingContext=i,r=Ha(t),r.payload={element:n},a=a===void 0?null:a,a!==null&&(r.callback=a),n=Ua(e,r,t),n!==null&&(bu(n,e,t),Wa(n,e,t))}function rp(e,t){if(e=e.memoizedState,e!==null&&e.dehydrated!==null){var n=e.retryLane;e.retryLane=n!==0&&n<t?n:t}}function ip(e,t){rp(e,t),(e=e.alternate)&&rp(e,t)}function ap(e){if(e.tag===13||e.tag===31){var t=ni(e,67108864);t!==null&&bu(t,e,67108864),ip(e,67108864)}}function op(e){if(e.tag===13||e.tag===31){var t=vu();t=et(t);var n=ni(e,t);n!==null&&bu(n,e,t),ip(e,t)}}var sp=!0;function cp(e,t,n,r){var i=N.T;N.T=null;var a=P.p;try{P.p=2,up(e,t,n,r)}finally{P.p=a,N.T=i}}function lp(e,t,n,r){var i=N.T;N.T=null;var a=P.p;try{P.p=8,up(e,t,n,r)}finally{P.p=a,N.T=i}}function up(e,t,n,r){if(sp){var i=dp(r);if(i===null)wd(e,t,r,fp,n),Cp(e,r);else if(Tp(i,e,t,n,r))r.stopPropagation();else if(Cp(e,r),t&4&&-1<Sp.indexOf(e)){for(;i!==null;){var a=ht(i);if(a!==null)switch(a.tag){case 3:if(a=a.stateNode,a.current.memoizedState.isDehydrated){var o=We(a.pendingLanes);if(o!==0){var s=a;for(s.pendingLanes|=2,s.entangledLanes|=2;o;){var c=1<<31-Le(o);s.entanglements[1]|=c,o&=~c}ad(a),!(H&6)&&(ou=Ee()+500,od(0,!1))}}break;case 31:case 13:s=ni(a,2),s!==null&&bu(s,a,2),Tu(),ip(a,2)}if(a=dp(r),a===null&&wd(e,t,r,fp,n),a===i)break;i=a}i!==null&&r.stopPropagation()}else wd(e,t,r,null,n)}}function dp(e){return e=en(e),pp(e)}var fp=null;function pp(e){if(fp=null,e=mt(e),e!==null){var t=o(e);if(t===null)e=null;else{var n=t.tag;if(n===13){if(e=s(t),e!==null)return e;e=null}else if(n===31){if(e=c(t),e!==null)return e;e=null}else if(n===3){if(t.stateNode.current.memoizedState.isDehydrated)return t.tag===3?t.stateNode.containerInfo:null;e=null}else t!==e&&(e=null)}}return fp=e,null}function mp(e){switch(e){case`beforetoggle`:case`cancel`:case`click`:case`close`:case`contextmenu`:case`copy`:case`cut`:case`auxclick`:case`dblclick`:case`dragend`:case`dragstart`:case`drop`:case`focusin`:case`focusout`:case`input`:case`invalid`:case`keydown`:case`keypress`:case`keyup`:case`mousedown`:case`mouseup`:case`paste`:case`pause`:case`play`:case`pointercancel`:case`pointerdown`:case`pointerup`:case`ratechange`:case`reset`:case`resize`:case`seeked`:case`submit`:case`toggle`:case`touchcancel`:case`touchend`:case`touchstart`:case`volumechange`:case`change`:case`selectionchange`:case`textInput`:case`compositionstart`:case`compositionend`:case`compositionupdate`:case`beforeblur`:case`afterblur`:case`beforeinput`:case`blur`:case`fullscreenchange`:case`focus`:case`hashchange`:case`popstate`:case`select`:case`selectstart`:return 2;case`drag`:case`dragenter`:case`dragexit`:case`dragleave`:case`dragover`:case`mousemove`:case`mouseout`:case`mouseover`:case`pointermove`:case`pointerout`:case`pointerover`:case`scroll`:case`touchmove`:case`wheel`:case`mouseenter`:case`mouseleave`:case`pointerenter`:case`pointerleave`:return 8;case`message`:switch(De()){case Oe:return 2;case R:return 8;case ke:case Ae:return 32;case je:return 268435456;default:return 32}default:return 32}}var hp=!1,gp=null,_p=null,vp=null,yp=new Map,bp=new Map,xp=[],Sp=`mousedown mouseup touchcancel touchend touchstart auxclick dblclick pointercancel pointerdown pointerup dragend dragstart drop compositionend compositionstart keydown keypress keyup input textInput copy cut paste click change contextmenu reset`.split(` `);function Cp(e,t){switch(e){case`focusin`:case`focusout`:gp=null;break;case`dragenter`:case`dragleave`:_p=null;break;case`mouseover`:case`mouseout`:vp=null;break;case`pointerover`:case`pointerout`:yp.delete(t.pointerId);break;case`gotpointercapture`:case`lostpointercapture`:bp.delete(t.pointerId)}}function wp(e,t,n,r,i,a){return e===null||e.nativeEvent!==a?(e={blockedOn:t,domEventName:n,eventSystemFlags:r,nativeEvent:a,targetContainers:[i]},t!==null&&(t=ht(t),t!==null&&ap(t)),e):(e.eventSystemFlags|=r,t=e.targetContainers,i!==null&&t.indexOf(i)===-1&&t.push(i),e)}function Tp(e,t,n,r,i){switch(t){case`focusin`:return gp=wp(gp,e,t,n,r,i),!0;case`dragenter`:return _p=wp(_p,e,t,n,r,i),!0;case`mouseover`:return vp=wp(vp,e,t,n,r,i),!0;case`pointerover`:var a=i.pointerId;return yp.set(a,wp(yp.get(a)||null,e,t,n,r,i)),!0;case`gotpointercapture`:return a=i.pointerId,bp.set(a,wp(bp.get(a)||null,e,t,n,r,i)),!0}return!1}function Ep(e){var t=mt(e.target);if(t!==null){var n=o(t);if(n!==null){if(t=n.tag,t===13){if(t=s(n),t!==null){e.blockedOn=t,rt(e.priority,function(){op(n)});return}}else if(t===31){if(t=c(n),t!==null){e.blockedOn=t,rt(e.priority,function(){op(n)});return}}else if(t===3&&n.stateNode.current.memoizedState.isDehydrated){e.blockedOn=n.tag===3?n.stateNode.containerInfo:null;return}}}e.blockedOn=null}function Dp(e){if(e.blockedOn!==null)return!1;for(var t=e.targetContainers;0<t.length;){var n=dp(e.nativeEvent);if(n===null){n=e.nativeEvent;var r=new n.constructor(n.type,n);$t=r,n.target.dispatchEvent(r),$t=null}else return t=ht(n),t!==null&&ap(t),e.blockedOn=n,!1;t.shift()}return!0}function Op(e,t,n){Dp(e)&&n.delete(t)}function kp(){hp=!1,gp!==null&&Dp(gp)&&(gp=null),_p!==null&&Dp(_p)&&(_p=null),vp!==null&&Dp(vp)&&(vp=null),yp.forEach(Op),bp.forEach(Op)}function Ap(e,n){e.blockedOn===n&&(e.blockedOn=null,hp||(hp=!0,t.unstable_scheduleCallback(t.unstable_NormalPriority,kp)))}var jp=null;function Mp(e){jp!==e&&(jp=e,t.unstable_scheduleCallback(t.unstable_NormalPriority,function(){jp===e&&(jp=null);for(var t=0;t<e.length;t+=3){var n=e[t],r=e[t+1],i=e[t+2];if(typeof r!=`function`){if(pp(r||n)===null)continue;break}var a=ht(n);a!==null&&(e.splice(t,3),t-=3,Es(a,{pending:!0,data:i,method:n.method,action:r},r,i))}}))}function Np(e){function t(t){return Ap(t,e)}gp!==null&&Ap(gp,e),_p!==null&&Ap(_p,e),vp!==null&&Ap(vp,e),yp.forEach(t),bp.forEach(t);for(var n=0;n<xp.length;n++){var r=xp[n];r.blockedOn===e&&(r.blockedOn=null)}for(;0<xp.length&&(n=xp[0],n.blockedOn===null);)Ep(n),n.blockedOn===null&&xp.shift();if(n=(e.ownerDocument||e).$$reactFormReplay,n!=null)for(r=0;r<n.length;r+=3){var i=n[r],a=n[r+1],o=i[ot]||null;if(typeof a==`function`)o||Mp(n);else if(o){var s=null;if(a&&a.hasAttribute(`formAction`)){if(i=a,o=a[ot]||null)s=o.formAction;else if(pp(i)!==null)continue}else s=o.action;typeof s==`function`?n[r+1]=s:(n.splice(r,3),r-=3),Mp(n)}}}function Pp(){function e(e){e.canIntercept&&e.info===`react-transition`&&e.intercept({handler:function(){return new Promise(function(e){return i=e})},focusReset:`manual`,scroll:`manual`})}function t(){i!==null&&(i(),i=null),r||setTimeout(n,20)}function n(){if(!r&&!navigation.transition){var e=navigation.currentEntry;e&&e.url!=null&&navigation.navigate(e.url,{state:e.getState(),info:`react-transition`,history:`replace`})}}if(typeof navigation==`object`){var r=!1,i=null;return navigation.addEventListener(`navigate`,e),navigation.addEventListener(`navigatesuccess`,t),navigation.addEventListener(`navigateerror`,t),setTimeout(n,100),function(){r=!0,navigation.removeEventListener(`navigate`,e),navigation.removeEventListener(`navigatesuccess`,t),navigation.removeEventListener(`navigateerror`,t),i!==null&&(i(),i=null)}}}function Fp(e){this._internalRoot=e}Ip.prototype.render=Fp.prototype.render=function(e){var t=this._internalRoot;if(t===null)throw Error(i(409));var n=t.current;np(n,vu(),e,t,null,null)},Ip.prototype.unmount=Fp.prototype.unmount=function(){var e=this._internalRoot;if(e!==null){this._internalRoot=null;var t=e.containerInfo;np(e.current,2,null,e,null,null),Tu(),t[st]=null}};function Ip(e){this._internalRoot=e}Ip.prototype.unstable_scheduleHydration=function(e){if(e){var t=nt();e={blockedOn:null,target:e,priority:t};for(var n=0;n<xp.length&&t!==0&&t<xp[n].priority;n++);xp.splice(n,0,e),n===0&&Ep(e)}};var Lp=n.version;if(Lp!==`19.2.5`)throw Error(i(527,Lp,`19.2.5`));P.findDOMNode=function(e){var t=e._reactInternals;if(t===void 0)throw typeof e.render==`function`?Error(i(188)):(e=Object.keys(e).join(`,`),Error(i(268,e)));return e=d(t),e=e===null?null:p(e),e=e===null?null:e.stateNode,e};var Rp={bundleType:0,version:`19.2.5`,rendererPackageName:`react-dom`,currentDispatcherRef:N,reconcilerVersion:`19.2.5`};if(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__<`u`){var zp=__REACT_DEVTOOLS_GLOBAL_HOOK__;if(!zp.isDisabled&&zp.supportsFiber)try{Pe=zp.inject(Rp),Fe=zp}catch{}}e.createRoot=function(e,t){if(!a(e))throw Error(i(299));var n=!1,r=``,o=Ys,s=Xs,c=Zs;return t!=null&&(!0===t.unstable_strictMode&&(n=!0),t.identifierPrefix!==void 0&&(r=t.identifierPrefix),t.onUncaughtError!==void 0&&(o=t.onUncaughtError),t.onCaughtError!==void 0&&(s=t.onCaughtError),t.onRecoverableError!==void 0&&(c=t.onRecoverableError)),t=ep(e,1,!1,null,null,n,r,null,o,s,c,Pp),e[st]=t.current,Cd(e),new Fp(t)}})),g=o(((e,t)=>{function n(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>`u`||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!=`function`))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(n)}catch(e){console.error(e)}}n(),t.exports=h()})),_=(...e)=>e.filter((e,t,n)=>!!e&&e.trim()!==``&&n.indexOf(e)===t).join(` `).trim(),v=e=>e.replace(/([a-z0-9])([A-Z])/g,`$1-$2`).toLowerCase(),y=e=>e.replace(/^([A-Z])|[\s-_]+(\w)/g,(e,t,n)=>n?n.toUpperCase():t.toLowerCase()),b=e=>{let t=y(e);return t.charAt(0).toUpperCase()+t.slice(1)},x={xmlns:`http://www.w3.org/2000/svg`,width:24,height:24,viewBox:`0 0 24 24`,fill:`none`,stroke:`currentColor`,strokeWidth:2,strokeLinecap:`round`,strokeLinejoin:`round`},S=e=>{for(let t in e)if(t.startsWith(`aria-`)||t===`role`||t===`title`)return!0;return!1},C=c(u(),1),w=(0,C.createContext)({}),T=()=>(0,C.useContext)(w),E=(0,C.forwardRef)(({color:e,size:t,strokeWidth:n,absoluteStrokeWidth:r,className:i=``,children:a,iconNode:o,...s},c)=>{let{size:l=24,strokeWidth:u=2,absoluteStrokeWidth:d=!1,color:f=`currentColor`,className:p=``}=T()??{},m=r??d?Number(n??u)*24/Number(t??l):n??u;return(0,C.createElement)(`svg`,{ref:c,...x,width:t??l??x.width,height:t??l??x.height,stroke:e??f,strokeWidth:m,className:_(`lucide`,p,i),...!a&&!S(s)&&{"aria-hidden":`true`},...s},[...o.map(([e,t])=>(0,C.createElement)(e,t)),...Array.isArray(a)?a:[a]])}),D=(e,t)=>{let n=(0,C.forwardRef)(({className:n,...r},i)=>(0,C.createElement)(E,{ref:i,iconNode:t,className:_(`lucide-${v(b(e))}`,`lucide-${e}`,n),...r}));return n.displayName=b(e),n},O=D(`archive`,[[`rect`,{width:`20`,height:`5`,x:`2`,y:`3`,rx:`1`,key:`1wp1u1`}],[`path`,{d:`M4 8v11a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8`,key:`1s80jp`}],[`path`,{d:`M10 12h4`,key:`a56b0p`}]]),ee=D(`bell`,[[`path`,{d:`M10.268 21a2 2 0 0 0 3.464 0`,key:`vwvbt9`}],[`path`,{d:`M3.262 15.326A1 1 0 0 0 4 17h16a1 1 0 0 0 .74-1.673C19.41 13.956 18 12.499 18 8A6 6 0 0 0 6 8c0 4.499-1.411 5.956-2.738 7.326`,key:`11g9vi`}]]),k=D(`book-open`,[[`path`,{d:`M12 7v14`,key:`1akyts`}],[`path`,{d:`M3 18a1 1 0 0 1-1-1V4a1 1 0 0 1 1-1h5a4 4 0 0 1 4 4 4 4 0 0 1 4-4h5a1 1 0 0 1 1 1v13a1 1 0 0 1-1 1h-6a3 3 0 0 0-3 3 3 3 0 0 0-3-3z`,key:`ruj8y`}]]),A=D(`calendar-days`,[[`path`,{d:`M8 2v4`,key:`1cmpym`}],[`path`,{d:`M16 2v4`,key:`4m81vk`}],[`rect`,{width:`18`,height:`18`,x:`3`,y:`4`,rx:`2`,key:`1hopcy`}],[`path`,{d:`M3 10h18`,key:`8toen8`}],[`path`,{d:`M8 14h.01`,key:`6423bh`}],[`path`,{d:`M12 14h.01`,key:`1etili`}],[`path`,{d:`M16 14h.01`,key:`1gbofw`}],[`path`,{d:`M8 18h.01`,key:`lrp35t`}],[`path`,{d:`M12 18h.01`,key:`mhygvu`}],[`path`,{d:`M16 18h.01`,key:`kzsmim`}]]),j=D(`chart-column`,[[`path`,{d:`M3 3v16a2 2 0 0 0 2 2h16`,key:`c24i48`}],[`path`,{d:`M18 17V9`,key:`2bz60n`}],[`path`,{d:`M13 17V5`,key:`1frdt8`}],[`path`,{d:`M8 17v-3`,key:`17ska0`}]]),M=D(`check`,[[`path`,{d:`M20 6 9 17l-5-5`,key:`1gmf2c`}]]),te=D(`chevron-down`,[[`path`,{d:`m6 9 6 6 6-6`,key:`qrunsl`}]]),ne=D(`chevron-left`,[[`path`,{d:`m15 18-6-6 6-6`,key:`1wnfg3`}]]),N=D(`circle-check`,[[`circle`,{cx:`12`,cy:`12`,r:`10`,key:`1mglay`}],[`path`,{d:`m9 12 2 2 4-4`,key:`dzmm74`}]]),P=D(`clipboard`,[[`rect`,{width:`8`,height:`4`,x:`8`,y:`2`,rx:`1`,ry:`1`,key:`tgr4d6`}],[`path`,{d:`M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2`,key:`116196`}]]),re=D(`clock-3`,[[`circle`,{cx:`12`,cy:`12`,r:`10`,key:`1mglay`}],[`path`,{d:`M12 6v6h4`,key:`135r8i`}]]),ie=D(`copy`,[[`rect`,{width:`14`,height:`14`,x:`8`,y:`8`,rx:`2`,ry:`2`,key:`17jyea`}],[`path`,{d:`M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2`,key:`zix9uf`}]]),ae=D(`ellipsis`,[[`circle`,{cx:`12`,cy:`12`,r:`1`,key:`41hilf`}],[`circle`,{cx:`19`,cy:`12`,r:`1`,key:`1wjl8i`}],[`circle`,{cx:`5`,cy:`12`,r:`1`,key:`1pcz8c`}]]),oe=D(`gift`,[[`path`,{d:`M12 7v14`,key:`1akyts`}],[`path`,{d:`M20 11v8a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2v-8`,key:`1sqzm4`}],[`path`,{d:`M7.5 7a1 1 0 0 1 0-5A4.8 8 0 0 1 12 7a4.8 8 0 0 1 4.5-5 1 1 0 0 1 0 5`,key:`kc0143`}],[`rect`,{x:`3`,y:`7`,width:`18`,height:`4`,rx:`1`,key:`1hberx`}]]),F=D(`link-2`,[[`path`,{d:`M9 17H7A5 5 0 0 1 7 7h2`,key:`8i5ue5`}],[`path`,{d:`M15 7h2a5 5 0 1 1 0 10h-2`,key:`1b9ql8`}],[`line`,{x1:`8`,x2:`16`,y1:`12`,y2:`12`,key:`1jonct`}]]),I=D(`pill`,[[`path`,{d:`m10.5 20.5 10-10a4.95 4.95 0 1 0-7-7l-10 10a4.95 4.95 0 1 0 7 7Z`,key:`wa1lgi`}],[`path`,{d:`m8.5 8.5 7 7`,key:`rvfmvr`}]]),se=D(`play`,[[`path`,{d:`M5 5a2 2 0 0 1 3.008-1.728l11.997 6.998a2 2 0 0 1 .003 3.458l-12 7A2 2 0 0 1 5 19z`,key:`10ikf1`}]]),ce=D(`plus`,[[`path`,{d:`M5 12h14`,key:`1ays0h`}],[`path`,{d:`M12 5v14`,key:`s699le`}]]),le=D(`rotate-ccw`,[[`path`,{d:`M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8`,key:`1357e3`}],[`path`,{d:`M3 3v5h5`,key:`1xhq8a`}]]),ue=D(`search`,[[`path`,{d:`m21 21-4.34-4.34`,key:`14j7rj`}],[`circle`,{cx:`11`,cy:`11`,r:`8`,key:`4ej97u`}]]),de=D(`shopping-cart`,[[`circle`,{cx:`8`,cy:`21`,r:`1`,key:`jimo8o`}],[`circle`,{cx:`19`,cy:`21`,r:`1`,key:`13723u`}],[`path`,{d:`M2.05 2.05h2l2.66 12.42a2 2 0 0 0 2 1.58h9.78a2 2 0 0 0 1.95-1.57l1.65-7.43H5.12`,key:`9zh506`}]]),fe=D(`x`,[[`path`,{d:`M18 6 6 18`,key:`1bl5f8`}],[`path`,{d:`m6 6 12 12`,key:`d8bk6v`}]]),pe=g();function me(e,t){if(typeof e==`function`)return e(t);e!=null&&(e.current=t)}function he(...e){return t=>{let n=!1,r=e.map(e=>{let r=me(e,t);return!n&&typeof r==`function`&&(n=!0),r});if(n)return()=>{for(let t=0;t<r.length;t++){let n=r[t];typeof n==`function`?n():me(e[t],null)}}}}function ge(...e){return C.useCallback(he(...e),e)}var _e=o((e=>{var t=Symbol.for(`react.transitional.element`),n=Symbol.for(`react.fragment`);function r(e,n,r){var i=null;if(r!==void 0&&(i=``+r),n.key!==void 0&&(i=``+n.key),`key`in n)for(var a in r={},n)a!==`key`&&(r[a]=n[a]);else r=n;return n=r.ref,{$$typeof:t,type:e,key:i,ref:n===void 0?null:n,props:r}}e.Fragment=n,e.jsx=r,e.jsxs=r})),L=o(((e,t)=>{t.exports=_e()}))(),ve=Symbol.for(`react.lazy`),ye=C.use;function be(e){return typeof e==`object`&&!!e&&`then`in e}function xe(e){return typeof e==`object`&&!!e&&`$$typeof`in e&&e.$$typeof===ve&&`_payload`in e&&be(e._payload)}function Se(e){let t=we(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e;xe(r)&&typeof ye==`function`&&(r=ye(r._payload));let a=C.Children.toArray(r),o=a.find(Ee);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}var Ce=Se(`Slot`);function we(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(xe(n)&&typeof ye==`function`&&(n=ye(n._payload)),C.isValidElement(n)){let e=Oe(n),i=De(r,n.props);return n.type!==C.Fragment&&(i.ref=t?he(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var Te=Symbol(`radix.slottable`);function Ee(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===Te}function De(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function Oe(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}typeof window<`u`&&window.document&&window.document.createElement;function R(e,t,{checkForDefaultPrevented:n=!0}={}){return function(r){if(e?.(r),n===!1||!r.defaultPrevented)return t?.(r)}}function ke(e,t){let n=C.createContext(t),r=e=>{let{children:t,...r}=e,i=C.useMemo(()=>r,Object.values(r));return(0,L.jsx)(n.Provider,{value:i,children:t})};r.displayName=e+`Provider`;function i(r){let i=C.useContext(n);if(i)return i;if(t!==void 0)return t;throw Error(`\`${r}\` must be used within \`${e}\``)}return[r,i]}function Ae(e,t=[]){let n=[];function r(t,r){let i=C.createContext(r),a=n.length;n=[...n,r];let o=t=>{let{scope:n,children:r,...o}=t,s=n?.[e]?.[a]||i,c=C.useMemo(()=>o,Object.values(o));return(0,L.jsx)(s.Provider,{value:c,children:r})};o.displayName=t+`Provider`;function s(n,o){let s=o?.[e]?.[a]||i,c=C.useContext(s);if(c)return c;if(r!==void 0)return r;throw Error(`\`${n}\` must be used within \`${t}\``)}return[o,s]}let i=()=>{let t=n.map(e=>C.createContext(e));return function(n){let r=n?.[e]||t;return C.useMemo(()=>({[`__scope${e}`]:{...n,[e]:r}}),[n,r])}};return i.scopeName=e,[r,je(i,...t)]}function je(...e){let t=e[0];if(e.length===1)return t;let n=()=>{let n=e.map(e=>({useScope:e(),scopeName:e.scopeName}));return function(e){let r=n.reduce((t,{useScope:n,scopeName:r})=>{let i=n(e)[`__scope${r}`];return{...t,...i}},{});return C.useMemo(()=>({[`__scope${t.scopeName}`]:r}),[r])}};return n.scopeName=t.scopeName,n}var Me=globalThis?.document?C.useLayoutEffect:()=>{},Ne=C.useId||(()=>void 0),Pe=0;function Fe(e){let[t,n]=C.useState(Ne());return Me(()=>{e||n(e=>e??String(Pe++))},[e]),e||(t?`radix-${t}`:``)}var Ie=C.useInsertionEffect||Me;function Le({prop:e,defaultProp:t,onChange:n=()=>{},caller:r}){let[i,a,o]=Re({defaultProp:t,onChange:n}),s=e!==void 0,c=s?e:i;{let t=C.useRef(e!==void 0);C.useEffect(()=>{let e=t.current;e!==s&&console.warn(`${r} is changing from ${e?`controlled`:`uncontrolled`} to ${s?`controlled`:`uncontrolled`}. Components should not switch from controlled to uncontrolled (or vice versa). Decide between using a controlled or uncontrolled value for the lifetime of the component.`),t.current=s},[s,r])}return[c,C.useCallback(t=>{if(s){let n=ze(t)?t(e):t;n!==e&&o.current?.(n)}else a(t)},[s,e,a,o])]}function Re({defaultProp:e,onChange:t}){let[n,r]=C.useState(e),i=C.useRef(n),a=C.useRef(t);return Ie(()=>{a.current=t},[t]),C.useEffect(()=>{i.current!==n&&(a.current?.(n),i.current=n)},[n,i]),[n,r,a]}function ze(e){return typeof e==`function`}var Be=c(m(),1);function Ve(e){let t=He(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e,a=C.Children.toArray(r),o=a.find(We);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}function He(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(C.isValidElement(n)){let e=Ke(n),i=Ge(r,n.props);return n.type!==C.Fragment&&(i.ref=t?he(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var Ue=Symbol(`radix.slottable`);function We(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===Ue}function Ge(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function Ke(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}var z=[`a`,`button`,`div`,`form`,`h2`,`h3`,`img`,`input`,`label`,`li`,`nav`,`ol`,`p`,`select`,`span`,`svg`,`ul`].reduce((e,t)=>{let n=Ve(`Primitive.${t}`),r=C.forwardRef((e,r)=>{let{asChild:i,...a}=e,o=i?n:t;return typeof window<`u`&&(window[Symbol.for(`radix-ui`)]=!0),(0,L.jsx)(o,{...a,ref:r})});return r.displayName=`Primitive.${t}`,{...e,[t]:r}},{});function qe(e,t){e&&Be.flushSync(()=>e.dispatchEvent(t))}function Je(e){let t=C.useRef(e);return C.useEffect(()=>{t.current=e}),C.useMemo(()=>(...e)=>t.current?.(...e),[])}function Ye(e,t=globalThis?.document){let n=Je(e);C.useEffect(()=>{let e=e=>{e.key===`Escape`&&n(e)};return t.addEventListener(`keydown`,e,{capture:!0}),()=>t.removeEventListener(`keydown`,e,{capture:!0})},[n,t])}var Xe=`DismissableLayer`,Ze=`dismissableLayer.update`,Qe=`dismissableLayer.pointerDownOutside`,$e=`dismissableLayer.focusOutside`,et,tt=C.createContext({layers:new Set,layersWithOutsidePointerEventsDisabled:new Set,branches:new Set}),nt=C.forwardRef((e,t)=>{let{disableOutsidePointerEvents:n=!1,onEscapeKeyDown:r,onPointerDownOutside:i,onFocusOutside:a,onInteractOutside:o,onDismiss:s,...c}=e,l=C.useContext(tt),[u,d]=C.useState(null),f=u?.ownerDocument??globalThis?.document,[,p]=C.useState({}),m=ge(t,e=>d(e)),h=Array.from(l.layers),[g]=[...l.layersWithOutsidePointerEventsDisabled].slice(-1),_=h.indexOf(g),v=u?h.indexOf(u):-1,y=l.layersWithOutsidePointerEventsDisabled.size>0,b=v>=_,x=at(e=>{let t=e.target,n=[...l.branches].some(e=>e.contains(t));!b||n||(i?.(e),o?.(e),e.defaultPrevented||s?.())},f),S=ot(e=>{let t=e.target;[...l.branches].some(e=>e.contains(t))||(a?.(e),o?.(e),e.defaultPrevented||s?.())},f);return Ye(e=>{v===l.layers.size-1&&(r?.(e),!e.defaultPrevented&&s&&(e.preventDefault(),s()))},f),C.useEffect(()=>{if(u)return n&&(l.layersWithOutsidePointerEventsDisabled.size===0&&(et=f.body.style.pointerEvents,f.body.style.pointerEvents=`none`),l.layersWithOutsidePointerEventsDisabled.add(u)),l.layers.add(u),st(),()=>{n&&l.layersWithOutsidePointerEventsDisabled.size===1&&(f.body.style.pointerEvents=et)}},[u,f,n,l]),C.useEffect(()=>()=>{u&&(l.layers.delete(u),l.layersWithOutsidePointerEventsDisabled.delete(u),st())},[u,l]),C.useEffect(()=>{let e=()=>p({});return document.addEventListener(Ze,e),()=>document.removeEventListener(Ze,e)},[]),(0,L.jsx)(z.div,{...c,ref:m,style:{pointerEvents:y?b?`auto`:`none`:void 0,...e.style},onFocusCapture:R(e.onFocusCapture,S.onFocusCapture),onBlurCapture:R(e.onBlurCapture,S.onBlurCapture),onPointerDownCapture:R(e.onPointerDownCapture,x.onPointerDownCapture)})});nt.displayName=Xe;var rt=`DismissableLayerBranch`,it=C.forwardRef((e,t)=>{let n=C.useContext(tt),r=C.useRef(null),i=ge(t,r);return C.useEffect(()=>{let e=r.current;if(e)return n.branches.add(e),()=>{n.branches.delete(e)}},[n.branches]),(0,L.jsx)(z.div,{...e,ref:i})});it.displayName=rt;function at(e,t=globalThis?.document){let n=Je(e),r=C.useRef(!1),i=C.useRef(()=>{});return C.useEffect(()=>{let e=e=>{if(e.target&&!r.current){let r=function(){ct(Qe,n,a,{discrete:!0})},a={originalEvent:e};e.pointerType===`touch`?(t.removeEventListener(`click`,i.current),i.current=r,t.addEventListener(`click`,i.current,{once:!0})):r()}else t.removeEventListener(`click`,i.current);r.current=!1},a=window.setTimeout(()=>{t.addEventListener(`pointerdown`,e)},0);return()=>{window.clearTimeout(a),t.removeEventListener(`pointerdown`,e),t.removeEventListener(`click`,i.current)}},[t,n]),{onPointerDownCapture:()=>r.current=!0}}function ot(e,t=globalThis?.document){let n=Je(e),r=C.useRef(!1);return C.useEffect(()=>{let e=e=>{e.target&&!r.current&&ct($e,n,{originalEvent:e},{discrete:!1})};return t.addEventListener(`focusin`,e),()=>t.removeEventListener(`focusin`,e)},[t,n]),{onFocusCapture:()=>r.current=!0,onBlurCapture:()=>r.current=!1}}function st(){let e=new CustomEvent(Ze);document.dispatchEvent(e)}function ct(e,t,n,{discrete:r}){let i=n.originalEvent.target,a=new CustomEvent(e,{bubbles:!1,cancelable:!0,detail:n});t&&i.addEventListener(e,t,{once:!0}),r?qe(i,a):i.dispatchEvent(a)}var lt=`focusScope.autoFocusOnMount`,ut=`focusScope.autoFocusOnUnmount`,dt={bubbles:!1,cancelable:!0},ft=`FocusScope`,pt=C.forwardRef((e,t)=>{let{loop:n=!1,trapped:r=!1,onMountAutoFocus:i,onUnmountAutoFocus:a,...o}=e,[s,c]=C.useState(null),l=Je(i),u=Je(a),d=C.useRef(null),f=ge(t,e=>c(e)),p=C.useRef({paused:!1,pause(){this.paused=!0},resume(){this.paused=!1}}).current;C.useEffect(()=>{if(r){let e=function(e){if(p.paused||!s)return;let t=e.target;s.contains(t)?d.current=t:bt(d.current,{select:!0})},t=function(e){if(p.paused||!s)return;let t=e.relatedTarget;t!==null&&(s.contains(t)||bt(d.current,{select:!0}))},n=function(e){if(document.activeElement===document.body)for(let t of e)t.removedNodes.length>0&&bt(s)};document.addEventListener(`focusin`,e),document.addEventListener(`focusout`,t);let r=new MutationObserver(n);return s&&r.observe(s,{childList:!0,subtree:!0}),()=>{document.removeEventListener(`focusin`,e),document.removeEventListener(`focusout`,t),r.disconnect()}}},[r,s,p.paused]),C.useEffect(()=>{if(s){xt.add(p);let e=document.activeElement;if(!s.contains(e)){let t=new CustomEvent(lt,dt);s.addEventListener(lt,l),s.dispatchEvent(t),t.defaultPrevented||(mt(wt(gt(s)),{select:!0}),document.activeElement===e&&bt(s))}return()=>{s.removeEventListener(lt,l),setTimeout(()=>{let t=new CustomEvent(ut,dt);s.addEventListener(ut,u),s.dispatchEvent(t),t.defaultPrevented||bt(e??document.body,{select:!0}),s.removeEventListener(ut,u),xt.remove(p)},0)}}},[s,l,u,p]);let m=C.useCallback(e=>{if(!n&&!r||p.paused)return;let t=e.key===`Tab`&&!e.altKey&&!e.ctrlKey&&!e.metaKey,i=document.activeElement;if(t&&i){let t=e.currentTarget,[r,a]=ht(t);r&&a?!e.shiftKey&&i===a?(e.preventDefault(),n&&bt(r,{select:!0})):e.shiftKey&&i===r&&(e.preventDefault(),n&&bt(a,{select:!0})):i===t&&e.preventDefault()}},[n,r,p.paused]);return(0,L.jsx)(z.div,{tabIndex:-1,...o,ref:f,onKeyDown:m})});pt.displayName=ft;function mt(e,{select:t=!1}={}){let n=document.activeElement;for(let r of e)if(bt(r,{select:t}),document.activeElement!==n)return}function ht(e){let t=gt(e);return[_t(t,e),_t(t.reverse(),e)]}function gt(e){let t=[],n=document.createTreeWalker(e,NodeFilter.SHOW_ELEMENT,{acceptNode:e=>{let t=e.tagName===`INPUT`&&e.type===`hidden`;return e.disabled||e.hidden||t?NodeFilter.FILTER_SKIP:e.tabIndex>=0?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}});for(;n.nextNode();)t.push(n.currentNode);return t}function _t(e,t){for(let n of e)if(!vt(n,{upTo:t}))return n}function vt(e,{upTo:t}){if(getComputedStyle(e).visibility===`hidden`)return!0;for(;e;){if(t!==void 0&&e===t)return!1;if(getComputedStyle(e).display===`none`)return!0;e=e.parentElement}return!1}function yt(e){return e instanceof HTMLInputElement&&`select`in e}function bt(e,{select:t=!1}={}){if(e&&e.focus){let n=document.activeElement;e.focus({preventScroll:!0}),e!==n&&yt(e)&&t&&e.select()}}var xt=St();function St(){let e=[];return{add(t){let n=e[0];t!==n&&n?.pause(),e=Ct(e,t),e.unshift(t)},remove(t){e=Ct(e,t),e[0]?.resume()}}}function Ct(e,t){let n=[...e],r=n.indexOf(t);return r!==-1&&n.splice(r,1),n}function wt(e){return e.filter(e=>e.tagName!==`A`)}var Tt=`Portal`,Et=C.forwardRef((e,t)=>{let{container:n,...r}=e,[i,a]=C.useState(!1);Me(()=>a(!0),[]);let o=n||i&&globalThis?.document?.body;return o?Be.createPortal((0,L.jsx)(z.div,{...r,ref:t}),o):null});Et.displayName=Tt;function Dt(e,t){return C.useReducer((e,n)=>t[e][n]??e,e)}var Ot=e=>{let{present:t,children:n}=e,r=kt(t),i=typeof n==`function`?n({present:r.isPresent}):C.Children.only(n),a=ge(r.ref,jt(i));return typeof n==`function`||r.isPresent?C.cloneElement(i,{ref:a}):null};Ot.displayName=`Presence`;function kt(e){let[t,n]=C.useState(),r=C.useRef(null),i=C.useRef(e),a=C.useRef(`none`),[o,s]=Dt(e?`mounted`:`unmounted`,{mounted:{UNMOUNT:`unmounted`,ANIMATION_OUT:`unmountSuspended`},unmountSuspended:{MOUNT:`mounted`,ANIMATION_END:`unmounted`},unmounted:{MOUNT:`mounted`}});return C.useEffect(()=>{let e=At(r.current);a.current=o===`mounted`?e:`none`},[o]),Me(()=>{let t=r.current,n=i.current;if(n!==e){let r=a.current,o=At(t);e?s(`MOUNT`):o===`none`||t?.display===`none`?s(`UNMOUNT`):s(n&&r!==o?`ANIMATION_OUT`:`UNMOUNT`),i.current=e}},[e,s]),Me(()=>{if(t){let e,n=t.ownerDocument.defaultView??window,o=a=>{let o=At(r.current).includes(CSS.escape(a.animationName));if(a.target===t&&o&&(s(`ANIMATION_END`),!i.current)){let r=t.style.animationFillMode;t.style.animationFillMode=`forwards`,e=n.setTimeout(()=>{t.style.animationFillMode===`forwards`&&(t.style.animationFillMode=r)})}},c=e=>{e.target===t&&(a.current=At(r.current))};return t.addEventListener(`animationstart`,c),t.addEventListener(`animationcancel`,o),t.addEventListener(`animationend`,o),()=>{n.clearTimeout(e),t.removeEventListener(`animationstart`,c),t.removeEventListener(`animationcancel`,o),t.removeEventListener(`animationend`,o)}}else s(`ANIMATION_END`)},[t,s]),{isPresent:[`mounted`,`unmountSuspended`].includes(o),ref:C.useCallback(e=>{r.current=e?getComputedStyle(e):null,n(e)},[])}}function At(e){return e?.animationName||`none`}function jt(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}var Mt=0;function Nt(){C.useEffect(()=>{let e=document.querySelectorAll(`[data-radix-focus-guard]`);return document.body.insertAdjacentElement(`afterbegin`,e[0]??Pt()),document.body.insertAdjacentElement(`beforeend`,e[1]??Pt()),Mt++,()=>{Mt===1&&document.querySelectorAll(`[data-radix-focus-guard]`).forEach(e=>e.remove()),Mt--}},[])}function Pt(){let e=document.createElement(`span`);return e.setAttribute(`data-radix-focus-guard`,``),e.tabIndex=0,e.style.outline=`none`,e.style.opacity=`0`,e.style.position=`fixed`,e.style.pointerEvents=`none`,e}var Ft=function(){return Ft=Object.assign||function(e){for(var t,n=1,r=arguments.length;n<r;n++)for(var i in t=arguments[n],t)Object.prototype.hasOwnProperty.call(t,i)&&(e[i]=t[i]);return e},Ft.apply(this,arguments)};function It(e,t){var n={};for(var r in e)Object.prototype.hasOwnProperty.call(e,r)&&t.indexOf(r)<0&&(n[r]=e[r]);if(e!=null&&typeof Object.getOwnPropertySymbols==`function`)for(var i=0,r=Object.getOwnPropertySymbols(e);i<r.length;i++)t.indexOf(r[i])<0&&Object.prototype.propertyIsEnumerable.call(e,r[i])&&(n[r[i]]=e[r[i]]);return n}function Lt(e,t,n){if(n||arguments.length===2)for(var r=0,i=t.length,a;r<i;r++)(a||!(r in t))&&(a||=Array.prototype.slice.call(t,0,r),a[r]=t[r]);return e.concat(a||Array.prototype.slice.call(t))}var Rt=`right-scroll-bar-position`,zt=`width-before-scroll-bar`,Bt=`with-scroll-bars-hidden`,Vt=`--removed-body-scroll-bar-size`;function Ht(e,t){return typeof e==`function`?e(t):e&&(e.current=t),e}function Ut(e,t){var n=(0,C.useState)(function(){return{value:e,callback:t,facade:{get current(){return n.value},set current(e){var t=n.value;t!==e&&(n.value=e,n.callback(e,t))}}}})[0];return n.callback=t,n.facade}var Wt=typeof window<`u`?C.useLayoutEffect:C.useEffect,Gt=new WeakMap;function Kt(e,t){var n=Ut(t||null,function(t){return e.forEach(function(e){return Ht(e,t)})});return Wt(function(){var t=Gt.get(n);if(t){var r=new Set(t),i=new Set(e),a=n.current;r.forEach(function(e){i.has(e)||Ht(e,null)}),i.forEach(function(e){r.has(e)||Ht(e,a)})}Gt.set(n,e)},[e]),n}function qt(e){return e}function Jt(e,t){t===void 0&&(t=qt);var n=[],r=!1;return{read:function(){if(r)throw Error("Sidecar: could not `read` from an `assigned` medium. `read` could be used only with `useMedium`.");return n.length?n[n.length-1]:e},useMedium:function(e){var i=t(e,r);return n.push(i),function(){n=n.filter(function(e){return e!==i})}},assignSyncMedium:function(e){for(r=!0;n.length;){var t=n;n=[],t.forEach(e)}n={push:function(t){return e(t)},filter:function(){return n}}},assignMedium:function(e){r=!0;var t=[];if(n.length){var i=n;n=[],i.forEach(e),t=n}var a=function(){var n=t;t=[],n.forEach(e)},o=function(){return Promise.resolve().then(a)};o(),n={push:function(e){t.push(e),o()},filter:function(e){return t=t.filter(e),n}}}}}function Yt(e){e===void 0&&(e={});var t=Jt(null);return t.options=Ft({async:!0,ssr:!1},e),t}var Xt=function(e){var t=e.sideCar,n=It(e,[`sideCar`]);if(!t)throw Error("Sidecar: please provide `sideCar` property to import the right car");var r=t.read();if(!r)throw Error(`Sidecar medium not found`);return C.createElement(r,Ft({},n))};Xt.isSideCarExport=!0;function Zt(e,t){return e.useMedium(t),Xt}var Qt=Yt(),$t=function(){},en=C.forwardRef(function(e,t){var n=C.useRef(null),r=C.useState({onScrollCapture:$t,onWheelCapture:$t,onTouchMoveCapture:$t}),i=r[0],a=r[1],o=e.forwardProps,s=e.children,c=e.className,l=e.removeScrollBar,u=e.enabled,d=e.shards,f=e.sideCar,p=e.noRelative,m=e.noIsolation,h=e.inert,g=e.allowPinchZoom,_=e.as,v=_===void 0?`div`:_,y=e.gapMode,b=It(e,[`forwardProps`,`children`,`className`,`removeScrollBar`,`enabled`,`shards`,`sideCar`,`noRelative`,`noIsolation`,`inert`,`allowPinchZoom`,`as`,`gapMode`]),x=f,S=Kt([n,t]),w=Ft(Ft({},b),i);return C.createElement(C.Fragment,null,u&&C.createElement(x,{sideCar:Qt,removeScrollBar:l,shards:d,noRelative:p,noIsolation:m,inert:h,setCallbacks:a,allowPinchZoom:!!g,lockRef:n,gapMode:y}),o?C.cloneElement(C.Children.only(s),Ft(Ft({},w),{ref:S})):C.createElement(v,Ft({},w,{className:c,ref:S}),s))});en.defaultProps={enabled:!0,removeScrollBar:!0,inert:!1},en.classNames={fullWidth:zt,zeroRight:Rt};var tn,nn=function(){if(tn)return tn;if(typeof __webpack_nonce__<`u`)return __webpack_nonce__};function rn(){if(!document)return null;var e=document.createElement(`style`);e.type=`text/css`;var t=nn();return t&&e.setAttribute(`nonce`,t),e}function an(e,t){e.styleSheet?e.styleSheet.cssText=t:e.appendChild(document.createTextNode(t))}function on(e){(document.head||document.getElementsByTagName(`head`)[0]).appendChild(e)}var sn=function(){var e=0,t=null;return{add:function(n){e==0&&(t=rn())&&(an(t,n),on(t)),e++},remove:function(){e--,!e&&t&&(t.parentNode&&t.parentNode.removeChild(t),t=null)}}},cn=function(){var e=sn();return function(t,n){C.useEffect(function(){return e.add(t),function(){e.remove()}},[t&&n])}},ln=function(){var e=cn();return function(t){var n=t.styles,r=t.dynamic;return e(n,r),null}},un={left:0,top:0,right:0,gap:0},dn=function(e){return parseInt(e||``,10)||0},fn=function(e){var t=window.getComputedStyle(document.body),n=t[e===`padding`?`paddingLeft`:`marginLeft`],r=t[e===`padding`?`paddingTop`:`marginTop`],i=t[e===`padding`?`paddingRight`:`marginRight`];return[dn(n),dn(r),dn(i)]},pn=function(e){if(e===void 0&&(e=`margin`),typeof window>`u`)return un;var t=fn(e),n=document.documentElement.clientWidth,r=window.innerWidth;return{left:t[0],top:t[1],right:t[2],gap:Math.max(0,r-n+t[2]-t[0])}},mn=ln(),hn=`data-scroll-locked`,gn=function(e,t,n,r){var i=e.left,a=e.top,o=e.right,s=e.gap;return n===void 0&&(n=`margin`),`
-  .${Bt} {
+`+e.stack}}var Se=Object.prototype.hasOwnProperty,L=t.unstable_scheduleCallback,Ce=t.unstable_cancelCallback,we=t.unstable_shouldYield,Te=t.unstable_requestPaint,Ee=t.unstable_now,De=t.unstable_getCurrentPriorityLevel,Oe=t.unstable_ImmediatePriority,ke=t.unstable_UserBlockingPriority,Ae=t.unstable_NormalPriority,je=t.unstable_LowPriority,Me=t.unstable_IdlePriority,Ne=t.log,R=t.unstable_setDisableYieldValue,Pe=null,Fe=null;function Ie(e){if(typeof Ne==`function`&&R(e),Fe&&typeof Fe.setStrictMode==`function`)try{Fe.setStrictMode(Pe,e)}catch{}}var Le=Math.clz32?Math.clz32:Be,Re=Math.log,ze=Math.LN2;function Be(e){return e>>>=0,e===0?32:31-(Re(e)/ze|0)|0}var Ve=256,He=262144,Ue=4194304;function z(e){var t=e&42;if(t!==0)return t;switch(e&-e){case 1:return 1;case 2:return 2;case 4:return 4;case 8:return 8;case 16:return 16;case 32:return 32;case 64:return 64;case 128:return 128;case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:return e&261888;case 262144:case 524288:case 1048576:case 2097152:return e&3932160;case 4194304:case 8388608:case 16777216:case 33554432:return e&62914560;case 67108864:return 67108864;case 134217728:return 134217728;case 268435456:return 268435456;case 536870912:return 536870912;case 1073741824:return 0;default:return e}}function We(e,t,n){var r=e.pendingLanes;if(r===0)return 0;var i=0,a=e.suspendedLanes,o=e.pingedLanes;e=e.warmLanes;var s=r&134217727;return s===0?(s=r&~a,s===0?o===0?n||(n=r&~e,n!==0&&(i=z(n))):i=z(o):i=z(s)):(r=s&~a,r===0?(o&=s,o===0?n||(n=s&~e,n!==0&&(i=z(n))):i=z(o)):i=z(r)),i===0?0:t!==0&&t!==i&&(t&a)===0&&(a=i&-i,n=t&-t,a>=n||a===32&&n&4194048)?t:i}function Ge(e,t){return(e.pendingLanes&~(e.suspendedLanes&~e.pingedLanes)&t)===0}function Ke(e,t){switch(e){case 1:case 2:case 4:case 8:case 64:return t+250;case 16:case 32:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:return t+5e3;case 4194304:case 8388608:case 16777216:case 33554432:return-1;case 67108864:case 134217728:case 268435456:case 536870912:case 1073741824:return-1;default:return-1}}function qe(){var e=Ue;return Ue<<=1,!(Ue&62914560)&&(Ue=4194304),e}function B(e){for(var t=[],n=0;31>n;n++)t.push(e);return t}function Je(e,t){e.pendingLanes|=t,t!==268435456&&(e.suspendedLanes=0,e.pingedLanes=0,e.warmLanes=0)}function Ye(e,t,n,r,i,a){var o=e.pendingLanes;e.pendingLanes=n,e.suspendedLanes=0,e.pingedLanes=0,e.warmLanes=0,e.expiredLanes&=n,e.entangledLanes&=n,e.errorRecoveryDisabledLanes&=n,e.shellSuspendCounter=0;var s=e.entanglements,c=e.expirationTimes,l=e.hiddenUpdates;for(n=o&~n;0<n;){var u=31-Le(n),d=1<<u;s[u]=0,c[u]=-1;var f=l[u];if(f!==null)for(l[u]=null,u=0;u<f.length;u++){var p=f[u];p!==null&&(p.lane&=-536870913)}n&=~d}r!==0&&V(e,r,0),a!==0&&i===0&&e.tag!==0&&(e.suspendedLanes|=a&~(o&~t))}function V(e,t,n){e.pendingLanes|=t,e.suspendedLanes&=~t;var r=31-Le(t);e.entangledLanes|=t,e.entanglements[r]=e.entanglements[r]|1073741824|n&261930}function Xe(e,t){var n=e.entangledLanes|=t;for(e=e.entanglements;n;){var r=31-Le(n),i=1<<r;i&t|e[r]&t&&(e[r]|=t),n&=~i}}function Ze(e,t){var n=t&-t;return n=n&42?1:Qe(n),(n&(e.suspendedLanes|t))===0?n:0}function Qe(e){switch(e){case 2:e=1;break;case 8:e=4;break;case 32:e=16;break;case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:case 4194304:case 8388608:case 16777216:case 33554432:e=128;break;case 268435456:e=134217728;break;default:e=0}return e}function $e(e){return e&=-e,2<e?8<e?e&134217727?32:268435456:8:2}function et(){var e=P.p;return e===0?(e=window.event,e===void 0?32:mp(e.type)):e}function tt(e,t){var n=P.p;try{return P.p=e,t()}finally{P.p=n}}var nt=Math.random().toString(36).slice(2),rt=`__reactFiber$`+nt,it=`__reactProps$`+nt,at=`__reactContainer$`+nt,ot=`__reactEvents$`+nt,st=`__reactListeners$`+nt,ct=`__reactHandles$`+nt,lt=`__reactResources$`+nt,ut=`__reactMarker$`+nt;function dt(e){delete e[rt],delete e[it],delete e[ot],delete e[st],delete e[ct]}function ft(e){var t=e[rt];if(t)return t;for(var n=e.parentNode;n;){if(t=n[at]||n[rt]){if(n=t.alternate,t.child!==null||n!==null&&n.child!==null)for(e=ff(e);e!==null;){if(n=e[rt])return n;e=ff(e)}return t}e=n,n=e.parentNode}return null}function pt(e){if(e=e[rt]||e[at]){var t=e.tag;if(t===5||t===6||t===13||t===31||t===26||t===27||t===3)return e}return null}function mt(e){var t=e.tag;if(t===5||t===26||t===27||t===6)return e.stateNode;throw Error(i(33))}function ht(e){var t=e[lt];return t||=e[lt]={hoistableStyles:new Map,hoistableScripts:new Map},t}function gt(e){e[ut]=!0}var _t=new Set,vt={};function yt(e,t){bt(e,t),bt(e+`Capture`,t)}function bt(e,t){for(vt[e]=t,e=0;e<t.length;e++)_t.add(t[e])}var xt=RegExp(`^[:A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD][:A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040]*$`),St={},Ct={};function wt(e){return Se.call(Ct,e)?!0:Se.call(St,e)?!1:xt.test(e)?Ct[e]=!0:(St[e]=!0,!1)}function Tt(e,t,n){if(wt(t))if(n===null)e.removeAttribute(t);else{switch(typeof n){case`undefined`:case`function`:case`symbol`:e.removeAttribute(t);return;case`boolean`:var r=t.toLowerCase().slice(0,5);if(r!==`data-`&&r!==`aria-`){e.removeAttribute(t);return}}e.setAttribute(t,``+n)}}function Et(e,t,n){if(n===null)e.removeAttribute(t);else{switch(typeof n){case`undefined`:case`function`:case`symbol`:case`boolean`:e.removeAttribute(t);return}e.setAttribute(t,``+n)}}function Dt(e,t,n,r){if(r===null)e.removeAttribute(n);else{switch(typeof r){case`undefined`:case`function`:case`symbol`:case`boolean`:e.removeAttribute(n);return}e.setAttributeNS(t,n,``+r)}}function Ot(e){switch(typeof e){case`bigint`:case`boolean`:case`number`:case`string`:case`undefined`:return e;case`object`:return e;default:return``}}function kt(e){var t=e.type;return(e=e.nodeName)&&e.toLowerCase()===`input`&&(t===`checkbox`||t===`radio`)}function At(e,t,n){var r=Object.getOwnPropertyDescriptor(e.constructor.prototype,t);if(!e.hasOwnProperty(t)&&r!==void 0&&typeof r.get==`function`&&typeof r.set==`function`){var i=r.get,a=r.set;return Object.defineProperty(e,t,{configurable:!0,get:function(){return i.call(this)},set:function(e){n=``+e,a.call(this,e)}}),Object.defineProperty(e,t,{enumerable:r.enumerable}),{getValue:function(){return n},setValue:function(e){n=``+e},stopTracking:function(){e._valueTracker=null,delete e[t]}}}}function jt(e){if(!e._valueTracker){var t=kt(e)?`checked`:`value`;e._valueTracker=At(e,t,``+e[t])}}function Mt(e){if(!e)return!1;var t=e._valueTracker;if(!t)return!0;var n=t.getValue(),r=``;return e&&(r=kt(e)?e.checked?`true`:`false`:e.value),e=r,e===n?!1:(t.setValue(e),!0)}function Nt(e){if(e||=typeof document<`u`?document:void 0,e===void 0)return null;try{return e.activeElement||e.body}catch{return e.body}}var Pt=/[\n"\\]/g;function Ft(e){return e.replace(Pt,function(e){return`\\`+e.charCodeAt(0).toString(16)+` `})}function It(e,t,n,r,i,a,o,s){e.name=``,o!=null&&typeof o!=`function`&&typeof o!=`symbol`&&typeof o!=`boolean`?e.type=o:e.removeAttribute(`type`),t==null?o!==`submit`&&o!==`reset`||e.removeAttribute(`value`):o===`number`?(t===0&&e.value===``||e.value!=t)&&(e.value=``+Ot(t)):e.value!==``+Ot(t)&&(e.value=``+Ot(t)),t==null?n==null?r!=null&&e.removeAttribute(`value`):Rt(e,o,Ot(n)):Rt(e,o,Ot(t)),i==null&&a!=null&&(e.defaultChecked=!!a),i!=null&&(e.checked=i&&typeof i!=`function`&&typeof i!=`symbol`),s!=null&&typeof s!=`function`&&typeof s!=`symbol`&&typeof s!=`boolean`?e.name=``+Ot(s):e.removeAttribute(`name`)}function Lt(e,t,n,r,i,a,o,s){if(a!=null&&typeof a!=`function`&&typeof a!=`symbol`&&typeof a!=`boolean`&&(e.type=a),t!=null||n!=null){if(!(a!==`submit`&&a!==`reset`||t!=null)){jt(e);return}n=n==null?``:``+Ot(n),t=t==null?n:``+Ot(t),s||t===e.value||(e.value=t),e.defaultValue=t}r??=i,r=typeof r!=`function`&&typeof r!=`symbol`&&!!r,e.checked=s?e.checked:!!r,e.defaultChecked=!!r,o!=null&&typeof o!=`function`&&typeof o!=`symbol`&&typeof o!=`boolean`&&(e.name=o),jt(e)}function Rt(e,t,n){t===`number`&&Nt(e.ownerDocument)===e||e.defaultValue===``+n||(e.defaultValue=``+n)}function zt(e,t,n,r){if(e=e.options,t){t={};for(var i=0;i<n.length;i++)t[`$`+n[i]]=!0;for(n=0;n<e.length;n++)i=t.hasOwnProperty(`$`+e[n].value),e[n].selected!==i&&(e[n].selected=i),i&&r&&(e[n].defaultSelected=!0)}else{for(n=``+Ot(n),t=null,i=0;i<e.length;i++){if(e[i].value===n){e[i].selected=!0,r&&(e[i].defaultSelected=!0);return}t!==null||e[i].disabled||(t=e[i])}t!==null&&(t.selected=!0)}}function Bt(e,t,n){if(t!=null&&(t=``+Ot(t),t!==e.value&&(e.value=t),n==null)){e.defaultValue!==t&&(e.defaultValue=t);return}e.defaultValue=n==null?``:``+Ot(n)}function Vt(e,t,n,r){if(t==null){if(r!=null){if(n!=null)throw Error(i(92));if(ne(r)){if(1<r.length)throw Error(i(93));r=r[0]}n=r}n??=``,t=n}n=Ot(t),e.defaultValue=n,r=e.textContent,r===n&&r!==``&&r!==null&&(e.value=r),jt(e)}function Ht(e,t){if(t){var n=e.firstChild;if(n&&n===e.lastChild&&n.nodeType===3){n.nodeValue=t;return}}e.textContent=t}var Ut=new Set(`animationIterationCount aspectRatio borderImageOutset borderImageSlice borderImageWidth boxFlex boxFlexGroup boxOrdinalGroup columnCount columns flex flexGrow flexPositive flexShrink flexNegative flexOrder gridArea gridRow gridRowEnd gridRowSpan gridRowStart gridColumn gridColumnEnd gridColumnSpan gridColumnStart fontWeight lineClamp lineHeight opacity order orphans scale tabSize widows zIndex zoom fillOpacity floodOpacity stopOpacity strokeDasharray strokeDashoffset strokeMiterlimit strokeOpacity strokeWidth MozAnimationIterationCount MozBoxFlex MozBoxFlexGroup MozLineClamp msAnimationIterationCount msFlex msZoom msFlexGrow msFlexNegative msFlexOrder msFlexPositive msFlexShrink msGridColumn msGridColumnSpan msGridRow msGridRowSpan WebkitAnimationIterationCount WebkitBoxFlex WebKitBoxFlexGroup WebkitBoxOrdinalGroup WebkitColumnCount WebkitColumns WebkitFlex WebkitFlexGrow WebkitFlexPositive WebkitFlexShrink WebkitLineClamp`.split(` `));function Wt(e,t,n){var r=t.indexOf(`--`)===0;n==null||typeof n==`boolean`||n===``?r?e.setProperty(t,``):t===`float`?e.cssFloat=``:e[t]=``:r?e.setProperty(t,n):typeof n!=`number`||n===0||Ut.has(t)?t===`float`?e.cssFloat=n:e[t]=(``+n).trim():e[t]=n+`px`}function Gt(e,t,n){if(t!=null&&typeof t!=`object`)throw Error(i(62));if(e=e.style,n!=null){for(var r in n)!n.hasOwnProperty(r)||t!=null&&t.hasOwnProperty(r)||(r.indexOf(`--`)===0?e.setProperty(r,``):r===`float`?e.cssFloat=``:e[r]=``);for(var a in t)r=t[a],t.hasOwnProperty(a)&&n[a]!==r&&Wt(e,a,r)}else for(var o in t)t.hasOwnProperty(o)&&Wt(e,o,t[o])}function Kt(e){if(e.indexOf(`-`)===-1)return!1;switch(e){case`annotation-xml`:case`color-profile`:case`font-face`:case`font-face-src`:case`font-face-uri`:case`font-face-format`:case`font-face-name`:case`missing-glyph`:return!1;default:return!0}}var qt=new Map([[`acceptCharset`,`accept-charset`],[`htmlFor`,`for`],[`httpEquiv`,`http-equiv`],[`crossOrigin`,`crossorigin`],[`accentHeight`,`accent-height`],[`alignmentBaseline`,`alignment-baseline`],[`arabicForm`,`arabic-form`],[`baselineShift`,`baseline-shift`],[`capHeight`,`cap-height`],[`clipPath`,`clip-path`],[`clipRule`,`clip-rule`],[`colorInterpolation`,`color-interpolation`],[`colorInterpolationFilters`,`color-interpolation-filters`],[`colorProfile`,`color-profile`],[`colorRendering`,`color-rendering`],[`dominantBaseline`,`dominant-baseline`],[`enableBackground`,`enable-background`],[`fillOpacity`,`fill-opacity`],[`fillRule`,`fill-rule`],[`floodColor`,`flood-color`],[`floodOpacity`,`flood-opacity`],[`fontFamily`,`font-family`],[`fontSize`,`font-size`],[`fontSizeAdjust`,`font-size-adjust`],[`fontStretch`,`font-stretch`],[`fontStyle`,`font-style`],[`fontVariant`,`font-variant`],[`fontWeight`,`font-weight`],[`glyphName`,`glyph-name`],[`glyphOrientationHorizontal`,`glyph-orientation-horizontal`],[`glyphOrientationVertical`,`glyph-orientation-vertical`],[`horizAdvX`,`horiz-adv-x`],[`horizOriginX`,`horiz-origin-x`],[`imageRendering`,`image-rendering`],[`letterSpacing`,`letter-spacing`],[`lightingColor`,`lighting-color`],[`markerEnd`,`marker-end`],[`markerMid`,`marker-mid`],[`markerStart`,`marker-start`],[`overlinePosition`,`overline-position`],[`overlineThickness`,`overline-thickness`],[`paintOrder`,`paint-order`],[`panose-1`,`panose-1`],[`pointerEvents`,`pointer-events`],[`renderingIntent`,`rendering-intent`],[`shapeRendering`,`shape-rendering`],[`stopColor`,`stop-color`],[`stopOpacity`,`stop-opacity`],[`strikethroughPosition`,`strikethrough-position`],[`strikethroughThickness`,`strikethrough-thickness`],[`strokeDasharray`,`stroke-dasharray`],[`strokeDashoffset`,`stroke-dashoffset`],[`strokeLinecap`,`stroke-linecap`],[`strokeLinejoin`,`stroke-linejoin`],[`strokeMiterlimit`,`stroke-miterlimit`],[`strokeOpacity`,`stroke-opacity`],[`strokeWidth`,`stroke-width`],[`textAnchor`,`text-anchor`],[`textDecoration`,`text-decoration`],[`textRendering`,`text-rendering`],[`transformOrigin`,`transform-origin`],[`underlinePosition`,`underline-position`],[`underlineThickness`,`underline-thickness`],[`unicodeBidi`,`unicode-bidi`],[`unicodeRange`,`unicode-range`],[`unitsPerEm`,`units-per-em`],[`vAlphabetic`,`v-alphabetic`],[`vHanging`,`v-hanging`],[`vIdeographic`,`v-ideographic`],[`vMathematical`,`v-mathematical`],[`vectorEffect`,`vector-effect`],[`vertAdvY`,`vert-adv-y`],[`vertOriginX`,`vert-origin-x`],[`vertOriginY`,`vert-origin-y`],[`wordSpacing`,`word-spacing`],[`writingMode`,`writing-mode`],[`xmlnsXlink`,`xmlns:xlink`],[`xHeight`,`x-height`]]),Jt=/^[\u0000-\u001F ]*j[\r\n\t]*a[\r\n\t]*v[\r\n\t]*a[\r\n\t]*s[\r\n\t]*c[\r\n\t]*r[\r\n\t]*i[\r\n\t]*p[\r\n\t]*t[\r\n\t]*:/i;function Yt(e){return Jt.test(``+e)?`javascript:throw new Error('React has blocked a javascript: URL as a security precaution.')`:e}function Xt(){}var Zt=null;function Qt(e){return e=e.target||e.srcElement||window,e.correspondingUseElement&&(e=e.correspondingUseElement),e.nodeType===3?e.parentNode:e}var $t=null,en=null;function tn(e){var t=pt(e);if(t&&(e=t.stateNode)){var n=e[it]||null;a:switch(e=t.stateNode,t.type){case`input`:if(It(e,n.value,n.defaultValue,n.defaultValue,n.checked,n.defaultChecked,n.type,n.name),t=n.name,n.type===`radio`&&t!=null){for(n=e;n.parentNode;)n=n.parentNode;for(n=n.querySelectorAll(`input[name="`+Ft(``+t)+`"][type="radio"]`),t=0;t<n.length;t++){var r=n[t];if(r!==e&&r.form===e.form){var a=r[it]||null;if(!a)throw Error(i(90));It(r,a.value,a.defaultValue,a.defaultValue,a.checked,a.defaultChecked,a.type,a.name)}}for(t=0;t<n.length;t++)r=n[t],r.form===e.form&&Mt(r)}break a;case`textarea`:Bt(e,n.value,n.defaultValue);break a;case`select`:t=n.value,t!=null&&zt(e,!!n.multiple,t,!1)}}}var nn=!1;function rn(e,t,n){if(nn)return e(t,n);nn=!0;try{return e(t)}finally{if(nn=!1,($t!==null||en!==null)&&(Tu(),$t&&(t=$t,e=en,en=$t=null,tn(t),e)))for(t=0;t<e.length;t++)tn(e[t])}}function an(e,t){var n=e.stateNode;if(n===null)return null;var r=n[it]||null;if(r===null)return null;n=r[t];a:switch(t){case`onClick`:case`onClickCapture`:case`onDoubleClick`:case`onDoubleClickCapture`:case`onMouseDown`:case`onMouseDownCapture`:case`onMouseMove`:case`onMouseMoveCapture`:case`onMouseUp`:case`onMouseUpCapture`:case`onMouseEnter`:(r=!r.disabled)||(e=e.type,r=!(e===`button`||e===`input`||e===`select`||e===`textarea`)),e=!r;break a;default:e=!1}if(e)return null;if(n&&typeof n!=`function`)throw Error(i(231,t,typeof n));return n}var on=!(typeof window>`u`||window.document===void 0||window.document.createElement===void 0),sn=!1;if(on)try{var cn={};Object.defineProperty(cn,`passive`,{get:function(){sn=!0}}),window.addEventListener(`test`,cn,cn),window.removeEventListener(`test`,cn,cn)}catch{sn=!1}var ln=null,un=null,dn=null;function fn(){if(dn)return dn;var e,t=un,n=t.length,r,i=`value`in ln?ln.value:ln.textContent,a=i.length;for(e=0;e<n&&t[e]===i[e];e++);var o=n-e;for(r=1;r<=o&&t[n-r]===i[a-r];r++);return dn=i.slice(e,1<r?1-r:void 0)}function pn(e){var t=e.keyCode;return`charCode`in e?(e=e.charCode,e===0&&t===13&&(e=13)):e=t,e===10&&(e=13),32<=e||e===13?e:0}function mn(){return!0}function hn(){return!1}function gn(e){function t(t,n,r,i,a){for(var o in this._reactName=t,this._targetInst=r,this.type=n,this.nativeEvent=i,this.target=a,this.currentTarget=null,e)e.hasOwnProperty(o)&&(t=e[o],this[o]=t?t(i):i[o]);return this.isDefaultPrevented=(i.defaultPrevented==null?!1===i.returnValue:i.defaultPrevented)?mn:hn,this.isPropagationStopped=hn,this}return h(t.prototype,{preventDefault:function(){this.defaultPrevented=!0;var e=this.nativeEvent;e&&(e.preventDefault?e.preventDefault():typeof e.returnValue!=`unknown`&&(e.returnValue=!1),this.isDefaultPrevented=mn)},stopPropagation:function(){var e=this.nativeEvent;e&&(e.stopPropagation?e.stopPropagation():typeof e.cancelBubble!=`unknown`&&(e.cancelBubble=!0),this.isPropagationStopped=mn)},persist:function(){},isPersistent:mn}),t}var _n={eventPhase:0,bubbles:0,cancelable:0,timeStamp:function(e){return e.timeStamp||Date.now()},defaultPrevented:0,isTrusted:0},vn=gn(_n),yn=h({},_n,{view:0,detail:0}),bn=gn(yn),xn,Sn,Cn,wn=h({},yn,{screenX:0,screenY:0,clientX:0,clientY:0,pageX:0,pageY:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,getModifierState:Fn,button:0,buttons:0,relatedTarget:function(e){return e.relatedTarget===void 0?e.fromElement===e.srcElement?e.toElement:e.fromElement:e.relatedTarget},movementX:function(e){return`movementX`in e?e.movementX:(e!==Cn&&(Cn&&e.type===`mousemove`?(xn=e.screenX-Cn.screenX,Sn=e.screenY-Cn.screenY):Sn=xn=0,Cn=e),xn)},movementY:function(e){return`movementY`in e?e.movementY:Sn}}),Tn=gn(wn),En=gn(h({},wn,{dataTransfer:0})),Dn=gn(h({},yn,{relatedTarget:0})),On=gn(h({},_n,{animationName:0,elapsedTime:0,pseudoElement:0})),kn=gn(h({},_n,{clipboardData:function(e){return`clipboardData`in e?e.clipboardData:window.clipboardData}})),An=gn(h({},_n,{data:0})),jn={Esc:`Escape`,Spacebar:` `,Left:`ArrowLeft`,Up:`ArrowUp`,Right:`ArrowRight`,Down:`ArrowDown`,Del:`Delete`,Win:`OS`,Menu:`ContextMenu`,Apps:`ContextMenu`,Scroll:`ScrollLock`,MozPrintableKey:`Unidentified`},Mn={8:`Backspace`,9:`Tab`,12:`Clear`,13:`Enter`,16:`Shift`,17:`Control`,18:`Alt`,19:`Pause`,20:`CapsLock`,27:`Escape`,32:` `,33:`PageUp`,34:`PageDown`,35:`End`,36:`Home`,37:`ArrowLeft`,38:`ArrowUp`,39:`ArrowRight`,40:`ArrowDown`,45:`Insert`,46:`Delete`,112:`F1`,113:`F2`,114:`F3`,115:`F4`,116:`F5`,117:`F6`,118:`F7`,119:`F8`,120:`F9`,121:`F10`,122:`F11`,123:`F12`,144:`NumLock`,145:`ScrollLock`,224:`Meta`},Nn={Alt:`altKey`,Control:`ctrlKey`,Meta:`metaKey`,Shift:`shiftKey`};function Pn(e){var t=this.nativeEvent;return t.getModifierState?t.getModifierState(e):(e=Nn[e])?!!t[e]:!1}function Fn(){return Pn}var In=gn(h({},yn,{key:function(e){if(e.key){var t=jn[e.key]||e.key;if(t!==`Unidentified`)return t}return e.type===`keypress`?(e=pn(e),e===13?`Enter`:String.fromCharCode(e)):e.type===`keydown`||e.type===`keyup`?Mn[e.keyCode]||`Unidentified`:``},code:0,location:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,repeat:0,locale:0,getModifierState:Fn,charCode:function(e){return e.type===`keypress`?pn(e):0},keyCode:function(e){return e.type===`keydown`||e.type===`keyup`?e.keyCode:0},which:function(e){return e.type===`keypress`?pn(e):e.type===`keydown`||e.type===`keyup`?e.keyCode:0}})),Ln=gn(h({},wn,{pointerId:0,width:0,height:0,pressure:0,tangentialPressure:0,tiltX:0,tiltY:0,twist:0,pointerType:0,isPrimary:0})),Rn=gn(h({},yn,{touches:0,targetTouches:0,changedTouches:0,altKey:0,metaKey:0,ctrlKey:0,shiftKey:0,getModifierState:Fn})),zn=gn(h({},_n,{propertyName:0,elapsedTime:0,pseudoElement:0})),Bn=gn(h({},wn,{deltaX:function(e){return`deltaX`in e?e.deltaX:`wheelDeltaX`in e?-e.wheelDeltaX:0},deltaY:function(e){return`deltaY`in e?e.deltaY:`wheelDeltaY`in e?-e.wheelDeltaY:`wheelDelta`in e?-e.wheelDelta:0},deltaZ:0,deltaMode:0})),Vn=gn(h({},_n,{newState:0,oldState:0})),Hn=[9,13,27,32],Un=on&&`CompositionEvent`in window,Wn=null;on&&`documentMode`in document&&(Wn=document.documentMode);var Gn=on&&`TextEvent`in window&&!Wn,Kn=on&&(!Un||Wn&&8<Wn&&11>=Wn),qn=` `,Jn=!1;function Yn(e,t){switch(e){case`keyup`:return Hn.indexOf(t.keyCode)!==-1;case`keydown`:return t.keyCode!==229;case`keypress`:case`mousedown`:case`focusout`:return!0;default:return!1}}function Xn(e){return e=e.detail,typeof e==`object`&&`data`in e?e.data:null}var Zn=!1;function Qn(e,t){switch(e){case`compositionend`:return Xn(t);case`keypress`:return t.which===32?(Jn=!0,qn):null;case`textInput`:return e=t.data,e===qn&&Jn?null:e;default:return null}}function $n(e,t){if(Zn)return e===`compositionend`||!Un&&Yn(e,t)?(e=fn(),dn=un=ln=null,Zn=!1,e):null;switch(e){case`paste`:return null;case`keypress`:if(!(t.ctrlKey||t.altKey||t.metaKey)||t.ctrlKey&&t.altKey){if(t.char&&1<t.char.length)return t.char;if(t.which)return String.fromCharCode(t.which)}return null;case`compositionend`:return Kn&&t.locale!==`ko`?null:t.data;default:return null}}var er={color:!0,date:!0,datetime:!0,"datetime-local":!0,email:!0,month:!0,number:!0,password:!0,range:!0,search:!0,tel:!0,text:!0,time:!0,url:!0,week:!0};function tr(e){var t=e&&e.nodeName&&e.nodeName.toLowerCase();return t===`input`?!!er[e.type]:t===`textarea`}function nr(e,t,n,r){$t?en?en.push(r):en=[r]:$t=r,t=Z(t,`onChange`),0<t.length&&(n=new vn(`onChange`,`change`,null,n,r),e.push({event:n,listeners:t}))}var rr=null,ir=null;function ar(e){xd(e,0)}function or(e){if(Mt(mt(e)))return e}function sr(e,t){if(e===`change`)return t}var cr=!1;if(on){var lr;if(on){var ur=`oninput`in document;if(!ur){var dr=document.createElement(`div`);dr.setAttribute(`oninput`,`return;`),ur=typeof dr.oninput==`function`}lr=ur}else lr=!1;cr=lr&&(!document.documentMode||9<document.documentMode)}function fr(){rr&&(rr.detachEvent(`onpropertychange`,pr),ir=rr=null)}function pr(e){if(e.propertyName===`value`&&or(ir)){var t=[];nr(t,ir,e,Qt(e)),rn(ar,t)}}function mr(e,t,n){e===`focusin`?(fr(),rr=t,ir=n,rr.attachEvent(`onpropertychange`,pr)):e===`focusout`&&fr()}function hr(e){if(e===`selectionchange`||e===`keyup`||e===`keydown`)return or(ir)}function gr(e,t){if(e===`click`)return or(t)}function _r(e,t){if(e===`input`||e===`change`)return or(t)}function vr(e,t){return e===t&&(e!==0||1/e==1/t)||e!==e&&t!==t}var yr=typeof Object.is==`function`?Object.is:vr;function br(e,t){if(yr(e,t))return!0;if(typeof e!=`object`||!e||typeof t!=`object`||!t)return!1;var n=Object.keys(e),r=Object.keys(t);if(n.length!==r.length)return!1;for(r=0;r<n.length;r++){var i=n[r];if(!Se.call(t,i)||!yr(e[i],t[i]))return!1}return!0}function xr(e){for(;e&&e.firstChild;)e=e.firstChild;return e}function Sr(e,t){var n=xr(e);e=0;for(var r;n;){if(n.nodeType===3){if(r=e+n.textContent.length,e<=t&&r>=t)return{node:n,offset:t-e};e=r}a:{for(;n;){if(n.nextSibling){n=n.nextSibling;break a}n=n.parentNode}n=void 0}n=xr(n)}}function Cr(e,t){return e&&t?e===t?!0:e&&e.nodeType===3?!1:t&&t.nodeType===3?Cr(e,t.parentNode):`contains`in e?e.contains(t):e.compareDocumentPosition?!!(e.compareDocumentPosition(t)&16):!1:!1}function wr(e){e=e!=null&&e.ownerDocument!=null&&e.ownerDocument.defaultView!=null?e.ownerDocument.defaultView:window;for(var t=Nt(e.document);t instanceof e.HTMLIFrameElement;){try{var n=typeof t.contentWindow.location.href==`string`}catch{n=!1}if(n)e=t.contentWindow;else break;t=Nt(e.document)}return t}function Tr(e){var t=e&&e.nodeName&&e.nodeName.toLowerCase();return t&&(t===`input`&&(e.type===`text`||e.type===`search`||e.type===`tel`||e.type===`url`||e.type===`password`)||t===`textarea`||e.contentEditable===`true`)}var Er=on&&`documentMode`in document&&11>=document.documentMode,Dr=null,Or=null,kr=null,Ar=!1;function jr(e,t,n){var r=n.window===n?n.document:n.nodeType===9?n:n.ownerDocument;Ar||Dr==null||Dr!==Nt(r)||(r=Dr,`selectionStart`in r&&Tr(r)?r={start:r.selectionStart,end:r.selectionEnd}:(r=(r.ownerDocument&&r.ownerDocument.defaultView||window).getSelection(),r={anchorNode:r.anchorNode,anchorOffset:r.anchorOffset,focusNode:r.focusNode,focusOffset:r.focusOffset}),kr&&br(kr,r)||(kr=r,r=Z(Or,`onSelect`),0<r.length&&(t=new vn(`onSelect`,`select`,null,t,n),e.push({event:t,listeners:r}),t.target=Dr)))}function Mr(e,t){var n={};return n[e.toLowerCase()]=t.toLowerCase(),n[`Webkit`+e]=`webkit`+t,n[`Moz`+e]=`moz`+t,n}var Nr={animationend:Mr(`Animation`,`AnimationEnd`),animationiteration:Mr(`Animation`,`AnimationIteration`),animationstart:Mr(`Animation`,`AnimationStart`),transitionrun:Mr(`Transition`,`TransitionRun`),transitionstart:Mr(`Transition`,`TransitionStart`),transitioncancel:Mr(`Transition`,`TransitionCancel`),transitionend:Mr(`Transition`,`TransitionEnd`)},Pr={},Fr={};on&&(Fr=document.createElement(`div`).style,`AnimationEvent`in window||(delete Nr.animationend.animation,delete Nr.animationiteration.animation,delete Nr.animationstart.animation),`TransitionEvent`in window||delete Nr.transitionend.transition);function Ir(e){if(Pr[e])return Pr[e];if(!Nr[e])return e;var t=Nr[e],n;for(n in t)if(t.hasOwnProperty(n)&&n in Fr)return Pr[e]=t[n];return e}var Lr=Ir(`animationend`),Rr=Ir(`animationiteration`),zr=Ir(`animationstart`),Br=Ir(`transitionrun`),Vr=Ir(`transitionstart`),Hr=Ir(`transitioncancel`),Ur=Ir(`transitionend`),Wr=new Map,Gr=`abort auxClick beforeToggle cancel canPlay canPlayThrough click close contextMenu copy cut drag dragEnd dragEnter dragExit dragLeave dragOver dragStart drop durationChange emptied encrypted ended error gotPointerCapture input invalid keyDown keyPress keyUp load loadedData loadedMetadata loadStart lostPointerCapture mouseDown mouseMove mouseOut mouseOver mouseUp paste pause play playing pointerCancel pointerDown pointerMove pointerOut pointerOver pointerUp progress rateChange reset resize seeked seeking stalled submit suspend timeUpdate touchCancel touchEnd touchStart volumeChange scroll toggle touchMove waiting wheel`.split(` `);Gr.push(`scrollEnd`);function Kr(e,t){Wr.set(e,t),yt(t,[e])}var qr=typeof reportError==`function`?reportError:function(e){if(typeof window==`object`&&typeof window.ErrorEvent==`function`){var t=new window.ErrorEvent(`error`,{bubbles:!0,cancelable:!0,message:typeof e==`object`&&e&&typeof e.message==`string`?String(e.message):String(e),error:e});if(!window.dispatchEvent(t))return}else if(typeof process==`object`&&typeof process.emit==`function`){process.emit(`uncaughtException`,e);return}console.error(e)},Jr=[],Yr=0,Xr=0;function Zr(){for(var e=Yr,t=Xr=Yr=0;t<e;){var n=Jr[t];Jr[t++]=null;var r=Jr[t];Jr[t++]=null;var i=Jr[t];Jr[t++]=null;var a=Jr[t];if(Jr[t++]=null,r!==null&&i!==null){var o=r.pending;o===null?i.next=i:(i.next=o.next,o.next=i),r.pending=i}a!==0&&ti(n,i,a)}}function Qr(e,t,n,r){Jr[Yr++]=e,Jr[Yr++]=t,Jr[Yr++]=n,Jr[Yr++]=r,Xr|=r,e.lanes|=r,e=e.alternate,e!==null&&(e.lanes|=r)}function $r(e,t,n,r){return Qr(e,t,n,r),ni(e)}function ei(e,t){return Qr(e,null,null,t),ni(e)}function ti(e,t,n){e.lanes|=n;var r=e.alternate;r!==null&&(r.lanes|=n);for(var i=!1,a=e.return;a!==null;)a.childLanes|=n,r=a.alternate,r!==null&&(r.childLanes|=n),a.tag===22&&(e=a.stateNode,e===null||e._visibility&1||(i=!0)),e=a,a=a.return;return e.tag===3?(a=e.stateNode,i&&t!==null&&(i=31-Le(n),e=a.hiddenUpdates,r=e[i],r===null?e[i]=[t]:r.push(t),t.lane=n|536870912),a):null}function ni(e){if(50<gu)throw gu=0,_u=null,Error(i(185));for(var t=e.return;t!==null;)e=t,t=e.return;return e.tag===3?e.stateNode:null}var ri={};function ii(e,t,n,r){this.tag=e,this.key=n,this.sibling=this.child=this.return=this.stateNode=this.type=this.elementType=null,this.index=0,this.refCleanup=this.ref=null,this.pendingProps=t,this.dependencies=this.memoizedState=this.updateQueue=this.memoizedProps=null,this.mode=r,this.subtreeFlags=this.flags=0,this.deletions=null,this.childLanes=this.lanes=0,this.alternate=null}function ai(e,t,n,r){return new ii(e,t,n,r)}function oi(e){return e=e.prototype,!(!e||!e.isReactComponent)}function si(e,t){var n=e.alternate;return n===null?(n=ai(e.tag,t,e.key,e.mode),n.elementType=e.elementType,n.type=e.type,n.stateNode=e.stateNode,n.alternate=e,e.alternate=n):(n.pendingProps=t,n.type=e.type,n.flags=0,n.subtreeFlags=0,n.deletions=null),n.flags=e.flags&65011712,n.childLanes=e.childLanes,n.lanes=e.lanes,n.child=e.child,n.memoizedProps=e.memoizedProps,n.memoizedState=e.memoizedState,n.updateQueue=e.updateQueue,t=e.dependencies,n.dependencies=t===null?null:{lanes:t.lanes,firstContext:t.firstContext},n.sibling=e.sibling,n.index=e.index,n.ref=e.ref,n.refCleanup=e.refCleanup,n}function ci(e,t){e.flags&=65011714;var n=e.alternate;return n===null?(e.childLanes=0,e.lanes=t,e.child=null,e.subtreeFlags=0,e.memoizedProps=null,e.memoizedState=null,e.updateQueue=null,e.dependencies=null,e.stateNode=null):(e.childLanes=n.childLanes,e.lanes=n.lanes,e.child=n.child,e.subtreeFlags=0,e.deletions=null,e.memoizedProps=n.memoizedProps,e.memoizedState=n.memoizedState,e.updateQueue=n.updateQueue,e.type=n.type,t=n.dependencies,e.dependencies=t===null?null:{lanes:t.lanes,firstContext:t.firstContext}),e}function li(e,t,n,r,a,o){var s=0;if(r=e,typeof e==`function`)oi(e)&&(s=1);else if(typeof e==`string`)s=Uf(e,n,se.current)?26:e===`html`||e===`head`||e===`body`?27:5;else a:switch(e){case ee:return e=ai(31,n,t,a),e.elementType=ee,e.lanes=o,e;case y:return ui(n.children,a,o,t);case b:s=8,a|=24;break;case x:return e=ai(12,n,t,a|2),e.elementType=x,e.lanes=o,e;case T:return e=ai(13,n,t,a),e.elementType=T,e.lanes=o,e;case E:return e=ai(19,n,t,a),e.elementType=E,e.lanes=o,e;default:if(typeof e==`object`&&e)switch(e.$$typeof){case C:s=10;break a;case S:s=9;break a;case w:s=11;break a;case D:s=14;break a;case O:s=16,r=null;break a}s=29,n=Error(i(130,e===null?`null`:typeof e,``)),r=null}return t=ai(s,n,t,a),t.elementType=e,t.type=r,t.lanes=o,t}function ui(e,t,n,r){return e=ai(7,e,r,t),e.lanes=n,e}function di(e,t,n){return e=ai(6,e,null,t),e.lanes=n,e}function fi(e){var t=ai(18,null,null,0);return t.stateNode=e,t}function pi(e,t,n){return t=ai(4,e.children===null?[]:e.children,e.key,t),t.lanes=n,t.stateNode={containerInfo:e.containerInfo,pendingChildren:null,implementation:e.implementation},t}var mi=new WeakMap;function hi(e,t){if(typeof e==`object`&&e){var n=mi.get(e);return n===void 0?(t={value:e,source:t,stack:xe(t)},mi.set(e,t),t):n}return{value:e,source:t,stack:xe(t)}}var gi=[],_i=0,vi=null,yi=0,bi=[],xi=0,Si=null,Ci=1,wi=``;function Ti(e,t){gi[_i++]=yi,gi[_i++]=vi,vi=e,yi=t}function Ei(e,t,n){bi[xi++]=Ci,bi[xi++]=wi,bi[xi++]=Si,Si=e;var r=Ci;e=wi;var i=32-Le(r)-1;r&=~(1<<i),n+=1;var a=32-Le(t)+i;if(30<a){var o=i-i%5;a=(r&(1<<o)-1).toString(32),r>>=o,i-=o,Ci=1<<32-Le(t)+i|n<<i|r,wi=a+e}else Ci=1<<a|n<<i|r,wi=e}function Di(e){e.return!==null&&(Ti(e,1),Ei(e,1,0))}function Oi(e){for(;e===vi;)vi=gi[--_i],gi[_i]=null,yi=gi[--_i],gi[_i]=null;for(;e===Si;)Si=bi[--xi],bi[xi]=null,wi=bi[--xi],bi[xi]=null,Ci=bi[--xi],bi[xi]=null}function ki(e,t){bi[xi++]=Ci,bi[xi++]=wi,bi[xi++]=Si,Ci=t.id,wi=t.overflow,Si=e}var Ai=null,ji=null,H=!1,Mi=null,Ni=!1,Pi=Error(i(519));function Fi(e){throw Vi(hi(Error(i(418,1<arguments.length&&arguments[1]!==void 0&&arguments[1]?`text`:`HTML`,``)),e)),Pi}function Ii(e){var t=e.stateNode,n=e.type,r=e.memoizedProps;switch(t[rt]=e,t[it]=r,n){case`dialog`:X(`cancel`,t),X(`close`,t);break;case`iframe`:case`object`:case`embed`:X(`load`,t);break;case`video`:case`audio`:for(n=0;n<yd.length;n++)X(yd[n],t);break;case`source`:X(`error`,t);break;case`img`:case`image`:case`link`:X(`error`,t),X(`load`,t);break;case`details`:X(`toggle`,t);break;case`input`:X(`invalid`,t),Lt(t,r.value,r.defaultValue,r.checked,r.defaultChecked,r.type,r.name,!0);break;case`select`:X(`invalid`,t);break;case`textarea`:X(`invalid`,t),Vt(t,r.value,r.defaultValue,r.children)}n=r.children,typeof n!=`string`&&typeof n!=`number`&&typeof n!=`bigint`||t.textContent===``+n||!0===r.suppressHydrationWarning||Md(t.textContent,n)?(r.popover!=null&&(X(`beforetoggle`,t),X(`toggle`,t)),r.onScroll!=null&&X(`scroll`,t),r.onScrollEnd!=null&&X(`scrollend`,t),r.onClick!=null&&(t.onclick=Xt),t=!0):t=!1,t||Fi(e,!0)}function Li(e){for(Ai=e.return;Ai;)switch(Ai.tag){case 5:case 31:case 13:Ni=!1;return;case 27:case 3:Ni=!0;return;default:Ai=Ai.return}}function Ri(e){if(e!==Ai)return!1;if(!H)return Li(e),H=!0,!1;var t=e.tag,n;if((n=t!==3&&t!==27)&&((n=t===5)&&(n=e.type,n=!(n!==`form`&&n!==`button`)||Wd(e.type,e.memoizedProps)),n=!n),n&&ji&&Fi(e),Li(e),t===13){if(e=e.memoizedState,e=e===null?null:e.dehydrated,!e)throw Error(i(317));ji=df(e)}else if(t===31){if(e=e.memoizedState,e=e===null?null:e.dehydrated,!e)throw Error(i(317));ji=df(e)}else t===27?(t=ji,Qd(e.type)?(e=uf,uf=null,ji=e):ji=t):ji=Ai?lf(e.stateNode.nextSibling):null;return!0}function zi(){ji=Ai=null,H=!1}function Bi(){var e=Mi;return e!==null&&(nu===null?nu=e:nu.push.apply(nu,e),Mi=null),e}function Vi(e){Mi===null?Mi=[e]:Mi.push(e)}var Hi=oe(null),Ui=null,Wi=null;function Gi(e,t,n){I(Hi,t._currentValue),t._currentValue=n}function Ki(e){e._currentValue=Hi.current,F(Hi)}function qi(e,t,n){for(;e!==null;){var r=e.alternate;if((e.childLanes&t)===t?r!==null&&(r.childLanes&t)!==t&&(r.childLanes|=t):(e.childLanes|=t,r!==null&&(r.childLanes|=t)),e===n)break;e=e.return}}function Ji(e,t,n,r){var a=e.child;for(a!==null&&(a.return=e);a!==null;){var o=a.dependencies;if(o!==null){var s=a.child;o=o.firstContext;a:for(;o!==null;){var c=o;o=a;for(var l=0;l<t.length;l++)if(c.context===t[l]){o.lanes|=n,c=o.alternate,c!==null&&(c.lanes|=n),qi(o.return,n,e),r||(s=null);break a}o=c.next}}else if(a.tag===18){if(s=a.return,s===null)throw Error(i(341));s.lanes|=n,o=s.alternate,o!==null&&(o.lanes|=n),qi(s,n,e),s=null}else s=a.child;if(s!==null)s.return=a;else for(s=a;s!==null;){if(s===e){s=null;break}if(a=s.sibling,a!==null){a.return=s.return,s=a;break}s=s.return}a=s}}function Yi(e,t,n,r){e=null;for(var a=t,o=!1;a!==null;){if(!o){if(a.flags&524288)o=!0;else if(a.flags&262144)break}if(a.tag===10){var s=a.alternate;if(s===null)throw Error(i(387));if(s=s.memoizedProps,s!==null){var c=a.type;yr(a.pendingProps.value,s.value)||(e===null?e=[c]:e.push(c))}}else if(a===ue.current){if(s=a.alternate,s===null)throw Error(i(387));s.memoizedState.memoizedState!==a.memoizedState.memoizedState&&(e===null?e=[Qf]:e.push(Qf))}a=a.return}e!==null&&Ji(t,e,n,r),t.flags|=262144}function Xi(e){for(e=e.firstContext;e!==null;){if(!yr(e.context._currentValue,e.memoizedValue))return!0;e=e.next}return!1}function Zi(e){Ui=e,Wi=null,e=e.dependencies,e!==null&&(e.firstContext=null)}function Qi(e){return ea(Ui,e)}function $i(e,t){return Ui===null&&Zi(e),ea(e,t)}function ea(e,t){var n=t._currentValue;if(t={context:t,memoizedValue:n,next:null},Wi===null){if(e===null)throw Error(i(308));Wi=t,e.dependencies={lanes:0,firstContext:t},e.flags|=524288}else Wi=Wi.next=t;return n}var ta=typeof AbortController<`u`?AbortController:function(){var e=[],t=this.signal={aborted:!1,addEventListener:function(t,n){e.push(n)}};this.abort=function(){t.aborted=!0,e.forEach(function(e){return e()})}},na=t.unstable_scheduleCallback,ra=t.unstable_NormalPriority,ia={$$typeof:C,Consumer:null,Provider:null,_currentValue:null,_currentValue2:null,_threadCount:0};function aa(){return{controller:new ta,data:new Map,refCount:0}}function oa(e){e.refCount--,e.refCount===0&&na(ra,function(){e.controller.abort()})}var sa=null,ca=0,la=0,ua=null;function da(e,t){if(sa===null){var n=sa=[];ca=0,la=pd(),ua={status:`pending`,value:void 0,then:function(e){n.push(e)}}}return ca++,t.then(fa,fa),t}function fa(){if(--ca===0&&sa!==null){ua!==null&&(ua.status=`fulfilled`);var e=sa;sa=null,la=0,ua=null;for(var t=0;t<e.length;t++)(0,e[t])()}}function pa(e,t){var n=[],r={status:`pending`,value:null,reason:null,then:function(e){n.push(e)}};return e.then(function(){r.status=`fulfilled`,r.value=t;for(var e=0;e<n.length;e++)(0,n[e])(t)},function(e){for(r.status=`rejected`,r.reason=e,e=0;e<n.length;e++)(0,n[e])(void 0)}),r}var ma=N.S;N.S=function(e,t){au=Ee(),typeof t==`object`&&t&&typeof t.then==`function`&&da(e,t),ma!==null&&ma(e,t)};var ha=oe(null);function ga(){var e=ha.current;return e===null?Hl.pooledCache:e}function _a(e,t){t===null?I(ha,ha.current):I(ha,t.pool)}function va(){var e=ga();return e===null?null:{parent:ia._currentValue,pool:e}}var ya=Error(i(460)),ba=Error(i(474)),xa=Error(i(542)),Sa={then:function(){}};function Ca(e){return e=e.status,e===`fulfilled`||e===`rejected`}function wa(e,t,n){switch(n=e[n],n===void 0?e.push(t):n!==t&&(t.then(Xt,Xt),t=n),t.status){case`fulfilled`:return t.value;case`rejected`:throw e=t.reason,Oa(e),e;default:if(typeof t.status==`string`)t.then(Xt,Xt);else{if(e=Hl,e!==null&&100<e.shellSuspendCounter)throw Error(i(482));e=t,e.status=`pending`,e.then(function(e){if(t.status===`pending`){var n=t;n.status=`fulfilled`,n.value=e}},function(e){if(t.status===`pending`){var n=t;n.status=`rejected`,n.reason=e}})}switch(t.status){case`fulfilled`:return t.value;case`rejected`:throw e=t.reason,Oa(e),e}throw Ea=t,ya}}function Ta(e){try{var t=e._init;return t(e._payload)}catch(e){throw typeof e==`object`&&e&&typeof e.then==`function`?(Ea=e,ya):e}}var Ea=null;function Da(){if(Ea===null)throw Error(i(459));var e=Ea;return Ea=null,e}function Oa(e){if(e===ya||e===xa)throw Error(i(483))}var ka=null,Aa=0;function ja(e){var t=Aa;return Aa+=1,ka===null&&(ka=[]),wa(ka,e,t)}function Ma(e,t){t=t.props.ref,e.ref=t===void 0?null:t}function Na(e,t){throw t.$$typeof===g?Error(i(525)):(e=Object.prototype.toString.call(t),Error(i(31,e===`[object Object]`?`object with keys {`+Object.keys(t).join(`, `)+`}`:e)))}function Pa(e){function t(t,n){if(e){var r=t.deletions;r===null?(t.deletions=[n],t.flags|=16):r.push(n)}}function n(n,r){if(!e)return null;for(;r!==null;)t(n,r),r=r.sibling;return null}function r(e){for(var t=new Map;e!==null;)e.key===null?t.set(e.index,e):t.set(e.key,e),e=e.sibling;return t}function a(e,t){return e=si(e,t),e.index=0,e.sibling=null,e}function o(t,n,r){return t.index=r,e?(r=t.alternate,r===null?(t.flags|=67108866,n):(r=r.index,r<n?(t.flags|=67108866,n):r)):(t.flags|=1048576,n)}function s(t){return e&&t.alternate===null&&(t.flags|=67108866),t}function c(e,t,n,r){return t===null||t.tag!==6?(t=di(n,e.mode,r),t.return=e,t):(t=a(t,n),t.return=e,t)}function l(e,t,n,r){var i=n.type;return i===y?d(e,t,n.props.children,r,n.key):t!==null&&(t.elementType===i||typeof i==`object`&&i&&i.$$typeof===O&&Ta(i)===t.type)?(t=a(t,n.props),Ma(t,n),t.return=e,t):(t=li(n.type,n.key,n.props,null,e.mode,r),Ma(t,n),t.return=e,t)}function u(e,t,n,r){return t===null||t.tag!==4||t.stateNode.containerInfo!==n.containerInfo||t.stateNode.implementation!==n.implementation?(t=pi(n,e.mode,r),t.return=e,t):(t=a(t,n.children||[]),t.return=e,t)}function d(e,t,n,r,i){return t===null||t.tag!==7?(t=ui(n,e.mode,r,i),t.return=e,t):(t=a(t,n),t.return=e,t)}function f(e,t,n){if(typeof t==`string`&&t!==``||typeof t==`number`||typeof t==`bigint`)return t=di(``+t,e.mode,n),t.return=e,t;if(typeof t==`object`&&t){switch(t.$$typeof){case _:return n=li(t.type,t.key,t.props,null,e.mode,n),Ma(n,t),n.return=e,n;case v:return t=pi(t,e.mode,n),t.return=e,t;case O:return t=Ta(t),f(e,t,n)}if(ne(t)||j(t))return t=ui(t,e.mode,n,null),t.return=e,t;if(typeof t.then==`function`)return f(e,ja(t),n);if(t.$$typeof===C)return f(e,$i(e,t),n);Na(e,t)}return null}function p(e,t,n,r){var i=t===null?null:t.key;if(typeof n==`string`&&n!==``||typeof n==`number`||typeof n==`bigint`)return i===null?c(e,t,``+n,r):null;if(typeof n==`object`&&n){switch(n.$$typeof){case _:return n.key===i?l(e,t,n,r):null;case v:return n.key===i?u(e,t,n,r):null;case O:return n=Ta(n),p(e,t,n,r)}if(ne(n)||j(n))return i===null?d(e,t,n,r,null):null;if(typeof n.then==`function`)return p(e,t,ja(n),r);if(n.$$typeof===C)return p(e,t,$i(e,n),r);Na(e,n)}return null}function m(e,t,n,r,i){if(typeof r==`string`&&r!==``||typeof r==`number`||typeof r==`bigint`)return e=e.get(n)||null,c(t,e,``+r,i);if(typeof r==`object`&&r){switch(r.$$typeof){case _:return e=e.get(r.key===null?n:r.key)||null,l(t,e,r,i);case v:return e=e.get(r.key===null?n:r.key)||null,u(t,e,r,i);case O:return r=Ta(r),m(e,t,n,r,i)}if(ne(r)||j(r))return e=e.get(n)||null,d(t,e,r,i,null);if(typeof r.then==`function`)return m(e,t,n,ja(r),i);if(r.$$typeof===C)return m(e,t,n,$i(t,r),i);Na(t,r)}return null}function h(i,a,s,c){for(var l=null,u=null,d=a,h=a=0,g=null;d!==null&&h<s.length;h++){d.index>h?(g=d,d=null):g=d.sibling;var _=p(i,d,s[h],c);if(_===null){d===null&&(d=g);break}e&&d&&_.alternate===null&&t(i,d),a=o(_,a,h),u===null?l=_:u.sibling=_,u=_,d=g}if(h===s.length)return n(i,d),H&&Ti(i,h),l;if(d===null){for(;h<s.length;h++)d=f(i,s[h],c),d!==null&&(a=o(d,a,h),u===null?l=d:u.sibling=d,u=d);return H&&Ti(i,h),l}for(d=r(d);h<s.length;h++)g=m(d,i,h,s[h],c),g!==null&&(e&&g.alternate!==null&&d.delete(g.key===null?h:g.key),a=o(g,a,h),u===null?l=g:u.sibling=g,u=g);return e&&d.forEach(function(e){return t(i,e)}),H&&Ti(i,h),l}function g(a,s,c,l){if(c==null)throw Error(i(151));for(var u=null,d=null,h=s,g=s=0,_=null,v=c.next();h!==null&&!v.done;g++,v=c.next()){h.index>g?(_=h,h=null):_=h.sibling;var y=p(a,h,v.value,l);if(y===null){h===null&&(h=_);break}e&&h&&y.alternate===null&&t(a,h),s=o(y,s,g),d===null?u=y:d.sibling=y,d=y,h=_}if(v.done)return n(a,h),H&&Ti(a,g),u;if(h===null){for(;!v.done;g++,v=c.next())v=f(a,v.value,l),v!==null&&(s=o(v,s,g),d===null?u=v:d.sibling=v,d=v);return H&&Ti(a,g),u}for(h=r(h);!v.done;g++,v=c.next())v=m(h,a,g,v.value,l),v!==null&&(e&&v.alternate!==null&&h.delete(v.key===null?g:v.key),s=o(v,s,g),d===null?u=v:d.sibling=v,d=v);return e&&h.forEach(function(e){return t(a,e)}),H&&Ti(a,g),u}function b(e,r,o,c){if(typeof o==`object`&&o&&o.type===y&&o.key===null&&(o=o.props.children),typeof o==`object`&&o){switch(o.$$typeof){case _:a:{for(var l=o.key;r!==null;){if(r.key===l){if(l=o.type,l===y){if(r.tag===7){n(e,r.sibling),c=a(r,o.props.children),c.return=e,e=c;break a}}else if(r.elementType===l||typeof l==`object`&&l&&l.$$typeof===O&&Ta(l)===r.type){n(e,r.sibling),c=a(r,o.props),Ma(c,o),c.return=e,e=c;break a}n(e,r);break}else t(e,r);r=r.sibling}o.type===y?(c=ui(o.props.children,e.mode,c,o.key),c.return=e,e=c):(c=li(o.type,o.key,o.props,null,e.mode,c),Ma(c,o),c.return=e,e=c)}return s(e);case v:a:{for(l=o.key;r!==null;){if(r.key===l)if(r.tag===4&&r.stateNode.containerInfo===o.containerInfo&&r.stateNode.implementation===o.implementation){n(e,r.sibling),c=a(r,o.children||[]),c.return=e,e=c;break a}else{n(e,r);break}else t(e,r);r=r.sibling}c=pi(o,e.mode,c),c.return=e,e=c}return s(e);case O:return o=Ta(o),b(e,r,o,c)}if(ne(o))return h(e,r,o,c);if(j(o)){if(l=j(o),typeof l!=`function`)throw Error(i(150));return o=l.call(o),g(e,r,o,c)}if(typeof o.then==`function`)return b(e,r,ja(o),c);if(o.$$typeof===C)return b(e,r,$i(e,o),c);Na(e,o)}return typeof o==`string`&&o!==``||typeof o==`number`||typeof o==`bigint`?(o=``+o,r!==null&&r.tag===6?(n(e,r.sibling),c=a(r,o),c.return=e,e=c):(n(e,r),c=di(o,e.mode,c),c.return=e,e=c),s(e)):n(e,r)}return function(e,t,n,r){try{Aa=0;var i=b(e,t,n,r);return ka=null,i}catch(t){if(t===ya||t===xa)throw t;var a=ai(29,t,null,e.mode);return a.lanes=r,a.return=e,a}}}var Fa=Pa(!0),Ia=Pa(!1),La=!1;function Ra(e){e.updateQueue={baseState:e.memoizedState,firstBaseUpdate:null,lastBaseUpdate:null,shared:{pending:null,lanes:0,hiddenCallbacks:null},callbacks:null}}function za(e,t){e=e.updateQueue,t.updateQueue===e&&(t.updateQueue={baseState:e.baseState,firstBaseUpdate:e.firstBaseUpdate,lastBaseUpdate:e.lastBaseUpdate,shared:e.shared,callbacks:null})}function Ba(e){return{lane:e,tag:0,payload:null,callback:null,next:null}}function Va(e,t,n){var r=e.updateQueue;if(r===null)return null;if(r=r.shared,Vl&2){var i=r.pending;return i===null?t.next=t:(t.next=i.next,i.next=t),r.pending=t,t=ni(e),ti(e,null,n),t}return Qr(e,r,t,n),ni(e)}function Ha(e,t,n){if(t=t.updateQueue,t!==null&&(t=t.shared,n&4194048)){var r=t.lanes;r&=e.pendingLanes,n|=r,t.lanes=n,Xe(e,n)}}function Ua(e,t){var n=e.updateQueue,r=e.alternate;if(r!==null&&(r=r.updateQueue,n===r)){var i=null,a=null;if(n=n.firstBaseUpdate,n!==null){do{var o={lane:n.lane,tag:n.tag,payload:n.payload,callback:null,next:null};a===null?i=a=o:a=a.next=o,n=n.next}while(n!==null);a===null?i=a=t:a=a.next=t}else i=a=t;n={baseState:r.baseState,firstBaseUpdate:i,lastBaseUpdate:a,shared:r.shared,callbacks:r.callbacks},e.updateQueue=n;return}e=n.lastBaseUpdate,e===null?n.firstBaseUpdate=t:e.next=t,n.lastBaseUpdate=t}var Wa=!1;function Ga(){if(Wa){var e=ua;if(e!==null)throw e}}function Ka(e,t,n,r){Wa=!1;var i=e.updateQueue;La=!1;var a=i.firstBaseUpdate,o=i.lastBaseUpdate,s=i.shared.pending;if(s!==null){i.shared.pending=null;var c=s,l=c.next;c.next=null,o===null?a=l:o.next=l,o=c;var u=e.alternate;u!==null&&(u=u.updateQueue,s=u.lastBaseUpdate,s!==o&&(s===null?u.firstBaseUpdate=l:s.next=l,u.lastBaseUpdate=c))}if(a!==null){var d=i.baseState;o=0,u=l=c=null,s=a;do{var f=s.lane&-536870913,p=f!==s.lane;if(p?(G&f)===f:(r&f)===f){f!==0&&f===la&&(Wa=!0),u!==null&&(u=u.next={lane:0,tag:s.tag,payload:s.payload,callback:null,next:null});a:{var m=e,g=s;f=t;var _=n;switch(g.tag){case 1:if(m=g.payload,typeof m==`function`){d=m.call(_,d,f);break a}d=m;break a;case 3:m.flags=m.flags&-65537|128;case 0:if(m=g.payload,f=typeof m==`function`?m.call(_,d,f):m,f==null)break a;d=h({},d,f);break a;case 2:La=!0}}f=s.callback,f!==null&&(e.flags|=64,p&&(e.flags|=8192),p=i.callbacks,p===null?i.callbacks=[f]:p.push(f))}else p={lane:f,tag:s.tag,payload:s.payload,callback:s.callback,next:null},u===null?(l=u=p,c=d):u=u.next=p,o|=f;if(s=s.next,s===null){if(s=i.shared.pending,s===null)break;p=s,s=p.next,p.next=null,i.lastBaseUpdate=p,i.shared.pending=null}}while(1);u===null&&(c=d),i.baseState=c,i.firstBaseUpdate=l,i.lastBaseUpdate=u,a===null&&(i.shared.lanes=0),Xl|=o,e.lanes=o,e.memoizedState=d}}function qa(e,t){if(typeof e!=`function`)throw Error(i(191,e));e.call(t)}function Ja(e,t){var n=e.callbacks;if(n!==null)for(e.callbacks=null,e=0;e<n.length;e++)qa(n[e],t)}var Ya=oe(null),Xa=oe(0);function Za(e,t){e=Jl,I(Xa,e),I(Ya,t),Jl=e|t.baseLanes}function Qa(){I(Xa,Jl),I(Ya,Ya.current)}function $a(){Jl=Xa.current,F(Ya),F(Xa)}var eo=oe(null),to=null;function no(e){var t=e.alternate;I(so,so.current&1),I(eo,e),to===null&&(t===null||Ya.current!==null||t.memoizedState!==null)&&(to=e)}function ro(e){I(so,so.current),I(eo,e),to===null&&(to=e)}function io(e){e.tag===22?(I(so,so.current),I(eo,e),to===null&&(to=e)):ao(e)}function ao(){I(so,so.current),I(eo,eo.current)}function oo(e){F(eo),to===e&&(to=null),F(so)}var so=oe(0);function co(e){for(var t=e;t!==null;){if(t.tag===13){var n=t.memoizedState;if(n!==null&&(n=n.dehydrated,n===null||of(n)||sf(n)))return t}else if(t.tag===19&&(t.memoizedProps.revealOrder===`forwards`||t.memoizedProps.revealOrder===`backwards`||t.memoizedProps.revealOrder===`unstable_legacy-backwards`||t.memoizedProps.revealOrder===`together`)){if(t.flags&128)return t}else if(t.child!==null){t.child.return=t,t=t.child;continue}if(t===e)break;for(;t.sibling===null;){if(t.return===null||t.return===e)return null;t=t.return}t.sibling.return=t.return,t=t.sibling}return null}var lo=0,U=null,uo=null,fo=null,po=!1,mo=!1,ho=!1,go=0,_o=0,vo=null,yo=0;function bo(){throw Error(i(321))}function xo(e,t){if(t===null)return!1;for(var n=0;n<t.length&&n<e.length;n++)if(!yr(e[n],t[n]))return!1;return!0}function So(e,t,n,r,i,a){return lo=a,U=t,t.memoizedState=null,t.updateQueue=null,t.lanes=0,N.H=e===null||e.memoizedState===null?zs:Bs,ho=!1,a=n(r,i),ho=!1,mo&&(a=wo(t,n,r,i)),Co(e),a}function Co(e){N.H=Rs;var t=uo!==null&&uo.next!==null;if(lo=0,fo=uo=U=null,po=!1,_o=0,vo=null,t)throw Error(i(300));e===null||rc||(e=e.dependencies,e!==null&&Xi(e)&&(rc=!0))}function wo(e,t,n,r){U=e;var a=0;do{if(mo&&(vo=null),_o=0,mo=!1,25<=a)throw Error(i(301));if(a+=1,fo=uo=null,e.updateQueue!=null){var o=e.updateQueue;o.lastEffect=null,o.events=null,o.stores=null,o.memoCache!=null&&(o.memoCache.index=0)}N.H=Vs,o=t(n,r)}while(mo);return o}function To(){var e=N.H,t=e.useState()[0];return t=typeof t.then==`function`?Mo(t):t,e=e.useState()[0],(uo===null?null:uo.memoizedState)!==e&&(U.flags|=1024),t}function Eo(){var e=go!==0;return go=0,e}function Do(e,t,n){t.updateQueue=e.updateQueue,t.flags&=-2053,e.lanes&=~n}function Oo(e){if(po){for(e=e.memoizedState;e!==null;){var t=e.queue;t!==null&&(t.pending=null),e=e.next}po=!1}lo=0,fo=uo=U=null,mo=!1,_o=go=0,vo=null}function ko(){var e={memoizedState:null,baseState:null,baseQueue:null,queue:null,next:null};return fo===null?U.memoizedState=fo=e:fo=fo.next=e,fo}function Ao(){if(uo===null){var e=U.alternate;e=e===null?null:e.memoizedState}else e=uo.next;var t=fo===null?U.memoizedState:fo.next;if(t!==null)fo=t,uo=e;else{if(e===null)throw U.alternate===null?Error(i(467)):Error(i(310));uo=e,e={memoizedState:uo.memoizedState,baseState:uo.baseState,baseQueue:uo.baseQueue,queue:uo.queue,next:null},fo===null?U.memoizedState=fo=e:fo=fo.next=e}return fo}function jo(){return{lastEffect:null,events:null,stores:null,memoCache:null}}function Mo(e){var t=_o;return _o+=1,vo===null&&(vo=[]),e=wa(vo,e,t),t=U,(fo===null?t.memoizedState:fo.next)===null&&(t=t.alternate,N.H=t===null||t.memoizedState===null?zs:Bs),e}function No(e){if(typeof e==`object`&&e){if(typeof e.then==`function`)return Mo(e);if(e.$$typeof===C)return Qi(e)}throw Error(i(438,String(e)))}function Po(e){var t=null,n=U.updateQueue;if(n!==null&&(t=n.memoCache),t==null){var r=U.alternate;r!==null&&(r=r.updateQueue,r!==null&&(r=r.memoCache,r!=null&&(t={data:r.data.map(function(e){return e.slice()}),index:0})))}if(t??={data:[],index:0},n===null&&(n=jo(),U.updateQueue=n),n.memoCache=t,n=t.data[t.index],n===void 0)for(n=t.data[t.index]=Array(e),r=0;r<e;r++)n[r]=k;return t.index++,n}function Fo(e,t){return typeof t==`function`?t(e):t}function Io(e){return Lo(Ao(),uo,e)}function Lo(e,t,n){var r=e.queue;if(r===null)throw Error(i(311));r.lastRenderedReducer=n;var a=e.baseQueue,o=r.pending;if(o!==null){if(a!==null){var s=a.next;a.next=o.next,o.next=s}t.baseQueue=a=o,r.pending=null}if(o=e.baseState,a===null)e.memoizedState=o;else{t=a.next;var c=s=null,l=null,u=t,d=!1;do{var f=u.lane&-536870913;if(f===u.lane?(lo&f)===f:(G&f)===f){var p=u.revertLane;if(p===0)l!==null&&(l=l.next={lane:0,revertLane:0,gesture:null,action:u.action,hasEagerState:u.hasEagerState,eagerState:u.eagerState,next:null}),f===la&&(d=!0);else if((lo&p)===p){u=u.next,p===la&&(d=!0);continue}else f={lane:0,revertLane:u.revertLane,gesture:null,action:u.action,hasEagerState:u.hasEagerState,eagerState:u.eagerState,next:null},l===null?(c=l=f,s=o):l=l.next=f,U.lanes|=p,Xl|=p;f=u.action,ho&&n(o,f),o=u.hasEagerState?u.eagerState:n(o,f)}else p={lane:f,revertLane:u.revertLane,gesture:u.gesture,action:u.action,hasEagerState:u.hasEagerState,eagerState:u.eagerState,next:null},l===null?(c=l=p,s=o):l=l.next=p,U.lanes|=f,Xl|=f;u=u.next}while(u!==null&&u!==t);if(l===null?s=o:l.next=c,!yr(o,e.memoizedState)&&(rc=!0,d&&(n=ua,n!==null)))throw n;e.memoizedState=o,e.baseState=s,e.baseQueue=l,r.lastRenderedState=o}return a===null&&(r.lanes=0),[e.memoizedState,r.dispatch]}function Ro(e){var t=Ao(),n=t.queue;if(n===null)throw Error(i(311));n.lastRenderedReducer=e;var r=n.dispatch,a=n.pending,o=t.memoizedState;if(a!==null){n.pending=null;var s=a=a.next;do o=e(o,s.action),s=s.next;while(s!==a);yr(o,t.memoizedState)||(rc=!0),t.memoizedState=o,t.baseQueue===null&&(t.baseState=o),n.lastRenderedState=o}return[o,r]}function zo(e,t,n){var r=U,a=Ao(),o=H;if(o){if(n===void 0)throw Error(i(407));n=n()}else n=t();var s=!yr((uo||a).memoizedState,n);if(s&&(a.memoizedState=n,rc=!0),a=a.queue,us(Ho.bind(null,r,a,e),[e]),a.getSnapshot!==t||s||fo!==null&&fo.memoizedState.tag&1){if(r.flags|=2048,as(9,{destroy:void 0},Vo.bind(null,r,a,n,t),null),Hl===null)throw Error(i(349));o||lo&127||Bo(r,t,n)}return n}function Bo(e,t,n){e.flags|=16384,e={getSnapshot:t,value:n},t=U.updateQueue,t===null?(t=jo(),U.updateQueue=t,t.stores=[e]):(n=t.stores,n===null?t.stores=[e]:n.push(e))}function Vo(e,t,n,r){t.value=n,t.getSnapshot=r,Uo(t)&&Wo(e)}function Ho(e,t,n){return n(function(){Uo(t)&&Wo(e)})}function Uo(e){var t=e.getSnapshot;e=e.value;try{var n=t();return!yr(e,n)}catch{return!0}}function Wo(e){var t=ei(e,2);t!==null&&bu(t,e,2)}function Go(e){var t=ko();if(typeof e==`function`){var n=e;if(e=n(),ho){Ie(!0);try{n()}finally{Ie(!1)}}}return t.memoizedState=t.baseState=e,t.queue={pending:null,lanes:0,dispatch:null,lastRenderedReducer:Fo,lastRenderedState:e},t}function Ko(e,t,n,r){return e.baseState=n,Lo(e,uo,typeof r==`function`?r:Fo)}function qo(e,t,n,r,a){if(Fs(e))throw Error(i(485));if(e=t.action,e!==null){var o={payload:a,action:e,next:null,isTransition:!0,status:`pending`,value:null,reason:null,listeners:[],then:function(e){o.listeners.push(e)}};N.T===null?o.isTransition=!1:n(!0),r(o),n=t.pending,n===null?(o.next=t.pending=o,Jo(t,o)):(o.next=n.next,t.pending=n.next=o)}}function Jo(e,t){var n=t.action,r=t.payload,i=e.state;if(t.isTransition){var a=N.T,o={};N.T=o;try{var s=n(i,r),c=N.S;c!==null&&c(o,s),Yo(e,t,s)}catch(n){Zo(e,t,n)}finally{a!==null&&o.types!==null&&(a.types=o.types),N.T=a}}else try{a=n(i,r),Yo(e,t,a)}catch(n){Zo(e,t,n)}}function Yo(e,t,n){typeof n==`object`&&n&&typeof n.then==`function`?n.then(function(n){Xo(e,t,n)},function(n){return Zo(e,t,n)}):Xo(e,t,n)}function Xo(e,t,n){t.status=`fulfilled`,t.value=n,Qo(t),e.state=n,t=e.pending,t!==null&&(n=t.next,n===t?e.pending=null:(n=n.next,t.next=n,Jo(e,n)))}function Zo(e,t,n){var r=e.pending;if(e.pending=null,r!==null){r=r.next;do t.status=`rejected`,t.reason=n,Qo(t),t=t.next;while(t!==r)}e.action=null}function Qo(e){e=e.listeners;for(var t=0;t<e.length;t++)(0,e[t])()}function $o(e,t){return t}function es(e,t){if(H){var n=Hl.formState;if(n!==null){a:{var r=U;if(H){if(ji){b:{for(var i=ji,a=Ni;i.nodeType!==8;){if(!a){i=null;break b}if(i=lf(i.nextSibling),i===null){i=null;break b}}a=i.data,i=a===`F!`||a===`F`?i:null}if(i){ji=lf(i.nextSibling),r=i.data===`F!`;break a}}Fi(r)}r=!1}r&&(t=n[0])}}return n=ko(),n.memoizedState=n.baseState=t,r={pending:null,lanes:0,dispatch:null,lastRenderedReducer:$o,lastRenderedState:t},n.queue=r,n=Ms.bind(null,U,r),r.dispatch=n,r=Go(!1),a=Ps.bind(null,U,!1,r.queue),r=ko(),i={state:t,dispatch:null,action:e,pending:null},r.queue=i,n=qo.bind(null,U,i,a,n),i.dispatch=n,r.memoizedState=e,[t,n,!1]}function ts(e){return ns(Ao(),uo,e)}function ns(e,t,n){if(t=Lo(e,t,$o)[0],e=Io(Fo)[0],typeof t==`object`&&t&&typeof t.then==`function`)try{var r=Mo(t)}catch(e){throw e===ya?xa:e}else r=t;t=Ao();var i=t.queue,a=i.dispatch;return n!==t.memoizedState&&(U.flags|=2048,as(9,{destroy:void 0},rs.bind(null,i,n),null)),[r,a,e]}function rs(e,t){e.action=t}function is(e){var t=Ao(),n=uo;if(n!==null)return ns(t,n,e);Ao(),t=t.memoizedState,n=Ao();var r=n.queue.dispatch;return n.memoizedState=e,[t,r,!1]}function as(e,t,n,r){return e={tag:e,create:n,deps:r,inst:t,next:null},t=U.updateQueue,t===null&&(t=jo(),U.updateQueue=t),n=t.lastEffect,n===null?t.lastEffect=e.next=e:(r=n.next,n.next=e,e.next=r,t.lastEffect=e),e}function os(){return Ao().memoizedState}function ss(e,t,n,r){var i=ko();U.flags|=e,i.memoizedState=as(1|t,{destroy:void 0},n,r===void 0?null:r)}function cs(e,t,n,r){var i=Ao();r=r===void 0?null:r;var a=i.memoizedState.inst;uo!==null&&r!==null&&xo(r,uo.memoizedState.deps)?i.memoizedState=as(t,a,n,r):(U.flags|=e,i.memoizedState=as(1|t,a,n,r))}function ls(e,t){ss(8390656,8,e,t)}function us(e,t){cs(2048,8,e,t)}function ds(e){U.flags|=4;var t=U.updateQueue;if(t===null)t=jo(),U.updateQueue=t,t.events=[e];else{var n=t.events;n===null?t.events=[e]:n.push(e)}}function fs(e){var t=Ao().memoizedState;return ds({ref:t,nextImpl:e}),function(){if(Vl&2)throw Error(i(440));return t.impl.apply(void 0,arguments)}}function ps(e,t){return cs(4,2,e,t)}function ms(e,t){return cs(4,4,e,t)}function hs(e,t){if(typeof t==`function`){e=e();var n=t(e);return function(){typeof n==`function`?n():t(null)}}if(t!=null)return e=e(),t.current=e,function(){t.current=null}}function gs(e,t,n){n=n==null?null:n.concat([e]),cs(4,4,hs.bind(null,t,e),n)}function _s(){}function vs(e,t){var n=Ao();t=t===void 0?null:t;var r=n.memoizedState;return t!==null&&xo(t,r[1])?r[0]:(n.memoizedState=[e,t],e)}function ys(e,t){var n=Ao();t=t===void 0?null:t;var r=n.memoizedState;if(t!==null&&xo(t,r[1]))return r[0];if(r=e(),ho){Ie(!0);try{e()}finally{Ie(!1)}}return n.memoizedState=[r,t],r}function bs(e,t,n){return n===void 0||lo&1073741824&&!(G&261930)?e.memoizedState=t:(e.memoizedState=n,e=yu(),U.lanes|=e,Xl|=e,n)}function xs(e,t,n,r){return yr(n,t)?n:Ya.current===null?!(lo&42)||lo&1073741824&&!(G&261930)?(rc=!0,e.memoizedState=n):(e=yu(),U.lanes|=e,Xl|=e,t):(e=bs(e,n,r),yr(e,t)||(rc=!0),e)}function Ss(e,t,n,r,i){var a=P.p;P.p=a!==0&&8>a?a:8;var o=N.T,s={};N.T=s,Ps(e,!1,t,n);try{var c=i(),l=N.S;l!==null&&l(s,c),typeof c==`object`&&c&&typeof c.then==`function`?Ns(e,t,pa(c,r),vu(e)):Ns(e,t,r,vu(e))}catch(n){Ns(e,t,{then:function(){},status:`rejected`,reason:n},vu())}finally{P.p=a,o!==null&&s.types!==null&&(o.types=s.types),N.T=o}}function Cs(){}function ws(e,t,n,r){if(e.tag!==5)throw Error(i(476));var a=Ts(e).queue;Ss(e,a,t,re,n===null?Cs:function(){return Es(e),n(r)})}function Ts(e){var t=e.memoizedState;if(t!==null)return t;t={memoizedState:re,baseState:re,baseQueue:null,queue:{pending:null,lanes:0,dispatch:null,lastRenderedReducer:Fo,lastRenderedState:re},next:null};var n={};return t.next={memoizedState:n,baseState:n,baseQueue:null,queue:{pending:null,lanes:0,dispatch:null,lastRenderedReducer:Fo,lastRenderedState:n},next:null},e.memoizedState=t,e=e.alternate,e!==null&&(e.memoizedState=t),t}function Es(e){var t=Ts(e);t.next===null&&(t=e.alternate.memoizedState),Ns(e,t.next.queue,{},vu())}function Ds(){return Qi(Qf)}function Os(){return Ao().memoizedState}function ks(){return Ao().memoizedState}function As(e){for(var t=e.return;t!==null;){switch(t.tag){case 24:case 3:var n=vu();e=Ba(n);var r=Va(t,e,n);r!==null&&(bu(r,t,n),Ha(r,t,n)),t={cache:aa()},e.payload=t;return}t=t.return}}function js(e,t,n){var r=vu();n={lane:r,revertLane:0,gesture:null,action:n,hasEagerState:!1,eagerState:null,next:null},Fs(e)?Is(t,n):(n=$r(e,t,n,r),n!==null&&(bu(n,e,r),Ls(n,t,r)))}function Ms(e,t,n){Ns(e,t,n,vu())}function Ns(e,t,n,r){var i={lane:r,revertLane:0,gesture:null,action:n,hasEagerState:!1,eagerState:null,next:null};if(Fs(e))Is(t,i);else{var a=e.alternate;if(e.lanes===0&&(a===null||a.lanes===0)&&(a=t.lastRenderedReducer,a!==null))try{var o=t.lastRenderedState,s=a(o,n);if(i.hasEagerState=!0,i.eagerState=s,yr(s,o))return Qr(e,t,i,0),Hl===null&&Zr(),!1}catch{}if(n=$r(e,t,i,r),n!==null)return bu(n,e,r),Ls(n,t,r),!0}return!1}function Ps(e,t,n,r){if(r={lane:2,revertLane:pd(),gesture:null,action:r,hasEagerState:!1,eagerState:null,next:null},Fs(e)){if(t)throw Error(i(479))}else t=$r(e,n,r,2),t!==null&&bu(t,e,2)}function Fs(e){var t=e.alternate;return e===U||t!==null&&t===U}function Is(e,t){mo=po=!0;var n=e.pending;n===null?t.next=t:(t.next=n.next,n.next=t),e.pending=t}function Ls(e,t,n){if(n&4194048){var r=t.lanes;r&=e.pendingLanes,n|=r,t.lanes=n,Xe(e,n)}}var Rs={readContext:Qi,use:No,useCallback:bo,useContext:bo,useEffect:bo,useImperativeHandle:bo,useLayoutEffect:bo,useInsertionEffect:bo,useMemo:bo,useReducer:bo,useRef:bo,useState:bo,useDebugValue:bo,useDeferredValue:bo,useTransition:bo,useSyncExternalStore:bo,useId:bo,useHostTransitionStatus:bo,useFormState:bo,useActionState:bo,useOptimistic:bo,useMemoCache:bo,useCacheRefresh:bo};Rs.useEffectEvent=bo;var zs={readContext:Qi,use:No,useCallback:function(e,t){return ko().memoizedState=[e,t===void 0?null:t],e},useContext:Qi,useEffect:ls,useImperativeHandle:function(e,t,n){n=n==null?null:n.concat([e]),ss(4194308,4,hs.bind(null,t,e),n)},useLayoutEffect:function(e,t){return ss(4194308,4,e,t)},useInsertionEffect:function(e,t){ss(4,2,e,t)},useMemo:function(e,t){var n=ko();t=t===void 0?null:t;var r=e();if(ho){Ie(!0);try{e()}finally{Ie(!1)}}return n.memoizedState=[r,t],r},useReducer:function(e,t,n){var r=ko();if(n!==void 0){var i=n(t);if(ho){Ie(!0);try{n(t)}finally{Ie(!1)}}}else i=t;return r.memoizedState=r.baseState=i,e={pending:null,lanes:0,dispatch:null,lastRenderedReducer:e,lastRenderedState:i},r.queue=e,e=e.dispatch=js.bind(null,U,e),[r.memoizedState,e]},useRef:function(e){var t=ko();return e={current:e},t.memoizedState=e},useState:function(e){e=Go(e);var t=e.queue,n=Ms.bind(null,U,t);return t.dispatch=n,[e.memoizedState,n]},useDebugValue:_s,useDeferredValue:function(e,t){return bs(ko(),e,t)},useTransition:function(){var e=Go(!1);return e=Ss.bind(null,U,e.queue,!0,!1),ko().memoizedState=e,[!1,e]},useSyncExternalStore:function(e,t,n){var r=U,a=ko();if(H){if(n===void 0)throw Error(i(407));n=n()}else{if(n=t(),Hl===null)throw Error(i(349));G&127||Bo(r,t,n)}a.memoizedState=n;var o={value:n,getSnapshot:t};return a.queue=o,ls(Ho.bind(null,r,o,e),[e]),r.flags|=2048,as(9,{destroy:void 0},Vo.bind(null,r,o,n,t),null),n},useId:function(){var e=ko(),t=Hl.identifierPrefix;if(H){var n=wi,r=Ci;n=(r&~(1<<32-Le(r)-1)).toString(32)+n,t=`_`+t+`R_`+n,n=go++,0<n&&(t+=`H`+n.toString(32)),t+=`_`}else n=yo++,t=`_`+t+`r_`+n.toString(32)+`_`;return e.memoizedState=t},useHostTransitionStatus:Ds,useFormState:es,useActionState:es,useOptimistic:function(e){var t=ko();t.memoizedState=t.baseState=e;var n={pending:null,lanes:0,dispatch:null,lastRenderedReducer:null,lastRenderedState:null};return t.queue=n,t=Ps.bind(null,U,!0,n),n.dispatch=t,[e,t]},useMemoCache:Po,useCacheRefresh:function(){return ko().memoizedState=As.bind(null,U)},useEffectEvent:function(e){var t=ko(),n={impl:e};return t.memoizedState=n,function(){if(Vl&2)throw Error(i(440));return n.impl.apply(void 0,arguments)}}},Bs={readContext:Qi,use:No,useCallback:vs,useContext:Qi,useEffect:us,useImperativeHandle:gs,useInsertionEffect:ps,useLayoutEffect:ms,useMemo:ys,useReducer:Io,useRef:os,useState:function(){return Io(Fo)},useDebugValue:_s,useDeferredValue:function(e,t){return xs(Ao(),uo.memoizedState,e,t)},useTransition:function(){var e=Io(Fo)[0],t=Ao().memoizedState;return[typeof e==`boolean`?e:Mo(e),t]},useSyncExternalStore:zo,useId:Os,useHostTransitionStatus:Ds,useFormState:ts,useActionState:ts,useOptimistic:function(e,t){return Ko(Ao(),uo,e,t)},useMemoCache:Po,useCacheRefresh:ks};Bs.useEffectEvent=fs;var Vs={readContext:Qi,use:No,useCallback:vs,useContext:Qi,useEffect:us,useImperativeHandle:gs,useInsertionEffect:ps,useLayoutEffect:ms,useMemo:ys,useReducer:Ro,useRef:os,useState:function(){return Ro(Fo)},useDebugValue:_s,useDeferredValue:function(e,t){var n=Ao();return uo===null?bs(n,e,t):xs(n,uo.memoizedState,e,t)},useTransition:function(){var e=Ro(Fo)[0],t=Ao().memoizedState;return[typeof e==`boolean`?e:Mo(e),t]},useSyncExternalStore:zo,useId:Os,useHostTransitionStatus:Ds,useFormState:is,useActionState:is,useOptimistic:function(e,t){var n=Ao();return uo===null?(n.baseState=e,[e,n.queue.dispatch]):Ko(n,uo,e,t)},useMemoCache:Po,useCacheRefresh:ks};Vs.useEffectEvent=fs;function Hs(e,t,n,r){t=e.memoizedState,n=n(r,t),n=n==null?t:h({},t,n),e.memoizedState=n,e.lanes===0&&(e.updateQueue.baseState=n)}var Us={enqueueSetState:function(e,t,n){e=e._reactInternals;var r=vu(),i=Ba(r);i.payload=t,n!=null&&(i.callback=n),t=Va(e,i,r),t!==null&&(bu(t,e,r),Ha(t,e,r))},enqueueReplaceState:function(e,t,n){e=e._reactInternals;var r=vu(),i=Ba(r);i.tag=1,i.payload=t,n!=null&&(i.callback=n),t=Va(e,i,r),t!==null&&(bu(t,e,r),Ha(t,e,r))},enqueueForceUpdate:function(e,t){e=e._reactInternals;var n=vu(),r=Ba(n);r.tag=2,t!=null&&(r.callback=t),t=Va(e,r,n),t!==null&&(bu(t,e,n),Ha(t,e,n))}};function Ws(e,t,n,r,i,a,o){return e=e.stateNode,typeof e.shouldComponentUpdate==`function`?e.shouldComponentUpdate(r,a,o):t.prototype&&t.prototype.isPureReactComponent?!br(n,r)||!br(i,a):!0}function Gs(e,t,n,r){e=t.state,typeof t.componentWillReceiveProps==`function`&&t.componentWillReceiveProps(n,r),typeof t.UNSAFE_componentWillReceiveProps==`function`&&t.UNSAFE_componentWillReceiveProps(n,r),t.state!==e&&Us.enqueueReplaceState(t,t.state,null)}function Ks(e,t){var n=t;if(`ref`in t)for(var r in n={},t)r!==`ref`&&(n[r]=t[r]);if(e=e.defaultProps)for(var i in n===t&&(n=h({},n)),e)n[i]===void 0&&(n[i]=e[i]);return n}function qs(e){qr(e)}function Js(e){console.error(e)}function Ys(e){qr(e)}function Xs(e,t){try{var n=e.onUncaughtError;n(t.value,{componentStack:t.stack})}catch(e){setTimeout(function(){throw e})}}function Zs(e,t,n){try{var r=e.onCaughtError;r(n.value,{componentStack:n.stack,errorBoundary:t.tag===1?t.stateNode:null})}catch(e){setTimeout(function(){throw e})}}function Qs(e,t,n){return n=Ba(n),n.tag=3,n.payload={element:null},n.callback=function(){Xs(e,t)},n}function $s(e){return e=Ba(e),e.tag=3,e}function ec(e,t,n,r){var i=n.type.getDerivedStateFromError;if(typeof i==`function`){var a=r.value;e.payload=function(){return i(a)},e.callback=function(){Zs(t,n,r)}}var o=n.stateNode;o!==null&&typeof o.componentDidCatch==`function`&&(e.callback=function(){Zs(t,n,r),typeof i!=`function`&&(cu===null?cu=new Set([this]):cu.add(this));var e=r.stack;this.componentDidCatch(r.value,{componentStack:e===null?``:e})})}function tc(e,t,n,r,a){if(n.flags|=32768,typeof r==`object`&&r&&typeof r.then==`function`){if(t=n.alternate,t!==null&&Yi(t,n,a,!0),n=eo.current,n!==null){switch(n.tag){case 31:case 13:return to===null?Mu():n.alternate===null&&Yl===0&&(Yl=3),n.flags&=-257,n.flags|=65536,n.lanes=a,r===Sa?n.flags|=16384:(t=n.updateQueue,t===null?n.updateQueue=new Set([r]):t.add(r),Yu(e,r,a)),!1;case 22:return n.flags|=65536,r===Sa?n.flags|=16384:(t=n.updateQueue,t===null?(t={transitions:null,markerInstances:null,retryQueue:new Set([r])},n.updateQueue=t):(n=t.retryQueue,n===null?t.retryQueue=new Set([r]):n.add(r)),Yu(e,r,a)),!1}throw Error(i(435,n.tag))}return Yu(e,r,a),Mu(),!1}if(H)return t=eo.current,t===null?(r!==Pi&&(t=Error(i(423),{cause:r}),Vi(hi(t,n))),e=e.current.alternate,e.flags|=65536,a&=-a,e.lanes|=a,r=hi(r,n),a=Qs(e.stateNode,r,a),Ua(e,a),Yl!==4&&(Yl=2)):(!(t.flags&65536)&&(t.flags|=256),t.flags|=65536,t.lanes=a,r!==Pi&&(e=Error(i(422),{cause:r}),Vi(hi(e,n)))),!1;var o=Error(i(520),{cause:r});if(o=hi(o,n),tu===null?tu=[o]:tu.push(o),Yl!==4&&(Yl=2),t===null)return!0;r=hi(r,n),n=t;do{switch(n.tag){case 3:return n.flags|=65536,e=a&-a,n.lanes|=e,e=Qs(n.stateNode,r,e),Ua(n,e),!1;case 1:if(t=n.type,o=n.stateNode,!(n.flags&128)&&(typeof t.getDerivedStateFromError==`function`||o!==null&&typeof o.componentDidCatch==`function`&&(cu===null||!cu.has(o))))return n.flags|=65536,a&=-a,n.lanes|=a,a=$s(a),ec(a,e,n,r),Ua(n,a),!1}n=n.return}while(n!==null);return!1}var nc=Error(i(461)),rc=!1;function ic(e,t,n,r){t.child=e===null?Ia(t,null,n,r):Fa(t,e.child,n,r)}function ac(e,t,n,r,i){n=n.render;var a=t.ref;if(`ref`in r){var o={};for(var s in r)s!==`ref`&&(o[s]=r[s])}else o=r;return Zi(t),r=So(e,t,n,o,a,i),s=Eo(),e!==null&&!rc?(Do(e,t,i),kc(e,t,i)):(H&&s&&Di(t),t.flags|=1,ic(e,t,r,i),t.child)}function oc(e,t,n,r,i){if(e===null){var a=n.type;return typeof a==`function`&&!oi(a)&&a.defaultProps===void 0&&n.compare===null?(t.tag=15,t.type=a,sc(e,t,a,r,i)):(e=li(n.type,null,r,t,t.mode,i),e.ref=t.ref,e.return=t,t.child=e)}if(a=e.child,!Ac(e,i)){var o=a.memoizedProps;if(n=n.compare,n=n===null?br:n,n(o,r)&&e.ref===t.ref)return kc(e,t,i)}return t.flags|=1,e=si(a,r),e.ref=t.ref,e.return=t,t.child=e}function sc(e,t,n,r,i){if(e!==null){var a=e.memoizedProps;if(br(a,r)&&e.ref===t.ref)if(rc=!1,t.pendingProps=r=a,Ac(e,i))e.flags&131072&&(rc=!0);else return t.lanes=e.lanes,kc(e,t,i)}return hc(e,t,n,r,i)}function cc(e,t,n,r){var i=r.children,a=e===null?null:e.memoizedState;if(e===null&&t.stateNode===null&&(t.stateNode={_visibility:1,_pendingMarkers:null,_retryCache:null,_transitions:null}),r.mode===`hidden`){if(t.flags&128){if(a=a===null?n:a.baseLanes|n,e!==null){for(r=t.child=e.child,i=0;r!==null;)i=i|r.lanes|r.childLanes,r=r.sibling;r=i&~a}else r=0,t.child=null;return uc(e,t,a,n,r)}if(n&536870912)t.memoizedState={baseLanes:0,cachePool:null},e!==null&&_a(t,a===null?null:a.cachePool),a===null?Qa():Za(t,a),io(t);else return r=t.lanes=536870912,uc(e,t,a===null?n:a.baseLanes|n,n,r)}else a===null?(e!==null&&_a(t,null),Qa(),ao(t)):(_a(t,a.cachePool),Za(t,a),ao(t),t.memoizedState=null);return ic(e,t,i,n),t.child}function lc(e,t){return e!==null&&e.tag===22||t.stateNode!==null||(t.stateNode={_visibility:1,_pendingMarkers:null,_retryCache:null,_transitions:null}),t.sibling}function uc(e,t,n,r,i){var a=ga();return a=a===null?null:{parent:ia._currentValue,pool:a},t.memoizedState={baseLanes:n,cachePool:a},e!==null&&_a(t,null),Qa(),io(t),e!==null&&Yi(e,t,r,!0),t.childLanes=i,null}function dc(e,t){return t=wc({mode:t.mode,children:t.children},e.mode),t.ref=e.ref,e.child=t,t.return=e,t}function fc(e,t,n){return Fa(t,e.child,null,n),e=dc(t,t.pendingProps),e.flags|=2,oo(t),t.memoizedState=null,e}function pc(e,t,n){var r=t.pendingProps,a=(t.flags&128)!=0;if(t.flags&=-129,e===null){if(H){if(r.mode===`hidden`)return e=dc(t,r),t.lanes=536870912,lc(null,e);if(ro(t),(e=ji)?(e=af(e,Ni),e=e!==null&&e.data===`&`?e:null,e!==null&&(t.memoizedState={dehydrated:e,treeContext:Si===null?null:{id:Ci,overflow:wi},retryLane:536870912,hydrationErrors:null},n=fi(e),n.return=t,t.child=n,Ai=t,ji=null)):e=null,e===null)throw Fi(t);return t.lanes=536870912,null}return dc(t,r)}var o=e.memoizedState;if(o!==null){var s=o.dehydrated;if(ro(t),a)if(t.flags&256)t.flags&=-257,t=fc(e,t,n);else if(t.memoizedState!==null)t.child=e.child,t.flags|=128,t=null;else throw Error(i(558));else if(rc||Yi(e,t,n,!1),a=(n&e.childLanes)!==0,rc||a){if(r=Hl,r!==null&&(s=Ze(r,n),s!==0&&s!==o.retryLane))throw o.retryLane=s,ei(e,s),bu(r,e,s),nc;Mu(),t=fc(e,t,n)}else e=o.treeContext,ji=lf(s.nextSibling),Ai=t,H=!0,Mi=null,Ni=!1,e!==null&&ki(t,e),t=dc(t,r),t.flags|=4096;return t}return e=si(e.child,{mode:r.mode,children:r.children}),e.ref=t.ref,t.child=e,e.return=t,e}function mc(e,t){var n=t.ref;if(n===null)e!==null&&e.ref!==null&&(t.flags|=4194816);else{if(typeof n!=`function`&&typeof n!=`object`)throw Error(i(284));(e===null||e.ref!==n)&&(t.flags|=4194816)}}function hc(e,t,n,r,i){return Zi(t),n=So(e,t,n,r,void 0,i),r=Eo(),e!==null&&!rc?(Do(e,t,i),kc(e,t,i)):(H&&r&&Di(t),t.flags|=1,ic(e,t,n,i),t.child)}function gc(e,t,n,r,i,a){return Zi(t),t.updateQueue=null,n=wo(t,r,n,i),Co(e),r=Eo(),e!==null&&!rc?(Do(e,t,a),kc(e,t,a)):(H&&r&&Di(t),t.flags|=1,ic(e,t,n,a),t.child)}function _c(e,t,n,r,i){if(Zi(t),t.stateNode===null){var a=ri,o=n.contextType;typeof o==`object`&&o&&(a=Qi(o)),a=new n(r,a),t.memoizedState=a.state!==null&&a.state!==void 0?a.state:null,a.updater=Us,t.stateNode=a,a._reactInternals=t,a=t.stateNode,a.props=r,a.state=t.memoizedState,a.refs={},Ra(t),o=n.contextType,a.context=typeof o==`object`&&o?Qi(o):ri,a.state=t.memoizedState,o=n.getDerivedStateFromProps,typeof o==`function`&&(Hs(t,n,o,r),a.state=t.memoizedState),typeof n.getDerivedStateFromProps==`function`||typeof a.getSnapshotBeforeUpdate==`function`||typeof a.UNSAFE_componentWillMount!=`function`&&typeof a.componentWillMount!=`function`||(o=a.state,typeof a.componentWillMount==`function`&&a.componentWillMount(),typeof a.UNSAFE_componentWillMount==`function`&&a.UNSAFE_componentWillMount(),o!==a.state&&Us.enqueueReplaceState(a,a.state,null),Ka(t,r,a,i),Ga(),a.state=t.memoizedState),typeof a.componentDidMount==`function`&&(t.flags|=4194308),r=!0}else if(e===null){a=t.stateNode;var s=t.memoizedProps,c=Ks(n,s);a.props=c;var l=a.context,u=n.contextType;o=ri,typeof u==`object`&&u&&(o=Qi(u));var d=n.getDerivedStateFromProps;u=typeof d==`function`||typeof a.getSnapshotBeforeUpdate==`function`,s=t.pendingProps!==s,u||typeof a.UNSAFE_componentWillReceiveProps!=`function`&&typeof a.componentWillReceiveProps!=`function`||(s||l!==o)&&Gs(t,a,r,o),La=!1;var f=t.memoizedState;a.state=f,Ka(t,r,a,i),Ga(),l=t.memoizedState,s||f!==l||La?(typeof d==`function`&&(Hs(t,n,d,r),l=t.memoizedState),(c=La||Ws(t,n,c,r,f,l,o))?(u||typeof a.UNSAFE_componentWillMount!=`function`&&typeof a.componentWillMount!=`function`||(typeof a.componentWillMount==`function`&&a.componentWillMount(),typeof a.UNSAFE_componentWillMount==`function`&&a.UNSAFE_componentWillMount()),typeof a.componentDidMount==`function`&&(t.flags|=4194308)):(typeof a.componentDidMount==`function`&&(t.flags|=4194308),t.memoizedProps=r,t.memoizedState=l),a.props=r,a.state=l,a.context=o,r=c):(typeof a.componentDidMount==`function`&&(t.flags|=4194308),r=!1)}else{a=t.stateNode,za(e,t),o=t.memoizedProps,u=Ks(n,o),a.props=u,d=t.pendingProps,f=a.context,l=n.contextType,c=ri,typeof l==`object`&&l&&(c=Qi(l)),s=n.getDerivedStateFromProps,(l=typeof s==`function`||typeof a.getSnapshotBeforeUpdate==`function`)||typeof a.UNSAFE_componentWillReceiveProps!=`function`&&typeof a.componentWillReceiveProps!=`function`||(o!==d||f!==c)&&Gs(t,a,r,c),La=!1,f=t.memoizedState,a.state=f,Ka(t,r,a,i),Ga();var p=t.memoizedState;o!==d||f!==p||La||e!==null&&e.dependencies!==null&&Xi(e.dependencies)?(typeof s==`function`&&(Hs(t,n,s,r),p=t.memoizedState),(u=La||Ws(t,n,u,r,f,p,c)||e!==null&&e.dependencies!==null&&Xi(e.dependencies))?(l||typeof a.UNSAFE_componentWillUpdate!=`function`&&typeof a.componentWillUpdate!=`function`||(typeof a.componentWillUpdate==`function`&&a.componentWillUpdate(r,p,c),typeof a.UNSAFE_componentWillUpdate==`function`&&a.UNSAFE_componentWillUpdate(r,p,c)),typeof a.componentDidUpdate==`function`&&(t.flags|=4),typeof a.getSnapshotBeforeUpdate==`function`&&(t.flags|=1024)):(typeof a.componentDidUpdate!=`function`||o===e.memoizedProps&&f===e.memoizedState||(t.flags|=4),typeof a.getSnapshotBeforeUpdate!=`function`||o===e.memoizedProps&&f===e.memoizedState||(t.flags|=1024),t.memoizedProps=r,t.memoizedState=p),a.props=r,a.state=p,a.context=c,r=u):(typeof a.componentDidUpdate!=`function`||o===e.memoizedProps&&f===e.memoizedState||(t.flags|=4),typeof a.getSnapshotBeforeUpdate!=`function`||o===e.memoizedProps&&f===e.memoizedState||(t.flags|=1024),r=!1)}return a=r,mc(e,t),r=(t.flags&128)!=0,a||r?(a=t.stateNode,n=r&&typeof n.getDerivedStateFromError!=`function`?null:a.render(),t.flags|=1,e!==null&&r?(t.child=Fa(t,e.child,null,i),t.child=Fa(t,null,n,i)):ic(e,t,n,i),t.memoizedState=a.state,e=t.child):e=kc(e,t,i),e}function vc(e,t,n,r){return zi(),t.flags|=256,ic(e,t,n,r),t.child}var yc={dehydrated:null,treeContext:null,retryLane:0,hydrationErrors:null};function bc(e){return{baseLanes:e,cachePool:va()}}function xc(e,t,n){return e=e===null?0:e.childLanes&~n,t&&(e|=$l),e}function Sc(e,t,n){var r=t.pendingProps,a=!1,o=(t.flags&128)!=0,s;if((s=o)||(s=e!==null&&e.memoizedState===null?!1:(so.current&2)!=0),s&&(a=!0,t.flags&=-129),s=(t.flags&32)!=0,t.flags&=-33,e===null){if(H){if(a?no(t):ao(t),(e=ji)?(e=af(e,Ni),e=e!==null&&e.data!==`&`?e:null,e!==null&&(t.memoizedState={dehydrated:e,treeContext:Si===null?null:{id:Ci,overflow:wi},retryLane:536870912,hydrationErrors:null},n=fi(e),n.return=t,t.child=n,Ai=t,ji=null)):e=null,e===null)throw Fi(t);return sf(e)?t.lanes=32:t.lanes=536870912,null}var c=r.children;return r=r.fallback,a?(ao(t),a=t.mode,c=wc({mode:`hidden`,children:c},a),r=ui(r,a,n,null),c.return=t,r.return=t,c.sibling=r,t.child=c,r=t.child,r.memoizedState=bc(n),r.childLanes=xc(e,s,n),t.memoizedState=yc,lc(null,r)):(no(t),Cc(t,c))}var l=e.memoizedState;if(l!==null&&(c=l.dehydrated,c!==null)){if(o)t.flags&256?(no(t),t.flags&=-257,t=Tc(e,t,n)):t.memoizedState===null?(ao(t),c=r.fallback,a=t.mode,r=wc({mode:`visible`,children:r.children},a),c=ui(c,a,n,null),c.flags|=2,r.return=t,c.return=t,r.sibling=c,t.child=r,Fa(t,e.child,null,n),r=t.child,r.memoizedState=bc(n),r.childLanes=xc(e,s,n),t.memoizedState=yc,t=lc(null,r)):(ao(t),t.child=e.child,t.flags|=128,t=null);else if(no(t),sf(c)){if(s=c.nextSibling&&c.nextSibling.dataset,s)var u=s.dgst;s=u,r=Error(i(419)),r.stack=``,r.digest=s,Vi({value:r,source:null,stack:null}),t=Tc(e,t,n)}else if(rc||Yi(e,t,n,!1),s=(n&e.childLanes)!==0,rc||s){if(s=Hl,s!==null&&(r=Ze(s,n),r!==0&&r!==l.retryLane))throw l.retryLane=r,ei(e,r),bu(s,e,r),nc;of(c)||Mu(),t=Tc(e,t,n)}else of(c)?(t.flags|=192,t.child=e.child,t=null):(e=l.treeContext,ji=lf(c.nextSibling),Ai=t,H=!0,Mi=null,Ni=!1,e!==null&&ki(t,e),t=Cc(t,r.children),t.flags|=4096);return t}return a?(ao(t),c=r.fallback,a=t.mode,l=e.child,u=l.sibling,r=si(l,{mode:`hidden`,children:r.children}),r.subtreeFlags=l.subtreeFlags&65011712,u===null?(c=ui(c,a,n,null),c.flags|=2):c=si(u,c),c.return=t,r.return=t,r.sibling=c,t.child=r,lc(null,r),r=t.child,c=e.child.memoizedState,c===null?c=bc(n):(a=c.cachePool,a===null?a=va():(l=ia._currentValue,a=a.parent===l?a:{parent:l,pool:l}),c={baseLanes:c.baseLanes|n,cachePool:a}),r.memoizedState=c,r.childLanes=xc(e,s,n),t.memoizedState=yc,lc(e.child,r)):(no(t),n=e.child,e=n.sibling,n=si(n,{mode:`visible`,children:r.children}),n.return=t,n.sibling=null,e!==null&&(s=t.deletions,s===null?(t.deletions=[e],t.flags|=16):s.push(e)),t.child=n,t.memoizedState=null,n)}function Cc(e,t){return t=wc({mode:`visible`,children:t},e.mode),t.return=e,e.child=t}function wc(e,t){return e=ai(22,e,null,t),e.lanes=0,e}function Tc(e,t,n){return Fa(t,e.child,null,n),e=Cc(t,t.pendingProps.children),e.flags|=2,t.memoizedState=null,e}function Ec(e,t,n){e.lanes|=t;var r=e.alternate;r!==null&&(r.lanes|=t),qi(e.return,t,n)}function Dc(e,t,n,r,i,a){var o=e.memoizedState;o===null?e.memoizedState={isBackwards:t,rendering:null,renderingStartTime:0,last:r,tail:n,tailMode:i,treeForkCount:a}:(o.isBackwards=t,o.rendering=null,o.renderingStartTime=0,o.last=r,o.tail=n,o.tailMode=i,o.treeForkCount=a)}function Oc(e,t,n){var r=t.pendingProps,i=r.revealOrder,a=r.tail;r=r.children;var o=so.current,s=(o&2)!=0;if(s?(o=o&1|2,t.flags|=128):o&=1,I(so,o),ic(e,t,r,n),r=H?yi:0,!s&&e!==null&&e.flags&128)a:for(e=t.child;e!==null;){if(e.tag===13)e.memoizedState!==null&&Ec(e,n,t);else if(e.tag===19)Ec(e,n,t);else if(e.child!==null){e.child.return=e,e=e.child;continue}if(e===t)break a;for(;e.sibling===null;){if(e.return===null||e.return===t)break a;e=e.return}e.sibling.return=e.return,e=e.sibling}switch(i){case`forwards`:for(n=t.child,i=null;n!==null;)e=n.alternate,e!==null&&co(e)===null&&(i=n),n=n.sibling;n=i,n===null?(i=t.child,t.child=null):(i=n.sibling,n.sibling=null),Dc(t,!1,i,n,a,r);break;case`backwards`:case`unstable_legacy-backwards`:for(n=null,i=t.child,t.child=null;i!==null;){if(e=i.alternate,e!==null&&co(e)===null){t.child=i;break}e=i.sibling,i.sibling=n,n=i,i=e}Dc(t,!0,n,null,a,r);break;case`together`:Dc(t,!1,null,null,void 0,r);break;default:t.memoizedState=null}return t.child}function kc(e,t,n){if(e!==null&&(t.dependencies=e.dependencies),Xl|=t.lanes,(n&t.childLanes)===0)if(e!==null){if(Yi(e,t,n,!1),(n&t.childLanes)===0)return null}else return null;if(e!==null&&t.child!==e.child)throw Error(i(153));if(t.child!==null){for(e=t.child,n=si(e,e.pendingProps),t.child=n,n.return=t;e.sibling!==null;)e=e.sibling,n=n.sibling=si(e,e.pendingProps),n.return=t;n.sibling=null}return t.child}function Ac(e,t){return(e.lanes&t)===0?(e=e.dependencies,!!(e!==null&&Xi(e))):!0}function jc(e,t,n){switch(t.tag){case 3:de(t,t.stateNode.containerInfo),Gi(t,ia,e.memoizedState.cache),zi();break;case 27:case 5:pe(t);break;case 4:de(t,t.stateNode.containerInfo);break;case 10:Gi(t,t.type,t.memoizedProps.value);break;case 31:if(t.memoizedState!==null)return t.flags|=128,ro(t),null;break;case 13:var r=t.memoizedState;if(r!==null)return r.dehydrated===null?(n&t.child.childLanes)===0?(no(t),e=kc(e,t,n),e===null?null:e.sibling):Sc(e,t,n):(no(t),t.flags|=128,null);no(t);break;case 19:var i=(e.flags&128)!=0;if(r=(n&t.childLanes)!==0,r||=(Yi(e,t,n,!1),(n&t.childLanes)!==0),i){if(r)return Oc(e,t,n);t.flags|=128}if(i=t.memoizedState,i!==null&&(i.rendering=null,i.tail=null,i.lastEffect=null),I(so,so.current),r)break;return null;case 22:return t.lanes=0,cc(e,t,n,t.pendingProps);case 24:Gi(t,ia,e.memoizedState.cache)}return kc(e,t,n)}function Mc(e,t,n){if(e!==null)if(e.memoizedProps!==t.pendingProps)rc=!0;else{if(!Ac(e,n)&&!(t.flags&128))return rc=!1,jc(e,t,n);rc=!!(e.flags&131072)}else rc=!1,H&&t.flags&1048576&&Ei(t,yi,t.index);switch(t.lanes=0,t.tag){case 16:a:{var r=t.pendingProps;if(e=Ta(t.elementType),t.type=e,typeof e==`function`)oi(e)?(r=Ks(e,r),t.tag=1,t=_c(null,t,e,r,n)):(t.tag=0,t=hc(null,t,e,r,n));else{if(e!=null){var a=e.$$typeof;if(a===w){t.tag=11,t=ac(null,t,e,r,n);break a}else if(a===D){t.tag=14,t=oc(null,t,e,r,n);break a}}throw t=te(e)||e,Error(i(306,t,``))}}return t;case 0:return hc(e,t,t.type,t.pendingProps,n);case 1:return r=t.type,a=Ks(r,t.pendingProps),_c(e,t,r,a,n);case 3:a:{if(de(t,t.stateNode.containerInfo),e===null)throw Error(i(387));r=t.pendingProps;var o=t.memoizedState;a=o.element,za(e,t),Ka(t,r,null,n);var s=t.memoizedState;if(r=s.cache,Gi(t,ia,r),r!==o.cache&&Ji(t,[ia],n,!0),Ga(),r=s.element,o.isDehydrated)if(o={element:r,isDehydrated:!1,cache:s.cache},t.updateQueue.baseState=o,t.memoizedState=o,t.flags&256){t=vc(e,t,r,n);break a}else if(r!==a){a=hi(Error(i(424)),t),Vi(a),t=vc(e,t,r,n);break a}else{switch(e=t.stateNode.containerInfo,e.nodeType){case 9:e=e.body;break;default:e=e.nodeName===`HTML`?e.ownerDocument.body:e}for(ji=lf(e.firstChild),Ai=t,H=!0,Mi=null,Ni=!0,n=Ia(t,null,r,n),t.child=n;n;)n.flags=n.flags&-3|4096,n=n.sibling}else{if(zi(),r===a){t=kc(e,t,n);break a}ic(e,t,r,n)}t=t.child}return t;case 26:return mc(e,t),e===null?(n=kf(t.type,null,t.pendingProps,null))?t.memoizedState=n:H||(n=t.type,e=t.pendingProps,r=Vd(le.current).createElement(n),r[rt]=t,r[it]=e,Fd(r,n,e),gt(r),t.stateNode=r):t.memoizedState=kf(t.type,e.memoizedProps,t.pendingProps,e.memoizedState),null;case 27:return pe(t),e===null&&H&&(r=t.stateNode=pf(t.type,t.pendingProps,le.current),Ai=t,Ni=!0,a=ji,Qd(t.type)?(uf=a,ji=lf(r.firstChild)):ji=a),ic(e,t,t.pendingProps.children,n),mc(e,t),e===null&&(t.flags|=4194304),t.child;case 5:return e===null&&H&&((a=r=ji)&&(r=nf(r,t.type,t.pendingProps,Ni),r===null?a=!1:(t.stateNode=r,Ai=t,ji=lf(r.firstChild),Ni=!1,a=!0)),a||Fi(t)),pe(t),a=t.type,o=t.pendingProps,s=e===null?null:e.memoizedProps,r=o.children,Wd(a,o)?r=null:s!==null&&Wd(a,s)&&(t.flags|=32),t.memoizedState!==null&&(a=So(e,t,To,null,null,n),Qf._currentValue=a),mc(e,t),ic(e,t,r,n),t.child;case 6:return e===null&&H&&((e=n=ji)&&(n=rf(n,t.pendingProps,Ni),n===null?e=!1:(t.stateNode=n,Ai=t,ji=null,e=!0)),e||Fi(t)),null;case 13:return Sc(e,t,n);case 4:return de(t,t.stateNode.containerInfo),r=t.pendingProps,e===null?t.child=Fa(t,null,r,n):ic(e,t,r,n),t.child;case 11:return ac(e,t,t.type,t.pendingProps,n);case 7:return ic(e,t,t.pendingProps,n),t.child;case 8:return ic(e,t,t.pendingProps.children,n),t.child;case 12:return ic(e,t,t.pendingProps.children,n),t.child;case 10:return r=t.pendingProps,Gi(t,t.type,r.value),ic(e,t,r.children,n),t.child;case 9:return a=t.type._context,r=t.pendingProps.children,Zi(t),a=Qi(a),r=r(a),t.flags|=1,ic(e,t,r,n),t.child;case 14:return oc(e,t,t.type,t.pendingProps,n);case 15:return sc(e,t,t.type,t.pendingProps,n);case 19:return Oc(e,t,n);case 31:return pc(e,t,n);case 22:return cc(e,t,n,t.pendingProps);case 24:return Zi(t),r=Qi(ia),e===null?(a=ga(),a===null&&(a=Hl,o=aa(),a.pooledCache=o,o.refCount++,o!==null&&(a.pooledCacheLanes|=n),a=o),t.memoizedState={parent:r,cache:a},Ra(t),Gi(t,ia,a)):((e.lanes&n)!==0&&(za(e,t),Ka(t,null,null,n),Ga()),a=e.memoizedState,o=t.memoizedState,a.parent===r?(r=o.cache,Gi(t,ia,r),r!==a.cache&&Ji(t,[ia],n,!0)):(a={parent:r,cache:r},t.memoizedState=a,t.lanes===0&&(t.memoizedState=t.updateQueue.baseState=a),Gi(t,ia,r))),ic(e,t,t.pendingProps.children,n),t.child;case 29:throw t.pendingProps}throw Error(i(156,t.tag))}function Nc(e){e.flags|=4}function Pc(e,t,n,r,i){if((t=(e.mode&32)!=0)&&(t=!1),t){if(e.flags|=16777216,(i&335544128)===i)if(e.stateNode.complete)e.flags|=8192;else if(ku())e.flags|=8192;else throw Ea=Sa,ba}else e.flags&=-16777217}function Fc(e,t){if(t.type!==`stylesheet`||t.state.loading&4)e.flags&=-16777217;else if(e.flags|=16777216,!Wf(t))if(ku())e.flags|=8192;else throw Ea=Sa,ba}function Ic(e,t){t!==null&&(e.flags|=4),e.flags&16384&&(t=e.tag===22?536870912:qe(),e.lanes|=t,eu|=t)}function Lc(e,t){if(!H)switch(e.tailMode){case`hidden`:t=e.tail;for(var n=null;t!==null;)t.alternate!==null&&(n=t),t=t.sibling;n===null?e.tail=null:n.sibling=null;break;case`collapsed`:n=e.tail;for(var r=null;n!==null;)n.alternate!==null&&(r=n),n=n.sibling;r===null?t||e.tail===null?e.tail=null:e.tail.sibling=null:r.sibling=null}}function Rc(e){var t=e.alternate!==null&&e.alternate.child===e.child,n=0,r=0;if(t)for(var i=e.child;i!==null;)n|=i.lanes|i.childLanes,r|=i.subtreeFlags&65011712,r|=i.flags&65011712,i.return=e,i=i.sibling;else for(i=e.child;i!==null;)n|=i.lanes|i.childLanes,r|=i.subtreeFlags,r|=i.flags,i.return=e,i=i.sibling;return e.subtreeFlags|=r,e.childLanes=n,t}function zc(e,t,n){var r=t.pendingProps;switch(Oi(t),t.tag){case 16:case 15:case 0:case 11:case 7:case 8:case 12:case 9:case 14:return Rc(t),null;case 1:return Rc(t),null;case 3:return n=t.stateNode,r=null,e!==null&&(r=e.memoizedState.cache),t.memoizedState.cache!==r&&(t.flags|=2048),Ki(ia),fe(),n.pendingContext&&(n.context=n.pendingContext,n.pendingContext=null),(e===null||e.child===null)&&(Ri(t)?Nc(t):e===null||e.memoizedState.isDehydrated&&!(t.flags&256)||(t.flags|=1024,Bi())),Rc(t),null;case 26:var a=t.type,o=t.memoizedState;return e===null?(Nc(t),o===null?(Rc(t),Pc(t,a,null,r,n)):(Rc(t),Fc(t,o))):o?o===e.memoizedState?(Rc(t),t.flags&=-16777217):(Nc(t),Rc(t),Fc(t,o)):(e=e.memoizedProps,e!==r&&Nc(t),Rc(t),Pc(t,a,e,r,n)),null;case 27:if(me(t),n=le.current,a=t.type,e!==null&&t.stateNode!=null)e.memoizedProps!==r&&Nc(t);else{if(!r){if(t.stateNode===null)throw Error(i(166));return Rc(t),null}e=se.current,Ri(t)?Ii(t,e):(e=pf(a,r,n),t.stateNode=e,Nc(t))}return Rc(t),null;case 5:if(me(t),a=t.type,e!==null&&t.stateNode!=null)e.memoizedProps!==r&&Nc(t);else{if(!r){if(t.stateNode===null)throw Error(i(166));return Rc(t),null}if(o=se.current,Ri(t))Ii(t,o);else{var s=Vd(le.current);switch(o){case 1:o=s.createElementNS(`http://www.w3.org/2000/svg`,a);break;case 2:o=s.createElementNS(`http://www.w3.org/1998/Math/MathML`,a);break;default:switch(a){case`svg`:o=s.createElementNS(`http://www.w3.org/2000/svg`,a);break;case`math`:o=s.createElementNS(`http://www.w3.org/1998/Math/MathML`,a);break;case`script`:o=s.createElement(`div`),o.innerHTML=`<script><\/script>`,o=o.removeChild(o.firstChild);break;case`select`:o=typeof r.is==`string`?s.createElement(`select`,{is:r.is}):s.createElement(`select`),r.multiple?o.multiple=!0:r.size&&(o.size=r.size);break;default:o=typeof r.is==`string`?s.createElement(a,{is:r.is}):s.createElement(a)}}o[rt]=t,o[it]=r;a:for(s=t.child;s!==null;){if(s.tag===5||s.tag===6)o.appendChild(s.stateNode);else if(s.tag!==4&&s.tag!==27&&s.child!==null){s.child.return=s,s=s.child;continue}if(s===t)break a;for(;s.sibling===null;){if(s.return===null||s.return===t)break a;s=s.return}s.sibling.return=s.return,s=s.sibling}t.stateNode=o;a:switch(Fd(o,a,r),a){case`button`:case`input`:case`select`:case`textarea`:r=!!r.autoFocus;break a;case`img`:r=!0;break a;default:r=!1}r&&Nc(t)}}return Rc(t),Pc(t,t.type,e===null?null:e.memoizedProps,t.pendingProps,n),null;case 6:if(e&&t.stateNode!=null)e.memoizedProps!==r&&Nc(t);else{if(typeof r!=`string`&&t.stateNode===null)throw Error(i(166));if(e=le.current,Ri(t)){if(e=t.stateNode,n=t.memoizedProps,r=null,a=Ai,a!==null)switch(a.tag){case 27:case 5:r=a.memoizedProps}e[rt]=t,e=!!(e.nodeValue===n||r!==null&&!0===r.suppressHydrationWarning||Md(e.nodeValue,n)),e||Fi(t,!0)}else e=Vd(e).createTextNode(r),e[rt]=t,t.stateNode=e}return Rc(t),null;case 31:if(n=t.memoizedState,e===null||e.memoizedState!==null){if(r=Ri(t),n!==null){if(e===null){if(!r)throw Error(i(318));if(e=t.memoizedState,e=e===null?null:e.dehydrated,!e)throw Error(i(557));e[rt]=t}else zi(),!(t.flags&128)&&(t.memoizedState=null),t.flags|=4;Rc(t),e=!1}else n=Bi(),e!==null&&e.memoizedState!==null&&(e.memoizedState.hydrationErrors=n),e=!0;if(!e)return t.flags&256?(oo(t),t):(oo(t),null);if(t.flags&128)throw Error(i(558))}return Rc(t),null;case 13:if(r=t.memoizedState,e===null||e.memoizedState!==null&&e.memoizedState.dehydrated!==null){if(a=Ri(t),r!==null&&r.dehydrated!==null){if(e===null){if(!a)throw Error(i(318));if(a=t.memoizedState,a=a===null?null:a.dehydrated,!a)throw Error(i(317));a[rt]=t}else zi(),!(t.flags&128)&&(t.memoizedState=null),t.flags|=4;Rc(t),a=!1}else a=Bi(),e!==null&&e.memoizedState!==null&&(e.memoizedState.hydrationErrors=a),a=!0;if(!a)return t.flags&256?(oo(t),t):(oo(t),null)}return oo(t),t.flags&128?(t.lanes=n,t):(n=r!==null,e=e!==null&&e.memoizedState!==null,n&&(r=t.child,a=null,r.alternate!==null&&r.alternate.memoizedState!==null&&r.alternate.memoizedState.cachePool!==null&&(a=r.alternate.memoizedState.cachePool.pool),o=null,r.memoizedState!==null&&r.memoizedState.cachePool!==null&&(o=r.memoizedState.cachePool.pool),o!==a&&(r.flags|=2048)),n!==e&&n&&(t.child.flags|=8192),Ic(t,t.updateQueue),Rc(t),null);case 4:return fe(),e===null&&wd(t.stateNode.containerInfo),Rc(t),null;case 10:return Ki(t.type),Rc(t),null;case 19:if(F(so),r=t.memoizedState,r===null)return Rc(t),null;if(a=(t.flags&128)!=0,o=r.rendering,o===null)if(a)Lc(r,!1);else{if(Yl!==0||e!==null&&e.flags&128)for(e=t.child;e!==null;){if(o=co(e),o!==null){for(t.flags|=128,Lc(r,!1),e=o.updateQueue,t.updateQueue=e,Ic(t,e),t.subtreeFlags=0,e=n,n=t.child;n!==null;)ci(n,e),n=n.sibling;return I(so,so.current&1|2),H&&Ti(t,r.treeForkCount),t.child}e=e.sibling}r.tail!==null&&Ee()>ou&&(t.flags|=128,a=!0,Lc(r,!1),t.lanes=4194304)}else{if(!a)if(e=co(o),e!==null){if(t.flags|=128,a=!0,e=e.updateQueue,t.updateQueue=e,Ic(t,e),Lc(r,!0),r.tail===null&&r.tailMode===`hidden`&&!o.alternate&&!H)return Rc(t),null}else 2*Ee()-r.renderingStartTime>ou&&n!==536870912&&(t.flags|=128,a=!0,Lc(r,!1),t.lanes=4194304);r.isBackwards?(o.sibling=t.child,t.child=o):(e=r.last,e===null?t.child=o:e.sibling=o,r.last=o)}return r.tail===null?(Rc(t),null):(e=r.tail,r.rendering=e,r.tail=e.sibling,r.renderingStartTime=Ee(),e.sibling=null,n=so.current,I(so,a?n&1|2:n&1),H&&Ti(t,r.treeForkCount),e);case 22:case 23:return oo(t),$a(),r=t.memoizedState!==null,e===null?r&&(t.flags|=8192):e.memoizedState!==null!==r&&(t.flags|=8192),r?n&536870912&&!(t.flags&128)&&(Rc(t),t.subtreeFlags&6&&(t.flags|=8192)):Rc(t),n=t.updateQueue,n!==null&&Ic(t,n.retryQueue),n=null,e!==null&&e.memoizedState!==null&&e.memoizedState.cachePool!==null&&(n=e.memoizedState.cachePool.pool),r=null,t.memoizedState!==null&&t.memoizedState.cachePool!==null&&(r=t.memoizedState.cachePool.pool),r!==n&&(t.flags|=2048),e!==null&&F(ha),null;case 24:return n=null,e!==null&&(n=e.memoizedState.cache),t.memoizedState.cache!==n&&(t.flags|=2048),Ki(ia),Rc(t),null;case 25:return null;case 30:return null}throw Error(i(156,t.tag))}function Bc(e,t){switch(Oi(t),t.tag){case 1:return e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 3:return Ki(ia),fe(),e=t.flags,e&65536&&!(e&128)?(t.flags=e&-65537|128,t):null;case 26:case 27:case 5:return me(t),null;case 31:if(t.memoizedState!==null){if(oo(t),t.alternate===null)throw Error(i(340));zi()}return e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 13:if(oo(t),e=t.memoizedState,e!==null&&e.dehydrated!==null){if(t.alternate===null)throw Error(i(340));zi()}return e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 19:return F(so),null;case 4:return fe(),null;case 10:return Ki(t.type),null;case 22:case 23:return oo(t),$a(),e!==null&&F(ha),e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 24:return Ki(ia),null;case 25:return null;default:return null}}function Vc(e,t){switch(Oi(t),t.tag){case 3:Ki(ia),fe();break;case 26:case 27:case 5:me(t);break;case 4:fe();break;case 31:t.memoizedState!==null&&oo(t);break;case 13:oo(t);break;case 19:F(so);break;case 10:Ki(t.type);break;case 22:case 23:oo(t),$a(),e!==null&&F(ha);break;case 24:Ki(ia)}}function Hc(e,t){try{var n=t.updateQueue,r=n===null?null:n.lastEffect;if(r!==null){var i=r.next;n=i;do{if((n.tag&e)===e){r=void 0;var a=n.create,o=n.inst;r=a(),o.destroy=r}n=n.next}while(n!==i)}}catch(e){q(t,t.return,e)}}function Uc(e,t,n){try{var r=t.updateQueue,i=r===null?null:r.lastEffect;if(i!==null){var a=i.next;r=a;do{if((r.tag&e)===e){var o=r.inst,s=o.destroy;if(s!==void 0){o.destroy=void 0,i=t;var c=n,l=s;try{l()}catch(e){q(i,c,e)}}}r=r.next}while(r!==a)}}catch(e){q(t,t.return,e)}}function Wc(e){var t=e.updateQueue;if(t!==null){var n=e.stateNode;try{Ja(t,n)}catch(t){q(e,e.return,t)}}}function Gc(e,t,n){n.props=Ks(e.type,e.memoizedProps),n.state=e.memoizedState;try{n.componentWillUnmount()}catch(n){q(e,t,n)}}function Kc(e,t){try{var n=e.ref;if(n!==null){switch(e.tag){case 26:case 27:case 5:var r=e.stateNode;break;case 30:r=e.stateNode;break;default:r=e.stateNode}typeof n==`function`?e.refCleanup=n(r):n.current=r}}catch(n){q(e,t,n)}}function qc(e,t){var n=e.ref,r=e.refCleanup;if(n!==null)if(typeof r==`function`)try{r()}catch(n){q(e,t,n)}finally{e.refCleanup=null,e=e.alternate,e!=null&&(e.refCleanup=null)}else if(typeof n==`function`)try{n(null)}catch(n){q(e,t,n)}else n.current=null}function Jc(e){var t=e.type,n=e.memoizedProps,r=e.stateNode;try{a:switch(t){case`button`:case`input`:case`select`:case`textarea`:n.autoFocus&&r.focus();break a;case`img`:n.src?r.src=n.src:n.srcSet&&(r.srcset=n.srcSet)}}catch(t){q(e,e.return,t)}}function Yc(e,t,n){try{var r=e.stateNode;Id(r,e.type,n,t),r[it]=t}catch(t){q(e,e.return,t)}}function Xc(e){return e.tag===5||e.tag===3||e.tag===26||e.tag===27&&Qd(e.type)||e.tag===4}function Zc(e){a:for(;;){for(;e.sibling===null;){if(e.return===null||Xc(e.return))return null;e=e.return}for(e.sibling.return=e.return,e=e.sibling;e.tag!==5&&e.tag!==6&&e.tag!==18;){if(e.tag===27&&Qd(e.type)||e.flags&2||e.child===null||e.tag===4)continue a;e.child.return=e,e=e.child}if(!(e.flags&2))return e.stateNode}}function Qc(e,t,n){var r=e.tag;if(r===5||r===6)e=e.stateNode,t?(n.nodeType===9?n.body:n.nodeName===`HTML`?n.ownerDocument.body:n).insertBefore(e,t):(t=n.nodeType===9?n.body:n.nodeName===`HTML`?n.ownerDocument.body:n,t.appendChild(e),n=n._reactRootContainer,n!=null||t.onclick!==null||(t.onclick=Xt));else if(r!==4&&(r===27&&Qd(e.type)&&(n=e.stateNode,t=null),e=e.child,e!==null))for(Qc(e,t,n),e=e.sibling;e!==null;)Qc(e,t,n),e=e.sibling}function $c(e,t,n){var r=e.tag;if(r===5||r===6)e=e.stateNode,t?n.insertBefore(e,t):n.appendChild(e);else if(r!==4&&(r===27&&Qd(e.type)&&(n=e.stateNode),e=e.child,e!==null))for($c(e,t,n),e=e.sibling;e!==null;)$c(e,t,n),e=e.sibling}function el(e){var t=e.stateNode,n=e.memoizedProps;try{for(var r=e.type,i=t.attributes;i.length;)t.removeAttributeNode(i[0]);Fd(t,r,n),t[rt]=e,t[it]=n}catch(t){q(e,e.return,t)}}var tl=!1,nl=!1,rl=!1,il=typeof WeakSet==`function`?WeakSet:Set,al=null;function ol(e,t){if(e=e.containerInfo,zd=sp,e=wr(e),Tr(e)){if(`selectionStart`in e)var n={start:e.selectionStart,end:e.selectionEnd};else a:{n=(n=e.ownerDocument)&&n.defaultView||window;var r=n.getSelection&&n.getSelection();if(r&&r.rangeCount!==0){n=r.anchorNode;var a=r.anchorOffset,o=r.focusNode;r=r.focusOffset;try{n.nodeType,o.nodeType}catch{n=null;break a}var s=0,c=-1,l=-1,u=0,d=0,f=e,p=null;b:for(;;){for(var m;f!==n||a!==0&&f.nodeType!==3||(c=s+a),f!==o||r!==0&&f.nodeType!==3||(l=s+r),f.nodeType===3&&(s+=f.nodeValue.length),(m=f.firstChild)!==null;)p=f,f=m;for(;;){if(f===e)break b;if(p===n&&++u===a&&(c=s),p===o&&++d===r&&(l=s),(m=f.nextSibling)!==null)break;f=p,p=f.parentNode}f=m}n=c===-1||l===-1?null:{start:c,end:l}}else n=null}n||={start:0,end:0}}else n=null;for(Bd={focusedElem:e,selectionRange:n},sp=!1,al=t;al!==null;)if(t=al,e=t.child,t.subtreeFlags&1028&&e!==null)e.return=t,al=e;else for(;al!==null;){switch(t=al,o=t.alternate,e=t.flags,t.tag){case 0:if(e&4&&(e=t.updateQueue,e=e===null?null:e.events,e!==null))for(n=0;n<e.length;n++)a=e[n],a.ref.impl=a.nextImpl;break;case 11:case 15:break;case 1:if(e&1024&&o!==null){e=void 0,n=t,a=o.memoizedProps,o=o.memoizedState,r=n.stateNode;try{var h=Ks(n.type,a);e=r.getSnapshotBeforeUpdate(h,o),r.__reactInternalSnapshotBeforeUpdate=e}catch(e){q(n,n.return,e)}}break;case 3:if(e&1024){if(e=t.stateNode.containerInfo,n=e.nodeType,n===9)tf(e);else if(n===1)switch(e.nodeName){case`HEAD`:case`HTML`:case`BODY`:tf(e);break;default:e.textContent=``}}break;case 5:case 26:case 27:case 6:case 4:case 17:break;default:if(e&1024)throw Error(i(163))}if(e=t.sibling,e!==null){e.return=t.return,al=e;break}al=t.return}}function sl(e,t,n){var r=n.flags;switch(n.tag){case 0:case 11:case 15:Sl(e,n),r&4&&Hc(5,n);break;case 1:if(Sl(e,n),r&4)if(e=n.stateNode,t===null)try{e.componentDidMount()}catch(e){q(n,n.return,e)}else{var i=Ks(n.type,t.memoizedProps);t=t.memoizedState;try{e.componentDidUpdate(i,t,e.__reactInternalSnapshotBeforeUpdate)}catch(e){q(n,n.return,e)}}r&64&&Wc(n),r&512&&Kc(n,n.return);break;case 3:if(Sl(e,n),r&64&&(e=n.updateQueue,e!==null)){if(t=null,n.child!==null)switch(n.child.tag){case 27:case 5:t=n.child.stateNode;break;case 1:t=n.child.stateNode}try{Ja(e,t)}catch(e){q(n,n.return,e)}}break;case 27:t===null&&r&4&&el(n);case 26:case 5:Sl(e,n),t===null&&r&4&&Jc(n),r&512&&Kc(n,n.return);break;case 12:Sl(e,n);break;case 31:Sl(e,n),r&4&&pl(e,n);break;case 13:Sl(e,n),r&4&&ml(e,n),r&64&&(e=n.memoizedState,e!==null&&(e=e.dehydrated,e!==null&&(n=Qu.bind(null,n),cf(e,n))));break;case 22:if(r=n.memoizedState!==null||tl,!r){t=t!==null&&t.memoizedState!==null||nl,i=tl;var a=nl;tl=r,(nl=t)&&!a?wl(e,n,(n.subtreeFlags&8772)!=0):Sl(e,n),tl=i,nl=a}break;case 30:break;default:Sl(e,n)}}function cl(e){var t=e.alternate;t!==null&&(e.alternate=null,cl(t)),e.child=null,e.deletions=null,e.sibling=null,e.tag===5&&(t=e.stateNode,t!==null&&dt(t)),e.stateNode=null,e.return=null,e.dependencies=null,e.memoizedProps=null,e.memoizedState=null,e.pendingProps=null,e.stateNode=null,e.updateQueue=null}var ll=null,ul=!1;function dl(e,t,n){for(n=n.child;n!==null;)fl(e,t,n),n=n.sibling}function fl(e,t,n){if(Fe&&typeof Fe.onCommitFiberUnmount==`function`)try{Fe.onCommitFiberUnmount(Pe,n)}catch{}switch(n.tag){case 26:nl||qc(n,t),dl(e,t,n),n.memoizedState?n.memoizedState.count--:n.stateNode&&(n=n.stateNode,n.parentNode.removeChild(n));break;case 27:nl||qc(n,t);var r=ll,i=ul;Qd(n.type)&&(ll=n.stateNode,ul=!1),dl(e,t,n),mf(n.stateNode),ll=r,ul=i;break;case 5:nl||qc(n,t);case 6:if(r=ll,i=ul,ll=null,dl(e,t,n),ll=r,ul=i,ll!==null)if(ul)try{(ll.nodeType===9?ll.body:ll.nodeName===`HTML`?ll.ownerDocument.body:ll).removeChild(n.stateNode)}catch(e){q(n,t,e)}else try{ll.removeChild(n.stateNode)}catch(e){q(n,t,e)}break;case 18:ll!==null&&(ul?(e=ll,$d(e.nodeType===9?e.body:e.nodeName===`HTML`?e.ownerDocument.body:e,n.stateNode),Np(e)):$d(ll,n.stateNode));break;case 4:r=ll,i=ul,ll=n.stateNode.containerInfo,ul=!0,dl(e,t,n),ll=r,ul=i;break;case 0:case 11:case 14:case 15:Uc(2,n,t),nl||Uc(4,n,t),dl(e,t,n);break;case 1:nl||(qc(n,t),r=n.stateNode,typeof r.componentWillUnmount==`function`&&Gc(n,t,r)),dl(e,t,n);break;case 21:dl(e,t,n);break;case 22:nl=(r=nl)||n.memoizedState!==null,dl(e,t,n),nl=r;break;default:dl(e,t,n)}}function pl(e,t){if(t.memoizedState===null&&(e=t.alternate,e!==null&&(e=e.memoizedState,e!==null))){e=e.dehydrated;try{Np(e)}catch(e){q(t,t.return,e)}}}function ml(e,t){if(t.memoizedState===null&&(e=t.alternate,e!==null&&(e=e.memoizedState,e!==null&&(e=e.dehydrated,e!==null))))try{Np(e)}catch(e){q(t,t.return,e)}}function hl(e){switch(e.tag){case 31:case 13:case 19:var t=e.stateNode;return t===null&&(t=e.stateNode=new il),t;case 22:return e=e.stateNode,t=e._retryCache,t===null&&(t=e._retryCache=new il),t;default:throw Error(i(435,e.tag))}}function gl(e,t){var n=hl(e);t.forEach(function(t){if(!n.has(t)){n.add(t);var r=$u.bind(null,e,t);t.then(r,r)}})}function _l(e,t){var n=t.deletions;if(n!==null)for(var r=0;r<n.length;r++){var a=n[r],o=e,s=t,c=s;a:for(;c!==null;){switch(c.tag){case 27:if(Qd(c.type)){ll=c.stateNode,ul=!1;break a}break;case 5:ll=c.stateNode,ul=!1;break a;case 3:case 4:ll=c.stateNode.containerInfo,ul=!0;break a}c=c.return}if(ll===null)throw Error(i(160));fl(o,s,a),ll=null,ul=!1,o=a.alternate,o!==null&&(o.return=null),a.return=null}if(t.subtreeFlags&13886)for(t=t.child;t!==null;)yl(t,e),t=t.sibling}var vl=null;function yl(e,t){var n=e.alternate,r=e.flags;switch(e.tag){case 0:case 11:case 14:case 15:_l(t,e),bl(e),r&4&&(Uc(3,e,e.return),Hc(3,e),Uc(5,e,e.return));break;case 1:_l(t,e),bl(e),r&512&&(nl||n===null||qc(n,n.return)),r&64&&tl&&(e=e.updateQueue,e!==null&&(r=e.callbacks,r!==null&&(n=e.shared.hiddenCallbacks,e.shared.hiddenCallbacks=n===null?r:n.concat(r))));break;case 26:var a=vl;if(_l(t,e),bl(e),r&512&&(nl||n===null||qc(n,n.return)),r&4){var o=n===null?null:n.memoizedState;if(r=e.memoizedState,n===null)if(r===null)if(e.stateNode===null){a:{r=e.type,n=e.memoizedProps,a=a.ownerDocument||a;b:switch(r){case`title`:o=a.getElementsByTagName(`title`)[0],(!o||o[ut]||o[rt]||o.namespaceURI===`http://www.w3.org/2000/svg`||o.hasAttribute(`itemprop`))&&(o=a.createElement(r),a.head.insertBefore(o,a.querySelector(`head > title`))),Fd(o,r,n),o[rt]=e,gt(o),r=o;break a;case`link`:var s=Vf(`link`,`href`,a).get(r+(n.href||``));if(s){for(var c=0;c<s.length;c++)if(o=s[c],o.getAttribute(`href`)===(n.href==null||n.href===``?null:n.href)&&o.getAttribute(`rel`)===(n.rel==null?null:n.rel)&&o.getAttribute(`title`)===(n.title==null?null:n.title)&&o.getAttribute(`crossorigin`)===(n.crossOrigin==null?null:n.crossOrigin)){s.splice(c,1);break b}}o=a.createElement(r),Fd(o,r,n),a.head.appendChild(o);break;case`meta`:if(s=Vf(`meta`,`content`,a).get(r+(n.content||``))){for(c=0;c<s.length;c++)if(o=s[c],o.getAttribute(`content`)===(n.content==null?null:``+n.content)&&o.getAttribute(`name`)===(n.name==null?null:n.name)&&o.getAttribute(`property`)===(n.property==null?null:n.property)&&o.getAttribute(`http-equiv`)===(n.httpEquiv==null?null:n.httpEquiv)&&o.getAttribute(`charset`)===(n.charSet==null?null:n.charSet)){s.splice(c,1);break b}}o=a.createElement(r),Fd(o,r,n),a.head.appendChild(o);break;default:throw Error(i(468,r))}o[rt]=e,gt(o),r=o}e.stateNode=r}else Hf(a,e.type,e.stateNode);else e.stateNode=If(a,r,e.memoizedProps);else o===r?r===null&&e.stateNode!==null&&Yc(e,e.memoizedProps,n.memoizedProps):(o===null?n.stateNode!==null&&(n=n.stateNode,n.parentNode.removeChild(n)):o.count--,r===null?Hf(a,e.type,e.stateNode):If(a,r,e.memoizedProps))}break;case 27:_l(t,e),bl(e),r&512&&(nl||n===null||qc(n,n.return)),n!==null&&r&4&&Yc(e,e.memoizedProps,n.memoizedProps);break;case 5:if(_l(t,e),bl(e),r&512&&(nl||n===null||qc(n,n.return)),e.flags&32){a=e.stateNode;try{Ht(a,``)}catch(t){q(e,e.return,t)}}r&4&&e.stateNode!=null&&(a=e.memoizedProps,Yc(e,a,n===null?a:n.memoizedProps)),r&1024&&(rl=!0);break;case 6:if(_l(t,e),bl(e),r&4){if(e.stateNode===null)throw Error(i(162));r=e.memoizedProps,n=e.stateNode;try{n.nodeValue=r}catch(t){q(e,e.return,t)}}break;case 3:if(Bf=null,a=vl,vl=_f(t.containerInfo),_l(t,e),vl=a,bl(e),r&4&&n!==null&&n.memoizedState.isDehydrated)try{Np(t.containerInfo)}catch(t){q(e,e.return,t)}rl&&(rl=!1,xl(e));break;case 4:r=vl,vl=_f(e.stateNode.containerInfo),_l(t,e),bl(e),vl=r;break;case 12:_l(t,e),bl(e);break;case 31:_l(t,e),bl(e),r&4&&(r=e.updateQueue,r!==null&&(e.updateQueue=null,gl(e,r)));break;case 13:_l(t,e),bl(e),e.child.flags&8192&&e.memoizedState!==null!=(n!==null&&n.memoizedState!==null)&&(iu=Ee()),r&4&&(r=e.updateQueue,r!==null&&(e.updateQueue=null,gl(e,r)));break;case 22:a=e.memoizedState!==null;var l=n!==null&&n.memoizedState!==null,u=tl,d=nl;if(tl=u||a,nl=d||l,_l(t,e),nl=d,tl=u,bl(e),r&8192)a:for(t=e.stateNode,t._visibility=a?t._visibility&-2:t._visibility|1,a&&(n===null||l||tl||nl||Cl(e)),n=null,t=e;;){if(t.tag===5||t.tag===26){if(n===null){l=n=t;try{if(o=l.stateNode,a)s=o.style,typeof s.setProperty==`function`?s.setProperty(`display`,`none`,`important`):s.display=`none`;else{c=l.stateNode;var f=l.memoizedProps.style,p=f!=null&&f.hasOwnProperty(`display`)?f.display:null;c.style.display=p==null||typeof p==`boolean`?``:(``+p).trim()}}catch(e){q(l,l.return,e)}}}else if(t.tag===6){if(n===null){l=t;try{l.stateNode.nodeValue=a?``:l.memoizedProps}catch(e){q(l,l.return,e)}}}else if(t.tag===18){if(n===null){l=t;try{var m=l.stateNode;a?ef(m,!0):ef(l.stateNode,!1)}catch(e){q(l,l.return,e)}}}else if((t.tag!==22&&t.tag!==23||t.memoizedState===null||t===e)&&t.child!==null){t.child.return=t,t=t.child;continue}if(t===e)break a;for(;t.sibling===null;){if(t.return===null||t.return===e)break a;n===t&&(n=null),t=t.return}n===t&&(n=null),t.sibling.return=t.return,t=t.sibling}r&4&&(r=e.updateQueue,r!==null&&(n=r.retryQueue,n!==null&&(r.retryQueue=null,gl(e,n))));break;case 19:_l(t,e),bl(e),r&4&&(r=e.updateQueue,r!==null&&(e.updateQueue=null,gl(e,r)));break;case 30:break;case 21:break;default:_l(t,e),bl(e)}}function bl(e){var t=e.flags;if(t&2){try{for(var n,r=e.return;r!==null;){if(Xc(r)){n=r;break}r=r.return}if(n==null)throw Error(i(160));switch(n.tag){case 27:var a=n.stateNode;$c(e,Zc(e),a);break;case 5:var o=n.stateNode;n.flags&32&&(Ht(o,``),n.flags&=-33),$c(e,Zc(e),o);break;case 3:case 4:var s=n.stateNode.containerInfo;Qc(e,Zc(e),s);break;default:throw Error(i(161))}}catch(t){q(e,e.return,t)}e.flags&=-3}t&4096&&(e.flags&=-4097)}function xl(e){if(e.subtreeFlags&1024)for(e=e.child;e!==null;){var t=e;xl(t),t.tag===5&&t.flags&1024&&t.stateNode.reset(),e=e.sibling}}function Sl(e,t){if(t.subtreeFlags&8772)for(t=t.child;t!==null;)sl(e,t.alternate,t),t=t.sibling}function Cl(e){for(e=e.child;e!==null;){var t=e;switch(t.tag){case 0:case 11:case 14:case 15:Uc(4,t,t.return),Cl(t);break;case 1:qc(t,t.return);var n=t.stateNode;typeof n.componentWillUnmount==`function`&&Gc(t,t.return,n),Cl(t);break;case 27:mf(t.stateNode);case 26:case 5:qc(t,t.return),Cl(t);break;case 22:t.memoizedState===null&&Cl(t);break;case 30:Cl(t);break;default:Cl(t)}e=e.sibling}}function wl(e,t,n){for(n&&=(t.subtreeFlags&8772)!=0,t=t.child;t!==null;){var r=t.alternate,i=e,a=t,o=a.flags;switch(a.tag){case 0:case 11:case 15:wl(i,a,n),Hc(4,a);break;case 1:if(wl(i,a,n),r=a,i=r.stateNode,typeof i.componentDidMount==`function`)try{i.componentDidMount()}catch(e){q(r,r.return,e)}if(r=a,i=r.updateQueue,i!==null){var s=r.stateNode;try{var c=i.shared.hiddenCallbacks;if(c!==null)for(i.shared.hiddenCallbacks=null,i=0;i<c.length;i++)qa(c[i],s)}catch(e){q(r,r.return,e)}}n&&o&64&&Wc(a),Kc(a,a.return);break;case 27:el(a);case 26:case 5:wl(i,a,n),n&&r===null&&o&4&&Jc(a),Kc(a,a.return);break;case 12:wl(i,a,n);break;case 31:wl(i,a,n),n&&o&4&&pl(i,a);break;case 13:wl(i,a,n),n&&o&4&&ml(i,a);break;case 22:a.memoizedState===null&&wl(i,a,n),Kc(a,a.return);break;case 30:break;default:wl(i,a,n)}t=t.sibling}}function Tl(e,t){var n=null;e!==null&&e.memoizedState!==null&&e.memoizedState.cachePool!==null&&(n=e.memoizedState.cachePool.pool),e=null,t.memoizedState!==null&&t.memoizedState.cachePool!==null&&(e=t.memoizedState.cachePool.pool),e!==n&&(e!=null&&e.refCount++,n!=null&&oa(n))}function El(e,t){e=null,t.alternate!==null&&(e=t.alternate.memoizedState.cache),t=t.memoizedState.cache,t!==e&&(t.refCount++,e!=null&&oa(e))}function Dl(e,t,n,r){if(t.subtreeFlags&10256)for(t=t.child;t!==null;)Ol(e,t,n,r),t=t.sibling}function Ol(e,t,n,r){var i=t.flags;switch(t.tag){case 0:case 11:case 15:Dl(e,t,n,r),i&2048&&Hc(9,t);break;case 1:Dl(e,t,n,r);break;case 3:Dl(e,t,n,r),i&2048&&(e=null,t.alternate!==null&&(e=t.alternate.memoizedState.cache),t=t.memoizedState.cache,t!==e&&(t.refCount++,e!=null&&oa(e)));break;case 12:if(i&2048){Dl(e,t,n,r),e=t.stateNode;try{var a=t.memoizedProps,o=a.id,s=a.onPostCommit;typeof s==`function`&&s(o,t.alternate===null?`mount`:`update`,e.passiveEffectDuration,-0)}catch(e){q(t,t.return,e)}}else Dl(e,t,n,r);break;case 31:Dl(e,t,n,r);break;case 13:Dl(e,t,n,r);break;case 23:break;case 22:a=t.stateNode,o=t.alternate,t.memoizedState===null?a._visibility&2?Dl(e,t,n,r):(a._visibility|=2,kl(e,t,n,r,(t.subtreeFlags&10256)!=0||!1)):a._visibility&2?Dl(e,t,n,r):Al(e,t),i&2048&&Tl(o,t);break;case 24:Dl(e,t,n,r),i&2048&&El(t.alternate,t);break;default:Dl(e,t,n,r)}}function kl(e,t,n,r,i){for(i&&=(t.subtreeFlags&10256)!=0||!1,t=t.child;t!==null;){var a=e,o=t,s=n,c=r,l=o.flags;switch(o.tag){case 0:case 11:case 15:kl(a,o,s,c,i),Hc(8,o);break;case 23:break;case 22:var u=o.stateNode;o.memoizedState===null?(u._visibility|=2,kl(a,o,s,c,i)):u._visibility&2?kl(a,o,s,c,i):Al(a,o),i&&l&2048&&Tl(o.alternate,o);break;case 24:kl(a,o,s,c,i),i&&l&2048&&El(o.alternate,o);break;default:kl(a,o,s,c,i)}t=t.sibling}}function Al(e,t){if(t.subtreeFlags&10256)for(t=t.child;t!==null;){var n=e,r=t,i=r.flags;switch(r.tag){case 22:Al(n,r),i&2048&&Tl(r.alternate,r);break;case 24:Al(n,r),i&2048&&El(r.alternate,r);break;default:Al(n,r)}t=t.sibling}}var jl=8192;function Ml(e,t,n){if(e.subtreeFlags&jl)for(e=e.child;e!==null;)Nl(e,t,n),e=e.sibling}function Nl(e,t,n){switch(e.tag){case 26:Ml(e,t,n),e.flags&jl&&e.memoizedState!==null&&Gf(n,vl,e.memoizedState,e.memoizedProps);break;case 5:Ml(e,t,n);break;case 3:case 4:var r=vl;vl=_f(e.stateNode.containerInfo),Ml(e,t,n),vl=r;break;case 22:e.memoizedState===null&&(r=e.alternate,r!==null&&r.memoizedState!==null?(r=jl,jl=16777216,Ml(e,t,n),jl=r):Ml(e,t,n));break;default:Ml(e,t,n)}}function Pl(e){var t=e.alternate;if(t!==null&&(e=t.child,e!==null)){t.child=null;do t=e.sibling,e.sibling=null,e=t;while(e!==null)}}function Fl(e){var t=e.deletions;if(e.flags&16){if(t!==null)for(var n=0;n<t.length;n++){var r=t[n];al=r,Rl(r,e)}Pl(e)}if(e.subtreeFlags&10256)for(e=e.child;e!==null;)Il(e),e=e.sibling}function Il(e){switch(e.tag){case 0:case 11:case 15:Fl(e),e.flags&2048&&Uc(9,e,e.return);break;case 3:Fl(e);break;case 12:Fl(e);break;case 22:var t=e.stateNode;e.memoizedState!==null&&t._visibility&2&&(e.return===null||e.return.tag!==13)?(t._visibility&=-3,Ll(e)):Fl(e);break;default:Fl(e)}}function Ll(e){var t=e.deletions;if(e.flags&16){if(t!==null)for(var n=0;n<t.length;n++){var r=t[n];al=r,Rl(r,e)}Pl(e)}for(e=e.child;e!==null;){switch(t=e,t.tag){case 0:case 11:case 15:Uc(8,t,t.return),Ll(t);break;case 22:n=t.stateNode,n._visibility&2&&(n._visibility&=-3,Ll(t));break;default:Ll(t)}e=e.sibling}}function Rl(e,t){for(;al!==null;){var n=al;switch(n.tag){case 0:case 11:case 15:Uc(8,n,t);break;case 23:case 22:if(n.memoizedState!==null&&n.memoizedState.cachePool!==null){var r=n.memoizedState.cachePool.pool;r!=null&&r.refCount++}break;case 24:oa(n.memoizedState.cache)}if(r=n.child,r!==null)r.return=n,al=r;else a:for(n=e;al!==null;){r=al;var i=r.sibling,a=r.return;if(cl(r),r===n){al=null;break a}if(i!==null){i.return=a,al=i;break a}al=a}}}var zl={getCacheForType:function(e){var t=Qi(ia),n=t.data.get(e);return n===void 0&&(n=e(),t.data.set(e,n)),n},cacheSignal:function(){return Qi(ia).controller.signal}},Bl=typeof WeakMap==`function`?WeakMap:Map,Vl=0,Hl=null,W=null,G=0,Ul=0,Wl=null,Gl=!1,Kl=!1,ql=!1,Jl=0,Yl=0,Xl=0,Zl=0,Ql=0,$l=0,eu=0,tu=null,nu=null,ru=!1,iu=0,au=0,ou=1/0,su=null,cu=null,lu=0,uu=null,du=null,fu=0,pu=0,mu=null,hu=null,gu=0,_u=null;function vu(){return Vl&2&&G!==0?G&-G:N.T===null?et():pd()}function yu(){if($l===0)if(!(G&536870912)||H){var e=He;He<<=1,!(He&3932160)&&(He=262144),$l=e}else $l=536870912;return e=eo.current,e!==null&&(e.flags|=32),$l}function bu(e,t,n){(e===Hl&&(Ul===2||Ul===9)||e.cancelPendingCommit!==null)&&(Du(e,0),wu(e,G,$l,!1)),Je(e,n),(!(Vl&2)||e!==Hl)&&(e===Hl&&(!(Vl&2)&&(Zl|=n),Yl===4&&wu(e,G,$l,!1)),od(e))}function xu(e,t,n){if(Vl&6)throw Error(i(327));var r=!n&&(t&127)==0&&(t&e.expiredLanes)===0||Ge(e,t),a=r?Fu(e,t):Nu(e,t,!0),o=r;do{if(a===0){Kl&&!r&&wu(e,t,0,!1);break}else{if(n=e.current.alternate,o&&!Cu(n)){a=Nu(e,t,!1),o=!1;continue}if(a===2){if(o=t,e.errorRecoveryDisabledLanes&o)var s=0;else s=e.pendingLanes&-536870913,s=s===0?s&536870912?536870912:0:s;if(s!==0){t=s;a:{var c=e;a=tu;var l=c.current.memoizedState.isDehydrated;if(l&&(Du(c,s).flags|=256),s=Nu(c,s,!1),s!==2){if(ql&&!l){c.errorRecoveryDisabledLanes|=o,Zl|=o,a=4;break a}o=nu,nu=a,o!==null&&(nu===null?nu=o:nu.push.apply(nu,o))}a=s}if(o=!1,a!==2)continue}}if(a===1){Du(e,0),wu(e,t,0,!0);break}a:{switch(r=e,o=a,o){case 0:case 1:throw Error(i(345));case 4:if((t&4194048)!==t)break;case 6:wu(r,t,$l,!Gl);break a;case 2:nu=null;break;case 3:case 5:break;default:throw Error(i(329))}if((t&62914560)===t&&(a=iu+300-Ee(),10<a)){if(wu(r,t,$l,!Gl),We(r,0,!0)!==0)break a;fu=t,r.timeoutHandle=qd(Su.bind(null,r,n,nu,su,ru,t,$l,Zl,eu,Gl,o,`Throttled`,-0,0),a);break a}Su(r,n,nu,su,ru,t,$l,Zl,eu,Gl,o,null,-0,0)}}break}while(1);od(e)}function Su(e,t,n,r,i,a,o,s,c,l,u,d,f,p){if(e.timeoutHandle=-1,d=t.subtreeFlags,d&8192||(d&16785408)==16785408){d={stylesheets:null,count:0,imgCount:0,imgBytes:0,suspenseyImages:[],waitingForImages:!0,waitingForViewTransition:!1,unsuspend:Xt},Nl(t,a,d);var m=(a&62914560)===a?iu-Ee():(a&4194048)===a?au-Ee():0;if(m=qf(d,m),m!==null){fu=a,e.cancelPendingCommit=m(Hu.bind(null,e,t,a,n,r,i,o,s,c,u,d,null,f,p)),wu(e,a,o,!l);return}}Hu(e,t,a,n,r,i,o,s,c)}function Cu(e){for(var t=e;;){var n=t.tag;if((n===0||n===11||n===15)&&t.flags&16384&&(n=t.updateQueue,n!==null&&(n=n.stores,n!==null)))for(var r=0;r<n.length;r++){var i=n[r],a=i.getSnapshot;i=i.value;try{if(!yr(a(),i))return!1}catch{return!1}}if(n=t.child,t.subtreeFlags&16384&&n!==null)n.return=t,t=n;else{if(t===e)break;for(;t.sibling===null;){if(t.return===null||t.return===e)return!0;t=t.return}t.sibling.return=t.return,t=t.sibling}}return!0}function wu(e,t,n,r){t&=~Ql,t&=~Zl,e.suspendedLanes|=t,e.pingedLanes&=~t,r&&(e.warmLanes|=t),r=e.expirationTimes;for(var i=t;0<i;){var a=31-Le(i),o=1<<a;r[a]=-1,i&=~o}n!==0&&V(e,n,t)}function Tu(){return Vl&6?!0:(sd(0,!1),!1)}function Eu(){if(W!==null){if(Ul===0)var e=W.return;else e=W,Wi=Ui=null,Oo(e),ka=null,Aa=0,e=W;for(;e!==null;)Vc(e.alternate,e),e=e.return;W=null}}function Du(e,t){var n=e.timeoutHandle;n!==-1&&(e.timeoutHandle=-1,Jd(n)),n=e.cancelPendingCommit,n!==null&&(e.cancelPendingCommit=null,n()),fu=0,Eu(),Hl=e,W=n=si(e.current,null),G=t,Ul=0,Wl=null,Gl=!1,Kl=Ge(e,t),ql=!1,eu=$l=Ql=Zl=Xl=Yl=0,nu=tu=null,ru=!1,t&8&&(t|=t&32);var r=e.entangledLanes;if(r!==0)for(e=e.entanglements,r&=t;0<r;){var i=31-Le(r),a=1<<i;t|=e[i],r&=~a}return Jl=t,Zr(),n}function Ou(e,t){U=null,N.H=Rs,t===ya||t===xa?(t=Da(),Ul=3):t===ba?(t=Da(),Ul=4):Ul=t===nc?8:typeof t==`object`&&t&&typeof t.then==`function`?6:1,Wl=t,W===null&&(Yl=1,Xs(e,hi(t,e.current)))}function ku(){var e=eo.current;return e===null?!0:(G&4194048)===G?to===null:(G&62914560)===G||G&536870912?e===to:!1}function Au(){var e=N.H;return N.H=Rs,e===null?Rs:e}function ju(){var e=N.A;return N.A=zl,e}function Mu(){Yl=4,Gl||(G&4194048)!==G&&eo.current!==null||(Kl=!0),!(Xl&134217727)&&!(Zl&134217727)||Hl===null||wu(Hl,G,$l,!1)}function Nu(e,t,n){var r=Vl;Vl|=2;var i=Au(),a=ju();(Hl!==e||G!==t)&&(su=null,Du(e,t)),t=!1;var o=Yl;a:do try{if(Ul!==0&&W!==null){var s=W,c=Wl;switch(Ul){case 8:Eu(),o=6;break a;case 3:case 2:case 9:case 6:eo.current===null&&(t=!0);var l=Ul;if(Ul=0,Wl=null,zu(e,s,c,l),n&&Kl){o=0;break a}break;default:l=Ul,Ul=0,Wl=null,zu(e,s,c,l)}}Pu(),o=Yl;break}catch(t){Ou(e,t)}while(1);return t&&e.shellSuspendCounter++,Wi=Ui=null,Vl=r,N.H=i,N.A=a,W===null&&(Hl=null,G=0,Zr()),o}function Pu(){for(;W!==null;)Lu(W)}function Fu(e,t){var n=Vl;Vl|=2;var r=Au(),a=ju();Hl!==e||G!==t?(su=null,ou=Ee()+500,Du(e,t)):Kl=Ge(e,t);a:do try{if(Ul!==0&&W!==null){t=W;var o=Wl;b:switch(Ul){case 1:Ul=0,Wl=null,zu(e,t,o,1);break;case 2:case 9:if(Ca(o)){Ul=0,Wl=null,Ru(t);break}t=function(){Ul!==2&&Ul!==9||Hl!==e||(Ul=7),od(e)},o.then(t,t);break a;case 3:Ul=7;break a;case 4:Ul=5;break a;case 7:Ca(o)?(Ul=0,Wl=null,Ru(t)):(Ul=0,Wl=null,zu(e,t,o,7));break;case 5:var s=null;switch(W.tag){case 26:s=W.memoizedState;case 5:case 27:var c=W;if(s?Wf(s):c.stateNode.complete){Ul=0,Wl=null;var l=c.sibling;if(l!==null)W=l;else{var u=c.return;u===null?W=null:(W=u,Bu(u))}break b}}Ul=0,Wl=null,zu(e,t,o,5);break;case 6:Ul=0,Wl=null,zu(e,t,o,6);break;case 8:Eu(),Yl=6;break a;default:throw Error(i(462))}}Iu();break}catch(t){Ou(e,t)}while(1);return Wi=Ui=null,N.H=r,N.A=a,Vl=n,W===null?(Hl=null,G=0,Zr(),Yl):0}function Iu(){for(;W!==null&&!we();)Lu(W)}function Lu(e){var t=Mc(e.alternate,e,Jl);e.memoizedProps=e.pendingProps,t===null?Bu(e):W=t}function Ru(e){var t=e,n=t.alternate;switch(t.tag){case 15:case 0:t=gc(n,t,t.pendingProps,t.type,void 0,G);break;case 11:t=gc(n,t,t.pendingProps,t.type.render,t.ref,G);break;case 5:Oo(t);default:Vc(n,t),t=W=ci(t,Jl),t=Mc(n,t,Jl)}e.memoizedProps=e.pendingProps,t===null?Bu(e):W=t}function zu(e,t,n,r){Wi=Ui=null,Oo(t),ka=null,Aa=0;var i=t.return;try{if(tc(e,i,t,n,G)){Yl=1,Xs(e,hi(n,e.current)),W=null;return}}catch(t){if(i!==null)throw W=i,t;Yl=1,Xs(e,hi(n,e.current)),W=null;return}t.flags&32768?(H||r===1?e=!0:Kl||G&536870912?e=!1:(Gl=e=!0,(r===2||r===9||r===3||r===6)&&(r=eo.current,r!==null&&r.tag===13&&(r.flags|=16384))),Vu(t,e)):Bu(t)}function Bu(e){var t=e;do{if(t.flags&32768){Vu(t,Gl);return}e=t.return;var n=zc(t.alternate,t,Jl);if(n!==null){W=n;return}if(t=t.sibling,t!==null){W=t;return}W=t=e}while(t!==null);Yl===0&&(Yl=5)}function Vu(e,t){do{var n=Bc(e.alternate,e);if(n!==null){n.flags&=32767,W=n;return}if(n=e.return,n!==null&&(n.flags|=32768,n.subtreeFlags=0,n.deletions=null),!t&&(e=e.sibling,e!==null)){W=e;return}W=e=n}while(e!==null);Yl=6,W=null}function Hu(e,t,n,r,a,o,s,c,l){e.cancelPendingCommit=null;do K();while(lu!==0);if(Vl&6)throw Error(i(327));if(t!==null){if(t===e.current)throw Error(i(177));if(o=t.lanes|t.childLanes,o|=Xr,Ye(e,n,o,s,c,l),e===Hl&&(W=Hl=null,G=0),du=t,uu=e,fu=n,pu=o,mu=a,hu=r,t.subtreeFlags&10256||t.flags&10256?(e.callbackNode=null,e.callbackPriority=0,ed(Ae,function(){return qu(),null})):(e.callbackNode=null,e.callbackPriority=0),r=(t.flags&13878)!=0,t.subtreeFlags&13878||r){r=N.T,N.T=null,a=P.p,P.p=2,s=Vl,Vl|=4;try{ol(e,t,n)}finally{Vl=s,P.p=a,N.T=r}}lu=1,Uu(),Wu(),Gu()}}function Uu(){if(lu===1){lu=0;var e=uu,t=du,n=(t.flags&13878)!=0;if(t.subtreeFlags&13878||n){n=N.T,N.T=null;var r=P.p;P.p=2;var i=Vl;Vl|=4;try{yl(t,e);var a=Bd,o=wr(e.containerInfo),s=a.focusedElem,c=a.selectionRange;if(o!==s&&s&&s.ownerDocument&&Cr(s.ownerDocument.documentElement,s)){if(c!==null&&Tr(s)){var l=c.start,u=c.end;if(u===void 0&&(u=l),`selectionStart`in s)s.selectionStart=l,s.selectionEnd=Math.min(u,s.value.length);else{var d=s.ownerDocument||document,f=d&&d.defaultView||window;if(f.getSelection){var p=f.getSelection(),m=s.textContent.length,h=Math.min(c.start,m),g=c.end===void 0?h:Math.min(c.end,m);!p.extend&&h>g&&(o=g,g=h,h=o);var _=Sr(s,h),v=Sr(s,g);if(_&&v&&(p.rangeCount!==1||p.anchorNode!==_.node||p.anchorOffset!==_.offset||p.focusNode!==v.node||p.focusOffset!==v.offset)){var y=d.createRange();y.setStart(_.node,_.offset),p.removeAllRanges(),h>g?(p.addRange(y),p.extend(v.node,v.offset)):(y.setEnd(v.node,v.offset),p.addRange(y))}}}}for(d=[],p=s;p=p.parentNode;)p.nodeType===1&&d.push({element:p,left:p.scrollLeft,top:p.scrollTop});for(typeof s.focus==`function`&&s.focus(),s=0;s<d.length;s++){var b=d[s];b.element.scrollLeft=b.left,b.element.scrollTop=b.top}}sp=!!zd,Bd=zd=null}finally{Vl=i,P.p=r,N.T=n}}e.current=t,lu=2}}function Wu(){if(lu===2){lu=0;var e=uu,t=du,n=(t.flags&8772)!=0;if(t.subtreeFlags&8772||n){n=N.T,N.T=null;var r=P.p;P.p=2;var i=Vl;Vl|=4;try{sl(e,t.alternate,t)}finally{Vl=i,P.p=r,N.T=n}}lu=3}}function Gu(){if(lu===4||lu===3){lu=0,Te();var e=uu,t=du,n=fu,r=hu;t.subtreeFlags&10256||t.flags&10256?lu=5:(lu=0,du=uu=null,Ku(e,e.pendingLanes));var i=e.pendingLanes;if(i===0&&(cu=null),$e(n),t=t.stateNode,Fe&&typeof Fe.onCommitFiberRoot==`function`)try{Fe.onCommitFiberRoot(Pe,t,void 0,(t.current.flags&128)==128)}catch{}if(r!==null){t=N.T,i=P.p,P.p=2,N.T=null;try{for(var a=e.onRecoverableError,o=0;o<r.length;o++){var s=r[o];a(s.value,{componentStack:s.stack})}}finally{N.T=t,P.p=i}}fu&3&&K(),od(e),i=e.pendingLanes,n&261930&&i&42?e===_u?gu++:(gu=0,_u=e):gu=0,sd(0,!1)}}function Ku(e,t){(e.pooledCacheLanes&=t)===0&&(t=e.pooledCache,t!=null&&(e.pooledCache=null,oa(t)))}function K(){return Uu(),Wu(),Gu(),qu()}function qu(){if(lu!==5)return!1;var e=uu,t=pu;pu=0;var n=$e(fu),r=N.T,a=P.p;try{P.p=32>n?32:n,N.T=null,n=mu,mu=null;var o=uu,s=fu;if(lu=0,du=uu=null,fu=0,Vl&6)throw Error(i(331));var c=Vl;if(Vl|=4,Il(o.current),Ol(o,o.current,s,n),Vl=c,sd(0,!1),Fe&&typeof Fe.onPostCommitFiberRoot==`function`)try{Fe.onPostCommitFiberRoot(Pe,o)}catch{}return!0}finally{P.p=a,N.T=r,Ku(e,t)}}function Ju(e,t,n){t=hi(n,t),t=Qs(e.stateNode,t,2),e=Va(e,t,2),e!==null&&(Je(e,2),od(e))}function q(e,t,n){if(e.tag===3)Ju(e,e,n);else for(;t!==null;){if(t.tag===3){Ju(t,e,n);break}else if(t.tag===1){var r=t.stateNode;if(typeof t.type.getDerivedStateFromError==`function`||typeof r.componentDidCatch==`function`&&(cu===null||!cu.has(r))){e=hi(n,e),n=$s(2),r=Va(t,n,2),r!==null&&(ec(n,r,t,e),Je(r,2),od(r));break}}t=t.return}}function Yu(e,t,n){var r=e.pingCache;if(r===null){r=e.pingCache=new Bl;var i=new Set;r.set(t,i)}else i=r.get(t),i===void 0&&(i=new Set,r.set(t,i));i.has(n)||(ql=!0,i.add(n),e=Xu.bind(null,e,t,n),t.then(e,e))}function Xu(e,t,n){var r=e.pingCache;r!==null&&r.delete(t),e.pingedLanes|=e.suspendedLanes&n,e.warmLanes&=~n,Hl===e&&(G&n)===n&&(Yl===4||Yl===3&&(G&62914560)===G&&300>Ee()-iu?!(Vl&2)&&Du(e,0):Ql|=n,eu===G&&(eu=0)),od(e)}function Zu(e,t){t===0&&(t=qe()),e=ei(e,t),e!==null&&(Je(e,t),od(e))}function Qu(e){var t=e.memoizedState,n=0;t!==null&&(n=t.retryLane),Zu(e,n)}function $u(e,t){var n=0;switch(e.tag){case 31:case 13:var r=e.stateNode,a=e.memoizedState;a!==null&&(n=a.retryLane);break;case 19:r=e.stateNode;break;case 22:r=e.stateNode._retryCache;break;default:throw Error(i(314))}r!==null&&r.delete(t),Zu(e,n)}function ed(e,t){return L(e,t)}var td=null,J=null,nd=!1,rd=!1,id=!1,ad=0;function od(e){e!==J&&e.next===null&&(J===null?td=J=e:J=J.next=e),rd=!0,nd||(nd=!0,fd())}function sd(e,t){if(!id&&rd){id=!0;do for(var n=!1,r=td;r!==null;){if(!t)if(e!==0){var i=r.pendingLanes;if(i===0)var a=0;else{var o=r.suspendedLanes,s=r.pingedLanes;a=(1<<31-Le(42|e)+1)-1,a&=i&~(o&~s),a=a&201326741?a&201326741|1:a?a|2:0}a!==0&&(n=!0,dd(r,a))}else a=G,a=We(r,r===Hl?a:0,r.cancelPendingCommit!==null||r.timeoutHandle!==-1),!(a&3)||Ge(r,a)||(n=!0,dd(r,a));r=r.next}while(n);id=!1}}function cd(){Y()}function Y(){rd=nd=!1;var e=0;ad!==0&&Kd()&&(e=ad);for(var t=Ee(),n=null,r=td;r!==null;){var i=r.next,a=ld(r,t);a===0?(r.next=null,n===null?td=i:n.next=i,i===null&&(J=n)):(n=r,(e!==0||a&3)&&(rd=!0)),r=i}lu!==0&&lu!==5||sd(e,!1),ad!==0&&(ad=0)}function ld(e,t){for(var n=e.suspendedLanes,r=e.pingedLanes,i=e.expirationTimes,a=e.pendingLanes&-62914561;0<a;){var o=31-Le(a),s=1<<o,c=i[o];c===-1?((s&n)===0||(s&r)!==0)&&(i[o]=Ke(s,t)):c<=t&&(e.expiredLanes|=s),a&=~s}if(t=Hl,n=G,n=We(e,e===t?n:0,e.cancelPendingCommit!==null||e.timeoutHandle!==-1),r=e.callbackNode,n===0||e===t&&(Ul===2||Ul===9)||e.cancelPendingCommit!==null)return r!==null&&r!==null&&Ce(r),e.callbackNode=null,e.callbackPriority=0;if(!(n&3)||Ge(e,n)){if(t=n&-n,t===e.callbackPriority)return t;switch(r!==null&&Ce(r),$e(n)){case 2:case 8:n=ke;break;case 32:n=Ae;break;case 268435456:n=Me;break;default:n=Ae}return r=ud.bind(null,e),n=L(n,r),e.callbackPriority=t,e.callbackNode=n,t}return r!==null&&r!==null&&Ce(r),e.callbackPriority=2,e.callbackNode=null,2}function ud(e,t){if(lu!==0&&lu!==5)return e.callbackNode=null,e.callbackPriority=0,null;var n=e.callbackNode;if(K()&&e.callbackNode!==n)return null;var r=G;return r=We(e,e===Hl?r:0,e.cancelPendingCommit!==null||e.timeoutHandle!==-1),r===0?null:(xu(e,r,t),ld(e,Ee()),e.callbackNode!=null&&e.callbackNode===n?ud.bind(null,e):null)}function dd(e,t){if(K())return null;xu(e,t,!0)}function fd(){Xd(function(){Vl&6?L(Oe,cd):Y()})}function pd(){if(ad===0){var e=la;e===0&&(e=Ve,Ve<<=1,!(Ve&261888)&&(Ve=256)),ad=e}return ad}function md(e){return e==null||typeof e==`symbol`||typeof e==`boolean`?null:typeof e==`function`?e:Yt(``+e)}function hd(e,t){var n=t.ownerDocument.createElement(`input`);return n.name=t.name,n.value=t.value,e.id&&n.setAttribute(`form`,e.id),t.parentNode.insertBefore(n,t),e=new FormData(e),n.parentNode.removeChild(n),e}function gd(e,t,n,r,i){if(t===`submit`&&n&&n.stateNode===i){var a=md((i[it]||null).action),o=r.submitter;o&&(t=(t=o[it]||null)?md(t.formAction):o.getAttribute(`formAction`),t!==null&&(a=t,o=null));var s=new vn(`action`,`action`,null,r,i);e.push({event:s,listeners:[{instance:null,listener:function(){if(r.defaultPrevented){if(ad!==0){var e=o?hd(i,o):new FormData(i);ws(n,{pending:!0,data:e,method:i.method,action:a},null,e)}}else typeof a==`function`&&(s.preventDefault(),e=o?hd(i,o):new FormData(i),ws(n,{pending:!0,data:e,method:i.method,action:a},a,e))},currentTarget:i}]})}}for(var _d=0;_d<Gr.length;_d++){var vd=Gr[_d];Kr(vd.toLowerCase(),`on`+(vd[0].toUpperCase()+vd.slice(1)))}Kr(Lr,`onAnimationEnd`),Kr(Rr,`onAnimationIteration`),Kr(zr,`onAnimationStart`),Kr(`dblclick`,`onDoubleClick`),Kr(`focusin`,`onFocus`),Kr(`focusout`,`onBlur`),Kr(Br,`onTransitionRun`),Kr(Vr,`onTransitionStart`),Kr(Hr,`onTransitionCancel`),Kr(Ur,`onTransitionEnd`),bt(`onMouseEnter`,[`mouseout`,`mouseover`]),bt(`onMouseLeave`,[`mouseout`,`mouseover`]),bt(`onPointerEnter`,[`pointerout`,`pointerover`]),bt(`onPointerLeave`,[`pointerout`,`pointerover`]),yt(`onChange`,`change click focusin focusout input keydown keyup selectionchange`.split(` `)),yt(`onSelect`,`focusout contextmenu dragend focusin keydown keyup mousedown mouseup selectionchange`.split(` `)),yt(`onBeforeInput`,[`compositionend`,`keypress`,`textInput`,`paste`]),yt(`onCompositionEnd`,`compositionend focusout keydown keypress keyup mousedown`.split(` `)),yt(`onCompositionStart`,`compositionstart focusout keydown keypress keyup mousedown`.split(` `)),yt(`onCompositionUpdate`,`compositionupdate focusout keydown keypress keyup mousedown`.split(` `));var yd=`abort canplay canplaythrough durationchange emptied encrypted ended error loadeddata loadedmetadata loadstart pause play playing progress ratechange resize seeked seeking stalled suspend timeupdate volumechange waiting`.split(` `),bd=new Set(`beforetoggle cancel close invalid load scroll scrollend toggle`.split(` `).concat(yd));function xd(e,t){t=(t&4)!=0;for(var n=0;n<e.length;n++){var r=e[n],i=r.event;r=r.listeners;a:{var a=void 0;if(t)for(var o=r.length-1;0<=o;o--){var s=r[o],c=s.instance,l=s.currentTarget;if(s=s.listener,c!==a&&i.isPropagationStopped())break a;a=s,i.currentTarget=l;try{a(i)}catch(e){qr(e)}i.currentTarget=null,a=c}else for(o=0;o<r.length;o++){if(s=r[o],c=s.instance,l=s.currentTarget,s=s.listener,c!==a&&i.isPropagationStopped())break a;a=s,i.currentTarget=l;try{a(i)}catch(e){qr(e)}i.currentTarget=null,a=c}}}}function X(e,t){var n=t[ot];n===void 0&&(n=t[ot]=new Set);var r=e+`__bubble`;n.has(r)||(Td(t,e,2,!1),n.add(r))}function Sd(e,t,n){var r=0;t&&(r|=4),Td(n,e,r,t)}var Cd=`_reactListening`+Math.random().toString(36).slice(2);function wd(e){if(!e[Cd]){e[Cd]=!0,_t.forEach(function(t){t!==`selectionchange`&&(bd.has(t)||Sd(t,!1,e),Sd(t,!0,e))});var t=e.nodeType===9?e:e.ownerDocument;t===null||t[Cd]||(t[Cd]=!0,Sd(`selectionchange`,!1,t))}}function Td(e,t,n,r){switch(mp(t)){case 2:var i=cp;break;case 8:i=lp;break;default:i=up}n=i.bind(null,t,n,e),i=void 0,!sn||t!==`touchstart`&&t!==`touchmove`&&t!==`wheel`||(i=!0),r?i===void 0?e.addEventListener(t,n,!0):e.addEventListener(t,n,{capture:!0,passive:i}):i===void 0?e.addEventListener(t,n,!1):e.addEventListener(t,n,{passive:i})}function Ed(e,t,n,r,i){var a=r;if(!(t&1)&&!(t&2)&&r!==null)a:for(;;){if(r===null)return;var s=r.tag;if(s===3||s===4){var c=r.stateNode.containerInfo;if(c===i)break;if(s===4)for(s=r.return;s!==null;){var l=s.tag;if((l===3||l===4)&&s.stateNode.containerInfo===i)return;s=s.return}for(;c!==null;){if(s=ft(c),s===null)return;if(l=s.tag,l===5||l===6||l===26||l===27){r=a=s;continue a}c=c.parentNode}}r=r.return}rn(function(){var r=a,i=Qt(n),s=[];a:{var c=Wr.get(e);if(c!==void 0){var l=vn,u=e;switch(e){case`keypress`:if(pn(n)===0)break a;case`keydown`:case`keyup`:l=In;break;case`focusin`:u=`focus`,l=Dn;break;case`focusout`:u=`blur`,l=Dn;break;case`beforeblur`:case`afterblur`:l=Dn;break;case`click`:if(n.button===2)break a;case`auxclick`:case`dblclick`:case`mousedown`:case`mousemove`:case`mouseup`:case`mouseout`:case`mouseover`:case`contextmenu`:l=Tn;break;case`drag`:case`dragend`:case`dragenter`:case`dragexit`:case`dragleave`:case`dragover`:case`dragstart`:case`drop`:l=En;break;case`touchcancel`:case`touchend`:case`touchmove`:case`touchstart`:l=Rn;break;case Lr:case Rr:case zr:l=On;break;case Ur:l=zn;break;case`scroll`:case`scrollend`:l=bn;break;case`wheel`:l=Bn;break;case`copy`:case`cut`:case`paste`:l=kn;break;case`gotpointercapture`:case`lostpointercapture`:case`pointercancel`:case`pointerdown`:case`pointermove`:case`pointerout`:case`pointerover`:case`pointerup`:l=Ln;break;case`toggle`:case`beforetoggle`:l=Vn}var d=(t&4)!=0,f=!d&&(e===`scroll`||e===`scrollend`),p=d?c===null?null:c+`Capture`:c;d=[];for(var m=r,h;m!==null;){var g=m;if(h=g.stateNode,g=g.tag,g!==5&&g!==26&&g!==27||h===null||p===null||(g=an(m,p),g!=null&&d.push(Dd(m,g,h))),f)break;m=m.return}0<d.length&&(c=new l(c,u,null,n,i),s.push({event:c,listeners:d}))}}if(!(t&7)){a:{if(c=e===`mouseover`||e===`pointerover`,l=e===`mouseout`||e===`pointerout`,c&&n!==Zt&&(u=n.relatedTarget||n.fromElement)&&(ft(u)||u[at]))break a;if((l||c)&&(c=i.window===i?i:(c=i.ownerDocument)?c.defaultView||c.parentWindow:window,l?(u=n.relatedTarget||n.toElement,l=r,u=u?ft(u):null,u!==null&&(f=o(u),d=u.tag,u!==f||d!==5&&d!==27&&d!==6)&&(u=null)):(l=null,u=r),l!==u)){if(d=Tn,g=`onMouseLeave`,p=`onMouseEnter`,m=`mouse`,(e===`pointerout`||e===`pointerover`)&&(d=Ln,g=`onPointerLeave`,p=`onPointerEnter`,m=`pointer`),f=l==null?c:mt(l),h=u==null?c:mt(u),c=new d(g,m+`leave`,l,n,i),c.target=f,c.relatedTarget=h,g=null,ft(i)===r&&(d=new d(p,m+`enter`,u,n,i),d.target=h,d.relatedTarget=f,g=d),f=g,l&&u)b:{for(d=Od,p=l,m=u,h=0,g=p;g;g=d(g))h++;g=0;for(var _=m;_;_=d(_))g++;for(;0<h-g;)p=d(p),h--;for(;0<g-h;)m=d(m),g--;for(;h--;){if(p===m||m!==null&&p===m.alternate){d=p;break b}p=d(p),m=d(m)}d=null}else d=null;l!==null&&Q(s,c,l,d,!1),u!==null&&f!==null&&Q(s,f,u,d,!0)}}a:{if(c=r?mt(r):window,l=c.nodeName&&c.nodeName.toLowerCase(),l===`select`||l===`input`&&c.type===`file`)var v=sr;else if(tr(c))if(cr)v=_r;else{v=hr;var y=mr}else l=c.nodeName,!l||l.toLowerCase()!==`input`||c.type!==`checkbox`&&c.type!==`radio`?r&&Kt(r.elementType)&&(v=sr):v=gr;if(v&&=v(e,r)){nr(s,v,n,i);break a}y&&y(e,c,r),e===`focusout`&&r&&c.type===`number`&&r.memoizedProps.value!=null&&Rt(c,`number`,c.value)}switch(y=r?mt(r):window,e){case`focusin`:(tr(y)||y.contentEditable===`true`)&&(Dr=y,Or=r,kr=null);break;case`focusout`:kr=Or=Dr=null;break;case`mousedown`:Ar=!0;break;case`contextmenu`:case`mouseup`:case`dragend`:Ar=!1,jr(s,n,i);break;case`selectionchange`:if(Er)break;case`keydown`:case`keyup`:jr(s,n,i)}var b;if(Un)b:{switch(e){case`compositionstart`:var x=`onCompositionStart`;break b;case`compositionend`:x=`onCompositionEnd`;break b;case`compositionupdate`:x=`onCompositionUpdate`;break b}x=void 0}else Zn?Yn(e,n)&&(x=`onCompositionEnd`):e===`keydown`&&n.keyCode===229&&(x=`onCompositionStart`);x&&(Kn&&n.locale!==`ko`&&(Zn||x!==`onCompositionStart`?x===`onCompositionEnd`&&Zn&&(b=fn()):(ln=i,un=`value`in ln?ln.value:ln.textContent,Zn=!0)),y=Z(r,x),0<y.length&&(x=new An(x,e,null,n,i),s.push({event:x,listeners:y}),b?x.data=b:(b=Xn(n),b!==null&&(x.data=b)))),(b=Gn?Qn(e,n):$n(e,n))&&(x=Z(r,`onBeforeInput`),0<x.length&&(y=new An(`onBeforeInput`,`beforeinput`,null,n,i),s.push({event:y,listeners:x}),y.data=b)),gd(s,e,r,n,i)}xd(s,t)})}function Dd(e,t,n){return{instance:e,listener:t,currentTarget:n}}function Z(e,t){for(var n=t+`Capture`,r=[];e!==null;){var i=e,a=i.stateNode;if(i=i.tag,i!==5&&i!==26&&i!==27||a===null||(i=an(e,n),i!=null&&r.unshift(Dd(e,i,a)),i=an(e,t),i!=null&&r.push(Dd(e,i,a))),e.tag===3)return r;e=e.return}return[]}function Od(e){if(e===null)return null;do e=e.return;while(e&&e.tag!==5&&e.tag!==27);return e||null}function Q(e,t,n,r,i){for(var a=t._reactName,o=[];n!==null&&n!==r;){var s=n,c=s.alternate,l=s.stateNode;if(s=s.tag,c!==null&&c===r)break;s!==5&&s!==26&&s!==27||l===null||(c=l,i?(l=an(n,a),l!=null&&o.unshift(Dd(n,l,c))):i||(l=an(n,a),l!=null&&o.push(Dd(n,l,c)))),n=n.return}o.length!==0&&e.push({event:t,listeners:o})}var kd=/\r\n?/g,Ad=/\u0000|\uFFFD/g;function jd(e){return(typeof e==`string`?e:``+e).replace(kd,`
+`).replace(Ad,``)}function Md(e,t){return t=jd(t),jd(e)===t}function Nd(e,t,n,r,a,o){switch(n){case`children`:typeof r==`string`?t===`body`||t===`textarea`&&r===``||Ht(e,r):(typeof r==`number`||typeof r==`bigint`)&&t!==`body`&&Ht(e,``+r);break;case`className`:Et(e,`class`,r);break;case`tabIndex`:Et(e,`tabindex`,r);break;case`dir`:case`role`:case`viewBox`:case`width`:case`height`:Et(e,n,r);break;case`style`:Gt(e,r,o);break;case`data`:if(t!==`object`){Et(e,`data`,r);break}case`src`:case`href`:if(r===``&&(t!==`a`||n!==`href`)){e.removeAttribute(n);break}if(r==null||typeof r==`function`||typeof r==`symbol`||typeof r==`boolean`){e.removeAttribute(n);break}r=Yt(``+r),e.setAttribute(n,r);break;case`action`:case`formAction`:if(typeof r==`function`){e.setAttribute(n,`javascript:throw new Error('A React form was unexpectedly submitted. If you called form.submit() manually, consider using form.requestSubmit() instead. If you\\'re trying to use event.stopPropagation() in a submit event handler, consider also calling event.preventDefault().')`);break}else typeof o==`function`&&(n===`formAction`?(t!==`input`&&Nd(e,t,`name`,a.name,a,null),Nd(e,t,`formEncType`,a.formEncType,a,null),Nd(e,t,`formMethod`,a.formMethod,a,null),Nd(e,t,`formTarget`,a.formTarget,a,null)):(Nd(e,t,`encType`,a.encType,a,null),Nd(e,t,`method`,a.method,a,null),Nd(e,t,`target`,a.target,a,null)));if(r==null||typeof r==`symbol`||typeof r==`boolean`){e.removeAttribute(n);break}r=Yt(``+r),e.setAttribute(n,r);break;case`onClick`:r!=null&&(e.onclick=Xt);break;case`onScroll`:r!=null&&X(`scroll`,e);break;case`onScrollEnd`:r!=null&&X(`scrollend`,e);break;case`dangerouslySetInnerHTML`:if(r!=null){if(typeof r!=`object`||!(`__html`in r))throw Error(i(61));if(n=r.__html,n!=null){if(a.children!=null)throw Error(i(60));e.innerHTML=n}}break;case`multiple`:e.multiple=r&&typeof r!=`function`&&typeof r!=`symbol`;break;case`muted`:e.muted=r&&typeof r!=`function`&&typeof r!=`symbol`;break;case`suppressContentEditableWarning`:case`suppressHydrationWarning`:case`defaultValue`:case`defaultChecked`:case`innerHTML`:case`ref`:break;case`autoFocus`:break;case`xlinkHref`:if(r==null||typeof r==`function`||typeof r==`boolean`||typeof r==`symbol`){e.removeAttribute(`xlink:href`);break}n=Yt(``+r),e.setAttributeNS(`http://www.w3.org/1999/xlink`,`xlink:href`,n);break;case`contentEditable`:case`spellCheck`:case`draggable`:case`value`:case`autoReverse`:case`externalResourcesRequired`:case`focusable`:case`preserveAlpha`:r!=null&&typeof r!=`function`&&typeof r!=`symbol`?e.setAttribute(n,``+r):e.removeAttribute(n);break;case`inert`:case`allowFullScreen`:case`async`:case`autoPlay`:case`controls`:case`default`:case`defer`:case`disabled`:case`disablePictureInPicture`:case`disableRemotePlayback`:case`formNoValidate`:case`hidden`:case`loop`:case`noModule`:case`noValidate`:case`open`:case`playsInline`:case`readOnly`:case`required`:case`reversed`:case`scoped`:case`seamless`:case`itemScope`:r&&typeof r!=`function`&&typeof r!=`symbol`?e.setAttribute(n,``):e.removeAttribute(n);break;case`capture`:case`download`:!0===r?e.setAttribute(n,``):!1!==r&&r!=null&&typeof r!=`function`&&typeof r!=`symbol`?e.setAttribute(n,r):e.removeAttribute(n);break;case`cols`:case`rows`:case`size`:case`span`:r!=null&&typeof r!=`function`&&typeof r!=`symbol`&&!isNaN(r)&&1<=r?e.setAttribute(n,r):e.removeAttribute(n);break;case`rowSpan`:case`start`:r==null||typeof r==`function`||typeof r==`symbol`||isNaN(r)?e.removeAttribute(n):e.setAttribute(n,r);break;case`popover`:X(`beforetoggle`,e),X(`toggle`,e),Tt(e,`popover`,r);break;case`xlinkActuate`:Dt(e,`http://www.w3.org/1999/xlink`,`xlink:actuate`,r);break;case`xlinkArcrole`:Dt(e,`http://www.w3.org/1999/xlink`,`xlink:arcrole`,r);break;case`xlinkRole`:Dt(e,`http://www.w3.org/1999/xlink`,`xlink:role`,r);break;case`xlinkShow`:Dt(e,`http://www.w3.org/1999/xlink`,`xlink:show`,r);break;case`xlinkTitle`:Dt(e,`http://www.w3.org/1999/xlink`,`xlink:title`,r);break;case`xlinkType`:Dt(e,`http://www.w3.org/1999/xlink`,`xlink:type`,r);break;case`xmlBase`:Dt(e,`http://www.w3.org/XML/1998/namespace`,`xml:base`,r);break;case`xmlLang`:Dt(e,`http://www.w3.org/XML/1998/namespace`,`xml:lang`,r);break;case`xmlSpace`:Dt(e,`http://www.w3.org/XML/1998/namespace`,`xml:space`,r);break;case`is`:Tt(e,`is`,r);break;case`innerText`:case`textContent`:break;default:(!(2<n.length)||n[0]!==`o`&&n[0]!==`O`||n[1]!==`n`&&n[1]!==`N`)&&(n=qt.get(n)||n,Tt(e,n,r))}}function Pd(e,t,n,r,a,o){switch(n){case`style`:Gt(e,r,o);break;case`dangerouslySetInnerHTML`:if(r!=null){if(typeof r!=`object`||!(`__html`in r))throw Error(i(61));if(n=r.__html,n!=null){if(a.children!=null)throw Error(i(60));e.innerHTML=n}}break;case`children`:typeof r==`string`?Ht(e,r):(typeof r==`number`||typeof r==`bigint`)&&Ht(e,``+r);break;case`onScroll`:r!=null&&X(`scroll`,e);break;case`onScrollEnd`:r!=null&&X(`scrollend`,e);break;case`onClick`:r!=null&&(e.onclick=Xt);break;case`suppressContentEditableWarning`:case`suppressHydrationWarning`:case`innerHTML`:case`ref`:break;case`innerText`:case`textContent`:break;default:if(!vt.hasOwnProperty(n))a:{if(n[0]===`o`&&n[1]===`n`&&(a=n.endsWith(`Capture`),t=n.slice(2,a?n.length-7:void 0),o=e[it]||null,o=o==null?null:o[n],typeof o==`function`&&e.removeEventListener(t,o,a),typeof r==`function`)){typeof o!=`function`&&o!==null&&(n in e?e[n]=null:e.hasAttribute(n)&&e.removeAttribute(n)),e.addEventListener(t,r,a);break a}n in e?e[n]=r:!0===r?e.setAttribute(n,``):Tt(e,n,r)}}}function Fd(e,t,n){switch(t){case`div`:case`span`:case`svg`:case`path`:case`a`:case`g`:case`p`:case`li`:break;case`img`:X(`error`,e),X(`load`,e);var r=!1,a=!1,o;for(o in n)if(n.hasOwnProperty(o)){var s=n[o];if(s!=null)switch(o){case`src`:r=!0;break;case`srcSet`:a=!0;break;case`children`:case`dangerouslySetInnerHTML`:throw Error(i(137,t));default:Nd(e,t,o,s,n,null)}}a&&Nd(e,t,`srcSet`,n.srcSet,n,null),r&&Nd(e,t,`src`,n.src,n,null);return;case`input`:X(`invalid`,e);var c=o=s=a=null,l=null,u=null;for(r in n)if(n.hasOwnProperty(r)){var d=n[r];if(d!=null)switch(r){case`name`:a=d;break;case`type`:s=d;break;case`checked`:l=d;break;case`defaultChecked`:u=d;break;case`value`:o=d;break;case`defaultValue`:c=d;break;case`children`:case`dangerouslySetInnerHTML`:if(d!=null)throw Error(i(137,t));break;default:Nd(e,t,r,d,n,null)}}Lt(e,o,c,l,u,s,a,!1);return;case`select`:for(a in X(`invalid`,e),r=s=o=null,n)if(n.hasOwnProperty(a)&&(c=n[a],c!=null))switch(a){case`value`:o=c;break;case`defaultValue`:s=c;break;case`multiple`:r=c;default:Nd(e,t,a,c,n,null)}t=o,n=s,e.multiple=!!r,t==null?n!=null&&zt(e,!!r,n,!0):zt(e,!!r,t,!1);return;case`textarea`:for(s in X(`invalid`,e),o=a=r=null,n)if(n.hasOwnProperty(s)&&(c=n[s],c!=null))switch(s){case`value`:r=c;break;case`defaultValue`:a=c;break;case`children`:o=c;break;case`dangerouslySetInnerHTML`:if(c!=null)throw Error(i(91));break;default:Nd(e,t,s,c,n,null)}Vt(e,r,a,o);return;case`option`:for(l in n)if(n.hasOwnProperty(l)&&(r=n[l],r!=null))switch(l){case`selected`:e.selected=r&&typeof r!=`function`&&typeof r!=`symbol`;break;default:Nd(e,t,l,r,n,null)}return;case`dialog`:X(`beforetoggle`,e),X(`toggle`,e),X(`cancel`,e),X(`close`,e);break;case`iframe`:case`object`:X(`load`,e);break;case`video`:case`audio`:for(r=0;r<yd.length;r++)X(yd[r],e);break;case`image`:X(`error`,e),X(`load`,e);break;case`details`:X(`toggle`,e);break;case`embed`:case`source`:case`link`:X(`error`,e),X(`load`,e);case`area`:case`base`:case`br`:case`col`:case`hr`:case`keygen`:case`meta`:case`param`:case`track`:case`wbr`:case`menuitem`:for(u in n)if(n.hasOwnProperty(u)&&(r=n[u],r!=null))switch(u){case`children`:case`dangerouslySetInnerHTML`:throw Error(i(137,t));default:Nd(e,t,u,r,n,null)}return;default:if(Kt(t)){for(d in n)n.hasOwnProperty(d)&&(r=n[d],r!==void 0&&Pd(e,t,d,r,n,void 0));return}}for(c in n)n.hasOwnProperty(c)&&(r=n[c],r!=null&&Nd(e,t,c,r,n,null))}function Id(e,t,n,r){switch(t){case`div`:case`span`:case`svg`:case`path`:case`a`:case`g`:case`p`:case`li`:break;case`input`:var a=null,o=null,s=null,c=null,l=null,u=null,d=null;for(m in n){var f=n[m];if(n.hasOwnProperty(m)&&f!=null)switch(m){case`checked`:break;case`value`:break;case`defaultValue`:l=f;default:r.hasOwnProperty(m)||Nd(e,t,m,null,r,f)}}for(var p in r){var m=r[p];if(f=n[p],r.hasOwnProperty(p)&&(m!=null||f!=null))switch(p){case`type`:o=m;break;case`name`:a=m;break;case`checked`:u=m;break;case`defaultChecked`:d=m;break;case`value`:s=m;break;case`defaultValue`:c=m;break;case`children`:case`dangerouslySetInnerHTML`:if(m!=null)throw Error(i(137,t));break;default:m!==f&&Nd(e,t,p,m,r,f)}}It(e,s,c,l,u,d,o,a);return;case`select`:for(o in m=s=c=p=null,n)if(l=n[o],n.hasOwnProperty(o)&&l!=null)switch(o){case`value`:break;case`multiple`:m=l;default:r.hasOwnProperty(o)||Nd(e,t,o,null,r,l)}for(a in r)if(o=r[a],l=n[a],r.hasOwnProperty(a)&&(o!=null||l!=null))switch(a){case`value`:p=o;break;case`defaultValue`:c=o;break;case`multiple`:s=o;default:o!==l&&Nd(e,t,a,o,r,l)}t=c,n=s,r=m,p==null?!!r!=!!n&&(t==null?zt(e,!!n,n?[]:``,!1):zt(e,!!n,t,!0)):zt(e,!!n,p,!1);return;case`textarea`:for(c in m=p=null,n)if(a=n[c],n.hasOwnProperty(c)&&a!=null&&!r.hasOwnProperty(c))switch(c){case`value`:break;case`children`:break;default:Nd(e,t,c,null,r,a)}for(s in r)if(a=r[s],o=n[s],r.hasOwnProperty(s)&&(a!=null||o!=null))switch(s){case`value`:p=a;break;case`defaultValue`:m=a;break;case`children`:break;case`dangerouslySetInnerHTML`:if(a!=null)throw Error(i(91));break;default:a!==o&&Nd(e,t,s,a,r,o)}Bt(e,p,m);return;case`option`:for(var h in n)if(p=n[h],n.hasOwnProperty(h)&&p!=null&&!r.hasOwnProperty(h))switch(h){case`selected`:e.selected=!1;break;default:Nd(e,t,h,null,r,p)}for(l in r)if(p=r[l],m=n[l],r.hasOwnProperty(l)&&p!==m&&(p!=null||m!=null))switch(l){case`selected`:e.selected=p&&typeof p!=`function`&&typeof p!=`symbol`;break;default:Nd(e,t,l,p,r,m)}return;case`img`:case`link`:case`area`:case`base`:case`br`:case`col`:case`embed`:case`hr`:case`keygen`:case`meta`:case`param`:case`source`:case`track`:case`wbr`:case`menuitem`:for(var g in n)p=n[g],n.hasOwnProperty(g)&&p!=null&&!r.hasOwnProperty(g)&&Nd(e,t,g,null,r,p);for(u in r)if(p=r[u],m=n[u],r.hasOwnProperty(u)&&p!==m&&(p!=null||m!=null))switch(u){case`children`:case`dangerouslySetInnerHTML`:if(p!=null)throw Error(i(137,t));break;default:Nd(e,t,u,p,r,m)}return;default:if(Kt(t)){for(var _ in n)p=n[_],n.hasOwnProperty(_)&&p!==void 0&&!r.hasOwnProperty(_)&&Pd(e,t,_,void 0,r,p);for(d in r)p=r[d],m=n[d],!r.hasOwnProperty(d)||p===m||p===void 0&&m===void 0||Pd(e,t,d,p,r,m);return}}for(var v in n)p=n[v],n.hasOwnProperty(v)&&p!=null&&!r.hasOwnProperty(v)&&Nd(e,t,v,null,r,p);for(f in r)p=r[f],m=n[f],!r.hasOwnProperty(f)||p===m||p==null&&m==null||Nd(e,t,f,p,r,m)}function Ld(e){switch(e){case`css`:case`script`:case`font`:case`img`:case`image`:case`input`:case`link`:return!0;default:return!1}}function Rd(){if(typeof performance.getEntriesByType==`function`){for(var e=0,t=0,n=performance.getEntriesByType(`resource`),r=0;r<n.length;r++){var i=n[r],a=i.transferSize,o=i.initiatorType,s=i.duration;if(a&&s&&Ld(o)){for(o=0,s=i.responseEnd,r+=1;r<n.length;r++){var c=n[r],l=c.startTime;if(l>s)break;var u=c.transferSize,d=c.initiatorType;u&&Ld(d)&&(c=c.responseEnd,o+=u*(c<s?1:(s-l)/(c-l)))}if(--r,t+=8*(a+o)/(i.duration/1e3),e++,10<e)break}}if(0<e)return t/e/1e6}return navigator.connection&&(e=navigator.connection.downlink,typeof e==`number`)?e:5}var zd=null,Bd=null;function Vd(e){return e.nodeType===9?e:e.ownerDocument}function Hd(e){switch(e){case`http://www.w3.org/2000/svg`:return 1;case`http://www.w3.org/1998/Math/MathML`:return 2;default:return 0}}function Ud(e,t){if(e===0)switch(t){case`svg`:return 1;case`math`:return 2;default:return 0}return e===1&&t===`foreignObject`?0:e}function Wd(e,t){return e===`textarea`||e===`noscript`||typeof t.children==`string`||typeof t.children==`number`||typeof t.children==`bigint`||typeof t.dangerouslySetInnerHTML==`object`&&t.dangerouslySetInnerHTML!==null&&t.dangerouslySetInnerHTML.__html!=null}var Gd=null;function Kd(){var e=window.event;return e&&e.type===`popstate`?e===Gd?!1:(Gd=e,!0):(Gd=null,!1)}var qd=typeof setTimeout==`function`?setTimeout:void 0,Jd=typeof clearTimeout==`function`?clearTimeout:void 0,Yd=typeof Promise==`function`?Promise:void 0,Xd=typeof queueMicrotask==`function`?queueMicrotask:Yd===void 0?qd:function(e){return Yd.resolve(null).then(e).catch(Zd)};function Zd(e){setTimeout(function(){throw e})}function Qd(e){return e===`head`}function $d(e,t){var n=t,r=0;do{var i=n.nextSibling;if(e.removeChild(n),i&&i.nodeType===8)if(n=i.data,n===`/$`||n===`/&`){if(r===0){e.removeChild(i),Np(t);return}r--}else if(n===`$`||n===`$?`||n===`$~`||n===`$!`||n===`&`)r++;else if(n===`html`)mf(e.ownerDocument.documentElement);else if(n===`head`){n=e.ownerDocument.head,mf(n);for(var a=n.firstChild;a;){var o=a.nextSibling,s=a.nodeName;a[ut]||s===`SCRIPT`||s===`STYLE`||s===`LINK`&&a.rel.toLowerCase()===`stylesheet`||n.removeChild(a),a=o}}else n===`body`&&mf(e.ownerDocument.body);n=i}while(n);Np(t)}function ef(e,t){var n=e;e=0;do{var r=n.nextSibling;if(n.nodeType===1?t?(n._stashedDisplay=n.style.display,n.style.display=`none`):(n.style.display=n._stashedDisplay||``,n.getAttribute(`style`)===``&&n.removeAttribute(`style`)):n.nodeType===3&&(t?(n._stashedText=n.nodeValue,n.nodeValue=``):n.nodeValue=n._stashedText||``),r&&r.nodeType===8)if(n=r.data,n===`/$`){if(e===0)break;e--}else n!==`$`&&n!==`$?`&&n!==`$~`&&n!==`$!`||e++;n=r}while(n)}function tf(e){var t=e.firstChild;for(t&&t.nodeType===10&&(t=t.nextSibling);t;){var n=t;switch(t=t.nextSibling,n.nodeName){case`HTML`:case`HEAD`:case`BODY`:tf(n),dt(n);continue;case`SCRIPT`:case`STYLE`:continue;case`LINK`:if(n.rel.toLowerCase()===`stylesheet`)continue}e.removeChild(n)}}function nf(e,t,n,r){for(;e.nodeType===1;){var i=n;if(e.nodeName.toLowerCase()!==t.toLowerCase()){if(!r&&(e.nodeName!==`INPUT`||e.type!==`hidden`))break}else if(!r)if(t===`input`&&e.type===`hidden`){var a=i.name==null?null:``+i.name;if(i.type===`hidden`&&e.getAttribute(`name`)===a)return e}else return e;else if(!e[ut])switch(t){case`meta`:if(!e.hasAttribute(`itemprop`))break;return e;case`link`:if(a=e.getAttribute(`rel`),a===`stylesheet`&&e.hasAttribute(`data-precedence`)||a!==i.rel||e.getAttribute(`href`)!==(i.href==null||i.href===``?null:i.href)||e.getAttribute(`crossorigin`)!==(i.crossOrigin==null?null:i.crossOrigin)||e.getAttribute(`title`)!==(i.title==null?null:i.title))break;return e;case`style`:if(e.hasAttribute(`data-precedence`))break;return e;case`script`:if(a=e.getAttribute(`src`),(a!==(i.src==null?null:i.src)||e.getAttribute(`type`)!==(i.type==null?null:i.type)||e.getAttribute(`crossorigin`)!==(i.crossOrigin==null?null:i.crossOrigin))&&a&&e.hasAttribute(`async`)&&!e.hasAttribute(`itemprop`))break;return e;default:return e}if(e=lf(e.nextSibling),e===null)break}return null}function rf(e,t,n){if(t===``)return null;for(;e.nodeType!==3;)if((e.nodeType!==1||e.nodeName!==`INPUT`||e.type!==`hidden`)&&!n||(e=lf(e.nextSibling),e===null))return null;return e}function af(e,t){for(;e.nodeType!==8;)if((e.nodeType!==1||e.nodeName!==`INPUT`||e.type!==`hidden`)&&!t||(e=lf(e.nextSibling),e===null))return null;return e}function of(e){return e.data===`$?`||e.data===`$~`}function sf(e){return e.data===`$!`||e.data===`$?`&&e.ownerDocument.readyState!==`loading`}function cf(e,t){var n=e.ownerDocument;if(e.data===`$~`)e._reactRetry=t;else if(e.data!==`$?`||n.readyState!==`loading`)t();else{var r=function(){t(),n.removeEventListener(`DOMContentLoaded`,r)};n.addEventListener(`DOMContentLoaded`,r),e._reactRetry=r}}function lf(e){for(;e!=null;e=e.nextSibling){var t=e.nodeType;if(t===1||t===3)break;if(t===8){if(t=e.data,t===`$`||t===`$!`||t===`$?`||t===`$~`||t===`&`||t===`F!`||t===`F`)break;if(t===`/$`||t===`/&`)return null}}return e}var uf=null;function df(e){e=e.nextSibling;for(var t=0;e;){if(e.nodeType===8){var n=e.data;if(n===`/$`||n===`/&`){if(t===0)return lf(e.nextSibling);t--}else n!==`$`&&n!==`$!`&&n!==`$?`&&n!==`$~`&&n!==`&`||t++}e=e.nextSibling}return null}function ff(e){e=e.previousSibling;for(var t=0;e;){if(e.nodeType===8){var n=e.data;if(n===`$`||n===`$!`||n===`$?`||n===`$~`||n===`&`){if(t===0)return e;t--}else n!==`/$`&&n!==`/&`||t++}e=e.previousSibling}return null}function pf(e,t,n){switch(t=Vd(n),e){case`html`:if(e=t.documentElement,!e)throw Error(i(452));return e;case`head`:if(e=t.head,!e)throw Error(i(453));return e;case`body`:if(e=t.body,!e)throw Error(i(454));return e;default:throw Error(i(451))}}function mf(e){for(var t=e.attributes;t.length;)e.removeAttributeNode(t[0]);dt(e)}var hf=new Map,gf=new Set;function _f(e){return typeof e.getRootNode==`function`?e.getRootNode():e.nodeType===9?e:e.ownerDocument}var vf=P.d;P.d={f:yf,r:bf,D:Sf,C:Cf,L:wf,m:Tf,X:Df,S:Ef,M:Of};function yf(){var e=vf.f(),t=Tu();return e||t}function bf(e){var t=pt(e);t!==null&&t.tag===5&&t.type===`form`?Es(t):vf.r(e)}var xf=typeof document>`u`?null:document;function $(e,t,n){var r=xf;if(r&&typeof t==`string`&&t){var i=Ft(t);i=`link[rel="`+e+`"][href="`+i+`"]`,typeof n==`string`&&(i+=`[crossorigin="`+n+`"]`),gf.has(i)||(gf.add(i),e={rel:e,crossOrigin:n,href:t},r.querySelector(i)===null&&(t=r.createElement(`link`),Fd(t,`link`,e),gt(t),r.head.appendChild(t)))}}function Sf(e){vf.D(e),$(`dns-prefetch`,e,null)}function Cf(e,t){vf.C(e,t),$(`preconnect`,e,t)}function wf(e,t,n){vf.L(e,t,n);var r=xf;if(r&&e&&t){var i=`link[rel="preload"][as="`+Ft(t)+`"]`;t===`image`&&n&&n.imageSrcSet?(i+=`[imagesrcset="`+Ft(n.imageSrcSet)+`"]`,typeof n.imageSizes==`string`&&(i+=`[imagesizes="`+Ft(n.imageSizes)+`"]`)):i+=`[href="`+Ft(e)+`"]`;var a=i;switch(t){case`style`:a=Af(e);break;case`script`:a=Pf(e)}hf.has(a)||(e=h({rel:`preload`,href:t===`image`&&n&&n.imageSrcSet?void 0:e,as:t},n),hf.set(a,e),r.querySelector(i)!==null||t===`style`&&r.querySelector(jf(a))||t===`script`&&r.querySelector(Ff(a))||(t=r.createElement(`link`),Fd(t,`link`,e),gt(t),r.head.appendChild(t)))}}function Tf(e,t){vf.m(e,t);var n=xf;if(n&&e){var r=t&&typeof t.as==`string`?t.as:`script`,i=`link[rel="modulepreload"][as="`+Ft(r)+`"][href="`+Ft(e)+`"]`,a=i;switch(r){case`audioworklet`:case`paintworklet`:case`serviceworker`:case`sharedworker`:case`worker`:case`script`:a=Pf(e)}if(!hf.has(a)&&(e=h({rel:`modulepreload`,href:e},t),hf.set(a,e),n.querySelector(i)===null)){switch(r){case`audioworklet`:case`paintworklet`:case`serviceworker`:case`sharedworker`:case`worker`:case`script`:if(n.querySelector(Ff(a)))return}r=n.createElement(`link`),Fd(r,`link`,e),gt(r),n.head.appendChild(r)}}}function Ef(e,t,n){vf.S(e,t,n);var r=xf;if(r&&e){var i=ht(r).hoistableStyles,a=Af(e);t||=`default`;var o=i.get(a);if(!o){var s={loading:0,preload:null};if(o=r.querySelector(jf(a)))s.loading=5;else{e=h({rel:`stylesheet`,href:e,"data-precedence":t},n),(n=hf.get(a))&&Rf(e,n);var c=o=r.createElement(`link`);gt(c),Fd(c,`link`,e),c._p=new Promise(function(e,t){c.onload=e,c.onerror=t}),c.addEventListener(`load`,function(){s.loading|=1}),c.addEventListener(`error`,function(){s.loading|=2}),s.loading|=4,Lf(o,t,r)}o={type:`stylesheet`,instance:o,count:1,state:s},i.set(a,o)}}}function Df(e,t){vf.X(e,t);var n=xf;if(n&&e){var r=ht(n).hoistableScripts,i=Pf(e),a=r.get(i);a||(a=n.querySelector(Ff(i)),a||(e=h({src:e,async:!0},t),(t=hf.get(i))&&zf(e,t),a=n.createElement(`script`),gt(a),Fd(a,`link`,e),n.head.appendChild(a)),a={type:`script`,instance:a,count:1,state:null},r.set(i,a))}}function Of(e,t){vf.M(e,t);var n=xf;if(n&&e){var r=ht(n).hoistableScripts,i=Pf(e),a=r.get(i);a||(a=n.querySelector(Ff(i)),a||(e=h({src:e,async:!0,type:`module`},t),(t=hf.get(i))&&zf(e,t),a=n.createElement(`script`),gt(a),Fd(a,`link`,e),n.head.appendChild(a)),a={type:`script`,instance:a,count:1,state:null},r.set(i,a))}}function kf(e,t,n,r){var a=(a=le.current)?_f(a):null;if(!a)throw Error(i(446));switch(e){case`meta`:case`title`:return null;case`style`:return typeof n.precedence==`string`&&typeof n.href==`string`?(t=Af(n.href),n=ht(a).hoistableStyles,r=n.get(t),r||(r={type:`style`,instance:null,count:0,state:null},n.set(t,r)),r):{type:`void`,instance:null,count:0,state:null};case`link`:if(n.rel===`stylesheet`&&typeof n.href==`string`&&typeof n.precedence==`string`){e=Af(n.href);var o=ht(a).hoistableStyles,s=o.get(e);if(s||(a=a.ownerDocument||a,s={type:`stylesheet`,instance:null,count:0,state:{loading:0,preload:null}},o.set(e,s),(o=a.querySelector(jf(e)))&&!o._p&&(s.instance=o,s.state.loading=5),hf.has(e)||(n={rel:`preload`,as:`style`,href:n.href,crossOrigin:n.crossOrigin,integrity:n.integrity,media:n.media,hrefLang:n.hrefLang,referrerPolicy:n.referrerPolicy},hf.set(e,n),o||Nf(a,e,n,s.state))),t&&r===null)throw Error(i(528,``));return s}if(t&&r!==null)throw Error(i(529,``));return null;case`script`:return t=n.async,n=n.src,typeof n==`string`&&t&&typeof t!=`function`&&typeof t!=`symbol`?(t=Pf(n),n=ht(a).hoistableScripts,r=n.get(t),r||(r={type:`script`,instance:null,count:0,state:null},n.set(t,r)),r):{type:`void`,instance:null,count:0,state:null};default:throw Error(i(444,e))}}function Af(e){return`href="`+Ft(e)+`"`}function jf(e){return`link[rel="stylesheet"][`+e+`]`}function Mf(e){return h({},e,{"data-precedence":e.precedence,precedence:null})}function Nf(e,t,n,r){e.querySelector(`link[rel="preload"][as="style"][`+t+`]`)?r.loading=1:(t=e.createElement(`link`),r.preload=t,t.addEventListener(`load`,function(){return r.loading|=1}),t.addEventListener(`error`,function(){return r.loading|=2}),Fd(t,`link`,n),gt(t),e.head.appendChild(t))}function Pf(e){return`[src="`+Ft(e)+`"]`}function Ff(e){return`script[async]`+e}function If(e,t,n){if(t.count++,t.instance===null)switch(t.type){case`style`:var r=e.querySelector(`style[data-href~="`+Ft(n.href)+`"]`);if(r)return t.instance=r,gt(r),r;var a=h({},n,{"data-href":n.href,"data-precedence":n.precedence,href:null,precedence:null});return r=(e.ownerDocument||e).createElement(`style`),gt(r),Fd(r,`style`,a),Lf(r,n.precedence,e),t.instance=r;case`stylesheet`:a=Af(n.href);var o=e.querySelector(jf(a));if(o)return t.state.loading|=4,t.instance=o,gt(o),o;r=Mf(n),(a=hf.get(a))&&Rf(r,a),o=(e.ownerDocument||e).createElement(`link`),gt(o);var s=o;return s._p=new Promise(function(e,t){s.onload=e,s.onerror=t}),Fd(o,`link`,r),t.state.loading|=4,Lf(o,n.precedence,e),t.instance=o;case`script`:return o=Pf(n.src),(a=e.querySelector(Ff(o)))?(t.instance=a,gt(a),a):(r=n,(a=hf.get(o))&&(r=h({},n),zf(r,a)),e=e.ownerDocument||e,a=e.createElement(`script`),gt(a),Fd(a,`link`,r),e.head.appendChild(a),t.instance=a);case`void`:return null;default:throw Error(i(443,t.type))}else t.type===`stylesheet`&&!(t.state.loading&4)&&(r=t.instance,t.state.loading|=4,Lf(r,n.precedence,e));return t.instance}function Lf(e,t,n){for(var r=n.querySelectorAll(`link[rel="stylesheet"][data-precedence],style[data-precedence]`),i=r.length?r[r.length-1]:null,a=i,o=0;o<r.length;o++){var s=r[o];if(s.dataset.precedence===t)a=s;else if(a!==i)break}a?a.parentNode.insertBefore(e,a.nextSibling):(t=n.nodeType===9?n.head:n,t.insertBefore(e,t.firstChild))}function Rf(e,t){e.crossOrigin??=t.crossOrigin,e.referrerPolicy??=t.referrerPolicy,e.title??=t.title}function zf(e,t){e.crossOrigin??=t.crossOrigin,e.referrerPolicy??=t.referrerPolicy,e.integrity??=t.integrity}var Bf=null;function Vf(e,t,n){if(Bf===null){var r=new Map,i=Bf=new Map;i.set(n,r)}else i=Bf,r=i.get(n),r||(r=new Map,i.set(n,r));if(r.has(e))return r;for(r.set(e,null),n=n.getElementsByTagName(e),i=0;i<n.length;i++){var a=n[i];if(!(a[ut]||a[rt]||e===`link`&&a.getAttribute(`rel`)===`stylesheet`)&&a.namespaceURI!==`http://www.w3.org/2000/svg`){var o=a.getAttribute(t)||``;o=e+o;var s=r.get(o);s?s.push(a):r.set(o,[a])}}return r}function Hf(e,t,n){e=e.ownerDocument||e,e.head.insertBefore(n,t===`title`?e.querySelector(`head > title`):null)}function Uf(e,t,n){if(n===1||t.itemProp!=null)return!1;switch(e){case`meta`:case`title`:return!0;case`style`:if(typeof t.precedence!=`string`||typeof t.href!=`string`||t.href===``)break;return!0;case`link`:if(typeof t.rel!=`string`||typeof t.href!=`string`||t.href===``||t.onLoad||t.onError)break;switch(t.rel){case`stylesheet`:return e=t.disabled,typeof t.precedence==`string`&&e==null;default:return!0}case`script`:if(t.async&&typeof t.async!=`function`&&typeof t.async!=`symbol`&&!t.onLoad&&!t.onError&&t.src&&typeof t.src==`string`)return!0}return!1}function Wf(e){return!(e.type===`stylesheet`&&!(e.state.loading&3))}function Gf(e,t,n,r){if(n.type===`stylesheet`&&(typeof r.media!=`string`||!1!==matchMedia(r.media).matches)&&!(n.state.loading&4)){if(n.instance===null){var i=Af(r.href),a=t.querySelector(jf(i));if(a){t=a._p,typeof t==`object`&&t&&typeof t.then==`function`&&(e.count++,e=Jf.bind(e),t.then(e,e)),n.state.loading|=4,n.instance=a,gt(a);return}a=t.ownerDocument||t,r=Mf(r),(i=hf.get(i))&&Rf(r,i),a=a.createElement(`link`),gt(a);var o=a;o._p=new Promise(function(e,t){o.onload=e,o.onerror=t}),Fd(a,`link`,r),n.instance=a}e.stylesheets===null&&(e.stylesheets=new Map),e.stylesheets.set(n,t),(t=n.state.preload)&&!(n.state.loading&3)&&(e.count++,n=Jf.bind(e),t.addEventListener(`load`,n),t.addEventListener(`error`,n))}}var Kf=0;function qf(e,t){return e.stylesheets&&e.count===0&&Xf(e,e.stylesheets),0<e.count||0<e.imgCount?function(n){var r=setTimeout(function(){if(e.stylesheets&&Xf(e,e.stylesheets),e.unsuspend){var t=e.unsuspend;e.unsuspend=null,t()}},6e4+t);0<e.imgBytes&&Kf===0&&(Kf=62500*Rd());var i=setTimeout(function(){if(e.waitingForImages=!1,e.count===0&&(e.stylesheets&&Xf(e,e.stylesheets),e.unsuspend)){var t=e.unsuspend;e.unsuspend=null,t()}},(e.imgBytes>Kf?50:800)+t);return e.unsuspend=n,function(){e.unsuspend=null,clearTimeout(r),clearTimeout(i)}}:null}function Jf(){if(this.count--,this.count===0&&(this.imgCount===0||!this.waitingForImages)){if(this.stylesheets)Xf(this,this.stylesheets);else if(this.unsuspend){var e=this.unsuspend;this.unsuspend=null,e()}}}var Yf=null;function Xf(e,t){e.stylesheets=null,e.unsuspend!==null&&(e.count++,Yf=new Map,t.forEach(Zf,e),Yf=null,Jf.call(e))}function Zf(e,t){if(!(t.state.loading&4)){var n=Yf.get(e);if(n)var r=n.get(null);else{n=new Map,Yf.set(e,n);for(var i=e.querySelectorAll(`link[data-precedence],style[data-precedence]`),a=0;a<i.length;a++){var o=i[a];(o.nodeName===`LINK`||o.getAttribute(`media`)!==`not all`)&&(n.set(o.dataset.precedence,o),r=o)}r&&n.set(null,r)}i=t.instance,o=i.getAttribute(`data-precedence`),a=n.get(o)||r,a===r&&n.set(null,i),n.set(o,i),this.count++,r=Jf.bind(this),i.addEventListener(`load`,r),i.addEventListener(`error`,r),a?a.parentNode.insertBefore(i,a.nextSibling):(e=e.nodeType===9?e.head:e,e.insertBefore(i,e.firstChild)),t.state.loading|=4}}var Qf={$$typeof:C,Provider:null,Consumer:null,_currentValue:re,_currentValue2:re,_threadCount:0};function $f(e,t,n,r,i,a,o,s,c){this.tag=1,this.containerInfo=e,this.pingCache=this.current=this.pendingChildren=null,this.timeoutHandle=-1,this.callbackNode=this.next=this.pendingContext=this.context=this.cancelPendingCommit=null,this.callbackPriority=0,this.expirationTimes=B(-1),this.entangledLanes=this.shellSuspendCounter=this.errorRecoveryDisabledLanes=this.expiredLanes=this.warmLanes=this.pingedLanes=this.suspendedLanes=this.pendingLanes=0,this.entanglements=B(0),this.hiddenUpdates=B(null),this.identifierPrefix=r,this.onUncaughtError=i,this.onCaughtError=a,this.onRecoverableError=o,this.pooledCache=null,this.pooledCacheLanes=0,this.formState=c,this.incompleteTransitions=new Map}function ep(e,t,n,r,i,a,o,s,c,l,u,d){return e=new $f(e,t,n,o,c,l,u,d,s),t=1,!0===a&&(t|=24),a=ai(3,null,null,t),e.current=a,a.stateNode=e,t=aa(),t.refCount++,e.pooledCache=t,t.refCount++,a.memoizedState={element:r,isDehydrated:n,cache:t},Ra(a),e}function tp(e){return e?(e=ri,e):ri}function np(e,t,n,r,i,a){i=tp(i),r.context===null?r.context=i:r.pendingContext=i,r=Ba(t),r.payload={element:n},a=a===void 0?null:a,a!==null&&(r.callback=a),n=Va(e,r,t),n!==null&&(bu(n,e,t),Ha(n,e,t))}function rp(e,t){if(e=e.memoizedState,e!==null&&e.dehydrated!==null){var n=e.retryLane;e.retryLane=n!==0&&n<t?n:t}}function ip(e,t){rp(e,t),(e=e.alternate)&&rp(e,t)}function ap(e){if(e.tag===13||e.tag===31){var t=ei(e,67108864);t!==null&&bu(t,e,67108864),ip(e,67108864)}}function op(e){if(e.tag===13||e.tag===31){var t=vu();t=Qe(t);var n=ei(e,t);n!==null&&bu(n,e,t),ip(e,t)}}var sp=!0;function cp(e,t,n,r){var i=N.T;N.T=null;var a=P.p;try{P.p=2,up(e,t,n,r)}finally{P.p=a,N.T=i}}function lp(e,t,n,r){var i=N.T;N.T=null;var a=P.p;try{P.p=8,up(e,t,n,r)}finally{P.p=a,N.T=i}}function up(e,t,n,r){if(sp){var i=dp(r);if(i===null)Ed(e,t,r,fp,n),Cp(e,r);else if(Tp(i,e,t,n,r))r.stopPropagation();else if(Cp(e,r),t&4&&-1<Sp.indexOf(e)){for(;i!==null;){var a=pt(i);if(a!==null)switch(a.tag){case 3:if(a=a.stateNode,a.current.memoizedState.isDehydrated){var o=z(a.pendingLanes);if(o!==0){var s=a;for(s.pendingLanes|=2,s.entangledLanes|=2;o;){var c=1<<31-Le(o);s.entanglements[1]|=c,o&=~c}od(a),!(Vl&6)&&(ou=Ee()+500,sd(0,!1))}}break;case 31:case 13:s=ei(a,2),s!==null&&bu(s,a,2),Tu(),ip(a,2)}if(a=dp(r),a===null&&Ed(e,t,r,fp,n),a===i)break;i=a}i!==null&&r.stopPropagation()}else Ed(e,t,r,null,n)}}function dp(e){return e=Qt(e),pp(e)}var fp=null;function pp(e){if(fp=null,e=ft(e),e!==null){var t=o(e);if(t===null)e=null;else{var n=t.tag;if(n===13){if(e=s(t),e!==null)return e;e=null}else if(n===31){if(e=c(t),e!==null)return e;e=null}else if(n===3){if(t.stateNode.current.memoizedState.isDehydrated)return t.tag===3?t.stateNode.containerInfo:null;e=null}else t!==e&&(e=null)}}return fp=e,null}function mp(e){switch(e){case`beforetoggle`:case`cancel`:case`click`:case`close`:case`contextmenu`:case`copy`:case`cut`:case`auxclick`:case`dblclick`:case`dragend`:case`dragstart`:case`drop`:case`focusin`:case`focusout`:case`input`:case`invalid`:case`keydown`:case`keypress`:case`keyup`:case`mousedown`:case`mouseup`:case`paste`:case`pause`:case`play`:case`pointercancel`:case`pointerdown`:case`pointerup`:case`ratechange`:case`reset`:case`resize`:case`seeked`:case`submit`:case`toggle`:case`touchcancel`:case`touchend`:case`touchstart`:case`volumechange`:case`change`:case`selectionchange`:case`textInput`:case`compositionstart`:case`compositionend`:case`compositionupdate`:case`beforeblur`:case`afterblur`:case`beforeinput`:case`blur`:case`fullscreenchange`:case`focus`:case`hashchange`:case`popstate`:case`select`:case`selectstart`:return 2;case`drag`:case`dragenter`:case`dragexit`:case`dragleave`:case`dragover`:case`mousemove`:case`mouseout`:case`mouseover`:case`pointermove`:case`pointerout`:case`pointerover`:case`scroll`:case`touchmove`:case`wheel`:case`mouseenter`:case`mouseleave`:case`pointerenter`:case`pointerleave`:return 8;case`message`:switch(De()){case Oe:return 2;case ke:return 8;case Ae:case je:return 32;case Me:return 268435456;default:return 32}default:return 32}}var hp=!1,gp=null,_p=null,vp=null,yp=new Map,bp=new Map,xp=[],Sp=`mousedown mouseup touchcancel touchend touchstart auxclick dblclick pointercancel pointerdown pointerup dragend dragstart drop compositionend compositionstart keydown keypress keyup input textInput copy cut paste click change contextmenu reset`.split(` `);function Cp(e,t){switch(e){case`focusin`:case`focusout`:gp=null;break;case`dragenter`:case`dragleave`:_p=null;break;case`mouseover`:case`mouseout`:vp=null;break;case`pointerover`:case`pointerout`:yp.delete(t.pointerId);break;case`gotpointercapture`:case`lostpointercapture`:bp.delete(t.pointerId)}}function wp(e,t,n,r,i,a){return e===null||e.nativeEvent!==a?(e={blockedOn:t,domEventName:n,eventSystemFlags:r,nativeEvent:a,targetContainers:[i]},t!==null&&(t=pt(t),t!==null&&ap(t)),e):(e.eventSystemFlags|=r,t=e.targetContainers,i!==null&&t.indexOf(i)===-1&&t.push(i),e)}function Tp(e,t,n,r,i){switch(t){case`focusin`:return gp=wp(gp,e,t,n,r,i),!0;case`dragenter`:return _p=wp(_p,e,t,n,r,i),!0;case`mouseover`:return vp=wp(vp,e,t,n,r,i),!0;case`pointerover`:var a=i.pointerId;return yp.set(a,wp(yp.get(a)||null,e,t,n,r,i)),!0;case`gotpointercapture`:return a=i.pointerId,bp.set(a,wp(bp.get(a)||null,e,t,n,r,i)),!0}return!1}function Ep(e){var t=ft(e.target);if(t!==null){var n=o(t);if(n!==null){if(t=n.tag,t===13){if(t=s(n),t!==null){e.blockedOn=t,tt(e.priority,function(){op(n)});return}}else if(t===31){if(t=c(n),t!==null){e.blockedOn=t,tt(e.priority,function(){op(n)});return}}else if(t===3&&n.stateNode.current.memoizedState.isDehydrated){e.blockedOn=n.tag===3?n.stateNode.containerInfo:null;return}}}e.blockedOn=null}function Dp(e){if(e.blockedOn!==null)return!1;for(var t=e.targetContainers;0<t.length;){var n=dp(e.nativeEvent);if(n===null){n=e.nativeEvent;var r=new n.constructor(n.type,n);Zt=r,n.target.dispatchEvent(r),Zt=null}else return t=pt(n),t!==null&&ap(t),e.blockedOn=n,!1;t.shift()}return!0}function Op(e,t,n){Dp(e)&&n.delete(t)}function kp(){hp=!1,gp!==null&&Dp(gp)&&(gp=null),_p!==null&&Dp(_p)&&(_p=null),vp!==null&&Dp(vp)&&(vp=null),yp.forEach(Op),bp.forEach(Op)}function Ap(e,n){e.blockedOn===n&&(e.blockedOn=null,hp||(hp=!0,t.unstable_scheduleCallback(t.unstable_NormalPriority,kp)))}var jp=null;function Mp(e){jp!==e&&(jp=e,t.unstable_scheduleCallback(t.unstable_NormalPriority,function(){jp===e&&(jp=null);for(var t=0;t<e.length;t+=3){var n=e[t],r=e[t+1],i=e[t+2];if(typeof r!=`function`){if(pp(r||n)===null)continue;break}var a=pt(n);a!==null&&(e.splice(t,3),t-=3,ws(a,{pending:!0,data:i,method:n.method,action:r},r,i))}}))}function Np(e){function t(t){return Ap(t,e)}gp!==null&&Ap(gp,e),_p!==null&&Ap(_p,e),vp!==null&&Ap(vp,e),yp.forEach(t),bp.forEach(t);for(var n=0;n<xp.length;n++){var r=xp[n];r.blockedOn===e&&(r.blockedOn=null)}for(;0<xp.length&&(n=xp[0],n.blockedOn===null);)Ep(n),n.blockedOn===null&&xp.shift();if(n=(e.ownerDocument||e).$$reactFormReplay,n!=null)for(r=0;r<n.length;r+=3){var i=n[r],a=n[r+1],o=i[it]||null;if(typeof a==`function`)o||Mp(n);else if(o){var s=null;if(a&&a.hasAttribute(`formAction`)){if(i=a,o=a[it]||null)s=o.formAction;else if(pp(i)!==null)continue}else s=o.action;typeof s==`function`?n[r+1]=s:(n.splice(r,3),r-=3),Mp(n)}}}function Pp(){function e(e){e.canIntercept&&e.info===`react-transition`&&e.intercept({handler:function(){return new Promise(function(e){return i=e})},focusReset:`manual`,scroll:`manual`})}function t(){i!==null&&(i(),i=null),r||setTimeout(n,20)}function n(){if(!r&&!navigation.transition){var e=navigation.currentEntry;e&&e.url!=null&&navigation.navigate(e.url,{state:e.getState(),info:`react-transition`,history:`replace`})}}if(typeof navigation==`object`){var r=!1,i=null;return navigation.addEventListener(`navigate`,e),navigation.addEventListener(`navigatesuccess`,t),navigation.addEventListener(`navigateerror`,t),setTimeout(n,100),function(){r=!0,navigation.removeEventListener(`navigate`,e),navigation.removeEventListener(`navigatesuccess`,t),navigation.removeEventListener(`navigateerror`,t),i!==null&&(i(),i=null)}}}function Fp(e){this._internalRoot=e}Ip.prototype.render=Fp.prototype.render=function(e){var t=this._internalRoot;if(t===null)throw Error(i(409));var n=t.current;np(n,vu(),e,t,null,null)},Ip.prototype.unmount=Fp.prototype.unmount=function(){var e=this._internalRoot;if(e!==null){this._internalRoot=null;var t=e.containerInfo;np(e.current,2,null,e,null,null),Tu(),t[at]=null}};function Ip(e){this._internalRoot=e}Ip.prototype.unstable_scheduleHydration=function(e){if(e){var t=et();e={blockedOn:null,target:e,priority:t};for(var n=0;n<xp.length&&t!==0&&t<xp[n].priority;n++);xp.splice(n,0,e),n===0&&Ep(e)}};var Lp=n.version;if(Lp!==`19.2.5`)throw Error(i(527,Lp,`19.2.5`));P.findDOMNode=function(e){var t=e._reactInternals;if(t===void 0)throw typeof e.render==`function`?Error(i(188)):(e=Object.keys(e).join(`,`),Error(i(268,e)));return e=d(t),e=e===null?null:p(e),e=e===null?null:e.stateNode,e};var Rp={bundleType:0,version:`19.2.5`,rendererPackageName:`react-dom`,currentDispatcherRef:N,reconcilerVersion:`19.2.5`};if(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__<`u`){var zp=__REACT_DEVTOOLS_GLOBAL_HOOK__;if(!zp.isDisabled&&zp.supportsFiber)try{Pe=zp.inject(Rp),Fe=zp}catch{}}e.createRoot=function(e,t){if(!a(e))throw Error(i(299));var n=!1,r=``,o=qs,s=Js,c=Ys;return t!=null&&(!0===t.unstable_strictMode&&(n=!0),t.identifierPrefix!==void 0&&(r=t.identifierPrefix),t.onUncaughtError!==void 0&&(o=t.onUncaughtError),t.onCaughtError!==void 0&&(s=t.onCaughtError),t.onRecoverableError!==void 0&&(c=t.onRecoverableError)),t=ep(e,1,!1,null,null,n,r,null,o,s,c,Pp),e[at]=t.current,wd(e),new Fp(t)}})),g=o(((e,t)=>{function n(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>`u`||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!=`function`))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(n)}catch(e){console.error(e)}}n(),t.exports=h()})),_=(...e)=>e.filter((e,t,n)=>!!e&&e.trim()!==``&&n.indexOf(e)===t).join(` `).trim(),v=e=>e.replace(/([a-z0-9])([A-Z])/g,`$1-$2`).toLowerCase(),y=e=>e.replace(/^([A-Z])|[\s-_]+(\w)/g,(e,t,n)=>n?n.toUpperCase():t.toLowerCase()),b=e=>{let t=y(e);return t.charAt(0).toUpperCase()+t.slice(1)},x={xmlns:`http://www.w3.org/2000/svg`,width:24,height:24,viewBox:`0 0 24 24`,fill:`none`,stroke:`currentColor`,strokeWidth:2,strokeLinecap:`round`,strokeLinejoin:`round`},S=e=>{for(let t in e)if(t.startsWith(`aria-`)||t===`role`||t===`title`)return!0;return!1},C=c(u(),1),w=(0,C.createContext)({}),T=()=>(0,C.useContext)(w),E=(0,C.forwardRef)(({color:e,size:t,strokeWidth:n,absoluteStrokeWidth:r,className:i=``,children:a,iconNode:o,...s},c)=>{let{size:l=24,strokeWidth:u=2,absoluteStrokeWidth:d=!1,color:f=`currentColor`,className:p=``}=T()??{},m=r??d?Number(n??u)*24/Number(t??l):n??u;return(0,C.createElement)(`svg`,{ref:c,...x,width:t??l??x.width,height:t??l??x.height,stroke:e??f,strokeWidth:m,className:_(`lucide`,p,i),...!a&&!S(s)&&{"aria-hidden":`true`},...s},[...o.map(([e,t])=>(0,C.createElement)(e,t)),...Array.isArray(a)?a:[a]])}),D=(e,t)=>{let n=(0,C.forwardRef)(({className:n,...r},i)=>(0,C.createElement)(E,{ref:i,iconNode:t,className:_(`lucide-${v(b(e))}`,`lucide-${e}`,n),...r}));return n.displayName=b(e),n},O=D(`archive`,[[`rect`,{width:`20`,height:`5`,x:`2`,y:`3`,rx:`1`,key:`1wp1u1`}],[`path`,{d:`M4 8v11a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8`,key:`1s80jp`}],[`path`,{d:`M10 12h4`,key:`a56b0p`}]]),ee=D(`bell`,[[`path`,{d:`M10.268 21a2 2 0 0 0 3.464 0`,key:`vwvbt9`}],[`path`,{d:`M3.262 15.326A1 1 0 0 0 4 17h16a1 1 0 0 0 .74-1.673C19.41 13.956 18 12.499 18 8A6 6 0 0 0 6 8c0 4.499-1.411 5.956-2.738 7.326`,key:`11g9vi`}]]),k=D(`book-open`,[[`path`,{d:`M12 7v14`,key:`1akyts`}],[`path`,{d:`M3 18a1 1 0 0 1-1-1V4a1 1 0 0 1 1-1h5a4 4 0 0 1 4 4 4 4 0 0 1 4-4h5a1 1 0 0 1 1 1v13a1 1 0 0 1-1 1h-6a3 3 0 0 0-3 3 3 3 0 0 0-3-3z`,key:`ruj8y`}]]),A=D(`calendar-days`,[[`path`,{d:`M8 2v4`,key:`1cmpym`}],[`path`,{d:`M16 2v4`,key:`4m81vk`}],[`rect`,{width:`18`,height:`18`,x:`3`,y:`4`,rx:`2`,key:`1hopcy`}],[`path`,{d:`M3 10h18`,key:`8toen8`}],[`path`,{d:`M8 14h.01`,key:`6423bh`}],[`path`,{d:`M12 14h.01`,key:`1etili`}],[`path`,{d:`M16 14h.01`,key:`1gbofw`}],[`path`,{d:`M8 18h.01`,key:`lrp35t`}],[`path`,{d:`M12 18h.01`,key:`mhygvu`}],[`path`,{d:`M16 18h.01`,key:`kzsmim`}]]),j=D(`chart-column`,[[`path`,{d:`M3 3v16a2 2 0 0 0 2 2h16`,key:`c24i48`}],[`path`,{d:`M18 17V9`,key:`2bz60n`}],[`path`,{d:`M13 17V5`,key:`1frdt8`}],[`path`,{d:`M8 17v-3`,key:`17ska0`}]]),M=D(`check`,[[`path`,{d:`M20 6 9 17l-5-5`,key:`1gmf2c`}]]),te=D(`chevron-down`,[[`path`,{d:`m6 9 6 6 6-6`,key:`qrunsl`}]]),ne=D(`chevron-left`,[[`path`,{d:`m15 18-6-6 6-6`,key:`1wnfg3`}]]),N=D(`circle-check`,[[`circle`,{cx:`12`,cy:`12`,r:`10`,key:`1mglay`}],[`path`,{d:`m9 12 2 2 4-4`,key:`dzmm74`}]]),P=D(`clipboard`,[[`rect`,{width:`8`,height:`4`,x:`8`,y:`2`,rx:`1`,ry:`1`,key:`tgr4d6`}],[`path`,{d:`M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2`,key:`116196`}]]),re=D(`clock-3`,[[`circle`,{cx:`12`,cy:`12`,r:`10`,key:`1mglay`}],[`path`,{d:`M12 6v6h4`,key:`135r8i`}]]),ie=D(`copy`,[[`rect`,{width:`14`,height:`14`,x:`8`,y:`8`,rx:`2`,ry:`2`,key:`17jyea`}],[`path`,{d:`M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2`,key:`zix9uf`}]]),ae=D(`download`,[[`path`,{d:`M12 15V3`,key:`m9g1x1`}],[`path`,{d:`M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4`,key:`ih7n3h`}],[`path`,{d:`m7 10 5 5 5-5`,key:`brsn70`}]]),oe=D(`ellipsis`,[[`circle`,{cx:`12`,cy:`12`,r:`1`,key:`41hilf`}],[`circle`,{cx:`19`,cy:`12`,r:`1`,key:`1wjl8i`}],[`circle`,{cx:`5`,cy:`12`,r:`1`,key:`1pcz8c`}]]),F=D(`eye`,[[`path`,{d:`M2.062 12.348a1 1 0 0 1 0-.696 10.75 10.75 0 0 1 19.876 0 1 1 0 0 1 0 .696 10.75 10.75 0 0 1-19.876 0`,key:`1nclc0`}],[`circle`,{cx:`12`,cy:`12`,r:`3`,key:`1v7zrd`}]]),I=D(`gift`,[[`path`,{d:`M12 7v14`,key:`1akyts`}],[`path`,{d:`M20 11v8a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2v-8`,key:`1sqzm4`}],[`path`,{d:`M7.5 7a1 1 0 0 1 0-5A4.8 8 0 0 1 12 7a4.8 8 0 0 1 4.5-5 1 1 0 0 1 0 5`,key:`kc0143`}],[`rect`,{x:`3`,y:`7`,width:`18`,height:`4`,rx:`1`,key:`1hberx`}]]),se=D(`link-2`,[[`path`,{d:`M9 17H7A5 5 0 0 1 7 7h2`,key:`8i5ue5`}],[`path`,{d:`M15 7h2a5 5 0 1 1 0 10h-2`,key:`1b9ql8`}],[`line`,{x1:`8`,x2:`16`,y1:`12`,y2:`12`,key:`1jonct`}]]),ce=D(`pencil`,[[`path`,{d:`M21.174 6.812a1 1 0 0 0-3.986-3.987L3.842 16.174a2 2 0 0 0-.5.83l-1.321 4.352a.5.5 0 0 0 .623.622l4.353-1.32a2 2 0 0 0 .83-.497z`,key:`1a8usu`}],[`path`,{d:`m15 5 4 4`,key:`1mk7zo`}]]),le=D(`pill`,[[`path`,{d:`m10.5 20.5 10-10a4.95 4.95 0 1 0-7-7l-10 10a4.95 4.95 0 1 0 7 7Z`,key:`wa1lgi`}],[`path`,{d:`m8.5 8.5 7 7`,key:`rvfmvr`}]]),ue=D(`play`,[[`path`,{d:`M5 5a2 2 0 0 1 3.008-1.728l11.997 6.998a2 2 0 0 1 .003 3.458l-12 7A2 2 0 0 1 5 19z`,key:`10ikf1`}]]),de=D(`plus`,[[`path`,{d:`M5 12h14`,key:`1ays0h`}],[`path`,{d:`M12 5v14`,key:`s699le`}]]),fe=D(`rotate-ccw`,[[`path`,{d:`M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8`,key:`1357e3`}],[`path`,{d:`M3 3v5h5`,key:`1xhq8a`}]]),pe=D(`search`,[[`path`,{d:`m21 21-4.34-4.34`,key:`14j7rj`}],[`circle`,{cx:`11`,cy:`11`,r:`8`,key:`4ej97u`}]]),me=D(`shopping-cart`,[[`circle`,{cx:`8`,cy:`21`,r:`1`,key:`jimo8o`}],[`circle`,{cx:`19`,cy:`21`,r:`1`,key:`13723u`}],[`path`,{d:`M2.05 2.05h2l2.66 12.42a2 2 0 0 0 2 1.58h9.78a2 2 0 0 0 1.95-1.57l1.65-7.43H5.12`,key:`9zh506`}]]),he=D(`tags`,[[`path`,{d:`M13.172 2a2 2 0 0 1 1.414.586l6.71 6.71a2.4 2.4 0 0 1 0 3.408l-4.592 4.592a2.4 2.4 0 0 1-3.408 0l-6.71-6.71A2 2 0 0 1 6 9.172V3a1 1 0 0 1 1-1z`,key:`16rjxf`}],[`path`,{d:`M2 7v6.172a2 2 0 0 0 .586 1.414l6.71 6.71a2.4 2.4 0 0 0 3.191.193`,key:`178nd4`}],[`circle`,{cx:`10.5`,cy:`6.5`,r:`.5`,fill:`currentColor`,key:`12ikhr`}]]),ge=D(`upload`,[[`path`,{d:`M12 3v12`,key:`1x0j5s`}],[`path`,{d:`m17 8-5-5-5 5`,key:`7q97r8`}],[`path`,{d:`M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4`,key:`ih7n3h`}]]),_e=D(`x`,[[`path`,{d:`M18 6 6 18`,key:`1bl5f8`}],[`path`,{d:`m6 6 12 12`,key:`d8bk6v`}]]),ve=g();function ye(e,t){if(typeof e==`function`)return e(t);e!=null&&(e.current=t)}function be(...e){return t=>{let n=!1,r=e.map(e=>{let r=ye(e,t);return!n&&typeof r==`function`&&(n=!0),r});if(n)return()=>{for(let t=0;t<r.length;t++){let n=r[t];typeof n==`function`?n():ye(e[t],null)}}}}function xe(...e){return C.useCallback(be(...e),e)}var Se=o((e=>{var t=Symbol.for(`react.transitional.element`),n=Symbol.for(`react.fragment`);function r(e,n,r){var i=null;if(r!==void 0&&(i=``+r),n.key!==void 0&&(i=``+n.key),`key`in n)for(var a in r={},n)a!==`key`&&(r[a]=n[a]);else r=n;return n=r.ref,{$$typeof:t,type:e,key:i,ref:n===void 0?null:n,props:r}}e.Fragment=n,e.jsx=r,e.jsxs=r})),L=o(((e,t)=>{t.exports=Se()}))(),Ce=Symbol.for(`react.lazy`),we=C.use;function Te(e){return typeof e==`object`&&!!e&&`then`in e}function Ee(e){return typeof e==`object`&&!!e&&`$$typeof`in e&&e.$$typeof===Ce&&`_payload`in e&&Te(e._payload)}function De(e){let t=ke(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e;Ee(r)&&typeof we==`function`&&(r=we(r._payload));let a=C.Children.toArray(r),o=a.find(je);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}var Oe=De(`Slot`);function ke(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(Ee(n)&&typeof we==`function`&&(n=we(n._payload)),C.isValidElement(n)){let e=Ne(n),i=Me(r,n.props);return n.type!==C.Fragment&&(i.ref=t?be(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var Ae=Symbol(`radix.slottable`);function je(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===Ae}function Me(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function Ne(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}typeof window<`u`&&window.document&&window.document.createElement;function R(e,t,{checkForDefaultPrevented:n=!0}={}){return function(r){if(e?.(r),n===!1||!r.defaultPrevented)return t?.(r)}}function Pe(e,t){let n=C.createContext(t),r=e=>{let{children:t,...r}=e,i=C.useMemo(()=>r,Object.values(r));return(0,L.jsx)(n.Provider,{value:i,children:t})};r.displayName=e+`Provider`;function i(r){let i=C.useContext(n);if(i)return i;if(t!==void 0)return t;throw Error(`\`${r}\` must be used within \`${e}\``)}return[r,i]}function Fe(e,t=[]){let n=[];function r(t,r){let i=C.createContext(r),a=n.length;n=[...n,r];let o=t=>{let{scope:n,children:r,...o}=t,s=n?.[e]?.[a]||i,c=C.useMemo(()=>o,Object.values(o));return(0,L.jsx)(s.Provider,{value:c,children:r})};o.displayName=t+`Provider`;function s(n,o){let s=o?.[e]?.[a]||i,c=C.useContext(s);if(c)return c;if(r!==void 0)return r;throw Error(`\`${n}\` must be used within \`${t}\``)}return[o,s]}let i=()=>{let t=n.map(e=>C.createContext(e));return function(n){let r=n?.[e]||t;return C.useMemo(()=>({[`__scope${e}`]:{...n,[e]:r}}),[n,r])}};return i.scopeName=e,[r,Ie(i,...t)]}function Ie(...e){let t=e[0];if(e.length===1)return t;let n=()=>{let n=e.map(e=>({useScope:e(),scopeName:e.scopeName}));return function(e){let r=n.reduce((t,{useScope:n,scopeName:r})=>{let i=n(e)[`__scope${r}`];return{...t,...i}},{});return C.useMemo(()=>({[`__scope${t.scopeName}`]:r}),[r])}};return n.scopeName=t.scopeName,n}var Le=globalThis?.document?C.useLayoutEffect:()=>{},Re=C.useId||(()=>void 0),ze=0;function Be(e){let[t,n]=C.useState(Re());return Le(()=>{e||n(e=>e??String(ze++))},[e]),e||(t?`radix-${t}`:``)}var Ve=C.useInsertionEffect||Le;function He({prop:e,defaultProp:t,onChange:n=()=>{},caller:r}){let[i,a,o]=Ue({defaultProp:t,onChange:n}),s=e!==void 0,c=s?e:i;{let t=C.useRef(e!==void 0);C.useEffect(()=>{let e=t.current;e!==s&&console.warn(`${r} is changing from ${e?`controlled`:`uncontrolled`} to ${s?`controlled`:`uncontrolled`}. Components should not switch from controlled to uncontrolled (or vice versa). Decide between using a controlled or uncontrolled value for the lifetime of the component.`),t.current=s},[s,r])}return[c,C.useCallback(t=>{if(s){let n=z(t)?t(e):t;n!==e&&o.current?.(n)}else a(t)},[s,e,a,o])]}function Ue({defaultProp:e,onChange:t}){let[n,r]=C.useState(e),i=C.useRef(n),a=C.useRef(t);return Ve(()=>{a.current=t},[t]),C.useEffect(()=>{i.current!==n&&(a.current?.(n),i.current=n)},[n,i]),[n,r,a]}function z(e){return typeof e==`function`}var We=c(m(),1);function Ge(e){let t=Ke(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e,a=C.Children.toArray(r),o=a.find(B);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}function Ke(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(C.isValidElement(n)){let e=Ye(n),i=Je(r,n.props);return n.type!==C.Fragment&&(i.ref=t?be(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var qe=Symbol(`radix.slottable`);function B(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===qe}function Je(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function Ye(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}var V=[`a`,`button`,`div`,`form`,`h2`,`h3`,`img`,`input`,`label`,`li`,`nav`,`ol`,`p`,`select`,`span`,`svg`,`ul`].reduce((e,t)=>{let n=Ge(`Primitive.${t}`),r=C.forwardRef((e,r)=>{let{asChild:i,...a}=e,o=i?n:t;return typeof window<`u`&&(window[Symbol.for(`radix-ui`)]=!0),(0,L.jsx)(o,{...a,ref:r})});return r.displayName=`Primitive.${t}`,{...e,[t]:r}},{});function Xe(e,t){e&&We.flushSync(()=>e.dispatchEvent(t))}function Ze(e){let t=C.useRef(e);return C.useEffect(()=>{t.current=e}),C.useMemo(()=>(...e)=>t.current?.(...e),[])}function Qe(e,t=globalThis?.document){let n=Ze(e);C.useEffect(()=>{let e=e=>{e.key===`Escape`&&n(e)};return t.addEventListener(`keydown`,e,{capture:!0}),()=>t.removeEventListener(`keydown`,e,{capture:!0})},[n,t])}var $e=`DismissableLayer`,et=`dismissableLayer.update`,tt=`dismissableLayer.pointerDownOutside`,nt=`dismissableLayer.focusOutside`,rt,it=C.createContext({layers:new Set,layersWithOutsidePointerEventsDisabled:new Set,branches:new Set}),at=C.forwardRef((e,t)=>{let{disableOutsidePointerEvents:n=!1,onEscapeKeyDown:r,onPointerDownOutside:i,onFocusOutside:a,onInteractOutside:o,onDismiss:s,...c}=e,l=C.useContext(it),[u,d]=C.useState(null),f=u?.ownerDocument??globalThis?.document,[,p]=C.useState({}),m=xe(t,e=>d(e)),h=Array.from(l.layers),[g]=[...l.layersWithOutsidePointerEventsDisabled].slice(-1),_=h.indexOf(g),v=u?h.indexOf(u):-1,y=l.layersWithOutsidePointerEventsDisabled.size>0,b=v>=_,x=ct(e=>{let t=e.target,n=[...l.branches].some(e=>e.contains(t));!b||n||(i?.(e),o?.(e),e.defaultPrevented||s?.())},f),S=lt(e=>{let t=e.target;[...l.branches].some(e=>e.contains(t))||(a?.(e),o?.(e),e.defaultPrevented||s?.())},f);return Qe(e=>{v===l.layers.size-1&&(r?.(e),!e.defaultPrevented&&s&&(e.preventDefault(),s()))},f),C.useEffect(()=>{if(u)return n&&(l.layersWithOutsidePointerEventsDisabled.size===0&&(rt=f.body.style.pointerEvents,f.body.style.pointerEvents=`none`),l.layersWithOutsidePointerEventsDisabled.add(u)),l.layers.add(u),ut(),()=>{n&&l.layersWithOutsidePointerEventsDisabled.size===1&&(f.body.style.pointerEvents=rt)}},[u,f,n,l]),C.useEffect(()=>()=>{u&&(l.layers.delete(u),l.layersWithOutsidePointerEventsDisabled.delete(u),ut())},[u,l]),C.useEffect(()=>{let e=()=>p({});return document.addEventListener(et,e),()=>document.removeEventListener(et,e)},[]),(0,L.jsx)(V.div,{...c,ref:m,style:{pointerEvents:y?b?`auto`:`none`:void 0,...e.style},onFocusCapture:R(e.onFocusCapture,S.onFocusCapture),onBlurCapture:R(e.onBlurCapture,S.onBlurCapture),onPointerDownCapture:R(e.onPointerDownCapture,x.onPointerDownCapture)})});at.displayName=$e;var ot=`DismissableLayerBranch`,st=C.forwardRef((e,t)=>{let n=C.useContext(it),r=C.useRef(null),i=xe(t,r);return C.useEffect(()=>{let e=r.current;if(e)return n.branches.add(e),()=>{n.branches.delete(e)}},[n.branches]),(0,L.jsx)(V.div,{...e,ref:i})});st.displayName=ot;function ct(e,t=globalThis?.document){let n=Ze(e),r=C.useRef(!1),i=C.useRef(()=>{});return C.useEffect(()=>{let e=e=>{if(e.target&&!r.current){let r=function(){dt(tt,n,a,{discrete:!0})},a={originalEvent:e};e.pointerType===`touch`?(t.removeEventListener(`click`,i.current),i.current=r,t.addEventListener(`click`,i.current,{once:!0})):r()}else t.removeEventListener(`click`,i.current);r.current=!1},a=window.setTimeout(()=>{t.addEventListener(`pointerdown`,e)},0);return()=>{window.clearTimeout(a),t.removeEventListener(`pointerdown`,e),t.removeEventListener(`click`,i.current)}},[t,n]),{onPointerDownCapture:()=>r.current=!0}}function lt(e,t=globalThis?.document){let n=Ze(e),r=C.useRef(!1);return C.useEffect(()=>{let e=e=>{e.target&&!r.current&&dt(nt,n,{originalEvent:e},{discrete:!1})};return t.addEventListener(`focusin`,e),()=>t.removeEventListener(`focusin`,e)},[t,n]),{onFocusCapture:()=>r.current=!0,onBlurCapture:()=>r.current=!1}}function ut(){let e=new CustomEvent(et);document.dispatchEvent(e)}function dt(e,t,n,{discrete:r}){let i=n.originalEvent.target,a=new CustomEvent(e,{bubbles:!1,cancelable:!0,detail:n});t&&i.addEventListener(e,t,{once:!0}),r?Xe(i,a):i.dispatchEvent(a)}var ft=`focusScope.autoFocusOnMount`,pt=`focusScope.autoFocusOnUnmount`,mt={bubbles:!1,cancelable:!0},ht=`FocusScope`,gt=C.forwardRef((e,t)=>{let{loop:n=!1,trapped:r=!1,onMountAutoFocus:i,onUnmountAutoFocus:a,...o}=e,[s,c]=C.useState(null),l=Ze(i),u=Ze(a),d=C.useRef(null),f=xe(t,e=>c(e)),p=C.useRef({paused:!1,pause(){this.paused=!0},resume(){this.paused=!1}}).current;C.useEffect(()=>{if(r){let e=function(e){if(p.paused||!s)return;let t=e.target;s.contains(t)?d.current=t:Ct(d.current,{select:!0})},t=function(e){if(p.paused||!s)return;let t=e.relatedTarget;t!==null&&(s.contains(t)||Ct(d.current,{select:!0}))},n=function(e){if(document.activeElement===document.body)for(let t of e)t.removedNodes.length>0&&Ct(s)};document.addEventListener(`focusin`,e),document.addEventListener(`focusout`,t);let r=new MutationObserver(n);return s&&r.observe(s,{childList:!0,subtree:!0}),()=>{document.removeEventListener(`focusin`,e),document.removeEventListener(`focusout`,t),r.disconnect()}}},[r,s,p.paused]),C.useEffect(()=>{if(s){wt.add(p);let e=document.activeElement;if(!s.contains(e)){let t=new CustomEvent(ft,mt);s.addEventListener(ft,l),s.dispatchEvent(t),t.defaultPrevented||(_t(Dt(yt(s)),{select:!0}),document.activeElement===e&&Ct(s))}return()=>{s.removeEventListener(ft,l),setTimeout(()=>{let t=new CustomEvent(pt,mt);s.addEventListener(pt,u),s.dispatchEvent(t),t.defaultPrevented||Ct(e??document.body,{select:!0}),s.removeEventListener(pt,u),wt.remove(p)},0)}}},[s,l,u,p]);let m=C.useCallback(e=>{if(!n&&!r||p.paused)return;let t=e.key===`Tab`&&!e.altKey&&!e.ctrlKey&&!e.metaKey,i=document.activeElement;if(t&&i){let t=e.currentTarget,[r,a]=vt(t);r&&a?!e.shiftKey&&i===a?(e.preventDefault(),n&&Ct(r,{select:!0})):e.shiftKey&&i===r&&(e.preventDefault(),n&&Ct(a,{select:!0})):i===t&&e.preventDefault()}},[n,r,p.paused]);return(0,L.jsx)(V.div,{tabIndex:-1,...o,ref:f,onKeyDown:m})});gt.displayName=ht;function _t(e,{select:t=!1}={}){let n=document.activeElement;for(let r of e)if(Ct(r,{select:t}),document.activeElement!==n)return}function vt(e){let t=yt(e);return[bt(t,e),bt(t.reverse(),e)]}function yt(e){let t=[],n=document.createTreeWalker(e,NodeFilter.SHOW_ELEMENT,{acceptNode:e=>{let t=e.tagName===`INPUT`&&e.type===`hidden`;return e.disabled||e.hidden||t?NodeFilter.FILTER_SKIP:e.tabIndex>=0?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}});for(;n.nextNode();)t.push(n.currentNode);return t}function bt(e,t){for(let n of e)if(!xt(n,{upTo:t}))return n}function xt(e,{upTo:t}){if(getComputedStyle(e).visibility===`hidden`)return!0;for(;e;){if(t!==void 0&&e===t)return!1;if(getComputedStyle(e).display===`none`)return!0;e=e.parentElement}return!1}function St(e){return e instanceof HTMLInputElement&&`select`in e}function Ct(e,{select:t=!1}={}){if(e&&e.focus){let n=document.activeElement;e.focus({preventScroll:!0}),e!==n&&St(e)&&t&&e.select()}}var wt=Tt();function Tt(){let e=[];return{add(t){let n=e[0];t!==n&&n?.pause(),e=Et(e,t),e.unshift(t)},remove(t){e=Et(e,t),e[0]?.resume()}}}function Et(e,t){let n=[...e],r=n.indexOf(t);return r!==-1&&n.splice(r,1),n}function Dt(e){return e.filter(e=>e.tagName!==`A`)}var Ot=`Portal`,kt=C.forwardRef((e,t)=>{let{container:n,...r}=e,[i,a]=C.useState(!1);Le(()=>a(!0),[]);let o=n||i&&globalThis?.document?.body;return o?We.createPortal((0,L.jsx)(V.div,{...r,ref:t}),o):null});kt.displayName=Ot;function At(e,t){return C.useReducer((e,n)=>t[e][n]??e,e)}var jt=e=>{let{present:t,children:n}=e,r=Mt(t),i=typeof n==`function`?n({present:r.isPresent}):C.Children.only(n),a=xe(r.ref,Pt(i));return typeof n==`function`||r.isPresent?C.cloneElement(i,{ref:a}):null};jt.displayName=`Presence`;function Mt(e){let[t,n]=C.useState(),r=C.useRef(null),i=C.useRef(e),a=C.useRef(`none`),[o,s]=At(e?`mounted`:`unmounted`,{mounted:{UNMOUNT:`unmounted`,ANIMATION_OUT:`unmountSuspended`},unmountSuspended:{MOUNT:`mounted`,ANIMATION_END:`unmounted`},unmounted:{MOUNT:`mounted`}});return C.useEffect(()=>{let e=Nt(r.current);a.current=o===`mounted`?e:`none`},[o]),Le(()=>{let t=r.current,n=i.current;if(n!==e){let r=a.current,o=Nt(t);e?s(`MOUNT`):o===`none`||t?.display===`none`?s(`UNMOUNT`):s(n&&r!==o?`ANIMATION_OUT`:`UNMOUNT`),i.current=e}},[e,s]),Le(()=>{if(t){let e,n=t.ownerDocument.defaultView??window,o=a=>{let o=Nt(r.current).includes(CSS.escape(a.animationName));if(a.target===t&&o&&(s(`ANIMATION_END`),!i.current)){let r=t.style.animationFillMode;t.style.animationFillMode=`forwards`,e=n.setTimeout(()=>{t.style.animationFillMode===`forwards`&&(t.style.animationFillMode=r)})}},c=e=>{e.target===t&&(a.current=Nt(r.current))};return t.addEventListener(`animationstart`,c),t.addEventListener(`animationcancel`,o),t.addEventListener(`animationend`,o),()=>{n.clearTimeout(e),t.removeEventListener(`animationstart`,c),t.removeEventListener(`animationcancel`,o),t.removeEventListener(`animationend`,o)}}else s(`ANIMATION_END`)},[t,s]),{isPresent:[`mounted`,`unmountSuspended`].includes(o),ref:C.useCallback(e=>{r.current=e?getComputedStyle(e):null,n(e)},[])}}function Nt(e){return e?.animationName||`none`}function Pt(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}var Ft=0;function It(){C.useEffect(()=>{let e=document.querySelectorAll(`[data-radix-focus-guard]`);return document.body.insertAdjacentElement(`afterbegin`,e[0]??Lt()),document.body.insertAdjacentElement(`beforeend`,e[1]??Lt()),Ft++,()=>{Ft===1&&document.querySelectorAll(`[data-radix-focus-guard]`).forEach(e=>e.remove()),Ft--}},[])}function Lt(){let e=document.createElement(`span`);return e.setAttribute(`data-radix-focus-guard`,``),e.tabIndex=0,e.style.outline=`none`,e.style.opacity=`0`,e.style.position=`fixed`,e.style.pointerEvents=`none`,e}var Rt=function(){return Rt=Object.assign||function(e){for(var t,n=1,r=arguments.length;n<r;n++)for(var i in t=arguments[n],t)Object.prototype.hasOwnProperty.call(t,i)&&(e[i]=t[i]);return e},Rt.apply(this,arguments)};function zt(e,t){var n={};for(var r in e)Object.prototype.hasOwnProperty.call(e,r)&&t.indexOf(r)<0&&(n[r]=e[r]);if(e!=null&&typeof Object.getOwnPropertySymbols==`function`)for(var i=0,r=Object.getOwnPropertySymbols(e);i<r.length;i++)t.indexOf(r[i])<0&&Object.prototype.propertyIsEnumerable.call(e,r[i])&&(n[r[i]]=e[r[i]]);return n}function Bt(e,t,n){if(n||arguments.length===2)for(var r=0,i=t.length,a;r<i;r++)(a||!(r in t))&&(a||=Array.prototype.slice.call(t,0,r),a[r]=t[r]);return e.concat(a||Array.prototype.slice.call(t))}var Vt=`right-scroll-bar-position`,Ht=`width-before-scroll-bar`,Ut=`with-scroll-bars-hidden`,Wt=`--removed-body-scroll-bar-size`;function Gt(e,t){return typeof e==`function`?e(t):e&&(e.current=t),e}function Kt(e,t){var n=(0,C.useState)(function(){return{value:e,callback:t,facade:{get current(){return n.value},set current(e){var t=n.value;t!==e&&(n.value=e,n.callback(e,t))}}}})[0];return n.callback=t,n.facade}var qt=typeof window<`u`?C.useLayoutEffect:C.useEffect,Jt=new WeakMap;function Yt(e,t){var n=Kt(t||null,function(t){return e.forEach(function(e){return Gt(e,t)})});return qt(function(){var t=Jt.get(n);if(t){var r=new Set(t),i=new Set(e),a=n.current;r.forEach(function(e){i.has(e)||Gt(e,null)}),i.forEach(function(e){r.has(e)||Gt(e,a)})}Jt.set(n,e)},[e]),n}function Xt(e){return e}function Zt(e,t){t===void 0&&(t=Xt);var n=[],r=!1;return{read:function(){if(r)throw Error("Sidecar: could not `read` from an `assigned` medium. `read` could be used only with `useMedium`.");return n.length?n[n.length-1]:e},useMedium:function(e){var i=t(e,r);return n.push(i),function(){n=n.filter(function(e){return e!==i})}},assignSyncMedium:function(e){for(r=!0;n.length;){var t=n;n=[],t.forEach(e)}n={push:function(t){return e(t)},filter:function(){return n}}},assignMedium:function(e){r=!0;var t=[];if(n.length){var i=n;n=[],i.forEach(e),t=n}var a=function(){var n=t;t=[],n.forEach(e)},o=function(){return Promise.resolve().then(a)};o(),n={push:function(e){t.push(e),o()},filter:function(e){return t=t.filter(e),n}}}}}function Qt(e){e===void 0&&(e={});var t=Zt(null);return t.options=Rt({async:!0,ssr:!1},e),t}var $t=function(e){var t=e.sideCar,n=zt(e,[`sideCar`]);if(!t)throw Error("Sidecar: please provide `sideCar` property to import the right car");var r=t.read();if(!r)throw Error(`Sidecar medium not found`);return C.createElement(r,Rt({},n))};$t.isSideCarExport=!0;function en(e,t){return e.useMedium(t),$t}var tn=Qt(),nn=function(){},rn=C.forwardRef(function(e,t){var n=C.useRef(null),r=C.useState({onScrollCapture:nn,onWheelCapture:nn,onTouchMoveCapture:nn}),i=r[0],a=r[1],o=e.forwardProps,s=e.children,c=e.className,l=e.removeScrollBar,u=e.enabled,d=e.shards,f=e.sideCar,p=e.noRelative,m=e.noIsolation,h=e.inert,g=e.allowPinchZoom,_=e.as,v=_===void 0?`div`:_,y=e.gapMode,b=zt(e,[`forwardProps`,`children`,`className`,`removeScrollBar`,`enabled`,`shards`,`sideCar`,`noRelative`,`noIsolation`,`inert`,`allowPinchZoom`,`as`,`gapMode`]),x=f,S=Yt([n,t]),w=Rt(Rt({},b),i);return C.createElement(C.Fragment,null,u&&C.createElement(x,{sideCar:tn,removeScrollBar:l,shards:d,noRelative:p,noIsolation:m,inert:h,setCallbacks:a,allowPinchZoom:!!g,lockRef:n,gapMode:y}),o?C.cloneElement(C.Children.only(s),Rt(Rt({},w),{ref:S})):C.createElement(v,Rt({},w,{className:c,ref:S}),s))});rn.defaultProps={enabled:!0,removeScrollBar:!0,inert:!1},rn.classNames={fullWidth:Ht,zeroRight:Vt};var an,on=function(){if(an)return an;if(typeof __webpack_nonce__<`u`)return __webpack_nonce__};function sn(){if(!document)return null;var e=document.createElement(`style`);e.type=`text/css`;var t=on();return t&&e.setAttribute(`nonce`,t),e}function cn(e,t){e.styleSheet?e.styleSheet.cssText=t:e.appendChild(document.createTextNode(t))}function ln(e){(document.head||document.getElementsByTagName(`head`)[0]).appendChild(e)}var un=function(){var e=0,t=null;return{add:function(n){e==0&&(t=sn())&&(cn(t,n),ln(t)),e++},remove:function(){e--,!e&&t&&(t.parentNode&&t.parentNode.removeChild(t),t=null)}}},dn=function(){var e=un();return function(t,n){C.useEffect(function(){return e.add(t),function(){e.remove()}},[t&&n])}},fn=function(){var e=dn();return function(t){var n=t.styles,r=t.dynamic;return e(n,r),null}},pn={left:0,top:0,right:0,gap:0},mn=function(e){return parseInt(e||``,10)||0},hn=function(e){var t=window.getComputedStyle(document.body),n=t[e===`padding`?`paddingLeft`:`marginLeft`],r=t[e===`padding`?`paddingTop`:`marginTop`],i=t[e===`padding`?`paddingRight`:`marginRight`];return[mn(n),mn(r),mn(i)]},gn=function(e){if(e===void 0&&(e=`margin`),typeof window>`u`)return pn;var t=hn(e),n=document.documentElement.clientWidth,r=window.innerWidth;return{left:t[0],top:t[1],right:t[2],gap:Math.max(0,r-n+t[2]-t[0])}},_n=fn(),vn=`data-scroll-locked`,yn=function(e,t,n,r){var i=e.left,a=e.top,o=e.right,s=e.gap;return n===void 0&&(n=`margin`),`
+  .${Ut} {
    overflow: hidden ${r};
    padding-right: ${s}px ${r};
   }
-  body[${hn}] {
+  body[${vn}] {
     overflow: hidden ${r};
     overscroll-behavior: contain;
     ${[t&&`position: relative ${r};`,n===`margin`&&`
@@ -24,36 +24,36 @@ Error generating stack: `+e.message+`
     `,n===`padding`&&`padding-right: ${s}px ${r};`].filter(Boolean).join(``)}
   }
   
-  .${Rt} {
+  .${Vt} {
     right: ${s}px ${r};
   }
   
-  .${zt} {
+  .${Ht} {
     margin-right: ${s}px ${r};
   }
   
-  .${Rt} .${Rt} {
+  .${Vt} .${Vt} {
     right: 0 ${r};
   }
   
-  .${zt} .${zt} {
+  .${Ht} .${Ht} {
     margin-right: 0 ${r};
   }
   
-  body[${hn}] {
-    ${Vt}: ${s}px;
+  body[${vn}] {
+    ${Wt}: ${s}px;
   }
-`},_n=function(){var e=parseInt(document.body.getAttribute(`data-scroll-locked`)||`0`,10);return isFinite(e)?e:0},vn=function(){C.useEffect(function(){return document.body.setAttribute(hn,(_n()+1).toString()),function(){var e=_n()-1;e<=0?document.body.removeAttribute(hn):document.body.setAttribute(hn,e.toString())}},[])},yn=function(e){var t=e.noRelative,n=e.noImportant,r=e.gapMode,i=r===void 0?`margin`:r;vn();var a=C.useMemo(function(){return pn(i)},[i]);return C.createElement(mn,{styles:gn(a,!t,i,n?``:`!important`)})},bn=!1;if(typeof window<`u`)try{var xn=Object.defineProperty({},`passive`,{get:function(){return bn=!0,!0}});window.addEventListener(`test`,xn,xn),window.removeEventListener(`test`,xn,xn)}catch{bn=!1}var Sn=bn?{passive:!1}:!1,Cn=function(e){return e.tagName===`TEXTAREA`},wn=function(e,t){if(!(e instanceof Element))return!1;var n=window.getComputedStyle(e);return n[t]!==`hidden`&&!(n.overflowY===n.overflowX&&!Cn(e)&&n[t]===`visible`)},Tn=function(e){return wn(e,`overflowY`)},En=function(e){return wn(e,`overflowX`)},Dn=function(e,t){var n=t.ownerDocument,r=t;do{if(typeof ShadowRoot<`u`&&r instanceof ShadowRoot&&(r=r.host),An(e,r)){var i=jn(e,r);if(i[1]>i[2])return!0}r=r.parentNode}while(r&&r!==n.body);return!1},On=function(e){return[e.scrollTop,e.scrollHeight,e.clientHeight]},kn=function(e){return[e.scrollLeft,e.scrollWidth,e.clientWidth]},An=function(e,t){return e===`v`?Tn(t):En(t)},jn=function(e,t){return e===`v`?On(t):kn(t)},Mn=function(e,t){return e===`h`&&t===`rtl`?-1:1},Nn=function(e,t,n,r,i){var a=Mn(e,window.getComputedStyle(t).direction),o=a*r,s=n.target,c=t.contains(s),l=!1,u=o>0,d=0,f=0;do{if(!s)break;var p=jn(e,s),m=p[0],h=p[1]-p[2]-a*m;(m||h)&&An(e,s)&&(d+=h,f+=m);var g=s.parentNode;s=g&&g.nodeType===Node.DOCUMENT_FRAGMENT_NODE?g.host:g}while(!c&&s!==document.body||c&&(t.contains(s)||t===s));return(u&&(i&&Math.abs(d)<1||!i&&o>d)||!u&&(i&&Math.abs(f)<1||!i&&-o>f))&&(l=!0),l},Pn=function(e){return`changedTouches`in e?[e.changedTouches[0].clientX,e.changedTouches[0].clientY]:[0,0]},Fn=function(e){return[e.deltaX,e.deltaY]},In=function(e){return e&&`current`in e?e.current:e},Ln=function(e,t){return e[0]===t[0]&&e[1]===t[1]},Rn=function(e){return`
+`},bn=function(){var e=parseInt(document.body.getAttribute(`data-scroll-locked`)||`0`,10);return isFinite(e)?e:0},xn=function(){C.useEffect(function(){return document.body.setAttribute(vn,(bn()+1).toString()),function(){var e=bn()-1;e<=0?document.body.removeAttribute(vn):document.body.setAttribute(vn,e.toString())}},[])},Sn=function(e){var t=e.noRelative,n=e.noImportant,r=e.gapMode,i=r===void 0?`margin`:r;xn();var a=C.useMemo(function(){return gn(i)},[i]);return C.createElement(_n,{styles:yn(a,!t,i,n?``:`!important`)})},Cn=!1;if(typeof window<`u`)try{var wn=Object.defineProperty({},`passive`,{get:function(){return Cn=!0,!0}});window.addEventListener(`test`,wn,wn),window.removeEventListener(`test`,wn,wn)}catch{Cn=!1}var Tn=Cn?{passive:!1}:!1,En=function(e){return e.tagName===`TEXTAREA`},Dn=function(e,t){if(!(e instanceof Element))return!1;var n=window.getComputedStyle(e);return n[t]!==`hidden`&&!(n.overflowY===n.overflowX&&!En(e)&&n[t]===`visible`)},On=function(e){return Dn(e,`overflowY`)},kn=function(e){return Dn(e,`overflowX`)},An=function(e,t){var n=t.ownerDocument,r=t;do{if(typeof ShadowRoot<`u`&&r instanceof ShadowRoot&&(r=r.host),Nn(e,r)){var i=Pn(e,r);if(i[1]>i[2])return!0}r=r.parentNode}while(r&&r!==n.body);return!1},jn=function(e){return[e.scrollTop,e.scrollHeight,e.clientHeight]},Mn=function(e){return[e.scrollLeft,e.scrollWidth,e.clientWidth]},Nn=function(e,t){return e===`v`?On(t):kn(t)},Pn=function(e,t){return e===`v`?jn(t):Mn(t)},Fn=function(e,t){return e===`h`&&t===`rtl`?-1:1},In=function(e,t,n,r,i){var a=Fn(e,window.getComputedStyle(t).direction),o=a*r,s=n.target,c=t.contains(s),l=!1,u=o>0,d=0,f=0;do{if(!s)break;var p=Pn(e,s),m=p[0],h=p[1]-p[2]-a*m;(m||h)&&Nn(e,s)&&(d+=h,f+=m);var g=s.parentNode;s=g&&g.nodeType===Node.DOCUMENT_FRAGMENT_NODE?g.host:g}while(!c&&s!==document.body||c&&(t.contains(s)||t===s));return(u&&(i&&Math.abs(d)<1||!i&&o>d)||!u&&(i&&Math.abs(f)<1||!i&&-o>f))&&(l=!0),l},Ln=function(e){return`changedTouches`in e?[e.changedTouches[0].clientX,e.changedTouches[0].clientY]:[0,0]},Rn=function(e){return[e.deltaX,e.deltaY]},zn=function(e){return e&&`current`in e?e.current:e},Bn=function(e,t){return e[0]===t[0]&&e[1]===t[1]},Vn=function(e){return`
   .block-interactivity-${e} {pointer-events: none;}
   .allow-interactivity-${e} {pointer-events: all;}
-`},zn=0,Bn=[];function Vn(e){var t=C.useRef([]),n=C.useRef([0,0]),r=C.useRef(),i=C.useState(zn++)[0],a=C.useState(ln)[0],o=C.useRef(e);C.useEffect(function(){o.current=e},[e]),C.useEffect(function(){if(e.inert){document.body.classList.add(`block-interactivity-${i}`);var t=Lt([e.lockRef.current],(e.shards||[]).map(In),!0).filter(Boolean);return t.forEach(function(e){return e.classList.add(`allow-interactivity-${i}`)}),function(){document.body.classList.remove(`block-interactivity-${i}`),t.forEach(function(e){return e.classList.remove(`allow-interactivity-${i}`)})}}},[e.inert,e.lockRef.current,e.shards]);var s=C.useCallback(function(e,t){if(`touches`in e&&e.touches.length===2||e.type===`wheel`&&e.ctrlKey)return!o.current.allowPinchZoom;var i=Pn(e),a=n.current,s=`deltaX`in e?e.deltaX:a[0]-i[0],c=`deltaY`in e?e.deltaY:a[1]-i[1],l,u=e.target,d=Math.abs(s)>Math.abs(c)?`h`:`v`;if(`touches`in e&&d===`h`&&u.type===`range`)return!1;var f=window.getSelection(),p=f&&f.anchorNode;if(p&&(p===u||p.contains(u)))return!1;var m=Dn(d,u);if(!m)return!0;if(m?l=d:(l=d===`v`?`h`:`v`,m=Dn(d,u)),!m)return!1;if(!r.current&&`changedTouches`in e&&(s||c)&&(r.current=l),!l)return!0;var h=r.current||l;return Nn(h,t,e,h===`h`?s:c,!0)},[]),c=C.useCallback(function(e){var n=e;if(!(!Bn.length||Bn[Bn.length-1]!==a)){var r=`deltaY`in n?Fn(n):Pn(n),i=t.current.filter(function(e){return e.name===n.type&&(e.target===n.target||n.target===e.shadowParent)&&Ln(e.delta,r)})[0];if(i&&i.should){n.cancelable&&n.preventDefault();return}if(!i){var c=(o.current.shards||[]).map(In).filter(Boolean).filter(function(e){return e.contains(n.target)});(c.length>0?s(n,c[0]):!o.current.noIsolation)&&n.cancelable&&n.preventDefault()}}},[]),l=C.useCallback(function(e,n,r,i){var a={name:e,delta:n,target:r,should:i,shadowParent:Hn(r)};t.current.push(a),setTimeout(function(){t.current=t.current.filter(function(e){return e!==a})},1)},[]),u=C.useCallback(function(e){n.current=Pn(e),r.current=void 0},[]),d=C.useCallback(function(t){l(t.type,Fn(t),t.target,s(t,e.lockRef.current))},[]),f=C.useCallback(function(t){l(t.type,Pn(t),t.target,s(t,e.lockRef.current))},[]);C.useEffect(function(){return Bn.push(a),e.setCallbacks({onScrollCapture:d,onWheelCapture:d,onTouchMoveCapture:f}),document.addEventListener(`wheel`,c,Sn),document.addEventListener(`touchmove`,c,Sn),document.addEventListener(`touchstart`,u,Sn),function(){Bn=Bn.filter(function(e){return e!==a}),document.removeEventListener(`wheel`,c,Sn),document.removeEventListener(`touchmove`,c,Sn),document.removeEventListener(`touchstart`,u,Sn)}},[]);var p=e.removeScrollBar,m=e.inert;return C.createElement(C.Fragment,null,m?C.createElement(a,{styles:Rn(i)}):null,p?C.createElement(yn,{noRelative:e.noRelative,gapMode:e.gapMode}):null)}function Hn(e){for(var t=null;e!==null;)e instanceof ShadowRoot&&(t=e.host,e=e.host),e=e.parentNode;return t}var Un=Zt(Qt,Vn),Wn=C.forwardRef(function(e,t){return C.createElement(en,Ft({},e,{ref:t,sideCar:Un}))});Wn.classNames=en.classNames;var Gn=function(e){return typeof document>`u`?null:(Array.isArray(e)?e[0]:e).ownerDocument.body},Kn=new WeakMap,qn=new WeakMap,Jn={},Yn=0,Xn=function(e){return e&&(e.host||Xn(e.parentNode))},Zn=function(e,t){return t.map(function(t){if(e.contains(t))return t;var n=Xn(t);return n&&e.contains(n)?n:(console.error(`aria-hidden`,t,`in not contained inside`,e,`. Doing nothing`),null)}).filter(function(e){return!!e})},Qn=function(e,t,n,r){var i=Zn(t,Array.isArray(e)?e:[e]);Jn[n]||(Jn[n]=new WeakMap);var a=Jn[n],o=[],s=new Set,c=new Set(i),l=function(e){!e||s.has(e)||(s.add(e),l(e.parentNode))};i.forEach(l);var u=function(e){!e||c.has(e)||Array.prototype.forEach.call(e.children,function(e){if(s.has(e))u(e);else try{var t=e.getAttribute(r),i=t!==null&&t!==`false`,c=(Kn.get(e)||0)+1,l=(a.get(e)||0)+1;Kn.set(e,c),a.set(e,l),o.push(e),c===1&&i&&qn.set(e,!0),l===1&&e.setAttribute(n,`true`),i||e.setAttribute(r,`true`)}catch(t){console.error(`aria-hidden: cannot operate on `,e,t)}})};return u(t),s.clear(),Yn++,function(){o.forEach(function(e){var t=Kn.get(e)-1,i=a.get(e)-1;Kn.set(e,t),a.set(e,i),t||(qn.has(e)||e.removeAttribute(r),qn.delete(e)),i||e.removeAttribute(n)}),Yn--,Yn||(Kn=new WeakMap,Kn=new WeakMap,qn=new WeakMap,Jn={})}},$n=function(e,t,n){n===void 0&&(n=`data-aria-hidden`);var r=Array.from(Array.isArray(e)?e:[e]),i=t||Gn(e);return i?(r.push.apply(r,Array.from(i.querySelectorAll(`[aria-live], script`))),Qn(r,i,n,`aria-hidden`)):function(){return null}};function er(e){let t=tr(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e,a=C.Children.toArray(r),o=a.find(rr);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}function tr(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(C.isValidElement(n)){let e=ar(n),i=ir(r,n.props);return n.type!==C.Fragment&&(i.ref=t?he(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var nr=Symbol(`radix.slottable`);function rr(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===nr}function ir(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function ar(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}var or=`Dialog`,[sr,cr]=Ae(or),[lr,ur]=sr(or),dr=e=>{let{__scopeDialog:t,children:n,open:r,defaultOpen:i,onOpenChange:a,modal:o=!0}=e,s=C.useRef(null),c=C.useRef(null),[l,u]=Le({prop:r,defaultProp:i??!1,onChange:a,caller:or});return(0,L.jsx)(lr,{scope:t,triggerRef:s,contentRef:c,contentId:Fe(),titleId:Fe(),descriptionId:Fe(),open:l,onOpenChange:u,onOpenToggle:C.useCallback(()=>u(e=>!e),[u]),modal:o,children:n})};dr.displayName=or;var fr=`DialogTrigger`,pr=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=ur(fr,n),a=ge(t,i.triggerRef);return(0,L.jsx)(z.button,{type:`button`,"aria-haspopup":`dialog`,"aria-expanded":i.open,"aria-controls":i.contentId,"data-state":Nr(i.open),...r,ref:a,onClick:R(e.onClick,i.onOpenToggle)})});pr.displayName=fr;var mr=`DialogPortal`,[hr,gr]=sr(mr,{forceMount:void 0}),_r=e=>{let{__scopeDialog:t,forceMount:n,children:r,container:i}=e,a=ur(mr,t);return(0,L.jsx)(hr,{scope:t,forceMount:n,children:C.Children.map(r,e=>(0,L.jsx)(Ot,{present:n||a.open,children:(0,L.jsx)(Et,{asChild:!0,container:i,children:e})}))})};_r.displayName=mr;var vr=`DialogOverlay`,yr=C.forwardRef((e,t)=>{let n=gr(vr,e.__scopeDialog),{forceMount:r=n.forceMount,...i}=e,a=ur(vr,e.__scopeDialog);return a.modal?(0,L.jsx)(Ot,{present:r||a.open,children:(0,L.jsx)(xr,{...i,ref:t})}):null});yr.displayName=vr;var br=er(`DialogOverlay.RemoveScroll`),xr=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=ur(vr,n);return(0,L.jsx)(Wn,{as:br,allowPinchZoom:!0,shards:[i.contentRef],children:(0,L.jsx)(z.div,{"data-state":Nr(i.open),...r,ref:t,style:{pointerEvents:`auto`,...r.style}})})}),Sr=`DialogContent`,Cr=C.forwardRef((e,t)=>{let n=gr(Sr,e.__scopeDialog),{forceMount:r=n.forceMount,...i}=e,a=ur(Sr,e.__scopeDialog);return(0,L.jsx)(Ot,{present:r||a.open,children:a.modal?(0,L.jsx)(wr,{...i,ref:t}):(0,L.jsx)(Tr,{...i,ref:t})})});Cr.displayName=Sr;var wr=C.forwardRef((e,t)=>{let n=ur(Sr,e.__scopeDialog),r=C.useRef(null),i=ge(t,n.contentRef,r);return C.useEffect(()=>{let e=r.current;if(e)return $n(e)},[]),(0,L.jsx)(Er,{...e,ref:i,trapFocus:n.open,disableOutsidePointerEvents:!0,onCloseAutoFocus:R(e.onCloseAutoFocus,e=>{e.preventDefault(),n.triggerRef.current?.focus()}),onPointerDownOutside:R(e.onPointerDownOutside,e=>{let t=e.detail.originalEvent,n=t.button===0&&t.ctrlKey===!0;(t.button===2||n)&&e.preventDefault()}),onFocusOutside:R(e.onFocusOutside,e=>e.preventDefault())})}),Tr=C.forwardRef((e,t)=>{let n=ur(Sr,e.__scopeDialog),r=C.useRef(!1),i=C.useRef(!1);return(0,L.jsx)(Er,{...e,ref:t,trapFocus:!1,disableOutsidePointerEvents:!1,onCloseAutoFocus:t=>{e.onCloseAutoFocus?.(t),t.defaultPrevented||(r.current||n.triggerRef.current?.focus(),t.preventDefault()),r.current=!1,i.current=!1},onInteractOutside:t=>{e.onInteractOutside?.(t),t.defaultPrevented||(r.current=!0,t.detail.originalEvent.type===`pointerdown`&&(i.current=!0));let a=t.target;n.triggerRef.current?.contains(a)&&t.preventDefault(),t.detail.originalEvent.type===`focusin`&&i.current&&t.preventDefault()}})}),Er=C.forwardRef((e,t)=>{let{__scopeDialog:n,trapFocus:r,onOpenAutoFocus:i,onCloseAutoFocus:a,...o}=e,s=ur(Sr,n),c=C.useRef(null),l=ge(t,c);return Nt(),(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(pt,{asChild:!0,loop:!0,trapped:r,onMountAutoFocus:i,onUnmountAutoFocus:a,children:(0,L.jsx)(nt,{role:`dialog`,id:s.contentId,"aria-describedby":s.descriptionId,"aria-labelledby":s.titleId,"data-state":Nr(s.open),...o,ref:l,onDismiss:()=>s.onOpenChange(!1)})}),(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(Lr,{titleId:s.titleId}),(0,L.jsx)(zr,{contentRef:c,descriptionId:s.descriptionId})]})]})}),Dr=`DialogTitle`,Or=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=ur(Dr,n);return(0,L.jsx)(z.h2,{id:i.titleId,...r,ref:t})});Or.displayName=Dr;var kr=`DialogDescription`,Ar=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=ur(kr,n);return(0,L.jsx)(z.p,{id:i.descriptionId,...r,ref:t})});Ar.displayName=kr;var jr=`DialogClose`,Mr=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=ur(jr,n);return(0,L.jsx)(z.button,{type:`button`,...r,ref:t,onClick:R(e.onClick,()=>i.onOpenChange(!1))})});Mr.displayName=jr;function Nr(e){return e?`open`:`closed`}var Pr=`DialogTitleWarning`,[Fr,Ir]=ke(Pr,{contentName:Sr,titleName:Dr,docsSlug:`dialog`}),Lr=({titleId:e})=>{let t=Ir(Pr),n=`\`${t.contentName}\` requires a \`${t.titleName}\` for the component to be accessible for screen reader users.
+`},Hn=0,Un=[];function Wn(e){var t=C.useRef([]),n=C.useRef([0,0]),r=C.useRef(),i=C.useState(Hn++)[0],a=C.useState(fn)[0],o=C.useRef(e);C.useEffect(function(){o.current=e},[e]),C.useEffect(function(){if(e.inert){document.body.classList.add(`block-interactivity-${i}`);var t=Bt([e.lockRef.current],(e.shards||[]).map(zn),!0).filter(Boolean);return t.forEach(function(e){return e.classList.add(`allow-interactivity-${i}`)}),function(){document.body.classList.remove(`block-interactivity-${i}`),t.forEach(function(e){return e.classList.remove(`allow-interactivity-${i}`)})}}},[e.inert,e.lockRef.current,e.shards]);var s=C.useCallback(function(e,t){if(`touches`in e&&e.touches.length===2||e.type===`wheel`&&e.ctrlKey)return!o.current.allowPinchZoom;var i=Ln(e),a=n.current,s=`deltaX`in e?e.deltaX:a[0]-i[0],c=`deltaY`in e?e.deltaY:a[1]-i[1],l,u=e.target,d=Math.abs(s)>Math.abs(c)?`h`:`v`;if(`touches`in e&&d===`h`&&u.type===`range`)return!1;var f=window.getSelection(),p=f&&f.anchorNode;if(p&&(p===u||p.contains(u)))return!1;var m=An(d,u);if(!m)return!0;if(m?l=d:(l=d===`v`?`h`:`v`,m=An(d,u)),!m)return!1;if(!r.current&&`changedTouches`in e&&(s||c)&&(r.current=l),!l)return!0;var h=r.current||l;return In(h,t,e,h===`h`?s:c,!0)},[]),c=C.useCallback(function(e){var n=e;if(!(!Un.length||Un[Un.length-1]!==a)){var r=`deltaY`in n?Rn(n):Ln(n),i=t.current.filter(function(e){return e.name===n.type&&(e.target===n.target||n.target===e.shadowParent)&&Bn(e.delta,r)})[0];if(i&&i.should){n.cancelable&&n.preventDefault();return}if(!i){var c=(o.current.shards||[]).map(zn).filter(Boolean).filter(function(e){return e.contains(n.target)});(c.length>0?s(n,c[0]):!o.current.noIsolation)&&n.cancelable&&n.preventDefault()}}},[]),l=C.useCallback(function(e,n,r,i){var a={name:e,delta:n,target:r,should:i,shadowParent:Gn(r)};t.current.push(a),setTimeout(function(){t.current=t.current.filter(function(e){return e!==a})},1)},[]),u=C.useCallback(function(e){n.current=Ln(e),r.current=void 0},[]),d=C.useCallback(function(t){l(t.type,Rn(t),t.target,s(t,e.lockRef.current))},[]),f=C.useCallback(function(t){l(t.type,Ln(t),t.target,s(t,e.lockRef.current))},[]);C.useEffect(function(){return Un.push(a),e.setCallbacks({onScrollCapture:d,onWheelCapture:d,onTouchMoveCapture:f}),document.addEventListener(`wheel`,c,Tn),document.addEventListener(`touchmove`,c,Tn),document.addEventListener(`touchstart`,u,Tn),function(){Un=Un.filter(function(e){return e!==a}),document.removeEventListener(`wheel`,c,Tn),document.removeEventListener(`touchmove`,c,Tn),document.removeEventListener(`touchstart`,u,Tn)}},[]);var p=e.removeScrollBar,m=e.inert;return C.createElement(C.Fragment,null,m?C.createElement(a,{styles:Vn(i)}):null,p?C.createElement(Sn,{noRelative:e.noRelative,gapMode:e.gapMode}):null)}function Gn(e){for(var t=null;e!==null;)e instanceof ShadowRoot&&(t=e.host,e=e.host),e=e.parentNode;return t}var Kn=en(tn,Wn),qn=C.forwardRef(function(e,t){return C.createElement(rn,Rt({},e,{ref:t,sideCar:Kn}))});qn.classNames=rn.classNames;var Jn=function(e){return typeof document>`u`?null:(Array.isArray(e)?e[0]:e).ownerDocument.body},Yn=new WeakMap,Xn=new WeakMap,Zn={},Qn=0,$n=function(e){return e&&(e.host||$n(e.parentNode))},er=function(e,t){return t.map(function(t){if(e.contains(t))return t;var n=$n(t);return n&&e.contains(n)?n:(console.error(`aria-hidden`,t,`in not contained inside`,e,`. Doing nothing`),null)}).filter(function(e){return!!e})},tr=function(e,t,n,r){var i=er(t,Array.isArray(e)?e:[e]);Zn[n]||(Zn[n]=new WeakMap);var a=Zn[n],o=[],s=new Set,c=new Set(i),l=function(e){!e||s.has(e)||(s.add(e),l(e.parentNode))};i.forEach(l);var u=function(e){!e||c.has(e)||Array.prototype.forEach.call(e.children,function(e){if(s.has(e))u(e);else try{var t=e.getAttribute(r),i=t!==null&&t!==`false`,c=(Yn.get(e)||0)+1,l=(a.get(e)||0)+1;Yn.set(e,c),a.set(e,l),o.push(e),c===1&&i&&Xn.set(e,!0),l===1&&e.setAttribute(n,`true`),i||e.setAttribute(r,`true`)}catch(t){console.error(`aria-hidden: cannot operate on `,e,t)}})};return u(t),s.clear(),Qn++,function(){o.forEach(function(e){var t=Yn.get(e)-1,i=a.get(e)-1;Yn.set(e,t),a.set(e,i),t||(Xn.has(e)||e.removeAttribute(r),Xn.delete(e)),i||e.removeAttribute(n)}),Qn--,Qn||(Yn=new WeakMap,Yn=new WeakMap,Xn=new WeakMap,Zn={})}},nr=function(e,t,n){n===void 0&&(n=`data-aria-hidden`);var r=Array.from(Array.isArray(e)?e:[e]),i=t||Jn(e);return i?(r.push.apply(r,Array.from(i.querySelectorAll(`[aria-live], script`))),tr(r,i,n,`aria-hidden`)):function(){return null}};function rr(e){let t=ir(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e,a=C.Children.toArray(r),o=a.find(or);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}function ir(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(C.isValidElement(n)){let e=cr(n),i=sr(r,n.props);return n.type!==C.Fragment&&(i.ref=t?be(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var ar=Symbol(`radix.slottable`);function or(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===ar}function sr(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function cr(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}var lr=`Dialog`,[ur,dr]=Fe(lr),[fr,pr]=ur(lr),mr=e=>{let{__scopeDialog:t,children:n,open:r,defaultOpen:i,onOpenChange:a,modal:o=!0}=e,s=C.useRef(null),c=C.useRef(null),[l,u]=He({prop:r,defaultProp:i??!1,onChange:a,caller:lr});return(0,L.jsx)(fr,{scope:t,triggerRef:s,contentRef:c,contentId:Be(),titleId:Be(),descriptionId:Be(),open:l,onOpenChange:u,onOpenToggle:C.useCallback(()=>u(e=>!e),[u]),modal:o,children:n})};mr.displayName=lr;var hr=`DialogTrigger`,gr=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=pr(hr,n),a=xe(t,i.triggerRef);return(0,L.jsx)(V.button,{type:`button`,"aria-haspopup":`dialog`,"aria-expanded":i.open,"aria-controls":i.contentId,"data-state":Ir(i.open),...r,ref:a,onClick:R(e.onClick,i.onOpenToggle)})});gr.displayName=hr;var _r=`DialogPortal`,[vr,yr]=ur(_r,{forceMount:void 0}),br=e=>{let{__scopeDialog:t,forceMount:n,children:r,container:i}=e,a=pr(_r,t);return(0,L.jsx)(vr,{scope:t,forceMount:n,children:C.Children.map(r,e=>(0,L.jsx)(jt,{present:n||a.open,children:(0,L.jsx)(kt,{asChild:!0,container:i,children:e})}))})};br.displayName=_r;var xr=`DialogOverlay`,Sr=C.forwardRef((e,t)=>{let n=yr(xr,e.__scopeDialog),{forceMount:r=n.forceMount,...i}=e,a=pr(xr,e.__scopeDialog);return a.modal?(0,L.jsx)(jt,{present:r||a.open,children:(0,L.jsx)(wr,{...i,ref:t})}):null});Sr.displayName=xr;var Cr=rr(`DialogOverlay.RemoveScroll`),wr=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=pr(xr,n);return(0,L.jsx)(qn,{as:Cr,allowPinchZoom:!0,shards:[i.contentRef],children:(0,L.jsx)(V.div,{"data-state":Ir(i.open),...r,ref:t,style:{pointerEvents:`auto`,...r.style}})})}),Tr=`DialogContent`,Er=C.forwardRef((e,t)=>{let n=yr(Tr,e.__scopeDialog),{forceMount:r=n.forceMount,...i}=e,a=pr(Tr,e.__scopeDialog);return(0,L.jsx)(jt,{present:r||a.open,children:a.modal?(0,L.jsx)(Dr,{...i,ref:t}):(0,L.jsx)(Or,{...i,ref:t})})});Er.displayName=Tr;var Dr=C.forwardRef((e,t)=>{let n=pr(Tr,e.__scopeDialog),r=C.useRef(null),i=xe(t,n.contentRef,r);return C.useEffect(()=>{let e=r.current;if(e)return nr(e)},[]),(0,L.jsx)(kr,{...e,ref:i,trapFocus:n.open,disableOutsidePointerEvents:!0,onCloseAutoFocus:R(e.onCloseAutoFocus,e=>{e.preventDefault(),n.triggerRef.current?.focus()}),onPointerDownOutside:R(e.onPointerDownOutside,e=>{let t=e.detail.originalEvent,n=t.button===0&&t.ctrlKey===!0;(t.button===2||n)&&e.preventDefault()}),onFocusOutside:R(e.onFocusOutside,e=>e.preventDefault())})}),Or=C.forwardRef((e,t)=>{let n=pr(Tr,e.__scopeDialog),r=C.useRef(!1),i=C.useRef(!1);return(0,L.jsx)(kr,{...e,ref:t,trapFocus:!1,disableOutsidePointerEvents:!1,onCloseAutoFocus:t=>{e.onCloseAutoFocus?.(t),t.defaultPrevented||(r.current||n.triggerRef.current?.focus(),t.preventDefault()),r.current=!1,i.current=!1},onInteractOutside:t=>{e.onInteractOutside?.(t),t.defaultPrevented||(r.current=!0,t.detail.originalEvent.type===`pointerdown`&&(i.current=!0));let a=t.target;n.triggerRef.current?.contains(a)&&t.preventDefault(),t.detail.originalEvent.type===`focusin`&&i.current&&t.preventDefault()}})}),kr=C.forwardRef((e,t)=>{let{__scopeDialog:n,trapFocus:r,onOpenAutoFocus:i,onCloseAutoFocus:a,...o}=e,s=pr(Tr,n),c=C.useRef(null),l=xe(t,c);return It(),(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(gt,{asChild:!0,loop:!0,trapped:r,onMountAutoFocus:i,onUnmountAutoFocus:a,children:(0,L.jsx)(at,{role:`dialog`,id:s.contentId,"aria-describedby":s.descriptionId,"aria-labelledby":s.titleId,"data-state":Ir(s.open),...o,ref:l,onDismiss:()=>s.onOpenChange(!1)})}),(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(Br,{titleId:s.titleId}),(0,L.jsx)(Hr,{contentRef:c,descriptionId:s.descriptionId})]})]})}),Ar=`DialogTitle`,jr=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=pr(Ar,n);return(0,L.jsx)(V.h2,{id:i.titleId,...r,ref:t})});jr.displayName=Ar;var Mr=`DialogDescription`,Nr=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=pr(Mr,n);return(0,L.jsx)(V.p,{id:i.descriptionId,...r,ref:t})});Nr.displayName=Mr;var Pr=`DialogClose`,Fr=C.forwardRef((e,t)=>{let{__scopeDialog:n,...r}=e,i=pr(Pr,n);return(0,L.jsx)(V.button,{type:`button`,...r,ref:t,onClick:R(e.onClick,()=>i.onOpenChange(!1))})});Fr.displayName=Pr;function Ir(e){return e?`open`:`closed`}var Lr=`DialogTitleWarning`,[Rr,zr]=Pe(Lr,{contentName:Tr,titleName:Ar,docsSlug:`dialog`}),Br=({titleId:e})=>{let t=zr(Lr),n=`\`${t.contentName}\` requires a \`${t.titleName}\` for the component to be accessible for screen reader users.
 
 If you want to hide the \`${t.titleName}\`, you can wrap it with our VisuallyHidden component.
 
-For more information, see https://radix-ui.com/primitives/docs/components/${t.docsSlug}`;return C.useEffect(()=>{e&&(document.getElementById(e)||console.error(n))},[n,e]),null},Rr=`DialogDescriptionWarning`,zr=({contentRef:e,descriptionId:t})=>{let n=`Warning: Missing \`Description\` or \`aria-describedby={undefined}\` for {${Ir(Rr).contentName}}.`;return C.useEffect(()=>{let r=e.current?.getAttribute(`aria-describedby`);t&&r&&(document.getElementById(t)||console.warn(n))},[n,e,t]),null},Br=dr,Vr=_r,Hr=yr,Ur=Cr,Wr=Or,Gr=Ar,Kr=Mr;function qr(e,[t,n]){return Math.min(n,Math.max(t,e))}function Jr(e){let t=Yr(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e,a=C.Children.toArray(r),o=a.find(Zr);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}function Yr(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(C.isValidElement(n)){let e=$r(n),i=Qr(r,n.props);return n.type!==C.Fragment&&(i.ref=t?he(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var Xr=Symbol(`radix.slottable`);function Zr(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===Xr}function Qr(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function $r(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}function ei(e){let t=e+`CollectionProvider`,[n,r]=Ae(t),[i,a]=n(t,{collectionRef:{current:null},itemMap:new Map}),o=e=>{let{scope:t,children:n}=e,r=C.useRef(null),a=C.useRef(new Map).current;return(0,L.jsx)(i,{scope:t,itemMap:a,collectionRef:r,children:n})};o.displayName=t;let s=e+`CollectionSlot`,c=Jr(s),l=C.forwardRef((e,t)=>{let{scope:n,children:r}=e;return(0,L.jsx)(c,{ref:ge(t,a(s,n).collectionRef),children:r})});l.displayName=s;let u=e+`CollectionItemSlot`,d=`data-radix-collection-item`,f=Jr(u),p=C.forwardRef((e,t)=>{let{scope:n,children:r,...i}=e,o=C.useRef(null),s=ge(t,o),c=a(u,n);return C.useEffect(()=>(c.itemMap.set(o,{ref:o,...i}),()=>void c.itemMap.delete(o))),(0,L.jsx)(f,{[d]:``,ref:s,children:r})});p.displayName=u;function m(t){let n=a(e+`CollectionConsumer`,t);return C.useCallback(()=>{let e=n.collectionRef.current;if(!e)return[];let t=Array.from(e.querySelectorAll(`[${d}]`));return Array.from(n.itemMap.values()).sort((e,n)=>t.indexOf(e.ref.current)-t.indexOf(n.ref.current))},[n.collectionRef,n.itemMap])}return[{Provider:o,Slot:l,ItemSlot:p},m,r]}var ti=C.createContext(void 0);function ni(e){let t=C.useContext(ti);return e||t||`ltr`}var ri=[`top`,`right`,`bottom`,`left`],ii=Math.min,ai=Math.max,oi=Math.round,si=Math.floor,ci=e=>({x:e,y:e}),li={left:`right`,right:`left`,bottom:`top`,top:`bottom`};function ui(e,t,n){return ai(e,ii(t,n))}function di(e,t){return typeof e==`function`?e(t):e}function fi(e){return e.split(`-`)[0]}function pi(e){return e.split(`-`)[1]}function mi(e){return e===`x`?`y`:`x`}function hi(e){return e===`y`?`height`:`width`}function gi(e){let t=e[0];return t===`t`||t===`b`?`y`:`x`}function _i(e){return mi(gi(e))}function vi(e,t,n){n===void 0&&(n=!1);let r=pi(e),i=_i(e),a=hi(i),o=i===`x`?r===(n?`end`:`start`)?`right`:`left`:r===`start`?`bottom`:`top`;return t.reference[a]>t.floating[a]&&(o=Di(o)),[o,Di(o)]}function yi(e){let t=Di(e);return[bi(e),t,bi(t)]}function bi(e){return e.includes(`start`)?e.replace(`start`,`end`):e.replace(`end`,`start`)}var xi=[`left`,`right`],Si=[`right`,`left`],Ci=[`top`,`bottom`],wi=[`bottom`,`top`];function Ti(e,t,n){switch(e){case`top`:case`bottom`:return n?t?Si:xi:t?xi:Si;case`left`:case`right`:return t?Ci:wi;default:return[]}}function Ei(e,t,n,r){let i=pi(e),a=Ti(fi(e),n===`start`,r);return i&&(a=a.map(e=>e+`-`+i),t&&(a=a.concat(a.map(bi)))),a}function Di(e){let t=fi(e);return li[t]+e.slice(t.length)}function Oi(e){return{top:0,right:0,bottom:0,left:0,...e}}function ki(e){return typeof e==`number`?{top:e,right:e,bottom:e,left:e}:Oi(e)}function Ai(e){let{x:t,y:n,width:r,height:i}=e;return{width:r,height:i,top:n,left:t,right:t+r,bottom:n+i,x:t,y:n}}function ji(e,t,n){let{reference:r,floating:i}=e,a=gi(t),o=_i(t),s=hi(o),c=fi(t),l=a===`y`,u=r.x+r.width/2-i.width/2,d=r.y+r.height/2-i.height/2,f=r[s]/2-i[s]/2,p;switch(c){case`top`:p={x:u,y:r.y-i.height};break;case`bottom`:p={x:u,y:r.y+r.height};break;case`right`:p={x:r.x+r.width,y:d};break;case`left`:p={x:r.x-i.width,y:d};break;default:p={x:r.x,y:r.y}}switch(pi(t)){case`start`:p[o]-=f*(n&&l?-1:1);break;case`end`:p[o]+=f*(n&&l?-1:1);break}return p}async function Mi(e,t){t===void 0&&(t={});let{x:n,y:r,platform:i,rects:a,elements:o,strategy:s}=e,{boundary:c=`clippingAncestors`,rootBoundary:l=`viewport`,elementContext:u=`floating`,altBoundary:d=!1,padding:f=0}=di(t,e),p=ki(f),m=o[d?u===`floating`?`reference`:`floating`:u],h=Ai(await i.getClippingRect({element:await(i.isElement==null?void 0:i.isElement(m))??!0?m:m.contextElement||await(i.getDocumentElement==null?void 0:i.getDocumentElement(o.floating)),boundary:c,rootBoundary:l,strategy:s})),g=u===`floating`?{x:n,y:r,width:a.floating.width,height:a.floating.height}:a.reference,_=await(i.getOffsetParent==null?void 0:i.getOffsetParent(o.floating)),v=await(i.isElement==null?void 0:i.isElement(_))&&await(i.getScale==null?void 0:i.getScale(_))||{x:1,y:1},y=Ai(i.convertOffsetParentRelativeRectToViewportRelativeRect?await i.convertOffsetParentRelativeRectToViewportRelativeRect({elements:o,rect:g,offsetParent:_,strategy:s}):g);return{top:(h.top-y.top+p.top)/v.y,bottom:(y.bottom-h.bottom+p.bottom)/v.y,left:(h.left-y.left+p.left)/v.x,right:(y.right-h.right+p.right)/v.x}}var Ni=50,B=async(e,t,n)=>{let{placement:r=`bottom`,strategy:i=`absolute`,middleware:a=[],platform:o}=n,s=o.detectOverflow?o:{...o,detectOverflow:Mi},c=await(o.isRTL==null?void 0:o.isRTL(t)),l=await o.getElementRects({reference:e,floating:t,strategy:i}),{x:u,y:d}=ji(l,r,c),f=r,p=0,m={};for(let n=0;n<a.length;n++){let h=a[n];if(!h)continue;let{name:g,fn:_}=h,{x:v,y,data:b,reset:x}=await _({x:u,y:d,initialPlacement:r,placement:f,strategy:i,middlewareData:m,rects:l,platform:s,elements:{reference:e,floating:t}});u=v??u,d=y??d,m[g]={...m[g],...b},x&&p<Ni&&(p++,typeof x==`object`&&(x.placement&&(f=x.placement),x.rects&&(l=x.rects===!0?await o.getElementRects({reference:e,floating:t,strategy:i}):x.rects),{x:u,y:d}=ji(l,f,c)),n=-1)}return{x:u,y:d,placement:f,strategy:i,middlewareData:m}},Pi=e=>({name:`arrow`,options:e,async fn(t){let{x:n,y:r,placement:i,rects:a,platform:o,elements:s,middlewareData:c}=t,{element:l,padding:u=0}=di(e,t)||{};if(l==null)return{};let d=ki(u),f={x:n,y:r},p=_i(i),m=hi(p),h=await o.getDimensions(l),g=p===`y`,_=g?`top`:`left`,v=g?`bottom`:`right`,y=g?`clientHeight`:`clientWidth`,b=a.reference[m]+a.reference[p]-f[p]-a.floating[m],x=f[p]-a.reference[p],S=await(o.getOffsetParent==null?void 0:o.getOffsetParent(l)),C=S?S[y]:0;(!C||!await(o.isElement==null?void 0:o.isElement(S)))&&(C=s.floating[y]||a.floating[m]);let w=b/2-x/2,T=C/2-h[m]/2-1,E=ii(d[_],T),D=ii(d[v],T),O=E,ee=C-h[m]-D,k=C/2-h[m]/2+w,A=ui(O,k,ee),j=!c.arrow&&pi(i)!=null&&k!==A&&a.reference[m]/2-(k<O?E:D)-h[m]/2<0,M=j?k<O?k-O:k-ee:0;return{[p]:f[p]+M,data:{[p]:A,centerOffset:k-A-M,...j&&{alignmentOffset:M}},reset:j}}}),Fi=function(e){return e===void 0&&(e={}),{name:`flip`,options:e,async fn(t){var n;let{placement:r,middlewareData:i,rects:a,initialPlacement:o,platform:s,elements:c}=t,{mainAxis:l=!0,crossAxis:u=!0,fallbackPlacements:d,fallbackStrategy:f=`bestFit`,fallbackAxisSideDirection:p=`none`,flipAlignment:m=!0,...h}=di(e,t);if((n=i.arrow)!=null&&n.alignmentOffset)return{};let g=fi(r),_=gi(o),v=fi(o)===o,y=await(s.isRTL==null?void 0:s.isRTL(c.floating)),b=d||(v||!m?[Di(o)]:yi(o)),x=p!==`none`;!d&&x&&b.push(...Ei(o,m,p,y));let S=[o,...b],C=await s.detectOverflow(t,h),w=[],T=i.flip?.overflows||[];if(l&&w.push(C[g]),u){let e=vi(r,a,y);w.push(C[e[0]],C[e[1]])}if(T=[...T,{placement:r,overflows:w}],!w.every(e=>e<=0)){let e=(i.flip?.index||0)+1,t=S[e];if(t&&(!(u===`alignment`&&_!==gi(t))||T.every(e=>gi(e.placement)===_?e.overflows[0]>0:!0)))return{data:{index:e,overflows:T},reset:{placement:t}};let n=T.filter(e=>e.overflows[0]<=0).sort((e,t)=>e.overflows[1]-t.overflows[1])[0]?.placement;if(!n)switch(f){case`bestFit`:{let e=T.filter(e=>{if(x){let t=gi(e.placement);return t===_||t===`y`}return!0}).map(e=>[e.placement,e.overflows.filter(e=>e>0).reduce((e,t)=>e+t,0)]).sort((e,t)=>e[1]-t[1])[0]?.[0];e&&(n=e);break}case`initialPlacement`:n=o;break}if(r!==n)return{reset:{placement:n}}}return{}}}};function Ii(e,t){return{top:e.top-t.height,right:e.right-t.width,bottom:e.bottom-t.height,left:e.left-t.width}}function Li(e){return ri.some(t=>e[t]>=0)}var Ri=function(e){return e===void 0&&(e={}),{name:`hide`,options:e,async fn(t){let{rects:n,platform:r}=t,{strategy:i=`referenceHidden`,...a}=di(e,t);switch(i){case`referenceHidden`:{let e=Ii(await r.detectOverflow(t,{...a,elementContext:`reference`}),n.reference);return{data:{referenceHiddenOffsets:e,referenceHidden:Li(e)}}}case`escaped`:{let e=Ii(await r.detectOverflow(t,{...a,altBoundary:!0}),n.floating);return{data:{escapedOffsets:e,escaped:Li(e)}}}default:return{}}}}},zi=new Set([`left`,`top`]);async function Bi(e,t){let{placement:n,platform:r,elements:i}=e,a=await(r.isRTL==null?void 0:r.isRTL(i.floating)),o=fi(n),s=pi(n),c=gi(n)===`y`,l=zi.has(o)?-1:1,u=a&&c?-1:1,d=di(t,e),{mainAxis:f,crossAxis:p,alignmentAxis:m}=typeof d==`number`?{mainAxis:d,crossAxis:0,alignmentAxis:null}:{mainAxis:d.mainAxis||0,crossAxis:d.crossAxis||0,alignmentAxis:d.alignmentAxis};return s&&typeof m==`number`&&(p=s===`end`?m*-1:m),c?{x:p*u,y:f*l}:{x:f*l,y:p*u}}var Vi=function(e){return e===void 0&&(e=0),{name:`offset`,options:e,async fn(t){var n;let{x:r,y:i,placement:a,middlewareData:o}=t,s=await Bi(t,e);return a===o.offset?.placement&&(n=o.arrow)!=null&&n.alignmentOffset?{}:{x:r+s.x,y:i+s.y,data:{...s,placement:a}}}}},Hi=function(e){return e===void 0&&(e={}),{name:`shift`,options:e,async fn(t){let{x:n,y:r,placement:i,platform:a}=t,{mainAxis:o=!0,crossAxis:s=!1,limiter:c={fn:e=>{let{x:t,y:n}=e;return{x:t,y:n}}},...l}=di(e,t),u={x:n,y:r},d=await a.detectOverflow(t,l),f=gi(fi(i)),p=mi(f),m=u[p],h=u[f];if(o){let e=p===`y`?`top`:`left`,t=p===`y`?`bottom`:`right`,n=m+d[e],r=m-d[t];m=ui(n,m,r)}if(s){let e=f===`y`?`top`:`left`,t=f===`y`?`bottom`:`right`,n=h+d[e],r=h-d[t];h=ui(n,h,r)}let g=c.fn({...t,[p]:m,[f]:h});return{...g,data:{x:g.x-n,y:g.y-r,enabled:{[p]:o,[f]:s}}}}}},Ui=function(e){return e===void 0&&(e={}),{options:e,fn(t){let{x:n,y:r,placement:i,rects:a,middlewareData:o}=t,{offset:s=0,mainAxis:c=!0,crossAxis:l=!0}=di(e,t),u={x:n,y:r},d=gi(i),f=mi(d),p=u[f],m=u[d],h=di(s,t),g=typeof h==`number`?{mainAxis:h,crossAxis:0}:{mainAxis:0,crossAxis:0,...h};if(c){let e=f===`y`?`height`:`width`,t=a.reference[f]-a.floating[e]+g.mainAxis,n=a.reference[f]+a.reference[e]-g.mainAxis;p<t?p=t:p>n&&(p=n)}if(l){let e=f===`y`?`width`:`height`,t=zi.has(fi(i)),n=a.reference[d]-a.floating[e]+(t&&o.offset?.[d]||0)+(t?0:g.crossAxis),r=a.reference[d]+a.reference[e]+(t?0:o.offset?.[d]||0)-(t?g.crossAxis:0);m<n?m=n:m>r&&(m=r)}return{[f]:p,[d]:m}}}},Wi=function(e){return e===void 0&&(e={}),{name:`size`,options:e,async fn(t){var n,r;let{placement:i,rects:a,platform:o,elements:s}=t,{apply:c=()=>{},...l}=di(e,t),u=await o.detectOverflow(t,l),d=fi(i),f=pi(i),p=gi(i)===`y`,{width:m,height:h}=a.floating,g,_;d===`top`||d===`bottom`?(g=d,_=f===(await(o.isRTL==null?void 0:o.isRTL(s.floating))?`start`:`end`)?`left`:`right`):(_=d,g=f===`end`?`top`:`bottom`);let v=h-u.top-u.bottom,y=m-u.left-u.right,b=ii(h-u[g],v),x=ii(m-u[_],y),S=!t.middlewareData.shift,C=b,w=x;if((n=t.middlewareData.shift)!=null&&n.enabled.x&&(w=y),(r=t.middlewareData.shift)!=null&&r.enabled.y&&(C=v),S&&!f){let e=ai(u.left,0),t=ai(u.right,0),n=ai(u.top,0),r=ai(u.bottom,0);p?w=m-2*(e!==0||t!==0?e+t:ai(u.left,u.right)):C=h-2*(n!==0||r!==0?n+r:ai(u.top,u.bottom))}await c({...t,availableWidth:w,availableHeight:C});let T=await o.getDimensions(s.floating);return m!==T.width||h!==T.height?{reset:{rects:!0}}:{}}}};function Gi(){return typeof window<`u`}function Ki(e){return Yi(e)?(e.nodeName||``).toLowerCase():`#document`}function qi(e){var t;return(e==null||(t=e.ownerDocument)==null?void 0:t.defaultView)||window}function Ji(e){return((Yi(e)?e.ownerDocument:e.document)||window.document)?.documentElement}function Yi(e){return Gi()?e instanceof Node||e instanceof qi(e).Node:!1}function Xi(e){return Gi()?e instanceof Element||e instanceof qi(e).Element:!1}function Zi(e){return Gi()?e instanceof HTMLElement||e instanceof qi(e).HTMLElement:!1}function Qi(e){return!Gi()||typeof ShadowRoot>`u`?!1:e instanceof ShadowRoot||e instanceof qi(e).ShadowRoot}function $i(e){let{overflow:t,overflowX:n,overflowY:r,display:i}=ua(e);return/auto|scroll|overlay|hidden|clip/.test(t+r+n)&&i!==`inline`&&i!==`contents`}function ea(e){return/^(table|td|th)$/.test(Ki(e))}function ta(e){try{if(e.matches(`:popover-open`))return!0}catch{}try{return e.matches(`:modal`)}catch{return!1}}var na=/transform|translate|scale|rotate|perspective|filter/,ra=/paint|layout|strict|content/,ia=e=>!!e&&e!==`none`,aa;function oa(e){let t=Xi(e)?ua(e):e;return ia(t.transform)||ia(t.translate)||ia(t.scale)||ia(t.rotate)||ia(t.perspective)||!ca()&&(ia(t.backdropFilter)||ia(t.filter))||na.test(t.willChange||``)||ra.test(t.contain||``)}function sa(e){let t=fa(e);for(;Zi(t)&&!la(t);){if(oa(t))return t;if(ta(t))return null;t=fa(t)}return null}function ca(){return aa??=typeof CSS<`u`&&CSS.supports&&CSS.supports(`-webkit-backdrop-filter`,`none`),aa}function la(e){return/^(html|body|#document)$/.test(Ki(e))}function ua(e){return qi(e).getComputedStyle(e)}function da(e){return Xi(e)?{scrollLeft:e.scrollLeft,scrollTop:e.scrollTop}:{scrollLeft:e.scrollX,scrollTop:e.scrollY}}function fa(e){if(Ki(e)===`html`)return e;let t=e.assignedSlot||e.parentNode||Qi(e)&&e.host||Ji(e);return Qi(t)?t.host:t}function pa(e){let t=fa(e);return la(t)?e.ownerDocument?e.ownerDocument.body:e.body:Zi(t)&&$i(t)?t:pa(t)}function ma(e,t,n){t===void 0&&(t=[]),n===void 0&&(n=!0);let r=pa(e),i=r===e.ownerDocument?.body,a=qi(r);if(i){let e=ha(a);return t.concat(a,a.visualViewport||[],$i(r)?r:[],e&&n?ma(e):[])}else return t.concat(r,ma(r,[],n))}function ha(e){return e.parent&&Object.getPrototypeOf(e.parent)?e.frameElement:null}function ga(e){let t=ua(e),n=parseFloat(t.width)||0,r=parseFloat(t.height)||0,i=Zi(e),a=i?e.offsetWidth:n,o=i?e.offsetHeight:r,s=oi(n)!==a||oi(r)!==o;return s&&(n=a,r=o),{width:n,height:r,$:s}}function _a(e){return Xi(e)?e:e.contextElement}function va(e){let t=_a(e);if(!Zi(t))return ci(1);let n=t.getBoundingClientRect(),{width:r,height:i,$:a}=ga(t),o=(a?oi(n.width):n.width)/r,s=(a?oi(n.height):n.height)/i;return(!o||!Number.isFinite(o))&&(o=1),(!s||!Number.isFinite(s))&&(s=1),{x:o,y:s}}var ya=ci(0);function ba(e){let t=qi(e);return!ca()||!t.visualViewport?ya:{x:t.visualViewport.offsetLeft,y:t.visualViewport.offsetTop}}function xa(e,t,n){return t===void 0&&(t=!1),!n||t&&n!==qi(e)?!1:t}function Sa(e,t,n,r){t===void 0&&(t=!1),n===void 0&&(n=!1);let i=e.getBoundingClientRect(),a=_a(e),o=ci(1);t&&(r?Xi(r)&&(o=va(r)):o=va(e));let s=xa(a,n,r)?ba(a):ci(0),c=(i.left+s.x)/o.x,l=(i.top+s.y)/o.y,u=i.width/o.x,d=i.height/o.y;if(a){let e=qi(a),t=r&&Xi(r)?qi(r):r,n=e,i=ha(n);for(;i&&r&&t!==n;){let e=va(i),t=i.getBoundingClientRect(),r=ua(i),a=t.left+(i.clientLeft+parseFloat(r.paddingLeft))*e.x,o=t.top+(i.clientTop+parseFloat(r.paddingTop))*e.y;c*=e.x,l*=e.y,u*=e.x,d*=e.y,c+=a,l+=o,n=qi(i),i=ha(n)}}return Ai({width:u,height:d,x:c,y:l})}function Ca(e,t){let n=da(e).scrollLeft;return t?t.left+n:Sa(Ji(e)).left+n}function wa(e,t){let n=e.getBoundingClientRect();return{x:n.left+t.scrollLeft-Ca(e,n),y:n.top+t.scrollTop}}function Ta(e){let{elements:t,rect:n,offsetParent:r,strategy:i}=e,a=i===`fixed`,o=Ji(r),s=t?ta(t.floating):!1;if(r===o||s&&a)return n;let c={scrollLeft:0,scrollTop:0},l=ci(1),u=ci(0),d=Zi(r);if((d||!d&&!a)&&((Ki(r)!==`body`||$i(o))&&(c=da(r)),d)){let e=Sa(r);l=va(r),u.x=e.x+r.clientLeft,u.y=e.y+r.clientTop}let f=o&&!d&&!a?wa(o,c):ci(0);return{width:n.width*l.x,height:n.height*l.y,x:n.x*l.x-c.scrollLeft*l.x+u.x+f.x,y:n.y*l.y-c.scrollTop*l.y+u.y+f.y}}function Ea(e){return Array.from(e.getClientRects())}function Da(e){let t=Ji(e),n=da(e),r=e.ownerDocument.body,i=ai(t.scrollWidth,t.clientWidth,r.scrollWidth,r.clientWidth),a=ai(t.scrollHeight,t.clientHeight,r.scrollHeight,r.clientHeight),o=-n.scrollLeft+Ca(e),s=-n.scrollTop;return ua(r).direction===`rtl`&&(o+=ai(t.clientWidth,r.clientWidth)-i),{width:i,height:a,x:o,y:s}}var Oa=25;function ka(e,t){let n=qi(e),r=Ji(e),i=n.visualViewport,a=r.clientWidth,o=r.clientHeight,s=0,c=0;if(i){a=i.width,o=i.height;let e=ca();(!e||e&&t===`fixed`)&&(s=i.offsetLeft,c=i.offsetTop)}let l=Ca(r);if(l<=0){let e=r.ownerDocument,t=e.body,n=getComputedStyle(t),i=e.compatMode===`CSS1Compat`&&parseFloat(n.marginLeft)+parseFloat(n.marginRight)||0,o=Math.abs(r.clientWidth-t.clientWidth-i);o<=Oa&&(a-=o)}else l<=Oa&&(a+=l);return{width:a,height:o,x:s,y:c}}function Aa(e,t){let n=Sa(e,!0,t===`fixed`),r=n.top+e.clientTop,i=n.left+e.clientLeft,a=Zi(e)?va(e):ci(1);return{width:e.clientWidth*a.x,height:e.clientHeight*a.y,x:i*a.x,y:r*a.y}}function ja(e,t,n){let r;if(t===`viewport`)r=ka(e,n);else if(t===`document`)r=Da(Ji(e));else if(Xi(t))r=Aa(t,n);else{let n=ba(e);r={x:t.x-n.x,y:t.y-n.y,width:t.width,height:t.height}}return Ai(r)}function Ma(e,t){let n=fa(e);return n===t||!Xi(n)||la(n)?!1:ua(n).position===`fixed`||Ma(n,t)}function Na(e,t){let n=t.get(e);if(n)return n;let r=ma(e,[],!1).filter(e=>Xi(e)&&Ki(e)!==`body`),i=null,a=ua(e).position===`fixed`,o=a?fa(e):e;for(;Xi(o)&&!la(o);){let t=ua(o),n=oa(o);!n&&t.position===`fixed`&&(i=null),(a?!n&&!i:!n&&t.position===`static`&&i&&(i.position===`absolute`||i.position===`fixed`)||$i(o)&&!n&&Ma(e,o))?r=r.filter(e=>e!==o):i=t,o=fa(o)}return t.set(e,r),r}function Pa(e){let{element:t,boundary:n,rootBoundary:r,strategy:i}=e,a=[...n===`clippingAncestors`?ta(t)?[]:Na(t,this._c):[].concat(n),r],o=ja(t,a[0],i),s=o.top,c=o.right,l=o.bottom,u=o.left;for(let e=1;e<a.length;e++){let n=ja(t,a[e],i);s=ai(n.top,s),c=ii(n.right,c),l=ii(n.bottom,l),u=ai(n.left,u)}return{width:c-u,height:l-s,x:u,y:s}}function Fa(e){let{width:t,height:n}=ga(e);return{width:t,height:n}}function Ia(e,t,n){let r=Zi(t),i=Ji(t),a=n===`fixed`,o=Sa(e,!0,a,t),s={scrollLeft:0,scrollTop:0},c=ci(0);function l(){c.x=Ca(i)}if(r||!r&&!a)if((Ki(t)!==`body`||$i(i))&&(s=da(t)),r){let e=Sa(t,!0,a,t);c.x=e.x+t.clientLeft,c.y=e.y+t.clientTop}else i&&l();a&&!r&&i&&l();let u=i&&!r&&!a?wa(i,s):ci(0);return{x:o.left+s.scrollLeft-c.x-u.x,y:o.top+s.scrollTop-c.y-u.y,width:o.width,height:o.height}}function La(e){return ua(e).position===`static`}function Ra(e,t){if(!Zi(e)||ua(e).position===`fixed`)return null;if(t)return t(e);let n=e.offsetParent;return Ji(e)===n&&(n=n.ownerDocument.body),n}function za(e,t){let n=qi(e);if(ta(e))return n;if(!Zi(e)){let t=fa(e);for(;t&&!la(t);){if(Xi(t)&&!La(t))return t;t=fa(t)}return n}let r=Ra(e,t);for(;r&&ea(r)&&La(r);)r=Ra(r,t);return r&&la(r)&&La(r)&&!oa(r)?n:r||sa(e)||n}var Ba=async function(e){let t=this.getOffsetParent||za,n=this.getDimensions,r=await n(e.floating);return{reference:Ia(e.reference,await t(e.floating),e.strategy),floating:{x:0,y:0,width:r.width,height:r.height}}};function Va(e){return ua(e).direction===`rtl`}var Ha={convertOffsetParentRelativeRectToViewportRelativeRect:Ta,getDocumentElement:Ji,getClippingRect:Pa,getOffsetParent:za,getElementRects:Ba,getClientRects:Ea,getDimensions:Fa,getScale:va,isElement:Xi,isRTL:Va};function Ua(e,t){return e.x===t.x&&e.y===t.y&&e.width===t.width&&e.height===t.height}function Wa(e,t){let n=null,r,i=Ji(e);function a(){var e;clearTimeout(r),(e=n)==null||e.disconnect(),n=null}function o(s,c){s===void 0&&(s=!1),c===void 0&&(c=1),a();let l=e.getBoundingClientRect(),{left:u,top:d,width:f,height:p}=l;if(s||t(),!f||!p)return;let m=si(d),h=si(i.clientWidth-(u+f)),g=si(i.clientHeight-(d+p)),_=si(u),v={rootMargin:-m+`px `+-h+`px `+-g+`px `+-_+`px`,threshold:ai(0,ii(1,c))||1},y=!0;function b(t){let n=t[0].intersectionRatio;if(n!==c){if(!y)return o();n?o(!1,n):r=setTimeout(()=>{o(!1,1e-7)},1e3)}n===1&&!Ua(l,e.getBoundingClientRect())&&o(),y=!1}try{n=new IntersectionObserver(b,{...v,root:i.ownerDocument})}catch{n=new IntersectionObserver(b,v)}n.observe(e)}return o(!0),a}function Ga(e,t,n,r){r===void 0&&(r={});let{ancestorScroll:i=!0,ancestorResize:a=!0,elementResize:o=typeof ResizeObserver==`function`,layoutShift:s=typeof IntersectionObserver==`function`,animationFrame:c=!1}=r,l=_a(e),u=i||a?[...l?ma(l):[],...t?ma(t):[]]:[];u.forEach(e=>{i&&e.addEventListener(`scroll`,n,{passive:!0}),a&&e.addEventListener(`resize`,n)});let d=l&&s?Wa(l,n):null,f=-1,p=null;o&&(p=new ResizeObserver(e=>{let[r]=e;r&&r.target===l&&p&&t&&(p.unobserve(t),cancelAnimationFrame(f),f=requestAnimationFrame(()=>{var e;(e=p)==null||e.observe(t)})),n()}),l&&!c&&p.observe(l),t&&p.observe(t));let m,h=c?Sa(e):null;c&&g();function g(){let t=Sa(e);h&&!Ua(h,t)&&n(),h=t,m=requestAnimationFrame(g)}return n(),()=>{var e;u.forEach(e=>{i&&e.removeEventListener(`scroll`,n),a&&e.removeEventListener(`resize`,n)}),d?.(),(e=p)==null||e.disconnect(),p=null,c&&cancelAnimationFrame(m)}}var Ka=Vi,qa=Hi,Ja=Fi,Ya=Wi,Xa=Ri,Za=Pi,Qa=Ui,$a=(e,t,n)=>{let r=new Map,i={platform:Ha,...n},a={...i.platform,_c:r};return B(e,t,{...i,platform:a})},eo=typeof document<`u`?C.useLayoutEffect:function(){};function to(e,t){if(e===t)return!0;if(typeof e!=typeof t)return!1;if(typeof e==`function`&&e.toString()===t.toString())return!0;let n,r,i;if(e&&t&&typeof e==`object`){if(Array.isArray(e)){if(n=e.length,n!==t.length)return!1;for(r=n;r--!==0;)if(!to(e[r],t[r]))return!1;return!0}if(i=Object.keys(e),n=i.length,n!==Object.keys(t).length)return!1;for(r=n;r--!==0;)if(!{}.hasOwnProperty.call(t,i[r]))return!1;for(r=n;r--!==0;){let n=i[r];if(!(n===`_owner`&&e.$$typeof)&&!to(e[n],t[n]))return!1}return!0}return e!==e&&t!==t}function no(e){return typeof window>`u`?1:(e.ownerDocument.defaultView||window).devicePixelRatio||1}function ro(e,t){let n=no(e);return Math.round(t*n)/n}function io(e){let t=C.useRef(e);return eo(()=>{t.current=e}),t}function ao(e){e===void 0&&(e={});let{placement:t=`bottom`,strategy:n=`absolute`,middleware:r=[],platform:i,elements:{reference:a,floating:o}={},transform:s=!0,whileElementsMounted:c,open:l}=e,[u,d]=C.useState({x:0,y:0,strategy:n,placement:t,middlewareData:{},isPositioned:!1}),[f,p]=C.useState(r);to(f,r)||p(r);let[m,h]=C.useState(null),[g,_]=C.useState(null),v=C.useCallback(e=>{e!==S.current&&(S.current=e,h(e))},[]),y=C.useCallback(e=>{e!==w.current&&(w.current=e,_(e))},[]),b=a||m,x=o||g,S=C.useRef(null),w=C.useRef(null),T=C.useRef(u),E=c!=null,D=io(c),O=io(i),ee=io(l),k=C.useCallback(()=>{if(!S.current||!w.current)return;let e={placement:t,strategy:n,middleware:f};O.current&&(e.platform=O.current),$a(S.current,w.current,e).then(e=>{let t={...e,isPositioned:ee.current!==!1};A.current&&!to(T.current,t)&&(T.current=t,Be.flushSync(()=>{d(t)}))})},[f,t,n,O,ee]);eo(()=>{l===!1&&T.current.isPositioned&&(T.current.isPositioned=!1,d(e=>({...e,isPositioned:!1})))},[l]);let A=C.useRef(!1);eo(()=>(A.current=!0,()=>{A.current=!1}),[]),eo(()=>{if(b&&(S.current=b),x&&(w.current=x),b&&x){if(D.current)return D.current(b,x,k);k()}},[b,x,k,D,E]);let j=C.useMemo(()=>({reference:S,floating:w,setReference:v,setFloating:y}),[v,y]),M=C.useMemo(()=>({reference:b,floating:x}),[b,x]),te=C.useMemo(()=>{let e={position:n,left:0,top:0};if(!M.floating)return e;let t=ro(M.floating,u.x),r=ro(M.floating,u.y);return s?{...e,transform:`translate(`+t+`px, `+r+`px)`,...no(M.floating)>=1.5&&{willChange:`transform`}}:{position:n,left:t,top:r}},[n,s,M.floating,u.x,u.y]);return C.useMemo(()=>({...u,update:k,refs:j,elements:M,floatingStyles:te}),[u,k,j,M,te])}var oo=e=>{function t(e){return{}.hasOwnProperty.call(e,`current`)}return{name:`arrow`,options:e,fn(n){let{element:r,padding:i}=typeof e==`function`?e(n):e;return r&&t(r)?r.current==null?{}:Za({element:r.current,padding:i}).fn(n):r?Za({element:r,padding:i}).fn(n):{}}}},so=(e,t)=>{let n=Ka(e);return{name:n.name,fn:n.fn,options:[e,t]}},co=(e,t)=>{let n=qa(e);return{name:n.name,fn:n.fn,options:[e,t]}},lo=(e,t)=>({fn:Qa(e).fn,options:[e,t]}),uo=(e,t)=>{let n=Ja(e);return{name:n.name,fn:n.fn,options:[e,t]}},fo=(e,t)=>{let n=Ya(e);return{name:n.name,fn:n.fn,options:[e,t]}},V=(e,t)=>{let n=Xa(e);return{name:n.name,fn:n.fn,options:[e,t]}},po=(e,t)=>{let n=oo(e);return{name:n.name,fn:n.fn,options:[e,t]}},mo=`Arrow`,ho=C.forwardRef((e,t)=>{let{children:n,width:r=10,height:i=5,...a}=e;return(0,L.jsx)(z.svg,{...a,ref:t,width:r,height:i,viewBox:`0 0 30 10`,preserveAspectRatio:`none`,children:e.asChild?n:(0,L.jsx)(`polygon`,{points:`0,0 30,0 15,10`})})});ho.displayName=mo;var go=ho;function _o(e){let[t,n]=C.useState(void 0);return Me(()=>{if(e){n({width:e.offsetWidth,height:e.offsetHeight});let t=new ResizeObserver(t=>{if(!Array.isArray(t)||!t.length)return;let r=t[0],i,a;if(`borderBoxSize`in r){let e=r.borderBoxSize,t=Array.isArray(e)?e[0]:e;i=t.inlineSize,a=t.blockSize}else i=e.offsetWidth,a=e.offsetHeight;n({width:i,height:a})});return t.observe(e,{box:`border-box`}),()=>t.unobserve(e)}else n(void 0)},[e]),t}var vo=`Popper`,[yo,bo]=Ae(vo),[xo,So]=yo(vo),Co=e=>{let{__scopePopper:t,children:n}=e,[r,i]=C.useState(null);return(0,L.jsx)(xo,{scope:t,anchor:r,onAnchorChange:i,children:n})};Co.displayName=vo;var wo=`PopperAnchor`,To=C.forwardRef((e,t)=>{let{__scopePopper:n,virtualRef:r,...i}=e,a=So(wo,n),o=C.useRef(null),s=ge(t,o),c=C.useRef(null);return C.useEffect(()=>{let e=c.current;c.current=r?.current||o.current,e!==c.current&&a.onAnchorChange(c.current)}),r?null:(0,L.jsx)(z.div,{...i,ref:s})});To.displayName=wo;var Eo=`PopperContent`,[Do,Oo]=yo(Eo),ko=C.forwardRef((e,t)=>{let{__scopePopper:n,side:r=`bottom`,sideOffset:i=0,align:a=`center`,alignOffset:o=0,arrowPadding:s=0,avoidCollisions:c=!0,collisionBoundary:l=[],collisionPadding:u=0,sticky:d=`partial`,hideWhenDetached:f=!1,updatePositionStrategy:p=`optimized`,onPlaced:m,...h}=e,g=So(Eo,n),[_,v]=C.useState(null),y=ge(t,e=>v(e)),[b,x]=C.useState(null),S=_o(b),w=S?.width??0,T=S?.height??0,E=r+(a===`center`?``:`-`+a),D=typeof u==`number`?u:{top:0,right:0,bottom:0,left:0,...u},O=Array.isArray(l)?l:[l],ee=O.length>0,k={padding:D,boundary:O.filter(No),altBoundary:ee},{refs:A,floatingStyles:j,placement:M,isPositioned:te,middlewareData:ne}=ao({strategy:`fixed`,placement:E,whileElementsMounted:(...e)=>Ga(...e,{animationFrame:p===`always`}),elements:{reference:g.anchor},middleware:[so({mainAxis:i+T,alignmentAxis:o}),c&&co({mainAxis:!0,crossAxis:!1,limiter:d===`partial`?lo():void 0,...k}),c&&uo({...k}),fo({...k,apply:({elements:e,rects:t,availableWidth:n,availableHeight:r})=>{let{width:i,height:a}=t.reference,o=e.floating.style;o.setProperty(`--radix-popper-available-width`,`${n}px`),o.setProperty(`--radix-popper-available-height`,`${r}px`),o.setProperty(`--radix-popper-anchor-width`,`${i}px`),o.setProperty(`--radix-popper-anchor-height`,`${a}px`)}}),b&&po({element:b,padding:s}),Po({arrowWidth:w,arrowHeight:T}),f&&V({strategy:`referenceHidden`,...k})]}),[N,P]=Fo(M),re=Je(m);Me(()=>{te&&re?.()},[te,re]);let ie=ne.arrow?.x,ae=ne.arrow?.y,oe=ne.arrow?.centerOffset!==0,[F,I]=C.useState();return Me(()=>{_&&I(window.getComputedStyle(_).zIndex)},[_]),(0,L.jsx)(`div`,{ref:A.setFloating,"data-radix-popper-content-wrapper":``,style:{...j,transform:te?j.transform:`translate(0, -200%)`,minWidth:`max-content`,zIndex:F,"--radix-popper-transform-origin":[ne.transformOrigin?.x,ne.transformOrigin?.y].join(` `),...ne.hide?.referenceHidden&&{visibility:`hidden`,pointerEvents:`none`}},dir:e.dir,children:(0,L.jsx)(Do,{scope:n,placedSide:N,onArrowChange:x,arrowX:ie,arrowY:ae,shouldHideArrow:oe,children:(0,L.jsx)(z.div,{"data-side":N,"data-align":P,...h,ref:y,style:{...h.style,animation:te?void 0:`none`}})})})});ko.displayName=Eo;var Ao=`PopperArrow`,jo={top:`bottom`,right:`left`,bottom:`top`,left:`right`},Mo=C.forwardRef(function(e,t){let{__scopePopper:n,...r}=e,i=Oo(Ao,n),a=jo[i.placedSide];return(0,L.jsx)(`span`,{ref:i.onArrowChange,style:{position:`absolute`,left:i.arrowX,top:i.arrowY,[a]:0,transformOrigin:{top:``,right:`0 0`,bottom:`center 0`,left:`100% 0`}[i.placedSide],transform:{top:`translateY(100%)`,right:`translateY(50%) rotate(90deg) translateX(-50%)`,bottom:`rotate(180deg)`,left:`translateY(50%) rotate(-90deg) translateX(50%)`}[i.placedSide],visibility:i.shouldHideArrow?`hidden`:void 0},children:(0,L.jsx)(go,{...r,ref:t,style:{...r.style,display:`block`}})})});Mo.displayName=Ao;function No(e){return e!==null}var Po=e=>({name:`transformOrigin`,options:e,fn(t){let{placement:n,rects:r,middlewareData:i}=t,a=i.arrow?.centerOffset!==0,o=a?0:e.arrowWidth,s=a?0:e.arrowHeight,[c,l]=Fo(n),u={start:`0%`,center:`50%`,end:`100%`}[l],d=(i.arrow?.x??0)+o/2,f=(i.arrow?.y??0)+s/2,p=``,m=``;return c===`bottom`?(p=a?u:`${d}px`,m=`${-s}px`):c===`top`?(p=a?u:`${d}px`,m=`${r.floating.height+s}px`):c===`right`?(p=`${-s}px`,m=a?u:`${f}px`):c===`left`&&(p=`${r.floating.width+s}px`,m=a?u:`${f}px`),{data:{x:p,y:m}}}});function Fo(e){let[t,n=`center`]=e.split(`-`);return[t,n]}var Io=Co,Lo=To,Ro=ko,zo=Mo;function Bo(e){let t=Vo(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e,a=C.Children.toArray(r),o=a.find(Uo);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}function Vo(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(C.isValidElement(n)){let e=Go(n),i=Wo(r,n.props);return n.type!==C.Fragment&&(i.ref=t?he(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var Ho=Symbol(`radix.slottable`);function Uo(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===Ho}function Wo(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function Go(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}function Ko(e){let t=C.useRef({value:e,previous:e});return C.useMemo(()=>(t.current.value!==e&&(t.current.previous=t.current.value,t.current.value=e),t.current.previous),[e])}var qo=Object.freeze({position:`absolute`,border:0,width:1,height:1,padding:0,margin:-1,overflow:`hidden`,clip:`rect(0, 0, 0, 0)`,whiteSpace:`nowrap`,wordWrap:`normal`}),Jo=`VisuallyHidden`,Yo=C.forwardRef((e,t)=>(0,L.jsx)(z.span,{...e,ref:t,style:{...qo,...e.style}}));Yo.displayName=Jo;var Xo=[` `,`Enter`,`ArrowUp`,`ArrowDown`],Zo=[` `,`Enter`],Qo=`Select`,[$o,es,ts]=ei(Qo),[ns,rs]=Ae(Qo,[ts,bo]),is=bo(),[as,os]=ns(Qo),[ss,cs]=ns(Qo),ls=e=>{let{__scopeSelect:t,children:n,open:r,defaultOpen:i,onOpenChange:a,value:o,defaultValue:s,onValueChange:c,dir:l,name:u,autoComplete:d,disabled:f,required:p,form:m}=e,h=is(t),[g,_]=C.useState(null),[v,y]=C.useState(null),[b,x]=C.useState(!1),S=ni(l),[w,T]=Le({prop:r,defaultProp:i??!1,onChange:a,caller:Qo}),[E,D]=Le({prop:o,defaultProp:s,onChange:c,caller:Qo}),O=C.useRef(null),ee=g?m||!!g.closest(`form`):!0,[k,A]=C.useState(new Set),j=Array.from(k).map(e=>e.props.value).join(`;`);return(0,L.jsx)(Io,{...h,children:(0,L.jsxs)(as,{required:p,scope:t,trigger:g,onTriggerChange:_,valueNode:v,onValueNodeChange:y,valueNodeHasChildren:b,onValueNodeHasChildrenChange:x,contentId:Fe(),value:E,onValueChange:D,open:w,onOpenChange:T,dir:S,triggerPointerDownPosRef:O,disabled:f,children:[(0,L.jsx)($o.Provider,{scope:t,children:(0,L.jsx)(ss,{scope:e.__scopeSelect,onNativeOptionAdd:C.useCallback(e=>{A(t=>new Set(t).add(e))},[]),onNativeOptionRemove:C.useCallback(e=>{A(t=>{let n=new Set(t);return n.delete(e),n})},[]),children:n})}),ee?(0,L.jsxs)(ic,{"aria-hidden":!0,required:p,tabIndex:-1,name:u,autoComplete:d,value:E,onChange:e=>D(e.target.value),disabled:f,form:m,children:[E===void 0?(0,L.jsx)(`option`,{value:``}):null,Array.from(k)]},j):null]})})};ls.displayName=Qo;var us=`SelectTrigger`,ds=C.forwardRef((e,t)=>{let{__scopeSelect:n,disabled:r=!1,...i}=e,a=is(n),o=os(us,n),s=o.disabled||r,c=ge(t,o.onTriggerChange),l=es(n),u=C.useRef(`touch`),[d,f,p]=oc(e=>{let t=l().filter(e=>!e.disabled),n=sc(t,e,t.find(e=>e.value===o.value));n!==void 0&&o.onValueChange(n.value)}),m=e=>{s||(o.onOpenChange(!0),p()),e&&(o.triggerPointerDownPosRef.current={x:Math.round(e.pageX),y:Math.round(e.pageY)})};return(0,L.jsx)(Lo,{asChild:!0,...a,children:(0,L.jsx)(z.button,{type:`button`,role:`combobox`,"aria-controls":o.contentId,"aria-expanded":o.open,"aria-required":o.required,"aria-autocomplete":`none`,dir:o.dir,"data-state":o.open?`open`:`closed`,disabled:s,"data-disabled":s?``:void 0,"data-placeholder":ac(o.value)?``:void 0,...i,ref:c,onClick:R(i.onClick,e=>{e.currentTarget.focus(),u.current!==`mouse`&&m(e)}),onPointerDown:R(i.onPointerDown,e=>{u.current=e.pointerType;let t=e.target;t.hasPointerCapture(e.pointerId)&&t.releasePointerCapture(e.pointerId),e.button===0&&e.ctrlKey===!1&&e.pointerType===`mouse`&&(m(e),e.preventDefault())}),onKeyDown:R(i.onKeyDown,e=>{let t=d.current!==``;!(e.ctrlKey||e.altKey||e.metaKey)&&e.key.length===1&&f(e.key),!(t&&e.key===` `)&&Xo.includes(e.key)&&(m(),e.preventDefault())})})})});ds.displayName=us;var fs=`SelectValue`,ps=C.forwardRef((e,t)=>{let{__scopeSelect:n,className:r,style:i,children:a,placeholder:o=``,...s}=e,c=os(fs,n),{onValueNodeHasChildrenChange:l}=c,u=a!==void 0,d=ge(t,c.onValueNodeChange);return Me(()=>{l(u)},[l,u]),(0,L.jsx)(z.span,{...s,ref:d,style:{pointerEvents:`none`},children:ac(c.value)?(0,L.jsx)(L.Fragment,{children:o}):a})});ps.displayName=fs;var ms=`SelectIcon`,hs=C.forwardRef((e,t)=>{let{__scopeSelect:n,children:r,...i}=e;return(0,L.jsx)(z.span,{"aria-hidden":!0,...i,ref:t,children:r||`▼`})});hs.displayName=ms;var gs=`SelectPortal`,_s=e=>(0,L.jsx)(Et,{asChild:!0,...e});_s.displayName=gs;var vs=`SelectContent`,ys=C.forwardRef((e,t)=>{let n=os(vs,e.__scopeSelect),[r,i]=C.useState();if(Me(()=>{i(new DocumentFragment)},[]),!n.open){let t=r;return t?Be.createPortal((0,L.jsx)(xs,{scope:e.__scopeSelect,children:(0,L.jsx)($o.Slot,{scope:e.__scopeSelect,children:(0,L.jsx)(`div`,{children:e.children})})}),t):null}return(0,L.jsx)(Ts,{...e,ref:t})});ys.displayName=vs;var bs=10,[xs,Ss]=ns(vs),Cs=`SelectContentImpl`,ws=Bo(`SelectContent.RemoveScroll`),Ts=C.forwardRef((e,t)=>{let{__scopeSelect:n,position:r=`item-aligned`,onCloseAutoFocus:i,onEscapeKeyDown:a,onPointerDownOutside:o,side:s,sideOffset:c,align:l,alignOffset:u,arrowPadding:d,collisionBoundary:f,collisionPadding:p,sticky:m,hideWhenDetached:h,avoidCollisions:g,..._}=e,v=os(vs,n),[y,b]=C.useState(null),[x,S]=C.useState(null),w=ge(t,e=>b(e)),[T,E]=C.useState(null),[D,O]=C.useState(null),ee=es(n),[k,A]=C.useState(!1),j=C.useRef(!1);C.useEffect(()=>{if(y)return $n(y)},[y]),Nt();let M=C.useCallback(e=>{let[t,...n]=ee().map(e=>e.ref.current),[r]=n.slice(-1),i=document.activeElement;for(let n of e)if(n===i||(n?.scrollIntoView({block:`nearest`}),n===t&&x&&(x.scrollTop=0),n===r&&x&&(x.scrollTop=x.scrollHeight),n?.focus(),document.activeElement!==i))return},[ee,x]),te=C.useCallback(()=>M([T,y]),[M,T,y]);C.useEffect(()=>{k&&te()},[k,te]);let{onOpenChange:ne,triggerPointerDownPosRef:N}=v;C.useEffect(()=>{if(y){let e={x:0,y:0},t=t=>{e={x:Math.abs(Math.round(t.pageX)-(N.current?.x??0)),y:Math.abs(Math.round(t.pageY)-(N.current?.y??0))}},n=n=>{e.x<=10&&e.y<=10?n.preventDefault():y.contains(n.target)||ne(!1),document.removeEventListener(`pointermove`,t),N.current=null};return N.current!==null&&(document.addEventListener(`pointermove`,t),document.addEventListener(`pointerup`,n,{capture:!0,once:!0})),()=>{document.removeEventListener(`pointermove`,t),document.removeEventListener(`pointerup`,n,{capture:!0})}}},[y,ne,N]),C.useEffect(()=>{let e=()=>ne(!1);return window.addEventListener(`blur`,e),window.addEventListener(`resize`,e),()=>{window.removeEventListener(`blur`,e),window.removeEventListener(`resize`,e)}},[ne]);let[P,re]=oc(e=>{let t=ee().filter(e=>!e.disabled),n=sc(t,e,t.find(e=>e.ref.current===document.activeElement));n&&setTimeout(()=>n.ref.current.focus())}),ie=C.useCallback((e,t,n)=>{let r=!j.current&&!n;(v.value!==void 0&&v.value===t||r)&&(E(e),r&&(j.current=!0))},[v.value]),ae=C.useCallback(()=>y?.focus(),[y]),oe=C.useCallback((e,t,n)=>{let r=!j.current&&!n;(v.value!==void 0&&v.value===t||r)&&O(e)},[v.value]),F=r===`popper`?ks:Ds,I=F===ks?{side:s,sideOffset:c,align:l,alignOffset:u,arrowPadding:d,collisionBoundary:f,collisionPadding:p,sticky:m,hideWhenDetached:h,avoidCollisions:g}:{};return(0,L.jsx)(xs,{scope:n,content:y,viewport:x,onViewportChange:S,itemRefCallback:ie,selectedItem:T,onItemLeave:ae,itemTextRefCallback:oe,focusSelectedItem:te,selectedItemText:D,position:r,isPositioned:k,searchRef:P,children:(0,L.jsx)(Wn,{as:ws,allowPinchZoom:!0,children:(0,L.jsx)(pt,{asChild:!0,trapped:v.open,onMountAutoFocus:e=>{e.preventDefault()},onUnmountAutoFocus:R(i,e=>{v.trigger?.focus({preventScroll:!0}),e.preventDefault()}),children:(0,L.jsx)(nt,{asChild:!0,disableOutsidePointerEvents:!0,onEscapeKeyDown:a,onPointerDownOutside:o,onFocusOutside:e=>e.preventDefault(),onDismiss:()=>v.onOpenChange(!1),children:(0,L.jsx)(F,{role:`listbox`,id:v.contentId,"data-state":v.open?`open`:`closed`,dir:v.dir,onContextMenu:e=>e.preventDefault(),..._,...I,onPlaced:()=>A(!0),ref:w,style:{display:`flex`,flexDirection:`column`,outline:`none`,..._.style},onKeyDown:R(_.onKeyDown,e=>{let t=e.ctrlKey||e.altKey||e.metaKey;if(e.key===`Tab`&&e.preventDefault(),!t&&e.key.length===1&&re(e.key),[`ArrowUp`,`ArrowDown`,`Home`,`End`].includes(e.key)){let t=ee().filter(e=>!e.disabled).map(e=>e.ref.current);if([`ArrowUp`,`End`].includes(e.key)&&(t=t.slice().reverse()),[`ArrowUp`,`ArrowDown`].includes(e.key)){let n=e.target,r=t.indexOf(n);t=t.slice(r+1)}setTimeout(()=>M(t)),e.preventDefault()}})})})})})})});Ts.displayName=Cs;var Es=`SelectItemAlignedPosition`,Ds=C.forwardRef((e,t)=>{let{__scopeSelect:n,onPlaced:r,...i}=e,a=os(vs,n),o=Ss(vs,n),[s,c]=C.useState(null),[l,u]=C.useState(null),d=ge(t,e=>u(e)),f=es(n),p=C.useRef(!1),m=C.useRef(!0),{viewport:h,selectedItem:g,selectedItemText:_,focusSelectedItem:v}=o,y=C.useCallback(()=>{if(a.trigger&&a.valueNode&&s&&l&&h&&g&&_){let e=a.trigger.getBoundingClientRect(),t=l.getBoundingClientRect(),n=a.valueNode.getBoundingClientRect(),i=_.getBoundingClientRect();if(a.dir!==`rtl`){let r=i.left-t.left,a=n.left-r,o=e.left-a,c=e.width+o,l=Math.max(c,t.width),u=window.innerWidth-bs,d=qr(a,[bs,Math.max(bs,u-l)]);s.style.minWidth=c+`px`,s.style.left=d+`px`}else{let r=t.right-i.right,a=window.innerWidth-n.right-r,o=window.innerWidth-e.right-a,c=e.width+o,l=Math.max(c,t.width),u=window.innerWidth-bs,d=qr(a,[bs,Math.max(bs,u-l)]);s.style.minWidth=c+`px`,s.style.right=d+`px`}let o=f(),c=window.innerHeight-bs*2,u=h.scrollHeight,d=window.getComputedStyle(l),m=parseInt(d.borderTopWidth,10),v=parseInt(d.paddingTop,10),y=parseInt(d.borderBottomWidth,10),b=parseInt(d.paddingBottom,10),x=m+v+u+b+y,S=Math.min(g.offsetHeight*5,x),C=window.getComputedStyle(h),w=parseInt(C.paddingTop,10),T=parseInt(C.paddingBottom,10),E=e.top+e.height/2-bs,D=c-E,O=g.offsetHeight/2,ee=g.offsetTop+O,k=m+v+ee,A=x-k;if(k<=E){let e=o.length>0&&g===o[o.length-1].ref.current;s.style.bottom=`0px`;let t=l.clientHeight-h.offsetTop-h.offsetHeight,n=k+Math.max(D,O+(e?T:0)+t+y);s.style.height=n+`px`}else{let e=o.length>0&&g===o[0].ref.current;s.style.top=`0px`;let t=Math.max(E,m+h.offsetTop+(e?w:0)+O)+A;s.style.height=t+`px`,h.scrollTop=k-E+h.offsetTop}s.style.margin=`${bs}px 0`,s.style.minHeight=S+`px`,s.style.maxHeight=c+`px`,r?.(),requestAnimationFrame(()=>p.current=!0)}},[f,a.trigger,a.valueNode,s,l,h,g,_,a.dir,r]);Me(()=>y(),[y]);let[b,x]=C.useState();return Me(()=>{l&&x(window.getComputedStyle(l).zIndex)},[l]),(0,L.jsx)(As,{scope:n,contentWrapper:s,shouldExpandOnScrollRef:p,onScrollButtonChange:C.useCallback(e=>{e&&m.current===!0&&(y(),v?.(),m.current=!1)},[y,v]),children:(0,L.jsx)(`div`,{ref:c,style:{display:`flex`,flexDirection:`column`,position:`fixed`,zIndex:b},children:(0,L.jsx)(z.div,{...i,ref:d,style:{boxSizing:`border-box`,maxHeight:`100%`,...i.style}})})})});Ds.displayName=Es;var Os=`SelectPopperPosition`,ks=C.forwardRef((e,t)=>{let{__scopeSelect:n,align:r=`start`,collisionPadding:i=bs,...a}=e,o=is(n);return(0,L.jsx)(Ro,{...o,...a,ref:t,align:r,collisionPadding:i,style:{boxSizing:`border-box`,...a.style,"--radix-select-content-transform-origin":`var(--radix-popper-transform-origin)`,"--radix-select-content-available-width":`var(--radix-popper-available-width)`,"--radix-select-content-available-height":`var(--radix-popper-available-height)`,"--radix-select-trigger-width":`var(--radix-popper-anchor-width)`,"--radix-select-trigger-height":`var(--radix-popper-anchor-height)`}})});ks.displayName=Os;var[As,js]=ns(vs,{}),Ms=`SelectViewport`,Ns=C.forwardRef((e,t)=>{let{__scopeSelect:n,nonce:r,...i}=e,a=Ss(Ms,n),o=js(Ms,n),s=ge(t,a.onViewportChange),c=C.useRef(0);return(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(`style`,{dangerouslySetInnerHTML:{__html:`[data-radix-select-viewport]{scrollbar-width:none;-ms-overflow-style:none;-webkit-overflow-scrolling:touch;}[data-radix-select-viewport]::-webkit-scrollbar{display:none}`},nonce:r}),(0,L.jsx)($o.Slot,{scope:n,children:(0,L.jsx)(z.div,{"data-radix-select-viewport":``,role:`presentation`,...i,ref:s,style:{position:`relative`,flex:1,overflow:`hidden auto`,...i.style},onScroll:R(i.onScroll,e=>{let t=e.currentTarget,{contentWrapper:n,shouldExpandOnScrollRef:r}=o;if(r?.current&&n){let e=Math.abs(c.current-t.scrollTop);if(e>0){let r=window.innerHeight-bs*2,i=parseFloat(n.style.minHeight),a=parseFloat(n.style.height),o=Math.max(i,a);if(o<r){let i=o+e,a=Math.min(r,i),s=i-a;n.style.height=a+`px`,n.style.bottom===`0px`&&(t.scrollTop=s>0?s:0,n.style.justifyContent=`flex-end`)}}}c.current=t.scrollTop})})})]})});Ns.displayName=Ms;var Ps=`SelectGroup`,[Fs,Is]=ns(Ps),Ls=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e,i=Fe();return(0,L.jsx)(Fs,{scope:n,id:i,children:(0,L.jsx)(z.div,{role:`group`,"aria-labelledby":i,...r,ref:t})})});Ls.displayName=Ps;var Rs=`SelectLabel`,zs=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e,i=Is(Rs,n);return(0,L.jsx)(z.div,{id:i.id,...r,ref:t})});zs.displayName=Rs;var Bs=`SelectItem`,[Vs,Hs]=ns(Bs),Us=C.forwardRef((e,t)=>{let{__scopeSelect:n,value:r,disabled:i=!1,textValue:a,...o}=e,s=os(Bs,n),c=Ss(Bs,n),l=s.value===r,[u,d]=C.useState(a??``),[f,p]=C.useState(!1),m=ge(t,e=>c.itemRefCallback?.(e,r,i)),h=Fe(),g=C.useRef(`touch`),_=()=>{i||(s.onValueChange(r),s.onOpenChange(!1))};if(r===``)throw Error(`A <Select.Item /> must have a value prop that is not an empty string. This is because the Select value can be set to an empty string to clear the selection and show the placeholder.`);return(0,L.jsx)(Vs,{scope:n,value:r,disabled:i,textId:h,isSelected:l,onItemTextChange:C.useCallback(e=>{d(t=>t||(e?.textContent??``).trim())},[]),children:(0,L.jsx)($o.ItemSlot,{scope:n,value:r,disabled:i,textValue:u,children:(0,L.jsx)(z.div,{role:`option`,"aria-labelledby":h,"data-highlighted":f?``:void 0,"aria-selected":l&&f,"data-state":l?`checked`:`unchecked`,"aria-disabled":i||void 0,"data-disabled":i?``:void 0,tabIndex:i?void 0:-1,...o,ref:m,onFocus:R(o.onFocus,()=>p(!0)),onBlur:R(o.onBlur,()=>p(!1)),onClick:R(o.onClick,()=>{g.current!==`mouse`&&_()}),onPointerUp:R(o.onPointerUp,()=>{g.current===`mouse`&&_()}),onPointerDown:R(o.onPointerDown,e=>{g.current=e.pointerType}),onPointerMove:R(o.onPointerMove,e=>{g.current=e.pointerType,i?c.onItemLeave?.():g.current===`mouse`&&e.currentTarget.focus({preventScroll:!0})}),onPointerLeave:R(o.onPointerLeave,e=>{e.currentTarget===document.activeElement&&c.onItemLeave?.()}),onKeyDown:R(o.onKeyDown,e=>{c.searchRef?.current!==``&&e.key===` `||(Zo.includes(e.key)&&_(),e.key===` `&&e.preventDefault())})})})})});Us.displayName=Bs;var Ws=`SelectItemText`,Gs=C.forwardRef((e,t)=>{let{__scopeSelect:n,className:r,style:i,...a}=e,o=os(Ws,n),s=Ss(Ws,n),c=Hs(Ws,n),l=cs(Ws,n),[u,d]=C.useState(null),f=ge(t,e=>d(e),c.onItemTextChange,e=>s.itemTextRefCallback?.(e,c.value,c.disabled)),p=u?.textContent,m=C.useMemo(()=>(0,L.jsx)(`option`,{value:c.value,disabled:c.disabled,children:p},c.value),[c.disabled,c.value,p]),{onNativeOptionAdd:h,onNativeOptionRemove:g}=l;return Me(()=>(h(m),()=>g(m)),[h,g,m]),(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(z.span,{id:c.textId,...a,ref:f}),c.isSelected&&o.valueNode&&!o.valueNodeHasChildren?Be.createPortal(a.children,o.valueNode):null]})});Gs.displayName=Ws;var Ks=`SelectItemIndicator`,qs=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e;return Hs(Ks,n).isSelected?(0,L.jsx)(z.span,{"aria-hidden":!0,...r,ref:t}):null});qs.displayName=Ks;var Js=`SelectScrollUpButton`,Ys=C.forwardRef((e,t)=>{let n=Ss(Js,e.__scopeSelect),r=js(Js,e.__scopeSelect),[i,a]=C.useState(!1),o=ge(t,r.onScrollButtonChange);return Me(()=>{if(n.viewport&&n.isPositioned){let e=function(){a(t.scrollTop>0)},t=n.viewport;return e(),t.addEventListener(`scroll`,e),()=>t.removeEventListener(`scroll`,e)}},[n.viewport,n.isPositioned]),i?(0,L.jsx)(Qs,{...e,ref:o,onAutoScroll:()=>{let{viewport:e,selectedItem:t}=n;e&&t&&(e.scrollTop-=t.offsetHeight)}}):null});Ys.displayName=Js;var Xs=`SelectScrollDownButton`,Zs=C.forwardRef((e,t)=>{let n=Ss(Xs,e.__scopeSelect),r=js(Xs,e.__scopeSelect),[i,a]=C.useState(!1),o=ge(t,r.onScrollButtonChange);return Me(()=>{if(n.viewport&&n.isPositioned){let e=function(){let e=t.scrollHeight-t.clientHeight;a(Math.ceil(t.scrollTop)<e)},t=n.viewport;return e(),t.addEventListener(`scroll`,e),()=>t.removeEventListener(`scroll`,e)}},[n.viewport,n.isPositioned]),i?(0,L.jsx)(Qs,{...e,ref:o,onAutoScroll:()=>{let{viewport:e,selectedItem:t}=n;e&&t&&(e.scrollTop+=t.offsetHeight)}}):null});Zs.displayName=Xs;var Qs=C.forwardRef((e,t)=>{let{__scopeSelect:n,onAutoScroll:r,...i}=e,a=Ss(`SelectScrollButton`,n),o=C.useRef(null),s=es(n),c=C.useCallback(()=>{o.current!==null&&(window.clearInterval(o.current),o.current=null)},[]);return C.useEffect(()=>()=>c(),[c]),Me(()=>{s().find(e=>e.ref.current===document.activeElement)?.ref.current?.scrollIntoView({block:`nearest`})},[s]),(0,L.jsx)(z.div,{"aria-hidden":!0,...i,ref:t,style:{flexShrink:0,...i.style},onPointerDown:R(i.onPointerDown,()=>{o.current===null&&(o.current=window.setInterval(r,50))}),onPointerMove:R(i.onPointerMove,()=>{a.onItemLeave?.(),o.current===null&&(o.current=window.setInterval(r,50))}),onPointerLeave:R(i.onPointerLeave,()=>{c()})})}),$s=`SelectSeparator`,ec=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e;return(0,L.jsx)(z.div,{"aria-hidden":!0,...r,ref:t})});ec.displayName=$s;var tc=`SelectArrow`,nc=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e,i=is(n),a=os(tc,n),o=Ss(tc,n);return a.open&&o.position===`popper`?(0,L.jsx)(zo,{...i,...r,ref:t}):null});nc.displayName=tc;var rc=`SelectBubbleInput`,ic=C.forwardRef(({__scopeSelect:e,value:t,...n},r)=>{let i=C.useRef(null),a=ge(r,i),o=Ko(t);return C.useEffect(()=>{let e=i.current;if(!e)return;let n=window.HTMLSelectElement.prototype,r=Object.getOwnPropertyDescriptor(n,`value`).set;if(o!==t&&r){let n=new Event(`change`,{bubbles:!0});r.call(e,t),e.dispatchEvent(n)}},[o,t]),(0,L.jsx)(z.select,{...n,style:{...qo,...n.style},ref:a,defaultValue:t})});ic.displayName=rc;function ac(e){return e===``||e===void 0}function oc(e){let t=Je(e),n=C.useRef(``),r=C.useRef(0),i=C.useCallback(e=>{let i=n.current+e;t(i),(function e(t){n.current=t,window.clearTimeout(r.current),t!==``&&(r.current=window.setTimeout(()=>e(``),1e3))})(i)},[t]),a=C.useCallback(()=>{n.current=``,window.clearTimeout(r.current)},[]);return C.useEffect(()=>()=>window.clearTimeout(r.current),[]),[n,i,a]}function sc(e,t,n){let r=t.length>1&&Array.from(t).every(e=>e===t[0])?t[0]:t,i=n?e.indexOf(n):-1,a=cc(e,Math.max(i,0));r.length===1&&(a=a.filter(e=>e!==n));let o=a.find(e=>e.textValue.toLowerCase().startsWith(r.toLowerCase()));return o===n?void 0:o}function cc(e,t){return e.map((n,r)=>e[(t+r)%e.length])}var lc=ls,uc=ds,dc=ps,fc=hs,pc=_s,mc=ys,hc=Ns,gc=Us,_c=Gs,vc=qs,yc=`rovingFocusGroup.onEntryFocus`,bc={bubbles:!1,cancelable:!0},xc=`RovingFocusGroup`,[Sc,Cc,wc]=ei(xc),[Tc,Ec]=Ae(xc,[wc]),[Dc,Oc]=Tc(xc),kc=C.forwardRef((e,t)=>(0,L.jsx)(Sc.Provider,{scope:e.__scopeRovingFocusGroup,children:(0,L.jsx)(Sc.Slot,{scope:e.__scopeRovingFocusGroup,children:(0,L.jsx)(Ac,{...e,ref:t})})}));kc.displayName=xc;var Ac=C.forwardRef((e,t)=>{let{__scopeRovingFocusGroup:n,orientation:r,loop:i=!1,dir:a,currentTabStopId:o,defaultCurrentTabStopId:s,onCurrentTabStopIdChange:c,onEntryFocus:l,preventScrollOnEntryFocus:u=!1,...d}=e,f=C.useRef(null),p=ge(t,f),m=ni(a),[h,g]=Le({prop:o,defaultProp:s??null,onChange:c,caller:xc}),[_,v]=C.useState(!1),y=Je(l),b=Cc(n),x=C.useRef(!1),[S,w]=C.useState(0);return C.useEffect(()=>{let e=f.current;if(e)return e.addEventListener(yc,y),()=>e.removeEventListener(yc,y)},[y]),(0,L.jsx)(Dc,{scope:n,orientation:r,dir:m,loop:i,currentTabStopId:h,onItemFocus:C.useCallback(e=>g(e),[g]),onItemShiftTab:C.useCallback(()=>v(!0),[]),onFocusableItemAdd:C.useCallback(()=>w(e=>e+1),[]),onFocusableItemRemove:C.useCallback(()=>w(e=>e-1),[]),children:(0,L.jsx)(z.div,{tabIndex:_||S===0?-1:0,"data-orientation":r,...d,ref:p,style:{outline:`none`,...e.style},onMouseDown:R(e.onMouseDown,()=>{x.current=!0}),onFocus:R(e.onFocus,e=>{let t=!x.current;if(e.target===e.currentTarget&&t&&!_){let t=new CustomEvent(yc,bc);if(e.currentTarget.dispatchEvent(t),!t.defaultPrevented){let e=b().filter(e=>e.focusable);Ic([e.find(e=>e.active),e.find(e=>e.id===h),...e].filter(Boolean).map(e=>e.ref.current),u)}}x.current=!1}),onBlur:R(e.onBlur,()=>v(!1))})})}),jc=`RovingFocusGroupItem`,Mc=C.forwardRef((e,t)=>{let{__scopeRovingFocusGroup:n,focusable:r=!0,active:i=!1,tabStopId:a,children:o,...s}=e,c=Fe(),l=a||c,u=Oc(jc,n),d=u.currentTabStopId===l,f=Cc(n),{onFocusableItemAdd:p,onFocusableItemRemove:m,currentTabStopId:h}=u;return C.useEffect(()=>{if(r)return p(),()=>m()},[r,p,m]),(0,L.jsx)(Sc.ItemSlot,{scope:n,id:l,focusable:r,active:i,children:(0,L.jsx)(z.span,{tabIndex:d?0:-1,"data-orientation":u.orientation,...s,ref:t,onMouseDown:R(e.onMouseDown,e=>{r?u.onItemFocus(l):e.preventDefault()}),onFocus:R(e.onFocus,()=>u.onItemFocus(l)),onKeyDown:R(e.onKeyDown,e=>{if(e.key===`Tab`&&e.shiftKey){u.onItemShiftTab();return}if(e.target!==e.currentTarget)return;let t=Fc(e,u.orientation,u.dir);if(t!==void 0){if(e.metaKey||e.ctrlKey||e.altKey||e.shiftKey)return;e.preventDefault();let n=f().filter(e=>e.focusable).map(e=>e.ref.current);if(t===`last`)n.reverse();else if(t===`prev`||t===`next`){t===`prev`&&n.reverse();let r=n.indexOf(e.currentTarget);n=u.loop?Lc(n,r+1):n.slice(r+1)}setTimeout(()=>Ic(n))}}),children:typeof o==`function`?o({isCurrentTabStop:d,hasTabStop:h!=null}):o})})});Mc.displayName=jc;var Nc={ArrowLeft:`prev`,ArrowUp:`prev`,ArrowRight:`next`,ArrowDown:`next`,PageUp:`first`,Home:`first`,PageDown:`last`,End:`last`};function Pc(e,t){return t===`rtl`?e===`ArrowLeft`?`ArrowRight`:e===`ArrowRight`?`ArrowLeft`:e:e}function Fc(e,t,n){let r=Pc(e.key,n);if(!(t===`vertical`&&[`ArrowLeft`,`ArrowRight`].includes(r))&&!(t===`horizontal`&&[`ArrowUp`,`ArrowDown`].includes(r)))return Nc[r]}function Ic(e,t=!1){let n=document.activeElement;for(let r of e)if(r===n||(r.focus({preventScroll:t}),document.activeElement!==n))return}function Lc(e,t){return e.map((n,r)=>e[(t+r)%e.length])}var Rc=kc,zc=Mc,Bc=`Tabs`,[Vc,Hc]=Ae(Bc,[Ec]),Uc=Ec(),[Wc,Gc]=Vc(Bc),Kc=C.forwardRef((e,t)=>{let{__scopeTabs:n,value:r,onValueChange:i,defaultValue:a,orientation:o=`horizontal`,dir:s,activationMode:c=`automatic`,...l}=e,u=ni(s),[d,f]=Le({prop:r,onChange:i,defaultProp:a??``,caller:Bc});return(0,L.jsx)(Wc,{scope:n,baseId:Fe(),value:d,onValueChange:f,orientation:o,dir:u,activationMode:c,children:(0,L.jsx)(z.div,{dir:u,"data-orientation":o,...l,ref:t})})});Kc.displayName=Bc;var qc=`TabsList`,Jc=C.forwardRef((e,t)=>{let{__scopeTabs:n,loop:r=!0,...i}=e,a=Gc(qc,n),o=Uc(n);return(0,L.jsx)(Rc,{asChild:!0,...o,orientation:a.orientation,dir:a.dir,loop:r,children:(0,L.jsx)(z.div,{role:`tablist`,"aria-orientation":a.orientation,...i,ref:t})})});Jc.displayName=qc;var Yc=`TabsTrigger`,Xc=C.forwardRef((e,t)=>{let{__scopeTabs:n,value:r,disabled:i=!1,...a}=e,o=Gc(Yc,n),s=Uc(n),c=$c(o.baseId,r),l=el(o.baseId,r),u=r===o.value;return(0,L.jsx)(zc,{asChild:!0,...s,focusable:!i,active:u,children:(0,L.jsx)(z.button,{type:`button`,role:`tab`,"aria-selected":u,"aria-controls":l,"data-state":u?`active`:`inactive`,"data-disabled":i?``:void 0,disabled:i,id:c,...a,ref:t,onMouseDown:R(e.onMouseDown,e=>{!i&&e.button===0&&e.ctrlKey===!1?o.onValueChange(r):e.preventDefault()}),onKeyDown:R(e.onKeyDown,e=>{[` `,`Enter`].includes(e.key)&&o.onValueChange(r)}),onFocus:R(e.onFocus,()=>{let e=o.activationMode!==`manual`;!u&&!i&&e&&o.onValueChange(r)})})})});Xc.displayName=Yc;var Zc=`TabsContent`,Qc=C.forwardRef((e,t)=>{let{__scopeTabs:n,value:r,forceMount:i,children:a,...o}=e,s=Gc(Zc,n),c=$c(s.baseId,r),l=el(s.baseId,r),u=r===s.value,d=C.useRef(u);return C.useEffect(()=>{let e=requestAnimationFrame(()=>d.current=!1);return()=>cancelAnimationFrame(e)},[]),(0,L.jsx)(Ot,{present:i||u,children:({present:n})=>(0,L.jsx)(z.div,{"data-state":u?`active`:`inactive`,"data-orientation":s.orientation,role:`tabpanel`,"aria-labelledby":c,hidden:!n,id:l,tabIndex:0,...o,ref:t,style:{...e.style,animationDuration:d.current?`0s`:void 0},children:n&&a})})});Qc.displayName=Zc;function $c(e,t){return`${e}-trigger-${t}`}function el(e,t){return`${e}-content-${t}`}var tl=Kc,nl=Jc,rl=Xc,il=`Collapsible`,[al,ol]=Ae(il),[sl,cl]=al(il),ll=C.forwardRef((e,t)=>{let{__scopeCollapsible:n,open:r,defaultOpen:i,disabled:a,onOpenChange:o,...s}=e,[c,l]=Le({prop:r,defaultProp:i??!1,onChange:o,caller:il});return(0,L.jsx)(sl,{scope:n,disabled:a,contentId:Fe(),open:c,onOpenToggle:C.useCallback(()=>l(e=>!e),[l]),children:(0,L.jsx)(z.div,{"data-state":hl(c),"data-disabled":a?``:void 0,...s,ref:t})})});ll.displayName=il;var ul=`CollapsibleTrigger`,dl=C.forwardRef((e,t)=>{let{__scopeCollapsible:n,...r}=e,i=cl(ul,n);return(0,L.jsx)(z.button,{type:`button`,"aria-controls":i.contentId,"aria-expanded":i.open||!1,"data-state":hl(i.open),"data-disabled":i.disabled?``:void 0,disabled:i.disabled,...r,ref:t,onClick:R(e.onClick,i.onOpenToggle)})});dl.displayName=ul;var fl=`CollapsibleContent`,pl=C.forwardRef((e,t)=>{let{forceMount:n,...r}=e,i=cl(fl,e.__scopeCollapsible);return(0,L.jsx)(Ot,{present:n||i.open,children:({present:e})=>(0,L.jsx)(ml,{...r,ref:t,present:e})})});pl.displayName=fl;var ml=C.forwardRef((e,t)=>{let{__scopeCollapsible:n,present:r,children:i,...a}=e,o=cl(fl,n),[s,c]=C.useState(r),l=C.useRef(null),u=ge(t,l),d=C.useRef(0),f=d.current,p=C.useRef(0),m=p.current,h=o.open||s,g=C.useRef(h),_=C.useRef(void 0);return C.useEffect(()=>{let e=requestAnimationFrame(()=>g.current=!1);return()=>cancelAnimationFrame(e)},[]),Me(()=>{let e=l.current;if(e){_.current=_.current||{transitionDuration:e.style.transitionDuration,animationName:e.style.animationName},e.style.transitionDuration=`0s`,e.style.animationName=`none`;let t=e.getBoundingClientRect();d.current=t.height,p.current=t.width,g.current||(e.style.transitionDuration=_.current.transitionDuration,e.style.animationName=_.current.animationName),c(r)}},[o.open,r]),(0,L.jsx)(z.div,{"data-state":hl(o.open),"data-disabled":o.disabled?``:void 0,id:o.contentId,hidden:!h,...a,ref:u,style:{"--radix-collapsible-content-height":f?`${f}px`:void 0,"--radix-collapsible-content-width":m?`${m}px`:void 0,...e.style},children:h&&i})});function hl(e){return e?`open`:`closed`}var gl=ll,_l=dl,vl=pl,yl=`Accordion`,bl=[`Home`,`End`,`ArrowDown`,`ArrowUp`,`ArrowLeft`,`ArrowRight`],[xl,Sl,Cl]=ei(yl),[wl,Tl]=Ae(yl,[Cl,ol]),El=ol(),Dl=C.forwardRef((e,t)=>{let{type:n,...r}=e,i=r,a=r;return(0,L.jsx)(xl.Provider,{scope:e.__scopeAccordion,children:n===`multiple`?(0,L.jsx)(Nl,{...a,ref:t}):(0,L.jsx)(Ml,{...i,ref:t})})});Dl.displayName=yl;var[Ol,kl]=wl(yl),[Al,jl]=wl(yl,{collapsible:!1}),Ml=C.forwardRef((e,t)=>{let{value:n,defaultValue:r,onValueChange:i=()=>{},collapsible:a=!1,...o}=e,[s,c]=Le({prop:n,defaultProp:r??``,onChange:i,caller:yl});return(0,L.jsx)(Ol,{scope:e.__scopeAccordion,value:C.useMemo(()=>s?[s]:[],[s]),onItemOpen:c,onItemClose:C.useCallback(()=>a&&c(``),[a,c]),children:(0,L.jsx)(Al,{scope:e.__scopeAccordion,collapsible:a,children:(0,L.jsx)(Il,{...o,ref:t})})})}),Nl=C.forwardRef((e,t)=>{let{value:n,defaultValue:r,onValueChange:i=()=>{},...a}=e,[o,s]=Le({prop:n,defaultProp:r??[],onChange:i,caller:yl}),c=C.useCallback(e=>s((t=[])=>[...t,e]),[s]),l=C.useCallback(e=>s((t=[])=>t.filter(t=>t!==e)),[s]);return(0,L.jsx)(Ol,{scope:e.__scopeAccordion,value:o,onItemOpen:c,onItemClose:l,children:(0,L.jsx)(Al,{scope:e.__scopeAccordion,collapsible:!0,children:(0,L.jsx)(Il,{...a,ref:t})})})}),[Pl,Fl]=wl(yl),Il=C.forwardRef((e,t)=>{let{__scopeAccordion:n,disabled:r,dir:i,orientation:a=`vertical`,...o}=e,s=ge(C.useRef(null),t),c=Sl(n),l=ni(i)===`ltr`,u=R(e.onKeyDown,e=>{if(!bl.includes(e.key))return;let t=e.target,n=c().filter(e=>!e.ref.current?.disabled),r=n.findIndex(e=>e.ref.current===t),i=n.length;if(r===-1)return;e.preventDefault();let o=r,s=i-1,u=()=>{o=r+1,o>s&&(o=0)},d=()=>{o=r-1,o<0&&(o=s)};switch(e.key){case`Home`:o=0;break;case`End`:o=s;break;case`ArrowRight`:a===`horizontal`&&(l?u():d());break;case`ArrowDown`:a===`vertical`&&u();break;case`ArrowLeft`:a===`horizontal`&&(l?d():u());break;case`ArrowUp`:a===`vertical`&&d();break}n[o%i].ref.current?.focus()});return(0,L.jsx)(Pl,{scope:n,disabled:r,direction:i,orientation:a,children:(0,L.jsx)(xl.Slot,{scope:n,children:(0,L.jsx)(z.div,{...o,"data-orientation":a,ref:s,onKeyDown:r?void 0:u})})})}),Ll=`AccordionItem`,[Rl,zl]=wl(Ll),Bl=C.forwardRef((e,t)=>{let{__scopeAccordion:n,value:r,...i}=e,a=Fl(Ll,n),o=kl(Ll,n),s=El(n),c=Fe(),l=r&&o.value.includes(r)||!1,u=a.disabled||e.disabled;return(0,L.jsx)(Rl,{scope:n,open:l,disabled:u,triggerId:c,children:(0,L.jsx)(gl,{"data-orientation":a.orientation,"data-state":G(l),...s,...i,ref:t,disabled:u,open:l,onOpenChange:e=>{e?o.onItemOpen(r):o.onItemClose(r)}})})});Bl.displayName=Ll;var Vl=`AccordionHeader`,Hl=C.forwardRef((e,t)=>{let{__scopeAccordion:n,...r}=e,i=Fl(yl,n),a=zl(Vl,n);return(0,L.jsx)(z.h3,{"data-orientation":i.orientation,"data-state":G(a.open),"data-disabled":a.disabled?``:void 0,...r,ref:t})});Hl.displayName=Vl;var H=`AccordionTrigger`,Ul=C.forwardRef((e,t)=>{let{__scopeAccordion:n,...r}=e,i=Fl(yl,n),a=zl(H,n),o=jl(H,n),s=El(n);return(0,L.jsx)(xl.ItemSlot,{scope:n,children:(0,L.jsx)(_l,{"aria-disabled":a.open&&!o.collapsible||void 0,"data-orientation":i.orientation,id:a.triggerId,...s,...r,ref:t})})});Ul.displayName=H;var U=`AccordionContent`,W=C.forwardRef((e,t)=>{let{__scopeAccordion:n,...r}=e,i=Fl(yl,n),a=zl(U,n),o=El(n);return(0,L.jsx)(vl,{role:`region`,"aria-labelledby":a.triggerId,"data-orientation":i.orientation,...o,...r,ref:t,style:{"--radix-accordion-content-height":`var(--radix-collapsible-content-height)`,"--radix-accordion-content-width":`var(--radix-collapsible-content-width)`,...e.style}})});W.displayName=U;function G(e){return e?`open`:`closed`}var Wl=Dl,Gl=Bl,Kl=Hl,ql=Ul,Jl=W;function Yl(e){var t,n,r=``;if(typeof e==`string`||typeof e==`number`)r+=e;else if(typeof e==`object`)if(Array.isArray(e)){var i=e.length;for(t=0;t<i;t++)e[t]&&(n=Yl(e[t]))&&(r&&(r+=` `),r+=n)}else for(n in e)e[n]&&(r&&(r+=` `),r+=n);return r}function Xl(){for(var e,t,n=0,r=``,i=arguments.length;n<i;n++)(e=arguments[n])&&(t=Yl(e))&&(r&&(r+=` `),r+=t);return r}var Zl=e=>typeof e==`boolean`?`${e}`:e===0?`0`:e,Ql=Xl,$l=(e,t)=>n=>{if(t?.variants==null)return Ql(e,n?.class,n?.className);let{variants:r,defaultVariants:i}=t,a=Object.keys(r).map(e=>{let t=n?.[e],a=i?.[e];if(t===null)return null;let o=Zl(t)||Zl(a);return r[e][o]}),o=n&&Object.entries(n).reduce((e,t)=>{let[n,r]=t;return r===void 0||(e[n]=r),e},{});return Ql(e,a,t?.compoundVariants?.reduce((e,t)=>{let{class:n,className:r,...a}=t;return Object.entries(a).every(e=>{let[t,n]=e;return Array.isArray(n)?n.includes({...i,...o}[t]):{...i,...o}[t]===n})?[...e,n,r]:e},[]),n?.class,n?.className)},eu=(e,t)=>{let n=Array(e.length+t.length);for(let t=0;t<e.length;t++)n[t]=e[t];for(let r=0;r<t.length;r++)n[e.length+r]=t[r];return n},tu=(e,t)=>({classGroupId:e,validator:t}),nu=(e=new Map,t=null,n)=>({nextPart:e,validators:t,classGroupId:n}),ru=`-`,iu=[],au=`arbitrary..`,ou=e=>{let t=lu(e),{conflictingClassGroups:n,conflictingClassGroupModifiers:r}=e;return{getClassGroupId:e=>{if(e.startsWith(`[`)&&e.endsWith(`]`))return cu(e);let n=e.split(ru);return su(n,+(n[0]===``&&n.length>1),t)},getConflictingClassGroupIds:(e,t)=>{if(t){let t=r[e],i=n[e];return t?i?eu(i,t):t:i||iu}return n[e]||iu}}},su=(e,t,n)=>{if(e.length-t===0)return n.classGroupId;let r=e[t],i=n.nextPart.get(r);if(i){let n=su(e,t+1,i);if(n)return n}let a=n.validators;if(a===null)return;let o=t===0?e.join(ru):e.slice(t).join(ru),s=a.length;for(let e=0;e<s;e++){let t=a[e];if(t.validator(o))return t.classGroupId}},cu=e=>e.slice(1,-1).indexOf(`:`)===-1?void 0:(()=>{let t=e.slice(1,-1),n=t.indexOf(`:`),r=t.slice(0,n);return r?au+r:void 0})(),lu=e=>{let{theme:t,classGroups:n}=e;return uu(n,t)},uu=(e,t)=>{let n=nu();for(let r in e){let i=e[r];du(i,n,r,t)}return n},du=(e,t,n,r)=>{let i=e.length;for(let a=0;a<i;a++){let i=e[a];fu(i,t,n,r)}},fu=(e,t,n,r)=>{if(typeof e==`string`){pu(e,t,n);return}if(typeof e==`function`){mu(e,t,n,r);return}hu(e,t,n,r)},pu=(e,t,n)=>{let r=e===``?t:gu(t,e);r.classGroupId=n},mu=(e,t,n,r)=>{if(_u(e)){du(e(r),t,n,r);return}t.validators===null&&(t.validators=[]),t.validators.push(tu(n,e))},hu=(e,t,n,r)=>{let i=Object.entries(e),a=i.length;for(let e=0;e<a;e++){let[a,o]=i[e];du(o,gu(t,a),n,r)}},gu=(e,t)=>{let n=e,r=t.split(ru),i=r.length;for(let e=0;e<i;e++){let t=r[e],i=n.nextPart.get(t);i||(i=nu(),n.nextPart.set(t,i)),n=i}return n},_u=e=>`isThemeGetter`in e&&e.isThemeGetter===!0,vu=e=>{if(e<1)return{get:()=>void 0,set:()=>{}};let t=0,n=Object.create(null),r=Object.create(null),i=(i,a)=>{n[i]=a,t++,t>e&&(t=0,r=n,n=Object.create(null))};return{get(e){let t=n[e];if(t!==void 0)return t;if((t=r[e])!==void 0)return i(e,t),t},set(e,t){e in n?n[e]=t:i(e,t)}}},yu=`!`,bu=`:`,xu=[],Su=(e,t,n,r,i)=>({modifiers:e,hasImportantModifier:t,baseClassName:n,maybePostfixModifierPosition:r,isExternal:i}),Cu=e=>{let{prefix:t,experimentalParseClassName:n}=e,r=e=>{let t=[],n=0,r=0,i=0,a,o=e.length;for(let s=0;s<o;s++){let o=e[s];if(n===0&&r===0){if(o===bu){t.push(e.slice(i,s)),i=s+1;continue}if(o===`/`){a=s;continue}}o===`[`?n++:o===`]`?n--:o===`(`?r++:o===`)`&&r--}let s=t.length===0?e:e.slice(i),c=s,l=!1;s.endsWith(yu)?(c=s.slice(0,-1),l=!0):s.startsWith(yu)&&(c=s.slice(1),l=!0);let u=a&&a>i?a-i:void 0;return Su(t,l,c,u)};if(t){let e=t+bu,n=r;r=t=>t.startsWith(e)?n(t.slice(e.length)):Su(xu,!1,t,void 0,!0)}if(n){let e=r;r=t=>n({className:t,parseClassName:e})}return r},wu=e=>{let t=new Map;return e.orderSensitiveModifiers.forEach((e,n)=>{t.set(e,1e6+n)}),e=>{let n=[],r=[];for(let i=0;i<e.length;i++){let a=e[i],o=a[0]===`[`,s=t.has(a);o||s?(r.length>0&&(r.sort(),n.push(...r),r=[]),n.push(a)):r.push(a)}return r.length>0&&(r.sort(),n.push(...r)),n}},Tu=e=>({cache:vu(e.cacheSize),parseClassName:Cu(e),sortModifiers:wu(e),...ou(e)}),Eu=/\s+/,Du=(e,t)=>{let{parseClassName:n,getClassGroupId:r,getConflictingClassGroupIds:i,sortModifiers:a}=t,o=[],s=e.trim().split(Eu),c=``;for(let e=s.length-1;e>=0;--e){let t=s[e],{isExternal:l,modifiers:u,hasImportantModifier:d,baseClassName:f,maybePostfixModifierPosition:p}=n(t);if(l){c=t+(c.length>0?` `+c:c);continue}let m=!!p,h=r(m?f.substring(0,p):f);if(!h){if(!m){c=t+(c.length>0?` `+c:c);continue}if(h=r(f),!h){c=t+(c.length>0?` `+c:c);continue}m=!1}let g=u.length===0?``:u.length===1?u[0]:a(u).join(`:`),_=d?g+yu:g,v=_+h;if(o.indexOf(v)>-1)continue;o.push(v);let y=i(h,m);for(let e=0;e<y.length;++e){let t=y[e];o.push(_+t)}c=t+(c.length>0?` `+c:c)}return c},Ou=(...e)=>{let t=0,n,r,i=``;for(;t<e.length;)(n=e[t++])&&(r=ku(n))&&(i&&(i+=` `),i+=r);return i},ku=e=>{if(typeof e==`string`)return e;let t,n=``;for(let r=0;r<e.length;r++)e[r]&&(t=ku(e[r]))&&(n&&(n+=` `),n+=t);return n},Au=(e,...t)=>{let n,r,i,a,o=o=>(n=Tu(t.reduce((e,t)=>t(e),e())),r=n.cache.get,i=n.cache.set,a=s,s(o)),s=e=>{let t=r(e);if(t)return t;let a=Du(e,n);return i(e,a),a};return a=o,(...e)=>a(Ou(...e))},ju=[],Mu=e=>{let t=t=>t[e]||ju;return t.isThemeGetter=!0,t},Nu=/^\[(?:(\w[\w-]*):)?(.+)\]$/i,Pu=/^\((?:(\w[\w-]*):)?(.+)\)$/i,Fu=/^\d+(?:\.\d+)?\/\d+(?:\.\d+)?$/,Iu=/^(\d+(\.\d+)?)?(xs|sm|md|lg|xl)$/,Lu=/\d+(%|px|r?em|[sdl]?v([hwib]|min|max)|pt|pc|in|cm|mm|cap|ch|ex|r?lh|cq(w|h|i|b|min|max))|\b(calc|min|max|clamp)\(.+\)|^0$/,Ru=/^(rgba?|hsla?|hwb|(ok)?(lab|lch)|color-mix)\(.+\)$/,zu=/^(inset_)?-?((\d+)?\.?(\d+)[a-z]+|0)_-?((\d+)?\.?(\d+)[a-z]+|0)/,Bu=/^(url|image|image-set|cross-fade|element|(repeating-)?(linear|radial|conic)-gradient)\(.+\)$/,Vu=e=>Fu.test(e),K=e=>!!e&&!Number.isNaN(Number(e)),Hu=e=>!!e&&Number.isInteger(Number(e)),Uu=e=>e.endsWith(`%`)&&K(e.slice(0,-1)),Wu=e=>Iu.test(e),Gu=()=>!0,Ku=e=>Lu.test(e)&&!Ru.test(e),qu=()=>!1,Ju=e=>zu.test(e),q=e=>Bu.test(e),Yu=e=>!J(e)&&!Y(e),Xu=e=>dd(e,hd,qu),J=e=>Nu.test(e),Zu=e=>dd(e,gd,Ku),Qu=e=>dd(e,_d,K),$u=e=>dd(e,yd,Gu),ed=e=>dd(e,vd,qu),td=e=>dd(e,pd,qu),nd=e=>dd(e,md,q),rd=e=>dd(e,bd,Ju),Y=e=>Pu.test(e),id=e=>fd(e,gd),ad=e=>fd(e,vd),od=e=>fd(e,pd),sd=e=>fd(e,hd),cd=e=>fd(e,md),ld=e=>fd(e,bd,!0),ud=e=>fd(e,yd,!0),dd=(e,t,n)=>{let r=Nu.exec(e);return r?r[1]?t(r[1]):n(r[2]):!1},fd=(e,t,n=!1)=>{let r=Pu.exec(e);return r?r[1]?t(r[1]):n:!1},pd=e=>e===`position`||e===`percentage`,md=e=>e===`image`||e===`url`,hd=e=>e===`length`||e===`size`||e===`bg-size`,gd=e=>e===`length`,_d=e=>e===`number`,vd=e=>e===`family-name`,yd=e=>e===`number`||e===`weight`,bd=e=>e===`shadow`,xd=Au(()=>{let e=Mu(`color`),t=Mu(`font`),n=Mu(`text`),r=Mu(`font-weight`),i=Mu(`tracking`),a=Mu(`leading`),o=Mu(`breakpoint`),s=Mu(`container`),c=Mu(`spacing`),l=Mu(`radius`),u=Mu(`shadow`),d=Mu(`inset-shadow`),f=Mu(`text-shadow`),p=Mu(`drop-shadow`),m=Mu(`blur`),h=Mu(`perspective`),g=Mu(`aspect`),_=Mu(`ease`),v=Mu(`animate`),y=()=>[`auto`,`avoid`,`all`,`avoid-page`,`page`,`left`,`right`,`column`],b=()=>[`center`,`top`,`bottom`,`left`,`right`,`top-left`,`left-top`,`top-right`,`right-top`,`bottom-right`,`right-bottom`,`bottom-left`,`left-bottom`],x=()=>[...b(),Y,J],S=()=>[`auto`,`hidden`,`clip`,`visible`,`scroll`],C=()=>[`auto`,`contain`,`none`],w=()=>[Y,J,c],T=()=>[Vu,`full`,`auto`,...w()],E=()=>[Hu,`none`,`subgrid`,Y,J],D=()=>[`auto`,{span:[`full`,Hu,Y,J]},Hu,Y,J],O=()=>[Hu,`auto`,Y,J],ee=()=>[`auto`,`min`,`max`,`fr`,Y,J],k=()=>[`start`,`end`,`center`,`between`,`around`,`evenly`,`stretch`,`baseline`,`center-safe`,`end-safe`],A=()=>[`start`,`end`,`center`,`stretch`,`center-safe`,`end-safe`],j=()=>[`auto`,...w()],M=()=>[Vu,`auto`,`full`,`dvw`,`dvh`,`lvw`,`lvh`,`svw`,`svh`,`min`,`max`,`fit`,...w()],te=()=>[Vu,`screen`,`full`,`dvw`,`lvw`,`svw`,`min`,`max`,`fit`,...w()],ne=()=>[Vu,`screen`,`full`,`lh`,`dvh`,`lvh`,`svh`,`min`,`max`,`fit`,...w()],N=()=>[e,Y,J],P=()=>[...b(),od,td,{position:[Y,J]}],re=()=>[`no-repeat`,{repeat:[``,`x`,`y`,`space`,`round`]}],ie=()=>[`auto`,`cover`,`contain`,sd,Xu,{size:[Y,J]}],ae=()=>[Uu,id,Zu],oe=()=>[``,`none`,`full`,l,Y,J],F=()=>[``,K,id,Zu],I=()=>[`solid`,`dashed`,`dotted`,`double`],se=()=>[`normal`,`multiply`,`screen`,`overlay`,`darken`,`lighten`,`color-dodge`,`color-burn`,`hard-light`,`soft-light`,`difference`,`exclusion`,`hue`,`saturation`,`color`,`luminosity`],ce=()=>[K,Uu,od,td],le=()=>[``,`none`,m,Y,J],ue=()=>[`none`,K,Y,J],de=()=>[`none`,K,Y,J],fe=()=>[K,Y,J],pe=()=>[Vu,`full`,...w()];return{cacheSize:500,theme:{animate:[`spin`,`ping`,`pulse`,`bounce`],aspect:[`video`],blur:[Wu],breakpoint:[Wu],color:[Gu],container:[Wu],"drop-shadow":[Wu],ease:[`in`,`out`,`in-out`],font:[Yu],"font-weight":[`thin`,`extralight`,`light`,`normal`,`medium`,`semibold`,`bold`,`extrabold`,`black`],"inset-shadow":[Wu],leading:[`none`,`tight`,`snug`,`normal`,`relaxed`,`loose`],perspective:[`dramatic`,`near`,`normal`,`midrange`,`distant`,`none`],radius:[Wu],shadow:[Wu],spacing:[`px`,K],text:[Wu],"text-shadow":[Wu],tracking:[`tighter`,`tight`,`normal`,`wide`,`wider`,`widest`]},classGroups:{aspect:[{aspect:[`auto`,`square`,Vu,J,Y,g]}],container:[`container`],columns:[{columns:[K,J,Y,s]}],"break-after":[{"break-after":y()}],"break-before":[{"break-before":y()}],"break-inside":[{"break-inside":[`auto`,`avoid`,`avoid-page`,`avoid-column`]}],"box-decoration":[{"box-decoration":[`slice`,`clone`]}],box:[{box:[`border`,`content`]}],display:[`block`,`inline-block`,`inline`,`flex`,`inline-flex`,`table`,`inline-table`,`table-caption`,`table-cell`,`table-column`,`table-column-group`,`table-footer-group`,`table-header-group`,`table-row-group`,`table-row`,`flow-root`,`grid`,`inline-grid`,`contents`,`list-item`,`hidden`],sr:[`sr-only`,`not-sr-only`],float:[{float:[`right`,`left`,`none`,`start`,`end`]}],clear:[{clear:[`left`,`right`,`both`,`none`,`start`,`end`]}],isolation:[`isolate`,`isolation-auto`],"object-fit":[{object:[`contain`,`cover`,`fill`,`none`,`scale-down`]}],"object-position":[{object:x()}],overflow:[{overflow:S()}],"overflow-x":[{"overflow-x":S()}],"overflow-y":[{"overflow-y":S()}],overscroll:[{overscroll:C()}],"overscroll-x":[{"overscroll-x":C()}],"overscroll-y":[{"overscroll-y":C()}],position:[`static`,`fixed`,`absolute`,`relative`,`sticky`],inset:[{inset:T()}],"inset-x":[{"inset-x":T()}],"inset-y":[{"inset-y":T()}],start:[{"inset-s":T(),start:T()}],end:[{"inset-e":T(),end:T()}],"inset-bs":[{"inset-bs":T()}],"inset-be":[{"inset-be":T()}],top:[{top:T()}],right:[{right:T()}],bottom:[{bottom:T()}],left:[{left:T()}],visibility:[`visible`,`invisible`,`collapse`],z:[{z:[Hu,`auto`,Y,J]}],basis:[{basis:[Vu,`full`,`auto`,s,...w()]}],"flex-direction":[{flex:[`row`,`row-reverse`,`col`,`col-reverse`]}],"flex-wrap":[{flex:[`nowrap`,`wrap`,`wrap-reverse`]}],flex:[{flex:[K,Vu,`auto`,`initial`,`none`,J]}],grow:[{grow:[``,K,Y,J]}],shrink:[{shrink:[``,K,Y,J]}],order:[{order:[Hu,`first`,`last`,`none`,Y,J]}],"grid-cols":[{"grid-cols":E()}],"col-start-end":[{col:D()}],"col-start":[{"col-start":O()}],"col-end":[{"col-end":O()}],"grid-rows":[{"grid-rows":E()}],"row-start-end":[{row:D()}],"row-start":[{"row-start":O()}],"row-end":[{"row-end":O()}],"grid-flow":[{"grid-flow":[`row`,`col`,`dense`,`row-dense`,`col-dense`]}],"auto-cols":[{"auto-cols":ee()}],"auto-rows":[{"auto-rows":ee()}],gap:[{gap:w()}],"gap-x":[{"gap-x":w()}],"gap-y":[{"gap-y":w()}],"justify-content":[{justify:[...k(),`normal`]}],"justify-items":[{"justify-items":[...A(),`normal`]}],"justify-self":[{"justify-self":[`auto`,...A()]}],"align-content":[{content:[`normal`,...k()]}],"align-items":[{items:[...A(),{baseline:[``,`last`]}]}],"align-self":[{self:[`auto`,...A(),{baseline:[``,`last`]}]}],"place-content":[{"place-content":k()}],"place-items":[{"place-items":[...A(),`baseline`]}],"place-self":[{"place-self":[`auto`,...A()]}],p:[{p:w()}],px:[{px:w()}],py:[{py:w()}],ps:[{ps:w()}],pe:[{pe:w()}],pbs:[{pbs:w()}],pbe:[{pbe:w()}],pt:[{pt:w()}],pr:[{pr:w()}],pb:[{pb:w()}],pl:[{pl:w()}],m:[{m:j()}],mx:[{mx:j()}],my:[{my:j()}],ms:[{ms:j()}],me:[{me:j()}],mbs:[{mbs:j()}],mbe:[{mbe:j()}],mt:[{mt:j()}],mr:[{mr:j()}],mb:[{mb:j()}],ml:[{ml:j()}],"space-x":[{"space-x":w()}],"space-x-reverse":[`space-x-reverse`],"space-y":[{"space-y":w()}],"space-y-reverse":[`space-y-reverse`],size:[{size:M()}],"inline-size":[{inline:[`auto`,...te()]}],"min-inline-size":[{"min-inline":[`auto`,...te()]}],"max-inline-size":[{"max-inline":[`none`,...te()]}],"block-size":[{block:[`auto`,...ne()]}],"min-block-size":[{"min-block":[`auto`,...ne()]}],"max-block-size":[{"max-block":[`none`,...ne()]}],w:[{w:[s,`screen`,...M()]}],"min-w":[{"min-w":[s,`screen`,`none`,...M()]}],"max-w":[{"max-w":[s,`screen`,`none`,`prose`,{screen:[o]},...M()]}],h:[{h:[`screen`,`lh`,...M()]}],"min-h":[{"min-h":[`screen`,`lh`,`none`,...M()]}],"max-h":[{"max-h":[`screen`,`lh`,...M()]}],"font-size":[{text:[`base`,n,id,Zu]}],"font-smoothing":[`antialiased`,`subpixel-antialiased`],"font-style":[`italic`,`not-italic`],"font-weight":[{font:[r,ud,$u]}],"font-stretch":[{"font-stretch":[`ultra-condensed`,`extra-condensed`,`condensed`,`semi-condensed`,`normal`,`semi-expanded`,`expanded`,`extra-expanded`,`ultra-expanded`,Uu,J]}],"font-family":[{font:[ad,ed,t]}],"font-features":[{"font-features":[J]}],"fvn-normal":[`normal-nums`],"fvn-ordinal":[`ordinal`],"fvn-slashed-zero":[`slashed-zero`],"fvn-figure":[`lining-nums`,`oldstyle-nums`],"fvn-spacing":[`proportional-nums`,`tabular-nums`],"fvn-fraction":[`diagonal-fractions`,`stacked-fractions`],tracking:[{tracking:[i,Y,J]}],"line-clamp":[{"line-clamp":[K,`none`,Y,Qu]}],leading:[{leading:[a,...w()]}],"list-image":[{"list-image":[`none`,Y,J]}],"list-style-position":[{list:[`inside`,`outside`]}],"list-style-type":[{list:[`disc`,`decimal`,`none`,Y,J]}],"text-alignment":[{text:[`left`,`center`,`right`,`justify`,`start`,`end`]}],"placeholder-color":[{placeholder:N()}],"text-color":[{text:N()}],"text-decoration":[`underline`,`overline`,`line-through`,`no-underline`],"text-decoration-style":[{decoration:[...I(),`wavy`]}],"text-decoration-thickness":[{decoration:[K,`from-font`,`auto`,Y,Zu]}],"text-decoration-color":[{decoration:N()}],"underline-offset":[{"underline-offset":[K,`auto`,Y,J]}],"text-transform":[`uppercase`,`lowercase`,`capitalize`,`normal-case`],"text-overflow":[`truncate`,`text-ellipsis`,`text-clip`],"text-wrap":[{text:[`wrap`,`nowrap`,`balance`,`pretty`]}],indent:[{indent:w()}],"vertical-align":[{align:[`baseline`,`top`,`middle`,`bottom`,`text-top`,`text-bottom`,`sub`,`super`,Y,J]}],whitespace:[{whitespace:[`normal`,`nowrap`,`pre`,`pre-line`,`pre-wrap`,`break-spaces`]}],break:[{break:[`normal`,`words`,`all`,`keep`]}],wrap:[{wrap:[`break-word`,`anywhere`,`normal`]}],hyphens:[{hyphens:[`none`,`manual`,`auto`]}],content:[{content:[`none`,Y,J]}],"bg-attachment":[{bg:[`fixed`,`local`,`scroll`]}],"bg-clip":[{"bg-clip":[`border`,`padding`,`content`,`text`]}],"bg-origin":[{"bg-origin":[`border`,`padding`,`content`]}],"bg-position":[{bg:P()}],"bg-repeat":[{bg:re()}],"bg-size":[{bg:ie()}],"bg-image":[{bg:[`none`,{linear:[{to:[`t`,`tr`,`r`,`br`,`b`,`bl`,`l`,`tl`]},Hu,Y,J],radial:[``,Y,J],conic:[Hu,Y,J]},cd,nd]}],"bg-color":[{bg:N()}],"gradient-from-pos":[{from:ae()}],"gradient-via-pos":[{via:ae()}],"gradient-to-pos":[{to:ae()}],"gradient-from":[{from:N()}],"gradient-via":[{via:N()}],"gradient-to":[{to:N()}],rounded:[{rounded:oe()}],"rounded-s":[{"rounded-s":oe()}],"rounded-e":[{"rounded-e":oe()}],"rounded-t":[{"rounded-t":oe()}],"rounded-r":[{"rounded-r":oe()}],"rounded-b":[{"rounded-b":oe()}],"rounded-l":[{"rounded-l":oe()}],"rounded-ss":[{"rounded-ss":oe()}],"rounded-se":[{"rounded-se":oe()}],"rounded-ee":[{"rounded-ee":oe()}],"rounded-es":[{"rounded-es":oe()}],"rounded-tl":[{"rounded-tl":oe()}],"rounded-tr":[{"rounded-tr":oe()}],"rounded-br":[{"rounded-br":oe()}],"rounded-bl":[{"rounded-bl":oe()}],"border-w":[{border:F()}],"border-w-x":[{"border-x":F()}],"border-w-y":[{"border-y":F()}],"border-w-s":[{"border-s":F()}],"border-w-e":[{"border-e":F()}],"border-w-bs":[{"border-bs":F()}],"border-w-be":[{"border-be":F()}],"border-w-t":[{"border-t":F()}],"border-w-r":[{"border-r":F()}],"border-w-b":[{"border-b":F()}],"border-w-l":[{"border-l":F()}],"divide-x":[{"divide-x":F()}],"divide-x-reverse":[`divide-x-reverse`],"divide-y":[{"divide-y":F()}],"divide-y-reverse":[`divide-y-reverse`],"border-style":[{border:[...I(),`hidden`,`none`]}],"divide-style":[{divide:[...I(),`hidden`,`none`]}],"border-color":[{border:N()}],"border-color-x":[{"border-x":N()}],"border-color-y":[{"border-y":N()}],"border-color-s":[{"border-s":N()}],"border-color-e":[{"border-e":N()}],"border-color-bs":[{"border-bs":N()}],"border-color-be":[{"border-be":N()}],"border-color-t":[{"border-t":N()}],"border-color-r":[{"border-r":N()}],"border-color-b":[{"border-b":N()}],"border-color-l":[{"border-l":N()}],"divide-color":[{divide:N()}],"outline-style":[{outline:[...I(),`none`,`hidden`]}],"outline-offset":[{"outline-offset":[K,Y,J]}],"outline-w":[{outline:[``,K,id,Zu]}],"outline-color":[{outline:N()}],shadow:[{shadow:[``,`none`,u,ld,rd]}],"shadow-color":[{shadow:N()}],"inset-shadow":[{"inset-shadow":[`none`,d,ld,rd]}],"inset-shadow-color":[{"inset-shadow":N()}],"ring-w":[{ring:F()}],"ring-w-inset":[`ring-inset`],"ring-color":[{ring:N()}],"ring-offset-w":[{"ring-offset":[K,Zu]}],"ring-offset-color":[{"ring-offset":N()}],"inset-ring-w":[{"inset-ring":F()}],"inset-ring-color":[{"inset-ring":N()}],"text-shadow":[{"text-shadow":[`none`,f,ld,rd]}],"text-shadow-color":[{"text-shadow":N()}],opacity:[{opacity:[K,Y,J]}],"mix-blend":[{"mix-blend":[...se(),`plus-darker`,`plus-lighter`]}],"bg-blend":[{"bg-blend":se()}],"mask-clip":[{"mask-clip":[`border`,`padding`,`content`,`fill`,`stroke`,`view`]},`mask-no-clip`],"mask-composite":[{mask:[`add`,`subtract`,`intersect`,`exclude`]}],"mask-image-linear-pos":[{"mask-linear":[K]}],"mask-image-linear-from-pos":[{"mask-linear-from":ce()}],"mask-image-linear-to-pos":[{"mask-linear-to":ce()}],"mask-image-linear-from-color":[{"mask-linear-from":N()}],"mask-image-linear-to-color":[{"mask-linear-to":N()}],"mask-image-t-from-pos":[{"mask-t-from":ce()}],"mask-image-t-to-pos":[{"mask-t-to":ce()}],"mask-image-t-from-color":[{"mask-t-from":N()}],"mask-image-t-to-color":[{"mask-t-to":N()}],"mask-image-r-from-pos":[{"mask-r-from":ce()}],"mask-image-r-to-pos":[{"mask-r-to":ce()}],"mask-image-r-from-color":[{"mask-r-from":N()}],"mask-image-r-to-color":[{"mask-r-to":N()}],"mask-image-b-from-pos":[{"mask-b-from":ce()}],"mask-image-b-to-pos":[{"mask-b-to":ce()}],"mask-image-b-from-color":[{"mask-b-from":N()}],"mask-image-b-to-color":[{"mask-b-to":N()}],"mask-image-l-from-pos":[{"mask-l-from":ce()}],"mask-image-l-to-pos":[{"mask-l-to":ce()}],"mask-image-l-from-color":[{"mask-l-from":N()}],"mask-image-l-to-color":[{"mask-l-to":N()}],"mask-image-x-from-pos":[{"mask-x-from":ce()}],"mask-image-x-to-pos":[{"mask-x-to":ce()}],"mask-image-x-from-color":[{"mask-x-from":N()}],"mask-image-x-to-color":[{"mask-x-to":N()}],"mask-image-y-from-pos":[{"mask-y-from":ce()}],"mask-image-y-to-pos":[{"mask-y-to":ce()}],"mask-image-y-from-color":[{"mask-y-from":N()}],"mask-image-y-to-color":[{"mask-y-to":N()}],"mask-image-radial":[{"mask-radial":[Y,J]}],"mask-image-radial-from-pos":[{"mask-radial-from":ce()}],"mask-image-radial-to-pos":[{"mask-radial-to":ce()}],"mask-image-radial-from-color":[{"mask-radial-from":N()}],"mask-image-radial-to-color":[{"mask-radial-to":N()}],"mask-image-radial-shape":[{"mask-radial":[`circle`,`ellipse`]}],"mask-image-radial-size":[{"mask-radial":[{closest:[`side`,`corner`],farthest:[`side`,`corner`]}]}],"mask-image-radial-pos":[{"mask-radial-at":b()}],"mask-image-conic-pos":[{"mask-conic":[K]}],"mask-image-conic-from-pos":[{"mask-conic-from":ce()}],"mask-image-conic-to-pos":[{"mask-conic-to":ce()}],"mask-image-conic-from-color":[{"mask-conic-from":N()}],"mask-image-conic-to-color":[{"mask-conic-to":N()}],"mask-mode":[{mask:[`alpha`,`luminance`,`match`]}],"mask-origin":[{"mask-origin":[`border`,`padding`,`content`,`fill`,`stroke`,`view`]}],"mask-position":[{mask:P()}],"mask-repeat":[{mask:re()}],"mask-size":[{mask:ie()}],"mask-type":[{"mask-type":[`alpha`,`luminance`]}],"mask-image":[{mask:[`none`,Y,J]}],filter:[{filter:[``,`none`,Y,J]}],blur:[{blur:le()}],brightness:[{brightness:[K,Y,J]}],contrast:[{contrast:[K,Y,J]}],"drop-shadow":[{"drop-shadow":[``,`none`,p,ld,rd]}],"drop-shadow-color":[{"drop-shadow":N()}],grayscale:[{grayscale:[``,K,Y,J]}],"hue-rotate":[{"hue-rotate":[K,Y,J]}],invert:[{invert:[``,K,Y,J]}],saturate:[{saturate:[K,Y,J]}],sepia:[{sepia:[``,K,Y,J]}],"backdrop-filter":[{"backdrop-filter":[``,`none`,Y,J]}],"backdrop-blur":[{"backdrop-blur":le()}],"backdrop-brightness":[{"backdrop-brightness":[K,Y,J]}],"backdrop-contrast":[{"backdrop-contrast":[K,Y,J]}],"backdrop-grayscale":[{"backdrop-grayscale":[``,K,Y,J]}],"backdrop-hue-rotate":[{"backdrop-hue-rotate":[K,Y,J]}],"backdrop-invert":[{"backdrop-invert":[``,K,Y,J]}],"backdrop-opacity":[{"backdrop-opacity":[K,Y,J]}],"backdrop-saturate":[{"backdrop-saturate":[K,Y,J]}],"backdrop-sepia":[{"backdrop-sepia":[``,K,Y,J]}],"border-collapse":[{border:[`collapse`,`separate`]}],"border-spacing":[{"border-spacing":w()}],"border-spacing-x":[{"border-spacing-x":w()}],"border-spacing-y":[{"border-spacing-y":w()}],"table-layout":[{table:[`auto`,`fixed`]}],caption:[{caption:[`top`,`bottom`]}],transition:[{transition:[``,`all`,`colors`,`opacity`,`shadow`,`transform`,`none`,Y,J]}],"transition-behavior":[{transition:[`normal`,`discrete`]}],duration:[{duration:[K,`initial`,Y,J]}],ease:[{ease:[`linear`,`initial`,_,Y,J]}],delay:[{delay:[K,Y,J]}],animate:[{animate:[`none`,v,Y,J]}],backface:[{backface:[`hidden`,`visible`]}],perspective:[{perspective:[h,Y,J]}],"perspective-origin":[{"perspective-origin":x()}],rotate:[{rotate:ue()}],"rotate-x":[{"rotate-x":ue()}],"rotate-y":[{"rotate-y":ue()}],"rotate-z":[{"rotate-z":ue()}],scale:[{scale:de()}],"scale-x":[{"scale-x":de()}],"scale-y":[{"scale-y":de()}],"scale-z":[{"scale-z":de()}],"scale-3d":[`scale-3d`],skew:[{skew:fe()}],"skew-x":[{"skew-x":fe()}],"skew-y":[{"skew-y":fe()}],transform:[{transform:[Y,J,``,`none`,`gpu`,`cpu`]}],"transform-origin":[{origin:x()}],"transform-style":[{transform:[`3d`,`flat`]}],translate:[{translate:pe()}],"translate-x":[{"translate-x":pe()}],"translate-y":[{"translate-y":pe()}],"translate-z":[{"translate-z":pe()}],"translate-none":[`translate-none`],accent:[{accent:N()}],appearance:[{appearance:[`none`,`auto`]}],"caret-color":[{caret:N()}],"color-scheme":[{scheme:[`normal`,`dark`,`light`,`light-dark`,`only-dark`,`only-light`]}],cursor:[{cursor:[`auto`,`default`,`pointer`,`wait`,`text`,`move`,`help`,`not-allowed`,`none`,`context-menu`,`progress`,`cell`,`crosshair`,`vertical-text`,`alias`,`copy`,`no-drop`,`grab`,`grabbing`,`all-scroll`,`col-resize`,`row-resize`,`n-resize`,`e-resize`,`s-resize`,`w-resize`,`ne-resize`,`nw-resize`,`se-resize`,`sw-resize`,`ew-resize`,`ns-resize`,`nesw-resize`,`nwse-resize`,`zoom-in`,`zoom-out`,Y,J]}],"field-sizing":[{"field-sizing":[`fixed`,`content`]}],"pointer-events":[{"pointer-events":[`auto`,`none`]}],resize:[{resize:[`none`,``,`y`,`x`]}],"scroll-behavior":[{scroll:[`auto`,`smooth`]}],"scroll-m":[{"scroll-m":w()}],"scroll-mx":[{"scroll-mx":w()}],"scroll-my":[{"scroll-my":w()}],"scroll-ms":[{"scroll-ms":w()}],"scroll-me":[{"scroll-me":w()}],"scroll-mbs":[{"scroll-mbs":w()}],"scroll-mbe":[{"scroll-mbe":w()}],"scroll-mt":[{"scroll-mt":w()}],"scroll-mr":[{"scroll-mr":w()}],"scroll-mb":[{"scroll-mb":w()}],"scroll-ml":[{"scroll-ml":w()}],"scroll-p":[{"scroll-p":w()}],"scroll-px":[{"scroll-px":w()}],"scroll-py":[{"scroll-py":w()}],"scroll-ps":[{"scroll-ps":w()}],"scroll-pe":[{"scroll-pe":w()}],"scroll-pbs":[{"scroll-pbs":w()}],"scroll-pbe":[{"scroll-pbe":w()}],"scroll-pt":[{"scroll-pt":w()}],"scroll-pr":[{"scroll-pr":w()}],"scroll-pb":[{"scroll-pb":w()}],"scroll-pl":[{"scroll-pl":w()}],"snap-align":[{snap:[`start`,`end`,`center`,`align-none`]}],"snap-stop":[{snap:[`normal`,`always`]}],"snap-type":[{snap:[`none`,`x`,`y`,`both`]}],"snap-strictness":[{snap:[`mandatory`,`proximity`]}],touch:[{touch:[`auto`,`none`,`manipulation`]}],"touch-x":[{"touch-pan":[`x`,`left`,`right`]}],"touch-y":[{"touch-pan":[`y`,`up`,`down`]}],"touch-pz":[`touch-pinch-zoom`],select:[{select:[`none`,`text`,`all`,`auto`]}],"will-change":[{"will-change":[`auto`,`scroll`,`contents`,`transform`,Y,J]}],fill:[{fill:[`none`,...N()]}],"stroke-w":[{stroke:[K,id,Zu,Qu]}],stroke:[{stroke:[`none`,...N()]}],"forced-color-adjust":[{"forced-color-adjust":[`auto`,`none`]}]},conflictingClassGroups:{overflow:[`overflow-x`,`overflow-y`],overscroll:[`overscroll-x`,`overscroll-y`],inset:[`inset-x`,`inset-y`,`inset-bs`,`inset-be`,`start`,`end`,`top`,`right`,`bottom`,`left`],"inset-x":[`right`,`left`],"inset-y":[`top`,`bottom`],flex:[`basis`,`grow`,`shrink`],gap:[`gap-x`,`gap-y`],p:[`px`,`py`,`ps`,`pe`,`pbs`,`pbe`,`pt`,`pr`,`pb`,`pl`],px:[`pr`,`pl`],py:[`pt`,`pb`],m:[`mx`,`my`,`ms`,`me`,`mbs`,`mbe`,`mt`,`mr`,`mb`,`ml`],mx:[`mr`,`ml`],my:[`mt`,`mb`],size:[`w`,`h`],"font-size":[`leading`],"fvn-normal":[`fvn-ordinal`,`fvn-slashed-zero`,`fvn-figure`,`fvn-spacing`,`fvn-fraction`],"fvn-ordinal":[`fvn-normal`],"fvn-slashed-zero":[`fvn-normal`],"fvn-figure":[`fvn-normal`],"fvn-spacing":[`fvn-normal`],"fvn-fraction":[`fvn-normal`],"line-clamp":[`display`,`overflow`],rounded:[`rounded-s`,`rounded-e`,`rounded-t`,`rounded-r`,`rounded-b`,`rounded-l`,`rounded-ss`,`rounded-se`,`rounded-ee`,`rounded-es`,`rounded-tl`,`rounded-tr`,`rounded-br`,`rounded-bl`],"rounded-s":[`rounded-ss`,`rounded-es`],"rounded-e":[`rounded-se`,`rounded-ee`],"rounded-t":[`rounded-tl`,`rounded-tr`],"rounded-r":[`rounded-tr`,`rounded-br`],"rounded-b":[`rounded-br`,`rounded-bl`],"rounded-l":[`rounded-tl`,`rounded-bl`],"border-spacing":[`border-spacing-x`,`border-spacing-y`],"border-w":[`border-w-x`,`border-w-y`,`border-w-s`,`border-w-e`,`border-w-bs`,`border-w-be`,`border-w-t`,`border-w-r`,`border-w-b`,`border-w-l`],"border-w-x":[`border-w-r`,`border-w-l`],"border-w-y":[`border-w-t`,`border-w-b`],"border-color":[`border-color-x`,`border-color-y`,`border-color-s`,`border-color-e`,`border-color-bs`,`border-color-be`,`border-color-t`,`border-color-r`,`border-color-b`,`border-color-l`],"border-color-x":[`border-color-r`,`border-color-l`],"border-color-y":[`border-color-t`,`border-color-b`],translate:[`translate-x`,`translate-y`,`translate-none`],"translate-none":[`translate`,`translate-x`,`translate-y`,`translate-z`],"scroll-m":[`scroll-mx`,`scroll-my`,`scroll-ms`,`scroll-me`,`scroll-mbs`,`scroll-mbe`,`scroll-mt`,`scroll-mr`,`scroll-mb`,`scroll-ml`],"scroll-mx":[`scroll-mr`,`scroll-ml`],"scroll-my":[`scroll-mt`,`scroll-mb`],"scroll-p":[`scroll-px`,`scroll-py`,`scroll-ps`,`scroll-pe`,`scroll-pbs`,`scroll-pbe`,`scroll-pt`,`scroll-pr`,`scroll-pb`,`scroll-pl`],"scroll-px":[`scroll-pr`,`scroll-pl`],"scroll-py":[`scroll-pt`,`scroll-pb`],touch:[`touch-x`,`touch-y`,`touch-pz`],"touch-x":[`touch`],"touch-y":[`touch`],"touch-pz":[`touch`]},conflictingClassGroupModifiers:{"font-size":[`leading`]},orderSensitiveModifiers:[`*`,`**`,`after`,`backdrop`,`before`,`details-content`,`file`,`first-letter`,`first-line`,`marker`,`placeholder`,`selection`]}});function X(...e){return xd(Xl(e))}var Sd=$l(`ui-button`,{variants:{variant:{default:`ui-button--default`,outline:`ui-button--outline`,ghost:`ui-button--ghost`,destructive:`ui-button--destructive`},size:{default:`ui-button--default-size`,sm:`ui-button--sm`,icon:`ui-button--icon`}},defaultVariants:{variant:`default`,size:`default`}}),Z=C.forwardRef(({className:e,variant:t,size:n,asChild:r=!1,...i},a)=>(0,L.jsx)(r?Ce:`button`,{className:X(Sd({variant:t,size:n}),e),ref:a,...i}));Z.displayName=`Button`;var Cd=C.forwardRef(({className:e,...t},n)=>(0,L.jsx)(`input`,{ref:n,className:X(`ui-input`,e),...t}));Cd.displayName=`Input`;function Q({className:e,...t}){return(0,L.jsx)(`div`,{className:X(`ui-card`,e),...t})}function wd({className:e,tone:t=`default`,...n}){return(0,L.jsx)(`span`,{className:X(`ui-badge`,`ui-badge--${t}`,e),...n})}var Td=Br,Ed=Wr,Dd=Gr,Od=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsxs)(Vr,{children:[(0,L.jsx)(Hr,{className:`ui-dialog-overlay`}),(0,L.jsxs)(Ur,{ref:r,className:X(`ui-dialog-content`,e),...n,children:[t,(0,L.jsx)(Kr,{className:`ui-dialog-close`,"aria-label":`Закрыть`,children:(0,L.jsx)(fe,{size:16})})]})]}));Od.displayName=`DialogContent`;var kd=lc,Ad=dc,jd=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsxs)(uc,{ref:r,className:X(`ui-select-trigger`,e),...n,children:[t,(0,L.jsx)(fc,{asChild:!0,children:(0,L.jsx)(te,{size:16})})]}));jd.displayName=`SelectTrigger`;var Md=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsx)(pc,{children:(0,L.jsx)(mc,{ref:r,className:X(`ui-select-content`,e),position:`popper`,...n,children:(0,L.jsx)(hc,{className:`ui-select-viewport`,children:t})})}));Md.displayName=`SelectContent`;var $=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsxs)(gc,{ref:r,className:X(`ui-select-item`,e),...n,children:[(0,L.jsx)(_c,{children:t}),(0,L.jsx)(vc,{className:`ui-select-check`,children:(0,L.jsx)(M,{size:14})})]}));$.displayName=`SelectItem`;var Nd=tl,Pd=C.forwardRef(({className:e,...t},n)=>(0,L.jsx)(nl,{ref:n,className:X(`ui-tabs-list`,e),...t}));Pd.displayName=`TabsList`;var Fd=C.forwardRef(({className:e,...t},n)=>(0,L.jsx)(rl,{ref:n,className:X(`ui-tabs-trigger`,e),...t}));Fd.displayName=`TabsTrigger`;var Id=Wl,Ld=C.forwardRef(({className:e,...t},n)=>(0,L.jsx)(Gl,{ref:n,className:X(`ui-accordion-item`,e),...t}));Ld.displayName=`AccordionItem`;var Rd=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsx)(Kl,{className:`ui-accordion-header`,children:(0,L.jsxs)(ql,{ref:r,className:X(`ui-accordion-trigger`,e),...n,children:[t,(0,L.jsx)(te,{size:16})]})}));Rd.displayName=`AccordionTrigger`;var zd=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsx)(Jl,{ref:r,className:X(`ui-accordion-content`,e),...n,children:(0,L.jsx)(`div`,{className:`ui-accordion-content-inner`,children:t})}));zd.displayName=`AccordionContent`;function Bd(e,t){if(e==null||t==null)return null;let n=String(e).trim(),r=Number(t);return!Number.isInteger(r)||r<=0?null:/^-100\d+$/.test(n)?`https://t.me/c/${n.slice(4)}/${r}`:/^\d+$/.test(n)?`tg://openmessage?user_id=${n}&message_id=${r}`:null}function Vd(e){if(!e)return null;if(e.status===`awaiting_grade`){let t=Bd(e.pendingChannelId,e.pendingChannelMessageId);if(t)return t}return Bd(e.sourceChatId,e.sourceMessageId)}var Hd=window.Telegram?.WebApp||{initData:``,initDataUnsafe:{},themeParams:{},ready(){},expand(){},showAlert(e){window.alert(e)}},Ud={pending:`Ожидает`,learning:`Изучается`,awaiting_grade:`Ждёт оценки`,archived:`Архив`},Wd={pending:`muted`,learning:`default`,awaiting_grade:`inverse`,archived:`muted`},Gd={scheduled:`по расписанию`,manual_now:`вручную`,manual_override:`дата вручную`,one_time:`одноразовое`},Kd=[{id:`bd2a193e-ee12-49b0-8845-3d4aa27dfab9`,sourceChatId:`359367655`,sourceMessageId:1603,contentType:`text`,contentPreview:`https://www.instagram.com/p/DXcxc8EDLU2/?igsh=MXR5c3RjY2J5aHI5bA==`,status:`awaiting_grade`,repetition:4,nextReviewAt:`2026-04-25T23:19:00.000Z`,lastReviewedAt:`2026-04-24T13:04:00.000Z`,pendingChannelId:`359367655`,pendingChannelMessageId:1763,baseChannelMessageId:1764,awaitingGradeSince:`2026-04-28T20:21:53.000Z`,lastNotificationAt:`2026-04-28T20:21:53.000Z`,lastNotificationReason:`manual_now`,lastNotificationMessageId:1763,createdAt:`2026-04-24T10:04:00.000Z`,updatedAt:`2026-04-28T20:21:53.000Z`},{id:`8f54d9c4-4ad6-4bd5-9461-4b5807a7bb19`,sourceChatId:`359367655`,sourceMessageId:1710,contentType:`text`,contentPreview:`Короткая текстовая заметка без ссылки, чтобы проверить вертикальные интервалы и плотность карточек.`,status:`learning`,repetition:1,nextReviewAt:`2026-04-30T09:10:00.000Z`,lastReviewedAt:null,pendingChannelId:null,pendingChannelMessageId:null,baseChannelMessageId:null,awaitingGradeSince:null,lastNotificationAt:null,lastNotificationReason:null,lastNotificationMessageId:null,createdAt:`2026-04-26T09:00:00.000Z`,updatedAt:`2026-04-26T09:00:00.000Z`},{id:`14f9fb42-720e-4dbd-b3d7-c22de2830f1d`,sourceChatId:`359367655`,sourceMessageId:1731,contentType:`text`,contentPreview:`Разобрать заметки по проекту и вынести повторяемые правила в короткий список.`,status:`pending`,repetition:0,nextReviewAt:null,lastReviewedAt:null,pendingChannelId:null,pendingChannelMessageId:null,baseChannelMessageId:null,awaitingGradeSince:null,lastNotificationAt:null,lastNotificationReason:null,lastNotificationMessageId:null,createdAt:`2026-04-28T11:00:00.000Z`,updatedAt:`2026-04-28T11:00:00.000Z`}],qd={timezone:`Asia/Tbilisi`,activeHoursStart:600,activeHoursEnd:1320,minGapMinutes:30},Jd=[{id:`demo-course-sql`,ownerUserId:`demo`,title:`Основы SQL`,description:`Короткий курс из практических шагов.`,status:`active`,stepCount:4,activeEnrollmentCount:0,completedEnrollmentCount:0,createdAt:new Date().toISOString(),updatedAt:new Date().toISOString()}],Yd=()=>new URLSearchParams(window.location.search).has(`demo`),Xd=e=>Hd.showAlert?.(e)||window.alert(e),Zd=()=>{let e=new URLSearchParams(window.location.search),t=Hd.initDataUnsafe?.start_param||e.get(`tgWebAppStartParam`)||e.get(`startapp`)||e.get(`start_param`);if(!t)return null;let n;try{n=decodeURIComponent(t)}catch{return null}return n.startsWith(`card_`)?{type:`card`,cardId:n.slice(5)}:n.startsWith(`notification_`)?{type:`notification`,cardId:n.slice(13)}:n.startsWith(`view_`)?{type:`view`,view:n.slice(5)}:null},Qd=e=>{if(!e)return`—`;let t=new Date(e);return Number.isNaN(t.getTime())?`—`:t.toLocaleString(`ru`,{day:`numeric`,month:`short`,year:`numeric`,hour:`2-digit`,minute:`2-digit`})},$d=e=>{if(!e)return`Без даты`;let t=new Date(e);return Number.isNaN(t.getTime())?`Без даты`:t.toLocaleString(`ru`,{day:`numeric`,month:`short`,hour:`2-digit`,minute:`2-digit`})},ef=e=>{if(!e)return`—`;let t=new Date(e);return Number.isNaN(t.getTime())?`—`:t.toLocaleTimeString(`ru`,{hour:`2-digit`,minute:`2-digit`})},tf=e=>{let t=e=>String(e).padStart(2,`0`);return`${e.getFullYear()}-${t(e.getMonth()+1)}-${t(e.getDate())}T${t(e.getHours())}:${t(e.getMinutes())}`},nf=e=>{if(!e)return null;let t=new Date(e);return Number.isNaN(t.getTime())||t.getTime()<=Date.now()?null:t.toISOString()},rf=e=>{let t=Math.max(0,Math.min(1440,Math.round(e))),n=Math.floor(t/60),r=t%60;return`${String(n).padStart(2,`0`)}:${String(r).padStart(2,`0`)}`},af=e=>{let t=e.match(/^(\d{2}):(\d{2})$/);if(!t)return null;let n=Number(t[1]),r=Number(t[2]);return!Number.isInteger(n)||!Number.isInteger(r)||n<0||n>24||r<0||r>59||n===24&&r!==0?null:n*60+r},of=e=>{let t=new Date(e);return`${t.getFullYear()}-${String(t.getMonth()+1).padStart(2,`0`)}-${String(t.getDate()).padStart(2,`0`)}`},sf=(e,t=1/0)=>{let n=e?new Date(e).getTime():NaN;return Number.isFinite(n)?n:t};async function cf(e){if(!e.trim())return!1;try{return await navigator.clipboard.writeText(e),!0}catch{let t=document.createElement(`textarea`);t.value=e,t.style.position=`fixed`,t.style.opacity=`0`,document.body.appendChild(t),t.select();let n=document.execCommand(`copy`);return t.remove(),n}}function lf(){let[e,t]=(0,C.useState)(`create`),[n,r]=(0,C.useState)([]),[i,a]=(0,C.useState)([]),[o,s]=(0,C.useState)(!1),[c,l]=(0,C.useState)(null),[u,d]=(0,C.useState)([]),[f,p]=(0,C.useState)(!1),[m,h]=(0,C.useState)(null),[g,_]=(0,C.useState)(null),[v,y]=(0,C.useState)(null),[b,x]=(0,C.useState)(null),[S,w]=(0,C.useState)(null),[T,E]=(0,C.useState)(null),[D,O]=(0,C.useState)(null),[ee,k]=(0,C.useState)(null),[A,j]=(0,C.useState)(`all`),[M,te]=(0,C.useState)(`nextReviewAsc`),[ne,N]=(0,C.useState)(``),[P,re]=(0,C.useState)(null),[ie,ae]=(0,C.useState)(()=>new Date),[oe,F]=(0,C.useState)(null),[I,se]=(0,C.useState)(!0),[ce,le]=(0,C.useState)(null),[ue,de]=(0,C.useState)(null),[fe,pe]=(0,C.useState)(null),me=Yd(),he=me||g?.ownerTools===!0||g===null,ge=e===`card-detail`?`Карточка`:e===`notification-detail`?`Уведомление`:e===`balance`?`Распределение`:e===`courses`?`Курсы`:e===`calendar`?`Календарь`:e===`stats`?`Статистика`:e===`queue`?`Очередь`:e===`create`?`Создать`:`Мои карточки`,_e=e===`create`?`Быстрое бытовое напоминание: покупки, лекарства, дни рождения.`:e===`queue`?`Потяните следующую карточку, когда готовы посмотреть.`:e===`courses`?`Создайте простой курс и запустите шаги в очередь.`:e===`calendar`?`Ближайшие повторения по дням.`:e===`stats`?`Короткая сводка по прогрессу.`:e===`balance`?`Визуальная проверка расписания до применения.`:e===`card-detail`?`Содержимое, расписание и действия.`:e===`notification-detail`?`Что отправлено и к какой карточке относится.`:`Повторения, календарь и прогресс.`;(0,C.useEffect)(()=>{Hd.ready?.(),Hd.expand?.(),document.documentElement.dataset.theme=`dark`;let e=new URLSearchParams(window.location.search).get(`font`)||`a`;document.documentElement.dataset.font=[`a`,`b`,`c`,`tt`,`wix`].includes(e)?e:`wix`},[]);let ve=async(e,t={})=>{if(me)return zf(e,t,n,r,u,d);if(!Hd.initData)throw Error(`Telegram initData не доступен. Откройте приложение через бота.`);let i=await fetch(`${window.location.origin}${e}`,{...t,headers:{"Content-Type":`application/json`,"X-Telegram-Init-Data":Hd.initData,...t.headers||{}}});if(!i.ok)throw Error(await i.text());return i.json()},ye=async(e=A)=>{se(!0),le(null);try{r((await ve(`/api/miniapp/cards${e===`all`?``:`?status=${e}`}`)).data||[])}catch(e){le(e instanceof Error?e.message:String(e))}finally{se(!1)}},be=async()=>{if(he){s(!0),l(null);try{a((await ve(`/api/miniapp/queue?limit=20`)).data.items||[])}catch(e){l(e instanceof Error?e.message:String(e))}finally{s(!1)}}},xe=async()=>{if(he){p(!0),h(null);try{d((await ve(`/api/miniapp/courses`)).data||[])}catch(e){h(e instanceof Error?e.message:String(e))}finally{p(!1)}}},Se=async()=>{if(me){_({userId:String(Hd.initDataUnsafe?.user?.id??`demo`),ownerTools:!0});return}try{_((await ve(`/api/miniapp/me`)).data)}catch{_({userId:``,ownerTools:!1})}},Ce=async()=>{if(x(null),me){y(If(n.length?n:Kd));return}try{y((await ve(`/api/miniapp/stats`)).data)}catch(e){x(e instanceof Error?e.message:String(e))}},we=async()=>{if(E(null),me){w(qd);return}try{w((await ve(`/api/miniapp/settings/reminders`)).data)}catch(e){E(e instanceof Error?e.message:String(e))}};(0,C.useEffect)(()=>{Se(),ye(`all`)},[]),(0,C.useEffect)(()=>{let e=Zd();!e||I||!n.length||(e.type===`card`&&(re(e.cardId),t(`card-detail`)),e.type===`notification`&&(re(e.cardId),t(`notification-detail`)),e.type===`view`&&[`create`,`queue`,`courses`,`cards`,`calendar`,`stats`,`balance`].includes(e.view)&&t(e.view))},[I,n.length]),(0,C.useEffect)(()=>{e===`stats`&&(Ce(),we())},[e]),(0,C.useEffect)(()=>{(e===`balance`||e===`queue`||e===`courses`)&&g&&!g.ownerTools&&t(`cards`)},[g,e]),(0,C.useEffect)(()=>{e===`queue`&&he&&be()},[e,g?.ownerTools]),(0,C.useEffect)(()=>{e===`courses`&&he&&xe()},[e,g?.ownerTools]);let Te=(0,C.useMemo)(()=>{let e=ne.trim().toLowerCase();return[...n.filter(t=>A!==`all`&&t.status!==A?!1:e?(t.contentPreview||``).toLowerCase().includes(e)||t.id.toLowerCase().includes(e):!0)].sort((e,t)=>M===`nextReviewDesc`?sf(t.nextReviewAt,-1)-sf(e.nextReviewAt,-1):M===`updatedDesc`?sf(t.updatedAt,-1)-sf(e.updatedAt,-1):M===`repetitionDesc`?Number(t.repetition||0)-Number(e.repetition||0):sf(e.nextReviewAt)-sf(t.nextReviewAt))},[n,ne,M,A]),Ee=(0,C.useMemo)(()=>n.find(e=>e.id===P)||null,[n,P]),De=(0,C.useMemo)(()=>n.filter(e=>e.status===`learning`&&e.nextReviewAt),[n]),Oe=e=>{re(e.id),t(`card-detail`)},R=async(e,t)=>{pe(`status:${e.id}`);try{me||await ve(`/api/miniapp/cards/${e.id}/status`,{method:`POST`,body:JSON.stringify({status:t})});let n=new Date().toISOString();r(r=>r.map(r=>r.id===e.id?{...r,status:t,updatedAt:n}:r))}finally{pe(null)}},ke=e=>{let t=e.status===`archived`;de({title:t?`Разархивировать карточку?`:`Архивировать карточку?`,body:t?`Карточка вернётся в активные списки.`:`Карточка будет скрыта из активного расписания.`,label:t?`Разархивировать`:`Архивировать`,danger:!t,action:()=>R(e,t?`learning`:`archived`)})},Ae=e=>{de({title:`Отправить напоминание?`,body:`Бот сразу отправит напоминание по этой карточке в Telegram.`,label:`Отправить`,action:async()=>{pe(`reminder:${e.id}`);try{me||await ve(`/api/miniapp/cards/${e.id}/send-reminder`,{method:`POST`});let t=new Date().toISOString();r(n=>n.map(n=>n.id===e.id?{...n,status:`awaiting_grade`,awaitingGradeSince:t,lastNotificationAt:t,lastNotificationReason:`manual_now`}:n)),Hd.HapticFeedback?.notificationOccurred?.(`success`),Xd(`Напоминание отправлено`)}finally{pe(null)}}})},je=async(e,t)=>{pe(`one-time:${e.id}`);try{me||await ve(`/api/miniapp/cards/${e.id}/one-time-reminder`,{method:`POST`,body:JSON.stringify({remindAt:t})}),Hd.HapticFeedback?.notificationOccurred?.(`success`),Xd(`Одноразовое напоминание назначено`)}finally{pe(null)}},Me=async e=>{pe(`settings:reminders`);try{w(me?e:(await ve(`/api/miniapp/settings/reminders`,{method:`POST`,body:JSON.stringify(e)})).data),Hd.HapticFeedback?.notificationOccurred?.(`success`),Xd(`Настройки напоминаний сохранены`)}finally{pe(null)}},Ne=async e=>{pe(`rebalance:preview`),k(null);try{O((await ve(`/api/miniapp/reminders/rebalance/preview`,{method:`POST`,body:JSON.stringify(e)})).data)}catch(e){throw k(e instanceof Error?e.message:`Не удалось построить план`),e}finally{pe(null)}},Pe=async()=>{if(D){pe(`rebalance:apply`);try{let e=await ve(`/api/miniapp/reminders/rebalance/apply`,{method:`POST`,body:JSON.stringify({planToken:D.planToken,changes:D.changes})});Hd.HapticFeedback?.notificationOccurred?.(`success`),Xd(`Расписание обновлено: ${e.data.updated}`),O(null),await ye(`all`)}finally{pe(null)}}};return(0,L.jsxs)(`div`,{className:`app-shell`,children:[(0,L.jsx)(`header`,{className:`app-header`,children:(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`p`,{className:`app-kicker`,children:`Интервальное повторение`}),(0,L.jsx)(`h1`,{children:ge}),(0,L.jsx)(`p`,{children:_e})]})}),e!==`card-detail`&&e!==`notification-detail`?(0,L.jsx)(Nd,{value:e,onValueChange:e=>t(e),className:`app-tabs`,children:(0,L.jsxs)(Pd,{className:he?`tabs-count-7`:`tabs-count-4`,children:[(0,L.jsx)(Fd,{value:`create`,children:`Создать`}),he?(0,L.jsx)(Fd,{value:`queue`,children:`Очередь`}):null,he?(0,L.jsx)(Fd,{value:`courses`,children:`Курсы`}):null,(0,L.jsx)(Fd,{value:`cards`,children:`Карточки`}),(0,L.jsx)(Fd,{value:`calendar`,children:`Календарь`}),(0,L.jsx)(Fd,{value:`stats`,children:`Статистика`}),he?(0,L.jsx)(Fd,{value:`balance`,children:`Баланс`}):null]})}):null,(0,L.jsxs)(`main`,{className:`app-main`,children:[e===`create`?(0,L.jsx)(ff,{busy:fe===`reminder:create`,onCreate:async e=>{pe(`reminder:create`);try{let t=await ve(`/api/miniapp/reminders`,{method:`POST`,body:JSON.stringify({text:e})});return Hd.HapticFeedback?.notificationOccurred?.(`success`),await ye(`all`),(me||g?.ownerTools)&&await be(),t.data}finally{pe(null)}},onOpenCard:e=>{re(e.id),t(`card-detail`)}}):null,e===`queue`&&he?(0,L.jsx)(mf,{items:i,loading:o,error:c,busyKey:fe,onReload:be,onAction:async(e,t,n={})=>{pe(`queue:${t}:${e.card.id}`);try{await ve(`/api/miniapp/queue/cards/${e.card.id}/${t}`,{method:`POST`,body:JSON.stringify({jobId:e.job?.id,...n})}),t===`viewed`&&a(t=>t.filter(t=>t.id!==e.id)),t!==`not-viewed`&&Hd.HapticFeedback?.notificationOccurred?.(`success`),await be(),await ye(`all`)}finally{pe(null)}},onOpen:e=>{re(e.id),t(`card-detail`)}}):null,e===`courses`&&he?(0,L.jsx)(pf,{courses:u,loading:f,error:m,busyKey:fe,onCreate:async e=>{pe(`course:create`);try{await ve(`/api/miniapp/courses`,{method:`POST`,body:JSON.stringify(e)}),Hd.HapticFeedback?.notificationOccurred?.(`success`),Xd(`Курс создан`),await xe()}finally{pe(null)}},onStart:async e=>{pe(`course:start:${e.id}`);try{await ve(`/api/miniapp/courses/${e.id}/start`,{method:`POST`,body:JSON.stringify({cadence:`after_view`})}),Hd.HapticFeedback?.notificationOccurred?.(`success`),Xd(`Первый шаг добавлен в очередь`),await xe(),await be()}finally{pe(null)}},onReload:xe}):null,e===`cards`?(0,L.jsx)(_f,{cards:Te,allCards:n,loading:I,error:ce,query:ne,setQuery:N,statusFilter:A,setStatusFilter:j,sortMode:M,setSortMode:te,reload:()=>ye(A),reset:()=>{j(`all`),te(`nextReviewAsc`),N(``),ye(`all`)},onOpen:Oe,onArchive:ke,onReminder:Ae,busyKey:fe}):null,e===`card-detail`&&Ee?(0,L.jsx)(yf,{card:Ee,onBack:()=>t(`cards`),onReminder:Ae,onOneTimeReminder:je,onArchive:ke,busyKey:fe}):null,e===`notification-detail`&&Ee?(0,L.jsx)(bf,{card:Ee,onBack:()=>t(`cards`)}):null,e===`calendar`?(0,L.jsx)(xf,{cards:De,month:ie,setMonth:ae,selectedDate:oe,setSelectedDate:F,onOpen:Oe}):null,e===`stats`?(0,L.jsx)(wf,{stats:v||If(n),loading:!v&&!b,error:b,reminderSettings:S,settingsError:T,settingsSaving:fe===`settings:reminders`,onSaveReminderSettings:Me}):null,e===`balance`&&g?.ownerTools?(0,L.jsx)(Ef,{preview:D,error:ee,busyKey:fe,onPreview:Ne,onApply:()=>de({title:`Применить новое расписание?`,body:`Будущие review-напоминания будут перенесены по показанному варианту.`,label:`Применить`,action:Pe}),onReset:()=>O(null)}):null]},e),(0,L.jsx)(Td,{open:!!ue,onOpenChange:e=>!e&&de(null),children:(0,L.jsxs)(Od,{children:[(0,L.jsx)(Ed,{children:ue?.title}),(0,L.jsx)(Dd,{children:ue?.body}),(0,L.jsxs)(`div`,{className:`dialog-actions`,children:[(0,L.jsx)(Z,{variant:`outline`,onClick:()=>de(null),children:`Отмена`}),(0,L.jsx)(Z,{variant:ue?.danger?`destructive`:`default`,onClick:async()=>{if(!ue)return;let e=ue.action;de(null);try{await e()}catch(e){Xd(e instanceof Error?e.message:`Не удалось выполнить действие`)}},children:ue?.label})]})]})})]})}var uf=.45,df=[{icon:de,label:`Покупки`,text:`Купить молоко завтра в 10`},{icon:I,label:`Лекарство`,text:`Принять витамин каждый день в 9`},{icon:oe,label:`День рождения`,text:`День рождения мамы 25.05`}];function ff({busy:e,onCreate:t,onOpenCard:n}){let[r,i]=(0,C.useState)(``),[a,o]=(0,C.useState)(null),s=r.trim().length>0,c=async()=>{if(!s){Xd(`Напишите напоминание`);return}try{o(await t(r.trim())),i(``),Xd(`Напоминание создано`)}catch(e){Xd(e instanceof Error?e.message:`Не удалось создать напоминание`)}};return(0,L.jsxs)(`div`,{className:`create-reminder-stack`,children:[(0,L.jsxs)(Q,{className:`quick-create-card`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Быстрое напоминание`}),(0,L.jsx)(`p`,{children:`Напишите обычной фразой с датой или расписанием.`})]}),(0,L.jsx)(ee,{size:20})]}),(0,L.jsx)(`textarea`,{className:`ui-textarea quick-create-input`,value:r,onChange:e=>i(e.target.value),placeholder:`Например: купить молоко завтра в 10`}),(0,L.jsx)(`div`,{className:`quick-template-grid`,children:df.map(e=>{let t=e.icon;return(0,L.jsxs)(`button`,{type:`button`,className:`quick-template`,onClick:()=>i(e.text),children:[(0,L.jsx)(t,{size:16}),(0,L.jsx)(`span`,{children:e.label})]},e.label)})}),(0,L.jsxs)(Z,{disabled:e||!s,onClick:()=>void c(),children:[(0,L.jsx)(ce,{size:16}),`Создать`]})]}),a?(0,L.jsxs)(Q,{className:`created-reminder-card`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(wd,{tone:a.plan.mode===`one_time`?`muted`:`inverse`,children:a.plan.mode===`one_time`?`одноразовое`:`регулярное`}),(0,L.jsx)(`h2`,{children:a.plan.title}),(0,L.jsx)(`p`,{children:a.plan.mode===`one_time`?`Напомню ${Qd(a.plan.remindAt)}`:`${a.plan.ruleText}. Следующее ${Qd(a.plan.nextReviewAt)}`})]}),(0,L.jsx)(Z,{variant:`outline`,onClick:()=>n(a.card),children:`Открыть карточку`})]}):null]})}function pf({courses:e,loading:t,error:n,busyKey:r,onCreate:i,onStart:a,onReload:o}){let[s,c]=(0,C.useState)(``),[l,u]=(0,C.useState)(``),[d,f]=(0,C.useState)(``),p=(0,C.useMemo)(()=>Af(d),[d]),m=r===`course:create`,h=s.trim().length>0&&p.length>0,g=async()=>{if(!h){Xd(`Добавьте название и хотя бы один шаг`);return}try{await i({title:s.trim(),description:l.trim()||null,steps:p}),c(``),u(``),f(``)}catch(e){Xd(e instanceof Error?e.message:`Не удалось создать курс`)}};return(0,L.jsxs)(`div`,{className:`courses-stack`,children:[(0,L.jsxs)(Q,{className:`course-editor`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Новый курс`}),(0,L.jsx)(`p`,{children:`Каждый блок станет отдельным шагом очереди.`})]}),(0,L.jsx)(k,{size:20})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Название`}),(0,L.jsx)(Cd,{value:s,onChange:e=>c(e.target.value),placeholder:`Основы SQL`})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Описание`}),(0,L.jsx)(Cd,{value:l,onChange:e=>u(e.target.value),placeholder:`Коротко, чему учимся`})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Шаги`}),(0,L.jsx)(`textarea`,{className:`ui-textarea`,value:d,onChange:e=>f(e.target.value),placeholder:`JOIN руками
+For more information, see https://radix-ui.com/primitives/docs/components/${t.docsSlug}`;return C.useEffect(()=>{e&&(document.getElementById(e)||console.error(n))},[n,e]),null},Vr=`DialogDescriptionWarning`,Hr=({contentRef:e,descriptionId:t})=>{let n=`Warning: Missing \`Description\` or \`aria-describedby={undefined}\` for {${zr(Vr).contentName}}.`;return C.useEffect(()=>{let r=e.current?.getAttribute(`aria-describedby`);t&&r&&(document.getElementById(t)||console.warn(n))},[n,e,t]),null},Ur=mr,Wr=br,Gr=Sr,Kr=Er,qr=jr,Jr=Nr,Yr=Fr;function Xr(e,[t,n]){return Math.min(n,Math.max(t,e))}function Zr(e){let t=Qr(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e,a=C.Children.toArray(r),o=a.find(ei);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}function Qr(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(C.isValidElement(n)){let e=ni(n),i=ti(r,n.props);return n.type!==C.Fragment&&(i.ref=t?be(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var $r=Symbol(`radix.slottable`);function ei(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===$r}function ti(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function ni(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}function ri(e){let t=e+`CollectionProvider`,[n,r]=Fe(t),[i,a]=n(t,{collectionRef:{current:null},itemMap:new Map}),o=e=>{let{scope:t,children:n}=e,r=C.useRef(null),a=C.useRef(new Map).current;return(0,L.jsx)(i,{scope:t,itemMap:a,collectionRef:r,children:n})};o.displayName=t;let s=e+`CollectionSlot`,c=Zr(s),l=C.forwardRef((e,t)=>{let{scope:n,children:r}=e;return(0,L.jsx)(c,{ref:xe(t,a(s,n).collectionRef),children:r})});l.displayName=s;let u=e+`CollectionItemSlot`,d=`data-radix-collection-item`,f=Zr(u),p=C.forwardRef((e,t)=>{let{scope:n,children:r,...i}=e,o=C.useRef(null),s=xe(t,o),c=a(u,n);return C.useEffect(()=>(c.itemMap.set(o,{ref:o,...i}),()=>void c.itemMap.delete(o))),(0,L.jsx)(f,{[d]:``,ref:s,children:r})});p.displayName=u;function m(t){let n=a(e+`CollectionConsumer`,t);return C.useCallback(()=>{let e=n.collectionRef.current;if(!e)return[];let t=Array.from(e.querySelectorAll(`[${d}]`));return Array.from(n.itemMap.values()).sort((e,n)=>t.indexOf(e.ref.current)-t.indexOf(n.ref.current))},[n.collectionRef,n.itemMap])}return[{Provider:o,Slot:l,ItemSlot:p},m,r]}var ii=C.createContext(void 0);function ai(e){let t=C.useContext(ii);return e||t||`ltr`}var oi=[`top`,`right`,`bottom`,`left`],si=Math.min,ci=Math.max,li=Math.round,ui=Math.floor,di=e=>({x:e,y:e}),fi={left:`right`,right:`left`,bottom:`top`,top:`bottom`};function pi(e,t,n){return ci(e,si(t,n))}function mi(e,t){return typeof e==`function`?e(t):e}function hi(e){return e.split(`-`)[0]}function gi(e){return e.split(`-`)[1]}function _i(e){return e===`x`?`y`:`x`}function vi(e){return e===`y`?`height`:`width`}function yi(e){let t=e[0];return t===`t`||t===`b`?`y`:`x`}function bi(e){return _i(yi(e))}function xi(e,t,n){n===void 0&&(n=!1);let r=gi(e),i=bi(e),a=vi(i),o=i===`x`?r===(n?`end`:`start`)?`right`:`left`:r===`start`?`bottom`:`top`;return t.reference[a]>t.floating[a]&&(o=Ai(o)),[o,Ai(o)]}function Si(e){let t=Ai(e);return[Ci(e),t,Ci(t)]}function Ci(e){return e.includes(`start`)?e.replace(`start`,`end`):e.replace(`end`,`start`)}var wi=[`left`,`right`],Ti=[`right`,`left`],Ei=[`top`,`bottom`],Di=[`bottom`,`top`];function Oi(e,t,n){switch(e){case`top`:case`bottom`:return n?t?Ti:wi:t?wi:Ti;case`left`:case`right`:return t?Ei:Di;default:return[]}}function ki(e,t,n,r){let i=gi(e),a=Oi(hi(e),n===`start`,r);return i&&(a=a.map(e=>e+`-`+i),t&&(a=a.concat(a.map(Ci)))),a}function Ai(e){let t=hi(e);return fi[t]+e.slice(t.length)}function ji(e){return{top:0,right:0,bottom:0,left:0,...e}}function H(e){return typeof e==`number`?{top:e,right:e,bottom:e,left:e}:ji(e)}function Mi(e){let{x:t,y:n,width:r,height:i}=e;return{width:r,height:i,top:n,left:t,right:t+r,bottom:n+i,x:t,y:n}}function Ni(e,t,n){let{reference:r,floating:i}=e,a=yi(t),o=bi(t),s=vi(o),c=hi(t),l=a===`y`,u=r.x+r.width/2-i.width/2,d=r.y+r.height/2-i.height/2,f=r[s]/2-i[s]/2,p;switch(c){case`top`:p={x:u,y:r.y-i.height};break;case`bottom`:p={x:u,y:r.y+r.height};break;case`right`:p={x:r.x+r.width,y:d};break;case`left`:p={x:r.x-i.width,y:d};break;default:p={x:r.x,y:r.y}}switch(gi(t)){case`start`:p[o]-=f*(n&&l?-1:1);break;case`end`:p[o]+=f*(n&&l?-1:1);break}return p}async function Pi(e,t){t===void 0&&(t={});let{x:n,y:r,platform:i,rects:a,elements:o,strategy:s}=e,{boundary:c=`clippingAncestors`,rootBoundary:l=`viewport`,elementContext:u=`floating`,altBoundary:d=!1,padding:f=0}=mi(t,e),p=H(f),m=o[d?u===`floating`?`reference`:`floating`:u],h=Mi(await i.getClippingRect({element:await(i.isElement==null?void 0:i.isElement(m))??!0?m:m.contextElement||await(i.getDocumentElement==null?void 0:i.getDocumentElement(o.floating)),boundary:c,rootBoundary:l,strategy:s})),g=u===`floating`?{x:n,y:r,width:a.floating.width,height:a.floating.height}:a.reference,_=await(i.getOffsetParent==null?void 0:i.getOffsetParent(o.floating)),v=await(i.isElement==null?void 0:i.isElement(_))&&await(i.getScale==null?void 0:i.getScale(_))||{x:1,y:1},y=Mi(i.convertOffsetParentRelativeRectToViewportRelativeRect?await i.convertOffsetParentRelativeRectToViewportRelativeRect({elements:o,rect:g,offsetParent:_,strategy:s}):g);return{top:(h.top-y.top+p.top)/v.y,bottom:(y.bottom-h.bottom+p.bottom)/v.y,left:(h.left-y.left+p.left)/v.x,right:(y.right-h.right+p.right)/v.x}}var Fi=50,Ii=async(e,t,n)=>{let{placement:r=`bottom`,strategy:i=`absolute`,middleware:a=[],platform:o}=n,s=o.detectOverflow?o:{...o,detectOverflow:Pi},c=await(o.isRTL==null?void 0:o.isRTL(t)),l=await o.getElementRects({reference:e,floating:t,strategy:i}),{x:u,y:d}=Ni(l,r,c),f=r,p=0,m={};for(let n=0;n<a.length;n++){let h=a[n];if(!h)continue;let{name:g,fn:_}=h,{x:v,y,data:b,reset:x}=await _({x:u,y:d,initialPlacement:r,placement:f,strategy:i,middlewareData:m,rects:l,platform:s,elements:{reference:e,floating:t}});u=v??u,d=y??d,m[g]={...m[g],...b},x&&p<Fi&&(p++,typeof x==`object`&&(x.placement&&(f=x.placement),x.rects&&(l=x.rects===!0?await o.getElementRects({reference:e,floating:t,strategy:i}):x.rects),{x:u,y:d}=Ni(l,f,c)),n=-1)}return{x:u,y:d,placement:f,strategy:i,middlewareData:m}},Li=e=>({name:`arrow`,options:e,async fn(t){let{x:n,y:r,placement:i,rects:a,platform:o,elements:s,middlewareData:c}=t,{element:l,padding:u=0}=mi(e,t)||{};if(l==null)return{};let d=H(u),f={x:n,y:r},p=bi(i),m=vi(p),h=await o.getDimensions(l),g=p===`y`,_=g?`top`:`left`,v=g?`bottom`:`right`,y=g?`clientHeight`:`clientWidth`,b=a.reference[m]+a.reference[p]-f[p]-a.floating[m],x=f[p]-a.reference[p],S=await(o.getOffsetParent==null?void 0:o.getOffsetParent(l)),C=S?S[y]:0;(!C||!await(o.isElement==null?void 0:o.isElement(S)))&&(C=s.floating[y]||a.floating[m]);let w=b/2-x/2,T=C/2-h[m]/2-1,E=si(d[_],T),D=si(d[v],T),O=E,ee=C-h[m]-D,k=C/2-h[m]/2+w,A=pi(O,k,ee),j=!c.arrow&&gi(i)!=null&&k!==A&&a.reference[m]/2-(k<O?E:D)-h[m]/2<0,M=j?k<O?k-O:k-ee:0;return{[p]:f[p]+M,data:{[p]:A,centerOffset:k-A-M,...j&&{alignmentOffset:M}},reset:j}}}),Ri=function(e){return e===void 0&&(e={}),{name:`flip`,options:e,async fn(t){var n;let{placement:r,middlewareData:i,rects:a,initialPlacement:o,platform:s,elements:c}=t,{mainAxis:l=!0,crossAxis:u=!0,fallbackPlacements:d,fallbackStrategy:f=`bestFit`,fallbackAxisSideDirection:p=`none`,flipAlignment:m=!0,...h}=mi(e,t);if((n=i.arrow)!=null&&n.alignmentOffset)return{};let g=hi(r),_=yi(o),v=hi(o)===o,y=await(s.isRTL==null?void 0:s.isRTL(c.floating)),b=d||(v||!m?[Ai(o)]:Si(o)),x=p!==`none`;!d&&x&&b.push(...ki(o,m,p,y));let S=[o,...b],C=await s.detectOverflow(t,h),w=[],T=i.flip?.overflows||[];if(l&&w.push(C[g]),u){let e=xi(r,a,y);w.push(C[e[0]],C[e[1]])}if(T=[...T,{placement:r,overflows:w}],!w.every(e=>e<=0)){let e=(i.flip?.index||0)+1,t=S[e];if(t&&(!(u===`alignment`&&_!==yi(t))||T.every(e=>yi(e.placement)===_?e.overflows[0]>0:!0)))return{data:{index:e,overflows:T},reset:{placement:t}};let n=T.filter(e=>e.overflows[0]<=0).sort((e,t)=>e.overflows[1]-t.overflows[1])[0]?.placement;if(!n)switch(f){case`bestFit`:{let e=T.filter(e=>{if(x){let t=yi(e.placement);return t===_||t===`y`}return!0}).map(e=>[e.placement,e.overflows.filter(e=>e>0).reduce((e,t)=>e+t,0)]).sort((e,t)=>e[1]-t[1])[0]?.[0];e&&(n=e);break}case`initialPlacement`:n=o;break}if(r!==n)return{reset:{placement:n}}}return{}}}};function zi(e,t){return{top:e.top-t.height,right:e.right-t.width,bottom:e.bottom-t.height,left:e.left-t.width}}function Bi(e){return oi.some(t=>e[t]>=0)}var Vi=function(e){return e===void 0&&(e={}),{name:`hide`,options:e,async fn(t){let{rects:n,platform:r}=t,{strategy:i=`referenceHidden`,...a}=mi(e,t);switch(i){case`referenceHidden`:{let e=zi(await r.detectOverflow(t,{...a,elementContext:`reference`}),n.reference);return{data:{referenceHiddenOffsets:e,referenceHidden:Bi(e)}}}case`escaped`:{let e=zi(await r.detectOverflow(t,{...a,altBoundary:!0}),n.floating);return{data:{escapedOffsets:e,escaped:Bi(e)}}}default:return{}}}}},Hi=new Set([`left`,`top`]);async function Ui(e,t){let{placement:n,platform:r,elements:i}=e,a=await(r.isRTL==null?void 0:r.isRTL(i.floating)),o=hi(n),s=gi(n),c=yi(n)===`y`,l=Hi.has(o)?-1:1,u=a&&c?-1:1,d=mi(t,e),{mainAxis:f,crossAxis:p,alignmentAxis:m}=typeof d==`number`?{mainAxis:d,crossAxis:0,alignmentAxis:null}:{mainAxis:d.mainAxis||0,crossAxis:d.crossAxis||0,alignmentAxis:d.alignmentAxis};return s&&typeof m==`number`&&(p=s===`end`?m*-1:m),c?{x:p*u,y:f*l}:{x:f*l,y:p*u}}var Wi=function(e){return e===void 0&&(e=0),{name:`offset`,options:e,async fn(t){var n;let{x:r,y:i,placement:a,middlewareData:o}=t,s=await Ui(t,e);return a===o.offset?.placement&&(n=o.arrow)!=null&&n.alignmentOffset?{}:{x:r+s.x,y:i+s.y,data:{...s,placement:a}}}}},Gi=function(e){return e===void 0&&(e={}),{name:`shift`,options:e,async fn(t){let{x:n,y:r,placement:i,platform:a}=t,{mainAxis:o=!0,crossAxis:s=!1,limiter:c={fn:e=>{let{x:t,y:n}=e;return{x:t,y:n}}},...l}=mi(e,t),u={x:n,y:r},d=await a.detectOverflow(t,l),f=yi(hi(i)),p=_i(f),m=u[p],h=u[f];if(o){let e=p===`y`?`top`:`left`,t=p===`y`?`bottom`:`right`,n=m+d[e],r=m-d[t];m=pi(n,m,r)}if(s){let e=f===`y`?`top`:`left`,t=f===`y`?`bottom`:`right`,n=h+d[e],r=h-d[t];h=pi(n,h,r)}let g=c.fn({...t,[p]:m,[f]:h});return{...g,data:{x:g.x-n,y:g.y-r,enabled:{[p]:o,[f]:s}}}}}},Ki=function(e){return e===void 0&&(e={}),{options:e,fn(t){let{x:n,y:r,placement:i,rects:a,middlewareData:o}=t,{offset:s=0,mainAxis:c=!0,crossAxis:l=!0}=mi(e,t),u={x:n,y:r},d=yi(i),f=_i(d),p=u[f],m=u[d],h=mi(s,t),g=typeof h==`number`?{mainAxis:h,crossAxis:0}:{mainAxis:0,crossAxis:0,...h};if(c){let e=f===`y`?`height`:`width`,t=a.reference[f]-a.floating[e]+g.mainAxis,n=a.reference[f]+a.reference[e]-g.mainAxis;p<t?p=t:p>n&&(p=n)}if(l){let e=f===`y`?`width`:`height`,t=Hi.has(hi(i)),n=a.reference[d]-a.floating[e]+(t&&o.offset?.[d]||0)+(t?0:g.crossAxis),r=a.reference[d]+a.reference[e]+(t?0:o.offset?.[d]||0)-(t?g.crossAxis:0);m<n?m=n:m>r&&(m=r)}return{[f]:p,[d]:m}}}},qi=function(e){return e===void 0&&(e={}),{name:`size`,options:e,async fn(t){var n,r;let{placement:i,rects:a,platform:o,elements:s}=t,{apply:c=()=>{},...l}=mi(e,t),u=await o.detectOverflow(t,l),d=hi(i),f=gi(i),p=yi(i)===`y`,{width:m,height:h}=a.floating,g,_;d===`top`||d===`bottom`?(g=d,_=f===(await(o.isRTL==null?void 0:o.isRTL(s.floating))?`start`:`end`)?`left`:`right`):(_=d,g=f===`end`?`top`:`bottom`);let v=h-u.top-u.bottom,y=m-u.left-u.right,b=si(h-u[g],v),x=si(m-u[_],y),S=!t.middlewareData.shift,C=b,w=x;if((n=t.middlewareData.shift)!=null&&n.enabled.x&&(w=y),(r=t.middlewareData.shift)!=null&&r.enabled.y&&(C=v),S&&!f){let e=ci(u.left,0),t=ci(u.right,0),n=ci(u.top,0),r=ci(u.bottom,0);p?w=m-2*(e!==0||t!==0?e+t:ci(u.left,u.right)):C=h-2*(n!==0||r!==0?n+r:ci(u.top,u.bottom))}await c({...t,availableWidth:w,availableHeight:C});let T=await o.getDimensions(s.floating);return m!==T.width||h!==T.height?{reset:{rects:!0}}:{}}}};function Ji(){return typeof window<`u`}function Yi(e){return Qi(e)?(e.nodeName||``).toLowerCase():`#document`}function Xi(e){var t;return(e==null||(t=e.ownerDocument)==null?void 0:t.defaultView)||window}function Zi(e){return((Qi(e)?e.ownerDocument:e.document)||window.document)?.documentElement}function Qi(e){return Ji()?e instanceof Node||e instanceof Xi(e).Node:!1}function $i(e){return Ji()?e instanceof Element||e instanceof Xi(e).Element:!1}function ea(e){return Ji()?e instanceof HTMLElement||e instanceof Xi(e).HTMLElement:!1}function ta(e){return!Ji()||typeof ShadowRoot>`u`?!1:e instanceof ShadowRoot||e instanceof Xi(e).ShadowRoot}function na(e){let{overflow:t,overflowX:n,overflowY:r,display:i}=pa(e);return/auto|scroll|overlay|hidden|clip/.test(t+r+n)&&i!==`inline`&&i!==`contents`}function ra(e){return/^(table|td|th)$/.test(Yi(e))}function ia(e){try{if(e.matches(`:popover-open`))return!0}catch{}try{return e.matches(`:modal`)}catch{return!1}}var aa=/transform|translate|scale|rotate|perspective|filter/,oa=/paint|layout|strict|content/,sa=e=>!!e&&e!==`none`,ca;function la(e){let t=$i(e)?pa(e):e;return sa(t.transform)||sa(t.translate)||sa(t.scale)||sa(t.rotate)||sa(t.perspective)||!da()&&(sa(t.backdropFilter)||sa(t.filter))||aa.test(t.willChange||``)||oa.test(t.contain||``)}function ua(e){let t=ha(e);for(;ea(t)&&!fa(t);){if(la(t))return t;if(ia(t))return null;t=ha(t)}return null}function da(){return ca??=typeof CSS<`u`&&CSS.supports&&CSS.supports(`-webkit-backdrop-filter`,`none`),ca}function fa(e){return/^(html|body|#document)$/.test(Yi(e))}function pa(e){return Xi(e).getComputedStyle(e)}function ma(e){return $i(e)?{scrollLeft:e.scrollLeft,scrollTop:e.scrollTop}:{scrollLeft:e.scrollX,scrollTop:e.scrollY}}function ha(e){if(Yi(e)===`html`)return e;let t=e.assignedSlot||e.parentNode||ta(e)&&e.host||Zi(e);return ta(t)?t.host:t}function ga(e){let t=ha(e);return fa(t)?e.ownerDocument?e.ownerDocument.body:e.body:ea(t)&&na(t)?t:ga(t)}function _a(e,t,n){t===void 0&&(t=[]),n===void 0&&(n=!0);let r=ga(e),i=r===e.ownerDocument?.body,a=Xi(r);if(i){let e=va(a);return t.concat(a,a.visualViewport||[],na(r)?r:[],e&&n?_a(e):[])}else return t.concat(r,_a(r,[],n))}function va(e){return e.parent&&Object.getPrototypeOf(e.parent)?e.frameElement:null}function ya(e){let t=pa(e),n=parseFloat(t.width)||0,r=parseFloat(t.height)||0,i=ea(e),a=i?e.offsetWidth:n,o=i?e.offsetHeight:r,s=li(n)!==a||li(r)!==o;return s&&(n=a,r=o),{width:n,height:r,$:s}}function ba(e){return $i(e)?e:e.contextElement}function xa(e){let t=ba(e);if(!ea(t))return di(1);let n=t.getBoundingClientRect(),{width:r,height:i,$:a}=ya(t),o=(a?li(n.width):n.width)/r,s=(a?li(n.height):n.height)/i;return(!o||!Number.isFinite(o))&&(o=1),(!s||!Number.isFinite(s))&&(s=1),{x:o,y:s}}var Sa=di(0);function Ca(e){let t=Xi(e);return!da()||!t.visualViewport?Sa:{x:t.visualViewport.offsetLeft,y:t.visualViewport.offsetTop}}function wa(e,t,n){return t===void 0&&(t=!1),!n||t&&n!==Xi(e)?!1:t}function Ta(e,t,n,r){t===void 0&&(t=!1),n===void 0&&(n=!1);let i=e.getBoundingClientRect(),a=ba(e),o=di(1);t&&(r?$i(r)&&(o=xa(r)):o=xa(e));let s=wa(a,n,r)?Ca(a):di(0),c=(i.left+s.x)/o.x,l=(i.top+s.y)/o.y,u=i.width/o.x,d=i.height/o.y;if(a){let e=Xi(a),t=r&&$i(r)?Xi(r):r,n=e,i=va(n);for(;i&&r&&t!==n;){let e=xa(i),t=i.getBoundingClientRect(),r=pa(i),a=t.left+(i.clientLeft+parseFloat(r.paddingLeft))*e.x,o=t.top+(i.clientTop+parseFloat(r.paddingTop))*e.y;c*=e.x,l*=e.y,u*=e.x,d*=e.y,c+=a,l+=o,n=Xi(i),i=va(n)}}return Mi({width:u,height:d,x:c,y:l})}function Ea(e,t){let n=ma(e).scrollLeft;return t?t.left+n:Ta(Zi(e)).left+n}function Da(e,t){let n=e.getBoundingClientRect();return{x:n.left+t.scrollLeft-Ea(e,n),y:n.top+t.scrollTop}}function Oa(e){let{elements:t,rect:n,offsetParent:r,strategy:i}=e,a=i===`fixed`,o=Zi(r),s=t?ia(t.floating):!1;if(r===o||s&&a)return n;let c={scrollLeft:0,scrollTop:0},l=di(1),u=di(0),d=ea(r);if((d||!d&&!a)&&((Yi(r)!==`body`||na(o))&&(c=ma(r)),d)){let e=Ta(r);l=xa(r),u.x=e.x+r.clientLeft,u.y=e.y+r.clientTop}let f=o&&!d&&!a?Da(o,c):di(0);return{width:n.width*l.x,height:n.height*l.y,x:n.x*l.x-c.scrollLeft*l.x+u.x+f.x,y:n.y*l.y-c.scrollTop*l.y+u.y+f.y}}function ka(e){return Array.from(e.getClientRects())}function Aa(e){let t=Zi(e),n=ma(e),r=e.ownerDocument.body,i=ci(t.scrollWidth,t.clientWidth,r.scrollWidth,r.clientWidth),a=ci(t.scrollHeight,t.clientHeight,r.scrollHeight,r.clientHeight),o=-n.scrollLeft+Ea(e),s=-n.scrollTop;return pa(r).direction===`rtl`&&(o+=ci(t.clientWidth,r.clientWidth)-i),{width:i,height:a,x:o,y:s}}var ja=25;function Ma(e,t){let n=Xi(e),r=Zi(e),i=n.visualViewport,a=r.clientWidth,o=r.clientHeight,s=0,c=0;if(i){a=i.width,o=i.height;let e=da();(!e||e&&t===`fixed`)&&(s=i.offsetLeft,c=i.offsetTop)}let l=Ea(r);if(l<=0){let e=r.ownerDocument,t=e.body,n=getComputedStyle(t),i=e.compatMode===`CSS1Compat`&&parseFloat(n.marginLeft)+parseFloat(n.marginRight)||0,o=Math.abs(r.clientWidth-t.clientWidth-i);o<=ja&&(a-=o)}else l<=ja&&(a+=l);return{width:a,height:o,x:s,y:c}}function Na(e,t){let n=Ta(e,!0,t===`fixed`),r=n.top+e.clientTop,i=n.left+e.clientLeft,a=ea(e)?xa(e):di(1);return{width:e.clientWidth*a.x,height:e.clientHeight*a.y,x:i*a.x,y:r*a.y}}function Pa(e,t,n){let r;if(t===`viewport`)r=Ma(e,n);else if(t===`document`)r=Aa(Zi(e));else if($i(t))r=Na(t,n);else{let n=Ca(e);r={x:t.x-n.x,y:t.y-n.y,width:t.width,height:t.height}}return Mi(r)}function Fa(e,t){let n=ha(e);return n===t||!$i(n)||fa(n)?!1:pa(n).position===`fixed`||Fa(n,t)}function Ia(e,t){let n=t.get(e);if(n)return n;let r=_a(e,[],!1).filter(e=>$i(e)&&Yi(e)!==`body`),i=null,a=pa(e).position===`fixed`,o=a?ha(e):e;for(;$i(o)&&!fa(o);){let t=pa(o),n=la(o);!n&&t.position===`fixed`&&(i=null),(a?!n&&!i:!n&&t.position===`static`&&i&&(i.position===`absolute`||i.position===`fixed`)||na(o)&&!n&&Fa(e,o))?r=r.filter(e=>e!==o):i=t,o=ha(o)}return t.set(e,r),r}function La(e){let{element:t,boundary:n,rootBoundary:r,strategy:i}=e,a=[...n===`clippingAncestors`?ia(t)?[]:Ia(t,this._c):[].concat(n),r],o=Pa(t,a[0],i),s=o.top,c=o.right,l=o.bottom,u=o.left;for(let e=1;e<a.length;e++){let n=Pa(t,a[e],i);s=ci(n.top,s),c=si(n.right,c),l=si(n.bottom,l),u=ci(n.left,u)}return{width:c-u,height:l-s,x:u,y:s}}function Ra(e){let{width:t,height:n}=ya(e);return{width:t,height:n}}function za(e,t,n){let r=ea(t),i=Zi(t),a=n===`fixed`,o=Ta(e,!0,a,t),s={scrollLeft:0,scrollTop:0},c=di(0);function l(){c.x=Ea(i)}if(r||!r&&!a)if((Yi(t)!==`body`||na(i))&&(s=ma(t)),r){let e=Ta(t,!0,a,t);c.x=e.x+t.clientLeft,c.y=e.y+t.clientTop}else i&&l();a&&!r&&i&&l();let u=i&&!r&&!a?Da(i,s):di(0);return{x:o.left+s.scrollLeft-c.x-u.x,y:o.top+s.scrollTop-c.y-u.y,width:o.width,height:o.height}}function Ba(e){return pa(e).position===`static`}function Va(e,t){if(!ea(e)||pa(e).position===`fixed`)return null;if(t)return t(e);let n=e.offsetParent;return Zi(e)===n&&(n=n.ownerDocument.body),n}function Ha(e,t){let n=Xi(e);if(ia(e))return n;if(!ea(e)){let t=ha(e);for(;t&&!fa(t);){if($i(t)&&!Ba(t))return t;t=ha(t)}return n}let r=Va(e,t);for(;r&&ra(r)&&Ba(r);)r=Va(r,t);return r&&fa(r)&&Ba(r)&&!la(r)?n:r||ua(e)||n}var Ua=async function(e){let t=this.getOffsetParent||Ha,n=this.getDimensions,r=await n(e.floating);return{reference:za(e.reference,await t(e.floating),e.strategy),floating:{x:0,y:0,width:r.width,height:r.height}}};function Wa(e){return pa(e).direction===`rtl`}var Ga={convertOffsetParentRelativeRectToViewportRelativeRect:Oa,getDocumentElement:Zi,getClippingRect:La,getOffsetParent:Ha,getElementRects:Ua,getClientRects:ka,getDimensions:Ra,getScale:xa,isElement:$i,isRTL:Wa};function Ka(e,t){return e.x===t.x&&e.y===t.y&&e.width===t.width&&e.height===t.height}function qa(e,t){let n=null,r,i=Zi(e);function a(){var e;clearTimeout(r),(e=n)==null||e.disconnect(),n=null}function o(s,c){s===void 0&&(s=!1),c===void 0&&(c=1),a();let l=e.getBoundingClientRect(),{left:u,top:d,width:f,height:p}=l;if(s||t(),!f||!p)return;let m=ui(d),h=ui(i.clientWidth-(u+f)),g=ui(i.clientHeight-(d+p)),_=ui(u),v={rootMargin:-m+`px `+-h+`px `+-g+`px `+-_+`px`,threshold:ci(0,si(1,c))||1},y=!0;function b(t){let n=t[0].intersectionRatio;if(n!==c){if(!y)return o();n?o(!1,n):r=setTimeout(()=>{o(!1,1e-7)},1e3)}n===1&&!Ka(l,e.getBoundingClientRect())&&o(),y=!1}try{n=new IntersectionObserver(b,{...v,root:i.ownerDocument})}catch{n=new IntersectionObserver(b,v)}n.observe(e)}return o(!0),a}function Ja(e,t,n,r){r===void 0&&(r={});let{ancestorScroll:i=!0,ancestorResize:a=!0,elementResize:o=typeof ResizeObserver==`function`,layoutShift:s=typeof IntersectionObserver==`function`,animationFrame:c=!1}=r,l=ba(e),u=i||a?[...l?_a(l):[],...t?_a(t):[]]:[];u.forEach(e=>{i&&e.addEventListener(`scroll`,n,{passive:!0}),a&&e.addEventListener(`resize`,n)});let d=l&&s?qa(l,n):null,f=-1,p=null;o&&(p=new ResizeObserver(e=>{let[r]=e;r&&r.target===l&&p&&t&&(p.unobserve(t),cancelAnimationFrame(f),f=requestAnimationFrame(()=>{var e;(e=p)==null||e.observe(t)})),n()}),l&&!c&&p.observe(l),t&&p.observe(t));let m,h=c?Ta(e):null;c&&g();function g(){let t=Ta(e);h&&!Ka(h,t)&&n(),h=t,m=requestAnimationFrame(g)}return n(),()=>{var e;u.forEach(e=>{i&&e.removeEventListener(`scroll`,n),a&&e.removeEventListener(`resize`,n)}),d?.(),(e=p)==null||e.disconnect(),p=null,c&&cancelAnimationFrame(m)}}var Ya=Wi,Xa=Gi,Za=Ri,Qa=qi,$a=Vi,eo=Li,to=Ki,no=(e,t,n)=>{let r=new Map,i={platform:Ga,...n},a={...i.platform,_c:r};return Ii(e,t,{...i,platform:a})},ro=typeof document<`u`?C.useLayoutEffect:function(){};function io(e,t){if(e===t)return!0;if(typeof e!=typeof t)return!1;if(typeof e==`function`&&e.toString()===t.toString())return!0;let n,r,i;if(e&&t&&typeof e==`object`){if(Array.isArray(e)){if(n=e.length,n!==t.length)return!1;for(r=n;r--!==0;)if(!io(e[r],t[r]))return!1;return!0}if(i=Object.keys(e),n=i.length,n!==Object.keys(t).length)return!1;for(r=n;r--!==0;)if(!{}.hasOwnProperty.call(t,i[r]))return!1;for(r=n;r--!==0;){let n=i[r];if(!(n===`_owner`&&e.$$typeof)&&!io(e[n],t[n]))return!1}return!0}return e!==e&&t!==t}function ao(e){return typeof window>`u`?1:(e.ownerDocument.defaultView||window).devicePixelRatio||1}function oo(e,t){let n=ao(e);return Math.round(t*n)/n}function so(e){let t=C.useRef(e);return ro(()=>{t.current=e}),t}function co(e){e===void 0&&(e={});let{placement:t=`bottom`,strategy:n=`absolute`,middleware:r=[],platform:i,elements:{reference:a,floating:o}={},transform:s=!0,whileElementsMounted:c,open:l}=e,[u,d]=C.useState({x:0,y:0,strategy:n,placement:t,middlewareData:{},isPositioned:!1}),[f,p]=C.useState(r);io(f,r)||p(r);let[m,h]=C.useState(null),[g,_]=C.useState(null),v=C.useCallback(e=>{e!==S.current&&(S.current=e,h(e))},[]),y=C.useCallback(e=>{e!==w.current&&(w.current=e,_(e))},[]),b=a||m,x=o||g,S=C.useRef(null),w=C.useRef(null),T=C.useRef(u),E=c!=null,D=so(c),O=so(i),ee=so(l),k=C.useCallback(()=>{if(!S.current||!w.current)return;let e={placement:t,strategy:n,middleware:f};O.current&&(e.platform=O.current),no(S.current,w.current,e).then(e=>{let t={...e,isPositioned:ee.current!==!1};A.current&&!io(T.current,t)&&(T.current=t,We.flushSync(()=>{d(t)}))})},[f,t,n,O,ee]);ro(()=>{l===!1&&T.current.isPositioned&&(T.current.isPositioned=!1,d(e=>({...e,isPositioned:!1})))},[l]);let A=C.useRef(!1);ro(()=>(A.current=!0,()=>{A.current=!1}),[]),ro(()=>{if(b&&(S.current=b),x&&(w.current=x),b&&x){if(D.current)return D.current(b,x,k);k()}},[b,x,k,D,E]);let j=C.useMemo(()=>({reference:S,floating:w,setReference:v,setFloating:y}),[v,y]),M=C.useMemo(()=>({reference:b,floating:x}),[b,x]),te=C.useMemo(()=>{let e={position:n,left:0,top:0};if(!M.floating)return e;let t=oo(M.floating,u.x),r=oo(M.floating,u.y);return s?{...e,transform:`translate(`+t+`px, `+r+`px)`,...ao(M.floating)>=1.5&&{willChange:`transform`}}:{position:n,left:t,top:r}},[n,s,M.floating,u.x,u.y]);return C.useMemo(()=>({...u,update:k,refs:j,elements:M,floatingStyles:te}),[u,k,j,M,te])}var lo=e=>{function t(e){return{}.hasOwnProperty.call(e,`current`)}return{name:`arrow`,options:e,fn(n){let{element:r,padding:i}=typeof e==`function`?e(n):e;return r&&t(r)?r.current==null?{}:eo({element:r.current,padding:i}).fn(n):r?eo({element:r,padding:i}).fn(n):{}}}},U=(e,t)=>{let n=Ya(e);return{name:n.name,fn:n.fn,options:[e,t]}},uo=(e,t)=>{let n=Xa(e);return{name:n.name,fn:n.fn,options:[e,t]}},fo=(e,t)=>({fn:to(e).fn,options:[e,t]}),po=(e,t)=>{let n=Za(e);return{name:n.name,fn:n.fn,options:[e,t]}},mo=(e,t)=>{let n=Qa(e);return{name:n.name,fn:n.fn,options:[e,t]}},ho=(e,t)=>{let n=$a(e);return{name:n.name,fn:n.fn,options:[e,t]}},go=(e,t)=>{let n=lo(e);return{name:n.name,fn:n.fn,options:[e,t]}},_o=`Arrow`,vo=C.forwardRef((e,t)=>{let{children:n,width:r=10,height:i=5,...a}=e;return(0,L.jsx)(V.svg,{...a,ref:t,width:r,height:i,viewBox:`0 0 30 10`,preserveAspectRatio:`none`,children:e.asChild?n:(0,L.jsx)(`polygon`,{points:`0,0 30,0 15,10`})})});vo.displayName=_o;var yo=vo;function bo(e){let[t,n]=C.useState(void 0);return Le(()=>{if(e){n({width:e.offsetWidth,height:e.offsetHeight});let t=new ResizeObserver(t=>{if(!Array.isArray(t)||!t.length)return;let r=t[0],i,a;if(`borderBoxSize`in r){let e=r.borderBoxSize,t=Array.isArray(e)?e[0]:e;i=t.inlineSize,a=t.blockSize}else i=e.offsetWidth,a=e.offsetHeight;n({width:i,height:a})});return t.observe(e,{box:`border-box`}),()=>t.unobserve(e)}else n(void 0)},[e]),t}var xo=`Popper`,[So,Co]=Fe(xo),[wo,To]=So(xo),Eo=e=>{let{__scopePopper:t,children:n}=e,[r,i]=C.useState(null);return(0,L.jsx)(wo,{scope:t,anchor:r,onAnchorChange:i,children:n})};Eo.displayName=xo;var Do=`PopperAnchor`,Oo=C.forwardRef((e,t)=>{let{__scopePopper:n,virtualRef:r,...i}=e,a=To(Do,n),o=C.useRef(null),s=xe(t,o),c=C.useRef(null);return C.useEffect(()=>{let e=c.current;c.current=r?.current||o.current,e!==c.current&&a.onAnchorChange(c.current)}),r?null:(0,L.jsx)(V.div,{...i,ref:s})});Oo.displayName=Do;var ko=`PopperContent`,[Ao,jo]=So(ko),Mo=C.forwardRef((e,t)=>{let{__scopePopper:n,side:r=`bottom`,sideOffset:i=0,align:a=`center`,alignOffset:o=0,arrowPadding:s=0,avoidCollisions:c=!0,collisionBoundary:l=[],collisionPadding:u=0,sticky:d=`partial`,hideWhenDetached:f=!1,updatePositionStrategy:p=`optimized`,onPlaced:m,...h}=e,g=To(ko,n),[_,v]=C.useState(null),y=xe(t,e=>v(e)),[b,x]=C.useState(null),S=bo(b),w=S?.width??0,T=S?.height??0,E=r+(a===`center`?``:`-`+a),D=typeof u==`number`?u:{top:0,right:0,bottom:0,left:0,...u},O=Array.isArray(l)?l:[l],ee=O.length>0,k={padding:D,boundary:O.filter(Io),altBoundary:ee},{refs:A,floatingStyles:j,placement:M,isPositioned:te,middlewareData:ne}=co({strategy:`fixed`,placement:E,whileElementsMounted:(...e)=>Ja(...e,{animationFrame:p===`always`}),elements:{reference:g.anchor},middleware:[U({mainAxis:i+T,alignmentAxis:o}),c&&uo({mainAxis:!0,crossAxis:!1,limiter:d===`partial`?fo():void 0,...k}),c&&po({...k}),mo({...k,apply:({elements:e,rects:t,availableWidth:n,availableHeight:r})=>{let{width:i,height:a}=t.reference,o=e.floating.style;o.setProperty(`--radix-popper-available-width`,`${n}px`),o.setProperty(`--radix-popper-available-height`,`${r}px`),o.setProperty(`--radix-popper-anchor-width`,`${i}px`),o.setProperty(`--radix-popper-anchor-height`,`${a}px`)}}),b&&go({element:b,padding:s}),Lo({arrowWidth:w,arrowHeight:T}),f&&ho({strategy:`referenceHidden`,...k})]}),[N,P]=Ro(M),re=Ze(m);Le(()=>{te&&re?.()},[te,re]);let ie=ne.arrow?.x,ae=ne.arrow?.y,oe=ne.arrow?.centerOffset!==0,[F,I]=C.useState();return Le(()=>{_&&I(window.getComputedStyle(_).zIndex)},[_]),(0,L.jsx)(`div`,{ref:A.setFloating,"data-radix-popper-content-wrapper":``,style:{...j,transform:te?j.transform:`translate(0, -200%)`,minWidth:`max-content`,zIndex:F,"--radix-popper-transform-origin":[ne.transformOrigin?.x,ne.transformOrigin?.y].join(` `),...ne.hide?.referenceHidden&&{visibility:`hidden`,pointerEvents:`none`}},dir:e.dir,children:(0,L.jsx)(Ao,{scope:n,placedSide:N,onArrowChange:x,arrowX:ie,arrowY:ae,shouldHideArrow:oe,children:(0,L.jsx)(V.div,{"data-side":N,"data-align":P,...h,ref:y,style:{...h.style,animation:te?void 0:`none`}})})})});Mo.displayName=ko;var No=`PopperArrow`,Po={top:`bottom`,right:`left`,bottom:`top`,left:`right`},Fo=C.forwardRef(function(e,t){let{__scopePopper:n,...r}=e,i=jo(No,n),a=Po[i.placedSide];return(0,L.jsx)(`span`,{ref:i.onArrowChange,style:{position:`absolute`,left:i.arrowX,top:i.arrowY,[a]:0,transformOrigin:{top:``,right:`0 0`,bottom:`center 0`,left:`100% 0`}[i.placedSide],transform:{top:`translateY(100%)`,right:`translateY(50%) rotate(90deg) translateX(-50%)`,bottom:`rotate(180deg)`,left:`translateY(50%) rotate(-90deg) translateX(50%)`}[i.placedSide],visibility:i.shouldHideArrow?`hidden`:void 0},children:(0,L.jsx)(yo,{...r,ref:t,style:{...r.style,display:`block`}})})});Fo.displayName=No;function Io(e){return e!==null}var Lo=e=>({name:`transformOrigin`,options:e,fn(t){let{placement:n,rects:r,middlewareData:i}=t,a=i.arrow?.centerOffset!==0,o=a?0:e.arrowWidth,s=a?0:e.arrowHeight,[c,l]=Ro(n),u={start:`0%`,center:`50%`,end:`100%`}[l],d=(i.arrow?.x??0)+o/2,f=(i.arrow?.y??0)+s/2,p=``,m=``;return c===`bottom`?(p=a?u:`${d}px`,m=`${-s}px`):c===`top`?(p=a?u:`${d}px`,m=`${r.floating.height+s}px`):c===`right`?(p=`${-s}px`,m=a?u:`${f}px`):c===`left`&&(p=`${r.floating.width+s}px`,m=a?u:`${f}px`),{data:{x:p,y:m}}}});function Ro(e){let[t,n=`center`]=e.split(`-`);return[t,n]}var zo=Eo,Bo=Oo,Vo=Mo,Ho=Fo;function Uo(e){let t=Wo(e),n=C.forwardRef((e,n)=>{let{children:r,...i}=e,a=C.Children.toArray(r),o=a.find(Ko);if(o){let e=o.props.children,r=a.map(t=>t===o?C.Children.count(e)>1?C.Children.only(null):C.isValidElement(e)?e.props.children:null:t);return(0,L.jsx)(t,{...i,ref:n,children:C.isValidElement(e)?C.cloneElement(e,void 0,r):null})}return(0,L.jsx)(t,{...i,ref:n,children:r})});return n.displayName=`${e}.Slot`,n}function Wo(e){let t=C.forwardRef((e,t)=>{let{children:n,...r}=e;if(C.isValidElement(n)){let e=Jo(n),i=qo(r,n.props);return n.type!==C.Fragment&&(i.ref=t?be(t,e):e),C.cloneElement(n,i)}return C.Children.count(n)>1?C.Children.only(null):null});return t.displayName=`${e}.SlotClone`,t}var Go=Symbol(`radix.slottable`);function Ko(e){return C.isValidElement(e)&&typeof e.type==`function`&&`__radixId`in e.type&&e.type.__radixId===Go}function qo(e,t){let n={...t};for(let r in t){let i=e[r],a=t[r];/^on[A-Z]/.test(r)?i&&a?n[r]=(...e)=>{let t=a(...e);return i(...e),t}:i&&(n[r]=i):r===`style`?n[r]={...i,...a}:r===`className`&&(n[r]=[i,a].filter(Boolean).join(` `))}return{...e,...n}}function Jo(e){let t=Object.getOwnPropertyDescriptor(e.props,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning;return n?e.ref:(t=Object.getOwnPropertyDescriptor(e,`ref`)?.get,n=t&&`isReactWarning`in t&&t.isReactWarning,n?e.props.ref:e.props.ref||e.ref)}function Yo(e){let t=C.useRef({value:e,previous:e});return C.useMemo(()=>(t.current.value!==e&&(t.current.previous=t.current.value,t.current.value=e),t.current.previous),[e])}var Xo=Object.freeze({position:`absolute`,border:0,width:1,height:1,padding:0,margin:-1,overflow:`hidden`,clip:`rect(0, 0, 0, 0)`,whiteSpace:`nowrap`,wordWrap:`normal`}),Zo=`VisuallyHidden`,Qo=C.forwardRef((e,t)=>(0,L.jsx)(V.span,{...e,ref:t,style:{...Xo,...e.style}}));Qo.displayName=Zo;var $o=[` `,`Enter`,`ArrowUp`,`ArrowDown`],es=[` `,`Enter`],ts=`Select`,[ns,rs,is]=ri(ts),[as,os]=Fe(ts,[is,Co]),ss=Co(),[cs,ls]=as(ts),[us,ds]=as(ts),fs=e=>{let{__scopeSelect:t,children:n,open:r,defaultOpen:i,onOpenChange:a,value:o,defaultValue:s,onValueChange:c,dir:l,name:u,autoComplete:d,disabled:f,required:p,form:m}=e,h=ss(t),[g,_]=C.useState(null),[v,y]=C.useState(null),[b,x]=C.useState(!1),S=ai(l),[w,T]=He({prop:r,defaultProp:i??!1,onChange:a,caller:ts}),[E,D]=He({prop:o,defaultProp:s,onChange:c,caller:ts}),O=C.useRef(null),ee=g?m||!!g.closest(`form`):!0,[k,A]=C.useState(new Set),j=Array.from(k).map(e=>e.props.value).join(`;`);return(0,L.jsx)(zo,{...h,children:(0,L.jsxs)(cs,{required:p,scope:t,trigger:g,onTriggerChange:_,valueNode:v,onValueNodeChange:y,valueNodeHasChildren:b,onValueNodeHasChildrenChange:x,contentId:Be(),value:E,onValueChange:D,open:w,onOpenChange:T,dir:S,triggerPointerDownPosRef:O,disabled:f,children:[(0,L.jsx)(ns.Provider,{scope:t,children:(0,L.jsx)(us,{scope:e.__scopeSelect,onNativeOptionAdd:C.useCallback(e=>{A(t=>new Set(t).add(e))},[]),onNativeOptionRemove:C.useCallback(e=>{A(t=>{let n=new Set(t);return n.delete(e),n})},[]),children:n})}),ee?(0,L.jsxs)(sc,{"aria-hidden":!0,required:p,tabIndex:-1,name:u,autoComplete:d,value:E,onChange:e=>D(e.target.value),disabled:f,form:m,children:[E===void 0?(0,L.jsx)(`option`,{value:``}):null,Array.from(k)]},j):null]})})};fs.displayName=ts;var ps=`SelectTrigger`,ms=C.forwardRef((e,t)=>{let{__scopeSelect:n,disabled:r=!1,...i}=e,a=ss(n),o=ls(ps,n),s=o.disabled||r,c=xe(t,o.onTriggerChange),l=rs(n),u=C.useRef(`touch`),[d,f,p]=lc(e=>{let t=l().filter(e=>!e.disabled),n=uc(t,e,t.find(e=>e.value===o.value));n!==void 0&&o.onValueChange(n.value)}),m=e=>{s||(o.onOpenChange(!0),p()),e&&(o.triggerPointerDownPosRef.current={x:Math.round(e.pageX),y:Math.round(e.pageY)})};return(0,L.jsx)(Bo,{asChild:!0,...a,children:(0,L.jsx)(V.button,{type:`button`,role:`combobox`,"aria-controls":o.contentId,"aria-expanded":o.open,"aria-required":o.required,"aria-autocomplete":`none`,dir:o.dir,"data-state":o.open?`open`:`closed`,disabled:s,"data-disabled":s?``:void 0,"data-placeholder":cc(o.value)?``:void 0,...i,ref:c,onClick:R(i.onClick,e=>{e.currentTarget.focus(),u.current!==`mouse`&&m(e)}),onPointerDown:R(i.onPointerDown,e=>{u.current=e.pointerType;let t=e.target;t.hasPointerCapture(e.pointerId)&&t.releasePointerCapture(e.pointerId),e.button===0&&e.ctrlKey===!1&&e.pointerType===`mouse`&&(m(e),e.preventDefault())}),onKeyDown:R(i.onKeyDown,e=>{let t=d.current!==``;!(e.ctrlKey||e.altKey||e.metaKey)&&e.key.length===1&&f(e.key),!(t&&e.key===` `)&&$o.includes(e.key)&&(m(),e.preventDefault())})})})});ms.displayName=ps;var hs=`SelectValue`,gs=C.forwardRef((e,t)=>{let{__scopeSelect:n,className:r,style:i,children:a,placeholder:o=``,...s}=e,c=ls(hs,n),{onValueNodeHasChildrenChange:l}=c,u=a!==void 0,d=xe(t,c.onValueNodeChange);return Le(()=>{l(u)},[l,u]),(0,L.jsx)(V.span,{...s,ref:d,style:{pointerEvents:`none`},children:cc(c.value)?(0,L.jsx)(L.Fragment,{children:o}):a})});gs.displayName=hs;var _s=`SelectIcon`,vs=C.forwardRef((e,t)=>{let{__scopeSelect:n,children:r,...i}=e;return(0,L.jsx)(V.span,{"aria-hidden":!0,...i,ref:t,children:r||`▼`})});vs.displayName=_s;var ys=`SelectPortal`,bs=e=>(0,L.jsx)(kt,{asChild:!0,...e});bs.displayName=ys;var xs=`SelectContent`,Ss=C.forwardRef((e,t)=>{let n=ls(xs,e.__scopeSelect),[r,i]=C.useState();if(Le(()=>{i(new DocumentFragment)},[]),!n.open){let t=r;return t?We.createPortal((0,L.jsx)(ws,{scope:e.__scopeSelect,children:(0,L.jsx)(ns.Slot,{scope:e.__scopeSelect,children:(0,L.jsx)(`div`,{children:e.children})})}),t):null}return(0,L.jsx)(Os,{...e,ref:t})});Ss.displayName=xs;var Cs=10,[ws,Ts]=as(xs),Es=`SelectContentImpl`,Ds=Uo(`SelectContent.RemoveScroll`),Os=C.forwardRef((e,t)=>{let{__scopeSelect:n,position:r=`item-aligned`,onCloseAutoFocus:i,onEscapeKeyDown:a,onPointerDownOutside:o,side:s,sideOffset:c,align:l,alignOffset:u,arrowPadding:d,collisionBoundary:f,collisionPadding:p,sticky:m,hideWhenDetached:h,avoidCollisions:g,..._}=e,v=ls(xs,n),[y,b]=C.useState(null),[x,S]=C.useState(null),w=xe(t,e=>b(e)),[T,E]=C.useState(null),[D,O]=C.useState(null),ee=rs(n),[k,A]=C.useState(!1),j=C.useRef(!1);C.useEffect(()=>{if(y)return nr(y)},[y]),It();let M=C.useCallback(e=>{let[t,...n]=ee().map(e=>e.ref.current),[r]=n.slice(-1),i=document.activeElement;for(let n of e)if(n===i||(n?.scrollIntoView({block:`nearest`}),n===t&&x&&(x.scrollTop=0),n===r&&x&&(x.scrollTop=x.scrollHeight),n?.focus(),document.activeElement!==i))return},[ee,x]),te=C.useCallback(()=>M([T,y]),[M,T,y]);C.useEffect(()=>{k&&te()},[k,te]);let{onOpenChange:ne,triggerPointerDownPosRef:N}=v;C.useEffect(()=>{if(y){let e={x:0,y:0},t=t=>{e={x:Math.abs(Math.round(t.pageX)-(N.current?.x??0)),y:Math.abs(Math.round(t.pageY)-(N.current?.y??0))}},n=n=>{e.x<=10&&e.y<=10?n.preventDefault():y.contains(n.target)||ne(!1),document.removeEventListener(`pointermove`,t),N.current=null};return N.current!==null&&(document.addEventListener(`pointermove`,t),document.addEventListener(`pointerup`,n,{capture:!0,once:!0})),()=>{document.removeEventListener(`pointermove`,t),document.removeEventListener(`pointerup`,n,{capture:!0})}}},[y,ne,N]),C.useEffect(()=>{let e=()=>ne(!1);return window.addEventListener(`blur`,e),window.addEventListener(`resize`,e),()=>{window.removeEventListener(`blur`,e),window.removeEventListener(`resize`,e)}},[ne]);let[P,re]=lc(e=>{let t=ee().filter(e=>!e.disabled),n=uc(t,e,t.find(e=>e.ref.current===document.activeElement));n&&setTimeout(()=>n.ref.current.focus())}),ie=C.useCallback((e,t,n)=>{let r=!j.current&&!n;(v.value!==void 0&&v.value===t||r)&&(E(e),r&&(j.current=!0))},[v.value]),ae=C.useCallback(()=>y?.focus(),[y]),oe=C.useCallback((e,t,n)=>{let r=!j.current&&!n;(v.value!==void 0&&v.value===t||r)&&O(e)},[v.value]),F=r===`popper`?Ms:As,I=F===Ms?{side:s,sideOffset:c,align:l,alignOffset:u,arrowPadding:d,collisionBoundary:f,collisionPadding:p,sticky:m,hideWhenDetached:h,avoidCollisions:g}:{};return(0,L.jsx)(ws,{scope:n,content:y,viewport:x,onViewportChange:S,itemRefCallback:ie,selectedItem:T,onItemLeave:ae,itemTextRefCallback:oe,focusSelectedItem:te,selectedItemText:D,position:r,isPositioned:k,searchRef:P,children:(0,L.jsx)(qn,{as:Ds,allowPinchZoom:!0,children:(0,L.jsx)(gt,{asChild:!0,trapped:v.open,onMountAutoFocus:e=>{e.preventDefault()},onUnmountAutoFocus:R(i,e=>{v.trigger?.focus({preventScroll:!0}),e.preventDefault()}),children:(0,L.jsx)(at,{asChild:!0,disableOutsidePointerEvents:!0,onEscapeKeyDown:a,onPointerDownOutside:o,onFocusOutside:e=>e.preventDefault(),onDismiss:()=>v.onOpenChange(!1),children:(0,L.jsx)(F,{role:`listbox`,id:v.contentId,"data-state":v.open?`open`:`closed`,dir:v.dir,onContextMenu:e=>e.preventDefault(),..._,...I,onPlaced:()=>A(!0),ref:w,style:{display:`flex`,flexDirection:`column`,outline:`none`,..._.style},onKeyDown:R(_.onKeyDown,e=>{let t=e.ctrlKey||e.altKey||e.metaKey;if(e.key===`Tab`&&e.preventDefault(),!t&&e.key.length===1&&re(e.key),[`ArrowUp`,`ArrowDown`,`Home`,`End`].includes(e.key)){let t=ee().filter(e=>!e.disabled).map(e=>e.ref.current);if([`ArrowUp`,`End`].includes(e.key)&&(t=t.slice().reverse()),[`ArrowUp`,`ArrowDown`].includes(e.key)){let n=e.target,r=t.indexOf(n);t=t.slice(r+1)}setTimeout(()=>M(t)),e.preventDefault()}})})})})})})});Os.displayName=Es;var ks=`SelectItemAlignedPosition`,As=C.forwardRef((e,t)=>{let{__scopeSelect:n,onPlaced:r,...i}=e,a=ls(xs,n),o=Ts(xs,n),[s,c]=C.useState(null),[l,u]=C.useState(null),d=xe(t,e=>u(e)),f=rs(n),p=C.useRef(!1),m=C.useRef(!0),{viewport:h,selectedItem:g,selectedItemText:_,focusSelectedItem:v}=o,y=C.useCallback(()=>{if(a.trigger&&a.valueNode&&s&&l&&h&&g&&_){let e=a.trigger.getBoundingClientRect(),t=l.getBoundingClientRect(),n=a.valueNode.getBoundingClientRect(),i=_.getBoundingClientRect();if(a.dir!==`rtl`){let r=i.left-t.left,a=n.left-r,o=e.left-a,c=e.width+o,l=Math.max(c,t.width),u=window.innerWidth-Cs,d=Xr(a,[Cs,Math.max(Cs,u-l)]);s.style.minWidth=c+`px`,s.style.left=d+`px`}else{let r=t.right-i.right,a=window.innerWidth-n.right-r,o=window.innerWidth-e.right-a,c=e.width+o,l=Math.max(c,t.width),u=window.innerWidth-Cs,d=Xr(a,[Cs,Math.max(Cs,u-l)]);s.style.minWidth=c+`px`,s.style.right=d+`px`}let o=f(),c=window.innerHeight-Cs*2,u=h.scrollHeight,d=window.getComputedStyle(l),m=parseInt(d.borderTopWidth,10),v=parseInt(d.paddingTop,10),y=parseInt(d.borderBottomWidth,10),b=parseInt(d.paddingBottom,10),x=m+v+u+b+y,S=Math.min(g.offsetHeight*5,x),C=window.getComputedStyle(h),w=parseInt(C.paddingTop,10),T=parseInt(C.paddingBottom,10),E=e.top+e.height/2-Cs,D=c-E,O=g.offsetHeight/2,ee=g.offsetTop+O,k=m+v+ee,A=x-k;if(k<=E){let e=o.length>0&&g===o[o.length-1].ref.current;s.style.bottom=`0px`;let t=l.clientHeight-h.offsetTop-h.offsetHeight,n=k+Math.max(D,O+(e?T:0)+t+y);s.style.height=n+`px`}else{let e=o.length>0&&g===o[0].ref.current;s.style.top=`0px`;let t=Math.max(E,m+h.offsetTop+(e?w:0)+O)+A;s.style.height=t+`px`,h.scrollTop=k-E+h.offsetTop}s.style.margin=`${Cs}px 0`,s.style.minHeight=S+`px`,s.style.maxHeight=c+`px`,r?.(),requestAnimationFrame(()=>p.current=!0)}},[f,a.trigger,a.valueNode,s,l,h,g,_,a.dir,r]);Le(()=>y(),[y]);let[b,x]=C.useState();return Le(()=>{l&&x(window.getComputedStyle(l).zIndex)},[l]),(0,L.jsx)(Ns,{scope:n,contentWrapper:s,shouldExpandOnScrollRef:p,onScrollButtonChange:C.useCallback(e=>{e&&m.current===!0&&(y(),v?.(),m.current=!1)},[y,v]),children:(0,L.jsx)(`div`,{ref:c,style:{display:`flex`,flexDirection:`column`,position:`fixed`,zIndex:b},children:(0,L.jsx)(V.div,{...i,ref:d,style:{boxSizing:`border-box`,maxHeight:`100%`,...i.style}})})})});As.displayName=ks;var js=`SelectPopperPosition`,Ms=C.forwardRef((e,t)=>{let{__scopeSelect:n,align:r=`start`,collisionPadding:i=Cs,...a}=e,o=ss(n);return(0,L.jsx)(Vo,{...o,...a,ref:t,align:r,collisionPadding:i,style:{boxSizing:`border-box`,...a.style,"--radix-select-content-transform-origin":`var(--radix-popper-transform-origin)`,"--radix-select-content-available-width":`var(--radix-popper-available-width)`,"--radix-select-content-available-height":`var(--radix-popper-available-height)`,"--radix-select-trigger-width":`var(--radix-popper-anchor-width)`,"--radix-select-trigger-height":`var(--radix-popper-anchor-height)`}})});Ms.displayName=js;var[Ns,Ps]=as(xs,{}),Fs=`SelectViewport`,Is=C.forwardRef((e,t)=>{let{__scopeSelect:n,nonce:r,...i}=e,a=Ts(Fs,n),o=Ps(Fs,n),s=xe(t,a.onViewportChange),c=C.useRef(0);return(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(`style`,{dangerouslySetInnerHTML:{__html:`[data-radix-select-viewport]{scrollbar-width:none;-ms-overflow-style:none;-webkit-overflow-scrolling:touch;}[data-radix-select-viewport]::-webkit-scrollbar{display:none}`},nonce:r}),(0,L.jsx)(ns.Slot,{scope:n,children:(0,L.jsx)(V.div,{"data-radix-select-viewport":``,role:`presentation`,...i,ref:s,style:{position:`relative`,flex:1,overflow:`hidden auto`,...i.style},onScroll:R(i.onScroll,e=>{let t=e.currentTarget,{contentWrapper:n,shouldExpandOnScrollRef:r}=o;if(r?.current&&n){let e=Math.abs(c.current-t.scrollTop);if(e>0){let r=window.innerHeight-Cs*2,i=parseFloat(n.style.minHeight),a=parseFloat(n.style.height),o=Math.max(i,a);if(o<r){let i=o+e,a=Math.min(r,i),s=i-a;n.style.height=a+`px`,n.style.bottom===`0px`&&(t.scrollTop=s>0?s:0,n.style.justifyContent=`flex-end`)}}}c.current=t.scrollTop})})})]})});Is.displayName=Fs;var Ls=`SelectGroup`,[Rs,zs]=as(Ls),Bs=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e,i=Be();return(0,L.jsx)(Rs,{scope:n,id:i,children:(0,L.jsx)(V.div,{role:`group`,"aria-labelledby":i,...r,ref:t})})});Bs.displayName=Ls;var Vs=`SelectLabel`,Hs=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e,i=zs(Vs,n);return(0,L.jsx)(V.div,{id:i.id,...r,ref:t})});Hs.displayName=Vs;var Us=`SelectItem`,[Ws,Gs]=as(Us),Ks=C.forwardRef((e,t)=>{let{__scopeSelect:n,value:r,disabled:i=!1,textValue:a,...o}=e,s=ls(Us,n),c=Ts(Us,n),l=s.value===r,[u,d]=C.useState(a??``),[f,p]=C.useState(!1),m=xe(t,e=>c.itemRefCallback?.(e,r,i)),h=Be(),g=C.useRef(`touch`),_=()=>{i||(s.onValueChange(r),s.onOpenChange(!1))};if(r===``)throw Error(`A <Select.Item /> must have a value prop that is not an empty string. This is because the Select value can be set to an empty string to clear the selection and show the placeholder.`);return(0,L.jsx)(Ws,{scope:n,value:r,disabled:i,textId:h,isSelected:l,onItemTextChange:C.useCallback(e=>{d(t=>t||(e?.textContent??``).trim())},[]),children:(0,L.jsx)(ns.ItemSlot,{scope:n,value:r,disabled:i,textValue:u,children:(0,L.jsx)(V.div,{role:`option`,"aria-labelledby":h,"data-highlighted":f?``:void 0,"aria-selected":l&&f,"data-state":l?`checked`:`unchecked`,"aria-disabled":i||void 0,"data-disabled":i?``:void 0,tabIndex:i?void 0:-1,...o,ref:m,onFocus:R(o.onFocus,()=>p(!0)),onBlur:R(o.onBlur,()=>p(!1)),onClick:R(o.onClick,()=>{g.current!==`mouse`&&_()}),onPointerUp:R(o.onPointerUp,()=>{g.current===`mouse`&&_()}),onPointerDown:R(o.onPointerDown,e=>{g.current=e.pointerType}),onPointerMove:R(o.onPointerMove,e=>{g.current=e.pointerType,i?c.onItemLeave?.():g.current===`mouse`&&e.currentTarget.focus({preventScroll:!0})}),onPointerLeave:R(o.onPointerLeave,e=>{e.currentTarget===document.activeElement&&c.onItemLeave?.()}),onKeyDown:R(o.onKeyDown,e=>{c.searchRef?.current!==``&&e.key===` `||(es.includes(e.key)&&_(),e.key===` `&&e.preventDefault())})})})})});Ks.displayName=Us;var qs=`SelectItemText`,Js=C.forwardRef((e,t)=>{let{__scopeSelect:n,className:r,style:i,...a}=e,o=ls(qs,n),s=Ts(qs,n),c=Gs(qs,n),l=ds(qs,n),[u,d]=C.useState(null),f=xe(t,e=>d(e),c.onItemTextChange,e=>s.itemTextRefCallback?.(e,c.value,c.disabled)),p=u?.textContent,m=C.useMemo(()=>(0,L.jsx)(`option`,{value:c.value,disabled:c.disabled,children:p},c.value),[c.disabled,c.value,p]),{onNativeOptionAdd:h,onNativeOptionRemove:g}=l;return Le(()=>(h(m),()=>g(m)),[h,g,m]),(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(V.span,{id:c.textId,...a,ref:f}),c.isSelected&&o.valueNode&&!o.valueNodeHasChildren?We.createPortal(a.children,o.valueNode):null]})});Js.displayName=qs;var Ys=`SelectItemIndicator`,Xs=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e;return Gs(Ys,n).isSelected?(0,L.jsx)(V.span,{"aria-hidden":!0,...r,ref:t}):null});Xs.displayName=Ys;var Zs=`SelectScrollUpButton`,Qs=C.forwardRef((e,t)=>{let n=Ts(Zs,e.__scopeSelect),r=Ps(Zs,e.__scopeSelect),[i,a]=C.useState(!1),o=xe(t,r.onScrollButtonChange);return Le(()=>{if(n.viewport&&n.isPositioned){let e=function(){a(t.scrollTop>0)},t=n.viewport;return e(),t.addEventListener(`scroll`,e),()=>t.removeEventListener(`scroll`,e)}},[n.viewport,n.isPositioned]),i?(0,L.jsx)(tc,{...e,ref:o,onAutoScroll:()=>{let{viewport:e,selectedItem:t}=n;e&&t&&(e.scrollTop-=t.offsetHeight)}}):null});Qs.displayName=Zs;var $s=`SelectScrollDownButton`,ec=C.forwardRef((e,t)=>{let n=Ts($s,e.__scopeSelect),r=Ps($s,e.__scopeSelect),[i,a]=C.useState(!1),o=xe(t,r.onScrollButtonChange);return Le(()=>{if(n.viewport&&n.isPositioned){let e=function(){let e=t.scrollHeight-t.clientHeight;a(Math.ceil(t.scrollTop)<e)},t=n.viewport;return e(),t.addEventListener(`scroll`,e),()=>t.removeEventListener(`scroll`,e)}},[n.viewport,n.isPositioned]),i?(0,L.jsx)(tc,{...e,ref:o,onAutoScroll:()=>{let{viewport:e,selectedItem:t}=n;e&&t&&(e.scrollTop+=t.offsetHeight)}}):null});ec.displayName=$s;var tc=C.forwardRef((e,t)=>{let{__scopeSelect:n,onAutoScroll:r,...i}=e,a=Ts(`SelectScrollButton`,n),o=C.useRef(null),s=rs(n),c=C.useCallback(()=>{o.current!==null&&(window.clearInterval(o.current),o.current=null)},[]);return C.useEffect(()=>()=>c(),[c]),Le(()=>{s().find(e=>e.ref.current===document.activeElement)?.ref.current?.scrollIntoView({block:`nearest`})},[s]),(0,L.jsx)(V.div,{"aria-hidden":!0,...i,ref:t,style:{flexShrink:0,...i.style},onPointerDown:R(i.onPointerDown,()=>{o.current===null&&(o.current=window.setInterval(r,50))}),onPointerMove:R(i.onPointerMove,()=>{a.onItemLeave?.(),o.current===null&&(o.current=window.setInterval(r,50))}),onPointerLeave:R(i.onPointerLeave,()=>{c()})})}),nc=`SelectSeparator`,rc=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e;return(0,L.jsx)(V.div,{"aria-hidden":!0,...r,ref:t})});rc.displayName=nc;var ic=`SelectArrow`,ac=C.forwardRef((e,t)=>{let{__scopeSelect:n,...r}=e,i=ss(n),a=ls(ic,n),o=Ts(ic,n);return a.open&&o.position===`popper`?(0,L.jsx)(Ho,{...i,...r,ref:t}):null});ac.displayName=ic;var oc=`SelectBubbleInput`,sc=C.forwardRef(({__scopeSelect:e,value:t,...n},r)=>{let i=C.useRef(null),a=xe(r,i),o=Yo(t);return C.useEffect(()=>{let e=i.current;if(!e)return;let n=window.HTMLSelectElement.prototype,r=Object.getOwnPropertyDescriptor(n,`value`).set;if(o!==t&&r){let n=new Event(`change`,{bubbles:!0});r.call(e,t),e.dispatchEvent(n)}},[o,t]),(0,L.jsx)(V.select,{...n,style:{...Xo,...n.style},ref:a,defaultValue:t})});sc.displayName=oc;function cc(e){return e===``||e===void 0}function lc(e){let t=Ze(e),n=C.useRef(``),r=C.useRef(0),i=C.useCallback(e=>{let i=n.current+e;t(i),(function e(t){n.current=t,window.clearTimeout(r.current),t!==``&&(r.current=window.setTimeout(()=>e(``),1e3))})(i)},[t]),a=C.useCallback(()=>{n.current=``,window.clearTimeout(r.current)},[]);return C.useEffect(()=>()=>window.clearTimeout(r.current),[]),[n,i,a]}function uc(e,t,n){let r=t.length>1&&Array.from(t).every(e=>e===t[0])?t[0]:t,i=n?e.indexOf(n):-1,a=dc(e,Math.max(i,0));r.length===1&&(a=a.filter(e=>e!==n));let o=a.find(e=>e.textValue.toLowerCase().startsWith(r.toLowerCase()));return o===n?void 0:o}function dc(e,t){return e.map((n,r)=>e[(t+r)%e.length])}var fc=fs,pc=ms,mc=gs,hc=vs,gc=bs,_c=Ss,vc=Is,yc=Ks,bc=Js,xc=Xs,Sc=`rovingFocusGroup.onEntryFocus`,Cc={bubbles:!1,cancelable:!0},wc=`RovingFocusGroup`,[Tc,Ec,Dc]=ri(wc),[Oc,kc]=Fe(wc,[Dc]),[Ac,jc]=Oc(wc),Mc=C.forwardRef((e,t)=>(0,L.jsx)(Tc.Provider,{scope:e.__scopeRovingFocusGroup,children:(0,L.jsx)(Tc.Slot,{scope:e.__scopeRovingFocusGroup,children:(0,L.jsx)(Nc,{...e,ref:t})})}));Mc.displayName=wc;var Nc=C.forwardRef((e,t)=>{let{__scopeRovingFocusGroup:n,orientation:r,loop:i=!1,dir:a,currentTabStopId:o,defaultCurrentTabStopId:s,onCurrentTabStopIdChange:c,onEntryFocus:l,preventScrollOnEntryFocus:u=!1,...d}=e,f=C.useRef(null),p=xe(t,f),m=ai(a),[h,g]=He({prop:o,defaultProp:s??null,onChange:c,caller:wc}),[_,v]=C.useState(!1),y=Ze(l),b=Ec(n),x=C.useRef(!1),[S,w]=C.useState(0);return C.useEffect(()=>{let e=f.current;if(e)return e.addEventListener(Sc,y),()=>e.removeEventListener(Sc,y)},[y]),(0,L.jsx)(Ac,{scope:n,orientation:r,dir:m,loop:i,currentTabStopId:h,onItemFocus:C.useCallback(e=>g(e),[g]),onItemShiftTab:C.useCallback(()=>v(!0),[]),onFocusableItemAdd:C.useCallback(()=>w(e=>e+1),[]),onFocusableItemRemove:C.useCallback(()=>w(e=>e-1),[]),children:(0,L.jsx)(V.div,{tabIndex:_||S===0?-1:0,"data-orientation":r,...d,ref:p,style:{outline:`none`,...e.style},onMouseDown:R(e.onMouseDown,()=>{x.current=!0}),onFocus:R(e.onFocus,e=>{let t=!x.current;if(e.target===e.currentTarget&&t&&!_){let t=new CustomEvent(Sc,Cc);if(e.currentTarget.dispatchEvent(t),!t.defaultPrevented){let e=b().filter(e=>e.focusable);zc([e.find(e=>e.active),e.find(e=>e.id===h),...e].filter(Boolean).map(e=>e.ref.current),u)}}x.current=!1}),onBlur:R(e.onBlur,()=>v(!1))})})}),Pc=`RovingFocusGroupItem`,Fc=C.forwardRef((e,t)=>{let{__scopeRovingFocusGroup:n,focusable:r=!0,active:i=!1,tabStopId:a,children:o,...s}=e,c=Be(),l=a||c,u=jc(Pc,n),d=u.currentTabStopId===l,f=Ec(n),{onFocusableItemAdd:p,onFocusableItemRemove:m,currentTabStopId:h}=u;return C.useEffect(()=>{if(r)return p(),()=>m()},[r,p,m]),(0,L.jsx)(Tc.ItemSlot,{scope:n,id:l,focusable:r,active:i,children:(0,L.jsx)(V.span,{tabIndex:d?0:-1,"data-orientation":u.orientation,...s,ref:t,onMouseDown:R(e.onMouseDown,e=>{r?u.onItemFocus(l):e.preventDefault()}),onFocus:R(e.onFocus,()=>u.onItemFocus(l)),onKeyDown:R(e.onKeyDown,e=>{if(e.key===`Tab`&&e.shiftKey){u.onItemShiftTab();return}if(e.target!==e.currentTarget)return;let t=Rc(e,u.orientation,u.dir);if(t!==void 0){if(e.metaKey||e.ctrlKey||e.altKey||e.shiftKey)return;e.preventDefault();let n=f().filter(e=>e.focusable).map(e=>e.ref.current);if(t===`last`)n.reverse();else if(t===`prev`||t===`next`){t===`prev`&&n.reverse();let r=n.indexOf(e.currentTarget);n=u.loop?Bc(n,r+1):n.slice(r+1)}setTimeout(()=>zc(n))}}),children:typeof o==`function`?o({isCurrentTabStop:d,hasTabStop:h!=null}):o})})});Fc.displayName=Pc;var Ic={ArrowLeft:`prev`,ArrowUp:`prev`,ArrowRight:`next`,ArrowDown:`next`,PageUp:`first`,Home:`first`,PageDown:`last`,End:`last`};function Lc(e,t){return t===`rtl`?e===`ArrowLeft`?`ArrowRight`:e===`ArrowRight`?`ArrowLeft`:e:e}function Rc(e,t,n){let r=Lc(e.key,n);if(!(t===`vertical`&&[`ArrowLeft`,`ArrowRight`].includes(r))&&!(t===`horizontal`&&[`ArrowUp`,`ArrowDown`].includes(r)))return Ic[r]}function zc(e,t=!1){let n=document.activeElement;for(let r of e)if(r===n||(r.focus({preventScroll:t}),document.activeElement!==n))return}function Bc(e,t){return e.map((n,r)=>e[(t+r)%e.length])}var Vc=Mc,Hc=Fc,Uc=`Tabs`,[Wc,Gc]=Fe(Uc,[kc]),Kc=kc(),[qc,Jc]=Wc(Uc),Yc=C.forwardRef((e,t)=>{let{__scopeTabs:n,value:r,onValueChange:i,defaultValue:a,orientation:o=`horizontal`,dir:s,activationMode:c=`automatic`,...l}=e,u=ai(s),[d,f]=He({prop:r,onChange:i,defaultProp:a??``,caller:Uc});return(0,L.jsx)(qc,{scope:n,baseId:Be(),value:d,onValueChange:f,orientation:o,dir:u,activationMode:c,children:(0,L.jsx)(V.div,{dir:u,"data-orientation":o,...l,ref:t})})});Yc.displayName=Uc;var Xc=`TabsList`,Zc=C.forwardRef((e,t)=>{let{__scopeTabs:n,loop:r=!0,...i}=e,a=Jc(Xc,n),o=Kc(n);return(0,L.jsx)(Vc,{asChild:!0,...o,orientation:a.orientation,dir:a.dir,loop:r,children:(0,L.jsx)(V.div,{role:`tablist`,"aria-orientation":a.orientation,...i,ref:t})})});Zc.displayName=Xc;var Qc=`TabsTrigger`,$c=C.forwardRef((e,t)=>{let{__scopeTabs:n,value:r,disabled:i=!1,...a}=e,o=Jc(Qc,n),s=Kc(n),c=nl(o.baseId,r),l=rl(o.baseId,r),u=r===o.value;return(0,L.jsx)(Hc,{asChild:!0,...s,focusable:!i,active:u,children:(0,L.jsx)(V.button,{type:`button`,role:`tab`,"aria-selected":u,"aria-controls":l,"data-state":u?`active`:`inactive`,"data-disabled":i?``:void 0,disabled:i,id:c,...a,ref:t,onMouseDown:R(e.onMouseDown,e=>{!i&&e.button===0&&e.ctrlKey===!1?o.onValueChange(r):e.preventDefault()}),onKeyDown:R(e.onKeyDown,e=>{[` `,`Enter`].includes(e.key)&&o.onValueChange(r)}),onFocus:R(e.onFocus,()=>{let e=o.activationMode!==`manual`;!u&&!i&&e&&o.onValueChange(r)})})})});$c.displayName=Qc;var el=`TabsContent`,tl=C.forwardRef((e,t)=>{let{__scopeTabs:n,value:r,forceMount:i,children:a,...o}=e,s=Jc(el,n),c=nl(s.baseId,r),l=rl(s.baseId,r),u=r===s.value,d=C.useRef(u);return C.useEffect(()=>{let e=requestAnimationFrame(()=>d.current=!1);return()=>cancelAnimationFrame(e)},[]),(0,L.jsx)(jt,{present:i||u,children:({present:n})=>(0,L.jsx)(V.div,{"data-state":u?`active`:`inactive`,"data-orientation":s.orientation,role:`tabpanel`,"aria-labelledby":c,hidden:!n,id:l,tabIndex:0,...o,ref:t,style:{...e.style,animationDuration:d.current?`0s`:void 0},children:n&&a})})});tl.displayName=el;function nl(e,t){return`${e}-trigger-${t}`}function rl(e,t){return`${e}-content-${t}`}var il=Yc,al=Zc,ol=$c,sl=`Collapsible`,[cl,ll]=Fe(sl),[ul,dl]=cl(sl),fl=C.forwardRef((e,t)=>{let{__scopeCollapsible:n,open:r,defaultOpen:i,disabled:a,onOpenChange:o,...s}=e,[c,l]=He({prop:r,defaultProp:i??!1,onChange:o,caller:sl});return(0,L.jsx)(ul,{scope:n,disabled:a,contentId:Be(),open:c,onOpenToggle:C.useCallback(()=>l(e=>!e),[l]),children:(0,L.jsx)(V.div,{"data-state":vl(c),"data-disabled":a?``:void 0,...s,ref:t})})});fl.displayName=sl;var pl=`CollapsibleTrigger`,ml=C.forwardRef((e,t)=>{let{__scopeCollapsible:n,...r}=e,i=dl(pl,n);return(0,L.jsx)(V.button,{type:`button`,"aria-controls":i.contentId,"aria-expanded":i.open||!1,"data-state":vl(i.open),"data-disabled":i.disabled?``:void 0,disabled:i.disabled,...r,ref:t,onClick:R(e.onClick,i.onOpenToggle)})});ml.displayName=pl;var hl=`CollapsibleContent`,gl=C.forwardRef((e,t)=>{let{forceMount:n,...r}=e,i=dl(hl,e.__scopeCollapsible);return(0,L.jsx)(jt,{present:n||i.open,children:({present:e})=>(0,L.jsx)(_l,{...r,ref:t,present:e})})});gl.displayName=hl;var _l=C.forwardRef((e,t)=>{let{__scopeCollapsible:n,present:r,children:i,...a}=e,o=dl(hl,n),[s,c]=C.useState(r),l=C.useRef(null),u=xe(t,l),d=C.useRef(0),f=d.current,p=C.useRef(0),m=p.current,h=o.open||s,g=C.useRef(h),_=C.useRef(void 0);return C.useEffect(()=>{let e=requestAnimationFrame(()=>g.current=!1);return()=>cancelAnimationFrame(e)},[]),Le(()=>{let e=l.current;if(e){_.current=_.current||{transitionDuration:e.style.transitionDuration,animationName:e.style.animationName},e.style.transitionDuration=`0s`,e.style.animationName=`none`;let t=e.getBoundingClientRect();d.current=t.height,p.current=t.width,g.current||(e.style.transitionDuration=_.current.transitionDuration,e.style.animationName=_.current.animationName),c(r)}},[o.open,r]),(0,L.jsx)(V.div,{"data-state":vl(o.open),"data-disabled":o.disabled?``:void 0,id:o.contentId,hidden:!h,...a,ref:u,style:{"--radix-collapsible-content-height":f?`${f}px`:void 0,"--radix-collapsible-content-width":m?`${m}px`:void 0,...e.style},children:h&&i})});function vl(e){return e?`open`:`closed`}var yl=fl,bl=ml,xl=gl,Sl=`Accordion`,Cl=[`Home`,`End`,`ArrowDown`,`ArrowUp`,`ArrowLeft`,`ArrowRight`],[wl,Tl,El]=ri(Sl),[Dl,Ol]=Fe(Sl,[El,ll]),kl=ll(),Al=C.forwardRef((e,t)=>{let{type:n,...r}=e,i=r,a=r;return(0,L.jsx)(wl.Provider,{scope:e.__scopeAccordion,children:n===`multiple`?(0,L.jsx)(Il,{...a,ref:t}):(0,L.jsx)(Fl,{...i,ref:t})})});Al.displayName=Sl;var[jl,Ml]=Dl(Sl),[Nl,Pl]=Dl(Sl,{collapsible:!1}),Fl=C.forwardRef((e,t)=>{let{value:n,defaultValue:r,onValueChange:i=()=>{},collapsible:a=!1,...o}=e,[s,c]=He({prop:n,defaultProp:r??``,onChange:i,caller:Sl});return(0,L.jsx)(jl,{scope:e.__scopeAccordion,value:C.useMemo(()=>s?[s]:[],[s]),onItemOpen:c,onItemClose:C.useCallback(()=>a&&c(``),[a,c]),children:(0,L.jsx)(Nl,{scope:e.__scopeAccordion,collapsible:a,children:(0,L.jsx)(zl,{...o,ref:t})})})}),Il=C.forwardRef((e,t)=>{let{value:n,defaultValue:r,onValueChange:i=()=>{},...a}=e,[o,s]=He({prop:n,defaultProp:r??[],onChange:i,caller:Sl}),c=C.useCallback(e=>s((t=[])=>[...t,e]),[s]),l=C.useCallback(e=>s((t=[])=>t.filter(t=>t!==e)),[s]);return(0,L.jsx)(jl,{scope:e.__scopeAccordion,value:o,onItemOpen:c,onItemClose:l,children:(0,L.jsx)(Nl,{scope:e.__scopeAccordion,collapsible:!0,children:(0,L.jsx)(zl,{...a,ref:t})})})}),[Ll,Rl]=Dl(Sl),zl=C.forwardRef((e,t)=>{let{__scopeAccordion:n,disabled:r,dir:i,orientation:a=`vertical`,...o}=e,s=xe(C.useRef(null),t),c=Tl(n),l=ai(i)===`ltr`,u=R(e.onKeyDown,e=>{if(!Cl.includes(e.key))return;let t=e.target,n=c().filter(e=>!e.ref.current?.disabled),r=n.findIndex(e=>e.ref.current===t),i=n.length;if(r===-1)return;e.preventDefault();let o=r,s=i-1,u=()=>{o=r+1,o>s&&(o=0)},d=()=>{o=r-1,o<0&&(o=s)};switch(e.key){case`Home`:o=0;break;case`End`:o=s;break;case`ArrowRight`:a===`horizontal`&&(l?u():d());break;case`ArrowDown`:a===`vertical`&&u();break;case`ArrowLeft`:a===`horizontal`&&(l?d():u());break;case`ArrowUp`:a===`vertical`&&d();break}n[o%i].ref.current?.focus()});return(0,L.jsx)(Ll,{scope:n,disabled:r,direction:i,orientation:a,children:(0,L.jsx)(wl.Slot,{scope:n,children:(0,L.jsx)(V.div,{...o,"data-orientation":a,ref:s,onKeyDown:r?void 0:u})})})}),Bl=`AccordionItem`,[Vl,Hl]=Dl(Bl),W=C.forwardRef((e,t)=>{let{__scopeAccordion:n,value:r,...i}=e,a=Rl(Bl,n),o=Ml(Bl,n),s=kl(n),c=Be(),l=r&&o.value.includes(r)||!1,u=a.disabled||e.disabled;return(0,L.jsx)(Vl,{scope:n,open:l,disabled:u,triggerId:c,children:(0,L.jsx)(yl,{"data-orientation":a.orientation,"data-state":Jl(l),...s,...i,ref:t,disabled:u,open:l,onOpenChange:e=>{e?o.onItemOpen(r):o.onItemClose(r)}})})});W.displayName=Bl;var G=`AccordionHeader`,Ul=C.forwardRef((e,t)=>{let{__scopeAccordion:n,...r}=e,i=Rl(Sl,n),a=Hl(G,n);return(0,L.jsx)(V.h3,{"data-orientation":i.orientation,"data-state":Jl(a.open),"data-disabled":a.disabled?``:void 0,...r,ref:t})});Ul.displayName=G;var Wl=`AccordionTrigger`,Gl=C.forwardRef((e,t)=>{let{__scopeAccordion:n,...r}=e,i=Rl(Sl,n),a=Hl(Wl,n),o=Pl(Wl,n),s=kl(n);return(0,L.jsx)(wl.ItemSlot,{scope:n,children:(0,L.jsx)(bl,{"aria-disabled":a.open&&!o.collapsible||void 0,"data-orientation":i.orientation,id:a.triggerId,...s,...r,ref:t})})});Gl.displayName=Wl;var Kl=`AccordionContent`,ql=C.forwardRef((e,t)=>{let{__scopeAccordion:n,...r}=e,i=Rl(Sl,n),a=Hl(Kl,n),o=kl(n);return(0,L.jsx)(xl,{role:`region`,"aria-labelledby":a.triggerId,"data-orientation":i.orientation,...o,...r,ref:t,style:{"--radix-accordion-content-height":`var(--radix-collapsible-content-height)`,"--radix-accordion-content-width":`var(--radix-collapsible-content-width)`,...e.style}})});ql.displayName=Kl;function Jl(e){return e?`open`:`closed`}var Yl=Al,Xl=W,Zl=Ul,Ql=Gl,$l=ql;function eu(e){var t,n,r=``;if(typeof e==`string`||typeof e==`number`)r+=e;else if(typeof e==`object`)if(Array.isArray(e)){var i=e.length;for(t=0;t<i;t++)e[t]&&(n=eu(e[t]))&&(r&&(r+=` `),r+=n)}else for(n in e)e[n]&&(r&&(r+=` `),r+=n);return r}function tu(){for(var e,t,n=0,r=``,i=arguments.length;n<i;n++)(e=arguments[n])&&(t=eu(e))&&(r&&(r+=` `),r+=t);return r}var nu=e=>typeof e==`boolean`?`${e}`:e===0?`0`:e,ru=tu,iu=(e,t)=>n=>{if(t?.variants==null)return ru(e,n?.class,n?.className);let{variants:r,defaultVariants:i}=t,a=Object.keys(r).map(e=>{let t=n?.[e],a=i?.[e];if(t===null)return null;let o=nu(t)||nu(a);return r[e][o]}),o=n&&Object.entries(n).reduce((e,t)=>{let[n,r]=t;return r===void 0||(e[n]=r),e},{});return ru(e,a,t?.compoundVariants?.reduce((e,t)=>{let{class:n,className:r,...a}=t;return Object.entries(a).every(e=>{let[t,n]=e;return Array.isArray(n)?n.includes({...i,...o}[t]):{...i,...o}[t]===n})?[...e,n,r]:e},[]),n?.class,n?.className)},au=(e,t)=>{let n=Array(e.length+t.length);for(let t=0;t<e.length;t++)n[t]=e[t];for(let r=0;r<t.length;r++)n[e.length+r]=t[r];return n},ou=(e,t)=>({classGroupId:e,validator:t}),su=(e=new Map,t=null,n)=>({nextPart:e,validators:t,classGroupId:n}),cu=`-`,lu=[],uu=`arbitrary..`,du=e=>{let t=mu(e),{conflictingClassGroups:n,conflictingClassGroupModifiers:r}=e;return{getClassGroupId:e=>{if(e.startsWith(`[`)&&e.endsWith(`]`))return pu(e);let n=e.split(cu);return fu(n,+(n[0]===``&&n.length>1),t)},getConflictingClassGroupIds:(e,t)=>{if(t){let t=r[e],i=n[e];return t?i?au(i,t):t:i||lu}return n[e]||lu}}},fu=(e,t,n)=>{if(e.length-t===0)return n.classGroupId;let r=e[t],i=n.nextPart.get(r);if(i){let n=fu(e,t+1,i);if(n)return n}let a=n.validators;if(a===null)return;let o=t===0?e.join(cu):e.slice(t).join(cu),s=a.length;for(let e=0;e<s;e++){let t=a[e];if(t.validator(o))return t.classGroupId}},pu=e=>e.slice(1,-1).indexOf(`:`)===-1?void 0:(()=>{let t=e.slice(1,-1),n=t.indexOf(`:`),r=t.slice(0,n);return r?uu+r:void 0})(),mu=e=>{let{theme:t,classGroups:n}=e;return hu(n,t)},hu=(e,t)=>{let n=su();for(let r in e){let i=e[r];gu(i,n,r,t)}return n},gu=(e,t,n,r)=>{let i=e.length;for(let a=0;a<i;a++){let i=e[a];_u(i,t,n,r)}},_u=(e,t,n,r)=>{if(typeof e==`string`){vu(e,t,n);return}if(typeof e==`function`){yu(e,t,n,r);return}bu(e,t,n,r)},vu=(e,t,n)=>{let r=e===``?t:xu(t,e);r.classGroupId=n},yu=(e,t,n,r)=>{if(Su(e)){gu(e(r),t,n,r);return}t.validators===null&&(t.validators=[]),t.validators.push(ou(n,e))},bu=(e,t,n,r)=>{let i=Object.entries(e),a=i.length;for(let e=0;e<a;e++){let[a,o]=i[e];gu(o,xu(t,a),n,r)}},xu=(e,t)=>{let n=e,r=t.split(cu),i=r.length;for(let e=0;e<i;e++){let t=r[e],i=n.nextPart.get(t);i||(i=su(),n.nextPart.set(t,i)),n=i}return n},Su=e=>`isThemeGetter`in e&&e.isThemeGetter===!0,Cu=e=>{if(e<1)return{get:()=>void 0,set:()=>{}};let t=0,n=Object.create(null),r=Object.create(null),i=(i,a)=>{n[i]=a,t++,t>e&&(t=0,r=n,n=Object.create(null))};return{get(e){let t=n[e];if(t!==void 0)return t;if((t=r[e])!==void 0)return i(e,t),t},set(e,t){e in n?n[e]=t:i(e,t)}}},wu=`!`,Tu=`:`,Eu=[],Du=(e,t,n,r,i)=>({modifiers:e,hasImportantModifier:t,baseClassName:n,maybePostfixModifierPosition:r,isExternal:i}),Ou=e=>{let{prefix:t,experimentalParseClassName:n}=e,r=e=>{let t=[],n=0,r=0,i=0,a,o=e.length;for(let s=0;s<o;s++){let o=e[s];if(n===0&&r===0){if(o===Tu){t.push(e.slice(i,s)),i=s+1;continue}if(o===`/`){a=s;continue}}o===`[`?n++:o===`]`?n--:o===`(`?r++:o===`)`&&r--}let s=t.length===0?e:e.slice(i),c=s,l=!1;s.endsWith(wu)?(c=s.slice(0,-1),l=!0):s.startsWith(wu)&&(c=s.slice(1),l=!0);let u=a&&a>i?a-i:void 0;return Du(t,l,c,u)};if(t){let e=t+Tu,n=r;r=t=>t.startsWith(e)?n(t.slice(e.length)):Du(Eu,!1,t,void 0,!0)}if(n){let e=r;r=t=>n({className:t,parseClassName:e})}return r},ku=e=>{let t=new Map;return e.orderSensitiveModifiers.forEach((e,n)=>{t.set(e,1e6+n)}),e=>{let n=[],r=[];for(let i=0;i<e.length;i++){let a=e[i],o=a[0]===`[`,s=t.has(a);o||s?(r.length>0&&(r.sort(),n.push(...r),r=[]),n.push(a)):r.push(a)}return r.length>0&&(r.sort(),n.push(...r)),n}},Au=e=>({cache:Cu(e.cacheSize),parseClassName:Ou(e),sortModifiers:ku(e),...du(e)}),ju=/\s+/,Mu=(e,t)=>{let{parseClassName:n,getClassGroupId:r,getConflictingClassGroupIds:i,sortModifiers:a}=t,o=[],s=e.trim().split(ju),c=``;for(let e=s.length-1;e>=0;--e){let t=s[e],{isExternal:l,modifiers:u,hasImportantModifier:d,baseClassName:f,maybePostfixModifierPosition:p}=n(t);if(l){c=t+(c.length>0?` `+c:c);continue}let m=!!p,h=r(m?f.substring(0,p):f);if(!h){if(!m){c=t+(c.length>0?` `+c:c);continue}if(h=r(f),!h){c=t+(c.length>0?` `+c:c);continue}m=!1}let g=u.length===0?``:u.length===1?u[0]:a(u).join(`:`),_=d?g+wu:g,v=_+h;if(o.indexOf(v)>-1)continue;o.push(v);let y=i(h,m);for(let e=0;e<y.length;++e){let t=y[e];o.push(_+t)}c=t+(c.length>0?` `+c:c)}return c},Nu=(...e)=>{let t=0,n,r,i=``;for(;t<e.length;)(n=e[t++])&&(r=Pu(n))&&(i&&(i+=` `),i+=r);return i},Pu=e=>{if(typeof e==`string`)return e;let t,n=``;for(let r=0;r<e.length;r++)e[r]&&(t=Pu(e[r]))&&(n&&(n+=` `),n+=t);return n},Fu=(e,...t)=>{let n,r,i,a,o=o=>(n=Au(t.reduce((e,t)=>t(e),e())),r=n.cache.get,i=n.cache.set,a=s,s(o)),s=e=>{let t=r(e);if(t)return t;let a=Mu(e,n);return i(e,a),a};return a=o,(...e)=>a(Nu(...e))},Iu=[],Lu=e=>{let t=t=>t[e]||Iu;return t.isThemeGetter=!0,t},Ru=/^\[(?:(\w[\w-]*):)?(.+)\]$/i,zu=/^\((?:(\w[\w-]*):)?(.+)\)$/i,Bu=/^\d+(?:\.\d+)?\/\d+(?:\.\d+)?$/,Vu=/^(\d+(\.\d+)?)?(xs|sm|md|lg|xl)$/,Hu=/\d+(%|px|r?em|[sdl]?v([hwib]|min|max)|pt|pc|in|cm|mm|cap|ch|ex|r?lh|cq(w|h|i|b|min|max))|\b(calc|min|max|clamp)\(.+\)|^0$/,Uu=/^(rgba?|hsla?|hwb|(ok)?(lab|lch)|color-mix)\(.+\)$/,Wu=/^(inset_)?-?((\d+)?\.?(\d+)[a-z]+|0)_-?((\d+)?\.?(\d+)[a-z]+|0)/,Gu=/^(url|image|image-set|cross-fade|element|(repeating-)?(linear|radial|conic)-gradient)\(.+\)$/,Ku=e=>Bu.test(e),K=e=>!!e&&!Number.isNaN(Number(e)),qu=e=>!!e&&Number.isInteger(Number(e)),Ju=e=>e.endsWith(`%`)&&K(e.slice(0,-1)),q=e=>Vu.test(e),Yu=()=>!0,Xu=e=>Hu.test(e)&&!Uu.test(e),Zu=()=>!1,Qu=e=>Wu.test(e),$u=e=>Gu.test(e),ed=e=>!J(e)&&!Y(e),td=e=>gd(e,bd,Zu),J=e=>Ru.test(e),nd=e=>gd(e,xd,Xu),rd=e=>gd(e,X,K),id=e=>gd(e,Cd,Yu),ad=e=>gd(e,Sd,Zu),od=e=>gd(e,vd,Zu),sd=e=>gd(e,yd,$u),cd=e=>gd(e,wd,Qu),Y=e=>zu.test(e),ld=e=>_d(e,xd),ud=e=>_d(e,Sd),dd=e=>_d(e,vd),fd=e=>_d(e,bd),pd=e=>_d(e,yd),md=e=>_d(e,wd,!0),hd=e=>_d(e,Cd,!0),gd=(e,t,n)=>{let r=Ru.exec(e);return r?r[1]?t(r[1]):n(r[2]):!1},_d=(e,t,n=!1)=>{let r=zu.exec(e);return r?r[1]?t(r[1]):n:!1},vd=e=>e===`position`||e===`percentage`,yd=e=>e===`image`||e===`url`,bd=e=>e===`length`||e===`size`||e===`bg-size`,xd=e=>e===`length`,X=e=>e===`number`,Sd=e=>e===`family-name`,Cd=e=>e===`number`||e===`weight`,wd=e=>e===`shadow`,Td=Fu(()=>{let e=Lu(`color`),t=Lu(`font`),n=Lu(`text`),r=Lu(`font-weight`),i=Lu(`tracking`),a=Lu(`leading`),o=Lu(`breakpoint`),s=Lu(`container`),c=Lu(`spacing`),l=Lu(`radius`),u=Lu(`shadow`),d=Lu(`inset-shadow`),f=Lu(`text-shadow`),p=Lu(`drop-shadow`),m=Lu(`blur`),h=Lu(`perspective`),g=Lu(`aspect`),_=Lu(`ease`),v=Lu(`animate`),y=()=>[`auto`,`avoid`,`all`,`avoid-page`,`page`,`left`,`right`,`column`],b=()=>[`center`,`top`,`bottom`,`left`,`right`,`top-left`,`left-top`,`top-right`,`right-top`,`bottom-right`,`right-bottom`,`bottom-left`,`left-bottom`],x=()=>[...b(),Y,J],S=()=>[`auto`,`hidden`,`clip`,`visible`,`scroll`],C=()=>[`auto`,`contain`,`none`],w=()=>[Y,J,c],T=()=>[Ku,`full`,`auto`,...w()],E=()=>[qu,`none`,`subgrid`,Y,J],D=()=>[`auto`,{span:[`full`,qu,Y,J]},qu,Y,J],O=()=>[qu,`auto`,Y,J],ee=()=>[`auto`,`min`,`max`,`fr`,Y,J],k=()=>[`start`,`end`,`center`,`between`,`around`,`evenly`,`stretch`,`baseline`,`center-safe`,`end-safe`],A=()=>[`start`,`end`,`center`,`stretch`,`center-safe`,`end-safe`],j=()=>[`auto`,...w()],M=()=>[Ku,`auto`,`full`,`dvw`,`dvh`,`lvw`,`lvh`,`svw`,`svh`,`min`,`max`,`fit`,...w()],te=()=>[Ku,`screen`,`full`,`dvw`,`lvw`,`svw`,`min`,`max`,`fit`,...w()],ne=()=>[Ku,`screen`,`full`,`lh`,`dvh`,`lvh`,`svh`,`min`,`max`,`fit`,...w()],N=()=>[e,Y,J],P=()=>[...b(),dd,od,{position:[Y,J]}],re=()=>[`no-repeat`,{repeat:[``,`x`,`y`,`space`,`round`]}],ie=()=>[`auto`,`cover`,`contain`,fd,td,{size:[Y,J]}],ae=()=>[Ju,ld,nd],oe=()=>[``,`none`,`full`,l,Y,J],F=()=>[``,K,ld,nd],I=()=>[`solid`,`dashed`,`dotted`,`double`],se=()=>[`normal`,`multiply`,`screen`,`overlay`,`darken`,`lighten`,`color-dodge`,`color-burn`,`hard-light`,`soft-light`,`difference`,`exclusion`,`hue`,`saturation`,`color`,`luminosity`],ce=()=>[K,Ju,dd,od],le=()=>[``,`none`,m,Y,J],ue=()=>[`none`,K,Y,J],de=()=>[`none`,K,Y,J],fe=()=>[K,Y,J],pe=()=>[Ku,`full`,...w()];return{cacheSize:500,theme:{animate:[`spin`,`ping`,`pulse`,`bounce`],aspect:[`video`],blur:[q],breakpoint:[q],color:[Yu],container:[q],"drop-shadow":[q],ease:[`in`,`out`,`in-out`],font:[ed],"font-weight":[`thin`,`extralight`,`light`,`normal`,`medium`,`semibold`,`bold`,`extrabold`,`black`],"inset-shadow":[q],leading:[`none`,`tight`,`snug`,`normal`,`relaxed`,`loose`],perspective:[`dramatic`,`near`,`normal`,`midrange`,`distant`,`none`],radius:[q],shadow:[q],spacing:[`px`,K],text:[q],"text-shadow":[q],tracking:[`tighter`,`tight`,`normal`,`wide`,`wider`,`widest`]},classGroups:{aspect:[{aspect:[`auto`,`square`,Ku,J,Y,g]}],container:[`container`],columns:[{columns:[K,J,Y,s]}],"break-after":[{"break-after":y()}],"break-before":[{"break-before":y()}],"break-inside":[{"break-inside":[`auto`,`avoid`,`avoid-page`,`avoid-column`]}],"box-decoration":[{"box-decoration":[`slice`,`clone`]}],box:[{box:[`border`,`content`]}],display:[`block`,`inline-block`,`inline`,`flex`,`inline-flex`,`table`,`inline-table`,`table-caption`,`table-cell`,`table-column`,`table-column-group`,`table-footer-group`,`table-header-group`,`table-row-group`,`table-row`,`flow-root`,`grid`,`inline-grid`,`contents`,`list-item`,`hidden`],sr:[`sr-only`,`not-sr-only`],float:[{float:[`right`,`left`,`none`,`start`,`end`]}],clear:[{clear:[`left`,`right`,`both`,`none`,`start`,`end`]}],isolation:[`isolate`,`isolation-auto`],"object-fit":[{object:[`contain`,`cover`,`fill`,`none`,`scale-down`]}],"object-position":[{object:x()}],overflow:[{overflow:S()}],"overflow-x":[{"overflow-x":S()}],"overflow-y":[{"overflow-y":S()}],overscroll:[{overscroll:C()}],"overscroll-x":[{"overscroll-x":C()}],"overscroll-y":[{"overscroll-y":C()}],position:[`static`,`fixed`,`absolute`,`relative`,`sticky`],inset:[{inset:T()}],"inset-x":[{"inset-x":T()}],"inset-y":[{"inset-y":T()}],start:[{"inset-s":T(),start:T()}],end:[{"inset-e":T(),end:T()}],"inset-bs":[{"inset-bs":T()}],"inset-be":[{"inset-be":T()}],top:[{top:T()}],right:[{right:T()}],bottom:[{bottom:T()}],left:[{left:T()}],visibility:[`visible`,`invisible`,`collapse`],z:[{z:[qu,`auto`,Y,J]}],basis:[{basis:[Ku,`full`,`auto`,s,...w()]}],"flex-direction":[{flex:[`row`,`row-reverse`,`col`,`col-reverse`]}],"flex-wrap":[{flex:[`nowrap`,`wrap`,`wrap-reverse`]}],flex:[{flex:[K,Ku,`auto`,`initial`,`none`,J]}],grow:[{grow:[``,K,Y,J]}],shrink:[{shrink:[``,K,Y,J]}],order:[{order:[qu,`first`,`last`,`none`,Y,J]}],"grid-cols":[{"grid-cols":E()}],"col-start-end":[{col:D()}],"col-start":[{"col-start":O()}],"col-end":[{"col-end":O()}],"grid-rows":[{"grid-rows":E()}],"row-start-end":[{row:D()}],"row-start":[{"row-start":O()}],"row-end":[{"row-end":O()}],"grid-flow":[{"grid-flow":[`row`,`col`,`dense`,`row-dense`,`col-dense`]}],"auto-cols":[{"auto-cols":ee()}],"auto-rows":[{"auto-rows":ee()}],gap:[{gap:w()}],"gap-x":[{"gap-x":w()}],"gap-y":[{"gap-y":w()}],"justify-content":[{justify:[...k(),`normal`]}],"justify-items":[{"justify-items":[...A(),`normal`]}],"justify-self":[{"justify-self":[`auto`,...A()]}],"align-content":[{content:[`normal`,...k()]}],"align-items":[{items:[...A(),{baseline:[``,`last`]}]}],"align-self":[{self:[`auto`,...A(),{baseline:[``,`last`]}]}],"place-content":[{"place-content":k()}],"place-items":[{"place-items":[...A(),`baseline`]}],"place-self":[{"place-self":[`auto`,...A()]}],p:[{p:w()}],px:[{px:w()}],py:[{py:w()}],ps:[{ps:w()}],pe:[{pe:w()}],pbs:[{pbs:w()}],pbe:[{pbe:w()}],pt:[{pt:w()}],pr:[{pr:w()}],pb:[{pb:w()}],pl:[{pl:w()}],m:[{m:j()}],mx:[{mx:j()}],my:[{my:j()}],ms:[{ms:j()}],me:[{me:j()}],mbs:[{mbs:j()}],mbe:[{mbe:j()}],mt:[{mt:j()}],mr:[{mr:j()}],mb:[{mb:j()}],ml:[{ml:j()}],"space-x":[{"space-x":w()}],"space-x-reverse":[`space-x-reverse`],"space-y":[{"space-y":w()}],"space-y-reverse":[`space-y-reverse`],size:[{size:M()}],"inline-size":[{inline:[`auto`,...te()]}],"min-inline-size":[{"min-inline":[`auto`,...te()]}],"max-inline-size":[{"max-inline":[`none`,...te()]}],"block-size":[{block:[`auto`,...ne()]}],"min-block-size":[{"min-block":[`auto`,...ne()]}],"max-block-size":[{"max-block":[`none`,...ne()]}],w:[{w:[s,`screen`,...M()]}],"min-w":[{"min-w":[s,`screen`,`none`,...M()]}],"max-w":[{"max-w":[s,`screen`,`none`,`prose`,{screen:[o]},...M()]}],h:[{h:[`screen`,`lh`,...M()]}],"min-h":[{"min-h":[`screen`,`lh`,`none`,...M()]}],"max-h":[{"max-h":[`screen`,`lh`,...M()]}],"font-size":[{text:[`base`,n,ld,nd]}],"font-smoothing":[`antialiased`,`subpixel-antialiased`],"font-style":[`italic`,`not-italic`],"font-weight":[{font:[r,hd,id]}],"font-stretch":[{"font-stretch":[`ultra-condensed`,`extra-condensed`,`condensed`,`semi-condensed`,`normal`,`semi-expanded`,`expanded`,`extra-expanded`,`ultra-expanded`,Ju,J]}],"font-family":[{font:[ud,ad,t]}],"font-features":[{"font-features":[J]}],"fvn-normal":[`normal-nums`],"fvn-ordinal":[`ordinal`],"fvn-slashed-zero":[`slashed-zero`],"fvn-figure":[`lining-nums`,`oldstyle-nums`],"fvn-spacing":[`proportional-nums`,`tabular-nums`],"fvn-fraction":[`diagonal-fractions`,`stacked-fractions`],tracking:[{tracking:[i,Y,J]}],"line-clamp":[{"line-clamp":[K,`none`,Y,rd]}],leading:[{leading:[a,...w()]}],"list-image":[{"list-image":[`none`,Y,J]}],"list-style-position":[{list:[`inside`,`outside`]}],"list-style-type":[{list:[`disc`,`decimal`,`none`,Y,J]}],"text-alignment":[{text:[`left`,`center`,`right`,`justify`,`start`,`end`]}],"placeholder-color":[{placeholder:N()}],"text-color":[{text:N()}],"text-decoration":[`underline`,`overline`,`line-through`,`no-underline`],"text-decoration-style":[{decoration:[...I(),`wavy`]}],"text-decoration-thickness":[{decoration:[K,`from-font`,`auto`,Y,nd]}],"text-decoration-color":[{decoration:N()}],"underline-offset":[{"underline-offset":[K,`auto`,Y,J]}],"text-transform":[`uppercase`,`lowercase`,`capitalize`,`normal-case`],"text-overflow":[`truncate`,`text-ellipsis`,`text-clip`],"text-wrap":[{text:[`wrap`,`nowrap`,`balance`,`pretty`]}],indent:[{indent:w()}],"vertical-align":[{align:[`baseline`,`top`,`middle`,`bottom`,`text-top`,`text-bottom`,`sub`,`super`,Y,J]}],whitespace:[{whitespace:[`normal`,`nowrap`,`pre`,`pre-line`,`pre-wrap`,`break-spaces`]}],break:[{break:[`normal`,`words`,`all`,`keep`]}],wrap:[{wrap:[`break-word`,`anywhere`,`normal`]}],hyphens:[{hyphens:[`none`,`manual`,`auto`]}],content:[{content:[`none`,Y,J]}],"bg-attachment":[{bg:[`fixed`,`local`,`scroll`]}],"bg-clip":[{"bg-clip":[`border`,`padding`,`content`,`text`]}],"bg-origin":[{"bg-origin":[`border`,`padding`,`content`]}],"bg-position":[{bg:P()}],"bg-repeat":[{bg:re()}],"bg-size":[{bg:ie()}],"bg-image":[{bg:[`none`,{linear:[{to:[`t`,`tr`,`r`,`br`,`b`,`bl`,`l`,`tl`]},qu,Y,J],radial:[``,Y,J],conic:[qu,Y,J]},pd,sd]}],"bg-color":[{bg:N()}],"gradient-from-pos":[{from:ae()}],"gradient-via-pos":[{via:ae()}],"gradient-to-pos":[{to:ae()}],"gradient-from":[{from:N()}],"gradient-via":[{via:N()}],"gradient-to":[{to:N()}],rounded:[{rounded:oe()}],"rounded-s":[{"rounded-s":oe()}],"rounded-e":[{"rounded-e":oe()}],"rounded-t":[{"rounded-t":oe()}],"rounded-r":[{"rounded-r":oe()}],"rounded-b":[{"rounded-b":oe()}],"rounded-l":[{"rounded-l":oe()}],"rounded-ss":[{"rounded-ss":oe()}],"rounded-se":[{"rounded-se":oe()}],"rounded-ee":[{"rounded-ee":oe()}],"rounded-es":[{"rounded-es":oe()}],"rounded-tl":[{"rounded-tl":oe()}],"rounded-tr":[{"rounded-tr":oe()}],"rounded-br":[{"rounded-br":oe()}],"rounded-bl":[{"rounded-bl":oe()}],"border-w":[{border:F()}],"border-w-x":[{"border-x":F()}],"border-w-y":[{"border-y":F()}],"border-w-s":[{"border-s":F()}],"border-w-e":[{"border-e":F()}],"border-w-bs":[{"border-bs":F()}],"border-w-be":[{"border-be":F()}],"border-w-t":[{"border-t":F()}],"border-w-r":[{"border-r":F()}],"border-w-b":[{"border-b":F()}],"border-w-l":[{"border-l":F()}],"divide-x":[{"divide-x":F()}],"divide-x-reverse":[`divide-x-reverse`],"divide-y":[{"divide-y":F()}],"divide-y-reverse":[`divide-y-reverse`],"border-style":[{border:[...I(),`hidden`,`none`]}],"divide-style":[{divide:[...I(),`hidden`,`none`]}],"border-color":[{border:N()}],"border-color-x":[{"border-x":N()}],"border-color-y":[{"border-y":N()}],"border-color-s":[{"border-s":N()}],"border-color-e":[{"border-e":N()}],"border-color-bs":[{"border-bs":N()}],"border-color-be":[{"border-be":N()}],"border-color-t":[{"border-t":N()}],"border-color-r":[{"border-r":N()}],"border-color-b":[{"border-b":N()}],"border-color-l":[{"border-l":N()}],"divide-color":[{divide:N()}],"outline-style":[{outline:[...I(),`none`,`hidden`]}],"outline-offset":[{"outline-offset":[K,Y,J]}],"outline-w":[{outline:[``,K,ld,nd]}],"outline-color":[{outline:N()}],shadow:[{shadow:[``,`none`,u,md,cd]}],"shadow-color":[{shadow:N()}],"inset-shadow":[{"inset-shadow":[`none`,d,md,cd]}],"inset-shadow-color":[{"inset-shadow":N()}],"ring-w":[{ring:F()}],"ring-w-inset":[`ring-inset`],"ring-color":[{ring:N()}],"ring-offset-w":[{"ring-offset":[K,nd]}],"ring-offset-color":[{"ring-offset":N()}],"inset-ring-w":[{"inset-ring":F()}],"inset-ring-color":[{"inset-ring":N()}],"text-shadow":[{"text-shadow":[`none`,f,md,cd]}],"text-shadow-color":[{"text-shadow":N()}],opacity:[{opacity:[K,Y,J]}],"mix-blend":[{"mix-blend":[...se(),`plus-darker`,`plus-lighter`]}],"bg-blend":[{"bg-blend":se()}],"mask-clip":[{"mask-clip":[`border`,`padding`,`content`,`fill`,`stroke`,`view`]},`mask-no-clip`],"mask-composite":[{mask:[`add`,`subtract`,`intersect`,`exclude`]}],"mask-image-linear-pos":[{"mask-linear":[K]}],"mask-image-linear-from-pos":[{"mask-linear-from":ce()}],"mask-image-linear-to-pos":[{"mask-linear-to":ce()}],"mask-image-linear-from-color":[{"mask-linear-from":N()}],"mask-image-linear-to-color":[{"mask-linear-to":N()}],"mask-image-t-from-pos":[{"mask-t-from":ce()}],"mask-image-t-to-pos":[{"mask-t-to":ce()}],"mask-image-t-from-color":[{"mask-t-from":N()}],"mask-image-t-to-color":[{"mask-t-to":N()}],"mask-image-r-from-pos":[{"mask-r-from":ce()}],"mask-image-r-to-pos":[{"mask-r-to":ce()}],"mask-image-r-from-color":[{"mask-r-from":N()}],"mask-image-r-to-color":[{"mask-r-to":N()}],"mask-image-b-from-pos":[{"mask-b-from":ce()}],"mask-image-b-to-pos":[{"mask-b-to":ce()}],"mask-image-b-from-color":[{"mask-b-from":N()}],"mask-image-b-to-color":[{"mask-b-to":N()}],"mask-image-l-from-pos":[{"mask-l-from":ce()}],"mask-image-l-to-pos":[{"mask-l-to":ce()}],"mask-image-l-from-color":[{"mask-l-from":N()}],"mask-image-l-to-color":[{"mask-l-to":N()}],"mask-image-x-from-pos":[{"mask-x-from":ce()}],"mask-image-x-to-pos":[{"mask-x-to":ce()}],"mask-image-x-from-color":[{"mask-x-from":N()}],"mask-image-x-to-color":[{"mask-x-to":N()}],"mask-image-y-from-pos":[{"mask-y-from":ce()}],"mask-image-y-to-pos":[{"mask-y-to":ce()}],"mask-image-y-from-color":[{"mask-y-from":N()}],"mask-image-y-to-color":[{"mask-y-to":N()}],"mask-image-radial":[{"mask-radial":[Y,J]}],"mask-image-radial-from-pos":[{"mask-radial-from":ce()}],"mask-image-radial-to-pos":[{"mask-radial-to":ce()}],"mask-image-radial-from-color":[{"mask-radial-from":N()}],"mask-image-radial-to-color":[{"mask-radial-to":N()}],"mask-image-radial-shape":[{"mask-radial":[`circle`,`ellipse`]}],"mask-image-radial-size":[{"mask-radial":[{closest:[`side`,`corner`],farthest:[`side`,`corner`]}]}],"mask-image-radial-pos":[{"mask-radial-at":b()}],"mask-image-conic-pos":[{"mask-conic":[K]}],"mask-image-conic-from-pos":[{"mask-conic-from":ce()}],"mask-image-conic-to-pos":[{"mask-conic-to":ce()}],"mask-image-conic-from-color":[{"mask-conic-from":N()}],"mask-image-conic-to-color":[{"mask-conic-to":N()}],"mask-mode":[{mask:[`alpha`,`luminance`,`match`]}],"mask-origin":[{"mask-origin":[`border`,`padding`,`content`,`fill`,`stroke`,`view`]}],"mask-position":[{mask:P()}],"mask-repeat":[{mask:re()}],"mask-size":[{mask:ie()}],"mask-type":[{"mask-type":[`alpha`,`luminance`]}],"mask-image":[{mask:[`none`,Y,J]}],filter:[{filter:[``,`none`,Y,J]}],blur:[{blur:le()}],brightness:[{brightness:[K,Y,J]}],contrast:[{contrast:[K,Y,J]}],"drop-shadow":[{"drop-shadow":[``,`none`,p,md,cd]}],"drop-shadow-color":[{"drop-shadow":N()}],grayscale:[{grayscale:[``,K,Y,J]}],"hue-rotate":[{"hue-rotate":[K,Y,J]}],invert:[{invert:[``,K,Y,J]}],saturate:[{saturate:[K,Y,J]}],sepia:[{sepia:[``,K,Y,J]}],"backdrop-filter":[{"backdrop-filter":[``,`none`,Y,J]}],"backdrop-blur":[{"backdrop-blur":le()}],"backdrop-brightness":[{"backdrop-brightness":[K,Y,J]}],"backdrop-contrast":[{"backdrop-contrast":[K,Y,J]}],"backdrop-grayscale":[{"backdrop-grayscale":[``,K,Y,J]}],"backdrop-hue-rotate":[{"backdrop-hue-rotate":[K,Y,J]}],"backdrop-invert":[{"backdrop-invert":[``,K,Y,J]}],"backdrop-opacity":[{"backdrop-opacity":[K,Y,J]}],"backdrop-saturate":[{"backdrop-saturate":[K,Y,J]}],"backdrop-sepia":[{"backdrop-sepia":[``,K,Y,J]}],"border-collapse":[{border:[`collapse`,`separate`]}],"border-spacing":[{"border-spacing":w()}],"border-spacing-x":[{"border-spacing-x":w()}],"border-spacing-y":[{"border-spacing-y":w()}],"table-layout":[{table:[`auto`,`fixed`]}],caption:[{caption:[`top`,`bottom`]}],transition:[{transition:[``,`all`,`colors`,`opacity`,`shadow`,`transform`,`none`,Y,J]}],"transition-behavior":[{transition:[`normal`,`discrete`]}],duration:[{duration:[K,`initial`,Y,J]}],ease:[{ease:[`linear`,`initial`,_,Y,J]}],delay:[{delay:[K,Y,J]}],animate:[{animate:[`none`,v,Y,J]}],backface:[{backface:[`hidden`,`visible`]}],perspective:[{perspective:[h,Y,J]}],"perspective-origin":[{"perspective-origin":x()}],rotate:[{rotate:ue()}],"rotate-x":[{"rotate-x":ue()}],"rotate-y":[{"rotate-y":ue()}],"rotate-z":[{"rotate-z":ue()}],scale:[{scale:de()}],"scale-x":[{"scale-x":de()}],"scale-y":[{"scale-y":de()}],"scale-z":[{"scale-z":de()}],"scale-3d":[`scale-3d`],skew:[{skew:fe()}],"skew-x":[{"skew-x":fe()}],"skew-y":[{"skew-y":fe()}],transform:[{transform:[Y,J,``,`none`,`gpu`,`cpu`]}],"transform-origin":[{origin:x()}],"transform-style":[{transform:[`3d`,`flat`]}],translate:[{translate:pe()}],"translate-x":[{"translate-x":pe()}],"translate-y":[{"translate-y":pe()}],"translate-z":[{"translate-z":pe()}],"translate-none":[`translate-none`],accent:[{accent:N()}],appearance:[{appearance:[`none`,`auto`]}],"caret-color":[{caret:N()}],"color-scheme":[{scheme:[`normal`,`dark`,`light`,`light-dark`,`only-dark`,`only-light`]}],cursor:[{cursor:[`auto`,`default`,`pointer`,`wait`,`text`,`move`,`help`,`not-allowed`,`none`,`context-menu`,`progress`,`cell`,`crosshair`,`vertical-text`,`alias`,`copy`,`no-drop`,`grab`,`grabbing`,`all-scroll`,`col-resize`,`row-resize`,`n-resize`,`e-resize`,`s-resize`,`w-resize`,`ne-resize`,`nw-resize`,`se-resize`,`sw-resize`,`ew-resize`,`ns-resize`,`nesw-resize`,`nwse-resize`,`zoom-in`,`zoom-out`,Y,J]}],"field-sizing":[{"field-sizing":[`fixed`,`content`]}],"pointer-events":[{"pointer-events":[`auto`,`none`]}],resize:[{resize:[`none`,``,`y`,`x`]}],"scroll-behavior":[{scroll:[`auto`,`smooth`]}],"scroll-m":[{"scroll-m":w()}],"scroll-mx":[{"scroll-mx":w()}],"scroll-my":[{"scroll-my":w()}],"scroll-ms":[{"scroll-ms":w()}],"scroll-me":[{"scroll-me":w()}],"scroll-mbs":[{"scroll-mbs":w()}],"scroll-mbe":[{"scroll-mbe":w()}],"scroll-mt":[{"scroll-mt":w()}],"scroll-mr":[{"scroll-mr":w()}],"scroll-mb":[{"scroll-mb":w()}],"scroll-ml":[{"scroll-ml":w()}],"scroll-p":[{"scroll-p":w()}],"scroll-px":[{"scroll-px":w()}],"scroll-py":[{"scroll-py":w()}],"scroll-ps":[{"scroll-ps":w()}],"scroll-pe":[{"scroll-pe":w()}],"scroll-pbs":[{"scroll-pbs":w()}],"scroll-pbe":[{"scroll-pbe":w()}],"scroll-pt":[{"scroll-pt":w()}],"scroll-pr":[{"scroll-pr":w()}],"scroll-pb":[{"scroll-pb":w()}],"scroll-pl":[{"scroll-pl":w()}],"snap-align":[{snap:[`start`,`end`,`center`,`align-none`]}],"snap-stop":[{snap:[`normal`,`always`]}],"snap-type":[{snap:[`none`,`x`,`y`,`both`]}],"snap-strictness":[{snap:[`mandatory`,`proximity`]}],touch:[{touch:[`auto`,`none`,`manipulation`]}],"touch-x":[{"touch-pan":[`x`,`left`,`right`]}],"touch-y":[{"touch-pan":[`y`,`up`,`down`]}],"touch-pz":[`touch-pinch-zoom`],select:[{select:[`none`,`text`,`all`,`auto`]}],"will-change":[{"will-change":[`auto`,`scroll`,`contents`,`transform`,Y,J]}],fill:[{fill:[`none`,...N()]}],"stroke-w":[{stroke:[K,ld,nd,rd]}],stroke:[{stroke:[`none`,...N()]}],"forced-color-adjust":[{"forced-color-adjust":[`auto`,`none`]}]},conflictingClassGroups:{overflow:[`overflow-x`,`overflow-y`],overscroll:[`overscroll-x`,`overscroll-y`],inset:[`inset-x`,`inset-y`,`inset-bs`,`inset-be`,`start`,`end`,`top`,`right`,`bottom`,`left`],"inset-x":[`right`,`left`],"inset-y":[`top`,`bottom`],flex:[`basis`,`grow`,`shrink`],gap:[`gap-x`,`gap-y`],p:[`px`,`py`,`ps`,`pe`,`pbs`,`pbe`,`pt`,`pr`,`pb`,`pl`],px:[`pr`,`pl`],py:[`pt`,`pb`],m:[`mx`,`my`,`ms`,`me`,`mbs`,`mbe`,`mt`,`mr`,`mb`,`ml`],mx:[`mr`,`ml`],my:[`mt`,`mb`],size:[`w`,`h`],"font-size":[`leading`],"fvn-normal":[`fvn-ordinal`,`fvn-slashed-zero`,`fvn-figure`,`fvn-spacing`,`fvn-fraction`],"fvn-ordinal":[`fvn-normal`],"fvn-slashed-zero":[`fvn-normal`],"fvn-figure":[`fvn-normal`],"fvn-spacing":[`fvn-normal`],"fvn-fraction":[`fvn-normal`],"line-clamp":[`display`,`overflow`],rounded:[`rounded-s`,`rounded-e`,`rounded-t`,`rounded-r`,`rounded-b`,`rounded-l`,`rounded-ss`,`rounded-se`,`rounded-ee`,`rounded-es`,`rounded-tl`,`rounded-tr`,`rounded-br`,`rounded-bl`],"rounded-s":[`rounded-ss`,`rounded-es`],"rounded-e":[`rounded-se`,`rounded-ee`],"rounded-t":[`rounded-tl`,`rounded-tr`],"rounded-r":[`rounded-tr`,`rounded-br`],"rounded-b":[`rounded-br`,`rounded-bl`],"rounded-l":[`rounded-tl`,`rounded-bl`],"border-spacing":[`border-spacing-x`,`border-spacing-y`],"border-w":[`border-w-x`,`border-w-y`,`border-w-s`,`border-w-e`,`border-w-bs`,`border-w-be`,`border-w-t`,`border-w-r`,`border-w-b`,`border-w-l`],"border-w-x":[`border-w-r`,`border-w-l`],"border-w-y":[`border-w-t`,`border-w-b`],"border-color":[`border-color-x`,`border-color-y`,`border-color-s`,`border-color-e`,`border-color-bs`,`border-color-be`,`border-color-t`,`border-color-r`,`border-color-b`,`border-color-l`],"border-color-x":[`border-color-r`,`border-color-l`],"border-color-y":[`border-color-t`,`border-color-b`],translate:[`translate-x`,`translate-y`,`translate-none`],"translate-none":[`translate`,`translate-x`,`translate-y`,`translate-z`],"scroll-m":[`scroll-mx`,`scroll-my`,`scroll-ms`,`scroll-me`,`scroll-mbs`,`scroll-mbe`,`scroll-mt`,`scroll-mr`,`scroll-mb`,`scroll-ml`],"scroll-mx":[`scroll-mr`,`scroll-ml`],"scroll-my":[`scroll-mt`,`scroll-mb`],"scroll-p":[`scroll-px`,`scroll-py`,`scroll-ps`,`scroll-pe`,`scroll-pbs`,`scroll-pbe`,`scroll-pt`,`scroll-pr`,`scroll-pb`,`scroll-pl`],"scroll-px":[`scroll-pr`,`scroll-pl`],"scroll-py":[`scroll-pt`,`scroll-pb`],touch:[`touch-x`,`touch-y`,`touch-pz`],"touch-x":[`touch`],"touch-y":[`touch`],"touch-pz":[`touch`]},conflictingClassGroupModifiers:{"font-size":[`leading`]},orderSensitiveModifiers:[`*`,`**`,`after`,`backdrop`,`before`,`details-content`,`file`,`first-letter`,`first-line`,`marker`,`placeholder`,`selection`]}});function Ed(...e){return Td(tu(e))}var Dd=iu(`ui-button`,{variants:{variant:{default:`ui-button--default`,outline:`ui-button--outline`,ghost:`ui-button--ghost`,destructive:`ui-button--destructive`},size:{default:`ui-button--default-size`,sm:`ui-button--sm`,icon:`ui-button--icon`}},defaultVariants:{variant:`default`,size:`default`}}),Z=C.forwardRef(({className:e,variant:t,size:n,asChild:r=!1,...i},a)=>(0,L.jsx)(r?Oe:`button`,{className:Ed(Dd({variant:t,size:n}),e),ref:a,...i}));Z.displayName=`Button`;var Od=C.forwardRef(({className:e,...t},n)=>(0,L.jsx)(`input`,{ref:n,className:Ed(`ui-input`,e),...t}));Od.displayName=`Input`;function Q({className:e,...t}){return(0,L.jsx)(`div`,{className:Ed(`ui-card`,e),...t})}function kd({className:e,tone:t=`default`,...n}){return(0,L.jsx)(`span`,{className:Ed(`ui-badge`,`ui-badge--${t}`,e),...n})}var Ad=Ur,jd=qr,Md=Jr,Nd=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsxs)(Wr,{children:[(0,L.jsx)(Gr,{className:`ui-dialog-overlay`}),(0,L.jsxs)(Kr,{ref:r,className:Ed(`ui-dialog-content`,e),...n,children:[t,(0,L.jsx)(Yr,{className:`ui-dialog-close`,"aria-label":`Закрыть`,children:(0,L.jsx)(_e,{size:16})})]})]}));Nd.displayName=`DialogContent`;var Pd=fc,Fd=mc,Id=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsxs)(pc,{ref:r,className:Ed(`ui-select-trigger`,e),...n,children:[t,(0,L.jsx)(hc,{asChild:!0,children:(0,L.jsx)(te,{size:16})})]}));Id.displayName=`SelectTrigger`;var Ld=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsx)(gc,{children:(0,L.jsx)(_c,{ref:r,className:Ed(`ui-select-content`,e),position:`popper`,...n,children:(0,L.jsx)(vc,{className:`ui-select-viewport`,children:t})})}));Ld.displayName=`SelectContent`;var Rd=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsxs)(yc,{ref:r,className:Ed(`ui-select-item`,e),...n,children:[(0,L.jsx)(bc,{children:t}),(0,L.jsx)(xc,{className:`ui-select-check`,children:(0,L.jsx)(M,{size:14})})]}));Rd.displayName=`SelectItem`;var zd=il,Bd=C.forwardRef(({className:e,...t},n)=>(0,L.jsx)(al,{ref:n,className:Ed(`ui-tabs-list`,e),...t}));Bd.displayName=`TabsList`;var Vd=C.forwardRef(({className:e,...t},n)=>(0,L.jsx)(ol,{ref:n,className:Ed(`ui-tabs-trigger`,e),...t}));Vd.displayName=`TabsTrigger`;var Hd=Yl,Ud=C.forwardRef(({className:e,...t},n)=>(0,L.jsx)(Xl,{ref:n,className:Ed(`ui-accordion-item`,e),...t}));Ud.displayName=`AccordionItem`;var Wd=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsx)(Zl,{className:`ui-accordion-header`,children:(0,L.jsxs)(Ql,{ref:r,className:Ed(`ui-accordion-trigger`,e),...n,children:[t,(0,L.jsx)(te,{size:16})]})}));Wd.displayName=`AccordionTrigger`;var Gd=C.forwardRef(({className:e,children:t,...n},r)=>(0,L.jsx)($l,{ref:r,className:Ed(`ui-accordion-content`,e),...n,children:(0,L.jsx)(`div`,{className:`ui-accordion-content-inner`,children:t})}));Gd.displayName=`AccordionContent`;function Kd(e,t){if(e==null||t==null)return null;let n=String(e).trim(),r=Number(t);return!Number.isInteger(r)||r<=0?null:/^-100\d+$/.test(n)?`https://t.me/c/${n.slice(4)}/${r}`:/^\d+$/.test(n)?`tg://openmessage?user_id=${n}&message_id=${r}`:null}function qd(e){if(!e)return null;if(e.status===`awaiting_grade`){let t=Kd(e.pendingChannelId,e.pendingChannelMessageId);if(t)return t}return Kd(e.sourceChatId,e.sourceMessageId)}var Jd=/^(https?:|tg:|mailto:|tel:)/i;function Yd(e){if(!e)return null;try{let t=JSON.parse(e);return t&&typeof t==`object`&&!Array.isArray(t)?t:null}catch{return null}}function Xd(e,t,n){return(e??[]).flatMap(e=>{let r=Math.max(e.offset,t),i=Math.min(e.offset+e.length,t+n);return i>r?[{...e,offset:r-t,length:i-r}]:[]})}var Zd=(e,t)=>e.offset-t.offset||t.length-e.length;function Qd(e,t,n){let r=Math.max(e.offset,t),i=Math.min(e.offset+e.length,n);return i>r?{...e,offset:r,length:i-r}:null}function $d(e,t,n,r){let i=[],a=n,o=[...t].sort(Zd);for(;o.length;){let[t,...n]=o,s=Qd(t,a,r);if(!s){o=n;continue}let c=s.offset+s.length;s.offset>a&&i.push(e.slice(a,s.offset));let l=[],u=[];for(let e of n){let t=Qd(e,s.offset,c);t&&l.push(t);let n=Qd(e,c,r);n&&u.push(n)}i.push({entity:s,children:$d(e,l,s.offset,c)}),a=c,o=u.sort(Zd)}return a<r&&i.push(e.slice(a,r)),i}function ef(e,t){let n=Xd(t??[],0,e.length);return n.length?$d(e,n,0,e.length):e?[e]:[]}function tf(e,t){switch(e.type){case`text_link`:return e.url&&Jd.test(e.url)?e.url:null;case`url`:return/^https?:\/\//i.test(t)?t:`https://${t}`;case`email`:return`mailto:${t}`;case`phone_number`:return`tel:${t.replace(/[^\d+]/g,``)}`;case`mention`:return`https://t.me/${t.replace(/^@/,``)}`;case`text_mention`:return e.user?.username?`https://t.me/${e.user.username}`:null;default:return null}}function nf(e){let t=Yd(e.contentPayload),n=e.contentPreview??``;if(e.contentType===`text`)return{text:n,entities:t?.entities??[]};let r=t?.caption;return r&&r.trim()===n.trim()?{text:r,entities:t?.entities??[]}:{text:n,entities:[]}}function rf(e,t){let{text:n,entities:r}=nf(e),i=n.indexOf(t.front),a=i<0?-1:n.indexOf(t.back,i+t.front.length);return t.kind!==`front_back`||a<0?{front:[],back:[]}:{front:Xd(r,i,t.front.length),back:Xd(r,a,t.back.length)}}var af=window.Telegram?.WebApp||{initData:``,initDataUnsafe:{},themeParams:{},ready(){},expand(){},showAlert(e){window.alert(e)}},of={pending:`Ожидает`,learning:`Изучается`,awaiting_grade:`Ждёт оценки`,archived:`Архив`},sf={pending:`muted`,learning:`default`,awaiting_grade:`inverse`,archived:`muted`},cf={scheduled:`по расписанию`,manual_now:`вручную`,manual_override:`дата вручную`,one_time:`одноразовое`},lf=[`again`,`hard`,`good`,`easy`],uf=`*`,df=2,ff={reply:`ответ на напоминание`,source_edit:`правка сообщения`,miniapp:`Mini App`},pf={again:`Снова`,hard:`Сложно`,good:`Хорошо`,easy:`Легко`,preset:`Интервал вручную`,schedule_change:`Смена расписания`},mf=[{id:`bd2a193e-ee12-49b0-8845-3d4aa27dfab9`,sourceChatId:`359367655`,sourceMessageId:1603,contentType:`text`,contentPreview:`https://www.instagram.com/p/DXcxc8EDLU2/?igsh=MXR5c3RjY2J5aHI5bA==`,status:`awaiting_grade`,repetition:4,nextReviewAt:`2026-04-25T23:19:00.000Z`,lastReviewedAt:`2026-04-24T13:04:00.000Z`,pendingChannelId:`359367655`,pendingChannelMessageId:1763,baseChannelMessageId:1764,awaitingGradeSince:`2026-04-28T20:21:53.000Z`,lastNotificationAt:`2026-04-28T20:21:53.000Z`,lastNotificationReason:`manual_now`,lastNotificationMessageId:1763,createdAt:`2026-04-24T10:04:00.000Z`,updatedAt:`2026-04-28T20:21:53.000Z`},{id:`8f54d9c4-4ad6-4bd5-9461-4b5807a7bb19`,sourceChatId:`359367655`,sourceMessageId:1710,contentType:`text`,contentPreview:`Короткая текстовая заметка без ссылки, чтобы проверить вертикальные интервалы и плотность карточек.`,tags:[`заметки`],status:`learning`,repetition:1,nextReviewAt:`2026-04-30T09:10:00.000Z`,lastReviewedAt:null,lapses:9,leechAt:`2026-04-29T08:40:00.000Z`,pendingChannelId:null,pendingChannelMessageId:null,baseChannelMessageId:null,awaitingGradeSince:null,lastNotificationAt:null,lastNotificationReason:null,lastNotificationMessageId:null,createdAt:`2026-04-26T09:00:00.000Z`,updatedAt:`2026-04-26T09:00:00.000Z`},{id:`14f9fb42-720e-4dbd-b3d7-c22de2830f1d`,sourceChatId:`359367655`,sourceMessageId:1731,contentType:`text`,contentPreview:`Разобрать заметки по проекту и вынести повторяемые правила в короткий список.`,contentPayload:JSON.stringify({entities:[{type:`bold`,offset:0,length:17},{type:`italic`,offset:61,length:15}]}),tags:[`работа`,`заметки`],status:`pending`,repetition:0,nextReviewAt:null,lastReviewedAt:null,pendingChannelId:null,pendingChannelMessageId:null,baseChannelMessageId:null,awaitingGradeSince:null,lastNotificationAt:null,lastNotificationReason:null,lastNotificationMessageId:null,createdAt:`2026-04-28T11:00:00.000Z`,updatedAt:`2026-04-28T11:00:00.000Z`},{id:`5b7c1e0a-3f2d-4c8e-9a41-6d0f2b8e7c55`,sourceChatId:`359367655`,sourceMessageId:1742,contentType:`text`,contentPreview:`Столица Грузии — {{c1::Тбилиси}}, крупнейший порт — {{c2::Батуми::город на море}}.`,contentPayload:JSON.stringify({faces:{kind:`cloze`,front:`Столица Грузии — […], крупнейший порт — [город на море].`,back:`Столица Грузии — [Тбилиси], крупнейший порт — [Батуми].`}}),tags:[`география`],status:`learning`,repetition:2,nextReviewAt:`2026-04-29T18:00:00.000Z`,lastReviewedAt:`2026-04-27T18:00:00.000Z`,pendingChannelId:null,pendingChannelMessageId:null,baseChannelMessageId:null,awaitingGradeSince:null,lastNotificationAt:null,lastNotificationReason:null,lastNotificationMessageId:null,createdAt:`2026-04-27T08:00:00.000Z`,updatedAt:`2026-04-27T18:00:00.000Z`}],hf={география:5},gf={},_f={timezone:`Asia/Tbilisi`,activeHoursStart:600,activeHoursEnd:1320,minGapMinutes:30,defaultReminderMode:`sm2`,weekdayHours:null,dailyReviewLimit:null,dailyNewCardLimit:10,weeklyReportWeekday:0,leechThreshold:8},vf={doNotDisturbUntil:null,vacationSince:null,vacationUntil:null,vacationSpreadDays:3},yf=[{index:1,label:`Пн`},{index:2,label:`Вт`},{index:3,label:`Ср`},{index:4,label:`Чт`},{index:5,label:`Пт`},{index:6,label:`Сб`},{index:0,label:`Вс`}],bf=[{id:`demo-course-sql`,ownerUserId:`demo`,title:`Основы SQL`,description:`Короткий курс из практических шагов.`,status:`active`,stepCount:4,activeEnrollmentCount:0,completedEnrollmentCount:0,createdAt:new Date().toISOString(),updatedAt:new Date().toISOString()}],xf=()=>new URLSearchParams(window.location.search).has(`demo`),$=e=>af.showAlert?.(e)||window.alert(e),Sf=()=>{let e=new URLSearchParams(window.location.search),t=af.initDataUnsafe?.start_param||e.get(`tgWebAppStartParam`)||e.get(`startapp`)||e.get(`start_param`);if(!t)return null;let n;try{n=decodeURIComponent(t)}catch{return null}return n.startsWith(`card_`)?{type:`card`,cardId:n.slice(5)}:n.startsWith(`notification_`)?{type:`notification`,cardId:n.slice(13)}:n.startsWith(`view_`)?{type:`view`,view:n.slice(5)}:null},Cf=e=>{if(!e)return`—`;let t=new Date(e);return Number.isNaN(t.getTime())?`—`:t.toLocaleString(`ru`,{day:`numeric`,month:`short`,year:`numeric`,hour:`2-digit`,minute:`2-digit`})},wf=e=>{if(!e)return`Без даты`;let t=new Date(e);return Number.isNaN(t.getTime())?`Без даты`:t.toLocaleString(`ru`,{day:`numeric`,month:`short`,hour:`2-digit`,minute:`2-digit`})},Tf=e=>e===null?`—`:e<1?`${Math.max(1,Math.round(e*24))} ч`:`${Math.round(e)} д`,Ef=e=>e===null?null:e<6e4?`${Math.max(1,Math.round(e/1e3))} с`:e<60*6e4?`${Math.round(e/6e4)} мин`:`${Math.round(e/(60*6e4))} ч`,Df=e=>e===null?`—`:`${Math.round(e*100)}%`,Of=e=>{if(!e)return`—`;let t=new Date(e);return Number.isNaN(t.getTime())?`—`:t.toLocaleTimeString(`ru`,{hour:`2-digit`,minute:`2-digit`})},kf=e=>{let t=e=>String(e).padStart(2,`0`);return`${e.getFullYear()}-${t(e.getMonth()+1)}-${t(e.getDate())}T${t(e.getHours())}:${t(e.getMinutes())}`},Af=e=>{if(!e)return null;let t=new Date(e);return Number.isNaN(t.getTime())||t.getTime()<=Date.now()?null:t.toISOString()},jf=e=>{let t=Math.max(0,Math.min(1440,Math.round(e))),n=Math.floor(t/60),r=t%60;return`${String(n).padStart(2,`0`)}:${String(r).padStart(2,`0`)}`},Mf=e=>{let t=e.match(/^(\d{2}):(\d{2})$/);if(!t)return null;let n=Number(t[1]),r=Number(t[2]);return!Number.isInteger(n)||!Number.isInteger(r)||n<0||n>24||r<0||r>59||n===24&&r!==0?null:n*60+r},Nf=e=>{let t=new Date(e);return`${t.getFullYear()}-${String(t.getMonth()+1).padStart(2,`0`)}-${String(t.getDate()).padStart(2,`0`)}`},Pf=e=>{if(e.contentType!==`text`||!e.contentPayload)return null;try{let t=JSON.parse(e.contentPayload)?.faces;return t?.front&&t.back?t:null}catch{return null}},Ff=e=>Array.from(new Set(e.flatMap(e=>e.tags??[]))).sort((e,t)=>e.localeCompare(t,`ru`)),If=e=>e.split(/[\s,]+/).map(e=>e.replace(/^#+/,``).trim()).filter(Boolean),Lf=(e,t=1/0)=>{let n=e?new Date(e).getTime():NaN;return Number.isFinite(n)?n:t};async function Rf(e){if(!e.trim())return!1;try{return await navigator.clipboard.writeText(e),!0}catch{let t=document.createElement(`textarea`);t.value=e,t.style.position=`fixed`,t.style.opacity=`0`,document.body.appendChild(t),t.select();let n=document.execCommand(`copy`);return t.remove(),n}}function zf(){let[e,t]=(0,C.useState)(`create`),[n,r]=(0,C.useState)([]),[i,a]=(0,C.useState)([]),[o,s]=(0,C.useState)(!1),[c,l]=(0,C.useState)(null),[u,d]=(0,C.useState)([]),[f,p]=(0,C.useState)(!1),[m,h]=(0,C.useState)(null),[g,_]=(0,C.useState)(null),[v,y]=(0,C.useState)(null),[b,x]=(0,C.useState)(null),[S,w]=(0,C.useState)(null),[T,E]=(0,C.useState)(null),[D,O]=(0,C.useState)(null),[ee,k]=(0,C.useState)(null),[A,j]=(0,C.useState)(null),[M,te]=(0,C.useState)(null),[ne,N]=(0,C.useState)(null),[P,re]=(0,C.useState)(null),[ie,ae]=(0,C.useState)(null),[oe,F]=(0,C.useState)(null),[I,se]=(0,C.useState)(`all`),[ce,le]=(0,C.useState)(uf),[ue,de]=(0,C.useState)(null),[fe,pe]=(0,C.useState)(null),[me,he]=(0,C.useState)(null),[ge,_e]=(0,C.useState)(`nextReviewAsc`),[ve,ye]=(0,C.useState)(``),[be,xe]=(0,C.useState)(null),[Se,Ce]=(0,C.useState)(!1),[we,Te]=(0,C.useState)(null),[Ee,De]=(0,C.useState)(null),[Oe,ke]=(0,C.useState)(null),[Ae,je]=(0,C.useState)(null),[Me,Ne]=(0,C.useState)(null),[R,Pe]=(0,C.useState)(()=>new Date),[Fe,Ie]=(0,C.useState)(null),[Le,Re]=(0,C.useState)(!0),[ze,Be]=(0,C.useState)(null),[Ve,He]=(0,C.useState)(null),[Ue,z]=(0,C.useState)(null),We=xf(),Ge=We||g?.ownerTools===!0||g===null,Ke=e===`card-detail`?`Карточка`:e===`notification-detail`?`Уведомление`:e===`balance`?`Распределение`:e===`leeches`?`Трудные карточки`:e===`courses`?`Курсы`:e===`calendar`?`Календарь`:e===`stats`?`Статистика`:e===`queue`?`Очередь`:e===`create`?`Создать`:`Мои карточки`,qe=e===`create`?`Быстрое бытовое напоминание: покупки, лекарства, дни рождения.`:e===`queue`?`Потяните следующую карточку, когда готовы посмотреть.`:e===`courses`?`Создайте простой курс и запустите шаги в очередь.`:e===`calendar`?`Ближайшие повторения по дням.`:e===`stats`?`Короткая сводка по прогрессу.`:e===`balance`?`Визуальная проверка расписания до применения.`:e===`leeches`?`Карточки, на которые слишком часто отвечали «Снова».`:e===`card-detail`?`Содержимое, расписание и действия.`:e===`notification-detail`?`Что отправлено и к какой карточке относится.`:`Повторения, календарь и прогресс.`;(0,C.useEffect)(()=>{af.ready?.(),af.expand?.(),document.documentElement.dataset.theme=`dark`;let e=new URLSearchParams(window.location.search).get(`font`)||`a`;document.documentElement.dataset.font=[`a`,`b`,`c`,`tt`,`wix`].includes(e)?e:`wix`},[]);let B=async(e,t={})=>{if(We)return Op(e,t,n,r,u,d);if(!af.initData)throw Error(`Telegram initData не доступен. Откройте приложение через бота.`);let i=await fetch(`${window.location.origin}${e}`,{...t,headers:{"Content-Type":`application/json`,"X-Telegram-Init-Data":af.initData,...t.headers||{}}});if(!i.ok)throw Error(await i.text());return i.json()},Je=async(e=I)=>{Re(!0),Be(null);try{r((await B(`/api/miniapp/cards${e===`all`?``:`?status=${e}`}`)).data||[])}catch(e){Be(e instanceof Error?e.message:String(e))}finally{Re(!1)}},Ye=async(e=ue)=>{if(Ge){s(!0),l(null);try{a((await B(`/api/miniapp/queue?limit=20${e?`&tag=${encodeURIComponent(e)}`:``}`)).data.items||[])}catch(e){l(e instanceof Error?e.message:String(e))}finally{s(!1)}}},V=async()=>{if(Ge){p(!0),h(null);try{d((await B(`/api/miniapp/courses`)).data||[])}catch(e){h(e instanceof Error?e.message:String(e))}finally{p(!1)}}},Xe=async()=>{if(We){_({userId:String(af.initDataUnsafe?.user?.id??`demo`),ownerTools:!0});return}try{_((await B(`/api/miniapp/me`)).data)}catch{_({userId:``,ownerTools:!1})}},Ze=async()=>{if(x(null),We){y(Tp(n.length?n:mf));return}try{y((await B(`/api/miniapp/stats`)).data)}catch(e){x(e instanceof Error?e.message:String(e))}},Qe=async()=>{if(E(null),We){w(Ap());return}try{w((await B(`/api/miniapp/stats/analytics`)).data)}catch(e){E(e instanceof Error?e.message:String(e))}},$e=async()=>{k(null);try{O((await B(`/api/miniapp/cards?leech=1`)).data||[])}catch(e){k(e instanceof Error?e.message:String(e))}},et=async()=>{if(te(null),We){j(_f);return}try{j((await B(`/api/miniapp/settings/reminders`)).data)}catch(e){te(e instanceof Error?e.message:String(e))}},tt=async()=>{if(We){N(e=>e??vf);return}try{N((await B(`/api/miniapp/settings/pause`)).data)}catch(e){te(e instanceof Error?e.message:String(e))}},nt=async()=>{if(!We)try{re((await B(`/api/miniapp/settings/digest`)).data)}catch(e){te(e instanceof Error?e.message:String(e))}},rt=async()=>{he(null);try{pe((await B(`/api/miniapp/decks`)).data||[])}catch(e){he(e instanceof Error?e.message:String(e))}},it=async e=>{De(null),ke(null);try{De((await B(`/api/miniapp/cards/${e}/history`)).data||[])}catch(e){ke(e instanceof Error?e.message:String(e))}},at=async e=>{je(null),Ne(null);try{je((await B(`/api/miniapp/cards/${e}/revisions`)).data||[])}catch(e){Ne(e instanceof Error?e.message:String(e))}};(0,C.useEffect)(()=>{Xe(),Je(`all`)},[]),(0,C.useEffect)(()=>{e===`card-detail`&&we&&(it(we),at(we))},[e,we]),(0,C.useEffect)(()=>{let e=Sf();!e||Le||!n.length||(e.type===`card`&&(Te(e.cardId),t(`card-detail`)),e.type===`notification`&&(Te(e.cardId),t(`notification-detail`)),e.type===`view`&&[`create`,`queue`,`courses`,`cards`,`calendar`,`stats`,`balance`,`leeches`].includes(e.view)&&t(e.view))},[Le,n.length]),(0,C.useEffect)(()=>{e===`stats`&&(Ze(),Qe(),et(),tt(),nt(),rt())},[e]),(0,C.useEffect)(()=>{e===`leeches`&&$e()},[e]),(0,C.useEffect)(()=>{(e===`balance`||e===`queue`||e===`courses`)&&g&&!g.ownerTools&&t(`cards`)},[g,e]),(0,C.useEffect)(()=>{e===`queue`&&Ge&&Ye()},[e,g?.ownerTools]),(0,C.useEffect)(()=>{e===`courses`&&Ge&&V()},[e,g?.ownerTools]),(0,C.useEffect)(()=>{let e=ve.trim();if(e.length<df){xe(null),Ce(!1);return}Ce(!0);let t=!1,n=window.setTimeout(()=>{B(`/api/miniapp/cards/search?q=${encodeURIComponent(e)}`).then(e=>{t||xe(e.data||[])}).catch(()=>{t||xe(null)}).finally(()=>{t||Ce(!1)})},300);return()=>{t=!0,window.clearTimeout(n)}},[ve]);let ot=(0,C.useMemo)(()=>{let e=ve.trim().toLowerCase(),t=(be?be.map(e=>n.find(t=>t.id===e.id)??e):n).filter(t=>I!==`all`&&t.status!==I||ce!==uf&&!t.tags?.includes(ce)?!1:be||!e?!0:(t.contentPreview||``).toLowerCase().includes(e)||t.id.toLowerCase().includes(e));return be?t:[...t].sort((e,t)=>ge===`nextReviewDesc`?Lf(t.nextReviewAt,-1)-Lf(e.nextReviewAt,-1):ge===`updatedDesc`?Lf(t.updatedAt,-1)-Lf(e.updatedAt,-1):ge===`repetitionDesc`?Number(t.repetition||0)-Number(e.repetition||0):Lf(e.nextReviewAt)-Lf(t.nextReviewAt))},[n,ve,be,ge,I,ce]),st=(0,C.useMemo)(()=>Ff(n),[n]),ct=(0,C.useMemo)(()=>n.find(e=>e.id===we)||null,[n,we]),lt=(0,C.useMemo)(()=>n.filter(e=>e.status===`learning`&&e.nextReviewAt),[n]),ut=e=>{Te(e.id),t(`card-detail`)},dt=async(e,t)=>{z(`status:${e.id}`);try{We||await B(`/api/miniapp/cards/${e.id}/status`,{method:`POST`,body:JSON.stringify({status:t})});let n=new Date().toISOString();r(r=>r.map(r=>r.id===e.id?{...r,status:t,updatedAt:n}:r))}finally{z(null)}},ft=async(e,t)=>{z(`tags:${e.id}`);try{let n=await B(`/api/miniapp/cards/${e.id}/tags`,{method:`PUT`,body:JSON.stringify({tags:t})});r(t=>t.map(t=>t.id===e.id?{...t,...n.data}:t)),af.HapticFeedback?.notificationOccurred?.(`success`)}finally{z(null)}},pt=async(e,t)=>{z(`content:${e.id}`);try{let n=await B(`/api/miniapp/cards/${e.id}/content`,{method:`PUT`,body:JSON.stringify({text:t})});r(t=>t.map(t=>t.id===e.id?{...t,...n.data}:t)),af.HapticFeedback?.notificationOccurred?.(`success`),await at(e.id)}finally{z(null)}},mt=async(e,t)=>{z(`schedule:${e.id}`);try{let n=await B(`/api/miniapp/cards/${e.id}/schedule`,{method:`POST`,body:JSON.stringify({text:t})});r(t=>t.map(t=>t.id===e.id?{...t,...n.data}:t)),af.HapticFeedback?.notificationOccurred?.(`success`)}finally{z(null)}},ht=async(e,t)=>{z(`deck:${e}`);try{await B(`/api/miniapp/decks/${encodeURIComponent(e)}`,{method:`PUT`,body:JSON.stringify({dailyLimit:t})}),af.HapticFeedback?.notificationOccurred?.(`success`),await rt()}finally{z(null)}},gt=async(e,t)=>{z(`leech:${e.id}`);try{let n=(await B(`/api/miniapp/cards/${e.id}/leech`,{method:`POST`,body:JSON.stringify({action:t})})).data;r(e=>e.map(e=>e.id===n.id?n:e)),O(e=>(e??[]).flatMap(e=>e.id===n.id?n.leechAt?[n]:[]:[e])),af.HapticFeedback?.notificationOccurred?.(`success`)}catch(e){$(e instanceof Error?e.message:`Не удалось обновить карточку`)}finally{z(null)}},_t=e=>{let t=e.status===`archived`;He({title:t?`Разархивировать карточку?`:`Архивировать карточку?`,body:t?`Карточка вернётся в активные списки.`:`Карточка будет скрыта из активного расписания.`,label:t?`Разархивировать`:`Архивировать`,danger:!t,action:()=>dt(e,t?`learning`:`archived`)})},vt=e=>{He({title:`Отправить напоминание?`,body:`Бот сразу отправит напоминание по этой карточке в Telegram.`,label:`Отправить`,action:async()=>{z(`reminder:${e.id}`);try{We||await B(`/api/miniapp/cards/${e.id}/send-reminder`,{method:`POST`});let t=new Date().toISOString();r(n=>n.map(n=>n.id===e.id?{...n,status:`awaiting_grade`,awaitingGradeSince:t,lastNotificationAt:t,lastNotificationReason:`manual_now`}:n)),af.HapticFeedback?.notificationOccurred?.(`success`),$(`Напоминание отправлено`)}finally{z(null)}}})},yt=async(e,t)=>{z(`one-time:${e.id}`);try{We||await B(`/api/miniapp/cards/${e.id}/one-time-reminder`,{method:`POST`,body:JSON.stringify({remindAt:t})}),af.HapticFeedback?.notificationOccurred?.(`success`),$(`Одноразовое напоминание назначено`)}finally{z(null)}},bt=async e=>{z(`settings:reminders`);try{j(We?e:(await B(`/api/miniapp/settings/reminders`,{method:`POST`,body:JSON.stringify(e)})).data),af.HapticFeedback?.notificationOccurred?.(`success`),$(`Настройки напоминаний сохранены`)}finally{z(null)}},xt=async e=>{z(`settings:pause`);try{N(We?t=>({...t??vf,doNotDisturbUntil:e}):(await B(`/api/miniapp/settings/do-not-disturb`,{method:`POST`,body:JSON.stringify({until:e})})).data),af.HapticFeedback?.notificationOccurred?.(`success`),$(e?`Не беспокоить до ${wf(e)}`:`Режим «Не беспокоить» выключен`)}finally{z(null)}},St=async e=>{z(`settings:digest`);try{re(We?e===null?null:{sendAtMinutes:e,nextDigestAt:new Date().toISOString()}:(await B(`/api/miniapp/settings/digest`,{method:`POST`,body:JSON.stringify({sendAtMinutes:e})})).data),af.HapticFeedback?.notificationOccurred?.(`success`),$(e===null?`Повторения снова приходят по одному`:`Сводка будет приходить в ${jf(e)}`)}finally{z(null)}},Ct=async e=>{z(`settings:pause`);try{let t=0;if(We)N(t=>({...t??vf,vacationSince:e.enabled?new Date().toISOString():null,vacationUntil:e.enabled?e.until??null:null,vacationSpreadDays:e.spreadDays??t?.vacationSpreadDays??vf.vacationSpreadDays}));else{let n=await B(`/api/miniapp/settings/vacation`,{method:`POST`,body:JSON.stringify(e)});N(n.data),t=n.rescheduled}af.HapticFeedback?.notificationOccurred?.(`success`),$(e.enabled?`Отпуск включён: напоминания приостановлены`:t?`С возвращением! Накопившиеся повторения (${t}) распределены на несколько дней`:`С возвращением! Напоминания снова включены`)}finally{z(null)}},wt=async e=>{z(`deck:import`);try{let t=await B(`/api/miniapp/import`,{method:`POST`,headers:{"Content-Type":`application/octet-stream`},body:e});af.HapticFeedback?.notificationOccurred?.(`success`);let n=t.data.scheduled?`, с расписанием: ${t.data.scheduled}`:``;$(`Импортировано карточек: ${t.data.imported}${n}`),await Je(`all`),await Ze()}finally{z(null)}},Tt=async e=>{z(`export:${e}`);try{let t,r=`interval-learn-export.${e===`csv`?`zip`:e===`anki`?`txt`:`json`}`;if(We)t=new Blob([JSON.stringify({cards:n},null,2)],{type:`application/json`});else{if(!af.initData)throw Error(`Telegram initData не доступен. Откройте приложение через бота.`);let n=await fetch(`${window.location.origin}/api/miniapp/export?format=${e}`,{headers:{"X-Telegram-Init-Data":af.initData}});if(!n.ok)throw Error(await n.text());r=/filename="([^"]+)"/.exec(n.headers.get(`content-disposition`)??``)?.[1]??r,t=await n.blob()}let i=URL.createObjectURL(t),a=document.createElement(`a`);a.href=i,a.download=r,a.click(),setTimeout(()=>URL.revokeObjectURL(i),6e4)}finally{z(null)}},Et=async e=>{z(`rebalance:preview`),F(null);try{ae((await B(`/api/miniapp/reminders/rebalance/preview`,{method:`POST`,body:JSON.stringify(e)})).data)}catch(e){throw F(e instanceof Error?e.message:`Не удалось построить план`),e}finally{z(null)}},Dt=async()=>{if(ie){z(`rebalance:apply`);try{let e=await B(`/api/miniapp/reminders/rebalance/apply`,{method:`POST`,body:JSON.stringify({planToken:ie.planToken,changes:ie.changes})});af.HapticFeedback?.notificationOccurred?.(`success`),$(`Расписание обновлено: ${e.data.updated}`),ae(null),await Je(`all`)}finally{z(null)}}};return(0,L.jsxs)(`div`,{className:`app-shell`,children:[(0,L.jsx)(`header`,{className:`app-header`,children:(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`p`,{className:`app-kicker`,children:`Интервальное повторение`}),(0,L.jsx)(`h1`,{children:Ke}),(0,L.jsx)(`p`,{children:qe})]})}),e!==`card-detail`&&e!==`notification-detail`?(0,L.jsx)(zd,{value:e,onValueChange:e=>t(e),className:`app-tabs`,children:(0,L.jsxs)(Bd,{className:Ge?`tabs-count-7`:`tabs-count-4`,children:[(0,L.jsx)(Vd,{value:`create`,children:`Создать`}),Ge?(0,L.jsx)(Vd,{value:`queue`,children:`Очередь`}):null,Ge?(0,L.jsx)(Vd,{value:`courses`,children:`Курсы`}):null,(0,L.jsx)(Vd,{value:`cards`,children:`Карточки`}),(0,L.jsx)(Vd,{value:`calendar`,children:`Календарь`}),(0,L.jsx)(Vd,{value:`stats`,children:`Статистика`}),Ge?(0,L.jsx)(Vd,{value:`balance`,children:`Баланс`}):null]})}):null,(0,L.jsxs)(`main`,{className:`app-main`,children:[e===`create`?(0,L.jsx)(Hf,{busy:Ue===`reminder:create`,onCreate:async e=>{z(`reminder:create`);try{let t=await B(`/api/miniapp/reminders`,{method:`POST`,body:JSON.stringify({text:e})});return af.HapticFeedback?.notificationOccurred?.(`success`),await Je(`all`),(We||g?.ownerTools)&&await Ye(),t.data}finally{z(null)}},onOpenCard:e=>{Te(e.id),t(`card-detail`)}}):null,e===`queue`&&Ge?(0,L.jsx)(Wf,{items:i,loading:o,error:c,busyKey:Ue,tags:st,tag:ue,onTagChange:e=>{de(e),Ye(e)},onReload:Ye,onAction:async(e,t,n={})=>{z(`queue:${t}:${e.card.id}`);try{await B(`/api/miniapp/queue/cards/${e.card.id}/${t}`,{method:`POST`,body:JSON.stringify({jobId:e.job?.id,...n})}),t===`viewed`&&a(t=>t.filter(t=>t.id!==e.id)),t!==`not-viewed`&&af.HapticFeedback?.notificationOccurred?.(`success`),await Ye(),await Je(`all`)}finally{z(null)}},onOpen:e=>{Te(e.id),t(`card-detail`)}}):null,e===`courses`&&Ge?(0,L.jsx)(Uf,{courses:u,loading:f,error:m,busyKey:Ue,onCreate:async e=>{z(`course:create`);try{await B(`/api/miniapp/courses`,{method:`POST`,body:JSON.stringify(e)}),af.HapticFeedback?.notificationOccurred?.(`success`),$(`Курс создан`),await V()}finally{z(null)}},onStart:async e=>{z(`course:start:${e.id}`);try{await B(`/api/miniapp/courses/${e.id}/start`,{method:`POST`,body:JSON.stringify({cadence:`after_view`})}),af.HapticFeedback?.notificationOccurred?.(`success`),$(`Первый шаг добавлен в очередь`),await V(),await Ye()}finally{z(null)}},onReload:V}):null,e===`cards`?(0,L.jsx)(Xf,{cards:ot,allCards:n,loading:Le,error:ze,searching:Se,query:ve,setQuery:ye,statusFilter:I,setStatusFilter:se,tagOptions:st,tagFilter:ce,setTagFilter:le,sortMode:ge,setSortMode:_e,reload:()=>Je(I),reset:()=>{se(`all`),le(uf),_e(`nextReviewAsc`),ye(``),Je(`all`)},onOpen:ut,onArchive:_t,onReminder:vt,busyKey:Ue}):null,e===`card-detail`&&ct?(0,L.jsx)(Qf,{card:ct,history:Ee,historyError:Oe,revisions:Ae,revisionsError:Me,onBack:()=>t(`cards`),onReminder:vt,onOneTimeReminder:yt,onSaveTags:ft,onSaveContent:pt,onSaveSchedule:mt,onArchive:_t,busyKey:Ue}):null,e===`notification-detail`&&ct?(0,L.jsx)($f,{card:ct,onBack:()=>t(`cards`)}):null,e===`calendar`?(0,L.jsx)(ep,{cards:lt,month:R,setMonth:Pe,selectedDate:Fe,setSelectedDate:Ie,onOpen:ut}):null,e===`stats`?(0,L.jsx)(rp,{stats:v||Tp(n),loading:!v&&!b,error:b,analytics:S,analyticsError:T,reminderSettings:A,settingsError:M,settingsSaving:Ue===`settings:reminders`,onSaveReminderSettings:bt,deliveryPause:ne,pauseSaving:Ue===`settings:pause`,onDoNotDisturb:xt,onVacation:Ct,reminderDigest:P,digestSaving:Ue===`settings:digest`,onSaveDigest:St,decks:fe,decksError:me,busyKey:Ue,onSaveDeckLimit:ht,importing:Ue===`deck:import`,onImportDeck:wt,exportingFormat:Ue?.startsWith(`export:`)?Ue.slice(7):null,onExport:Tt,onOpenLeeches:()=>t(`leeches`)}):null,e===`leeches`?(0,L.jsx)(ip,{cards:D,error:ee,busyKey:Ue,onBack:()=>t(`stats`),onOpen:ut,onAction:gt}):null,e===`balance`&&g?.ownerTools?(0,L.jsx)(mp,{preview:ie,error:oe,busyKey:Ue,onPreview:Et,onApply:()=>He({title:`Применить новое расписание?`,body:`Будущие review-напоминания будут перенесены по показанному варианту.`,label:`Применить`,action:Dt}),onReset:()=>ae(null)}):null]},e),(0,L.jsx)(Ad,{open:!!Ve,onOpenChange:e=>!e&&He(null),children:(0,L.jsxs)(Nd,{children:[(0,L.jsx)(jd,{children:Ve?.title}),(0,L.jsx)(Md,{children:Ve?.body}),(0,L.jsxs)(`div`,{className:`dialog-actions`,children:[(0,L.jsx)(Z,{variant:`outline`,onClick:()=>He(null),children:`Отмена`}),(0,L.jsx)(Z,{variant:Ve?.danger?`destructive`:`default`,onClick:async()=>{if(!Ve)return;let e=Ve.action;He(null);try{await e()}catch(e){$(e instanceof Error?e.message:`Не удалось выполнить действие`)}},children:Ve?.label})]})]})})]})}var Bf=.45,Vf=[{icon:me,label:`Покупки`,text:`Купить молоко завтра в 10`},{icon:le,label:`Лекарство`,text:`Принять витамин каждый день в 9`},{icon:I,label:`День рождения`,text:`День рождения мамы 25.05`}];function Hf({busy:e,onCreate:t,onOpenCard:n}){let[r,i]=(0,C.useState)(``),[a,o]=(0,C.useState)(null),s=r.trim().length>0,c=async()=>{if(!s){$(`Напишите напоминание`);return}try{o(await t(r.trim())),i(``),$(`Напоминание создано`)}catch(e){$(e instanceof Error?e.message:`Не удалось создать напоминание`)}};return(0,L.jsxs)(`div`,{className:`create-reminder-stack`,children:[(0,L.jsxs)(Q,{className:`quick-create-card`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Быстрое напоминание`}),(0,L.jsx)(`p`,{children:`Напишите обычной фразой с датой или расписанием.`})]}),(0,L.jsx)(ee,{size:20})]}),(0,L.jsx)(`textarea`,{className:`ui-textarea quick-create-input`,value:r,onChange:e=>i(e.target.value),placeholder:`Например: купить молоко завтра в 10`}),(0,L.jsx)(`div`,{className:`quick-template-grid`,children:Vf.map(e=>{let t=e.icon;return(0,L.jsxs)(`button`,{type:`button`,className:`quick-template`,onClick:()=>i(e.text),children:[(0,L.jsx)(t,{size:16}),(0,L.jsx)(`span`,{children:e.label})]},e.label)})}),(0,L.jsxs)(Z,{disabled:e||!s,onClick:()=>void c(),children:[(0,L.jsx)(de,{size:16}),`Создать`]})]}),a?(0,L.jsxs)(Q,{className:`created-reminder-card`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(kd,{tone:a.plan.mode===`one_time`?`muted`:`inverse`,children:a.plan.mode===`one_time`?`одноразовое`:`регулярное`}),(0,L.jsx)(`h2`,{children:a.plan.title}),(0,L.jsx)(`p`,{children:a.plan.mode===`one_time`?`Напомню ${Cf(a.plan.remindAt)}`:`${a.plan.ruleText}. Следующее ${Cf(a.plan.nextReviewAt)}`})]}),(0,L.jsx)(Z,{variant:`outline`,onClick:()=>n(a.card),children:`Открыть карточку`})]}):null]})}function Uf({courses:e,loading:t,error:n,busyKey:r,onCreate:i,onStart:a,onReload:o}){let[s,c]=(0,C.useState)(``),[l,u]=(0,C.useState)(``),[d,f]=(0,C.useState)(``),p=(0,C.useMemo)(()=>vp(d),[d]),m=r===`course:create`,h=s.trim().length>0&&p.length>0,g=async()=>{if(!h){$(`Добавьте название и хотя бы один шаг`);return}try{await i({title:s.trim(),description:l.trim()||null,steps:p}),c(``),u(``),f(``)}catch(e){$(e instanceof Error?e.message:`Не удалось создать курс`)}};return(0,L.jsxs)(`div`,{className:`courses-stack`,children:[(0,L.jsxs)(Q,{className:`course-editor`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Новый курс`}),(0,L.jsx)(`p`,{children:`Каждый блок станет отдельным шагом очереди.`})]}),(0,L.jsx)(k,{size:20})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Название`}),(0,L.jsx)(Od,{value:s,onChange:e=>c(e.target.value),placeholder:`Основы SQL`})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Описание`}),(0,L.jsx)(Od,{value:l,onChange:e=>u(e.target.value),placeholder:`Коротко, чему учимся`})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Шаги`}),(0,L.jsx)(`textarea`,{className:`ui-textarea`,value:d,onChange:e=>f(e.target.value),placeholder:`JOIN руками
 Соберите запрос с INNER JOIN на двух таблицах.
 
 GROUP BY
-Сгруппируйте продажи по дням.`})]}),(0,L.jsxs)(`div`,{className:`course-editor-footer`,children:[(0,L.jsxs)(wd,{tone:`muted`,children:[p.length,` шагов`]}),(0,L.jsxs)(Z,{disabled:m||!h,onClick:()=>void g(),children:[(0,L.jsx)(ce,{size:16}),`Создать`]})]})]}),(0,L.jsxs)(`div`,{className:`queue-topline`,children:[(0,L.jsx)(wd,{tone:`muted`,children:t?`Обновление`:`${e.length} курсов`}),(0,L.jsx)(Z,{variant:`ghost`,size:`icon`,"aria-label":`Обновить курсы`,disabled:t,onClick:()=>void o(),children:(0,L.jsx)(le,{size:16})})]}),n?(0,L.jsx)(jf,{title:`Не удалось загрузить курсы`,body:n}):null,!n&&!t&&e.length===0?(0,L.jsx)(jf,{title:`Курсов пока нет`,body:`Создайте первый простой курс из нескольких шагов.`}):null,e.map(e=>{let t=r===`course:start:${e.id}`,n=e.activeEnrollmentCount>0;return(0,L.jsxs)(Q,{className:`course-row`,children:[(0,L.jsxs)(`div`,{className:`course-row-main`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:e.title}),e.description?(0,L.jsx)(`p`,{children:e.description}):null]}),(0,L.jsx)(wd,{tone:n?`inverse`:`muted`,children:n?`В очереди`:e.status})]}),(0,L.jsxs)(`div`,{className:`course-row-meta`,children:[(0,L.jsxs)(`span`,{children:[e.stepCount,` шагов`]}),(0,L.jsxs)(`span`,{children:[`запусков `,e.activeEnrollmentCount+e.completedEnrollmentCount]})]}),(0,L.jsxs)(Z,{variant:`outline`,disabled:t||e.stepCount===0,onClick:()=>void a(e),children:[(0,L.jsx)(se,{size:16}),n?`Запустить ещё раз`:`Запустить`]})]},e.id)})]})}function mf({items:e,loading:t,error:n,busyKey:r,onReload:i,onAction:a,onOpen:o}){let[s,c]=(0,C.useState)(0),[l,u]=(0,C.useState)(!1),[d,f]=(0,C.useState)(null),[p,m]=(0,C.useState)(!1),h=(0,C.useRef)(null),g=(0,C.useRef)(null),_=e.find(e=>e.id!==d?.id)??null,v=_,y=!!r?.startsWith(`queue:`),b=e=>{m(!0),c(e),window.setTimeout(()=>m(!1),220)},x=async e=>{u(!1),b(1),window.setTimeout(()=>{f(e),c(0)},180);try{await a(e,`viewed`)}catch(e){f(null),Xd(e instanceof Error?e.message:`Не удалось отметить просмотр`)}},S=e=>{if(!v||y||l)return;let t=h.current?.getBoundingClientRect();if(t){g.current={startX:e.clientX,startY:e.clientY,startProgress:s,fullDrag:Math.max(180,t.width*.72),pointerId:e.pointerId,mode:null},m(!1);try{e.currentTarget.setPointerCapture(e.pointerId)}catch{}}},w=e=>{let t=g.current;if(!t)return;let n=e.clientX-t.startX,r=e.clientY-t.startY;if(t.mode===null){if(Math.hypot(n,r)<6)return;t.mode=Math.abs(n)>Math.abs(r)?`h`:`v`}if(t.mode!==`h`)return;let i=t.startProgress+-n/t.fullDrag,a=i<0?i*.25:i>1?1+(i-1)*.18:i;c(Math.max(-.06,Math.min(1.08,a)))},T=e=>{let t=g.current;if(g.current=null,t){try{e.currentTarget.releasePointerCapture(e.pointerId)}catch{}t.mode===`h`&&(s>=uf&&v?x(v):b(0))}},E=async(e,t={})=>{if(d)try{(e===`archive`||e===`not-viewed`||e===`reschedule`||e===`again`)&&(await a(d,e,t),f(null)),u(!1)}catch(e){Xd(e instanceof Error?e.message:`Не удалось выполнить действие`)}};return n?(0,L.jsx)(jf,{title:`Не удалось загрузить очередь`,body:n}):(0,L.jsxs)(`div`,{className:`queue-screen`,children:[(0,L.jsxs)(`div`,{className:`queue-topline`,children:[(0,L.jsx)(wd,{tone:`muted`,children:t?`Обновление`:`${e.length}${d?`+1`:``}`}),(0,L.jsx)(Z,{variant:`ghost`,size:`icon`,"aria-label":`Обновить очередь`,disabled:t,onClick:()=>void i(),children:(0,L.jsx)(le,{size:16})})]}),(0,L.jsxs)(`div`,{ref:h,className:X(`queue-live-stage`,p&&`is-settling`),onPointerDown:S,onPointerMove:w,onPointerUp:T,onPointerCancel:T,onClick:()=>l&&u(!1),children:[!d&&!_&&!t?(0,L.jsxs)(`div`,{className:`queue-empty`,children:[(0,L.jsx)(N,{size:36}),(0,L.jsx)(`span`,{children:`Очередь пуста`})]}):null,d?(0,L.jsx)(`div`,{className:`queue-card-shell queue-card-current`,style:{"--queue-x":`${-s*108}%`},children:(0,L.jsx)(gf,{item:d,viewed:!0,menuOpen:l,onMenu:()=>u(e=>!e)})}):null,_?(0,L.jsx)(`div`,{className:`queue-card-shell queue-card-next`,style:{"--queue-x":`${94-s*94}%`},children:(0,L.jsx)(gf,{item:_,ghost:s<.08,contentOpacity:Math.max(0,Math.min(1,(s-.08)/.32))})}):null,_?(0,L.jsx)(hf,{progress:s}):null,s>=uf&&_?(0,L.jsx)(`div`,{className:`queue-release-label`,children:`Отпусти, чтобы просмотреть`}):null,l&&d?(0,L.jsxs)(`div`,{className:`queue-menu`,onClick:e=>e.stopPropagation(),children:[(0,L.jsx)(`button`,{type:`button`,disabled:y,onClick:()=>void E(`not-viewed`),children:`Не просмотрено`}),(0,L.jsx)(`button`,{type:`button`,disabled:y,onClick:()=>void E(`reschedule`,{minutes:60}),children:`Перенести`}),(0,L.jsx)(`button`,{type:`button`,disabled:y,onClick:()=>void E(`again`),children:`Снова`}),(0,L.jsx)(`button`,{type:`button`,disabled:y,onClick:()=>void E(`archive`),children:`Архив`}),(0,L.jsx)(`button`,{type:`button`,onClick:()=>{u(!1),o(d.card)},children:`Открыть детали`})]}):null]})]})}function hf({progress:e}){let t=2*Math.PI*22,n=Math.max(0,Math.min(1,e/uf)),r=e>=uf;return(0,L.jsx)(`div`,{className:X(`queue-progress-spring`,r&&`is-ready`),style:{opacity:Math.max(0,Math.min(1,(e-.02)*9)),transform:`translate(-50%, -50%) scale(${.78+.22*n+(r?.06:0)})`},children:(0,L.jsxs)(`svg`,{width:`56`,height:`56`,viewBox:`0 0 56 56`,children:[(0,L.jsx)(`circle`,{cx:`28`,cy:`28`,r:22,fill:`none`,stroke:`rgba(255,255,255,.14)`,strokeWidth:`3`}),(0,L.jsx)(`circle`,{cx:`28`,cy:`28`,r:22,fill:`none`,stroke:r?`#f3f3ef`:`#b8c4d8`,strokeWidth:r?3.5:3,strokeLinecap:`round`,strokeDasharray:t,strokeDashoffset:t*(1-n),transform:`rotate(-90 28 28)`})]})})}function gf({item:e,viewed:t=!1,ghost:n=!1,menuOpen:r=!1,contentOpacity:i=1,onMenu:a}){let o=e.kind===`one_time`?`Одноразовое`:e.kind===`scheduled_review`?`Дальше`:`К оценке`;return(0,L.jsxs)(Q,{className:X(`queue-reminder-card`,n&&`is-ghost`),style:{"--queue-content-opacity":i},children:[(0,L.jsxs)(`div`,{className:`queue-card-header`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(wd,{tone:e.isDue?`inverse`:`muted`,children:o}),(0,L.jsx)(`span`,{children:$d(e.availableAt||e.card.nextReviewAt)})]}),t?(0,L.jsx)(`button`,{type:`button`,className:X(`queue-kebab`,r&&`is-open`),"aria-label":`Действия`,onClick:e=>{e.stopPropagation(),a?.()},children:(0,L.jsx)(ae,{size:18})}):null]}),(0,L.jsx)(`p`,{children:e.card.contentPreview||`Без текста`}),(0,L.jsxs)(`div`,{className:`queue-card-footer`,children:[(0,L.jsx)(`span`,{children:e.card.contentType}),(0,L.jsxs)(`span`,{children:[`Повторы `,e.card.repetition||0]})]})]})}function _f(e){let t=Ff(e.cards);return(0,L.jsxs)(L.Fragment,{children:[(0,L.jsxs)(Q,{className:`toolbar-card`,children:[(0,L.jsxs)(`div`,{className:`toolbar-grid`,children:[(0,L.jsxs)(kd,{value:e.statusFilter,onValueChange:t=>e.setStatusFilter(t),children:[(0,L.jsx)(jd,{children:(0,L.jsx)(Ad,{})}),(0,L.jsxs)(Md,{children:[(0,L.jsx)($,{value:`all`,children:`Все статусы`}),(0,L.jsx)($,{value:`pending`,children:`Ожидают`}),(0,L.jsx)($,{value:`learning`,children:`Изучаются`}),(0,L.jsx)($,{value:`awaiting_grade`,children:`Ждут оценки`}),(0,L.jsx)($,{value:`archived`,children:`Архив`})]})]}),(0,L.jsxs)(kd,{value:e.sortMode,onValueChange:t=>e.setSortMode(t),children:[(0,L.jsx)(jd,{children:(0,L.jsx)(Ad,{})}),(0,L.jsxs)(Md,{children:[(0,L.jsx)($,{value:`nextReviewAsc`,children:`Ближайший повтор`}),(0,L.jsx)($,{value:`nextReviewDesc`,children:`Поздний повтор`}),(0,L.jsx)($,{value:`updatedDesc`,children:`Новые сначала`}),(0,L.jsx)($,{value:`repetitionDesc`,children:`Больше повторов`})]})]})]}),(0,L.jsxs)(`div`,{className:`search-row`,children:[(0,L.jsx)(ue,{size:16}),(0,L.jsx)(Cd,{value:e.query,onChange:t=>e.setQuery(t.target.value),placeholder:`Поиск по карточкам`})]}),(0,L.jsxs)(`div`,{className:`toolbar-actions`,children:[(0,L.jsx)(Z,{variant:`outline`,size:`sm`,onClick:e.reload,children:`Обновить`}),(0,L.jsx)(Z,{variant:`ghost`,size:`sm`,onClick:e.reset,children:`Сбросить`})]}),(0,L.jsxs)(`div`,{className:`summary-row`,children:[(0,L.jsxs)(wd,{tone:`muted`,children:[`Всего `,t.total]}),(0,L.jsxs)(wd,{tone:`muted`,children:[`Сегодня `,t.today]}),(0,L.jsxs)(wd,{tone:`muted`,children:[`Просрочены `,t.overdue]}),(0,L.jsxs)(wd,{tone:`muted`,children:[`Оценка `,t.awaiting]})]})]}),e.loading?(0,L.jsx)(jf,{title:`Загрузка карточек`,body:`Получаем актуальный список.`}):null,e.error?(0,L.jsx)(jf,{title:`Не удалось загрузить`,body:e.error}):null,!e.loading&&!e.error&&e.cards.length===0?(0,L.jsx)(jf,{title:`Карточек не найдено`,body:`Измените фильтр или добавьте новую карточку в боте.`}):null,(0,L.jsx)(`div`,{className:`cards-stack`,children:e.cards.map(t=>(0,L.jsx)(vf,{card:t,onOpen:e.onOpen,onArchive:e.onArchive,onReminder:e.onReminder,busyKey:e.busyKey},t.id))})]})}function vf({card:e,onOpen:t,onArchive:n,onReminder:r,busyKey:i}){let a=e.status===`learning`||e.status===`awaiting_grade`;return(0,L.jsxs)(Q,{className:`card-row`,role:`button`,tabIndex:0,onClick:()=>t(e),onKeyDown:n=>n.key===`Enter`&&t(e),children:[(0,L.jsxs)(`div`,{className:`card-row-top`,children:[(0,L.jsx)(wd,{tone:Wd[e.status],children:Ud[e.status]}),(0,L.jsx)(`span`,{className:`meta-text`,children:$d(e.nextReviewAt)})]}),(0,L.jsx)(`p`,{className:`card-row-text`,children:e.contentPreview||`Без текста`}),(0,L.jsxs)(`div`,{className:`card-row-bottom`,children:[(0,L.jsxs)(`span`,{className:`meta-text`,children:[`Повторы: `,e.repetition||0]}),(0,L.jsxs)(`div`,{className:`row-actions`,onClick:e=>e.stopPropagation(),children:[a?(0,L.jsx)(Z,{size:`sm`,variant:`outline`,disabled:i===`reminder:${e.id}`,onClick:()=>r(e),children:`Напомнить`}):null,(0,L.jsx)(Z,{size:`sm`,variant:`ghost`,disabled:i===`status:${e.id}`,onClick:()=>n(e),children:e.status===`archived`?`Вернуть`:`Архив`})]})]})]})}function yf({card:e,onBack:t,onReminder:n,onOneTimeReminder:r,onArchive:i,busyKey:a}){let o=Vd(e),s=e.status!==`archived`&&e.status!==`pending`,[c,l]=(0,C.useState)(()=>tf(new Date(Date.now()+60*6e4))),[u,d]=(0,C.useState)(!1),f=e=>{let t=new Date;e===`hour`&&t.setTime(Date.now()+60*6e4),e===`evening`&&(t.setHours(20,0,0,0),t.getTime()<=Date.now()&&t.setDate(t.getDate()+1)),e===`morning`&&(t.setDate(t.getDate()+1),t.setHours(10,0,0,0)),l(tf(t))};return(0,L.jsxs)(`div`,{className:`detail-stack`,children:[(0,L.jsxs)(Z,{variant:`outline`,size:`sm`,className:`back-button`,onClick:t,children:[(0,L.jsx)(ne,{size:16}),`Назад`]}),(0,L.jsxs)(`section`,{className:`detail-header`,children:[(0,L.jsx)(wd,{tone:Wd[e.status],children:Ud[e.status]}),(0,L.jsxs)(`span`,{className:`meta-text`,children:[`След. повтор: `,Qd(e.nextReviewAt)]})]}),(0,L.jsxs)(Q,{className:`id-panel`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{className:`label-text`,children:`ID карточки`}),(0,L.jsx)(`p`,{children:e.id})]}),(0,L.jsx)(Z,{variant:`outline`,size:`icon`,"aria-label":`Скопировать ID`,onClick:()=>void Rf(e.id,`ID скопирован`),children:(0,L.jsx)(ie,{size:18})})]}),(0,L.jsxs)(Q,{className:`preview-panel`,children:[(0,L.jsx)(`div`,{className:`preview-icon`,children:(0,L.jsx)(F,{size:18})}),(0,L.jsx)(`p`,{children:e.contentPreview||`Без текста`}),e.contentType===`text`?null:(0,L.jsx)(`span`,{className:`meta-text`,children:`Медиа будет загружено в Telegram.`})]}),(0,L.jsxs)(`div`,{className:`detail-actions`,children:[(0,L.jsxs)(Z,{disabled:!s||a===`reminder:${e.id}`,onClick:()=>n(e),children:[(0,L.jsx)(ee,{size:16}),`Напомнить сейчас`]}),(0,L.jsxs)(Z,{variant:`outline`,disabled:!s,onClick:()=>d(e=>!e),children:[(0,L.jsx)(A,{size:16}),`Напомнить один раз`]}),(0,L.jsxs)(Z,{variant:`outline`,disabled:!o,onClick:()=>o&&Rf(o,`Ссылка скопирована`),children:[(0,L.jsx)(P,{size:16}),`Скопировать ссылку`]}),(0,L.jsxs)(Z,{variant:`destructive`,disabled:a===`status:${e.id}`,onClick:()=>i(e),children:[(0,L.jsx)(O,{size:16}),e.status===`archived`?`Разархивировать`:`Архивировать`]})]}),u?(0,L.jsxs)(Q,{className:`one-time-panel`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{className:`label-text`,children:`Одноразовое напоминание`}),(0,L.jsx)(`p`,{className:`meta-text`,children:`Не меняет интервальное расписание карточки.`})]}),(0,L.jsxs)(`div`,{className:`one-time-presets`,children:[(0,L.jsx)(Z,{type:`button`,variant:`ghost`,size:`sm`,onClick:()=>f(`hour`),children:`Через час`}),(0,L.jsx)(Z,{type:`button`,variant:`ghost`,size:`sm`,onClick:()=>f(`evening`),children:`Вечером`}),(0,L.jsx)(Z,{type:`button`,variant:`ghost`,size:`sm`,onClick:()=>f(`morning`),children:`Завтра утром`})]}),(0,L.jsx)(Cd,{type:`datetime-local`,value:c,onChange:e=>l(e.target.value),disabled:!s}),(0,L.jsxs)(Z,{variant:`outline`,disabled:!s||a===`one-time:${e.id}`,onClick:()=>{let t=nf(c);if(!t){Xd(`Выберите будущую дату и время`);return}r(e,t).then(()=>d(!1)).catch(e=>Xd(e instanceof Error?e.message:`Не удалось назначить напоминание`))},children:[(0,L.jsx)(A,{size:16}),`Назначить`]})]}):null,(0,L.jsxs)(Id,{type:`multiple`,className:`detail-accordion`,children:[(0,L.jsxs)(Ld,{value:`history`,children:[(0,L.jsxs)(Rd,{children:[(0,L.jsx)(re,{size:16}),`История`]}),(0,L.jsx)(zd,{children:(0,L.jsx)(Mf,{card:e})})]}),(0,L.jsxs)(Ld,{value:`meta`,children:[(0,L.jsxs)(Rd,{children:[(0,L.jsx)(P,{size:16}),`Дополнительно`]}),(0,L.jsx)(zd,{children:(0,L.jsx)(Nf,{card:e})})]})]})]})}function bf({card:e,onBack:t}){let n=[[`Текст`,`Время повторить запись`],[`Отправлено`,Qd(e.lastNotificationAt)],[`Причина`,e.lastNotificationReason?Gd[e.lastNotificationReason]:`—`],[`Message ID`,e.lastNotificationMessageId||`—`],[`Base ID`,e.baseChannelMessageId||`—`],[`Pending ID`,e.pendingChannelMessageId||`—`]];return(0,L.jsxs)(`div`,{className:`detail-stack`,children:[(0,L.jsxs)(Z,{variant:`outline`,size:`sm`,className:`back-button`,onClick:t,children:[(0,L.jsx)(ne,{size:16}),`Назад`]}),(0,L.jsxs)(Q,{className:`preview-panel`,children:[(0,L.jsx)(`div`,{className:`preview-icon`,children:(0,L.jsx)(ee,{size:18})}),(0,L.jsx)(`p`,{children:`Время повторить запись`}),(0,L.jsx)(`span`,{className:`meta-text`,children:`Уведомление относится к карточке ниже.`})]}),(0,L.jsxs)(Q,{className:`id-panel`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{className:`label-text`,children:`ID карточки`}),(0,L.jsx)(`p`,{children:e.id})]}),(0,L.jsx)(Z,{variant:`outline`,size:`icon`,onClick:()=>void Rf(e.id,`ID скопирован`),children:(0,L.jsx)(ie,{size:18})})]}),(0,L.jsx)(Q,{className:`details-card`,children:(0,L.jsx)(Pf,{rows:n})}),(0,L.jsx)(Q,{className:`preview-panel`,children:(0,L.jsx)(`p`,{children:e.contentPreview||`Без текста`})})]})}function xf({cards:e,month:t,setMonth:n,selectedDate:r,setSelectedDate:i,onOpen:a}){let o=Lf(e),s=t.getFullYear(),c=t.getMonth(),l=Object.keys(o).filter(e=>e.startsWith(`${s}-${String(c+1).padStart(2,`0`)}`)).sort(),u=r?[r]:l;return(0,L.jsxs)(`div`,{className:`calendar-stack`,children:[(0,L.jsxs)(Q,{className:`calendar-panel`,children:[(0,L.jsxs)(`div`,{className:`calendar-nav`,children:[(0,L.jsx)(Z,{variant:`outline`,size:`icon`,onClick:()=>n(new Date(s,c-1,1)),children:`‹`}),(0,L.jsx)(`h2`,{children:t.toLocaleDateString(`ru`,{month:`long`,year:`numeric`})}),(0,L.jsx)(Z,{variant:`outline`,size:`icon`,onClick:()=>n(new Date(s,c+1,1)),children:`›`})]}),(0,L.jsx)(Sf,{year:s,month:c,byDate:o,selectedDate:r,setSelectedDate:i})]}),e.length===0?(0,L.jsx)(jf,{title:`Нет запланированных повторений`,body:`Активные карточки появятся здесь после назначения даты.`}):null,u.map(e=>(0,L.jsx)(Cf,{dateKey:e,cards:o[e]||[],onOpen:a},e))]})}function Sf({year:e,month:t,byDate:n,selectedDate:r,setSelectedDate:i}){let a=new Date(e,t,1),o=new Date(e,t+1,0).getDate(),s=(a.getDay()+6)%7,c=of(new Date),l=[];for(let e=0;e<s;e+=1)l.push((0,L.jsx)(`div`,{className:`cal-cell cal-empty`},`empty-${e}`));for(let a=1;a<=o;a+=1){let o=`${e}-${String(t+1).padStart(2,`0`)}-${String(a).padStart(2,`0`)}`,s=n[o]?.length||0;l.push((0,L.jsxs)(`button`,{className:X(`cal-cell`,s&&`has-cards`,o===c&&`today`,r===o&&`selected`),onClick:()=>i(r===o?null:o),children:[(0,L.jsx)(`span`,{children:a}),s?(0,L.jsx)(`b`,{children:s}):null]},o))}return(0,L.jsxs)(`div`,{className:`cal-grid`,children:[(0,L.jsx)(`span`,{children:`Пн`}),(0,L.jsx)(`span`,{children:`Вт`}),(0,L.jsx)(`span`,{children:`Ср`}),(0,L.jsx)(`span`,{children:`Чт`}),(0,L.jsx)(`span`,{children:`Пт`}),(0,L.jsx)(`span`,{children:`Сб`}),(0,L.jsx)(`span`,{children:`Вс`}),l]})}function Cf({dateKey:e,cards:t,onOpen:n}){return t.length?(0,L.jsxs)(Q,{className:`day-panel`,children:[(0,L.jsxs)(`div`,{className:`day-header`,children:[(0,L.jsx)(`h3`,{children:new Date(`${e}T00:00:00`).toLocaleDateString(`ru`,{day:`numeric`,month:`long`,year:`numeric`})}),(0,L.jsx)(wd,{tone:`inverse`,children:t.length})]}),(0,L.jsx)(`div`,{className:`day-list`,children:t.sort((e,t)=>sf(e.nextReviewAt)-sf(t.nextReviewAt)).map(e=>(0,L.jsxs)(`button`,{className:`day-card`,onClick:()=>n(e),children:[(0,L.jsx)(`span`,{children:ef(e.nextReviewAt)}),(0,L.jsx)(`p`,{children:e.contentPreview||`Без текста`})]},e.id))})]}):null}function wf({stats:e,loading:t,error:n,reminderSettings:r,settingsError:i,settingsSaving:a,onSaveReminderSettings:o}){return n?(0,L.jsx)(jf,{title:`Не удалось загрузить статистику`,body:n}):t?(0,L.jsx)(jf,{title:`Загрузка статистики`,body:`Считаем текущий прогресс.`}):(0,L.jsxs)(L.Fragment,{children:[(0,L.jsxs)(`div`,{className:`stats-grid`,children:[(0,L.jsxs)(Q,{className:`stat-card wide`,children:[(0,L.jsx)(`span`,{children:`Всего карточек`}),(0,L.jsx)(`strong`,{children:e.total}),(0,L.jsx)(`p`,{children:`в аккаунте`})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Сегодня`}),(0,L.jsx)(`strong`,{children:e.dueToday})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Ожидают`}),(0,L.jsx)(`strong`,{children:e.pending})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Изучаются`}),(0,L.jsx)(`strong`,{children:e.learning})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Ждут оценки`}),(0,L.jsx)(`strong`,{children:e.awaitingGrade})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Архив`}),(0,L.jsx)(`strong`,{children:e.archived})]})]}),(0,L.jsx)(Tf,{settings:r,error:i,saving:a,onSave:o})]})}function Tf({settings:e,error:t,saving:n,onSave:r}){let[i,a]=(0,C.useState)(e?.timezone??qd.timezone),[o,s]=(0,C.useState)(rf(e?.activeHoursStart??qd.activeHoursStart)),[c,l]=(0,C.useState)(rf(e?.activeHoursEnd??qd.activeHoursEnd)),[u,d]=(0,C.useState)(String(e?.minGapMinutes??qd.minGapMinutes));return(0,C.useEffect)(()=>{e&&(a(e.timezone),s(rf(e.activeHoursStart)),l(rf(e.activeHoursEnd)),d(String(e.minGapMinutes)))},[e]),(0,L.jsxs)(Q,{className:`settings-panel`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Доставка напоминаний`}),(0,L.jsx)(`p`,{children:`Planner выбирает ближайший свободный слот внутри этих часов.`})]}),e?(0,L.jsxs)(wd,{tone:`muted`,children:[rf(e.activeHoursStart),`-`,rf(e.activeHoursEnd)]}):null]}),t?(0,L.jsx)(`p`,{className:`settings-error`,children:t}):null,(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Часовой пояс`}),(0,L.jsx)(Cd,{value:i,onChange:e=>a(e.target.value),placeholder:`Asia/Tbilisi`})]}),(0,L.jsxs)(`div`,{className:`settings-time-grid`,children:[(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`С`}),(0,L.jsx)(Cd,{type:`time`,value:o,onChange:e=>s(e.target.value)})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`До`}),(0,L.jsx)(Cd,{type:`time`,value:c,onChange:e=>l(e.target.value)})]})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Минимум между напоминаниями, мин`}),(0,L.jsx)(Cd,{type:`number`,min:1,max:360,value:u,onChange:e=>d(e.target.value)})]}),(0,L.jsx)(Z,{disabled:n,onClick:()=>{let e=af(o),t=af(c),n=Number(u);if(e===null||t===null||e>=t||!Number.isInteger(n)||n<1||n>360||!i.trim()){Xd(`Проверьте часы активности и интервал между напоминаниями`);return}r({timezone:i.trim(),activeHoursStart:e,activeHoursEnd:t,minGapMinutes:n}).catch(e=>{Xd(e instanceof Error?e.message:`Не удалось сохранить настройки`)})},children:`Сохранить настройки`})]})}function Ef({preview:e,error:t,busyKey:n,onPreview:r,onApply:i,onReset:a}){let[o,s]=(0,C.useState)(`7`),[c,l]=(0,C.useState)(`30`),u=n===`rebalance:preview`,d=n===`rebalance:apply`;return(0,L.jsxs)(`div`,{className:`balance-stack`,children:[(0,L.jsxs)(Q,{className:`balance-controls`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Балансировка напоминаний`}),(0,L.jsx)(`p`,{children:`Сначала строит визуальный вариант. Ничего не меняет без подтверждения.`})]}),(0,L.jsx)(j,{size:20})]}),(0,L.jsxs)(`div`,{className:`settings-time-grid`,children:[(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Период`}),(0,L.jsxs)(kd,{value:o,onValueChange:s,children:[(0,L.jsx)(jd,{children:(0,L.jsx)(Ad,{})}),(0,L.jsxs)(Md,{children:[(0,L.jsx)($,{value:`7`,children:`7 дней`}),(0,L.jsx)($,{value:`14`,children:`14 дней`}),(0,L.jsx)($,{value:`30`,children:`30 дней`})]})]})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Шаг`}),(0,L.jsxs)(kd,{value:c,onValueChange:l,children:[(0,L.jsx)(jd,{children:(0,L.jsx)(Ad,{})}),(0,L.jsxs)(Md,{children:[(0,L.jsx)($,{value:`15`,children:`15 минут`}),(0,L.jsx)($,{value:`30`,children:`30 минут`}),(0,L.jsx)($,{value:`60`,children:`1 час`})]})]})]})]}),t?(0,L.jsx)(`p`,{className:`settings-error`,children:t}):null,(0,L.jsxs)(`div`,{className:`toolbar-actions`,children:[(0,L.jsx)(Z,{disabled:u||d,onClick:()=>{r({horizonDays:Number(o),bucketMinutes:Number(c)}).catch(e=>{Xd(e instanceof Error?e.message:`Не удалось построить план`)})},children:`Построить вариант`}),e?(0,L.jsx)(Z,{variant:`ghost`,disabled:u||d,onClick:a,children:`Сбросить`}):null]})]}),e?null:(0,L.jsx)(jf,{title:`Плана пока нет`,body:`Постройте вариант, чтобы увидеть распределение до и после.`}),e?(0,L.jsxs)(L.Fragment,{children:[(0,L.jsxs)(`div`,{className:`balance-summary-grid`,children:[(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Всего`}),(0,L.jsx)(`strong`,{children:e.metrics.total})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Перенесено`}),(0,L.jsx)(`strong`,{children:e.metrics.moved})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Пик до`}),(0,L.jsx)(`strong`,{children:e.metrics.maxBucketBefore})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Пик после`}),(0,L.jsx)(`strong`,{children:e.metrics.maxBucketAfter})]})]}),(0,L.jsx)(Df,{preview:e}),(0,L.jsxs)(Q,{className:`balance-diff-panel`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Изменения`}),(0,L.jsxs)(`p`,{children:[`Средний сдвиг `,e.metrics.averageDeltaMinutes,` мин, максимум `,e.metrics.maxDeltaMinutes,` мин.`]})]}),(0,L.jsxs)(wd,{tone:`muted`,children:[e.metrics.conflictCountBefore,` → `,e.metrics.conflictCountAfter]})]}),e.changes.filter(e=>e.deltaMinutes!==0).length===0?(0,L.jsx)(`p`,{className:`meta-text`,children:`Текущее расписание уже выглядит ровно для выбранного периода.`}):(0,L.jsx)(`div`,{className:`balance-change-list`,children:e.changes.filter(e=>e.deltaMinutes!==0).slice(0,12).map(e=>(0,L.jsxs)(`div`,{className:`balance-change-row`,children:[(0,L.jsx)(`p`,{children:e.contentPreview||`Без текста`}),(0,L.jsxs)(`span`,{children:[$d(e.beforeScheduledAt),` → `,$d(e.afterScheduledAt)]})]},e.jobId))})]}),(0,L.jsxs)(`div`,{className:`balance-actions`,children:[(0,L.jsx)(Z,{disabled:d||e.metrics.moved===0,onClick:i,children:`Применить`}),(0,L.jsx)(Z,{variant:`outline`,disabled:d,onClick:a,children:`Отклонить`})]})]}):null]})}function Df({preview:e}){let t=Math.max(e.metrics.maxBucketBefore,e.metrics.maxBucketAfter,1);return(0,L.jsxs)(`div`,{className:`heatmap-comparison`,children:[(0,L.jsx)(Of,{title:`До`,heatmap:e.heatmap,matrix:e.heatmap.before,maxCount:t}),(0,L.jsx)(Of,{title:`После`,heatmap:e.heatmap,matrix:e.heatmap.after,maxCount:t})]})}function Of({title:e,heatmap:t,matrix:n,maxCount:r}){return(0,L.jsxs)(Q,{className:`heatmap-panel`,children:[(0,L.jsxs)(`div`,{className:`heatmap-title`,children:[(0,L.jsx)(`h2`,{children:e}),(0,L.jsxs)(wd,{tone:`muted`,children:[`max `,kf(n)]})]}),(0,L.jsxs)(`div`,{className:`heatmap-grid`,style:{gridTemplateColumns:`44px repeat(${t.days.length}, minmax(24px, 1fr))`},children:[(0,L.jsx)(`span`,{}),t.dayLabels.map(e=>(0,L.jsx)(`b`,{children:e},e)),t.slots.map((e,i)=>(0,L.jsxs)(C.Fragment,{children:[(0,L.jsx)(`span`,{children:e},`${e}-label`),t.days.map((t,a)=>{let o=n[i]?.[a]||0,s=o?Math.max(.18,o/r):0;return(0,L.jsx)(`i`,{title:`${t} ${e}: ${o}`,style:{"--heat":String(s)},children:o||``},`${t}-${e}`)})]},e))]})]})}function kf(e){return e.reduce((e,t)=>Math.max(e,...t),0)}function Af(e){return e.split(/\n\s*\n/g).map(e=>e.trim()).filter(Boolean).map(e=>{let t=e.split(`
+Сгруппируйте продажи по дням.`})]}),(0,L.jsxs)(`div`,{className:`course-editor-footer`,children:[(0,L.jsxs)(kd,{tone:`muted`,children:[p.length,` шагов`]}),(0,L.jsxs)(Z,{disabled:m||!h,onClick:()=>void g(),children:[(0,L.jsx)(de,{size:16}),`Создать`]})]})]}),(0,L.jsxs)(`div`,{className:`queue-topline`,children:[(0,L.jsx)(kd,{tone:`muted`,children:t?`Обновление`:`${e.length} курсов`}),(0,L.jsx)(Z,{variant:`ghost`,size:`icon`,"aria-label":`Обновить курсы`,disabled:t,onClick:()=>void o(),children:(0,L.jsx)(fe,{size:16})})]}),n?(0,L.jsx)(yp,{title:`Не удалось загрузить курсы`,body:n}):null,!n&&!t&&e.length===0?(0,L.jsx)(yp,{title:`Курсов пока нет`,body:`Создайте первый простой курс из нескольких шагов.`}):null,e.map(e=>{let t=r===`course:start:${e.id}`,n=e.activeEnrollmentCount>0;return(0,L.jsxs)(Q,{className:`course-row`,children:[(0,L.jsxs)(`div`,{className:`course-row-main`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:e.title}),e.description?(0,L.jsx)(`p`,{children:e.description}):null]}),(0,L.jsx)(kd,{tone:n?`inverse`:`muted`,children:n?`В очереди`:e.status})]}),(0,L.jsxs)(`div`,{className:`course-row-meta`,children:[(0,L.jsxs)(`span`,{children:[e.stepCount,` шагов`]}),(0,L.jsxs)(`span`,{children:[`запусков `,e.activeEnrollmentCount+e.completedEnrollmentCount]})]}),(0,L.jsxs)(Z,{variant:`outline`,disabled:t||e.stepCount===0,onClick:()=>void a(e),children:[(0,L.jsx)(ue,{size:16}),n?`Запустить ещё раз`:`Запустить`]})]},e.id)})]})}function Wf({items:e,loading:t,error:n,busyKey:r,tags:i,tag:a,onTagChange:o,onReload:s,onAction:c,onOpen:l}){let[u,d]=(0,C.useState)(0),[f,p]=(0,C.useState)(!1),[m,h]=(0,C.useState)(null),[g,_]=(0,C.useState)(!1),[v,y]=(0,C.useState)(!1),b=(0,C.useRef)(null),x=(0,C.useRef)(null),S=e.find(e=>e.id!==m?.id)??null,w=S,T=!!r?.startsWith(`queue:`),E=e=>{y(!0),d(e),window.setTimeout(()=>y(!1),220)},D=async e=>{p(!1),E(1);let t=e.kind!==`one_time`;if(window.setTimeout(()=>{h(e),_(!1),d(0)},180),!t)try{await c(e,`viewed`)}catch(e){h(null),$(e instanceof Error?e.message:`Не удалось отметить просмотр`)}},O=e=>{if(!w||T||f)return;let t=b.current?.getBoundingClientRect();if(t){x.current={startX:e.clientX,startY:e.clientY,startProgress:u,fullDrag:Math.max(180,t.width*.72),pointerId:e.pointerId,mode:null},y(!1);try{e.currentTarget.setPointerCapture(e.pointerId)}catch{}}},ee=e=>{let t=x.current;if(!t)return;let n=e.clientX-t.startX,r=e.clientY-t.startY;if(t.mode===null){if(Math.hypot(n,r)<6)return;t.mode=Math.abs(n)>Math.abs(r)?`h`:`v`}if(t.mode!==`h`)return;let i=t.startProgress+-n/t.fullDrag,a=i<0?i*.25:i>1?1+(i-1)*.18:i;d(Math.max(-.06,Math.min(1.08,a)))},k=e=>{let t=x.current;if(x.current=null,t){try{e.currentTarget.releasePointerCapture(e.pointerId)}catch{}t.mode===`h`&&(u>=Bf&&w?D(w):E(0))}},A=async(e,t={})=>{if(m)try{(e===`archive`||e===`not-viewed`||e===`reschedule`||e===`again`)&&(await c(m,e,t),h(null)),p(!1)}catch(e){$(e instanceof Error?e.message:`Не удалось выполнить действие`)}},j=async e=>{if(m)try{e===`again`?await c(m,`again`):await c(m,`viewed`,{grade:e}),h(null),p(!1)}catch(e){$(e instanceof Error?e.message:`Не удалось сохранить оценку`)}};return n?(0,L.jsx)(yp,{title:`Не удалось загрузить очередь`,body:n}):(0,L.jsxs)(`div`,{className:`queue-screen`,children:[(0,L.jsxs)(`div`,{className:`queue-topline`,children:[(0,L.jsx)(kd,{tone:`muted`,children:t?`Обновление`:`${e.length}${m?`+1`:``}`}),i.length?(0,L.jsxs)(Pd,{value:a??uf,onValueChange:e=>o(e===uf?null:e),children:[(0,L.jsx)(Id,{className:`queue-deck-select`,children:(0,L.jsx)(Fd,{})}),(0,L.jsxs)(Ld,{children:[(0,L.jsx)(Rd,{value:uf,children:`Все колоды`}),i.map(e=>(0,L.jsxs)(Rd,{value:e,children:[`#`,e]},e))]})]}):null,(0,L.jsx)(Z,{variant:`ghost`,size:`icon`,"aria-label":`Обновить очередь`,disabled:t,onClick:()=>void s(),children:(0,L.jsx)(fe,{size:16})})]}),(0,L.jsxs)(`div`,{ref:b,className:Ed(`queue-live-stage`,v&&`is-settling`),onPointerDown:O,onPointerMove:ee,onPointerUp:k,onPointerCancel:k,onClick:()=>f&&p(!1),children:[!m&&!S&&!t?(0,L.jsxs)(`div`,{className:`queue-empty`,children:[(0,L.jsx)(N,{size:36}),(0,L.jsx)(`span`,{children:`Очередь пуста`})]}):null,m?(0,L.jsx)(`div`,{className:`queue-card-shell queue-card-current`,style:{"--queue-x":`${-u*108}%`},children:(0,L.jsx)(Yf,{item:m,viewed:!0,menuOpen:f,onMenu:()=>p(e=>!e),revealed:g,onReveal:()=>_(!0),onGrade:e=>void j(e),busy:T})}):null,S?(0,L.jsx)(`div`,{className:`queue-card-shell queue-card-next`,style:{"--queue-x":`${94-u*94}%`},children:(0,L.jsx)(Yf,{item:S,ghost:u<.08,contentOpacity:Math.max(0,Math.min(1,(u-.08)/.32))})}):null,S?(0,L.jsx)(Gf,{progress:u}):null,u>=Bf&&S?(0,L.jsx)(`div`,{className:`queue-release-label`,children:`Отпусти, чтобы просмотреть`}):null,f&&m?(0,L.jsxs)(`div`,{className:`queue-menu`,onClick:e=>e.stopPropagation(),children:[(0,L.jsx)(`button`,{type:`button`,disabled:T,onClick:()=>void A(`not-viewed`),children:`Не просмотрено`}),(0,L.jsx)(`button`,{type:`button`,disabled:T,onClick:()=>void A(`reschedule`,{minutes:60}),children:`Перенести`}),(0,L.jsx)(`button`,{type:`button`,disabled:T,onClick:()=>void A(`again`),children:`Снова`}),(0,L.jsx)(`button`,{type:`button`,disabled:T,onClick:()=>void A(`archive`),children:`Архив`}),(0,L.jsx)(`button`,{type:`button`,onClick:()=>{p(!1),l(m.card)},children:`Открыть детали`})]}):null]})]})}function Gf({progress:e}){let t=2*Math.PI*22,n=Math.max(0,Math.min(1,e/Bf)),r=e>=Bf;return(0,L.jsx)(`div`,{className:Ed(`queue-progress-spring`,r&&`is-ready`),style:{opacity:Math.max(0,Math.min(1,(e-.02)*9)),transform:`translate(-50%, -50%) scale(${.78+.22*n+(r?.06:0)})`},children:(0,L.jsxs)(`svg`,{width:`56`,height:`56`,viewBox:`0 0 56 56`,children:[(0,L.jsx)(`circle`,{cx:`28`,cy:`28`,r:22,fill:`none`,stroke:`rgba(255,255,255,.14)`,strokeWidth:`3`}),(0,L.jsx)(`circle`,{cx:`28`,cy:`28`,r:22,fill:`none`,stroke:r?`#f3f3ef`:`#b8c4d8`,strokeWidth:r?3.5:3,strokeLinecap:`round`,strokeDasharray:t,strokeDashoffset:t*(1-n),transform:`rotate(-90 28 28)`})]})})}function Kf({text:e,entities:t}){return(0,L.jsx)(`span`,{className:`formatted-text`,children:Jf(e,ef(e,t))})}function qf({children:e}){let[t,n]=(0,C.useState)(!1);return(0,L.jsx)(`span`,{className:Ed(`tg-spoiler`,t&&`is-shown`),onClick:e=>{t||(e.stopPropagation(),n(!0))},children:e})}function Jf(e,t){return t.map((t,n)=>{if(typeof t==`string`)return(0,L.jsx)(C.Fragment,{children:t},n);let{entity:r}=t,i=Jf(e,t.children);switch(r.type){case`bold`:return(0,L.jsx)(`strong`,{children:i},n);case`italic`:return(0,L.jsx)(`em`,{children:i},n);case`underline`:return(0,L.jsx)(`u`,{children:i},n);case`strikethrough`:return(0,L.jsx)(`s`,{children:i},n);case`spoiler`:return(0,L.jsx)(qf,{children:i},n);case`code`:return(0,L.jsx)(`code`,{className:`tg-code`,children:i},n);case`pre`:return(0,L.jsx)(`code`,{className:`tg-pre`,"data-language":r.language,children:i},n);case`blockquote`:case`expandable_blockquote`:return(0,L.jsx)(`span`,{className:`tg-quote`,children:i},n);case`custom_emoji`:return(0,L.jsx)(`span`,{className:`tg-custom-emoji`,"data-emoji-id":r.custom_emoji_id,children:i},n);default:{let t=tf(r,e.slice(r.offset,r.offset+r.length));return t?(0,L.jsx)(`a`,{href:t,target:`_blank`,rel:`noreferrer`,onClick:e=>e.stopPropagation(),children:i},n):(0,L.jsx)(C.Fragment,{children:i},n)}}})}function Yf({item:e,viewed:t=!1,ghost:n=!1,menuOpen:r=!1,contentOpacity:i=1,onMenu:a,revealed:o=!1,onReveal:s,onGrade:c,busy:l=!1}){let u=e.kind===`one_time`?null:Pf(e.card),d=u?rf(e.card,u):null,f=nf(e.card),p=e.kind===`one_time`?`Одноразовое`:e.kind===`scheduled_review`?`Дальше`:`К оценке`;return(0,L.jsxs)(Q,{className:Ed(`queue-reminder-card`,n&&`is-ghost`),style:{"--queue-content-opacity":i},children:[(0,L.jsxs)(`div`,{className:`queue-card-header`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(kd,{tone:e.isDue?`inverse`:`muted`,children:p}),(0,L.jsx)(`span`,{children:wf(e.availableAt||e.card.nextReviewAt)})]}),t?(0,L.jsx)(`button`,{type:`button`,className:Ed(`queue-kebab`,r&&`is-open`),"aria-label":`Действия`,onClick:e=>{e.stopPropagation(),a?.()},children:(0,L.jsx)(oe,{size:18})}):null]}),u?(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(`p`,{children:u.kind===`cloze`&&o?u.back:(0,L.jsx)(Kf,{text:u.front,entities:d?.front})}),o&&u.kind===`front_back`?(0,L.jsx)(`p`,{className:`queue-card-answer`,children:(0,L.jsx)(Kf,{text:u.back,entities:d?.back})}):null]}):(0,L.jsx)(`p`,{children:f.text.trim()?(0,L.jsx)(Kf,{...f}):`Без текста`}),t&&e.kind!==`one_time`?(0,L.jsx)(`div`,{className:`queue-card-actions`,onPointerDown:e=>e.stopPropagation(),children:o||!u?(0,L.jsx)(`div`,{className:`queue-grade-grid`,children:lf.map(e=>(0,L.jsx)(Z,{variant:`outline`,disabled:l,onClick:()=>c?.(e),children:pf[e]},e))}):(0,L.jsxs)(Z,{onClick:()=>s?.(),children:[(0,L.jsx)(F,{size:16}),`Показать ответ`]})}):null,(0,L.jsxs)(`div`,{className:`queue-card-footer`,children:[(0,L.jsx)(`span`,{children:e.card.contentType}),(0,L.jsxs)(`span`,{children:[`Повторы `,e.card.repetition||0]})]})]})}function Xf(e){let t=wp(e.cards);return(0,L.jsxs)(L.Fragment,{children:[(0,L.jsxs)(Q,{className:`toolbar-card`,children:[(0,L.jsxs)(`div`,{className:`toolbar-grid`,children:[(0,L.jsxs)(Pd,{value:e.statusFilter,onValueChange:t=>e.setStatusFilter(t),children:[(0,L.jsx)(Id,{children:(0,L.jsx)(Fd,{})}),(0,L.jsxs)(Ld,{children:[(0,L.jsx)(Rd,{value:`all`,children:`Все статусы`}),(0,L.jsx)(Rd,{value:`pending`,children:`Ожидают`}),(0,L.jsx)(Rd,{value:`learning`,children:`Изучаются`}),(0,L.jsx)(Rd,{value:`awaiting_grade`,children:`Ждут оценки`}),(0,L.jsx)(Rd,{value:`archived`,children:`Архив`})]})]}),(0,L.jsxs)(Pd,{value:e.sortMode,onValueChange:t=>e.setSortMode(t),children:[(0,L.jsx)(Id,{children:(0,L.jsx)(Fd,{})}),(0,L.jsxs)(Ld,{children:[(0,L.jsx)(Rd,{value:`nextReviewAsc`,children:`Ближайший повтор`}),(0,L.jsx)(Rd,{value:`nextReviewDesc`,children:`Поздний повтор`}),(0,L.jsx)(Rd,{value:`updatedDesc`,children:`Новые сначала`}),(0,L.jsx)(Rd,{value:`repetitionDesc`,children:`Больше повторов`})]})]}),e.tagOptions.length?(0,L.jsxs)(Pd,{value:e.tagFilter,onValueChange:e.setTagFilter,children:[(0,L.jsx)(Id,{children:(0,L.jsx)(Fd,{})}),(0,L.jsxs)(Ld,{children:[(0,L.jsx)(Rd,{value:uf,children:`Все колоды`}),e.tagOptions.map(e=>(0,L.jsxs)(Rd,{value:e,children:[`#`,e]},e))]})]}):null]}),(0,L.jsxs)(`div`,{className:`search-row`,children:[(0,L.jsx)(pe,{size:16}),(0,L.jsx)(Od,{type:`search`,value:e.query,onChange:t=>e.setQuery(t.target.value),placeholder:`Поиск: текст, подписи, расшифровки`})]}),(0,L.jsxs)(`div`,{className:`toolbar-actions`,children:[(0,L.jsx)(Z,{variant:`outline`,size:`sm`,onClick:e.reload,children:`Обновить`}),(0,L.jsx)(Z,{variant:`ghost`,size:`sm`,onClick:e.reset,children:`Сбросить`})]}),(0,L.jsxs)(`div`,{className:`summary-row`,children:[(0,L.jsxs)(kd,{tone:`muted`,children:[`Всего `,t.total]}),(0,L.jsxs)(kd,{tone:`muted`,children:[`Сегодня `,t.today]}),(0,L.jsxs)(kd,{tone:`muted`,children:[`Просрочены `,t.overdue]}),(0,L.jsxs)(kd,{tone:`muted`,children:[`Оценка `,t.awaiting]}),e.searching?(0,L.jsx)(kd,{tone:`muted`,children:`Поиск…`}):null]})]}),e.loading?(0,L.jsx)(yp,{title:`Загрузка карточек`,body:`Получаем актуальный список.`}):null,e.error?(0,L.jsx)(yp,{title:`Не удалось загрузить`,body:e.error}):null,!e.loading&&!e.error&&e.cards.length===0?(0,L.jsx)(yp,{title:`Карточек не найдено`,body:`Измените фильтр или добавьте новую карточку в боте.`}):null,(0,L.jsx)(`div`,{className:`cards-stack`,children:e.cards.map(t=>(0,L.jsx)(Zf,{card:t,onOpen:e.onOpen,onArchive:e.onArchive,onReminder:e.onReminder,busyKey:e.busyKey},t.id))})]})}function Zf({card:e,onOpen:t,onArchive:n,onReminder:r,busyKey:i}){let a=e.status===`learning`||e.status===`awaiting_grade`;return(0,L.jsxs)(Q,{className:`card-row`,role:`button`,tabIndex:0,onClick:()=>t(e),onKeyDown:n=>n.key===`Enter`&&t(e),children:[(0,L.jsxs)(`div`,{className:`card-row-top`,children:[(0,L.jsx)(kd,{tone:sf[e.status],children:of[e.status]}),(0,L.jsx)(`span`,{className:`meta-text`,children:wf(e.nextReviewAt)})]}),(0,L.jsx)(`p`,{className:`card-row-text`,children:e.contentPreview||`Без текста`}),e.tags?.length?(0,L.jsx)(`div`,{className:`card-row-tags`,children:e.tags.map(e=>(0,L.jsxs)(kd,{tone:`muted`,children:[`#`,e]},e))}):null,(0,L.jsxs)(`div`,{className:`card-row-bottom`,children:[(0,L.jsxs)(`span`,{className:`meta-text`,children:[`Повторы: `,e.repetition||0]}),(0,L.jsxs)(`div`,{className:`row-actions`,onClick:e=>e.stopPropagation(),children:[a?(0,L.jsx)(Z,{size:`sm`,variant:`outline`,disabled:i===`reminder:${e.id}`,onClick:()=>r(e),children:`Напомнить`}):null,(0,L.jsx)(Z,{size:`sm`,variant:`ghost`,disabled:i===`status:${e.id}`,onClick:()=>n(e),children:e.status===`archived`?`Вернуть`:`Архив`})]})]})]})}function Qf({card:e,history:t,historyError:n,revisions:r,revisionsError:i,onBack:a,onReminder:o,onOneTimeReminder:s,onSaveTags:c,onSaveContent:l,onSaveSchedule:u,onArchive:d,busyKey:f}){let p=qd(e),m=nf(e),h=e.status!==`archived`&&e.status!==`pending`,[g,_]=(0,C.useState)(()=>kf(new Date(Date.now()+60*6e4))),[v,y]=(0,C.useState)(!1),[b,x]=(0,C.useState)(()=>(e.tags??[]).map(e=>`#${e}`).join(` `));(0,C.useEffect)(()=>{x((e.tags??[]).map(e=>`#${e}`).join(` `))},[e.tags]);let S=()=>{c(e,If(b)).catch(e=>$(e instanceof Error?e.message:`Не удалось сохранить теги`))},[w,T]=(0,C.useState)(e.contentPreview??``),[E,D]=(0,C.useState)(``);(0,C.useEffect)(()=>{T(e.contentPreview??``)},[e.contentPreview]);let k=()=>{if(!w.trim()){$(`Текст карточки не может быть пустым`);return}l(e,w).catch(e=>$(e instanceof Error?e.message:`Не удалось сохранить текст`))},j=()=>{u(e,E).then(()=>D(``)).catch(e=>$(e instanceof Error?e.message:`Не удалось сохранить расписание`))},M=e=>{let t=new Date;e===`hour`&&t.setTime(Date.now()+60*6e4),e===`evening`&&(t.setHours(20,0,0,0),t.getTime()<=Date.now()&&t.setDate(t.getDate()+1)),e===`morning`&&(t.setDate(t.getDate()+1),t.setHours(10,0,0,0)),_(kf(t))},te=()=>{let t=Af(g);if(!t){$(`Выберите будущую дату и время`);return}s(e,t).then(()=>y(!1)).catch(e=>$(e instanceof Error?e.message:`Не удалось назначить напоминание`))};return(0,L.jsxs)(`div`,{className:`detail-stack`,children:[(0,L.jsxs)(Z,{variant:`outline`,size:`sm`,className:`back-button`,onClick:a,children:[(0,L.jsx)(ne,{size:16}),`Назад`]}),(0,L.jsxs)(`section`,{className:`detail-header`,children:[(0,L.jsx)(kd,{tone:sf[e.status],children:of[e.status]}),(0,L.jsxs)(`span`,{className:`meta-text`,children:[`След. повтор: `,Cf(e.nextReviewAt)]})]}),(0,L.jsxs)(Q,{className:`id-panel`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{className:`label-text`,children:`ID карточки`}),(0,L.jsx)(`p`,{children:e.id})]}),(0,L.jsx)(Z,{variant:`outline`,size:`icon`,"aria-label":`Скопировать ID`,onClick:()=>void Dp(e.id,`ID скопирован`),children:(0,L.jsx)(ie,{size:18})})]}),(0,L.jsxs)(Q,{className:`preview-panel`,children:[(0,L.jsx)(`div`,{className:`preview-icon`,children:(0,L.jsx)(se,{size:18})}),(0,L.jsx)(`p`,{children:m.text.trim()?(0,L.jsx)(Kf,{...m}):`Без текста`}),e.contentType===`text`?null:(0,L.jsx)(`span`,{className:`meta-text`,children:`Медиа будет загружено в Telegram.`})]}),(0,L.jsxs)(Q,{className:`tags-panel`,children:[(0,L.jsx)(`span`,{className:`label-text`,children:`Колоды`}),(0,L.jsxs)(`div`,{className:`tags-editor`,children:[(0,L.jsx)(Od,{value:b,onChange:e=>x(e.target.value),placeholder:`#испанский #работа`}),(0,L.jsxs)(Z,{variant:`outline`,size:`sm`,disabled:f===`tags:${e.id}`,onClick:S,children:[(0,L.jsx)(he,{size:16}),`Сохранить`]})]})]}),(0,L.jsxs)(Q,{className:`edit-panel`,children:[(0,L.jsx)(`span`,{className:`label-text`,children:`Текст`}),e.contentType===`text`?(0,L.jsxs)(L.Fragment,{children:[(0,L.jsx)(`textarea`,{className:`ui-textarea`,value:w,onChange:e=>T(e.target.value)}),(0,L.jsxs)(Z,{variant:`outline`,size:`sm`,disabled:f===`content:${e.id}`||w.trim()===(e.contentPreview??``).trim(),onClick:k,children:[(0,L.jsx)(ce,{size:16}),`Сохранить текст`]})]}):(0,L.jsx)(`p`,{className:`meta-text`,children:`Чтобы заменить медиа или подпись, ответьте на напоминание в боте новым сообщением.`}),(0,L.jsx)(`span`,{className:`label-text`,children:`Расписание`}),(0,L.jsxs)(`div`,{className:`tags-editor`,children:[(0,L.jsx)(Od,{value:E,onChange:e=>D(e.target.value),placeholder:`каждые 3 дня, пн, ср, пт в 9:00`,disabled:!h}),(0,L.jsxs)(Z,{variant:`outline`,size:`sm`,disabled:!h||!E.trim()||f===`schedule:${e.id}`,onClick:j,children:[(0,L.jsx)(A,{size:16}),`Задать`]})]})]}),(0,L.jsxs)(`div`,{className:`detail-actions`,children:[(0,L.jsxs)(Z,{disabled:!h||f===`reminder:${e.id}`,onClick:()=>o(e),children:[(0,L.jsx)(ee,{size:16}),`Напомнить сейчас`]}),(0,L.jsxs)(Z,{variant:`outline`,disabled:!h,onClick:()=>y(e=>!e),children:[(0,L.jsx)(A,{size:16}),`Напомнить один раз`]}),(0,L.jsxs)(Z,{variant:`outline`,disabled:!p,onClick:()=>p&&Dp(p,`Ссылка скопирована`),children:[(0,L.jsx)(P,{size:16}),`Скопировать ссылку`]}),(0,L.jsxs)(Z,{variant:`destructive`,disabled:f===`status:${e.id}`,onClick:()=>d(e),children:[(0,L.jsx)(O,{size:16}),e.status===`archived`?`Разархивировать`:`Архивировать`]})]}),v?(0,L.jsxs)(Q,{className:`one-time-panel`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{className:`label-text`,children:`Одноразовое напоминание`}),(0,L.jsx)(`p`,{className:`meta-text`,children:`Не меняет интервальное расписание карточки.`})]}),(0,L.jsxs)(`div`,{className:`one-time-presets`,children:[(0,L.jsx)(Z,{type:`button`,variant:`ghost`,size:`sm`,onClick:()=>M(`hour`),children:`Через час`}),(0,L.jsx)(Z,{type:`button`,variant:`ghost`,size:`sm`,onClick:()=>M(`evening`),children:`Вечером`}),(0,L.jsx)(Z,{type:`button`,variant:`ghost`,size:`sm`,onClick:()=>M(`morning`),children:`Завтра утром`})]}),(0,L.jsx)(Od,{type:`datetime-local`,value:g,onChange:e=>_(e.target.value),disabled:!h}),(0,L.jsxs)(Z,{variant:`outline`,disabled:!h||f===`one-time:${e.id}`,onClick:te,children:[(0,L.jsx)(A,{size:16}),`Назначить`]})]}):null,(0,L.jsxs)(Hd,{type:`multiple`,className:`detail-accordion`,children:[(0,L.jsxs)(Ud,{value:`history`,children:[(0,L.jsxs)(Wd,{children:[(0,L.jsx)(re,{size:16}),`История`]}),(0,L.jsx)(Gd,{children:(0,L.jsx)(bp,{card:e,logs:t,error:n})})]}),(0,L.jsxs)(Ud,{value:`revisions`,children:[(0,L.jsxs)(Wd,{children:[(0,L.jsx)(ce,{size:16}),`Прежние версии`]}),(0,L.jsx)(Gd,{children:(0,L.jsx)(xp,{revisions:r,error:i})})]}),(0,L.jsxs)(Ud,{value:`meta`,children:[(0,L.jsxs)(Wd,{children:[(0,L.jsx)(P,{size:16}),`Дополнительно`]}),(0,L.jsx)(Gd,{children:(0,L.jsx)(Sp,{card:e})})]})]})]})}function $f({card:e,onBack:t}){let n=[[`Текст`,`Время повторить запись`],[`Отправлено`,Cf(e.lastNotificationAt)],[`Причина`,e.lastNotificationReason?cf[e.lastNotificationReason]:`—`],[`Message ID`,e.lastNotificationMessageId||`—`],[`Base ID`,e.baseChannelMessageId||`—`],[`Pending ID`,e.pendingChannelMessageId||`—`]];return(0,L.jsxs)(`div`,{className:`detail-stack`,children:[(0,L.jsxs)(Z,{variant:`outline`,size:`sm`,className:`back-button`,onClick:t,children:[(0,L.jsx)(ne,{size:16}),`Назад`]}),(0,L.jsxs)(Q,{className:`preview-panel`,children:[(0,L.jsx)(`div`,{className:`preview-icon`,children:(0,L.jsx)(ee,{size:18})}),(0,L.jsx)(`p`,{children:`Время повторить запись`}),(0,L.jsx)(`span`,{className:`meta-text`,children:`Уведомление относится к карточке ниже.`})]}),(0,L.jsxs)(Q,{className:`id-panel`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{className:`label-text`,children:`ID карточки`}),(0,L.jsx)(`p`,{children:e.id})]}),(0,L.jsx)(Z,{variant:`outline`,size:`icon`,onClick:()=>void Dp(e.id,`ID скопирован`),children:(0,L.jsx)(ie,{size:18})})]}),(0,L.jsx)(Q,{className:`details-card`,children:(0,L.jsx)(Cp,{rows:n})}),(0,L.jsx)(Q,{className:`preview-panel`,children:(0,L.jsx)(`p`,{children:e.contentPreview||`Без текста`})})]})}function ep({cards:e,month:t,setMonth:n,selectedDate:r,setSelectedDate:i,onOpen:a}){let o=Ep(e),s=t.getFullYear(),c=t.getMonth(),l=Object.keys(o).filter(e=>e.startsWith(`${s}-${String(c+1).padStart(2,`0`)}`)).sort(),u=r?[r]:l;return(0,L.jsxs)(`div`,{className:`calendar-stack`,children:[(0,L.jsxs)(Q,{className:`calendar-panel`,children:[(0,L.jsxs)(`div`,{className:`calendar-nav`,children:[(0,L.jsx)(Z,{variant:`outline`,size:`icon`,onClick:()=>n(new Date(s,c-1,1)),children:`‹`}),(0,L.jsx)(`h2`,{children:t.toLocaleDateString(`ru`,{month:`long`,year:`numeric`})}),(0,L.jsx)(Z,{variant:`outline`,size:`icon`,onClick:()=>n(new Date(s,c+1,1)),children:`›`})]}),(0,L.jsx)(tp,{year:s,month:c,byDate:o,selectedDate:r,setSelectedDate:i})]}),e.length===0?(0,L.jsx)(yp,{title:`Нет запланированных повторений`,body:`Активные карточки появятся здесь после назначения даты.`}):null,u.map(e=>(0,L.jsx)(np,{dateKey:e,cards:o[e]||[],onOpen:a},e))]})}function tp({year:e,month:t,byDate:n,selectedDate:r,setSelectedDate:i}){let a=new Date(e,t,1),o=new Date(e,t+1,0).getDate(),s=(a.getDay()+6)%7,c=Nf(new Date),l=[];for(let e=0;e<s;e+=1)l.push((0,L.jsx)(`div`,{className:`cal-cell cal-empty`},`empty-${e}`));for(let a=1;a<=o;a+=1){let o=`${e}-${String(t+1).padStart(2,`0`)}-${String(a).padStart(2,`0`)}`,s=n[o]?.length||0;l.push((0,L.jsxs)(`button`,{className:Ed(`cal-cell`,s&&`has-cards`,o===c&&`today`,r===o&&`selected`),onClick:()=>i(r===o?null:o),children:[(0,L.jsx)(`span`,{children:a}),s?(0,L.jsx)(`b`,{children:s}):null]},o))}return(0,L.jsxs)(`div`,{className:`cal-grid`,children:[(0,L.jsx)(`span`,{children:`Пн`}),(0,L.jsx)(`span`,{children:`Вт`}),(0,L.jsx)(`span`,{children:`Ср`}),(0,L.jsx)(`span`,{children:`Чт`}),(0,L.jsx)(`span`,{children:`Пт`}),(0,L.jsx)(`span`,{children:`Сб`}),(0,L.jsx)(`span`,{children:`Вс`}),l]})}function np({dateKey:e,cards:t,onOpen:n}){return t.length?(0,L.jsxs)(Q,{className:`day-panel`,children:[(0,L.jsxs)(`div`,{className:`day-header`,children:[(0,L.jsx)(`h3`,{children:new Date(`${e}T00:00:00`).toLocaleDateString(`ru`,{day:`numeric`,month:`long`,year:`numeric`})}),(0,L.jsx)(kd,{tone:`inverse`,children:t.length})]}),(0,L.jsx)(`div`,{className:`day-list`,children:t.sort((e,t)=>Lf(e.nextReviewAt)-Lf(t.nextReviewAt)).map(e=>(0,L.jsxs)(`button`,{className:`day-card`,onClick:()=>n(e),children:[(0,L.jsx)(`span`,{children:Of(e.nextReviewAt)}),(0,L.jsx)(`p`,{children:e.contentPreview||`Без текста`})]},e.id))})]}):null}function rp({stats:e,loading:t,error:n,analytics:r,analyticsError:i,reminderSettings:a,settingsError:o,settingsSaving:s,onSaveReminderSettings:c,deliveryPause:l,pauseSaving:u,onDoNotDisturb:d,onVacation:f,reminderDigest:p,digestSaving:m,onSaveDigest:h,decks:g,decksError:_,busyKey:v,onSaveDeckLimit:y,importing:b,onImportDeck:x,exportingFormat:S,onExport:C,onOpenLeeches:w}){return n?(0,L.jsx)(yp,{title:`Не удалось загрузить статистику`,body:n}):t?(0,L.jsx)(yp,{title:`Загрузка статистики`,body:`Считаем текущий прогресс.`}):(0,L.jsxs)(L.Fragment,{children:[(0,L.jsxs)(`div`,{className:`stats-grid`,children:[(0,L.jsxs)(Q,{className:`stat-card wide`,children:[(0,L.jsx)(`span`,{children:`Всего карточек`}),(0,L.jsx)(`strong`,{children:e.total}),(0,L.jsx)(`p`,{children:`в аккаунте`})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Сегодня`}),(0,L.jsx)(`strong`,{children:e.dueToday})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Ожидают`}),(0,L.jsx)(`strong`,{children:e.pending})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Изучаются`}),(0,L.jsx)(`strong`,{children:e.learning})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Ждут оценки`}),(0,L.jsx)(`strong`,{children:e.awaitingGrade})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Архив`}),(0,L.jsx)(`strong`,{children:e.archived})]})]}),(0,L.jsx)(ap,{analytics:r,error:i}),(0,L.jsxs)(Z,{variant:`outline`,onClick:w,children:[(0,L.jsx)(fe,{size:16}),`Трудные карточки`]}),(0,L.jsx)(up,{settings:a,error:o,saving:s,onSave:c,pause:l,pauseSaving:u,onDoNotDisturb:d,onVacation:f,digest:p,digestSaving:m,onSaveDigest:h}),(0,L.jsx)(op,{decks:g,error:_,busyKey:v,onSave:y}),(0,L.jsx)(sp,{importing:b,onImport:x}),(0,L.jsx)(pp,{exportingFormat:S,onExport:C})]})}function ip({cards:e,error:t,busyKey:n,onBack:r,onOpen:i,onAction:a}){let o=(0,L.jsxs)(Z,{variant:`outline`,size:`sm`,className:`back-button`,onClick:r,children:[(0,L.jsx)(ne,{size:16}),`Назад`]});return t?(0,L.jsxs)(`div`,{className:`detail-stack`,children:[o,(0,L.jsx)(yp,{title:`Не удалось загрузить трудные карточки`,body:t})]}):e?(0,L.jsxs)(`div`,{className:`detail-stack`,children:[o,e.length?null:(0,L.jsx)(yp,{title:`Трудных карточек нет`,body:`Карточка попадёт сюда, если на неё слишком часто отвечать «Снова». Порог — в настройках напоминаний.`}),e.map(e=>{let t=n===`leech:${e.id}`,r=e.status===`archived`;return(0,L.jsxs)(Q,{className:`settings-panel leech-card`,children:[(0,L.jsxs)(`button`,{className:`leech-preview`,onClick:()=>i(e),children:[(0,L.jsx)(`p`,{children:e.contentPreview||`Без текста`}),(0,L.jsxs)(`span`,{className:`meta-text`,children:[`«Снова»: `,e.lapses??0,` · трудная с `,wf(e.leechAt),e.suspendedAt?` · приостановлена`:r?` · в архиве`:``]})]}),(0,L.jsxs)(`div`,{className:`settings-action-grid`,children:[e.suspendedAt?(0,L.jsx)(Z,{size:`sm`,variant:`outline`,disabled:t||r,onClick:()=>void a(e,`resume`),children:`Вернуть`}):(0,L.jsx)(Z,{size:`sm`,variant:`outline`,disabled:t||r,onClick:()=>void a(e,`suspend`),children:`Пауза`}),(0,L.jsx)(Z,{size:`sm`,variant:`outline`,disabled:t,onClick:()=>void a(e,`clear`),children:`Сбросить`}),(0,L.jsxs)(Z,{size:`sm`,variant:`outline`,disabled:t||r,onClick:()=>void a(e,`archive`),children:[(0,L.jsx)(O,{size:16}),`Архив`]})]})]},e.id)})]}):(0,L.jsx)(yp,{title:`Загрузка`,body:`Ищем карточки, которые не запоминаются.`})}function ap({analytics:e,error:t}){if(t)return(0,L.jsx)(Q,{className:`settings-panel`,children:(0,L.jsx)(`p`,{className:`settings-error`,children:t})});if(!e)return null;let n=Math.max(1,...e.forecast.map(e=>e.due));return(0,L.jsxs)(Q,{className:`settings-panel analytics-panel`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Прогресс`}),(0,L.jsxs)(`p`,{children:[`Ответы за последние `,e.historyDays,` дней: `,e.reviewCount,`.`]})]}),(0,L.jsx)(j,{size:20})]}),(0,L.jsxs)(`div`,{className:`analytics-summary`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{children:`Серия`}),(0,L.jsx)(`strong`,{children:e.streak.current}),(0,L.jsx)(`p`,{children:e.streak.reviewedToday?`сегодня есть`:`повторите сегодня`})]}),(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{children:`Рекорд`}),(0,L.jsx)(`strong`,{children:e.streak.longest}),(0,L.jsx)(`p`,{children:`дней подряд`})]}),(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{children:`Ответ`}),(0,L.jsx)(`strong`,{children:Ef(e.latency.medianMs)??`—`}),(0,L.jsxs)(`p`,{children:[`медиана, среднее `,Ef(e.latency.averageMs)??`—`]})]})]}),(0,L.jsxs)(`div`,{className:`settings-subsection`,children:[(0,L.jsx)(`div`,{className:`settings-heading`,children:(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Оценки`}),(0,L.jsx)(`p`,{children:`Доля оценки и сколько следующих повторений после неё прошли без «Снова».`})]})}),(0,L.jsx)(`div`,{className:`analytics-bars`,children:e.grades.map(e=>(0,L.jsxs)(C.Fragment,{children:[(0,L.jsx)(`span`,{children:pf[e.grade]}),(0,L.jsx)(`i`,{children:(0,L.jsx)(`b`,{style:{width:`${Math.round(e.share*100)}%`}})}),(0,L.jsxs)(`em`,{children:[Df(e.share),` · `,Df(e.retention)]})]},e.grade))})]}),(0,L.jsxs)(`div`,{className:`settings-subsection`,children:[(0,L.jsx)(`div`,{className:`settings-heading`,children:(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Удержание по интервалу`}),(0,L.jsx)(`p`,{children:`Доля вспомненных карточек в зависимости от времени с прошлого повторения.`})]})}),(0,L.jsx)(`div`,{className:`analytics-bars`,children:e.trueRetention.map(e=>(0,L.jsxs)(C.Fragment,{children:[(0,L.jsx)(`span`,{children:e.label}),(0,L.jsx)(`i`,{children:(0,L.jsx)(`b`,{style:{width:`${Math.round((e.retention??0)*100)}%`}})}),(0,L.jsxs)(`em`,{children:[Df(e.retention),` · `,e.reviews]})]},e.label))})]}),(0,L.jsxs)(`div`,{className:`settings-subsection`,children:[(0,L.jsx)(`div`,{className:`settings-heading`,children:(0,L.jsxs)(`div`,{children:[(0,L.jsxs)(`h2`,{children:[`Прогноз на `,e.forecast.length,` дней`]}),(0,L.jsxs)(`p`,{children:[`Сегодня с просроченными: `,e.forecast[0]?.due??0,`, максимум в день: `,n,`.`]})]})}),(0,L.jsx)(`div`,{className:`analytics-forecast`,role:`img`,"aria-label":`Повторения по дням`,children:e.forecast.map(e=>(0,L.jsx)(`i`,{title:`${e.date}: ${e.due}`,style:{height:`${Math.round(e.due/n*100)}%`}},e.date))})]})]})}function op({decks:e,error:t,busyKey:n,onSave:r}){let[i,a]=(0,C.useState)({});(0,C.useEffect)(()=>{a(Object.fromEntries((e??[]).map(e=>[e.tag,e.dailyLimit?String(e.dailyLimit):``])))},[e]);let o=e=>{let t=(i[e]??``).trim(),n=t?Number(t):null;if(n!==null&&(!Number.isInteger(n)||n<1||n>1e3)){$(`Лимит — число от 1 до 1000 или пустое поле`);return}r(e,n).catch(e=>{$(e instanceof Error?e.message:`Не удалось сохранить лимит`)})};return(0,L.jsxs)(Q,{className:`settings-panel`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Колоды`}),(0,L.jsx)(`p`,{children:`Лимит повторений в день: лишние карточки колоды переносятся на следующий день.`})]}),(0,L.jsx)(he,{size:20})]}),t?(0,L.jsx)(`p`,{className:`settings-error`,children:t}):null,e&&!e.length?(0,L.jsx)(`p`,{className:`meta-text`,children:`Добавьте #тег в сообщение боту или в карточке, чтобы появилась колода.`}):null,(e??[]).map(e=>(0,L.jsxs)(`div`,{className:`deck-row`,children:[(0,L.jsxs)(`div`,{className:`deck-row-info`,children:[(0,L.jsxs)(`strong`,{children:[`#`,e.tag]}),(0,L.jsxs)(`span`,{className:`meta-text`,children:[`Карточек: `,e.cardCount,` · сегодня `,e.deliveredToday,e.dailyLimit?`/${e.dailyLimit}`:``]})]}),(0,L.jsx)(Od,{type:`number`,min:1,max:1e3,placeholder:`∞`,value:i[e.tag]??``,onChange:t=>a(n=>({...n,[e.tag]:t.target.value}))}),(0,L.jsx)(Z,{size:`sm`,variant:`outline`,disabled:n===`deck:${e.tag}`,onClick:()=>o(e.tag),children:`Сохранить`})]},e.tag))]})}function sp({importing:e,onImport:t}){let n=(0,C.useRef)(null),r=e=>{e&&t(e).catch(e=>{$(e instanceof Error?e.message:`Не удалось импортировать колоду`)}).finally(()=>{n.current&&(n.current.value=``)})};return(0,L.jsxs)(Q,{className:`settings-panel`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Импорт колоды`}),(0,L.jsx)(`p`,{children:`Anki .apkg или CSV/TSV: лицевая сторона, оборот, дата и интервал. Расписание Anki сохраняется.`})]}),(0,L.jsx)(ge,{size:20})]}),(0,L.jsx)(`input`,{ref:n,type:`file`,accept:`.apkg,.csv,.tsv,.txt`,hidden:!0,onChange:e=>r(e.target.files?.[0])}),(0,L.jsx)(Z,{disabled:e,onClick:()=>n.current?.click(),children:e?`Импортируем…`:`Выбрать файл`})]})}var cp=e=>e===null?`off`:String(e??0),lp=e=>e.weekdayHours?.length===7?e.weekdayHours.map(t=>({enabled:!!t,start:jf(t?.start??e.activeHoursStart),end:jf(t?.end??e.activeHoursEnd)})):null;function up({settings:e,error:t,saving:n,onSave:r,pause:i,pauseSaving:a,onDoNotDisturb:o,onVacation:s,digest:c,digestSaving:l,onSaveDigest:u}){let[d,f]=(0,C.useState)(e?.timezone??_f.timezone),[p,m]=(0,C.useState)(jf(e?.activeHoursStart??_f.activeHoursStart)),[h,g]=(0,C.useState)(jf(e?.activeHoursEnd??_f.activeHoursEnd)),[_,v]=(0,C.useState)(String(e?.minGapMinutes??_f.minGapMinutes)),[y,b]=(0,C.useState)(e?.defaultReminderMode??`sm2`),[x,S]=(0,C.useState)(e?.dailyReviewLimit?String(e.dailyReviewLimit):``),[w,T]=(0,C.useState)(e?.dailyNewCardLimit?String(e.dailyNewCardLimit):``),[E,D]=(0,C.useState)(e?lp(e):null),[O,ee]=(0,C.useState)(cp(e?.weeklyReportWeekday)),[k,A]=(0,C.useState)(String(e?.leechThreshold??_f.leechThreshold));(0,C.useEffect)(()=>{e&&(D(lp(e)),S(e.dailyReviewLimit?String(e.dailyReviewLimit):``),T(e.dailyNewCardLimit?String(e.dailyNewCardLimit):``),ee(cp(e.weeklyReportWeekday)),A(String(e.leechThreshold??_f.leechThreshold)),f(e.timezone),m(jf(e.activeHoursStart)),g(jf(e.activeHoursEnd)),v(String(e.minGapMinutes)),b(e.defaultReminderMode??`sm2`))},[e]);let j=()=>{let e=Mf(p),t=Mf(h),n=Number(_);if(e===null||t===null||e>=t||!Number.isInteger(n)||n<1||n>360||!d.trim()){$(`Проверьте часы активности и интервал между напоминаниями`);return}let i=E?E.map(e=>{if(!e.enabled)return null;let t=Mf(e.start),n=Mf(e.end);return t!==null&&n!==null&&t<n?{start:t,end:n}:void 0}):null,a=x.trim()?Number(x):null,o=w.trim()?Number(w):null;if([a,o].some(e=>e!==null&&(!Number.isInteger(e)||e<1||e>1e3))){$(`Лимит в день — число от 1 до 1000 или пустое поле`);return}let s=Number(k);if(!Number.isInteger(s)||s<2||s>100){$(`Порог трудной карточки — число от 2 до 100`);return}if(i&&(i.includes(void 0)||!i.some(Boolean))){$(`Проверьте часы по дням недели: хотя бы один день должен быть включён`);return}r({timezone:d.trim(),activeHoursStart:e,activeHoursEnd:t,minGapMinutes:n,defaultReminderMode:y,weekdayHours:i,dailyReviewLimit:a,dailyNewCardLimit:o,weeklyReportWeekday:O===`off`?null:Number(O),leechThreshold:s}).catch(e=>{$(e instanceof Error?e.message:`Не удалось сохранить настройки`)})},M=(e,t)=>{D(n=>n?.map((n,r)=>r===e?{...n,...t}:n)??null)};return(0,L.jsxs)(Q,{className:`settings-panel`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Доставка напоминаний`}),(0,L.jsx)(`p`,{children:`Planner выбирает ближайший свободный слот внутри этих часов.`})]}),e?(0,L.jsxs)(kd,{tone:`muted`,children:[jf(e.activeHoursStart),`-`,jf(e.activeHoursEnd)]}):null]}),t?(0,L.jsx)(`p`,{className:`settings-error`,children:t}):null,(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Часовой пояс`}),(0,L.jsx)(Od,{value:d,onChange:e=>f(e.target.value),placeholder:`Asia/Tbilisi`})]}),(0,L.jsxs)(`div`,{className:`settings-time-grid`,children:[(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`С`}),(0,L.jsx)(Od,{type:`time`,value:p,onChange:e=>m(e.target.value)})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`До`}),(0,L.jsx)(Od,{type:`time`,value:h,onChange:e=>g(e.target.value)})]})]}),(0,L.jsx)(Z,{variant:`outline`,onClick:()=>{D(e=>e?null:Array.from({length:7},()=>({enabled:!0,start:p,end:h})))},children:E?`Одинаковые часы каждый день`:`Разные часы по дням недели`}),E?yf.map(({index:e,label:t})=>{let n=E[e];return n?(0,L.jsxs)(`div`,{className:`weekday-row`,children:[(0,L.jsxs)(`label`,{className:`weekday-toggle`,children:[(0,L.jsx)(`input`,{type:`checkbox`,checked:n.enabled,onChange:t=>M(e,{enabled:t.target.checked})}),(0,L.jsx)(`span`,{children:t})]}),(0,L.jsx)(Od,{type:`time`,disabled:!n.enabled,value:n.start,onChange:t=>M(e,{start:t.target.value})}),(0,L.jsx)(Od,{type:`time`,disabled:!n.enabled,value:n.end,onChange:t=>M(e,{end:t.target.value})})]},e):null}):null,(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Минимум между напоминаниями, мин`}),(0,L.jsx)(Od,{type:`number`,min:1,max:360,value:_,onChange:e=>v(e.target.value)})]}),(0,L.jsxs)(`div`,{className:`settings-time-grid`,children:[(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Повторений в день`}),(0,L.jsx)(Od,{type:`number`,min:1,max:1e3,value:x,placeholder:`без лимита`,onChange:e=>S(e.target.value)})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Новых карточек в день`}),(0,L.jsx)(Od,{type:`number`,min:1,max:1e3,value:w,placeholder:`без лимита`,onChange:e=>T(e.target.value)})]})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Алгоритм для новых карточек`}),(0,L.jsxs)(Pd,{value:y,onValueChange:e=>b(e),children:[(0,L.jsx)(Id,{children:(0,L.jsx)(Fd,{})}),(0,L.jsxs)(Ld,{children:[(0,L.jsx)(Rd,{value:`sm2`,children:`SM-2 интервалы`}),(0,L.jsx)(Rd,{value:`fsrs`,children:`FSRS — интервал по сложности карточки`})]})]})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Отчёт за неделю`}),(0,L.jsxs)(Pd,{value:O,onValueChange:ee,children:[(0,L.jsx)(Id,{children:(0,L.jsx)(Fd,{})}),(0,L.jsxs)(Ld,{children:[yf.map(({index:e,label:t})=>(0,L.jsxs)(Rd,{value:String(e),children:[t,` — в начале активных часов`]},e)),(0,L.jsx)(Rd,{value:`off`,children:`Не присылать`})]})]})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Трудная карточка после «Снова», раз`}),(0,L.jsx)(Od,{type:`number`,min:2,max:100,value:k,onChange:e=>A(e.target.value)})]}),(0,L.jsx)(Z,{disabled:n,onClick:j,children:`Сохранить настройки`}),(0,L.jsx)(dp,{pause:i,saving:a,onDoNotDisturb:o,onVacation:s}),(0,L.jsx)(fp,{digest:c,saving:l,onSave:u})]})}function dp({pause:e,saving:t,onDoNotDisturb:n,onVacation:r}){let[i,a]=(0,C.useState)(``),[o,s]=(0,C.useState)(String(e?.vacationSpreadDays??vf.vacationSpreadDays));(0,C.useEffect)(()=>{e&&s(String(e.vacationSpreadDays))},[e]);let c=!!(e?.doNotDisturbUntil&&Date.parse(e.doNotDisturbUntil)>Date.now()),l=!!e?.vacationSince,u=e=>$(e instanceof Error?e.message:`Не удалось обновить паузу`),d=e=>{n(new Date(Date.now()+e*60*6e4).toISOString()).catch(u)},f=()=>{let e=Number(o);if(!Number.isInteger(e)||e<1||e>14){$(`Распределить можно на 1–14 дней`);return}if(l){r({enabled:!1,spreadDays:e}).catch(u);return}let t=i.trim()?Number(i):null;if(t!==null&&(!Number.isInteger(t)||t<1||t>365)){$(`Отпуск — от 1 до 365 дней или пустое поле, чтобы вернуться вручную`);return}let n=null;if(t){let e=new Date;e.setHours(0,0,0,0),e.setDate(e.getDate()+t),n=e.toISOString()}r({enabled:!0,until:n,spreadDays:e}).catch(u)},p=l?e?.vacationUntil?`Отпуск до ${wf(e.vacationUntil)}`:`Отпуск, пока вы не вернётесь`:c?`Не беспокоить до ${wf(e?.doNotDisturbUntil)}`:`Напоминания приходят как обычно.`;return(0,L.jsxs)(`div`,{className:`settings-subsection`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Пауза`}),(0,L.jsx)(`p`,{children:p})]}),l||c?(0,L.jsx)(kd,{tone:`muted`,children:`на паузе`}):null]}),(0,L.jsx)(`span`,{className:`settings-label`,children:`Не беспокоить`}),(0,L.jsx)(`div`,{className:`settings-action-grid`,children:[1,3,12].map(e=>(0,L.jsxs)(Z,{variant:`outline`,disabled:t,onClick:()=>d(e),children:[e,` ч`]},e))}),c?(0,L.jsx)(Z,{variant:`ghost`,disabled:t,onClick:()=>void n(null).catch(u),children:`Выключить «Не беспокоить»`}):null,(0,L.jsxs)(`div`,{className:`settings-time-grid`,children:[l?null:(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Отпуск, дней`}),(0,L.jsx)(Od,{type:`number`,min:1,max:365,value:i,placeholder:`без даты`,onChange:e=>a(e.target.value)})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Распределить накопившееся на, дней`}),(0,L.jsx)(Od,{type:`number`,min:1,max:14,value:o,onChange:e=>s(e.target.value)})]})]}),(0,L.jsx)(Z,{variant:l?`default`:`outline`,disabled:t,onClick:f,children:l?`Вернуться из отпуска`:`Уйти в отпуск`})]})}function fp({digest:e,saving:t,onSave:n}){let[r,i]=(0,C.useState)(jf(e?.sendAtMinutes??540));(0,C.useEffect)(()=>{e&&i(jf(e.sendAtMinutes))},[e]);let a=e=>$(e instanceof Error?e.message:`Не удалось сохранить сводку`);return(0,L.jsxs)(`div`,{className:`settings-subsection`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Сводка`}),(0,L.jsx)(`p`,{children:e?`Все повторения дня приходят одним сообщением в ${jf(e.sendAtMinutes)}.`:`Каждое повторение приходит отдельным сообщением.`})]}),e?(0,L.jsx)(kd,{tone:`muted`,children:`сводка`}):null]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Время сводки`}),(0,L.jsx)(Od,{type:`time`,value:r,onChange:e=>i(e.target.value)})]}),(0,L.jsxs)(`div`,{className:`settings-action-grid`,children:[(0,L.jsx)(Z,{variant:e?`outline`:`default`,disabled:t,onClick:()=>{let e=Mf(r);if(e===null){$(`Укажите время сводки`);return}n(e).catch(a)},children:e?`Изменить время`:`Присылать сводкой`}),e?(0,L.jsx)(Z,{variant:`ghost`,disabled:t,onClick:()=>void n(null).catch(a),children:`По одному сообщению`}):null]})]})}function pp({exportingFormat:e,onExport:t}){let n=[{value:`json`,label:`JSON`},{value:`csv`,label:`CSV`},{value:`anki`,label:`Anki`}],r=e=>{t(e).catch(e=>{$(e instanceof Error?e.message:`Не удалось выгрузить данные`)})};return(0,L.jsxs)(Q,{className:`settings-panel`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Экспорт`}),(0,L.jsx)(`p`,{children:`Карточки, история напоминаний, бэклог и ваши курсы. Медиа доступны по ссылкам 7 дней.`})]}),(0,L.jsx)(ae,{size:20})]}),(0,L.jsx)(`div`,{className:`settings-action-grid`,children:n.map(t=>(0,L.jsx)(Z,{variant:`outline`,disabled:e!==null,onClick:()=>r(t.value),children:e===t.value?`…`:t.label},t.value))})]})}function mp({preview:e,error:t,busyKey:n,onPreview:r,onApply:i,onReset:a}){let[o,s]=(0,C.useState)(`7`),[c,l]=(0,C.useState)(`30`),u=n===`rebalance:preview`,d=n===`rebalance:apply`;return(0,L.jsxs)(`div`,{className:`balance-stack`,children:[(0,L.jsxs)(Q,{className:`balance-controls`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Балансировка напоминаний`}),(0,L.jsx)(`p`,{children:`Сначала строит визуальный вариант. Ничего не меняет без подтверждения.`})]}),(0,L.jsx)(j,{size:20})]}),(0,L.jsxs)(`div`,{className:`settings-time-grid`,children:[(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Период`}),(0,L.jsxs)(Pd,{value:o,onValueChange:s,children:[(0,L.jsx)(Id,{children:(0,L.jsx)(Fd,{})}),(0,L.jsxs)(Ld,{children:[(0,L.jsx)(Rd,{value:`7`,children:`7 дней`}),(0,L.jsx)(Rd,{value:`14`,children:`14 дней`}),(0,L.jsx)(Rd,{value:`30`,children:`30 дней`})]})]})]}),(0,L.jsxs)(`label`,{className:`settings-field`,children:[(0,L.jsx)(`span`,{children:`Шаг`}),(0,L.jsxs)(Pd,{value:c,onValueChange:l,children:[(0,L.jsx)(Id,{children:(0,L.jsx)(Fd,{})}),(0,L.jsxs)(Ld,{children:[(0,L.jsx)(Rd,{value:`15`,children:`15 минут`}),(0,L.jsx)(Rd,{value:`30`,children:`30 минут`}),(0,L.jsx)(Rd,{value:`60`,children:`1 час`})]})]})]})]}),t?(0,L.jsx)(`p`,{className:`settings-error`,children:t}):null,(0,L.jsxs)(`div`,{className:`toolbar-actions`,children:[(0,L.jsx)(Z,{disabled:u||d,onClick:()=>{r({horizonDays:Number(o),bucketMinutes:Number(c)}).catch(e=>{$(e instanceof Error?e.message:`Не удалось построить план`)})},children:`Построить вариант`}),e?(0,L.jsx)(Z,{variant:`ghost`,disabled:u||d,onClick:a,children:`Сбросить`}):null]})]}),e?null:(0,L.jsx)(yp,{title:`Плана пока нет`,body:`Постройте вариант, чтобы увидеть распределение до и после.`}),e?(0,L.jsxs)(L.Fragment,{children:[(0,L.jsxs)(`div`,{className:`balance-summary-grid`,children:[(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Всего`}),(0,L.jsx)(`strong`,{children:e.metrics.total})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Перенесено`}),(0,L.jsx)(`strong`,{children:e.metrics.moved})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Пик до`}),(0,L.jsx)(`strong`,{children:e.metrics.maxBucketBefore})]}),(0,L.jsxs)(Q,{className:`stat-card`,children:[(0,L.jsx)(`span`,{children:`Пик после`}),(0,L.jsx)(`strong`,{children:e.metrics.maxBucketAfter})]})]}),(0,L.jsx)(hp,{preview:e}),(0,L.jsxs)(Q,{className:`balance-diff-panel`,children:[(0,L.jsxs)(`div`,{className:`settings-heading`,children:[(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`h2`,{children:`Изменения`}),(0,L.jsxs)(`p`,{children:[`Средний сдвиг `,e.metrics.averageDeltaMinutes,` мин, максимум `,e.metrics.maxDeltaMinutes,` мин.`]})]}),(0,L.jsxs)(kd,{tone:`muted`,children:[e.metrics.conflictCountBefore,` → `,e.metrics.conflictCountAfter]})]}),e.changes.filter(e=>e.deltaMinutes!==0).length===0?(0,L.jsx)(`p`,{className:`meta-text`,children:`Текущее расписание уже выглядит ровно для выбранного периода.`}):(0,L.jsx)(`div`,{className:`balance-change-list`,children:e.changes.filter(e=>e.deltaMinutes!==0).slice(0,12).map(e=>(0,L.jsxs)(`div`,{className:`balance-change-row`,children:[(0,L.jsx)(`p`,{children:e.contentPreview||`Без текста`}),(0,L.jsxs)(`span`,{children:[wf(e.beforeScheduledAt),` → `,wf(e.afterScheduledAt)]})]},e.jobId))})]}),(0,L.jsxs)(`div`,{className:`balance-actions`,children:[(0,L.jsx)(Z,{disabled:d||e.metrics.moved===0,onClick:i,children:`Применить`}),(0,L.jsx)(Z,{variant:`outline`,disabled:d,onClick:a,children:`Отклонить`})]})]}):null]})}function hp({preview:e}){let t=Math.max(e.metrics.maxBucketBefore,e.metrics.maxBucketAfter,1);return(0,L.jsxs)(`div`,{className:`heatmap-comparison`,children:[(0,L.jsx)(gp,{title:`До`,heatmap:e.heatmap,matrix:e.heatmap.before,limitHit:e.heatmap.limitHitBefore,maxCount:t}),(0,L.jsx)(gp,{title:`После`,heatmap:e.heatmap,matrix:e.heatmap.after,limitHit:e.heatmap.limitHitAfter,maxCount:t})]})}function gp({title:e,heatmap:t,matrix:n,limitHit:r,maxCount:i}){return(0,L.jsxs)(Q,{className:`heatmap-panel`,children:[(0,L.jsxs)(`div`,{className:`heatmap-title`,children:[(0,L.jsx)(`h2`,{children:e}),(0,L.jsxs)(kd,{tone:`muted`,children:[`max `,_p(n)]})]}),(0,L.jsxs)(`div`,{className:`heatmap-grid`,style:{gridTemplateColumns:`44px repeat(${t.days.length}, minmax(24px, 1fr))`},children:[(0,L.jsx)(`span`,{}),t.dayLabels.map((e,t)=>r?.[t]?(0,L.jsx)(`b`,{className:`limit-hit`,title:`Дневной лимит исчерпан`,children:e},e):(0,L.jsx)(`b`,{children:e},e)),t.slots.map((e,r)=>(0,L.jsxs)(C.Fragment,{children:[(0,L.jsx)(`span`,{children:e},`${e}-label`),t.days.map((t,a)=>{let o=n[r]?.[a]||0,s=o?Math.max(.18,o/i):0;return(0,L.jsx)(`i`,{title:`${t} ${e}: ${o}`,style:{"--heat":String(s)},children:o||``},`${t}-${e}`)})]},e))]})]})}function _p(e){return e.reduce((e,t)=>Math.max(e,...t),0)}function vp(e){return e.split(/\n\s*\n/g).map(e=>e.trim()).filter(Boolean).map(e=>{let t=e.split(`
 `).map(e=>e.trim()).filter(Boolean),n=t[0]??``;return{kind:`material`,title:n,body:t.slice(1).join(`
-`)||n}}).filter(e=>e.title&&e.body).slice(0,100)}function jf({title:e,body:t}){return(0,L.jsxs)(Q,{className:`state-block`,children:[(0,L.jsx)(`h2`,{children:e}),(0,L.jsx)(`p`,{children:t})]})}function Mf({card:e}){return(0,L.jsx)(Pf,{rows:[[`Создана`,Qd(e.createdAt)],[`Напоминание`,Qd(e.lastNotificationAt)],[`Ожидание оценки`,Qd(e.awaitingGradeSince)],[`Последний повтор`,Qd(e.lastReviewedAt)]].filter(([,e])=>e!==`—`)})}function Nf({card:e}){return(0,L.jsx)(Pf,{rows:[[`Повторы`,e.repetition],[`Статус`,Ud[e.status]],[`Создана`,Qd(e.createdAt)],[`Обновлена`,Qd(e.updatedAt)],[`Чат`,e.sourceChatId],[`Сообщение`,e.sourceMessageId]]})}function Pf({rows:e}){return(0,L.jsx)(`div`,{className:`kv-list`,children:e.map(([e,t])=>(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{children:e}),(0,L.jsx)(`b`,{children:String(t)})]},e))})}function Ff(e){let t=of(new Date);return e.reduce((e,n)=>{if(e.total+=1,n.status===`awaiting_grade`&&(e.awaiting+=1),n.nextReviewAt){let r=of(n.nextReviewAt);r===t&&(e.today+=1),r<t&&(e.overdue+=1)}return e},{total:0,today:0,overdue:0,awaiting:0})}function If(e){let t=Ff(e);return{total:e.length,dueToday:t.today,pending:e.filter(e=>e.status===`pending`).length,learning:e.filter(e=>e.status===`learning`).length,awaitingGrade:e.filter(e=>e.status===`awaiting_grade`).length,archived:e.filter(e=>e.status===`archived`).length}}function Lf(e){return e.reduce((e,t)=>{if(!t.nextReviewAt)return e;let n=of(t.nextReviewAt);return e[n]=[...e[n]||[],t],e},{})}async function Rf(e,t){await cf(e)&&Xd(t)}async function zf(e,t,n,r,i,a){let o=n.length?n:Kd;if(e.includes(`/me`))return{data:{userId:`demo`,ownerTools:!0}};if(e.endsWith(`/api/miniapp/reminders`)&&t.method===`POST`){let e=typeof t.body==`string`?JSON.parse(t.body):{},n=String(e.text??`Напоминание`),i=n.toLowerCase(),a=/(каждый|ежедневно|день рождения|\bдр\b)/i.test(i)?`schedule`:`one_time`,o=new Date,s=new Date(o.getTime()+(a===`schedule`?24:2)*60*6e4).toISOString(),c={id:`demo-reminder-${Date.now()}`,sourceChatId:`demo`,sourceMessageId:0,contentType:`text`,contentPreview:n.replace(/\s+/g,` `).trim(),status:`learning`,repetition:0,nextReviewAt:a===`schedule`?s:null,lastReviewedAt:null,pendingChannelId:null,pendingChannelMessageId:null,baseChannelMessageId:null,awaitingGradeSince:null,lastNotificationAt:null,lastNotificationReason:null,lastNotificationMessageId:null,createdAt:o.toISOString(),updatedAt:o.toISOString()};return r(e=>[c,...e.length?e:Kd]),{data:{card:c,job:null,plan:a===`schedule`?{mode:a,kind:`general`,title:c.contentPreview||`Напоминание`,ruleText:`Регулярно`,nextReviewAt:s}:{mode:a,kind:`general`,title:c.contentPreview||`Напоминание`,remindAt:s}}}}if(e.includes(`/courses/`)&&e.includes(`/start`)){let t=e.match(/\/courses\/([^/]+)\/start/)?.[1]??``;return a(e=>(e.length?e:Jd).map(e=>e.id===t?{...e,activeEnrollmentCount:e.activeEnrollmentCount+1,updatedAt:new Date().toISOString()}:e)),{data:{completed:!1}}}if(e.endsWith(`/api/miniapp/courses`)&&t.method===`POST`){let e=typeof t.body==`string`?JSON.parse(t.body):{},n={id:`demo-course-${Date.now()}`,ownerUserId:`demo`,title:String(e.title??`Новый курс`),description:typeof e.description==`string`?e.description:null,status:`active`,stepCount:Array.isArray(e.steps)?e.steps.length:0,activeEnrollmentCount:0,completedEnrollmentCount:0,createdAt:new Date().toISOString(),updatedAt:new Date().toISOString()};return a(e=>[n,...e.length?e:Jd]),{data:{course:n,steps:e.steps??[]}}}if(e.includes(`/courses`)){let e=i.length?i:Jd;return i.length||a(e),{data:e}}if(e.includes(`/queue/cards/`))return{ok:!0};if(e.includes(`/queue`)){let e=Bf(o);return{data:{items:e,count:e.length,next:e[0]??null}}}if(e.includes(`/stats`))return{data:If(o)};if(e.includes(`/settings/reminders`))return t.method===`POST`&&typeof t.body==`string`?{data:JSON.parse(t.body)}:{data:qd};if(e.includes(`/reminders/rebalance/preview`)){let e=typeof t.body==`string`?JSON.parse(t.body):{};return{data:Vf(e.horizonDays??7,e.bucketMinutes??30)}}if(e.includes(`/reminders/rebalance/apply`))return{data:{updated:3}};if(e.includes(`/status`)||e.includes(`/send-reminder`)||e.includes(`/one-time-reminder`))return{ok:!0};let s=e.match(/status=([^&]+)/),c=s?o.filter(e=>e.status===s[1]):o;return n.length||r(o),{data:c}}function Bf(e){return e.filter(e=>e.status===`awaiting_grade`||e.status===`learning`).slice(0,6).map((e,t)=>({id:`demo-queue-${e.id}`,kind:e.status===`awaiting_grade`?`awaiting_review`:`scheduled_review`,card:e,job:e.status===`awaiting_grade`?{id:`demo-job-${e.id}`,cardId:e.id,userId:e.userId??`demo`,kind:`review`,status:`awaiting_action`,dueAt:e.nextReviewAt??new Date().toISOString(),scheduledAt:e.nextReviewAt??new Date().toISOString(),sentAt:e.awaitingGradeSince,completedAt:null}:null,availableAt:e.awaitingGradeSince??e.nextReviewAt??e.updatedAt,isDue:t===0||e.status===`awaiting_grade`}))}function Vf(e,t){let n=Array.from({length:Number(e)||7},(e,t)=>{let n=new Date;return n.setDate(n.getDate()+t),of(n)}),r=n.map(e=>new Date(`${e}T00:00:00`).toLocaleDateString(`ru`,{day:`numeric`,month:`short`})),i=[`10:00`,`10:30`,`11:00`,`11:30`,`12:00`,`12:30`,`13:00`,`13:30`],a=i.map((e,t)=>n.map((e,n)=>n===0&&t===4?5:n===1&&t===4?3:t===1&&n===2?2:0)),o=i.map((e,t)=>n.map((e,n)=>+((t+n)%5==0))),s=new Date().toISOString();return{planToken:`demo`,generatedAt:s,horizonDays:Number(e)||7,bucketMinutes:Number(t)||30,settings:qd,range:{start:s,end:s},metrics:{total:10,moved:8,maxBucketBefore:5,maxBucketAfter:1,conflictCountBefore:5,conflictCountAfter:0,averageDeltaMinutes:90,maxDeltaMinutes:180},heatmap:{days:n,dayLabels:r,slots:i,before:a,after:o},changes:[{id:`demo-1`,jobId:`demo-1`,cardId:Kd[0].id,contentPreview:Kd[0].contentPreview,dueAt:s,beforeScheduledAt:s,afterScheduledAt:new Date(Date.now()+60*6e4).toISOString(),deltaMinutes:60}]}}(0,pe.createRoot)(document.getElementById(`root`)).render((0,L.jsx)(C.StrictMode,{children:(0,L.jsx)(lf,{})}));
\ No newline at end of file
+`)||n}}).filter(e=>e.title&&e.body).slice(0,100)}function yp({title:e,body:t}){return(0,L.jsxs)(Q,{className:`state-block`,children:[(0,L.jsx)(`h2`,{children:e}),(0,L.jsx)(`p`,{children:t})]})}function bp({card:e,logs:t,error:n}){return n?(0,L.jsx)(`p`,{className:`meta-text`,children:`Не удалось загрузить историю.`}):t?(0,L.jsxs)(`div`,{className:`kv-list`,children:[t.map(e=>{let t=Ef(e.latencyMs),n=`${Tf(e.previousIntervalDays)} → ${Tf(e.nextIntervalDays)}`;return(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{children:wf(e.reviewedAt)}),(0,L.jsxs)(`b`,{children:[pf[e.grade]??e.grade,` · `,n,t?` · ответ за ${t}`:``]})]},e.id)}),(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{children:wf(e.createdAt)}),(0,L.jsx)(`b`,{children:`Карточка создана`})]})]}):(0,L.jsx)(`p`,{className:`meta-text`,children:`Загружаем историю...`})}function xp({revisions:e,error:t}){return t?(0,L.jsx)(`p`,{className:`meta-text`,children:`Не удалось загрузить версии.`}):e?e.length?(0,L.jsx)(`div`,{className:`kv-list`,children:e.map(e=>(0,L.jsxs)(`div`,{children:[(0,L.jsxs)(`span`,{children:[wf(e.createdAt),` · `,ff[e.source]??e.source]}),(0,L.jsx)(`b`,{children:e.contentPreview||`[${e.contentType}]`})]},e.id))}):(0,L.jsx)(`p`,{className:`meta-text`,children:`Карточку ещё не редактировали.`}):(0,L.jsx)(`p`,{className:`meta-text`,children:`Загружаем версии...`})}function Sp({card:e}){return(0,L.jsx)(Cp,{rows:[[`Повторы`,e.repetition],[`Статус`,of[e.status]],[`Создана`,Cf(e.createdAt)],[`Обновлена`,Cf(e.updatedAt)],[`Чат`,e.sourceChatId],[`Сообщение`,e.sourceMessageId]]})}function Cp({rows:e}){return(0,L.jsx)(`div`,{className:`kv-list`,children:e.map(([e,t])=>(0,L.jsxs)(`div`,{children:[(0,L.jsx)(`span`,{children:e}),(0,L.jsx)(`b`,{children:String(t)})]},e))})}function wp(e){let t=Nf(new Date);return e.reduce((e,n)=>{if(e.total+=1,n.status===`awaiting_grade`&&(e.awaiting+=1),n.nextReviewAt){let r=Nf(n.nextReviewAt);r===t&&(e.today+=1),r<t&&(e.overdue+=1)}return e},{total:0,today:0,overdue:0,awaiting:0})}function Tp(e){let t=wp(e);return{total:e.length,dueToday:t.today,pending:e.filter(e=>e.status===`pending`).length,learning:e.filter(e=>e.status===`learning`).length,awaitingGrade:e.filter(e=>e.status===`awaiting_grade`).length,archived:e.filter(e=>e.status===`archived`).length}}function Ep(e){return e.reduce((e,t)=>{if(!t.nextReviewAt)return e;let n=Nf(t.nextReviewAt);return e[n]=[...e[n]||[],t],e},{})}async function Dp(e,t){await Rf(e)&&$(t)}async function Op(e,t,n,r,i,a){let o=n.length?n:mf;if(e.includes(`/me`))return{data:{userId:`demo`,ownerTools:!0}};if(e.endsWith(`/api/miniapp/import`)&&t.method===`POST`)return{ok:!0,data:{format:`csv`,imported:0,skipped:0,scheduled:0}};if(e.endsWith(`/api/miniapp/reminders`)&&t.method===`POST`){let e=typeof t.body==`string`?JSON.parse(t.body):{},n=String(e.text??`Напоминание`),i=n.toLowerCase(),a=/(каждый|ежедневно|день рождения|\bдр\b)/i.test(i)?`schedule`:`one_time`,o=new Date,s=new Date(o.getTime()+(a===`schedule`?24:2)*60*6e4).toISOString(),c={id:`demo-reminder-${Date.now()}`,sourceChatId:`demo`,sourceMessageId:0,contentType:`text`,contentPreview:n.replace(/\s+/g,` `).trim(),status:`learning`,repetition:0,nextReviewAt:a===`schedule`?s:null,lastReviewedAt:null,pendingChannelId:null,pendingChannelMessageId:null,baseChannelMessageId:null,awaitingGradeSince:null,lastNotificationAt:null,lastNotificationReason:null,lastNotificationMessageId:null,createdAt:o.toISOString(),updatedAt:o.toISOString()};return r(e=>[c,...e.length?e:mf]),{data:{card:c,job:null,plan:a===`schedule`?{mode:a,kind:`general`,title:c.contentPreview||`Напоминание`,ruleText:`Регулярно`,nextReviewAt:s}:{mode:a,kind:`general`,title:c.contentPreview||`Напоминание`,remindAt:s}}}}if(e.includes(`/courses/`)&&e.includes(`/start`)){let t=e.match(/\/courses\/([^/]+)\/start/)?.[1]??``;return a(e=>(e.length?e:bf).map(e=>e.id===t?{...e,activeEnrollmentCount:e.activeEnrollmentCount+1,updatedAt:new Date().toISOString()}:e)),{data:{completed:!1}}}if(e.endsWith(`/api/miniapp/courses`)&&t.method===`POST`){let e=typeof t.body==`string`?JSON.parse(t.body):{},n={id:`demo-course-${Date.now()}`,ownerUserId:`demo`,title:String(e.title??`Новый курс`),description:typeof e.description==`string`?e.description:null,status:`active`,stepCount:Array.isArray(e.steps)?e.steps.length:0,activeEnrollmentCount:0,completedEnrollmentCount:0,createdAt:new Date().toISOString(),updatedAt:new Date().toISOString()};return a(e=>[n,...e.length?e:bf]),{data:{course:n,steps:e.steps??[]}}}if(e.includes(`/courses`)){let e=i.length?i:bf;return i.length||a(e),{data:e}}if(e.includes(`/cards/search`)){let t=(new URLSearchParams(e.split(`?`)[1]??``).get(`q`)??``).toLowerCase().split(/\s+/).filter(Boolean);return{data:o.filter(e=>t.every(t=>(e.contentPreview||``).toLowerCase().includes(t)))}}if(e.endsWith(`/tags`)&&t.method===`PUT`){let n=e.match(/\/cards\/([^/]+)\/tags/)?.[1]??``,i=typeof t.body==`string`?JSON.parse(t.body):{},a=Array.isArray(i.tags)?i.tags.map(e=>String(e).toLowerCase()):[],s=o.find(e=>e.id===n),c=s?{...s,tags:a,updatedAt:new Date().toISOString()}:null;return c&&r(o.map(e=>e.id===n?c:e)),{ok:!0,data:c}}if(e.includes(`/decks/`)&&t.method===`PUT`){let n=decodeURIComponent(e.split(`/decks/`)[1]??``),r=typeof t.body==`string`?JSON.parse(t.body):{};return hf[n]=typeof r.dailyLimit==`number`?r.dailyLimit:null,{ok:!0,data:{tag:n,dailyLimit:hf[n]}}}if(e.endsWith(`/decks`))return{data:Ff(o).map(e=>({tag:e,cardCount:o.filter(t=>t.tags?.includes(e)).length,dailyLimit:hf[e]??null,deliveredToday:0}))};if(e.endsWith(`/content`)&&t.method===`PUT`){let n=e.match(/\/cards\/([^/]+)\/content/)?.[1]??``,i=typeof t.body==`string`?JSON.parse(t.body):{},a=o.find(e=>e.id===n),s=a?{...a,contentPreview:String(i.text??``).trim(),updatedAt:new Date().toISOString()}:null;return a&&s&&(gf[n]=[{id:`demo-revision-${Date.now()}`,cardId:n,source:`miniapp`,editedBy:null,contentType:a.contentType,contentPreview:a.contentPreview,createdAt:s.updatedAt},...gf[n]??[]],r(o.map(e=>e.id===n?s:e))),{ok:!0,data:s}}if(e.endsWith(`/revisions`))return{data:gf[e.match(/\/cards\/([^/]+)\/revisions/)?.[1]??``]??[]};if(e.endsWith(`/schedule`)&&t.method===`POST`){let t=e.match(/\/cards\/([^/]+)\/schedule/)?.[1]??``,n=o.find(e=>e.id===t),i=n?{...n,reminderMode:`schedule`,updatedAt:new Date().toISOString()}:null;return i&&r(o.map(e=>e.id===t?i:e)),{ok:!0,data:i}}if(e.includes(`/queue/cards/`))return{ok:!0};if(e.endsWith(`/history`))return{data:[]};if(e.includes(`/queue`)){let t=new URLSearchParams(e.split(`?`)[1]??``).get(`tag`),n=kp(t?o.filter(e=>e.tags?.includes(t)):o);return{data:{items:n,count:n.length,next:n[0]??null}}}if(e.includes(`/stats`))return{data:Tp(o)};if(e.includes(`/settings/reminders`))return t.method===`POST`&&typeof t.body==`string`?{data:JSON.parse(t.body)}:{data:_f};if(e.includes(`/reminders/rebalance/preview`)){let e=typeof t.body==`string`?JSON.parse(t.body):{};return{data:jp(e.horizonDays??7,e.bucketMinutes??30)}}if(e.includes(`/reminders/rebalance/apply`))return{data:{updated:3}};if(e.endsWith(`/leech`)&&t.method===`POST`){let n=e.match(/\/cards\/([^/]+)\/leech/)?.[1]??``,r=typeof t.body==`string`?JSON.parse(t.body):{},i=o.find(e=>e.id===n);if(!i)return{data:null};let a=new Date().toISOString();return{data:{...r.action===`suspend`?{...i,suspendedAt:a,nextReviewAt:null}:r.action===`resume`?{...i,suspendedAt:null,nextReviewAt:a}:r.action===`clear`?{...i,lapses:0,leechAt:null}:{...i,status:`archived`},updatedAt:a}}}if(e.includes(`leech=1`))return{data:o.filter(e=>e.leechAt).sort((e,t)=>(t.lapses??0)-(e.lapses??0))};if(e.includes(`/status`)||e.includes(`/send-reminder`)||e.includes(`/one-time-reminder`))return{ok:!0};let s=e.match(/status=([^&]+)/),c=s?o.filter(e=>e.status===s[1]):o;return n.length||r(o),{data:c}}function kp(e){return e.filter(e=>e.status===`awaiting_grade`||e.status===`learning`).slice(0,6).map((e,t)=>({id:`demo-queue-${e.id}`,kind:e.status===`awaiting_grade`?`awaiting_review`:`scheduled_review`,card:e,job:e.status===`awaiting_grade`?{id:`demo-job-${e.id}`,cardId:e.id,userId:e.userId??`demo`,kind:`review`,status:`awaiting_action`,dueAt:e.nextReviewAt??new Date().toISOString(),scheduledAt:e.nextReviewAt??new Date().toISOString(),sentAt:e.awaitingGradeSince,completedAt:null}:null,availableAt:e.awaitingGradeSince??e.nextReviewAt??e.updatedAt,isDue:t===0||e.status===`awaiting_grade`}))}function Ap(){let e=new Date;return{generatedAt:e.toISOString(),timezone:_f.timezone,historyDays:365,reviewCount:128,streak:{current:6,longest:14,reviewedToday:!0,activeDays:41},grades:[{grade:`again`,count:14,share:.11,retention:.64},{grade:`hard`,count:22,share:.17,retention:.77},{grade:`good`,count:71,share:.55,retention:.9},{grade:`easy`,count:21,share:.16,retention:.95}],trueRetention:[{label:`< 1 дня`,minDays:0,maxDays:1,reviews:30,passed:26,retention:.87},{label:`1–3 дня`,minDays:1,maxDays:3,reviews:41,passed:36,retention:.88},{label:`3–7 дней`,minDays:3,maxDays:7,reviews:28,passed:24,retention:.86},{label:`1–3 недели`,minDays:7,maxDays:21,reviews:19,passed:15,retention:.79},{label:`3 недели – 2 месяца`,minDays:21,maxDays:60,reviews:10,passed:7,retention:.7},{label:`2+ месяца`,minDays:60,maxDays:null,reviews:0,passed:0,retention:null}],latency:{averageMs:9400,medianMs:6200,samples:96},forecast:Array.from({length:30},(t,n)=>{let r=new Date(e);return r.setDate(r.getDate()+n),{date:Nf(r),due:n===0?7:n*7%5}})}}function jp(e,t){let n=Array.from({length:Number(e)||7},(e,t)=>{let n=new Date;return n.setDate(n.getDate()+t),Nf(n)}),r=n.map(e=>new Date(`${e}T00:00:00`).toLocaleDateString(`ru`,{day:`numeric`,month:`short`})),i=[`10:00`,`10:30`,`11:00`,`11:30`,`12:00`,`12:30`,`13:00`,`13:30`],a=i.map((e,t)=>n.map((e,n)=>n===0&&t===4?5:n===1&&t===4?3:t===1&&n===2?2:0)),o=i.map((e,t)=>n.map((e,n)=>+((t+n)%5==0))),s=new Date().toISOString();return{planToken:`demo`,generatedAt:s,horizonDays:Number(e)||7,bucketMinutes:Number(t)||30,settings:_f,range:{start:s,end:s},metrics:{total:10,moved:8,maxBucketBefore:5,maxBucketAfter:1,conflictCountBefore:5,conflictCountAfter:0,averageDeltaMinutes:90,maxDeltaMinutes:180},heatmap:{days:n,dayLabels:r,slots:i,before:a,after:o,limitHitBefore:n.map((e,t)=>t===0),limitHitAfter:n.map(()=>!1)},changes:[{id:`demo-1`,jobId:`demo-1`,cardId:mf[0].id,contentPreview:mf[0].contentPreview,dueAt:s,beforeScheduledAt:s,afterScheduledAt:new Date(Date.now()+60*6e4).toISOString(),deltaMinutes:60}]}}(0,ve.createRoot)(document.getElementById(`root`)).render((0,L.jsx)(C.StrictMode,{children:(0,L.jsx)(zf,{})}));
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { readFile } from 'node:fs/promises';
+import { config as loadEnv } from 'dotenv';
+import { startTelegramStandIn } from '../src/telegramStandIn';
+import { parseUpdatesFile, replayTelegramUpdates } from '../src/telegramWebhook';
+
+loadEnv();
+
+const USAGE = `Usage:
+  npm run telegram:stand-in -- serve [--port 8081]
+  npm run telegram:stand-in -- replay FILE [--url URL]
+
+Modes:
+  serve    Start a local stand-in for the Telegram Bot API and print every call.
+           Run the bot with TELEGRAM_API_ROOT=http://127.0.0.1:8081 and BOT_TRANSPORT=webhook.
+  replay   POST updates from FILE (JSON array or JSONL) to the bot webhook with
+           TELEGRAM_WEBHOOK_SECRET in the secret token header.
+
+Options:
+  --port N     Stand-in port. Default: 8081.
+  --url URL    Webhook URL. Default: http://localhost:$PORT$TELEGRAM_WEBHOOK_PATH.
+  --help       Show this help.
+
+Example:
+  npm run telegram:stand-in -- replay scripts/fixtures/telegram-updates.sample.jsonl
+`;
+
+const readValueArg = (args: string[], index: number, name: string) => {
+  const current = args[index]!;
+  const inline = current.match(new RegExp(`^${name}=(.+)$`));
+  if (inline) return { value: inline[1]!, consumed: 1 };
+  const next = args[index + 1];
+  if (!next || next.startsWith('--')) {
+    throw new Error(`Missing value for ${name}`);
+  }
+  return { value: next, consumed: 2 };
+};
+
+const parseOptions = () => {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let port = 8081;
+  let url: string | null = null;
+  for (let index = 0; index < args.length; ) {
+    const arg = args[index]!;
+    if (arg === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (arg.startsWith('--port')) {
+      const { value, consumed } = readValueArg(args, index, '--port');
+      port = Number.parseInt(value, 10);
+      index += consumed;
+      continue;
+    }
+    if (arg.startsWith('--url')) {
+      const { value, consumed } = readValueArg(args, index, '--url');
+      url = value;
+      index += consumed;
+      continue;
+    }
+    if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}\n\n${USAGE}`);
+    }
+    positional.push(arg);
+    index += 1;
+  }
+  const [mode, file] = positional;
+  if (mode !== 'serve' && mode !== 'replay') {
+    throw new Error(USAGE);
+  }
+  return { mode, file, port, url };
+};
+
+const serve = async (port: number) => {
+  const standIn = await startTelegramStandIn({
+    port,
+    onCall: (call) => console.log(JSON.stringify(call)),
+  });
+  console.log(`Telegram Bot API stand-in: ${standIn.apiRoot}`);
+  const stop = () => {
+    void standIn.close().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+};
+
+const replay = async (file: string | undefined, url: string | null) => {
+  if (!file) throw new Error(`replay requires FILE\n\n${USAGE}`);
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET?.trim();
+  if (!secret) throw new Error('Set TELEGRAM_WEBHOOK_SECRET to the value the bot uses');
+  const webhookUrl =
+    url ??
+    `http://localhost:${process.env.PORT || 3000}${process.env.TELEGRAM_WEBHOOK_PATH?.trim() || '/telegram/webhook'}`;
+  const updates = parseUpdatesFile(await readFile(file, 'utf8'));
+  const results = await replayTelegramUpdates({ url: webhookUrl, secret, updates });
+  console.log(JSON.stringify({ url: webhookUrl, replayed: results }, null, 2));
+  if (results.some((result) => result.status !== 200)) process.exit(1);
+};
+
+const main = async () => {
+  const options = parseOptions();
+  if (options.mode === 'serve') {
+    await serve(options.port);
+    return;
+  }
+  await replay(options.file, options.url);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
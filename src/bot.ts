@@ -1,11 +1,18 @@
 import dayjs from 'dayjs';
 import { Context, Markup, Telegraf } from 'telegraf';
-import { Update, Message, InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
+import {
+  Update,
+  Message,
+  MessageEntity,
+  InlineKeyboardMarkup,
+  InlineQueryResult,
+} from 'telegraf/typings/core/types/typegram';
 import { v4 as uuid } from 'uuid';
 import {
   buildChatQueueScope,
   buildUserQueueScope,
   CardStore,
+  DeckRecord,
   ReminderMode,
 } from './db';
 import type { QueueScope } from './db';
@@ -15,10 +22,11 @@ import {
   computeInitialReviewDateForMode,
   computeReview,
   computeReviewWithInterval,
-  GradeKey,
+  parseGradeKey,
 } from './spacedRepetition';
 import {
   buildAdjustKeyboard,
+  buildDigestKeyboard,
   buildOneTimeCalendarKeyboard,
   buildOneTimePickerKeyboard,
   buildOneTimeTimeKeyboard,
@@ -27,12 +35,43 @@ import {
   buildSchedulePickerKeyboard,
   buildReminderManagementKeyboard,
   buildWeekdayPickerKeyboard,
+  LEECH_ACTION_PREFIX,
   REVIEW_ACTIONS,
   CARD_ACTIONS,
 } from './reviewKeyboards';
-import { buildMiniAppCardParam, buildMiniAppDeepLink } from './telegramLinks';
+import { buildMiniAppCardParam, buildMiniAppDeepLink, buildMiniAppViewParam } from './telegramLinks';
 import { getPublicBaseUrl } from './publicUrl';
 import { withDbRetry } from './utils/dbRetry';
+import { importDeck } from './deckImport';
+import { createHouseholdReminderCard, parseHouseholdReminderText } from './householdReminder';
+import { createSpeechTranscriber, SpeechTranscriber } from './transcription';
+import {
+  CardAlbumItem,
+  CardContentPayload,
+  formatPollPreview,
+  serializeCardContentPayload,
+  sliceEntities,
+} from './cardContent';
+import { buildCardFaceEntities, formatRevealedCard, getCardFaces, parseCardFaces } from './cardFaces';
+import { buildLeechReplacementText } from './cardLeeches';
+import { buildEditedCardContent } from './cardEditing';
+import {
+  extractHashtags,
+  formatTags,
+  normalizeTag,
+  parseDeckDailyLimit,
+  parseTagInput,
+} from './cardTags';
+import { buildCardInlineResult, buildSearchTsQuery } from './cardSearch';
+import {
+  formatDeliveryPause,
+  parseDoNotDisturbUntil,
+  parseVacationCommand,
+  vacationUntilAfterDays,
+} from './deliveryPause';
+import { installOutboundQueue, OutboundQueue } from './outboundQueue';
+import { formatDigestSettings, parseDigestCommand } from './reminderDigest';
+import { startOfLocalDay } from './reminderPlanner';
 import {
   PRESET_BY_CODE,
   serializeScheduleRule,
@@ -48,6 +87,9 @@ import {
 import type { OneTimePreset } from './oneTimeReminder';
 
 type TelegrafContext = Context<Update>;
+
+const DECK_FILE_PATTERN = /\.(apkg|csv|tsv|txt)$/i;
+const INLINE_SEARCH_LIMIT = 20;
 type ReplyFn = (text: string, extra?: Parameters<TelegrafContext['reply']>[1]) => Promise<unknown>;
 
 const ACTIONS = {
@@ -84,6 +126,11 @@ const pendingOneTimeInputs = new Map<string, PendingOneTimeInput>();
 // Tracks the most recent pending card per user (for implicit schedule input)
 const recentPendingCards = new Map<string, string>(); // userId → cardId
 
+const SCHEDULE_ENDED_MESSAGE = 'У этого расписания не осталось напоминаний: дата окончания уже прошла.';
+const SCHEDULE_FINISHED_MESSAGE = 'Готово! Расписание закончилось, карточка перенесена в архив';
+const SEVERAL_CARDS_REPLY_MESSAGE =
+  'В этом сообщении несколько карточек, и по ответу не понять, какую менять. Откройте нужную карточку в Mini App или ответьте на её отдельное напоминание.';
+
 const isBacklogOwner = (userId: number | string | undefined) =>
   userId !== undefined && String(userId) === config.backlogOwnerUserId;
 
@@ -93,6 +140,9 @@ const scheduleModeLabel = (mode: ReminderMode, scheduleRule: string | null): str
     if (rule) return scheduleRuleLabel(rule);
     return 'Расписание';
   }
+  if (mode === 'fsrs') {
+    return 'FSRS';
+  }
   return 'SM-2 интервалы';
 };
 
@@ -108,8 +158,19 @@ interface ParsedMessageInfo {
   preview: string | null;
   fileId: string | null;
   fileUniqueId: string | null;
+  payload?: CardContentPayload;
 }
 
+const FILE_CONTENT_TYPES = ['animation', 'document', 'audio', 'voice', 'sticker'] as const;
+
+const FILE_CONTENT_FALLBACK_PREVIEWS: Record<(typeof FILE_CONTENT_TYPES)[number], string> = {
+  animation: '[GIF]',
+  document: '[Файл]',
+  audio: '[Аудио]',
+  voice: '[Голосовое сообщение]',
+  sticker: '[Стикер]',
+};
+
 interface MediaGroupBuffer {
   chatId: number | string;
   userId: number;
@@ -193,15 +254,37 @@ export const normalizeContentPreview = (value: string | null): string | null =>
   return normalized === '' ? null : normalized;
 };
 
+export const parseTextMessageInfo = (text: string, entities?: MessageEntity[]): ParsedMessageInfo => {
+  const preview = normalizeContentPreview(text);
+  const faces = parseCardFaces(preview);
+  // Offsets are kept relative to the trimmed preview, which is the text the card is sent with.
+  const previewEntities = preview
+    ? sliceEntities(entities, text.length - text.trimStart().length, preview.length)
+    : [];
+  const payload: CardContentPayload = {
+    ...(faces ? { faces } : {}),
+    ...(previewEntities.length ? { entities: previewEntities } : {}),
+  };
+  return {
+    contentType: 'text',
+    preview,
+    fileId: null,
+    fileUniqueId: null,
+    ...(Object.keys(payload).length ? { payload } : {}),
+  };
+};
+
+/** The caption as sent, with its formatting, so the card can be rebuilt without the source. */
+const readCaptionPayload = (message: Message): CardContentPayload => {
+  const caption = 'caption' in message && typeof message.caption === 'string' ? message.caption : null;
+  if (!caption?.trim()) return {};
+  const entities = 'caption_entities' in message ? message.caption_entities : undefined;
+  return { caption, ...(entities?.length ? { entities } : {}) };
+};
+
 export const parseMessage = (message: Message): ParsedMessageInfo | null => {
   if ('text' in message && typeof message.text === 'string') {
-    const preview = normalizeContentPreview(message.text);
-    return {
-      contentType: 'text',
-      preview,
-      fileId: null,
-      fileUniqueId: null,
-    };
+    return parseTextMessageInfo(message.text, message.entities);
   }
   if ('photo' in message && Array.isArray(message.photo) && message.photo.length) {
     const photos = message.photo
@@ -242,11 +325,13 @@ export const parseMessage = (message: Message): ParsedMessageInfo | null => {
       photoScore(photo) > photoScore(best) ? photo : best,
     );
     const caption = normalizeContentPreview(message.caption ?? null);
+    const payload = readCaptionPayload(message);
     return {
       contentType: 'photo',
       preview: caption ?? '[Фото]',
       fileId: target.file_id,
       fileUniqueId: target.file_unique_id,
+      ...(Object.keys(payload).length ? { payload } : {}),
     };
   }
   if (
@@ -260,16 +345,106 @@ export const parseMessage = (message: Message): ParsedMessageInfo | null => {
       return null;
     }
     const caption = normalizeContentPreview(message.caption ?? null);
+    const payload = readCaptionPayload(message);
     return {
       contentType: 'video',
       preview: caption ?? '[Видео]',
       fileId: video.file_id,
       fileUniqueId: typeof video.file_unique_id === 'string' ? video.file_unique_id : video.file_id,
+      ...(Object.keys(payload).length ? { payload } : {}),
+    };
+  }
+  if ('poll' in message && message.poll && typeof message.poll === 'object') {
+    const poll = message.poll as {
+      question?: unknown;
+      options?: Array<{ text?: unknown }>;
+      type?: unknown;
+      is_anonymous?: unknown;
+      allows_multiple_answers?: unknown;
+      correct_option_id?: unknown;
+      explanation?: unknown;
+    };
+    const question = typeof poll.question === 'string' ? normalizeContentPreview(poll.question) : null;
+    const options = Array.isArray(poll.options)
+      ? poll.options
+          .map((option) => (typeof option?.text === 'string' ? option.text : ''))
+          .filter(Boolean)
+      : [];
+    if (!question || options.length < 2) {
+      return null;
+    }
+    return {
+      contentType: 'poll',
+      preview: formatPollPreview({ question, options }),
+      fileId: null,
+      fileUniqueId: null,
+      payload: {
+        poll: {
+          question,
+          options,
+          type: poll.type === 'quiz' ? 'quiz' : 'regular',
+          isAnonymous: poll.is_anonymous !== false,
+          allowsMultipleAnswers: poll.allows_multiple_answers === true,
+          correctOptionId: typeof poll.correct_option_id === 'number' ? poll.correct_option_id : null,
+          explanation: typeof poll.explanation === 'string' ? poll.explanation : null,
+        },
+      },
+    };
+  }
+  // `animation` messages also carry a `document` field, so the order below matters.
+  for (const contentType of FILE_CONTENT_TYPES) {
+    if (!(contentType in message)) continue;
+    const media = (message as unknown as Record<string, unknown>)[contentType] as
+      | {
+          file_id?: unknown;
+          file_unique_id?: unknown;
+          title?: unknown;
+          file_name?: unknown;
+          mime_type?: unknown;
+          emoji?: unknown;
+          is_animated?: unknown;
+          is_video?: unknown;
+        }
+      | undefined;
+    if (!media || typeof media !== 'object') return null;
+    if (typeof media.file_id !== 'string' || media.file_id.trim() === '') {
+      return null;
+    }
+    const caption = normalizeContentPreview(
+      'caption' in message && typeof message.caption === 'string' ? message.caption : null,
+    );
+    const title = typeof media.title === 'string' ? normalizeContentPreview(media.title) : null;
+    const fileName = typeof media.file_name === 'string' ? normalizeContentPreview(media.file_name) : null;
+    const emoji = typeof media.emoji === 'string' ? media.emoji : null;
+    const payload: CardContentPayload = {
+      ...(typeof media.mime_type === 'string' ? { mimeType: media.mime_type } : {}),
+      ...(fileName ? { fileName } : {}),
+      ...(emoji ? { emoji } : {}),
+      ...(contentType === 'sticker'
+        ? { stickerFormat: media.is_video === true ? 'video' : media.is_animated === true ? 'animated' : 'static' }
+        : {}),
+      ...readCaptionPayload(message),
+    };
+    const fallbackPreview =
+      contentType === 'sticker' && emoji
+        ? `[Стикер ${emoji}]`
+        : contentType === 'document' && fileName
+          ? `[Файл] ${fileName}`
+          : FILE_CONTENT_FALLBACK_PREVIEWS[contentType];
+    return {
+      contentType,
+      preview: caption ?? title ?? fallbackPreview,
+      fileId: media.file_id,
+      fileUniqueId: typeof media.file_unique_id === 'string' ? media.file_unique_id : media.file_id,
+      ...(Object.keys(payload).length ? { payload } : {}),
     };
   }
   return null;
 };
 
+const isSpokenContent = (parsed: ParsedMessageInfo) =>
+  parsed.contentType === 'voice' || parsed.contentType === 'audio';
+
 const buildMediaGroupKey = (chatId: number | string, mediaGroupId: string) =>
   `${chatId}:${mediaGroupId}`;
 
@@ -282,7 +457,11 @@ const hasTextualCaption = (message: Message) => {
 };
 
 const selectMediaGroupMessage = (messages: Message[]) => {
-  const parsedMessages = messages.filter((message) => parseMessage(message));
+  // Only photo/video albums are supported; document and audio albums are not regrouped.
+  const parsedMessages = messages.filter((message) => {
+    const parsed = parseMessage(message);
+    return parsed?.contentType === 'photo' || parsed?.contentType === 'video';
+  });
   if (!parsedMessages.length) {
     return null;
   }
@@ -350,6 +529,15 @@ export const parseMediaGroup = (messages: Message[]): ParsedMessageInfo | null =
     if (!parsed.preview || parsed.preview === '[Фото]' || parsed.preview === '[Видео]') {
       parsed.preview = buildMediaGroupFallbackPreview(counts);
     }
+    const album = [...messages]
+      .sort((a, b) => a.message_id - b.message_id)
+      .flatMap((message): CardAlbumItem[] => {
+        const item = parseMessage(message);
+        return (item?.contentType === 'photo' || item?.contentType === 'video') && item.fileId
+          ? [{ type: item.contentType, fileId: item.fileId, fileUniqueId: item.fileUniqueId ?? item.fileId }]
+          : [];
+      });
+    parsed.payload = { ...parsed.payload, album };
   }
   return parsed;
 };
@@ -403,6 +591,9 @@ const createPendingCardAndPrompt = async ({
 }) => {
   const cardId = uuid();
   try {
+    const reminderMode = await withDbRetry(() =>
+      store.getUserDefaultReminderMode(`${userId}`),
+    );
     const pendingInput = {
       id: cardId,
       userId: `${userId}`,
@@ -419,7 +610,9 @@ const createPendingCardAndPrompt = async ({
       contentPreview: parsed.preview,
       contentFileId: parsed.fileId,
       contentFileUniqueId: parsed.fileUniqueId,
-      reminderMode: 'sm2' as ReminderMode,
+      contentPayload: serializeCardContentPayload(parsed.payload ?? null),
+      tags: extractHashtags(parsed.preview),
+      reminderMode,
     };
     await withDbRetry(() => store.createPendingCard(pendingInput));
     recentPendingCards.set(`${userId}`, cardId);
@@ -492,11 +685,46 @@ const getDeepLinkKeyboard = (botUsername: string) =>
     [Markup.button.url('➡️ Открыть в ЛС', `https://t.me/${botUsername}?start=webapp`)],
   ]);
 
-export const createBot = (store: CardStore) => {
-  const bot = new Telegraf<TelegrafContext>(config.botToken);
+export const createBot = (
+  store: CardStore,
+  transcriber: SpeechTranscriber = createSpeechTranscriber(config.transcription),
+) => {
+  const bot = new Telegraf<TelegrafContext>(
+    config.botToken,
+    config.telegram.apiRoot ? { telegram: { apiRoot: config.telegram.apiRoot } } : {},
+  );
+  const outboundQueue = new OutboundQueue(config.telegram.rateLimits);
+  installOutboundQueue(bot.telegram, outboundQueue);
   const mediaGroupBuffers = new Map<string, MediaGroupBuffer>();
   const processedMediaGroups = new Map<string, number>();
 
+  /** Schedules and typed reminder times are read in the timezone of the user's settings. */
+  const getUserTimezone = (userId: number | string) =>
+    withDbRetry(() => store.getUserTimezone(`${userId}`));
+
+  const transcribeSpokenMessage = async (fileId: string, message: Message): Promise<string | null> => {
+    try {
+      const link = await bot.telegram.getFileLink(fileId);
+      const response = await fetch(link);
+      if (!response.ok) {
+        throw new Error(`Telegram file download failed with status ${response.status}`);
+      }
+      const media = message as Message & {
+        voice?: { mime_type?: string };
+        audio?: { mime_type?: string; file_name?: string };
+      };
+      const result = await transcriber.transcribe({
+        audio: Buffer.from(await response.arrayBuffer()),
+        fileName: media.audio?.file_name ?? null,
+        mimeType: media.voice?.mime_type ?? media.audio?.mime_type ?? null,
+      });
+      return result?.text ?? null;
+    } catch (error) {
+      logger.warn(`Не удалось распознать голосовое сообщение (${transcriber.provider})`, error);
+      return null;
+    }
+  };
+
   const isMediaGroupProcessed = (key: string) => {
     const processedAt = processedMediaGroups.get(key);
     if (!processedAt) {
@@ -608,6 +836,16 @@ export const createBot = (store: CardStore) => {
     return { card, job: null, subjectId: card.id };
   };
 
+  const isAnswerHiddenInMessage = (
+    ctx: TelegrafContext,
+    card: Parameters<typeof getCardFaces>[0],
+  ) => {
+    const faces = getCardFaces(card);
+    if (!faces) return false;
+    const message = ctx.callbackQuery?.message;
+    return !(message && 'text' in message && message.text === formatRevealedCard(faces));
+  };
+
   const clearReminderKeyboard = async (
     ctx: TelegrafContext,
     job: { deliveryChatId: string | null; deliveryMessageId: number | null },
@@ -661,6 +899,24 @@ export const createBot = (store: CardStore) => {
     }
   };
 
+  /** After a grade in a digest, leaves buttons only for the items that still wait for one. */
+  const refreshDigestKeyboard = async (ctx: TelegrafContext, digestId: string) => {
+    const jobs = await withDbRetry(() => store.listReminderDigestJobs(digestId));
+    const botUsername = ctx.botInfo?.username;
+    const keyboard = buildDigestKeyboard(
+      jobs
+        .map((job, index) => ({ job, position: index + 1 }))
+        .filter(({ job }) => job.status === 'awaiting_action')
+        .map(({ job, position }) => ({ jobId: job.id, position })),
+      botUsername ? buildMiniAppDeepLink(botUsername, buildMiniAppViewParam('queue')) : undefined,
+    );
+    try {
+      await ctx.editMessageReplyMarkup(keyboard.reply_markup);
+    } catch (error) {
+      logger.warn(`Не удалось обновить клавиатуру сводки ${digestId}`, error);
+    }
+  };
+
   const restoreCustomScheduleMessage = async ({
     pending,
     text,
@@ -712,6 +968,12 @@ export const createBot = (store: CardStore) => {
     }
   };
 
+  // Each update gets its own `ctx.telegram`; its sends share the bot's queue (interactive priority).
+  bot.use((ctx, next) => {
+    installOutboundQueue(ctx.telegram, outboundQueue);
+    return next();
+  });
+
   // With BotFather privacy mode disabled, Telegram sends all group messages.
   // Drop ambient group traffic before auth, DB writes, parsers, or logs.
   bot.use(async (ctx, next) => {
@@ -824,7 +1086,7 @@ export const createBot = (store: CardStore) => {
     const botUsername = ctx.botInfo?.username;
     const groupMention = botUsername ? `@${botUsername}` : '@bot';
     await ctx.reply(
-      `Пошагово:\n1. Отправьте сообщение\n2. Нажмите «Добавить в обучение»\n3. Ждите напоминаний в канале и оценивайте освоение кнопками.\n\nКоманды:\n/webapp — открыть приложение для управления карточками\n/use_this_chat — получать личные напоминания в этот чат (если это группа/канал, добавьте бота админом)\n${groupMention} текст — добавить запись в очередь текущего чата.`,
+      `Пошагово:\n1. Отправьте сообщение\n2. Нажмите «Добавить в обучение»\n3. Ждите напоминаний в канале и оценивайте освоение кнопками.\n\nКоманды:\n/webapp — открыть приложение для управления карточками\n/use_this_chat — получать личные напоминания в этот чат (если это группа/канал, добавьте бота админом)\n/tags — колоды; ответом на карточку: /tags #тег1 #тег2 (или /tags - чтобы убрать)\n/deck #тег 20 — дневной лимит повторений колоды\n/limits 50 10 — лимит повторений и новых карточек в день\n/vacation — отпуск и режим «Не беспокоить»\n/digest 09:00 — все повторения дня одной сводкой\n${groupMention} текст — добавить запись в очередь текущего чата.`,
     );
   });
 
@@ -886,6 +1148,237 @@ export const createBot = (store: CardStore) => {
     }
   });
 
+  const resolveCommandQueueScope = (ctx: TelegrafContext, userId: number): QueueScope =>
+    ctx.chat && GROUP_MESSAGE_SOURCE_TYPES.has(ctx.chat.type)
+      ? buildChatQueueScope(ctx.chat.id)
+      : buildUserQueueScope(`${userId}`);
+
+  const formatDeckLine = (deck: DeckRecord) => {
+    const limit = deck.dailyLimit
+      ? `сегодня ${deck.deliveredToday}/${deck.dailyLimit}`
+      : 'без лимита';
+    return `#${deck.tag} — карточек: ${deck.cardCount}, ${limit}`;
+  };
+
+  bot.command('tags', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+    const args = ctx.payload.trim();
+    const replyTo = ctx.message.reply_to_message;
+    try {
+      if (!replyTo) {
+        if (args) {
+          await ctx.reply('Чтобы поставить теги, ответьте командой /tags #тег на сообщение с карточкой.');
+          return;
+        }
+        const queueScope = resolveCommandQueueScope(ctx, userId);
+        const settings = await withDbRetry(() => store.getUserReminderSettings(`${userId}`));
+        const since = startOfLocalDay(new Date().toISOString(), settings.timezone);
+        const decks = await withDbRetry(() => store.listDecks({ queueScope, since }));
+        await ctx.reply(
+          decks.length
+            ? `Колоды:\n${decks.map(formatDeckLine).join('\n')}\n\nЛимит в день: /deck #тег 20`
+            : 'Колод пока нет. Добавьте #тег в сообщение или ответьте на карточку командой /tags #тег.',
+        );
+        return;
+      }
+
+      const [card, otherCard] = await withDbRetry(() =>
+        store.findCardsByMessage({
+          userId: `${userId}`,
+          chatId: `${ctx.chat.id}`,
+          messageId: replyTo.message_id,
+        }),
+      );
+      if (!card) {
+        await ctx.reply('Не нашёл карточку для этого сообщения.');
+        return;
+      }
+      if (otherCard) {
+        await ctx.reply(SEVERAL_CARDS_REPLY_MESSAGE);
+        return;
+      }
+      if (!args) {
+        await ctx.reply(card.tags.length ? `Теги: ${formatTags(card.tags)}` : 'У карточки нет тегов.');
+        return;
+      }
+      const tags = args === '-' ? [] : parseTagInput(args) ?? [];
+      if (args !== '-' && !tags.length) {
+        await ctx.reply('Тег — это слово из букв, цифр и _, например #испанский. Убрать все теги: /tags -');
+        return;
+      }
+      const updated = await withDbRetry(() => store.setCardTags(card.id, tags));
+      await ctx.reply(updated.tags.length ? `✅ Теги: ${formatTags(updated.tags)}` : '✅ Теги убраны');
+    } catch (error) {
+      logger.error('Не удалось обработать /tags', error);
+      await ctx.reply('Не удалось обновить теги (E_TAGS). Попробуйте ещё раз.');
+    }
+  });
+
+  bot.command('deck', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+    const [rawTag, rawLimit] = ctx.payload.trim().split(/\s+/);
+    const tag = rawTag ? normalizeTag(rawTag) : null;
+    const dailyLimit = parseDeckDailyLimit(rawLimit);
+    if (!tag || dailyLimit === undefined) {
+      await ctx.reply('Формат: /deck #тег 20 — не больше 20 повторений колоды в день, /deck #тег off — без лимита.');
+      return;
+    }
+    try {
+      await withDbRetry(() =>
+        store.setDeckDailyLimit({
+          queueScope: resolveCommandQueueScope(ctx, userId),
+          tag,
+          dailyLimit,
+        }),
+      );
+      await ctx.reply(
+        dailyLimit
+          ? `✅ #${tag}: не больше ${dailyLimit} повторений в день, остальные перенесу на следующий день.`
+          : `✅ #${tag}: без дневного лимита.`,
+      );
+    } catch (error) {
+      logger.error('Не удалось обработать /deck', error);
+      await ctx.reply('Не удалось сохранить лимит (E_DECK). Попробуйте ещё раз.');
+    }
+  });
+
+  const formatDailyLimit = (limit: number | null) => (limit ? `${limit} в день` : 'без лимита');
+
+  bot.command('limits', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+    const args = ctx.payload.trim().split(/\s+/).filter(Boolean);
+    const queueScope = resolveCommandQueueScope(ctx, userId);
+    try {
+      if (!args.length) {
+        const limits = await withDbRetry(() => store.getDailyLimits(queueScope));
+        await ctx.reply(
+          `Повторения: ${formatDailyLimit(limits.reviewsPerDay)}\nНовые карточки: ${formatDailyLimit(limits.newCardsPerDay)}\n\nИзменить: /limits 50 10 — не больше 50 повторений и 10 новых карточек в день, /limits off — без лимитов.`,
+        );
+        return;
+      }
+      const reviewsPerDay = parseDeckDailyLimit(args[0]);
+      // `/limits 50` changes only the review limit; `/limits off` clears both.
+      const newCardsPerDay =
+        args.length > 1
+          ? parseDeckDailyLimit(args[1])
+          : reviewsPerDay === null
+            ? null
+            : (await withDbRetry(() => store.getDailyLimits(queueScope))).newCardsPerDay;
+      if (args.length > 2 || reviewsPerDay === undefined || newCardsPerDay === undefined) {
+        await ctx.reply('Формат: /limits 50 10 — повторений и новых карточек в день (off — без лимита), /limits off — снять оба.');
+        return;
+      }
+      await withDbRetry(() => store.setDailyLimits(queueScope, { reviewsPerDay, newCardsPerDay }));
+      await ctx.reply(
+        `✅ Повторения: ${formatDailyLimit(reviewsPerDay)}, новые карточки: ${formatDailyLimit(newCardsPerDay)}. Лишнее перенесу на следующий день.`,
+      );
+    } catch (error) {
+      logger.error('Не удалось обработать /limits', error);
+      await ctx.reply('Не удалось сохранить лимиты (E_LIMITS). Попробуйте ещё раз.');
+    }
+  });
+
+  bot.command('vacation', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+    const command = parseVacationCommand(ctx.payload);
+    if (!command) {
+      await ctx.reply(
+        'Формат:\n/vacation — статус\n/vacation 7 — отпуск на 7 дней (/vacation on — без даты), можно добавить, на сколько дней распределить накопившееся: /vacation 7 3\n/vacation off — вернуться из отпуска\n/vacation dnd 2h | 08:00 | off — не беспокоить',
+      );
+      return;
+    }
+    try {
+      const queueScope = resolveCommandQueueScope(ctx, userId);
+      const settings = await withDbRetry(() => store.getUserReminderSettings(`${userId}`));
+      const timezone = settings.timezone;
+      switch (command.action) {
+        case 'status': {
+          const pause = await withDbRetry(() => store.getDeliveryPause(queueScope));
+          await ctx.reply(formatDeliveryPause(pause, { timezone }));
+          return;
+        }
+        case 'start': {
+          const until = command.days ? vacationUntilAfterDays(command.days, { timezone }) : null;
+          const pause = await withDbRetry(() =>
+            store.startVacation({
+              queueScope,
+              userId: `${userId}`,
+              until,
+              spreadDays: command.spreadDays,
+            }),
+          );
+          await ctx.reply(`${formatDeliveryPause(pause, { timezone })}\n\nВернуться раньше: /vacation off`);
+          return;
+        }
+        case 'end': {
+          const result = await withDbRetry(() =>
+            store.endVacation({ queueScope, spreadDays: command.spreadDays }),
+          );
+          await ctx.reply(
+            result.rescheduled
+              ? `👋 С возвращением! ${result.rescheduled} накопившихся повторений распределил на ${result.spreadDays} дн.`
+              : '👋 С возвращением! Накопившихся повторений нет.',
+          );
+          return;
+        }
+        case 'dnd': {
+          const until = parseDoNotDisturbUntil(command.value, { timezone });
+          if (until === undefined) {
+            await ctx.reply('Не понял время. Примеры: /vacation dnd 2h, /vacation dnd 08:00, /vacation dnd off');
+            return;
+          }
+          const result = await withDbRetry(() =>
+            store.setDoNotDisturb({ queueScope, userId: `${userId}`, until }),
+          );
+          await ctx.reply(
+            until
+              ? `${formatDeliveryPause(result.pause, { timezone })}${
+                  result.rescheduled ? `\nПеренёс повторений: ${result.rescheduled}.` : ''
+                }`
+              : '🔔 Режим «Не беспокоить» выключен.',
+          );
+          return;
+        }
+      }
+    } catch (error) {
+      logger.error('Не удалось обработать /vacation', error);
+      await ctx.reply('Не удалось обновить паузу напоминаний (E_VACATION). Попробуйте ещё раз.');
+    }
+  });
+
+  bot.command('digest', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+    const command = parseDigestCommand(ctx.payload);
+    if (!command) {
+      await ctx.reply('Формат:\n/digest — статус\n/digest 09:00 — присылать повторения одной сводкой в это время\n/digest off — каждое повторение отдельным сообщением');
+      return;
+    }
+    try {
+      const queueScope = resolveCommandQueueScope(ctx, userId);
+      if (command.action === 'status') {
+        const digest = await withDbRetry(() => store.getReminderDigest(queueScope));
+        await ctx.reply(`${formatDigestSettings(digest)}\n\nИзменить: /digest 09:00 или /digest off`);
+        return;
+      }
+      const digest = await withDbRetry(() =>
+        store.setReminderDigest({
+          queueScope,
+          userId: `${userId}`,
+          sendAtMinutes: command.action === 'enable' ? command.sendAtMinutes : null,
+        }),
+      );
+      await ctx.reply(`✅ ${formatDigestSettings(digest)}`);
+    } catch (error) {
+      logger.error('Не удалось обработать /digest', error);
+      await ctx.reply('Не удалось сохранить режим сводки (E_DIGEST). Попробуйте ещё раз.');
+    }
+  });
+
   const createPendingCardFromChatRequest = async (
     ctx: TelegrafContext,
     payload: string | null,
@@ -906,12 +1399,7 @@ export const createBot = (store: CardStore) => {
       parsed = parseMessage(replyToMessage);
       sourceMessageId = replyToMessage.message_id;
     } else if (payload && payload.trim()) {
-      parsed = {
-        contentType: 'text',
-        preview: normalizeContentPreview(payload),
-        fileId: null,
-        fileUniqueId: null,
-      };
+      parsed = parseTextMessageInfo(payload);
     }
 
     if (!parsed) {
@@ -957,6 +1445,113 @@ export const createBot = (store: CardStore) => {
     await createPendingCardFromChatRequest(ctx, payload);
   });
 
+  /**
+   * A reply to a reminder with new text or media replaces the card content; the reply becomes the
+   * new source message and the previous content stays in the card history.
+   */
+  const replaceCardFromReply = async (message: Message, userId: number): Promise<boolean> => {
+    const replyTo = 'reply_to_message' in message ? message.reply_to_message : undefined;
+    if (!replyTo || replyTo.from?.id !== bot.botInfo?.id) {
+      return false;
+    }
+    const [card, otherCard] = await withDbRetry(() =>
+      store.findCardsByMessage({
+        userId: `${userId}`,
+        chatId: `${message.chat.id}`,
+        messageId: replyTo.message_id,
+      }),
+    );
+    if (!card) {
+      return false;
+    }
+    const replyParameters = { reply_parameters: { message_id: message.message_id } };
+    if (otherCard) {
+      await bot.telegram.sendMessage(message.chat.id, SEVERAL_CARDS_REPLY_MESSAGE, replyParameters);
+      return true;
+    }
+    if (card.status === 'archived') {
+      return false;
+    }
+    if ((message as Message & { media_group_id?: string }).media_group_id) {
+      await bot.telegram.sendMessage(
+        message.chat.id,
+        'Альбом не может заменить карточку — ответьте на напоминание одним сообщением.',
+        replyParameters,
+      );
+      return true;
+    }
+    const parsed = parseMessage(message);
+    if (!parsed) {
+      await bot.telegram.sendMessage(
+        message.chat.id,
+        '😔 Этот тип сообщения пока не поддерживается. Код ошибки: E_UNSUPPORTED_CONTENT',
+        replyParameters,
+      );
+      return true;
+    }
+    if (isSpokenContent(parsed) && parsed.fileId) {
+      const transcript = await transcribeSpokenMessage(parsed.fileId, message);
+      if (transcript) {
+        parsed.payload = { ...parsed.payload, transcript };
+        if (!hasTextualCaption(message)) parsed.preview = transcript;
+      }
+    }
+    try {
+      await withDbRetry(() =>
+        store.editCardContent(
+          card.id,
+          {
+            ...buildEditedCardContent(card, parsed),
+            source: { chatId: `${message.chat.id}`, messageId: message.message_id },
+          },
+          { source: 'reply', editedBy: `${userId}` },
+        ),
+      );
+      await bot.telegram.sendMessage(
+        message.chat.id,
+        '✏️ Карточка обновлена, следующее напоминание придёт с новым содержимым. Прежняя версия — в истории карточки в Mini App.',
+        replyParameters,
+      );
+    } catch (error) {
+      logger.error('Не удалось заменить содержимое карточки', error);
+      await bot.telegram.sendMessage(
+        message.chat.id,
+        'Не удалось обновить карточку (E_CARD_EDIT). Попробуйте ещё раз.',
+        replyParameters,
+      );
+    }
+    return true;
+  };
+
+  bot.on('edited_message', async (ctx) => {
+    const message = ctx.editedMessage as Message;
+    if (!message || !ctx.from || ctx.from.is_bot || isCommandText('text' in message ? message.text : null)) {
+      return;
+    }
+    const parsed = parseMessage(message);
+    if (!parsed) {
+      return;
+    }
+    try {
+      const cards = await withDbRetry(() =>
+        store.listCardsBySourceMessage({ chatId: `${message.chat.id}`, messageId: message.message_id }),
+      );
+      for (const card of cards) {
+        if (card.status === 'archived') continue;
+        const mediaGroup = (card.sourceMessageIds?.length ?? 0) > 1;
+        // An album card shows the caption of one item; editing another item's file is not tracked.
+        if (mediaGroup && !hasTextualCaption(message)) continue;
+        const content = buildEditedCardContent(card, parsed, { mediaGroup });
+        await withDbRetry(() =>
+          store.editCardContent(card.id, content, { source: 'source_edit', editedBy: `${ctx.from.id}` }),
+        );
+        logger.info(`[CardEdit ${card.id}] source=source_edit message=${message.message_id}`);
+      }
+    } catch (error) {
+      logger.error('Не удалось перенести правку сообщения в карточку', error);
+    }
+  });
+
   bot.on('message', async (ctx) => {
     const chatType = ctx.chat?.type;
     if (!ctx.message || !chatType || !SUPPORTED_MESSAGE_SOURCE_TYPES.has(chatType)) {
@@ -977,7 +1572,7 @@ export const createBot = (store: CardStore) => {
       const pendingOneTime = pendingOneTimeInputs.get(`${userId}`);
       if (pendingOneTime) {
         pendingOneTimeInputs.delete(`${userId}`);
-        const remindAt = parseOneTimeReminderText(ctx.message.text);
+        const remindAt = parseOneTimeReminderText(ctx.message.text, dayjs(), await getUserTimezone(userId));
         if (!remindAt) {
           await ctx.reply(
             'Не удалось распознать время. Примеры: «через 3 дня», «через 2 недели», «завтра в 10», «25.05 18:30».',
@@ -1013,17 +1608,24 @@ export const createBot = (store: CardStore) => {
       // Implicit: user has a pending card and typed a schedule-like text
       const recentCardId = recentPendingCards.get(`${userId}`);
       if (recentCardId) {
-        const rule = parseNaturalSchedule(ctx.message.text);
+        const timezone = await getUserTimezone(userId);
+        const rule = parseNaturalSchedule(ctx.message.text, timezone);
         if (rule) {
           recentPendingCards.delete(`${userId}`);
           try {
             const card = await withDbRetry(() => store.getCardById(recentCardId));
-            if (card.status === 'pending') {
+            const nextReviewAt = computeNextFromSchedule(rule, dayjs(), timezone);
+            if (card.status === 'pending' && !nextReviewAt) {
+              await ctx.reply(SCHEDULE_ENDED_MESSAGE, {
+                reply_parameters: { message_id: ctx.message.message_id },
+              });
+              return;
+            }
+            if (card.status === 'pending' && nextReviewAt) {
               const ruleStr = serializeScheduleRule(rule);
               await withDbRetry(() =>
                 store.updateCardReminderMode(recentCardId, 'schedule', ruleStr),
               );
-              const nextReviewAt = computeNextFromSchedule(rule);
               await withDbRetry(() => store.activateCard(recentCardId, { nextReviewAt }));
               await ctx.reply(
                 `${buildAddedMessage('schedule', ruleStr)}\nСледующее напоминание ${formatNextReviewMessage(nextReviewAt)}`,
@@ -1041,8 +1643,17 @@ export const createBot = (store: CardStore) => {
       const pending = pendingScheduleInputs.get(`${userId}`);
       if (pending) {
         pendingScheduleInputs.delete(`${userId}`);
-        const rule = parseNaturalSchedule(ctx.message.text);
-        if (!rule) {
+        const timezone = await getUserTimezone(userId);
+        const rule = parseNaturalSchedule(ctx.message.text, timezone);
+        const nextReviewAt = rule ? computeNextFromSchedule(rule, dayjs(), timezone) : null;
+        if (rule && !nextReviewAt) {
+          await ctx.reply(SCHEDULE_ENDED_MESSAGE, {
+            reply_parameters: { message_id: ctx.message.message_id },
+          });
+          pendingScheduleInputs.set(`${userId}`, pending);
+          return;
+        }
+        if (!rule || !nextReviewAt) {
           // Log unrecognized input for future parser improvements
           store.logUnrecognizedSchedule(`${userId}`, ctx.message.text).catch((err) =>
             logger.warn('Не удалось залогировать нераспознанное расписание', err),
@@ -1065,7 +1676,6 @@ export const createBot = (store: CardStore) => {
             await withDbRetry(() =>
               store.updateCardReminderMode(pending.cardId, 'schedule', ruleStr),
             );
-            const nextReviewAt = computeNextFromSchedule(rule);
             const activatedCard = await withDbRetry(() =>
               store.activateCard(pending.cardId, { nextReviewAt }),
             );
@@ -1086,10 +1696,10 @@ export const createBot = (store: CardStore) => {
             await withDbRetry(() =>
               store.updateCardReminderMode(pending.cardId, 'schedule', ruleStr),
             );
-            const nextReviewAt = computeNextFromSchedule(rule);
             await withDbRetry(() =>
               store.saveReviewResult({
                 cardId: pending.cardId,
+                grade: 'schedule_change',
                 jobId: pending.jobId ?? null,
                 nextReviewAt,
                 repetition: (card.repetition ?? 0) + 1,
@@ -1135,6 +1745,47 @@ export const createBot = (store: CardStore) => {
       }
     }
 
+    if (await replaceCardFromReply(ctx.message as Message, userId)) {
+      return;
+    }
+
+    if (
+      chatType === 'private' &&
+      'document' in ctx.message &&
+      DECK_FILE_PATTERN.test(ctx.message.document.file_name ?? '')
+    ) {
+      const replyParameters = { reply_parameters: { message_id: ctx.message.message_id } };
+      try {
+        const link = await ctx.telegram.getFileLink(ctx.message.document.file_id);
+        const response = await fetch(link);
+        if (!response.ok) {
+          throw new Error(`Telegram file download failed with status ${response.status}`);
+        }
+        const buffer = Buffer.from(await response.arrayBuffer());
+        const result = await importDeck(store, {
+          userId: `${userId}`,
+          queueScope: buildUserQueueScope(`${userId}`),
+          buffer,
+        });
+        const lines = [`📥 Импортировано карточек: ${result.imported}`];
+        if (result.scheduled) {
+          lines.push(`С сохранённым расписанием: ${result.scheduled}`);
+        }
+        if (result.skipped) {
+          lines.push(`Пропущено сверх лимита: ${result.skipped}`);
+        }
+        await ctx.reply(lines.join('\n'), replyParameters);
+      } catch (error) {
+        logger.error('Ошибка импорта колоды', error);
+        const message =
+          error && typeof error === 'object' && 'statusCode' in error && error instanceof Error
+            ? error.message
+            : 'Не удалось импортировать колоду. Попробуйте ещё раз.';
+        await ctx.reply(`😔 ${message}`, replyParameters);
+      }
+      return;
+    }
+
     const mediaGroupId = (ctx.message as Message & { media_group_id?: string }).media_group_id;
     if (mediaGroupId) {
       const key = buildMediaGroupKey(ctx.chat.id, mediaGroupId);
@@ -1161,11 +1812,53 @@ export const createBot = (store: CardStore) => {
     const parsed = parseMessage(ctx.message as Message);
     if (!parsed) {
       await ctx.reply(
-        '😔 Пока поддерживаются только текст, фото и видео. Код ошибки: E_UNSUPPORTED_CONTENT',
+        '😔 Этот тип сообщения пока не поддерживается. Код ошибки: E_UNSUPPORTED_CONTENT',
       );
       return;
     }
 
+    if (isSpokenContent(parsed) && parsed.fileId) {
+      const transcript = await transcribeSpokenMessage(parsed.fileId, ctx.message as Message);
+      if (transcript) {
+        parsed.payload = { ...parsed.payload, transcript };
+      }
+      const plan = transcript
+        ? parseHouseholdReminderText(transcript, dayjs(), await getUserTimezone(userId))
+        : null;
+      if (transcript && plan) {
+        try {
+          await withDbRetry(() => store.ensureUser(`${userId}`));
+          const { card } = await createHouseholdReminderCard(store, {
+            id: uuid(),
+            userId: `${userId}`,
+            sourceChatId: `${ctx.chat.id}`,
+            sourceMessageId: ctx.message.message_id,
+            contentType: parsed.contentType,
+            contentFileId: parsed.fileId,
+            contentFileUniqueId: parsed.fileUniqueId,
+            contentPayload: serializeCardContentPayload(parsed.payload ?? null),
+            plan,
+            source: parsed.contentType,
+          });
+          const when =
+            plan.mode === 'schedule'
+              ? `Расписание: ${plan.ruleText}\nСледующее напоминание ${formatNextReviewMessage(plan.nextReviewAt)}`
+              : `Напомню ${formatNextReviewMessage(plan.remindAt)}`;
+          await ctx.reply(`🎙 «${transcript}»\n✅ ${plan.title}\n${when}`, {
+            ...buildReminderManagementKeyboard(card.id),
+            reply_parameters: { message_id: ctx.message.message_id },
+          });
+        } catch (error) {
+          logger.error('Не удалось создать напоминание из голосового', error);
+          await ctx.reply('Ошибка сохранения (код: E_DB_WRITE). Попробуйте ещё раз.');
+        }
+        return;
+      }
+      if (transcript && !hasTextualCaption(ctx.message as Message)) {
+        parsed.preview = transcript;
+      }
+    }
+
     await createPendingCardAndPrompt({
       store,
       userId,
@@ -1253,7 +1946,7 @@ export const createBot = (store: CardStore) => {
       return;
     }
     try {
-      const remindAt = computeOneTimeReminderAt(preset);
+      const remindAt = computeOneTimeReminderAt(preset, dayjs(), await getUserTimezone(ctx.from.id));
       await setOneTimeReminderForPendingCard(store, cardId, remindAt);
       await ctx.answerCbQuery(`Напомню ${formatNextReviewMessage(remindAt)}`);
       try {
@@ -1420,8 +2113,8 @@ export const createBot = (store: CardStore) => {
       let mode: ReminderMode;
       let ruleStr: string | null = null;
 
-      if (code === 'sm2') {
-        mode = 'sm2';
+      if (code === 'sm2' || code === 'fsrs') {
+        mode = code;
       } else {
         const preset = PRESET_BY_CODE.get(code);
         if (!preset) {
@@ -1439,6 +2132,7 @@ export const createBot = (store: CardStore) => {
         updated.reminderMode,
         updated.scheduleRule,
         config.initialReviewMinutes,
+        await getUserTimezone(card.userId),
       );
       await withDbRetry(() => store.activateCard(cardId, { nextReviewAt }));
       await ctx.answerCbQuery(
@@ -1495,10 +2189,14 @@ export const createBot = (store: CardStore) => {
       }
       const rule = { type: 'weekdays' as const, days };
       const ruleStr = serializeScheduleRule(rule);
+      const nextReviewAt = computeNextFromSchedule(rule, dayjs(), await getUserTimezone(card.userId));
+      if (!nextReviewAt) {
+        await ctx.answerCbQuery(SCHEDULE_ENDED_MESSAGE, { show_alert: true });
+        return;
+      }
       const updated = await withDbRetry(() =>
         store.updateCardReminderMode(cardId, 'schedule', ruleStr),
       );
-      const nextReviewAt = computeNextFromSchedule(rule);
       await withDbRetry(() => store.activateCard(cardId, { nextReviewAt }));
       await ctx.answerCbQuery(
         `Добавлено, напомню ${formatNextReviewMessage(nextReviewAt)}`,
@@ -1561,7 +2259,9 @@ export const createBot = (store: CardStore) => {
         + '• «каждый день», «через день»\n'
         + '• «каждые 3 дня», «раз в 2 недели»\n'
         + '• «каждый месяц», «каждый год»\n'
-        + '• «пн, ср, пт»\n\n'
+        + '• «пн, ср, пт», «по будням в 9:00 и 18:00»\n'
+        + '• «каждый 2-й вторник месяца», «последний день месяца»\n'
+        + '• «каждую неделю до 01.01.2027», «каждый день 10 раз»\n\n'
         + 'Чтобы отменить ввод, нажмите «К расписанию» под исходным сообщением.',
         ctx.callbackQuery?.message?.message_id
           ? { reply_parameters: { message_id: ctx.callbackQuery.message.message_id } }
@@ -1627,6 +2327,7 @@ export const createBot = (store: CardStore) => {
         card.reminderMode,
         card.scheduleRule,
         config.initialReviewMinutes,
+        await getUserTimezone(card.userId),
       );
       await withDbRetry(() => store.activateCard(cardId, { nextReviewAt }));
       await ctx.answerCbQuery(
@@ -1708,6 +2409,36 @@ export const createBot = (store: CardStore) => {
     }
   });
 
+  bot.action(new RegExp(`^${REVIEW_ACTIONS.reveal}\\|(.+)$`), async (ctx) => {
+    const subjectId = ctx.match?.[1];
+    if (!subjectId) {
+      await ctx.answerCbQuery('Некорректное действие');
+      return;
+    }
+    const actionContext = await getReviewActionContext(subjectId);
+    if (!actionContext?.job) {
+      await ctx.answerCbQuery('Повтор уже обработан');
+      return;
+    }
+    const { card, job } = actionContext;
+    const faces = getCardFaces(card);
+    if (!faces) {
+      await ctx.answerCbQuery('У карточки нет скрытого ответа');
+      return;
+    }
+    try {
+      const { revealed } = buildCardFaceEntities(card, faces);
+      await ctx.editMessageText(formatRevealedCard(faces), {
+        ...(revealed.length ? { entities: revealed } : {}),
+        reply_markup: buildReminderJobKeyboard(card.id, job.id, job.kind).reply_markup,
+      });
+      await ctx.answerCbQuery();
+    } catch (error) {
+      logger.error('Не удалось показать ответ карточки', error);
+      await ctx.answerCbQuery('Ошибка (E_REVEAL)', { show_alert: true });
+    }
+  });
+
   bot.action(new RegExp(`^${REVIEW_ACTIONS.adjust}\\|(.+)$`), async (ctx) => {
     const subjectId = ctx.match?.[1];
     if (!subjectId) {
@@ -1753,7 +2484,9 @@ export const createBot = (store: CardStore) => {
     try {
       if (job) {
         await ctx.editMessageReplyMarkup(
-          buildReminderJobKeyboard(card.id, job.id, job.kind).reply_markup,
+          buildReminderJobKeyboard(card.id, job.id, job.kind, {
+            hiddenAnswer: isAnswerHiddenInMessage(ctx, card),
+          }).reply_markup,
         );
       } else if (card.status === 'awaiting_grade') {
         const currentJob = await withDbRetry(() =>
@@ -1764,7 +2497,9 @@ export const createBot = (store: CardStore) => {
           return;
         }
         await ctx.editMessageReplyMarkup(
-          buildReminderJobKeyboard(card.id, currentJob.job.id, currentJob.job.kind).reply_markup,
+          buildReminderJobKeyboard(card.id, currentJob.job.id, currentJob.job.kind, {
+            hiddenAnswer: isAnswerHiddenInMessage(ctx, currentJob.card),
+          }).reply_markup,
         );
       } else {
         await ctx.editMessageReplyMarkup(
@@ -1826,6 +2561,56 @@ export const createBot = (store: CardStore) => {
     await ctx.answerCbQuery('Карточка архивирована');
   });
 
+  // Buttons under a leech notice: rewrite/split archive the card and hand its text back.
+  bot.action(new RegExp(`^${LEECH_ACTION_PREFIX}\\|(rewrite|split|suspend|archive)\\|(.+)$`), async (ctx) => {
+    const action = ctx.match?.[1] as 'rewrite' | 'split' | 'suspend' | 'archive' | undefined;
+    const cardId = ctx.match?.[2];
+    if (!action || !cardId) {
+      await ctx.answerCbQuery('Некорректное действие');
+      return;
+    }
+    try {
+      const card = await withDbRetry(() => store.getCardById(cardId));
+      if (card.status === 'archived') {
+        await ctx.answerCbQuery('Карточка уже в архиве');
+        return;
+      }
+      if (action === 'suspend') {
+        await withDbRetry(() => store.suspendCard(cardId));
+      } else {
+        await withDbRetry(() => store.updateStatus(cardId, 'archived'));
+      }
+      if (card.pendingChannelId && card.pendingChannelMessageId) {
+        try {
+          await ctx.telegram.editMessageReplyMarkup(
+            card.pendingChannelId,
+            card.pendingChannelMessageId,
+            undefined,
+            undefined,
+          );
+        } catch (editError) {
+          logger.warn(`Не удалось убрать кнопки канала для карточки ${card.id}`, editError);
+        }
+      }
+      try {
+        await ctx.editMessageReplyMarkup(undefined);
+      } catch (editError) {
+        logger.warn(`Не удалось убрать кнопки трудной карточки ${card.id}`, editError);
+      }
+      if (action === 'rewrite' || action === 'split') {
+        await ctx.reply(buildLeechReplacementText(card, action));
+      }
+      await ctx.answerCbQuery(
+        action === 'suspend'
+          ? 'Карточка приостановлена, вернуть её можно в Mini App'
+          : 'Карточка перенесена в архив',
+      );
+    } catch (error) {
+      logger.error(`Не удалось обработать трудную карточку action=${action}`, error);
+      await ctx.answerCbQuery('Ошибка (E_LEECH)', { show_alert: true });
+    }
+  });
+
   // "Change schedule" button in adjust menu → show schedule picker
   bot.action(new RegExp(`^${REVIEW_ACTIONS.changeSchedule}\\|(.+)$`), async (ctx) => {
     const subjectId = ctx.match?.[1];
@@ -1891,16 +2676,33 @@ export const createBot = (store: CardStore) => {
 
       if (code === 'sm2') {
         mode = 'sm2';
-        // For SM-2 on reschedule, grade as 'ok' to advance
-        const result = computeReview({ ...card, reminderMode: 'sm2', scheduleRule: null }, 'ok');
+        // For SM-2 on reschedule, grade as 'good' to advance
+        const result = computeReview({ ...card, reminderMode: 'sm2', scheduleRule: null }, 'good');
+        nextReviewAt = result.nextReviewAt;
+        await withDbRetry(() => store.updateCardReminderMode(card.id, mode, null));
+        await withDbRetry(() =>
+          store.saveReviewResult({
+            cardId: card.id,
+            grade: 'schedule_change',
+            jobId: job?.id ?? null,
+            nextReviewAt,
+            repetition: result.repetition,
+            reviewedAt: new Date().toISOString(),
+          }),
+        );
+      } else if (code === 'fsrs') {
+        mode = 'fsrs';
+        const result = computeReview({ ...card, reminderMode: 'fsrs', scheduleRule: null }, 'good');
         nextReviewAt = result.nextReviewAt;
         await withDbRetry(() => store.updateCardReminderMode(card.id, mode, null));
         await withDbRetry(() =>
           store.saveReviewResult({
             cardId: card.id,
+            grade: 'schedule_change',
             jobId: job?.id ?? null,
             nextReviewAt,
             repetition: result.repetition,
+            fsrs: result.fsrs,
             reviewedAt: new Date().toISOString(),
           }),
         );
@@ -1910,13 +2712,19 @@ export const createBot = (store: CardStore) => {
           await ctx.answerCbQuery('Неизвестный режим');
           return;
         }
+        const presetNext = computeNextFromSchedule(preset.rule, dayjs(), await getUserTimezone(card.userId));
+        if (!presetNext) {
+          await ctx.answerCbQuery(SCHEDULE_ENDED_MESSAGE, { show_alert: true });
+          return;
+        }
         mode = 'schedule';
         ruleStr = serializeScheduleRule(preset.rule);
-        nextReviewAt = computeNextFromSchedule(preset.rule);
+        nextReviewAt = presetNext;
         await withDbRetry(() => store.updateCardReminderMode(card.id, mode, ruleStr));
         await withDbRetry(() =>
           store.saveReviewResult({
             cardId: card.id,
+            grade: 'schedule_change',
             jobId: job?.id ?? null,
             nextReviewAt,
             repetition: (card.repetition ?? 0) + 1,
@@ -2004,12 +2812,17 @@ export const createBot = (store: CardStore) => {
     try {
       const rule = { type: 'weekdays' as const, days };
       const ruleStr = serializeScheduleRule(rule);
-      const nextReviewAt = computeNextFromSchedule(rule);
+      const nextReviewAt = computeNextFromSchedule(rule, dayjs(), await getUserTimezone(card.userId));
+      if (!nextReviewAt) {
+        await ctx.answerCbQuery(SCHEDULE_ENDED_MESSAGE, { show_alert: true });
+        return;
+      }
 
       await withDbRetry(() => store.updateCardReminderMode(card.id, 'schedule', ruleStr));
       await withDbRetry(() =>
         store.saveReviewResult({
           cardId: card.id,
+          grade: 'schedule_change',
           jobId: job?.id ?? null,
           nextReviewAt,
           repetition: (card.repetition ?? 0) + 1,
@@ -2068,6 +2881,7 @@ export const createBot = (store: CardStore) => {
         await withDbRetry(() =>
           store.saveReviewResult({
             cardId: card.id,
+            grade: 'preset',
             jobId: job?.id ?? null,
             nextReviewAt: result.nextReviewAt,
             repetition: result.repetition,
@@ -2109,10 +2923,10 @@ export const createBot = (store: CardStore) => {
   );
 
   bot.action(
-    new RegExp(`^${REVIEW_ACTIONS.grade}\\|([^|]+)\\|(again|ok)$`),
+    new RegExp(`^${REVIEW_ACTIONS.grade}\\|([^|]+)\\|(again|hard|good|easy|ok)$`),
     async (ctx) => {
       const jobId = ctx.match?.[1];
-      const grade = ctx.match?.[2] as GradeKey | undefined;
+      const grade = parseGradeKey(ctx.match?.[2]);
       if (!jobId || !grade) {
         await ctx.answerCbQuery('Некорректное действие');
         return;
@@ -2123,7 +2937,7 @@ export const createBot = (store: CardStore) => {
       }
       if (!found && grade === 'again') {
         const processedJob = await withDbRetry(() => store.getReminderJobWithCard(jobId));
-        if (processedJob?.job.status === 'completed') {
+        if (processedJob?.job.status === 'completed' && !processedJob.job.digestId) {
           try {
             if (processedJob.job.kind === 'one_time') {
               const dueAt = dayjs().add(1, 'hour').toISOString();
@@ -2141,12 +2955,20 @@ export const createBot = (store: CardStore) => {
               return;
             }
 
-            const result = computeReview(processedJob.card, 'again');
+            const result = computeReview(
+              processedJob.card,
+              'again',
+              await getUserTimezone(processedJob.card.userId),
+            );
             await withDbRetry(() =>
               store.saveReviewResult({
                 cardId: processedJob.card.id,
+                grade: 'again',
                 nextReviewAt: result.nextReviewAt,
                 repetition: result.repetition,
+                fsrs: result.fsrs,
+                archive: result.scheduleEnded,
+                scheduleRule: result.scheduleRule,
                 reviewedAt: new Date().toISOString(),
               }),
             );
@@ -2156,7 +2978,9 @@ export const createBot = (store: CardStore) => {
               buildReminderManagementKeyboard(processedJob.card.id).reply_markup,
             );
             await ctx.answerCbQuery(
-              `Готово! Следующее повторение ${formatNextReviewMessage(result.nextReviewAt)}`,
+              result.scheduleEnded
+                ? SCHEDULE_FINISHED_MESSAGE
+                : `Готово! Следующее повторение ${formatNextReviewMessage(result.nextReviewAt)}`,
             );
             return;
           } catch (error) {
@@ -2187,23 +3011,33 @@ export const createBot = (store: CardStore) => {
           return;
         }
 
-        const result = computeReview(card, grade);
+        const result = computeReview(card, grade, await getUserTimezone(card.userId));
         await withDbRetry(() =>
           store.saveReviewResult({
             cardId: card.id,
+            grade: grade,
             jobId: job.id,
             nextReviewAt: result.nextReviewAt,
             repetition: result.repetition,
+            fsrs: result.fsrs,
+            archive: result.scheduleEnded,
+            scheduleRule: result.scheduleRule,
             reviewedAt: new Date().toISOString(),
           }),
         );
-        await replaceReminderKeyboard(
-          ctx,
-          job,
-          buildReminderManagementKeyboard(card.id).reply_markup,
-        );
+        if (job.digestId) {
+          await refreshDigestKeyboard(ctx, job.digestId);
+        } else {
+          await replaceReminderKeyboard(
+            ctx,
+            job,
+            buildReminderManagementKeyboard(card.id).reply_markup,
+          );
+        }
         await ctx.answerCbQuery(
-          `Готово! Следующее повторение ${formatNextReviewMessage(result.nextReviewAt)}`,
+          result.scheduleEnded
+            ? SCHEDULE_FINISHED_MESSAGE
+            : `Готово! Следующее повторение ${formatNextReviewMessage(result.nextReviewAt)}`,
         );
       } catch (error) {
         logger.error('Ошибка обработки оценки', error);
@@ -2270,8 +3104,22 @@ export const createBot = (store: CardStore) => {
 
   bot.on('inline_query', async (ctx) => {
     const botUsername = ctx.botInfo.username;
+    const search = ctx.inlineQuery.query.trim();
+
+    let cardResults: InlineQueryResult[] = [];
+    if (buildSearchTsQuery(search)) {
+      try {
+        const cards = await withDbRetry(() =>
+          store.listCardsByUser({ userId: `${ctx.from.id}`, search, limit: INLINE_SEARCH_LIMIT }),
+        );
+        cardResults = cards.map((card) => buildCardInlineResult(card, botUsername));
+      } catch (error) {
+        logger.error('Не удалось найти карточки для inline-запроса', error);
+      }
+    }
 
     const results: any[] = [
+      ...cardResults,
       {
         type: 'article',
         id: 'webapp',
@@ -2303,8 +3151,8 @@ export const createBot = (store: CardStore) => {
       },
     ];
 
-    // Filter based on query if needed, but for now just show all
-    await ctx.answerInlineQuery(results, { cache_time: 0 });
+    // Found cards belong to the user who typed the query, so Telegram must not share the answer.
+    await ctx.answerInlineQuery(results, { cache_time: 0, is_personal: true });
   });
 
   bot.catch((err) => {
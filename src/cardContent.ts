@@ -0,0 +1,140 @@
+import type { MessageEntity } from 'telegraf/typings/core/types/typegram';
+import { CardFaces } from './cardFaces';
+
+export type CardPollPayload = {
+  question: string;
+  options: string[];
+  type: 'regular' | 'quiz';
+  isAnonymous: boolean;
+  allowsMultipleAnswers: boolean;
+  correctOptionId: number | null;
+  explanation: string | null;
+};
+
+/** One photo or video of an album card, in the order the album was sent. */
+export type CardAlbumItem = {
+  type: 'photo' | 'video';
+  fileId: string;
+  fileUniqueId: string;
+};
+
+/**
+ * Extra content needed to re-send a card without the source message: file metadata for
+ * documents/audio/stickers, the full poll definition (polls have no file_id), the
+ * question/answer faces of text cards and the speech transcript of voice/audio cards
+ * (indexed by full-text search even when the preview shows the caption). Media keep their
+ * caption as sent (the preview may show a transcript or an album placeholder instead), text
+ * and captions keep their formatting entities, and albums keep every item.
+ */
+export type CardContentPayload = {
+  mimeType?: string;
+  fileName?: string;
+  emoji?: string;
+  stickerFormat?: 'static' | 'animated' | 'video';
+  poll?: CardPollPayload;
+  faces?: CardFaces;
+  transcript?: string;
+  caption?: string;
+  entities?: MessageEntity[];
+  album?: CardAlbumItem[];
+};
+
+export const MAX_CAPTION_LENGTH = 1024;
+
+export const serializeCardContentPayload = (payload: CardContentPayload | null): string | null => {
+  if (!payload || Object.keys(payload).length === 0) return null;
+  return JSON.stringify(payload);
+};
+
+export const parseCardContentPayload = (raw: string | null): CardContentPayload | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as CardContentPayload;
+    }
+  } catch {
+    // ignore
+  }
+  return null;
+};
+
+/** Entities that still fit a text cut to `length` UTF-16 units; Telegram rejects the rest. */
+export const fitEntities = (entities: MessageEntity[] | undefined, length: number): MessageEntity[] =>
+  (entities ?? []).filter((entity) => entity.offset + entity.length <= length);
+
+/**
+ * Entities of the `length` units starting at `start`, moved to offsets of that fragment. An
+ * entity that crosses the fragment border is cut to it.
+ */
+export const sliceEntities = (
+  entities: MessageEntity[] | undefined,
+  start: number,
+  length: number,
+): MessageEntity[] =>
+  (entities ?? []).flatMap((entity) => {
+    const from = Math.max(entity.offset, start);
+    const to = Math.min(entity.offset + entity.length, start + length);
+    return to > from ? [{ ...entity, offset: from - start, length: to - from }] : [];
+  });
+
+/**
+ * Caption for media re-sent from stored content: the original caption with its entities, or the
+ * preview when it is real text rather than a placeholder such as «[Фото]».
+ */
+export const buildStoredCaption = (
+  payload: CardContentPayload | null,
+  preview: string | null,
+): { caption: string; caption_entities?: MessageEntity[] } | null => {
+  const caption = payload?.caption ?? preview;
+  if (!caption) return null;
+  const text = caption.slice(0, MAX_CAPTION_LENGTH);
+  const entities = payload?.caption ? fitEntities(payload.entities, text.length) : [];
+  return { caption: text, ...(entities.length ? { caption_entities: entities } : {}) };
+};
+
+/** Telegram files of the card: every album item, or the single file. */
+export const listCardMediaFiles = (card: {
+  contentFileId: string | null;
+  contentFileUniqueId: string | null;
+  contentPayload: string | null;
+}): Array<{ fileId: string; fileUniqueId: string }> => {
+  const album = parseCardContentPayload(card.contentPayload)?.album;
+  if (album?.length) {
+    return album.map(({ fileId, fileUniqueId }) => ({ fileId, fileUniqueId }));
+  }
+  return card.contentFileId
+    ? [{ fileId: card.contentFileId, fileUniqueId: card.contentFileUniqueId ?? card.contentFileId }]
+    : [];
+};
+
+export const formatPollPreview = (poll: Pick<CardPollPayload, 'question' | 'options'>): string =>
+  [`📊 ${poll.question}`, ...poll.options.map((option) => `• ${option}`)].join('\n');
+
+const STICKER_MIME_TYPES: Record<NonNullable<CardContentPayload['stickerFormat']>, string> = {
+  static: 'image/webp',
+  animated: 'application/x-tgsticker',
+  video: 'video/webm',
+};
+
+/**
+ * Telegram's file endpoint answers `application/octet-stream` for most files, so the media
+ * proxies prefer the MIME type remembered at intake.
+ */
+export const resolveCardMediaContentType = (
+  contentType: string,
+  payload: CardContentPayload | null,
+  upstreamContentType: string | null,
+): string => {
+  if (payload?.mimeType) return payload.mimeType;
+  if (contentType === 'sticker' && payload?.stickerFormat) {
+    return STICKER_MIME_TYPES[payload.stickerFormat];
+  }
+  if (upstreamContentType && upstreamContentType !== 'application/octet-stream') {
+    return upstreamContentType;
+  }
+  if (contentType === 'photo') return 'image/jpeg';
+  if (contentType === 'video' || contentType === 'animation') return 'video/mp4';
+  if (contentType === 'voice') return 'audio/ogg';
+  return upstreamContentType ?? 'application/octet-stream';
+};
@@ -0,0 +1,90 @@
+import { CardContentPayload, parseCardContentPayload, serializeCardContentPayload } from './cardContent';
+import { parseCardFaces } from './cardFaces';
+import { extractHashtags, normalizeTags } from './cardTags';
+import type { CardContentInput, CardRecord, CardRevisionSource } from './db';
+
+/**
+ * A card's content can be replaced after creation: by replying to a delivered reminder with new
+ * text or media, by editing the source message in Telegram, or from the Mini App editor. Every
+ * edit keeps the previous content in `card_revisions`.
+ */
+export const MAX_CARD_TEXT_LENGTH = 4096;
+
+export const CARD_REVISION_SOURCE_LABELS: Record<CardRevisionSource, string> = {
+  reply: 'ответ на напоминание',
+  source_edit: 'правка исходного сообщения',
+  miniapp: 'Mini App',
+};
+
+/** Content parsed from a new or edited Telegram message, as `parseMessage` in the bot returns it. */
+export interface EditedMessageContent {
+  contentType: string;
+  preview: string | null;
+  fileId: string | null;
+  fileUniqueId: string | null;
+  payload?: CardContentPayload;
+}
+
+/**
+ * New card content from an edited or replacing message. The voice transcript survives a caption
+ * edit of the same file, and a media group keeps its files: only the caption of the edited item
+ * replaces the preview and the stored caption.
+ */
+export const buildEditedCardContent = (
+  card: CardRecord,
+  parsed: EditedMessageContent,
+  { mediaGroup = false }: { mediaGroup?: boolean } = {},
+): CardContentInput => {
+  const previousPayload = parseCardContentPayload(card.contentPayload);
+  if (mediaGroup) {
+    const { caption: _caption, entities: _entities, ...files } = previousPayload ?? {};
+    return {
+      contentType: card.contentType,
+      contentPreview: parsed.preview ?? card.contentPreview,
+      contentFileId: card.contentFileId,
+      contentFileUniqueId: card.contentFileUniqueId,
+      contentPayload: serializeCardContentPayload({
+        ...files,
+        ...(parsed.payload?.caption ? { caption: parsed.payload.caption } : {}),
+        ...(parsed.payload?.entities ? { entities: parsed.payload.entities } : {}),
+      }),
+    };
+  }
+  const sameFile = parsed.fileUniqueId !== null && parsed.fileUniqueId === card.contentFileUniqueId;
+  const payload: CardContentPayload | null =
+    sameFile && previousPayload?.transcript && !parsed.payload?.transcript
+      ? { ...parsed.payload, transcript: previousPayload.transcript }
+      : parsed.payload ?? null;
+  return {
+    contentType: parsed.contentType,
+    contentPreview: parsed.preview,
+    contentFileId: parsed.fileId,
+    contentFileUniqueId: parsed.fileUniqueId,
+    contentPayload: serializeCardContentPayload(payload),
+  };
+};
+
+/** Text from the Mini App editor; front/back faces are parsed the same way as for new cards. */
+export const buildEditedTextContent = (text: string): CardContentInput => {
+  const preview = text.trim();
+  const faces = parseCardFaces(preview);
+  return {
+    contentType: 'text',
+    contentPreview: preview,
+    contentFileId: null,
+    contentFileUniqueId: null,
+    contentPayload: serializeCardContentPayload(faces ? { faces } : null),
+  };
+};
+
+export const isSameCardContent = (card: CardRecord, content: CardContentInput): boolean =>
+  card.contentType === content.contentType &&
+  card.contentPreview === content.contentPreview &&
+  card.contentFileUniqueId === content.contentFileUniqueId &&
+  card.contentPayload === content.contentPayload &&
+  (!content.source ||
+    (content.source.chatId === card.sourceChatId && content.source.messageId === card.sourceMessageId));
+
+/** Hashtags of the new text are added; tags set by hand are never dropped by an edit. */
+export const mergeEditedTags = (tags: string[], preview: string | null): string[] =>
+  normalizeTags([...tags, ...extractHashtags(preview)]);
@@ -0,0 +1,95 @@
+import type { MessageEntity } from 'telegraf/typings/core/types/typegram';
+import { CardRecord } from './db';
+import { parseCardContentPayload, sliceEntities } from './cardContent';
+
+export type CardFacesKind = 'front_back' | 'cloze';
+
+/**
+ * Question/answer view of a text card. The scheduler sends only `front`; `back` is revealed
+ * by the "Показать ответ" button before the grade buttons appear.
+ */
+export type CardFaces = {
+  kind: CardFacesKind;
+  front: string;
+  back: string;
+};
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+const FRONT_BACK_SEPARATOR = /^[ \t]*-{3,}[ \t]*$/m;
+const CLOZE_PLACEHOLDER = '…';
+
+/**
+ * Anki-style cloze deletions: `{{c1::answer}}` or `{{c1::answer::hint}}`. All deletions are
+ * hidden at once regardless of their number; the back shows the answers in brackets.
+ */
+export const parseClozeText = (text: string): CardFaces | null => {
+  if (!text.match(CLOZE_PATTERN)) return null;
+  const front = text.replace(
+    CLOZE_PATTERN,
+    (_match, _index: string, _answer: string, hint: string | undefined) =>
+      `[${hint?.trim() || CLOZE_PLACEHOLDER}]`,
+  );
+  const back = text.replace(CLOZE_PATTERN, (_match, _index: string, answer: string) => `[${answer.trim()}]`);
+  return { kind: 'cloze', front: front.trim(), back: back.trim() };
+};
+
+/** Front and back separated by a line of three or more dashes. */
+export const parseFrontBackText = (text: string): CardFaces | null => {
+  const match = FRONT_BACK_SEPARATOR.exec(text);
+  if (!match) return null;
+  const front = text.slice(0, match.index).trim();
+  const back = text.slice(match.index + match[0].length).trim();
+  if (!front || !back) return null;
+  return { kind: 'front_back', front, back };
+};
+
+export const parseCardFaces = (text: string | null): CardFaces | null => {
+  if (!text) return null;
+  return parseClozeText(text) ?? parseFrontBackText(text);
+};
+
+/** Imported notes: a cloze in the first field wins, otherwise field one is the front. */
+export const buildCardFacesFromFields = (fields: string[]): CardFaces | null => {
+  const [first, ...rest] = fields.filter(Boolean);
+  if (!first) return null;
+  const cloze = parseClozeText(first);
+  if (cloze) {
+    const extra = rest.join('\n\n');
+    return extra ? { ...cloze, back: `${cloze.back}\n\n${extra}` } : cloze;
+  }
+  const back = rest.join('\n\n');
+  return back ? { kind: 'front_back', front: first, back } : null;
+};
+
+export const formatRevealedCard = (faces: CardFaces): string =>
+  faces.kind === 'cloze' ? faces.back : `${faces.front}\n\n———\n${faces.back}`;
+
+/**
+ * Formatting of the question and of the revealed card, cut from the entities of the whole text.
+ * Cloze faces rewrite the text around the deletions, so they are sent without formatting.
+ */
+export const buildCardFaceEntities = (
+  card: Pick<CardRecord, 'contentPreview' | 'contentPayload'>,
+  faces: CardFaces,
+): { front: MessageEntity[]; revealed: MessageEntity[] } => {
+  const entities = parseCardContentPayload(card.contentPayload)?.entities;
+  const text = card.contentPreview ?? '';
+  const frontStart = text.indexOf(faces.front);
+  const backStart = frontStart < 0 ? -1 : text.indexOf(faces.back, frontStart + faces.front.length);
+  if (faces.kind !== 'front_back' || !entities?.length || backStart < 0) {
+    return { front: [], revealed: [] };
+  }
+  const front = sliceEntities(entities, frontStart, faces.front.length);
+  const backOffset = formatRevealedCard(faces).length - faces.back.length;
+  const back = sliceEntities(entities, backStart, faces.back.length).map((entity) => ({
+    ...entity,
+    offset: entity.offset + backOffset,
+  }));
+  return { front, revealed: [...front, ...back] };
+};
+
+export const getCardFaces = (card: Pick<CardRecord, 'contentType' | 'contentPayload'>): CardFaces | null => {
+  if (card.contentType !== 'text') return null;
+  const faces = parseCardContentPayload(card.contentPayload)?.faces;
+  return faces && faces.front && faces.back ? faces : null;
+};
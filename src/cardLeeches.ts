@@ -0,0 +1,68 @@
+import { getCardFaces } from './cardFaces';
+import type { CardRecord, ReviewLogGrade } from './db';
+
+/**
+ * A leech is a card answered «Снова» again and again: every such answer is a lapse, and once
+ * `lapses` reaches the owner's threshold the card is flagged and the owner is asked what to do
+ * with it. Suspended leeches keep their content but leave the review queue until resumed.
+ */
+export const DEFAULT_LEECH_THRESHOLD = 8;
+export const MIN_LEECH_THRESHOLD = 2;
+export const MAX_LEECH_THRESHOLD = 100;
+const LEECH_PREVIEW_LENGTH = 120;
+
+export type LeechAction = 'rewrite' | 'split' | 'suspend' | 'resume' | 'archive' | 'clear';
+
+export const LEECH_ACTIONS: readonly LeechAction[] = ['rewrite', 'split', 'suspend', 'resume', 'archive', 'clear'];
+
+export const isLeechAction = (value: unknown): value is LeechAction =>
+  typeof value === 'string' && (LEECH_ACTIONS as readonly string[]).includes(value);
+
+export const isLapse = (grade: ReviewLogGrade) => grade === 'again';
+
+/** `undefined` when the value is not a whole number in the allowed range. */
+export const parseLeechThreshold = (value: unknown): number | undefined => {
+  const threshold = Number(value);
+  return Number.isInteger(threshold) && threshold >= MIN_LEECH_THRESHOLD && threshold <= MAX_LEECH_THRESHOLD
+    ? threshold
+    : undefined;
+};
+
+/** Lapse count and leech flag after a review with `grade`; a flagged card stays flagged. */
+export const applyLapse = (
+  card: Pick<CardRecord, 'lapses' | 'leechAt'>,
+  grade: ReviewLogGrade,
+  { threshold, reviewedAt }: { threshold: number; reviewedAt: string },
+): { lapses: number; leechAt: string | null } => {
+  const lapses = card.lapses + (isLapse(grade) ? 1 : 0);
+  return {
+    lapses,
+    leechAt: card.leechAt ?? (isLapse(grade) && lapses >= threshold ? reviewedAt : null),
+  };
+};
+
+const describeLeech = (card: CardRecord): string => {
+  const text = (getCardFaces(card)?.front ?? card.contentPreview ?? '').replace(/\s+/g, ' ').trim();
+  const preview = text || `[${card.contentType}]`;
+  return preview.length > LEECH_PREVIEW_LENGTH ? `${preview.slice(0, LEECH_PREVIEW_LENGTH - 1)}…` : preview;
+};
+
+export const buildLeechNoticeText = (card: CardRecord): string =>
+  [
+    `🐛 Карточка не запоминается: «Снова» уже ${card.lapses} раз.`,
+    '',
+    describeLeech(card),
+    '',
+    'Переформулируйте её, разбейте на несколько простых карточек, приостановите или уберите в архив.',
+  ].join('\n');
+
+/** Reply to «Переписать» / «Разделить»: the old text to copy from, the card itself goes to the archive. */
+export const buildLeechReplacementText = (card: CardRecord, action: 'rewrite' | 'split'): string =>
+  [
+    action === 'rewrite'
+      ? '✏️ Отправьте новую формулировку отдельным сообщением — она станет новой карточкой.'
+      : '✂️ Отправьте каждую часть отдельным сообщением — каждая станет своей карточкой.',
+    'Старая карточка перенесена в архив, её текст:',
+    '',
+    card.contentPreview || `[${card.contentType}]`,
+  ].join('\n');
@@ -0,0 +1,62 @@
+import type { InlineQueryResultArticle } from 'telegraf/typings/core/types/typegram';
+import type { CardRecord, CardStatus } from './db';
+import { formatTags } from './cardTags';
+import { buildMiniAppCardParam, buildMiniAppDeepLink } from './telegramLinks';
+
+const MAX_SEARCH_TERMS = 8;
+const SEARCH_TERM_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+/**
+ * Turns free text into a prefix `to_tsquery` expression (`кошк молок` -> `кошк:* & молок:*`),
+ * so results appear while a word is still being typed. Operators and punctuation are dropped,
+ * which keeps user input from ever producing a tsquery syntax error.
+ */
+export const buildSearchTsQuery = (input: string | null | undefined): string | null => {
+  if (!input) return null;
+  const text = input.slice(0, MAX_SEARCH_QUERY_LENGTH).toLowerCase();
+  const terms = Array.from(text.matchAll(SEARCH_TERM_PATTERN), (match) => match[0]);
+  const unique = Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS);
+  if (!unique.length) return null;
+  return unique.map((term) => `${term}:*`).join(' & ');
+};
+
+const INLINE_TITLE_LENGTH = 64;
+const TELEGRAM_MESSAGE_LENGTH = 4096;
+
+const cardStatusLabel: Record<CardStatus, string> = {
+  pending: 'Ожидает',
+  learning: 'Изучается',
+  awaiting_grade: 'Ждёт оценки',
+  archived: 'Архив',
+};
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/** Inline-mode result for a found card: sends its text and links to the card in the Mini App. */
+export const buildCardInlineResult = (
+  card: CardRecord,
+  botUsername: string,
+): InlineQueryResultArticle => {
+  const text = card.contentPreview?.trim() || `[${card.contentType}]`;
+  const title = text.split('\n').find((line) => line.trim()) ?? text;
+  return {
+    type: 'article',
+    id: `card:${card.id}`,
+    title: truncate(title.trim(), INLINE_TITLE_LENGTH),
+    description: [cardStatusLabel[card.status], formatTags(card.tags)].filter(Boolean).join(' · '),
+    input_message_content: { message_text: truncate(text, TELEGRAM_MESSAGE_LENGTH) },
+    reply_markup: {
+      inline_keyboard: [
+        [
+          {
+            text: '📱 Открыть карточку',
+            url: buildMiniAppDeepLink(botUsername, buildMiniAppCardParam(card.id)),
+          },
+        ],
+      ],
+    },
+  };
+};
@@ -0,0 +1,54 @@
+export const MAX_CARD_TAGS = 20;
+const MAX_TAG_LENGTH = 48;
+
+const TAG_BODY_PATTERN = /^[\p{L}\p{N}_]+$/u;
+// Telegram treats `#word` as a hashtag only at a word boundary, so URL fragments are skipped.
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&/#])#([\p{L}\p{N}_]+)/gu;
+
+/** Tags are stored lowercase without `#`; at least one letter keeps `#1` list markers out. */
+export const normalizeTag = (value: string): string | null => {
+  const tag = value.trim().replace(/^#+/, '').toLowerCase();
+  if (!tag || tag.length > MAX_TAG_LENGTH) return null;
+  if (!TAG_BODY_PATTERN.test(tag) || !/\p{L}/u.test(tag)) return null;
+  return tag;
+};
+
+export const normalizeTags = (values: string[]): string[] => {
+  const tags: string[] = [];
+  for (const value of values) {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+    if (tags.length >= MAX_CARD_TAGS) break;
+  }
+  return tags;
+};
+
+export const extractHashtags = (text: string | null): string[] => {
+  if (!text) return [];
+  return normalizeTags(Array.from(text.matchAll(HASHTAG_PATTERN), (match) => match[2] ?? ''));
+};
+
+/** Accepts `["a", "b"]` from JSON bodies or `"#a, b"` from commands and query strings. */
+export const parseTagInput = (value: unknown): string[] | null => {
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item === 'string') ? normalizeTags(value) : null;
+  }
+  if (typeof value === 'string') {
+    return normalizeTags(value.split(/[\s,]+/));
+  }
+  return null;
+};
+
+export const formatTags = (tags: string[]): string => tags.map((tag) => `#${tag}`).join(' ');
+
+export const MAX_DECK_DAILY_LIMIT = 1000;
+
+/** `null` turns the limit off (`off`, `0`, empty); `undefined` means the value is not a limit. */
+export const parseDeckDailyLimit = (value: unknown): number | null | undefined => {
+  if (value === null || value === undefined || value === '' || value === 0) return null;
+  const text = String(value).trim().toLowerCase();
+  if (text === 'off' || text === '0' || text === 'нет') return null;
+  if (!/^\d+$/.test(text)) return undefined;
+  const limit = Number(text);
+  return limit > 0 && limit <= MAX_DECK_DAILY_LIMIT ? limit : undefined;
+};
@@ -0,0 +1,282 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { strToU8, zipSync } from 'fflate';
+import {
+  BacklogItemRecord,
+  CardRecord,
+  CardStore,
+  CourseWithStepsRecord,
+  ReminderJobRecord,
+} from './db';
+import { getCardFaces } from './cardFaces';
+import { withDbRetry } from './utils/dbRetry';
+
+export type CollectionExportFormat = 'json' | 'csv' | 'anki';
+
+export type ExportedCard = CardRecord & { mediaUrl: string | null };
+export type ExportedBacklogItem = BacklogItemRecord & { mediaUrl: string | null };
+
+export interface CollectionExport {
+  exportedAt: string;
+  userId: string | null;
+  cards: ExportedCard[];
+  reminderJobs: ReminderJobRecord[];
+  backlogItems: ExportedBacklogItem[];
+  courses: CourseWithStepsRecord[];
+}
+
+export interface CollectionExportFile {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+export const EXPORT_MEDIA_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_EXPORTED_CARDS = 100_000;
+
+export const parseExportFormat = (value: unknown): CollectionExportFormat | null => {
+  if (value === undefined || value === null || value === '') return 'json';
+  return value === 'json' || value === 'csv' || value === 'anki' ? value : null;
+};
+
+const signMediaPayload = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('hex');
+
+/**
+ * Media links in exports must outlive the Mini App session but must not expose the bot token,
+ * so they point to our own endpoint with an expiring HMAC signature over the Telegram file_id.
+ */
+export const buildExportMediaUrl = (params: {
+  baseUrl: string;
+  fileId: string;
+  secret: string;
+  now?: number;
+}): string => {
+  const expires = String((params.now ?? Date.now()) + EXPORT_MEDIA_TTL_MS);
+  const signature = signMediaPayload(`${params.fileId}.${expires}`, params.secret);
+  const url = new URL(`/export/media/${encodeURIComponent(params.fileId)}`, params.baseUrl);
+  url.searchParams.set('expires', expires);
+  url.searchParams.set('sig', signature);
+  return url.toString();
+};
+
+export const verifyExportMediaSignature = (params: {
+  fileId: string;
+  expires: unknown;
+  signature: unknown;
+  secret: string;
+  now?: number;
+}): boolean => {
+  if (typeof params.expires !== 'string' || typeof params.signature !== 'string') return false;
+  const expiresAt = Number(params.expires);
+  if (!Number.isFinite(expiresAt) || expiresAt <= (params.now ?? Date.now())) return false;
+  const expected = Buffer.from(signMediaPayload(`${params.fileId}.${params.expires}`, params.secret), 'hex');
+  const provided = Buffer.from(params.signature, 'hex');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+export const loadCollectionExport = async (
+  store: CardStore,
+  params: {
+    userId: string | null;
+    appUserId: string | null;
+    mediaUrl: (fileId: string) => string;
+  },
+): Promise<CollectionExport> => {
+  const { userId } = params;
+  const [cards, reminderJobs, backlogItems, courses] = await Promise.all([
+    userId
+      ? withDbRetry(() => store.listCardsByUser({ userId, limit: MAX_EXPORTED_CARDS }))
+      : Promise.resolve([]),
+    userId ? withDbRetry(() => store.listReminderJobsByUser(userId)) : Promise.resolve([]),
+    userId ? withDbRetry(() => store.listBacklogItemsByUser(userId)) : Promise.resolve([]),
+    withDbRetry(() =>
+      store.listOwnedCoursesWithSteps({ ownerUserId: userId, ownerAppUserId: params.appUserId }),
+    ),
+  ]);
+  const withMedia = <T extends { contentFileId: string | null }>(record: T) => ({
+    ...record,
+    mediaUrl: record.contentFileId ? params.mediaUrl(record.contentFileId) : null,
+  });
+  return {
+    exportedAt: new Date().toISOString(),
+    userId,
+    cards: [...cards].reverse().map(withMedia),
+    reminderJobs,
+    backlogItems: backlogItems.map(withMedia),
+    courses,
+  };
+};
+
+type CsvValue = string | number | boolean | null | undefined | number[] | string[];
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = Array.isArray(value) ? value.join(' ') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T extends object>(rows: T[], columns: Array<keyof T & string>): string => {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvValue(row[column] as CsvValue)).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const CARD_COLUMNS: Array<keyof ExportedCard & string> = [
+  'id',
+  'queueScopeType',
+  'queueScopeId',
+  'contentType',
+  'contentPreview',
+  'mediaUrl',
+  'contentFileId',
+  'tags',
+  'status',
+  'reminderMode',
+  'scheduleRule',
+  'repetition',
+  'fsrsStability',
+  'fsrsDifficulty',
+  'nextReviewAt',
+  'lastReviewedAt',
+  'createdAt',
+  'updatedAt',
+];
+
+const REMINDER_JOB_COLUMNS: Array<keyof ReminderJobRecord & string> = [
+  'id',
+  'cardId',
+  'queueScopeType',
+  'queueScopeId',
+  'kind',
+  'source',
+  'status',
+  'dueAt',
+  'scheduledAt',
+  'sentAt',
+  'completedAt',
+  'error',
+  'createdAt',
+];
+
+const BACKLOG_COLUMNS: Array<keyof ExportedBacklogItem & string> = [
+  'id',
+  'contentType',
+  'contentPreview',
+  'mediaUrl',
+  'contentFileId',
+  'status',
+  'createdAt',
+  'updatedAt',
+];
+
+const COURSE_COLUMNS: Array<keyof CourseWithStepsRecord & string> = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'visibility',
+  'publicSlug',
+  'publishedAt',
+  'createdAt',
+  'updatedAt',
+];
+
+/** CSV export is one archive with a file per table, so rows keep their natural shape. */
+export const renderCollectionCsvArchive = (collection: CollectionExport): Buffer => {
+  const steps = collection.courses.flatMap((course) => course.steps);
+  return Buffer.from(
+    zipSync({
+      'cards.csv': strToU8(toCsv(collection.cards, CARD_COLUMNS)),
+      'reminder_jobs.csv': strToU8(toCsv(collection.reminderJobs, REMINDER_JOB_COLUMNS)),
+      'backlog_items.csv': strToU8(toCsv(collection.backlogItems, BACKLOG_COLUMNS)),
+      'courses.csv': strToU8(toCsv(collection.courses, COURSE_COLUMNS)),
+      'course_steps.csv': strToU8(
+        toCsv(steps, ['id', 'courseId', 'position', 'kind', 'title', 'body', 'createdAt']),
+      ),
+    }),
+  );
+};
+
+const escapeAnkiHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+
+const renderAnkiMedia = (contentType: string, mediaUrl: string | null) => {
+  if (!mediaUrl) return '';
+  const url = escapeAnkiHtml(mediaUrl);
+  return contentType === 'photo' ? `<img src="${url}">` : `<a href="${url}">${escapeAnkiHtml(contentType)}</a>`;
+};
+
+const toAnkiTag = (value: string) => value.trim().replace(/\s+/g, '_');
+
+/**
+ * Anki "Notes in Plain Text" import: Front, Back and Tags columns with HTML enabled.
+ * Question/answer cards keep their faces, cloze cards keep the `{{c1::...}}` markup, other cards
+ * and backlog items become fronts only; course steps use the title as front and body as back.
+ */
+export const renderCollectionAnkiText = (collection: CollectionExport): string => {
+  const lines = ['#separator:tab', '#html:true', '#tags column:3'];
+  const pushNote = (front: string, back: string, tags: string[]) => {
+    if (!front) return;
+    lines.push([front, back, tags.join(' ')].join('\t'));
+  };
+  for (const card of collection.cards) {
+    if (card.status === 'pending') continue;
+    const faces = getCardFaces(card);
+    if (faces?.kind === 'front_back') {
+      pushNote(escapeAnkiHtml(faces.front), escapeAnkiHtml(faces.back), ['interval-learn', 'front_back', card.status, ...card.tags]);
+      continue;
+    }
+    const front = [escapeAnkiHtml(card.contentPreview ?? ''), renderAnkiMedia(card.contentType, card.mediaUrl)]
+      .filter(Boolean)
+      .join('<br>');
+    pushNote(front, '', ['interval-learn', card.contentType, card.status, ...card.tags]);
+  }
+  for (const item of collection.backlogItems) {
+    const front = [escapeAnkiHtml(item.contentPreview ?? ''), renderAnkiMedia(item.contentType, item.mediaUrl)]
+      .filter(Boolean)
+      .join('<br>');
+    pushNote(front, '', ['interval-learn', 'backlog']);
+  }
+  for (const course of collection.courses) {
+    const courseTag = `course::${toAnkiTag(course.publicSlug ?? course.title)}`;
+    for (const step of course.steps) {
+      pushNote(escapeAnkiHtml(step.title), escapeAnkiHtml(step.body), ['interval-learn', courseTag, step.kind]);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+export const renderCollectionExport = (
+  collection: CollectionExport,
+  format: CollectionExportFormat,
+): CollectionExportFile => {
+  const date = collection.exportedAt.slice(0, 10);
+  const basename = `interval-learn-${date}`;
+  if (format === 'csv') {
+    return {
+      filename: `${basename}-csv.zip`,
+      contentType: 'application/zip',
+      body: renderCollectionCsvArchive(collection),
+    };
+  }
+  if (format === 'anki') {
+    return {
+      filename: `${basename}-anki.txt`,
+      contentType: 'text/plain; charset=utf-8',
+      body: renderCollectionAnkiText(collection),
+    };
+  }
+  return {
+    filename: `${basename}.json`,
+    contentType: 'application/json; charset=utf-8',
+    body: JSON.stringify(collection, null, 2),
+  };
+};
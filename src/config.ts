@@ -1,3 +1,4 @@
+import { hostname } from 'node:os';
 import { config as loadEnv } from 'dotenv';
 
 loadEnv();
@@ -16,6 +17,12 @@ const toNumber = (value: string | undefined, fallback: number): number => {
   return Number.isFinite(parsed) ? parsed : fallback;
 };
 
+const toFloat = (value: string | undefined, fallback: number): number => {
+  if (!value) return fallback;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
 export const config = {
   botToken: requireEnv('BOT_TOKEN'),
   reviewChannelId: requireEnv('CHAT_ID'),
@@ -35,8 +42,44 @@ export const config = {
   courseAuthoringLlmModel: process.env.COURSE_AUTHORING_LLM_MODEL?.trim() || null,
   backlogOwnerUserId: (process.env.BACKLOG_OWNER_USER_ID || '359367655').trim(),
   agentApiToken: process.env.AGENT_API_TOKEN?.trim() || null,
+  telegram: {
+    transport: process.env.BOT_TRANSPORT?.trim() === 'webhook' ? ('webhook' as const) : ('polling' as const),
+    webhookPath: process.env.TELEGRAM_WEBHOOK_PATH?.trim() || '/telegram/webhook',
+    webhookUrl: process.env.TELEGRAM_WEBHOOK_URL?.trim() || null,
+    webhookSecret: process.env.TELEGRAM_WEBHOOK_SECRET?.trim() || null,
+    dropPendingUpdates: process.env.TELEGRAM_DROP_PENDING_UPDATES?.trim() === 'true',
+    apiRoot: process.env.TELEGRAM_API_ROOT?.trim() || null,
+    rateLimits: {
+      globalPerSecond: toNumber(process.env.TELEGRAM_GLOBAL_RATE_PER_SECOND, 30),
+      privatePerSecond: toNumber(process.env.TELEGRAM_PRIVATE_RATE_PER_SECOND, 1),
+      groupPerMinute: toNumber(process.env.TELEGRAM_GROUP_RATE_PER_MINUTE, 20),
+    },
+  },
   scheduler: {
     scanIntervalMs: toNumber(process.env.REVIEW_SCAN_INTERVAL_MS, 60_000),
     batchSize: toNumber(process.env.REVIEW_BATCH_SIZE, 5),
+    maxDeliveryAttempts: toNumber(process.env.REMINDER_MAX_ATTEMPTS, 8),
+    nodeId: process.env.SCHEDULER_NODE_ID?.trim() || process.env.RAILWAY_REPLICA_ID || `${hostname()}-${process.pid}`,
+  },
+  fsrs: {
+    desiredRetention: toFloat(process.env.FSRS_DESIRED_RETENTION, 0.9),
+  },
+  transcription: {
+    provider: process.env.TRANSCRIPTION_PROVIDER?.trim() || 'stub',
+    whisperCppBinary: process.env.WHISPER_CPP_BINARY?.trim() || 'whisper-cli',
+    whisperCppModel: process.env.WHISPER_CPP_MODEL?.trim() || null,
+    ffmpegBinary: process.env.FFMPEG_BINARY?.trim() || 'ffmpeg',
+    language: process.env.TRANSCRIPTION_LANGUAGE?.trim() || 'ru',
+    timeoutMs: toNumber(process.env.TRANSCRIPTION_TIMEOUT_MS, 60_000),
+    stubText: process.env.TRANSCRIPTION_STUB_TEXT?.trim() || null,
+  },
+  mediaStore: {
+    provider: process.env.MEDIA_STORE?.trim() || 'none',
+    localDir: process.env.MEDIA_STORE_DIR?.trim() || 'data/media',
+    s3Endpoint: process.env.MEDIA_S3_ENDPOINT?.trim() || null,
+    s3Bucket: process.env.MEDIA_S3_BUCKET?.trim() || null,
+    s3Region: process.env.MEDIA_S3_REGION?.trim() || 'us-east-1',
+    s3AccessKeyId: process.env.MEDIA_S3_ACCESS_KEY_ID?.trim() || null,
+    s3SecretAccessKey: process.env.MEDIA_S3_SECRET_ACCESS_KEY?.trim() || null,
   },
 };
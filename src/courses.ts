@@ -1,3 +1,5 @@
+import type { MessageEntity } from 'telegraf/typings/core/types/typegram';
+
 export type CourseStepKind = 'material' | 'practice' | 'question';
 
 const stepKindLabel: Record<CourseStepKind, string> = {
@@ -6,6 +8,10 @@ const stepKindLabel: Record<CourseStepKind, string> = {
   question: 'Вопрос',
 };
 
+/**
+ * Queue card text of a course step with its formatting: the course line in italics and the
+ * step title in bold, as entities stored with the card and sent with every reminder.
+ */
 export const buildCourseStepCardText = ({
   courseTitle,
   stepPosition,
@@ -20,14 +26,17 @@ export const buildCourseStepCardText = ({
   stepKind: CourseStepKind;
   stepTitle: string;
   body: string;
-}) => {
+}): { text: string; entities: MessageEntity[] } => {
   const title = stepTitle.trim();
   const content = body.trim();
   const header = [
     `Курс: ${courseTitle.trim()}`,
     `Шаг ${stepPosition} из ${totalSteps}`,
     stepKindLabel[stepKind],
-  ];
-  return [header.join(' · '), title, content].filter(Boolean).join('\n\n');
+  ].join(' · ');
+  const entities: MessageEntity[] = [{ type: 'italic', offset: 0, length: header.length }];
+  if (title) {
+    entities.push({ type: 'bold', offset: header.length + 2, length: title.length });
+  }
+  return { text: [header, title, content].filter(Boolean).join('\n\n'), entities };
 };
-
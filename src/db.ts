@@ -3,16 +3,41 @@ import { v4 as uuid } from 'uuid';
 import { withDbRetry } from './utils/dbRetry';
 import {
   DEFAULT_DELIVERY_SETTINGS,
+  DailyLimits,
   DeliverySettings,
+  NO_DAILY_LIMITS,
+  WeekdayActiveHours,
+  parseWeekdayActiveHours,
+  planBacklogSpread,
   planReminderDelivery,
+  planUnderDailyLimit,
+  startOfLocalDay,
 } from './reminderPlanner';
+import { DeliveryPause, EMPTY_DELIVERY_PAUSE } from './deliveryPause';
+import { nextDigestAt, ReminderDigestSettings, splitDigestSlots } from './reminderDigest';
+import {
+  ANALYTICS_HISTORY_DAYS,
+  buildLearningAnalytics,
+  computeDueForecast,
+  computeReviewStreak,
+  FORECAST_DAYS,
+  LearningAnalytics,
+  localDay,
+} from './learningStats';
+import { DEFAULT_WEEKLY_REPORT_WEEKDAY, WEEKLY_REPORT_DAYS, WeeklyReport } from './weeklyReport';
+import { applyLapse, DEFAULT_LEECH_THRESHOLD } from './cardLeeches';
+import { isSameCardContent, mergeEditedTags } from './cardEditing';
 import {
   ReminderRebalancePreview,
   ReminderRebalancePreviewChange,
   buildReminderRebalancePreview,
 } from './reminderRebalance';
+import { buildSearchTsQuery } from './cardSearch';
+import { serializeCardContentPayload } from './cardContent';
 import { buildCourseStepCardText, CourseStepKind } from './courses';
 import { slugifyCourseTitle } from './courseMarketplace';
+import { FsrsMemoryState } from './fsrs';
+import type { GradeKey } from './spacedRepetition';
 
 export type CardStatus = 'pending' | 'learning' | 'awaiting_grade' | 'archived';
 export type BacklogItemStatus = 'open' | 'done' | 'archived';
@@ -50,12 +75,27 @@ export interface CardRecord {
   contentPreview: string | null;
   contentFileId: string | null;
   contentFileUniqueId: string | null;
+  contentPayload: string | null;
+  tags: string[];
   reminderMode: ReminderMode;
   scheduleRule: string | null;
   status: CardStatus;
   repetition: number;
+  fsrsStability: number | null;
+  fsrsDifficulty: number | null;
+  fsrsRetrievability: number | null;
   nextReviewAt: string | null;
   lastReviewedAt: string | null;
+  /** «Снова» answers over the card's life. */
+  lapses: number;
+  /** When the card became a leech; `null` — not a leech. */
+  leechAt: string | null;
+  /** A suspended leech has no next review until it is resumed. */
+  suspendedAt: string | null;
+  /** When every file of the card was copied to the media store; `null` — not copied yet. */
+  mediaMirroredAt: string | null;
+  /** Failed copies to the media store so far; reset when the card content changes. */
+  mediaMirrorAttempts: number;
   pendingChannelId: string | null;
   pendingChannelMessageId: number | null;
   baseChannelMessageId: number | null;
@@ -94,12 +134,22 @@ export interface CreatePendingCardInput {
   contentPreview: string | null;
   contentFileId: string | null;
   contentFileUniqueId: string | null;
+  contentPayload?: string | null;
+  tags?: string[];
   reminderMode: ReminderMode;
   scheduleRule?: string | null;
 }
 
 export interface ActivateCardInput {
   nextReviewAt: string;
+  repetition?: number | undefined;
+  lastReviewedAt?: string | undefined;
+}
+
+/** A card created and activated at once, e.g. a note of an imported deck. */
+export interface ImportedCardInput {
+  card: CreatePendingCardInput;
+  activation: ActivateCardInput;
 }
 
 export interface AwaitingGradeInput {
@@ -112,18 +162,148 @@ export interface AwaitingGradeInput {
 
 export interface ReviewResultInput {
   cardId: string;
+  grade: ReviewLogGrade;
   nextReviewAt: string;
   repetition: number;
   reviewedAt: string;
+  fsrs?: FsrsMemoryState | undefined;
+  /** Archive the card after this review: its schedule has no occurrences left. */
+  archive?: boolean | undefined;
+  /** Replaces the stored schedule rule, e.g. with one occurrence less. */
+  scheduleRule?: string | undefined;
+}
+
+export type ReviewLogGrade = GradeKey | 'preset' | 'schedule_change';
+
+export interface ReviewLogRecord {
+  id: string;
+  cardId: string;
+  jobId: string | null;
+  userId: string;
+  queueScopeType: QueueScopeType;
+  queueScopeId: string;
+  grade: ReviewLogGrade;
+  reminderMode: ReminderMode;
+  repetition: number;
+  previousIntervalDays: number | null;
+  nextIntervalDays: number;
+  elapsedDays: number | null;
+  latencyMs: number | null;
+  reviewedAt: string;
+  nextReviewAt: string;
+  createdAt: string;
+}
+
+export type CardRevisionSource = 'reply' | 'source_edit' | 'miniapp';
+
+export interface CardContentInput {
+  contentType: string;
+  contentPreview: string | null;
+  contentFileId: string | null;
+  contentFileUniqueId: string | null;
+  contentPayload: string | null;
+  /** The message that now holds the content, when a reply replaced it. */
+  source?: { chatId: string; messageId: number } | undefined;
+}
+
+/** The content a card had before one edit. */
+export interface CardRevisionRecord {
+  id: string;
+  cardId: string;
+  source: CardRevisionSource;
+  editedBy: string | null;
+  sourceChatId: string;
+  sourceMessageId: number;
+  sourceMessageIds: number[] | null;
+  contentType: string;
+  contentPreview: string | null;
+  contentFileId: string | null;
+  contentFileUniqueId: string | null;
+  contentPayload: string | null;
+  createdAt: string;
+}
+
+export interface ReviewLogMetrics {
+  previousIntervalDays: number | null;
+  nextIntervalDays: number;
+  elapsedDays: number | null;
+  latencyMs: number | null;
 }
 
 export interface ListCardsParams {
   status?: CardStatus | undefined;
+  tag?: string | undefined;
+  /** Full-text search over the preview, captions and transcripts; results are ranked by relevance. */
+  search?: string | undefined;
+  /** Only leeches, the most lapsed first. */
+  leech?: boolean | undefined;
   limit?: number | undefined;
 }
 
+export interface DeckRecord {
+  tag: string;
+  cardCount: number;
+  dailyLimit: number | null;
+  deliveredToday: number;
+}
+
+export interface DeckLimitOverflow {
+  tag: string;
+  dailyLimit: number;
+  delivered: number;
+}
+
+export interface DailyLimitOverflow {
+  limit: number;
+  delivered: number;
+}
+
+export interface VacationEndResult {
+  pause: DeliveryPause;
+  rescheduled: number;
+  spreadDays: number;
+}
+
+export interface DueReminderDigest extends ReminderDigestSettings {
+  queueScope: QueueScope;
+  userId: string;
+}
+
+export interface DueWeeklyReport {
+  userId: string;
+  weekday: number;
+  /** `null` until the scheduler plans the first report after sign-up or a settings change. */
+  nextWeeklyReportAt: string | null;
+  notificationChatId: string | null;
+}
+
+export interface PendingLeechNotice {
+  card: CardRecord;
+  notificationChatId: string | null;
+}
+
+export interface ClaimedDigestJobs {
+  /** Reviews that came due (now `sending`) and unanswered ones carried over from earlier messages. */
+  items: ReminderJobWithCard[];
+  /** Due reviews left `pending` for the next digest because the message is full. */
+  remaining: number;
+}
+
+export type SchedulerNodeRole = 'leader' | 'standby';
+
+export interface SchedulerNodeRecord {
+  nodeId: string;
+  hostname: string;
+  pid: number;
+  role: SchedulerNodeRole;
+  startedAt: string;
+  heartbeatAt: string;
+  leaderSince: string | null;
+}
+
 export interface ListBacklogItemsParams {
   status?: BacklogItemStatus | undefined;
+  search?: string | undefined;
   limit?: number | undefined;
 }
 
@@ -158,6 +338,14 @@ export interface ReminderJobRecord {
   baseMessageId: number | null;
   snoozedFromJobId: string | null;
   error: string | null;
+  /** Failed delivery attempts so far; reset when a dead-lettered job is retried by hand. */
+  attempts: number;
+  /** Set when the job gave up (permanent error or attempts exhausted) and sits in the dead-letter list. */
+  deadLetteredAt: string | null;
+  /** Review of a card that has never been graded; counts against the scope's new-card limit. */
+  newCard: boolean;
+  /** Digest message the job was delivered in; grading it updates that message's keyboard. */
+  digestId: string | null;
   metadata: string | null;
   createdAt: string;
   updatedAt: string;
@@ -264,6 +452,10 @@ export interface CourseDetailsRecord extends CourseMarketplaceRecord {
   steps: CourseStepRecord[];
 }
 
+export interface CourseWithStepsRecord extends CourseRecord {
+  steps: CourseStepRecord[];
+}
+
 export interface AppUserRecord {
   id: string;
   displayName: string | null;
@@ -322,8 +514,26 @@ export interface CreateReminderJobInput {
   metadata?: string | null;
 }
 
-export type ReminderMode = 'sm2' | 'schedule';
-export type UserReminderSettings = DeliverySettings;
+export type ReminderMode = 'sm2' | 'schedule' | 'fsrs';
+export type DefaultReminderMode = Extract<ReminderMode, 'sm2' | 'fsrs'>;
+
+export interface UserReminderSettings extends DeliverySettings {
+  defaultReminderMode: DefaultReminderMode;
+  dailyReviewLimit: number | null;
+  dailyNewCardLimit: number | null;
+  /** Weekday of the weekly report (0 = Sunday); `null` — no report. */
+  weeklyReportWeekday: number | null;
+  /** Lapses after which a card becomes a leech. */
+  leechThreshold: number;
+}
+
+export type UserReminderSettingsInput = DeliverySettings & {
+  defaultReminderMode?: DefaultReminderMode;
+  dailyReviewLimit?: number | null;
+  dailyNewCardLimit?: number | null;
+  weeklyReportWeekday?: number | null;
+  leechThreshold?: number;
+};
 
 export const buildUserQueueScope = (userId: string): QueueScope => ({
   type: 'user',
@@ -380,6 +590,9 @@ const serializeSourceMessageIds = (value?: number[] | null): string | null => {
   return JSON.stringify(value);
 };
 
+const searchTsQuerySql = (param: string) =>
+  `(to_tsquery('russian', ${param}) || to_tsquery('english', ${param}))`;
+
 const rowToCard = (row: any): CardRecord => ({
   id: row.id,
   userId: row.user_id,
@@ -392,12 +605,22 @@ const rowToCard = (row: any): CardRecord => ({
   contentPreview: row.content_preview,
   contentFileId: row.content_file_id,
   contentFileUniqueId: row.content_file_unique_id,
+  contentPayload: row.content_payload ?? null,
+  tags: Array.isArray(row.tags) ? row.tags.map(String) : [],
   reminderMode: row.reminder_mode as ReminderMode,
   scheduleRule: row.schedule_rule ?? null,
   status: row.status as CardStatus,
   repetition: Number(row.repetition),
+  fsrsStability: row.fsrs_stability ?? null,
+  fsrsDifficulty: row.fsrs_difficulty ?? null,
+  fsrsRetrievability: row.fsrs_retrievability ?? null,
   nextReviewAt: row.next_review_at,
   lastReviewedAt: row.last_reviewed_at,
+  lapses: Number(row.lapses ?? 0),
+  leechAt: row.leech_at ?? null,
+  suspendedAt: row.suspended_at ?? null,
+  mediaMirroredAt: row.media_mirrored_at ?? null,
+  mediaMirrorAttempts: Number(row.media_mirror_attempts ?? 0),
   pendingChannelId: row.pending_channel_id,
   pendingChannelMessageId: row.pending_channel_message_id,
   baseChannelMessageId: row.base_channel_message_id,
@@ -442,11 +665,76 @@ const rowToReminderJob = (row: any): ReminderJobRecord => ({
   baseMessageId: row.base_message_id,
   snoozedFromJobId: row.snoozed_from_job_id,
   error: row.error,
+  attempts: Number(row.attempts ?? 0),
+  deadLetteredAt: row.dead_lettered_at ?? null,
+  newCard: Boolean(row.new_card),
+  digestId: row.digest_id ?? null,
   metadata: row.metadata,
   createdAt: row.created_at,
   updatedAt: row.updated_at,
 });
 
+const rowToCardRevision = (row: any): CardRevisionRecord => ({
+  id: row.id,
+  cardId: row.card_id,
+  source: row.source as CardRevisionSource,
+  editedBy: row.edited_by ?? null,
+  sourceChatId: row.source_chat_id,
+  sourceMessageId: Number(row.source_message_id),
+  sourceMessageIds: parseSourceMessageIds(row.source_message_ids),
+  contentType: row.content_type,
+  contentPreview: row.content_preview ?? null,
+  contentFileId: row.content_file_id ?? null,
+  contentFileUniqueId: row.content_file_unique_id ?? null,
+  contentPayload: row.content_payload ?? null,
+  createdAt: row.created_at,
+});
+
+const rowToReviewLog = (row: any): ReviewLogRecord => ({
+  id: row.id,
+  cardId: row.card_id,
+  jobId: row.job_id ?? null,
+  userId: row.user_id,
+  queueScopeType: normalizeQueueScopeType(row.queue_scope_type),
+  queueScopeId: row.queue_scope_id ?? row.user_id,
+  grade: row.grade as ReviewLogGrade,
+  reminderMode: row.reminder_mode as ReminderMode,
+  repetition: Number(row.repetition),
+  previousIntervalDays: row.previous_interval_days ?? null,
+  nextIntervalDays: Number(row.next_interval_days),
+  elapsedDays: row.elapsed_days ?? null,
+  latencyMs: row.latency_ms === null || row.latency_ms === undefined ? null : Number(row.latency_ms),
+  reviewedAt: row.reviewed_at,
+  nextReviewAt: row.next_review_at,
+  createdAt: row.created_at,
+});
+
+const DAY_MS = 24 * 60 * 60_000;
+
+const daysBetween = (from: string | null, to: string | null): number | null => {
+  if (!from || !to) return null;
+  const diff = Date.parse(to) - Date.parse(from);
+  if (!Number.isFinite(diff)) return null;
+  return Math.round((diff / DAY_MS) * 1000) / 1000;
+};
+
+export const computeReviewLogMetrics = (input: {
+  previousReviewedAt: string | null;
+  previousNextReviewAt: string | null;
+  sentAt: string | null;
+  reviewedAt: string;
+  nextReviewAt: string;
+}): ReviewLogMetrics => {
+  const latency = input.sentAt ? Date.parse(input.reviewedAt) - Date.parse(input.sentAt) : Number.NaN;
+  const elapsedDays = daysBetween(input.previousReviewedAt, input.reviewedAt);
+  return {
+    previousIntervalDays: daysBetween(input.previousReviewedAt, input.previousNextReviewAt),
+    nextIntervalDays: Math.max(0, daysBetween(input.reviewedAt, input.nextReviewAt) ?? 0),
+    elapsedDays: elapsedDays === null ? null : Math.max(0, elapsedDays),
+    latencyMs: Number.isFinite(latency) ? Math.max(0, latency) : null,
+  };
+};
+
 const rowToCourse = (row: any): CourseRecord => ({
   id: row.id,
   ownerUserId: row.owner_user_id,
@@ -536,6 +824,37 @@ const rowToUserAuthAccount = (row: any): UserAuthAccountRecord => ({
   updatedAt: row.updated_at,
 });
 
+const rowToSchedulerNode = (row: any): SchedulerNodeRecord => ({
+  nodeId: row.node_id,
+  hostname: row.hostname,
+  pid: Number(row.pid),
+  role: row.role,
+  startedAt: row.started_at,
+  heartbeatAt: row.heartbeat_at,
+  leaderSince: row.leader_since ?? null,
+});
+
+const rowToDeliveryPause = (row: any): DeliveryPause => ({
+  doNotDisturbUntil: row.do_not_disturb_until ?? null,
+  vacationSince: row.vacation_since ?? null,
+  vacationUntil: row.vacation_until ?? null,
+  vacationSpreadDays: Number(row.vacation_spread_days ?? EMPTY_DELIVERY_PAUSE.vacationSpreadDays),
+});
+
+const rowToReminderDigestSettings = (row: any): ReminderDigestSettings => ({
+  sendAtMinutes: Number(row.send_at_minutes),
+  nextDigestAt: row.next_digest_at,
+});
+
+const parseStoredWeekdayHours = (raw: string | null | undefined): WeekdayActiveHours | null => {
+  if (!raw) return null;
+  try {
+    return parseWeekdayActiveHours(JSON.parse(raw)) ?? null;
+  } catch {
+    return null;
+  }
+};
+
 const rowToWebSession = (row: any): WebSessionRecord => ({
   id: row.id,
   appUserId: row.app_user_id,
@@ -585,9 +904,24 @@ import * as schema from './db/schema';
 
 // ... existing imports ...
 
+// Key of the session advisory lock held by the scheduler leader (arbitrary, app-wide constant).
+const SCHEDULER_LEASE_LOCK_KEY = '7204918653001';
+// Heartbeats older than this belong to nodes that are gone; they are pruned on every heartbeat.
+const SCHEDULER_NODE_RETENTION_MS = 24 * 60 * 60_000;
+// Reviews moved at once when a pause ends; anything beyond is delivered as it comes due.
+const MAX_PAUSE_BACKLOG_JOBS = 1000;
+// How far ahead a review is moved looking for a day under the scope's daily limit.
+const DAILY_LIMIT_LOOKAHEAD_DAYS = 60;
+
+/** The pool, or a client holding an open transaction. */
+type Queryable = Pool | PoolClient;
+
 export class CardStore {
   private pool: Pool;
   private db: ReturnType<typeof drizzle<typeof schema>>;
+  private schedulerLeaseClient: PoolClient | null = null;
+  // A checked-out client has no pool listener; without this a dropped lease connection crashes the process.
+  private readonly onSchedulerLeaseError = () => this.dropSchedulerLeaseClient(true);
 
   constructor(connectionString: string) {
     this.pool = new Pool(buildPoolConfig(connectionString));
@@ -1004,7 +1338,8 @@ export class CardStore {
   private async getDeliverySettings(userId: string): Promise<DeliverySettings> {
     const { rows } = await this.pool.query(
       `
-      SELECT timezone, active_hours_start, active_hours_end, reminder_min_gap_minutes
+      SELECT timezone, active_hours_start, active_hours_end, reminder_min_gap_minutes,
+             weekday_active_hours
       FROM users
       WHERE id = $1
     `,
@@ -1016,18 +1351,60 @@ export class CardStore {
       activeHoursStart: Number(row.active_hours_start ?? DEFAULT_DELIVERY_SETTINGS.activeHoursStart),
       activeHoursEnd: Number(row.active_hours_end ?? DEFAULT_DELIVERY_SETTINGS.activeHoursEnd),
       minGapMinutes: Number(row.reminder_min_gap_minutes ?? DEFAULT_DELIVERY_SETTINGS.minGapMinutes),
+      weekdayHours: parseStoredWeekdayHours(row.weekday_active_hours),
+    };
+  }
+
+  /** Timezone the user's schedules and reminder times are read in. */
+  async getUserTimezone(userId: string): Promise<string> {
+    return (await this.getDeliverySettings(userId)).timezone;
+  }
+
+  async getUserDefaultReminderMode(userId: string): Promise<DefaultReminderMode> {
+    const { rows } = await this.pool.query(
+      `SELECT default_reminder_mode FROM users WHERE id = $1`,
+      [userId],
+    );
+    return rows[0]?.default_reminder_mode === 'fsrs' ? 'fsrs' : 'sm2';
+  }
+
+  private async getLearningPreferences(
+    userId: string,
+  ): Promise<{ weeklyReportWeekday: number | null; leechThreshold: number }> {
+    const { rows } = await this.pool.query(
+      `SELECT weekly_report_weekday, leech_threshold FROM users WHERE id = $1`,
+      [userId],
+    );
+    if (!rows.length) {
+      return { weeklyReportWeekday: DEFAULT_WEEKLY_REPORT_WEEKDAY, leechThreshold: DEFAULT_LEECH_THRESHOLD };
+    }
+    return {
+      weeklyReportWeekday: rows[0].weekly_report_weekday === null ? null : Number(rows[0].weekly_report_weekday),
+      leechThreshold: Number(rows[0].leech_threshold ?? DEFAULT_LEECH_THRESHOLD),
     };
   }
 
   async getUserReminderSettings(userId: string): Promise<UserReminderSettings> {
-    return this.getDeliverySettings(userId);
+    const settings = await this.getDeliverySettings(userId);
+    const defaultReminderMode = await this.getUserDefaultReminderMode(userId);
+    const limits = await this.getDailyLimits(buildUserQueueScope(userId));
+    const preferences = await this.getLearningPreferences(userId);
+    return {
+      ...settings,
+      defaultReminderMode,
+      dailyReviewLimit: limits.reviewsPerDay,
+      dailyNewCardLimit: limits.newCardsPerDay,
+      ...preferences,
+    };
   }
 
   async updateUserReminderSettings(
     userId: string,
-    settings: UserReminderSettings,
+    settings: UserReminderSettingsInput,
   ): Promise<UserReminderSettings> {
     const now = new Date().toISOString();
+    // The report goes out at the start of the active hours of its weekday, so the planned time is
+    // dropped only when one of those settings changes; otherwise every save would postpone it.
     await this.pool.query(
       `
       UPDATE users
@@ -1035,18 +1412,44 @@ export class CardStore {
           active_hours_start = $2,
           active_hours_end = $3,
           reminder_min_gap_minutes = $4,
-          updated_at = $5
-      WHERE id = $6
+          default_reminder_mode = COALESCE($5, default_reminder_mode),
+          weekday_active_hours = $6,
+          weekly_report_weekday = CASE WHEN $7 THEN $8::integer ELSE weekly_report_weekday END,
+          next_weekly_report_at = CASE
+            WHEN timezone IS DISTINCT FROM $1
+              OR active_hours_start IS DISTINCT FROM $2
+              OR weekday_active_hours IS DISTINCT FROM $6
+              OR ($7 AND weekly_report_weekday IS DISTINCT FROM $8::integer)
+            THEN NULL
+            ELSE next_weekly_report_at
+          END,
+          leech_threshold = COALESCE($9, leech_threshold),
+          updated_at = $10
+      WHERE id = $11
     `,
       [
         settings.timezone,
         settings.activeHoursStart,
         settings.activeHoursEnd,
         settings.minGapMinutes,
+        settings.defaultReminderMode ?? null,
+        settings.weekdayHours ? JSON.stringify(settings.weekdayHours) : null,
+        settings.weeklyReportWeekday !== undefined,
+        settings.weeklyReportWeekday ?? null,
+        settings.leechThreshold ?? null,
         now,
         userId,
       ],
     );
+    if (settings.dailyReviewLimit !== undefined || settings.dailyNewCardLimit !== undefined) {
+      const current = await this.getDailyLimits(buildUserQueueScope(userId));
+      await this.setDailyLimits(buildUserQueueScope(userId), {
+        reviewsPerDay:
+          settings.dailyReviewLimit === undefined ? current.reviewsPerDay : settings.dailyReviewLimit,
+        newCardsPerDay:
+          settings.dailyNewCardLimit === undefined ? current.newCardsPerDay : settings.dailyNewCardLimit,
+      });
+    }
     return this.getUserReminderSettings(userId);
   }
 
@@ -1083,7 +1486,7 @@ export class CardStore {
     const movingIds = movingRows.map((row) => row.id);
     const { rows: fixedRows } = await this.pool.query(
       `
-      SELECT scheduled_at
+      SELECT scheduled_at, kind, new_card
       FROM reminder_jobs
       WHERE user_id = $1
         AND queue_scope_type = 'user'
@@ -1103,6 +1506,7 @@ export class CardStore {
         contentPreview: row.content_preview ?? null,
         dueAt: row.due_at,
         scheduledAt: row.scheduled_at,
+        newCard: Boolean(row.new_card),
       })),
       fixedScheduledAt: fixedRows.map((row) => row.scheduled_at),
       visibleFixedScheduledAt: fixedRows
@@ -1111,6 +1515,10 @@ export class CardStore {
           const value = Date.parse(scheduledAt);
           return value >= Date.parse(generatedAt) && value < horizonEnd.getTime();
         }),
+      limitedFixedJobs: fixedRows
+        .filter((row) => row.kind === 'review')
+        .map((row) => ({ scheduledAt: row.scheduled_at, newCard: Boolean(row.new_card) })),
+      dailyLimits: await this.getDailyLimits(buildUserQueueScope(userId)),
       settings,
       generatedAt,
       horizonDays,
@@ -1197,14 +1605,17 @@ export class CardStore {
   private async planScheduledAt(
     userId: string,
     queueScope: QueueScope,
-    dueAt: string,
+    requestedDueAt: string,
+    newCard = false,
+    executor: Queryable = this.pool,
   ): Promise<string> {
     const settings = await this.getDeliverySettings(userId);
+    const dueAt = await this.planUnderScopeDailyLimit(queueScope, settings, requestedDueAt, newCard, executor);
     const from = new Date(dueAt);
     from.setDate(from.getDate() - 1);
     const to = new Date(dueAt);
     to.setDate(to.getDate() + 7);
-    const { rows } = await this.pool.query(
+    const { rows } = await executor.query(
       `
       SELECT scheduled_at
       FROM reminder_jobs
@@ -1224,8 +1635,48 @@ export class CardStore {
     });
   }
 
-  private async getCardQueueScope(cardId: string, fallbackUserId: string): Promise<QueueScope> {
-    const { rows } = await this.pool.query(
+  /** Moves a review past the local days on which the scope's daily limit is already used up. */
+  private async planUnderScopeDailyLimit(
+    queueScope: QueueScope,
+    settings: DeliverySettings,
+    dueAt: string,
+    newCard: boolean,
+    executor: Queryable = this.pool,
+  ): Promise<string> {
+    const limits = await this.getDailyLimits(queueScope);
+    const limit = newCard ? limits.newCardsPerDay : limits.reviewsPerDay;
+    if (!limit) return dueAt;
+    const from = startOfLocalDay(dueAt, settings.timezone);
+    const to = new Date(Date.parse(from) + DAILY_LIMIT_LOOKAHEAD_DAYS * DAY_MS).toISOString();
+    const { rows } = await executor.query(
+      `
+      SELECT COALESCE(sent_at, scheduled_at) AS taken_at
+      FROM reminder_jobs
+      WHERE queue_scope_type = $1
+        AND queue_scope_id = $2
+        AND kind = 'review'
+        AND new_card = $3
+        AND (status IN ('pending', 'sending') OR sent_at IS NOT NULL)
+        AND COALESCE(sent_at, scheduled_at) >= $4
+        AND COALESCE(sent_at, scheduled_at) < $5
+    `,
+      [queueScope.type, queueScope.id, newCard, from, to],
+    );
+    return planUnderDailyLimit({
+      dueAt,
+      limit,
+      takenAt: rows.map((row) => row.taken_at),
+      settings,
+      maxDays: DAILY_LIMIT_LOOKAHEAD_DAYS,
+    });
+  }
+
+  private async getCardQueueScope(
+    cardId: string,
+    fallbackUserId: string,
+    executor: Queryable = this.pool,
+  ): Promise<QueueScope> {
+    const { rows } = await executor.query(
       `
       SELECT queue_scope_type, queue_scope_id, user_id
       FROM cards
@@ -1317,7 +1768,7 @@ export class CardStore {
       enrollment.cadence === 'daily' && step.position > 1
         ? new Date(Date.parse(releasedAt) + 24 * 60 * 60_000).toISOString()
         : releasedAt;
-    const cardText = buildCourseStepCardText({
+    const { text: cardText, entities: cardEntities } = buildCourseStepCardText({
       courseTitle: stepRows[0].course_title,
       stepPosition: step.position,
       totalSteps,
@@ -1331,7 +1782,7 @@ export class CardStore {
       INSERT INTO cards (
         id, user_id, queue_scope_type, queue_scope_id,
         source_chat_id, source_message_id, source_message_ids,
-        content_type, content_preview, content_file_id, content_file_unique_id,
+        content_type, content_preview, content_file_id, content_file_unique_id, content_payload,
         reminder_mode, schedule_rule, status,
         repetition, next_review_at, last_reviewed_at,
         pending_channel_id, pending_channel_message_id, base_channel_message_id,
@@ -1340,7 +1791,7 @@ export class CardStore {
       ) VALUES (
         $1, $2, $3, $4,
         $5, 0, NULL,
-        'text', $6, NULL, NULL,
+        'text', $6, NULL, NULL, $9,
         'schedule', NULL, 'learning',
         0, $7, NULL,
         NULL, NULL, NULL,
@@ -1358,6 +1809,7 @@ export class CardStore {
         cardText,
         dueAt,
         releasedAt,
+        serializeCardContentPayload({ entities: cardEntities }),
       ],
     );
     const card = rowToCard(cardRows[0]);
@@ -1622,6 +2074,40 @@ export class CardStore {
     };
   }
 
+  async listOwnedCoursesWithSteps(params: {
+    ownerUserId: string | null;
+    ownerAppUserId: string | null;
+  }): Promise<CourseWithStepsRecord[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT *
+      FROM courses
+      WHERE owner_user_id = $1
+         OR owner_app_user_id = $2
+      ORDER BY created_at ASC
+    `,
+      [params.ownerUserId, params.ownerAppUserId],
+    );
+    if (!rows.length) {
+      return [];
+    }
+    const courses = rows.map(rowToCourse);
+    const { rows: stepRows } = await this.pool.query(
+      `
+      SELECT *
+      FROM course_steps
+      WHERE course_id = ANY($1::text[])
+      ORDER BY course_id, position ASC
+    `,
+      [courses.map((course) => course.id)],
+    );
+    const steps = stepRows.map(rowToCourseStep);
+    return courses.map((course) => ({
+      ...course,
+      steps: steps.filter((step) => step.courseId === course.id),
+    }));
+  }
+
   async createCourseWithSteps(input: {
     ownerUserId?: string | null;
     ownerAppUserId?: string | null;
@@ -1844,11 +2330,12 @@ export class CardStore {
     }
   }
 
-  async createReminderJob(input: CreateReminderJobInput): Promise<ReminderJobRecord> {
+  /** `executor` lets a caller create the job inside its own transaction. */
+  async createReminderJob(input: CreateReminderJobInput, executor: Queryable = this.pool): Promise<ReminderJobRecord> {
     const now = new Date().toISOString();
-    const queueScope = await this.getCardQueueScope(input.cardId, input.userId);
+    const queueScope = await this.getCardQueueScope(input.cardId, input.userId, executor);
     if (input.kind === 'review' || input.kind === 'manual_now' || input.kind === 'one_time') {
-      await this.pool.query(
+      await executor.query(
         `
         UPDATE reminder_jobs
         SET status = 'cancelled',
@@ -1856,7 +2343,7 @@ export class CardStore {
             updated_at = $1
         WHERE card_id = $2
           AND kind = ANY($3::text[])
-          AND status = 'pending'
+          AND (status = 'pending' OR (status = 'failed' AND dead_lettered_at IS NOT NULL))
       `,
         [
           now,
@@ -1869,20 +2356,21 @@ export class CardStore {
         ],
       );
     }
+    const newCard = input.kind === 'review' && (await this.isCardNeverReviewed(input.cardId, executor));
     const scheduledAt =
       input.scheduledAt ??
       (input.kind === 'one_time'
         ? input.dueAt
-        : await this.planScheduledAt(input.userId, queueScope, input.dueAt));
-    const { rows } = await this.pool.query(
+        : await this.planScheduledAt(input.userId, queueScope, input.dueAt, newCard, executor));
+    const { rows } = await executor.query(
       `
       INSERT INTO reminder_jobs (
         id, card_id, user_id, queue_scope_type, queue_scope_id, kind, source, status,
-        due_at, scheduled_at, snoozed_from_job_id, metadata,
+        due_at, scheduled_at, snoozed_from_job_id, metadata, new_card,
         created_at, updated_at
       ) VALUES (
         $1, $2, $3, $4, $5, $6, $7, 'pending',
-        $8, $9, $10, $11,
+        $8, $9, $10, $11, $13,
         $12, $12
       )
       RETURNING *
@@ -1900,11 +2388,12 @@ export class CardStore {
         input.snoozedFromJobId ?? null,
         input.metadata ?? null,
         now,
+        newCard,
       ],
     );
     const job = rowToReminderJob(rows[0]);
     if (job.kind === 'review') {
-      await this.pool.query(
+      await executor.query(
         `
         UPDATE cards
         SET next_review_at = $1,
@@ -1918,15 +2407,23 @@ export class CardStore {
     return job;
   }
 
-  async createPendingCard(input: CreatePendingCardInput): Promise<CardRecord> {
+  private async isCardNeverReviewed(cardId: string, executor: Queryable = this.pool): Promise<boolean> {
+    const { rows } = await executor.query(
+      `SELECT last_reviewed_at FROM cards WHERE id = $1`,
+      [cardId],
+    );
+    return Boolean(rows[0]) && !rows[0].last_reviewed_at;
+  }
+
+  async createPendingCard(input: CreatePendingCardInput, executor: Queryable = this.pool): Promise<CardRecord> {
     const now = new Date().toISOString();
     const queueScope = normalizeQueueScope(input);
-    const { rows } = await this.pool.query(
+    const { rows } = await executor.query(
       `
       INSERT INTO cards (
         id, user_id, queue_scope_type, queue_scope_id,
         source_chat_id, source_message_id, source_message_ids,
-        content_type, content_preview, content_file_id, content_file_unique_id,
+        content_type, content_preview, content_file_id, content_file_unique_id, content_payload, tags,
         reminder_mode, schedule_rule, status,
         repetition,
         next_review_at,
@@ -1942,7 +2439,7 @@ export class CardStore {
       ) VALUES (
         $1, $2, $3, $4,
         $5, $6, $7,
-        $8, $9, $10, $11,
+        $8, $9, $10, $11, $15, $16,
         $12, $13, 'pending',
         0,
         NULL,
@@ -1973,6 +2470,8 @@ export class CardStore {
         input.reminderMode,
         input.scheduleRule ?? null,
         now,
+        input.contentPayload ?? null,
+        input.tags ?? [],
       ],
     );
     return rowToCard(rows[0]);
@@ -2039,8 +2538,8 @@ export class CardStore {
     await this.pool.query(`DELETE FROM cards WHERE id = $1`, [id]);
   }
 
-  async getCardById(id: string): Promise<CardRecord> {
-    const { rows } = await this.pool.query(`SELECT * FROM cards WHERE id = $1`, [id]);
+  async getCardById(id: string, executor: Queryable = this.pool): Promise<CardRecord> {
+    const { rows } = await executor.query(`SELECT * FROM cards WHERE id = $1`, [id]);
     if (!rows.length) {
       throw new Error(`Card ${id} not found`);
     }
@@ -2062,29 +2561,53 @@ export class CardStore {
     return this.getCardById(id);
   }
 
-  async activateCard(id: string, input: ActivateCardInput): Promise<CardRecord> {
+  async activateCard(id: string, input: ActivateCardInput, executor: Queryable = this.pool): Promise<CardRecord> {
     const now = new Date().toISOString();
-    await this.pool.query(
+    await executor.query(
       `
       UPDATE cards
       SET status = 'learning',
           next_review_at = $1,
+          repetition = COALESCE($4, repetition),
+          last_reviewed_at = COALESCE($5, last_reviewed_at),
           updated_at = $2
       WHERE id = $3
     `,
-      [input.nextReviewAt, now, id],
+      [input.nextReviewAt, now, id, input.repetition ?? null, input.lastReviewedAt ?? null],
+    );
+    const card = await this.getCardById(id, executor);
+    await this.createReminderJob(
+      {
+        cardId: card.id,
+        userId: card.userId,
+        kind: 'review',
+        dueAt: input.nextReviewAt,
+        source: 'activate',
+      },
+      executor,
     );
-    const card = await this.getCardById(id);
-    await this.createReminderJob({
-      cardId: card.id,
-      userId: card.userId,
-      kind: 'review',
-      dueAt: input.nextReviewAt,
-      source: 'activate',
-    });
     return card;
   }
 
+  /** Creates and activates a batch of cards in one transaction: either all of them or none are saved. */
+  async importCards(inputs: ImportedCardInput[]): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const input of inputs) {
+        const card = await this.createPendingCard(input.card, client);
+        await this.activateCard(card.id, input.activation, client);
+      }
+      await client.query('COMMIT');
+      return inputs.length;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async listDueCards(limit: number): Promise<CardRecord[]> {
     const { rows } = await this.pool.query(
       `
@@ -2114,7 +2637,11 @@ export class CardStore {
           FROM reminder_jobs
           WHERE reminder_jobs.card_id = cards.id
             AND reminder_jobs.kind IN ('review', 'manual_now')
-            AND reminder_jobs.status IN ('pending', 'sending', 'awaiting_action')
+            AND (
+              reminder_jobs.status IN ('pending', 'sending', 'awaiting_action')
+              -- a dead-lettered review waits for "retry now" instead of being recreated every tick
+              OR (reminder_jobs.status = 'failed' AND reminder_jobs.dead_lettered_at IS NOT NULL)
+            )
         )
       ORDER BY next_review_at ASC
       LIMIT $2
@@ -2162,6 +2689,28 @@ export class CardStore {
           )
           AND reminder_jobs.scheduled_at <= $1
           AND cards.status <> 'archived'
+          AND (
+            reminder_jobs.kind <> 'review'
+            OR NOT EXISTS (
+              SELECT 1
+              FROM queue_scope_digests
+              WHERE queue_scope_digests.queue_scope_type = reminder_jobs.queue_scope_type
+                AND queue_scope_digests.queue_scope_id = reminder_jobs.queue_scope_id
+            )
+          )
+          AND (
+            reminder_jobs.kind = 'manual_now'
+            OR NOT EXISTS (
+              SELECT 1
+              FROM delivery_pauses
+              WHERE delivery_pauses.queue_scope_type = reminder_jobs.queue_scope_type
+                AND delivery_pauses.queue_scope_id = reminder_jobs.queue_scope_id
+                AND (
+                  delivery_pauses.vacation_since IS NOT NULL
+                  OR delivery_pauses.do_not_disturb_until > $1
+                )
+            )
+          )
         ORDER BY reminder_jobs.scheduled_at ASC
         LIMIT $2
         FOR UPDATE OF reminder_jobs SKIP LOCKED
@@ -2188,110 +2737,82 @@ export class CardStore {
   }
 
   async listCards(params: ListCardsParams = {}): Promise<CardRecord[]> {
-    const limit = params.limit ?? 100;
-    if (params.status) {
-      const { rows } = await this.pool.query(
-        `
-        SELECT *
-        FROM cards
-        WHERE status = $1
-        ORDER BY updated_at DESC
-        LIMIT $2
-      `,
-        [params.status, limit],
-      );
-      return rows.map(rowToCard);
-    }
-    const { rows } = await this.pool.query(
-      `
-      SELECT *
-      FROM cards
-      ORDER BY updated_at DESC
-      LIMIT $1
-    `,
-      [limit],
-    );
-    return rows.map(rowToCard);
+    return this.queryCards([], [], params);
   }
 
   async listCardsByUser(
     params: ListCardsParams & { userId: string; queueScope?: QueueScope },
+  ): Promise<CardRecord[]> {
+    const conditions = ['user_id = $1'];
+    const values: unknown[] = [params.userId];
+    if (params.queueScope) {
+      values.push(params.queueScope.type, params.queueScope.id);
+      conditions.push(`queue_scope_type = $${values.length - 1}`, `queue_scope_id = $${values.length}`);
+    }
+    return this.queryCards(conditions, values, params);
+  }
+
+  private async queryCards(
+    conditions: string[],
+    values: unknown[],
+    params: ListCardsParams,
   ): Promise<CardRecord[]> {
     const limit = params.limit ?? 100;
+    let orderBy = 'updated_at DESC';
     if (params.status) {
-      if (params.queueScope) {
-        const { rows } = await this.pool.query(
-          `
-          SELECT *
-          FROM cards
-          WHERE user_id = $1
-            AND status = $2
-            AND queue_scope_type = $3
-            AND queue_scope_id = $4
-          ORDER BY updated_at DESC
-          LIMIT $5
-        `,
-          [
-            params.userId,
-            params.status,
-            params.queueScope.type,
-            params.queueScope.id,
-            limit,
-          ],
-        );
-        return rows.map(rowToCard);
-      }
-      const { rows } = await this.pool.query(
-        `
-        SELECT *
-        FROM cards
-        WHERE user_id = $1
-          AND status = $2
-        ORDER BY updated_at DESC
-        LIMIT $3
-      `,
-        [params.userId, params.status, limit],
-      );
-      return rows.map(rowToCard);
+      values.push(params.status);
+      conditions.push(`status = $${values.length}`);
     }
-    if (params.queueScope) {
-      const { rows } = await this.pool.query(
-        `
-        SELECT *
-        FROM cards
-        WHERE user_id = $1
-          AND queue_scope_type = $2
-          AND queue_scope_id = $3
-        ORDER BY updated_at DESC
-        LIMIT $4
-      `,
-        [params.userId, params.queueScope.type, params.queueScope.id, limit],
-      );
-      return rows.map(rowToCard);
+    if (params.tag) {
+      values.push(params.tag);
+      conditions.push(`$${values.length} = ANY(tags)`);
+    }
+    if (params.leech) {
+      conditions.push('leech_at IS NOT NULL');
+      orderBy = 'lapses DESC, leech_at DESC';
     }
+    if (params.search !== undefined) {
+      const tsQuery = buildSearchTsQuery(params.search);
+      if (!tsQuery) return [];
+      values.push(tsQuery);
+      const query = searchTsQuerySql(`$${values.length}`);
+      conditions.push(`search_vector @@ ${query}`);
+      orderBy = `ts_rank(search_vector, ${query}) DESC, updated_at DESC`;
+    }
+    values.push(limit);
     const { rows } = await this.pool.query(
       `
       SELECT *
       FROM cards
-      WHERE user_id = $1
-      ORDER BY updated_at DESC
-      LIMIT $2
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${orderBy}
+      LIMIT $${values.length}
     `,
-      [params.userId, limit],
+      values,
     );
     return rows.map(rowToCard);
   }
 
-  async listReminderQueueByUser(params: { userId: string; limit?: number }): Promise<ReminderQueueItem[]> {
+  async listReminderQueueByUser(params: {
+    userId: string;
+    limit?: number;
+    tag?: string | null;
+  }): Promise<ReminderQueueItem[]> {
     const queueScope = buildUserQueueScope(params.userId);
-    if (params.limit === undefined) {
-      return this.listReminderQueueByScope({ queueScope });
-    }
-    return this.listReminderQueueByScope({ queueScope, limit: params.limit });
+    return this.listReminderQueueByScope({
+      queueScope,
+      tag: params.tag ?? null,
+      ...(params.limit === undefined ? {} : { limit: params.limit }),
+    });
   }
 
-  async listReminderQueueByScope(params: { queueScope: QueueScope; limit?: number }): Promise<ReminderQueueItem[]> {
+  async listReminderQueueByScope(params: {
+    queueScope: QueueScope;
+    limit?: number;
+    tag?: string | null;
+  }): Promise<ReminderQueueItem[]> {
     const limit = Math.min(100, Math.max(1, params.limit ?? 20));
+    const tag = params.tag ?? null;
     const now = new Date().toISOString();
     const items: ReminderQueueItem[] = [];
 
@@ -2307,11 +2828,12 @@ export class CardStore {
         AND cards.queue_scope_id = $2
         AND reminder_jobs.status = 'awaiting_action'
         AND cards.status IN ('learning', 'awaiting_grade')
+        AND ($4::text IS NULL OR $4 = ANY(cards.tags))
       ORDER BY reminder_jobs.sent_at ASC NULLS LAST,
                reminder_jobs.updated_at ASC
       LIMIT $3
     `,
-      [params.queueScope.type, params.queueScope.id, limit],
+      [params.queueScope.type, params.queueScope.id, limit, tag],
     );
     for (const row of activeRows) {
       const job = rowToReminderJob(row.job);
@@ -2341,11 +2863,12 @@ export class CardStore {
             WHERE reminder_jobs.card_id = cards.id
               AND reminder_jobs.status = 'awaiting_action'
           )
+          AND ($4::text IS NULL OR $4 = ANY(tags))
         ORDER BY awaiting_grade_since ASC NULLS LAST,
                  updated_at ASC
         LIMIT $3
       `,
-        [params.queueScope.type, params.queueScope.id, remaining],
+        [params.queueScope.type, params.queueScope.id, remaining, tag],
       );
       for (const row of orphanAwaitingRows) {
         const card = rowToCard(row);
@@ -2386,10 +2909,11 @@ export class CardStore {
             WHERE active_jobs.card_id = cards.id
               AND active_jobs.status IN ('sending', 'awaiting_action')
           )
+          AND ($4::text IS NULL OR $4 = ANY(cards.tags))
         ORDER BY cards.next_review_at ASC
         LIMIT $3
       `,
-        [params.queueScope.type, params.queueScope.id, remaining],
+        [params.queueScope.type, params.queueScope.id, remaining, tag],
       );
       for (const row of scheduledRows) {
         const card = rowToCard(row.card);
@@ -2411,27 +2935,44 @@ export class CardStore {
 
   async listBacklogItems(params: ListBacklogItemsParams = {}): Promise<BacklogItemRecord[]> {
     const limit = params.limit ?? 100;
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let orderBy = 'created_at DESC';
     if (params.status) {
-      const { rows } = await this.pool.query(
-        `
-        SELECT *
-        FROM backlog_items
-        WHERE status = $1
-        ORDER BY created_at DESC
-        LIMIT $2
-      `,
-        [params.status, limit],
-      );
-      return rows.map(rowToBacklogItem);
+      values.push(params.status);
+      conditions.push(`status = $${values.length}`);
     }
+    if (params.search !== undefined) {
+      const tsQuery = buildSearchTsQuery(params.search);
+      if (!tsQuery) return [];
+      values.push(tsQuery);
+      const query = searchTsQuerySql(`$${values.length}`);
+      conditions.push(`search_vector @@ ${query}`);
+      orderBy = `ts_rank(search_vector, ${query}) DESC, created_at DESC`;
+    }
+    values.push(limit);
     const { rows } = await this.pool.query(
       `
       SELECT *
       FROM backlog_items
-      ORDER BY created_at DESC
-      LIMIT $1
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${orderBy}
+      LIMIT $${values.length}
     `,
-      [limit],
+      values,
+    );
+    return rows.map(rowToBacklogItem);
+  }
+
+  async listBacklogItemsByUser(userId: string): Promise<BacklogItemRecord[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT *
+      FROM backlog_items
+      WHERE user_id = $1
+      ORDER BY created_at ASC
+    `,
+      [userId],
     );
     return rows.map(rowToBacklogItem);
   }
@@ -2596,19 +3137,76 @@ export class CardStore {
     );
   }
 
-  async failReminderJob(jobId: string, error: string): Promise<void> {
+  /**
+   * Counts a failed delivery. With `retryAt` the job goes back to `pending` at that time;
+   * without it the job is dead-lettered: `failed` with `dead_lettered_at` set.
+   */
+  async recordReminderJobFailure(input: {
+    jobId: string;
+    error: string;
+    retryAt: string | null;
+  }): Promise<ReminderJobRecord | null> {
     const now = new Date().toISOString();
-    await this.pool.query(
+    const { rows } = await this.pool.query(
       `
       UPDATE reminder_jobs
-      SET status = 'failed',
-          completed_at = $1,
+      SET attempts = attempts + 1,
           error = $2,
+          status = CASE WHEN $3::text IS NULL THEN 'failed' ELSE 'pending' END,
+          scheduled_at = COALESCE($3::text, scheduled_at),
+          completed_at = CASE WHEN $3::text IS NULL THEN $1 END,
+          dead_lettered_at = CASE WHEN $3::text IS NULL THEN $1 END,
           updated_at = $1
-      WHERE id = $3
+      WHERE id = $4
+      RETURNING *
+    `,
+      [now, input.error.slice(0, 500), input.retryAt, input.jobId],
+    );
+    return rows[0] ? rowToReminderJob(rows[0]) : null;
+  }
+
+  async listDeadLetterReminderJobs(limit: number): Promise<ReminderJobWithCard[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT to_jsonb(reminder_jobs) AS job, to_jsonb(cards) AS card
+      FROM reminder_jobs
+      JOIN cards ON cards.id = reminder_jobs.card_id
+      WHERE reminder_jobs.status = 'failed'
+        AND reminder_jobs.dead_lettered_at IS NOT NULL
+      ORDER BY reminder_jobs.dead_lettered_at DESC
+      LIMIT $1
+    `,
+      [limit],
+    );
+    return rows.map((row) => ({
+      job: rowToReminderJob(row.job),
+      card: rowToCard(row.card),
+    }));
+  }
+
+  /** Puts a dead-lettered job back into the queue right away with a fresh attempt budget. */
+  async retryDeadLetterReminderJob(jobId: string): Promise<ReminderJobRecord | null> {
+    const now = new Date().toISOString();
+    const { rows } = await this.pool.query(
+      `
+      UPDATE reminder_jobs
+      SET status = 'pending',
+          attempts = 0,
+          scheduled_at = $1,
+          completed_at = NULL,
+          dead_lettered_at = NULL,
+          updated_at = $1
+      WHERE id = $2
+        AND status = 'failed'
+        AND dead_lettered_at IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM cards WHERE cards.id = reminder_jobs.card_id AND cards.status <> 'archived'
+        )
+      RETURNING *
     `,
-      [now, error.slice(0, 500), jobId],
+      [now, jobId],
     );
+    return rows[0] ? rowToReminderJob(rows[0]) : null;
   }
 
   async snoozeReminderJob(jobId: string, minutes: number): Promise<ReminderJobRecord> {
@@ -2662,174 +3260,705 @@ export class CardStore {
   }
 
   async saveReviewResult(input: ReviewResultInput & { jobId?: string | null }): Promise<void> {
-    await this.pool.query(
-      `
-      UPDATE cards
-      SET status = 'learning',
-          last_reviewed_at = $1,
-          repetition = $2,
-          next_review_at = $3,
-          pending_channel_id = NULL,
-          pending_channel_message_id = NULL,
-          awaiting_grade_since = NULL,
-          updated_at = $1
-      WHERE id = $4
-    `,
-      [
-        input.reviewedAt,
-        input.repetition,
-        input.nextReviewAt,
-        input.cardId,
-      ],
-    );
-    const completedAt = input.reviewedAt;
-    if (input.jobId) {
-      await this.pool.query(
+    const previous = await this.getCardById(input.cardId);
+    const { leechThreshold } = await this.getLearningPreferences(previous.userId);
+    const lapse = applyLapse(previous, input.grade, { threshold: leechThreshold, reviewedAt: input.reviewedAt });
+    const { rows: jobRows } = input.jobId
+      ? await this.pool.query(`SELECT id, sent_at FROM reminder_jobs WHERE id = $1`, [input.jobId])
+      : await this.pool.query(
+          `
+          SELECT id, sent_at
+          FROM reminder_jobs
+          WHERE card_id = $1
+            AND kind IN ('review', 'manual_now')
+            AND status = 'awaiting_action'
+          ORDER BY sent_at DESC NULLS LAST
+          LIMIT 1
+        `,
+          [input.cardId],
+        );
+    const reviewedJob = jobRows[0] ?? null;
+
+    // The card update, the review log and the next job land together, so a failed insert never
+    // leaves a reviewed card without a reminder.
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
         `
-        UPDATE reminder_jobs
-        SET status = 'completed',
-            completed_at = $1,
+        UPDATE cards
+        SET status = 'learning',
+            last_reviewed_at = $1,
+            repetition = $2,
+            next_review_at = $3,
+            fsrs_stability = COALESCE($5, fsrs_stability),
+            fsrs_difficulty = COALESCE($6, fsrs_difficulty),
+            fsrs_retrievability = CASE WHEN $5::double precision IS NULL THEN fsrs_retrievability ELSE $7 END,
+            lapses = $8,
+            leech_at = $9,
+            suspended_at = NULL,
+            pending_channel_id = NULL,
+            pending_channel_message_id = NULL,
+            awaiting_grade_since = NULL,
+            schedule_rule = COALESCE($10, schedule_rule),
             updated_at = $1
-        WHERE id = $2
+        WHERE id = $4
       `,
-        [completedAt, input.jobId],
+        [
+          input.reviewedAt,
+          input.repetition,
+          input.nextReviewAt,
+          input.cardId,
+          input.fsrs?.stability ?? null,
+          input.fsrs?.difficulty ?? null,
+          input.fsrs?.retrievability ?? null,
+          lapse.lapses,
+          lapse.leechAt,
+          input.scheduleRule ?? null,
+        ],
       );
-    } else {
-      await this.pool.query(
+      const completedAt = input.reviewedAt;
+      if (input.jobId) {
+        await client.query(
+          `
+          UPDATE reminder_jobs
+          SET status = 'completed',
+              completed_at = $1,
+              updated_at = $1
+          WHERE id = $2
+        `,
+          [completedAt, input.jobId],
+        );
+      } else {
+        await client.query(
+          `
+          UPDATE reminder_jobs
+          SET status = 'completed',
+              completed_at = $1,
+              updated_at = $1
+          WHERE card_id = $2
+            AND kind IN ('review', 'manual_now')
+            AND status = 'awaiting_action'
+        `,
+          [completedAt, input.cardId],
+        );
+      }
+      const metrics = computeReviewLogMetrics({
+        previousReviewedAt: previous.lastReviewedAt,
+        previousNextReviewAt: previous.nextReviewAt,
+        sentAt: reviewedJob?.sent_at ?? null,
+        reviewedAt: input.reviewedAt,
+        nextReviewAt: input.nextReviewAt,
+      });
+      const card = previous;
+      await client.query(
         `
-        UPDATE reminder_jobs
-        SET status = 'completed',
-            completed_at = $1,
-            updated_at = $1
-        WHERE card_id = $2
-          AND kind IN ('review', 'manual_now')
-          AND status = 'awaiting_action'
+        INSERT INTO review_logs (
+          id, card_id, job_id, user_id, queue_scope_type, queue_scope_id,
+          grade, reminder_mode, repetition,
+          previous_interval_days, next_interval_days, elapsed_days, latency_ms,
+          reviewed_at, next_review_at, created_at
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6,
+          $7, $8, $9,
+          $10, $11, $12, $13,
+          $14, $15, $16
+        )
       `,
-        [completedAt, input.cardId],
+        [
+          uuid(),
+          card.id,
+          reviewedJob?.id ?? null,
+          card.userId,
+          card.queueScopeType,
+          card.queueScopeId,
+          input.grade,
+          card.reminderMode,
+          input.repetition,
+          metrics.previousIntervalDays,
+          metrics.nextIntervalDays,
+          metrics.elapsedDays,
+          metrics.latencyMs,
+          input.reviewedAt,
+          input.nextReviewAt,
+          new Date().toISOString(),
+        ],
       );
+      if (input.archive) {
+        await this.updateStatus(card.id, 'archived', client);
+      } else {
+        await this.createReminderJob(
+          {
+            cardId: card.id,
+            userId: card.userId,
+            kind: 'review',
+            dueAt: input.nextReviewAt,
+            source: 'review_result',
+          },
+          client,
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
-    const card = await this.getCardById(input.cardId);
-    await this.createReminderJob({
-      cardId: card.id,
-      userId: card.userId,
-      kind: 'review',
-      dueAt: input.nextReviewAt,
-      source: 'review_result',
-    });
   }
 
-  async rescheduleCard(cardId: string, nextReviewAt: string): Promise<void> {
-    const now = new Date().toISOString();
-    await this.pool.query(
+  async listReminderJobsByUser(userId: string): Promise<ReminderJobRecord[]> {
+    const { rows } = await this.pool.query(
       `
-      UPDATE cards
-      SET status = 'learning',
-          next_review_at = $1,
-          pending_channel_id = NULL,
-          pending_channel_message_id = NULL,
-          awaiting_grade_since = NULL,
-          updated_at = $2
-      WHERE id = $3
+      SELECT *
+      FROM reminder_jobs
+      WHERE user_id = $1
+      ORDER BY created_at ASC
     `,
-      [nextReviewAt, now, cardId],
+      [userId],
     );
-    await this.pool.query(
+    return rows.map(rowToReminderJob);
+  }
+
+  async listReviewLogsByCard(cardId: string, limit = 100): Promise<ReviewLogRecord[]> {
+    const { rows } = await this.pool.query(
       `
-      UPDATE reminder_jobs
-      SET status = 'cancelled',
-          completed_at = $1,
-          updated_at = $1
-      WHERE card_id = $2
-        AND kind IN ('review', 'manual_now')
-        AND status IN ('pending', 'sending', 'awaiting_action')
+      SELECT *
+      FROM review_logs
+      WHERE card_id = $1
+      ORDER BY reviewed_at DESC
+      LIMIT $2
     `,
-      [now, cardId],
+      [cardId, limit],
     );
-    const card = await this.getCardById(cardId);
-    await this.createReminderJob({
-      cardId: card.id,
-      userId: card.userId,
-      kind: 'review',
-      dueAt: nextReviewAt,
-      source: 'reschedule',
-    });
+    return rows.map(rowToReviewLog);
   }
 
-  async recordNotification(input: RecordNotificationInput): Promise<void> {
-    await this.pool.query(
+  /**
+   * Review history since `since`, oldest first; all scopes when no scope is given (dashboard).
+   * Past `limit` the newest reviews are kept.
+   */
+  async listReviewLogs(params: {
+    queueScope?: QueueScope;
+    since: string;
+    limit?: number;
+  }): Promise<ReviewLogRecord[]> {
+    const conditions = ['reviewed_at >= $1'];
+    const values: unknown[] = [params.since];
+    if (params.queueScope) {
+      values.push(params.queueScope.type, params.queueScope.id);
+      conditions.push(`queue_scope_type = $${values.length - 1}`, `queue_scope_id = $${values.length}`);
+    }
+    values.push(params.limit ?? 50_000);
+    const { rows } = await this.pool.query(
       `
-      UPDATE cards
-      SET last_notification_at = $1,
-          last_notification_reason = $2,
-          last_notification_message_id = $3
-      WHERE id = $4
+      SELECT *
+      FROM review_logs
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY reviewed_at DESC
+      LIMIT $${values.length}
     `,
-      [input.sentAt, input.reason, input.messageId, input.cardId],
+      values,
     );
-    if (input.jobId) {
-      await this.pool.query(
-        `
-        UPDATE reminder_jobs
-        SET sent_at = $1,
-            delivery_message_id = $2,
-            updated_at = $1
-        WHERE id = $3
-      `,
-        [input.sentAt, input.messageId, input.jobId],
-      );
-    }
+    return rows.map(rowToReviewLog).reverse();
   }
 
-  async setBaseChannelMessage(cardId: string, messageId: number | null): Promise<void> {
-    await this.pool.query(
+  /** Active cards with a review before `until`, just the fields the due forecast needs. */
+  async listForecastCards(params: {
+    queueScope?: QueueScope;
+    until: string;
+  }): Promise<Array<Pick<CardRecord, 'status' | 'nextReviewAt' | 'scheduleRule'>>> {
+    const conditions = [`status IN ('learning', 'awaiting_grade')`, 'next_review_at < $1'];
+    const values: unknown[] = [params.until];
+    if (params.queueScope) {
+      values.push(params.queueScope.type, params.queueScope.id);
+      conditions.push(`queue_scope_type = $${values.length - 1}`, `queue_scope_id = $${values.length}`);
+    }
+    const { rows } = await this.pool.query(
       `
-      UPDATE cards
-      SET base_channel_message_id = $1
-      WHERE id = $2
+      SELECT status, next_review_at, schedule_rule
+      FROM cards
+      WHERE ${conditions.join(' AND ')}
     `,
-      [messageId, cardId],
+      values,
     );
+    return rows.map((row) => ({
+      status: row.status as CardStatus,
+      nextReviewAt: row.next_review_at,
+      scheduleRule: row.schedule_rule ?? null,
+    }));
   }
 
-  async clearAwaitingGrade(cardId: string): Promise<void> {
+  /**
+   * Streaks, retention and the due forecast of a scope (or of everything for the dashboard)
+   * over the last `ANALYTICS_HISTORY_DAYS` days of review history.
+   */
+  async getLearningAnalytics(params: {
+    queueScope?: QueueScope;
+    timezone: string;
+  }): Promise<LearningAnalytics> {
     const now = new Date().toISOString();
-    await this.pool.query(
+    const [logs, cards] = await Promise.all([
+      this.listReviewLogs({
+        ...(params.queueScope ? { queueScope: params.queueScope } : {}),
+        since: new Date(Date.now() - ANALYTICS_HISTORY_DAYS * 24 * 60 * 60_000).toISOString(),
+      }),
+      this.listForecastCards({
+        ...(params.queueScope ? { queueScope: params.queueScope } : {}),
+        until: new Date(Date.now() + (FORECAST_DAYS + 1) * 24 * 60 * 60_000).toISOString(),
+      }),
+    ]);
+    return buildLearningAnalytics({ logs, cards, timezone: params.timezone, now });
+  }
+
+  /**
+   * One user's last `WEEKLY_REPORT_DAYS` days up to `until`: cards they added and reviews they
+   * graded in any scope, course steps of their enrollments, and the load of their personal queue
+   * for the week ahead.
+   */
+  async getWeeklyReport(params: {
+    userId: string;
+    timezone: string;
+    until?: string;
+  }): Promise<WeeklyReport> {
+    const until = params.until ?? new Date().toISOString();
+    const since = new Date(Date.parse(until) - WEEKLY_REPORT_DAYS * 24 * 60 * 60_000).toISOString();
+    const historySince = new Date(Date.parse(until) - ANALYTICS_HISTORY_DAYS * 24 * 60 * 60_000).toISOString();
+    const { rows: countRows } = await this.pool.query(
       `
-      UPDATE cards
-      SET status = 'learning',
-          pending_channel_id = NULL,
-          pending_channel_message_id = NULL,
-          awaiting_grade_since = NULL,
-          updated_at = $1
-      WHERE id = $2
-        AND status = 'awaiting_grade'
+      SELECT
+        (
+          SELECT count(*)::int
+          FROM cards
+          WHERE user_id = $1 AND created_at >= $2 AND created_at < $3
+        ) AS cards_added,
+        (
+          SELECT count(*)::int
+          FROM review_logs
+          WHERE user_id = $1 AND reviewed_at >= $2 AND reviewed_at < $3
+            AND grade IN ('again', 'hard', 'good', 'easy')
+        ) AS reviews,
+        (
+          SELECT count(*)::int
+          FROM review_logs
+          WHERE user_id = $1 AND reviewed_at >= $2 AND reviewed_at < $3
+            AND grade = 'again'
+        ) AS again_count
     `,
-      [now, cardId],
+      [params.userId, since, until],
     );
-    await this.pool.query(
+    const { rows: dayRows } = await this.pool.query(
       `
-      UPDATE reminder_jobs
-      SET status = 'cancelled',
-          completed_at = $1,
-          updated_at = $1
-      WHERE card_id = $2
-        AND kind IN ('review', 'manual_now')
-        AND status = 'awaiting_action'
+      SELECT DISTINCT to_char(reviewed_at::timestamptz AT TIME ZONE $4, 'YYYY-MM-DD') AS day
+      FROM review_logs
+      WHERE user_id = $1 AND reviewed_at >= $2 AND reviewed_at < $3
+        AND grade IN ('again', 'hard', 'good', 'easy')
     `,
-      [now, cardId],
+      [params.userId, historySince, until, params.timezone],
+    );
+    const { rows: courseRows } = await this.pool.query(
+      `
+      SELECT courses.id,
+             courses.title,
+             count(*) FILTER (
+               WHERE course_step_deliveries.released_at >= $2 AND course_step_deliveries.released_at < $3
+             )::int AS released,
+             count(*) FILTER (
+               WHERE course_step_deliveries.viewed_at >= $2 AND course_step_deliveries.viewed_at < $3
+             )::int AS viewed,
+             (SELECT count(*)::int FROM course_steps WHERE course_steps.course_id = courses.id) AS total_steps,
+             COALESCE(bool_or(course_enrollments.completed_at >= $2 AND course_enrollments.completed_at < $3), false) AS completed
+      FROM course_step_deliveries
+      JOIN course_enrollments ON course_enrollments.id = course_step_deliveries.enrollment_id
+      JOIN courses ON courses.id = course_enrollments.course_id
+      WHERE course_enrollments.user_id = $1
+        AND (
+          (course_step_deliveries.released_at >= $2 AND course_step_deliveries.released_at < $3)
+          OR (course_step_deliveries.viewed_at >= $2 AND course_step_deliveries.viewed_at < $3)
+        )
+      GROUP BY courses.id, courses.title
+      ORDER BY courses.title ASC
+    `,
+      [params.userId, since, until],
     );
+    const cards = await this.listForecastCards({
+      queueScope: buildUserQueueScope(params.userId),
+      until: new Date(Date.parse(until) + (WEEKLY_REPORT_DAYS + 1) * 24 * 60 * 60_000).toISOString(),
+    });
+    const counts = countRows[0] ?? {};
+    return {
+      since,
+      until,
+      timezone: params.timezone,
+      cardsAdded: Number(counts.cards_added ?? 0),
+      reviews: Number(counts.reviews ?? 0),
+      againCount: Number(counts.again_count ?? 0),
+      streak: computeReviewStreak(
+        dayRows.map((row) => row.day as string),
+        localDay(until, params.timezone),
+      ),
+      courses: courseRows.map((row) => ({
+        courseId: row.id,
+        title: row.title,
+        released: Number(row.released),
+        viewed: Number(row.viewed),
+        totalSteps: Number(row.total_steps),
+        completed: Boolean(row.completed),
+      })),
+      upcoming: computeDueForecast({
+        cards,
+        timezone: params.timezone,
+        now: until,
+        days: WEEKLY_REPORT_DAYS,
+      }),
+    };
   }
 
-  async listExpiredAwaitingCards(cutoffIso: string): Promise<CardRecord[]> {
+  /** Users whose weekly report is due or not planned yet; paused users wait until the pause is over. */
+  async listDueWeeklyReports(nowIso: string, limit: number): Promise<DueWeeklyReport[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT id, weekly_report_weekday, next_weekly_report_at, notification_chat_id
+      FROM users
+      WHERE status = 'approved'
+        AND weekly_report_weekday IS NOT NULL
+        AND (next_weekly_report_at IS NULL OR next_weekly_report_at <= $1)
+        AND NOT EXISTS (
+          SELECT 1
+          FROM delivery_pauses
+          WHERE delivery_pauses.queue_scope_type = 'user'
+            AND delivery_pauses.queue_scope_id = users.id
+            AND (
+              delivery_pauses.vacation_since IS NOT NULL
+              OR delivery_pauses.do_not_disturb_until > $1
+            )
+        )
+      ORDER BY next_weekly_report_at ASC NULLS FIRST
+      LIMIT $2
+    `,
+      [nowIso, limit],
+    );
+    return rows.map((row) => ({
+      userId: row.id,
+      weekday: Number(row.weekly_report_weekday),
+      nextWeeklyReportAt: row.next_weekly_report_at ?? null,
+      notificationChatId: row.notification_chat_id ?? null,
+    }));
+  }
+
+  async scheduleNextWeeklyReport(userId: string, nextAt: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE users SET next_weekly_report_at = $1 WHERE id = $2`,
+      [nextAt, userId],
+    );
+  }
+
+  /** Fresh leeches nobody has been told about yet, oldest first; archived cards are skipped. */
+  async listPendingLeechNotices(limit: number): Promise<PendingLeechNotice[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT cards.*, users.notification_chat_id AS owner_notification_chat_id
+      FROM cards
+      JOIN users ON users.id = cards.user_id
+      WHERE cards.leech_at IS NOT NULL
+        AND cards.leech_notified_at IS NULL
+        AND cards.status <> 'archived'
+      ORDER BY cards.leech_at ASC
+      LIMIT $1
+    `,
+      [limit],
+    );
+    return rows.map((row) => ({
+      card: rowToCard(row),
+      notificationChatId: row.owner_notification_chat_id ?? null,
+    }));
+  }
+
+  async markLeechNoticeSent(cardId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE cards SET leech_notified_at = $1 WHERE id = $2`,
+      [new Date().toISOString(), cardId],
+    );
+  }
+
+  /** Cards with files not yet copied to the media store and not waiting for a retry, oldest first. */
+  async listCardsToMirror(limit: number, now = new Date().toISOString()): Promise<CardRecord[]> {
     const { rows } = await this.pool.query(
       `
       SELECT *
       FROM cards
-      WHERE status = 'awaiting_grade'
-        AND awaiting_grade_since IS NOT NULL
-        AND awaiting_grade_since <= $1
+      WHERE content_file_id IS NOT NULL
+        AND media_mirrored_at IS NULL
+        AND media_mirror_error IS NULL
+        AND (media_mirror_retry_at IS NULL OR media_mirror_retry_at <= $2)
+        AND status <> 'archived'
+      ORDER BY created_at ASC
+      LIMIT $1
+    `,
+      [limit, now],
+    );
+    return rows.map(rowToCard);
+  }
+
+  async markCardMediaMirrored(cardId: string): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE cards
+      SET media_mirrored_at = $1,
+          media_mirror_error = NULL,
+          media_mirror_retry_at = NULL
+      WHERE id = $2
+    `,
+      [new Date().toISOString(), cardId],
+    );
+  }
+
+  /**
+   * Counts a failed copy and schedules the next one at `retryAt`; without `retryAt` the error is
+   * kept and stops further attempts until the card content is edited.
+   */
+  async recordCardMediaMirrorFailure(params: {
+    cardId: string;
+    error: string;
+    retryAt: string | null;
+  }): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE cards
+      SET media_mirror_attempts = media_mirror_attempts + 1,
+          media_mirror_retry_at = $1,
+          media_mirror_error = CASE WHEN $1::text IS NULL THEN $2 ELSE NULL END
+      WHERE id = $3
+    `,
+      [params.retryAt, params.error, params.cardId],
+    );
+  }
+
+  /** Takes the card out of the review queue until `resumeCard`; the content and history stay. */
+  async suspendCard(cardId: string): Promise<CardRecord> {
+    const now = new Date().toISOString();
+    await this.pool.query(
+      `
+      UPDATE cards
+      SET status = CASE WHEN status = 'awaiting_grade' THEN 'learning' ELSE status END,
+          suspended_at = $1,
+          next_review_at = NULL,
+          pending_channel_id = NULL,
+          pending_channel_message_id = NULL,
+          awaiting_grade_since = NULL,
+          updated_at = $1
+      WHERE id = $2
+    `,
+      [now, cardId],
+    );
+    await this.pool.query(
+      `
+      UPDATE reminder_jobs
+      SET status = 'cancelled',
+          completed_at = $1,
+          updated_at = $1
+      WHERE card_id = $2
+        AND status IN ('pending', 'sending', 'awaiting_action')
+    `,
+      [now, cardId],
+    );
+    return this.getCardById(cardId);
+  }
+
+  /** Puts a suspended card back into the queue, due right away. */
+  async resumeCard(cardId: string): Promise<CardRecord> {
+    const now = new Date().toISOString();
+    const { rowCount } = await this.pool.query(
+      `
+      UPDATE cards
+      SET suspended_at = NULL,
+          next_review_at = $1,
+          updated_at = $1
+      WHERE id = $2
+        AND suspended_at IS NOT NULL
+    `,
+      [now, cardId],
+    );
+    const card = await this.getCardById(cardId);
+    if (rowCount && card.status === 'learning' && card.nextReviewAt) {
+      await this.createReminderJob({
+        cardId: card.id,
+        userId: card.userId,
+        kind: 'review',
+        dueAt: card.nextReviewAt,
+        source: 'leech_resume',
+      });
+    }
+    return card;
+  }
+
+  /** Forgets the lapses: the card is an ordinary one again and may become a leech anew. */
+  async clearLeech(cardId: string): Promise<CardRecord> {
+    await this.pool.query(
+      `
+      UPDATE cards
+      SET lapses = 0,
+          leech_at = NULL,
+          leech_notified_at = NULL,
+          updated_at = $1
+      WHERE id = $2
+    `,
+      [new Date().toISOString(), cardId],
+    );
+    return this.getCardById(cardId);
+  }
+
+  async rescheduleCard(cardId: string, nextReviewAt: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.pool.query(
+      `
+      UPDATE cards
+      SET status = 'learning',
+          next_review_at = $1,
+          pending_channel_id = NULL,
+          pending_channel_message_id = NULL,
+          awaiting_grade_since = NULL,
+          updated_at = $2
+      WHERE id = $3
+    `,
+      [nextReviewAt, now, cardId],
+    );
+    await this.pool.query(
+      `
+      UPDATE reminder_jobs
+      SET status = 'cancelled',
+          completed_at = $1,
+          updated_at = $1
+      WHERE card_id = $2
+        AND kind IN ('review', 'manual_now')
+        AND status IN ('pending', 'sending', 'awaiting_action')
+    `,
+      [now, cardId],
+    );
+    const card = await this.getCardById(cardId);
+    await this.createReminderJob({
+      cardId: card.id,
+      userId: card.userId,
+      kind: 'review',
+      dueAt: nextReviewAt,
+      source: 'reschedule',
+    });
+  }
+
+  async recordNotification(input: RecordNotificationInput): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE cards
+      SET last_notification_at = $1,
+          last_notification_reason = $2,
+          last_notification_message_id = $3
+      WHERE id = $4
+    `,
+      [input.sentAt, input.reason, input.messageId, input.cardId],
+    );
+    if (input.jobId) {
+      await this.pool.query(
+        `
+        UPDATE reminder_jobs
+        SET sent_at = $1,
+            delivery_message_id = $2,
+            updated_at = $1
+        WHERE id = $3
+      `,
+        [input.sentAt, input.messageId, input.jobId],
+      );
+    }
+  }
+
+  async setBaseChannelMessage(cardId: string, messageId: number | null): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE cards
+      SET base_channel_message_id = $1
+      WHERE id = $2
+    `,
+      [messageId, cardId],
+    );
+  }
+
+  async clearAwaitingGrade(cardId: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.pool.query(
+      `
+      UPDATE cards
+      SET status = 'learning',
+          pending_channel_id = NULL,
+          pending_channel_message_id = NULL,
+          awaiting_grade_since = NULL,
+          updated_at = $1
+      WHERE id = $2
+        AND status = 'awaiting_grade'
+    `,
+      [now, cardId],
+    );
+    await this.pool.query(
+      `
+      UPDATE reminder_jobs
+      SET status = 'cancelled',
+          completed_at = $1,
+          updated_at = $1
+      WHERE card_id = $2
+        AND kind IN ('review', 'manual_now')
+        AND status = 'awaiting_action'
+    `,
+      [now, cardId],
+    );
+  }
+
+  /**
+   * Claims cards that have waited for a grade since before `cutoffIso`: their
+   * `awaiting_grade_since` moves to now, so another scheduler node (or the next tick) skips them.
+   * Cards of paused scopes wait until the pause is over; cards of digest scopes are carried
+   * into the next digest instead.
+   * Returns the rows as they were before the claim, with the pending message still attached.
+   */
+  async claimExpiredAwaitingCards(cutoffIso: string, limit: number): Promise<CardRecord[]> {
+    const { rows } = await this.pool.query(
+      `
+      WITH picked AS (
+        SELECT *
+        FROM cards
+        WHERE status = 'awaiting_grade'
+          AND awaiting_grade_since IS NOT NULL
+          AND awaiting_grade_since <= $1
+          AND NOT EXISTS (
+            SELECT 1
+            FROM delivery_pauses
+            WHERE delivery_pauses.queue_scope_type = cards.queue_scope_type
+              AND delivery_pauses.queue_scope_id = cards.queue_scope_id
+              AND (
+                delivery_pauses.vacation_since IS NOT NULL
+                OR delivery_pauses.do_not_disturb_until > $2
+              )
+          )
+          AND NOT EXISTS (
+            SELECT 1
+            FROM queue_scope_digests
+            WHERE queue_scope_digests.queue_scope_type = cards.queue_scope_type
+              AND queue_scope_digests.queue_scope_id = cards.queue_scope_id
+          )
+        ORDER BY awaiting_grade_since ASC
+        LIMIT $3
+        FOR UPDATE SKIP LOCKED
+      ),
+      claimed AS (
+        UPDATE cards
+        SET awaiting_grade_since = $2
+        FROM picked
+        WHERE cards.id = picked.id
+        RETURNING cards.id
+      )
+      SELECT picked.*
+      FROM picked
+      JOIN claimed ON claimed.id = picked.id
+      ORDER BY picked.awaiting_grade_since ASC
     `,
-      [cutoffIso],
+      [cutoffIso, new Date().toISOString(), limit],
     );
     return rows.map(rowToCard);
   }
@@ -2854,9 +3983,9 @@ export class CardStore {
     });
   }
 
-  async updateStatus(cardId: string, status: CardStatus): Promise<void> {
+  async updateStatus(cardId: string, status: CardStatus, executor: Queryable = this.pool): Promise<void> {
     const now = new Date().toISOString();
-    await this.pool.query(
+    await executor.query(
       `
       UPDATE cards
       SET status = $1,
@@ -2867,7 +3996,7 @@ export class CardStore {
     );
 
     if (status === 'archived' || status === 'pending') {
-      await this.pool.query(
+      await executor.query(
         `
         UPDATE cards
         SET pending_channel_id = NULL,
@@ -2878,7 +4007,7 @@ export class CardStore {
       `,
         [now, cardId],
       );
-      await this.pool.query(
+      await executor.query(
         `
         UPDATE reminder_jobs
         SET status = 'cancelled',
@@ -2893,27 +4022,1060 @@ export class CardStore {
     }
 
     if (status === 'learning') {
-      const card = await this.getCardById(cardId);
-      if (card.nextReviewAt) {
-        await this.createReminderJob({
-          cardId: card.id,
-          userId: card.userId,
-          kind: 'review',
-          dueAt: card.nextReviewAt,
-          source: 'status_learning',
-        });
+      const { rows } = await executor.query(`SELECT * FROM cards WHERE id = $1`, [cardId]);
+      const card = rows[0] ? rowToCard(rows[0]) : null;
+      if (card?.nextReviewAt) {
+        await this.createReminderJob(
+          {
+            cardId: card.id,
+            userId: card.userId,
+            kind: 'review',
+            dueAt: card.nextReviewAt,
+            source: 'status_learning',
+          },
+          executor,
+        );
       }
     }
   }
 
-  async logUnrecognizedSchedule(userId: string, input: string): Promise<void> {
-    await this.pool.query(
-      `INSERT INTO unrecognized_schedules (user_id, input, created_at) VALUES ($1, $2, $3)`,
-      [userId, input.slice(0, 500), new Date().toISOString()],
+  async setCardTags(cardId: string, tags: string[]): Promise<CardRecord> {
+    const { rows } = await this.pool.query(
+      `
+      UPDATE cards
+      SET tags = $1,
+          updated_at = $2
+      WHERE id = $3
+      RETURNING *
+    `,
+      [tags, new Date().toISOString(), cardId],
+    );
+    if (!rows.length) {
+      throw new Error(`Card ${cardId} not found`);
+    }
+    return rowToCard(rows[0]);
+  }
+
+  /**
+   * Finds the cards behind a message the user replied to: the source message or a delivered
+   * reminder, newest first. A digest message lists several cards, so at most two are returned —
+   * enough for the caller to tell that the reply does not point at one card.
+   */
+  async findCardsByMessage(params: {
+    userId: string;
+    chatId: string;
+    messageId: number;
+  }): Promise<CardRecord[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT *
+      FROM cards
+      WHERE user_id = $1
+        AND (
+          (source_chat_id = $2 AND source_message_id = $3)
+          OR (pending_channel_id = $2 AND pending_channel_message_id = $3)
+          OR EXISTS (
+            SELECT 1
+            FROM reminder_jobs
+            WHERE reminder_jobs.card_id = cards.id
+              AND reminder_jobs.delivery_chat_id = $2
+              AND (reminder_jobs.delivery_message_id = $3 OR reminder_jobs.base_message_id = $3)
+          )
+        )
+      ORDER BY updated_at DESC
+      LIMIT 2
+    `,
+      [params.userId, params.chatId, params.messageId],
+    );
+    return rows.map(rowToCard);
+  }
+
+  /** Cards whose content came from this message, including every item of a media group. */
+  async listCardsBySourceMessage(params: { chatId: string; messageId: number }): Promise<CardRecord[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT *
+      FROM cards
+      WHERE source_chat_id = $1
+        AND (
+          source_message_id = $2
+          OR (source_message_ids IS NOT NULL AND source_message_ids::jsonb @> to_jsonb($2::integer))
+        )
+    `,
+      [params.chatId, params.messageId],
+    );
+    return rows.map(rowToCard);
+  }
+
+  /**
+   * Replaces the card content and keeps the previous one in `card_revisions`. The copied base
+   * message is dropped so the next reminder is built from the new content. Unchanged content
+   * (an edit of formatting only) is not saved as a revision.
+   */
+  async editCardContent(
+    cardId: string,
+    content: CardContentInput,
+    edit: { source: CardRevisionSource; editedBy: string | null },
+  ): Promise<CardRecord> {
+    const client = await this.pool.connect();
+    const now = new Date().toISOString();
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query(`SELECT * FROM cards WHERE id = $1 FOR UPDATE`, [cardId]);
+      if (!rows.length) {
+        throw new Error(`Card ${cardId} not found`);
+      }
+      const current = rowToCard(rows[0]);
+      if (isSameCardContent(current, content)) {
+        await client.query('ROLLBACK');
+        return current;
+      }
+      await client.query(
+        `
+        INSERT INTO card_revisions (
+          id, card_id, source, edited_by,
+          source_chat_id, source_message_id, source_message_ids,
+          content_type, content_preview, content_file_id, content_file_unique_id, content_payload,
+          created_at
+        )
+        SELECT $1, id, $2, $3,
+          source_chat_id, source_message_id, source_message_ids,
+          content_type, content_preview, content_file_id, content_file_unique_id, content_payload,
+          $4
+        FROM cards
+        WHERE id = $5
+      `,
+        [uuid(), edit.source, edit.editedBy, now, cardId],
+      );
+      const { rows: updatedRows } = await client.query(
+        `
+        UPDATE cards
+        SET content_type = $1,
+            content_preview = $2,
+            content_file_id = $3,
+            content_file_unique_id = $4,
+            content_payload = $5,
+            source_chat_id = COALESCE($6, source_chat_id),
+            source_message_id = COALESCE($7, source_message_id),
+            source_message_ids = CASE WHEN $6::text IS NULL THEN source_message_ids ELSE NULL END,
+            tags = $8,
+            base_channel_message_id = NULL,
+            media_mirrored_at = NULL,
+            media_mirror_error = NULL,
+            media_mirror_attempts = 0,
+            media_mirror_retry_at = NULL,
+            updated_at = $9
+        WHERE id = $10
+        RETURNING *
+      `,
+        [
+          content.contentType,
+          content.contentPreview,
+          content.contentFileId,
+          content.contentFileUniqueId,
+          content.contentPayload,
+          content.source?.chatId ?? null,
+          content.source?.messageId ?? null,
+          mergeEditedTags(current.tags, content.contentPreview),
+          now,
+          cardId,
+        ],
+      );
+      await client.query('COMMIT');
+      return rowToCard(updatedRows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Earlier versions of the card content, newest first. */
+  async listCardRevisions(cardId: string, limit = 50): Promise<CardRevisionRecord[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT *
+      FROM card_revisions
+      WHERE card_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2
+    `,
+      [cardId, limit],
+    );
+    return rows.map(rowToCardRevision);
+  }
+
+  /** Decks are the tags used by the scope's cards plus tags that only carry settings. */
+  async listDecks(params: { queueScope: QueueScope; since: string }): Promise<DeckRecord[]> {
+    const scopeValues = [params.queueScope.type, params.queueScope.id];
+    const [{ rows: cardRows }, { rows: settingRows }, { rows: deliveryRows }] = await Promise.all([
+      this.pool.query(
+        `
+        SELECT tag, COUNT(*)::int AS card_count
+        FROM cards, unnest(cards.tags) AS tag
+        WHERE queue_scope_type = $1
+          AND queue_scope_id = $2
+          AND status <> 'archived'
+        GROUP BY tag
+      `,
+        scopeValues,
+      ),
+      this.pool.query(
+        `
+        SELECT tag, daily_limit
+        FROM card_decks
+        WHERE queue_scope_type = $1
+          AND queue_scope_id = $2
+      `,
+        scopeValues,
+      ),
+      this.pool.query(
+        `
+        SELECT tag, COUNT(*)::int AS delivered
+        FROM reminder_jobs
+        JOIN cards ON cards.id = reminder_jobs.card_id,
+          unnest(cards.tags) AS tag
+        WHERE reminder_jobs.queue_scope_type = $1
+          AND reminder_jobs.queue_scope_id = $2
+          AND reminder_jobs.kind = 'review'
+          AND reminder_jobs.sent_at >= $3
+        GROUP BY tag
+      `,
+        [...scopeValues, params.since],
+      ),
+    ]);
+    const decks = new Map<string, DeckRecord>();
+    const ensureDeck = (tag: string) => {
+      let deck = decks.get(tag);
+      if (!deck) {
+        deck = { tag, cardCount: 0, dailyLimit: null, deliveredToday: 0 };
+        decks.set(tag, deck);
+      }
+      return deck;
+    };
+    for (const row of cardRows) ensureDeck(row.tag).cardCount = Number(row.card_count);
+    for (const row of settingRows) {
+      ensureDeck(row.tag).dailyLimit = row.daily_limit === null ? null : Number(row.daily_limit);
+    }
+    for (const row of deliveryRows) ensureDeck(row.tag).deliveredToday = Number(row.delivered);
+    return Array.from(decks.values()).sort((a, b) => a.tag.localeCompare(b.tag));
+  }
+
+  async setDeckDailyLimit(params: {
+    queueScope: QueueScope;
+    tag: string;
+    dailyLimit: number | null;
+  }): Promise<void> {
+    const now = new Date().toISOString();
+    await this.pool.query(
+      `
+      INSERT INTO card_decks (queue_scope_type, queue_scope_id, tag, daily_limit, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $5)
+      ON CONFLICT (queue_scope_type, queue_scope_id, tag)
+      DO UPDATE SET daily_limit = EXCLUDED.daily_limit,
+                    updated_at = EXCLUDED.updated_at
+    `,
+      [params.queueScope.type, params.queueScope.id, params.tag, params.dailyLimit, now],
+    );
+  }
+
+  /** Returns the first of the card's decks that already received its daily number of reviews. */
+  async findExceededDeckLimit(params: {
+    queueScope: QueueScope;
+    tags: string[];
+    since: string;
+  }): Promise<DeckLimitOverflow | null> {
+    if (!params.tags.length) return null;
+    const { rows } = await this.pool.query(
+      `
+      SELECT card_decks.tag,
+             card_decks.daily_limit,
+             (
+               SELECT COUNT(*)::int
+               FROM reminder_jobs
+               JOIN cards ON cards.id = reminder_jobs.card_id
+               WHERE reminder_jobs.queue_scope_type = card_decks.queue_scope_type
+                 AND reminder_jobs.queue_scope_id = card_decks.queue_scope_id
+                 AND reminder_jobs.kind = 'review'
+                 AND reminder_jobs.sent_at >= $4
+                 AND card_decks.tag = ANY(cards.tags)
+             ) AS delivered
+      FROM card_decks
+      WHERE card_decks.queue_scope_type = $1
+        AND card_decks.queue_scope_id = $2
+        AND card_decks.tag = ANY($3::text[])
+        AND card_decks.daily_limit IS NOT NULL
+    `,
+      [params.queueScope.type, params.queueScope.id, params.tags, params.since],
+    );
+    const exceeded = rows.find((row) => Number(row.delivered) >= Number(row.daily_limit));
+    return exceeded
+      ? { tag: exceeded.tag, dailyLimit: Number(exceeded.daily_limit), delivered: Number(exceeded.delivered) }
+      : null;
+  }
+
+  async getDeliveryPause(queueScope: QueueScope): Promise<DeliveryPause> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT *
+      FROM delivery_pauses
+      WHERE queue_scope_type = $1
+        AND queue_scope_id = $2
+    `,
+      [queueScope.type, queueScope.id],
+    );
+    return rows[0] ? rowToDeliveryPause(rows[0]) : { ...EMPTY_DELIVERY_PAUSE };
+  }
+
+  /**
+   * Holds the scope's reminders until `until` (`null` lifts it). Reviews that would come due
+   * before then are moved past it right away, so they do not all arrive the moment it ends.
+   */
+  async setDoNotDisturb(params: {
+    queueScope: QueueScope;
+    userId: string;
+    until: string | null;
+  }): Promise<{ pause: DeliveryPause; rescheduled: number }> {
+    const now = new Date().toISOString();
+    const settings = await this.getDeliverySettings(params.userId);
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query(
+        `
+        INSERT INTO delivery_pauses (
+          queue_scope_type, queue_scope_id, user_id, do_not_disturb_until, created_at, updated_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $5)
+        ON CONFLICT (queue_scope_type, queue_scope_id)
+        DO UPDATE SET user_id = EXCLUDED.user_id,
+                      do_not_disturb_until = EXCLUDED.do_not_disturb_until,
+                      updated_at = EXCLUDED.updated_at
+        RETURNING *
+      `,
+        [params.queueScope.type, params.queueScope.id, params.userId, params.until, now],
+      );
+      const pause = rowToDeliveryPause(rows[0]);
+      const rescheduled =
+        params.until && !pause.vacationSince
+          ? await this.spreadPausedBacklog(client, {
+              queueScope: params.queueScope,
+              settings,
+              before: params.until,
+              startAt: params.until,
+              spreadDays: 1,
+              now,
+            })
+          : 0;
+      await client.query('COMMIT');
+      return { pause, rescheduled };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Freezes the scope until `until` (`null` — until ended by hand); an ongoing vacation keeps its start. */
+  async startVacation(params: {
+    queueScope: QueueScope;
+    userId: string;
+    until: string | null;
+    spreadDays: number;
+  }): Promise<DeliveryPause> {
+    const now = new Date().toISOString();
+    const { rows } = await this.pool.query(
+      `
+      INSERT INTO delivery_pauses (
+        queue_scope_type, queue_scope_id, user_id, vacation_since, vacation_until,
+        vacation_spread_days, created_at, updated_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $4, $4)
+      ON CONFLICT (queue_scope_type, queue_scope_id)
+      DO UPDATE SET user_id = EXCLUDED.user_id,
+                    vacation_since = COALESCE(delivery_pauses.vacation_since, EXCLUDED.vacation_since),
+                    vacation_until = EXCLUDED.vacation_until,
+                    vacation_spread_days = EXCLUDED.vacation_spread_days,
+                    updated_at = EXCLUDED.updated_at
+      RETURNING *
+    `,
+      [
+        params.queueScope.type,
+        params.queueScope.id,
+        params.userId,
+        now,
+        params.until,
+        params.spreadDays,
+      ],
+    );
+    return rowToDeliveryPause(rows[0]);
+  }
+
+  /**
+   * Ends the scope's vacation and spreads the reviews that piled up over `spreadDays` days
+   * (the number chosen when the vacation started by default). Ending twice is a no-op.
+   */
+  async endVacation(params: {
+    queueScope: QueueScope;
+    spreadDays?: number | null;
+  }): Promise<VacationEndResult> {
+    const now = new Date().toISOString();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query(
+        `
+        SELECT *
+        FROM delivery_pauses
+        WHERE queue_scope_type = $1
+          AND queue_scope_id = $2
+        FOR UPDATE
+      `,
+        [params.queueScope.type, params.queueScope.id],
+      );
+      const row = rows[0];
+      if (!row?.vacation_since) {
+        await client.query('COMMIT');
+        const pause = row ? rowToDeliveryPause(row) : { ...EMPTY_DELIVERY_PAUSE };
+        return { pause, rescheduled: 0, spreadDays: params.spreadDays ?? pause.vacationSpreadDays };
+      }
+      const spreadDays = params.spreadDays ?? Number(row.vacation_spread_days);
+      const settings = await this.getDeliverySettings(row.user_id);
+      const doNotDisturbUntil: string | null = row.do_not_disturb_until ?? null;
+      const startAt = doNotDisturbUntil && doNotDisturbUntil > now ? doNotDisturbUntil : now;
+      const rescheduled = await this.spreadPausedBacklog(client, {
+        queueScope: params.queueScope,
+        settings,
+        before: startAt,
+        startAt,
+        spreadDays,
+        now,
+      });
+      const { rows: updatedRows } = await client.query(
+        `
+        UPDATE delivery_pauses
+        SET vacation_since = NULL,
+            vacation_until = NULL,
+            updated_at = $3
+        WHERE queue_scope_type = $1
+          AND queue_scope_id = $2
+        RETURNING *
+      `,
+        [params.queueScope.type, params.queueScope.id, now],
+      );
+      await client.query('COMMIT');
+      return { pause: rowToDeliveryPause(updatedRows[0]), rescheduled, spreadDays };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listExpiredVacations(nowIso: string, limit: number): Promise<QueueScope[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT queue_scope_type, queue_scope_id
+      FROM delivery_pauses
+      WHERE vacation_since IS NOT NULL
+        AND vacation_until IS NOT NULL
+        AND vacation_until <= $1
+      ORDER BY vacation_until ASC
+      LIMIT $2
+    `,
+      [nowIso, limit],
+    );
+    return rows.map((row) => ({
+      type: normalizeQueueScopeType(row.queue_scope_type),
+      id: row.queue_scope_id,
+    }));
+  }
+
+  /**
+   * Moves the scope's pending reviews scheduled before `before` onto `spreadDays` active days
+   * from `startAt` (see `planBacklogSpread`); the cards' due dates move with them.
+   */
+  private async spreadPausedBacklog(
+    client: PoolClient,
+    params: {
+      queueScope: QueueScope;
+      settings: DeliverySettings;
+      before: string;
+      startAt: string;
+      spreadDays: number;
+      now: string;
+    },
+  ): Promise<number> {
+    const { rows: movingRows } = await client.query(
+      `
+      SELECT reminder_jobs.id, reminder_jobs.card_id, reminder_jobs.due_at, reminder_jobs.scheduled_at
+      FROM reminder_jobs
+      JOIN cards ON cards.id = reminder_jobs.card_id
+      WHERE reminder_jobs.queue_scope_type = $1
+        AND reminder_jobs.queue_scope_id = $2
+        AND reminder_jobs.status = 'pending'
+        AND reminder_jobs.kind = 'review'
+        AND reminder_jobs.scheduled_at < $3
+        AND cards.status <> 'archived'
+      ORDER BY reminder_jobs.due_at ASC
+      LIMIT ${MAX_PAUSE_BACKLOG_JOBS}
+      FOR UPDATE OF reminder_jobs
+    `,
+      [params.queueScope.type, params.queueScope.id, params.before],
+    );
+    if (!movingRows.length) return 0;
+    const movingIds = movingRows.map((row) => row.id);
+    const horizonEnd = new Date(Date.parse(params.startAt) + (params.spreadDays + 7) * DAY_MS);
+    const { rows: fixedRows } = await client.query(
+      `
+      SELECT scheduled_at
+      FROM reminder_jobs
+      WHERE queue_scope_type = $1
+        AND queue_scope_id = $2
+        AND status = 'pending'
+        AND scheduled_at >= $3
+        AND scheduled_at < $4
+        AND NOT (id = ANY($5::text[]))
+    `,
+      [params.queueScope.type, params.queueScope.id, params.before, horizonEnd.toISOString(), movingIds],
+    );
+    const changes = planBacklogSpread({
+      jobs: movingRows.map((row) => ({ id: row.id, dueAt: row.due_at, scheduledAt: row.scheduled_at })),
+      fixedScheduledAt: fixedRows.map((row) => row.scheduled_at),
+      settings: params.settings,
+      startAt: params.startAt,
+      spreadDays: params.spreadDays,
+    });
+    const cardIdByJobId = new Map(movingRows.map((row) => [row.id as string, row.card_id as string]));
+    await client.query(
+      `
+      UPDATE reminder_jobs
+      SET scheduled_at = moved.scheduled_at,
+          updated_at = $3
+      FROM unnest($1::text[], $2::text[]) AS moved(id, scheduled_at)
+      WHERE reminder_jobs.id = moved.id
+    `,
+      [changes.map((change) => change.id), changes.map((change) => change.afterScheduledAt), params.now],
+    );
+    await client.query(
+      `
+      UPDATE cards
+      SET next_review_at = moved.next_review_at,
+          updated_at = $3
+      FROM unnest($1::text[], $2::text[]) AS moved(card_id, next_review_at)
+      WHERE cards.id = moved.card_id
+        AND cards.status <> 'archived'
+    `,
+      [
+        changes.map((change) => cardIdByJobId.get(change.id)),
+        changes.map((change) => change.afterScheduledAt),
+        params.now,
+      ],
+    );
+    return changes.length;
+  }
+
+  async getDailyLimits(queueScope: QueueScope): Promise<DailyLimits> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT daily_review_limit, daily_new_card_limit
+      FROM queue_scope_limits
+      WHERE queue_scope_type = $1
+        AND queue_scope_id = $2
+    `,
+      [queueScope.type, queueScope.id],
+    );
+    const row = rows[0];
+    if (!row) return { ...NO_DAILY_LIMITS };
+    return {
+      reviewsPerDay: row.daily_review_limit === null ? null : Number(row.daily_review_limit),
+      newCardsPerDay: row.daily_new_card_limit === null ? null : Number(row.daily_new_card_limit),
+    };
+  }
+
+  async setDailyLimits(queueScope: QueueScope, limits: DailyLimits): Promise<DailyLimits> {
+    const now = new Date().toISOString();
+    await this.pool.query(
+      `
+      INSERT INTO queue_scope_limits (
+        queue_scope_type, queue_scope_id, daily_review_limit, daily_new_card_limit, created_at, updated_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $5)
+      ON CONFLICT (queue_scope_type, queue_scope_id)
+      DO UPDATE SET daily_review_limit = EXCLUDED.daily_review_limit,
+                    daily_new_card_limit = EXCLUDED.daily_new_card_limit,
+                    updated_at = EXCLUDED.updated_at
+    `,
+      [queueScope.type, queueScope.id, limits.reviewsPerDay, limits.newCardsPerDay, now],
+    );
+    return limits;
+  }
+
+  /**
+   * Returns the scope's review (or new-card) limit when that many scheduled reviews of the
+   * kind were already sent since `since`.
+   */
+  async findExceededDailyLimit(params: {
+    queueScope: QueueScope;
+    newCard: boolean;
+    since: string;
+  }): Promise<DailyLimitOverflow | null> {
+    const limits = await this.getDailyLimits(params.queueScope);
+    const limit = params.newCard ? limits.newCardsPerDay : limits.reviewsPerDay;
+    if (!limit) return null;
+    const delivered = await this.countDeliveredReviews(params.queueScope, params.newCard, params.since);
+    return delivered >= limit ? { limit, delivered } : null;
+  }
+
+  /** Scheduled reviews (or new cards) of the scope sent since `since`. */
+  private async countDeliveredReviews(
+    queueScope: QueueScope,
+    newCard: boolean,
+    since: string,
+    executor: Queryable = this.pool,
+  ): Promise<number> {
+    const { rows } = await executor.query(
+      `
+      SELECT COUNT(*)::int AS delivered
+      FROM reminder_jobs
+      WHERE queue_scope_type = $1
+        AND queue_scope_id = $2
+        AND kind = 'review'
+        AND new_card = $3
+        AND sent_at >= $4
+    `,
+      [queueScope.type, queueScope.id, newCard, since],
+    );
+    return Number(rows[0]?.delivered ?? 0);
+  }
+
+  /** Puts a claimed job back to `pending` at a later time without touching the card's due date. */
+  async deferReminderJob(jobId: string, scheduledAt: string): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE reminder_jobs
+      SET status = 'pending',
+          scheduled_at = $1,
+          updated_at = $2
+      WHERE id = $3
+        AND status IN ('pending', 'sending')
+    `,
+      [scheduledAt, new Date().toISOString(), jobId],
+    );
+  }
+
+  async getReminderDigest(queueScope: QueueScope): Promise<ReminderDigestSettings | null> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT send_at_minutes, next_digest_at
+      FROM queue_scope_digests
+      WHERE queue_scope_type = $1
+        AND queue_scope_id = $2
+    `,
+      [queueScope.type, queueScope.id],
+    );
+    return rows[0] ? rowToReminderDigestSettings(rows[0]) : null;
+  }
+
+  /** Switches the scope to one digest a day at `sendAtMinutes` local time; `null` — back to single reminders. */
+  async setReminderDigest(params: {
+    queueScope: QueueScope;
+    userId: string;
+    sendAtMinutes: number | null;
+  }): Promise<ReminderDigestSettings | null> {
+    if (params.sendAtMinutes === null) {
+      await this.pool.query(
+        `DELETE FROM queue_scope_digests WHERE queue_scope_type = $1 AND queue_scope_id = $2`,
+        [params.queueScope.type, params.queueScope.id],
+      );
+      return null;
+    }
+    const now = new Date().toISOString();
+    const settings = await this.getDeliverySettings(params.userId);
+    const { rows } = await this.pool.query(
+      `
+      INSERT INTO queue_scope_digests (
+        queue_scope_type, queue_scope_id, user_id, send_at_minutes, next_digest_at, created_at, updated_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $6)
+      ON CONFLICT (queue_scope_type, queue_scope_id)
+      DO UPDATE SET user_id = EXCLUDED.user_id,
+                    send_at_minutes = EXCLUDED.send_at_minutes,
+                    next_digest_at = EXCLUDED.next_digest_at,
+                    updated_at = EXCLUDED.updated_at
+      RETURNING send_at_minutes, next_digest_at
+    `,
+      [
+        params.queueScope.type,
+        params.queueScope.id,
+        params.userId,
+        params.sendAtMinutes,
+        nextDigestAt(params.sendAtMinutes, { now, timezone: settings.timezone }),
+        now,
+      ],
+    );
+    return rowToReminderDigestSettings(rows[0]);
+  }
+
+  /** Digest scopes whose send time has come; paused scopes wait until the pause is over. */
+  async listDueReminderDigests(nowIso: string, limit: number): Promise<DueReminderDigest[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT *
+      FROM queue_scope_digests
+      WHERE next_digest_at <= $1
+        AND NOT EXISTS (
+          SELECT 1
+          FROM delivery_pauses
+          WHERE delivery_pauses.queue_scope_type = queue_scope_digests.queue_scope_type
+            AND delivery_pauses.queue_scope_id = queue_scope_digests.queue_scope_id
+            AND (
+              delivery_pauses.vacation_since IS NOT NULL
+              OR delivery_pauses.do_not_disturb_until > $1
+            )
+        )
+      ORDER BY next_digest_at ASC
+      LIMIT $2
+    `,
+      [nowIso, limit],
+    );
+    return rows.map((row) => ({
+      ...rowToReminderDigestSettings(row),
+      queueScope: { type: normalizeQueueScopeType(row.queue_scope_type), id: row.queue_scope_id },
+      userId: row.user_id,
+    }));
+  }
+
+  async scheduleNextReminderDigest(queueScope: QueueScope, nextAt: string): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE queue_scope_digests
+      SET next_digest_at = $1,
+          updated_at = $2
+      WHERE queue_scope_type = $3
+        AND queue_scope_id = $4
+    `,
+      [nextAt, new Date().toISOString(), queueScope.type, queueScope.id],
+    );
+  }
+
+  /**
+   * Claims the scope's due reviews (`pending` → `sending`) together with the reviews still
+   * awaiting a grade from earlier messages, which keep `awaiting_action` and move into the new
+   * digest. New reviews stay within the scope's daily limits counted from `since`, and leftovers
+   * share the slots with them (`splitDigestSlots`). Ordered like the digest lists them.
+   */
+  async claimDigestReminderJobs(params: {
+    queueScope: QueueScope;
+    limit: number;
+    since: string;
+  }): Promise<ClaimedDigestJobs> {
+    const now = new Date().toISOString();
+    const staleSendingCutoff = new Date(Date.now() - 10 * 60_000).toISOString();
+    const limits = await this.getDailyLimits(params.queueScope);
+    const client = await this.pool.connect();
+    let rows: any[];
+    try {
+      await client.query('BEGIN');
+      const fresh: Array<{ id: string; scheduled_at: string }> = [];
+      for (const newCard of [false, true]) {
+        const dailyLimit = newCard ? limits.newCardsPerDay : limits.reviewsPerDay;
+        const budget = dailyLimit
+          ? dailyLimit - (await this.countDeliveredReviews(params.queueScope, newCard, params.since, client))
+          : params.limit;
+        if (budget <= 0) continue;
+        const { rows: freshRows } = await client.query(
+          `
+          SELECT reminder_jobs.id, reminder_jobs.scheduled_at
+          FROM reminder_jobs
+          JOIN cards ON cards.id = reminder_jobs.card_id
+          WHERE reminder_jobs.queue_scope_type = $1
+            AND reminder_jobs.queue_scope_id = $2
+            AND cards.status <> 'archived'
+            AND reminder_jobs.kind = 'review'
+            AND reminder_jobs.new_card = $6
+            AND reminder_jobs.scheduled_at <= $3
+            AND (
+              reminder_jobs.status = 'pending'
+              OR (reminder_jobs.status = 'sending' AND reminder_jobs.updated_at <= $5)
+            )
+          ORDER BY reminder_jobs.scheduled_at ASC, reminder_jobs.id ASC
+          LIMIT $4
+          FOR UPDATE OF reminder_jobs SKIP LOCKED
+        `,
+          [
+            params.queueScope.type,
+            params.queueScope.id,
+            now,
+            Math.min(budget, params.limit),
+            staleSendingCutoff,
+            newCard,
+          ],
+        );
+        fresh.push(...freshRows);
+      }
+      fresh.sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at) || a.id.localeCompare(b.id));
+      const { rows: carriedOver } = await client.query(
+        `
+        SELECT reminder_jobs.id
+        FROM reminder_jobs
+        JOIN cards ON cards.id = reminder_jobs.card_id
+        WHERE reminder_jobs.queue_scope_type = $1
+          AND reminder_jobs.queue_scope_id = $2
+          AND cards.status <> 'archived'
+          AND reminder_jobs.kind IN ('review', 'manual_now')
+          AND reminder_jobs.status = 'awaiting_action'
+        ORDER BY reminder_jobs.scheduled_at ASC, reminder_jobs.id ASC
+        LIMIT $3
+        FOR UPDATE OF reminder_jobs SKIP LOCKED
+      `,
+        [params.queueScope.type, params.queueScope.id, params.limit],
+      );
+      const slots = splitDigestSlots({ limit: params.limit, carriedOver: carriedOver.length, fresh: fresh.length });
+      const pickedIds = [
+        ...carriedOver.slice(0, slots.carriedOver).map((row) => row.id),
+        ...fresh.slice(0, slots.fresh).map((row) => row.id),
+      ];
+      ({ rows } = await client.query(
+        `
+        WITH updated AS (
+          UPDATE reminder_jobs
+          SET status = CASE WHEN status = 'awaiting_action' THEN status ELSE 'sending' END,
+              error = NULL,
+              updated_at = $1
+          WHERE id = ANY($2::text[])
+          RETURNING *
+        )
+        SELECT to_jsonb(updated) AS job, to_jsonb(cards) AS card
+        FROM updated
+        JOIN cards ON cards.id = updated.card_id
+        ORDER BY updated.scheduled_at ASC, updated.id ASC
+      `,
+        [now, pickedIds],
+      ));
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    const { rows: remainingRows } = await this.pool.query(
+      `
+      SELECT COUNT(*)::int AS remaining
+      FROM reminder_jobs
+      WHERE queue_scope_type = $1
+        AND queue_scope_id = $2
+        AND kind = 'review'
+        AND status = 'pending'
+        AND scheduled_at <= $3
+    `,
+      [params.queueScope.type, params.queueScope.id, now],
+    );
+    return {
+      items: rows.map((row) => ({ job: rowToReminderJob(row.job), card: rowToCard(row.card) })),
+      remaining: Number(remainingRows[0]?.remaining ?? 0),
+    };
+  }
+
+  /**
+   * Records the sent digest message: its jobs become `awaiting_action` on that message and
+   * their cards wait for a grade. Cards keep no pending message of their own, since clearing it
+   * would strip the keyboard of the whole digest.
+   */
+  async markReminderDigestDelivered(params: {
+    queueScope: QueueScope;
+    userId: string;
+    chatId: string;
+    messageId: number;
+    jobIds: string[];
+    sentAt: string;
+  }): Promise<string> {
+    const digestId = uuid();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `
+        INSERT INTO reminder_digests (
+          id, queue_scope_type, queue_scope_id, user_id, delivery_chat_id, delivery_message_id,
+          item_count, sent_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `,
+        [
+          digestId,
+          params.queueScope.type,
+          params.queueScope.id,
+          params.userId,
+          params.chatId,
+          params.messageId,
+          params.jobIds.length,
+          params.sentAt,
+        ],
+      );
+      const { rows } = await client.query(
+        `
+        UPDATE reminder_jobs
+        SET status = 'awaiting_action',
+            sent_at = COALESCE(sent_at, $1),
+            delivery_chat_id = $2,
+            delivery_message_id = $3,
+            digest_id = $4,
+            updated_at = $1
+        WHERE id = ANY($5::text[])
+          AND status IN ('sending', 'awaiting_action')
+        RETURNING card_id
+      `,
+        [params.sentAt, params.chatId, params.messageId, digestId, params.jobIds],
+      );
+      await client.query(
+        `
+        UPDATE cards
+        SET status = 'awaiting_grade',
+            pending_channel_id = NULL,
+            pending_channel_message_id = NULL,
+            awaiting_grade_since = COALESCE(awaiting_grade_since, $1),
+            updated_at = $1
+        WHERE id = ANY($2::text[])
+          AND status IN ('learning', 'awaiting_grade')
+      `,
+        [params.sentAt, rows.map((row) => row.card_id)],
+      );
+      await client.query('COMMIT');
+      return digestId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Every job of a digest message in the order it lists them, graded or not. */
+  async listReminderDigestJobs(digestId: string): Promise<ReminderJobRecord[]> {
+    const { rows } = await this.pool.query(
+      `
+      SELECT *
+      FROM reminder_jobs
+      WHERE digest_id = $1
+      ORDER BY scheduled_at ASC, id ASC
+    `,
+      [digestId],
+    );
+    return rows.map(rowToReminderJob);
+  }
+
+  async logUnrecognizedSchedule(userId: string, input: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO unrecognized_schedules (user_id, input, created_at) VALUES ($1, $2, $3)`,
+      [userId, input.slice(0, 500), new Date().toISOString()],
+    );
+  }
+
+  /**
+   * Tries to become (or stay) the scheduler leader. Leadership is a session advisory lock held on
+   * a dedicated connection, so Postgres hands it to another node as soon as this connection dies.
+   */
+  async acquireSchedulerLease(): Promise<boolean> {
+    if (this.schedulerLeaseClient) {
+      try {
+        await this.schedulerLeaseClient.query('SELECT 1');
+        return true;
+      } catch {
+        this.dropSchedulerLeaseClient(true);
+      }
+    }
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query('SELECT pg_try_advisory_lock($1::bigint) AS locked', [
+        SCHEDULER_LEASE_LOCK_KEY,
+      ]);
+      if (rows[0]?.locked) {
+        // Only the held connection keeps a listener: standby clients go straight back to the pool.
+        client.on('error', this.onSchedulerLeaseError);
+        this.schedulerLeaseClient = client;
+        return true;
+      }
+      client.release();
+      return false;
+    } catch (error) {
+      client.release(true);
+      throw error;
+    }
+  }
+
+  async releaseSchedulerLease(): Promise<void> {
+    const client = this.schedulerLeaseClient;
+    if (!client) return;
+    this.schedulerLeaseClient = null;
+    client.removeListener('error', this.onSchedulerLeaseError);
+    try {
+      await client.query('SELECT pg_advisory_unlock($1::bigint)', [SCHEDULER_LEASE_LOCK_KEY]);
+      client.release();
+    } catch {
+      // Closing the connection releases the lock as well.
+      client.release(true);
+    }
+  }
+
+  private dropSchedulerLeaseClient(destroy: boolean) {
+    const client = this.schedulerLeaseClient;
+    this.schedulerLeaseClient = null;
+    client?.removeListener('error', this.onSchedulerLeaseError);
+    try {
+      client?.release(destroy);
+    } catch {
+      // already released
+    }
+  }
+
+  async recordSchedulerHeartbeat(node: {
+    nodeId: string;
+    hostname: string;
+    pid: number;
+    role: SchedulerNodeRole;
+    startedAt: string;
+  }): Promise<void> {
+    const now = new Date();
+    await this.pool.query(
+      `
+      INSERT INTO scheduler_nodes (node_id, hostname, pid, role, started_at, heartbeat_at, leader_since)
+      VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $4 = 'leader' THEN $6 END)
+      ON CONFLICT (node_id)
+      DO UPDATE SET hostname = EXCLUDED.hostname,
+                    pid = EXCLUDED.pid,
+                    role = EXCLUDED.role,
+                    heartbeat_at = EXCLUDED.heartbeat_at,
+                    leader_since = CASE
+                      WHEN EXCLUDED.role <> 'leader' THEN NULL
+                      WHEN scheduler_nodes.role = 'leader' THEN scheduler_nodes.leader_since
+                      ELSE EXCLUDED.heartbeat_at
+                    END
+    `,
+      [node.nodeId, node.hostname, node.pid, node.role, node.startedAt, now.toISOString()],
+    );
+    await this.pool.query(`DELETE FROM scheduler_nodes WHERE heartbeat_at < $1`, [
+      new Date(now.getTime() - SCHEDULER_NODE_RETENTION_MS).toISOString(),
+    ]);
+  }
+
+  async removeSchedulerNode(nodeId: string): Promise<void> {
+    await this.pool.query(`DELETE FROM scheduler_nodes WHERE node_id = $1`, [nodeId]);
+  }
+
+  async listSchedulerNodes(): Promise<SchedulerNodeRecord[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM scheduler_nodes ORDER BY role = 'leader' DESC, heartbeat_at DESC`,
     );
+    return rows.map(rowToSchedulerNode);
   }
 
   async close(): Promise<void> {
+    await this.releaseSchedulerLease();
     await this.pool.end();
   }
 }
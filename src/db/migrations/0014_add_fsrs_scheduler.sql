@@ -0,0 +1,27 @@
+ALTER TABLE cards
+  ADD COLUMN IF NOT EXISTS fsrs_stability double precision,
+  ADD COLUMN IF NOT EXISTS fsrs_difficulty double precision,
+  ADD COLUMN IF NOT EXISTS fsrs_retrievability double precision;
+
+ALTER TABLE cards
+  DROP CONSTRAINT IF EXISTS cards_reminder_mode_check;
+
+ALTER TABLE cards
+  ADD CONSTRAINT cards_reminder_mode_check
+  CHECK (reminder_mode IN ('sm2', 'schedule', 'fsrs'));
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS default_reminder_mode text NOT NULL DEFAULT 'sm2';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'users_default_reminder_mode_check'
+  ) THEN
+    ALTER TABLE users
+      ADD CONSTRAINT users_default_reminder_mode_check
+      CHECK (default_reminder_mode IN ('sm2', 'fsrs'));
+  END IF;
+END $$;
@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS review_logs (
+  id text PRIMARY KEY,
+  card_id text NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  job_id text REFERENCES reminder_jobs(id) ON DELETE SET NULL,
+  user_id text NOT NULL,
+  queue_scope_type text NOT NULL DEFAULT 'user',
+  queue_scope_id text NOT NULL,
+  grade text NOT NULL,
+  reminder_mode text NOT NULL,
+  repetition integer NOT NULL,
+  previous_interval_days double precision,
+  next_interval_days double precision NOT NULL,
+  elapsed_days double precision,
+  latency_ms integer,
+  reviewed_at text NOT NULL,
+  next_review_at text NOT NULL,
+  created_at text NOT NULL,
+  CONSTRAINT review_logs_queue_scope_type_check CHECK (queue_scope_type IN ('user', 'chat'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_logs_card_reviewed
+  ON review_logs(card_id, reviewed_at);
+
+CREATE INDEX IF NOT EXISTS idx_review_logs_scope_reviewed
+  ON review_logs(queue_scope_type, queue_scope_id, reviewed_at);
@@ -0,0 +1,17 @@
+ALTER TABLE cards
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_cards_tags
+  ON cards USING gin (tags);
+
+CREATE TABLE IF NOT EXISTS card_decks (
+  queue_scope_type text NOT NULL DEFAULT 'user',
+  queue_scope_id text NOT NULL,
+  tag text NOT NULL,
+  daily_limit integer,
+  created_at text NOT NULL,
+  updated_at text NOT NULL,
+  PRIMARY KEY (queue_scope_type, queue_scope_id, tag),
+  CONSTRAINT card_decks_queue_scope_type_check CHECK (queue_scope_type IN ('user', 'chat')),
+  CONSTRAINT card_decks_daily_limit_check CHECK (daily_limit IS NULL OR daily_limit > 0)
+);
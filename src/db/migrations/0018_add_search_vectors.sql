@@ -0,0 +1,18 @@
+-- Cards are searched in both Russian and English; voice transcripts live in content_payload.
+ALTER TABLE cards
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector('russian', coalesce(content_preview, '') || ' ' || coalesce(content_payload::jsonb ->> 'transcript', ''))
+    || to_tsvector('english', coalesce(content_preview, '') || ' ' || coalesce(content_payload::jsonb ->> 'transcript', ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_cards_search_vector
+  ON cards USING gin (search_vector);
+
+ALTER TABLE backlog_items
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector('russian', coalesce(content_preview, ''))
+    || to_tsvector('english', coalesce(content_preview, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_backlog_items_search_vector
+  ON backlog_items USING gin (search_vector);
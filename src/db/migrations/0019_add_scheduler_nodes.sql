@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS scheduler_nodes (
+  node_id text PRIMARY KEY,
+  hostname text NOT NULL,
+  pid integer NOT NULL,
+  role text NOT NULL DEFAULT 'standby',
+  started_at text NOT NULL,
+  heartbeat_at text NOT NULL,
+  leader_since text,
+  CONSTRAINT scheduler_nodes_role_check CHECK (role IN ('leader', 'standby'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduler_nodes_heartbeat
+  ON scheduler_nodes (heartbeat_at);
@@ -0,0 +1,7 @@
+ALTER TABLE reminder_jobs
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dead_lettered_at text;
+
+CREATE INDEX IF NOT EXISTS idx_reminder_jobs_dead_letter
+  ON reminder_jobs (dead_lettered_at)
+  WHERE status = 'failed' AND dead_lettered_at IS NOT NULL;
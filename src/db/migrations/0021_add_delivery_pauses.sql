@@ -0,0 +1,21 @@
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS weekday_active_hours text;
+
+CREATE TABLE IF NOT EXISTS delivery_pauses (
+  queue_scope_type text NOT NULL DEFAULT 'user',
+  queue_scope_id text NOT NULL,
+  user_id text NOT NULL,
+  do_not_disturb_until text,
+  vacation_since text,
+  vacation_until text,
+  vacation_spread_days integer NOT NULL DEFAULT 3,
+  created_at text NOT NULL,
+  updated_at text NOT NULL,
+  PRIMARY KEY (queue_scope_type, queue_scope_id),
+  CONSTRAINT delivery_pauses_queue_scope_type_check CHECK (queue_scope_type IN ('user', 'chat')),
+  CONSTRAINT delivery_pauses_vacation_spread_days_check CHECK (vacation_spread_days > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_pauses_vacation_until
+  ON delivery_pauses (vacation_until)
+  WHERE vacation_since IS NOT NULL;
@@ -0,0 +1,27 @@
+ALTER TABLE reminder_jobs
+  ADD COLUMN IF NOT EXISTS new_card boolean NOT NULL DEFAULT false;
+
+UPDATE reminder_jobs
+SET new_card = true
+FROM cards
+WHERE cards.id = reminder_jobs.card_id
+  AND reminder_jobs.kind = 'review'
+  AND reminder_jobs.status IN ('pending', 'sending')
+  AND cards.last_reviewed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reminder_jobs_scope_sent
+  ON reminder_jobs (queue_scope_type, queue_scope_id, sent_at)
+  WHERE kind = 'review' AND sent_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS queue_scope_limits (
+  queue_scope_type text NOT NULL DEFAULT 'user',
+  queue_scope_id text NOT NULL,
+  daily_review_limit integer,
+  daily_new_card_limit integer,
+  created_at text NOT NULL,
+  updated_at text NOT NULL,
+  PRIMARY KEY (queue_scope_type, queue_scope_id),
+  CONSTRAINT queue_scope_limits_queue_scope_type_check CHECK (queue_scope_type IN ('user', 'chat')),
+  CONSTRAINT queue_scope_limits_daily_review_limit_check CHECK (daily_review_limit IS NULL OR daily_review_limit > 0),
+  CONSTRAINT queue_scope_limits_daily_new_card_limit_check CHECK (daily_new_card_limit IS NULL OR daily_new_card_limit > 0)
+);
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS queue_scope_digests (
+  queue_scope_type text NOT NULL DEFAULT 'user',
+  queue_scope_id text NOT NULL,
+  user_id text NOT NULL,
+  send_at_minutes integer NOT NULL,
+  next_digest_at text NOT NULL,
+  created_at text NOT NULL,
+  updated_at text NOT NULL,
+  PRIMARY KEY (queue_scope_type, queue_scope_id),
+  CONSTRAINT queue_scope_digests_queue_scope_type_check CHECK (queue_scope_type IN ('user', 'chat')),
+  CONSTRAINT queue_scope_digests_send_at_minutes_check CHECK (send_at_minutes >= 0 AND send_at_minutes < 1440)
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_scope_digests_next
+  ON queue_scope_digests (next_digest_at);
+
+CREATE TABLE IF NOT EXISTS reminder_digests (
+  id text PRIMARY KEY,
+  queue_scope_type text NOT NULL DEFAULT 'user',
+  queue_scope_id text NOT NULL,
+  user_id text NOT NULL,
+  delivery_chat_id text NOT NULL,
+  delivery_message_id integer NOT NULL,
+  item_count integer NOT NULL,
+  sent_at text NOT NULL,
+  CONSTRAINT reminder_digests_queue_scope_type_check CHECK (queue_scope_type IN ('user', 'chat'))
+);
+
+ALTER TABLE reminder_jobs
+  ADD COLUMN IF NOT EXISTS digest_id text REFERENCES reminder_digests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reminder_jobs_digest
+  ON reminder_jobs (digest_id)
+  WHERE digest_id IS NOT NULL;
@@ -0,0 +1,20 @@
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS weekly_report_weekday integer DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_weekly_report_at text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'users_weekly_report_weekday_check'
+  ) THEN
+    ALTER TABLE users
+      ADD CONSTRAINT users_weekly_report_weekday_check
+      CHECK (weekly_report_weekday IS NULL OR (weekly_report_weekday >= 0 AND weekly_report_weekday <= 6));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_users_next_weekly_report
+  ON users (next_weekly_report_at)
+  WHERE weekly_report_weekday IS NOT NULL;
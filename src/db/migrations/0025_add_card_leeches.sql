@@ -0,0 +1,48 @@
+ALTER TABLE cards
+  ADD COLUMN IF NOT EXISTS lapses integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS leech_at text,
+  ADD COLUMN IF NOT EXISTS leech_notified_at text,
+  ADD COLUMN IF NOT EXISTS suspended_at text;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS leech_threshold integer NOT NULL DEFAULT 8;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'users_leech_threshold_check'
+  ) THEN
+    ALTER TABLE users
+      ADD CONSTRAINT users_leech_threshold_check
+      CHECK (leech_threshold >= 2 AND leech_threshold <= 100);
+  END IF;
+END $$;
+
+UPDATE cards
+SET lapses = counts.lapses
+FROM (
+  SELECT card_id, count(*)::int AS lapses
+  FROM review_logs
+  WHERE grade = 'again'
+  GROUP BY card_id
+) AS counts
+WHERE counts.card_id = cards.id;
+
+-- Cards that are already leeches are flagged without a notice for each of them.
+UPDATE cards
+SET leech_at = updated_at,
+    leech_notified_at = updated_at
+FROM users
+WHERE users.id = cards.user_id
+  AND cards.lapses >= users.leech_threshold
+  AND cards.leech_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cards_leech
+  ON cards (queue_scope_type, queue_scope_id, leech_at)
+  WHERE leech_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cards_leech_notice
+  ON cards (leech_at)
+  WHERE leech_at IS NOT NULL AND leech_notified_at IS NULL;
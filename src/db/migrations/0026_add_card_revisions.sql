@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS card_revisions (
+  id text PRIMARY KEY,
+  card_id text NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  source text NOT NULL,
+  edited_by text,
+  source_chat_id text NOT NULL,
+  source_message_id integer NOT NULL,
+  source_message_ids text,
+  content_type text NOT NULL,
+  content_preview text,
+  content_file_id text,
+  content_file_unique_id text,
+  content_payload text,
+  created_at text NOT NULL,
+  CONSTRAINT card_revisions_source_check CHECK (source IN ('reply', 'source_edit', 'miniapp'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_revisions_card_created
+  ON card_revisions (card_id, created_at);
@@ -0,0 +1,7 @@
+ALTER TABLE cards
+  ADD COLUMN IF NOT EXISTS media_mirrored_at text,
+  ADD COLUMN IF NOT EXISTS media_mirror_error text;
+
+CREATE INDEX IF NOT EXISTS idx_cards_media_mirror
+  ON cards (created_at)
+  WHERE content_file_id IS NOT NULL AND media_mirrored_at IS NULL AND media_mirror_error IS NULL;
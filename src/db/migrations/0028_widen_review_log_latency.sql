@@ -0,0 +1,2 @@
+ALTER TABLE review_logs
+  ALTER COLUMN latency_ms TYPE bigint;
@@ -0,0 +1,23 @@
+-- content_payload is free text; a row that is not valid JSON made the generated search_vector
+-- fail the whole INSERT/UPDATE. The transcript is now read through a cast that yields NULL instead.
+CREATE OR REPLACE FUNCTION card_payload_transcript(payload text) RETURNS text
+  LANGUAGE plpgsql IMMUTABLE AS $$
+BEGIN
+  RETURN payload::jsonb ->> 'transcript';
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+DROP INDEX IF EXISTS idx_cards_search_vector;
+
+ALTER TABLE cards DROP COLUMN IF EXISTS search_vector;
+
+ALTER TABLE cards
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector('russian', coalesce(content_preview, '') || ' ' || coalesce(card_payload_transcript(content_payload), ''))
+    || to_tsvector('english', coalesce(content_preview, '') || ' ' || coalesce(card_payload_transcript(content_payload), ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_cards_search_vector
+  ON cards USING gin (search_vector);
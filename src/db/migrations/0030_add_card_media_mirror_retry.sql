@@ -0,0 +1,5 @@
+-- Failed copies to the media store are retried with backoff; `media_mirror_error` is only set
+-- once a copy fails for good or runs out of attempts.
+ALTER TABLE cards
+  ADD COLUMN IF NOT EXISTS media_mirror_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS media_mirror_retry_at text;
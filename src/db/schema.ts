@@ -1,6 +1,10 @@
-import { pgTable, text, integer, index, check, serial, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, bigint, boolean, doublePrecision, index, check, serial, uniqueIndex, primaryKey, customType } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
+const tsvector = customType<{ data: string }>({
+  dataType: () => 'tsvector',
+});
+
 export const users = pgTable(
   'users',
   {
@@ -14,6 +18,11 @@ export const users = pgTable(
     activeHoursStart: integer('active_hours_start').notNull().default(600),
     activeHoursEnd: integer('active_hours_end').notNull().default(1320),
     reminderMinGapMinutes: integer('reminder_min_gap_minutes').notNull().default(30),
+    defaultReminderMode: text('default_reminder_mode').notNull().default('sm2'),
+    weekdayActiveHours: text('weekday_active_hours'), // JSON: 7 entries from Sunday, null = day off
+    weeklyReportWeekday: integer('weekly_report_weekday').default(0), // 0 = Sunday, null = no weekly report
+    nextWeeklyReportAt: text('next_weekly_report_at'),
+    leechThreshold: integer('leech_threshold').notNull().default(8), // lapses before a card becomes a leech
     createdAt: text('created_at').notNull(),
     updatedAt: text('updated_at').notNull(),
   },
@@ -22,6 +31,21 @@ export const users = pgTable(
       'users_status_check',
       sql`${table.status} IN ('pending', 'approved', 'rejected')`,
     ),
+    check(
+      'users_default_reminder_mode_check',
+      sql`${table.defaultReminderMode} IN ('sm2', 'fsrs')`,
+    ),
+    check(
+      'users_weekly_report_weekday_check',
+      sql`${table.weeklyReportWeekday} IS NULL OR (${table.weeklyReportWeekday} >= 0 AND ${table.weeklyReportWeekday} <= 6)`,
+    ),
+    check(
+      'users_leech_threshold_check',
+      sql`${table.leechThreshold} >= 2 AND ${table.leechThreshold} <= 100`,
+    ),
+    index('idx_users_next_weekly_report')
+      .on(table.nextWeeklyReportAt)
+      .where(sql`${table.weeklyReportWeekday} IS NOT NULL`),
   ],
 );
 
@@ -39,12 +63,28 @@ export const cards = pgTable(
     contentPreview: text('content_preview'),
     contentFileId: text('content_file_id'),
     contentFileUniqueId: text('content_file_unique_id'),
+    contentPayload: text('content_payload'),
+    tags: text('tags').array().notNull().default(sql`'{}'::text[]`),
+    searchVector: tsvector('search_vector').generatedAlwaysAs(
+      sql`to_tsvector('russian', coalesce(content_preview, '') || ' ' || coalesce(card_payload_transcript(content_payload), '')) || to_tsvector('english', coalesce(content_preview, '') || ' ' || coalesce(card_payload_transcript(content_payload), ''))`,
+    ),
     reminderMode: text('reminder_mode').notNull().default('sm2'),
     scheduleRule: text('schedule_rule'),
     status: text('status').notNull(), // 'pending' | 'learning' | 'awaiting_grade' | 'archived'
     repetition: integer('repetition').notNull().default(0),
+    fsrsStability: doublePrecision('fsrs_stability'),
+    fsrsDifficulty: doublePrecision('fsrs_difficulty'),
+    fsrsRetrievability: doublePrecision('fsrs_retrievability'),
     nextReviewAt: text('next_review_at'),
     lastReviewedAt: text('last_reviewed_at'),
+    lapses: integer('lapses').notNull().default(0), // «Снова» answers over the card's life
+    leechAt: text('leech_at'),
+    leechNotifiedAt: text('leech_notified_at'),
+    suspendedAt: text('suspended_at'), // leech taken out of reviews until resumed
+    mediaMirroredAt: text('media_mirrored_at'), // every file copied to the media store
+    mediaMirrorError: text('media_mirror_error'), // the copy failed for good, e.g. the file is too big
+    mediaMirrorAttempts: integer('media_mirror_attempts').notNull().default(0),
+    mediaMirrorRetryAt: text('media_mirror_retry_at'), // next attempt after a failed copy
     pendingChannelId: text('pending_channel_id'),
     pendingChannelMessageId: integer('pending_channel_message_id'),
     baseChannelMessageId: integer('base_channel_message_id'),
@@ -70,7 +110,7 @@ export const cards = pgTable(
     ),
     check(
       'cards_reminder_mode_check',
-      sql`${table.reminderMode} IN ('sm2', 'schedule')`,
+      sql`${table.reminderMode} IN ('sm2', 'schedule', 'fsrs')`,
     ),
     check(
       'cards_queue_scope_type_check',
@@ -82,6 +122,140 @@ export const cards = pgTable(
       table.status,
       table.nextReviewAt,
     ),
+    index('idx_cards_tags').using('gin', table.tags),
+    index('idx_cards_search_vector').using('gin', table.searchVector),
+    index('idx_cards_leech')
+      .on(table.queueScopeType, table.queueScopeId, table.leechAt)
+      .where(sql`${table.leechAt} IS NOT NULL`),
+    index('idx_cards_leech_notice')
+      .on(table.leechAt)
+      .where(sql`${table.leechAt} IS NOT NULL AND ${table.leechNotifiedAt} IS NULL`),
+    index('idx_cards_media_mirror')
+      .on(table.createdAt)
+      .where(
+        sql`${table.contentFileId} IS NOT NULL AND ${table.mediaMirroredAt} IS NULL AND ${table.mediaMirrorError} IS NULL`,
+      ),
+  ],
+);
+
+export const cardDecks = pgTable(
+  'card_decks',
+  {
+    queueScopeType: text('queue_scope_type').notNull().default('user'),
+    queueScopeId: text('queue_scope_id').notNull(),
+    tag: text('tag').notNull(),
+    dailyLimit: integer('daily_limit'),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.queueScopeType, table.queueScopeId, table.tag] }),
+    check(
+      'card_decks_queue_scope_type_check',
+      sql`${table.queueScopeType} IN ('user', 'chat')`,
+    ),
+    check(
+      'card_decks_daily_limit_check',
+      sql`${table.dailyLimit} IS NULL OR ${table.dailyLimit} > 0`,
+    ),
+  ],
+);
+
+export const queueScopeLimits = pgTable(
+  'queue_scope_limits',
+  {
+    queueScopeType: text('queue_scope_type').notNull().default('user'),
+    queueScopeId: text('queue_scope_id').notNull(),
+    dailyReviewLimit: integer('daily_review_limit'),
+    dailyNewCardLimit: integer('daily_new_card_limit'),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.queueScopeType, table.queueScopeId] }),
+    check(
+      'queue_scope_limits_queue_scope_type_check',
+      sql`${table.queueScopeType} IN ('user', 'chat')`,
+    ),
+    check(
+      'queue_scope_limits_daily_review_limit_check',
+      sql`${table.dailyReviewLimit} IS NULL OR ${table.dailyReviewLimit} > 0`,
+    ),
+    check(
+      'queue_scope_limits_daily_new_card_limit_check',
+      sql`${table.dailyNewCardLimit} IS NULL OR ${table.dailyNewCardLimit} > 0`,
+    ),
+  ],
+);
+
+export const deliveryPauses = pgTable(
+  'delivery_pauses',
+  {
+    queueScopeType: text('queue_scope_type').notNull().default('user'),
+    queueScopeId: text('queue_scope_id').notNull(),
+    userId: text('user_id').notNull(),
+    doNotDisturbUntil: text('do_not_disturb_until'),
+    vacationSince: text('vacation_since'),
+    vacationUntil: text('vacation_until'),
+    vacationSpreadDays: integer('vacation_spread_days').notNull().default(3),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.queueScopeType, table.queueScopeId] }),
+    index('idx_delivery_pauses_vacation_until')
+      .on(table.vacationUntil)
+      .where(sql`${table.vacationSince} IS NOT NULL`),
+    check(
+      'delivery_pauses_queue_scope_type_check',
+      sql`${table.queueScopeType} IN ('user', 'chat')`,
+    ),
+    check('delivery_pauses_vacation_spread_days_check', sql`${table.vacationSpreadDays} > 0`),
+  ],
+);
+
+export const queueScopeDigests = pgTable(
+  'queue_scope_digests',
+  {
+    queueScopeType: text('queue_scope_type').notNull().default('user'),
+    queueScopeId: text('queue_scope_id').notNull(),
+    userId: text('user_id').notNull(),
+    sendAtMinutes: integer('send_at_minutes').notNull(),
+    nextDigestAt: text('next_digest_at').notNull(),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.queueScopeType, table.queueScopeId] }),
+    index('idx_queue_scope_digests_next').on(table.nextDigestAt),
+    check(
+      'queue_scope_digests_queue_scope_type_check',
+      sql`${table.queueScopeType} IN ('user', 'chat')`,
+    ),
+    check(
+      'queue_scope_digests_send_at_minutes_check',
+      sql`${table.sendAtMinutes} >= 0 AND ${table.sendAtMinutes} < 1440`,
+    ),
+  ],
+);
+
+export const reminderDigests = pgTable(
+  'reminder_digests',
+  {
+    id: text('id').primaryKey(),
+    queueScopeType: text('queue_scope_type').notNull().default('user'),
+    queueScopeId: text('queue_scope_id').notNull(),
+    userId: text('user_id').notNull(),
+    deliveryChatId: text('delivery_chat_id').notNull(),
+    deliveryMessageId: integer('delivery_message_id').notNull(),
+    itemCount: integer('item_count').notNull(),
+    sentAt: text('sent_at').notNull(),
+  },
+  (table) => [
+    check(
+      'reminder_digests_queue_scope_type_check',
+      sql`${table.queueScopeType} IN ('user', 'chat')`,
+    ),
   ],
 );
 
@@ -98,11 +272,15 @@ export const backlogItems = pgTable(
     contentFileId: text('content_file_id'),
     contentFileUniqueId: text('content_file_unique_id'),
     status: text('status').notNull().default('open'),
+    searchVector: tsvector('search_vector').generatedAlwaysAs(
+      sql`to_tsvector('russian', coalesce(content_preview, '')) || to_tsvector('english', coalesce(content_preview, ''))`,
+    ),
     createdAt: text('created_at').notNull(),
     updatedAt: text('updated_at').notNull(),
   },
   (table) => [
     index('idx_backlog_items_status_created').on(table.status, table.createdAt),
+    index('idx_backlog_items_search_vector').using('gin', table.searchVector),
     check(
       'backlog_items_status_check',
       sql`${table.status} IN ('open', 'done', 'archived')`,
@@ -308,6 +486,10 @@ export const reminderJobs = pgTable(
     baseMessageId: integer('base_message_id'),
     snoozedFromJobId: text('snoozed_from_job_id'),
     error: text('error'),
+    attempts: integer('attempts').notNull().default(0),
+    deadLetteredAt: text('dead_lettered_at'),
+    newCard: boolean('new_card').notNull().default(false),
+    digestId: text('digest_id').references(() => reminderDigests.id, { onDelete: 'set null' }),
     metadata: text('metadata'),
     createdAt: text('created_at').notNull(),
     updatedAt: text('updated_at').notNull(),
@@ -315,6 +497,15 @@ export const reminderJobs = pgTable(
   (table) => [
     index('idx_reminder_jobs_pending_schedule').on(table.status, table.scheduledAt),
     index('idx_reminder_jobs_card_status').on(table.cardId, table.status),
+    index('idx_reminder_jobs_dead_letter')
+      .on(table.deadLetteredAt)
+      .where(sql`${table.status} = 'failed' AND ${table.deadLetteredAt} IS NOT NULL`),
+    index('idx_reminder_jobs_digest')
+      .on(table.digestId)
+      .where(sql`${table.digestId} IS NOT NULL`),
+    index('idx_reminder_jobs_scope_sent')
+      .on(table.queueScopeType, table.queueScopeId, table.sentAt)
+      .where(sql`${table.kind} = 'review' AND ${table.sentAt} IS NOT NULL`),
     check(
       'reminder_jobs_kind_check',
       sql`${table.kind} IN ('review', 'one_time', 'manual_now')`,
@@ -335,3 +526,78 @@ export const reminderJobs = pgTable(
     ),
   ],
 );
+
+export const cardRevisions = pgTable(
+  'card_revisions',
+  {
+    id: text('id').primaryKey(),
+    cardId: text('card_id').notNull().references(() => cards.id, { onDelete: 'cascade' }),
+    source: text('source').notNull(), // 'reply' | 'source_edit' | 'miniapp'
+    editedBy: text('edited_by'),
+    // The card content before the edit.
+    sourceChatId: text('source_chat_id').notNull(),
+    sourceMessageId: integer('source_message_id').notNull(),
+    sourceMessageIds: text('source_message_ids'),
+    contentType: text('content_type').notNull(),
+    contentPreview: text('content_preview'),
+    contentFileId: text('content_file_id'),
+    contentFileUniqueId: text('content_file_unique_id'),
+    contentPayload: text('content_payload'),
+    createdAt: text('created_at').notNull(),
+  },
+  (table) => [
+    index('idx_card_revisions_card_created').on(table.cardId, table.createdAt),
+    check('card_revisions_source_check', sql`${table.source} IN ('reply', 'source_edit', 'miniapp')`),
+  ],
+);
+
+export const reviewLogs = pgTable(
+  'review_logs',
+  {
+    id: text('id').primaryKey(),
+    cardId: text('card_id').notNull().references(() => cards.id, { onDelete: 'cascade' }),
+    jobId: text('job_id').references(() => reminderJobs.id, { onDelete: 'set null' }),
+    userId: text('user_id').notNull(),
+    queueScopeType: text('queue_scope_type').notNull().default('user'),
+    queueScopeId: text('queue_scope_id').notNull(),
+    grade: text('grade').notNull(),
+    reminderMode: text('reminder_mode').notNull(),
+    repetition: integer('repetition').notNull(),
+    previousIntervalDays: doublePrecision('previous_interval_days'),
+    nextIntervalDays: doublePrecision('next_interval_days').notNull(),
+    elapsedDays: doublePrecision('elapsed_days'),
+    latencyMs: bigint('latency_ms', { mode: 'number' }),
+    reviewedAt: text('reviewed_at').notNull(),
+    nextReviewAt: text('next_review_at').notNull(),
+    createdAt: text('created_at').notNull(),
+  },
+  (table) => [
+    index('idx_review_logs_card_reviewed').on(table.cardId, table.reviewedAt),
+    index('idx_review_logs_scope_reviewed').on(
+      table.queueScopeType,
+      table.queueScopeId,
+      table.reviewedAt,
+    ),
+    check(
+      'review_logs_queue_scope_type_check',
+      sql`${table.queueScopeType} IN ('user', 'chat')`,
+    ),
+  ],
+);
+
+export const schedulerNodes = pgTable(
+  'scheduler_nodes',
+  {
+    nodeId: text('node_id').primaryKey(),
+    hostname: text('hostname').notNull(),
+    pid: integer('pid').notNull(),
+    role: text('role').notNull().default('standby'),
+    startedAt: text('started_at').notNull(),
+    heartbeatAt: text('heartbeat_at').notNull(),
+    leaderSince: text('leader_since'),
+  },
+  (table) => [
+    index('idx_scheduler_nodes_heartbeat').on(table.heartbeatAt),
+    check('scheduler_nodes_role_check', sql`${table.role} IN ('leader', 'standby')`),
+  ],
+);
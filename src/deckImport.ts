@@ -0,0 +1,355 @@
+import dayjs from 'dayjs';
+import { unzipSync } from 'fflate';
+import initSqlJs from 'sql.js';
+import { v4 as uuid } from 'uuid';
+import { CardStore, ImportedCardInput, QueueScope } from './db';
+import { buildCardFacesFromFields, CardFaces } from './cardFaces';
+import { serializeCardContentPayload } from './cardContent';
+import { computeInitialReviewDate, repetitionFromInterval } from './spacedRepetition';
+import { config } from './config';
+import { withDbRetry } from './utils/dbRetry';
+
+export type DeckImportFormat = 'apkg' | 'csv';
+
+export interface ImportedCardDraft {
+  preview: string;
+  faces: CardFaces | null;
+  nextReviewAt: string | null;
+  intervalDays: number | null;
+}
+
+export interface DeckImportResult {
+  format: DeckImportFormat;
+  imported: number;
+  skipped: number;
+  scheduled: number;
+}
+
+export const MAX_IMPORTED_CARDS = 5000;
+const MAX_PREVIEW_LENGTH = 4000;
+const ANKI_FIELD_SEPARATOR = '\x1f';
+
+const deckImportError = (message: string) => Object.assign(new Error(message), { statusCode: 400 });
+
+export const detectDeckFormat = (buffer: Buffer): DeckImportFormat =>
+  buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50 ? 'apkg' : 'csv';
+
+const decodeHtmlEntities = (value: string) =>
+  value
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/gi, '&');
+
+export const stripAnkiHtml = (value: string): string =>
+  decodeHtmlEntities(
+    value
+      .replace(/\[sound:[^\]]*]/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const buildNote = (fields: string[]): { preview: string; faces: CardFaces | null } | null => {
+  const parts = fields.map(stripAnkiHtml).filter(Boolean);
+  if (!parts.length) return null;
+  return {
+    preview: parts.join('\n\n').slice(0, MAX_PREVIEW_LENGTH),
+    faces: buildCardFacesFromFields(parts),
+  };
+};
+
+const splitDelimitedLine = (line: string, separator: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+    if (char === '"' && current === '') {
+      quoted = true;
+    } else if (char === separator) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+};
+
+const AUTO_SEPARATORS = ['\t', ';', ','];
+
+/**
+ * Splits the text into rows, keeping line breaks inside quoted fields. A quote opens a field
+ * only at the start of a row or right after a separator, so a stray quote inside a field
+ * does not swallow the rest of the file.
+ */
+const splitDelimitedRows = (text: string, separators: string[]): string[] => {
+  const rows: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]!;
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        current += '""';
+        index += 1;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      current += char;
+      continue;
+    }
+    if (char === '"' && (current === '' || separators.includes(current[current.length - 1]!))) {
+      quoted = true;
+    }
+    if (char === '\n' || char === '\r') {
+      if (current.trim()) rows.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) rows.push(current);
+  return rows;
+};
+
+const directiveSeparator = (directive: string): string => {
+  const normalized = directive.toLowerCase();
+  if (normalized === 'tab') return '\t';
+  if (normalized === 'semicolon') return ';';
+  if (normalized === 'comma') return ',';
+  if (normalized === 'pipe') return '|';
+  return directive;
+};
+
+const detectSeparator = (rows: string[], directive: string | null): string => {
+  if (directive) return directiveSeparator(directive);
+  const sample = rows[0] ?? '';
+  if (sample.includes('\t')) return '\t';
+  if (sample.includes(';')) return ';';
+  return ',';
+};
+
+/** Anki puts its `#key:value` directives at the top of the file, before any note. */
+const DIRECTIVE_LINE = /^#[a-z ]+:/i;
+
+const readDirective = (text: string, name: string): string | null => {
+  for (const line of text.split(/\r\n|\n|\r/)) {
+    if (!DIRECTIVE_LINE.test(line)) break;
+    if (line.toLowerCase().startsWith(`#${name}:`)) return line.slice(name.length + 2).trim();
+  }
+  return null;
+};
+
+const HEADER_CELLS = new Set(['front', 'back', 'question', 'answer', 'вопрос', 'ответ', 'due', 'interval']);
+
+/**
+ * Parses Anki text exports and plain CSV/TSV: `front, back[, due date][, interval days]`.
+ * Leading `#key:value` lines are Anki directives (`#separator:tab`, `#tags column:3`) and never become
+ * cards; a `#` further down is note text.
+ */
+export const parseDelimitedDeck = (text: string, now: dayjs.Dayjs = dayjs()): ImportedCardDraft[] => {
+  const source = text.replace(/^﻿/, '');
+  const separatorDirective = readDirective(source, 'separator');
+  const tagsColumn = Number(readDirective(source, 'tags column') ?? 0);
+  const allRows = splitDelimitedRows(
+    source,
+    separatorDirective ? [directiveSeparator(separatorDirective)] : AUTO_SEPARATORS,
+  );
+  const firstNote = allRows.findIndex((row) => !DIRECTIVE_LINE.test(row));
+  const rows = firstNote === -1 ? [] : allRows.slice(firstNote);
+  const separator = detectSeparator(rows, separatorDirective);
+
+  const drafts: ImportedCardDraft[] = [];
+  rows.forEach((row, index) => {
+    const cells = splitDelimitedLine(row, separator).map((cell) => cell.trim());
+    if (index === 0 && cells.some((cell) => HEADER_CELLS.has(cell.toLowerCase()))) {
+      return;
+    }
+    const textCells: string[] = [];
+    let nextReviewAt: string | null = null;
+    let intervalDays: number | null = null;
+    cells.forEach((cell, cellIndex) => {
+      if (tagsColumn > 0 && cellIndex === tagsColumn - 1) return;
+      if (cellIndex >= 2 && /^\d{4}-\d{2}-\d{2}/.test(cell) && dayjs(cell).isValid()) {
+        nextReviewAt = dayjs(cell).toISOString();
+        return;
+      }
+      if (cellIndex >= 2 && /^\d+$/.test(cell)) {
+        intervalDays = Number(cell);
+        return;
+      }
+      textCells.push(cell);
+    });
+    const note = buildNote(textCells);
+    if (!note) return;
+    if (!nextReviewAt && intervalDays) {
+      nextReviewAt = now.add(intervalDays, 'day').toISOString();
+    }
+    drafts.push({ ...note, nextReviewAt, intervalDays });
+  });
+  return drafts;
+};
+
+/**
+ * New Anki versions put the real collection into the compressed `collection.anki21b` and add a
+ * `collection.anki2` that only holds an "update Anki" placeholder note, so `anki21b` is checked first.
+ */
+const selectAnkiCollection = (files: Record<string, Uint8Array>): Uint8Array => {
+  if (files['collection.anki21b']) {
+    throw deckImportError(
+      'Колода сохранена в новом формате Anki. Экспортируйте её с флажком «Поддержка старых версий Anki».',
+    );
+  }
+  const collection = files['collection.anki21'] ?? files['collection.anki2'];
+  if (collection) return collection;
+  throw deckImportError('В архиве нет коллекции Anki');
+};
+
+/**
+ * Reads notes from an `.apkg` archive. One bot card is created per note; its schedule comes
+ * from the note's first card (review cards keep due date and interval, learning cards keep due time).
+ */
+export const parseApkgDeck = async (
+  buffer: Buffer,
+  now: dayjs.Dayjs = dayjs(),
+): Promise<ImportedCardDraft[]> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer));
+  } catch {
+    throw deckImportError('Не удалось распаковать файл .apkg');
+  }
+  const collection = selectAnkiCollection(files);
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(collection);
+  try {
+    const crtRows = db.exec('SELECT crt FROM col LIMIT 1');
+    const collectionCreatedAt = Number(crtRows[0]?.values[0]?.[0] ?? 0);
+    const result = db.exec(`
+      SELECT notes.flds, cards.type, cards.queue, cards.due, cards.ivl
+      FROM notes
+      LEFT JOIN cards ON cards.id = (
+        SELECT id FROM cards AS first_card
+        WHERE first_card.nid = notes.id
+        ORDER BY first_card.ord
+        LIMIT 1
+      )
+      ORDER BY notes.id
+    `);
+    const rows = result[0]?.values ?? [];
+    const drafts: ImportedCardDraft[] = [];
+    for (const [fields, type, queue, due, ivl] of rows) {
+      const note = buildNote(String(fields ?? '').split(ANKI_FIELD_SEPARATOR));
+      if (!note) continue;
+      const cardType = Number(type ?? 0);
+      const cardQueue = Number(queue ?? 0);
+      const dueValue = Number(due ?? 0);
+      const interval = Number(ivl ?? 0);
+      let nextReviewAt: string | null = null;
+      let intervalDays: number | null = null;
+      // Suspended and buried cards (negative queue) are imported without a schedule.
+      if (cardQueue >= 0 && cardType === 2 && collectionCreatedAt > 0) {
+        nextReviewAt = dayjs.unix(collectionCreatedAt).add(dueValue, 'day').toISOString();
+        intervalDays = interval > 0 ? interval : null;
+      } else if (cardQueue >= 0 && (cardType === 1 || cardType === 3) && dueValue > 1_000_000_000) {
+        nextReviewAt = dayjs.unix(dueValue).toISOString();
+      }
+      if (nextReviewAt && dayjs(nextReviewAt).isBefore(now.subtract(10, 'year'))) {
+        nextReviewAt = null;
+      }
+      drafts.push({ ...note, nextReviewAt, intervalDays });
+    }
+    return drafts;
+  } finally {
+    db.close();
+  }
+};
+
+export const parseDeck = async (
+  buffer: Buffer,
+  now: dayjs.Dayjs = dayjs(),
+): Promise<{ format: DeckImportFormat; drafts: ImportedCardDraft[] }> => {
+  const format = detectDeckFormat(buffer);
+  const drafts =
+    format === 'apkg'
+      ? await parseApkgDeck(buffer, now)
+      : parseDelimitedDeck(buffer.toString('utf8'), now);
+  return { format, drafts };
+};
+
+export const importDeck = async (
+  store: CardStore,
+  params: { userId: string; queueScope: QueueScope; buffer: Buffer },
+): Promise<DeckImportResult> => {
+  const { format, drafts } = await parseDeck(params.buffer);
+  if (!drafts.length) {
+    throw deckImportError('В файле не найдено ни одной карточки');
+  }
+  const accepted = drafts.slice(0, MAX_IMPORTED_CARDS);
+  await withDbRetry(() => store.ensureUser(params.userId));
+  const reminderMode = await withDbRetry(() => store.getUserDefaultReminderMode(params.userId));
+  const inputs: ImportedCardInput[] = accepted.map((draft) => {
+    const nextReviewAt = draft.nextReviewAt ?? computeInitialReviewDate(config.initialReviewMinutes);
+    const intervalDays = draft.intervalDays;
+    return {
+      card: {
+        id: uuid(),
+        userId: params.userId,
+        queueScopeType: params.queueScope.type,
+        queueScopeId: params.queueScope.id,
+        sourceChatId: params.userId,
+        sourceMessageId: 0,
+        contentType: 'text',
+        contentPreview: draft.preview,
+        contentFileId: null,
+        contentFileUniqueId: null,
+        contentPayload: serializeCardContentPayload(draft.faces ? { faces: draft.faces } : null),
+        reminderMode,
+      },
+      activation: {
+        nextReviewAt,
+        ...(intervalDays
+          ? {
+              repetition: repetitionFromInterval(intervalDays),
+              lastReviewedAt: dayjs(nextReviewAt).subtract(intervalDays, 'day').toISOString(),
+            }
+          : {}),
+      },
+    };
+  });
+  // One transaction: a failure part way leaves no half-imported deck to duplicate on the next try.
+  try {
+    await withDbRetry(() => store.importCards(inputs));
+  } catch (error) {
+    const message = 'Не удалось импортировать колоду, ни одна карточка не добавлена. Попробуйте ещё раз.';
+    throw Object.assign(new Error(message), { statusCode: 503, cause: error });
+  }
+  const scheduled = accepted.filter((draft) => draft.nextReviewAt).length;
+
+  return {
+    format,
+    imported: accepted.length,
+    skipped: drafts.length - accepted.length,
+    scheduled,
+  };
+};
@@ -0,0 +1,141 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Per-queue-scope pause of reminder delivery. Do-not-disturb holds reminders until a moment;
+ * vacation holds them until it is ended (by hand or at `vacationUntil`), after which the
+ * backlog is spread over `vacationSpreadDays` days.
+ */
+export interface DeliveryPause {
+  doNotDisturbUntil: string | null;
+  vacationSince: string | null;
+  vacationUntil: string | null;
+  vacationSpreadDays: number;
+}
+
+export const DEFAULT_VACATION_SPREAD_DAYS = 3;
+export const MAX_VACATION_SPREAD_DAYS = 14;
+export const MAX_VACATION_DAYS = 365;
+export const MAX_DO_NOT_DISTURB_HOURS = 7 * 24;
+
+export const EMPTY_DELIVERY_PAUSE: DeliveryPause = {
+  doNotDisturbUntil: null,
+  vacationSince: null,
+  vacationUntil: null,
+  vacationSpreadDays: DEFAULT_VACATION_SPREAD_DAYS,
+};
+
+export const isDoNotDisturbActive = (pause: DeliveryPause, now = Date.now()) =>
+  Boolean(pause.doNotDisturbUntil && Date.parse(pause.doNotDisturbUntil) > now);
+
+export const isDeliveryPaused = (pause: DeliveryPause, now = Date.now()) =>
+  Boolean(pause.vacationSince) || isDoNotDisturbActive(pause, now);
+
+/** Empty means the default; `undefined` means the value is not a number of days. */
+export const parseVacationSpreadDays = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return DEFAULT_VACATION_SPREAD_DAYS;
+  const text = String(value).trim();
+  if (!/^\d+$/.test(text)) return undefined;
+  const days = Number(text);
+  return days >= 1 && days <= MAX_VACATION_SPREAD_DAYS ? days : undefined;
+};
+
+const DURATION_PATTERN = /^(\d+)\s*(m|min|м|мин|h|ч|d|д)$/i;
+const CLOCK_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/**
+ * Reads a do-not-disturb end from `2h`, `90m`, `1d` or a local clock time (`08:30`, the next
+ * such moment). `null` switches it off (`off`); `undefined` means the value is not understood.
+ */
+export const parseDoNotDisturbUntil = (
+  value: string,
+  { now = new Date().toISOString(), timezone: timezoneName }: { now?: string; timezone: string },
+): string | null | undefined => {
+  const text = value.trim().toLowerCase();
+  if (text === 'off' || text === 'нет' || text === '0') return null;
+  const start = dayjs(now).tz(timezoneName);
+
+  const duration = text.match(DURATION_PATTERN);
+  if (duration) {
+    const amount = Number(duration[1]);
+    const unit = (duration[2] ?? '').toLowerCase();
+    const minutes = /^[hч]/.test(unit) ? amount * 60 : /^[dд]/.test(unit) ? amount * 24 * 60 : amount;
+    if (minutes < 1 || minutes > MAX_DO_NOT_DISTURB_HOURS * 60) return undefined;
+    return start.add(minutes, 'minute').toISOString();
+  }
+
+  const clock = text.match(CLOCK_PATTERN);
+  if (clock) {
+    const hours = Number(clock[1]);
+    const minutes = Number(clock[2]);
+    if (hours > 23 || minutes > 59) return undefined;
+    let until = start.hour(hours).minute(minutes).second(0).millisecond(0);
+    if (!until.isAfter(start)) until = until.add(1, 'day');
+    return until.toISOString();
+  }
+
+  return undefined;
+};
+
+/** Vacation of `days` days ends at local midnight `days` days from now. */
+export const vacationUntilAfterDays = (
+  days: number,
+  { now = new Date().toISOString(), timezone: timezoneName }: { now?: string; timezone: string },
+): string => dayjs(now).tz(timezoneName).startOf('day').add(days, 'day').toISOString();
+
+export type VacationCommand =
+  | { action: 'status' }
+  | { action: 'start'; days: number | null; spreadDays: number }
+  | { action: 'end'; spreadDays: number | null }
+  | { action: 'dnd'; value: string };
+
+/**
+ * `/vacation` — status; `/vacation on` or `/vacation 7` — start (for 7 days), optionally
+ * followed by the number of days to spread the backlog over; `/vacation off [3]` — end now;
+ * `/vacation dnd 2h|08:00|off` — do not disturb. `null` means the payload is not understood.
+ */
+export const parseVacationCommand = (payload: string): VacationCommand | null => {
+  const [action = '', ...rest] = payload.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (!action) return { action: 'status' };
+  if (action === 'dnd') {
+    return rest.length === 1 && rest[0] ? { action: 'dnd', value: rest[0] } : null;
+  }
+  if (rest.length > 1) return null;
+  if (action === 'off') {
+    if (!rest[0]) return { action: 'end', spreadDays: null };
+    const spreadDays = parseVacationSpreadDays(rest[0]);
+    return spreadDays === undefined ? null : { action: 'end', spreadDays };
+  }
+  const spreadDays = parseVacationSpreadDays(rest[0]);
+  if (spreadDays === undefined) return null;
+  if (action === 'on') return { action: 'start', days: null, spreadDays };
+  if (!/^\d+$/.test(action)) return null;
+  const days = Number(action);
+  return days >= 1 && days <= MAX_VACATION_DAYS ? { action: 'start', days, spreadDays } : null;
+};
+
+const formatLocal = (iso: string, timezoneName: string) =>
+  dayjs(iso).tz(timezoneName).format('DD.MM HH:mm');
+
+export const formatDeliveryPause = (
+  pause: DeliveryPause,
+  { now = Date.now(), timezone: timezoneName }: { now?: number; timezone: string },
+): string => {
+  const lines: string[] = [];
+  if (pause.vacationSince) {
+    lines.push(
+      pause.vacationUntil
+        ? `🏝 Отпуск до ${formatLocal(pause.vacationUntil, timezoneName)}`
+        : '🏝 Отпуск без даты окончания',
+      `После возвращения накопившиеся повторения распределю на ${pause.vacationSpreadDays} дн.`,
+    );
+  }
+  if (isDoNotDisturbActive(pause, now) && pause.doNotDisturbUntil) {
+    lines.push(`🔕 Не беспокоить до ${formatLocal(pause.doNotDisturbUntil, timezoneName)}`);
+  }
+  return lines.length ? lines.join('\n') : 'Напоминания приходят как обычно.';
+};
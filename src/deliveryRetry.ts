@@ -0,0 +1,91 @@
+export type DeliveryErrorKind = 'retryable' | 'permanent';
+
+export interface DeliveryFailure {
+  kind: DeliveryErrorKind;
+  /** Telegram `error_code` or a Node network error code such as `ECONNRESET`. */
+  code: number | string | null;
+  description: string;
+  retryAfterMs: number | null;
+}
+
+export const RETRY_BASE_DELAY_MS = 2 * 60_000;
+export const RETRY_MAX_DELAY_MS = 6 * 60 * 60_000;
+
+// 401/404 come back for a revoked or mistyped token: fixing the config should not lose reminders.
+const RETRYABLE_CLIENT_CODES = new Set([401, 404, 429]);
+
+type TelegramLikeError = {
+  code?: unknown;
+  message?: unknown;
+  description?: unknown;
+  response?: { error_code?: unknown; description?: unknown; parameters?: { retry_after?: unknown } };
+  parameters?: { retry_after?: unknown };
+  cause?: unknown;
+};
+
+const readDescription = (error: TelegramLikeError): string => {
+  if (typeof error.response?.description === 'string') return error.response.description;
+  if (typeof error.description === 'string') return error.description;
+  if (typeof error.message === 'string') return error.message;
+  return 'неизвестная ошибка';
+};
+
+/**
+ * Decides whether a failed send is worth retrying. Telegram API errors carry `error_code`:
+ * 403 (bot blocked, kicked, user deactivated) and other 4xx requests will fail the same way
+ * again, while 429 flood waits, 5xx and network errors are transient. Unknown errors (a lost
+ * DB connection in the middle of a send) are retried as well. A numeric `code` alone is not a
+ * Telegram code: an aborted `fetch` throws a `DOMException` whose legacy `code` is a number.
+ */
+export const classifyDeliveryError = (error: unknown): DeliveryFailure => {
+  if (!error || typeof error !== 'object') {
+    return {
+      kind: 'retryable',
+      code: null,
+      description: typeof error === 'string' ? error : 'неизвестная ошибка',
+      retryAfterMs: null,
+    };
+  }
+  const candidate = error as TelegramLikeError;
+  const description = readDescription(candidate);
+  const errorCode = candidate.response?.error_code;
+  if (typeof errorCode === 'number') {
+    const retryAfter = candidate.response?.parameters?.retry_after ?? candidate.parameters?.retry_after;
+    const retryAfterMs = typeof retryAfter === 'number' && retryAfter > 0 ? retryAfter * 1000 : null;
+    const retryable = errorCode >= 500 || RETRYABLE_CLIENT_CODES.has(errorCode);
+    return { kind: retryable ? 'retryable' : 'permanent', code: errorCode, description, retryAfterMs };
+  }
+  // Node network errors (`ECONNRESET`, `ETIMEDOUT`, `EAI_AGAIN`, ...) carry a string code.
+  if (typeof candidate.code === 'string') {
+    return { kind: 'retryable', code: candidate.code, description, retryAfterMs: null };
+  }
+  if (candidate.cause && typeof candidate.cause === 'object') {
+    const cause = classifyDeliveryError(candidate.cause);
+    if (cause.code !== null) return cause;
+  }
+  return { kind: 'retryable', code: null, description, retryAfterMs: null };
+};
+
+/** 2, 4, 8, ... minutes after each failed attempt, capped at 6 hours; a flood wait is honoured. */
+export const computeRetryDelayMs = (attempt: number, retryAfterMs: number | null = null): number => {
+  const exponent = Math.max(0, attempt - 1);
+  const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** exponent);
+  return Math.max(backoff, retryAfterMs ?? 0);
+};
+
+/** Returns the next attempt time, or `null` when the job goes to the dead-letter list. */
+export const planDeliveryRetry = (params: {
+  failure: DeliveryFailure;
+  attempts: number;
+  maxAttempts: number;
+  now?: number;
+}): string | null => {
+  if (params.failure.kind === 'permanent' || params.attempts >= params.maxAttempts) return null;
+  const now = params.now ?? Date.now();
+  return new Date(now + computeRetryDelayMs(params.attempts, params.failure.retryAfterMs)).toISOString();
+};
+
+export const formatDeliveryError = (failure: DeliveryFailure): string => {
+  const text = failure.description.replace(/\s+/g, ' ').trim();
+  return (failure.code !== null ? `[${failure.code}] ${text}` : text).slice(0, 240);
+};
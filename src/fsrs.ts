@@ -0,0 +1,108 @@
+// FSRS-4.5 memory model: https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+
+export type FsrsRating = 1 | 2 | 3 | 4;
+
+export interface FsrsMemoryState {
+  stability: number;
+  difficulty: number;
+  retrievability: number | null;
+}
+
+export const FSRS_DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461,
+  2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+] as const;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MIN_STABILITY = 0.1;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+
+const weight = (index: number) => FSRS_DEFAULT_WEIGHTS[index] ?? 0;
+
+const clampDifficulty = (value: number) =>
+  Math.min(Math.max(value, MIN_DIFFICULTY), MAX_DIFFICULTY);
+
+const clampRetention = (value: number) =>
+  Number.isFinite(value) ? Math.min(Math.max(value, 0.7), 0.99) : 0.9;
+
+const initialStability = (rating: FsrsRating) =>
+  Math.max(weight(rating - 1), MIN_STABILITY);
+
+const initialDifficulty = (rating: FsrsRating) =>
+  clampDifficulty(weight(4) - (rating - 3) * weight(5));
+
+export const fsrsRetrievability = (elapsedDays: number, stability: number): number =>
+  Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / Math.max(stability, MIN_STABILITY), DECAY);
+
+export const fsrsIntervalDays = (stability: number, desiredRetention = 0.9): number => {
+  const retention = clampRetention(desiredRetention);
+  const interval = (stability / FACTOR) * (Math.pow(retention, 1 / DECAY) - 1);
+  return Math.max(1, Math.round(interval));
+};
+
+const nextDifficulty = (difficulty: number, rating: FsrsRating) => {
+  const shifted = difficulty - weight(6) * (rating - 3);
+  // Mean reversion towards the difficulty of a "good" first answer keeps D from sticking at the bounds.
+  return clampDifficulty(weight(7) * initialDifficulty(3) + (1 - weight(7)) * shifted);
+};
+
+const nextRecallStability = (
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  rating: FsrsRating,
+) => {
+  const hardPenalty = rating === 2 ? weight(15) : 1;
+  const easyBonus = rating === 4 ? weight(16) : 1;
+  return (
+    stability *
+    (1 +
+      Math.exp(weight(8)) *
+        (11 - difficulty) *
+        Math.pow(stability, -weight(9)) *
+        (Math.exp(weight(10) * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+};
+
+const nextForgetStability = (difficulty: number, stability: number, retrievability: number) =>
+  Math.min(
+    weight(11) *
+      Math.pow(difficulty, -weight(12)) *
+      (Math.pow(stability + 1, weight(13)) - 1) *
+      Math.exp(weight(14) * (1 - retrievability)),
+    stability,
+  );
+
+/**
+ * Returns the memory state after a review. `previous` is null for cards that have never
+ * been reviewed in FSRS mode (including cards switched over from another mode).
+ */
+export const computeFsrsState = (
+  previous: Pick<FsrsMemoryState, 'stability' | 'difficulty'> | null,
+  elapsedDays: number,
+  rating: FsrsRating,
+): FsrsMemoryState => {
+  if (!previous) {
+    return {
+      stability: initialStability(rating),
+      difficulty: initialDifficulty(rating),
+      retrievability: null,
+    };
+  }
+
+  const retrievability = fsrsRetrievability(elapsedDays, previous.stability);
+  const stability =
+    rating === 1
+      ? nextForgetStability(previous.difficulty, previous.stability, retrievability)
+      : nextRecallStability(previous.difficulty, previous.stability, retrievability, rating);
+
+  return {
+    stability: Math.max(stability, MIN_STABILITY),
+    difficulty: nextDifficulty(previous.difficulty, rating),
+    retrievability,
+  };
+};
@@ -7,6 +7,9 @@ import {
   serializeScheduleRule,
 } from './schedule';
 import { parseOneTimeReminderText } from './oneTimeReminder';
+import type { CardRecord, CardStore, CreatePendingCardInput, ReminderJobRecord } from './db';
+import { withDbRetry } from './utils/dbRetry';
+import { fromWallClock, serverTimezone, toWallClock } from './utils/wallClock';
 
 export type HouseholdReminderKind = 'shopping' | 'medicine' | 'birthday' | 'general';
 
@@ -32,9 +35,11 @@ type FragmentMatch = {
   remindAt: string;
 };
 
+/** Times and dates in the text are local to `timezoneName`, the timezone of the reminder's scope. */
 export const parseHouseholdReminderText = (
   input: string,
   now: dayjs.Dayjs = dayjs(),
+  timezoneName: string = serverTimezone(),
 ): HouseholdReminderPlan | null => {
   const text = normalizeInput(input);
   if (!text) return null;
@@ -50,38 +55,46 @@ export const parseHouseholdReminderText = (
       day: birthdayDate.day,
       timeMinutes: timeMinutes ?? 9 * 60,
     };
-    return {
-      mode: 'schedule',
-      kind,
-      title: cleanupTitle(text, {
-        remove: [birthdayDate.raw],
-        fallback: fallbackTitle(kind),
-      }),
-      rule,
-      ruleText: scheduleRuleLabel(rule),
-      scheduleRule: serializeScheduleRule(rule),
-      nextReviewAt: computeNextFromSchedule(rule, now),
-    };
+    const nextReviewAt = computeNextFromSchedule(rule, now, timezoneName);
+    if (nextReviewAt) {
+      return {
+        mode: 'schedule',
+        kind,
+        title: cleanupTitle(text, {
+          remove: [birthdayDate.raw],
+          fallback: fallbackTitle(kind),
+        }),
+        rule,
+        ruleText: scheduleRuleLabel(rule),
+        scheduleRule: serializeScheduleRule(rule),
+        nextReviewAt,
+      };
+    }
   }
 
-  const scheduleRule = parseNaturalSchedule(text);
-  if (scheduleRule) {
-    const rule = withTime(scheduleRule, timeMinutes);
+  const scheduleRule = parseNaturalSchedule(text, timezoneName);
+  const rule = scheduleRule ? withTime(scheduleRule, timeMinutes) : null;
+  const nextReviewAt = rule ? computeNextFromSchedule(rule, now, timezoneName) : null;
+  if (rule && nextReviewAt) {
     return {
       mode: 'schedule',
       kind,
       title: cleanupTitle(text, {
-        remove: [extractSchedulePhrase(text), extractTimePhrase(text)].filter(Boolean) as string[],
+        remove: [
+          extractSchedulePhrase(text),
+          extractTimePhrase(text),
+          ...extractScheduleEndPhrases(text),
+        ].filter(Boolean) as string[],
         fallback: fallbackTitle(kind),
       }),
       rule,
       ruleText: scheduleRuleLabel(rule),
       scheduleRule: serializeScheduleRule(rule),
-      nextReviewAt: computeNextFromSchedule(rule, now),
+      nextReviewAt,
     };
   }
 
-  const oneTime = extractOneTimeFragment(text, now);
+  const oneTime = extractOneTimeFragment(text, now, timezoneName);
   if (!oneTime) return null;
 
   return {
@@ -95,6 +108,54 @@ export const parseHouseholdReminderText = (
   };
 };
 
+export type HouseholdReminderCardInput = Omit<
+  CreatePendingCardInput,
+  'contentPreview' | 'reminderMode' | 'scheduleRule'
+> & {
+  plan: HouseholdReminderPlan;
+  source: string;
+};
+
+/**
+ * Stores a parsed household reminder as a card: one-time plans get a single `one_time` job,
+ * schedule plans become `schedule` cards activated at the first occurrence.
+ */
+export const createHouseholdReminderCard = async (
+  store: CardStore,
+  input: HouseholdReminderCardInput,
+): Promise<{ card: CardRecord; job: ReminderJobRecord | null }> => {
+  const { plan, source, ...cardInput } = input;
+  const card = await withDbRetry(() =>
+    store.createPendingCard({
+      ...cardInput,
+      contentPreview: plan.title,
+      reminderMode: plan.mode === 'schedule' ? 'schedule' : 'sm2',
+      scheduleRule: plan.mode === 'schedule' ? plan.scheduleRule : null,
+    }),
+  );
+
+  if (plan.mode === 'one_time') {
+    await withDbRetry(() => store.updateStatus(card.id, 'learning'));
+    const job = await withDbRetry(() =>
+      store.createReminderJob({
+        cardId: card.id,
+        userId: card.userId,
+        kind: 'one_time',
+        dueAt: plan.remindAt,
+        source: `${source}_household_${plan.kind}`,
+        metadata: JSON.stringify({ household: true, kind: plan.kind, mode: plan.mode }),
+      }),
+    );
+    const updated = await withDbRetry(() => store.getCardById(card.id));
+    return { card: updated, job };
+  }
+
+  const updated = await withDbRetry(() =>
+    store.activateCard(card.id, { nextReviewAt: plan.nextReviewAt }),
+  );
+  return { card: updated, job: null };
+};
+
 const normalizeInput = (input: string) => input.trim().replace(/\s+/g, ' ');
 
 const detectKind = (text: string): HouseholdReminderKind => {
@@ -155,7 +216,9 @@ const extractTimeMinutes = (text: string): number | null => {
 };
 
 const extractTimePhrase = (text: string): string | null => {
-  const match = text.match(/(?:^|\s)(?:в|к)\s*\d{1,2}(?::\d{2})?(?:\s|$)/i);
+  const match = text.match(
+    /(?:^|\s)(?:в|к)\s*\d{1,2}(?::\d{2})?(?:\s*(?:,|и)\s*\d{1,2}(?::\d{2})?)*(?:\s|$)/i,
+  );
   if (match) return match[0];
   const word = text.match(/\b(утром|вечером)\b/i);
   return word?.[0] ?? null;
@@ -172,8 +235,15 @@ const extractDottedDate = (text: string): { raw: string; day: number; month: num
   return { raw: match[0], day, month };
 };
 
+/** "до 01.01.2027" and "10 раз" are part of the schedule, not of the title. */
+const extractScheduleEndPhrases = (text: string): string[] =>
+  [
+    text.match(/(?:^|\s)до\s+(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\.\d{1,2}\.\d{4})(?=\s|$)/i)?.[0],
+    text.match(/(?:^|\s)(?:всего\s+)?\d+\s+раза?(?=\s|$)/i)?.[0],
+  ].filter((phrase): phrase is string => Boolean(phrase));
+
 const withTime = (rule: ScheduleRule, timeMinutes: number | null): ScheduleRule => {
-  if (!Number.isInteger(timeMinutes)) return rule;
+  if (!Number.isInteger(timeMinutes) || rule.timesMinutes?.length) return rule;
   return { ...rule, timeMinutes: timeMinutes ?? undefined } as ScheduleRule;
 };
 
@@ -198,12 +268,16 @@ const ONE_TIME_PATTERNS = [
   /(?:^|\s)(?:сегодня\s+)?(?:в\s+)?\d{1,2}(?::\d{2})?(?:\s|$)/i,
 ];
 
-const extractOneTimeFragment = (text: string, now: dayjs.Dayjs): FragmentMatch | null => {
+const extractOneTimeFragment = (
+  text: string,
+  now: dayjs.Dayjs,
+  timezoneName: string,
+): FragmentMatch | null => {
   for (const pattern of ONE_TIME_PATTERNS) {
     const match = text.match(pattern);
     const raw = match?.[0]?.trim();
     if (!raw) continue;
-    const remindAt = parseOneTimeFragment(raw, now);
+    const remindAt = parseOneTimeFragment(raw, now, timezoneName);
     if (remindAt) {
       return { text: raw, remindAt };
     }
@@ -211,11 +285,13 @@ const extractOneTimeFragment = (text: string, now: dayjs.Dayjs): FragmentMatch |
   return null;
 };
 
-const parseOneTimeFragment = (fragment: string, now: dayjs.Dayjs): string | null => {
+const parseOneTimeFragment = (fragment: string, now: dayjs.Dayjs, timezoneName: string): string | null => {
   const normalized = fragment.trim().toLowerCase();
+  const local = toWallClock(now, timezoneName);
   const tomorrowEvening = normalized.match(/^завтра вечером$/);
   if (tomorrowEvening) {
-    return now.add(1, 'day').hour(20).minute(0).second(0).millisecond(0).toISOString();
+    const at = local.add(1, 'day').hour(20).minute(0).second(0).millisecond(0);
+    return fromWallClock(at, timezoneName).toISOString();
   }
 
   const afterTomorrowTime = normalized.match(/^послезавтра\s+(?:в\s+)?(\d{1,2})(?::(\d{2}))?$/);
@@ -223,9 +299,10 @@ const parseOneTimeFragment = (fragment: string, now: dayjs.Dayjs): string | null
     const hours = Number(afterTomorrowTime[1]);
     const minutes = afterTomorrowTime[2] ? Number(afterTomorrowTime[2]) : 0;
     if (hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59) {
-      return now.add(2, 'day').hour(hours).minute(minutes).second(0).millisecond(0).toISOString();
+      const at = local.add(2, 'day').hour(hours).minute(minutes).second(0).millisecond(0);
+      return fromWallClock(at, timezoneName).toISOString();
     }
   }
 
-  return parseOneTimeReminderText(normalized, now);
+  return parseOneTimeReminderText(normalized, now, timezoneName);
 };
@@ -26,7 +26,7 @@ import {
   CourseVisibility,
   ReminderJobRecord,
   UserAuthAccountRecord,
-  UserReminderSettings,
+  UserReminderSettingsInput,
 } from './db';
 import { CourseStepKind } from './courses';
 import {
@@ -35,13 +35,35 @@ import {
   createCourseDraftGenerator,
   normalizeCourseDraft,
 } from './courseAuthoring';
+import { parseCardContentPayload, resolveCardMediaContentType } from './cardContent';
+import { buildEditedTextContent, MAX_CARD_TEXT_LENGTH } from './cardEditing';
+import { isLeechAction, parseLeechThreshold } from './cardLeeches';
+import { buildSearchTsQuery } from './cardSearch';
+import { normalizeTag, parseDeckDailyLimit, parseTagInput } from './cardTags';
+import {
+  buildExportMediaUrl,
+  loadCollectionExport,
+  parseExportFormat,
+  renderCollectionExport,
+  verifyExportMediaSignature,
+} from './collectionExport';
 import { config } from './config';
-import { parseHouseholdReminderText } from './householdReminder';
+import { importDeck } from './deckImport';
+import {
+  MAX_DO_NOT_DISTURB_HOURS,
+  MAX_VACATION_DAYS,
+  parseVacationSpreadDays,
+} from './deliveryPause';
+import { createHouseholdReminderCard, parseHouseholdReminderText } from './householdReminder';
 import { logger } from './logger';
+import { buildMediaBlobKey, createMediaStore, MediaStore } from './mediaStore';
 import { getPublicBaseUrl } from './publicUrl';
+import { DEFAULT_DELIVERY_SETTINGS, parseWeekdayActiveHours, startOfLocalDay } from './reminderPlanner';
 import { ReminderRebalancePreviewChange } from './reminderRebalance';
 import { ReviewScheduler } from './reviewScheduler';
-import { computeReview } from './spacedRepetition';
+import { computeNextFromSchedule, parseNaturalSchedule, serializeScheduleRule } from './schedule';
+import { createTelegramWebhookHandler } from './telegramWebhook';
+import { computeReview, GradeKey, parseGradeKey } from './spacedRepetition';
 import { withDbRetry } from './utils/dbRetry';
 import {
   hashToken,
@@ -67,6 +89,18 @@ const isPersonalMiniAppCard = (card: CardRecord, userId: string) =>
   card.queueScopeType === 'user' &&
   card.queueScopeId === userId;
 
+/** `undefined` when no filter was requested, `null` when the value is not a valid tag. */
+const parseTagFilter = (value: unknown): string | null | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  return normalizeTag(value);
+};
+
+/** Same `undefined`/`null` contract as `parseTagFilter`: `null` is a query without searchable words. */
+const parseSearchQuery = (value: unknown): string | null | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  return buildSearchTsQuery(value) ? value.trim() : null;
+};
+
 const parseLimit = (value: unknown, fallback: number) => {
   if (typeof value !== 'string') return fallback;
   const parsed = Number.parseInt(value, 10);
@@ -101,26 +135,63 @@ const isValidTimezone = (value: string) => {
   }
 };
 
-const parseReminderSettings = (body: unknown): UserReminderSettings | null => {
+const parseReminderSettings = (body: unknown): UserReminderSettingsInput | null => {
   if (!body || typeof body !== 'object') return null;
   const input = body as Record<string, unknown>;
   const timezone = typeof input.timezone === 'string' ? input.timezone.trim() : '';
   const activeHoursStart = Number(input.activeHoursStart);
   const activeHoursEnd = Number(input.activeHoursEnd);
   const minGapMinutes = Number(input.minGapMinutes);
+  const defaultReminderMode = input.defaultReminderMode;
+  const weekdayHours = parseWeekdayActiveHours(input.weekdayHours);
+  const dailyReviewLimit = parseDeckDailyLimit(input.dailyReviewLimit);
+  const dailyNewCardLimit = parseDeckDailyLimit(input.dailyNewCardLimit);
+  const weeklyReportWeekday = input.weeklyReportWeekday ?? null;
+  const leechThreshold = parseLeechThreshold(input.leechThreshold);
   if (!timezone || !isValidTimezone(timezone)) return null;
+  if (weekdayHours === undefined) return null;
+  if (dailyReviewLimit === undefined || dailyNewCardLimit === undefined) return null;
   if (!Number.isInteger(activeHoursStart) || activeHoursStart < 0 || activeHoursStart > 1439) return null;
   if (!Number.isInteger(activeHoursEnd) || activeHoursEnd < 1 || activeHoursEnd > 1440) return null;
   if (activeHoursStart >= activeHoursEnd) return null;
   if (!Number.isInteger(minGapMinutes) || minGapMinutes < 1 || minGapMinutes > 360) return null;
+  if (
+    weeklyReportWeekday !== null &&
+    (!Number.isInteger(weeklyReportWeekday) || (weeklyReportWeekday as number) < 0 || (weeklyReportWeekday as number) > 6)
+  ) {
+    return null;
+  }
+  if ('leechThreshold' in input && leechThreshold === undefined) return null;
+  if (
+    defaultReminderMode !== undefined &&
+    defaultReminderMode !== 'sm2' &&
+    defaultReminderMode !== 'fsrs'
+  ) {
+    return null;
+  }
   return {
     timezone,
     activeHoursStart,
     activeHoursEnd,
     minGapMinutes,
+    weekdayHours,
+    ...(defaultReminderMode === undefined ? {} : { defaultReminderMode }),
+    ...('dailyReviewLimit' in input ? { dailyReviewLimit } : {}),
+    ...('dailyNewCardLimit' in input ? { dailyNewCardLimit } : {}),
+    ...('weeklyReportWeekday' in input ? { weeklyReportWeekday: weeklyReportWeekday as number | null } : {}),
+    ...(leechThreshold === undefined ? {} : { leechThreshold }),
   };
 };
 
+/** A future moment no further than `maxMs` ahead, `null` to clear; `undefined` when invalid. */
+const parsePauseUntil = (value: unknown, maxMs: number): string | null | undefined => {
+  if (value === null) return null;
+  if (!isIsoDate(value)) return undefined;
+  const until = Date.parse(value);
+  const now = Date.now();
+  return until > now && until - now <= maxMs ? new Date(until).toISOString() : undefined;
+};
+
 const parseRebalanceOptions = (body: unknown) => {
   const input = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
   const horizonDays = Number(input.horizonDays ?? 7);
@@ -275,10 +346,20 @@ const getHttpStatus = (error: unknown) => {
 const queueError = (statusCode: number, message: string) =>
   Object.assign(new Error(message), { statusCode });
 
+const parseViewedGrade = (value: unknown): Exclude<GradeKey, 'again'> => {
+  if (value === undefined || value === null || value === '') return 'good';
+  const grade = typeof value === 'string' ? parseGradeKey(value) : null;
+  if (!grade || grade === 'again') {
+    throw queueError(400, 'Некорректная оценка');
+  }
+  return grade;
+};
+
 export const createHttpServer = (
   store: CardStore,
   scheduler: ReviewScheduler,
   bot: Telegraf,
+  mediaStore: MediaStore | null = createMediaStore(config.mediaStore),
 ) => {
   const app = express();
   const baseCookieOptions: CookieOptions = {
@@ -411,6 +492,14 @@ export const createHttpServer = (
   app.use(cookieParser());
   app.use(express.json());
   app.use(express.urlencoded({ extended: false }));
+
+  if (config.telegram.transport === 'webhook' && config.telegram.webhookSecret) {
+    app.post(
+      config.telegram.webhookPath,
+      createTelegramWebhookHandler(bot, config.telegram.webhookSecret),
+    );
+  }
+
   app.use('/miniapp', (_req, res, next) => {
     res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
     res.setHeader('Pragma', 'no-cache');
@@ -638,6 +727,49 @@ export const createHttpServer = (
     res.send(renderAccountPage(options));
   });
 
+  app.get('/account/export', requireAppAuth, async (req, res) => {
+    const session = (req as any).appSession as AppSessionRecord;
+    await sendCollectionExport(req, res, {
+      userId: session.user.primaryTelegramUserId,
+      appUserId: session.user.id,
+    });
+  });
+
+  app.get('/export/media/:fileId', async (req, res) => {
+    const fileId = req.params.fileId;
+    const valid = verifyExportMediaSignature({
+      fileId,
+      expires: req.query.expires,
+      signature: req.query.sig,
+      secret: config.webSessionSecret,
+    });
+    if (!valid) {
+      res.status(403).json({ error: 'Ссылка недействительна или устарела' });
+      return;
+    }
+    try {
+      const link = await bot.telegram.getFileLink(fileId);
+      const tgResponse = await fetch(link);
+      if (!tgResponse.ok || !tgResponse.body) {
+        res.status(502).json({ error: 'Не удалось получить медиа' });
+        return;
+      }
+      res.setHeader(
+        'Content-Type',
+        tgResponse.headers.get('content-type') ?? 'application/octet-stream',
+      );
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      Readable.fromWeb(tgResponse.body).pipe(res);
+    } catch (error) {
+      logger.error('Ошибка выдачи медиа из экспорта', error);
+      if (isFileTooBigError(error)) {
+        res.status(413).json({ error: 'Файл слишком большой для скачивания через бота' });
+        return;
+      }
+      res.status(500).json({ error: 'Не удалось загрузить медиа' });
+    }
+  });
+
   app.get('/api/account/me', requireAppAuth, async (req, res) => {
     const session = (req as any).appSession as AppSessionRecord;
     const accounts = await withDbRetry(() => store.listAuthAccounts(session.user.id));
@@ -985,6 +1117,33 @@ export const createHttpServer = (
     return { card, job: null };
   };
 
+  const sendCollectionExport = async (
+    req: Request,
+    res: Response,
+    owner: { userId: string | null; appUserId: string | null },
+  ) => {
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      res.status(400).json({ error: 'Формат экспорта: json, csv или anki' });
+      return;
+    }
+    try {
+      const collection = await loadCollectionExport(store, {
+        ...owner,
+        mediaUrl: (fileId) =>
+          buildExportMediaUrl({ baseUrl: publicBaseUrl, fileId, secret: config.webSessionSecret }),
+      });
+      const file = renderCollectionExport(collection, format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(file.body);
+    } catch (error) {
+      logger.error('Ошибка экспорта коллекции', error);
+      res.status(500).json({ error: 'Не удалось выгрузить данные' });
+    }
+  };
+
   const handleQueueActionError = (res: Response, label: string, error: unknown) => {
     const message = error instanceof Error ? error.message : 'Не удалось выполнить действие';
     const statusCode = getHttpStatus(error);
@@ -1100,9 +1259,14 @@ export const createHttpServer = (
     async (req, res) => {
       const userId = (req as any).userId;
       const limit = parseLimit(req.query.limit, 20);
+      const tag = parseTagFilter(req.query.tag);
+      if (tag === null) {
+        res.status(400).json({ error: 'Invalid tag' });
+        return;
+      }
       try {
         const items = await withDbRetry(() =>
-          store.listReminderQueueByUser({ userId, limit }),
+          store.listReminderQueueByUser({ userId, limit, tag: tag ?? null }),
         );
         res.json({
           data: {
@@ -1128,6 +1292,7 @@ export const createHttpServer = (
       const jobId = parseOptionalString(req.body?.jobId);
 
       try {
+        const grade = parseViewedGrade(req.body?.grade);
         const { card, job } = await loadQueueActionContext(userId, cardId, jobId);
 
         if (job?.kind === 'one_time') {
@@ -1161,13 +1326,18 @@ export const createHttpServer = (
           return;
         }
 
-        const result = computeReview(card, 'ok');
+        const timezone = await withDbRetry(() => store.getUserTimezone(card.userId));
+        const result = computeReview(card, grade, timezone);
         await withDbRetry(() =>
           store.saveReviewResult({
             cardId: card.id,
+            grade,
             jobId: job?.id ?? null,
             nextReviewAt: result.nextReviewAt,
             repetition: result.repetition,
+            fsrs: result.fsrs,
+            archive: result.scheduleEnded,
+            scheduleRule: result.scheduleRule,
             reviewedAt: new Date().toISOString(),
           }),
         );
@@ -1176,6 +1346,7 @@ export const createHttpServer = (
           ok: true,
           data: {
             action: 'viewed',
+            grade,
             card: updated,
             nextReviewAt: result.nextReviewAt,
             repetition: result.repetition,
@@ -1251,13 +1422,18 @@ export const createHttpServer = (
           return;
         }
 
-        const result = computeReview(card, 'again');
+        const timezone = await withDbRetry(() => store.getUserTimezone(card.userId));
+        const result = computeReview(card, 'again', timezone);
         await withDbRetry(() =>
           store.saveReviewResult({
             cardId: card.id,
+            grade: 'again',
             jobId: job?.id ?? null,
             nextReviewAt: result.nextReviewAt,
             repetition: result.repetition,
+            fsrs: result.fsrs,
+            archive: result.scheduleEnded,
+            scheduleRule: result.scheduleRule,
             reviewedAt: new Date().toISOString(),
           }),
         );
@@ -1375,17 +1551,21 @@ export const createHttpServer = (
     const userId = (req as any).userId;
     const status = req.query.status as CardStatus | undefined;
     const limit = parseLimit(req.query.limit, 100);
+    const tag = parseTagFilter(req.query.tag);
+    const leech = req.query.leech === '1';
     
     if (status && !allowedStatuses.includes(status)) {
       res.status(400).json({ error: 'Invalid status' });
       return;
     }
+    if (tag === null) {
+      res.status(400).json({ error: 'Invalid tag' });
+      return;
+    }
     
     try {
       const queueScope = buildUserQueueScope(userId);
-      const listParams = status
-        ? { userId, status, limit, queueScope }
-        : { userId, limit, queueScope };
+      const listParams = { userId, status, tag, leech, limit, queueScope };
       const userCards = await withDbRetry(() =>
         store.listCardsByUser(listParams),
       );
@@ -1396,62 +1576,244 @@ export const createHttpServer = (
     }
   });
 
-  app.post('/api/miniapp/reminders', requireMiniAppAuth, async (req, res) => {
+  app.get('/api/miniapp/cards/search', requireMiniAppAuth, async (req, res) => {
     const userId = (req as any).userId;
-    const text = typeof req.body?.text === 'string' ? req.body.text.trim() : '';
-    if (!text || text.length > 1000) {
-      res.status(400).json({ error: 'Введите текст напоминания до 1000 символов' });
+    const search = parseSearchQuery(req.query.q);
+    const status = req.query.status as CardStatus | undefined;
+    const tag = parseTagFilter(req.query.tag);
+    const limit = parseLimit(req.query.limit, 50);
+
+    if (!search) {
+      res.status(400).json({ error: 'Введите слово для поиска' });
       return;
     }
-
-    const plan = parseHouseholdReminderText(text);
-    if (!plan) {
-      res.status(400).json({
-        error: 'Не удалось понять время. Примеры: «купить молоко завтра», «принять витамин каждый день в 9», «день рождения мамы 25.05».',
-      });
+    if (status && !allowedStatuses.includes(status)) {
+      res.status(400).json({ error: 'Invalid status' });
+      return;
+    }
+    if (tag === null) {
+      res.status(400).json({ error: 'Invalid tag' });
       return;
     }
 
     try {
-      await withDbRetry(() => store.ensureUser(userId));
-      const card = await withDbRetry(() =>
-        store.createPendingCard({
-          id: randomUUID(),
+      const cards = await withDbRetry(() =>
+        store.listCardsByUser({
           userId,
-          queueScopeType: 'user',
-          queueScopeId: userId,
-          sourceChatId: userId,
-          sourceMessageId: 0,
-          contentType: 'text',
-          contentPreview: plan.title,
-          contentFileId: null,
-          contentFileUniqueId: null,
-          reminderMode: plan.mode === 'schedule' ? 'schedule' : 'sm2',
-          scheduleRule: plan.mode === 'schedule' ? plan.scheduleRule : null,
+          queueScope: buildUserQueueScope(userId),
+          search,
+          status,
+          tag,
+          limit,
         }),
       );
+      res.json({ data: cards });
+    } catch (error) {
+      logger.error('Error searching cards for Mini App', error);
+      res.status(500).json({ error: 'Failed to search cards' });
+    }
+  });
 
-      if (plan.mode === 'one_time') {
-        await withDbRetry(() => store.updateStatus(card.id, 'learning'));
-        const job = await withDbRetry(() =>
-          store.createReminderJob({
-            cardId: card.id,
-            userId,
-            kind: 'one_time',
-            dueAt: plan.remindAt,
-            source: `miniapp_household_${plan.kind}`,
-            metadata: JSON.stringify({ household: true, kind: plan.kind, mode: plan.mode }),
-          }),
-        );
-        const updated = await withDbRetry(() => store.getCardById(card.id));
-        res.json({ ok: true, data: { card: updated, job, plan } });
+  app.put('/api/miniapp/cards/:id/tags', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const cardId = req.params.id;
+    const tags = parseTagInput(req.body?.tags);
+    if (!cardId) {
+      res.status(400).json({ error: 'Card ID required' });
+      return;
+    }
+    if (!tags) {
+      res.status(400).json({ error: 'Теги должны быть списком строк' });
+      return;
+    }
+
+    try {
+      const card = await withDbRetry(() => store.getCardById(cardId));
+      if (!isPersonalMiniAppCard(card, userId)) {
+        res.status(403).json({ error: 'Access denied' });
         return;
       }
+      const updated = await withDbRetry(() => store.setCardTags(cardId, tags));
+      res.json({ ok: true, data: updated });
+    } catch (error) {
+      logger.error('Error updating card tags for Mini App', error);
+      res.status(500).json({ error: 'Failed to update card tags' });
+    }
+  });
+
+  app.put('/api/miniapp/cards/:id/content', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const cardId = req.params.id;
+    const text = typeof req.body?.text === 'string' ? req.body.text.trim() : '';
+    if (!cardId) {
+      res.status(400).json({ error: 'Card ID required' });
+      return;
+    }
+    if (!text) {
+      res.status(400).json({ error: 'Текст карточки не может быть пустым' });
+      return;
+    }
+    if (text.length > MAX_CARD_TEXT_LENGTH) {
+      res.status(400).json({ error: `Текст карточки длиннее ${MAX_CARD_TEXT_LENGTH} символов` });
+      return;
+    }
 
+    try {
+      const card = await withDbRetry(() => store.getCardById(cardId));
+      if (!isPersonalMiniAppCard(card, userId)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+      if (card.contentType !== 'text') {
+        res.status(409).json({ error: 'Медиа заменяется ответом на напоминание в боте' });
+        return;
+      }
       const updated = await withDbRetry(() =>
-        store.activateCard(card.id, { nextReviewAt: plan.nextReviewAt }),
+        store.editCardContent(cardId, buildEditedTextContent(text), { source: 'miniapp', editedBy: userId }),
       );
-      res.json({ ok: true, data: { card: updated, job: null, plan } });
+      res.json({ ok: true, data: updated });
+    } catch (error) {
+      logger.error('Error editing card content for Mini App', error);
+      res.status(500).json({ error: 'Failed to edit card content' });
+    }
+  });
+
+  app.get('/api/miniapp/cards/:id/revisions', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const cardId = req.params.id;
+    if (!cardId) {
+      res.status(400).json({ error: 'Card ID required' });
+      return;
+    }
+
+    try {
+      const card = await withDbRetry(() => store.getCardById(cardId));
+      if (!isPersonalMiniAppCard(card, userId)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+      const revisions = await withDbRetry(() => store.listCardRevisions(card.id, parseLimit(req.query.limit, 50)));
+      res.json({ data: revisions });
+    } catch (error) {
+      logger.error('Error loading card revisions for Mini App', error);
+      res.status(500).json({ error: 'Failed to load card revisions' });
+    }
+  });
+
+  app.post('/api/miniapp/cards/:id/schedule', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const cardId = req.params.id;
+    const text = typeof req.body?.text === 'string' ? req.body.text : '';
+    if (!cardId) {
+      res.status(400).json({ error: 'Card ID required' });
+      return;
+    }
+
+    try {
+      const timezone = await withDbRetry(() => store.getUserTimezone(userId));
+      const rule = text ? parseNaturalSchedule(text, timezone) : null;
+      if (!rule) {
+        res.status(400).json({ error: 'Не удалось распознать расписание, например: «каждые 3 дня» или «пн, ср, пт в 9:00»' });
+        return;
+      }
+      const card = await withDbRetry(() => store.getCardById(cardId));
+      if (!isPersonalMiniAppCard(card, userId)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+      if (card.status === 'pending' || card.status === 'archived') {
+        res.status(409).json({ error: 'Расписание меняется только у активной карточки' });
+        return;
+      }
+      const nextReviewAt = computeNextFromSchedule(rule, dayjs(), timezone);
+      if (!nextReviewAt) {
+        res.status(400).json({ error: 'У этого расписания не осталось напоминаний: дата окончания уже прошла' });
+        return;
+      }
+      await withDbRetry(() => store.updateCardReminderMode(card.id, 'schedule', serializeScheduleRule(rule)));
+      await withDbRetry(() => store.rescheduleCard(card.id, nextReviewAt));
+      const updated = await withDbRetry(() => store.getCardById(card.id));
+      res.json({ ok: true, data: updated });
+    } catch (error) {
+      logger.error('Error updating card schedule for Mini App', error);
+      res.status(500).json({ error: 'Failed to update card schedule' });
+    }
+  });
+
+  app.get('/api/miniapp/decks', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+
+    try {
+      const settings = await withDbRetry(() => store.getUserReminderSettings(userId));
+      const decks = await withDbRetry(() =>
+        store.listDecks({
+          queueScope: buildUserQueueScope(userId),
+          since: startOfLocalDay(new Date().toISOString(), settings.timezone),
+        }),
+      );
+      res.json({ data: decks });
+    } catch (error) {
+      logger.error('Error loading decks for Mini App', error);
+      res.status(500).json({ error: 'Failed to load decks' });
+    }
+  });
+
+  app.put('/api/miniapp/decks/:tag', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const tag = normalizeTag(req.params.tag ?? '');
+    const dailyLimit = parseDeckDailyLimit(req.body?.dailyLimit);
+    if (!tag) {
+      res.status(400).json({ error: 'Invalid tag' });
+      return;
+    }
+    if (dailyLimit === undefined) {
+      res.status(400).json({ error: 'Лимит должен быть числом от 1 до 1000 или пустым' });
+      return;
+    }
+
+    try {
+      await withDbRetry(() =>
+        store.setDeckDailyLimit({ queueScope: buildUserQueueScope(userId), tag, dailyLimit }),
+      );
+      res.json({ ok: true, data: { tag, dailyLimit } });
+    } catch (error) {
+      logger.error('Error updating deck limit for Mini App', error);
+      res.status(500).json({ error: 'Failed to update deck limit' });
+    }
+  });
+
+  app.post('/api/miniapp/reminders', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const text = typeof req.body?.text === 'string' ? req.body.text.trim() : '';
+    if (!text || text.length > 1000) {
+      res.status(400).json({ error: 'Введите текст напоминания до 1000 символов' });
+      return;
+    }
+
+    try {
+      const timezone = await withDbRetry(() => store.getUserTimezone(userId));
+      const plan = parseHouseholdReminderText(text, dayjs(), timezone);
+      if (!plan) {
+        res.status(400).json({
+          error: 'Не удалось понять время. Примеры: «купить молоко завтра», «принять витамин каждый день в 9», «день рождения мамы 25.05».',
+        });
+        return;
+      }
+      await withDbRetry(() => store.ensureUser(userId));
+      const { card, job } = await createHouseholdReminderCard(store, {
+        id: randomUUID(),
+        userId,
+        queueScopeType: 'user',
+        queueScopeId: userId,
+        sourceChatId: userId,
+        sourceMessageId: 0,
+        contentType: 'text',
+        contentFileId: null,
+        contentFileUniqueId: null,
+        plan,
+        source: 'miniapp',
+      });
+      res.json({ ok: true, data: { card, job, plan } });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Не удалось создать напоминание';
       logger.error('Error creating Mini App household reminder', error);
@@ -1459,6 +1821,38 @@ export const createHttpServer = (
     }
   });
 
+  app.get('/api/miniapp/export', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    await sendCollectionExport(req, res, { userId, appUserId: null });
+  });
+
+  app.post(
+    '/api/miniapp/import',
+    requireMiniAppAuth,
+    express.raw({ type: () => true, limit: '50mb' }),
+    async (req, res) => {
+      const userId = (req as any).userId;
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: 'Прикрепите файл .apkg, .csv или .tsv' });
+        return;
+      }
+
+      try {
+        const result = await importDeck(store, {
+          userId,
+          queueScope: buildUserQueueScope(userId),
+          buffer: req.body,
+        });
+        res.json({ ok: true, data: result });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Не удалось импортировать колоду';
+        const statusCode = getHttpStatus(error);
+        logger.error('Error importing deck from Mini App', error);
+        res.status(statusCode).json({ error: message });
+      }
+    },
+  );
+
   app.get('/api/miniapp/cards/:id', requireMiniAppAuth, async (req, res) => {
     const userId = (req as any).userId;
     const cardId = req.params.id;
@@ -1481,6 +1875,63 @@ export const createHttpServer = (
     }
   });
 
+  app.get('/api/miniapp/cards/:id/history', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const cardId = req.params.id;
+    const limit = parseLimit(req.query.limit, 100);
+
+    if (!cardId) {
+      res.status(400).json({ error: 'Card ID required' });
+      return;
+    }
+
+    let card: CardRecord;
+    try {
+      card = await withDbRetry(() => store.getCardById(cardId));
+    } catch (error) {
+      logger.error('Error loading card for Mini App history', error);
+      res.status(404).json({ error: 'Card not found' });
+      return;
+    }
+    if (!isPersonalMiniAppCard(card, userId)) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    try {
+      const logs = await withDbRetry(() => store.listReviewLogsByCard(card.id, limit));
+      res.json({ data: logs });
+    } catch (error) {
+      logger.error('Error loading review history for Mini App', error);
+      res.status(500).json({ error: 'Failed to load review history' });
+    }
+  });
+
+  /** The mirrored copy when the media store has one, otherwise the file streamed from Telegram. */
+  const sendCardMedia = async (res: Response, card: CardRecord, fileId: string) => {
+    if (mediaStore && card.mediaMirroredAt) {
+      const blob = await mediaStore
+        .get(buildMediaBlobKey(card.contentFileUniqueId ?? fileId))
+        .catch((error) => {
+          logger.warn(`Не удалось прочитать медиа карточки ${card.id} из хранилища`, error);
+          return null;
+        });
+      if (blob) {
+        setCardMediaHeaders(res, card, null);
+        res.end(blob);
+        return;
+      }
+    }
+    const link = await bot.telegram.getFileLink(fileId);
+    const tgResponse = await fetch(link);
+    if (!tgResponse.ok || !tgResponse.body) {
+      res.status(502).json({ error: 'Не удалось получить медиа' });
+      return;
+    }
+    setCardMediaHeaders(res, card, tgResponse.headers.get('content-type'));
+    Readable.fromWeb(tgResponse.body).pipe(res);
+  };
+
   app.get('/api/miniapp/cards/:id/media', requireMiniAppAuth, async (req, res) => {
     const userId = (req as any).userId;
     const cardId = req.params.id;
@@ -1500,18 +1951,7 @@ export const createHttpServer = (
         res.status(404).json({ error: 'Нет медиа для этой карточки' });
         return;
       }
-      const link = await bot.telegram.getFileLink(card.contentFileId);
-      const tgResponse = await fetch(link);
-      if (!tgResponse.ok || !tgResponse.body) {
-        res.status(502).json({ error: 'Не удалось получить медиа' });
-        return;
-      }
-      res.setHeader(
-        'Content-Type',
-        tgResponse.headers.get('content-type') ?? 'application/octet-stream',
-      );
-      res.setHeader('Cache-Control', 'private, max-age=60');
-      Readable.fromWeb(tgResponse.body).pipe(res);
+      await sendCardMedia(res, card, card.contentFileId);
     } catch (error) {
       logger.error('Ошибка выдачи медиа (Mini App)', error);
       if (isFileTooBigError(error)) {
@@ -1550,6 +1990,24 @@ export const createHttpServer = (
     }
   });
 
+  app.get('/api/miniapp/stats/analytics', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+
+    try {
+      const settings = await withDbRetry(() => store.getUserReminderSettings(userId));
+      const analytics = await withDbRetry(() =>
+        store.getLearningAnalytics({
+          queueScope: buildUserQueueScope(userId),
+          timezone: settings.timezone,
+        }),
+      );
+      res.json({ data: analytics });
+    } catch (error) {
+      logger.error('Error loading learning analytics for Mini App', error);
+      res.status(500).json({ error: 'Failed to load learning analytics' });
+    }
+  });
+
   app.get('/api/miniapp/settings/reminders', requireMiniAppAuth, async (req, res) => {
     const userId = (req as any).userId;
 
@@ -1581,6 +2039,103 @@ export const createHttpServer = (
     }
   });
 
+  app.get('/api/miniapp/settings/pause', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+
+    try {
+      const pause = await withDbRetry(() => store.getDeliveryPause(buildUserQueueScope(userId)));
+      res.json({ data: pause });
+    } catch (error) {
+      logger.error('Error loading delivery pause for Mini App', error);
+      res.status(500).json({ error: 'Failed to load delivery pause' });
+    }
+  });
+
+  app.post('/api/miniapp/settings/do-not-disturb', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const until = parsePauseUntil(req.body?.until, MAX_DO_NOT_DISTURB_HOURS * 60 * 60_000);
+    if (until === undefined) {
+      res.status(400).json({ error: 'Некорректное время «Не беспокоить»' });
+      return;
+    }
+
+    try {
+      const result = await withDbRetry(() =>
+        store.setDoNotDisturb({ queueScope: buildUserQueueScope(userId), userId, until }),
+      );
+      res.json({ ok: true, data: result.pause, rescheduled: result.rescheduled });
+    } catch (error) {
+      logger.error('Error updating do-not-disturb for Mini App', error);
+      res.status(500).json({ error: 'Failed to update do-not-disturb' });
+    }
+  });
+
+  app.post('/api/miniapp/settings/vacation', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const queueScope = buildUserQueueScope(userId);
+    const enabled = req.body?.enabled;
+    const spreadDays = parseVacationSpreadDays(req.body?.spreadDays);
+    const until = parsePauseUntil(req.body?.until ?? null, MAX_VACATION_DAYS * 24 * 60 * 60_000);
+    if (typeof enabled !== 'boolean' || spreadDays === undefined || until === undefined) {
+      res.status(400).json({ error: 'Некорректные параметры отпуска' });
+      return;
+    }
+
+    try {
+      if (enabled) {
+        const pause = await withDbRetry(() =>
+          store.startVacation({ queueScope, userId, until, spreadDays }),
+        );
+        res.json({ ok: true, data: pause, rescheduled: 0 });
+        return;
+      }
+      const result = await withDbRetry(() =>
+        store.endVacation({
+          queueScope,
+          spreadDays: req.body?.spreadDays === undefined ? null : spreadDays,
+        }),
+      );
+      res.json({ ok: true, data: result.pause, rescheduled: result.rescheduled });
+    } catch (error) {
+      logger.error('Error updating vacation mode for Mini App', error);
+      res.status(500).json({ error: 'Failed to update vacation mode' });
+    }
+  });
+
+  app.get('/api/miniapp/settings/digest', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+
+    try {
+      const digest = await withDbRetry(() => store.getReminderDigest(buildUserQueueScope(userId)));
+      res.json({ data: digest });
+    } catch (error) {
+      logger.error('Error loading digest settings for Mini App', error);
+      res.status(500).json({ error: 'Failed to load digest settings' });
+    }
+  });
+
+  app.post('/api/miniapp/settings/digest', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const sendAtMinutes = req.body?.sendAtMinutes;
+    if (
+      sendAtMinutes !== null &&
+      !(Number.isInteger(sendAtMinutes) && sendAtMinutes >= 0 && sendAtMinutes < 24 * 60)
+    ) {
+      res.status(400).json({ error: 'Некорректное время сводки' });
+      return;
+    }
+
+    try {
+      const digest = await withDbRetry(() =>
+        store.setReminderDigest({ queueScope: buildUserQueueScope(userId), userId, sendAtMinutes }),
+      );
+      res.json({ ok: true, data: digest });
+    } catch (error) {
+      logger.error('Error updating digest settings for Mini App', error);
+      res.status(500).json({ error: 'Failed to update digest settings' });
+    }
+  });
+
   app.post(
     '/api/miniapp/reminders/rebalance/preview',
     requireMiniAppAuth,
@@ -1660,6 +2215,40 @@ export const createHttpServer = (
     }
   });
 
+  app.post('/api/miniapp/cards/:id/leech', requireMiniAppAuth, async (req, res) => {
+    const userId = (req as any).userId;
+    const cardId = req.params.id;
+    const action = req.body?.action;
+
+    if (!cardId) {
+      res.status(400).json({ error: 'Card ID required' });
+      return;
+    }
+    if (!isLeechAction(action) || action === 'rewrite' || action === 'split') {
+      res.status(400).json({ error: 'Неизвестное действие' });
+      return;
+    }
+
+    try {
+      const card = await withDbRetry(() => store.getCardById(cardId));
+      if (!isPersonalMiniAppCard(card, userId)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+      const updated = await withDbRetry(async () => {
+        if (action === 'suspend') return store.suspendCard(cardId);
+        if (action === 'resume') return store.resumeCard(cardId);
+        if (action === 'clear') return store.clearLeech(cardId);
+        await store.updateStatus(cardId, 'archived');
+        return store.getCardById(cardId);
+      });
+      res.json({ data: updated });
+    } catch (error) {
+      logger.error('Error handling leech action for Mini App', error);
+      res.status(500).json({ error: 'Failed to update card' });
+    }
+  });
+
   app.post('/api/miniapp/cards/:id/send-reminder', requireMiniAppAuth, async (req, res) => {
     const userId = (req as any).userId;
     const cardId = req.params.id;
@@ -1792,12 +2381,23 @@ export const createHttpServer = (
   app.get('/api/cards', async (req, res) => {
     const status = req.query.status as CardStatus | undefined;
     const limit = parseLimit(req.query.limit, 100);
+    const tag = parseTagFilter(req.query.tag);
+    const search = parseSearchQuery(req.query.q);
+    const leech = req.query.leech === '1';
     if (status && !allowedStatuses.includes(status)) {
       res.status(400).json({ error: 'Неверный статус' });
       return;
     }
+    if (tag === null) {
+      res.status(400).json({ error: 'Неверный тег' });
+      return;
+    }
+    if (search === null) {
+      res.status(400).json({ error: 'В запросе нет слов для поиска' });
+      return;
+    }
     try {
-      const cards = await withDbRetry(() => store.listCards({ status, limit }));
+      const cards = await withDbRetry(() => store.listCards({ status, tag, search, leech, limit }));
       res.json({ data: cards });
     } catch (error) {
       logger.error('Ошибка чтения карточек', error);
@@ -1808,12 +2408,17 @@ export const createHttpServer = (
   app.get('/api/backlog', async (req, res) => {
     const status = req.query.status as BacklogItemStatus | undefined;
     const limit = parseLimit(req.query.limit, 100);
+    const search = parseSearchQuery(req.query.q);
     if (status && !allowedBacklogStatuses.includes(status)) {
       res.status(400).json({ error: 'Неверный статус бэклога' });
       return;
     }
+    if (search === null) {
+      res.status(400).json({ error: 'В запросе нет слов для поиска' });
+      return;
+    }
     try {
-      const items = await withDbRetry(() => store.listBacklogItems({ status, limit }));
+      const items = await withDbRetry(() => store.listBacklogItems({ status, search, limit }));
       res.json({ data: items });
     } catch (error) {
       logger.error('Ошибка чтения бэклога', error);
@@ -1821,6 +2426,65 @@ export const createHttpServer = (
     }
   });
 
+  app.get('/api/stats/analytics', async (req, res) => {
+    const userId = typeof req.query.userId === 'string' && req.query.userId.trim() ? req.query.userId.trim() : null;
+    try {
+      const timezone = userId
+        ? (await withDbRetry(() => store.getUserReminderSettings(userId))).timezone
+        : DEFAULT_DELIVERY_SETTINGS.timezone;
+      const analytics = await withDbRetry(() =>
+        store.getLearningAnalytics({
+          ...(userId ? { queueScope: buildUserQueueScope(userId) } : {}),
+          timezone,
+        }),
+      );
+      res.json({ data: analytics });
+    } catch (error) {
+      logger.error('Ошибка расчёта статистики обучения', error);
+      res.status(500).json({ error: 'Не удалось посчитать статистику' });
+    }
+  });
+
+  app.get('/api/reminder-jobs/dead-letter', async (req, res) => {
+    const limit = parseLimit(req.query.limit, 100);
+    try {
+      const items = await withDbRetry(() => store.listDeadLetterReminderJobs(limit));
+      res.json({ data: items, maxAttempts: config.scheduler.maxDeliveryAttempts });
+    } catch (error) {
+      logger.error('Ошибка чтения dead-letter напоминаний', error);
+      res.status(500).json({ error: 'Не удалось загрузить неотправленные напоминания' });
+    }
+  });
+
+  app.post('/api/reminder-jobs/:id/retry', async (req, res) => {
+    try {
+      const job = await withDbRetry(() => store.retryDeadLetterReminderJob(req.params.id));
+      if (!job) {
+        res.status(404).json({ error: 'Напоминание не найдено среди неотправленных' });
+        return;
+      }
+      logger.info(`[dead_letter retry] job=${job.id} card=${job.cardId}`);
+      res.json({ data: job });
+    } catch (error) {
+      logger.error('Ошибка повторной отправки напоминания', error);
+      res.status(500).json({ error: 'Не удалось поставить напоминание в очередь' });
+    }
+  });
+
+  // A node is stale once it missed three scans in a row (crashed or partitioned from the DB).
+  app.get('/api/scheduler/nodes', async (_req, res) => {
+    try {
+      const nodes = await withDbRetry(() => store.listSchedulerNodes());
+      const staleBefore = Date.now() - config.scheduler.scanIntervalMs * 3;
+      res.json({
+        data: nodes.map((node) => ({ ...node, stale: Date.parse(node.heartbeatAt) < staleBefore })),
+      });
+    } catch (error) {
+      logger.error('Ошибка чтения узлов планировщика', error);
+      res.status(500).json({ error: 'Не удалось загрузить узлы планировщика' });
+    }
+  });
+
   app.get('/api/cards/:id/media', async (req, res) => {
     try {
       const card = await withDbRetry(() => store.getCardById(req.params.id));
@@ -1828,18 +2492,7 @@ export const createHttpServer = (
         res.status(404).json({ error: 'Нет медиа для этой карточки' });
         return;
       }
-      const link = await bot.telegram.getFileLink(card.contentFileId);
-      const tgResponse = await fetch(link);
-      if (!tgResponse.ok || !tgResponse.body) {
-        res.status(502).json({ error: 'Не удалось получить медиа' });
-        return;
-      }
-      res.setHeader(
-        'Content-Type',
-        tgResponse.headers.get('content-type') ?? 'application/octet-stream',
-      );
-      res.setHeader('Cache-Control', 'private, max-age=60');
-      Readable.fromWeb(tgResponse.body).pipe(res);
+      await sendCardMedia(res, card, card.contentFileId);
     } catch (error) {
       logger.error('Ошибка выдачи медиа', error);
       if (isFileTooBigError(error)) {
@@ -2128,6 +2781,16 @@ const renderAccountPage = (options: AccountPageOptions) => {
         </div>
       </section>
 
+      <section class="panel">
+        <h2>Экспорт данных</h2>
+        <p class="muted">Карточки, история напоминаний, бэклог и ваши курсы с шагами. Медиа из Telegram доступны по ссылкам 7 дней.</p>
+        <div class="link-grid">
+          <a class="button secondary" href="/account/export?format=json">JSON</a>
+          <a class="button secondary" href="/account/export?format=csv">CSV (zip)</a>
+          <a class="button secondary" href="/account/export?format=anki">Anki (текст)</a>
+        </div>
+      </section>
+
       <section class="panel">
         <h2>Ссылки</h2>
         <div class="link-grid">
@@ -2589,6 +3252,21 @@ const signSessionPayload = (payload: string, secretHash: Buffer): string => {
   return createHmac('sha256', secretHash).update(payload).digest('hex');
 };
 
+const setCardMediaHeaders = (res: Response, card: CardRecord, upstreamContentType: string | null) => {
+  const payload = parseCardContentPayload(card.contentPayload);
+  res.setHeader(
+    'Content-Type',
+    resolveCardMediaContentType(card.contentType, payload, upstreamContentType),
+  );
+  if (payload?.fileName) {
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename*=UTF-8''${encodeURIComponent(payload.fileName)}`,
+    );
+  }
+  res.setHeader('Cache-Control', 'private, max-age=60');
+};
+
 const isFileTooBigError = (error: unknown): boolean => {
   if (!error || typeof error !== 'object') return false;
   const response = (error as any).response;
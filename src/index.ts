@@ -3,37 +3,68 @@ import { CardStore } from './db';
 import { createBot } from './bot';
 import { ReviewScheduler } from './reviewScheduler';
 import { logger } from './logger';
+import { createMediaStore } from './mediaStore';
 import { createHttpServer } from './httpServer';
+import { getPublicBaseUrl } from './publicUrl';
+import { buildWebhookUrl, isValidWebhookSecret } from './telegramWebhook';
 
 const main = async () => {
+  const webhookMode = config.telegram.transport === 'webhook';
+  const { webhookSecret } = config.telegram;
+  if (webhookMode && !isValidWebhookSecret(webhookSecret)) {
+    throw new Error(
+      'Для BOT_TRANSPORT=webhook задайте TELEGRAM_WEBHOOK_SECRET: 1-256 символов A-Z, a-z, 0-9, _ и -',
+    );
+  }
+
   const store = new CardStore(config.databaseUrl);
   await store.init();
   const bot = createBot(store);
-  const scheduler = new ReviewScheduler(store, bot);
-  const httpServer = createHttpServer(store, scheduler, bot);
-
-  logger.info('Перед запуском бота')
-  
-  await bot.telegram.deleteWebhook({ drop_pending_updates: true });
-  bot.launch(() => {
-    logger.info('Бот запущен и ожидает сообщения');
+  const mediaStore = createMediaStore(config.mediaStore);
+  const scheduler = new ReviewScheduler(store, bot, mediaStore);
+  const httpServer = createHttpServer(store, scheduler, bot, mediaStore);
 
+  const startScheduler = () => {
     scheduler.start();
     logger.info(
       `Планировщик повторений активирован (проверка каждые ${
         config.scheduler.scanIntervalMs / 1000
       } секунд)`,
     );
-  });
+  };
+
+  logger.info('Перед запуском бота')
+
+  if (webhookMode) {
+    // Several replicas can share one webhook; Telegram delivers each update to one of them.
+    const webhookUrl =
+      config.telegram.webhookUrl ?? buildWebhookUrl(getPublicBaseUrl(), config.telegram.webhookPath);
+    await bot.telegram.setWebhook(webhookUrl, {
+      ...(webhookSecret ? { secret_token: webhookSecret } : {}),
+      drop_pending_updates: config.telegram.dropPendingUpdates,
+    });
+    logger.info(`Бот получает обновления через webhook ${webhookUrl}`);
+    startScheduler();
+  } else {
+    await bot.telegram.deleteWebhook({ drop_pending_updates: config.telegram.dropPendingUpdates });
+    bot.launch(() => {
+      logger.info('Бот запущен и ожидает сообщения');
+      startScheduler();
+    });
+  }
 
-  
   const gracefulShutdown = (signal: string) => {
     logger.info(`Получен сигнал ${signal}, завершаем работу...`);
     scheduler.stop();
     httpServer.close(() => {
-      bot.stop(signal);
-      store
-        .close()
+      // In webhook mode the bot was never launched, and Telegraf throws on stop().
+      if (!webhookMode) bot.stop(signal);
+      scheduler
+        .leave()
+        .catch((error) => {
+          logger.error('Ошибка при снятии узла планировщика', error);
+        })
+        .then(() => store.close())
         .catch((error) => {
           logger.error('Ошибка при закрытии подключения к БД', error);
         })
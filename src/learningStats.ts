@@ -0,0 +1,229 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import type { CardRecord, ReviewLogRecord } from './db';
+import { computeNextFromSchedule, parseScheduleRule, remainingScheduleOccurrences } from './schedule';
+import { gradeOptions, GradeKey } from './spacedRepetition';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export const ANALYTICS_HISTORY_DAYS = 365;
+export const FORECAST_DAYS = 30;
+// A fixed schedule (every day, weekdays) repeats inside the forecast window; cap the walk.
+const MAX_FORECAST_OCCURRENCES = FORECAST_DAYS * 3;
+
+export interface ReviewStreak {
+  /** Consecutive local days with a review, up to today (or yesterday while today is still open). */
+  current: number;
+  longest: number;
+  reviewedToday: boolean;
+  activeDays: number;
+}
+
+export interface GradeRetention {
+  grade: GradeKey;
+  count: number;
+  share: number;
+  /** Share of the card's next reviews that were not «Снова»; `null` before any next review. */
+  retention: number | null;
+}
+
+export interface IntervalRetention {
+  label: string;
+  minDays: number;
+  maxDays: number | null;
+  reviews: number;
+  passed: number;
+  retention: number | null;
+}
+
+export interface LearningAnalytics {
+  generatedAt: string;
+  timezone: string;
+  historyDays: number;
+  reviewCount: number;
+  streak: ReviewStreak;
+  grades: GradeRetention[];
+  trueRetention: IntervalRetention[];
+  latency: { averageMs: number | null; medianMs: number | null; samples: number };
+  forecast: Array<{ date: string; due: number }>;
+}
+
+const INTERVAL_BUCKETS: Array<Pick<IntervalRetention, 'label' | 'minDays' | 'maxDays'>> = [
+  { label: '< 1 дня', minDays: 0, maxDays: 1 },
+  { label: '1–3 дня', minDays: 1, maxDays: 3 },
+  { label: '3–7 дней', minDays: 3, maxDays: 7 },
+  { label: '1–3 недели', minDays: 7, maxDays: 21 },
+  { label: '3 недели – 2 месяца', minDays: 21, maxDays: 60 },
+  { label: '2+ месяца', minDays: 60, maxDays: null },
+];
+
+const GRADE_KEYS = new Set<string>(gradeOptions.map((option) => option.key));
+
+type GradedLog = ReviewLogRecord & { grade: GradeKey };
+
+// Presets and schedule changes are logged too, but they are not answers.
+const isGraded = (log: ReviewLogRecord): log is GradedLog => GRADE_KEYS.has(log.grade);
+
+const ratio = (part: number, total: number) => (total ? part / total : null);
+
+export const localDay = (iso: string, timezoneName: string) => dayjs(iso).tz(timezoneName).format('YYYY-MM-DD');
+
+export const computeReviewStreak = (
+  reviewDays: string[],
+  today: string,
+): ReviewStreak => {
+  const days = [...new Set(reviewDays)].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const day of days) {
+    run = previous && dayjs(day).diff(dayjs(previous), 'day') === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+  const reviewed = new Set(days);
+  const reviewedToday = reviewed.has(today);
+  let current = 0;
+  let cursor = dayjs(today);
+  if (!reviewedToday) cursor = cursor.subtract(1, 'day');
+  while (reviewed.has(cursor.format('YYYY-MM-DD'))) {
+    current += 1;
+    cursor = cursor.subtract(1, 'day');
+  }
+  return { current, longest, reviewedToday, activeDays: days.length };
+};
+
+export const computeGradeRetention = (logs: ReviewLogRecord[]): GradeRetention[] => {
+  const graded = logs.filter(isGraded).sort((left, right) => left.reviewedAt.localeCompare(right.reviewedAt));
+  const nextByCard = new Map<string, GradedLog>();
+  const stats = new Map<GradeKey, { count: number; followed: number; passed: number }>(
+    gradeOptions.map((option) => [option.key, { count: 0, followed: 0, passed: 0 }]),
+  );
+  // Walk backwards so that each review sees the card's following review.
+  for (let index = graded.length - 1; index >= 0; index -= 1) {
+    const log = graded[index]!;
+    const entry = stats.get(log.grade)!;
+    entry.count += 1;
+    const next = nextByCard.get(log.cardId);
+    if (next) {
+      entry.followed += 1;
+      if (next.grade !== 'again') entry.passed += 1;
+    }
+    nextByCard.set(log.cardId, log);
+  }
+  return gradeOptions.map((option) => {
+    const entry = stats.get(option.key)!;
+    return {
+      grade: option.key,
+      count: entry.count,
+      share: ratio(entry.count, graded.length) ?? 0,
+      retention: ratio(entry.passed, entry.followed),
+    };
+  });
+};
+
+/** Pass rate (anything but «Снова») of reviews of already seen cards by the time since the previous review. */
+export const computeTrueRetention = (logs: ReviewLogRecord[]): IntervalRetention[] => {
+  const buckets = INTERVAL_BUCKETS.map((bucket) => ({ ...bucket, reviews: 0, passed: 0, retention: null as number | null }));
+  for (const log of logs) {
+    if (!isGraded(log) || log.elapsedDays === null) continue;
+    const bucket = buckets.find(
+      (candidate) =>
+        log.elapsedDays! >= candidate.minDays &&
+        (candidate.maxDays === null || log.elapsedDays! < candidate.maxDays),
+    );
+    if (!bucket) continue;
+    bucket.reviews += 1;
+    if (log.grade !== 'again') bucket.passed += 1;
+  }
+  return buckets.map((bucket) => ({ ...bucket, retention: ratio(bucket.passed, bucket.reviews) }));
+};
+
+export const computeLatency = (logs: ReviewLogRecord[]) => {
+  const samples = logs
+    .filter(isGraded)
+    .map((log) => log.latencyMs)
+    .filter((value): value is number => value !== null && value >= 0)
+    .sort((left, right) => left - right);
+  if (!samples.length) return { averageMs: null, medianMs: null, samples: 0 };
+  const middle = Math.floor(samples.length / 2);
+  const medianMs =
+    samples.length % 2 ? samples[middle]! : Math.round((samples[middle - 1]! + samples[middle]!) / 2);
+  return {
+    averageMs: Math.round(samples.reduce((total, value) => total + value, 0) / samples.length),
+    medianMs,
+    samples: samples.length,
+  };
+};
+
+/**
+ * Due reviews per local day for the next `days` days. Overdue cards count on the first day;
+ * cards with a fixed schedule rule repeat inside the window, adaptive ones (SM-2/FSRS) count
+ * once, since their next interval depends on the grade.
+ */
+export const computeDueForecast = ({
+  cards,
+  timezone: timezoneName,
+  now = new Date().toISOString(),
+  days = FORECAST_DAYS,
+}: {
+  cards: Array<Pick<CardRecord, 'status' | 'nextReviewAt' | 'scheduleRule'>>;
+  timezone: string;
+  now?: string;
+  days?: number;
+}): Array<{ date: string; due: number }> => {
+  const start = dayjs(now).tz(timezoneName).startOf('day');
+  const forecast = Array.from({ length: days }, (_value, index) => ({
+    date: start.add(index, 'day').format('YYYY-MM-DD'),
+    due: 0,
+  }));
+  const indexByDate = new Map(forecast.map((day, index) => [day.date, index]));
+  const end = start.add(days, 'day');
+  for (const card of cards) {
+    if (card.status === 'archived' || card.status === 'pending' || !card.nextReviewAt) continue;
+    const rule = parseScheduleRule(card.scheduleRule);
+    // The scheduled review plus the occurrences a counted rule has left.
+    const remaining = rule ? remainingScheduleOccurrences(rule) : undefined;
+    const occurrences = Math.min(MAX_FORECAST_OCCURRENCES, remaining === undefined ? Infinity : remaining + 1);
+    let at = dayjs(card.nextReviewAt);
+    for (let occurrence = 0; occurrence < occurrences && at.isBefore(end); occurrence += 1) {
+      const index = at.isBefore(start) ? 0 : indexByDate.get(at.tz(timezoneName).format('YYYY-MM-DD'));
+      if (index !== undefined) forecast[index]!.due += 1;
+      if (!rule) break;
+      const nextAt = computeNextFromSchedule(rule, at.isBefore(start) ? start : at, timezoneName);
+      if (!nextAt || !dayjs(nextAt).isAfter(at)) break;
+      at = dayjs(nextAt);
+    }
+  }
+  return forecast;
+};
+
+export const buildLearningAnalytics = ({
+  logs,
+  cards,
+  timezone: timezoneName,
+  now = new Date().toISOString(),
+}: {
+  logs: ReviewLogRecord[];
+  cards: Array<Pick<CardRecord, 'status' | 'nextReviewAt' | 'scheduleRule'>>;
+  timezone: string;
+  now?: string;
+}): LearningAnalytics => {
+  const graded = logs.filter(isGraded);
+  return {
+    generatedAt: now,
+    timezone: timezoneName,
+    historyDays: ANALYTICS_HISTORY_DAYS,
+    reviewCount: graded.length,
+    streak: computeReviewStreak(
+      graded.map((log) => localDay(log.reviewedAt, timezoneName)),
+      localDay(now, timezoneName),
+    ),
+    grades: computeGradeRetention(graded),
+    trueRetention: computeTrueRetention(graded),
+    latency: computeLatency(graded),
+    forecast: computeDueForecast({ cards, timezone: timezoneName, now }),
+  };
+};
@@ -0,0 +1,183 @@
+import { createHash, createHmac } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fetch } from 'undici';
+
+/**
+ * Optional copy of card media outside Telegram. A `file_id` outlives a deleted source message,
+ * but not a new bot token or a file Telegram dropped, so the scheduler mirrors every card file
+ * here and delivery uploads from the mirror when sending by `file_id` fails.
+ */
+export interface MediaStore {
+  provider: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+}
+
+/** Blobs are keyed by `file_unique_id`, so a file shared by several cards is stored once. */
+export const buildMediaBlobKey = (fileUniqueId: string): string => `cards/${fileUniqueId}`;
+
+const assertSafeKey = (key: string) => {
+  if (!key || key.split('/').some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    throw new Error(`Недопустимый ключ медиа: ${key}`);
+  }
+};
+
+export class LocalMediaStore implements MediaStore {
+  provider = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+    assertSafeKey(key);
+    const filePath = path.join(this.rootDir, key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    assertSafeKey(key);
+    try {
+      return await readFile(path.join(this.rootDir, key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
+
+export type S3MediaStoreOptions = {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+const sha256Hex = (data: Buffer | string) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: Buffer | string, data: string) => createHmac('sha256', key).update(data).digest();
+
+/**
+ * AWS Signature Version 4 headers for one S3 request. Header names are signed lowercased;
+ * `url` must already be percent-encoded and carry no query string.
+ */
+export const signS3Request = (params: {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  body?: Buffer | null;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  now?: Date;
+  payloadHash?: string;
+}): Record<string, string> => {
+  const amzDate = (params.now ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = params.payloadHash ?? sha256Hex(params.body ?? '');
+  const headers: Record<string, string> = {
+    host: params.url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  for (const [name, value] of Object.entries(params.headers ?? {})) {
+    headers[name.toLowerCase()] = value.trim();
+  }
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [
+    params.method,
+    params.url.pathname,
+    '',
+    names.map((name) => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  const scope = `${dateStamp}/${params.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${params.secretAccessKey}`, dateStamp), params.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  const { host: _host, ...rest } = headers;
+  return {
+    ...rest,
+    authorization: `AWS4-HMAC-SHA256 Credential=${params.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+/** S3-compatible storage (AWS S3, MinIO) with path-style URLs: `<endpoint>/<bucket>/<key>`. */
+export class S3MediaStore implements MediaStore {
+  provider = 's3';
+
+  constructor(private readonly options: S3MediaStoreOptions) {}
+
+  private objectUrl(key: string): URL {
+    assertSafeKey(key);
+    const base = this.options.endpoint.replace(/\/+$/, '');
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return new URL(`${base}/${encodeURIComponent(this.options.bucket)}/${encodedKey}`);
+  }
+
+  private sign(method: string, url: URL, headers: Record<string, string>, body: Buffer | null) {
+    return signS3Request({
+      method,
+      url,
+      headers,
+      body,
+      region: this.options.region,
+      accessKeyId: this.options.accessKeyId,
+      secretAccessKey: this.options.secretAccessKey,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const url = this.objectUrl(key);
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: this.sign('PUT', url, { 'content-type': contentType }, body),
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const url = this.objectUrl(key);
+    const response = await fetch(url, { headers: this.sign('GET', url, {}, null) });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed with status ${response.status}: ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+export const createMediaStore = (options: {
+  provider: string;
+  localDir: string;
+  s3Endpoint: string | null;
+  s3Bucket: string | null;
+  s3Region: string;
+  s3AccessKeyId: string | null;
+  s3SecretAccessKey: string | null;
+}): MediaStore | null => {
+  if (options.provider === 'local') {
+    return new LocalMediaStore(options.localDir);
+  }
+  if (
+    options.provider === 's3' &&
+    options.s3Endpoint &&
+    options.s3Bucket &&
+    options.s3AccessKeyId &&
+    options.s3SecretAccessKey
+  ) {
+    return new S3MediaStore({
+      endpoint: options.s3Endpoint,
+      bucket: options.s3Bucket,
+      region: options.s3Region,
+      accessKeyId: options.s3AccessKeyId,
+      secretAccessKey: options.s3SecretAccessKey,
+    });
+  }
+  return null;
+};
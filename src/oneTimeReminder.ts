@@ -1,4 +1,5 @@
 import dayjs from 'dayjs';
+import { fromWallClock, serverTimezone, toWallClock } from './utils/wallClock';
 
 export type OneTimePreset = 'hour' | 'evening' | 'morning';
 
@@ -25,38 +26,54 @@ const UNIT_TO_DAYJS_UNIT = new Map<string, dayjs.ManipulateType>([
   ['месяцев', 'month'],
 ]);
 
+/**
+ * "Evening" and "tomorrow morning" are 20:00 and 10:00 on the wall clock of `timezoneName`,
+ * the scope's timezone; "in an hour" is an hour of real time even across a DST change.
+ */
 export const computeOneTimeReminderAt = (
   preset: OneTimePreset,
   now = dayjs(),
+  timezoneName: string = serverTimezone(),
 ): string => {
   if (preset === 'hour') {
     return now.add(1, 'hour').toISOString();
   }
+  const local = toWallClock(now, timezoneName);
   if (preset === 'evening') {
-    let target = now.hour(20).minute(0).second(0).millisecond(0);
-    if (!target.isAfter(now)) {
+    let target = local.hour(20).minute(0).second(0).millisecond(0);
+    if (!target.isAfter(local)) {
       target = target.add(1, 'day');
     }
-    return target.toISOString();
+    return fromWallClock(target, timezoneName).toISOString();
   }
-  return now.add(1, 'day').hour(10).minute(0).second(0).millisecond(0).toISOString();
+  const morning = local.add(1, 'day').hour(10).minute(0).second(0).millisecond(0);
+  return fromWallClock(morning, timezoneName).toISOString();
 };
 
+/**
+ * Dates and times in the text are local to `timezoneName`. "Через N минут/часов" counts real
+ * time; days, weeks and months keep the local time of day.
+ */
 export const parseOneTimeReminderText = (
   input: string,
   now = dayjs(),
+  timezoneName: string = serverTimezone(),
 ): string | null => {
   const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
   if (!text) return null;
 
+  const local = toWallClock(now, timezoneName);
+  const toInstant = (wallClock: dayjs.Dayjs | null) =>
+    wallClock ? fromWallClock(wallClock, timezoneName).toISOString() : null;
+
   if (text === 'вечером' || text === 'сегодня вечером') {
-    return computeOneTimeReminderAt('evening', now);
+    return computeOneTimeReminderAt('evening', now, timezoneName);
   }
   if (text === 'завтра' || text === 'завтра утром') {
-    return computeOneTimeReminderAt('morning', now);
+    return computeOneTimeReminderAt('morning', now, timezoneName);
   }
   if (text === 'послезавтра') {
-    return now.add(2, 'day').hour(10).minute(0).second(0).millisecond(0).toISOString();
+    return toInstant(local.add(2, 'day').hour(10).minute(0).second(0).millisecond(0));
   }
 
   const relative = text.match(/^через\s+(?:(\d+)\s*)?([а-яёa-z.]+)$/i);
@@ -65,23 +82,24 @@ export const parseOneTimeReminderText = (
     const unitRaw = relative[2]?.replace(/\.$/, '') ?? '';
     const unit = UNIT_TO_DAYJS_UNIT.get(unitRaw);
     if (Number.isInteger(amount) && amount > 0 && unit) {
-      return now.add(amount, unit).toISOString();
+      return unit === 'minute' || unit === 'hour'
+        ? now.add(amount, unit).toISOString()
+        : toInstant(local.add(amount, unit));
     }
   }
 
   const tomorrowTime = text.match(/^завтра\s+(?:в\s+)?(\d{1,2})(?::(\d{2}))?$/);
   if (tomorrowTime) {
-    const parsed = buildDateWithTime(now.add(1, 'day'), tomorrowTime[1], tomorrowTime[2]);
-    return parsed?.toISOString() ?? null;
+    return toInstant(buildDateWithTime(local.add(1, 'day'), tomorrowTime[1], tomorrowTime[2]));
   }
 
   const todayTime = text.match(/^(?:сегодня\s+)?(?:в\s+)?(\d{1,2})(?::(\d{2}))?$/);
   if (todayTime) {
-    let parsed = buildDateWithTime(now, todayTime[1], todayTime[2]);
-    if (parsed && !parsed.isAfter(now)) {
+    let parsed = buildDateWithTime(local, todayTime[1], todayTime[2]);
+    if (parsed && !parsed.isAfter(local)) {
       parsed = parsed.add(1, 'day');
     }
-    return parsed?.toISOString() ?? null;
+    return toInstant(parsed);
   }
 
   const isoDate = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:\s+(?:в\s+)?(\d{1,2})(?::(\d{2}))?)?$/);
@@ -93,12 +111,12 @@ export const parseOneTimeReminderText = (
       isoDate[4],
       isoDate[5],
     );
-    return parsed && parsed.isAfter(now) ? parsed.toISOString() : null;
+    return parsed && parsed.isAfter(local) ? toInstant(parsed) : null;
   }
 
   const dottedDate = text.match(/^(\d{1,2})[./](\d{1,2})(?:[./](\d{2,4}))?(?:\s+(?:в\s+)?(\d{1,2})(?::(\d{2}))?)?$/);
   if (dottedDate) {
-    const yearRaw = dottedDate[3] ? Number(dottedDate[3]) : now.year();
+    const yearRaw = dottedDate[3] ? Number(dottedDate[3]) : local.year();
     const year = yearRaw < 100 ? 2000 + yearRaw : yearRaw;
     let parsed = buildDate(
       year,
@@ -107,10 +125,10 @@ export const parseOneTimeReminderText = (
       dottedDate[4],
       dottedDate[5],
     );
-    if (parsed && !dottedDate[3] && !parsed.isAfter(now)) {
+    if (parsed && !dottedDate[3] && !parsed.isAfter(local)) {
       parsed = parsed.add(1, 'year');
     }
-    return parsed && parsed.isAfter(now) ? parsed.toISOString() : null;
+    return parsed && parsed.isAfter(local) ? toInstant(parsed) : null;
   }
 
   return null;
@@ -138,7 +156,7 @@ const buildDate = (
   if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
     return null;
   }
-  const base = dayjs(`${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T00:00:00`);
+  const base = dayjs.utc(`${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T00:00:00`);
   if (!base.isValid() || base.year() !== year || base.month() + 1 !== month || base.date() !== day) {
     return null;
   }
@@ -0,0 +1,282 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Telegram } from 'telegraf';
+import { classifyDeliveryError } from './deliveryRetry';
+import { logger } from './logger';
+
+/**
+ * `interactive` — replies to a user action (button press, command, Mini App request);
+ * `scheduled` — due reminders; `bulk` — catch-up work such as re-sending ignored reminders.
+ */
+export type SendPriority = 'interactive' | 'scheduled' | 'bulk';
+
+const PRIORITY_ORDER: Record<SendPriority, number> = {
+  interactive: 0,
+  scheduled: 1,
+  bulk: 2,
+};
+
+export interface OutboundQueueLimits {
+  /** Telegram allows about 30 messages per second across all chats. */
+  globalPerSecond: number;
+  /** About one message per second into the same private chat. */
+  privatePerSecond: number;
+  /** At most 20 messages per minute into the same group or channel. */
+  groupPerMinute: number;
+}
+
+export const DEFAULT_OUTBOUND_LIMITS: OutboundQueueLimits = {
+  globalPerSecond: 30,
+  privatePerSecond: 1,
+  groupPerMinute: 20,
+};
+
+// Methods that post or change a message count against the limits; reads, callback answers,
+// webhook setup and getUpdates bypass the queue.
+const QUEUED_METHOD_PATTERN = /^(send|copy|forward|edit)|^stopPoll$/;
+const MAX_FLOOD_RETRIES = 3;
+// A reply plus a keyboard edit right after a reminder should not wait a second each.
+const PRIVATE_CHAT_BURST = 3;
+const IDLE_BUCKET_SWEEP_SIZE = 1000;
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerMs: number,
+    now: number,
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  private refill(now: number) {
+    if (now <= this.updatedAt) return;
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+
+  /** Milliseconds until a token is available; 0 when one can be taken right away. */
+  waitMs(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  take(now: number) {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  isFull(now: number): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+}
+
+type PendingSend = {
+  seq: number;
+  method: string;
+  chatKey: string | null;
+  priority: SendPriority;
+  floodRetries: number;
+  execute: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+type ChatState = {
+  bucket: TokenBucket;
+  pausedUntil: number;
+};
+
+const prioritySlot = new AsyncLocalStorage<SendPriority>();
+
+/** Runs `fn` so that every Telegram send started inside it is queued with `priority`. */
+export const withSendPriority = <T>(priority: SendPriority, fn: () => Promise<T>): Promise<T> =>
+  prioritySlot.run(priority, fn);
+
+export const currentSendPriority = (): SendPriority => prioritySlot.getStore() ?? 'interactive';
+
+export const isQueuedMethod = (method: string) => QUEUED_METHOD_PATTERN.test(method);
+
+const resolveChatKey = (payload: unknown): string | null => {
+  const chatId = (payload as { chat_id?: unknown } | null)?.chat_id;
+  return typeof chatId === 'number' || typeof chatId === 'string' ? String(chatId) : null;
+};
+
+// Group, supergroup and channel ids are negative (`-100…`); usernames (`@channel`) are channels.
+const isGroupChat = (chatKey: string) => chatKey.startsWith('-') || chatKey.startsWith('@');
+
+/**
+ * Single outbound lane for Telegram sends. A send waits for a token from the global bucket and
+ * from its chat's bucket; the highest-priority, oldest send goes first. Only one send per chat is
+ * in flight at a time, so messages to a chat keep their order. A 429 pauses that chat for
+ * `retry_after` and puts the send back at its place in the queue.
+ */
+export class OutboundQueue {
+  private readonly pending: PendingSend[] = [];
+  private readonly chats = new Map<string, ChatState>();
+  private readonly inFlightChats = new Set<string>();
+  private readonly globalBucket: TokenBucket;
+  private globalPausedUntil = 0;
+  private seq = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private wakeAt = Number.POSITIVE_INFINITY;
+
+  constructor(
+    private readonly limits: OutboundQueueLimits = DEFAULT_OUTBOUND_LIMITS,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.globalBucket = new TokenBucket(limits.globalPerSecond, limits.globalPerSecond / 1000, now());
+  }
+
+  get size() {
+    return this.pending.length;
+  }
+
+  enqueue<T>(params: {
+    method: string;
+    payload: unknown;
+    execute: () => Promise<T>;
+    priority?: SendPriority;
+  }): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({
+        seq: this.seq++,
+        method: params.method,
+        chatKey: resolveChatKey(params.payload),
+        priority: params.priority ?? currentSendPriority(),
+        floodRetries: 0,
+        execute: params.execute,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.pump();
+    });
+  }
+
+  private chatState(chatKey: string, now: number): ChatState {
+    let state = this.chats.get(chatKey);
+    if (!state) {
+      const bucket = isGroupChat(chatKey)
+        ? new TokenBucket(this.limits.groupPerMinute, this.limits.groupPerMinute / 60_000, now)
+        : new TokenBucket(
+            Math.max(PRIVATE_CHAT_BURST, this.limits.privatePerSecond),
+            this.limits.privatePerSecond / 1000,
+            now,
+          );
+      state = { bucket, pausedUntil: 0 };
+      this.chats.set(chatKey, state);
+    }
+    return state;
+  }
+
+  private pump() {
+    const now = this.now();
+    this.pending.sort(
+      (left, right) =>
+        PRIORITY_ORDER[left.priority] - PRIORITY_ORDER[right.priority] || left.seq - right.seq,
+    );
+    let nextWakeAt = Number.POSITIVE_INFINITY;
+    const blockedChats = new Set<string>();
+    for (const item of [...this.pending]) {
+      // Later sends to a chat wait behind its first queued send, whatever their priority.
+      if (item.chatKey) {
+        if (blockedChats.has(item.chatKey)) continue;
+        blockedChats.add(item.chatKey);
+        if (this.inFlightChats.has(item.chatKey)) continue;
+      }
+      const chat = item.chatKey ? this.chatState(item.chatKey, now) : null;
+      const waitMs = Math.max(
+        this.globalPausedUntil - now,
+        this.globalBucket.waitMs(now),
+        chat ? chat.pausedUntil - now : 0,
+        chat ? chat.bucket.waitMs(now) : 0,
+      );
+      if (waitMs > 0) {
+        nextWakeAt = Math.min(nextWakeAt, now + waitMs);
+        continue;
+      }
+      this.globalBucket.take(now);
+      chat?.bucket.take(now);
+      this.pending.splice(this.pending.indexOf(item), 1);
+      this.dispatch(item);
+    }
+    this.sweepIdleChats(now);
+    this.scheduleWake(nextWakeAt, now);
+  }
+
+  private scheduleWake(wakeAt: number, now: number) {
+    if (!Number.isFinite(wakeAt)) return;
+    if (this.timer && this.wakeAt <= wakeAt) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.wakeAt = wakeAt;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.wakeAt = Number.POSITIVE_INFINITY;
+      this.pump();
+    }, Math.max(0, wakeAt - now));
+  }
+
+  private dispatch(item: PendingSend) {
+    if (item.chatKey) this.inFlightChats.add(item.chatKey);
+    item
+      .execute()
+      .then(item.resolve, (error) => {
+        const failure = classifyDeliveryError(error);
+        if (failure.code !== 429 || item.floodRetries >= MAX_FLOOD_RETRIES) {
+          item.reject(error);
+          return;
+        }
+        const retryAfterMs = failure.retryAfterMs ?? 1000;
+        const pausedUntil = this.now() + retryAfterMs;
+        if (item.chatKey) {
+          this.chatState(item.chatKey, this.now()).pausedUntil = pausedUntil;
+        } else {
+          this.globalPausedUntil = pausedUntil;
+        }
+        logger.warn(
+          `[OutboundQueue flood_wait] method=${item.method} chat=${item.chatKey ?? 'none'} retryAfterMs=${retryAfterMs} retry=${item.floodRetries + 1}`,
+        );
+        this.pending.push({ ...item, floodRetries: item.floodRetries + 1 });
+      })
+      .finally(() => {
+        if (item.chatKey) this.inFlightChats.delete(item.chatKey);
+        this.pump();
+      });
+  }
+
+  private sweepIdleChats(now: number) {
+    if (this.chats.size < IDLE_BUCKET_SWEEP_SIZE) return;
+    const queuedChats = new Set(this.pending.map((item) => item.chatKey));
+    for (const [chatKey, state] of this.chats) {
+      if (
+        !queuedChats.has(chatKey) &&
+        !this.inFlightChats.has(chatKey) &&
+        state.pausedUntil <= now &&
+        state.bucket.isFull(now)
+      ) {
+        this.chats.delete(chatKey);
+      }
+    }
+  }
+}
+
+/**
+ * Routes message-producing Bot API calls of a `Telegram` instance through the queue. Telegraf
+ * creates a new instance for every update (`ctx.telegram`), so the bot installs it per update
+ * as well as on `bot.telegram`.
+ */
+export const installOutboundQueue = (telegram: Telegram, queue: OutboundQueue) => {
+  const callApi = telegram.callApi.bind(telegram);
+  telegram.callApi = ((method: string, payload: unknown, options?: unknown) =>
+    isQueuedMethod(method)
+      ? queue.enqueue({
+          method,
+          payload,
+          execute: () => (callApi as (...args: unknown[]) => Promise<unknown>)(method, payload, options),
+        })
+      : (callApi as (...args: unknown[]) => Promise<unknown>)(method, payload, options)) as Telegram['callApi'];
+  return telegram;
+};
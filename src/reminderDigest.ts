@@ -0,0 +1,100 @@
+import { getCardFaces } from './cardFaces';
+import type { CardRecord } from './db';
+import { fromWallClock, toWallClock } from './utils/wallClock';
+
+/**
+ * Digest delivery of a queue scope: instead of one message per due review, a single message
+ * at `sendAtMinutes` (local time) lists every review that came due, each with its own grade
+ * buttons. Manual and one-time reminders are still sent on their own.
+ */
+export interface ReminderDigestSettings {
+  sendAtMinutes: number;
+  nextDigestAt: string;
+}
+
+/** Four grade buttons per card; Telegram allows 100 buttons per keyboard. */
+export const MAX_DIGEST_ITEMS = 20;
+const DIGEST_PREVIEW_LENGTH = 80;
+
+/**
+ * How many digest slots go to reviews still awaiting a grade from earlier digests and how many
+ * to reviews that just came due. Leftovers get at most half of the slots while new reviews wait,
+ * so an ignored digest cannot crowd the new ones out; either side takes the slots the other leaves.
+ */
+export const splitDigestSlots = ({
+  limit,
+  carriedOver,
+  fresh,
+}: {
+  limit: number;
+  carriedOver: number;
+  fresh: number;
+}): { carriedOver: number; fresh: number } => {
+  const reservedForFresh = Math.min(fresh, Math.ceil(limit / 2));
+  const carriedOverSlots = Math.min(carriedOver, limit - reservedForFresh);
+  return { carriedOver: carriedOverSlots, fresh: Math.min(fresh, limit - carriedOverSlots) };
+};
+const CLOCK_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/** `08:30` → 510; `undefined` when the value is not a clock time. */
+export const parseDigestTime = (value: string): number | undefined => {
+  const match = value.trim().match(CLOCK_PATTERN);
+  if (!match) return undefined;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return undefined;
+  return hours * 60 + minutes;
+};
+
+export const formatDigestTime = (sendAtMinutes: number) =>
+  `${String(Math.floor(sendAtMinutes / 60)).padStart(2, '0')}:${String(sendAtMinutes % 60).padStart(2, '0')}`;
+
+/** The first `sendAtMinutes` local moment strictly after `now`. */
+export const nextDigestAt = (
+  sendAtMinutes: number,
+  { now = new Date().toISOString(), timezone: timezoneName }: { now?: string; timezone: string },
+): string => {
+  const start = toWallClock(now, timezoneName);
+  let next = start
+    .startOf('day')
+    .hour(Math.floor(sendAtMinutes / 60))
+    .minute(sendAtMinutes % 60);
+  if (!next.isAfter(start)) next = next.add(1, 'day');
+  return fromWallClock(next, timezoneName).toISOString();
+};
+
+export type DigestCommand =
+  | { action: 'status' }
+  | { action: 'enable'; sendAtMinutes: number }
+  | { action: 'disable' };
+
+/** `/digest` — status; `/digest 09:00` — one message a day at 09:00; `/digest off` — back to single reminders. */
+export const parseDigestCommand = (payload: string): DigestCommand | null => {
+  const text = payload.trim().toLowerCase();
+  if (!text) return { action: 'status' };
+  if (text === 'off' || text === 'нет') return { action: 'disable' };
+  const sendAtMinutes = parseDigestTime(text);
+  return sendAtMinutes === undefined ? null : { action: 'enable', sendAtMinutes };
+};
+
+export const formatDigestSettings = (digest: ReminderDigestSettings | null): string =>
+  digest
+    ? `📬 Сводка повторений приходит одним сообщением в ${formatDigestTime(digest.sendAtMinutes)}.`
+    : 'Каждое повторение приходит отдельным сообщением.';
+
+const describeCard = (card: CardRecord): string => {
+  const text = (getCardFaces(card)?.front ?? card.contentPreview ?? '').replace(/\s+/g, ' ').trim();
+  const preview = text || `[${card.contentType}]`;
+  return preview.length > DIGEST_PREVIEW_LENGTH
+    ? `${preview.slice(0, DIGEST_PREVIEW_LENGTH - 1)}…`
+    : preview;
+};
+
+/** Numbered list matching the rows of `buildDigestKeyboard`; `remaining` stay for the next digest. */
+export const buildDigestText = (cards: CardRecord[], remaining = 0): string =>
+  [
+    `📬 Сводка повторений: ${cards.length}`,
+    '',
+    ...cards.map((card, index) => `${index + 1}. ${describeCard(card)}`),
+    ...(remaining > 0 ? ['', `…и ещё ${remaining} — в следующей сводке или в очереди приложения.`] : []),
+  ].join('\n');
@@ -5,13 +5,31 @@ import timezone from 'dayjs/plugin/timezone';
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
+export interface ActiveHoursWindow {
+  start: number;
+  end: number;
+}
+
+/** Seven entries indexed by `dayjs().day()` (0 = Sunday); `null` turns reminders off that day. */
+export type WeekdayActiveHours = (ActiveHoursWindow | null)[];
+
 export interface DeliverySettings {
   timezone: string;
   activeHoursStart: number;
   activeHoursEnd: number;
   minGapMinutes: number;
+  /** Overrides `activeHoursStart/End` per weekday when set. */
+  weekdayHours?: WeekdayActiveHours | null;
 }
 
+/** Per-scope caps on scheduled reviews per local day; `null` — no cap. */
+export interface DailyLimits {
+  reviewsPerDay: number | null;
+  newCardsPerDay: number | null;
+}
+
+export const NO_DAILY_LIMITS: DailyLimits = { reviewsPerDay: null, newCardsPerDay: null };
+
 export interface RebalanceJobInput {
   id: string;
   dueAt: string;
@@ -50,37 +68,84 @@ function parseClockToMinutes(value: string | undefined, fallback: number): numbe
   return hours * 60 + minutes;
 }
 
+const isActiveHoursWindow = (value: unknown): value is ActiveHoursWindow => {
+  if (!value || typeof value !== 'object') return false;
+  const { start, end } = value as Record<string, unknown>;
+  return (
+    Number.isInteger(start) &&
+    Number.isInteger(end) &&
+    (start as number) >= 0 &&
+    (end as number) <= 24 * 60 &&
+    (start as number) < (end as number)
+  );
+};
+
+/**
+ * `null` clears the weekday profile (every day uses `activeHoursStart/End`); `undefined` means
+ * the value is not a profile. A profile needs seven entries and at least one active day.
+ */
+export const parseWeekdayActiveHours = (value: unknown): WeekdayActiveHours | null | undefined => {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value) || value.length !== 7) return undefined;
+  const profile: WeekdayActiveHours = [];
+  for (const entry of value) {
+    if (entry === null) {
+      profile.push(null);
+    } else if (isActiveHoursWindow(entry)) {
+      profile.push({ start: entry.start, end: entry.end });
+    } else {
+      return undefined;
+    }
+  }
+  return profile.some(Boolean) ? profile : undefined;
+};
+
 const minutesOfDay = (value: dayjs.Dayjs) => value.hour() * 60 + value.minute();
 
 const setMinutesOfDay = (value: dayjs.Dayjs, minutes: number) =>
   value.hour(Math.floor(minutes / 60)).minute(minutes % 60).second(0).millisecond(0);
 
-const normalizeToActiveWindow = (candidate: dayjs.Dayjs, settings: DeliverySettings) => {
-  const start = Math.max(0, Math.min(settings.activeHoursStart, 23 * 60 + 59));
-  const end = Math.max(start + 1, Math.min(settings.activeHoursEnd, 24 * 60));
-  const currentMinutes = minutesOfDay(candidate);
+const clampWindow = (window: ActiveHoursWindow): ActiveHoursWindow => {
+  const start = Math.max(0, Math.min(window.start, 23 * 60 + 59));
+  return { start, end: Math.max(start + 1, Math.min(window.end, 24 * 60)) };
+};
 
-  if (currentMinutes < start) {
-    return setMinutesOfDay(candidate, start);
-  }
-  if (currentMinutes >= end) {
-    return setMinutesOfDay(candidate.add(1, 'day'), start);
+const activeWindowBounds = (settings: DeliverySettings) =>
+  clampWindow({ start: settings.activeHoursStart, end: settings.activeHoursEnd });
+
+const hasActiveWeekday = (weekdayHours: WeekdayActiveHours | null | undefined) =>
+  Boolean(weekdayHours && weekdayHours.length === 7 && weekdayHours.some(Boolean));
+
+/** Active window of the local day `value` falls on, or `null` when the day is off. */
+const dayActiveWindow = (value: dayjs.Dayjs, settings: DeliverySettings): ActiveHoursWindow | null => {
+  if (!hasActiveWeekday(settings.weekdayHours)) return activeWindowBounds(settings);
+  const window = settings.weekdayHours?.[value.day()];
+  return window ? clampWindow(window) : null;
+};
+
+const normalizeToActiveWindow = (candidate: dayjs.Dayjs, settings: DeliverySettings) => {
+  let day = candidate;
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset += 1) {
+    const window = dayActiveWindow(day, settings);
+    if (window) {
+      const currentMinutes = dayOffset === 0 ? minutesOfDay(candidate) : 0;
+      if (currentMinutes < window.start) {
+        return setMinutesOfDay(day, window.start);
+      }
+      if (currentMinutes < window.end) {
+        return candidate;
+      }
+    }
+    day = day.startOf('day').add(1, 'day');
   }
   return candidate;
 };
 
-const activeWindowBounds = (settings: DeliverySettings) => ({
-  start: Math.max(0, Math.min(settings.activeHoursStart, 23 * 60 + 59)),
-  end: Math.max(
-    Math.max(0, Math.min(settings.activeHoursStart, 23 * 60 + 59)) + 1,
-    Math.min(settings.activeHoursEnd, 24 * 60),
-  ),
-});
-
 const isInsideActiveWindow = (candidate: dayjs.Dayjs, settings: DeliverySettings) => {
-  const { start, end } = activeWindowBounds(settings);
+  const window = dayActiveWindow(candidate, settings);
+  if (!window) return false;
   const currentMinutes = minutesOfDay(candidate);
-  return currentMinutes >= start && currentMinutes < end;
+  return currentMinutes >= window.start && currentMinutes < window.end;
 };
 
 const candidateKey = (candidate: dayjs.Dayjs) => String(candidate.valueOf());
@@ -119,7 +184,6 @@ const sparseCandidates = ({
   minGap: number;
   settings: DeliverySettings;
 }) => {
-  const { start, end } = activeWindowBounds(settings);
   const horizonEnd = target.add(7, 'day');
   const stepMinutes = Math.max(5, Math.min(minGap, 30));
   const candidates = new Map<string, dayjs.Dayjs>();
@@ -140,8 +204,10 @@ const sparseCandidates = ({
 
   for (let dayOffset = 0; dayOffset <= 7; dayOffset += 1) {
     const day = target.startOf('day').add(dayOffset, 'day');
-    let cursor = setMinutesOfDay(day, start);
-    const windowEnd = setMinutesOfDay(day, end);
+    const window = dayActiveWindow(day, settings);
+    if (!window) continue;
+    let cursor = setMinutesOfDay(day, window.start);
+    const windowEnd = setMinutesOfDay(day, window.end);
     if (cursor.isBefore(target)) {
       cursor = target;
     }
@@ -203,6 +269,54 @@ export const planReminderDelivery = ({
   return candidate.toISOString();
 };
 
+export const startOfLocalDay = (at: string, timezoneName: string): string =>
+  dayjs(at).tz(timezoneName).startOf('day').toISOString();
+
+/** First active minute of the next local day, used when a day's quota is already spent. */
+export const nextActiveDayStart = (at: string, settings: DeliverySettings): string => {
+  let day = dayjs(at).tz(settings.timezone).startOf('day');
+  for (let dayOffset = 1; dayOffset <= 7; dayOffset += 1) {
+    day = day.add(1, 'day');
+    const window = dayActiveWindow(day, settings);
+    if (window) return setMinutesOfDay(day, window.start).toISOString();
+  }
+  return setMinutesOfDay(day, activeWindowBounds(settings).start).toISOString();
+};
+
+/**
+ * Keeps `dueAt` when its local day has room under `limit`, otherwise returns the start of the
+ * first later active day that does. `takenAt` are the sent or planned reminders of the same
+ * kind (reviews or new cards) of the scope; days beyond `maxDays` are not checked.
+ */
+export const planUnderDailyLimit = ({
+  dueAt,
+  limit,
+  takenAt,
+  settings,
+  maxDays = 60,
+}: {
+  dueAt: string;
+  limit: number | null;
+  takenAt: string[];
+  settings: DeliverySettings;
+  maxDays?: number;
+}): string => {
+  if (!limit) return dueAt;
+  const countByDay = new Map<string, number>();
+  for (const value of takenAt) {
+    const day = startOfLocalDay(value, settings.timezone);
+    countByDay.set(day, (countByDay.get(day) ?? 0) + 1);
+  }
+  let candidate = normalizeToActiveWindow(dayjs(dueAt).tz(settings.timezone), settings).toISOString();
+  for (let dayOffset = 0; dayOffset < maxDays; dayOffset += 1) {
+    if ((countByDay.get(startOfLocalDay(candidate, settings.timezone)) ?? 0) < limit) {
+      return dayOffset === 0 ? dueAt : candidate;
+    }
+    candidate = nextActiveDayStart(candidate, settings);
+  }
+  return candidate;
+};
+
 export const planReminderRebalance = ({
   jobs,
   fixedScheduledAt,
@@ -249,3 +363,47 @@ export const planReminderRebalance = ({
     };
   });
 };
+
+/**
+ * Spreads a backlog that piled up while reminders were paused over `spreadDays` active days
+ * from `startAt`: the earliest-due jobs go on the first day, each next share on the next active
+ * day. Within a day `planReminderRebalance` keeps the usual gaps.
+ */
+export const planBacklogSpread = ({
+  jobs,
+  fixedScheduledAt,
+  settings,
+  startAt,
+  spreadDays,
+}: {
+  jobs: RebalanceJobInput[];
+  fixedScheduledAt: string[];
+  settings: DeliverySettings;
+  startAt: string;
+  spreadDays: number;
+}): RebalancePlanChange[] => {
+  const sortedJobs = [...jobs].sort(
+    (a, b) =>
+      Date.parse(a.dueAt) - Date.parse(b.dueAt) ||
+      Date.parse(a.scheduledAt) - Date.parse(b.scheduledAt) ||
+      a.id.localeCompare(b.id),
+  );
+  const perDay = Math.max(1, Math.ceil(sortedJobs.length / Math.max(1, Math.floor(spreadDays))));
+  const existingScheduledAt = [...fixedScheduledAt];
+  const changes: RebalancePlanChange[] = [];
+  let dayStart = normalizeToActiveWindow(dayjs(startAt).tz(settings.timezone), settings).toISOString();
+  for (let index = 0; index < sortedJobs.length; index += perDay) {
+    const planned = planReminderRebalance({
+      jobs: sortedJobs.slice(index, index + perDay),
+      fixedScheduledAt: existingScheduledAt,
+      settings,
+      now: dayStart,
+    });
+    for (const change of planned) {
+      existingScheduledAt.push(change.afterScheduledAt);
+      changes.push(change);
+    }
+    dayStart = nextActiveDayStart(dayStart, settings);
+  }
+  return changes;
+};
@@ -3,7 +3,9 @@ import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
 import {
+  DailyLimits,
   DeliverySettings,
+  NO_DAILY_LIMITS,
   RebalancePlanChange,
   planReminderRebalance,
 } from './reminderPlanner';
@@ -17,6 +19,14 @@ export interface ReminderRebalanceJob {
   contentPreview: string | null;
   dueAt: string;
   scheduledAt: string;
+  /** First review of a never-graded card; counts against the new-card limit. */
+  newCard?: boolean;
+}
+
+/** A scheduled review that stays in place but still counts towards the daily limits. */
+export interface ReminderLimitedFixedJob {
+  scheduledAt: string;
+  newCard: boolean;
 }
 
 export interface ReminderRebalancePreviewChange extends RebalancePlanChange {
@@ -31,6 +41,9 @@ export interface ReminderHeatmap {
   slots: string[];
   before: number[][];
   after: number[][];
+  /** Per day: reviews or new cards reach the scope's daily limit. */
+  limitHitBefore: boolean[];
+  limitHitAfter: boolean[];
 }
 
 export interface ReminderRebalanceMetrics {
@@ -50,6 +63,7 @@ export interface ReminderRebalancePreview {
   horizonDays: number;
   bucketMinutes: number;
   settings: DeliverySettings;
+  dailyLimits: DailyLimits;
   range: {
     start: string;
     end: string;
@@ -85,9 +99,34 @@ const countConflicts = (scheduledAt: string[], minGapMinutes: number) => {
   return count;
 };
 
+const markLimitHitDays = (
+  days: string[],
+  reviews: ReminderLimitedFixedJob[],
+  limits: DailyLimits,
+  timezoneName: string,
+) => {
+  const counts = days.map(() => ({ reviews: 0, newCards: 0 }));
+  for (const review of reviews) {
+    const value = dayjs(review.scheduledAt).tz(timezoneName);
+    if (!value.isValid()) continue;
+    const count = counts[days.indexOf(value.format('YYYY-MM-DD'))];
+    if (!count) continue;
+    if (review.newCard) count.newCards += 1;
+    else count.reviews += 1;
+  }
+  return counts.map(
+    (count) =>
+      Boolean(limits.reviewsPerDay && count.reviews >= limits.reviewsPerDay) ||
+      Boolean(limits.newCardsPerDay && count.newCards >= limits.newCardsPerDay),
+  );
+};
+
 const buildHeatmap = ({
   beforeScheduledAt,
   afterScheduledAt,
+  beforeReviews,
+  afterReviews,
+  dailyLimits,
   settings,
   generatedAt,
   horizonDays,
@@ -95,6 +134,9 @@ const buildHeatmap = ({
 }: {
   beforeScheduledAt: string[];
   afterScheduledAt: string[];
+  beforeReviews: ReminderLimitedFixedJob[];
+  afterReviews: ReminderLimitedFixedJob[];
+  dailyLimits: DailyLimits;
   settings: DeliverySettings;
   generatedAt: string;
   horizonDays: number;
@@ -137,13 +179,23 @@ const buildHeatmap = ({
 
   beforeScheduledAt.forEach((value) => add(before, value));
   afterScheduledAt.forEach((value) => add(after, value));
-  return { days, dayLabels, slots, before, after };
+  return {
+    days,
+    dayLabels,
+    slots,
+    before,
+    after,
+    limitHitBefore: markLimitHitDays(days, beforeReviews, dailyLimits, settings.timezone),
+    limitHitAfter: markLimitHitDays(days, afterReviews, dailyLimits, settings.timezone),
+  };
 };
 
 export const buildReminderRebalancePreview = ({
   jobs,
   fixedScheduledAt,
   visibleFixedScheduledAt = fixedScheduledAt,
+  limitedFixedJobs = [],
+  dailyLimits = NO_DAILY_LIMITS,
   settings,
   generatedAt = new Date().toISOString(),
   horizonDays,
@@ -152,6 +204,8 @@ export const buildReminderRebalancePreview = ({
   jobs: ReminderRebalanceJob[];
   fixedScheduledAt: string[];
   visibleFixedScheduledAt?: string[];
+  limitedFixedJobs?: ReminderLimitedFixedJob[];
+  dailyLimits?: DailyLimits;
   settings: DeliverySettings;
   generatedAt?: string;
   horizonDays: number;
@@ -187,9 +241,19 @@ export const buildReminderRebalancePreview = ({
     ...visibleFixedScheduledAt,
     ...changes.map((change) => change.afterScheduledAt),
   ];
+  const reviewsOf = (scheduledAt: (change: ReminderRebalancePreviewChange) => string) => [
+    ...limitedFixedJobs,
+    ...changes.map((change) => ({
+      scheduledAt: scheduledAt(change),
+      newCard: Boolean(jobById.get(change.id)?.newCard),
+    })),
+  ];
   const heatmap = buildHeatmap({
     beforeScheduledAt,
     afterScheduledAt,
+    beforeReviews: reviewsOf((change) => change.beforeScheduledAt),
+    afterReviews: reviewsOf((change) => change.afterScheduledAt),
+    dailyLimits,
     settings,
     generatedAt,
     horizonDays: normalizedHorizonDays,
@@ -225,6 +289,7 @@ export const buildReminderRebalancePreview = ({
     horizonDays: normalizedHorizonDays,
     bucketMinutes: normalizedBucketMinutes,
     settings,
+    dailyLimits,
     range: {
       start: dayjs(generatedAt).tz(settings.timezone).startOf('day').toISOString(),
       end: dayjs(generatedAt)
@@ -1,7 +1,7 @@
 import { Markup } from 'telegraf';
 import dayjs from 'dayjs';
 import { config } from './config';
-import { reviewPresetIntervals } from './spacedRepetition';
+import { gradeOptions, reviewPresetIntervals } from './spacedRepetition';
 import {
   SCHEDULE_PRESETS,
   ALL_WEEKDAYS,
@@ -10,6 +10,7 @@ import {
 
 export const REVIEW_ACTIONS = {
   grade: 'grade',
+  reveal: 'review_reveal',
   adjust: 'adjust',
   snooze: 'snooze',
   preset: 'preset',
@@ -21,6 +22,8 @@ export const REVIEW_ACTIONS = {
   weekdayConfirm: 'rc',
 } as const;
 
+export const LEECH_ACTION_PREFIX = 'leech';
+
 export const CARD_ACTIONS = {
   setSchedule: 'ss',
   setOneTime: 'ot',
@@ -34,10 +37,19 @@ export const CARD_ACTIONS = {
   weekdayConfirm: 'wc',
 } as const;
 
+const buildGradeButtons = (subjectId: string) =>
+  gradeOptions.map((option) =>
+    Markup.button.callback(
+      `${option.emoji} ${option.label}`,
+      `${REVIEW_ACTIONS.grade}|${subjectId}|${option.key}`,
+    ),
+  );
+
 export const buildReminderJobKeyboard = (
   cardId: string,
   jobId: string,
   kind: 'review' | 'one_time' | 'manual_now',
+  options: { hiddenAnswer?: boolean } = {},
 ) => {
   if (kind === 'one_time') {
     return Markup.inlineKeyboard([
@@ -51,24 +63,71 @@ export const buildReminderJobKeyboard = (
     ]);
   }
 
+  if (options.hiddenAnswer) {
+    return Markup.inlineKeyboard([
+      [Markup.button.callback('👁 Показать ответ', `${REVIEW_ACTIONS.reveal}|${jobId}`)],
+      [Markup.button.callback('⚙️ Настроить', `${REVIEW_ACTIONS.adjust}|${jobId}`)],
+    ]);
+  }
+
+  const gradeButtons = buildGradeButtons(jobId);
   return Markup.inlineKeyboard([
-    [
-      Markup.button.callback('⚙️ Настроить', `${REVIEW_ACTIONS.adjust}|${jobId}`),
+    gradeButtons.slice(0, 2),
+    gradeButtons.slice(2),
+    [Markup.button.callback('⚙️ Настроить', `${REVIEW_ACTIONS.adjust}|${jobId}`)],
+  ]);
+};
+
+/**
+ * One row of grade buttons per digest item, numbered like the digest text; graded items drop
+ * out while the others keep their numbers.
+ */
+export const buildDigestKeyboard = (
+  items: Array<{ jobId: string; position: number }>,
+  deepLinkUrl?: string,
+) => {
+  type KeyboardButton =
+    | ReturnType<typeof Markup.button.callback>
+    | ReturnType<typeof Markup.button.url>;
+  const rows: KeyboardButton[][] = items.map((item) =>
+    gradeOptions.map((option) =>
       Markup.button.callback(
-        '✅ Окей',
-        `${REVIEW_ACTIONS.grade}|${jobId}|ok`,
+        `${item.position} ${option.emoji}`,
+        `${REVIEW_ACTIONS.grade}|${item.jobId}|${option.key}`,
       ),
-    ],
-  ]);
+    ),
+  );
+  if (deepLinkUrl) {
+    rows.push([Markup.button.url('📱 Открыть очередь', deepLinkUrl)]);
+  }
+  return Markup.inlineKeyboard(rows);
 };
 
-export const buildReviewKeyboard = (cardId: string) =>
-  Markup.inlineKeyboard([
-    [
-      Markup.button.callback('⚙️ Настроить', `${REVIEW_ACTIONS.adjust}|${cardId}`),
-      Markup.button.callback('✅ Окей', `${REVIEW_ACTIONS.grade}|${cardId}|ok`),
-    ],
+/** Choices under a leech notice; callbacks are `leech|<action>|<cardId>`. */
+export const buildLeechKeyboard = (cardId: string, deepLinkUrl?: string) => {
+  type KeyboardButton =
+    | ReturnType<typeof Markup.button.callback>
+    | ReturnType<typeof Markup.button.url>;
+  const button = (label: string, action: string) =>
+    Markup.button.callback(label, `${LEECH_ACTION_PREFIX}|${action}|${cardId}`);
+  const rows: KeyboardButton[][] = [
+    [button('✏️ Переписать', 'rewrite'), button('✂️ Разделить', 'split')],
+    [button('⏸ Приостановить', 'suspend'), button('🗄 В архив', 'archive')],
+  ];
+  if (deepLinkUrl) {
+    rows.push([Markup.button.url('📱 Все трудные карточки', deepLinkUrl)]);
+  }
+  return Markup.inlineKeyboard(rows);
+};
+
+export const buildReviewKeyboard = (cardId: string) => {
+  const gradeButtons = buildGradeButtons(cardId);
+  return Markup.inlineKeyboard([
+    gradeButtons.slice(0, 2),
+    gradeButtons.slice(2),
+    [Markup.button.callback('⚙️ Настроить', `${REVIEW_ACTIONS.adjust}|${cardId}`)],
   ]);
+};
 
 export const buildOneTimePickerKeyboard = (cardId: string) =>
   Markup.inlineKeyboard([
@@ -237,6 +296,7 @@ export const buildSchedulePickerKeyboard = (
         'SM-2 интервалы',
         `${ssAction}|${cardId}|sm2`,
       ),
+      Markup.button.callback('FSRS', `${ssAction}|${cardId}|fsrs`),
     ],
     [
       Markup.button.callback('Каждый день', `${ssAction}|${cardId}|d1`),
@@ -248,6 +308,10 @@ export const buildSchedulePickerKeyboard = (
     ],
     [
       Markup.button.callback('Каждый год', `${ssAction}|${cardId}|y1`),
+      Markup.button.callback('По будням', `${ssAction}|${cardId}|wd`),
+    ],
+    [
+      Markup.button.callback('Последний день месяца', `${ssAction}|${cardId}|ml`),
     ],
     [
       Markup.button.callback(
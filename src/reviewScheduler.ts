@@ -1,14 +1,43 @@
-import { Telegraf } from 'telegraf';
+import { hostname } from 'node:os';
+import { Markup, Telegraf } from 'telegraf';
 import {
   CardRecord,
   CardStore,
+  DueReminderDigest,
+  DueWeeklyReport,
   NotificationReason,
+  PendingLeechNotice,
   ReminderJobKind,
+  ReminderJobRecord,
   ReminderJobWithCard,
+  SchedulerNodeRole,
 } from './db';
+import {
+  InlineKeyboardMarkup,
+  InputFile,
+  InputMediaPhoto,
+  InputMediaVideo,
+} from 'telegraf/typings/core/types/typegram';
+import { fetch } from 'undici';
+import {
+  buildStoredCaption,
+  fitEntities,
+  listCardMediaFiles,
+  parseCardContentPayload,
+  resolveCardMediaContentType,
+} from './cardContent';
+import { buildCardFaceEntities, getCardFaces } from './cardFaces';
+import { buildLeechNoticeText } from './cardLeeches';
 import { config } from './config';
-import { buildReminderJobKeyboard } from './reviewKeyboards';
+import { classifyDeliveryError, formatDeliveryError, planDeliveryRetry } from './deliveryRetry';
+import { buildDigestKeyboard, buildLeechKeyboard, buildReminderJobKeyboard } from './reviewKeyboards';
 import { logger } from './logger';
+import { buildMediaBlobKey, createMediaStore, MediaStore } from './mediaStore';
+import { withSendPriority } from './outboundQueue';
+import { nextActiveDayStart, startOfLocalDay } from './reminderPlanner';
+import { buildDigestText, MAX_DIGEST_ITEMS, nextDigestAt } from './reminderDigest';
+import { buildMiniAppDeepLink, buildMiniAppViewParam } from './telegramLinks';
+import { buildWeeklyReportText, nextWeeklyReportAt } from './weeklyReport';
 import { withDbRetry } from './utils/dbRetry';
 
 const reminderTextByKind: Record<ReminderJobKind, string> = {
@@ -23,27 +52,52 @@ const notificationReasonByKind: Record<ReminderJobKind, NotificationReason> = {
   one_time: 'one_time',
 };
 
+const STORED_CONTENT_TYPES = new Set(['photo', 'video', 'animation', 'document', 'audio', 'voice', 'sticker', 'poll']);
+
+/** A stuck Telegram file download is given up and retried later with backoff. */
+const MEDIA_MIRROR_DOWNLOAD_TIMEOUT_MS = 60_000;
+
+/**
+ * Every instance runs the scheduler timer, but only the leader (the node holding the Postgres
+ * advisory-lock lease) scans for due work; the others heartbeat as `standby` and take over when
+ * the leader's connection goes away. Due jobs and overdue grades are additionally claimed with
+ * `FOR UPDATE SKIP LOCKED`, so a tick that overlaps a leadership handover cannot send twice.
+ */
 export class ReviewScheduler {
   private timer: NodeJS.Timeout | null = null;
+  private mirrorTimer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private mirroring = false;
+  private role: SchedulerNodeRole = 'standby';
+  private readonly node = {
+    nodeId: config.scheduler.nodeId,
+    hostname: hostname(),
+    pid: process.pid,
+    startedAt: new Date().toISOString(),
+  };
 
   constructor(
     private readonly store: CardStore,
     private readonly bot: Telegraf,
+    private readonly mediaStore: MediaStore | null = createMediaStore(config.mediaStore),
   ) {}
 
   start() {
     this.stop();
     this.timer = setInterval(
       () => {
-        this.tick().catch((error) =>
+        this.runTick().catch((error) =>
           logger.error('Ошибка при проверке карточек', error),
         );
       },
       config.scheduler.scanIntervalMs,
     );
-    this.tick().catch((error) =>
+    this.runTick().catch((error) =>
       logger.error('Ошибка при первой проверке карточек', error),
     );
+    this.mirrorTimer = setInterval(() => {
+      this.runMediaMirror().catch((error) => logger.error('Ошибка при сохранении медиа карточек', error));
+    }, config.scheduler.scanIntervalMs);
   }
 
   stop() {
@@ -51,9 +105,55 @@ export class ReviewScheduler {
       clearInterval(this.timer);
       this.timer = null;
     }
+    if (this.mirrorTimer) {
+      clearInterval(this.mirrorTimer);
+      this.mirrorTimer = null;
+    }
+  }
+
+  /** Gives up leadership and removes this node from `scheduler_nodes` on shutdown. */
+  async leave() {
+    this.stop();
+    this.role = 'standby';
+    await this.store.releaseSchedulerLease();
+    await withDbRetry(() => this.store.removeSchedulerNode(this.node.nodeId));
+  }
+
+  private async runTick() {
+    // A slow tick (large batch, Telegram flood waits) must not overlap the next one.
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      if (await this.refreshLeadership()) {
+        await withSendPriority('scheduled', () => this.tick());
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async refreshLeadership(): Promise<boolean> {
+    let role: SchedulerNodeRole = 'standby';
+    try {
+      role = (await this.store.acquireSchedulerLease()) ? 'leader' : 'standby';
+    } catch (error) {
+      logger.warn(`Не удалось проверить лидерство планировщика node=${this.node.nodeId}`, error);
+    }
+    if (role !== this.role) {
+      logger.info(`[ReviewScheduler lease] node=${this.node.nodeId} role=${this.role}->${role}`);
+      this.role = role;
+    }
+    try {
+      await withDbRetry(() => this.store.recordSchedulerHeartbeat({ ...this.node, role }));
+    } catch (error) {
+      logger.warn(`Не удалось записать heartbeat планировщика node=${this.node.nodeId}`, error);
+    }
+    return role === 'leader';
   }
 
   private async tick() {
+    await this.endExpiredVacations();
+
     const orphanDueCards = await withDbRetry(() =>
       this.store.listDueCardsWithoutActiveReviewJob(config.scheduler.batchSize),
     );
@@ -75,10 +175,297 @@ export class ReviewScheduler {
       this.store.claimDueReminderJobs(config.scheduler.batchSize),
     );
     for (const item of dueJobs) {
+      if (await this.deferOverDailyLimit(item)) continue;
       await this.sendReminderJobToChannel(item);
     }
 
-    await this.checkOverdueGrades();
+    await this.sendDueDigests();
+
+    // Re-sending reminders ignored for a day yields to everything else in the send queue.
+    await withSendPriority('bulk', () => this.checkOverdueGrades());
+    await withSendPriority('bulk', () => this.sendDueWeeklyReports());
+    await withSendPriority('bulk', () => this.sendLeechNotices());
+  }
+
+  /** File downloads run on their own timer on the leader, so a slow one never holds up reminders. */
+  private async runMediaMirror() {
+    if (this.mirroring || this.role !== 'leader') return;
+    this.mirroring = true;
+    try {
+      await withSendPriority('bulk', () => this.mirrorCardMedia());
+    } finally {
+      this.mirroring = false;
+    }
+  }
+
+  /** Vacations with an end date finish here; the backlog is spread before this tick claims jobs. */
+  private async endExpiredVacations() {
+    const scopes = await withDbRetry(() =>
+      this.store.listExpiredVacations(new Date().toISOString(), config.scheduler.batchSize),
+    );
+    for (const queueScope of scopes) {
+      try {
+        const result = await withDbRetry(() => this.store.endVacation({ queueScope }));
+        logger.info(
+          `[ReviewScheduler vacation_end] scope=${queueScope.type}:${queueScope.id} rescheduled=${result.rescheduled} spreadDays=${result.spreadDays}`,
+        );
+      } catch (error) {
+        logger.error(`Не удалось завершить отпуск scope=${queueScope.type}:${queueScope.id}`, error);
+      }
+    }
+  }
+
+  private async sendDueDigests() {
+    const digests = await withDbRetry(() =>
+      this.store.listDueReminderDigests(new Date().toISOString(), config.scheduler.batchSize),
+    );
+    for (const digest of digests) {
+      try {
+        await this.sendDigest(digest);
+      } catch (error) {
+        logger.error(
+          `Не удалось отправить сводку scope=${digest.queueScope.type}:${digest.queueScope.id}`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * One message for every review of the scope that came due since the last digest, plus the
+   * ones still waiting for a grade from earlier messages (their old keyboards are removed).
+   * A failed send puts the new jobs back for a retry and moves the digest to the retry time.
+   */
+  private async sendDigest({ queueScope, userId, sendAtMinutes }: DueReminderDigest) {
+    const settings = await withDbRetry(() => this.store.getUserReminderSettings(userId));
+    const scheduleNext = (nextAt: string) =>
+      withDbRetry(() => this.store.scheduleNextReminderDigest(queueScope, nextAt));
+    const since = startOfLocalDay(new Date().toISOString(), settings.timezone);
+    const { items, remaining } = await withDbRetry(() =>
+      this.store.claimDigestReminderJobs({ queueScope, limit: MAX_DIGEST_ITEMS, since }),
+    );
+    if (!items.length) {
+      await scheduleNext(nextDigestAt(sendAtMinutes, { timezone: settings.timezone }));
+      return;
+    }
+
+    let targetChatId = queueScope.id;
+    if (queueScope.type === 'user') {
+      const user = await withDbRetry(() => this.store.getUser(userId));
+      targetChatId = user?.notificationChatId || userId;
+    }
+    const botUsername = this.bot.botInfo?.username;
+    const keyboard = buildDigestKeyboard(
+      items.map(({ job }, index) => ({ jobId: job.id, position: index + 1 })),
+      botUsername ? buildMiniAppDeepLink(botUsername, buildMiniAppViewParam('queue')) : undefined,
+    );
+    const carriedOver = items.filter(({ job }) => job.status === 'awaiting_action');
+    const claimed = items.filter(({ job }) => job.status !== 'awaiting_action');
+
+    let messageId: number;
+    try {
+      const message = await this.bot.telegram.sendMessage(
+        targetChatId,
+        buildDigestText(
+          items.map(({ card }) => card),
+          remaining,
+        ),
+        keyboard,
+      );
+      messageId = message.message_id;
+    } catch (error) {
+      const failure = classifyDeliveryError(error);
+      const compactMessage = formatDeliveryError(failure);
+      const retries: string[] = [];
+      for (const { job } of claimed) {
+        const retryAt = planDeliveryRetry({
+          failure,
+          attempts: job.attempts + 1,
+          maxAttempts: config.scheduler.maxDeliveryAttempts,
+        });
+        await withDbRetry(() =>
+          this.store.recordReminderJobFailure({ jobId: job.id, error: compactMessage, retryAt }),
+        );
+        if (retryAt) retries.push(retryAt);
+      }
+      const retryAt = retries.sort()[0];
+      await scheduleNext(retryAt ?? nextDigestAt(sendAtMinutes, { timezone: settings.timezone }));
+      logger.warn(
+        `[ReviewScheduler digest_failure] scope=${queueScope.type}:${queueScope.id} jobs=${claimed.length} kind=${failure.kind} code=${failure.code ?? 'null'} ${retryAt ? `retryAt=${retryAt}` : 'dead_letter'}`,
+      );
+      return;
+    }
+
+    const sentAt = new Date().toISOString();
+    await withDbRetry(() =>
+      this.store.markReminderDigestDelivered({
+        queueScope,
+        userId,
+        chatId: targetChatId,
+        messageId,
+        jobIds: items.map(({ job }) => job.id),
+        sentAt,
+      }),
+    );
+    await scheduleNext(nextDigestAt(sendAtMinutes, { timezone: settings.timezone }));
+    for (const { job, card } of claimed) {
+      await withDbRetry(() =>
+        this.store.recordNotification({
+          cardId: card.id,
+          jobId: job.id,
+          messageId,
+          reason: notificationReasonByKind[job.kind],
+          sentAt,
+        }),
+      );
+    }
+
+    const previousMessages = new Map<string, { chatId: string; messageId: number }>();
+    for (const { job } of carriedOver) {
+      if (!job.deliveryChatId || !job.deliveryMessageId) continue;
+      previousMessages.set(`${job.deliveryChatId}:${job.deliveryMessageId}`, {
+        chatId: job.deliveryChatId,
+        messageId: job.deliveryMessageId,
+      });
+    }
+    for (const previous of previousMessages.values()) {
+      try {
+        await this.bot.telegram.editMessageReplyMarkup(
+          previous.chatId,
+          previous.messageId,
+          undefined,
+          undefined,
+        );
+      } catch (error) {
+        logger.warn(`Не удалось убрать клавиатуру прошлого напоминания ${previous.chatId}:${previous.messageId}`, error);
+      }
+    }
+    logger.info(
+      `[ReviewScheduler digest] scope=${queueScope.type}:${queueScope.id} message=${messageId} due=${claimed.length} carriedOver=${carriedOver.length} remaining=${remaining}`,
+    );
+  }
+
+  private async sendDueWeeklyReports() {
+    const reports = await withDbRetry(() =>
+      this.store.listDueWeeklyReports(new Date().toISOString(), config.scheduler.batchSize),
+    );
+    for (const report of reports) {
+      try {
+        await this.sendWeeklyReport(report);
+      } catch (error) {
+        logger.error(`Не удалось отправить отчёт за неделю user=${report.userId}`, error);
+      }
+    }
+  }
+
+  /**
+   * A report that was never planned (new user, changed settings) is only scheduled. A failed
+   * send is not retried: the next report comes a week later.
+   */
+  private async sendWeeklyReport({ userId, weekday, nextWeeklyReportAt: dueAt, notificationChatId }: DueWeeklyReport) {
+    const settings = await withDbRetry(() => this.store.getUserReminderSettings(userId));
+    const now = new Date().toISOString();
+    await withDbRetry(() =>
+      this.store.scheduleNextWeeklyReport(userId, nextWeeklyReportAt(weekday, settings, now)),
+    );
+    if (!dueAt) return;
+
+    const report = await withDbRetry(() =>
+      this.store.getWeeklyReport({ userId, timezone: settings.timezone, until: now }),
+    );
+    const botUsername = this.bot.botInfo?.username;
+    const statsUrl = botUsername ? buildMiniAppDeepLink(botUsername, buildMiniAppViewParam('stats')) : null;
+    try {
+      await this.bot.telegram.sendMessage(
+        notificationChatId || userId,
+        buildWeeklyReportText(report),
+        statsUrl ? Markup.inlineKeyboard([Markup.button.url('📈 Статистика', statsUrl)]) : {},
+      );
+    } catch (error) {
+      const failure = classifyDeliveryError(error);
+      logger.warn(
+        `[ReviewScheduler weekly_report_failure] user=${userId} kind=${failure.kind} code=${failure.code ?? 'null'} error=${formatDeliveryError(failure)}`,
+      );
+      return;
+    }
+    logger.info(
+      `[ReviewScheduler weekly_report] user=${userId} reviews=${report.reviews} cardsAdded=${report.cardsAdded} courses=${report.courses.length}`,
+    );
+  }
+
+  private async sendLeechNotices() {
+    const notices = await withDbRetry(() => this.store.listPendingLeechNotices(config.scheduler.batchSize));
+    for (const notice of notices) {
+      try {
+        await this.sendLeechNotice(notice);
+      } catch (error) {
+        logger.error(`Не удалось сообщить о трудной карточке card=${notice.card.id}`, error);
+      }
+    }
+  }
+
+  /**
+   * Personal leeches are reported to the owner's notification chat, chat-queue leeches to the
+   * chat itself. Only a retryable failure leaves the notice for the next tick.
+   */
+  private async sendLeechNotice({ card, notificationChatId }: PendingLeechNotice) {
+    const chatId = card.queueScopeType === 'chat' ? card.queueScopeId : notificationChatId || card.userId;
+    const botUsername = this.bot.botInfo?.username;
+    const leechesUrl =
+      botUsername && card.queueScopeType === 'user'
+        ? buildMiniAppDeepLink(botUsername, buildMiniAppViewParam('leeches'))
+        : undefined;
+    try {
+      await this.bot.telegram.sendMessage(chatId, buildLeechNoticeText(card), buildLeechKeyboard(card.id, leechesUrl));
+    } catch (error) {
+      const failure = classifyDeliveryError(error);
+      logger.warn(
+        `[ReviewScheduler leech_notice_failure] card=${card.id} chat=${chatId} kind=${failure.kind} code=${failure.code ?? 'null'} error=${formatDeliveryError(failure)}`,
+      );
+      if (failure.kind === 'retryable') return;
+    }
+    await withDbRetry(() => this.store.markLeechNoticeSent(card.id));
+    logger.info(`[ReviewScheduler leech_notice] card=${card.id} chat=${chatId} lapses=${card.lapses}`);
+  }
+
+  /**
+   * Scheduled reviews stop once the scope's daily review (or new-card) limit or the daily limit
+   * of one of the card's decks is reached; the rest move to the start of the next active day.
+   * Manual and one-time reminders are never held back.
+   */
+  private async deferOverDailyLimit({ job, card }: ReminderJobWithCard): Promise<boolean> {
+    if (job.kind !== 'review') return false;
+    try {
+      const settings = await withDbRetry(() => this.store.getUserReminderSettings(card.userId));
+      const now = new Date().toISOString();
+      const queueScope = { type: card.queueScopeType, id: card.queueScopeId };
+      const since = startOfLocalDay(now, settings.timezone);
+      const scopeLimit = await withDbRetry(() =>
+        this.store.findExceededDailyLimit({ queueScope, newCard: job.newCard, since }),
+      );
+      const deckLimit =
+        scopeLimit || !card.tags.length
+          ? null
+          : await withDbRetry(() =>
+              this.store.findExceededDeckLimit({ queueScope, tags: card.tags, since }),
+            );
+      if (!scopeLimit && !deckLimit) return false;
+      const scheduledAt = nextActiveDayStart(now, settings);
+      await withDbRetry(() => this.store.deferReminderJob(job.id, scheduledAt));
+      if (scopeLimit) {
+        logger.info(
+          `[ReviewScheduler daily_limit] job=${job.id} card=${card.id} kind=${job.newCard ? 'new_card' : 'review'} delivered=${scopeLimit.delivered}/${scopeLimit.limit} deferredTo=${scheduledAt}`,
+        );
+      } else if (deckLimit) {
+        logger.info(
+          `[ReviewScheduler deck_limit] job=${job.id} card=${card.id} deck=${deckLimit.tag} delivered=${deckLimit.delivered}/${deckLimit.dailyLimit} deferredTo=${scheduledAt}`,
+        );
+      }
+      return true;
+    } catch (error) {
+      logger.warn(`Не удалось проверить дневной лимит для job=${job.id}`, error);
+      return false;
+    }
   }
 
   private async checkOverdueGrades() {
@@ -87,7 +474,7 @@ export class ReviewScheduler {
     const cutoffIso = cutoffDate.toISOString();
 
     const overdueCards = await withDbRetry(() =>
-      this.store.listExpiredAwaitingCards(cutoffIso),
+      this.store.claimExpiredAwaitingCards(cutoffIso, config.scheduler.batchSize),
     );
 
     for (const card of overdueCards) {
@@ -184,7 +571,10 @@ export class ReviewScheduler {
         targetChatId = user?.notificationChatId || card.userId;
       }
 
-      const keyboard = buildReminderJobKeyboard(card.id, job.id, job.kind);
+      const faces = job.kind === 'one_time' ? null : getCardFaces(card);
+      const keyboard = buildReminderJobKeyboard(card.id, job.id, job.kind, {
+        hiddenAnswer: Boolean(faces),
+      });
       let pendingMessageId: number;
       let baseMessageId = card.baseChannelMessageId;
       let usedReply = false;
@@ -196,7 +586,7 @@ export class ReviewScheduler {
       };
       const isTechnicalPreview = (value: string | null): boolean => {
         if (!value) return false;
-        return value === '[Фото]' || value === '[Видео]' || value.startsWith('[Фото x') || value.startsWith('[Видео x') || value.startsWith('[Медиа x');
+        return value === '[Фото]' || value === '[Видео]' || value === '[Голосовое сообщение]' || value === '[Аудио]' || value === '[GIF]' || value === '[Файл]' || value.startsWith('[Стикер') || value.startsWith('[Фото x') || value.startsWith('[Видео x') || value.startsWith('[Медиа x');
       };
 
       const sendReminderWithReply = async (replyBaseMessageId: number) => {
@@ -241,13 +631,19 @@ export class ReviewScheduler {
         const rawPreview = normalizePreview(card.contentPreview);
         const preview = rawPreview && !isTechnicalPreview(rawPreview) ? rawPreview : null;
         const textFallback = preview ?? 'Карточка без текста';
+        const payload = parseCardContentPayload(card.contentPayload);
 
         if (card.contentType === 'text') {
-          const baseMessage = await this.bot.telegram.sendMessage(
-            targetChatId,
-            textFallback,
-            replyMarkup,
-          );
+          const text = faces?.front ?? textFallback;
+          const entities = faces
+            ? buildCardFaceEntities(card, faces).front
+            : preview
+              ? fitEntities(payload?.entities, text.length)
+              : [];
+          const baseMessage = await this.bot.telegram.sendMessage(targetChatId, text, {
+            ...(entities.length ? { entities } : {}),
+            ...replyMarkup,
+          });
           const messageId = baseMessage.message_id;
           card.baseChannelMessageId = messageId;
           baseMessageId = messageId;
@@ -277,11 +673,6 @@ export class ReviewScheduler {
             if (!lastCopiedMessageId) {
               throw new Error(`Не удалось скопировать медиагруппу карточки ${card.id}`);
             }
-            card.baseChannelMessageId = lastCopiedMessageId;
-            baseMessageId = lastCopiedMessageId;
-            await withDbRetry(() =>
-              this.store.setBaseChannelMessage(card.id, card.baseChannelMessageId),
-            );
             logger.info(
               `[ReviewScheduler sendStoredBaseMessage:copied_media_group] job=${job.id} card=${card.id} source=${card.sourceChatId}:${uniqueSourceIds.join(',')} baseMessageId=${lastCopiedMessageId}`,
             );
@@ -291,7 +682,22 @@ export class ReviewScheduler {
               error,
             );
           }
+          if (!lastCopiedMessageId && (payload?.album?.length ?? 0) > 1) {
+            try {
+              lastCopiedMessageId = await this.sendStoredAlbum(card, targetChatId, buildStoredCaption(payload, preview));
+              logger.info(
+                `[ReviewScheduler sendStoredBaseMessage:stored_media_group] job=${job.id} card=${card.id} baseMessageId=${lastCopiedMessageId}`,
+              );
+            } catch (error) {
+              logger.warn(`Не удалось пересобрать медиагруппу карточки ${card.id}`, error);
+            }
+          }
           if (lastCopiedMessageId) {
+            card.baseChannelMessageId = lastCopiedMessageId;
+            baseMessageId = lastCopiedMessageId;
+            await withDbRetry(() =>
+              this.store.setBaseChannelMessage(card.id, card.baseChannelMessageId),
+            );
             if (withKeyboard) {
               return await sendReminderWithReply(lastCopiedMessageId);
             }
@@ -324,37 +730,11 @@ export class ReviewScheduler {
           );
         }
         let messageId: number;
-        if (card.contentType === 'photo' && card.contentFileId) {
+        if (STORED_CONTENT_TYPES.has(card.contentType) && (card.contentFileId || card.contentType === 'poll')) {
           try {
-            const baseMessage = await this.bot.telegram.sendPhoto(
-              targetChatId,
-              card.contentFileId,
-              preview
-                ? { caption: preview.slice(0, 1024), ...replyMarkup }
-                : replyMarkup,
-            );
-            messageId = baseMessage.message_id;
+            messageId = await this.sendStoredContent(card, targetChatId, preview, replyMarkup);
           } catch (error) {
-            logger.warn(`Не удалось отправить фото карточки ${card.id} как базу`, error);
-            const baseMessage = await this.bot.telegram.sendMessage(
-              targetChatId,
-              textFallback,
-              replyMarkup,
-            );
-            messageId = baseMessage.message_id;
-          }
-        } else if (card.contentType === 'video' && card.contentFileId) {
-          try {
-            const baseMessage = await this.bot.telegram.sendVideo(
-              targetChatId,
-              card.contentFileId,
-              preview
-                ? { caption: preview.slice(0, 1024), ...replyMarkup }
-                : replyMarkup,
-            );
-            messageId = baseMessage.message_id;
-          } catch (error) {
-            logger.warn(`Не удалось отправить видео карточки ${card.id} как базу`, error);
+            logger.warn(`Не удалось отправить ${card.contentType} карточки ${card.id} как базу`, error);
             const baseMessage = await this.bot.telegram.sendMessage(
               targetChatId,
               textFallback,
@@ -448,37 +828,200 @@ export class ReviewScheduler {
       );
     } catch (error) {
       logger.error(`Не удалось отправить напоминание job=${job.id} card=${card.id}`, error);
-      const errorMessage =
-        error instanceof Error ? error.message : 'неизвестная ошибка';
-      const compactMessage = errorMessage.replace(/\s+/g, ' ').slice(0, 240);
-      await withDbRetry(() => this.store.failReminderJob(job.id, compactMessage));
+      await this.handleDeliveryFailure(job, card, targetChatId, error);
+    }
+  }
+
+  /**
+   * Retries the same job with exponential backoff; permanent Telegram errors and exhausted
+   * attempts move it to the dead-letter list (dashboard → «Повторить сейчас»), and only then is
+   * the user told that the reminder was lost.
+   */
+  private async handleDeliveryFailure(
+    job: ReminderJobRecord,
+    card: CardRecord,
+    targetChatId: string,
+    error: unknown,
+  ) {
+    const failure = classifyDeliveryError(error);
+    const compactMessage = formatDeliveryError(failure);
+    const attempts = job.attempts + 1;
+    const retryAt = planDeliveryRetry({
+      failure,
+      attempts,
+      maxAttempts: config.scheduler.maxDeliveryAttempts,
+    });
+    try {
+      await withDbRetry(() =>
+        this.store.recordReminderJobFailure({ jobId: job.id, error: compactMessage, retryAt }),
+      );
+    } catch (recordError) {
+      logger.warn(`Не удалось сохранить ошибку доставки job=${job.id} card=${card.id}`, recordError);
+      return;
+    }
+    logger.warn(
+      `[ReviewScheduler delivery_failure] job=${job.id} card=${card.id} attempt=${attempts}/${config.scheduler.maxDeliveryAttempts} kind=${failure.kind} code=${failure.code ?? 'null'} ${retryAt ? `retryAt=${retryAt}` : 'dead_letter'}`,
+    );
+    if (retryAt) return;
+    try {
+      await this.bot.telegram.sendMessage(
+        targetChatId,
+        `⚠ Не удалось отправить напоминание по карточке ${card.id}. Ошибка: ${compactMessage}`,
+      );
+    } catch (notifyErr) {
+      logger.warn(`Не удалось отправить уведомление об ошибке карточки ${card.id}`, notifyErr);
+    }
+  }
+
+  /**
+   * Re-sends a card whose source message can no longer be copied, using the stored file_id
+   * (or the stored poll definition) so the reminder keeps the original media type. When the
+   * file_id itself fails, the file is uploaded from the media store.
+   */
+  private async sendStoredContent(
+    card: CardRecord,
+    targetChatId: string,
+    preview: string | null,
+    replyMarkup: { reply_markup?: InlineKeyboardMarkup },
+  ): Promise<number> {
+    const payload = parseCardContentPayload(card.contentPayload);
+    if (card.contentType === 'poll') {
+      const poll = payload?.poll;
+      if (!poll) {
+        throw new Error(`У карточки ${card.id} нет сохранённого опроса`);
+      }
+      const extra = {
+        is_anonymous: poll.isAnonymous,
+        allows_multiple_answers: poll.allowsMultipleAnswers,
+        ...(poll.explanation ? { explanation: poll.explanation } : {}),
+        ...replyMarkup,
+      };
+      // Quiz polls can only be re-created when the correct answer was visible at intake.
+      const message =
+        poll.type === 'quiz' && poll.correctOptionId !== null
+          ? await this.bot.telegram.sendQuiz(targetChatId, poll.question, poll.options, {
+              ...extra,
+              correct_option_id: poll.correctOptionId,
+            })
+          : await this.bot.telegram.sendPoll(targetChatId, poll.question, poll.options, extra);
+      return message.message_id;
+    }
+    const fileId = card.contentFileId;
+    if (!fileId) {
+      throw new Error(`У карточки ${card.id} нет file_id`);
+    }
+    const caption = card.contentType === 'sticker' ? null : buildStoredCaption(payload, preview);
+    const extra = { ...caption, ...replyMarkup };
+    const send = (media: string | InputFile) => {
+      switch (card.contentType) {
+        case 'photo':
+          return this.bot.telegram.sendPhoto(targetChatId, media, extra);
+        case 'video':
+          return this.bot.telegram.sendVideo(targetChatId, media, extra);
+        case 'sticker':
+          return this.bot.telegram.sendSticker(targetChatId, media, replyMarkup);
+        case 'animation':
+          return this.bot.telegram.sendAnimation(targetChatId, media, extra);
+        case 'document':
+          return this.bot.telegram.sendDocument(targetChatId, media, extra);
+        case 'voice':
+          return this.bot.telegram.sendVoice(targetChatId, media, extra);
+        default:
+          return this.bot.telegram.sendAudio(targetChatId, media, extra);
+      }
+    };
+    try {
+      return (await send(fileId)).message_id;
+    } catch (error) {
+      const blob = await this.loadMediaBlob(card, card.contentFileUniqueId ?? fileId, error);
+      logger.info(`[ReviewScheduler sendStoredContent:media_store] card=${card.id} contentType=${card.contentType}`);
+      return (await send({ source: blob, filename: payload?.fileName ?? card.contentType })).message_id;
+    }
+  }
+
+  /** Rebuilds an album from its stored items; the caption goes on the first one, as Telegram shows it. */
+  private async sendStoredAlbum(
+    card: CardRecord,
+    targetChatId: string,
+    caption: ReturnType<typeof buildStoredCaption>,
+  ): Promise<number> {
+    const album = parseCardContentPayload(card.contentPayload)?.album ?? [];
+    const buildMedia = (files: Array<string | InputFile>) =>
+      album.map((item, index) => ({
+        type: item.type,
+        media: files[index]!,
+        ...(index === 0 ? caption : null),
+      })) as Array<InputMediaPhoto | InputMediaVideo>;
+    let messages: Array<{ message_id: number }>;
+    try {
+      messages = await this.bot.telegram.sendMediaGroup(targetChatId, buildMedia(album.map((item) => item.fileId)));
+    } catch (error) {
+      const files: InputFile[] = [];
+      for (const item of album) {
+        files.push({ source: await this.loadMediaBlob(card, item.fileUniqueId, error), filename: item.type });
+      }
+      messages = await this.bot.telegram.sendMediaGroup(targetChatId, buildMedia(files));
+    }
+    const lastMessageId = messages[messages.length - 1]?.message_id;
+    if (!lastMessageId) {
+      throw new Error(`Не удалось отправить медиагруппу карточки ${card.id}`);
+    }
+    return lastMessageId;
+  }
+
+  /**
+   * The stored copy of a file whose file_id failed with `error`. Retryable Telegram errors are
+   * rethrown as they are: the file_id is fine, the next attempt will use it.
+   */
+  private async loadMediaBlob(card: CardRecord, fileUniqueId: string, error: unknown): Promise<Buffer> {
+    if (!this.mediaStore || !card.mediaMirroredAt || classifyDeliveryError(error).kind === 'retryable') {
+      throw error;
+    }
+    const blob = await this.mediaStore.get(buildMediaBlobKey(fileUniqueId));
+    if (!blob) {
+      throw error;
+    }
+    return blob;
+  }
+
+  /** Copies card files to the media store so they survive a lost file_id; bounded per run. */
+  private async mirrorCardMedia() {
+    if (!this.mediaStore) return;
+    const cards = await withDbRetry(() => this.store.listCardsToMirror(config.scheduler.batchSize));
+    for (const card of cards) {
       try {
-        const latestCard = await withDbRetry(() => this.store.getCardById(card.id));
-        if (latestCard.status !== 'archived') {
-          const retryAt = new Date(Date.now() + 60 * 60_000).toISOString();
-          await withDbRetry(() =>
-            this.store.createReminderJob({
-              cardId: latestCard.id,
-              userId: latestCard.userId,
-              kind: job.kind,
-              dueAt: retryAt,
-              scheduledAt: retryAt,
-              source: 'send_retry',
-              snoozedFromJobId: job.id,
-              metadata: job.metadata,
-            }),
+        const payload = parseCardContentPayload(card.contentPayload);
+        for (const file of listCardMediaFiles(card)) {
+          const link = await this.bot.telegram.getFileLink(file.fileId);
+          const response = await fetch(link, { signal: AbortSignal.timeout(MEDIA_MIRROR_DOWNLOAD_TIMEOUT_MS) });
+          if (!response.ok) {
+            throw new Error(`Telegram file download failed with status ${response.status}`);
+          }
+          const body = Buffer.from(await response.arrayBuffer());
+          const contentType = resolveCardMediaContentType(
+            card.contentType,
+            payload,
+            response.headers.get('content-type'),
           );
+          await this.mediaStore.put(buildMediaBlobKey(file.fileUniqueId), body, contentType);
         }
-      } catch (retryError) {
-        logger.warn(`Не удалось поставить retry для job=${job.id} card=${card.id}`, retryError);
-      }
-      try {
-        await this.bot.telegram.sendMessage(
-          targetChatId,
-          `⚠ Не удалось отправить напоминание по карточке ${card.id}. Ошибка: ${compactMessage}`,
+        await withDbRetry(() => this.store.markCardMediaMirrored(card.id));
+        logger.info(`[ReviewScheduler media_mirror] card=${card.id} provider=${this.mediaStore.provider}`);
+      } catch (error) {
+        // Files over the Bot API download limit never become available; the rest is retried with backoff.
+        const failure = classifyDeliveryError(error);
+        const retryAt = planDeliveryRetry({
+          failure,
+          attempts: card.mediaMirrorAttempts + 1,
+          maxAttempts: config.scheduler.maxDeliveryAttempts,
+        });
+        await withDbRetry(() =>
+          this.store.recordCardMediaMirrorFailure({ cardId: card.id, error: formatDeliveryError(failure), retryAt }),
+        );
+        logger.warn(
+          `Не удалось сохранить медиа карточки ${card.id} в хранилище (${retryAt ? `повтор ${retryAt}` : 'без повторов'})`,
+          error,
         );
-      } catch (notifyErr) {
-        logger.warn(`Не удалось отправить уведомление об ошибке карточки ${card.id}`, notifyErr);
       }
     }
   }
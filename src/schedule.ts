@@ -1,13 +1,35 @@
 import dayjs from 'dayjs';
+import { fromWallClock, serverTimezone, toWallClock } from './utils/wallClock';
 
 // --- Types ---
 
-export type ScheduleRule =
-  | { type: 'days'; interval: number; timeMinutes?: number }
-  | { type: 'months'; interval: number; timeMinutes?: number }
-  | { type: 'years'; interval: number; timeMinutes?: number }
-  | { type: 'weekdays'; days: number[]; timeMinutes?: number } // 1=Пн..7=Вс
-  | { type: 'annual_date'; month: number; day: number; timeMinutes?: number };
+/**
+ * Options shared by every rule. `timesMinutes` lists several times a day and wins over
+ * `timeMinutes`; `until` is the last local date with an occurrence; `count` limits the number
+ * of occurrences and `remaining` tracks how many are left (see `remainingScheduleOccurrences`).
+ * `startsAt` (RRULE DTSTART) is the earliest occurrence, and interval rules step from it.
+ */
+export type ScheduleRuleOptions = {
+  timeMinutes?: number;
+  timesMinutes?: number[];
+  until?: string;
+  count?: number;
+  remaining?: number;
+  startsAt?: string;
+};
+
+export type ScheduleRule = ScheduleRuleOptions &
+  (
+    | { type: 'days'; interval: number }
+    | { type: 'months'; interval: number }
+    | { type: 'years'; interval: number }
+    | { type: 'weekdays'; days: number[] } // 1=Пн..7=Вс
+    | { type: 'annual_date'; month: number; day: number }
+    | { type: 'monthly_weekday'; week: number; weekday: number } // week 1..5 or -1 for the last one
+    | { type: 'monthly_day'; day: number } // 1..31 or -1 for the last day
+  );
+
+export const MAX_SCHEDULE_COUNT = 1000;
 
 // --- Presets (used in bot keyboards) ---
 
@@ -23,6 +45,8 @@ export const SCHEDULE_PRESETS: SchedulePreset[] = [
   { code: 'd7', label: 'Каждую неделю', rule: { type: 'days', interval: 7 } },
   { code: 'm1', label: 'Каждый месяц', rule: { type: 'months', interval: 1 } },
   { code: 'y1', label: 'Каждый год', rule: { type: 'years', interval: 1 } },
+  { code: 'wd', label: 'По будням', rule: { type: 'weekdays', days: [1, 2, 3, 4, 5] } },
+  { code: 'ml', label: 'Последний день месяца', rule: { type: 'monthly_day', day: -1 } },
 ];
 
 export const PRESET_BY_CODE = new Map(SCHEDULE_PRESETS.map((p) => [p.code, p]));
@@ -48,30 +72,87 @@ export const formatWeekdays = (days: number[]): string =>
 
 // --- Compute next date from schedule ---
 
+/**
+ * Next occurrence strictly after `after` and not before `startsAt`, or null when the occurrence
+ * falls after `until`. `count` is not checked here: callers consult `remainingScheduleOccurrences`.
+ * Times and dates of the rule are local to `timezoneName` (the scope's timezone), so "every day
+ * at 9:00" stays at 9:00 across DST changes.
+ */
 export const computeNextFromSchedule = (
   rule: ScheduleRule,
   after: dayjs.Dayjs = dayjs(),
-): string => {
-  const now = after.second(0).millisecond(0);
+  timezoneName: string = serverTimezone(),
+): string | null => {
+  const anchor = rule.startsAt ? toWallClock(rule.startsAt, timezoneName).second(0).millisecond(0) : null;
+  let now = toWallClock(after, timezoneName).second(0).millisecond(0);
+  // Occurrences are strictly after `now`, so stepping back a minute lets the anchor itself match.
+  if (anchor && now.isBefore(anchor)) now = anchor.subtract(1, 'minute');
+  const next = computeNextOccurrence(rule, now, anchor);
+  if (!next || (rule.until && next.format('YYYY-MM-DD') > rule.until)) return null;
+  return fromWallClock(next, timezoneName).toISOString();
+};
+
+/**
+ * Occurrences a rule with `count` still has after the one already scheduled: `count - 1` right
+ * after the rule is set, then one less with every review. `undefined` for rules without `count`.
+ */
+export const remainingScheduleOccurrences = (rule: ScheduleRule): number | undefined =>
+  rule.count ? (rule.remaining ?? rule.count - 1) : undefined;
+
+const computeNextOccurrence = (
+  rule: ScheduleRule,
+  now: dayjs.Dayjs,
+  anchor: dayjs.Dayjs | null,
+): dayjs.Dayjs | null => {
+  const times = ruleTimes(rule);
 
   switch (rule.type) {
     case 'days':
-      return computeNextInterval(now, rule.interval, 'day', rule.timeMinutes).toISOString();
+      return anchor
+        ? computeNextAnchoredInterval(now, anchor, rule.interval, 'day', times)
+        : computeNextInterval(now, rule.interval, 'day', times);
 
     case 'months':
-      return computeNextInterval(now, rule.interval, 'month', rule.timeMinutes).toISOString();
+      return anchor
+        ? computeNextAnchoredInterval(now, anchor, rule.interval, 'month', times)
+        : computeNextInterval(now, rule.interval, 'month', times);
 
     case 'years':
-      return computeNextInterval(now, rule.interval, 'year', rule.timeMinutes).toISOString();
+      return anchor
+        ? computeNextAnchoredInterval(now, anchor, rule.interval, 'year', times)
+        : computeNextInterval(now, rule.interval, 'year', times);
 
     case 'weekdays':
-      return computeNextWeekday(now, rule.days, rule.timeMinutes).toISOString();
+      if (!rule.days.length) return now.add(1, 'day');
+      return findNextDay(now, times, 7, (date) => rule.days.includes(isoWeekday(date)));
 
     case 'annual_date':
-      return computeNextAnnualDate(now, rule.month, rule.day, rule.timeMinutes).toISOString();
+      return computeNextAnnualDate(now, rule.month, rule.day, times ?? [9 * 60]);
+
+    case 'monthly_weekday':
+      return findNextDay(now, times, 366, (date) => isNthWeekdayOfMonth(date, rule.week, rule.weekday));
+
+    case 'monthly_day':
+      return findNextDay(now, times, 366, (date) =>
+        rule.day === -1 ? date.date() === date.daysInMonth() : date.date() === rule.day,
+      );
   }
 };
 
+const ruleTimes = (rule: ScheduleRuleOptions): number[] | undefined => {
+  if (rule.timesMinutes?.length) return [...rule.timesMinutes].sort((a, b) => a - b);
+  return Number.isInteger(rule.timeMinutes) ? [rule.timeMinutes as number] : undefined;
+};
+
+// dayjs .day(): 0=Sun, 1=Mon...6=Sat → convert to ISO: 1=Mon..7=Sun
+const isoWeekday = (date: dayjs.Dayjs): number => (date.day() === 0 ? 7 : date.day());
+
+const isNthWeekdayOfMonth = (date: dayjs.Dayjs, week: number, weekday: number): boolean => {
+  if (isoWeekday(date) !== weekday) return false;
+  if (week === -1) return date.date() + 7 > date.daysInMonth();
+  return Math.ceil(date.date() / 7) === week;
+};
+
 const applyTime = (date: dayjs.Dayjs, timeMinutes: number | undefined): dayjs.Dayjs => {
   if (!Number.isInteger(timeMinutes)) {
     return date;
@@ -80,65 +161,74 @@ const applyTime = (date: dayjs.Dayjs, timeMinutes: number | undefined): dayjs.Da
   return date.hour(Math.floor(clamped / 60)).minute(clamped % 60).second(0).millisecond(0);
 };
 
+/** The first matching day within `maxDays` that still has a time after `now`. */
+const findNextDay = (
+  now: dayjs.Dayjs,
+  times: number[] | undefined,
+  maxDays: number,
+  matches: (date: dayjs.Dayjs) => boolean,
+): dayjs.Dayjs | null => {
+  for (let offset = 0; offset <= maxDays; offset += 1) {
+    const date = now.add(offset, 'day');
+    if (!matches(date)) continue;
+    for (const time of times ?? [undefined]) {
+      const candidate = applyTime(date, time);
+      if (candidate.isAfter(now)) return candidate;
+    }
+  }
+  return null;
+};
+
 const computeNextInterval = (
   now: dayjs.Dayjs,
   interval: number,
   unit: dayjs.ManipulateType,
-  timeMinutes: number | undefined,
+  times: number[] | undefined,
 ): dayjs.Dayjs => {
-  if (Number.isInteger(timeMinutes)) {
-    const todayAtTime = applyTime(now, timeMinutes);
-    if (todayAtTime.isAfter(now)) {
-      return todayAtTime;
-    }
+  const laterToday = times?.map((time) => applyTime(now, time)).find((candidate) => candidate.isAfter(now));
+  if (laterToday) {
+    return laterToday;
   }
-  return applyTime(now.add(Math.max(1, interval), unit), timeMinutes);
+  return applyTime(now.add(Math.max(1, interval), unit), times?.[0]);
 };
 
-const computeNextWeekday = (
+/** Days `anchor + k * interval`: with DTSTART an interval rule keeps its grid instead of following the reviews. */
+const computeNextAnchoredInterval = (
   now: dayjs.Dayjs,
-  weekdays: number[],
-  timeMinutes: number | undefined,
-): dayjs.Dayjs => {
-  if (!weekdays.length) return now.add(1, 'day');
-
-  const sorted = [...weekdays].sort((a, b) => a - b);
-  // dayjs .day(): 0=Sun, 1=Mon...6=Sat → convert to ISO: 1=Mon..7=Sun
-  const todayIso = now.day() === 0 ? 7 : now.day();
-
-  for (const wd of sorted) {
-    if (wd >= todayIso) {
-      const diff = wd - todayIso;
-      const candidate = applyTime(now.add(diff, 'day'), timeMinutes);
-      if (candidate.isAfter(now)) {
-        return candidate;
-      }
+  anchor: dayjs.Dayjs,
+  interval: number,
+  unit: dayjs.ManipulateType,
+  times: number[] | undefined,
+): dayjs.Dayjs | null => {
+  const step = Math.max(1, interval);
+  const first = Math.max(0, Math.floor(now.diff(anchor, unit) / step));
+  // Counting from the anchor each time keeps a 31st from sliding to the 28th after February.
+  for (let index = first; index <= first + 2; index += 1) {
+    const date = anchor.add(index * step, unit);
+    for (const time of times ?? [undefined]) {
+      const candidate = applyTime(date, time);
+      if (candidate.isAfter(now) && !candidate.isBefore(anchor)) return candidate;
     }
   }
-  // All weekdays ≤ today → go to next week's first weekday
-  const diff = 7 - todayIso + (sorted[0] ?? 1);
-  return applyTime(now.add(diff, 'day'), timeMinutes);
+  return null;
 };
 
 const computeNextAnnualDate = (
   now: dayjs.Dayjs,
   month: number,
   day: number,
-  timeMinutes: number | undefined,
-): dayjs.Dayjs => {
-  const build = (year: number) =>
-    applyTime(
-      dayjs(`${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T00:00:00`),
-      timeMinutes ?? 9 * 60,
-    );
-  let candidate = build(now.year());
-  if (!candidate.isValid() || candidate.month() + 1 !== month || candidate.date() !== day) {
-    candidate = build(now.year() + 1);
-  }
-  if (!candidate.isAfter(now)) {
-    candidate = build(now.year() + 1);
+  times: number[],
+): dayjs.Dayjs | null => {
+  // Eight years always include a leap year, so 29.02 is found too.
+  for (let year = now.year(); year <= now.year() + 8; year += 1) {
+    const date = dayjs.utc(`${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T00:00:00`);
+    if (!date.isValid() || date.month() + 1 !== month || date.date() !== day) continue;
+    for (const time of times) {
+      const candidate = applyTime(date, time);
+      if (candidate.isAfter(now)) return candidate;
+    }
   }
-  return candidate;
+  return null;
 };
 
 // --- Serialize / parse ---
@@ -192,10 +282,121 @@ const extractNumber = (text: string): number | null => {
  *   "каждый год", "ежегодно", "раз в 2 года"
  *   "пн, ср, пт", "по понедельникам и средам"
  *   "каждый понедельник", "каждую среду и пятницу"
+ *   "каждый 2-й вторник месяца", "последняя пятница месяца"
+ *   "последний день месяца", "15 числа каждого месяца"
+ * Any of them may add times ("в 9:00 и 18:00"), an end date ("до 2027-01-01",
+ * "до 01.01.2027") and a number of occurrences ("10 раз"). RFC 5545 RRULE strings are
+ * accepted as well, see `parseRRule`.
  */
-export const parseNaturalSchedule = (input: string): ScheduleRule | null => {
+export const parseNaturalSchedule = (
+  input: string,
+  timezoneName: string = serverTimezone(),
+): ScheduleRule | null => {
   const text = input.toLowerCase().trim();
   if (!text) return null;
+  if (/^(rrule:|dtstart|freq=)/.test(text)) return parseRRule(input, timezoneName);
+
+  const { rest, options } = extractScheduleOptions(text);
+  const rule = parseBaseSchedule(rest.replace(/\s+/g, ' ').trim());
+  return rule ? { ...rule, ...options } : null;
+};
+
+const TIME_LIST_PATTERN =
+  /(?:^|\s)в\s+(\d{1,2}(?::\d{2})?(?:\s*(?:,|и)\s*\d{1,2}(?::\d{2})?)*)(?!\s*(?:дн|ден|день|недел|месяц|год|лет|раз|числ))(?=\s|$|[,.])/;
+const UNTIL_PATTERN = /(?:^|\s)до\s+(?:(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})\.(\d{1,2})\.(\d{4}))(?=\s|$|[,.])/;
+const COUNT_PATTERN = /(?:^|\s)(?:всего\s+)?(\d+)\s+раза?(?!\s+в(?:\s|$))(?=\s|$|[,.])/;
+
+/** Times, end date and count are cut out of the text before the recurrence itself is parsed. */
+const extractScheduleOptions = (text: string): { rest: string; options: ScheduleRuleOptions } => {
+  let rest = text;
+  const options: ScheduleRuleOptions = {};
+
+  const timeMatch = rest.match(TIME_LIST_PATTERN);
+  if (timeMatch) {
+    const times = (timeMatch[1] ?? '').split(/\s*(?:,|и)\s*/).map(parseTimeOfDay);
+    if (times.length && times.every((time): time is number => time !== null)) {
+      const unique = [...new Set(times)].sort((a, b) => a - b);
+      if (unique.length > 1) options.timesMinutes = unique;
+      else options.timeMinutes = unique[0] as number;
+      rest = rest.replace(timeMatch[0], ' ');
+    }
+  }
+
+  const untilMatch = rest.match(UNTIL_PATTERN);
+  if (untilMatch) {
+    const [year, month, day] = untilMatch[1]
+      ? [untilMatch[1], untilMatch[2], untilMatch[3]]
+      : [untilMatch[6], untilMatch[5], untilMatch[4]];
+    const until = toIsoDate(Number(year), Number(month), Number(day));
+    if (until) {
+      options.until = until;
+      rest = rest.replace(untilMatch[0], ' ');
+    }
+  }
+
+  const countMatch = rest.match(COUNT_PATTERN);
+  if (countMatch) {
+    const count = Number(countMatch[1]);
+    if (count >= 1 && count <= MAX_SCHEDULE_COUNT) {
+      options.count = count;
+      rest = rest.replace(countMatch[0], ' ');
+    }
+  }
+
+  return { rest, options };
+};
+
+const parseTimeOfDay = (value: string): number | null => {
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  return hours <= 23 && minutes <= 59 ? hours * 60 + minutes : null;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const iso = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return dayjs(iso).isValid() && dayjs(iso).format('YYYY-MM-DD') === iso ? iso : null;
+};
+
+const ORDINALS: Record<string, number> = {
+  'первый': 1, 'первую': 1, 'первое': 1, 'первая': 1,
+  'второй': 2, 'вторую': 2, 'второе': 2, 'вторая': 2,
+  'третий': 3, 'третью': 3, 'третье': 3, 'третья': 3,
+  'четвертый': 4, 'четвертую': 4, 'четвертое': 4, 'четвертая': 4,
+  'пятый': 5, 'пятую': 5, 'пятое': 5, 'пятая': 5,
+  'последний': -1, 'последнюю': -1, 'последнее': -1, 'последняя': -1,
+};
+
+const parseOrdinal = (word: string): number | null => {
+  const digit = word.match(/^([1-5])(?:-?[а-яё]{1,2})?$/);
+  if (digit) return Number(digit[1]);
+  return ORDINALS[word.replace(/ё/g, 'е')] ?? null;
+};
+
+const parseMonthlySchedule = (text: string): ScheduleRule | null => {
+  if (/(?:^|\s)последн[а-яё]*\s+(?:день|число)(?:\s+(?:каждого\s+)?месяца)?(?:\s|$)/.test(text)) {
+    return { type: 'monthly_day', day: -1 };
+  }
+  const dayMatch = text.match(/(?:^|\s)(\d{1,2})(?:-?(?:го|е))?\s+числ[а-яё]*(?:\s|$)/);
+  if (dayMatch) {
+    const day = Number(dayMatch[1]);
+    if (day >= 1 && day <= 31) return { type: 'monthly_day', day };
+  }
+  for (const match of text.matchAll(/(?:^|\s)([а-яё]+|\d(?:-?[а-яё]{1,2})?)\s+([а-яё]+)\s+(?:каждого\s+)?месяца/g)) {
+    const week = parseOrdinal(match[1] ?? '');
+    const weekday = WEEKDAY_NAMES[match[2] ?? ''];
+    if (week !== null && weekday) return { type: 'monthly_weekday', week, weekday };
+  }
+  return null;
+};
+
+const parseBaseSchedule = (text: string): ScheduleRule | null => {
+  if (!text) return null;
+
+  // --- Monthly by day or by weekday (before "каждый месяц") ---
+  const monthly = parseMonthlySchedule(text);
+  if (monthly) return monthly;
 
   // --- Fixed phrases ---
   if (/(^|\s)(каждый день|ежедневно)(\s|$)/.test(text)) {
@@ -297,6 +498,132 @@ const extractWeekdays = (text: string): number[] => {
   return [...days].sort((a, b) => a - b);
 };
 
+// --- RFC 5545 RRULE ---
+
+const RRULE_WEEKDAYS: Record<string, number> = { MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6, SU: 7 };
+
+/**
+ * `20270101`, `20270101T090000` (local time) or `20270101T090000Z` (UTC), returned as the
+ * wall clock of `timezoneName`.
+ */
+const parseICalDateTime = (value: string, timezoneName: string): dayjs.Dayjs | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) return null;
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00', utc = ''] = match;
+  const date = dayjs.utc(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}`);
+  if (!date.isValid()) return null;
+  return utc ? toWallClock(date, timezoneName) : date;
+};
+
+const parseRRuleWeekdays = (values: string[]): number[] | null => {
+  const days = values.map((value) => RRULE_WEEKDAYS[value]);
+  return days.every((day): day is number => day !== undefined) ? [...new Set(days)].sort((a, b) => a - b) : null;
+};
+
+const parseRRuleBase = (parts: Map<string, string>): ScheduleRule | null => {
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  const list = (name: string) => parts.get(name)?.split(',').filter(Boolean) ?? [];
+  const byDay = list('BYDAY');
+  const byMonthDay = list('BYMONTHDAY').map(Number);
+  const byMonth = list('BYMONTH').map(Number);
+  const setPos = parts.has('BYSETPOS') ? Number(parts.get('BYSETPOS')) : null;
+
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+    case 'WEEKLY': {
+      if (byMonthDay.length || byMonth.length) return null;
+      if (!byDay.length) {
+        return { type: 'days', interval: parts.get('FREQ') === 'WEEKLY' ? interval * 7 : interval };
+      }
+      const days = interval === 1 ? parseRRuleWeekdays(byDay) : null;
+      return days ? { type: 'weekdays', days } : null;
+    }
+    case 'MONTHLY': {
+      if (byMonth.length) return null;
+      if (!byDay.length && !byMonthDay.length) return { type: 'months', interval };
+      if (interval !== 1) return null;
+      if (byMonthDay.length === 1 && !byDay.length) {
+        const day = byMonthDay[0] as number;
+        return day === -1 || (Number.isInteger(day) && day >= 1 && day <= 31) ? { type: 'monthly_day', day } : null;
+      }
+      const match = byDay.length === 1 && !byMonthDay.length ? byDay[0]?.match(/^([+-]?[1-5])?(MO|TU|WE|TH|FR|SA|SU)$/) : null;
+      const week = match?.[1] ? Number(match[1]) : setPos;
+      if (!match || (week !== -1 && (week === null || week < 1 || week > 5))) return null;
+      return { type: 'monthly_weekday', week, weekday: RRULE_WEEKDAYS[match[2] as string] as number };
+    }
+    case 'YEARLY': {
+      if (byDay.length) return null;
+      if (!byMonth.length && !byMonthDay.length) return { type: 'years', interval };
+      const [month, day] = [byMonth[0], byMonthDay[0]];
+      if (interval !== 1 || byMonth.length !== 1 || byMonthDay.length !== 1 || !month || !day) return null;
+      return month >= 1 && month <= 12 && day >= 1 && day <= 31 ? { type: 'annual_date', month, day } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * RFC 5545 recurrence as an interchange format: an `RRULE:` line, optionally after a `DTSTART`
+ * line, with FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS, BYHOUR, BYMINUTE, UNTIL and
+ * COUNT. Without BYHOUR the time comes from DTSTART; floating times are local to `timezoneName`
+ * and UTC ones (`Z`) are converted to it. Rules a ScheduleRule cannot express, such as several
+ * weekdays every other week, return null.
+ */
+export const parseRRule = (
+  input: string,
+  timezoneName: string = serverTimezone(),
+): ScheduleRule | null => {
+  let startValue = '';
+  let ruleLine: string | null = null;
+  for (const line of input.trim().toUpperCase().split(/\s*[\r\n]+\s*/)) {
+    if (line.startsWith('DTSTART')) startValue = line.slice(line.indexOf(':') + 1);
+    else if (line.startsWith('RRULE:')) ruleLine = line.slice('RRULE:'.length);
+    else if (line.startsWith('FREQ=')) ruleLine = line;
+  }
+  if (!ruleLine) return null;
+  const parts = new Map(
+    ruleLine
+      .split(';')
+      .filter(Boolean)
+      .map((part): [string, string] => {
+        const [name = '', value = ''] = part.split('=');
+        return [name, value];
+      }),
+  );
+  const base = parseRRuleBase(parts);
+  const start = startValue ? parseICalDateTime(startValue, timezoneName) : null;
+  if (!base || (startValue && !start)) return null;
+
+  const options: ScheduleRuleOptions = {};
+  const hours = parts.get('BYHOUR')?.split(',').map(Number) ?? [];
+  const minutes = parts.get('BYMINUTE')?.split(',').map(Number) ?? [0];
+  if (hours.length) {
+    const isValid = (values: number[], max: number) =>
+      values.every((value) => Number.isInteger(value) && value >= 0 && value <= max);
+    if (!isValid(hours, 23) || !isValid(minutes, 59)) return null;
+    const times = [...new Set(hours.flatMap((hour) => minutes.map((minute) => hour * 60 + minute)))];
+    if (times.length > 1) options.timesMinutes = times.sort((a, b) => a - b);
+    else options.timeMinutes = times[0] as number;
+  } else if (start) {
+    // A date-only DTSTART has no time of day; reminders then come at 9:00 like yearly dates.
+    options.timeMinutes = startValue.includes('T') ? start.hour() * 60 + start.minute() : 9 * 60;
+  }
+  if (start) options.startsAt = fromWallClock(start, timezoneName).toISOString();
+  if (parts.has('UNTIL')) {
+    const until = parseICalDateTime(parts.get('UNTIL') ?? '', timezoneName);
+    if (!until) return null;
+    options.until = until.format('YYYY-MM-DD');
+  }
+  if (parts.has('COUNT')) {
+    const count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1 || count > MAX_SCHEDULE_COUNT) return null;
+    options.count = count;
+  }
+  return { ...base, ...options };
+};
+
 // --- Human-readable label ---
 
 export const formatTimeMinutes = (timeMinutes: number | undefined): string | null => {
@@ -305,32 +632,72 @@ export const formatTimeMinutes = (timeMinutes: number | undefined): string | nul
   return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
 };
 
-const withTimeLabel = (label: string, timeMinutes: number | undefined): string => {
-  const time = formatTimeMinutes(timeMinutes);
-  return time ? `${label} в ${time}` : label;
+const withTimeLabel = (label: string, times: number[] | undefined): string => {
+  const formatted = (times ?? []).map((time) => formatTimeMinutes(time)).filter(Boolean);
+  return formatted.length ? `${label} в ${formatted.join(' и ')}` : label;
 };
 
-export const scheduleRuleLabel = (rule: ScheduleRule): string => {
+const WEEKDAY_NAMES_NOMINATIVE: Record<number, string> = {
+  1: 'понедельник',
+  2: 'вторник',
+  3: 'среда',
+  4: 'четверг',
+  5: 'пятница',
+  6: 'суббота',
+  7: 'воскресенье',
+};
+
+const monthlyWeekdayLabel = (week: number, weekday: number): string => {
+  // Grammatical gender of the weekday: masculine, feminine (ср, пт, сб) or neuter (вс).
+  const gender = weekday === 7 ? 'n' : [3, 5, 6].includes(weekday) ? 'f' : 'm';
+  const ordinal =
+    week === -1
+      ? { m: 'последний', f: 'последняя', n: 'последнее' }[gender]
+      : `${week}-${{ m: 'й', f: 'я', n: 'е' }[gender]}`;
+  return `Каждый месяц: ${ordinal} ${WEEKDAY_NAMES_NOMINATIVE[weekday] ?? '?'}`;
+};
+
+const countLabel = (count: number): string => {
+  const lastTwo = count % 100;
+  const last = count % 10;
+  const word = last >= 2 && last <= 4 && (lastTwo < 12 || lastTwo > 14) ? 'раза' : 'раз';
+  return `${count} ${word}`;
+};
+
+const withEndLabel = (label: string, rule: ScheduleRuleOptions): string => {
+  const parts = [label];
+  if (rule.until) parts.push(`до ${dayjs(rule.until).format('DD.MM.YYYY')}`);
+  if (rule.count) parts.push(countLabel(rule.count));
+  return parts.join(', ');
+};
+
+const baseScheduleLabel = (rule: ScheduleRule): string => {
   switch (rule.type) {
     case 'days': {
       const preset = SCHEDULE_PRESETS.find(
         (p) => p.rule.type === 'days' && p.rule.interval === rule.interval,
       );
-      if (preset) return withTimeLabel(preset.label, rule.timeMinutes);
-      return withTimeLabel(`Каждые ${rule.interval} дн.`, rule.timeMinutes);
+      if (preset) return preset.label;
+      return `Каждые ${rule.interval} дн.`;
     }
     case 'months':
-      if (rule.interval === 1) return withTimeLabel('Каждый месяц', rule.timeMinutes);
-      return withTimeLabel(`Каждые ${rule.interval} мес.`, rule.timeMinutes);
+      if (rule.interval === 1) return 'Каждый месяц';
+      return `Каждые ${rule.interval} мес.`;
     case 'years':
-      if (rule.interval === 1) return withTimeLabel('Каждый год', rule.timeMinutes);
-      return withTimeLabel(`Каждые ${rule.interval} г.`, rule.timeMinutes);
+      if (rule.interval === 1) return 'Каждый год';
+      return `Каждые ${rule.interval} г.`;
     case 'weekdays':
-      return withTimeLabel(formatWeekdays(rule.days), rule.timeMinutes);
+      return formatWeekdays(rule.days);
     case 'annual_date':
-      return withTimeLabel(
-        `Каждый год ${String(rule.day).padStart(2, '0')}.${String(rule.month).padStart(2, '0')}`,
-        rule.timeMinutes ?? 9 * 60,
-      );
+      return `Каждый год ${String(rule.day).padStart(2, '0')}.${String(rule.month).padStart(2, '0')}`;
+    case 'monthly_weekday':
+      return monthlyWeekdayLabel(rule.week, rule.weekday);
+    case 'monthly_day':
+      return rule.day === -1 ? 'Последний день месяца' : `Каждый месяц ${rule.day}-го числа`;
   }
 };
+
+export const scheduleRuleLabel = (rule: ScheduleRule): string => {
+  const times = rule.type === 'annual_date' ? ruleTimes(rule) ?? [9 * 60] : ruleTimes(rule);
+  return withEndLabel(withTimeLabel(baseScheduleLabel(rule), times), rule);
+};
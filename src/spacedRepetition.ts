@@ -1,9 +1,15 @@
 import dayjs from 'dayjs';
 import { config } from './config';
 import { CardRecord, ReminderMode } from './db';
-import { computeNextFromSchedule, parseScheduleRule } from './schedule';
+import { computeFsrsState, FsrsMemoryState, FsrsRating, fsrsIntervalDays } from './fsrs';
+import {
+  computeNextFromSchedule,
+  parseScheduleRule,
+  remainingScheduleOccurrences,
+  serializeScheduleRule,
+} from './schedule';
 
-export type GradeKey = 'again' | 'ok';
+export type GradeKey = 'again' | 'hard' | 'good' | 'easy';
 
 export const gradeOptions: Array<{
   key: GradeKey;
@@ -11,14 +17,34 @@ export const gradeOptions: Array<{
   emoji: string;
 }> = [
   { key: 'again', label: 'Снова', emoji: '🔁' },
-  { key: 'ok', label: 'Окей', emoji: '✅' },
+  { key: 'hard', label: 'Сложно', emoji: '😓' },
+  { key: 'good', label: 'Хорошо', emoji: '✅' },
+  { key: 'easy', label: 'Легко', emoji: '🚀' },
 ];
 
+// Buttons sent before four-level grading carry `ok`; treat it as `good`.
+export const parseGradeKey = (value: string | undefined): GradeKey | null => {
+  if (value === 'ok') return 'good';
+  return gradeOptions.some((option) => option.key === value) ? (value as GradeKey) : null;
+};
+
 export interface ReviewComputationResult {
   repetition: number;
   nextReviewAt: string;
+  fsrs?: FsrsMemoryState;
+  /** The schedule has no occurrences left (`until` or `count`); the card goes to the archive. */
+  scheduleEnded?: boolean;
+  /** The stored rule with one occurrence less, for rules with `count`. */
+  scheduleRule?: string;
 }
 
+const fsrsRatingByGrade: Record<GradeKey, FsrsRating> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
 export const reviewIntervalLadder = [1, 3, 7, 14, 30];
 export const reviewPresetIntervals = [3, 7, 14, 30];
 
@@ -35,7 +61,7 @@ const intervalFromRepetition = (repetition: number): number => {
   return reviewIntervalLadder[index] ?? 1;
 };
 
-const repetitionFromInterval = (interval: number): number => {
+export const repetitionFromInterval = (interval: number): number => {
   const index = reviewIntervalLadder.findIndex((value) => value >= interval);
   if (index === -1) {
     return reviewIntervalLadder.length;
@@ -43,7 +69,12 @@ const repetitionFromInterval = (interval: number): number => {
   return index + 1;
 };
 
-export const computeReview = (card: CardRecord, grade: GradeKey): ReviewComputationResult => {
+/** `timezoneName` is the scope's timezone; schedule rules are local to it. */
+export const computeReview = (
+  card: CardRecord,
+  grade: GradeKey,
+  timezoneName?: string,
+): ReviewComputationResult => {
   const now = dayjs();
 
   // Schedule mode: use the stored rule to compute next date
@@ -54,9 +85,16 @@ export const computeReview = (card: CardRecord, grade: GradeKey): ReviewComputat
         card.nextReviewAt && dayjs(card.nextReviewAt).isAfter(now)
           ? dayjs(card.nextReviewAt)
           : now;
+      const remaining = remainingScheduleOccurrences(rule);
+      const nextReviewAt =
+        remaining !== undefined && remaining <= 0 ? null : computeNextFromSchedule(rule, basis, timezoneName);
       return {
         repetition: (card.repetition ?? 0) + 1,
-        nextReviewAt: computeNextFromSchedule(rule, basis),
+        nextReviewAt: nextReviewAt ?? now.toISOString(),
+        ...(nextReviewAt ? {} : { scheduleEnded: true }),
+        ...(nextReviewAt && remaining !== undefined
+          ? { scheduleRule: serializeScheduleRule({ ...rule, remaining: remaining - 1 }) }
+          : {}),
       };
     }
     // Fallback: if no rule, treat as daily
@@ -66,6 +104,26 @@ export const computeReview = (card: CardRecord, grade: GradeKey): ReviewComputat
     };
   }
 
+  // FSRS mode: interval follows the card's own stability and difficulty
+  if (card.reminderMode === 'fsrs') {
+    const previous =
+      card.fsrsStability !== null && card.fsrsDifficulty !== null
+        ? { stability: card.fsrsStability, difficulty: card.fsrsDifficulty }
+        : null;
+    const elapsedDays = card.lastReviewedAt
+      ? Math.max(0, now.diff(dayjs(card.lastReviewedAt), 'day', true))
+      : 0;
+    const fsrs = computeFsrsState(previous, elapsedDays, fsrsRatingByGrade[grade]);
+    const interval = clampInterval(
+      fsrsIntervalDays(fsrs.stability, config.fsrs.desiredRetention),
+    );
+    return {
+      repetition: grade === 'again' ? 0 : (card.repetition ?? 0) + 1,
+      nextReviewAt: now.add(interval, 'day').toISOString(),
+      fsrs,
+    };
+  }
+
   // SM-2 mode: grade-based logic
   let repetition = card.repetition ?? 0;
   let interval = 0;
@@ -73,8 +131,12 @@ export const computeReview = (card: CardRecord, grade: GradeKey): ReviewComputat
   if (grade === 'again') {
     repetition = 0;
     interval = 1;
+  } else if (grade === 'hard') {
+    // Stay on the current ladder step instead of moving up.
+    repetition = Math.max(repetition, 1);
+    interval = intervalFromRepetition(repetition);
   } else {
-    repetition += 1;
+    repetition += grade === 'easy' ? 2 : 1;
     interval = intervalFromRepetition(repetition);
   }
 
@@ -111,11 +173,13 @@ export const computeInitialReviewDateForMode = (
   reminderMode: ReminderMode,
   scheduleRule: string | null,
   minutes: number,
+  timezoneName?: string,
 ): string => {
   if (reminderMode === 'schedule') {
     const rule = parseScheduleRule(scheduleRule);
-    if (rule) {
-      return computeNextFromSchedule(rule);
+    const nextReviewAt = rule ? computeNextFromSchedule(rule, dayjs(), timezoneName) : null;
+    if (nextReviewAt) {
+      return nextReviewAt;
     }
   }
   return computeInitialReviewDate(minutes);
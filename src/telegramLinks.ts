@@ -5,3 +5,5 @@ export const buildMiniAppDeepLink = (botUsername: string, startParam?: string) =
 };
 
 export const buildMiniAppCardParam = (cardId: string) => `card_${cardId}`;
+
+export const buildMiniAppViewParam = (view: 'queue' | 'cards' | 'stats' | 'leeches') => `view_${view}`;
@@ -0,0 +1,97 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+
+export type StandInCall = {
+  method: string;
+  payload: Record<string, unknown>;
+};
+
+export type TelegramStandIn = {
+  calls: StandInCall[];
+  apiRoot: string;
+  close: () => Promise<void>;
+};
+
+const MESSAGE_METHODS = new Set([
+  'sendMessage',
+  'sendPhoto',
+  'sendVideo',
+  'sendDocument',
+  'sendAudio',
+  'sendVoice',
+  'sendAnimation',
+  'sendSticker',
+  'sendPoll',
+  'editMessageText',
+  'editMessageCaption',
+  'editMessageReplyMarkup',
+]);
+
+/**
+ * Local stand-in for the Telegram Bot API. Point the bot at it with `TELEGRAM_API_ROOT` to run
+ * webhook updates offline: every call is recorded, and send/edit methods answer with a synthetic
+ * message so handlers keep going.
+ */
+export const startTelegramStandIn = async (options: {
+  port?: number;
+  botUsername?: string;
+  onCall?: (call: StandInCall) => void;
+} = {}): Promise<TelegramStandIn> => {
+  const app = express();
+  const calls: StandInCall[] = [];
+  let nextMessageId = 1000;
+
+  const buildResult = (method: string, payload: Record<string, unknown>): unknown => {
+    if (method === 'getMe') {
+      return {
+        id: 1,
+        is_bot: true,
+        first_name: 'Stand-in bot',
+        username: options.botUsername ?? 'stand_in_bot',
+      };
+    }
+    if (method === 'copyMessage') {
+      nextMessageId += 1;
+      return { message_id: nextMessageId };
+    }
+    if (MESSAGE_METHODS.has(method)) {
+      nextMessageId += 1;
+      return {
+        message_id: typeof payload.message_id === 'number' ? payload.message_id : nextMessageId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: payload.chat_id ?? 0, type: 'private' },
+        ...(typeof payload.text === 'string' ? { text: payload.text } : {}),
+      };
+    }
+    if (method === 'getFile') {
+      return { file_id: payload.file_id, file_unique_id: `${payload.file_id}`, file_path: 'stand-in/file' };
+    }
+    return true;
+  };
+
+  app.use(express.json({ limit: '10mb' }));
+  app.post('/:token/:method', (req, res) => {
+    const method = req.params.method;
+    const payload = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const call = { method, payload };
+    calls.push(call);
+    options.onCall?.(call);
+    res.json({ ok: true, result: buildResult(method, payload) });
+  });
+
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(options.port ?? 0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    calls,
+    apiRoot: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+};
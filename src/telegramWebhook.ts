@@ -0,0 +1,103 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { RequestHandler } from 'express';
+import type { Telegraf } from 'telegraf';
+import type { Update } from 'telegraf/typings/core/types/typegram';
+import { logger } from './logger';
+
+export const TELEGRAM_SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+
+// Telegram only accepts 1-256 characters from this set as `secret_token`.
+const WEBHOOK_SECRET_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+
+export const isValidWebhookSecret = (secret: string | null | undefined): secret is string =>
+  typeof secret === 'string' && WEBHOOK_SECRET_PATTERN.test(secret);
+
+const hashSecret = (value: string) => createHash('sha256').update(value).digest();
+
+export const verifyWebhookSecret = (header: unknown, secret: string): boolean => {
+  if (typeof header !== 'string' || !header) return false;
+  return timingSafeEqual(hashSecret(header), hashSecret(secret));
+};
+
+export const isTelegramUpdate = (body: unknown): body is Update =>
+  Boolean(body) &&
+  typeof body === 'object' &&
+  Number.isInteger((body as { update_id?: unknown }).update_id);
+
+export const buildWebhookUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+/**
+ * Express handler for Telegram webhook updates. Needs `express.json()` in front of it.
+ * Update errors are logged and still answered with 200: Telegram redelivers non-2xx
+ * responses, and one broken update would otherwise block every update behind it.
+ */
+export const createTelegramWebhookHandler = (
+  bot: Pick<Telegraf<any>, 'handleUpdate'>,
+  secret: string,
+): RequestHandler => async (req, res) => {
+  if (!verifyWebhookSecret(req.get(TELEGRAM_SECRET_HEADER), secret)) {
+    logger.warn('Webhook: отклонён запрос с неверным secret token');
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+  if (!isTelegramUpdate(req.body)) {
+    res.status(400).json({ error: 'Invalid update' });
+    return;
+  }
+  const update = req.body;
+  try {
+    await bot.handleUpdate(update);
+  } catch (error) {
+    logger.error(`Webhook: ошибка обработки update ${update.update_id}`, error);
+  }
+  res.sendStatus(200);
+};
+
+/** Reads updates for the replayer: a JSON array, a single update or one update per line (JSONL). */
+export const parseUpdatesFile = (text: string): Update[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const parsed: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => JSON.parse(line));
+  return parsed.map((item, index) => {
+    if (!isTelegramUpdate(item)) {
+      throw new Error(`Запись ${index + 1} не похожа на Telegram update: нет update_id`);
+    }
+    return item;
+  });
+};
+
+export type ReplayedUpdate = {
+  updateId: number;
+  status: number;
+};
+
+/** Posts updates to a webhook one by one, the way Telegram delivers them. */
+export const replayTelegramUpdates = async (params: {
+  url: string;
+  secret: string;
+  updates: Update[];
+  fetchImpl?: typeof fetch;
+}): Promise<ReplayedUpdate[]> => {
+  const fetchImpl = params.fetchImpl ?? fetch;
+  const results: ReplayedUpdate[] = [];
+  for (const update of params.updates) {
+    const response = await fetchImpl(params.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [TELEGRAM_SECRET_HEADER]: params.secret,
+      },
+      body: JSON.stringify(update),
+    });
+    await response.arrayBuffer();
+    results.push({ updateId: update.update_id, status: response.status });
+  }
+  return results;
+};
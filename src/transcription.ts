@@ -0,0 +1,120 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+export type SpeechTranscriptionRequest = {
+  audio: Buffer;
+  fileName: string | null;
+  mimeType: string | null;
+};
+
+export type SpeechTranscriptionResult = {
+  text: string;
+  provider: string;
+};
+
+export interface SpeechTranscriber {
+  provider: string;
+  transcribe(input: SpeechTranscriptionRequest): Promise<SpeechTranscriptionResult | null>;
+}
+
+export const normalizeTranscript = (value: string): string | null => {
+  const text = value
+    .replace(/\[(?:BLANK_AUDIO|MUSIC|Музыка)\]/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.!…]+$/, '');
+  return text || null;
+};
+
+/**
+ * Offline stand-in used when no speech engine is configured: it never touches the audio and
+ * returns the configured text, or nothing so voice notes are saved without a transcript.
+ */
+export class StubSpeechTranscriber implements SpeechTranscriber {
+  provider = 'stub';
+
+  constructor(private readonly text: string | null = null) {}
+
+  async transcribe(_input: SpeechTranscriptionRequest): Promise<SpeechTranscriptionResult | null> {
+    const text = this.text ? normalizeTranscript(this.text) : null;
+    return text ? { text, provider: this.provider } : null;
+  }
+}
+
+/**
+ * Runs a local whisper.cpp build. Telegram voice notes are OGG/Opus, so audio is converted to
+ * 16 kHz mono WAV with ffmpeg first; whisper.cpp then writes the transcript to `<output>.txt`.
+ */
+export class WhisperCppSpeechTranscriber implements SpeechTranscriber {
+  provider = 'whisper_cpp';
+
+  constructor(
+    private readonly options: {
+      binaryPath: string;
+      modelPath: string;
+      ffmpegPath: string;
+      language: string;
+      timeoutMs: number;
+    },
+  ) {}
+
+  async transcribe(input: SpeechTranscriptionRequest): Promise<SpeechTranscriptionResult | null> {
+    // One budget for both steps: the caller runs inside a Telegram update handler with its own timeout.
+    const deadline = Date.now() + this.options.timeoutMs;
+    const remaining = () => Math.max(1, deadline - Date.now());
+    const workDir = await mkdtemp(path.join(tmpdir(), 'voice-'));
+    try {
+      const sourcePath = path.join(workDir, 'input');
+      const wavPath = path.join(workDir, 'audio.wav');
+      const outputBase = path.join(workDir, 'transcript');
+      await writeFile(sourcePath, input.audio);
+      await execFileAsync(
+        this.options.ffmpegPath,
+        ['-nostdin', '-loglevel', 'error', '-y', '-i', sourcePath, '-ar', '16000', '-ac', '1', wavPath],
+        { timeout: remaining() },
+      );
+      await execFileAsync(
+        this.options.binaryPath,
+        [
+          '-m', this.options.modelPath,
+          '-f', wavPath,
+          '-l', this.options.language,
+          '-nt',
+          '-otxt',
+          '-of', outputBase,
+        ],
+        { timeout: remaining() },
+      );
+      const text = normalizeTranscript(await readFile(`${outputBase}.txt`, 'utf8'));
+      return text ? { text, provider: this.provider } : null;
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+export const createSpeechTranscriber = (options: {
+  provider: string;
+  whisperCppBinary: string;
+  whisperCppModel: string | null;
+  ffmpegBinary: string;
+  language: string;
+  timeoutMs: number;
+  stubText: string | null;
+}): SpeechTranscriber => {
+  if (options.provider === 'whisper_cpp' && options.whisperCppModel) {
+    return new WhisperCppSpeechTranscriber({
+      binaryPath: options.whisperCppBinary,
+      modelPath: options.whisperCppModel,
+      ffmpegPath: options.ffmpegBinary,
+      language: options.language,
+      timeoutMs: options.timeoutMs,
+    });
+  }
+  return new StubSpeechTranscriber(options.stubText);
+};
@@ -0,0 +1,27 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Schedules and reminder presets speak in local wall-clock time ("every day at 9:00",
+ * "tomorrow at 10"). The wall clock of a timezone is carried as a UTC dayjs: adding days or
+ * setting the hour on it is plain calendar arithmetic that never crosses a DST shift, and
+ * `fromWallClock` turns the result back into an instant of that timezone.
+ */
+const WALL_CLOCK_FORMAT = 'YYYY-MM-DDTHH:mm:ss.SSS';
+
+/** Timezone of the server, used when the caller does not know the scope's timezone. */
+export const serverTimezone = (): string => dayjs.tz.guess();
+
+export const toWallClock = (at: dayjs.ConfigType, timezoneName: string): dayjs.Dayjs =>
+  dayjs.utc(dayjs(at).tz(timezoneName).format(WALL_CLOCK_FORMAT));
+
+/**
+ * The instant a wall-clock time has in `timezoneName`. A time skipped by a spring-forward
+ * jump moves forward by the jump; a repeated autumn hour resolves to its first occurrence.
+ */
+export const fromWallClock = (wallClock: dayjs.Dayjs, timezoneName: string): dayjs.Dayjs =>
+  dayjs.tz(wallClock.format(WALL_CLOCK_FORMAT), timezoneName);
@@ -0,0 +1,118 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import type { ReviewStreak } from './learningStats';
+import type { DeliverySettings } from './reminderPlanner';
+import { fromWallClock, toWallClock } from './utils/wallClock';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/** Weekday of the report, `dayjs().day()` numbering (0 = Sunday) like `weekdayHours`. */
+export const DEFAULT_WEEKLY_REPORT_WEEKDAY = 0;
+export const WEEKLY_REPORT_DAYS = 7;
+
+export interface WeeklyCourseProgress {
+  courseId: string;
+  title: string;
+  /** Steps released into the queue during the week. */
+  released: number;
+  /** Steps marked as viewed during the week. */
+  viewed: number;
+  totalSteps: number;
+  completed: boolean;
+}
+
+export interface WeeklyReport {
+  since: string;
+  until: string;
+  timezone: string;
+  cardsAdded: number;
+  reviews: number;
+  againCount: number;
+  streak: ReviewStreak;
+  courses: WeeklyCourseProgress[];
+  /** Reviews due per local day over the next week, overdue ones on the first day. */
+  upcoming: Array<{ date: string; due: number }>;
+}
+
+const WEEKDAY_PHRASES = ['в воскресенье', 'в понедельник', 'во вторник', 'в среду', 'в четверг', 'в пятницу', 'в субботу'];
+
+export const formatWeeklyReportDay = (weekday: number | null): string =>
+  weekday === null
+    ? 'Отчёт за неделю отключён.'
+    : `Отчёт за неделю приходит ${WEEKDAY_PHRASES[weekday] ?? '?'}.`;
+
+/**
+ * The report goes out at the start of the active hours of its weekday (the daily window when
+ * the weekday profile has the day off), at the first such moment strictly after `now`.
+ */
+export const nextWeeklyReportAt = (
+  weekday: number,
+  settings: DeliverySettings,
+  now = new Date().toISOString(),
+): string => {
+  const start = toWallClock(now, settings.timezone);
+  const sendAtMinutes = settings.weekdayHours?.[weekday]?.start ?? settings.activeHoursStart;
+  let next = start
+    .startOf('day')
+    .add((weekday - start.day() + 7) % 7, 'day')
+    .hour(Math.floor(sendAtMinutes / 60))
+    .minute(sendAtMinutes % 60);
+  if (!next.isAfter(start)) next = next.add(WEEKLY_REPORT_DAYS, 'day');
+  return fromWallClock(next, settings.timezone).toISOString();
+};
+
+const formatRange = (report: WeeklyReport) => {
+  const formatter = new Intl.DateTimeFormat('ru', { day: 'numeric', month: 'long', timeZone: report.timezone });
+  const lastMinute = dayjs(report.until).subtract(1, 'minute').toDate();
+  return `${formatter.format(new Date(report.since))} — ${formatter.format(lastMinute)}`;
+};
+
+const formatCourse = (course: WeeklyCourseProgress) => {
+  const parts = [
+    course.viewed ? `пройдено шагов: ${course.viewed}` : null,
+    course.released ? `новых шагов: ${course.released}` : null,
+    course.completed ? 'курс завершён' : null,
+  ].filter(Boolean);
+  return `• ${course.title} — ${parts.join(', ') || 'без изменений'} (всего шагов: ${course.totalSteps})`;
+};
+
+export const buildWeeklyReportText = (report: WeeklyReport): string => {
+  const lines = [`📊 Итоги недели: ${formatRange(report)}`, ''];
+  lines.push(`Новых карточек: ${report.cardsAdded}`);
+  lines.push(
+    report.reviews
+      ? `Повторений: ${report.reviews}, «Снова» — ${Math.round((report.againCount / report.reviews) * 100)}%`
+      : 'Повторений на этой неделе не было.',
+  );
+  lines.push(
+    report.streak.current
+      ? `Дней подряд с повторениями: ${report.streak.current} (рекорд — ${report.streak.longest})`
+      : `Серии сейчас нет, рекорд — дней подряд: ${report.streak.longest}`,
+  );
+  if (report.courses.length) {
+    lines.push('', 'Курсы:', ...report.courses.map(formatCourse));
+  }
+  const upcomingTotal = report.upcoming.reduce((total, day) => total + day.due, 0);
+  const busiest = report.upcoming.reduce<{ date: string; due: number } | null>(
+    (best, day) => (day.due > (best?.due ?? 0) ? day : best),
+    null,
+  );
+  const dayFormatter = new Intl.DateTimeFormat('ru', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: report.timezone,
+  });
+  lines.push('');
+  lines.push(
+    busiest
+      ? `Повторений на следующей неделе: ${upcomingTotal}, больше всего — ${dayFormatter.format(
+          dayjs.tz(busiest.date, report.timezone).toDate(),
+        )} (${busiest.due}).`
+      : 'На следующей неделе повторений не запланировано.',
+  );
+  lines.push('', 'День отчёта или отключение — в настройках напоминаний Mini App.');
+  return lines.join('\n');
+};
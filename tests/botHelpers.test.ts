@@ -35,6 +35,14 @@ test('parseMessage: text сохраняет нормализованный previ
   });
 });
 
+test('parseMessage: text с разделителем --- сохраняет вопрос и ответ', () => {
+  const parsed = parseMessage(withType({ text: 'hola\n---\nпривет' }));
+  assert.deepEqual(parsed?.payload, {
+    faces: { kind: 'front_back', front: 'hola', back: 'привет' },
+  });
+  assert.equal(parsed?.preview, 'hola\n---\nпривет');
+});
+
 test('parseMessage: пустой text и пустой caption превращаются в null/фиксы', () => {
   const emptyText = parseMessage(withType({ text: '   ' }));
   assert.deepEqual(emptyText, {
@@ -112,6 +120,37 @@ test('parseMediaGroup: fallback preview для медиагруппы без cap
   assert.equal(mix?.preview, '[Медиа x2]');
 });
 
+test('parseMediaGroup: хранит все элементы альбома и исходную подпись с форматированием', () => {
+  const result = parseMediaGroup([
+    withType({ message_id: 8, video: { file_id: 'v2', file_unique_id: 'vu2' } }),
+    withType({
+      message_id: 7,
+      photo: [{ file_id: 'p1', file_unique_id: 'u1', file_size: 10 }],
+      caption: 'Схема метро',
+      caption_entities: [{ type: 'bold', offset: 0, length: 5 }],
+    }),
+  ]);
+  assert.equal(result?.preview, 'Схема метро');
+  assert.deepEqual(result?.payload, {
+    caption: 'Схема метро',
+    entities: [{ type: 'bold', offset: 0, length: 5 }],
+    album: [
+      { type: 'photo', fileId: 'p1', fileUniqueId: 'u1' },
+      { type: 'video', fileId: 'v2', fileUniqueId: 'vu2' },
+    ],
+  });
+});
+
+test('parseMessage: text сохраняет entities форматирования относительно обрезанного текста', () => {
+  const parsed = parseMessage(
+    withType({ text: '  Читать docs', entities: [{ type: 'text_link', offset: 9, length: 4, url: 'https://example.com' }] }),
+  );
+  assert.equal(parsed?.preview, 'Читать docs');
+  assert.deepEqual(parsed?.payload, {
+    entities: [{ type: 'text_link', offset: 7, length: 4, url: 'https://example.com' }],
+  });
+});
+
 test('parseMessage: возвращает null на некорректных типах', () => {
   assert.equal(parseMessage(withType({ text: 123 as unknown as string })), null);
   assert.equal(
@@ -125,6 +164,87 @@ test('parseMessage: возвращает null на некорректных ти
   assert.equal(parseMessage(withType({ video: 123 as unknown as Record<string, unknown> })), null);
 });
 
+test('parseMessage: voice и audio сохраняются как отдельные contentType', () => {
+  const voice = parseMessage(
+    withType({ voice: { file_id: 'voice-1', file_unique_id: 'vu1', mime_type: 'audio/ogg' } }),
+  );
+  assert.deepEqual(voice, {
+    contentType: 'voice',
+    preview: '[Голосовое сообщение]',
+    fileId: 'voice-1',
+    fileUniqueId: 'vu1',
+    payload: { mimeType: 'audio/ogg' },
+  });
+
+  const audio = parseMessage(
+    withType({ audio: { file_id: 'audio-1', file_unique_id: 'au1', title: 'Лекция 3' }, caption: '  ' }),
+  );
+  assert.equal(audio?.contentType, 'audio');
+  assert.equal(audio?.preview, 'Лекция 3');
+  assert.equal(parseMessage(withType({ voice: { file_id: '' } })), null);
+});
+
+test('parseMessage: document, animation и sticker сохраняют file_id и метаданные', () => {
+  const document = parseMessage(
+    withType({
+      document: { file_id: 'doc-1', file_unique_id: 'du1', file_name: 'report.pdf', mime_type: 'application/pdf' },
+    }),
+  );
+  assert.deepEqual(document, {
+    contentType: 'document',
+    preview: '[Файл] report.pdf',
+    fileId: 'doc-1',
+    fileUniqueId: 'du1',
+    payload: { mimeType: 'application/pdf', fileName: 'report.pdf' },
+  });
+
+  const animation = parseMessage(
+    withType({
+      animation: { file_id: 'gif-1', file_unique_id: 'gu1', mime_type: 'video/mp4' },
+      document: { file_id: 'gif-1', file_unique_id: 'gu1', mime_type: 'video/mp4' },
+      caption: 'смешно',
+    }),
+  );
+  assert.equal(animation?.contentType, 'animation');
+  assert.equal(animation?.preview, 'смешно');
+
+  const sticker = parseMessage(
+    withType({ sticker: { file_id: 'st-1', file_unique_id: 'su1', emoji: '🐱', is_animated: false, is_video: true } }),
+  );
+  assert.equal(sticker?.contentType, 'sticker');
+  assert.equal(sticker?.preview, '[Стикер 🐱]');
+  assert.deepEqual(sticker?.payload, { emoji: '🐱', stickerFormat: 'video' });
+});
+
+test('parseMessage: poll хранит вопрос и варианты без file_id', () => {
+  const poll = parseMessage(
+    withType({
+      poll: {
+        id: 'p',
+        question: 'Столица Испании?',
+        options: [{ text: 'Мадрид', voter_count: 0 }, { text: 'Барселона', voter_count: 0 }],
+        type: 'quiz',
+        is_anonymous: true,
+        allows_multiple_answers: false,
+        correct_option_id: 0,
+      },
+    }),
+  );
+  assert.equal(poll?.contentType, 'poll');
+  assert.equal(poll?.preview, '📊 Столица Испании?\n• Мадрид\n• Барселона');
+  assert.equal(poll?.fileId, null);
+  assert.deepEqual(poll?.payload?.poll, {
+    question: 'Столица Испании?',
+    options: ['Мадрид', 'Барселона'],
+    type: 'quiz',
+    isAnonymous: true,
+    allowsMultipleAnswers: false,
+    correctOptionId: 0,
+    explanation: null,
+  });
+  assert.equal(parseMessage(withType({ poll: { question: 'Один вариант', options: [{ text: 'a' }] } })), null);
+});
+
 test('parseMessage: сохраняет длинный preview без потери текста', () => {
   const parsed = parseMessage(withType({ text: 'a'.repeat(250) }));
   assert.equal(parsed?.preview?.length, 250);
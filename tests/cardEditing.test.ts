@@ -0,0 +1,131 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { Telegram } from 'telegraf';
+import { createBot } from '../src/bot';
+import { CardRecord } from '../src/db';
+import {
+  buildEditedCardContent,
+  buildEditedTextContent,
+  isSameCardContent,
+  mergeEditedTags,
+} from '../src/cardEditing';
+import { startTelegramStandIn } from '../src/telegramStandIn';
+import { StubSpeechTranscriber } from '../src/transcription';
+import { createCard } from './helpers/cards';
+
+const voiceCard = {
+  id: 'card-1',
+  sourceChatId: '42',
+  sourceMessageId: 10,
+  sourceMessageIds: null,
+  contentType: 'voice',
+  contentPreview: 'Позвонить маме',
+  contentFileId: 'file-1',
+  contentFileUniqueId: 'unique-1',
+  contentPayload: JSON.stringify({ transcript: 'Позвонить маме' }),
+  tags: ['дом'],
+} as unknown as CardRecord;
+
+test('buildEditedCardContent keeps the transcript when only the caption of the same file changes', () => {
+  const content = buildEditedCardContent(voiceCard, {
+    contentType: 'voice',
+    preview: 'Позвонить маме в 18:00',
+    fileId: 'file-1b',
+    fileUniqueId: 'unique-1',
+  });
+  assert.equal(content.contentPreview, 'Позвонить маме в 18:00');
+  assert.equal(content.contentFileId, 'file-1b');
+  assert.deepEqual(JSON.parse(content.contentPayload ?? 'null'), { transcript: 'Позвонить маме' });
+});
+
+test('buildEditedCardContent replaces a file and drops the old transcript', () => {
+  const content = buildEditedCardContent(voiceCard, {
+    contentType: 'photo',
+    preview: 'Схема метро',
+    fileId: 'file-2',
+    fileUniqueId: 'unique-2',
+  });
+  assert.equal(content.contentType, 'photo');
+  assert.equal(content.contentFileUniqueId, 'unique-2');
+  assert.equal(content.contentPayload, null);
+});
+
+test('buildEditedCardContent keeps album files and only takes the new caption', () => {
+  const album = { ...voiceCard, contentType: 'photo', contentPayload: null, sourceMessageIds: [10, 11] } as CardRecord;
+  const content = buildEditedCardContent(
+    album,
+    { contentType: 'photo', preview: 'Новая подпись', fileId: 'file-9', fileUniqueId: 'unique-9' },
+    { mediaGroup: true },
+  );
+  assert.equal(content.contentPreview, 'Новая подпись');
+  assert.equal(content.contentFileId, 'file-1');
+  assert.equal(content.contentFileUniqueId, 'unique-1');
+});
+
+test('buildEditedTextContent parses card faces like a new card', () => {
+  const content = buildEditedTextContent('  Как сказать «кот»?\n----\ngato  ');
+  assert.equal(content.contentType, 'text');
+  assert.equal(content.contentPreview, 'Как сказать «кот»?\n----\ngato');
+  assert.deepEqual(JSON.parse(content.contentPayload ?? 'null'), {
+    faces: { kind: 'front_back', front: 'Как сказать «кот»?', back: 'gato' },
+  });
+  assert.equal(buildEditedTextContent('Просто заметка').contentPayload, null);
+});
+
+test('isSameCardContent ignores edits that leave the content and source as they were', () => {
+  const unchanged = {
+    contentType: voiceCard.contentType,
+    contentPreview: voiceCard.contentPreview,
+    contentFileId: 'file-1b',
+    contentFileUniqueId: voiceCard.contentFileUniqueId,
+    contentPayload: voiceCard.contentPayload,
+  };
+  assert.equal(isSameCardContent(voiceCard, unchanged), true);
+  assert.equal(isSameCardContent(voiceCard, { ...unchanged, contentPreview: 'Другое' }), false);
+  assert.equal(isSameCardContent(voiceCard, { ...unchanged, source: { chatId: '42', messageId: 11 } }), false);
+});
+
+test('mergeEditedTags adds hashtags from the new text and keeps existing tags', () => {
+  assert.deepEqual(mergeEditedTags(['дом'], 'Купить хлеб #магазин'), ['дом', 'магазин']);
+  assert.deepEqual(mergeEditedTags(['дом'], null), ['дом']);
+});
+
+test('a reply to a digest message does not replace any of its cards', async () => {
+  const standIn = await startTelegramStandIn();
+  const edits: string[] = [];
+  const store = {
+    getUser: async () => ({ id: '111', status: 'approved' }),
+    findCardsByMessage: async () => [createCard({ id: 'digest-card-1' }), createCard({ id: 'digest-card-2' })],
+    editCardContent: async (cardId: string) => {
+      edits.push(cardId);
+    },
+  };
+  const bot = createBot(store as any, new StubSpeechTranscriber(null));
+  bot.botInfo = { id: 1, is_bot: true, first_name: 'Stand-in bot', username: 'stand_in_bot' } as any;
+  bot.telegram = new Telegram(bot.telegram.token, { apiRoot: standIn.apiRoot });
+  try {
+    await bot.handleUpdate({
+      update_id: 1,
+      message: {
+        message_id: 50,
+        date: 1779308000,
+        chat: { id: 111, type: 'private', first_name: 'Demo' },
+        from: { id: 111, is_bot: false, first_name: 'Demo' },
+        text: 'Новый текст',
+        reply_to_message: {
+          message_id: 40,
+          date: 1779307000,
+          chat: { id: 111, type: 'private', first_name: 'Demo' },
+          from: { id: 1, is_bot: true, first_name: 'Stand-in bot' },
+          text: 'Сводка',
+        },
+      },
+    } as any);
+    assert.deepEqual(edits, []);
+    const replies = standIn.calls.filter((call) => call.method === 'sendMessage').map((call) => call.payload.text);
+    assert.equal(replies.length, 1);
+    assert.match(String(replies[0]), /несколько карточек/);
+  } finally {
+    await standIn.close();
+  }
+});
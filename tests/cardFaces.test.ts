@@ -0,0 +1,76 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import {
+  buildCardFaceEntities,
+  buildCardFacesFromFields,
+  formatRevealedCard,
+  getCardFaces,
+  parseCardFaces,
+} from '../src/cardFaces';
+
+test('parseCardFaces hides every cloze deletion and keeps hints', () => {
+  assert.deepEqual(parseCardFaces('{{c1::Тбилиси}} — столица {{c2::Грузии::страна}}'), {
+    kind: 'cloze',
+    front: '[…] — столица [страна]',
+    back: '[Тбилиси] — столица [Грузии]',
+  });
+});
+
+test('parseCardFaces splits front and back on a dashed line', () => {
+  assert.deepEqual(parseCardFaces('Как сказать «кот»?\n----\ngato'), {
+    kind: 'front_back',
+    front: 'Как сказать «кот»?',
+    back: 'gato',
+  });
+  assert.equal(parseCardFaces('Просто заметка --- без ответа'), null);
+  assert.equal(parseCardFaces('Без ответа\n---'), null);
+  assert.equal(parseCardFaces(null), null);
+});
+
+test('buildCardFacesFromFields uses the first field as front', () => {
+  assert.deepEqual(buildCardFacesFromFields(['hola', 'привет', 'пример']), {
+    kind: 'front_back',
+    front: 'hola',
+    back: 'привет\n\nпример',
+  });
+  assert.equal(buildCardFacesFromFields(['только лицевая сторона']), null);
+  assert.equal(buildCardFacesFromFields(['{{c1::gato}} es un animal', ''])?.kind, 'cloze');
+});
+
+test('formatRevealedCard shows the question above the answer', () => {
+  assert.equal(
+    formatRevealedCard({ kind: 'front_back', front: 'hola', back: 'привет' }),
+    'hola\n\n———\nпривет',
+  );
+  assert.equal(formatRevealedCard({ kind: 'cloze', front: '[…]', back: '[gato]' }), '[gato]');
+});
+
+test('getCardFaces reads faces only from text cards', () => {
+  const contentPayload = JSON.stringify({ faces: { kind: 'front_back', front: 'a', back: 'b' } });
+  assert.equal(getCardFaces({ contentType: 'text', contentPayload })?.back, 'b');
+  assert.equal(getCardFaces({ contentType: 'photo', contentPayload }), null);
+  assert.equal(getCardFaces({ contentType: 'text', contentPayload: null }), null);
+});
+
+test('buildCardFaceEntities moves the formatting of each side to the question and the revealed card', () => {
+  const contentPreview = 'Как сказать «кот»?\n---\ngato';
+  const contentPayload = JSON.stringify({
+    entities: [
+      { type: 'bold', offset: 13, length: 3 },
+      { type: 'italic', offset: 10, length: 17 },
+    ],
+  });
+  const faces = parseCardFaces(contentPreview)!;
+  const { front, revealed } = buildCardFaceEntities({ contentPreview, contentPayload }, faces);
+  assert.deepEqual(front, [
+    { type: 'bold', offset: 13, length: 3 },
+    { type: 'italic', offset: 10, length: 8 },
+  ]);
+  assert.deepEqual(revealed.slice(2), [{ type: 'italic', offset: 24, length: 4 }]);
+  assert.equal(formatRevealedCard(faces).slice(24, 28), 'gato');
+  const cloze = parseCardFaces('Столица {{c1::Испании}}')!;
+  assert.deepEqual(buildCardFaceEntities({ contentPreview: 'Столица {{c1::Испании}}', contentPayload }, cloze), {
+    front: [],
+    revealed: [],
+  });
+});
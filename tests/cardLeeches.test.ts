@@ -0,0 +1,42 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { CardRecord } from '../src/db';
+import { applyLapse, buildLeechNoticeText, parseLeechThreshold } from '../src/cardLeeches';
+
+const reviewedAt = '2026-05-11T08:00:00.000Z';
+
+test('applyLapse counts «Снова» answers and flags the card at the threshold', () => {
+  const card = { lapses: 2, leechAt: null };
+  assert.deepEqual(applyLapse(card, 'good', { threshold: 3, reviewedAt }), { lapses: 2, leechAt: null });
+  assert.deepEqual(applyLapse(card, 'again', { threshold: 3, reviewedAt }), { lapses: 3, leechAt: reviewedAt });
+  assert.deepEqual(applyLapse(card, 'again', { threshold: 8, reviewedAt }), { lapses: 3, leechAt: null });
+});
+
+test('applyLapse keeps a flagged card flagged and ignores a raised threshold', () => {
+  const card = { lapses: 8, leechAt: '2026-05-01T08:00:00.000Z' };
+  assert.deepEqual(applyLapse(card, 'easy', { threshold: 20, reviewedAt }), card);
+  assert.deepEqual(applyLapse(card, 'again', { threshold: 20, reviewedAt }), { lapses: 9, leechAt: card.leechAt });
+});
+
+test('parseLeechThreshold accepts whole numbers from 2 to 100', () => {
+  assert.equal(parseLeechThreshold(8), 8);
+  assert.equal(parseLeechThreshold('12'), 12);
+  assert.equal(parseLeechThreshold(1), undefined);
+  assert.equal(parseLeechThreshold(101), undefined);
+  assert.equal(parseLeechThreshold(4.5), undefined);
+  assert.equal(parseLeechThreshold(undefined), undefined);
+});
+
+test('buildLeechNoticeText shows the lapse count and the front of the card', () => {
+  const card = {
+    id: 'card-1',
+    contentType: 'text',
+    contentPreview: 'der Hund — собака',
+    contentPayload: JSON.stringify({ faces: { kind: 'front_back', front: 'der Hund', back: 'собака' } }),
+    lapses: 8,
+  } as unknown as CardRecord;
+  const text = buildLeechNoticeText(card);
+  assert.ok(text.startsWith('🐛 Карточка не запоминается: «Снова» уже 8 раз.'));
+  assert.ok(text.includes('der Hund'));
+  assert.ok(!text.includes('собака'));
+});
@@ -0,0 +1,36 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { buildCardInlineResult, buildSearchTsQuery } from '../src/cardSearch';
+import { CardRecord } from '../src/db';
+
+test('buildSearchTsQuery builds a prefix query and drops tsquery operators', () => {
+  assert.equal(buildSearchTsQuery('Кошки молоко'), 'кошки:* & молоко:*');
+  assert.equal(buildSearchTsQuery("gato & !perro | 'x':*"), 'gato:* & perro:* & x:*');
+  assert.equal(buildSearchTsQuery('cat cat CAT'), 'cat:*');
+  assert.equal(buildSearchTsQuery('!!! ---'), null);
+  assert.equal(buildSearchTsQuery(''), null);
+  assert.equal(buildSearchTsQuery('a b c d e f g h i j')?.split(' & ').length, 8);
+});
+
+test('buildCardInlineResult shows the first line as title and links to the Mini App', () => {
+  const card = {
+    id: 'card-1',
+    contentType: 'text',
+    contentPreview: '\nhola — привет\nиспанский, урок 1',
+    status: 'learning',
+    tags: ['spanish'],
+  } as CardRecord;
+  const result = buildCardInlineResult(card, 'interval_bot');
+  assert.equal(result.id, 'card:card-1');
+  assert.equal(result.title, 'hola — привет');
+  assert.equal(result.description, 'Изучается · #spanish');
+  assert.deepEqual(result.input_message_content, { message_text: 'hola — привет\nиспанский, урок 1' });
+  assert.equal(
+    (result.reply_markup?.inline_keyboard[0]?.[0] as { url?: string }).url,
+    'https://t.me/interval_bot?startapp=card_card-1',
+  );
+
+  const photo = buildCardInlineResult({ ...card, contentType: 'photo', contentPreview: null, tags: [] }, 'interval_bot');
+  assert.equal(photo.title, '[photo]');
+  assert.equal(photo.description, 'Изучается');
+});
@@ -0,0 +1,51 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import {
+  extractHashtags,
+  formatTags,
+  MAX_CARD_TAGS,
+  normalizeTag,
+  parseDeckDailyLimit,
+  parseTagInput,
+} from '../src/cardTags';
+
+test('normalizeTag lowercases, strips # and rejects tags without letters', () => {
+  assert.equal(normalizeTag('#Испанский'), 'испанский');
+  assert.equal(normalizeTag('work_notes'), 'work_notes');
+  assert.equal(normalizeTag('#1'), null);
+  assert.equal(normalizeTag('two words'), null);
+  assert.equal(normalizeTag(''), null);
+});
+
+test('extractHashtags reads hashtags at word boundaries only', () => {
+  assert.deepEqual(
+    extractHashtags('#Spanish слово gato #кот, #spanish и https://example.com/page#anchor a#b'),
+    ['spanish', 'кот'],
+  );
+  assert.deepEqual(extractHashtags('шаги: #1 #2'), []);
+  assert.deepEqual(extractHashtags(null), []);
+});
+
+test('parseTagInput accepts arrays and separated strings', () => {
+  assert.deepEqual(parseTagInput(['A', '#b', 'a']), ['a', 'b']);
+  assert.deepEqual(parseTagInput('#work, notes'), ['work', 'notes']);
+  assert.equal(parseTagInput([1, 2]), null);
+  assert.equal(parseTagInput(42), null);
+  const many = Array.from({ length: MAX_CARD_TAGS + 5 }, (_value, index) => `tag${index}`);
+  assert.equal(parseTagInput(many)?.length, MAX_CARD_TAGS);
+});
+
+test('formatTags renders hashtags', () => {
+  assert.equal(formatTags(['spanish', 'кот']), '#spanish #кот');
+});
+
+test('parseDeckDailyLimit distinguishes off from invalid values', () => {
+  assert.equal(parseDeckDailyLimit('20'), 20);
+  assert.equal(parseDeckDailyLimit(15), 15);
+  assert.equal(parseDeckDailyLimit('off'), null);
+  assert.equal(parseDeckDailyLimit(null), null);
+  assert.equal(parseDeckDailyLimit(undefined), null);
+  assert.equal(parseDeckDailyLimit('-3'), undefined);
+  assert.equal(parseDeckDailyLimit('1.5'), undefined);
+  assert.equal(parseDeckDailyLimit(5000), undefined);
+});
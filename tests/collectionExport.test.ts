@@ -0,0 +1,135 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { strFromU8, unzipSync } from 'fflate';
+import {
+  buildExportMediaUrl,
+  CollectionExport,
+  parseExportFormat,
+  renderCollectionAnkiText,
+  renderCollectionCsvArchive,
+  toCsv,
+  verifyExportMediaSignature,
+} from '../src/collectionExport';
+import { CardRecord } from '../src/db';
+import { parseDelimitedDeck } from '../src/deckImport';
+import { createCard } from './helpers/cards';
+
+type ExportCard = CardRecord & { mediaUrl: string | null };
+
+const createExportCard = (overrides: Partial<ExportCard> = {}): ExportCard => ({
+  ...createCard({
+    id: 'card-1',
+    sourceChatId: '111',
+    sourceMessageId: 1,
+    contentPreview: 'hola\nпривет',
+    repetition: 2,
+    nextReviewAt: '2026-05-20T10:00:00.000Z',
+    createdAt: '2026-05-01T10:00:00.000Z',
+    updatedAt: '2026-05-01T10:00:00.000Z',
+  }),
+  mediaUrl: null,
+  ...overrides,
+});
+
+const buildCollection = (): CollectionExport => ({
+  exportedAt: '2026-05-21T10:00:00.000Z',
+  userId: '111',
+  cards: [
+    createExportCard({ tags: ['spanish', 'кот'] }),
+    createExportCard({
+      id: 'card-2',
+      contentType: 'photo',
+      contentPreview: 'Схема, "важно"',
+      contentFileId: 'file-1',
+      mediaUrl: 'https://example.com/export/media/file-1?sig=x',
+    }),
+    createExportCard({ id: 'card-3', status: 'pending', contentPreview: 'не подтверждена' }),
+  ],
+  reminderJobs: [],
+  backlogItems: [],
+  courses: [
+    {
+      id: 'course-1',
+      ownerUserId: '111',
+      ownerAppUserId: null,
+      title: 'Испанский',
+      description: null,
+      status: 'active',
+      visibility: 'private',
+      publicSlug: null,
+      publishedAt: null,
+      createdAt: '2026-05-01T10:00:00.000Z',
+      updatedAt: '2026-05-01T10:00:00.000Z',
+      steps: [
+        {
+          id: 'step-1',
+          courseId: 'course-1',
+          position: 1,
+          kind: 'question',
+          title: 'Как сказать «кот»?',
+          body: 'gato',
+          createdAt: '2026-05-01T10:00:00.000Z',
+          updatedAt: '2026-05-01T10:00:00.000Z',
+        },
+      ],
+    },
+  ],
+});
+
+test('parseExportFormat defaults to json and rejects unknown formats', () => {
+  assert.equal(parseExportFormat(undefined), 'json');
+  assert.equal(parseExportFormat('anki'), 'anki');
+  assert.equal(parseExportFormat('xml'), null);
+});
+
+test('export media urls are signed and expire', () => {
+  const now = Date.parse('2026-05-21T10:00:00.000Z');
+  const url = new URL(
+    buildExportMediaUrl({ baseUrl: 'https://bot.example.com', fileId: 'AgAC/x', secret: 's', now }),
+  );
+  assert.equal(url.pathname, '/export/media/AgAC%2Fx');
+  const params = {
+    fileId: 'AgAC/x',
+    expires: url.searchParams.get('expires') ?? undefined,
+    signature: url.searchParams.get('sig') ?? undefined,
+    secret: 's',
+  };
+  assert.equal(verifyExportMediaSignature({ ...params, now }), true);
+  assert.equal(verifyExportMediaSignature({ ...params, fileId: 'other', now }), false);
+  assert.equal(verifyExportMediaSignature({ ...params, now: now + 8 * 24 * 60 * 60 * 1000 }), false);
+});
+
+test('toCsv quotes separators, quotes and newlines', () => {
+  assert.equal(
+    toCsv([{ a: 'x,y', b: 'say "hi"', c: 'line\nbreak', d: null }], ['a', 'b', 'c', 'd']),
+    'a,b,c,d\n"x,y","say ""hi""","line\nbreak",\n',
+  );
+});
+
+test('renderCollectionCsvArchive writes one csv per table', () => {
+  const files = unzipSync(new Uint8Array(renderCollectionCsvArchive(buildCollection())));
+  assert.deepEqual(Object.keys(files).sort(), [
+    'backlog_items.csv',
+    'cards.csv',
+    'course_steps.csv',
+    'courses.csv',
+    'reminder_jobs.csv',
+  ]);
+  const cards = strFromU8(files['cards.csv'] as Uint8Array).trim().split('\n');
+  assert.ok(cards[0]?.startsWith('id,queueScopeType,queueScopeId,contentType,contentPreview,mediaUrl'));
+  assert.ok(cards.some((line) => line.includes('https://example.com/export/media/file-1')));
+});
+
+test('renderCollectionAnkiText produces notes that the deck importer reads back', () => {
+  const text = renderCollectionAnkiText(buildCollection());
+  assert.ok(text.startsWith('#separator:tab\n#html:true\n#tags column:3\n'));
+  assert.ok(text.includes('<img src="https://example.com/export/media/file-1?sig=x">'));
+  assert.ok(!text.includes('не подтверждена'));
+  assert.ok(text.includes('\tinterval-learn text learning spanish кот\n'));
+
+  const drafts = parseDelimitedDeck(text);
+  assert.deepEqual(
+    drafts.map((draft) => draft.preview),
+    ['hola\nпривет', 'Схема, "важно"', 'Как сказать «кот»?\n\ngato'],
+  );
+});
@@ -3,16 +3,20 @@ import { test } from 'node:test';
 import { buildCourseStepCardText } from '../src/courses';
 
 test('buildCourseStepCardText builds compact queue card text', () => {
+  const { text, entities } = buildCourseStepCardText({
+    courseTitle: 'Основы SQL',
+    stepPosition: 3,
+    totalSteps: 12,
+    stepKind: 'practice',
+    stepTitle: 'JOIN руками',
+    body: 'Соберите запрос с INNER JOIN на двух таблицах.',
+  });
   assert.equal(
-    buildCourseStepCardText({
-      courseTitle: 'Основы SQL',
-      stepPosition: 3,
-      totalSteps: 12,
-      stepKind: 'practice',
-      stepTitle: 'JOIN руками',
-      body: 'Соберите запрос с INNER JOIN на двух таблицах.',
-    }),
+    text,
     'Курс: Основы SQL · Шаг 3 из 12 · Практика\n\nJOIN руками\n\nСоберите запрос с INNER JOIN на двух таблицах.',
   );
+  assert.deepEqual(entities, [
+    { type: 'italic', offset: 0, length: 41 },
+    { type: 'bold', offset: 43, length: 11 },
+  ]);
 });
-
@@ -0,0 +1,151 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import dayjs from 'dayjs';
+import { unzipSync, zipSync } from 'fflate';
+import initSqlJs from 'sql.js';
+import {
+  detectDeckFormat,
+  importDeck,
+  parseApkgDeck,
+  parseDeck,
+  parseDelimitedDeck,
+  stripAnkiHtml,
+} from '../src/deckImport';
+
+const buildApkg = async (collectionName = 'collection.anki2'): Promise<Buffer> => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('CREATE TABLE col (id integer primary key, crt integer not null)');
+  db.run('CREATE TABLE notes (id integer primary key, flds text not null)');
+  db.run(
+    'CREATE TABLE cards (id integer primary key, nid integer not null, ord integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null)',
+  );
+  const crt = dayjs('2024-01-01T04:00:00Z').unix();
+  db.run('INSERT INTO col VALUES (1, ?)', [crt]);
+  db.run('INSERT INTO notes VALUES (1, ?)', ['<b>hola</b>\x1fпривет']);
+  db.run('INSERT INTO notes VALUES (2, ?)', ['gato<br>[sound:cat.mp3]\x1fкот']);
+  db.run('INSERT INTO notes VALUES (3, ?)', ['perro\x1fсобака']);
+  db.run('INSERT INTO cards VALUES (10, 1, 0, 2, 2, 100, 12)');
+  db.run('INSERT INTO cards VALUES (11, 1, 1, 2, 2, 300, 40)');
+  db.run('INSERT INTO cards VALUES (20, 2, 0, 0, 0, 5, 0)');
+  db.run('INSERT INTO cards VALUES (30, 3, 0, 1, 1, ?, 0)', [dayjs('2024-06-01T10:00:00Z').unix()]);
+  const collection = db.export();
+  db.close();
+  return Buffer.from(zipSync({ [collectionName]: collection, media: new TextEncoder().encode('{}') }));
+};
+
+test('stripAnkiHtml removes markup, sounds and entities', () => {
+  assert.equal(stripAnkiHtml('<div>a&nbsp;&amp;&lt;b&gt;</div><br/>c [sound:x.mp3]'), 'a &<b>\n\nc');
+});
+
+test('parseDelimitedDeck reads Anki text exports with directives and quoted fields', () => {
+  const drafts = parseDelimitedDeck(
+    '#separator:tab\n#html:true\nhola\tпривет\n"multi\nline"\t"say ""hi"""\n\t\n',
+  );
+  assert.deepEqual(
+    drafts.map((draft) => draft.preview),
+    ['hola\n\nпривет', 'multi\nline\n\nsay "hi"'],
+  );
+  assert.equal(drafts[0]?.nextReviewAt, null);
+  assert.deepEqual(drafts[0]?.faces, { kind: 'front_back', front: 'hola', back: 'привет' });
+});
+
+test('parseDelimitedDeck keeps notes that start with # after the directive header', () => {
+  const drafts = parseDelimitedDeck('#separator:tab\n#define in C\tpreprocessor macro\nhola\tпривет\n#include\tdirective\n');
+  assert.deepEqual(
+    drafts.map((draft) => draft.preview),
+    ['#define in C\n\npreprocessor macro', 'hola\n\nпривет', '#include\n\ndirective'],
+  );
+});
+
+test('parseDelimitedDeck keeps due dates and intervals from extra columns', () => {
+  const now = dayjs('2026-05-01T09:00:00Z');
+  const drafts = parseDelimitedDeck(
+    'front;back;due;interval\nhola;привет;2026-05-10;7\ngato;кот;;3\nperro;собака\n',
+    now,
+  );
+  assert.equal(drafts.length, 3);
+  assert.equal(drafts[0]?.nextReviewAt, dayjs('2026-05-10').toISOString());
+  assert.equal(drafts[0]?.intervalDays, 7);
+  assert.equal(drafts[1]?.nextReviewAt, now.add(3, 'day').toISOString());
+  assert.equal(drafts[2]?.nextReviewAt, null);
+  assert.equal(drafts[2]?.intervalDays, null);
+});
+
+test('parseApkgDeck creates one draft per note and keeps the first card schedule', async () => {
+  const drafts = await parseApkgDeck(await buildApkg());
+  assert.deepEqual(
+    drafts.map((draft) => draft.preview),
+    ['hola\n\nпривет', 'gato\n\nкот', 'perro\n\nсобака'],
+  );
+  assert.equal(drafts[0]?.nextReviewAt, dayjs('2024-01-01T04:00:00Z').add(100, 'day').toISOString());
+  assert.equal(drafts[0]?.intervalDays, 12);
+  assert.equal(drafts[1]?.nextReviewAt, null);
+  assert.equal(drafts[2]?.nextReviewAt, '2024-06-01T10:00:00.000Z');
+  assert.equal(drafts[2]?.intervalDays, null);
+});
+
+test('parseDelimitedDeck opens quoted fields only at the start of a field', () => {
+  const drafts = parseDelimitedDeck('5" screen;экран 5 дюймов\nhola;"привет\nмир"\ngato;кот\n');
+  assert.deepEqual(
+    drafts.map((draft) => draft.preview),
+    ['5" screen\n\nэкран 5 дюймов', 'hola\n\nпривет\nмир', 'gato\n\nкот'],
+  );
+});
+
+test('parseDeck detects apkg archives and rejects the new anki21b format', async () => {
+  const apkg = await buildApkg('collection.anki21');
+  assert.equal(detectDeckFormat(apkg), 'apkg');
+  assert.equal(detectDeckFormat(Buffer.from('a,b')), 'csv');
+  assert.equal((await parseDeck(apkg)).drafts.length, 3);
+
+  const rejectsModernFormat = (error: Error & { statusCode?: number }) => {
+    assert.equal(error.statusCode, 400);
+    assert.match(error.message, /старых версий Anki/);
+    return true;
+  };
+  const modern = Buffer.from(zipSync({ 'collection.anki21b': new Uint8Array([1, 2, 3]) }));
+  await assert.rejects(parseDeck(modern), rejectsModernFormat);
+
+  // Modern exports also carry a collection.anki2 holding only an "update Anki" placeholder note.
+  const placeholder = unzipSync(await buildApkg('collection.anki2'))['collection.anki2']!;
+  const withPlaceholder = Buffer.from(
+    zipSync({ 'collection.anki21b': new Uint8Array([1, 2, 3]), 'collection.anki2': placeholder }),
+  );
+  await assert.rejects(parseDeck(withPlaceholder), rejectsModernFormat);
+});
+
+test('importDeck saves the whole deck in one batch and reports that nothing was added on failure', async () => {
+  const batches: Array<Array<{ card: { contentPreview: string | null }; activation: { repetition?: number } }>> = [];
+  let failing = false;
+  const store = {
+    ensureUser: async () => {},
+    getUserDefaultReminderMode: async () => 'sm2',
+    importCards: async (inputs: (typeof batches)[number]) => {
+      if (failing) throw new Error('syntax error at or near "INSERT"');
+      batches.push(inputs);
+      return inputs.length;
+    },
+  };
+  const params = {
+    userId: '42',
+    queueScope: { type: 'user' as const, id: '42' },
+    buffer: Buffer.from('hola;привет;2026-05-10;7\ngato;кот\n'),
+  };
+
+  const result = await importDeck(store as any, params);
+  assert.deepEqual(result, { format: 'csv', imported: 2, skipped: 0, scheduled: 1 });
+  assert.equal(batches.length, 1);
+  assert.deepEqual(
+    batches[0]?.map((input) => input.card.contentPreview),
+    ['hola\n\nпривет', 'gato\n\nкот'],
+  );
+  assert.ok(batches[0]?.[0]?.activation.repetition);
+
+  failing = true;
+  await assert.rejects(importDeck(store as any, params), (error: Error & { statusCode?: number }) => {
+    assert.equal(error.statusCode, 503);
+    assert.match(error.message, /ни одна карточка не добавлена/);
+    return true;
+  });
+});
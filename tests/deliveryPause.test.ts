@@ -0,0 +1,46 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import {
+  EMPTY_DELIVERY_PAUSE,
+  isDeliveryPaused,
+  parseDoNotDisturbUntil,
+  parseVacationCommand,
+  vacationUntilAfterDays,
+} from '../src/deliveryPause';
+
+const now = '2026-05-13T08:00:00.000Z'; // 12:00 Asia/Tbilisi
+const timezone = 'Asia/Tbilisi';
+
+test('parseVacationCommand reads status, start, end and do-not-disturb', () => {
+  assert.deepEqual(parseVacationCommand(''), { action: 'status' });
+  assert.deepEqual(parseVacationCommand('on'), { action: 'start', days: null, spreadDays: 3 });
+  assert.deepEqual(parseVacationCommand('7 5'), { action: 'start', days: 7, spreadDays: 5 });
+  assert.deepEqual(parseVacationCommand('off'), { action: 'end', spreadDays: null });
+  assert.deepEqual(parseVacationCommand('OFF 2'), { action: 'end', spreadDays: 2 });
+  assert.deepEqual(parseVacationCommand('dnd 2h'), { action: 'dnd', value: '2h' });
+  assert.equal(parseVacationCommand('7 30'), null);
+  assert.equal(parseVacationCommand('soon'), null);
+  assert.equal(parseVacationCommand('dnd'), null);
+});
+
+test('parseDoNotDisturbUntil accepts durations and local clock times', () => {
+  assert.equal(parseDoNotDisturbUntil('2h', { now, timezone }), '2026-05-13T10:00:00.000Z');
+  assert.equal(parseDoNotDisturbUntil('90 мин', { now, timezone }), '2026-05-13T09:30:00.000Z');
+  assert.equal(parseDoNotDisturbUntil('18:30', { now, timezone }), '2026-05-13T14:30:00.000Z');
+  // A time that already passed today means tomorrow.
+  assert.equal(parseDoNotDisturbUntil('08:00', { now, timezone }), '2026-05-14T04:00:00.000Z');
+  assert.equal(parseDoNotDisturbUntil('off', { now, timezone }), null);
+  assert.equal(parseDoNotDisturbUntil('8d', { now, timezone }), undefined);
+  assert.equal(parseDoNotDisturbUntil('later', { now, timezone }), undefined);
+});
+
+test('vacation ends at local midnight and pauses delivery until ended', () => {
+  assert.equal(vacationUntilAfterDays(2, { now, timezone }), '2026-05-14T20:00:00.000Z');
+  const nowMs = Date.parse(now);
+  assert.equal(isDeliveryPaused(EMPTY_DELIVERY_PAUSE, nowMs), false);
+  assert.equal(isDeliveryPaused({ ...EMPTY_DELIVERY_PAUSE, vacationSince: now }, nowMs), true);
+  assert.equal(
+    isDeliveryPaused({ ...EMPTY_DELIVERY_PAUSE, doNotDisturbUntil: '2026-05-13T07:00:00.000Z' }, nowMs),
+    false,
+  );
+});
@@ -0,0 +1,56 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import {
+  classifyDeliveryError,
+  computeRetryDelayMs,
+  formatDeliveryError,
+  planDeliveryRetry,
+  RETRY_MAX_DELAY_MS,
+} from '../src/deliveryRetry';
+
+const telegramError = (errorCode: number, description: string, parameters?: { retry_after: number }) =>
+  Object.assign(new Error(`${errorCode}: ${description}`), {
+    code: errorCode,
+    response: { ok: false, error_code: errorCode, description, ...(parameters ? { parameters } : {}) },
+  });
+
+test('classifyDeliveryError separates permanent Telegram errors from transient ones', () => {
+  assert.equal(classifyDeliveryError(telegramError(403, 'Forbidden: bot was blocked by the user')).kind, 'permanent');
+  assert.equal(classifyDeliveryError(telegramError(400, 'Bad Request: chat not found')).kind, 'permanent');
+  assert.equal(classifyDeliveryError(telegramError(502, 'Bad Gateway')).kind, 'retryable');
+
+  const flood = classifyDeliveryError(telegramError(429, 'Too Many Requests: retry after 35', { retry_after: 35 }));
+  assert.deepEqual(flood, {
+    kind: 'retryable',
+    code: 429,
+    description: 'Too Many Requests: retry after 35',
+    retryAfterMs: 35_000,
+  });
+
+  const network = classifyDeliveryError(
+    Object.assign(new Error('request to https://api.telegram.org failed'), { code: 'ECONNRESET' }),
+  );
+  assert.equal(network.kind, 'retryable');
+  assert.equal(network.code, 'ECONNRESET');
+  const wrapped = classifyDeliveryError(new Error('fetch failed', { cause: telegramError(403, 'Forbidden') }));
+  assert.equal(wrapped.kind, 'permanent');
+  assert.equal(classifyDeliveryError(new Error('Connection terminated')).kind, 'retryable');
+  const timeout = classifyDeliveryError(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+  assert.equal(timeout.kind, 'retryable');
+  assert.equal(timeout.code, null);
+});
+
+test('retry delays double per attempt, respect flood waits and stop at the attempt limit', () => {
+  assert.equal(computeRetryDelayMs(1), 2 * 60_000);
+  assert.equal(computeRetryDelayMs(4), 16 * 60_000);
+  assert.equal(computeRetryDelayMs(20), RETRY_MAX_DELAY_MS);
+  assert.equal(computeRetryDelayMs(1, 10 * 60_000), 10 * 60_000);
+
+  const now = Date.parse('2026-05-21T10:00:00.000Z');
+  const retryable = classifyDeliveryError(telegramError(500, 'Internal Server Error'));
+  assert.equal(planDeliveryRetry({ failure: retryable, attempts: 2, maxAttempts: 8, now }), '2026-05-21T10:04:00.000Z');
+  assert.equal(planDeliveryRetry({ failure: retryable, attempts: 8, maxAttempts: 8, now }), null);
+  const blocked = classifyDeliveryError(telegramError(403, 'Forbidden: bot was blocked by the user'));
+  assert.equal(planDeliveryRetry({ failure: blocked, attempts: 1, maxAttempts: 8, now }), null);
+  assert.equal(formatDeliveryError(blocked), '[403] Forbidden: bot was blocked by the user');
+});
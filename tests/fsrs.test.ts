@@ -0,0 +1,66 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import dayjs from 'dayjs';
+import { CardRecord } from '../src/db';
+import { computeFsrsState, fsrsIntervalDays, fsrsRetrievability } from '../src/fsrs';
+import { computeReview } from '../src/spacedRepetition';
+import { createCard } from './helpers/cards';
+
+const createFsrsCard = (overrides: Partial<CardRecord> = {}): CardRecord =>
+  createCard({ id: 'card-fsrs', reminderMode: 'fsrs', ...overrides });
+
+test('computeFsrsState initializes stability and difficulty from the first rating', () => {
+  const again = computeFsrsState(null, 0, 1);
+  const good = computeFsrsState(null, 0, 3);
+  assert.ok(again.stability < good.stability);
+  assert.ok(again.difficulty > good.difficulty);
+  assert.equal(good.retrievability, null);
+});
+
+test('computeFsrsState grows stability slower for difficult cards', () => {
+  const easyCard = computeFsrsState({ stability: 5, difficulty: 3 }, 5, 3);
+  const hardCard = computeFsrsState({ stability: 5, difficulty: 8 }, 5, 3);
+  assert.ok(easyCard.stability > 5);
+  assert.ok(hardCard.stability > 5);
+  assert.ok(easyCard.stability > hardCard.stability);
+  assert.equal(easyCard.retrievability, fsrsRetrievability(5, 5));
+});
+
+test('computeFsrsState drops stability and raises difficulty after a lapse', () => {
+  const lapse = computeFsrsState({ stability: 20, difficulty: 5 }, 20, 1);
+  assert.ok(lapse.stability < 20);
+  assert.ok(lapse.difficulty > 5);
+});
+
+test('fsrsIntervalDays matches stability at 90% retention and shortens for higher retention', () => {
+  assert.equal(fsrsIntervalDays(10, 0.9), 10);
+  assert.ok(fsrsIntervalDays(10, 0.95) < 10);
+  assert.equal(fsrsIntervalDays(0.2, 0.9), 1);
+});
+
+test('computeReview in fsrs mode schedules by card memory state', () => {
+  const lastReviewedAt = dayjs().subtract(4, 'day').toISOString();
+  const stableCard = createFsrsCard({
+    repetition: 3,
+    fsrsStability: 4,
+    fsrsDifficulty: 3,
+    lastReviewedAt,
+  });
+  const shakyCard = createFsrsCard({
+    repetition: 3,
+    fsrsStability: 4,
+    fsrsDifficulty: 9,
+    lastReviewedAt,
+  });
+
+  const stable = computeReview(stableCard, 'good');
+  const shaky = computeReview(shakyCard, 'good');
+  assert.ok(stable.fsrs);
+  assert.ok(shaky.fsrs);
+  assert.equal(stable.repetition, 4);
+  assert.ok(dayjs(stable.nextReviewAt).isAfter(dayjs(shaky.nextReviewAt)));
+
+  const lapse = computeReview(stableCard, 'again');
+  assert.equal(lapse.repetition, 0);
+  assert.ok(lapse.fsrs && lapse.fsrs.stability < 4);
+});
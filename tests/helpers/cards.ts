@@ -0,0 +1,42 @@
+import { CardRecord } from '../../src/db';
+
+/** A learning text card with every field set; tests override what they check. */
+export const createCard = (overrides: Partial<CardRecord> = {}): CardRecord => ({
+  id: 'card-test',
+  userId: '111',
+  queueScopeType: 'user',
+  queueScopeId: '111',
+  sourceChatId: '-100111',
+  sourceMessageId: 11,
+  sourceMessageIds: null,
+  contentType: 'text',
+  contentPreview: 'Тестовый текст',
+  contentFileId: null,
+  contentFileUniqueId: null,
+  contentPayload: null,
+  tags: [],
+  reminderMode: 'sm2',
+  scheduleRule: null,
+  status: 'learning',
+  repetition: 0,
+  fsrsStability: null,
+  fsrsDifficulty: null,
+  fsrsRetrievability: null,
+  nextReviewAt: null,
+  lastReviewedAt: null,
+  lapses: 0,
+  leechAt: null,
+  suspendedAt: null,
+  mediaMirroredAt: null,
+  mediaMirrorAttempts: 0,
+  pendingChannelId: null,
+  pendingChannelMessageId: null,
+  baseChannelMessageId: null,
+  awaitingGradeSince: null,
+  lastNotificationAt: null,
+  lastNotificationReason: null,
+  lastNotificationMessageId: null,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  ...overrides,
+});
@@ -2,6 +2,7 @@ import { strict as assert } from 'node:assert';
 import { test } from 'node:test';
 import dayjs from 'dayjs';
 import { parseHouseholdReminderText } from '../src/householdReminder';
+import { computeOneTimeReminderAt, parseOneTimeReminderText } from '../src/oneTimeReminder';
 import { computeNextFromSchedule } from '../src/schedule';
 
 const now = dayjs('2026-05-20T08:00:00');
@@ -43,3 +44,23 @@ test('computeNextFromSchedule advances annual dates to next year after the date
   );
   assert.equal(dayjs(next).format('YYYY-MM-DD HH:mm'), '2027-05-25 09:00');
 });
+
+test('parseHouseholdReminderText reads times in the scope timezone', () => {
+  const utcNow = dayjs('2026-05-20T03:00:00Z');
+  const daily = parseHouseholdReminderText('принять витамин каждый день в 9', utcNow, 'Asia/Tbilisi');
+  assert.equal(daily?.mode, 'schedule');
+  assert.equal(daily?.mode === 'schedule' ? daily.nextReviewAt : null, '2026-05-20T05:00:00.000Z');
+  const oneTime = parseHouseholdReminderText('купить молоко завтра в 10', utcNow, 'Asia/Tbilisi');
+  assert.equal(oneTime?.mode === 'one_time' ? oneTime.remindAt : null, '2026-05-21T06:00:00.000Z');
+});
+
+test('one-time presets keep the local time across a DST change', () => {
+  // America/New_York moves to EDT on 2026-03-08 at 02:00.
+  const evening = dayjs('2026-03-07T23:00:00Z');
+  assert.equal(computeOneTimeReminderAt('evening', evening, 'America/New_York'), '2026-03-08T01:00:00.000Z');
+  assert.equal(computeOneTimeReminderAt('morning', evening, 'America/New_York'), '2026-03-08T14:00:00.000Z');
+  const night = dayjs('2026-03-08T06:30:00Z');
+  assert.equal(parseOneTimeReminderText('через 2 часа', night, 'America/New_York'), '2026-03-08T08:30:00.000Z');
+  assert.equal(parseOneTimeReminderText('через 1 день', evening, 'America/New_York'), '2026-03-08T22:00:00.000Z');
+  assert.equal(parseOneTimeReminderText('2026-03-08 в 9', evening, 'America/New_York'), '2026-03-08T13:00:00.000Z');
+});
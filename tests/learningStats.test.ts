@@ -0,0 +1,145 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { ReviewLogRecord } from '../src/db';
+import {
+  buildLearningAnalytics,
+  computeDueForecast,
+  computeGradeRetention,
+  computeLatency,
+  computeReviewStreak,
+  computeTrueRetention,
+} from '../src/learningStats';
+
+const timezone = 'Asia/Tbilisi';
+
+const log = (
+  cardId: string,
+  grade: ReviewLogRecord['grade'],
+  reviewedAt: string,
+  overrides: Partial<ReviewLogRecord> = {},
+): ReviewLogRecord => ({
+  id: `${cardId}-${reviewedAt}`,
+  cardId,
+  jobId: null,
+  userId: 'u1',
+  queueScopeType: 'user',
+  queueScopeId: 'u1',
+  grade,
+  reminderMode: 'sm2',
+  repetition: 1,
+  previousIntervalDays: null,
+  nextIntervalDays: 1,
+  elapsedDays: null,
+  latencyMs: null,
+  reviewedAt,
+  nextReviewAt: reviewedAt,
+  createdAt: reviewedAt,
+  ...overrides,
+});
+
+test('computeReviewStreak keeps the current streak open until the end of today', () => {
+  const days = ['2026-05-01', '2026-05-02', '2026-05-03', '2026-05-10', '2026-05-11', '2026-05-11'];
+  assert.deepEqual(computeReviewStreak(days, '2026-05-11'), {
+    current: 2,
+    longest: 3,
+    reviewedToday: true,
+    activeDays: 5,
+  });
+  assert.equal(computeReviewStreak(days, '2026-05-12').current, 2);
+  assert.equal(computeReviewStreak(days, '2026-05-13').current, 0);
+});
+
+test('computeGradeRetention scores each grade by the next review of the same card', () => {
+  const grades = computeGradeRetention([
+    log('a', 'good', '2026-05-01T08:00:00.000Z'),
+    log('a', 'again', '2026-05-03T08:00:00.000Z'),
+    log('a', 'good', '2026-05-04T08:00:00.000Z'),
+    log('b', 'good', '2026-05-01T09:00:00.000Z'),
+    log('b', 'easy', '2026-05-05T09:00:00.000Z'),
+    log('b', 'preset', '2026-05-06T09:00:00.000Z'),
+  ]);
+  const byGrade = Object.fromEntries(grades.map((entry) => [entry.grade, entry]));
+  assert.equal(byGrade.good?.count, 3);
+  assert.equal(byGrade.good?.share, 0.6);
+  assert.equal(byGrade.good?.retention, 0.5);
+  assert.equal(byGrade.again?.retention, 1);
+  assert.equal(byGrade.easy?.retention, null);
+  assert.equal(byGrade.hard?.count, 0);
+});
+
+test('computeTrueRetention buckets reviews by days since the previous review', () => {
+  const buckets = computeTrueRetention([
+    log('a', 'good', '2026-05-01T08:00:00.000Z'),
+    log('a', 'good', '2026-05-02T08:00:00.000Z', { elapsedDays: 0.5 }),
+    log('a', 'again', '2026-05-04T08:00:00.000Z', { elapsedDays: 2 }),
+    log('b', 'hard', '2026-05-04T09:00:00.000Z', { elapsedDays: 2.5 }),
+    log('c', 'easy', '2026-07-04T09:00:00.000Z', { elapsedDays: 90 }),
+  ]);
+  assert.deepEqual(
+    buckets.map((bucket) => [bucket.label, bucket.reviews, bucket.retention]),
+    [
+      ['< 1 дня', 1, 1],
+      ['1–3 дня', 2, 0.5],
+      ['3–7 дней', 0, null],
+      ['1–3 недели', 0, null],
+      ['3 недели – 2 месяца', 0, null],
+      ['2+ месяца', 1, 1],
+    ],
+  );
+});
+
+test('computeLatency ignores reviews without a measured answer time', () => {
+  assert.deepEqual(
+    computeLatency([
+      log('a', 'good', '2026-05-01T08:00:00.000Z', { latencyMs: 4000 }),
+      log('b', 'good', '2026-05-01T08:01:00.000Z', { latencyMs: 1000 }),
+      log('c', 'hard', '2026-05-01T08:02:00.000Z', { latencyMs: 10000 }),
+      log('d', 'again', '2026-05-01T08:03:00.000Z'),
+    ]),
+    { averageMs: 5000, medianMs: 4000, samples: 3 },
+  );
+  assert.deepEqual(computeLatency([]), { averageMs: null, medianMs: null, samples: 0 });
+});
+
+test('computeDueForecast counts overdue cards today and repeats fixed schedules', () => {
+  const now = '2026-05-11T08:00:00.000Z';
+  const forecast = computeDueForecast({
+    cards: [
+      { status: 'learning', nextReviewAt: '2026-05-09T08:00:00.000Z', scheduleRule: null },
+      { status: 'learning', nextReviewAt: '2026-05-13T08:00:00.000Z', scheduleRule: null },
+      { status: 'learning', nextReviewAt: '2026-05-12T08:00:00.000Z', scheduleRule: JSON.stringify({ type: 'days', interval: 7 }) },
+      { status: 'archived', nextReviewAt: '2026-05-12T08:00:00.000Z', scheduleRule: null },
+      { status: 'pending', nextReviewAt: null, scheduleRule: null },
+    ],
+    timezone,
+    now,
+    days: 14,
+  });
+  assert.equal(forecast.length, 14);
+  assert.equal(forecast[0]?.date, '2026-05-11');
+  assert.deepEqual(
+    forecast.filter((day) => day.due > 0).map((day) => [day.date, day.due]),
+    [
+      ['2026-05-11', 1],
+      ['2026-05-12', 1],
+      ['2026-05-13', 1],
+      ['2026-05-19', 1],
+    ],
+  );
+});
+
+test('buildLearningAnalytics counts only graded reviews', () => {
+  const analytics = buildLearningAnalytics({
+    logs: [
+      log('a', 'good', '2026-05-10T08:00:00.000Z'),
+      log('a', 'schedule_change', '2026-05-10T09:00:00.000Z'),
+      log('a', 'easy', '2026-05-11T08:00:00.000Z'),
+    ],
+    cards: [],
+    timezone,
+    now: '2026-05-11T10:00:00.000Z',
+  });
+  assert.equal(analytics.reviewCount, 2);
+  assert.deepEqual(analytics.streak, { current: 2, longest: 2, reviewedToday: true, activeDays: 2 });
+  assert.equal(analytics.forecast.length, 30);
+});
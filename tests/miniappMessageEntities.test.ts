@@ -0,0 +1,73 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+
+import {
+  buildFormattedNodes,
+  getCardFormattedText,
+  getEntityHref,
+  getFaceEntities,
+} from '../miniapp-src/src/messageEntities';
+
+test('buildFormattedNodes nests entities and cuts the one that crosses its sibling', () => {
+  const text = 'Читать docs 😀 сейчас';
+  const nodes = buildFormattedNodes(text, [
+    { type: 'bold', offset: 0, length: 11 },
+    { type: 'text_link', offset: 7, length: 4, url: 'https://example.com' },
+    { type: 'custom_emoji', offset: 12, length: 2, custom_emoji_id: '42' },
+    { type: 'italic', offset: 9, length: 20 },
+  ]);
+  assert.deepEqual(nodes, [
+    {
+      entity: { type: 'bold', offset: 0, length: 11 },
+      children: [
+        'Читать ',
+        {
+          entity: { type: 'text_link', offset: 7, length: 4, url: 'https://example.com' },
+          children: ['do', { entity: { type: 'italic', offset: 9, length: 2 }, children: ['cs'] }],
+        },
+      ],
+    },
+    {
+      entity: { type: 'italic', offset: 11, length: 10 },
+      children: [
+        ' ',
+        { entity: { type: 'custom_emoji', offset: 12, length: 2, custom_emoji_id: '42' }, children: ['😀'] },
+        ' сейчас',
+      ],
+    },
+  ]);
+  assert.deepEqual(buildFormattedNodes('plain', []), ['plain']);
+  assert.deepEqual(buildFormattedNodes('', null), []);
+});
+
+test('getEntityHref keeps only safe link targets', () => {
+  assert.equal(getEntityHref({ type: 'text_link', offset: 0, length: 1, url: 'javascript:alert(1)' }, 'x'), null);
+  assert.equal(getEntityHref({ type: 'url', offset: 0, length: 11 }, 'example.com'), 'https://example.com');
+  assert.equal(getEntityHref({ type: 'mention', offset: 0, length: 5 }, '@durov'), 'https://t.me/durov');
+  assert.equal(getEntityHref({ type: 'bold', offset: 0, length: 1 }, 'x'), null);
+});
+
+test('getCardFormattedText uses caption entities only while the preview shows the caption', () => {
+  const entities = [{ type: 'bold', offset: 0, length: 5 }];
+  const contentPayload = JSON.stringify({ caption: 'Схема метро ', entities, transcript: 'Голос' });
+  assert.deepEqual(getCardFormattedText({ contentType: 'photo', contentPreview: 'Схема метро', contentPayload }), {
+    text: 'Схема метро ',
+    entities,
+  });
+  assert.deepEqual(getCardFormattedText({ contentType: 'voice', contentPreview: 'Голос', contentPayload }), {
+    text: 'Голос',
+    entities: [],
+  });
+});
+
+test('getFaceEntities moves entities of the whole text to each side', () => {
+  const card = {
+    contentType: 'text',
+    contentPreview: 'hola\n---\nпривет',
+    contentPayload: JSON.stringify({ entities: [{ type: 'italic', offset: 2, length: 12 }] }),
+  };
+  assert.deepEqual(getFaceEntities(card, { kind: 'front_back', front: 'hola', back: 'привет' }), {
+    front: [{ type: 'italic', offset: 2, length: 2 }],
+    back: [{ type: 'italic', offset: 0, length: 5 }],
+  });
+});
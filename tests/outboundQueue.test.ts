@@ -0,0 +1,103 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { OutboundQueue, isQueuedMethod, withSendPriority } from '../src/outboundQueue';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const createClockQueue = (limits: { globalPerSecond: number; privatePerSecond: number; groupPerMinute: number }) => {
+  const clock = { now: 0 };
+  return { clock, queue: new OutboundQueue(limits, () => clock.now) };
+};
+
+test('isQueuedMethod queues message sends and edits only', () => {
+  assert.equal(isQueuedMethod('sendMessage'), true);
+  assert.equal(isQueuedMethod('copyMessages'), true);
+  assert.equal(isQueuedMethod('editMessageReplyMarkup'), true);
+  assert.equal(isQueuedMethod('answerCbQuery'), false);
+  assert.equal(isQueuedMethod('getUpdates'), false);
+});
+
+test('interactive sends overtake queued reminders when the global bucket is empty', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { clock, queue } = createClockQueue({ globalPerSecond: 1, privatePerSecond: 1, groupPerMinute: 20 });
+  const sent: string[] = [];
+  const send = (chatId: number, label: string) =>
+    queue.enqueue({
+      method: 'sendMessage',
+      payload: { chat_id: chatId },
+      execute: async () => {
+        sent.push(label);
+      },
+    });
+
+  const first = send(1, 'first');
+  const bulk = withSendPriority('bulk', () => send(2, 'bulk'));
+  const scheduled = withSendPriority('scheduled', () => send(3, 'scheduled'));
+  const interactive = send(4, 'interactive');
+  await first;
+  assert.deepEqual(sent, ['first']);
+  assert.equal(queue.size, 3);
+
+  for (let step = 0; step < 3; step += 1) {
+    clock.now += 1000;
+    t.mock.timers.tick(1000);
+    await flush();
+  }
+  await Promise.all([bulk, scheduled, interactive]);
+  assert.deepEqual(sent, ['first', 'interactive', 'scheduled', 'bulk']);
+});
+
+test('group chats are limited per minute and keep their send order', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { clock, queue } = createClockQueue({ globalPerSecond: 30, privatePerSecond: 1, groupPerMinute: 2 });
+  const sent: number[] = [];
+  const sends = [1, 2, 3].map((index) =>
+    queue.enqueue({
+      method: 'sendMessage',
+      payload: { chat_id: '-100500' },
+      execute: async () => {
+        sent.push(index);
+      },
+    }),
+  );
+  await flush();
+  await flush();
+  assert.deepEqual(sent, [1, 2]);
+
+  clock.now += 30_000;
+  t.mock.timers.tick(30_000);
+  await Promise.all(sends);
+  assert.deepEqual(sent, [1, 2, 3]);
+});
+
+test('a 429 pauses the chat for retry_after and retries the same send', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { clock, queue } = createClockQueue({ globalPerSecond: 30, privatePerSecond: 1, groupPerMinute: 20 });
+  let calls = 0;
+  const result = queue.enqueue({
+    method: 'sendMessage',
+    payload: { chat_id: 7 },
+    execute: async () => {
+      calls += 1;
+      if (calls === 1) {
+        throw Object.assign(new Error('429: Too Many Requests: retry after 5'), {
+          response: { ok: false, error_code: 429, description: 'Too Many Requests', parameters: { retry_after: 5 } },
+        });
+      }
+      return { message_id: 10 };
+    },
+  });
+  await flush();
+  await flush();
+  assert.equal(calls, 1);
+
+  clock.now += 4000;
+  t.mock.timers.tick(4000);
+  await flush();
+  assert.equal(calls, 1);
+
+  clock.now += 1000;
+  t.mock.timers.tick(1000);
+  assert.deepEqual(await result, { message_id: 10 });
+  assert.equal(calls, 2);
+});
@@ -0,0 +1,55 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { CardRecord } from '../src/db';
+import { buildDigestText, nextDigestAt, parseDigestCommand, splitDigestSlots } from '../src/reminderDigest';
+
+const timezone = 'Asia/Tbilisi';
+
+test('parseDigestCommand reads status, a send time and off', () => {
+  assert.deepEqual(parseDigestCommand(''), { action: 'status' });
+  assert.deepEqual(parseDigestCommand('9:30'), { action: 'enable', sendAtMinutes: 570 });
+  assert.deepEqual(parseDigestCommand('OFF'), { action: 'disable' });
+  assert.equal(parseDigestCommand('25:00'), null);
+  assert.equal(parseDigestCommand('morning'), null);
+});
+
+test('nextDigestAt is the next local send time after now', () => {
+  const now = '2026-05-13T08:00:00.000Z'; // 12:00 Asia/Tbilisi
+  assert.equal(nextDigestAt(18 * 60, { now, timezone }), '2026-05-13T14:00:00.000Z');
+  assert.equal(nextDigestAt(9 * 60, { now, timezone }), '2026-05-14T05:00:00.000Z');
+  assert.equal(nextDigestAt(12 * 60, { now, timezone }), '2026-05-14T08:00:00.000Z');
+});
+
+test('nextDigestAt keeps the local send time across DST changes', () => {
+  // Europe/Berlin moves to CEST on 2026-03-29 and back to CET on 2026-10-25.
+  const berlin = 'Europe/Berlin';
+  assert.equal(
+    nextDigestAt(9 * 60, { now: '2026-10-24T20:00:00.000Z', timezone: berlin }),
+    '2026-10-25T08:00:00.000Z',
+  );
+  assert.equal(
+    nextDigestAt(9 * 60, { now: '2026-03-28T20:00:00.000Z', timezone: berlin }),
+    '2026-03-29T07:00:00.000Z',
+  );
+});
+
+test('buildDigestText numbers the cards and shows only the question of a card with an answer', () => {
+  const card = (id: string, contentPreview: string, contentPayload: string | null = null) =>
+    ({ id, contentType: 'text', contentPreview, contentPayload }) as CardRecord;
+  const faces = JSON.stringify({ faces: { kind: 'front_back', front: 'Столица Франции?', back: 'Париж' } });
+  const text = buildDigestText(
+    [card('a', 'hola\nпривет'), card('b', 'Столица Франции?\n---\nПариж', faces)],
+    2,
+  );
+  assert.equal(
+    text,
+    '📬 Сводка повторений: 2\n\n1. hola привет\n2. Столица Франции?\n\n…и ещё 2 — в следующей сводке или в очереди приложения.',
+  );
+});
+
+test('splitDigestSlots keeps half of the digest for new reviews while leftovers wait', () => {
+  assert.deepEqual(splitDigestSlots({ limit: 20, carriedOver: 30, fresh: 15 }), { carriedOver: 10, fresh: 10 });
+  assert.deepEqual(splitDigestSlots({ limit: 20, carriedOver: 30, fresh: 4 }), { carriedOver: 16, fresh: 4 });
+  assert.deepEqual(splitDigestSlots({ limit: 20, carriedOver: 3, fresh: 40 }), { carriedOver: 3, fresh: 17 });
+  assert.deepEqual(splitDigestSlots({ limit: 20, carriedOver: 0, fresh: 0 }), { carriedOver: 0, fresh: 0 });
+});
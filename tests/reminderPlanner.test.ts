@@ -3,8 +3,13 @@ import { test } from 'node:test';
 import dayjs from 'dayjs';
 import {
   DeliverySettings,
+  nextActiveDayStart,
+  parseWeekdayActiveHours,
+  planBacklogSpread,
   planReminderDelivery,
   planReminderRebalance,
+  planUnderDailyLimit,
+  startOfLocalDay,
 } from '../src/reminderPlanner';
 
 const settings: DeliverySettings = {
@@ -82,3 +87,90 @@ test('planReminderRebalance distributes a crowded batch without mutating fixed r
     ],
   );
 });
+
+test('startOfLocalDay and nextActiveDayStart follow the user timezone', () => {
+  const at = '2026-05-13T21:30:00.000Z'; // 01:30 May 14 Asia/Tbilisi
+  assert.equal(startOfLocalDay(at, settings.timezone), '2026-05-13T20:00:00.000Z');
+  assert.equal(nextActiveDayStart(at, settings), '2026-05-15T06:00:00.000Z'); // 10:00 May 15
+});
+
+const eveningsOnWeekdays: DeliverySettings = {
+  ...settings,
+  // Sunday first: weekends 10:00-22:00, weekdays 18:00-22:00, Saturdays off.
+  weekdayHours: [
+    { start: 10 * 60, end: 22 * 60 },
+    { start: 18 * 60, end: 22 * 60 },
+    { start: 18 * 60, end: 22 * 60 },
+    { start: 18 * 60, end: 22 * 60 },
+    { start: 18 * 60, end: 22 * 60 },
+    { start: 18 * 60, end: 22 * 60 },
+    null,
+  ],
+};
+
+test('planReminderDelivery follows the weekday profile and skips days off', () => {
+  // Wednesday 12:00 Asia/Tbilisi waits for the evening window.
+  assert.equal(
+    planReminderDelivery({ dueAt: '2026-05-13T08:00:00.000Z', existingScheduledAt: [], settings: eveningsOnWeekdays }),
+    '2026-05-13T14:00:00.000Z',
+  );
+  // Friday 23:00 skips the Saturday off and lands on Sunday morning.
+  assert.equal(
+    planReminderDelivery({ dueAt: '2026-05-15T19:00:00.000Z', existingScheduledAt: [], settings: eveningsOnWeekdays }),
+    '2026-05-17T06:00:00.000Z',
+  );
+  assert.equal(nextActiveDayStart('2026-05-15T10:00:00.000Z', eveningsOnWeekdays), '2026-05-17T06:00:00.000Z');
+});
+
+test('parseWeekdayActiveHours needs seven valid entries and one active day', () => {
+  assert.equal(parseWeekdayActiveHours(null), null);
+  assert.deepEqual(parseWeekdayActiveHours(eveningsOnWeekdays.weekdayHours), eveningsOnWeekdays.weekdayHours);
+  assert.equal(parseWeekdayActiveHours([{ start: 600, end: 1320 }]), undefined);
+  assert.equal(parseWeekdayActiveHours(Array(7).fill(null)), undefined);
+  assert.equal(parseWeekdayActiveHours([...Array(6).fill(null), { start: 900, end: 600 }]), undefined);
+});
+
+test('planBacklogSpread puts an equal share of the backlog on each active day', () => {
+  const jobs = Array.from({ length: 6 }, (_value, index) => ({
+    id: `job-${index}`,
+    dueAt: `2026-05-0${index + 1}T08:00:00.000Z`,
+    scheduledAt: `2026-05-0${index + 1}T08:00:00.000Z`,
+  }));
+  const changes = planBacklogSpread({
+    jobs,
+    fixedScheduledAt: [],
+    settings,
+    startAt: '2026-05-13T19:00:00.000Z', // 23:00 Asia/Tbilisi, after the window
+    spreadDays: 3,
+  });
+  const days = changes.map((change) => startOfLocalDay(change.afterScheduledAt, settings.timezone));
+  assert.deepEqual(
+    changes.map((change) => change.id),
+    jobs.map((job) => job.id),
+  );
+  assert.deepEqual(days, [
+    '2026-05-13T20:00:00.000Z',
+    '2026-05-13T20:00:00.000Z',
+    '2026-05-14T20:00:00.000Z',
+    '2026-05-14T20:00:00.000Z',
+    '2026-05-15T20:00:00.000Z',
+    '2026-05-15T20:00:00.000Z',
+  ]);
+  assert.equal(changes[0]?.afterScheduledAt, '2026-05-14T06:00:00.000Z');
+  assert.equal(changes[1]?.afterScheduledAt, '2026-05-14T06:30:00.000Z');
+});
+
+test('planUnderDailyLimit moves a review to the next day that still has room', () => {
+  const dueAt = '2026-05-13T08:00:00.000Z'; // 12:00 Asia/Tbilisi
+  assert.equal(planUnderDailyLimit({ dueAt, limit: null, takenAt: [dueAt, dueAt], settings }), dueAt);
+  assert.equal(planUnderDailyLimit({ dueAt, limit: 3, takenAt: [dueAt, dueAt], settings }), dueAt);
+  assert.equal(
+    planUnderDailyLimit({ dueAt, limit: 2, takenAt: ['2026-05-13T06:00:00.000Z', '2026-05-13T17:00:00.000Z'], settings }),
+    '2026-05-14T06:00:00.000Z',
+  );
+  // The next day is full as well, so the review lands on the day after.
+  assert.equal(
+    planUnderDailyLimit({ dueAt, limit: 1, takenAt: ['2026-05-13T06:00:00.000Z', '2026-05-14T07:00:00.000Z'], settings }),
+    '2026-05-15T06:00:00.000Z',
+  );
+});
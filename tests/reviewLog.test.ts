@@ -0,0 +1,31 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { computeReviewLogMetrics } from '../src/db';
+
+test('computeReviewLogMetrics measures intervals, elapsed days and button latency', () => {
+  const metrics = computeReviewLogMetrics({
+    previousReviewedAt: '2026-05-10T08:00:00.000Z',
+    previousNextReviewAt: '2026-05-13T08:00:00.000Z',
+    sentAt: '2026-05-13T09:00:00.000Z',
+    reviewedAt: '2026-05-13T09:00:42.000Z',
+    nextReviewAt: '2026-05-20T09:00:42.000Z',
+  });
+  assert.equal(metrics.previousIntervalDays, 3);
+  assert.equal(metrics.nextIntervalDays, 7);
+  assert.equal(metrics.elapsedDays, 3.042);
+  assert.equal(metrics.latencyMs, 42_000);
+});
+
+test('computeReviewLogMetrics leaves unknown values empty for a first review', () => {
+  const metrics = computeReviewLogMetrics({
+    previousReviewedAt: null,
+    previousNextReviewAt: '2026-05-13T08:00:00.000Z',
+    sentAt: null,
+    reviewedAt: '2026-05-13T09:00:00.000Z',
+    nextReviewAt: '2026-05-14T09:00:00.000Z',
+  });
+  assert.equal(metrics.previousIntervalDays, null);
+  assert.equal(metrics.nextIntervalDays, 1);
+  assert.equal(metrics.elapsedDays, null);
+  assert.equal(metrics.latencyMs, null);
+});
@@ -1,7 +1,10 @@
 import { strict as assert } from 'node:assert';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { test } from 'node:test';
 import { CardRecord, ReminderJobRecord } from '../src/db';
 import { ReviewScheduler } from '../src/reviewScheduler';
+import { createCard } from './helpers/cards';
 
 type SendMessageArgs = [string | number, string, Record<string, unknown> | undefined];
 type TelegramReply = { message_id: number; reply_to_message?: { message_id?: number; chat?: { id?: string | number } } };
@@ -20,40 +23,10 @@ type MockStoreCalls = {
   setBaseChannelMessage: Array<[string, number | null]>;
   markAwaitingGrade: unknown[];
   recordNotification: unknown[];
-  failReminderJob: Array<[string, string]>;
+  recordReminderJobFailure: Array<{ jobId: string; error: string; retryAt: string | null }>;
   createReminderJob: unknown[];
 };
 
-const createCard = (overrides: Partial<CardRecord> = {}): CardRecord => ({
-  id: 'card-test',
-  userId: '111',
-  queueScopeType: 'user',
-  queueScopeId: '111',
-  sourceChatId: '-100111',
-  sourceMessageId: 11,
-  sourceMessageIds: null,
-  contentType: 'text',
-  contentPreview: 'Тестовый текст',
-  contentFileId: null,
-  contentFileUniqueId: null,
-  reminderMode: 'sm2',
-  scheduleRule: null,
-  status: 'learning',
-  repetition: 0,
-  nextReviewAt: null,
-  lastReviewedAt: null,
-  pendingChannelId: null,
-  pendingChannelMessageId: null,
-  baseChannelMessageId: null,
-  awaitingGradeSince: null,
-  lastNotificationAt: null,
-  lastNotificationReason: null,
-  lastNotificationMessageId: null,
-  createdAt: new Date().toISOString(),
-  updatedAt: new Date().toISOString(),
-  ...overrides,
-});
-
 const createJob = (
   card: CardRecord,
   overrides: Partial<ReminderJobRecord> = {},
@@ -77,6 +50,10 @@ const createJob = (
     baseMessageId: null,
     snoozedFromJobId: null,
     error: null,
+    attempts: 0,
+    deadLetteredAt: null,
+    newCard: false,
+    digestId: null,
     metadata: null,
     createdAt: now,
     updatedAt: now,
@@ -95,7 +72,7 @@ const createStore = (params: {
     setBaseChannelMessage: [],
     markAwaitingGrade: [],
     recordNotification: [],
-    failReminderJob: [],
+    recordReminderJobFailure: [],
     createReminderJob: [],
   };
   const notificationChatId = params.userNotificationChatId ?? '-1000000000001';
@@ -132,8 +109,9 @@ const createStore = (params: {
       recordNotification: async (input: unknown) => {
         calls.recordNotification.push(input);
       },
-      failReminderJob: async (id: string, error: string) => {
-        calls.failReminderJob.push([id, error]);
+      recordReminderJobFailure: async (input: { jobId: string; error: string; retryAt: string | null }) => {
+        calls.recordReminderJobFailure.push(input);
+        return null;
       },
       createReminderJob: async (input: unknown) => {
         calls.createReminderJob.push(input);
@@ -287,6 +265,29 @@ test('sendReminderJobToChannel без базы отправляет сохран
   });
 });
 
+test('sendReminderJobToChannel для карточки с ответом отправляет только вопрос и кнопку показа ответа', async () => {
+  const card = createCard({
+    contentPreview: 'Столица Грузии — {{c1::Тбилиси}}',
+    contentPayload: JSON.stringify({
+      faces: { kind: 'cloze', front: 'Столица Грузии — […]', back: 'Столица Грузии — [Тбилиси]' },
+    }),
+  });
+  const job = createJob(card);
+  const store = createStore({ cardById: card });
+  const telegram = createTelegram();
+  const scheduler = new ReviewScheduler(store.mock as any, telegram.mock);
+
+  await (scheduler as any).sendReminderJobToChannel({ job, card });
+
+  assert.equal(telegram.calls.sendMessage.length, 1);
+  assert.equal(telegram.calls.sendMessage[0]?.[1], 'Столица Грузии — […]');
+  const keyboard = (telegram.calls.sendMessage[0]?.[2]?.reply_markup as {
+    inline_keyboard: Array<Array<{ text: string; callback_data: string }>>;
+  }).inline_keyboard;
+  assert.equal(keyboard[0]?.[0]?.callback_data, `review_reveal|${job.id}`);
+  assert.ok(!keyboard.flat().some((button) => button.callback_data.startsWith('grade|')));
+});
+
 test('sendReminderJobToChannel для chat-scoped карточки отправляет в чат очереди', async () => {
   const card = createCard({
     queueScopeType: 'chat',
@@ -358,6 +359,26 @@ test('sendReminderJobToChannel для text не копирует source message,
   assert.equal(store.calls.markAwaitingGrade.length, 1);
 });
 
+test('sendReminderJobToChannel отправляет сохранённый текст с форматированием исходного сообщения', async () => {
+  const entities = [
+    { type: 'bold', offset: 0, length: 7 },
+    { type: 'text_link', offset: 8, length: 4, url: 'https://example.com' },
+    { type: 'spoiler', offset: 40, length: 5 },
+  ];
+  const card = createCard({
+    baseChannelMessageId: null,
+    contentPreview: 'Preview text',
+    contentPayload: JSON.stringify({ entities }),
+  });
+  const store = createStore({ cardById: card });
+  const telegram = createTelegram({ sendMessage: async () => ({ message_id: 402 }) });
+  const scheduler = new ReviewScheduler(store.mock as any, telegram.mock);
+
+  await (scheduler as any).sendReminderJobToChannel({ job: createJob(card), card });
+
+  assert.deepEqual(telegram.calls.sendMessage[0]?.[2]?.entities, entities.slice(0, 2));
+});
+
 test('sendReminderJobToChannel после пустого copyMessages падает до сохранённого текста', async () => {
   const card = createCard({
     baseChannelMessageId: null,
@@ -384,33 +405,278 @@ test('sendReminderJobToChannel после пустого copyMessages падае
   assert.deepEqual(store.calls.setBaseChannelMessage, [[card.id, 501]]);
 });
 
-test('sendReminderJobToChannel уведомляет и планирует retry при полном фейле', async () => {
+test('sendReminderJobToChannel пересоздаёт опрос и документ из сохранённых данных', async () => {
+  const poll = createCard({
+    baseChannelMessageId: null,
+    contentType: 'poll',
+    contentPreview: '📊 Столица Испании?\n• Мадрид\n• Барселона',
+    contentPayload: JSON.stringify({
+      poll: {
+        question: 'Столица Испании?',
+        options: ['Мадрид', 'Барселона'],
+        type: 'quiz',
+        isAnonymous: true,
+        allowsMultipleAnswers: false,
+        correctOptionId: 0,
+        explanation: null,
+      },
+    }),
+  });
+  const telegram = createTelegram({
+    copyMessage: async () => {
+      throw new Error('source deleted');
+    },
+  });
+  const sent: Array<[string, unknown[]]> = [];
+  Object.assign(telegram.mock.telegram, {
+    sendQuiz: async (...args: unknown[]) => {
+      sent.push(['sendQuiz', args]);
+      return { message_id: 701 };
+    },
+    sendDocument: async (...args: unknown[]) => {
+      sent.push(['sendDocument', args]);
+      return { message_id: 702 };
+    },
+  });
+  const pollStore = createStore({ cardById: poll });
+  await (new ReviewScheduler(pollStore.mock as any, telegram.mock) as any).sendReminderJobToChannel({
+    job: createJob(poll),
+    card: poll,
+  });
+  assert.equal(sent[0]?.[0], 'sendQuiz');
+  assert.deepEqual(sent[0]?.[1].slice(1, 3), ['Столица Испании?', ['Мадрид', 'Барселона']]);
+  assert.equal((sent[0]?.[1][3] as { correct_option_id?: number }).correct_option_id, 0);
+  assert.deepEqual(pollStore.calls.setBaseChannelMessage, [[poll.id, 701]]);
+
+  const document = createCard({
+    id: 'card-document',
+    baseChannelMessageId: null,
+    contentType: 'document',
+    contentPreview: '[Файл] report.pdf',
+    contentFileId: 'doc-file',
+  });
+  const documentStore = createStore({ cardById: document });
+  await (new ReviewScheduler(documentStore.mock as any, telegram.mock) as any).sendReminderJobToChannel({
+    job: createJob(document),
+    card: document,
+  });
+  assert.equal(sent[1]?.[0], 'sendDocument');
+  assert.equal(sent[1]?.[1][1], 'doc-file');
+  assert.equal((sent[1]?.[1][2] as { caption?: string }).caption, '[Файл] report.pdf');
+  assert.deepEqual(documentStore.calls.setBaseChannelMessage, [[document.id, 702]]);
+});
+
+test('sendReminderJobToChannel пересобирает альбом из сохранённых файлов, если исходники удалены', async () => {
+  const card = createCard({
+    baseChannelMessageId: null,
+    sourceMessageIds: [11, 12],
+    contentType: 'photo',
+    contentPreview: 'Схема метро',
+    contentFileId: 'photo-1',
+    contentFileUniqueId: 'unique-1',
+    contentPayload: JSON.stringify({
+      caption: 'Схема метро',
+      entities: [{ type: 'bold', offset: 0, length: 5 }],
+      album: [
+        { type: 'photo', fileId: 'photo-1', fileUniqueId: 'unique-1' },
+        { type: 'video', fileId: 'video-2', fileUniqueId: 'unique-2' },
+      ],
+    }),
+  });
+  const store = createStore({ cardById: card });
+  const telegram = createTelegram({
+    copyMessages: async () => {
+      throw new Error('message to copy not found');
+    },
+  });
+  const albums: unknown[][] = [];
+  Object.assign(telegram.mock.telegram, {
+    sendMediaGroup: async (_chatId: string, media: unknown[]) => {
+      albums.push(media);
+      return [{ message_id: 801 }, { message_id: 802 }];
+    },
+  });
+
+  await (new ReviewScheduler(store.mock as any, telegram.mock) as any).sendReminderJobToChannel({
+    job: createJob(card),
+    card,
+  });
+
+  assert.deepEqual(albums[0], [
+    {
+      type: 'photo',
+      media: 'photo-1',
+      caption: 'Схема метро',
+      caption_entities: [{ type: 'bold', offset: 0, length: 5 }],
+    },
+    { type: 'video', media: 'video-2' },
+  ]);
+  assert.equal(telegram.calls.copyMessage.length, 0);
+  assert.deepEqual(store.calls.setBaseChannelMessage, [[card.id, 802]]);
+  assert.equal(telegram.calls.callApi[0]?.[1].reply_to_message_id, 802);
+});
+
+test('sendReminderJobToChannel загружает файл из хранилища медиа, если file_id больше не работает', async () => {
+  const card = createCard({
+    baseChannelMessageId: null,
+    contentType: 'photo',
+    contentPreview: 'Расписание',
+    contentFileId: 'stale-file',
+    contentFileUniqueId: 'unique-1',
+    mediaMirroredAt: '2026-05-01T08:00:00.000Z',
+  });
+  const store = createStore({ cardById: card });
+  const telegram = createTelegram({
+    copyMessage: async () => {
+      throw new Error('message to copy not found');
+    },
+  });
+  const photos: Array<[unknown, Record<string, unknown>]> = [];
+  Object.assign(telegram.mock.telegram, {
+    sendPhoto: async (_chatId: string, media: unknown, extra: Record<string, unknown>) => {
+      photos.push([media, extra]);
+      if (media === 'stale-file') {
+        throw { response: { error_code: 400, description: 'Bad Request: wrong file identifier/HTTP URL specified' } };
+      }
+      return { message_id: 901 };
+    },
+  });
+  const requestedKeys: string[] = [];
+  const mediaStore = {
+    provider: 'test',
+    put: async () => {},
+    get: async (key: string) => {
+      requestedKeys.push(key);
+      return Buffer.from('jpeg');
+    },
+  };
+
+  await (new ReviewScheduler(store.mock as any, telegram.mock, mediaStore) as any).sendReminderJobToChannel({
+    job: createJob(card),
+    card,
+  });
+
+  assert.deepEqual(requestedKeys, ['cards/unique-1']);
+  assert.equal(photos.length, 2);
+  assert.deepEqual(photos[1]?.[0], { source: Buffer.from('jpeg'), filename: 'photo' });
+  assert.equal(photos[1]?.[1].caption, 'Расписание');
+  assert.deepEqual(store.calls.setBaseChannelMessage, [[card.id, 901]]);
+});
+
+test('mirrorCardMedia откладывает повтор при временной ошибке и сдаётся при постоянной', async () => {
+  const flaky = createCard({ id: 'mirror-1', contentType: 'photo', contentFileId: 'file-1', mediaMirrorAttempts: 1 });
+  const tooBig = createCard({ id: 'mirror-2', contentType: 'document', contentFileId: 'file-2' });
+  const failures: Array<{ cardId: string; error: string; retryAt: string | null }> = [];
+  const store = {
+    listCardsToMirror: async () => [flaky, tooBig],
+    recordCardMediaMirrorFailure: async (input: { cardId: string; error: string; retryAt: string | null }) => {
+      failures.push(input);
+    },
+  };
+  const telegram = createTelegram();
+  Object.assign(telegram.mock.telegram, {
+    getFileLink: async (fileId: string) => {
+      if (fileId === 'file-1') throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      throw { response: { error_code: 400, description: 'Bad Request: file is too big' } };
+    },
+  });
+  const mediaStore = { provider: 'test', put: async () => {}, get: async () => null };
+  const startedAt = Date.now();
+
+  await (new ReviewScheduler(store as any, telegram.mock, mediaStore) as any).mirrorCardMedia();
+
+  assert.equal(failures.length, 2);
+  assert.equal(failures[0]?.cardId, 'mirror-1');
+  assert.ok(failures[0]?.retryAt);
+  // The second failed attempt waits 4 minutes.
+  assert.ok(Date.parse(failures[0]!.retryAt!) - startedAt >= 4 * 60_000);
+  assert.deepEqual(failures[1], { cardId: 'mirror-2', error: '[400] Bad Request: file is too big', retryAt: null });
+});
+
+test('mirrorCardMedia откладывает повтор, когда скачивание файла не уложилось в таймаут', async (t) => {
+  // The file server sends headers and never finishes the body.
+  const server = createServer((_request, response) => {
+    response.writeHead(200, { 'content-type': 'image/jpeg' });
+    response.write('jp');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  const { port } = server.address() as AddressInfo;
+  const timeout = AbortSignal.timeout.bind(AbortSignal);
+  t.mock.method(AbortSignal, 'timeout', () => timeout(50));
+
+  const card = createCard({ id: 'mirror-3', contentType: 'photo', contentFileId: 'file-3' });
+  const failures: Array<{ cardId: string; error: string; retryAt: string | null }> = [];
+  const store = {
+    listCardsToMirror: async () => [card],
+    recordCardMediaMirrorFailure: async (input: { cardId: string; error: string; retryAt: string | null }) => {
+      failures.push(input);
+    },
+  };
+  const telegram = createTelegram();
+  Object.assign(telegram.mock.telegram, {
+    getFileLink: async () => new URL(`http://127.0.0.1:${port}/file/photos/file-3.jpg`),
+  });
+  const mediaStore = { provider: 'test', put: async () => {}, get: async () => null };
+
+  await (new ReviewScheduler(store as any, telegram.mock, mediaStore) as any).mirrorCardMedia();
+
+  assert.equal(failures.length, 1);
+  assert.equal(failures[0]?.cardId, 'mirror-3');
+  assert.ok(failures[0]?.retryAt);
+});
+
+test('sendReminderJobToChannel при временной ошибке ставит ту же задачу на повтор с backoff', async () => {
   const card = createCard({ id: 'critical-1', baseChannelMessageId: null, contentPreview: 'text' });
+  const job = createJob(card, { kind: 'review', source: 'scheduled', attempts: 2 });
+  const store = createStore({ cardById: card });
+  const telegram = createTelegram({
+    sendMessage: async () => {
+      throw new Error('cannot send base text');
+    },
+  });
+  const scheduler = new ReviewScheduler(store.mock as any, telegram.mock);
+  const startedAt = Date.now();
+
+  await (scheduler as any).sendReminderJobToChannel({ job, card });
+
+  assert.equal(telegram.calls.sendMessage.length, 1);
+  assert.equal(store.calls.recordReminderJobFailure.length, 1);
+  const failure = store.calls.recordReminderJobFailure[0];
+  assert.equal(failure?.jobId, job.id);
+  assert.equal(failure?.error, 'cannot send base text');
+  // третья неудачная попытка: 2 мин * 2^2
+  const delay = Date.parse(failure?.retryAt ?? '') - startedAt;
+  assert.ok(delay >= 8 * 60_000 && delay < 9 * 60_000);
+  assert.equal(store.calls.createReminderJob.length, 0);
+  assert.equal(store.calls.markAwaitingGrade.length, 0);
+});
+
+test('sendReminderJobToChannel отправляет задачу в dead-letter при блокировке бота', async () => {
+  const card = createCard({ id: 'blocked-1', baseChannelMessageId: null, contentPreview: 'text' });
   const job = createJob(card, { kind: 'review', source: 'scheduled' });
   const store = createStore({ cardById: card });
-  let sendCount = 0;
   const telegram = createTelegram({
-    sendMessage: async (_chatId, _text, extra) => {
-      sendCount += 1;
-      if (sendCount === 1) {
-        throw new Error('cannot send base text');
-      }
-      return {
-        message_id: 500,
-        ...(extra?.reply_parameters ? { reply_to_message: { message_id: 1 } } : {}),
-      };
+    sendMessage: async () => {
+      throw Object.assign(new Error('403: Forbidden: bot was blocked by the user'), {
+        code: 403,
+        response: { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' },
+      });
     },
   });
   const scheduler = new ReviewScheduler(store.mock as any, telegram.mock);
 
   await (scheduler as any).sendReminderJobToChannel({ job, card });
 
+  assert.deepEqual(store.calls.recordReminderJobFailure, [
+    { jobId: job.id, error: '[403] Forbidden: bot was blocked by the user', retryAt: null },
+  ]);
+  // уведомление о потерянном напоминании — вторая (тоже неудачная) отправка
   assert.equal(telegram.calls.sendMessage.length, 2);
-  assert.ok((telegram.calls.sendMessage[1]?.[1] ?? '').includes('critical-1'));
-  assert.equal(store.calls.failReminderJob[0]?.[0], job.id);
-  assert.equal(store.calls.createReminderJob.length, 1);
-  assert.equal((store.calls.createReminderJob[0] as { source: string }).source, 'send_retry');
-  assert.equal(store.calls.markAwaitingGrade.length, 0);
+  assert.ok((telegram.calls.sendMessage[1]?.[1] ?? '').includes('blocked-1'));
 });
 
 test('isMissingReplyTarget распознаёт вложенное описание ошибки Telegram', () => {
@@ -427,3 +693,242 @@ test('isMissingReplyTarget распознаёт вложенное описан
     false,
   );
 });
+
+test('deferOverDailyLimit откладывает review-задачу колоды, исчерпавшей дневной лимит', async () => {
+  const card = createCard({ id: 'deck-card', tags: ['spanish'] });
+  const store = createStore({ cardById: card });
+  const deferred: Array<[string, string]> = [];
+  let exceeded: { tag: string; dailyLimit: number; delivered: number } | null = {
+    tag: 'spanish',
+    dailyLimit: 2,
+    delivered: 2,
+  };
+  Object.assign(store.mock, {
+    getUserReminderSettings: async () => ({
+      timezone: 'UTC',
+      activeHoursStart: 9 * 60,
+      activeHoursEnd: 21 * 60,
+      minGapMinutes: 30,
+    }),
+    findExceededDailyLimit: async () => null,
+    findExceededDeckLimit: async () => exceeded,
+    deferReminderJob: async (id: string, scheduledAt: string) => {
+      deferred.push([id, scheduledAt]);
+    },
+  });
+  const scheduler = new ReviewScheduler(store.mock as any, createTelegram().mock) as any;
+
+  assert.equal(await scheduler.deferOverDailyLimit({ job: createJob(card, { kind: 'manual_now' }), card }), false);
+  assert.equal(await scheduler.deferOverDailyLimit({ job: createJob(card, { kind: 'review' }), card }), true);
+  assert.equal(deferred[0]?.[0], 'job-test');
+  assert.ok((deferred[0]?.[1] ?? '').endsWith('T09:00:00.000Z'));
+  assert.ok(Date.parse(deferred[0]?.[1] ?? '') > Date.now());
+
+  exceeded = null;
+  assert.equal(await scheduler.deferOverDailyLimit({ job: createJob(card, { kind: 'review' }), card }), false);
+  assert.equal(deferred.length, 1);
+});
+
+test('deferOverDailyLimit считает новые карточки отдельно от повторений', async () => {
+  const card = createCard({ id: 'limit-card' });
+  const store = createStore({ cardById: card });
+  const deferred: string[] = [];
+  const checked: boolean[] = [];
+  Object.assign(store.mock, {
+    getUserReminderSettings: async () => ({
+      timezone: 'UTC',
+      activeHoursStart: 9 * 60,
+      activeHoursEnd: 21 * 60,
+      minGapMinutes: 30,
+    }),
+    findExceededDailyLimit: async ({ newCard }: { newCard: boolean }) => {
+      checked.push(newCard);
+      return newCard ? { limit: 5, delivered: 5 } : null;
+    },
+    findExceededDeckLimit: async () => null,
+    deferReminderJob: async (id: string) => {
+      deferred.push(id);
+    },
+  });
+  const scheduler = new ReviewScheduler(store.mock as any, createTelegram().mock) as any;
+
+  assert.equal(await scheduler.deferOverDailyLimit({ job: createJob(card, { kind: 'review', newCard: false }), card }), false);
+  assert.equal(await scheduler.deferOverDailyLimit({ job: createJob(card, { kind: 'review', newCard: true }), card }), true);
+  assert.deepEqual(checked, [false, true]);
+  assert.deepEqual(deferred, ['job-test']);
+});
+
+test('runTick сканирует очередь только на узле с lease и не запускает тики внахлёст', async () => {
+  const store = createStore();
+  let leader = false;
+  const heartbeats: Array<{ nodeId: string; role: string }> = [];
+  Object.assign(store.mock, {
+    acquireSchedulerLease: async () => leader,
+    recordSchedulerHeartbeat: async (node: { nodeId: string; role: string }) => {
+      heartbeats.push(node);
+    },
+  });
+  const scheduler = new ReviewScheduler(store.mock as any, createTelegram().mock) as any;
+  let ticks = 0;
+  let finishTick: () => void = () => {};
+  scheduler.tick = () => {
+    ticks += 1;
+    return new Promise<void>((resolve) => {
+      finishTick = resolve;
+    });
+  };
+
+  await scheduler.runTick();
+  assert.equal(ticks, 0);
+  assert.equal(heartbeats[0]?.role, 'standby');
+
+  leader = true;
+  const running = scheduler.runTick();
+  await new Promise((resolve) => setImmediate(resolve));
+  await scheduler.runTick();
+  assert.equal(ticks, 1);
+  finishTick();
+  await running;
+  assert.deepEqual(
+    heartbeats.map((node) => node.role),
+    ['standby', 'leader'],
+  );
+  assert.ok(heartbeats.every((node) => node.nodeId === heartbeats[0]?.nodeId));
+});
+
+test('sendDigest отправляет одно сообщение со всеми повторениями и убирает кнопки прошлой сводки', async () => {
+  const first = createCard({ id: 'digest-card-1', contentPreview: 'hola' });
+  const second = createCard({ id: 'digest-card-2', contentPreview: 'gato' });
+  const store = createStore();
+  const delivered: Array<{ chatId: string; messageId: number; jobIds: string[] }> = [];
+  const nextAt: string[] = [];
+  Object.assign(store.mock, {
+    getUserReminderSettings: async () => ({ timezone: 'UTC' }),
+    claimDigestReminderJobs: async () => ({
+      items: [
+        {
+          job: createJob(first, {
+            id: 'job-carried',
+            kind: 'review',
+            status: 'awaiting_action',
+            deliveryChatId: '-1000000000001',
+            deliveryMessageId: 77,
+          }),
+          card: first,
+        },
+        { job: createJob(second, { id: 'job-due', kind: 'review', status: 'sending' }), card: second },
+      ],
+      remaining: 3,
+    }),
+    markReminderDigestDelivered: async (input: { chatId: string; messageId: number; jobIds: string[] }) => {
+      delivered.push(input);
+      return 'digest-1';
+    },
+    scheduleNextReminderDigest: async (_scope: unknown, at: string) => {
+      nextAt.push(at);
+    },
+  });
+  const telegram = createTelegram();
+  const edited: unknown[][] = [];
+  telegram.mock.telegram.editMessageReplyMarkup = async (...args: unknown[]) => {
+    edited.push(args);
+  };
+  const scheduler = new ReviewScheduler(store.mock as any, telegram.mock) as any;
+
+  await scheduler.sendDigest({
+    queueScope: { type: 'user', id: '111' },
+    userId: '111',
+    sendAtMinutes: 9 * 60,
+    nextDigestAt: new Date().toISOString(),
+  });
+
+  assert.equal(telegram.calls.sendMessage.length, 1);
+  const [chatId, text, extra] = telegram.calls.sendMessage[0]!;
+  assert.equal(chatId, '-1000000000001');
+  assert.ok(text.includes('1. hola\n2. gato'));
+  assert.ok(text.includes('ещё 3'));
+  const rows = (extra as { reply_markup: { inline_keyboard: Array<Array<{ callback_data?: string }>> } })
+    .reply_markup.inline_keyboard;
+  assert.equal(rows.length, 2);
+  assert.equal(rows[1]?.[2]?.callback_data, 'grade|job-due|good');
+  assert.deepEqual(delivered[0]?.jobIds, ['job-carried', 'job-due']);
+  // Only the newly due review counts as a fresh notification.
+  assert.deepEqual(
+    store.calls.recordNotification.map((input) => (input as { jobId: string }).jobId),
+    ['job-due'],
+  );
+  assert.deepEqual(edited, [['-1000000000001', 77, undefined, undefined]]);
+  assert.ok((nextAt[0] ?? '').endsWith('T09:00:00.000Z'));
+});
+
+test('sendWeeklyReport планирует первый отчёт без отправки и отправляет следующий', async () => {
+  const store = createStore();
+  const nextAt: string[] = [];
+  Object.assign(store.mock, {
+    getUserReminderSettings: async () => ({
+      timezone: 'UTC',
+      activeHoursStart: 10 * 60,
+      activeHoursEnd: 22 * 60,
+      minGapMinutes: 30,
+    }),
+    scheduleNextWeeklyReport: async (_userId: string, at: string) => {
+      nextAt.push(at);
+    },
+    getWeeklyReport: async ({ until }: { until: string }) => ({
+      since: new Date(Date.parse(until) - 7 * 24 * 60 * 60_000).toISOString(),
+      until,
+      timezone: 'UTC',
+      cardsAdded: 4,
+      reviews: 20,
+      againCount: 5,
+      streak: { current: 3, longest: 9, reviewedToday: true, activeDays: 12 },
+      courses: [],
+      upcoming: [],
+    }),
+  });
+  const telegram = createTelegram();
+  const scheduler = new ReviewScheduler(store.mock as any, telegram.mock) as any;
+  const due = { userId: '111', weekday: 0, notificationChatId: '222' };
+
+  await scheduler.sendWeeklyReport({ ...due, nextWeeklyReportAt: null });
+  assert.equal(telegram.calls.sendMessage.length, 0);
+
+  await scheduler.sendWeeklyReport({ ...due, nextWeeklyReportAt: new Date().toISOString() });
+  assert.equal(telegram.calls.sendMessage.length, 1);
+  const [chatId, text] = telegram.calls.sendMessage[0]!;
+  assert.equal(chatId, '222');
+  assert.ok(text.includes('Повторений: 20, «Снова» — 25%'));
+  assert.equal(nextAt.length, 2);
+  assert.equal(new Date(nextAt[1]!).getUTCDay(), 0);
+  assert.ok(nextAt[1]!.endsWith('T10:00:00.000Z'));
+});
+
+test('sendLeechNotice пишет в чат уведомлений и оставляет карточку при временной ошибке', async () => {
+  const store = createStore();
+  const notified: string[] = [];
+  Object.assign(store.mock, {
+    markLeechNoticeSent: async (cardId: string) => {
+      notified.push(cardId);
+    },
+  });
+  let failures = 1;
+  const telegram = createTelegram({
+    sendMessage: async () => {
+      if (failures-- > 0) throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      return { message_id: 77 };
+    },
+  });
+  const scheduler = new ReviewScheduler(store.mock as any, telegram.mock) as any;
+  const card = createCard({ lapses: 8, leechAt: new Date().toISOString() });
+
+  await scheduler.sendLeechNotice({ card, notificationChatId: '222' });
+  assert.deepEqual(notified, []);
+
+  await scheduler.sendLeechNotice({ card, notificationChatId: '222' });
+  assert.deepEqual(notified, ['card-test']);
+  const [chatId, text, extra] = telegram.calls.sendMessage[1]!;
+  assert.equal(chatId, '222');
+  assert.ok(text.includes('«Снова» уже 8 раз'));
+  const callbacks = (extra as any).reply_markup.inline_keyboard.flat().map((button: any) => button.callback_data);
+  assert.deepEqual(callbacks, ['leech|rewrite|card-test', 'leech|split|card-test', 'leech|suspend|card-test', 'leech|archive|card-test']);
+});
@@ -2,6 +2,7 @@ import { strict as assert } from 'node:assert';
 import { test } from 'node:test';
 import { CardRecord, ReminderJobRecord } from '../src/db';
 import { ReviewScheduler } from '../src/reviewScheduler';
+import { createCard } from './helpers/cards';
 
 type CallApiPayload = {
   chat_id: string | number;
@@ -11,35 +12,16 @@ type CallApiPayload = {
   allow_sending_without_reply?: boolean;
 };
 
-const createCard = (overrides: Partial<CardRecord> = {}): CardRecord => ({
-  id: 'album-card',
-  userId: '111',
-  queueScopeType: 'user',
-  queueScopeId: '111',
-  sourceChatId: '222',
-  sourceMessageId: 10,
-  sourceMessageIds: [10, 12, 12, 14],
-  contentType: 'photo',
-  contentPreview: 'Album caption',
-  contentFileId: null,
-  contentFileUniqueId: null,
-  reminderMode: 'sm2',
-  scheduleRule: null,
-  status: 'learning',
-  repetition: 0,
-  nextReviewAt: null,
-  lastReviewedAt: null,
-  pendingChannelId: null,
-  pendingChannelMessageId: null,
-  baseChannelMessageId: null,
-  awaitingGradeSince: null,
-  lastNotificationAt: null,
-  lastNotificationReason: null,
-  lastNotificationMessageId: null,
-  createdAt: new Date().toISOString(),
-  updatedAt: new Date().toISOString(),
-  ...overrides,
-});
+const createAlbumCard = (overrides: Partial<CardRecord> = {}): CardRecord =>
+  createCard({
+    id: 'album-card',
+    sourceChatId: '222',
+    sourceMessageId: 10,
+    sourceMessageIds: [10, 12, 12, 14],
+    contentType: 'photo',
+    contentPreview: 'Album caption',
+    ...overrides,
+  });
 
 const createJob = (card: CardRecord): ReminderJobRecord => {
   const now = new Date().toISOString();
@@ -61,6 +43,10 @@ const createJob = (card: CardRecord): ReminderJobRecord => {
     baseMessageId: null,
     snoozedFromJobId: null,
     error: null,
+    attempts: 0,
+    deadLetteredAt: null,
+    newCard: false,
+    digestId: null,
     metadata: null,
     createdAt: now,
     updatedAt: now,
@@ -68,7 +54,7 @@ const createJob = (card: CardRecord): ReminderJobRecord => {
 };
 
 test('sendReminderJobToChannel copies media groups with copyMessages and replies to the last copied item', async () => {
-  const card = createCard();
+  const card = createAlbumCard();
   const job = createJob(card);
   const targetChatId = '-100target';
   const calls = {
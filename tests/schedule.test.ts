@@ -0,0 +1,170 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import dayjs from 'dayjs';
+import {
+  computeNextFromSchedule,
+  parseNaturalSchedule,
+  parseRRule,
+  remainingScheduleOccurrences,
+  scheduleRuleLabel,
+  type ScheduleRule,
+} from '../src/schedule';
+
+const next = (rule: ScheduleRule, after: string) => {
+  const at = computeNextFromSchedule(rule, dayjs(after));
+  return at ? dayjs(at).format('YYYY-MM-DD HH:mm') : null;
+};
+
+test('parseNaturalSchedule reads the nth and the last weekday of a month', () => {
+  const second = parseNaturalSchedule('каждый 2-й вторник месяца в 19:00');
+  assert.deepEqual(second, { type: 'monthly_weekday', week: 2, weekday: 2, timeMinutes: 19 * 60 });
+  assert.equal(scheduleRuleLabel(second!), 'Каждый месяц: 2-й вторник в 19:00');
+  assert.equal(next(second!, '2026-05-20T08:00:00'), '2026-06-09 19:00');
+
+  const last = parseNaturalSchedule('последняя пятница месяца');
+  assert.deepEqual(last, { type: 'monthly_weekday', week: -1, weekday: 5 });
+  assert.equal(next(last!, '2026-05-20T08:00:00'), '2026-05-29 08:00');
+});
+
+test('parseNaturalSchedule reads days of a month and keeps the time of day without an explicit time', () => {
+  const lastDay = parseNaturalSchedule('последний день месяца');
+  assert.deepEqual(lastDay, { type: 'monthly_day', day: -1 });
+  assert.equal(scheduleRuleLabel(lastDay!), 'Последний день месяца');
+  assert.equal(next(lastDay!, '2027-02-01T10:00:00'), '2027-02-28 10:00');
+
+  const fifteenth = parseNaturalSchedule('15 числа каждого месяца');
+  assert.deepEqual(fifteenth, { type: 'monthly_day', day: 15 });
+  assert.equal(next(fifteenth!, '2026-05-20T08:00:00'), '2026-06-15 08:00');
+});
+
+test('parseNaturalSchedule keeps several times a day, an end date and a number of occurrences', () => {
+  const weekdays = parseNaturalSchedule('по будням в 9:00 и 18:00 до 01.01.2027');
+  assert.deepEqual(weekdays, {
+    type: 'weekdays',
+    days: [1, 2, 3, 4, 5],
+    timesMinutes: [9 * 60, 18 * 60],
+    until: '2027-01-01',
+  });
+  assert.equal(scheduleRuleLabel(weekdays!), 'Пн, Вт, Ср, Чт, Пт в 09:00 и 18:00, до 01.01.2027');
+  assert.equal(next(weekdays!, '2026-05-20T10:00:00'), '2026-05-20 18:00');
+  assert.equal(next(weekdays!, '2026-05-22T18:30:00'), '2026-05-25 09:00');
+  assert.equal(next(weekdays!, '2026-12-31T18:30:00'), '2027-01-01 09:00');
+  assert.equal(next(weekdays!, '2027-01-01T18:30:00'), null);
+
+  const counted = parseNaturalSchedule('каждый день в 9 3 раза');
+  assert.deepEqual(counted, { type: 'days', interval: 1, timeMinutes: 9 * 60, count: 3 });
+  assert.equal(next(counted!, '2026-05-22T08:00:00'), '2026-05-22 09:00');
+  // The first occurrence is scheduled when the rule is set; every review takes one more.
+  assert.equal(remainingScheduleOccurrences(counted!), 2);
+  assert.equal(remainingScheduleOccurrences({ ...counted!, remaining: 0 }), 0);
+  assert.equal(remainingScheduleOccurrences(weekdays!), undefined);
+});
+
+test('parseRRule accepts RFC 5545 rules with DTSTART, BYSETPOS, UNTIL and COUNT', () => {
+  assert.deepEqual(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=2TU;BYHOUR=19;BYMINUTE=0'), {
+    type: 'monthly_weekday',
+    week: 2,
+    weekday: 2,
+    timeMinutes: 19 * 60,
+  });
+  assert.deepEqual(parseRRule('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1'), {
+    type: 'monthly_weekday',
+    week: -1,
+    weekday: 5,
+  });
+  assert.deepEqual(parseRRule('FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20270101T000000Z'), {
+    type: 'weekdays',
+    days: [1, 3, 5],
+    until: '2027-01-01',
+  });
+
+  const counted = parseRRule('DTSTART:20260601T083000\nRRULE:FREQ=DAILY;INTERVAL=2;COUNT=2');
+  assert.equal(counted?.type, 'days');
+  assert.equal(counted?.timeMinutes, 8 * 60 + 30);
+  assert.equal(counted?.count, 2);
+  assert.equal(next(counted!, '2026-06-01T08:00:00'), '2026-06-01 08:30');
+  assert.equal(next(counted!, '2026-06-01T08:30:00'), '2026-06-03 08:30');
+  assert.equal(remainingScheduleOccurrences(counted!), 1);
+
+  assert.equal(parseRRule('FREQ=SECONDLY'), null);
+});
+
+test('parseRRule makes a future DTSTART the earliest occurrence and steps intervals from it', () => {
+  // 2026-06-10 is a Wednesday.
+  const weekly = parseRRule('DTSTART:20260610T090000\nRRULE:FREQ=WEEKLY');
+  assert.equal(next(weekly!, '2026-05-20T08:00:00'), '2026-06-10 09:00');
+  assert.equal(next(weekly!, '2026-06-10T09:00:00'), '2026-06-17 09:00');
+  assert.equal(next(weekly!, '2026-06-20T12:00:00'), '2026-06-24 09:00');
+
+  const byDay = parseRRule('DTSTART:20260610T090000\nRRULE:FREQ=WEEKLY;BYDAY=MO,FR');
+  assert.equal(next(byDay!, '2026-05-20T08:00:00'), '2026-06-12 09:00');
+
+  const monthly = parseRRule('DTSTART:20260131T090000\nRRULE:FREQ=MONTHLY');
+  assert.equal(next(monthly!, '2026-01-01T08:00:00'), '2026-01-31 09:00');
+  assert.equal(next(monthly!, '2026-05-20T08:00:00'), '2026-05-31 09:00');
+
+  const fortnightly = parseRRule('DTSTART;VALUE=DATE:20260603\nRRULE:FREQ=WEEKLY;INTERVAL=2');
+  assert.equal(fortnightly?.timeMinutes, 9 * 60);
+  assert.equal(next(fortnightly!, '2026-06-05T12:00:00'), '2026-06-17 09:00');
+});
+
+test('computeNextFromSchedule reads rule times in the scope timezone, not the server one', () => {
+  const rule: ScheduleRule = { type: 'days', interval: 1, timeMinutes: 9 * 60 };
+  assert.equal(
+    computeNextFromSchedule(rule, dayjs('2026-05-20T04:00:00Z'), 'Asia/Tbilisi'),
+    '2026-05-20T05:00:00.000Z',
+  );
+  assert.equal(
+    computeNextFromSchedule(rule, dayjs('2026-05-20T05:00:00Z'), 'Asia/Tbilisi'),
+    '2026-05-21T05:00:00.000Z',
+  );
+  const lastDay: ScheduleRule = { type: 'monthly_day', day: -1, timeMinutes: 23 * 60 };
+  assert.equal(
+    computeNextFromSchedule(lastDay, dayjs('2026-05-30T12:00:00Z'), 'Pacific/Auckland'),
+    '2026-05-31T11:00:00.000Z',
+  );
+});
+
+test('computeNextFromSchedule keeps the local time across DST changes', () => {
+  const daily: ScheduleRule = { type: 'days', interval: 1, timeMinutes: 9 * 60 };
+  // Europe/Berlin moves to CEST on 2026-03-29 and back to CET on 2026-10-25.
+  assert.equal(
+    computeNextFromSchedule(daily, dayjs('2026-03-28T08:30:00Z'), 'Europe/Berlin'),
+    '2026-03-29T07:00:00.000Z',
+  );
+  assert.equal(
+    computeNextFromSchedule(daily, dayjs('2026-10-24T07:30:00Z'), 'Europe/Berlin'),
+    '2026-10-25T08:00:00.000Z',
+  );
+  assert.equal(
+    computeNextFromSchedule({ type: 'days', interval: 1 }, dayjs('2026-03-28T08:30:00Z'), 'Europe/Berlin'),
+    '2026-03-29T07:30:00.000Z',
+  );
+  assert.equal(
+    // 02:30 does not exist on the night of the change and moves to 03:30 CEST.
+    computeNextFromSchedule(
+      { type: 'weekdays', days: [7], timeMinutes: 2 * 60 + 30 },
+      dayjs('2026-03-28T12:00:00Z'),
+      'Europe/Berlin',
+    ),
+    '2026-03-29T01:30:00.000Z',
+  );
+});
+
+test('parseNaturalSchedule and parseRRule read end dates and DTSTART in the scope timezone', () => {
+  const rule = parseRRule('DTSTART:20260601T050000Z\nRRULE:FREQ=DAILY;UNTIL=20260610T210000Z', 'Asia/Tbilisi');
+  assert.deepEqual(rule, {
+    type: 'days',
+    interval: 1,
+    timeMinutes: 9 * 60,
+    startsAt: '2026-06-01T05:00:00.000Z',
+    until: '2026-06-11',
+  });
+  const weekly = parseNaturalSchedule('каждую неделю в 9:00 до 2026-06-01', 'America/New_York');
+  assert.ok(weekly);
+  assert.equal(computeNextFromSchedule(weekly, dayjs('2026-05-28T14:00:00Z'), 'America/New_York'), null);
+  assert.equal(
+    computeNextFromSchedule(weekly, dayjs('2026-05-25T12:00:00Z'), 'America/New_York'),
+    '2026-05-25T13:00:00.000Z',
+  );
+});
@@ -0,0 +1,77 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import dayjs from 'dayjs';
+import { computeReview, parseGradeKey } from '../src/spacedRepetition';
+import { createCard } from './helpers/cards';
+
+const intervalDays = (nextReviewAt: string) =>
+  Math.round(dayjs(nextReviewAt).diff(dayjs(), 'hour', true) / 24);
+
+test('computeReview moves the ladder interval differently for each grade', () => {
+  const card = createCard({ repetition: 2 });
+  const again = computeReview(card, 'again');
+  const hard = computeReview(card, 'hard');
+  const good = computeReview(card, 'good');
+  const easy = computeReview(card, 'easy');
+
+  assert.deepEqual(
+    [again, hard, good, easy].map((result) => result.repetition),
+    [0, 2, 3, 4],
+  );
+  assert.deepEqual(
+    [again, hard, good, easy].map((result) => intervalDays(result.nextReviewAt)),
+    [1, 3, 7, 14],
+  );
+});
+
+test('computeReview keeps a new card on the first step for hard', () => {
+  const result = computeReview(createCard(), 'hard');
+  assert.equal(result.repetition, 1);
+  assert.equal(intervalDays(result.nextReviewAt), 1);
+});
+
+test('computeReview marks a schedule with no occurrences left as ended', () => {
+  const yesterday = dayjs().subtract(1, 'day').format('YYYY-MM-DD');
+  const ended = computeReview(
+    createCard({
+      reminderMode: 'schedule',
+      scheduleRule: JSON.stringify({ type: 'days', interval: 1, until: yesterday }),
+    }),
+    'good',
+  );
+  assert.equal(ended.scheduleEnded, true);
+  const daily = computeReview(
+    createCard({ reminderMode: 'schedule', scheduleRule: JSON.stringify({ type: 'days', interval: 1 }) }),
+    'good',
+  );
+  assert.equal(daily.scheduleEnded, undefined);
+  assert.equal(intervalDays(daily.nextReviewAt), 1);
+});
+
+test('computeReview counts down the occurrences of a counted schedule, however late the reviews are', () => {
+  const reviewLate = (scheduleRule: string) =>
+    computeReview(
+      createCard({
+        reminderMode: 'schedule',
+        scheduleRule,
+        nextReviewAt: dayjs().subtract(3, 'day').toISOString(),
+      }),
+      'good',
+    );
+  const first = reviewLate(JSON.stringify({ type: 'days', interval: 1, count: 3 }));
+  assert.equal(first.scheduleEnded, undefined);
+  assert.equal(JSON.parse(first.scheduleRule ?? 'null').remaining, 1);
+  const second = reviewLate(first.scheduleRule!);
+  assert.equal(JSON.parse(second.scheduleRule ?? 'null').remaining, 0);
+  const third = reviewLate(second.scheduleRule!);
+  assert.equal(third.scheduleEnded, true);
+  assert.equal(third.scheduleRule, undefined);
+});
+
+test('parseGradeKey accepts four grades and maps legacy ok buttons to good', () => {
+  assert.equal(parseGradeKey('hard'), 'hard');
+  assert.equal(parseGradeKey('easy'), 'easy');
+  assert.equal(parseGradeKey('ok'), 'good');
+  assert.equal(parseGradeKey('meh'), null);
+  assert.equal(parseGradeKey(undefined), null);
+});
@@ -0,0 +1,92 @@
+import { strict as assert } from 'node:assert';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { test } from 'node:test';
+import express from 'express';
+import { Telegraf } from 'telegraf';
+import { startTelegramStandIn } from '../src/telegramStandIn';
+import {
+  buildWebhookUrl,
+  createTelegramWebhookHandler,
+  isValidWebhookSecret,
+  parseUpdatesFile,
+  replayTelegramUpdates,
+  verifyWebhookSecret,
+} from '../src/telegramWebhook';
+
+const textUpdate = (updateId: number, text: string) => ({
+  update_id: updateId,
+  message: {
+    message_id: updateId,
+    date: 1779308000,
+    chat: { id: 111, type: 'private', first_name: 'Demo' },
+    from: { id: 111, is_bot: false, first_name: 'Demo' },
+    text,
+  },
+});
+
+test('webhook secrets follow Telegram rules and compare exactly', () => {
+  assert.equal(isValidWebhookSecret('local_secret-1'), true);
+  assert.equal(isValidWebhookSecret('with space'), false);
+  assert.equal(isValidWebhookSecret(''), false);
+  assert.equal(isValidWebhookSecret(null), false);
+  assert.equal(verifyWebhookSecret('abc', 'abc'), true);
+  assert.equal(verifyWebhookSecret('abcd', 'abc'), false);
+  assert.equal(verifyWebhookSecret(undefined, 'abc'), false);
+  assert.equal(buildWebhookUrl('https://bot.example.com/', '/telegram/webhook'), 'https://bot.example.com/telegram/webhook');
+});
+
+test('parseUpdatesFile reads JSON arrays and JSONL', () => {
+  const updates = [textUpdate(1, 'a'), textUpdate(2, 'b')];
+  assert.deepEqual(parseUpdatesFile(JSON.stringify(updates)), updates);
+  assert.deepEqual(parseUpdatesFile(`${updates.map((update) => JSON.stringify(update)).join('\n')}\n`), updates);
+  assert.deepEqual(parseUpdatesFile('  '), []);
+  assert.throws(() => parseUpdatesFile('{"message":{}}'), /update_id/);
+});
+
+test('replayed updates reach bot handlers through the webhook and the stand-in Bot API', async () => {
+  const standIn = await startTelegramStandIn();
+  const bot = new Telegraf('123:stand-in', { telegram: { apiRoot: standIn.apiRoot } });
+  bot.botInfo = { id: 1, is_bot: true, first_name: 'Stand-in bot', username: 'stand_in_bot' } as any;
+  bot.on('text', (ctx) => ctx.reply(`pong: ${ctx.message.text}`));
+
+  const app = express();
+  app.use(express.json());
+  app.post('/telegram/webhook', createTelegramWebhookHandler(bot, 'local-secret'));
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/telegram/webhook`;
+
+  try {
+    const rejected = await replayTelegramUpdates({ url, secret: 'wrong', updates: [textUpdate(1, 'nope')] });
+    assert.deepEqual(rejected, [{ updateId: 1, status: 401 }]);
+
+    const invalid = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Telegram-Bot-Api-Secret-Token': 'local-secret' },
+      body: JSON.stringify({ message: {} }),
+    });
+    assert.equal(invalid.status, 400);
+
+    const accepted = await replayTelegramUpdates({
+      url,
+      secret: 'local-secret',
+      updates: [textUpdate(2, 'ping'), textUpdate(3, 'again')],
+    });
+    assert.deepEqual(accepted, [
+      { updateId: 2, status: 200 },
+      { updateId: 3, status: 200 },
+    ]);
+    assert.deepEqual(
+      standIn.calls.filter((call) => call.method === 'sendMessage').map((call) => call.payload.text),
+      ['pong: ping', 'pong: again'],
+    );
+  } finally {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+    await standIn.close();
+  }
+});
@@ -0,0 +1,51 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import dayjs from 'dayjs';
+import { parseHouseholdReminderText } from '../src/householdReminder';
+import {
+  createSpeechTranscriber,
+  normalizeTranscript,
+  StubSpeechTranscriber,
+  WhisperCppSpeechTranscriber,
+} from '../src/transcription';
+
+const settings = {
+  provider: 'stub',
+  whisperCppBinary: 'whisper-cli',
+  whisperCppModel: null,
+  ffmpegBinary: 'ffmpeg',
+  language: 'ru',
+  timeoutMs: 1000,
+  stubText: null,
+};
+
+const request = { audio: Buffer.from('ogg'), fileName: null, mimeType: 'audio/ogg' };
+
+test('normalizeTranscript collapses whitespace, drops whisper markers and final period', () => {
+  assert.equal(normalizeTranscript('  Завтра в 10\n позвонить врачу. '), 'Завтра в 10 позвонить врачу');
+  assert.equal(normalizeTranscript('[BLANK_AUDIO]'), null);
+});
+
+test('createSpeechTranscriber uses whisper.cpp only when a model is configured', () => {
+  assert.ok(createSpeechTranscriber(settings) instanceof StubSpeechTranscriber);
+  assert.ok(
+    createSpeechTranscriber({ ...settings, provider: 'whisper_cpp' }) instanceof StubSpeechTranscriber,
+  );
+  assert.ok(
+    createSpeechTranscriber({ ...settings, provider: 'whisper_cpp', whisperCppModel: '/models/small.bin' })
+      instanceof WhisperCppSpeechTranscriber,
+  );
+});
+
+test('stub transcript feeds the household reminder parser', async () => {
+  assert.equal(await new StubSpeechTranscriber().transcribe(request), null);
+
+  const result = await new StubSpeechTranscriber('Завтра в 10 позвонить врачу.').transcribe(request);
+  assert.deepEqual(result, { text: 'Завтра в 10 позвонить врачу', provider: 'stub' });
+
+  const plan = parseHouseholdReminderText(result.text, dayjs('2026-05-20T08:00:00'));
+  assert.ok(plan);
+  assert.equal(plan.mode, 'one_time');
+  assert.equal(plan.title, 'Позвонить врачу');
+  assert.equal(dayjs(plan.remindAt).format('YYYY-MM-DD HH:mm'), '2026-05-21 10:00');
+});
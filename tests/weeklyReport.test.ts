@@ -0,0 +1,66 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { buildWeeklyReportText, nextWeeklyReportAt, WeeklyReport } from '../src/weeklyReport';
+
+const settings = {
+  timezone: 'Asia/Tbilisi',
+  activeHoursStart: 10 * 60,
+  activeHoursEnd: 22 * 60,
+  minGapMinutes: 30,
+};
+
+test('nextWeeklyReportAt picks the start of the active hours on the report weekday', () => {
+  const now = '2026-05-13T08:00:00.000Z'; // Wednesday 12:00 Asia/Tbilisi
+  assert.equal(nextWeeklyReportAt(0, settings, now), '2026-05-17T06:00:00.000Z');
+  assert.equal(nextWeeklyReportAt(3, settings, now), '2026-05-20T06:00:00.000Z');
+  assert.equal(nextWeeklyReportAt(3, settings, '2026-05-13T05:00:00.000Z'), '2026-05-13T06:00:00.000Z');
+  const weekdayHours = [{ start: 12 * 60, end: 20 * 60 }, null, null, null, null, null, { start: 9 * 60, end: 18 * 60 }];
+  assert.equal(nextWeeklyReportAt(0, { ...settings, weekdayHours }, now), '2026-05-17T08:00:00.000Z');
+  assert.equal(nextWeeklyReportAt(1, { ...settings, weekdayHours }, now), '2026-05-18T06:00:00.000Z');
+});
+
+test('nextWeeklyReportAt keeps the local start of the active hours across DST changes', () => {
+  // Europe/Berlin moves to CEST on 2026-03-29 and back to CET on 2026-10-25, both Sundays.
+  const berlin = { ...settings, timezone: 'Europe/Berlin', activeHoursStart: 9 * 60 };
+  assert.equal(nextWeeklyReportAt(0, berlin, '2026-10-21T12:00:00.000Z'), '2026-10-25T08:00:00.000Z');
+  assert.equal(nextWeeklyReportAt(0, berlin, '2026-03-25T12:00:00.000Z'), '2026-03-29T07:00:00.000Z');
+});
+
+test('buildWeeklyReportText lists reviews, streak, courses and the load ahead', () => {
+  const report: WeeklyReport = {
+    since: '2026-05-10T06:00:00.000Z',
+    until: '2026-05-17T06:00:00.000Z',
+    timezone: 'Asia/Tbilisi',
+    cardsAdded: 12,
+    reviews: 80,
+    againCount: 9,
+    streak: { current: 6, longest: 14, reviewedToday: true, activeDays: 40 },
+    courses: [
+      { courseId: 'c1', title: 'Основы SQL', released: 2, viewed: 3, totalSteps: 12, completed: false },
+    ],
+    upcoming: [
+      { date: '2026-05-17', due: 4 },
+      { date: '2026-05-18', due: 9 },
+      { date: '2026-05-19', due: 0 },
+    ],
+  };
+  const text = buildWeeklyReportText(report);
+  assert.ok(text.startsWith('📊 Итоги недели: 10 мая — 17 мая'));
+  assert.ok(text.includes('Новых карточек: 12'));
+  assert.ok(text.includes('Повторений: 80, «Снова» — 11%'));
+  assert.ok(text.includes('Дней подряд с повторениями: 6 (рекорд — 14)'));
+  assert.ok(text.includes('• Основы SQL — пройдено шагов: 3, новых шагов: 2 (всего шагов: 12)'));
+  assert.ok(text.includes('Повторений на следующей неделе: 13, больше всего — пн, 18 мая (9).'));
+
+  const quiet = buildWeeklyReportText({
+    ...report,
+    reviews: 0,
+    againCount: 0,
+    streak: { current: 0, longest: 14, reviewedToday: false, activeDays: 40 },
+    courses: [],
+    upcoming: [],
+  });
+  assert.ok(quiet.includes('Повторений на этой неделе не было.'));
+  assert.ok(quiet.includes('На следующей неделе повторений не запланировано.'));
+  assert.ok(!quiet.includes('Курсы:'));
+});